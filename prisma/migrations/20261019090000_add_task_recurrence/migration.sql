@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "occurrenceDate" DATE,
+ADD COLUMN     "recurrenceId" INTEGER,
+ADD COLUMN     "recurrenceIndex" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TaskRecurrence" (
+    "id" SERIAL NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "byWeekday" INTEGER[],
+    "byMonthDay" INTEGER,
+    "bySetPos" INTEGER,
+    "untilDate" DATE,
+    "count" INTEGER,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 3,
+    "allDay" BOOLEAN NOT NULL DEFAULT true,
+    "dueTime" VARCHAR(5),
+    "timeZone" VARCHAR(64) NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "TaskRecurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_recurrenceId_recurrenceIndex_key" ON "Task"("recurrenceId", "recurrenceIndex");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_recurrenceId_fkey" FOREIGN KEY ("recurrenceId") REFERENCES "TaskRecurrence"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "CommentRevisionType" AS ENUM ('EDITED', 'DELETED');
+
+-- CreateTable
+CREATE TABLE "TaskComment" (
+    "id" SERIAL NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "subTaskId" INTEGER,
+    "parentId" INTEGER,
+    "authorId" INTEGER,
+    "body" TEXT NOT NULL,
+    "editedAt" TIMESTAMPTZ(6),
+    "deletedAt" TIMESTAMPTZ(6),
+    "deletedById" INTEGER,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "TaskComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TaskCommentRevision" (
+    "id" SERIAL NOT NULL,
+    "commentId" INTEGER NOT NULL,
+    "body" TEXT NOT NULL,
+    "action" "CommentRevisionType" NOT NULL,
+    "editedById" INTEGER,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskCommentRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskComment_taskId_subTaskId_createdAt_idx" ON "TaskComment"("taskId", "subTaskId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TaskComment_parentId_idx" ON "TaskComment"("parentId");
+
+-- CreateIndex
+CREATE INDEX "TaskCommentRevision_commentId_createdAt_idx" ON "TaskCommentRevision"("commentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskComment" ADD CONSTRAINT "TaskComment_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskComment" ADD CONSTRAINT "TaskComment_subTaskId_fkey" FOREIGN KEY ("subTaskId") REFERENCES "SubTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskComment" ADD CONSTRAINT "TaskComment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "TaskComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskComment" ADD CONSTRAINT "TaskComment_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskComment" ADD CONSTRAINT "TaskComment_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskCommentRevision" ADD CONSTRAINT "TaskCommentRevision_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "TaskComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskCommentRevision" ADD CONSTRAINT "TaskCommentRevision_editedById_fkey" FOREIGN KEY ("editedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
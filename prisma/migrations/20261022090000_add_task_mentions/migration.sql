@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "TaskMention" (
+    "id" SERIAL NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "subTaskId" INTEGER,
+    "commentId" INTEGER,
+    "mentionedUserId" INTEGER NOT NULL,
+    "mentionedById" INTEGER,
+    "readAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskMention_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskMention_mentionedUserId_readAt_idx" ON "TaskMention"("mentionedUserId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "TaskMention_taskId_subTaskId_commentId_idx" ON "TaskMention"("taskId", "subTaskId", "commentId");
+
+-- AddForeignKey
+ALTER TABLE "TaskMention" ADD CONSTRAINT "TaskMention_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskMention" ADD CONSTRAINT "TaskMention_subTaskId_fkey" FOREIGN KEY ("subTaskId") REFERENCES "SubTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskMention" ADD CONSTRAINT "TaskMention_commentId_fkey" FOREIGN KEY ("commentId") REFERENCES "TaskComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskMention" ADD CONSTRAINT "TaskMention_mentionedUserId_fkey" FOREIGN KEY ("mentionedUserId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskMention" ADD CONSTRAINT "TaskMention_mentionedById_fkey" FOREIGN KEY ("mentionedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "TaskActivityAction" AS ENUM ('CREATED', 'UPDATED', 'STATUS_CHANGED', 'FORCE_CLOSED', 'ARCHIVED', 'RESTORED', 'ASSIGNED', 'ASSIGNEE_STATUS_CHANGED');
+
+-- CreateTable
+CREATE TABLE "TaskActivity" (
+    "id" SERIAL NOT NULL,
+    "taskId" INTEGER NOT NULL,
+    "subTaskId" INTEGER,
+    "actorId" INTEGER,
+    "action" "TaskActivityAction" NOT NULL,
+    "targetUserId" INTEGER,
+    "before" JSONB,
+    "after" JSONB,
+    "reason" TEXT,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskActivity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaskActivity_taskId_createdAt_idx" ON "TaskActivity"("taskId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TaskActivity" ADD CONSTRAINT "TaskActivity_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskActivity" ADD CONSTRAINT "TaskActivity_subTaskId_fkey" FOREIGN KEY ("subTaskId") REFERENCES "SubTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskActivity" ADD CONSTRAINT "TaskActivity_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskActivity" ADD CONSTRAINT "TaskActivity_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
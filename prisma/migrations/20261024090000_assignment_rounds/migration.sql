@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "TaskActivityAction" ADD VALUE 'ASSIGNMENT_SENT_BACK';
+
+-- AlterTable
+ALTER TABLE "TaskAssignee" DROP CONSTRAINT "TaskAssignee_pkey",
+ADD COLUMN     "id" SERIAL NOT NULL,
+ADD COLUMN     "round" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "isCurrent" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "sentBackAt" TIMESTAMPTZ(6),
+ADD COLUMN     "sentBackReason" TEXT,
+ADD CONSTRAINT "TaskAssignee_pkey" PRIMARY KEY ("id");
+
+-- AlterTable
+ALTER TABLE "SubTaskAssignee" DROP CONSTRAINT "SubTaskAssignee_pkey",
+ADD COLUMN     "id" SERIAL NOT NULL,
+ADD COLUMN     "round" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "isCurrent" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "sentBackAt" TIMESTAMPTZ(6),
+ADD COLUMN     "sentBackReason" TEXT,
+ADD CONSTRAINT "SubTaskAssignee_pkey" PRIMARY KEY ("id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaskAssignee_taskId_assigneeId_round_key" ON "TaskAssignee"("taskId", "assigneeId", "round");
+
+-- CreateIndex
+CREATE INDEX "TaskAssignee_taskId_isCurrent_idx" ON "TaskAssignee"("taskId", "isCurrent");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubTaskAssignee_subTaskId_assigneeId_round_key" ON "SubTaskAssignee"("subTaskId", "assigneeId", "round");
+
+-- CreateIndex
+CREATE INDEX "SubTaskAssignee_subTaskId_isCurrent_idx" ON "SubTaskAssignee"("subTaskId", "isCurrent");
+
+-- 每位成員同時只能有一輪進行中的指派（Prisma schema 無法表達 partial unique index）
+CREATE UNIQUE INDEX "TaskAssignee_current_round_key" ON "TaskAssignee"("taskId", "assigneeId") WHERE "isCurrent";
+
+CREATE UNIQUE INDEX "SubTaskAssignee_current_round_key" ON "SubTaskAssignee"("subTaskId", "assigneeId") WHERE "isCurrent";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "autoCloseOnComplete" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "Label" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(50) NOT NULL,
+    "color" VARCHAR(7) NOT NULL,
+    "groupId" INTEGER,
+    "ownerId" INTEGER,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Label_pkey" PRIMARY KEY ("id"),
+    -- 群組標籤與個人標籤二選一
+    CONSTRAINT "Label_scope_check" CHECK (("groupId" IS NULL) <> ("ownerId" IS NULL))
+);
+
+-- CreateTable
+CREATE TABLE "TaskLabel" (
+    "taskId" INTEGER NOT NULL,
+    "labelId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaskLabel_pkey" PRIMARY KEY ("taskId","labelId")
+);
+
+-- CreateTable
+CREATE TABLE "SubTaskLabel" (
+    "subTaskId" INTEGER NOT NULL,
+    "labelId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SubTaskLabel_pkey" PRIMARY KEY ("subTaskId","labelId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Label_groupId_name_key" ON "Label"("groupId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Label_ownerId_name_key" ON "Label"("ownerId", "name");
+
+-- CreateIndex
+CREATE INDEX "TaskLabel_labelId_idx" ON "TaskLabel"("labelId");
+
+-- CreateIndex
+CREATE INDEX "SubTaskLabel_labelId_idx" ON "SubTaskLabel"("labelId");
+
+-- AddForeignKey
+ALTER TABLE "Label" ADD CONSTRAINT "Label_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Label" ADD CONSTRAINT "Label_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLabel" ADD CONSTRAINT "TaskLabel_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaskLabel" ADD CONSTRAINT "TaskLabel_labelId_fkey" FOREIGN KEY ("labelId") REFERENCES "Label"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SubTaskLabel" ADD CONSTRAINT "SubTaskLabel_subTaskId_fkey" FOREIGN KEY ("subTaskId") REFERENCES "SubTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SubTaskLabel" ADD CONSTRAINT "SubTaskLabel_labelId_fkey" FOREIGN KEY ("labelId") REFERENCES "Label"("id") ON DELETE CASCADE ON UPDATE CASCADE;
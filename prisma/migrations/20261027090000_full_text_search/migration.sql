@@ -0,0 +1,17 @@
+-- 全文搜尋用的 expression index；查詢必須用完全相同的運算式才會走索引
+-- (TaskSearchService 的 searchDocument)。'simple' 不做詞幹處理，中英文混用時比較可預期。
+
+-- CreateIndex
+CREATE INDEX "Task_search_idx" ON "Task" USING GIN (
+    to_tsvector('simple'::regconfig, coalesce("title", '') || ' ' || coalesce("description", '') || ' ' || coalesce("location", ''))
+);
+
+-- CreateIndex
+CREATE INDEX "SubTask_search_idx" ON "SubTask" USING GIN (
+    to_tsvector('simple'::regconfig, coalesce("title", '') || ' ' || coalesce("description", '') || ' ' || coalesce("location", ''))
+);
+
+-- CreateIndex
+CREATE INDEX "TaskComment_search_idx" ON "TaskComment" USING GIN (
+    to_tsvector('simple'::regconfig, "body")
+) WHERE "deletedAt" IS NULL;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "icalUid" VARCHAR(255);
+
+-- CreateIndex
+CREATE INDEX "Task_icalUid_idx" ON "Task"("icalUid");
@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ASSIGNMENT_ACCEPTED';
+ALTER TYPE "NotificationType" ADD VALUE 'ASSIGNMENT_DECLINED';
+ALTER TYPE "NotificationType" ADD VALUE 'SUB_TASK_CLOSED';
+
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN     "inApp" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "quietHoursEnd" SMALLINT,
+ADD COLUMN     "quietHoursStart" SMALLINT;
+
+-- CreateTable
+CREATE TABLE "NotificationPreference" (
+    "userId" INTEGER NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "inApp" BOOLEAN NOT NULL DEFAULT true,
+    "email" BOOLEAN NOT NULL DEFAULT false,
+    "realtime" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "NotificationPreference_pkey" PRIMARY KEY ("userId","type")
+);
+
+-- AddForeignKey
+ALTER TABLE "NotificationPreference" ADD CONSTRAINT "NotificationPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "dailyDigestHour" SMALLINT DEFAULT 8,
+ADD COLUMN     "lastDigestOn" DATE,
+ADD COLUMN     "reminderOffsets" INTEGER[] DEFAULT ARRAY[1440]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "JobLease" (
+    "name" VARCHAR(64) NOT NULL,
+    "holder" VARCHAR(128) NOT NULL,
+    "expiresAt" TIMESTAMPTZ(6) NOT NULL,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "JobLease_pkey" PRIMARY KEY ("name")
+);
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "MailStatus" AS ENUM ('PENDING', 'SENDING', 'SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "MailOutbox" (
+    "id" SERIAL NOT NULL,
+    "to" VARCHAR(255) NOT NULL,
+    "subject" VARCHAR(255) NOT NULL,
+    "template" VARCHAR(100) NOT NULL,
+    "context" JSONB NOT NULL,
+    "status" "MailStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" VARCHAR(1000),
+    "nextAttemptAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "MailOutbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MailOutbox_status_nextAttemptAt_idx" ON "MailOutbox"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "MailOutbox_to_idx" ON "MailOutbox"("to");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "RealtimeRoom" (
+    "room" VARCHAR(128) NOT NULL,
+    "lastSeq" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "RealtimeRoom_pkey" PRIMARY KEY ("room")
+);
+
+-- CreateTable
+CREATE TABLE "RealtimeEvent" (
+    "id" SERIAL NOT NULL,
+    "room" VARCHAR(128) NOT NULL,
+    "seq" INTEGER NOT NULL,
+    "event" VARCHAR(64) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RealtimeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RealtimeEvent_room_seq_key" ON "RealtimeEvent"("room", "seq");
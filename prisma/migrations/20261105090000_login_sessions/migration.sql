@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "LoginSession" (
+    "id" SERIAL NOT NULL,
+    "refreshTokenHash" TEXT NOT NULL,
+    "previousTokenHash" TEXT,
+    "userId" INTEGER NOT NULL,
+    "userAgent" VARCHAR(512),
+    "ipAddress" VARCHAR(64),
+    "rotatedAt" TIMESTAMPTZ(6),
+    "lastActiveAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMPTZ(6) NOT NULL,
+    "revokedAt" TIMESTAMPTZ(6),
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoginSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoginSession_refreshTokenHash_key" ON "LoginSession"("refreshTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoginSession_previousTokenHash_key" ON "LoginSession"("previousTokenHash");
+
+-- CreateIndex
+CREATE INDEX "LoginSession_userId_revokedAt_idx" ON "LoginSession"("userId", "revokedAt");
+
+-- AddForeignKey
+ALTER TABLE "LoginSession" ADD CONSTRAINT "LoginSession_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
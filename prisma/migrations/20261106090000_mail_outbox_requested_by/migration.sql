@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "MailOutbox" ADD COLUMN     "requestedById" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "MailOutbox_requestedById_idx" ON "MailOutbox"("requestedById");
+
+-- AddForeignKey
+ALTER TABLE "MailOutbox" ADD CONSTRAINT "MailOutbox_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "MailOutbox" ADD COLUMN     "secretFields" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- 還沒寄出的信補上要清掉的欄位
+UPDATE "MailOutbox" SET "secretFields" = ARRAY['link']
+WHERE "template" IN ('auth/reset-password-letter', 'groups/invite-letter');
+UPDATE "MailOutbox" SET "secretFields" = ARRAY['acceptLink', 'rejectLink']
+WHERE "template" = 'tasks/urgent-notification-letter';
+
+-- 已經寄出或放棄的信：連結不會再用到，直接清掉
+UPDATE "MailOutbox"
+SET "context" = "context" || jsonb_build_object('link', NULL)
+WHERE "status" IN ('SENT', 'FAILED')
+  AND "template" IN ('auth/reset-password-letter', 'groups/invite-letter');
+UPDATE "MailOutbox"
+SET "context" = "context" || jsonb_build_object('acceptLink', NULL, 'rejectLink', NULL)
+WHERE "status" IN ('SENT', 'FAILED')
+  AND "template" = 'tasks/urgent-notification-letter';
@@ -0,0 +1,147 @@
+// public/js/notification-bell.js
+
+/**
+ * Header 鈴鐺：站內通知清單、未讀數與已讀 / 刪除
+ */
+const notificationIcons = {
+  ASSIGNED: 'bi-person-check',
+  ASSIGNMENT_ACCEPTED: 'bi-hand-thumbs-up',
+  ASSIGNMENT_DECLINED: 'bi-hand-thumbs-down',
+  MENTIONED: 'bi-at',
+  TASK_FORCE_CLOSED: 'bi-x-octagon',
+  SUB_TASK_CLOSED: 'bi-check2-square',
+  ROLE_CHANGED: 'bi-shield-check',
+  GROUP_INVITED: 'bi-envelope-paper',
+  DUE_SOON: 'bi-alarm',
+};
+
+// 標題與內文來自使用者輸入，一律跳脫
+function escapeHtml(text) {
+  const div = document.createElement('div');
+  div.textContent = text ?? '';
+  return div.innerHTML;
+}
+
+function bellCsrf() {
+  return document.getElementById('notificationBell')?.dataset.csrf;
+}
+
+async function postNotification(path) {
+  const response = await fetch(`/api/notifications/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-csrf-token': bellCsrf(),
+    },
+  });
+  if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+  const { unreadCount } = await response.json();
+  renderUnreadCount(unreadCount);
+}
+
+function renderUnreadCount(count) {
+  const badge = document.getElementById('notificationBadge');
+  if (!badge) return;
+
+  badge.innerText = count > 99 ? '99+' : count;
+  badge.classList.toggle('d-none', !count);
+}
+
+function renderNotifications(items) {
+  const listEl = document.getElementById('notificationList');
+  if (!listEl) return;
+
+  if (!items.length) {
+    listEl.innerHTML =
+      '<div class="text-center text-muted small py-3">No notifications yet.</div>';
+    return;
+  }
+
+  listEl.innerHTML = items
+    .map((item) => {
+      const icon = notificationIcons[item.type] || 'bi-bell';
+      const time = new Date(item.createdAt).toLocaleString();
+
+      return `
+      <div class="notification-item d-flex gap-2 px-3 py-2 border-bottom ${item.read ? '' : 'bg-primary-subtle'}" data-id="${item.id}" data-url="${escapeHtml(item.url || '')}" role="button">
+        <i class="bi ${icon} text-primary mt-1"></i>
+        <div class="flex-grow-1 small" style="min-width: 0;">
+          <div class="${item.read ? '' : 'fw-semibold'} text-break">${escapeHtml(item.title)}</div>
+          ${item.body ? `<div class="text-muted text-truncate">${escapeHtml(item.body)}</div>` : ''}
+          <div class="text-muted" style="font-size: 0.7rem;">${time}</div>
+        </div>
+        <button type="button" class="btn-close btn-sm notification-dismiss" aria-label="Dismiss"></button>
+      </div>
+    `;
+    })
+    .join('');
+}
+
+async function loadNotifications() {
+  try {
+    const response = await fetch('/api/notifications', {
+      headers: { Accept: 'application/json' },
+    });
+    if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+
+    const { unreadCount, items } = await response.json();
+    renderUnreadCount(unreadCount);
+    renderNotifications(items);
+  } catch (err) {
+    console.error('[Notification Bell Error]:', err);
+  }
+}
+
+window.addEventListener('load', () => {
+  const bell = document.getElementById('notificationBell');
+  const listEl = document.getElementById('notificationList');
+  if (!bell || !listEl) return;
+
+  loadNotifications();
+  bell.addEventListener('show.bs.dropdown', loadNotifications);
+
+  // 新通知由伺服器推播（public/js/realtime.js 的共用連線），不再輪詢
+  if (typeof appSocket !== 'undefined' && appSocket) {
+    appSocket.on('notificationCreated', loadNotifications);
+    appSocket.io.on('reconnect', loadNotifications);
+  }
+
+  document
+    .getElementById('notificationReadAll')
+    ?.addEventListener('click', async () => {
+      try {
+        await postNotification('read-all');
+        await loadNotifications();
+      } catch (err) {
+        console.error('[Notification Bell Error]:', err);
+      }
+    });
+
+  listEl.addEventListener('click', async (event) => {
+    const itemEl = event.target.closest('.notification-item');
+    if (!itemEl) return;
+    const { id, url } = itemEl.dataset;
+
+    try {
+      if (event.target.closest('.notification-dismiss')) {
+        await postNotification(`${id}/dismiss`);
+        itemEl.remove();
+        if (!listEl.querySelector('.notification-item'))
+          renderNotifications([]);
+        return;
+      }
+
+      // 點開 = 已讀，有連結就跳過去
+      await postNotification(`${id}/read`);
+      if (url) {
+        window.location.href = url;
+      } else {
+        itemEl.classList.remove('bg-primary-subtle');
+        itemEl.querySelector('.fw-semibold')?.classList.remove('fw-semibold');
+      }
+    } catch (err) {
+      console.error('[Notification Bell Error]:', err);
+    }
+  });
+});
@@ -5,9 +5,7 @@
  */
 async function checkNotifications() {
   try {
-    const response = await fetch(
-      'http://localhost:3000/api/tasks/notifications',
-    );
+    const response = await fetch('/api/tasks/notifications');
 
     if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
 
@@ -16,11 +14,8 @@ async function checkNotifications() {
     // 檢查回傳的是否為陣列
     if (Array.isArray(data)) {
       // 🚨 需求 2：過濾掉 Personal 任務 (不顯示個人任務的 Pending 通知)
-      // 這裡判斷 'Personal' 或 '個人任務' 是為了保證不同語系設定下的安全
-      const filteredTasks = data.filter(
-        (item) =>
-          item.groupName !== 'Personal' && item.groupName !== '個人任務',
-      );
+      // 用 groupId 判斷；群組名稱可能剛好叫 'Personal'
+      const filteredTasks = data.filter((item) => item.groupId != null);
 
       if (filteredTasks.length > 0) {
         renderTaskList(filteredTasks);
@@ -109,8 +104,13 @@ function hideNotificationToast() {
   }
 }
 
-// 監聽頁面載入
+// 監聽頁面載入；之後只在伺服器推播（新通知、指派或任務變動）時重新檢查
 window.addEventListener('load', () => {
   checkNotifications();
-  setInterval(checkNotifications, 60000); // 每一分鐘檢查一次
+
+  if (typeof appSocket === 'undefined' || !appSocket) return;
+  appSocket.on('notificationCreated', checkNotifications);
+  appSocket.on('taskListChanged', checkNotifications);
+  // 斷線期間可能漏掉推播，重新連上時補一次
+  appSocket.io.on('reconnect', checkNotifications);
 });
@@ -0,0 +1,100 @@
+// public/js/realtime.js
+
+/**
+ * 每個頁面共用的 Socket.IO 連線：通知推播與看板即時更新
+ * 伺服器驗證登入後會自動加入自己的 user_ 房間與所屬群組的 group_ 房間
+ */
+const appSocket = typeof io === 'function' ? io() : null;
+
+// 已經試過換發 access token、還沒重新連上的連線
+const refreshingSockets = new WeakSet();
+
+/**
+ * access token 效期很短，過期後握手會被伺服器拒絕（socket.active 為 false，不會自動重連）
+ * 先打一支需要登入的 API，讓伺服器用 refresh cookie 換發新的 access token 再重連
+ * 每次斷線只試一次；換不到（已登出或裝置被撤銷）就維持斷線
+ */
+function refreshLoginAndReconnect(socket) {
+  if (socket.active || refreshingSockets.has(socket)) return;
+  refreshingSockets.add(socket);
+  socket.once('connect', () => refreshingSockets.delete(socket));
+
+  fetch('/api/v1/auth/me', { credentials: 'same-origin' })
+    .then((res) => {
+      if (res.ok) socket.connect();
+    })
+    .catch(() => {});
+}
+
+if (appSocket) {
+  appSocket.on('connect_error', () => refreshLoginAndReconnect(appSocket));
+}
+
+function showRealtimeBanner(message) {
+  if (document.querySelector('.js-realtime-banner')) return;
+
+  const banner = document.createElement('div');
+  banner.className =
+    'position-fixed top-0 start-0 w-100 alert alert-info text-center mb-0 rounded-0 js-realtime-banner';
+  banner.style.zIndex = 1080;
+  banner.textContent = message;
+  document.body.prepend(banner);
+}
+
+/**
+ * 看板（tasks/home、groups/tasks-home）：有任務或成員變動就重新整理
+ * - groupId 為 null 時是個人看板，只看自己的個人任務
+ * - 自己在目前這個分頁做的操作，頁面本來就會重新整理，不用再處理
+ */
+function initDashboardRealtime({ groupId = null, currentUserId }) {
+  if (!appSocket) return;
+
+  const pageGroupId = groupId ? Number(groupId) : null;
+  const me = Number(currentUserId);
+  let reloadTimer;
+
+  const isOwnActionHere = (data) =>
+    Number(data.actorId) === me && document.visibilityState === 'visible';
+
+  // 連續好幾筆事件（例如匯入）只重新整理一次
+  const scheduleReload = (message) => {
+    showRealtimeBanner(message);
+    clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => window.location.reload(), 1500);
+  };
+
+  const labels = {
+    TASK_CREATED: 'added',
+    TASK_CLOSED: 'closed',
+    TASK_ARCHIVED: 'archived',
+    TASK_RESTORED: 'restored',
+    ASSIGNMENT_CHANGED: 'updated the assignees of',
+  };
+
+  appSocket.on('taskListChanged', (data) => {
+    const eventGroupId = data.groupId ? Number(data.groupId) : null;
+    if (eventGroupId !== pageGroupId || isOwnActionHere(data)) return;
+
+    const actor = data.userName || 'Someone';
+    const action = labels[data.type] || 'changed';
+    scheduleReload(`${actor} ${action} "${data.title}". Refreshing...`);
+  });
+
+  appSocket.on('memberChanged', (data) => {
+    if (!pageGroupId || Number(data.groupId) !== pageGroupId) return;
+
+    // 自己被踢出或在別的分頁離開：這個看板已經不能看了
+    const removed =
+      data.type === 'MEMBER_KICKED' || data.type === 'MEMBER_LEFT';
+    if (removed && Number(data.userId) === me) {
+      showRealtimeBanner('You are no longer a member of this group.');
+      setTimeout(() => {
+        window.location.href = '/groups/list';
+      }, 1500);
+      return;
+    }
+
+    if (isOwnActionHere(data)) return;
+    scheduleReload('Group members changed. Refreshing...');
+  });
+}
@@ -32,9 +32,103 @@ function showTopBanner(message, type = 'warning') {
     parseInt(getComputedStyle(document.body).paddingTop) + h + 'px';
 }
 
+function escapeHtml(text) {
+  const div = document.createElement('div');
+  div.innerText = text ?? '';
+  return div.innerHTML;
+}
+
+// 其他人新增的留言：只放內容，不含操作按鈕（重新整理後才會出現）
+function renderComment(comment) {
+  const name = comment.authorName || '?';
+  const time = new Date(comment.createdAt).toLocaleString();
+  return `
+    <div class="d-flex gap-2 mb-3" id="comment-${comment.id}" data-comment-id="${comment.id}">
+      <span class="comment-initial" title="${escapeHtml(name)}">${escapeHtml(name.trim().charAt(0).toUpperCase())}</span>
+      <div class="flex-grow-1 min-w-0">
+        <div class="d-flex align-items-baseline gap-2">
+          <strong class="small">${escapeHtml(name)}</strong>
+          <small class="text-muted">${escapeHtml(time)}</small>
+        </div>
+        <p class="mb-1 js-comment-body" style="white-space: pre-wrap;">${escapeHtml(comment.body)}</p>
+        ${comment.parentId ? '' : '<div class="ms-2 mt-2 js-comment-replies"></div>'}
+      </div>
+    </div>
+  `;
+}
+
+function applyCommentChange(data) {
+  const list = document.getElementById('comment-list');
+  const { comment } = data;
+  if (!list || !comment) return;
+
+  const existing = document.getElementById(`comment-${comment.id}`);
+
+  if (data.type === 'COMMENT_CREATED' && !existing) {
+    const parent = comment.parentId
+      ? document.querySelector(
+          `#comment-${comment.parentId} .js-comment-replies`,
+        )
+      : list;
+    if (!parent) return;
+    list.querySelector('.js-comment-empty')?.remove();
+    parent.insertAdjacentHTML('beforeend', renderComment(comment));
+    return;
+  }
+
+  if (!existing) return;
+  const body = existing.querySelector('.js-comment-body');
+
+  if (data.type === 'COMMENT_UPDATED' && body) {
+    body.innerText = comment.body;
+  }
+
+  if (data.type === 'COMMENT_DELETED' && body) {
+    body.innerText = 'This comment was deleted.';
+    body.classList.add('fst-italic', 'text-muted');
+    existing.querySelector('.js-comment-actions')?.remove();
+  }
+}
+
+// 正在看這個頁面的人：縮寫頭像，滑過去看名字、分頁數與最後活動時間
+function renderPresence(container, viewers, currentUserId) {
+  if (!container) return;
+  const others = [...viewers.values()].filter(
+    (v) => Number(v.userId) !== Number(currentUserId),
+  );
+  const list = container.querySelector('.js-presence-list');
+
+  list.innerHTML = others
+    .map((v) => {
+      const name = v.userName || '?';
+      const tabs = v.sockets > 1 ? ` (${v.sockets} tabs)` : '';
+      const active = new Date(v.lastSeenAt).toLocaleTimeString();
+      const title = `${name}${tabs} · active ${active}`;
+      return `<span class="badge rounded-circle text-bg-secondary" title="${escapeHtml(title)}">${escapeHtml(name.trim().charAt(0).toUpperCase())}</span>`;
+    })
+    .join('');
+  container.classList.toggle('d-none', others.length === 0);
+}
+
 const initTaskSocket = (config) => {
-  const { taskId, subTaskId, currentUserId, currentUserName } = config;
+  const { taskId, subTaskId, currentUserId } = config;
   const socket = io();
+  // 子任務頁面也在主任務房間，presence 只看目前頁面的房間
+  const pageRoom = subTaskId
+    ? `task_${taskId}_subTask_${subTaskId}`
+    : `task_${taskId}`;
+  const viewers = new Map();
+  const presenceEl = document.getElementById('presence-avatars');
+
+  // 每個房間最後收到的事件序號；重連時帶給伺服器，補回斷線期間漏掉的事件
+  const lastSeqByRoom = {};
+  const taskRoom = `task_${taskId}`;
+  const isNewEvent = (data) => {
+    if (!data.room || typeof data.seq !== 'number') return true;
+    if (data.seq <= (lastSeqByRoom[data.room] ?? 0)) return false;
+    lastSeqByRoom[data.room] = data.seq;
+    return true;
+  };
 
   let isTypingSent = false;
   let stopTypingTimer;
@@ -48,13 +142,55 @@ const initTaskSocket = (config) => {
 
   // --- WebSocket 監聽事件 ---
 
+  // 登入過期被拒絕時換發後重連（refreshLoginAndReconnect 在 realtime.js）
+  socket.on('connect_error', () => {
+    if (typeof refreshLoginAndReconnect === 'function') {
+      refreshLoginAndReconnect(socket);
+    }
+  });
+
   socket.on('connect', () => {
     console.log('Connected! Joining room:', taskId);
-    socket.emit('joinTask', taskId);
+    socket.emit('joinTask', {
+      taskId,
+      lastSeq: lastSeqByRoom[taskRoom] ?? null,
+    });
+    if (subTaskId) {
+      socket.emit('joinSubTask', {
+        taskId,
+        subTaskId,
+        lastSeq: lastSeqByRoom[pageRoom] ?? null,
+      });
+    }
+  });
+
+  socket.on('joined', (data) => {
+    lastSeqByRoom[data.room] = Math.max(
+      lastSeqByRoom[data.room] ?? 0,
+      data.seq ?? 0,
+    );
+  });
+
+  // 離線太久，漏掉的事件已經補不回來：整頁重新載入
+  socket.on('resyncRequired', () => {
+    showTopBanner(
+      'You were offline for a while. Reloading to get latest data...',
+      'warning',
+    );
+    setTimeout(() => window.location.reload(), 2500);
+  });
+
+  // 被踢出或離開群組：伺服器會斷線，不會自動重連
+  socket.on('accessRevoked', () => {
+    showTopBanner('You no longer have access to this group.', 'error');
+    setTimeout(() => {
+      window.location.href = '/tasks/home';
+    }, 2500);
   });
 
   // 監聽：頁面資料更新
   socket.on('taskUpdated', (data) => {
+    if (!isNewEvent(data)) return;
     if (Number(data.actorId) !== Number(currentUserId)) {
       const actor = data.userName || 'Someone';
       const msg = `<strong>${actor}</strong> just updated this task. Reloading to get latest data...`;
@@ -67,6 +203,7 @@ const initTaskSocket = (config) => {
   });
 
   socket.on('subTaskUpdated', (data) => {
+    if (!isNewEvent(data)) return;
     console.log('Received data: task-socket', data); // 現在這行應該會印了
 
     // 🚀 關鍵修正：檢查後端傳來的 subTaskId 是否等於「目前頁面」的 ID
@@ -85,6 +222,39 @@ const initTaskSocket = (config) => {
     }
   });
 
+  // 監聽：留言（子任務頁面也在主任務房間裡，所以要比對 subTaskId）
+  socket.on('commentChanged', (data) => {
+    if (Number(data.actorId) === Number(currentUserId)) return;
+
+    const pageSubTaskId = subTaskId ? Number(subTaskId) : null;
+    const commentSubTaskId = data.subTaskId ? Number(data.subTaskId) : null;
+    if (pageSubTaskId !== commentSubTaskId) return;
+
+    applyCommentChange(data);
+  });
+
+  // 監聽：誰正在看（加入時拿到完整名單，之後只收增減）
+  socket.on('presence', (data) => {
+    if (data.room !== pageRoom) return;
+    viewers.clear();
+    data.viewers.forEach((v) => viewers.set(v.userId, v));
+    renderPresence(presenceEl, viewers, currentUserId);
+  });
+
+  socket.on('presenceJoined', (data) => {
+    if (data.room !== pageRoom || !data.viewer) return;
+    viewers.set(data.viewer.userId, data.viewer);
+    renderPresence(presenceEl, viewers, currentUserId);
+  });
+
+  socket.on('presenceLeft', (data) => {
+    if (data.room !== pageRoom) return;
+    const viewer = viewers.get(data.userId);
+    if (data.sockets > 0 && viewer) viewer.sockets = data.sockets;
+    else viewers.delete(data.userId);
+    renderPresence(presenceEl, viewers, currentUserId);
+  });
+
   // 監聽：打字提示
   socket.on('userTyping', (data) => {
     if (typingText) typingText.innerText = `${data.userName} is typing...`;
@@ -117,7 +287,8 @@ const initTaskSocket = (config) => {
       const stopEventType = subTaskId ? 'stopSubTyping' : 'stopTyping';
 
       // 🚀 3. 準備 Payload (如果是子任務要多傳 subTaskId)
-      const payload = { taskId, userName: currentUserName };
+      // 名字由伺服器依登入身分補上
+      const payload = { taskId };
       if (subTaskId) payload.subTaskId = subTaskId;
 
       if (!isTypingSent) {
@@ -139,6 +310,7 @@ const initTaskSocket = (config) => {
   // 🚀 4. 這裡要確保 ID 對得上你的 Modal 或頁面輸入框
   handleTyping('title');
   handleTyping('description');
+  handleTyping('comment-body');
 
   return { socket };
 };
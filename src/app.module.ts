@@ -10,6 +10,8 @@ import { TasksModule } from './tasks/tasks.module';
 import { PagesModule } from './pages/pages.module';
 import { GroupsModule } from './groups/groups.module';
 import { SecurityModule } from './security/security.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
 import { ServeStaticModule } from '@nestjs/serve-static';
 import { join } from 'path';
 import { APP_GUARD } from '@nestjs/core';
@@ -37,6 +39,8 @@ import { AccessTokenGuard } from './auth/guards/access-token.guard';
     GroupsModule,
     PagesModule,
     SecurityModule,
+    NotificationsModule,
+    SchedulerModule,
   ],
   controllers: [AppController],
   providers: [AppService, { provide: APP_GUARD, useClass: AccessTokenGuard }],
@@ -0,0 +1,156 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  Res,
+  UseFilters,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { AuthService } from './auth.service';
+import {
+  AuthForgotPasswordDto,
+  AuthSigninDto,
+  AuthSignupDto,
+  AuthUpdatePasswordDto,
+} from './dto/auth.dto';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { Public } from 'src/common/decorators/public.decorator';
+import { ApiExceptionFilter } from 'src/common/filters/api-exception.filter';
+import {
+  ApiAcceptedResponse,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  ACCESS_COOKIE_SCHEME,
+  ApiCsrf,
+  ApiErrorResponses,
+  ApiSignedIn,
+} from 'src/common/decorators/api-docs.decorator';
+import { TokenScopes } from './decorators/token-scopes.decorator';
+import {
+  LoginSessionsService,
+  REFRESH_COOKIE,
+  sessionDeviceOf,
+} from './login-sessions.service';
+
+// JSON 版的登入 API：一樣用 grouptodo_login / grouptodo_refresh cookie，POST 要帶 x-csrf-token
+@ApiTags('auth')
+@ApiErrorResponses()
+@Controller('api/v1/auth')
+@UseFilters(ApiExceptionFilter)
+export class AuthApiController {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly loginSessions: LoginSessionsService,
+  ) {}
+
+  // 腳本沒有頁面可以拿 csrfToken，先打這支再帶到 x-csrf-token
+  @Public()
+  @Get('csrf-token')
+  @ApiOkResponse({
+    description:
+      'A token for the x-csrf-token header; also sets the XSRF-TOKEN cookie',
+  })
+  csrfToken(@Req() req: Request) {
+    return { csrfToken: req.csrfToken?.() ?? null };
+  }
+
+  @Public()
+  @Post('signup')
+  @ApiCsrf()
+  @ApiCreatedResponse({ description: 'The account was created' })
+  @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.CONFLICT)
+  async signup(@Body() dto: AuthSignupDto) {
+    await this.authService.signup(dto);
+    return { name: dto.name, email: dto.email, timeZone: dto.timeZone };
+  }
+
+  @Public()
+  @Post('signin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiCsrf()
+  @ApiNoContentResponse({
+    description: `Signed in; the ${ACCESS_COOKIE_SCHEME} (short-lived access token) and ${REFRESH_COOKIE} cookies are set`,
+  })
+  @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.UNAUTHORIZED)
+  async signin(
+    @Req() req: Request,
+    @Body() dto: AuthSigninDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const tokens = await this.authService.signin(
+      dto.email,
+      dto.password,
+      sessionDeviceOf(req),
+    );
+    this.loginSessions.writeCookies(res, tokens);
+  }
+
+  @Public()
+  @Post('signout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiCsrf()
+  @ApiNoContentResponse({
+    description: `The login session is revoked and its ${ACCESS_COOKIE_SCHEME} and ${REFRESH_COOKIE} cookies are cleared`,
+  })
+  async signout(
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const refreshToken = req.cookies?.[REFRESH_COOKIE] as string | undefined;
+    if (refreshToken) {
+      await this.loginSessions.revokeByRefreshToken(refreshToken);
+    }
+    this.loginSessions.clearCookies(res);
+  }
+
+  @Get('me')
+  @TokenScopes()
+  @ApiSignedIn()
+  @ApiOkResponse({ description: 'The signed-in user' })
+  me(@GetCurrentUser() user: CurrentUser) {
+    return user;
+  }
+
+  @Post('change-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiSignedIn()
+  @ApiCsrf()
+  @ApiNoContentResponse({
+    description:
+      'Password changed; every other login session of the user is revoked',
+  })
+  @ApiErrorResponses(HttpStatus.BAD_REQUEST)
+  async changePassword(
+    @GetCurrentUser() user: CurrentUser,
+    @Body() dto: AuthUpdatePasswordDto,
+  ) {
+    await this.authService.changePassword({
+      userId: user.userId,
+      email: user.email,
+      sessionId: user.sessionId,
+      ...dto,
+    });
+  }
+
+  // 不管 email 有沒有註冊都回 202，避免被拿來探測帳號
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiCsrf()
+  @ApiAcceptedResponse({
+    description: 'A reset email is sent when the address has an account',
+  })
+  @ApiErrorResponses(HttpStatus.BAD_REQUEST)
+  async resetPassword(@Body() dto: AuthForgotPasswordDto) {
+    await this.authService.resetPassword(dto.email);
+  }
+}
@@ -22,6 +22,7 @@ import {
 import { CurrentUser } from 'src/common/types/current-user';
 import { SecurityService } from 'src/security/security.service';
 import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import { LoginSessionsService } from './login-sessions.service';
 
 describe('AuthController', () => {
   let authController: AuthController;
@@ -30,6 +31,7 @@ describe('AuthController', () => {
   let res: Response;
   let currentUser: CurrentUser;
   const ACCESS_TOKEN = { accessToken: 'jwtToken' };
+  const LOGIN_TOKENS = { accessToken: 'jwtToken', refreshToken: 'refresh' };
   const dummyCookieOptions = {
     httpOnly: true,
     sameSite: 'lax',
@@ -46,6 +48,11 @@ describe('AuthController', () => {
   };
 
   const mockSecurityService = createMockSecurityService();
+  const mockLoginSessions = {
+    writeCookies: jest.fn(),
+    clearCookies: jest.fn(),
+    revokeByRefreshToken: jest.fn(),
+  };
 
   beforeAll(async () => {
     const module = await Test.createTestingModule({
@@ -53,6 +60,7 @@ describe('AuthController', () => {
       providers: [
         { provide: AuthService, useValue: mockAuthService },
         { provide: SecurityService, useValue: mockSecurityService },
+        { provide: LoginSessionsService, useValue: mockLoginSessions },
       ],
     }).compile();
 
@@ -65,7 +73,7 @@ describe('AuthController', () => {
     res = createMockRes();
     currentUser = createMockCurrentUser();
 
-    mockAuthService.signin.mockResolvedValue(ACCESS_TOKEN);
+    mockAuthService.signin.mockResolvedValue(LOGIN_TOKENS);
   });
 
   describe('signup', () => {
@@ -95,22 +103,29 @@ describe('AuthController', () => {
     });
 
     it('should sign in user and redirect with token', async () => {
-      mockAuthService.signin.mockResolvedValueOnce(ACCESS_TOKEN);
-      mockSecurityService.getCookieOptions.mockReturnValue(dummyCookieOptions);
+      req = createMockReq({ headers: { 'user-agent': 'Mozilla/5.0' } });
       await authController.signin(req, dto, res);
-      expect(res.cookie).toHaveBeenCalledWith('grouptodo_login', 'jwtToken', {
-        httpOnly: true,
-        sameSite: 'lax',
-        maxAge: 123456,
-      });
+      expect(mockAuthService.signin).toHaveBeenCalledWith(
+        dto.email,
+        dto.password,
+        { userAgent: 'Mozilla/5.0', ipAddress: null },
+      );
+      expect(mockLoginSessions.writeCookies).toHaveBeenCalledWith(
+        res,
+        LOGIN_TOKENS,
+      );
       expect(res.redirect).toHaveBeenCalledWith('/tasks/home');
     });
   });
 
   describe('signout', () => {
-    it('should sign out user and redirect with success message', () => {
-      authController.signout(req, res);
-      expect(res.clearCookie).toHaveBeenCalledWith('grouptodo_login');
+    it('should sign out user and redirect with success message', async () => {
+      req = createMockReq({ cookies: { grouptodo_refresh: 'refresh' } });
+      await authController.signout(req, res);
+      expect(mockLoginSessions.revokeByRefreshToken).toHaveBeenCalledWith(
+        'refresh',
+      );
+      expect(mockLoginSessions.clearCookies).toHaveBeenCalledWith(res);
       expect(req.session.flash).toEqual({
         type: 'success',
         message: 'Signed out successfully',
@@ -135,15 +150,15 @@ describe('AuthController', () => {
       };
     });
 
-    it('should change user password, clear cookie and redirect to /', async () => {
+    it('should change user password and keep this device signed in', async () => {
       await authController.changePassword(req, currentUser, dto, res);
       expect(mockAuthService.changePassword).toHaveBeenCalledWith(payload);
       expect(req.session.flash).toEqual({
         type: 'success',
-        message: 'Password changed',
+        message: 'Password changed. Your other devices have been signed out.',
       });
-      expect(res.clearCookie).toHaveBeenCalledWith('grouptodo_login');
-      expect(res.redirect).toHaveBeenCalledWith('/');
+      expect(mockLoginSessions.clearCookies).not.toHaveBeenCalled();
+      expect(res.redirect).toHaveBeenCalledWith('/users-home');
     });
   });
 
@@ -154,20 +169,20 @@ describe('AuthController', () => {
     };
 
     it('should redirect with a success flash message', async () => {
-      mockAuthService.resetPassword.mockResolvedValueOnce(true);
+      mockAuthService.resetPassword.mockResolvedValueOnce(31);
       await authController.resetPassword(req, dto, res);
 
       expect(mockAuthService.resetPassword).toHaveBeenCalledWith(dto.email);
       expect(req.session.flash).toEqual({
         type: 'success',
         message:
-          'If this email is registered, a password reset link has been sent.',
+          'If this email is registered, a password reset link is on its way.',
       });
       expect(res.redirect).toHaveBeenCalledWith('/');
     });
 
     it('should redirect with a warning flash message if email not sent due to env problem', async () => {
-      mockAuthService.resetPassword.mockResolvedValueOnce(false);
+      mockAuthService.resetPassword.mockResolvedValueOnce(null);
       await authController.resetPassword(req, dto, res);
 
       expect(mockAuthService.resetPassword).toHaveBeenCalledWith(dto.email);
@@ -242,6 +257,7 @@ describe('AuthController', () => {
         dto.confirmPassword,
       );
       expect(res.clearCookie).toHaveBeenCalledWith('grouptodo_reset_password');
+      expect(mockLoginSessions.clearCookies).toHaveBeenCalledWith(res);
       expect(req.session.flash?.type).toEqual('success');
       expect(req.session.flash?.message).toEqual(
         'Reset password succeed, please re-login!',
@@ -30,6 +30,11 @@ import { ResetPasswordTokenGuard } from './guards/reset-password-token.guard';
 import { AuthPageFilter } from 'src/common/filters/auth-page.filter';
 import { Public } from 'src/common/decorators/public.decorator';
 import { SecurityService } from 'src/security/security.service';
+import {
+  LoginSessionsService,
+  REFRESH_COOKIE,
+  sessionDeviceOf,
+} from './login-sessions.service';
 
 @Controller('api/auth')
 @UseFilters(AuthPageFilter)
@@ -37,6 +42,7 @@ export class AuthController {
   constructor(
     private readonly authService: AuthService,
     private readonly securityService: SecurityService,
+    private readonly loginSessions: LoginSessionsService,
   ) {}
 
   @Public()
@@ -62,22 +68,23 @@ export class AuthController {
     @Body() dto: AuthSigninDto,
     @Res() res: Response,
   ) {
-    const { accessToken } = await this.authService.signin(
+    const tokens = await this.authService.signin(
       dto.email,
       dto.password,
+      sessionDeviceOf(req),
     );
-    res.cookie(
-      'grouptodo_login',
-      accessToken,
-      this.securityService.getCookieOptions(),
-    );
+    this.loginSessions.writeCookies(res, tokens);
     return res.redirect('/tasks/home');
   }
 
   @Public()
   @Post('signout')
-  signout(@Req() req: Request, @Res() res: Response) {
-    res.clearCookie('grouptodo_login');
+  async signout(@Req() req: Request, @Res() res: Response) {
+    const refreshToken = req.cookies?.[REFRESH_COOKIE] as string | undefined;
+    if (refreshToken) {
+      await this.loginSessions.revokeByRefreshToken(refreshToken);
+    }
+    this.loginSessions.clearCookies(res);
     req.session.flash = {
       type: 'success',
       message: 'Signed out successfully',
@@ -99,9 +106,12 @@ export class AuthController {
       ...dto,
     };
     await this.authService.changePassword(payload);
-    setSession(req, 'success', 'Password changed');
-    res.clearCookie('grouptodo_login');
-    return res.redirect('/');
+    setSession(
+      req,
+      'success',
+      'Password changed. Your other devices have been signed out.',
+    );
+    return res.redirect('/users-home');
   }
 
   @Public()
@@ -111,13 +121,13 @@ export class AuthController {
     @Body() dto: AuthForgotPasswordDto,
     @Res() res: Response,
   ) {
-    const mailSent = await this.authService.resetPassword(dto.email);
+    const mailId = await this.authService.resetPassword(dto.email);
 
-    if (mailSent) {
+    if (mailId) {
       setSession(
         req,
         'success',
-        'If this email is registered, a password reset link has been sent.',
+        'If this email is registered, a password reset link is on its way.',
       );
     } else {
       setSession(
@@ -163,6 +173,8 @@ export class AuthController {
       dto.confirmPassword,
     );
     res.clearCookie('grouptodo_reset_password');
+    // 所有登入工作階段都已撤銷，這台瀏覽器手上的也一起清掉
+    this.loginSessions.clearCookies(res);
     setSession(req, 'success', 'Reset password succeed, please re-login!');
     res.redirect('/');
   }
@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { AuthPageController } from './auth.page.controller';
+import { AuthApiController } from './auth.api.controller';
 import { PassportModule } from '@nestjs/passport';
 import { UsersModule } from 'src/users/users.module';
 import { AccessTokenStrategy } from './strategies/access-token.strategy';
@@ -9,6 +10,11 @@ import { MailModule } from 'src/mail/mail.module';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { ResetPasswordTokenStrategy } from './strategies/reset-password-token.strategy';
 import { SecurityModule } from 'src/security/security.module';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import { PersonalAccessTokensController } from './personal-access-tokens.controller';
+import { LoginSessionsService } from './login-sessions.service';
+import { LoginSessionsController } from './login-sessions.controller';
+import { LoginSessionsGateway } from './login-sessions.gateway';
 
 @Module({
   imports: [
@@ -18,8 +24,21 @@ import { SecurityModule } from 'src/security/security.module';
     PrismaModule,
     MailModule,
   ],
-  controllers: [AuthController, AuthPageController],
-  providers: [AuthService, AccessTokenStrategy, ResetPasswordTokenStrategy],
-  exports: [AuthService],
+  controllers: [
+    AuthController,
+    AuthPageController,
+    AuthApiController,
+    PersonalAccessTokensController,
+    LoginSessionsController,
+  ],
+  providers: [
+    AuthService,
+    PersonalAccessTokensService,
+    LoginSessionsService,
+    LoginSessionsGateway,
+    AccessTokenStrategy,
+    ResetPasswordTokenStrategy,
+  ],
+  exports: [AuthService, PersonalAccessTokensService, LoginSessionsService],
 })
 export class AuthModule {}
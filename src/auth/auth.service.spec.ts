@@ -17,6 +17,7 @@ import { AuthErrors, UsersErrors } from 'src/errors';
 import { SecurityService } from 'src/security/security.service';
 import { AuthUpdatePasswordPayload, UserAccessInfo } from './types/auth';
 import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import { LoginSessionsService } from './login-sessions.service';
 
 describe('AuthService', () => {
   let authService: AuthService;
@@ -60,6 +61,17 @@ describe('AuthService', () => {
     sendPasswordReset: jest.fn(),
   };
 
+  const loginTokens = {
+    accessToken: 'mock-access-token',
+    refreshToken: 'mock-refresh-token',
+  };
+  const mockLoginSessions = {
+    start: jest.fn().mockResolvedValue(loginTokens),
+    revokeAll: jest.fn().mockResolvedValue([6, 7]),
+    disconnect: jest.fn(),
+  };
+  const device = { userAgent: 'Mozilla/5.0', ipAddress: '127.0.0.1' };
+
   const mockConfigService = createMockConfig();
   const HMAC_HASHED = 'base64urlHash';
 
@@ -81,6 +93,7 @@ describe('AuthService', () => {
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: MailService, useValue: mockMailService },
         { provide: ConfigService, useValue: mockConfigService.mock },
+        { provide: LoginSessionsService, useValue: mockLoginSessions },
         {
           provide: SecurityService,
           useValue: mockSecurityService,
@@ -135,22 +148,24 @@ describe('AuthService', () => {
   // ───────────────────────────────────────────────────────────────────────────────
 
   describe('signin', () => {
-    it('should sign user in and issue token', async () => {
+    it('should sign user in and start a login session for the device', async () => {
       mockUsersService.findByEmail.mockResolvedValueOnce(user);
       mockSecurityService.verify.mockResolvedValueOnce(true);
       const result = await authService.signin(
         signinDto.email,
         signinDto.password,
+        device,
       );
 
       expect(mockUsersService.findByEmail).toHaveBeenCalledWith(
         'test@test.com',
       );
       expect(mockSecurityService.verify).toHaveBeenCalledWith('hashed', 'test');
-      expect(mockSecurityService.signAccessToken).toHaveBeenCalledWith(
+      expect(mockLoginSessions.start).toHaveBeenCalledWith(
         accessPayload,
+        device,
       );
-      expect(result).toEqual({ accessToken: 'mock-access-token' });
+      expect(result).toEqual(loginTokens);
     });
 
     it('should throw InvalidCredentialError when password does not match', async () => {
@@ -158,17 +173,17 @@ describe('AuthService', () => {
       mockSecurityService.verify.mockResolvedValueOnce(false);
 
       await expect(
-        authService.signin(signinDto.email, signinDto.password),
+        authService.signin(signinDto.email, signinDto.password, device),
       ).rejects.toBeInstanceOf(AuthErrors.InvalidCredentialError);
 
-      expect(mockSecurityService.signAccessToken).not.toHaveBeenCalled();
+      expect(mockLoginSessions.start).not.toHaveBeenCalled();
     });
 
     it('should throw UsersNotFoundError', async () => {
       mockUsersService.findByEmail.mockResolvedValueOnce(null);
 
       await expect(
-        authService.signin('mock@test.com', 'mock'),
+        authService.signin('mock@test.com', 'mock', device),
       ).rejects.toBeInstanceOf(AuthErrors.UserNotFoundError);
     });
   });
@@ -186,6 +201,7 @@ describe('AuthService', () => {
         email: user.email,
         oldPassword: 'test',
         newPassword: 'foo',
+        sessionId: 5,
       };
     });
 
@@ -214,6 +230,13 @@ describe('AuthService', () => {
         'argonHashed',
         expect.any(Object),
       );
+      // 目前這台保留，其他裝置全部登出
+      expect(mockLoginSessions.revokeAll).toHaveBeenCalledWith(payload.userId, {
+        except: 5,
+        tx: expect.any(Object),
+      });
+      // commit 之後才關掉那些裝置的即時連線
+      expect(mockLoginSessions.disconnect).toHaveBeenCalledWith([6, 7]);
     });
 
     it('should throw error when user not found', async () => {
@@ -470,6 +493,10 @@ describe('AuthService', () => {
         'argonHashed',
         expect.any(Object),
       );
+      expect(mockLoginSessions.revokeAll).toHaveBeenCalledWith(user.id, {
+        tx: expect.any(Object),
+      });
+      expect(mockLoginSessions.disconnect).toHaveBeenCalledWith([6, 7]);
     });
 
     it('should throw error if user not found', async () => {
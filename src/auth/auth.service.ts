@@ -18,7 +18,13 @@ import { AuthErrors } from 'src/errors';
 import { UsersErrors } from 'src/errors';
 import { addTime } from 'src/common/helpers/util';
 import { SecurityService } from 'src/security/security.service';
-import { AuthUpdatePasswordPayload, UserResetPasswordInfo } from './types/auth';
+import {
+  AuthUpdatePasswordPayload,
+  LoginTokens,
+  SessionDevice,
+  UserResetPasswordInfo,
+} from './types/auth';
+import { LoginSessionsService } from './login-sessions.service';
 
 @Injectable()
 export class AuthService {
@@ -28,6 +34,7 @@ export class AuthService {
     private readonly usersService: UsersService,
     private readonly prismaService: PrismaService,
     private readonly mailService: MailService,
+    private readonly loginSessions: LoginSessionsService,
   ) {}
 
   async signup(dto: AuthSignupDto): Promise<void> {
@@ -50,7 +57,8 @@ export class AuthService {
   async signin(
     email: string,
     password: string,
-  ): Promise<{ accessToken: string }> {
+    device: SessionDevice,
+  ): Promise<Required<LoginTokens>> {
     const user: UserModel | null = await this.usersService.findByEmail(email);
     if (!user) {
       throw UsersErrors.UserNotFoundError.byEmail(email);
@@ -67,11 +75,15 @@ export class AuthService {
       timeZone: user.timeZone,
     };
 
-    return {
-      accessToken: await this.securityService.signAccessToken(payload),
-    };
+    return this.loginSessions.start(payload, device);
   }
   async changePassword(payload: AuthUpdatePasswordPayload): Promise<void> {
+    /**
+     * Changes the password of a signed-in user.
+     * * @description
+     * Every other login session of the user is revoked in the same transaction; the
+     * session that made the change (`payload.sessionId`) stays signed in.
+     */
     const user = await this.usersService.findById(payload.userId);
 
     if (!user) {
@@ -88,12 +100,17 @@ export class AuthService {
 
     const newHash = await this.securityService.hash(payload.newPassword);
 
-    await this.prismaService.$transaction(async (tx) => {
+    const revoked = await this.prismaService.$transaction(async (tx) => {
       await this.usersService.updatePasswordHash(payload.userId, newHash, tx);
+      return this.loginSessions.revokeAll(payload.userId, {
+        except: payload.sessionId,
+        tx,
+      });
     });
+    this.loginSessions.disconnect(revoked);
   }
 
-  async resetPassword(email: string): Promise<boolean | void> {
+  async resetPassword(email: string): Promise<number | null | void> {
     /**
      * Starts the password-reset flow for a given email.
      *
@@ -115,7 +132,8 @@ export class AuthService {
      * - The function is intentionally silent for unknown emails.
      *
      * @param email - The user's email address.
-     * @returns Promise<boolean> True if email sent successfully, false otherwise (e.g., mail server config issue).
+     * @returns Promise<number> The MailOutbox id of the queued email; its delivery status can be checked afterwards.
+     * @returns Promise<null> If the email was not queued (e.g., mail server config issue).
      * @returns Promise<void> If the email is not associated with any user (silent no-op).
      * @throws Prisma.PrismaClientKnownRequestError If the DB write/upsert fails.
      * @throws Error If configuration (e.g., TOKEN_HMAC_SECRET or BASE_URL) is missing.
@@ -157,8 +175,8 @@ export class AuthService {
       baseUrl,
     ).toString();
 
-    const mailSent = this.mailService.sendPasswordReset(user, link);
-    return mailSent;
+    const mailId = this.mailService.sendPasswordReset(user, link);
+    return mailId;
   }
 
   async verifyResetToken(
@@ -241,6 +259,7 @@ export class AuthService {
      * 5. **Atomic Transaction**:
      * - Marks the specific `ActionToken` as consumed to prevent Replay Attacks.
      * - Updates the user's password hash within the same database transaction.
+     * - Revokes every login session of the user, since the old password may be compromised.
      *
      * @param tokenId - The unique identifier (Primary key) of the ActionToken record.
      * @param userId - The ID of the user whose password is being reset.
@@ -270,7 +289,7 @@ export class AuthService {
     const newHash = await this.securityService.hash(newPassword);
     const NOW = new Date();
 
-    await this.prismaService.$transaction(async (tx) => {
+    const revoked = await this.prismaService.$transaction(async (tx) => {
       // Use updateMany, since we need to make sure there is no duplicated token
       const { count } = await tx.actionToken.updateMany({
         where: {
@@ -287,6 +306,8 @@ export class AuthService {
       }
 
       await this.usersService.updatePasswordHash(userId, newHash, tx);
+      return this.loginSessions.revokeAll(userId, { tx });
     });
+    this.loginSessions.disconnect(revoked);
   }
 }
@@ -0,0 +1,22 @@
+import { applyDecorators } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiBearerAuth, ApiExtension } from '@nestjs/swagger';
+import { ACCESS_TOKEN_SCHEME } from 'src/common/decorators/api-docs.decorator';
+import type { AccessTokenScope } from '../types/auth';
+
+export const RequireTokenScopes =
+  Reflector.createDecorator<AccessTokenScope[]>();
+
+/**
+ * 允許個人存取權杖呼叫這個路由，並列出權杖必須具備的 scope。
+ * * @description
+ * 沒有標註的路由只接受登入 cookie；不帶參數表示任何有效權杖都可以。
+ * 同時把 Bearer 驗證與 `x-token-scopes` 寫進 OpenAPI 文件。
+ */
+export function TokenScopes(...scopes: AccessTokenScope[]) {
+  return applyDecorators(
+    RequireTokenScopes(scopes),
+    ApiBearerAuth(ACCESS_TOKEN_SCHEME),
+    ApiExtension('x-token-scopes', scopes),
+  );
+}
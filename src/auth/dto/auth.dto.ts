@@ -1,11 +1,21 @@
 import {
+  ArrayNotEmpty,
+  IsArray,
   IsEmail,
+  IsIn,
   IsNotEmpty,
   IsString,
   IsOptional,
+  MaxLength,
   registerDecorator,
   ValidationArguments,
 } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  ACCESS_TOKEN_SCOPES,
+  type AccessTokenScope,
+} from '../types/auth';
 
 function IsIanaTimeZone() {
   return function (object: Object, propertyName: string) {
@@ -86,3 +96,26 @@ export class AuthResetPasswordDto {
   @IsNotEmpty()
   confirmPassword: string;
 }
+
+export class CreateAccessTokenDto {
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string; // 讓使用者認得是哪支腳本在用
+
+  // 表單只勾一個時會是字串
+  @Transform(({ value }: { value: unknown }) =>
+    value === undefined ? [] : ([] as unknown[]).concat(value),
+  )
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(ACCESS_TOKEN_SCOPES, { each: true })
+  scopes: AccessTokenScope[];
+
+  @Type(() => Number)
+  @IsIn(ACCESS_TOKEN_EXPIRY_DAYS)
+  expiresInDays: number;
+}
@@ -0,0 +1,211 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AccessTokenGuard } from './access-token.guard';
+import { TokenScopes } from '../decorators/token-scopes.decorator';
+import { Public } from 'src/common/decorators/public.decorator';
+import { AuthErrors } from 'src/errors';
+import { LoginSessionsService } from '../login-sessions.service';
+
+class ScopedController {
+  @TokenScopes('read:tasks')
+  read() {}
+
+  @TokenScopes('read:tasks', 'write:tasks')
+  write() {}
+
+  @TokenScopes()
+  anyToken() {}
+
+  cookieOnly() {}
+
+  @Public()
+  open() {}
+}
+
+describe('AccessTokenGuard', () => {
+  let guard: AccessTokenGuard;
+  let passportCanActivate: jest.SpyInstance;
+
+  const res = {};
+  const createMockContext = (
+    handler: keyof ScopedController,
+    user: object | undefined,
+    req: Record<string, unknown> = {},
+  ) =>
+    ({
+      getHandler: () => ScopedController.prototype[handler],
+      getClass: () => ScopedController,
+      switchToHttp: () => ({
+        getRequest: () =>
+          Object.assign(req, {
+            user,
+            headers: {},
+            get: () => undefined,
+            ...req,
+          }),
+        getResponse: () => res,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const mockLoginSessions = {
+    isActive: jest.fn(),
+    refresh: jest.fn(),
+    writeCookies: jest.fn(),
+    clearCookies: jest.fn(),
+  };
+
+  const cookieUser = { userId: 1 };
+  const tokenUser = (tokenScopes: string[]) => ({ userId: 1, tokenScopes });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    guard = new AccessTokenGuard(
+      new Reflector(),
+      mockLoginSessions as unknown as LoginSessionsService,
+    );
+    // 只測 scope 規則，passport 驗證本身視為通過
+    passportCanActivate = jest
+      .spyOn(Object.getPrototypeOf(AccessTokenGuard.prototype), 'canActivate')
+      .mockResolvedValue(true);
+    mockLoginSessions.isActive.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    passportCanActivate.mockRestore();
+  });
+
+  it('skips authentication on @Public routes', async () => {
+    await expect(
+      guard.canActivate(createMockContext('open', undefined)),
+    ).resolves.toBe(true);
+    expect(passportCanActivate).not.toHaveBeenCalled();
+  });
+
+  it('does not restrict the login cookie by scope', async () => {
+    await expect(
+      guard.canActivate(createMockContext('cookieOnly', cookieUser)),
+    ).resolves.toBe(true);
+  });
+
+  it('lets a token through when it has every required scope', async () => {
+    await expect(
+      guard.canActivate(
+        createMockContext('write', tokenUser(['read:tasks', 'write:tasks'])),
+      ),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(createMockContext('anyToken', tokenUser([]))),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects a token that misses one of the required scopes', async () => {
+    await expect(
+      guard.canActivate(createMockContext('write', tokenUser(['read:tasks']))),
+    ).rejects.toBeInstanceOf(AuthErrors.InsufficientScopeError);
+  });
+
+  it('rejects tokens on routes without @TokenScopes', async () => {
+    await expect(
+      guard.canActivate(
+        createMockContext('cookieOnly', tokenUser(['read:tasks'])),
+      ),
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_SCOPE' });
+  });
+
+  describe('revoked login session', () => {
+    const sessionUser = { userId: 1, sessionId: 7 };
+
+    it('lets the request through while the session is active', async () => {
+      await expect(
+        guard.canActivate(createMockContext('cookieOnly', sessionUser)),
+      ).resolves.toBe(true);
+      expect(mockLoginSessions.isActive).toHaveBeenCalledWith(1, 7);
+    });
+
+    it('answers 401 right away instead of waiting for the access token to expire', async () => {
+      mockLoginSessions.isActive.mockResolvedValue(false);
+
+      await expect(
+        guard.canActivate(createMockContext('cookieOnly', sessionUser)),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(mockLoginSessions.refresh).not.toHaveBeenCalled();
+    });
+
+    it('clears the cookies when the refresh token of the revoked session is rejected too', async () => {
+      mockLoginSessions.isActive.mockResolvedValue(false);
+      mockLoginSessions.refresh.mockRejectedValueOnce(
+        AuthErrors.InvalidTokenError.refresh(),
+      );
+      const req = { cookies: { grouptodo_refresh: 'refresh-1' } };
+
+      await expect(
+        guard.canActivate(createMockContext('cookieOnly', sessionUser, req)),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(mockLoginSessions.clearCookies).toHaveBeenCalledWith(res);
+    });
+
+    it('does not look up sessions for personal access tokens', async () => {
+      await guard.canActivate(
+        createMockContext('anyToken', tokenUser(['read:tasks'])),
+      );
+      expect(mockLoginSessions.isActive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expired access token', () => {
+    const refreshedUser = { userId: 1, sessionId: 7 };
+    const expired = new UnauthorizedException();
+
+    beforeEach(() => {
+      passportCanActivate.mockRejectedValue(expired);
+    });
+
+    it('renews the login with the refresh cookie and lets the request through', async () => {
+      const tokens = { accessToken: 'access', refreshToken: 'refresh-2' };
+      mockLoginSessions.refresh.mockResolvedValueOnce({
+        user: refreshedUser,
+        tokens,
+      });
+      const req = { cookies: { grouptodo_refresh: 'refresh-1' } };
+
+      await expect(
+        guard.canActivate(createMockContext('cookieOnly', undefined, req)),
+      ).resolves.toBe(true);
+
+      expect(mockLoginSessions.refresh).toHaveBeenCalledWith(
+        'refresh-1',
+        expect.objectContaining({ ipAddress: null }),
+      );
+      expect(mockLoginSessions.writeCookies).toHaveBeenCalledWith(res, tokens);
+      expect(req).toMatchObject({ user: refreshedUser });
+    });
+
+    it('clears the cookies and keeps the 401 when the refresh token is rejected', async () => {
+      mockLoginSessions.refresh.mockRejectedValueOnce(
+        AuthErrors.InvalidTokenError.refresh(),
+      );
+      const req = { cookies: { grouptodo_refresh: 'reused' } };
+
+      await expect(
+        guard.canActivate(createMockContext('cookieOnly', undefined, req)),
+      ).rejects.toBe(expired);
+      expect(mockLoginSessions.clearCookies).toHaveBeenCalledWith(res);
+    });
+
+    it('does not refresh without a refresh cookie or for Bearer requests', async () => {
+      await expect(
+        guard.canActivate(createMockContext('cookieOnly', undefined)),
+      ).rejects.toBe(expired);
+      await expect(
+        guard.canActivate(
+          createMockContext('read', undefined, {
+            cookies: { grouptodo_refresh: 'refresh-1' },
+            headers: { authorization: 'Bearer gtpat_revoked' },
+          }),
+        ),
+      ).rejects.toBe(expired);
+
+      expect(mockLoginSessions.refresh).not.toHaveBeenCalled();
+    });
+  });
+});
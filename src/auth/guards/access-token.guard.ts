@@ -1,12 +1,30 @@
-import { ExecutionContext, Injectable } from '@nestjs/common';
+import {
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
 import { IS_PUBLIC_KEY } from 'src/common/decorators/public.decorator';
 import { lastValueFrom, Observable } from 'rxjs';
+import { Request, Response } from 'express';
+import { RequireTokenScopes } from '../decorators/token-scopes.decorator';
+import { AuthErrors } from 'src/errors';
+import { CurrentUser } from 'src/common/types/current-user';
+import { isDomainError } from 'src/errors/domain-error.base';
+import {
+  LoginSessionsService,
+  REFRESH_COOKIE,
+  sessionDeviceOf,
+} from '../login-sessions.service';
+import { bearerTokenOf } from '../strategies/access-token.strategy';
 
 @Injectable()
 export class AccessTokenGuard extends AuthGuard('access-token') {
-  constructor(private reflector: Reflector) {
+  constructor(
+    private reflector: Reflector,
+    private loginSessions: LoginSessionsService,
+  ) {
     super();
   }
 
@@ -20,12 +38,77 @@ export class AccessTokenGuard extends AuthGuard('access-token') {
       return true;
     }
 
-    const result = super.canActivate(context);
+    let allowed: boolean;
+    try {
+      const result = super.canActivate(context);
+      allowed =
+        result instanceof Observable
+          ? await lastValueFrom(result)
+          : await result;
+      if (allowed) await this.assertSessionActive(context);
+    } catch (err) {
+      if (!(await this.refreshLogin(context))) throw err;
+      allowed = true;
+    }
+
+    if (allowed) this.assertTokenScopes(context);
+    return allowed;
+  }
+
+  // 撤銷裝置要立刻生效：登入 cookie 的 access token 還沒過期也要確認 session 還在
+  private async assertSessionActive(context: ExecutionContext) {
+    const user = context.switchToHttp().getRequest<Request>().user as
+      | CurrentUser
+      | undefined;
+    // 個人存取權杖沒有 sid；它的撤銷在 PersonalAccessTokensService.authenticate 就擋掉了
+    if (!user?.sessionId) return;
+
+    if (!(await this.loginSessions.isActive(user.userId, user.sessionId))) {
+      throw new UnauthorizedException();
+    }
+  }
+
+  // access token 過期（或 cookie 已到期被瀏覽器丟掉）時，用 refresh token 換一組新的再放行
+  private async refreshLogin(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp();
+    const req = http.getRequest<Request>();
+    const rawToken = req.cookies?.[REFRESH_COOKIE] as string | undefined;
+    if (!rawToken || bearerTokenOf(req) !== null) return false;
 
-    if (result instanceof Observable) {
-      return await lastValueFrom(result);
+    const res = http.getResponse<Response>();
+    try {
+      const { user, tokens } = await this.loginSessions.refresh(
+        rawToken,
+        sessionDeviceOf(req),
+      );
+      this.loginSessions.writeCookies(res, tokens);
+      req.user = user;
+      return true;
+    } catch (err) {
+      if (!isDomainError(err)) throw err;
+      // 撤銷、過期或被重用的 refresh token：清掉 cookie，之後的請求不必再查一次
+      this.loginSessions.clearCookies(res);
+      return false;
     }
+  }
 
-    return result as boolean;
+  // 個人存取權杖只能打有 @TokenScopes 的路由，且要具備列出的每個 scope
+  private assertTokenScopes(context: ExecutionContext) {
+    const user = context.switchToHttp().getRequest<Request>().user as
+      | CurrentUser
+      | undefined;
+    const granted = user?.tokenScopes;
+    if (!granted) return;
+
+    const required = this.reflector.getAllAndOverride(RequireTokenScopes, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!required) {
+      throw AuthErrors.InsufficientScopeError.notAllowed(granted);
+    }
+    if (!required.every((scope) => granted.includes(scope))) {
+      throw AuthErrors.InsufficientScopeError.missing(required, granted);
+    }
   }
 }
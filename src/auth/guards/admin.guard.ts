@@ -0,0 +1,29 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CurrentUser } from 'src/common/types/current-user';
+
+// 站台管理員用 ADMIN_EMAILS（逗號分隔）設定，沒有設定就沒有人是管理員
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(private readonly config: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: CurrentUser }>();
+    const admins = (this.config.get<string>('ADMIN_EMAILS') ?? '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean);
+
+    if (!user || !admins.includes(user.email.toLowerCase())) {
+      throw new ForbiddenException('This page is limited to site admins.');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  Controller,
+  Param,
+  ParseIntPipe,
+  Post,
+  Req,
+  Res,
+  UseFilters,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { AuthPageFilter } from 'src/common/filters/auth-page.filter';
+import { LoginSessionsService } from './login-sessions.service';
+
+// 「我的登入裝置」頁的表單：逐台登出，或登出目前這台以外的全部
+@Controller('api/auth/sessions')
+@UseFilters(AuthPageFilter)
+export class LoginSessionsController {
+  constructor(private readonly loginSessions: LoginSessionsService) {}
+
+  @Post('revoke-others')
+  async revokeOthers(
+    @Req() req: Request,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    await this.loginSessions.revokeAll(user.userId, {
+      except: user.sessionId,
+    });
+    setSession(req, 'success', 'Signed out of all other devices.');
+    return res.redirect('/users-home/sessions');
+  }
+
+  @Post(':id/revoke')
+  async revoke(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    await this.loginSessions.revokeSession(user.userId, id);
+
+    // 撤銷的是自己這台，就等於登出
+    if (id === user.sessionId) {
+      this.loginSessions.clearCookies(res);
+      setSession(req, 'success', 'Signed out successfully');
+      return res.redirect('/');
+    }
+
+    setSession(req, 'success', 'The device has been signed out.');
+    return res.redirect('/users-home/sessions');
+  }
+}
@@ -0,0 +1,18 @@
+import { WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import { Server } from 'socket.io';
+
+// 與 TasksGateWay 共用同一個 server；連線驗證時會依 access token 的 sid 加入 session_ 房間
+@WebSocketGateway()
+export class LoginSessionsGateway {
+  @WebSocketServer()
+  server: Server;
+
+  // 被撤銷的裝置不能再收到任何即時事件；伺服器端斷線不會被 client 自動重連
+  disconnectSessions(sessionIds: number[]) {
+    // in([]) 會選到所有連線，一定要先擋掉
+    if (sessionIds.length === 0) return;
+    this.server
+      .in(sessionIds.map((id) => `session_${id}`))
+      .disconnectSockets(true);
+  }
+}
@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from 'src/generated/prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SecurityService } from 'src/security/security.service';
+import { AuthErrors } from 'src/errors';
+import { createMockConfig } from 'src/test/factories/mock-config.factory';
+import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import { createMockRes } from 'src/test/factories/mock-http.factory';
+import { LoginSessionsService } from './login-sessions.service';
+import { LoginSessionsGateway } from './login-sessions.gateway';
+
+describe('LoginSessionsService', () => {
+  let service: LoginSessionsService;
+
+  const mockPrismaService = {
+    loginSession: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      updateManyAndReturn: jest.fn(),
+    },
+  };
+  const mockGateway = { disconnectSessions: jest.fn() };
+
+  const mockSecurityService = createMockSecurityService();
+  const mockConfigService = createMockConfig();
+
+  const device = { userAgent: 'Mozilla/5.0', ipAddress: '10.0.0.1' };
+  const accessInfo = {
+    sub: 9,
+    userName: 'test',
+    email: 'test@example.com',
+    timeZone: 'UTC',
+  };
+  const activeSession = {
+    id: 4,
+    refreshTokenHash: 'base64urlHash',
+    rotatedAt: null,
+    expiresAt: new Date(Date.now() + 86_400_000),
+    revokedAt: null,
+    user: { id: 9, name: 'test', email: 'test@example.com', timeZone: 'UTC' },
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginSessionsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SecurityService, useValue: mockSecurityService },
+        { provide: ConfigService, useValue: mockConfigService.mock },
+        { provide: LoginSessionsGateway, useValue: mockGateway },
+      ],
+    }).compile();
+
+    service = module.get(LoginSessionsService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrismaService.loginSession.updateMany.mockResolvedValue({ count: 1 });
+    mockPrismaService.loginSession.updateManyAndReturn.mockResolvedValue([
+      { id: 4 },
+    ]);
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // start
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('start', () => {
+    it('stores the refresh token hash and signs an access token bound to the session', async () => {
+      mockPrismaService.loginSession.create.mockResolvedValueOnce({ id: 4 });
+
+      const tokens = await service.start(accessInfo, device);
+
+      expect(mockPrismaService.loginSession.create).toHaveBeenCalledWith({
+        data: {
+          userId: 9,
+          refreshTokenHash: 'base64urlHash',
+          userAgent: 'Mozilla/5.0',
+          ipAddress: '10.0.0.1',
+          expiresAt: expect.any(Date),
+        },
+        select: { id: true },
+      });
+      expect(mockSecurityService.signAccessToken).toHaveBeenCalledWith({
+        ...accessInfo,
+        sid: 4,
+      });
+      expect(tokens).toEqual({
+        accessToken: 'mock-access-token',
+        refreshToken: 'rawUrlFriendlySecret',
+      });
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // refresh
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('refresh', () => {
+    it('rotates the refresh token and returns the session user', async () => {
+      mockPrismaService.loginSession.findFirst.mockResolvedValueOnce(
+        activeSession,
+      );
+
+      const result = await service.refresh('refresh-1', device);
+
+      expect(mockPrismaService.loginSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 4, refreshTokenHash: 'base64urlHash', revokedAt: null },
+        data: expect.objectContaining({
+          previousTokenHash: 'base64urlHash',
+          rotatedAt: expect.any(Date),
+          lastActiveAt: expect.any(Date),
+          ipAddress: '10.0.0.1',
+        }),
+      });
+      expect(result).toEqual({
+        user: {
+          userId: 9,
+          userName: 'test',
+          email: 'test@example.com',
+          timeZone: 'UTC',
+          sessionId: 4,
+        },
+        tokens: {
+          accessToken: 'mock-access-token',
+          refreshToken: 'rawUrlFriendlySecret',
+        },
+      });
+    });
+
+    it('only issues an access token for the previous token right after a rotation', async () => {
+      mockPrismaService.loginSession.findFirst.mockResolvedValueOnce({
+        ...activeSession,
+        refreshTokenHash: 'rotatedHash',
+        rotatedAt: new Date(Date.now() - 2_000),
+      });
+
+      const result = await service.refresh('refresh-1', device);
+
+      expect(result.tokens).toEqual({ accessToken: 'mock-access-token' });
+      expect(mockPrismaService.loginSession.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('revokes the whole session when an old refresh token is reused', async () => {
+      mockPrismaService.loginSession.findFirst.mockResolvedValueOnce({
+        ...activeSession,
+        refreshTokenHash: 'rotatedHash',
+        rotatedAt: new Date(Date.now() - 60_000),
+      });
+
+      await expect(service.refresh('refresh-1', device)).rejects.toBeInstanceOf(
+        AuthErrors.InvalidTokenError,
+      );
+      expect(mockPrismaService.loginSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 4, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(mockGateway.disconnectSessions).toHaveBeenCalledWith([4]);
+      expect(mockSecurityService.signAccessToken).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', { ...activeSession, revokedAt: new Date() }],
+      [
+        'expired',
+        { ...activeSession, expiresAt: new Date(Date.now() - 1_000) },
+      ],
+    ])('rejects an %s session', async (_label, row) => {
+      mockPrismaService.loginSession.findFirst.mockResolvedValueOnce(row);
+
+      await expect(service.refresh('refresh-1', device)).rejects.toBeInstanceOf(
+        AuthErrors.InvalidTokenError,
+      );
+      expect(mockPrismaService.loginSession.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // listSessions / revoke
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('listSessions', () => {
+    it('labels each session with a readable device name', async () => {
+      mockPrismaService.loginSession.findMany.mockResolvedValueOnce([
+        {
+          id: 1,
+          userAgent:
+            'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0 Safari/537.36 Edg/130.0',
+        },
+        { id: 2, userAgent: 'curl/8.5.0' },
+        { id: 3, userAgent: null },
+      ]);
+
+      const sessions = await service.listSessions(9);
+
+      expect(sessions.map((s) => s.device)).toEqual([
+        'Edge on Windows',
+        'curl/8.5.0',
+        'Unknown device',
+      ]);
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('disconnects the sockets of the revoked device', async () => {
+      await service.revokeSession(9, 4);
+
+      expect(
+        mockPrismaService.loginSession.updateManyAndReturn,
+      ).toHaveBeenCalledWith({
+        where: { id: 4, userId: 9, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+        select: { id: true },
+      });
+      expect(mockGateway.disconnectSessions).toHaveBeenCalledWith([4]);
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('keeps the excepted session signed in', async () => {
+      mockPrismaService.loginSession.updateManyAndReturn.mockResolvedValueOnce([
+        { id: 5 },
+        { id: 6 },
+      ]);
+
+      const revoked = await service.revokeAll(9, { except: 4 });
+
+      expect(
+        mockPrismaService.loginSession.updateManyAndReturn,
+      ).toHaveBeenCalledWith({
+        where: { userId: 9, revokedAt: null, id: { not: 4 } },
+        data: { revokedAt: expect.any(Date) },
+        select: { id: true },
+      });
+      expect(revoked).toEqual([5, 6]);
+      expect(mockGateway.disconnectSessions).toHaveBeenCalledWith([5, 6]);
+    });
+
+    it('leaves disconnecting to the caller inside a transaction', async () => {
+      const tx = {
+        loginSession: {
+          updateManyAndReturn: jest.fn().mockResolvedValue([{ id: 5 }]),
+        },
+      };
+
+      const revoked = await service.revokeAll(9, {
+        tx: tx as unknown as Prisma.TransactionClient,
+      });
+
+      expect(tx.loginSession.updateManyAndReturn).toHaveBeenCalled();
+      expect(revoked).toEqual([5]);
+      expect(mockGateway.disconnectSessions).not.toHaveBeenCalled();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // cookies
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('writeCookies', () => {
+    it('leaves the refresh cookie alone when only an access token was issued', () => {
+      const res = createMockRes();
+
+      service.writeCookies(res, { accessToken: 'access' });
+
+      expect(res.cookie).toHaveBeenCalledTimes(1);
+      expect(res.cookie).toHaveBeenCalledWith(
+        'grouptodo_login',
+        'access',
+        undefined,
+      );
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { Prisma } from 'src/generated/prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SecurityService } from 'src/security/security.service';
+import { AuthErrors } from 'src/errors';
+import { CurrentUser } from 'src/common/types/current-user';
+import {
+  LoginSessionSummary,
+  LoginTokens,
+  SessionDevice,
+  UserAccessInfo,
+} from './types/auth';
+import { LoginSessionsGateway } from './login-sessions.gateway';
+
+export const LOGIN_COOKIE = 'grouptodo_login';
+export const REFRESH_COOKIE = 'grouptodo_refresh';
+
+// 兩個分頁幾乎同時換發時，慢的那個會帶著剛被輪替掉的 token；這段時間內不算重用
+const ROTATION_GRACE_MS = 10_000;
+
+// 順序有意義：Edge、Opera 的 UA 也含 Chrome，Chrome 的也含 Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// 給「我的登入裝置」頁看的簡短名稱，例如 "Firefox on Windows"
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  // 不是瀏覽器（curl、腳本）就顯示 UA 的第一段，例如 "curl/8.5.0"
+  if (!system) return browser ?? userAgent.split(' ')[0];
+  return `${browser ?? 'Browser'} on ${system}`;
+}
+
+export function sessionDeviceOf(req: Request): SessionDevice {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 512) ?? null,
+    ipAddress: req.ip ?? null,
+  };
+}
+
+@Injectable()
+export class LoginSessionsService {
+  private readonly logger = new Logger('LoginSessions');
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly securityService: SecurityService,
+    private readonly config: ConfigService,
+    private readonly gateway: LoginSessionsGateway,
+  ) {}
+
+  async start(
+    user: UserAccessInfo,
+    device: SessionDevice,
+  ): Promise<Required<LoginTokens>> {
+    /**
+     * Opens a login session for a device and issues its first token pair.
+     * * @description
+     * The access JWT is short-lived and carries the session id (`sid`); the refresh
+     * token is only stored as an HMAC and is rotated on every refresh.
+     */
+    const refreshToken = this.securityService.generateUrlFriendlySecret(32);
+    const { id } = await this.prismaService.loginSession.create({
+      data: {
+        userId: user.sub,
+        refreshTokenHash: this.hashToken(refreshToken),
+        userAgent: device.userAgent,
+        ipAddress: device.ipAddress,
+        expiresAt: this.refreshExpiry(new Date()),
+      },
+      select: { id: true },
+    });
+
+    return {
+      accessToken: await this.signAccessToken(user, id),
+      refreshToken,
+    };
+  }
+
+  async refresh(
+    rawToken: string,
+    device: SessionDevice,
+  ): Promise<{ user: CurrentUser; tokens: LoginTokens }> {
+    /**
+     * Exchanges a refresh token for a new access token and rotates the refresh token.
+     * * @description
+     * 1. **Lookup**: The HMAC matches either the current or the previous refresh token
+     * of a session.
+     * 2. **State**: Revoked and expired sessions are rejected.
+     * 3. **Reuse detection**: The previous token is only accepted within a few seconds
+     * of its rotation (concurrent requests of the same browser) and then only yields an
+     * access token. Presented any later, the token has leaked: the whole session is revoked.
+     * 4. **Rotation**: A new refresh token replaces the current one, and the session's
+     * expiry, last activity and device info are refreshed.
+     * * @throws {AuthErrors.InvalidTokenError} When the token is unknown, reused, or its
+     * session is revoked or expired.
+     */
+    const now = new Date();
+    const tokenHash = this.hashToken(rawToken);
+    const session = await this.prismaService.loginSession.findFirst({
+      where: {
+        OR: [{ refreshTokenHash: tokenHash }, { previousTokenHash: tokenHash }],
+      },
+      select: {
+        id: true,
+        refreshTokenHash: true,
+        rotatedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+        user: {
+          select: { id: true, name: true, email: true, timeZone: true },
+        },
+      },
+    });
+    if (!session || session.revokedAt || session.expiresAt <= now) {
+      throw AuthErrors.InvalidTokenError.refresh();
+    }
+
+    const accessInfo: UserAccessInfo = {
+      sub: session.user.id,
+      userName: session.user.name,
+      email: session.user.email,
+      timeZone: session.user.timeZone,
+    };
+    const user: CurrentUser = {
+      userId: session.user.id,
+      userName: session.user.name,
+      email: session.user.email,
+      timeZone: session.user.timeZone,
+      sessionId: session.id,
+    };
+    const accessOnly = async () => ({
+      user,
+      tokens: {
+        accessToken: await this.signAccessToken(accessInfo, session.id),
+      },
+    });
+
+    if (session.refreshTokenHash !== tokenHash) {
+      if (
+        session.rotatedAt &&
+        now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS
+      ) {
+        return accessOnly();
+      }
+      await this.prismaService.loginSession.updateMany({
+        where: { id: session.id, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      this.gateway.disconnectSessions([session.id]);
+      this.logger.warn(
+        `Refresh token reused; revoked session ${session.id} of user ${session.user.id}`,
+      );
+      throw AuthErrors.InvalidTokenError.refresh();
+    }
+
+    const refreshToken = this.securityService.generateUrlFriendlySecret(32);
+    // 條件帶上目前的 hash：同時進來的另一個請求已經輪替過，就不再覆蓋
+    const { count } = await this.prismaService.loginSession.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: this.hashToken(refreshToken),
+        previousTokenHash: tokenHash,
+        rotatedAt: now,
+        lastActiveAt: now,
+        expiresAt: this.refreshExpiry(now),
+        userAgent: device.userAgent,
+        ipAddress: device.ipAddress,
+      },
+    });
+    if (count !== 1) return accessOnly();
+
+    return {
+      user,
+      tokens: {
+        accessToken: await this.signAccessToken(accessInfo, session.id),
+        refreshToken,
+      },
+    };
+  }
+
+  async listSessions(userId: number): Promise<LoginSessionSummary[]> {
+    // lastActiveAt 在每次換發 access token 時更新，所以最多落後一個 access token 的效期
+    const sessions = await this.prismaService.loginSession.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        userAgent: true,
+        ipAddress: true,
+        lastActiveAt: true,
+        createdAt: true,
+      },
+      orderBy: { lastActiveAt: 'desc' },
+    });
+    return sessions.map((session) => ({
+      ...session,
+      device: describeDevice(session.userAgent),
+    }));
+  }
+
+  async isActive(userId: number, sessionId: number): Promise<boolean> {
+    // HTTP 與 Socket.IO 握手都要查：access token 還沒過期，但裝置可能已經被撤銷
+    const session = await this.prismaService.loginSession.findFirst({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true },
+    });
+    return session !== null;
+  }
+
+  async revokeSession(userId: number, sessionId: number): Promise<void> {
+    /**
+     * Signs one of the user's devices out.
+     * * @description
+     * The device can no longer refresh, its open Socket.IO connections are closed, and
+     * `AccessTokenGuard` rejects its still unexpired access token on the next request.
+     * Revoking an unknown or already revoked session is a no-op.
+     */
+    const revoked = await this.prismaService.loginSession.updateManyAndReturn({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+      select: { id: true },
+    });
+    this.disconnect(revoked.map((s) => s.id));
+  }
+
+  async revokeAll(
+    userId: number,
+    opts: { except?: number; tx?: Prisma.TransactionClient } = {},
+  ): Promise<number[]> {
+    /**
+     * Revokes every login session of the user, optionally keeping one.
+     * * @description
+     * Used with `except` on password change (the current device stays signed in) and
+     * without it on password reset.
+     * Inside a transaction (`tx`) the sockets are not disconnected here: a socket that
+     * reconnects before the commit would still see the session as active. The caller
+     * passes the returned ids to `disconnect` after the transaction.
+     * * @returns The ids of the sessions revoked by this call.
+     */
+    const db = opts.tx ?? this.prismaService;
+    const revoked = await db.loginSession.updateManyAndReturn({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(opts.except !== undefined && { id: { not: opts.except } }),
+      },
+      data: { revokedAt: new Date() },
+      select: { id: true },
+    });
+    const ids = revoked.map((s) => s.id);
+    if (!opts.tx) this.disconnect(ids);
+    return ids;
+  }
+
+  async revokeByRefreshToken(rawToken: string): Promise<void> {
+    // 登出：access token 可能已經過期，用 refresh token 認出是哪一個工作階段
+    const revoked = await this.prismaService.loginSession.updateManyAndReturn({
+      where: { refreshTokenHash: this.hashToken(rawToken), revokedAt: null },
+      data: { revokedAt: new Date() },
+      select: { id: true },
+    });
+    this.disconnect(revoked.map((s) => s.id));
+  }
+
+  // 關掉被撤銷裝置的即時連線（session_ 房間）
+  disconnect(sessionIds: number[]) {
+    this.gateway.disconnectSessions(sessionIds);
+  }
+
+  writeCookies(res: Response, tokens: LoginTokens) {
+    res.cookie(
+      LOGIN_COOKIE,
+      tokens.accessToken,
+      this.securityService.getCookieOptions(),
+    );
+    if (tokens.refreshToken) {
+      res.cookie(
+        REFRESH_COOKIE,
+        tokens.refreshToken,
+        this.securityService.getCookieOptions('REFRESH_COOKIE_MAX_AGE'),
+      );
+    }
+  }
+
+  clearCookies(res: Response) {
+    res.clearCookie(LOGIN_COOKIE);
+    res.clearCookie(REFRESH_COOKIE);
+  }
+
+  private signAccessToken(user: UserAccessInfo, sessionId: number) {
+    return this.securityService.signAccessToken({
+      sub: user.sub,
+      userName: user.userName,
+      email: user.email,
+      timeZone: user.timeZone,
+      sid: sessionId,
+    });
+  }
+
+  private refreshExpiry(from: Date): Date {
+    const maxAge = Number(
+      this.config.getOrThrow<number>('REFRESH_COOKIE_MAX_AGE'),
+    );
+    return new Date(from.getTime() + maxAge);
+  }
+
+  private hashToken(rawToken: string): string {
+    const serverSecret = this.config.getOrThrow<string>('TOKEN_HMAC_SECRET');
+    return this.securityService.hmacToken(rawToken, serverSecret);
+  }
+}
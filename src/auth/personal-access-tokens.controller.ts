@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Param,
+  ParseIntPipe,
+  Post,
+  Req,
+  Res,
+  UseFilters,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { AuthPageFilter } from 'src/common/filters/auth-page.filter';
+import { CreateAccessTokenDto } from './dto/auth.dto';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+
+// 個人存取權杖的管理表單；只接受登入 cookie，權杖本身不能用來發新權杖
+@Controller('api/auth/tokens')
+@UseFilters(AuthPageFilter)
+export class PersonalAccessTokensController {
+  constructor(private readonly accessTokens: PersonalAccessTokensService) {}
+
+  @Post()
+  async create(
+    @Req() req: Request,
+    @Body() dto: CreateAccessTokenDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const { token } = await this.accessTokens.createToken(user.userId, dto);
+    // 權杖只有這一次拿得到，放在 session 交給設定頁顯示
+    req.session.newAccessToken = token;
+    setSession(
+      req,
+      'success',
+      'Token created. Copy it now; it will not be shown again.',
+    );
+    return res.redirect('/users-home/access-tokens');
+  }
+
+  @Post(':id/revoke')
+  async revoke(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    await this.accessTokens.revokeToken(user.userId, id);
+    setSession(req, 'success', 'Token has been revoked.');
+    return res.redirect('/users-home/access-tokens');
+  }
+}
@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SecurityService } from 'src/security/security.service';
+import { AuthErrors } from 'src/errors';
+import { createMockConfig } from 'src/test/factories/mock-config.factory';
+import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import {
+  ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokensService,
+} from './personal-access-tokens.service';
+
+describe('PersonalAccessTokensService', () => {
+  let service: PersonalAccessTokensService;
+
+  const mockPrismaService = {
+    personalAccessToken: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockSecurityService = createMockSecurityService();
+  const mockConfigService = createMockConfig();
+
+  const rawToken = `${ACCESS_TOKEN_PREFIX}rawUrlFriendlySecret`;
+  const activeToken = {
+    id: 3,
+    scopes: ['read:tasks'],
+    expiresAt: new Date(Date.now() + 86_400_000),
+    revokedAt: null,
+    lastUsedAt: null,
+    user: { id: 9, name: 'test', email: 'test@example.com', timeZone: 'UTC' },
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonalAccessTokensService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SecurityService, useValue: mockSecurityService },
+        { provide: ConfigService, useValue: mockConfigService.mock },
+      ],
+    }).compile();
+
+    service = module.get(PersonalAccessTokensService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // createToken
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('createToken', () => {
+    it('stores only the token hash and returns the prefixed raw token once', async () => {
+      mockPrismaService.personalAccessToken.create.mockResolvedValueOnce({
+        id: 3,
+      });
+
+      const result = await service.createToken(9, {
+        name: 'backup',
+        scopes: ['read:tasks', 'read:tasks', 'write:tasks'],
+        expiresInDays: 30,
+      });
+
+      expect(mockSecurityService.hmacToken).toHaveBeenCalledWith(
+        rawToken,
+        'HMAC-secret',
+      );
+      expect(mockPrismaService.personalAccessToken.create).toHaveBeenCalledWith(
+        {
+          data: {
+            userId: 9,
+            name: 'backup',
+            scopes: ['read:tasks', 'write:tasks'],
+            tokenHash: 'base64urlHash',
+            expiresAt: expect.any(Date),
+          },
+          select: { id: true },
+        },
+      );
+      const [{ data }] = mockPrismaService.personalAccessToken.create.mock
+        .calls[0] as [{ data: { expiresAt: Date } }];
+      expect(data.expiresAt.getTime() - Date.now()).toBeGreaterThan(
+        29 * 86_400_000,
+      );
+      expect(result).toEqual({ id: 3, token: rawToken });
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // revokeToken
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('revokeToken', () => {
+    it('only revokes an active token of the user', async () => {
+      await service.revokeToken(9, 3);
+
+      expect(
+        mockPrismaService.personalAccessToken.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 3, userId: 9, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // authenticate
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('authenticate', () => {
+    it('returns the user with the token scopes and records the use', async () => {
+      mockPrismaService.personalAccessToken.findUnique.mockResolvedValueOnce(
+        activeToken,
+      );
+
+      const user = await service.authenticate(rawToken);
+
+      expect(
+        mockPrismaService.personalAccessToken.findUnique,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: 'base64urlHash' } }),
+      );
+      expect(user).toEqual({
+        userId: 9,
+        userName: 'test',
+        email: 'test@example.com',
+        timeZone: 'UTC',
+        tokenScopes: ['read:tasks'],
+      });
+      expect(mockPrismaService.personalAccessToken.update).toHaveBeenCalledWith(
+        { where: { id: 3 }, data: { lastUsedAt: expect.any(Date) } },
+      );
+    });
+
+    it('does not rewrite lastUsedAt within the same minute', async () => {
+      mockPrismaService.personalAccessToken.findUnique.mockResolvedValueOnce({
+        ...activeToken,
+        lastUsedAt: new Date(Date.now() - 5_000),
+      });
+
+      await service.authenticate(rawToken);
+
+      expect(
+        mockPrismaService.personalAccessToken.update,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('rejects values without the token prefix before touching the database', async () => {
+      await expect(service.authenticate('eyJhbGciOi')).rejects.toBeInstanceOf(
+        AuthErrors.InvalidTokenError,
+      );
+      expect(
+        mockPrismaService.personalAccessToken.findUnique,
+      ).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['unknown', null],
+      ['revoked', { ...activeToken, revokedAt: new Date() }],
+      ['expired', { ...activeToken, expiresAt: new Date(Date.now() - 1_000) }],
+    ])('rejects an %s token', async (_label, row) => {
+      mockPrismaService.personalAccessToken.findUnique.mockResolvedValueOnce(
+        row,
+      );
+
+      await expect(service.authenticate(rawToken)).rejects.toBeInstanceOf(
+        AuthErrors.InvalidTokenError,
+      );
+      expect(
+        mockPrismaService.personalAccessToken.update,
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SecurityService } from 'src/security/security.service';
+import { AuthErrors } from 'src/errors';
+import { addTime } from 'src/common/helpers/util';
+import { CurrentUser } from 'src/common/types/current-user';
+import { AccessTokenScope, PersonalAccessTokenSummary } from './types/auth';
+
+// 權杖開頭固定帶前綴，外洩時比較容易被掃描工具認出來
+export const ACCESS_TOKEN_PREFIX = 'gtpat_';
+
+// lastUsedAt 不必每個請求都寫，一分鐘內重複使用只記一次
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+@Injectable()
+export class PersonalAccessTokensService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly securityService: SecurityService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async createToken(
+    userId: number,
+    input: { name: string; scopes: AccessTokenScope[]; expiresInDays: number },
+  ): Promise<{ id: number; token: string }> {
+    /**
+     * Issues a new personal access token.
+     * * @description
+     * The raw token is only returned here; the database keeps its HMAC like
+     * `ActionToken.tokenHash`, so a lost token cannot be shown again and has to be
+     * revoked and re-issued instead.
+     */
+    const rawToken = `${ACCESS_TOKEN_PREFIX}${this.securityService.generateUrlFriendlySecret(32)}`;
+    const { id } = await this.prismaService.personalAccessToken.create({
+      data: {
+        userId,
+        name: input.name,
+        scopes: [...new Set(input.scopes)],
+        tokenHash: this.hashToken(rawToken),
+        expiresAt: addTime(new Date(), input.expiresInDays, 'd'),
+      },
+      select: { id: true },
+    });
+
+    return { id, token: rawToken };
+  }
+
+  async listTokens(userId: number): Promise<PersonalAccessTokenSummary[]> {
+    // 過期的也列出來，讓使用者知道要重發哪一支
+    return this.prismaService.personalAccessToken.findMany({
+      where: { userId, revokedAt: null },
+      select: {
+        id: true,
+        name: true,
+        scopes: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revokeToken(userId: number, tokenId: number): Promise<void> {
+    /**
+     * Revokes one of the user's tokens; scripts using it get 401 from the next request.
+     * Revoking an unknown or already revoked token is a no-op.
+     */
+    await this.prismaService.personalAccessToken.updateMany({
+      where: { id: tokenId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async authenticate(
+    rawToken: string,
+  ): Promise<CurrentUser & { tokenScopes: string[] }> {
+    /**
+     * Resolves a Bearer token to the user it acts for.
+     * * @description
+     * 1. **Lookup**: The HMAC of the raw token is the unique key, so no row is read
+     * for tokens that were never issued.
+     * 2. **State**: Revoked and expired tokens are rejected.
+     * 3. **Tracking**: `lastUsedAt` is refreshed at most once a minute.
+     * * @throws {AuthErrors.InvalidTokenError} When the token is unknown, revoked or expired.
+     */
+    if (!rawToken.startsWith(ACCESS_TOKEN_PREFIX)) {
+      throw AuthErrors.InvalidTokenError.personalAccess();
+    }
+
+    const now = new Date();
+    const token = await this.prismaService.personalAccessToken.findUnique({
+      where: { tokenHash: this.hashToken(rawToken) },
+      select: {
+        id: true,
+        scopes: true,
+        expiresAt: true,
+        revokedAt: true,
+        lastUsedAt: true,
+        user: {
+          select: { id: true, name: true, email: true, timeZone: true },
+        },
+      },
+    });
+    if (!token || token.revokedAt || token.expiresAt <= now) {
+      throw AuthErrors.InvalidTokenError.personalAccess();
+    }
+
+    if (
+      !token.lastUsedAt ||
+      now.getTime() - token.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+    ) {
+      await this.prismaService.personalAccessToken.update({
+        where: { id: token.id },
+        data: { lastUsedAt: now },
+      });
+    }
+
+    return {
+      userId: token.user.id,
+      userName: token.user.name,
+      email: token.user.email,
+      timeZone: token.user.timeZone,
+      tokenScopes: token.scopes,
+    };
+  }
+
+  private hashToken(rawToken: string): string {
+    const serverSecret = this.config.getOrThrow<string>('TOKEN_HMAC_SECRET');
+    return this.securityService.hmacToken(rawToken, serverSecret);
+  }
+}
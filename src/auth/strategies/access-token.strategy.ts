@@ -4,10 +4,19 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { Request } from 'express';
 import { NormalAccessTokenPayload } from 'src/security/type/accessToken.interface';
+import { isDomainError } from 'src/errors/domain-error.base';
+import { PersonalAccessTokensService } from '../personal-access-tokens.service';
+import { LOGIN_COOKIE } from '../login-sessions.service';
 
 // this part tell what to extractor from cookie
 function cookieExtractor(req: Request): string | null {
-  return req?.cookies?.grouptodo_login ?? null;
+  return req?.cookies?.[LOGIN_COOKIE] ?? null;
+}
+
+// Authorization: Bearer <個人存取權杖>；瀏覽器不會自動帶這個 header，所以這類請求不檢查 CSRF
+export function bearerTokenOf(req: Request): string | null {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
 }
 
 // from import { PassportStrategy } from '@nestjs/passport'; already tell that i use jwt
@@ -17,7 +26,10 @@ export class AccessTokenStrategy extends PassportStrategy(
   Strategy,
   'access-token',
 ) {
-  constructor(private config: ConfigService) {
+  constructor(
+    private config: ConfigService,
+    private accessTokens: PersonalAccessTokensService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromExtractors([cookieExtractor]),
       secretOrKey: config.getOrThrow<string>('JWT_SECRET'),
@@ -25,12 +37,23 @@ export class AccessTokenStrategy extends PassportStrategy(
     });
   }
 
+  // 帶了 Bearer 就只認個人存取權杖，不會退回去看 cookie
+  authenticate(req: Request, options?: unknown) {
+    const rawToken = bearerTokenOf(req);
+    if (rawToken === null) return super.authenticate(req, options);
+
+    this.accessTokens.authenticate(rawToken).then(
+      (user) => this.success(user),
+      (err: Error) => (isDomainError(err) ? this.fail(401) : this.error(err)),
+    );
+  }
+
   // validate function to deal with payload, and decide return form
   validate(payload: NormalAccessTokenPayload) {
     if (payload.tokenUse !== 'access') {
       throw new UnauthorizedException('Invalid access token');
     }
-    const { sub, ...rest } = payload;
-    return { userId: sub, ...rest };
+    const { sub, sid, ...rest } = payload;
+    return { userId: sub, sessionId: sid, ...rest };
   }
 }
@@ -23,6 +23,8 @@ export interface AuthUpdatePasswordPayload {
   email: string;
   oldPassword: string;
   newPassword: string;
+  // 目前這個登入工作階段；換完密碼只保留它
+  sessionId?: number;
 }
 
 export interface AuthResetPasswordPayload {
@@ -32,3 +34,54 @@ export interface AuthResetPasswordPayload {
   email: string;
   tokenId: number;
 }
+
+// 個人存取權杖可以勾的權限；路由用 @TokenScopes 宣告需要哪些
+export const ACCESS_TOKEN_SCOPES = [
+  'read:tasks',
+  'write:tasks',
+  'read:groups',
+  'groups:admin',
+] as const;
+export type AccessTokenScope = (typeof ACCESS_TOKEN_SCOPES)[number];
+
+export const ACCESS_TOKEN_SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  'read:tasks': 'Read tasks and sub-tasks',
+  'write:tasks': 'Create, update, close and assign tasks and sub-tasks',
+  'read:groups': 'Read groups and their members',
+  'groups:admin':
+    'Create, rename and disband groups, manage members and invitations',
+};
+
+// 權杖有效天數的選項；不提供永久權杖
+export const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365] as const;
+
+export interface PersonalAccessTokenSummary {
+  id: number;
+  name: string;
+  scopes: string[];
+  expiresAt: Date;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// 登入時記下的裝置資訊，顯示在「我的登入裝置」頁
+export interface SessionDevice {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+// refreshToken 只有輪替時才有；寬限期內重送舊的 refresh token 只換 access token
+export interface LoginTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+export interface LoginSessionSummary {
+  id: number;
+  // 由 userAgent 整理出來的名稱，例如 "Firefox on Windows"
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastActiveAt: Date;
+  createdAt: Date;
+}
@@ -0,0 +1,43 @@
+import { EventEmitter } from 'events';
+import { Server } from 'socket.io';
+import { createInMemoryClusterAdapter } from './in-memory-cluster.adapter';
+
+describe('createInMemoryClusterAdapter', () => {
+  let servers: Server[];
+
+  beforeEach(() => {
+    // 同一個 bus 上的兩個 server = 同一個 cluster 裡的兩台實例
+    const bus = new EventEmitter();
+    servers = [1, 2].map(
+      () => new Server({ adapter: createInMemoryClusterAdapter(bus) }),
+    );
+  });
+
+  afterEach(async () => {
+    // 沒有掛在 http server 上，只要關掉 adapter（停止 heartbeat）
+    await Promise.all(servers.map((s) => s.of('/').adapter.close()));
+  });
+
+  it('delivers server-side events to the other instances only', async () => {
+    const [first, second] = servers;
+    const onFirst = jest.fn();
+    const received = new Promise((resolve) =>
+      second.on('presenceCheck', resolve),
+    );
+    first.on('presenceCheck', onFirst);
+
+    first.serverSideEmit('presenceCheck', { room: 'task_1' });
+
+    await expect(received).resolves.toEqual({ room: 'task_1' });
+    expect(onFirst).not.toHaveBeenCalled();
+  });
+
+  it('answers cluster-wide socket queries once every instance replied', async () => {
+    const [first] = servers;
+    // 等 heartbeat 讓兩台互相認識
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await expect(first.of('/').adapter.serverCount()).resolves.toBe(2);
+
+    await expect(first.in('task_1').fetchSockets()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { EventEmitter } from 'events';
+import {
+  Adapter,
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  ServerId,
+} from 'socket.io-adapter';
+
+// 訊息先序列化再送出，跟真的 broker（Redis 等）一樣：Set、Date 之類不能跨實例
+function serialize<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+class InMemoryClusterAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly onBusMessage = (message: ClusterMessage) =>
+    this.onMessage(message);
+  private readonly onBusResponse = (
+    requesterUid: ServerId,
+    response: ClusterResponse,
+  ) => {
+    if (requesterUid === this.uid) this.onResponse(response);
+  };
+
+  constructor(
+    nsp: unknown,
+    private readonly bus: EventEmitter,
+    opts: ClusterAdapterOptions,
+  ) {
+    super(nsp, opts);
+    bus.on('message', this.onBusMessage);
+    bus.on('response', this.onBusResponse);
+  }
+
+  protected doPublish(message: ClusterMessage): Promise<string> {
+    const payload = serialize(message);
+    setImmediate(() => this.bus.emit('message', payload));
+    return Promise.resolve('');
+  }
+
+  protected doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse,
+  ): Promise<void> {
+    const payload = serialize(response);
+    setImmediate(() => this.bus.emit('response', requesterUid, payload));
+    return Promise.resolve();
+  }
+
+  close() {
+    super.close();
+    this.bus.off('message', this.onBusMessage);
+    this.bus.off('response', this.onBusResponse);
+  }
+}
+
+/**
+ * A cluster adapter whose "broker" is an in-process event bus.
+ *
+ * Stand-in for a real cluster adapter (e.g. the Redis one) when running several
+ * Socket.IO servers in one process — local checks and tests of cross-instance
+ * features such as presence. Servers built with the same `bus` form one cluster.
+ */
+export function createInMemoryClusterAdapter(
+  bus: EventEmitter = new EventEmitter(),
+  opts: ClusterAdapterOptions = {},
+): typeof Adapter {
+  // Socket.IO 會用 `new` 建立每個 namespace 的 adapter
+  return class extends InMemoryClusterAdapter {
+    constructor(nsp: unknown) {
+      super(nsp, bus, opts);
+    }
+  };
+}
@@ -0,0 +1,28 @@
+import { INestApplicationContext } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { Server, ServerOptions } from 'socket.io';
+
+type AdapterFactory = NonNullable<Parameters<Server['adapter']>[0]>;
+
+/**
+ * Socket.IO adapter with a pluggable cluster adapter.
+ *
+ * Without one, Socket.IO keeps rooms in memory and everything (broadcasts, presence,
+ * `fetchSockets`) only sees the current instance. When running several app instances,
+ * pass a cluster adapter (e.g. `createAdapter(redisClient)` from `@socket.io/redis-adapter`);
+ * `createInMemoryClusterAdapter` is the in-process stand-in for local checks and tests.
+ */
+export class RealtimeIoAdapter extends IoAdapter {
+  constructor(
+    app: INestApplicationContext,
+    private readonly adapterFactory?: AdapterFactory,
+  ) {
+    super(app);
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    if (this.adapterFactory) server.adapter(this.adapterFactory);
+    return server;
+  }
+}
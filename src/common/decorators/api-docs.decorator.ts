@@ -0,0 +1,60 @@
+import { applyDecorators, HttpStatus } from '@nestjs/common';
+import {
+  ApiCookieAuth,
+  ApiDefaultResponse,
+  ApiHeader,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { ApiErrorEnvelopeDto } from '../dto/api-error.dto';
+
+// 登入後拿到的 cookie；也是 OpenAPI security scheme 的名稱
+export const ACCESS_COOKIE_SCHEME = 'grouptodo_login';
+// 個人存取權杖（Authorization: Bearer）的 security scheme 名稱
+export const ACCESS_TOKEN_SCHEME = 'personal-access-token';
+export const CSRF_HEADER = 'x-csrf-token';
+
+const ERROR_DESCRIPTIONS: Partial<Record<HttpStatus, string>> = {
+  [HttpStatus.BAD_REQUEST]: 'Validation failed or the request breaks a rule',
+  [HttpStatus.UNAUTHORIZED]: 'Missing or expired login cookie',
+  [HttpStatus.FORBIDDEN]: 'Signed in but not allowed to do this',
+  [HttpStatus.NOT_FOUND]: 'The resource does not exist or is not visible',
+  [HttpStatus.CONFLICT]: 'Conflicts with the current state',
+};
+
+/**
+ * 列出路由可能回的錯誤狀態碼，schema 一律是錯誤信封。
+ * * @description
+ * 沒列到的狀態碼由 `default` 回應涵蓋，所以這裡只列呼叫端值得分開處理的。
+ */
+export function ApiErrorResponses(...statuses: HttpStatus[]) {
+  return applyDecorators(
+    ApiDefaultResponse({
+      description: 'Any other error',
+      type: ApiErrorEnvelopeDto,
+    }),
+    ...statuses.map((status) =>
+      ApiResponse({
+        status,
+        description: ERROR_DESCRIPTIONS[status] ?? HttpStatus[status],
+        type: ApiErrorEnvelopeDto,
+      }),
+    ),
+  );
+}
+
+export function ApiSignedIn() {
+  return applyDecorators(
+    ApiCookieAuth(ACCESS_COOKIE_SCHEME),
+    ApiErrorResponses(HttpStatus.UNAUTHORIZED),
+  );
+}
+
+// GET 以外都會經過 csrf-csrf；token 從 GET /api/v1/auth/csrf-token 拿
+export function ApiCsrf() {
+  return ApiHeader({
+    name: CSRF_HEADER,
+    required: true,
+    description:
+      'CSRF token from GET /api/v1/auth/csrf-token. That call also sets the XSRF-TOKEN cookie, which must be sent back with this request. A missing or stale token is rejected with a plain-text 403. Not checked for requests that send a personal access token.',
+  });
+}
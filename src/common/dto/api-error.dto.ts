@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { ApiErrorEnvelope } from '../types/api-error';
+
+// 只給 OpenAPI 文件用：描述 ApiErrorEnvelope 的 schema，實際回應由 toApiError 組出來
+export class ApiErrorEnvelopeDto implements ApiErrorEnvelope {
+  @ApiProperty({ example: 404 })
+  statusCode: number;
+
+  @ApiProperty({
+    example: 'TASK_NOT_FOUND',
+    description:
+      'A DomainErrorCode, VALIDATION_FAILED, or the HTTP status name (UNAUTHORIZED, NOT_FOUND ...).',
+  })
+  code: string;
+
+  @ApiProperty({ example: 'Task not found' })
+  message: string;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    example: { title: 'title should not be empty' },
+    description: 'Field name to message. Nested fields use dotted paths.',
+  })
+  fieldErrors?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    example: 'FORCE_CLOSE_REASON_REQUIRED',
+    description: 'What the client should do next, when the error has one.',
+  })
+  action?: string;
+
+  @ApiProperty({
+    example: '3f6c2a1e-5b7d-4c1a-9e0f-2d8b6a4c7e11',
+    description: 'Same value as the X-Request-Id response header.',
+  })
+  requestId: string;
+}
@@ -8,7 +8,11 @@ export class PageMetaDto {
   readonly hasPreviousPage: boolean;
   readonly hasNextPage: boolean;
 
-  constructor(pageOptionsDto: PageOptionsDto, itemCount: number) {
+  // 只用到 page / limit：自己算分頁的查詢（raw SQL、管理頁）不必湊出完整的 PageOptionsDto
+  constructor(
+    pageOptionsDto: Pick<PageOptionsDto, 'page' | 'limit'>,
+    itemCount: number,
+  ) {
     this.page = pageOptionsDto.page ?? 1;
     this.limit = pageOptionsDto.limit ?? 10;
     this.itemCount = itemCount;
@@ -7,6 +7,7 @@ import {
   HttpStatus,
 } from '@nestjs/common';
 import { loggerInstance } from '../logger/logger';
+import { requestIdOf, toApiError } from '../helpers/api-error';
 
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
@@ -35,7 +36,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     // 2. 🚀 Winston Log 參數設計
     loggerInstance.error(`[Exception] ${request.method} ${request.url}`, {
       context: 'AllExceptionsFilter',
-      requestId: request.headers['x-request-id'], // 如果有實作 Request ID 會更好追蹤
+      requestId: requestIdOf(request),
       user: (request as any).user?.userId, // 記錄是哪個使用者觸發的錯誤
       status,
       errorCode,
@@ -57,13 +58,9 @@ export class AllExceptionsFilter implements ExceptionFilter {
     const finalMessage = Array.isArray(message) ? message[0] : message;
 
     if (isAjax) {
-      // API 回傳：包含 code 讓前端可以根據代碼顯示不同 UI
-      return response.status(status).json({
-        statusCode: status,
-        code: errorCode,
-        message: finalMessage,
-        timestamp: new Date().toISOString(),
-      });
+      // API 回傳：跟 /api/v1 同一個信封，前端可以根據 code / action 顯示不同 UI
+      const body = toApiError(exception, requestIdOf(request));
+      return response.status(body.statusCode).json(body);
     } else {
       // 網頁回傳：利用 Session 傳遞錯誤訊息 (Flash Message)
       if (request.session) {
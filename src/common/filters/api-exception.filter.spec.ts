@@ -0,0 +1,81 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiExceptionFilter } from './api-exception.filter';
+import {
+  createMockHost,
+  createMockReq,
+  createMockRes,
+} from 'src/test/factories/mock-http.factory';
+import { GroupsErrors, TasksErrors } from 'src/errors';
+import { statusForDomainError } from 'src/errors/domain-error-status';
+
+describe('ApiExceptionFilter', () => {
+  const filter = new ApiExceptionFilter();
+
+  const run = (exception: unknown) => {
+    const req = createMockReq({
+      url: '/api/v1/tasks/1',
+      headers: { 'x-request-id': 'req-1' },
+    });
+    const res = createMockRes();
+    filter.catch(exception, createMockHost(req, res));
+    return res;
+  };
+
+  it('answers domain errors with their status, code and action', () => {
+    const res = run(TasksErrors.TaskForbiddenError.byActorOnTask(1, 2, 'X'));
+
+    expect(res.status).toHaveBeenCalledWith(HttpStatus.FORBIDDEN);
+    expect(res.json).toHaveBeenCalledWith({
+      statusCode: HttpStatus.FORBIDDEN,
+      code: 'TASK_FORBIDDEN',
+      message: 'You are not allowed to perform this action on the task.',
+      action: 'X',
+      requestId: 'req-1',
+    });
+    expect(res.redirect).not.toHaveBeenCalled();
+  });
+
+  it('maps dynamic FORBIDDEN_ codes to 403', () => {
+    const res = run(GroupsErrors.GroupActionForbiddenError.updateGroup(1, 2));
+
+    expect(res.status).toHaveBeenCalledWith(HttpStatus.FORBIDDEN);
+    expect(statusForDomainError('OWNER_CAN_NOT_REMOVE_THEMSELVES')).toBe(
+      HttpStatus.CONFLICT,
+    );
+  });
+
+  it('answers 401 as JSON instead of redirecting to the sign-in page', () => {
+    const res = run(new UnauthorizedException());
+
+    expect(res.status).toHaveBeenCalledWith(HttpStatus.UNAUTHORIZED);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'UNAUTHORIZED' }),
+    );
+  });
+
+  it('keeps the first validation message', () => {
+    const res = run(
+      new BadRequestException(['title should not be empty', 'other']),
+    );
+
+    expect(res.json).toHaveBeenCalledWith({
+      statusCode: HttpStatus.BAD_REQUEST,
+      code: 'BAD_REQUEST',
+      message: 'title should not be empty',
+      requestId: 'req-1',
+    });
+  });
+
+  it('hides unexpected errors behind a 500', () => {
+    const res = run(new Error('db exploded'));
+
+    expect(res.status).toHaveBeenCalledWith(HttpStatus.INTERNAL_SERVER_ERROR);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Internal server error' }),
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import type { Request, Response } from 'express';
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { loggerInstance } from '../logger/logger';
+import { requestIdOf, toApiError } from '../helpers/api-error';
+
+// /api/v1 的錯誤一律回 JSON 信封（見 ApiErrorEnvelope）：不轉址、不寫 flash
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  catch(exception: unknown, host: ArgumentsHost) {
+    const ctx = host.switchToHttp();
+    const req = ctx.getRequest<Request>();
+    const res = ctx.getResponse<Response>();
+
+    const body = toApiError(exception, requestIdOf(req));
+
+    if (body.statusCode >= 500) {
+      loggerInstance.error(`[Exception] ${req.method} ${req.originalUrl}`, {
+        context: 'ApiExceptionFilter',
+        requestId: body.requestId,
+        user: (req.user as { userId?: number } | undefined)?.userId,
+        status: body.statusCode,
+        code: body.code,
+        stack: exception instanceof Error ? exception.stack : undefined,
+      });
+    }
+
+    return res.status(body.statusCode).json(body);
+  }
+}
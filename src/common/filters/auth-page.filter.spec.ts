@@ -1,5 +1,4 @@
 // filters/auth-page.filter.spec.ts
-import { HttpStatus } from '@nestjs/common';
 import { createDomainErrorPageFilter } from './factory/create-domain-error-page-filter';
 import { makeRedirectHandler } from 'src/common/types/domain-error-page.types';
 import {
@@ -16,19 +15,15 @@ import { setSession } from 'src/common/helpers/flash-helper';
 
 const AuthPageFilter = createDomainErrorPageFilter({
   PASSWORD_REUSE: makeRedirectHandler('/auth/reset-password', {
-    semanticStatus: HttpStatus.BAD_REQUEST,
     msg: () => 'Please use a new password.',
   }),
   PASSWORD_CONFIRMATION_MISMATCH: makeRedirectHandler('/auth/reset-password', {
-    semanticStatus: HttpStatus.BAD_REQUEST,
     msg: () => 'New password and confirmation do not match.',
   }),
   INVALID_TOKEN: makeRedirectHandler('/', {
-    semanticStatus: HttpStatus.UNAUTHORIZED,
     msg: () => 'Invalid token',
   }),
   CREDENTIAL_DUPLICATED: makeRedirectHandler('/auth/signup', {
-    semanticStatus: HttpStatus.CONFLICT,
     msg: () => 'Email already in use.',
     fieldErrors: (err) => {
       const d = dataAs<CredentialDuplicatedData>(err);
@@ -39,11 +34,9 @@ const AuthPageFilter = createDomainErrorPageFilter({
     preserve: ['email', 'name'],
   }),
   INVALID_CREDENTIAL: makeRedirectHandler('/auth/signin', {
-    semanticStatus: HttpStatus.UNAUTHORIZED,
     msg: () => 'Invalid email or password',
   }),
   INVALID_OLD_PASSWORD: makeRedirectHandler('/users-home', {
-    semanticStatus: HttpStatus.UNAUTHORIZED,
     msg: () => 'Invalid old password',
   }),
 });
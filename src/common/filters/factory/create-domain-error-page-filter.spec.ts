@@ -1,4 +1,3 @@
-import { HttpStatus } from '@nestjs/common';
 import { createDomainErrorPageFilter } from './create-domain-error-page-filter';
 import {
   makeRedirectHandler,
@@ -28,7 +27,6 @@ describe('createDomainErrorPageFilter (factory behavior)', () => {
     // ✅ 用與下面 DummyError 一致的 key：'PASSWORD_REUSE'
     const filter = createDomainErrorPageFilter({
       PASSWORD_REUSE: makeRedirectHandler('/somewhere', {
-        semanticStatus: HttpStatus.BAD_REQUEST,
         preserve: ['email'], // ✅ 要回填 email
         // ✅ 用 dataAs 取得強型別 data
         msg: (err) => `hi:${dataAs<{ x?: number }>(err)?.x ?? 'n/a'}`,
@@ -11,6 +11,8 @@ import {
   type FieldErrs,
 } from '../../types/domain-error-page.types';
 import { isDomainError, type DomainError } from 'src/errors/domain-error.base';
+import { statusForDomainError } from 'src/errors/domain-error-status';
+import { requestIdOf, toApiError } from 'src/common/helpers/api-error';
 
 // ---- Helper 函式 ----
 
@@ -78,8 +80,8 @@ export function createDomainErrorPageFilter(
           msg: err.message,
         });
 
-      const semanticStatus =
-        handler.kind === 'redirect' ? handler.semanticStatus : handler.status;
+      // 語義上的狀態碼統一查 DOMAIN_ERROR_STATUS；頁面實際回的是 303 或 render 的狀態碼
+      const semanticStatus = statusForDomainError(err.code);
       const responseStatus =
         handler.kind === 'redirect'
           ? (handler.httpStatus ?? HttpStatus.SEE_OTHER)
@@ -119,12 +121,8 @@ export function createDomainErrorPageFilter(
         req.headers.accept?.includes('json') ||
         req.headers['content-type']?.includes('json');
       if (isAjax) {
-        return res.status(semanticStatus || 400).json({
-          code: errorCode,
-          message: err.message,
-          action: err.action,
-          data: (err as any).data,
-        });
+        const body = toApiError(err, requestIdOf(req));
+        return res.status(body.statusCode).json(body);
       }
 
       const form: Record<string, any> = {};
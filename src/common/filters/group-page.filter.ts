@@ -1,6 +1,5 @@
 import { makeRedirectHandler } from 'src/common/types/domain-error-page.types';
 import { createDomainErrorPageFilter } from './factory/create-domain-error-page-filter';
-import { HttpStatus } from '@nestjs/common';
 
 import type { DomainError } from 'src/errors/domain-error.base';
 import { globalDomainErrorMap } from './common-domain-error-map';
@@ -17,7 +16,6 @@ export function hasGroupContext(
 export const GroupsPageFilter = createDomainErrorPageFilter({
   ...globalDomainErrorMap,
   GROUP_NOT_FOUND: makeRedirectHandler('/users-home', {
-    semanticStatus: HttpStatus.NOT_FOUND,
     msg: () => 'Group not found',
   }),
 
@@ -27,7 +25,6 @@ export const GroupsPageFilter = createDomainErrorPageFilter({
       return `/groups/${id}`;
     },
     {
-      semanticStatus: HttpStatus.BAD_REQUEST,
       msg: () => 'Member has already in group.',
     },
   ),
@@ -41,7 +38,6 @@ export const GroupsPageFilter = createDomainErrorPageFilter({
       return `/groups/${id}`;
     },
     {
-      semanticStatus: HttpStatus.NOT_FOUND,
       msg: () => 'Group member not found.',
     },
   ),
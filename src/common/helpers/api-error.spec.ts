@@ -0,0 +1,114 @@
+import { HttpStatus, NotFoundException } from '@nestjs/common';
+import type { ValidationError } from '@nestjs/common';
+import {
+  createValidationException,
+  requestIdOf,
+  toApiError,
+} from './api-error';
+import { createMockReq } from 'src/test/factories/mock-http.factory';
+import { AuthErrors, GroupsErrors } from 'src/errors';
+import {
+  DOMAIN_ERROR_STATUS,
+  statusForDomainError,
+} from 'src/errors/domain-error-status';
+
+describe('api-error helpers', () => {
+  describe('requestIdOf', () => {
+    it('keeps a well-formed upstream id', () => {
+      const req = createMockReq({ headers: { 'x-request-id': 'abc-123' } });
+      expect(requestIdOf(req)).toBe('abc-123');
+    });
+
+    it('replaces ids that could inject into logs', () => {
+      const req = createMockReq({
+        headers: { 'x-request-id': 'bad\nid' },
+      });
+      expect(requestIdOf(req)).not.toBe('bad\nid');
+      expect(requestIdOf(req)).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe('createValidationException', () => {
+    it('flattens nested constraints into dotted field errors', () => {
+      const errors = [
+        {
+          property: 'title',
+          constraints: { isNotEmpty: 'title should not be empty' },
+        },
+        {
+          property: 'labels',
+          children: [
+            {
+              property: '0',
+              constraints: { isInt: 'each label must be an integer' },
+            },
+          ],
+        },
+      ] as ValidationError[];
+
+      const body = toApiError(createValidationException(errors), 'r');
+
+      expect(body).toEqual({
+        statusCode: HttpStatus.BAD_REQUEST,
+        code: 'VALIDATION_FAILED',
+        message: 'title should not be empty',
+        fieldErrors: {
+          title: 'title should not be empty',
+          'labels.0': 'each label must be an integer',
+        },
+        requestId: 'r',
+      });
+    });
+
+    it('keeps the message array for the page filters', () => {
+      const ex = createValidationException([
+        { property: 'email', constraints: { isEmail: 'email must be valid' } },
+      ] as ValidationError[]);
+
+      expect(ex.getResponse()).toEqual(
+        expect.objectContaining({ message: ['email must be valid'] }),
+      );
+    });
+  });
+
+  describe('toApiError', () => {
+    it('turns the duplicated field of a domain error into a field error', () => {
+      const body = toApiError(
+        AuthErrors.CredentialDuplicatedError.email('a@test.com'),
+        'r',
+      );
+
+      expect(body.statusCode).toBe(HttpStatus.CONFLICT);
+      expect(body.code).toBe('CREDENTIAL_DUPLICATED');
+      expect(body.fieldErrors).toEqual({ email: body.message });
+    });
+
+    it('uses the HTTP status name for plain HttpExceptions', () => {
+      expect(toApiError(new NotFoundException(), 'r')).toEqual({
+        statusCode: HttpStatus.NOT_FOUND,
+        code: 'NOT_FOUND',
+        message: 'Not Found',
+        requestId: 'r',
+      });
+    });
+  });
+
+  describe('statusForDomainError', () => {
+    it('reads static codes from the central table', () => {
+      expect(statusForDomainError('GROUP_NOT_FOUND')).toBe(
+        DOMAIN_ERROR_STATUS.GROUP_NOT_FOUND,
+      );
+    });
+
+    it('maps the dynamic owner and forbidden codes by prefix', () => {
+      const ownerError = GroupsErrors.GroupOwnerConstraintError.cannotLeave(
+        1,
+        2,
+      );
+      expect(statusForDomainError(ownerError.code)).toBe(HttpStatus.CONFLICT);
+      expect(statusForDomainError('FORBIDDEN_UPDATE_GROUP')).toBe(
+        HttpStatus.FORBIDDEN,
+      );
+    });
+  });
+});
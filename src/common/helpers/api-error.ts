@@ -0,0 +1,123 @@
+import { randomUUID } from 'crypto';
+import type { Request } from 'express';
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  type ValidationError,
+} from '@nestjs/common';
+import { isDomainError } from 'src/errors/domain-error.base';
+import { statusForDomainError } from 'src/errors/domain-error-status';
+import {
+  VALIDATION_FAILED,
+  type ApiErrorEnvelope,
+  type ValidationErrorResponse,
+} from '../types/api-error';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// 上游給的 id 只收簡單字元，避免被拿來塞進 log
+const SAFE_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export function requestIdOf(req: Request): string {
+  const id = req.headers[REQUEST_ID_HEADER];
+  return typeof id === 'string' && SAFE_REQUEST_ID.test(id) ? id : randomUUID();
+}
+
+function flattenValidationErrors(
+  errors: ValidationError[],
+  prefix = '',
+  out: Record<string, string> = {},
+): Record<string, string> {
+  for (const err of errors) {
+    const field = prefix ? `${prefix}.${err.property}` : err.property;
+    if (err.constraints) {
+      out[field] = Object.values(err.constraints).join(', ');
+    }
+    if (err.children?.length) {
+      flattenValidationErrors(err.children, field, out);
+    }
+  }
+  return out;
+}
+
+export function createValidationException(
+  errors: ValidationError[],
+): BadRequestException {
+  /**
+   * ValidationPipe 的 exceptionFactory。
+   * * @description
+   * 1. **message**: 跟以前一樣是訊息陣列，頁面 filter 只取第一句顯示。
+   * 2. **fieldErrors**: 多帶欄位 → 訊息，JSON 呼叫端可以直接標在表單欄位上。
+   */
+  const fieldErrors = flattenValidationErrors(errors);
+  const messages = Object.values(fieldErrors);
+  const body: ValidationErrorResponse = {
+    statusCode: HttpStatus.BAD_REQUEST,
+    code: VALIDATION_FAILED,
+    message: messages.length ? messages : ['Validation error'],
+    error: 'Bad Request',
+    fieldErrors,
+  };
+  return new BadRequestException(body);
+}
+
+export function toApiError(
+  exception: unknown,
+  requestId: string,
+): ApiErrorEnvelope {
+  /**
+   * Turns any thrown value into the JSON error envelope.
+   * * @description
+   * 1. **DomainError**: Status from `statusForDomainError`; `action` is passed through and
+   * `data.field` (e.g. a duplicated email) becomes a field error.
+   * 2. **Validation**: `VALIDATION_FAILED` with the per-field messages of the ValidationPipe.
+   * 3. **HttpException**: The HTTP status name as the code (`UNAUTHORIZED`, `NOT_FOUND` ...).
+   * 4. **Anything else**: A 500 that does not leak the original message.
+   */
+  if (isDomainError(exception)) {
+    const data = exception.data as { field?: unknown } | undefined;
+    return {
+      statusCode: statusForDomainError(exception.code),
+      code: exception.code,
+      message: exception.message,
+      ...(typeof data?.field === 'string' && {
+        fieldErrors: { [data.field]: exception.message },
+      }),
+      ...(exception.action && { action: exception.action }),
+      requestId,
+    };
+  }
+
+  if (exception instanceof HttpException) {
+    const status = exception.getStatus();
+    const body = exception.getResponse() as
+      | string
+      | Partial<ValidationErrorResponse>
+      | { message?: string | string[] };
+    if (typeof body === 'object' && 'code' in body && body.code) {
+      return {
+        statusCode: status,
+        code: body.code,
+        message: body.message?.[0] ?? 'Validation error',
+        fieldErrors: body.fieldErrors ?? {},
+        requestId,
+      };
+    }
+
+    const raw = typeof body === 'string' ? body : body.message;
+    return {
+      statusCode: status,
+      code: HttpStatus[status] ?? 'HTTP_ERROR',
+      message: (Array.isArray(raw) ? raw[0] : raw) ?? exception.message,
+      requestId,
+    };
+  }
+
+  return {
+    statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+    code: 'INTERNAL_SERVER_ERROR',
+    message: 'Internal server error',
+    requestId,
+  };
+}
@@ -0,0 +1,10 @@
+import { Request, Response, NextFunction } from 'express';
+import { REQUEST_ID_HEADER, requestIdOf } from '../helpers/api-error';
+
+// 每個請求一個 id：沿用上游 proxy 給的，沒有就自己產生；log 與錯誤回應都帶著它
+export function requestId(req: Request, res: Response, next: NextFunction) {
+  const id = requestIdOf(req);
+  req.headers[REQUEST_ID_HEADER] = id;
+  res.setHeader('X-Request-Id', id);
+  next();
+}
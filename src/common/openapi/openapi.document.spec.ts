@@ -0,0 +1,204 @@
+import { Test } from '@nestjs/testing';
+import type { INestApplication, Type } from '@nestjs/common';
+import type {
+  OpenAPIObject,
+  OperationObject,
+  ParameterObject,
+  ReferenceObject,
+} from '@nestjs/swagger';
+import { createOpenApiDocument } from './openapi.document';
+import {
+  ACCESS_COOKIE_SCHEME,
+  ACCESS_TOKEN_SCHEME,
+  CSRF_HEADER,
+} from '../decorators/api-docs.decorator';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { TasksApiController } from 'src/tasks/controllers/tasks.api.controller';
+import { SubTasksApiController } from 'src/tasks/controllers/sub-tasks.api.controller';
+import { GroupsApiController } from 'src/groups/groups.api.controller';
+import { AuthApiController } from 'src/auth/auth.api.controller';
+import { TasksService } from 'src/tasks/services/tasks.service';
+import { SubTasksService } from 'src/tasks/services/sub-tasks.service';
+import { GroupsService } from 'src/groups/groups.service';
+import { AuthService } from 'src/auth/auth.service';
+import { LoginSessionsService } from 'src/auth/login-sessions.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Reflector } from '@nestjs/core';
+import { RequireTokenScopes } from 'src/auth/decorators/token-scopes.decorator';
+
+const API_CONTROLLERS: Type[] = [
+  TasksApiController,
+  SubTasksApiController,
+  GroupsApiController,
+  AuthApiController,
+];
+
+type Operation = {
+  path: string;
+  method: string;
+  op: OperationObject & { 'x-token-scopes'?: string[] };
+};
+
+const ERROR_ENVELOPE_REF = '#/components/schemas/ApiErrorEnvelopeDto';
+
+describe('OpenAPI document', () => {
+  let app: INestApplication;
+  let document: OpenAPIObject;
+  let operations: Operation[];
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      controllers: API_CONTROLLERS,
+      providers: [
+        { provide: TasksService, useValue: {} },
+        { provide: SubTasksService, useValue: {} },
+        { provide: GroupsService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: LoginSessionsService, useValue: {} },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    document = createOpenApiDocument(app);
+    operations = Object.entries(document.paths).flatMap(([path, item]) =>
+      Object.entries(item)
+        .filter(([method]) =>
+          ['get', 'post', 'put', 'patch', 'delete'].includes(method),
+        )
+        .map(([method, op]) => ({
+          path,
+          method,
+          op: op as Operation['op'],
+        })),
+    );
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  // operationId 預設是 `${Controller}_${method}`，用來找回對應的 handler
+  const handlerOf = (operationId: string) => {
+    const [controllerName, methodName] = operationId.split('_');
+    const controller = API_CONTROLLERS.find((c) => c.name === controllerName);
+    return (controller?.prototype as Record<string, unknown> | undefined)?.[
+      methodName
+    ] as object | undefined;
+  };
+
+  const label = ({ method, path }: Operation) =>
+    `${method.toUpperCase()} ${path}`;
+
+  it('only lists the versioned API', () => {
+    expect(operations.length).toBeGreaterThan(0);
+    for (const path of Object.keys(document.paths)) {
+      expect(path.startsWith('/api/v1/')).toBe(true);
+    }
+  });
+
+  it('documents a success response for every route', () => {
+    const undocumented = operations
+      .filter(({ op }) =>
+        Object.entries(op.responses).every(
+          ([status, res]) =>
+            !/^2\d\d$/.test(status) ||
+            !(res as { description?: string }).description,
+        ),
+      )
+      .map(label);
+
+    expect(undocumented).toEqual([]);
+  });
+
+  it('documents the error envelope for every route', () => {
+    const missing = operations
+      .filter(
+        ({ op }) =>
+          !JSON.stringify(op.responses.default ?? {}).includes(
+            ERROR_ENVELOPE_REF,
+          ),
+      )
+      .map(label);
+
+    expect(missing).toEqual([]);
+    expect(document.components?.schemas?.ApiErrorEnvelopeDto).toBeDefined();
+  });
+
+  it('requires the CSRF header on every route that is not a GET', () => {
+    const missing = operations
+      .filter(({ method }) => method !== 'get')
+      .filter(
+        ({ op }) =>
+          !(op.parameters ?? []).some(
+            (p: ParameterObject | ReferenceObject) =>
+              'name' in p &&
+              p.name === CSRF_HEADER &&
+              p.in === 'header' &&
+              p.required,
+          ),
+      )
+      .map(label);
+
+    expect(missing).toEqual([]);
+  });
+
+  it('asks for the login cookie exactly on the routes that are not @Public', () => {
+    const mismatched = operations
+      .filter(({ op }) => {
+        const handler = handlerOf(op.operationId!);
+        const isPublic =
+          !!handler && Reflect.getMetadata(IS_PUBLIC_KEY, handler) === true;
+        const usesCookie = (op.security ?? []).some(
+          (req) => ACCESS_COOKIE_SCHEME in req,
+        );
+        return !handler || isPublic === usesCookie;
+      })
+      .map(label);
+
+    expect(mismatched).toEqual([]);
+    expect(
+      document.components?.securitySchemes?.[ACCESS_COOKIE_SCHEME],
+    ).toEqual(
+      expect.objectContaining({ in: 'cookie', name: ACCESS_COOKIE_SCHEME }),
+    );
+  });
+
+  it('offers the Bearer scheme exactly on the routes that accept personal access tokens', () => {
+    const reflector = new Reflector();
+    const mismatched = operations
+      .filter(({ op }) => {
+        const handler = handlerOf(op.operationId!);
+        const scopes = handler
+          ? reflector.get(RequireTokenScopes, handler as () => void)
+          : undefined;
+        const usesBearer = (op.security ?? []).some(
+          (req) => ACCESS_TOKEN_SCHEME in req,
+        );
+        return (
+          usesBearer !== (scopes !== undefined) ||
+          (scopes !== undefined &&
+            JSON.stringify(op['x-token-scopes']) !== JSON.stringify(scopes))
+        );
+      })
+      .map(label);
+
+    expect(mismatched).toEqual([]);
+  });
+
+  it('declares every path parameter', () => {
+    const missing = operations.flatMap((o) =>
+      [...o.path.matchAll(/\{(\w+)\}/g)]
+        .map(([, name]) => name)
+        .filter(
+          (name) =>
+            !(o.op.parameters ?? []).some(
+              (p) => 'name' in p && p.name === name && p.in === 'path',
+            ),
+        )
+        .map((name) => `${label(o)} {${name}}`),
+    );
+
+    expect(missing).toEqual([]);
+  });
+});
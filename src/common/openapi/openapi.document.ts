@@ -0,0 +1,72 @@
+import type { INestApplication } from '@nestjs/common';
+import {
+  DocumentBuilder,
+  SwaggerModule,
+  type OpenAPIObject,
+} from '@nestjs/swagger';
+import {
+  ACCESS_COOKIE_SCHEME,
+  ACCESS_TOKEN_SCHEME,
+  CSRF_HEADER,
+} from '../decorators/api-docs.decorator';
+
+// 只有 /api/v1 是對外承諾的 JSON API；頁面與頁面用的 /api/... 不放進文件
+export const OPENAPI_PATH_PREFIX = '/api/v1';
+export const OPENAPI_DOCS_PATH = 'api/docs';
+
+export function createOpenApiDocument(app: INestApplication): OpenAPIObject {
+  const config = new DocumentBuilder()
+    .setTitle('Group Todos API')
+    .setDescription(
+      [
+        'JSON API for tasks, sub-tasks, groups and auth.',
+        '',
+        `Sign in with POST /api/v1/auth/signin; the \`${ACCESS_COOKIE_SCHEME}\` cookie it sets authenticates later calls.`,
+        'That access token is short-lived; while the refresh cookie set alongside it is valid, an expired access token is renewed on the next call and both cookies are replaced.',
+        `Every request other than GET needs the \`${CSRF_HEADER}\` header (see GET /api/v1/auth/csrf-token).`,
+        'Scripts can instead send a personal access token (created on /users-home/access-tokens) as `Authorization: Bearer <token>`; those requests skip the CSRF check.',
+        'A token only works on routes that list `x-token-scopes`, and it needs every scope listed there.',
+        'Errors always use the ApiErrorEnvelopeDto body; quote its requestId when reporting a problem.',
+      ].join('\n'),
+    )
+    .setVersion('1')
+    .addCookieAuth(
+      ACCESS_COOKIE_SCHEME,
+      {
+        type: 'apiKey',
+        in: 'cookie',
+        name: ACCESS_COOKIE_SCHEME,
+        description: 'Set by POST /api/v1/auth/signin.',
+      },
+      ACCESS_COOKIE_SCHEME,
+    )
+    .addBearerAuth(
+      {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'Personal access token (gtpat_...).',
+      },
+      ACCESS_TOKEN_SCHEME,
+    )
+    .build();
+
+  const document = SwaggerModule.createDocument(app, config);
+  document.paths = Object.fromEntries(
+    Object.entries(document.paths).filter(([path]) =>
+      path.startsWith(OPENAPI_PATH_PREFIX),
+    ),
+  );
+  return document;
+}
+
+// 互動式文件只在非 production 開；文件本身不需要登入
+export function setupOpenApi(app: INestApplication) {
+  SwaggerModule.setup(
+    OPENAPI_DOCS_PATH,
+    app,
+    () => createOpenApiDocument(app),
+    {
+      swaggerOptions: { withCredentials: true, persistAuthorization: true },
+    },
+  );
+}
@@ -0,0 +1,24 @@
+// JSON 呼叫端（/api/v1、頁面上的 fetch）收到的錯誤格式，欄位不要隨意改名
+export interface ApiErrorEnvelope {
+  statusCode: number;
+  // DomainErrorCode、VALIDATION_FAILED，或 HTTP 狀態名稱（UNAUTHORIZED ...）
+  code: string;
+  message: string;
+  // 欄位名稱 → 錯誤訊息；巢狀欄位用 a.b
+  fieldErrors?: Record<string, string>;
+  // 前端要接著做的事，例如 FORCE_CLOSE_REASON_REQUIRED
+  action?: string;
+  // 對應 X-Request-Id，回報問題時拿來查 log
+  requestId: string;
+}
+
+export const VALIDATION_FAILED = 'VALIDATION_FAILED';
+
+// ValidationPipe 丟出的 BadRequestException 內容（見 createValidationException）
+export interface ValidationErrorResponse {
+  statusCode: number;
+  code: typeof VALIDATION_FAILED;
+  message: string[];
+  error: string;
+  fieldErrors: Record<string, string>;
+}
@@ -3,4 +3,8 @@ export interface CurrentUser {
   userName: string;
   email: string;
   timeZone: string;
+  // 只有用個人存取權杖登入時才有；登入 cookie 不受 scope 限制
+  tokenScopes?: string[];
+  // 登入 cookie 對應的 LoginSession.id；個人存取權杖沒有
+  sessionId?: number;
 }
@@ -28,8 +28,6 @@ export type RedirectHandler = CommonHandlerProps & {
   to: RedirectTo;
   /** 實際回給瀏覽器的 3xx（預設 303） */
   httpStatus?: number;
-  /** 語義上的 4xx/5xx，僅供 log/metrics（不回給瀏覽器） */
-  semanticStatus?: number;
 };
 
 export type RenderHandler = CommonHandlerProps & {
@@ -56,7 +54,6 @@ export function makeRedirectHandler(
     fieldErrors: opts.fieldErrors,
     preserve: opts.preserve,
     httpStatus: opts.httpStatus ?? HttpStatus.SEE_OTHER, // 303
-    semanticStatus: opts.semanticStatus, // 可選；log 用
   };
 }
 
@@ -1,4 +1,8 @@
 import 'express-session';
+import type {
+  IcsImportPreview,
+  TaskTransferReport,
+} from 'src/tasks/types/tasks';
 
 declare module 'express-session' {
   interface SessionData {
@@ -8,5 +12,9 @@ declare module 'express-session' {
       form?: Record<string, any>;
       fieldErrors?: Record<string, string>;
     };
+    icsImport?: IcsImportPreview; // .ics 匯入的預覽，確認後清掉
+    taskTransferReport?: TaskTransferReport; // CSV / JSON 匯入結果，顯示一次
+    calendarFeedUrl?: string; // 新建立的訂閱網址，只在下一次進 users-home 顯示
+    newAccessToken?: string; // 新建立的個人存取權杖，只在下一次進設定頁顯示
   }
 }
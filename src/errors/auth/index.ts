@@ -2,3 +2,4 @@ export * from '../auth/invalid-credential.errors';
 export * from '../auth/invalid-token.error';
 export * from '../users/user-not-found.error';
 export * from '../auth/password.errors';
+export * from '../auth/token-scope.error';
@@ -1,6 +1,13 @@
 import { DomainError } from '../domain-error.base';
 
-type TokenKind = 'reset' | 'verify' | 'invite';
+type TokenKind =
+  | 'reset'
+  | 'verify'
+  | 'invite'
+  | 'calendar'
+  | 'access'
+  | 'personalAccess'
+  | 'refresh';
 export class InvalidTokenError extends DomainError<{
   tokenKind: TokenKind;
 }> {
@@ -22,4 +29,16 @@ export class InvalidTokenError extends DomainError<{
   static invite(opts?: { cause?: unknown }) {
     return new InvalidTokenError('invite', opts);
   }
+  static calendar(opts?: { cause?: unknown }) {
+    return new InvalidTokenError('calendar', opts);
+  }
+  static access(opts?: { cause?: unknown }) {
+    return new InvalidTokenError('access', opts);
+  }
+  static personalAccess(opts?: { cause?: unknown }) {
+    return new InvalidTokenError('personalAccess', opts);
+  }
+  static refresh(opts?: { cause?: unknown }) {
+    return new InvalidTokenError('refresh', opts);
+  }
 }
@@ -0,0 +1,25 @@
+import { DomainError } from '../domain-error.base';
+
+export class InsufficientScopeError extends DomainError<{
+  required: string[];
+  granted: string[];
+}> {
+  constructor(required: string[], granted: string[]) {
+    super('InsufficientScopeError', {
+      code: 'INSUFFICIENT_SCOPE',
+      message: required.length
+        ? `This token needs the ${required.join(', ')} scope.`
+        : 'Personal access tokens cannot be used here.',
+      data: { required, granted },
+    });
+  }
+
+  // 路由沒有宣告 @TokenScopes：只能用登入 cookie
+  static notAllowed(granted: string[]) {
+    return new InsufficientScopeError([], granted);
+  }
+
+  static missing(required: string[], granted: string[]) {
+    return new InsufficientScopeError(required, granted);
+  }
+}
@@ -0,0 +1,43 @@
+import { HttpStatus } from '@nestjs/common';
+import type { DomainErrorCode } from './domain-error.base';
+
+// FORBIDDEN_* / OWNER_* 是動態產生的代碼，用前綴判斷
+type StaticDomainErrorCode = Exclude<
+  DomainErrorCode,
+  `FORBIDDEN_${string}` | `OWNER_${string}`
+>;
+
+/**
+ * 每個 DomainErrorCode 對應的 HTTP 狀態碼，JSON API 與頁面 filter 都從這裡查。
+ * 新增代碼時少了這裡的對應就會編譯失敗。
+ */
+export const DOMAIN_ERROR_STATUS: Record<StaticDomainErrorCode, HttpStatus> = {
+  INVALID_CREDENTIAL: HttpStatus.UNAUTHORIZED,
+  INVALID_TOKEN: HttpStatus.UNAUTHORIZED,
+  INSUFFICIENT_SCOPE: HttpStatus.FORBIDDEN,
+  // 已登入狀態下舊密碼打錯，不是登入失效
+  INVALID_OLD_PASSWORD: HttpStatus.BAD_REQUEST,
+  PASSWORD_REUSE: HttpStatus.BAD_REQUEST,
+  PASSWORD_CONFIRMATION_MISMATCH: HttpStatus.BAD_REQUEST,
+  CREDENTIAL_DUPLICATED: HttpStatus.CONFLICT,
+  USER_NOT_FOUND: HttpStatus.NOT_FOUND,
+  TASK_NOT_FOUND: HttpStatus.NOT_FOUND,
+  TASK_EMPTY_UPDATE: HttpStatus.BAD_REQUEST,
+  TASK_STATUS_INVALID: HttpStatus.BAD_REQUEST,
+  TASK_FORBIDDEN: HttpStatus.FORBIDDEN,
+  TASK_IMPORT_INVALID: HttpStatus.BAD_REQUEST,
+  GROUP_NOT_FOUND: HttpStatus.NOT_FOUND,
+  GROUP_MEMBER_NOT_FOUND: HttpStatus.NOT_FOUND,
+  CANNOT_INVITE_SELF: HttpStatus.BAD_REQUEST,
+  ALREADY_MEMBER: HttpStatus.CONFLICT,
+  NOT_AUTHORIZED_TO_REMOVE_MEMBER: HttpStatus.FORBIDDEN,
+};
+
+export function statusForDomainError(code: string): HttpStatus {
+  const known = DOMAIN_ERROR_STATUS[code as StaticDomainErrorCode];
+  if (known) return known;
+  if (code.startsWith('FORBIDDEN_')) return HttpStatus.FORBIDDEN;
+  // 擁有者不能離開、不能被移除、角色不能改：跟群組目前的狀態衝突
+  if (code.startsWith('OWNER_')) return HttpStatus.CONFLICT;
+  return HttpStatus.BAD_REQUEST;
+}
@@ -4,12 +4,14 @@ export type DomainErrorCode =
   | 'USER_NOT_FOUND'
   | 'CREDENTIAL_DUPLICATED'
   | 'INVALID_TOKEN'
+  | 'INSUFFICIENT_SCOPE'
   | 'PASSWORD_REUSE'
   | 'PASSWORD_CONFIRMATION_MISMATCH'
   | 'TASK_NOT_FOUND'
   | 'TASK_EMPTY_UPDATE'
   | 'TASK_STATUS_INVALID'
   | 'TASK_FORBIDDEN'
+  | 'TASK_IMPORT_INVALID'
   | 'GROUP_NOT_FOUND'
   | 'CANNOT_INVITE_SELF'
   | 'ALREADY_MEMBER'
@@ -85,4 +85,15 @@ export class GroupActionForbiddenError extends DomainError {
       action: 'invite_member',
     });
   }
+
+  // 靜態工廠方法：管理群組標籤
+  static manageLabels(groupId: number, actorId: number, role?: GroupRole) {
+    return new GroupActionForbiddenError({
+      groupId,
+      actorId,
+      actorRole: role,
+      action: 'manage_labels',
+      allowedRoles: ['OWNER', 'ADMIN'],
+    });
+  }
 }
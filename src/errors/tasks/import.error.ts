@@ -0,0 +1,34 @@
+import { DomainError } from '../domain-error.base';
+
+export class TaskImportError extends DomainError {
+  readonly actorId: number;
+  constructor(actorId: number, message: string, opts?: { cause?: unknown }) {
+    super('TaskImportError', {
+      code: 'TASK_IMPORT_INVALID',
+      message,
+      cause: opts?.cause,
+    });
+    this.actorId = actorId;
+  }
+
+  static emptyFile(actorId: number) {
+    return new TaskImportError(
+      actorId,
+      'The file does not contain any events or to-dos.',
+    );
+  }
+
+  static tooManyEntries(actorId: number, max: number) {
+    return new TaskImportError(
+      actorId,
+      `A file can contain at most ${max} events or to-dos.`,
+    );
+  }
+
+  static previewExpired(actorId: number) {
+    return new TaskImportError(
+      actorId,
+      'The import preview has expired. Please upload the file again.',
+    );
+  }
+}
@@ -1,2 +1,3 @@
 export * from '../tasks/task-not-found.error';
 export * from '../tasks/forbidden';
+export * from '../tasks/import.error';
@@ -22,6 +22,21 @@ export * from './enums';
  * 
  */
 export type ActionToken = Prisma.ActionTokenModel
+/**
+ * Model CalendarFeed
+ * 
+ */
+export type CalendarFeed = Prisma.CalendarFeedModel
+/**
+ * Model PersonalAccessToken
+ * 
+ */
+export type PersonalAccessToken = Prisma.PersonalAccessTokenModel
+/**
+ * Model LoginSession
+ * 
+ */
+export type LoginSession = Prisma.LoginSessionModel
 /**
  * Model Group
  * 
@@ -32,11 +47,66 @@ export type Group = Prisma.GroupModel
  * 
  */
 export type GroupMember = Prisma.GroupMemberModel
+/**
+ * Model MailOutbox
+ * 
+ */
+export type MailOutbox = Prisma.MailOutboxModel
+/**
+ * Model Notification
+ * 
+ */
+export type Notification = Prisma.NotificationModel
+/**
+ * Model NotificationPreference
+ * 
+ */
+export type NotificationPreference = Prisma.NotificationPreferenceModel
+/**
+ * Model RealtimeRoom
+ * 
+ */
+export type RealtimeRoom = Prisma.RealtimeRoomModel
+/**
+ * Model RealtimeEvent
+ * 
+ */
+export type RealtimeEvent = Prisma.RealtimeEventModel
+/**
+ * Model JobLease
+ * 
+ */
+export type JobLease = Prisma.JobLeaseModel
 /**
  * Model Task
  * 
  */
 export type Task = Prisma.TaskModel
+/**
+ * Model TaskDependency
+ * 
+ */
+export type TaskDependency = Prisma.TaskDependencyModel
+/**
+ * Model TaskComment
+ * 
+ */
+export type TaskComment = Prisma.TaskCommentModel
+/**
+ * Model TaskCommentRevision
+ * 
+ */
+export type TaskCommentRevision = Prisma.TaskCommentRevisionModel
+/**
+ * Model TaskMention
+ * 
+ */
+export type TaskMention = Prisma.TaskMentionModel
+/**
+ * Model TaskActivity
+ * 
+ */
+export type TaskActivity = Prisma.TaskActivityModel
 /**
  * Model TaskAssignee
  * 
@@ -52,6 +122,26 @@ export type SubTask = Prisma.SubTaskModel
  * 
  */
 export type SubTaskAssignee = Prisma.SubTaskAssigneeModel
+/**
+ * Model TaskRecurrence
+ * 
+ */
+export type TaskRecurrence = Prisma.TaskRecurrenceModel
+/**
+ * Model Label
+ * 
+ */
+export type Label = Prisma.LabelModel
+/**
+ * Model TaskLabel
+ * 
+ */
+export type TaskLabel = Prisma.TaskLabelModel
+/**
+ * Model SubTaskLabel
+ * 
+ */
+export type SubTaskLabel = Prisma.SubTaskLabelModel
 /**
  * Model User
  * 
@@ -26,6 +26,31 @@ export const GroupRole = {
 export type GroupRole = (typeof GroupRole)[keyof typeof GroupRole]
 
 
+export const MailStatus = {
+  PENDING: 'PENDING',
+  SENDING: 'SENDING',
+  SENT: 'SENT',
+  FAILED: 'FAILED'
+} as const
+
+export type MailStatus = (typeof MailStatus)[keyof typeof MailStatus]
+
+
+export const NotificationType = {
+  ASSIGNED: 'ASSIGNED',
+  ASSIGNMENT_ACCEPTED: 'ASSIGNMENT_ACCEPTED',
+  ASSIGNMENT_DECLINED: 'ASSIGNMENT_DECLINED',
+  MENTIONED: 'MENTIONED',
+  TASK_FORCE_CLOSED: 'TASK_FORCE_CLOSED',
+  SUB_TASK_CLOSED: 'SUB_TASK_CLOSED',
+  ROLE_CHANGED: 'ROLE_CHANGED',
+  GROUP_INVITED: 'GROUP_INVITED',
+  DUE_SOON: 'DUE_SOON'
+} as const
+
+export type NotificationType = (typeof NotificationType)[keyof typeof NotificationType]
+
+
 export const Status = {
   OPEN: 'OPEN',
   CLOSED: 'CLOSED',
@@ -53,3 +78,35 @@ export const CompletionPolicy = {
 } as const
 
 export type CompletionPolicy = (typeof CompletionPolicy)[keyof typeof CompletionPolicy]
+
+
+export const RecurrenceFrequency = {
+  DAILY: 'DAILY',
+  WEEKLY: 'WEEKLY',
+  MONTHLY: 'MONTHLY'
+} as const
+
+export type RecurrenceFrequency = (typeof RecurrenceFrequency)[keyof typeof RecurrenceFrequency]
+
+
+export const TaskActivityAction = {
+  CREATED: 'CREATED',
+  UPDATED: 'UPDATED',
+  STATUS_CHANGED: 'STATUS_CHANGED',
+  FORCE_CLOSED: 'FORCE_CLOSED',
+  ARCHIVED: 'ARCHIVED',
+  RESTORED: 'RESTORED',
+  ASSIGNED: 'ASSIGNED',
+  ASSIGNEE_STATUS_CHANGED: 'ASSIGNEE_STATUS_CHANGED',
+  ASSIGNMENT_SENT_BACK: 'ASSIGNMENT_SENT_BACK'
+} as const
+
+export type TaskActivityAction = (typeof TaskActivityAction)[keyof typeof TaskActivityAction]
+
+
+export const CommentRevisionType = {
+  EDITED: 'EDITED',
+  DELETED: 'DELETED'
+} as const
+
+export type CommentRevisionType = (typeof CommentRevisionType)[keyof typeof CommentRevisionType]
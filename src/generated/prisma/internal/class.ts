@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.2.0",
   "engineVersion": "0c8ef2ce45c83248ab3df073180d5eda9e8be7a3",
   "activeProvider": "postgresql",
-  "inlineSchema": "enum ActionTokenType {\n  RESET_PASSWORD\n  GROUP_INVITE\n}\n\nmodel ActionToken {\n  id         Int             @id @default(autoincrement())\n  type       ActionTokenType\n  tokenHash  String          @unique\n  subjectKey String          @unique\n\n  userId     Int?\n  user       User?   @relation(\"UserActionTokens\", fields: [userId], references: [id], onDelete: SetNull)\n  email      String?\n  groupId    Int?\n  group      Group?  @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  issuedById Int?\n  issuedBy   User?   @relation(\"IssuedTokens\", fields: [issuedById], references: [id], onDelete: SetNull)\n\n  expiresAt  DateTime\n  consumedAt DateTime?\n  revokedAt  DateTime?\n  metadata   Json?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([type, groupId, email, consumedAt])\n  @@index([type, userId, consumedAt])\n  @@index([expiresAt, consumedAt])\n}\n\nenum GroupRole {\n  OWNER\n  ADMIN\n  MEMBER\n}\n\nmodel Group {\n  id           Int           @id @default(autoincrement())\n  name         String\n  ownerId      Int\n  owner        User          @relation(fields: [ownerId], references: [id], onDelete: Cascade)\n  members      GroupMember[]\n  actionTokens ActionToken[]\n  groupTasks   Task[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([ownerId])\n}\n\nmodel GroupMember {\n  groupId  Int\n  userId   Int\n  role     GroupRole @default(MEMBER)\n  joinedAt DateTime  @default(now())\n\n  group Group @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  user  User  @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@id([groupId, userId])\n  @@index([userId])\n}\n\n// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\n// Looking for ways to speed up your queries, or scale easily with your serverless or edge functions?\n// Try Prisma Accelerate: https://pris.ly/cli/accelerate-init\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nenum Status {\n  OPEN\n  CLOSED\n  ARCHIVED\n}\n\nenum AssignmentStatus {\n  PENDING\n  ACCEPTED\n  DECLINED\n  COMPLETED\n  SKIPPED\n  DROPPED\n}\n\nenum CompletionPolicy {\n  ALL_ASSIGNEES\n  ANY_ASSIGNEE\n}\n\nmodel Task {\n  id      Int  @id @default(autoincrement())\n  ownerId Int\n  owner   User @relation(fields: [ownerId], references: [id], onDelete: Cascade)\n\n  groupId Int?\n  group   Group? @relation(fields: [groupId], references: [id], onDelete: Cascade)\n\n  title       String\n  status      Status  @default(OPEN)\n  priority    Int     @default(3)\n  description String?\n  location    String?\n\n  subTasks SubTask[]\n\n  // 時間欄位（關鍵）\n  // 1) 一般事件/截止時間 -> 存 UTC\n  dueAtUtc        DateTime? @db.Timestamptz(6) // 以 UTC 儲存的絕對時間點（nullable）\n  // 2) All-day 事件 -> 用當地的「日期」表示\n  allDay          Boolean   @default(true)\n  allDayLocalDate DateTime? @db.Date // 僅日期；若 allDay=true，則這欄必有值\n  // 3) 來源時區（輸入時的時區），IANA\n  sourceTimeZone  String?   @db.VarChar(64)\n\n  assignees TaskAssignee[]\n\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n\n  completionPolicy CompletionPolicy @default(ALL_ASSIGNEES)\n  closedAt         DateTime?\n  closedById       Int?\n  closedBy         User?            @relation(\"TaskClosedBy\", fields: [closedById], references: [id])\n  closedReason     String?\n\n  closedWithOpenAssignees Boolean @default(false)\n\n  @@index([ownerId, status, priority])\n  @@index([groupId, status, priority])\n  @@index([dueAtUtc])\n  @@index([allDay, allDayLocalDate])\n}\n\nmodel TaskAssignee {\n  taskId       Int\n  assigneeId   Int\n  assignedById Int\n\n  status AssignmentStatus @default(PENDING)\n  reason String?\n\n  assignedAt  DateTime  @default(now())\n  acceptedAt  DateTime? @db.Timestamptz(6)\n  declinedAt  DateTime? @db.Timestamptz(6)\n  completedAt DateTime? @db.Timestamptz(6)\n  updatedAt   DateTime  @updatedAt @db.Timestamptz(6)\n\n  task       Task @relation(fields: [taskId], references: [id], onDelete: Cascade)\n  assignee   User @relation(\"AssigneeUser\", fields: [assigneeId], references: [id], onDelete: Cascade)\n  assignedBy User @relation(\"AssignedByUser\", fields: [assignedById], references: [id], onDelete: SetNull)\n\n  @@id([taskId, assigneeId])\n  @@index([assigneeId, status])\n  @@index([assignedAt])\n}\n\nmodel SubTask {\n  id     Int  @id @default(autoincrement())\n  taskId Int\n  task   Task @relation(fields: [taskId], references: [id], onDelete: Cascade)\n\n  assignees SubTaskAssignee[] // 關聯 SubTaskAssignee\n\n  title       String\n  status      Status  @default(OPEN)\n  priority    Int     @default(3)\n  description String?\n  location    String?\n\n  // 時間欄位（關鍵）\n  // 1) 一般事件/截止時間 -> 存 UTC\n  dueAtUtc        DateTime? @db.Timestamptz(6) // 以 UTC 儲存的絕對時間點（nullable）\n  // 2) All-day 事件 -> 用當地的「日期」表示\n  allDay          Boolean   @default(true)\n  allDayLocalDate DateTime? @db.Date // 僅日期；若 allDay=true，則這欄必有值\n  // 3) 來源時區（輸入時的時區），IANA\n  sourceTimeZone  String?   @db.VarChar(64)\n\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n\n  closedReason String?\n  closedAt     DateTime?\n  closedById   Int?\n  closedBy     User?     @relation(\"SubTaskClosedBy\", fields: [closedById], references: [id])\n\n  @@index([taskId, status, priority])\n}\n\nmodel SubTaskAssignee {\n  subTaskId    Int\n  assigneeId   Int\n  assignedById Int?\n\n  status AssignmentStatus @default(PENDING)\n  reason String?\n\n  assignedAt  DateTime  @default(now())\n  acceptedAt  DateTime? @db.Timestamptz(6)\n  declinedAt  DateTime? @db.Timestamptz(6)\n  completedAt DateTime? @db.Timestamptz(6)\n  updatedAt   DateTime  @updatedAt @db.Timestamptz(6)\n\n  subtask SubTask @relation(fields: [subTaskId], references: [id], onDelete: Cascade)\n\n  assignee   User  @relation(\"SubTaskAssigneeUser\", fields: [assigneeId], references: [id], onDelete: Cascade)\n  assignedBy User? @relation(\"SubTaskAssignedByUser\", fields: [assignedById], references: [id], onDelete: SetNull)\n\n  @@id([subTaskId, assigneeId])\n  @@index([assigneeId, status])\n}\n\nmodel User {\n  id           Int           @id @default(autoincrement())\n  name         String        @db.VarChar(100)\n  email        String        @unique @db.VarChar(254)\n  timeZone     String        @db.VarChar(64)\n  hash         String\n  actionTokens ActionToken[] @relation(\"UserActionTokens\")\n  issuedTokens ActionToken[] @relation(\"IssuedTokens\")\n  Task         Task[]\n\n  assignedTasks     TaskAssignee[]    @relation(\"AssigneeUser\")\n  assignedSubTasks  SubTaskAssignee[] @relation(\"SubTaskAssigneeUser\")\n  delegatedTasks    TaskAssignee[]    @relation(\"AssignedByUser\")\n  delegatedSubTasks SubTaskAssignee[] @relation(\"SubTaskAssignedByUser\")\n  closedTasks       Task[]            @relation(\"TaskClosedBy\")\n  closedSubTasks    SubTask[]         @relation(\"SubTaskClosedBy\")\n\n  Group       Group[]\n  GroupMember GroupMember[]\n\n  @@index([timeZone])\n}\n",
+  "inlineSchema": "enum ActionTokenType {\n  RESET_PASSWORD\n  GROUP_INVITE\n}\n\nmodel ActionToken {\n  id         Int             @id @default(autoincrement())\n  type       ActionTokenType\n  tokenHash  String          @unique\n  subjectKey String          @unique\n\n  userId     Int?\n  user       User?   @relation(\"UserActionTokens\", fields: [userId], references: [id], onDelete: SetNull)\n  email      String?\n  groupId    Int?\n  group      Group?  @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  issuedById Int?\n  issuedBy   User?   @relation(\"IssuedTokens\", fields: [issuedById], references: [id], onDelete: SetNull)\n\n  expiresAt  DateTime\n  consumedAt DateTime?\n  revokedAt  DateTime?\n  metadata   Json?\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([type, groupId, email, consumedAt])\n  @@index([type, userId, consumedAt])\n  @@index([expiresAt, consumedAt])\n}\n\n// iCalendar 訂閱網址：行事曆 App 帶不了登入 cookie，改用網址裡的 token（只存 HMAC，同 ActionToken）\nmodel CalendarFeed {\n  id        Int    @id @default(autoincrement())\n  tokenHash String @unique\n\n  userId  Int\n  user    User   @relation(\"UserCalendarFeeds\", fields: [userId], references: [id], onDelete: Cascade)\n  groupId Int? // null：個人任務 + 所有所屬群組的任務\n  group   Group? @relation(fields: [groupId], references: [id], onDelete: Cascade)\n\n  lastUsedAt DateTime? @db.Timestamptz(6)\n  revokedAt  DateTime? @db.Timestamptz(6)\n  createdAt  DateTime  @default(now()) @db.Timestamptz(6)\n\n  @@index([userId, revokedAt])\n}\n\n// 個人存取權杖：腳本用 Authorization: Bearer 帶，只存 HMAC（同 ActionToken.tokenHash）\nmodel PersonalAccessToken {\n  id        Int    @id @default(autoincrement())\n  tokenHash String @unique\n\n  userId Int\n  user   User     @relation(\"UserPersonalAccessTokens\", fields: [userId], references: [id], onDelete: Cascade)\n  name   String   @db.VarChar(100)\n  // read:tasks、write:tasks ...（見 ACCESS_TOKEN_SCOPES）\n  scopes String[]\n\n  expiresAt  DateTime  @db.Timestamptz(6)\n  lastUsedAt DateTime? @db.Timestamptz(6)\n  revokedAt  DateTime? @db.Timestamptz(6)\n  createdAt  DateTime  @default(now()) @db.Timestamptz(6)\n\n  @@index([userId, revokedAt])\n}\n\n// 登入的裝置工作階段：refresh token 每次換發都輪替，只存 HMAC（同 ActionToken.tokenHash）\nmodel LoginSession {\n  id                Int     @id @default(autoincrement())\n  refreshTokenHash  String  @unique\n  // 上一支 refresh token：輪替後又被拿來用，代表外洩，整個工作階段撤銷\n  previousTokenHash String? @unique\n\n  userId    Int\n  user      User    @relation(\"UserLoginSessions\", fields: [userId], references: [id], onDelete: Cascade)\n  userAgent String? @db.VarChar(512)\n  ipAddress String? @db.VarChar(64)\n\n  rotatedAt    DateTime? @db.Timestamptz(6)\n  lastActiveAt DateTime  @default(now()) @db.Timestamptz(6)\n  expiresAt    DateTime  @db.Timestamptz(6)\n  revokedAt    DateTime? @db.Timestamptz(6)\n  createdAt    DateTime  @default(now()) @db.Timestamptz(6)\n\n  @@index([userId, revokedAt])\n}\n\nenum GroupRole {\n  OWNER\n  ADMIN\n  MEMBER\n}\n\nmodel Group {\n  id            Int            @id @default(autoincrement())\n  name          String\n  ownerId       Int\n  owner         User           @relation(fields: [ownerId], references: [id], onDelete: Cascade)\n  members       GroupMember[]\n  actionTokens  ActionToken[]\n  groupTasks    Task[]\n  labels        Label[]\n  calendarFeeds CalendarFeed[]\n  notifications Notification[]\n\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n\n  @@index([ownerId])\n}\n\nmodel GroupMember {\n  groupId  Int\n  userId   Int\n  role     GroupRole @default(MEMBER)\n  joinedAt DateTime  @default(now())\n\n  group Group @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  user  User  @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@id([groupId, userId])\n  @@index([userId])\n}\n\nenum MailStatus {\n  PENDING\n  SENDING\n  SENT\n  FAILED\n}\n\n// 寄信佇列：先寫進資料庫再由背景工作寄出，失敗會以指數退避重試\nmodel MailOutbox {\n  id       Int        @id @default(autoincrement())\n  to       String     @db.VarChar(255)\n  subject  String     @db.VarChar(255)\n  template String     @db.VarChar(100)\n  context  Json\n  status   MailStatus @default(PENDING)\n\n  // context 裡放一次性憑證（重設密碼、邀請、接受/拒絕連結）的欄位；寄出或放棄後就清掉\n  secretFields String[] @default([])\n\n  // 觸發這封信的使用者（邀請人、指派人、申請重設密碼的帳號）；只有他能查寄送狀態\n  requestedById Int?\n  requestedBy   User? @relation(\"RequestedMails\", fields: [requestedById], references: [id], onDelete: SetNull)\n\n  attempts  Int     @default(0)\n  lastError String? @db.VarChar(1000)\n\n  // PENDING：下次可以寄的時間；SENDING：寄送逾時的時間，過了就當作卡住重新領取\n  nextAttemptAt DateTime  @default(now()) @db.Timestamptz(6)\n  sentAt        DateTime? @db.Timestamptz(6)\n  createdAt     DateTime  @default(now()) @db.Timestamptz(6)\n  updatedAt     DateTime  @updatedAt @db.Timestamptz(6)\n\n  @@index([status, nextAttemptAt])\n  @@index([to])\n  @@index([requestedById])\n}\n\nenum NotificationType {\n  ASSIGNED\n  ASSIGNMENT_ACCEPTED\n  ASSIGNMENT_DECLINED\n  MENTIONED\n  TASK_FORCE_CLOSED\n  SUB_TASK_CLOSED\n  ROLE_CHANGED\n  GROUP_INVITED\n  DUE_SOON\n}\n\n// 站內通知：每位收件者一筆，保留已讀狀態與歷史（鈴鐺下拉選單）\nmodel Notification {\n  id     Int              @id @default(autoincrement())\n  type   NotificationType\n  userId Int\n  user   User             @relation(\"NotificationRecipient\", fields: [userId], references: [id], onDelete: Cascade)\n\n  actorId   Int?\n  actor     User?    @relation(\"NotificationActor\", fields: [actorId], references: [id], onDelete: SetNull)\n  groupId   Int?\n  group     Group?   @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  taskId    Int?\n  task      Task?    @relation(fields: [taskId], references: [id], onDelete: Cascade)\n  subTaskId Int?\n  subTask   SubTask? @relation(fields: [subTaskId], references: [id], onDelete: Cascade)\n\n  title String  @db.VarChar(255)\n  body  String? @db.VarChar(500)\n  url   String? @db.VarChar(500)\n\n  // 同一件事只通知一次（例如到期提醒）；null 不檢查\n  dedupeKey String? @db.VarChar(191)\n\n  // 使用者關掉站內通知時仍留一筆（去重與寄信紀錄），只是不出現在鈴鐺裡\n  inApp Boolean @default(true)\n\n  readAt    DateTime? @db.Timestamptz(6)\n  createdAt DateTime  @default(now()) @db.Timestamptz(6)\n\n  @@unique([userId, dedupeKey])\n  @@index([userId, readAt])\n  @@index([userId, createdAt])\n}\n\n// 每位使用者、每種事件各一筆；沒有資料時用程式裡的預設值\nmodel NotificationPreference {\n  userId Int\n  user   User             @relation(fields: [userId], references: [id], onDelete: Cascade)\n  type   NotificationType\n\n  inApp    Boolean @default(true)\n  email    Boolean @default(false)\n  realtime Boolean @default(true)\n\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n\n  @@id([userId, type])\n}\n\n// 每個 socket 房間目前發到第幾號事件；序號跨 app 實例共用\nmodel RealtimeRoom {\n  room      String   @id @db.VarChar(128)\n  lastSeq   Int      @default(0)\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n}\n\n// 最近的房間事件，斷線重連的連線用來補齊漏掉的部分；每個房間只留有限筆數\nmodel RealtimeEvent {\n  id        Int      @id @default(autoincrement())\n  room      String   @db.VarChar(128)\n  seq       Int\n  event     String   @db.VarChar(64)\n  payload   Json\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n\n  @@unique([room, seq])\n}\n\n// 排程工作的租約：多台 app 同時跑時，同一個工作同一時間只有一台執行\nmodel JobLease {\n  name      String   @id @db.VarChar(64)\n  holder    String   @db.VarChar(128)\n  expiresAt DateTime @db.Timestamptz(6)\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n}\n\n// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\n// Looking for ways to speed up your queries, or scale easily with your serverless or edge functions?\n// Try Prisma Accelerate: https://pris.ly/cli/accelerate-init\n\ngenerator client {\n  provider = \"prisma-client\"\n  output   = \"../../src/generated/prisma\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nenum Status {\n  OPEN\n  CLOSED\n  ARCHIVED\n}\n\nenum AssignmentStatus {\n  PENDING\n  ACCEPTED\n  DECLINED\n  COMPLETED\n  SKIPPED\n  DROPPED\n}\n\nenum CompletionPolicy {\n  ALL_ASSIGNEES\n  ANY_ASSIGNEE\n}\n\nenum RecurrenceFrequency {\n  DAILY\n  WEEKLY\n  MONTHLY\n}\n\nmodel Task {\n  id      Int  @id @default(autoincrement())\n  ownerId Int\n  owner   User @relation(fields: [ownerId], references: [id], onDelete: Cascade)\n\n  groupId Int?\n  group   Group? @relation(fields: [groupId], references: [id], onDelete: Cascade)\n\n  title       String\n  status      Status  @default(OPEN)\n  priority    Int     @default(3)\n  description String?\n  location    String?\n\n  subTasks SubTask[]\n\n  // 時間欄位（關鍵）\n  // 1) 一般事件/截止時間 -> 存 UTC\n  dueAtUtc        DateTime? @db.Timestamptz(6) // 以 UTC 儲存的絕對時間點（nullable）\n  // 2) All-day 事件 -> 用當地的「日期」表示\n  allDay          Boolean   @default(true)\n  allDayLocalDate DateTime? @db.Date // 僅日期；若 allDay=true，則這欄必有值\n  // 3) 來源時區（輸入時的時區），IANA\n  sourceTimeZone  String?   @db.VarChar(64)\n\n  // 從 .ics 匯入時的 UID；重新匯入同一份檔案時用來更新而不是重複建立\n  icalUid String? @db.VarChar(255)\n\n  assignees TaskAssignee[]\n\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n\n  completionPolicy    CompletionPolicy @default(ALL_ASSIGNEES)\n  // ANY_ASSIGNEE 時，第一位完成的成員會直接關閉任務\n  autoCloseOnComplete Boolean          @default(false)\n  closedAt            DateTime?\n  closedById          Int?\n  closedBy            User?            @relation(\"TaskClosedBy\", fields: [closedById], references: [id])\n  closedReason        String?\n\n  closedWithOpenAssignees Boolean @default(false)\n\n  // 週期任務：同一系列的每一次都是獨立的 Task，關閉時才產生下一次\n  recurrenceId    Int?\n  recurrence      TaskRecurrence? @relation(fields: [recurrenceId], references: [id], onDelete: SetNull)\n  recurrenceIndex Int? // 系列中的第幾次（從 1 開始），用於 count 與避免重複產生\n  occurrenceDate  DateTime?       @db.Date // 依規則排定的當地日期（不受單次改期影響）\n\n  // 相依性：blockedBy = 這個任務在等誰；blocking = 誰在等這個任務\n  blockedBy TaskDependency[] @relation(\"DependencyBlocked\")\n  blocking  TaskDependency[] @relation(\"DependencyBlocker\")\n\n  comments   TaskComment[]\n  mentions   TaskMention[]\n  activities TaskActivity[]\n  labels     TaskLabel[]\n\n  notifications Notification[]\n  // 全文搜尋的 GIN expression index (Task_search_idx) 寫在 migration 裡，schema 無法表示\n\n  @@unique([recurrenceId, recurrenceIndex])\n  @@index([ownerId, status, priority])\n  @@index([groupId, status, priority])\n  @@index([dueAtUtc])\n  @@index([allDay, allDayLocalDate])\n  @@index([icalUid])\n}\n\n// \"blocked by\"：blockedTask 要等 blockerTask 結束才能開始（限同群組 / 同一人的個人任務）\nmodel TaskDependency {\n  blockedTaskId Int\n  blockerTaskId Int\n  createdById   Int?\n  createdAt     DateTime @default(now()) @db.Timestamptz(6)\n\n  blockedTask Task  @relation(\"DependencyBlocked\", fields: [blockedTaskId], references: [id], onDelete: Cascade)\n  blockerTask Task  @relation(\"DependencyBlocker\", fields: [blockerTaskId], references: [id], onDelete: Cascade)\n  createdBy   User? @relation(\"TaskDependencyCreatedBy\", fields: [createdById], references: [id], onDelete: SetNull)\n\n  @@id([blockedTaskId, blockerTaskId])\n  @@index([blockerTaskId])\n}\n\n// 留言：subTaskId 為 null 時屬於主任務；parentId 指向討論串的第一則留言\nmodel TaskComment {\n  id        Int      @id @default(autoincrement())\n  taskId    Int\n  task      Task     @relation(fields: [taskId], references: [id], onDelete: Cascade)\n  subTaskId Int?\n  subTask   SubTask? @relation(fields: [subTaskId], references: [id], onDelete: Cascade)\n\n  parentId Int?\n  parent   TaskComment?  @relation(\"CommentReplies\", fields: [parentId], references: [id], onDelete: Cascade)\n  replies  TaskComment[] @relation(\"CommentReplies\")\n\n  authorId Int?\n  author   User? @relation(\"TaskCommentAuthor\", fields: [authorId], references: [id], onDelete: SetNull)\n\n  body String @db.Text\n\n  editedAt    DateTime? @db.Timestamptz(6)\n  deletedAt   DateTime? @db.Timestamptz(6) // 軟刪除：保留討論串結構，內容移到 revisions\n  deletedById Int?\n  deletedBy   User?     @relation(\"TaskCommentDeletedBy\", fields: [deletedById], references: [id], onDelete: SetNull)\n\n  revisions TaskCommentRevision[]\n  mentions  TaskMention[]\n\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n  // 全文搜尋：TaskComment_search_idx（只含未刪除的留言）\n\n  @@index([taskId, subTaskId, createdAt])\n  @@index([parentId])\n}\n\n// 每次編輯或刪除前的內容\nmodel TaskCommentRevision {\n  id         Int                 @id @default(autoincrement())\n  commentId  Int\n  comment    TaskComment         @relation(fields: [commentId], references: [id], onDelete: Cascade)\n  body       String              @db.Text\n  action     CommentRevisionType\n  editedById Int?\n  editedBy   User?               @relation(\"TaskCommentRevisionEditor\", fields: [editedById], references: [id], onDelete: SetNull)\n  createdAt  DateTime            @default(now()) @db.Timestamptz(6)\n\n  @@index([commentId, createdAt])\n}\n\n// @提及：每位被提到的成員一筆，同一來源（描述或留言）只通知一次\nmodel TaskMention {\n  id        Int          @id @default(autoincrement())\n  taskId    Int\n  task      Task         @relation(fields: [taskId], references: [id], onDelete: Cascade)\n  subTaskId Int?\n  subTask   SubTask?     @relation(fields: [subTaskId], references: [id], onDelete: Cascade)\n  commentId Int?\n  comment   TaskComment? @relation(fields: [commentId], references: [id], onDelete: Cascade)\n\n  mentionedUserId Int\n  mentionedUser   User  @relation(\"TaskMentionRecipient\", fields: [mentionedUserId], references: [id], onDelete: Cascade)\n  mentionedById   Int?\n  mentionedBy     User? @relation(\"TaskMentionAuthor\", fields: [mentionedById], references: [id], onDelete: SetNull)\n\n  readAt    DateTime? @db.Timestamptz(6)\n  createdAt DateTime  @default(now()) @db.Timestamptz(6)\n\n  @@index([mentionedUserId, readAt])\n  @@index([taskId, subTaskId, commentId])\n}\n\n// 操作紀錄：只新增不修改；subTaskId 有值代表是子任務的變更\nmodel TaskActivity {\n  id        Int      @id @default(autoincrement())\n  taskId    Int\n  task      Task     @relation(fields: [taskId], references: [id], onDelete: Cascade)\n  subTaskId Int?\n  subTask   SubTask? @relation(fields: [subTaskId], references: [id], onDelete: Cascade)\n\n  actorId Int?\n  actor   User? @relation(\"TaskActivityActor\", fields: [actorId], references: [id], onDelete: SetNull)\n\n  action       TaskActivityAction\n  // 指派相關的對象（被指派的成員）\n  targetUserId Int?\n  targetUser   User?              @relation(\"TaskActivityTarget\", fields: [targetUserId], references: [id], onDelete: SetNull)\n\n  before Json? // 變更前的欄位值，例如 { \"status\": \"OPEN\" }\n  after  Json? // 變更後的欄位值\n  reason String?\n\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n\n  @@index([taskId, createdAt])\n}\n\nenum TaskActivityAction {\n  CREATED\n  UPDATED\n  STATUS_CHANGED\n  FORCE_CLOSED\n  ARCHIVED\n  RESTORED\n  ASSIGNED\n  ASSIGNEE_STATUS_CHANGED\n  ASSIGNMENT_SENT_BACK\n}\n\nenum CommentRevisionType {\n  EDITED\n  DELETED\n}\n\n// 每一輪指派是一筆紀錄：退回 (send back) 或重新指派時，舊的一輪保留下來 (isCurrent = false)\nmodel TaskAssignee {\n  id           Int @id @default(autoincrement())\n  taskId       Int\n  assigneeId   Int\n  assignedById Int\n\n  round     Int     @default(1)\n  isCurrent Boolean @default(true)\n\n  status AssignmentStatus @default(PENDING)\n  reason String?\n\n  assignedAt     DateTime  @default(now())\n  acceptedAt     DateTime? @db.Timestamptz(6)\n  declinedAt     DateTime? @db.Timestamptz(6)\n  completedAt    DateTime? @db.Timestamptz(6)\n  sentBackAt     DateTime? @db.Timestamptz(6)\n  sentBackReason String?\n  updatedAt      DateTime  @updatedAt @db.Timestamptz(6)\n\n  task       Task @relation(fields: [taskId], references: [id], onDelete: Cascade)\n  assignee   User @relation(\"AssigneeUser\", fields: [assigneeId], references: [id], onDelete: Cascade)\n  assignedBy User @relation(\"AssignedByUser\", fields: [assignedById], references: [id], onDelete: SetNull)\n\n  @@unique([taskId, assigneeId, round])\n  @@index([taskId, isCurrent])\n  @@index([assigneeId, status])\n  @@index([assignedAt])\n}\n\nmodel SubTask {\n  id     Int  @id @default(autoincrement())\n  taskId Int\n  task   Task @relation(fields: [taskId], references: [id], onDelete: Cascade)\n\n  assignees SubTaskAssignee[] // 關聯 SubTaskAssignee\n\n  title       String\n  status      Status  @default(OPEN)\n  priority    Int     @default(3)\n  description String?\n  location    String?\n\n  // 時間欄位（關鍵）\n  // 1) 一般事件/截止時間 -> 存 UTC\n  dueAtUtc        DateTime? @db.Timestamptz(6) // 以 UTC 儲存的絕對時間點（nullable）\n  // 2) All-day 事件 -> 用當地的「日期」表示\n  allDay          Boolean   @default(true)\n  allDayLocalDate DateTime? @db.Date // 僅日期；若 allDay=true，則這欄必有值\n  // 3) 來源時區（輸入時的時區），IANA\n  sourceTimeZone  String?   @db.VarChar(64)\n\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n\n  closedReason String?\n  closedAt     DateTime?\n  closedById   Int?\n  closedBy     User?     @relation(\"SubTaskClosedBy\", fields: [closedById], references: [id])\n\n  comments   TaskComment[]\n  mentions   TaskMention[]\n  activities TaskActivity[]\n  labels     SubTaskLabel[]\n\n  notifications Notification[]\n  // 全文搜尋：SubTask_search_idx，同 Task\n\n  @@index([taskId, status, priority])\n}\n\n// 與 TaskAssignee 相同，一輪一筆\nmodel SubTaskAssignee {\n  id           Int  @id @default(autoincrement())\n  subTaskId    Int\n  assigneeId   Int\n  assignedById Int?\n\n  round     Int     @default(1)\n  isCurrent Boolean @default(true)\n\n  status AssignmentStatus @default(PENDING)\n  reason String?\n\n  assignedAt     DateTime  @default(now())\n  acceptedAt     DateTime? @db.Timestamptz(6)\n  declinedAt     DateTime? @db.Timestamptz(6)\n  completedAt    DateTime? @db.Timestamptz(6)\n  sentBackAt     DateTime? @db.Timestamptz(6)\n  sentBackReason String?\n  updatedAt      DateTime  @updatedAt @db.Timestamptz(6)\n\n  subtask SubTask @relation(fields: [subTaskId], references: [id], onDelete: Cascade)\n\n  assignee   User  @relation(\"SubTaskAssigneeUser\", fields: [assigneeId], references: [id], onDelete: Cascade)\n  assignedBy User? @relation(\"SubTaskAssignedByUser\", fields: [assignedById], references: [id], onDelete: SetNull)\n\n  @@unique([subTaskId, assigneeId, round])\n  @@index([subTaskId, isCurrent])\n  @@index([assigneeId, status])\n}\n\n// RRULE-like 週期規則 + 下一次任務的範本（\"all future\" 編輯會改這裡）\nmodel TaskRecurrence {\n  id Int @id @default(autoincrement())\n\n  frequency  RecurrenceFrequency\n  interval   Int                 @default(1)\n  byWeekday  Int[] // 0=Sun ... 6=Sat；WEEKLY 用全部，MONTHLY 第 n 個星期幾只取第一個\n  byMonthDay Int? // MONTHLY：每月第幾天（超過月底則取月底）\n  bySetPos   Int? // MONTHLY：第幾個星期幾（1..4，-1 = 最後一個）\n  untilDate  DateTime?           @db.Date\n  count      Int?\n\n  // 範本\n  title       String\n  description String?\n  location    String?\n  priority    Int     @default(3)\n  allDay      Boolean @default(true)\n  dueTime     String? @db.VarChar(5) // HH:mm（當地時間）\n  timeZone    String  @db.VarChar(64) // IANA\n\n  tasks Task[]\n\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n  updatedAt DateTime @updatedAt @db.Timestamptz(6)\n}\n\n// 標籤目錄：groupId 有值時屬於群組；groupId 為 null 時是 ownerId 的個人標籤\nmodel Label {\n  id      Int    @id @default(autoincrement())\n  name    String @db.VarChar(50)\n  color   String @db.VarChar(7) // #rrggbb\n  groupId Int?\n  ownerId Int?\n\n  group Group? @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  owner User?  @relation(\"PersonalLabels\", fields: [ownerId], references: [id], onDelete: Cascade)\n\n  tasks    TaskLabel[]\n  subTasks SubTaskLabel[]\n\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n\n  @@unique([groupId, name])\n  @@unique([ownerId, name])\n}\n\nmodel TaskLabel {\n  taskId    Int\n  labelId   Int\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n\n  task  Task  @relation(fields: [taskId], references: [id], onDelete: Cascade)\n  label Label @relation(fields: [labelId], references: [id], onDelete: Cascade)\n\n  @@id([taskId, labelId])\n  @@index([labelId])\n}\n\nmodel SubTaskLabel {\n  subTaskId Int\n  labelId   Int\n  createdAt DateTime @default(now()) @db.Timestamptz(6)\n\n  subTask SubTask @relation(fields: [subTaskId], references: [id], onDelete: Cascade)\n  label   Label   @relation(fields: [labelId], references: [id], onDelete: Cascade)\n\n  @@id([subTaskId, labelId])\n  @@index([labelId])\n}\n\nmodel User {\n  id           Int           @id @default(autoincrement())\n  name         String        @db.VarChar(100)\n  email        String        @unique @db.VarChar(254)\n  timeZone     String        @db.VarChar(64)\n  hash         String\n  actionTokens ActionToken[] @relation(\"UserActionTokens\")\n  issuedTokens ActionToken[] @relation(\"IssuedTokens\")\n  Task         Task[]\n\n  assignedTasks     TaskAssignee[]    @relation(\"AssigneeUser\")\n  assignedSubTasks  SubTaskAssignee[] @relation(\"SubTaskAssigneeUser\")\n  delegatedTasks    TaskAssignee[]    @relation(\"AssignedByUser\")\n  delegatedSubTasks SubTaskAssignee[] @relation(\"SubTaskAssignedByUser\")\n  closedTasks       Task[]            @relation(\"TaskClosedBy\")\n  closedSubTasks    SubTask[]         @relation(\"SubTaskClosedBy\")\n  taskDependencies  TaskDependency[]  @relation(\"TaskDependencyCreatedBy\")\n\n  taskComments         TaskComment[]         @relation(\"TaskCommentAuthor\")\n  deletedTaskComments  TaskComment[]         @relation(\"TaskCommentDeletedBy\")\n  taskCommentRevisions TaskCommentRevision[] @relation(\"TaskCommentRevisionEditor\")\n  taskMentions         TaskMention[]         @relation(\"TaskMentionRecipient\")\n  sentTaskMentions     TaskMention[]         @relation(\"TaskMentionAuthor\")\n  taskActivities       TaskActivity[]        @relation(\"TaskActivityActor\")\n  targetedActivities   TaskActivity[]        @relation(\"TaskActivityTarget\")\n  personalLabels       Label[]               @relation(\"PersonalLabels\")\n  calendarFeeds        CalendarFeed[]        @relation(\"UserCalendarFeeds\")\n  accessTokens         PersonalAccessToken[] @relation(\"UserPersonalAccessTokens\")\n  loginSessions        LoginSession[]        @relation(\"UserLoginSessions\")\n  notifications        Notification[]        @relation(\"NotificationRecipient\")\n  sentNotifications    Notification[]        @relation(\"NotificationActor\")\n  requestedMails       MailOutbox[]          @relation(\"RequestedMails\")\n\n  // 勿擾時段：當地時間午夜起算的分鐘數，可跨午夜（例如 22:00 - 07:00）\n  quietHoursStart   Int?                     @db.SmallInt\n  quietHoursEnd     Int?                     @db.SmallInt\n  notificationPrefs NotificationPreference[]\n\n  // 到期提醒：到期前幾分鐘提醒（全天任務以當地當天 00:00 起算）\n  reminderOffsets Int[]     @default([1440])\n  // 每日摘要寄出的當地整點；null = 不寄\n  dailyDigestHour Int?      @default(8) @db.SmallInt\n  lastDigestOn    DateTime? @db.Date\n\n  Group       Group[]\n  GroupMember GroupMember[]\n\n  @@index([timeZone])\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"ActionToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"ActionTokenType\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subjectKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserActionTokens\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"ActionTokenToGroup\"},{\"name\":\"issuedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"issuedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"IssuedTokens\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"consumedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Group\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"GroupToUser\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"GroupMember\",\"relationName\":\"GroupToGroupMember\"},{\"name\":\"actionTokens\",\"kind\":\"object\",\"type\":\"ActionToken\",\"relationName\":\"ActionTokenToGroup\"},{\"name\":\"groupTasks\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"GroupToTask\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"GroupMember\":{\"fields\":[{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"GroupRole\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"GroupToGroupMember\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"GroupMemberToUser\"}],\"dbName\":null},\"Task\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskToUser\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"GroupToTask\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"Status\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subTasks\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskToTask\"},{\"name\":\"dueAtUtc\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"allDay\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"allDayLocalDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sourceTimeZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assignees\",\"kind\":\"object\",\"type\":\"TaskAssignee\",\"relationName\":\"TaskToTaskAssignee\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completionPolicy\",\"kind\":\"enum\",\"type\":\"CompletionPolicy\"},{\"name\":\"closedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"closedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"closedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskClosedBy\"},{\"name\":\"closedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"closedWithOpenAssignees\",\"kind\":\"scalar\",\"type\":\"Boolean\"}],\"dbName\":null},\"TaskAssignee\":{\"fields\":[{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assigneeId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assignedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AssignmentStatus\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assignedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acceptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"declinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToTaskAssignee\"},{\"name\":\"assignee\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AssigneeUser\"},{\"name\":\"assignedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AssignedByUser\"}],\"dbName\":null},\"SubTask\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"SubTaskToTask\"},{\"name\":\"assignees\",\"kind\":\"object\",\"type\":\"SubTaskAssignee\",\"relationName\":\"SubTaskToSubTaskAssignee\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"Status\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dueAtUtc\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"allDay\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"allDayLocalDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sourceTimeZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"closedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"closedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"closedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"closedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubTaskClosedBy\"}],\"dbName\":null},\"SubTaskAssignee\":{\"fields\":[{\"name\":\"subTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assigneeId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assignedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AssignmentStatus\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assignedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acceptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"declinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"subtask\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskToSubTaskAssignee\"},{\"name\":\"assignee\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubTaskAssigneeUser\"},{\"name\":\"assignedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubTaskAssignedByUser\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timeZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actionTokens\",\"kind\":\"object\",\"type\":\"ActionToken\",\"relationName\":\"UserActionTokens\"},{\"name\":\"issuedTokens\",\"kind\":\"object\",\"type\":\"ActionToken\",\"relationName\":\"IssuedTokens\"},{\"name\":\"Task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToUser\"},{\"name\":\"assignedTasks\",\"kind\":\"object\",\"type\":\"TaskAssignee\",\"relationName\":\"AssigneeUser\"},{\"name\":\"assignedSubTasks\",\"kind\":\"object\",\"type\":\"SubTaskAssignee\",\"relationName\":\"SubTaskAssigneeUser\"},{\"name\":\"delegatedTasks\",\"kind\":\"object\",\"type\":\"TaskAssignee\",\"relationName\":\"AssignedByUser\"},{\"name\":\"delegatedSubTasks\",\"kind\":\"object\",\"type\":\"SubTaskAssignee\",\"relationName\":\"SubTaskAssignedByUser\"},{\"name\":\"closedTasks\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskClosedBy\"},{\"name\":\"closedSubTasks\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskClosedBy\"},{\"name\":\"Group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"GroupToUser\"},{\"name\":\"GroupMember\",\"kind\":\"object\",\"type\":\"GroupMember\",\"relationName\":\"GroupMemberToUser\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"ActionToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"ActionTokenType\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subjectKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserActionTokens\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"ActionTokenToGroup\"},{\"name\":\"issuedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"issuedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"IssuedTokens\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"consumedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"CalendarFeed\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserCalendarFeeds\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"CalendarFeedToGroup\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"PersonalAccessToken\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"tokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserPersonalAccessTokens\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"scopes\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastUsedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"LoginSession\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"refreshTokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"previousTokenHash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"UserLoginSessions\"},{\"name\":\"userAgent\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ipAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rotatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"lastActiveAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"revokedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Group\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"GroupToUser\"},{\"name\":\"members\",\"kind\":\"object\",\"type\":\"GroupMember\",\"relationName\":\"GroupToGroupMember\"},{\"name\":\"actionTokens\",\"kind\":\"object\",\"type\":\"ActionToken\",\"relationName\":\"ActionTokenToGroup\"},{\"name\":\"groupTasks\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"GroupToTask\"},{\"name\":\"labels\",\"kind\":\"object\",\"type\":\"Label\",\"relationName\":\"GroupToLabel\"},{\"name\":\"calendarFeeds\",\"kind\":\"object\",\"type\":\"CalendarFeed\",\"relationName\":\"CalendarFeedToGroup\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"GroupToNotification\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"GroupMember\":{\"fields\":[{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"GroupRole\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"GroupToGroupMember\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"GroupMemberToUser\"}],\"dbName\":null},\"MailOutbox\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"to\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subject\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"template\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"context\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"MailStatus\"},{\"name\":\"secretFields\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"requestedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"requestedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"RequestedMails\"},{\"name\":\"attempts\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastError\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"nextAttemptAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Notification\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationRecipient\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationActor\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"GroupToNotification\"},{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"NotificationToTask\"},{\"name\":\"subTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"subTask\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"NotificationToSubTask\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"url\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dedupeKey\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"inApp\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"NotificationPreference\":{\"fields\":[{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"NotificationPreferenceToUser\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationType\"},{\"name\":\"inApp\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"realtime\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"RealtimeRoom\":{\"fields\":[{\"name\":\"room\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"lastSeq\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"RealtimeEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"room\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"seq\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"event\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"payload\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"JobLease\":{\"fields\":[{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"holder\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"expiresAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Task\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskToUser\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"GroupToTask\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"Status\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"subTasks\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskToTask\"},{\"name\":\"dueAtUtc\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"allDay\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"allDayLocalDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sourceTimeZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"icalUid\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assignees\",\"kind\":\"object\",\"type\":\"TaskAssignee\",\"relationName\":\"TaskToTaskAssignee\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completionPolicy\",\"kind\":\"enum\",\"type\":\"CompletionPolicy\"},{\"name\":\"autoCloseOnComplete\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"closedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"closedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"closedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskClosedBy\"},{\"name\":\"closedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"closedWithOpenAssignees\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"recurrenceId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"recurrence\",\"kind\":\"object\",\"type\":\"TaskRecurrence\",\"relationName\":\"TaskToTaskRecurrence\"},{\"name\":\"recurrenceIndex\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"occurrenceDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"blockedBy\",\"kind\":\"object\",\"type\":\"TaskDependency\",\"relationName\":\"DependencyBlocked\"},{\"name\":\"blocking\",\"kind\":\"object\",\"type\":\"TaskDependency\",\"relationName\":\"DependencyBlocker\"},{\"name\":\"comments\",\"kind\":\"object\",\"type\":\"TaskComment\",\"relationName\":\"TaskToTaskComment\"},{\"name\":\"mentions\",\"kind\":\"object\",\"type\":\"TaskMention\",\"relationName\":\"TaskToTaskMention\"},{\"name\":\"activities\",\"kind\":\"object\",\"type\":\"TaskActivity\",\"relationName\":\"TaskToTaskActivity\"},{\"name\":\"labels\",\"kind\":\"object\",\"type\":\"TaskLabel\",\"relationName\":\"TaskToTaskLabel\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToTask\"}],\"dbName\":null},\"TaskDependency\":{\"fields\":[{\"name\":\"blockedTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"blockerTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"blockedTask\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"DependencyBlocked\"},{\"name\":\"blockerTask\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"DependencyBlocker\"},{\"name\":\"createdBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskDependencyCreatedBy\"}],\"dbName\":null},\"TaskComment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToTaskComment\"},{\"name\":\"subTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"subTask\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskToTaskComment\"},{\"name\":\"parentId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"parent\",\"kind\":\"object\",\"type\":\"TaskComment\",\"relationName\":\"CommentReplies\"},{\"name\":\"replies\",\"kind\":\"object\",\"type\":\"TaskComment\",\"relationName\":\"CommentReplies\"},{\"name\":\"authorId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"author\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskCommentAuthor\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"editedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"deletedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"deletedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskCommentDeletedBy\"},{\"name\":\"revisions\",\"kind\":\"object\",\"type\":\"TaskCommentRevision\",\"relationName\":\"TaskCommentToTaskCommentRevision\"},{\"name\":\"mentions\",\"kind\":\"object\",\"type\":\"TaskMention\",\"relationName\":\"TaskCommentToTaskMention\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"TaskCommentRevision\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"commentId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"comment\",\"kind\":\"object\",\"type\":\"TaskComment\",\"relationName\":\"TaskCommentToTaskCommentRevision\"},{\"name\":\"body\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"action\",\"kind\":\"enum\",\"type\":\"CommentRevisionType\"},{\"name\":\"editedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"editedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskCommentRevisionEditor\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"TaskMention\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToTaskMention\"},{\"name\":\"subTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"subTask\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskToTaskMention\"},{\"name\":\"commentId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"comment\",\"kind\":\"object\",\"type\":\"TaskComment\",\"relationName\":\"TaskCommentToTaskMention\"},{\"name\":\"mentionedUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"mentionedUser\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskMentionRecipient\"},{\"name\":\"mentionedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"mentionedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskMentionAuthor\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"TaskActivity\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToTaskActivity\"},{\"name\":\"subTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"subTask\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskToTaskActivity\"},{\"name\":\"actorId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"actor\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskActivityActor\"},{\"name\":\"action\",\"kind\":\"enum\",\"type\":\"TaskActivityAction\"},{\"name\":\"targetUserId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"targetUser\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TaskActivityTarget\"},{\"name\":\"before\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"after\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"TaskAssignee\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assigneeId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assignedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"round\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isCurrent\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AssignmentStatus\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assignedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acceptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"declinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentBackAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentBackReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToTaskAssignee\"},{\"name\":\"assignee\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AssigneeUser\"},{\"name\":\"assignedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"AssignedByUser\"}],\"dbName\":null},\"SubTask\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"SubTaskToTask\"},{\"name\":\"assignees\",\"kind\":\"object\",\"type\":\"SubTaskAssignee\",\"relationName\":\"SubTaskToSubTaskAssignee\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"Status\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dueAtUtc\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"allDay\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"allDayLocalDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sourceTimeZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"closedReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"closedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"closedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"closedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubTaskClosedBy\"},{\"name\":\"comments\",\"kind\":\"object\",\"type\":\"TaskComment\",\"relationName\":\"SubTaskToTaskComment\"},{\"name\":\"mentions\",\"kind\":\"object\",\"type\":\"TaskMention\",\"relationName\":\"SubTaskToTaskMention\"},{\"name\":\"activities\",\"kind\":\"object\",\"type\":\"TaskActivity\",\"relationName\":\"SubTaskToTaskActivity\"},{\"name\":\"labels\",\"kind\":\"object\",\"type\":\"SubTaskLabel\",\"relationName\":\"SubTaskToSubTaskLabel\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationToSubTask\"}],\"dbName\":null},\"SubTaskAssignee\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"subTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assigneeId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"assignedById\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"round\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"isCurrent\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"AssignmentStatus\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"assignedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"acceptedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"declinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"completedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentBackAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"sentBackReason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"subtask\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskToSubTaskAssignee\"},{\"name\":\"assignee\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubTaskAssigneeUser\"},{\"name\":\"assignedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"SubTaskAssignedByUser\"}],\"dbName\":null},\"TaskRecurrence\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"frequency\",\"kind\":\"enum\",\"type\":\"RecurrenceFrequency\"},{\"name\":\"interval\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"byWeekday\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"byMonthDay\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"bySetPos\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"untilDate\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"count\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"location\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"priority\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"allDay\",\"kind\":\"scalar\",\"type\":\"Boolean\"},{\"name\":\"dueTime\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timeZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"tasks\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToTaskRecurrence\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"Label\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"ownerId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"GroupToLabel\"},{\"name\":\"owner\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PersonalLabels\"},{\"name\":\"tasks\",\"kind\":\"object\",\"type\":\"TaskLabel\",\"relationName\":\"LabelToTaskLabel\"},{\"name\":\"subTasks\",\"kind\":\"object\",\"type\":\"SubTaskLabel\",\"relationName\":\"LabelToSubTaskLabel\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"}],\"dbName\":null},\"TaskLabel\":{\"fields\":[{\"name\":\"taskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"labelId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToTaskLabel\"},{\"name\":\"label\",\"kind\":\"object\",\"type\":\"Label\",\"relationName\":\"LabelToTaskLabel\"}],\"dbName\":null},\"SubTaskLabel\":{\"fields\":[{\"name\":\"subTaskId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"labelId\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"subTask\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskToSubTaskLabel\"},{\"name\":\"label\",\"kind\":\"object\",\"type\":\"Label\",\"relationName\":\"LabelToSubTaskLabel\"}],\"dbName\":null},\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"timeZone\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"hash\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"actionTokens\",\"kind\":\"object\",\"type\":\"ActionToken\",\"relationName\":\"UserActionTokens\"},{\"name\":\"issuedTokens\",\"kind\":\"object\",\"type\":\"ActionToken\",\"relationName\":\"IssuedTokens\"},{\"name\":\"Task\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskToUser\"},{\"name\":\"assignedTasks\",\"kind\":\"object\",\"type\":\"TaskAssignee\",\"relationName\":\"AssigneeUser\"},{\"name\":\"assignedSubTasks\",\"kind\":\"object\",\"type\":\"SubTaskAssignee\",\"relationName\":\"SubTaskAssigneeUser\"},{\"name\":\"delegatedTasks\",\"kind\":\"object\",\"type\":\"TaskAssignee\",\"relationName\":\"AssignedByUser\"},{\"name\":\"delegatedSubTasks\",\"kind\":\"object\",\"type\":\"SubTaskAssignee\",\"relationName\":\"SubTaskAssignedByUser\"},{\"name\":\"closedTasks\",\"kind\":\"object\",\"type\":\"Task\",\"relationName\":\"TaskClosedBy\"},{\"name\":\"closedSubTasks\",\"kind\":\"object\",\"type\":\"SubTask\",\"relationName\":\"SubTaskClosedBy\"},{\"name\":\"taskDependencies\",\"kind\":\"object\",\"type\":\"TaskDependency\",\"relationName\":\"TaskDependencyCreatedBy\"},{\"name\":\"taskComments\",\"kind\":\"object\",\"type\":\"TaskComment\",\"relationName\":\"TaskCommentAuthor\"},{\"name\":\"deletedTaskComments\",\"kind\":\"object\",\"type\":\"TaskComment\",\"relationName\":\"TaskCommentDeletedBy\"},{\"name\":\"taskCommentRevisions\",\"kind\":\"object\",\"type\":\"TaskCommentRevision\",\"relationName\":\"TaskCommentRevisionEditor\"},{\"name\":\"taskMentions\",\"kind\":\"object\",\"type\":\"TaskMention\",\"relationName\":\"TaskMentionRecipient\"},{\"name\":\"sentTaskMentions\",\"kind\":\"object\",\"type\":\"TaskMention\",\"relationName\":\"TaskMentionAuthor\"},{\"name\":\"taskActivities\",\"kind\":\"object\",\"type\":\"TaskActivity\",\"relationName\":\"TaskActivityActor\"},{\"name\":\"targetedActivities\",\"kind\":\"object\",\"type\":\"TaskActivity\",\"relationName\":\"TaskActivityTarget\"},{\"name\":\"personalLabels\",\"kind\":\"object\",\"type\":\"Label\",\"relationName\":\"PersonalLabels\"},{\"name\":\"calendarFeeds\",\"kind\":\"object\",\"type\":\"CalendarFeed\",\"relationName\":\"UserCalendarFeeds\"},{\"name\":\"accessTokens\",\"kind\":\"object\",\"type\":\"PersonalAccessToken\",\"relationName\":\"UserPersonalAccessTokens\"},{\"name\":\"loginSessions\",\"kind\":\"object\",\"type\":\"LoginSession\",\"relationName\":\"UserLoginSessions\"},{\"name\":\"notifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationRecipient\"},{\"name\":\"sentNotifications\",\"kind\":\"object\",\"type\":\"Notification\",\"relationName\":\"NotificationActor\"},{\"name\":\"requestedMails\",\"kind\":\"object\",\"type\":\"MailOutbox\",\"relationName\":\"RequestedMails\"},{\"name\":\"quietHoursStart\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"quietHoursEnd\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"notificationPrefs\",\"kind\":\"object\",\"type\":\"NotificationPreference\",\"relationName\":\"NotificationPreferenceToUser\"},{\"name\":\"reminderOffsets\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"dailyDigestHour\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"lastDigestOn\",\"kind\":\"scalar\",\"type\":\"DateTime\"},{\"name\":\"Group\",\"kind\":\"object\",\"type\":\"Group\",\"relationName\":\"GroupToUser\"},{\"name\":\"GroupMember\",\"kind\":\"object\",\"type\":\"GroupMember\",\"relationName\":\"GroupMemberToUser\"}],\"dbName\":null}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -184,6 +184,36 @@ export interface PrismaClient<
     */
   get actionToken(): Prisma.ActionTokenDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.calendarFeed`: Exposes CRUD operations for the **CalendarFeed** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CalendarFeeds
+    * const calendarFeeds = await prisma.calendarFeed.findMany()
+    * ```
+    */
+  get calendarFeed(): Prisma.CalendarFeedDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.personalAccessToken`: Exposes CRUD operations for the **PersonalAccessToken** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PersonalAccessTokens
+    * const personalAccessTokens = await prisma.personalAccessToken.findMany()
+    * ```
+    */
+  get personalAccessToken(): Prisma.PersonalAccessTokenDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.loginSession`: Exposes CRUD operations for the **LoginSession** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more LoginSessions
+    * const loginSessions = await prisma.loginSession.findMany()
+    * ```
+    */
+  get loginSession(): Prisma.LoginSessionDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.group`: Exposes CRUD operations for the **Group** model.
     * Example usage:
@@ -204,6 +234,66 @@ export interface PrismaClient<
     */
   get groupMember(): Prisma.GroupMemberDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.mailOutbox`: Exposes CRUD operations for the **MailOutbox** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more MailOutboxes
+    * const mailOutboxes = await prisma.mailOutbox.findMany()
+    * ```
+    */
+  get mailOutbox(): Prisma.MailOutboxDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.notification`: Exposes CRUD operations for the **Notification** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Notifications
+    * const notifications = await prisma.notification.findMany()
+    * ```
+    */
+  get notification(): Prisma.NotificationDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.notificationPreference`: Exposes CRUD operations for the **NotificationPreference** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more NotificationPreferences
+    * const notificationPreferences = await prisma.notificationPreference.findMany()
+    * ```
+    */
+  get notificationPreference(): Prisma.NotificationPreferenceDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.realtimeRoom`: Exposes CRUD operations for the **RealtimeRoom** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RealtimeRooms
+    * const realtimeRooms = await prisma.realtimeRoom.findMany()
+    * ```
+    */
+  get realtimeRoom(): Prisma.RealtimeRoomDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.realtimeEvent`: Exposes CRUD operations for the **RealtimeEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more RealtimeEvents
+    * const realtimeEvents = await prisma.realtimeEvent.findMany()
+    * ```
+    */
+  get realtimeEvent(): Prisma.RealtimeEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.jobLease`: Exposes CRUD operations for the **JobLease** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more JobLeases
+    * const jobLeases = await prisma.jobLease.findMany()
+    * ```
+    */
+  get jobLease(): Prisma.JobLeaseDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.task`: Exposes CRUD operations for the **Task** model.
     * Example usage:
@@ -214,6 +304,56 @@ export interface PrismaClient<
     */
   get task(): Prisma.TaskDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.taskDependency`: Exposes CRUD operations for the **TaskDependency** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaskDependencies
+    * const taskDependencies = await prisma.taskDependency.findMany()
+    * ```
+    */
+  get taskDependency(): Prisma.TaskDependencyDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.taskComment`: Exposes CRUD operations for the **TaskComment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaskComments
+    * const taskComments = await prisma.taskComment.findMany()
+    * ```
+    */
+  get taskComment(): Prisma.TaskCommentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.taskCommentRevision`: Exposes CRUD operations for the **TaskCommentRevision** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaskCommentRevisions
+    * const taskCommentRevisions = await prisma.taskCommentRevision.findMany()
+    * ```
+    */
+  get taskCommentRevision(): Prisma.TaskCommentRevisionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.taskMention`: Exposes CRUD operations for the **TaskMention** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaskMentions
+    * const taskMentions = await prisma.taskMention.findMany()
+    * ```
+    */
+  get taskMention(): Prisma.TaskMentionDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.taskActivity`: Exposes CRUD operations for the **TaskActivity** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaskActivities
+    * const taskActivities = await prisma.taskActivity.findMany()
+    * ```
+    */
+  get taskActivity(): Prisma.TaskActivityDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.taskAssignee`: Exposes CRUD operations for the **TaskAssignee** model.
     * Example usage:
@@ -244,6 +384,46 @@ export interface PrismaClient<
     */
   get subTaskAssignee(): Prisma.SubTaskAssigneeDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.taskRecurrence`: Exposes CRUD operations for the **TaskRecurrence** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaskRecurrences
+    * const taskRecurrences = await prisma.taskRecurrence.findMany()
+    * ```
+    */
+  get taskRecurrence(): Prisma.TaskRecurrenceDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.label`: Exposes CRUD operations for the **Label** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more Labels
+    * const labels = await prisma.label.findMany()
+    * ```
+    */
+  get label(): Prisma.LabelDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.taskLabel`: Exposes CRUD operations for the **TaskLabel** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaskLabels
+    * const taskLabels = await prisma.taskLabel.findMany()
+    * ```
+    */
+  get taskLabel(): Prisma.TaskLabelDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.subTaskLabel`: Exposes CRUD operations for the **SubTaskLabel** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more SubTaskLabels
+    * const subTaskLabels = await prisma.subTaskLabel.findMany()
+    * ```
+    */
+  get subTaskLabel(): Prisma.SubTaskLabelDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.user`: Exposes CRUD operations for the **User** model.
     * Example usage:
@@ -52,12 +52,30 @@ export const AnyNull = runtime.AnyNull
 
 export const ModelName = {
   ActionToken: 'ActionToken',
+  CalendarFeed: 'CalendarFeed',
+  PersonalAccessToken: 'PersonalAccessToken',
+  LoginSession: 'LoginSession',
   Group: 'Group',
   GroupMember: 'GroupMember',
+  MailOutbox: 'MailOutbox',
+  Notification: 'Notification',
+  NotificationPreference: 'NotificationPreference',
+  RealtimeRoom: 'RealtimeRoom',
+  RealtimeEvent: 'RealtimeEvent',
+  JobLease: 'JobLease',
   Task: 'Task',
+  TaskDependency: 'TaskDependency',
+  TaskComment: 'TaskComment',
+  TaskCommentRevision: 'TaskCommentRevision',
+  TaskMention: 'TaskMention',
+  TaskActivity: 'TaskActivity',
   TaskAssignee: 'TaskAssignee',
   SubTask: 'SubTask',
   SubTaskAssignee: 'SubTaskAssignee',
+  TaskRecurrence: 'TaskRecurrence',
+  Label: 'Label',
+  TaskLabel: 'TaskLabel',
+  SubTaskLabel: 'SubTaskLabel',
   User: 'User'
 } as const
 
@@ -97,6 +115,51 @@ export const ActionTokenScalarFieldEnum = {
 export type ActionTokenScalarFieldEnum = (typeof ActionTokenScalarFieldEnum)[keyof typeof ActionTokenScalarFieldEnum]
 
 
+export const CalendarFeedScalarFieldEnum = {
+  id: 'id',
+  tokenHash: 'tokenHash',
+  userId: 'userId',
+  groupId: 'groupId',
+  lastUsedAt: 'lastUsedAt',
+  revokedAt: 'revokedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type CalendarFeedScalarFieldEnum = (typeof CalendarFeedScalarFieldEnum)[keyof typeof CalendarFeedScalarFieldEnum]
+
+
+export const PersonalAccessTokenScalarFieldEnum = {
+  id: 'id',
+  tokenHash: 'tokenHash',
+  userId: 'userId',
+  name: 'name',
+  scopes: 'scopes',
+  expiresAt: 'expiresAt',
+  lastUsedAt: 'lastUsedAt',
+  revokedAt: 'revokedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type PersonalAccessTokenScalarFieldEnum = (typeof PersonalAccessTokenScalarFieldEnum)[keyof typeof PersonalAccessTokenScalarFieldEnum]
+
+
+export const LoginSessionScalarFieldEnum = {
+  id: 'id',
+  refreshTokenHash: 'refreshTokenHash',
+  previousTokenHash: 'previousTokenHash',
+  userId: 'userId',
+  userAgent: 'userAgent',
+  ipAddress: 'ipAddress',
+  rotatedAt: 'rotatedAt',
+  lastActiveAt: 'lastActiveAt',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type LoginSessionScalarFieldEnum = (typeof LoginSessionScalarFieldEnum)[keyof typeof LoginSessionScalarFieldEnum]
+
+
 export const GroupScalarFieldEnum = {
   id: 'id',
   name: 'name',
@@ -118,6 +181,89 @@ export const GroupMemberScalarFieldEnum = {
 export type GroupMemberScalarFieldEnum = (typeof GroupMemberScalarFieldEnum)[keyof typeof GroupMemberScalarFieldEnum]
 
 
+export const MailOutboxScalarFieldEnum = {
+  id: 'id',
+  to: 'to',
+  subject: 'subject',
+  template: 'template',
+  context: 'context',
+  status: 'status',
+  secretFields: 'secretFields',
+  requestedById: 'requestedById',
+  attempts: 'attempts',
+  lastError: 'lastError',
+  nextAttemptAt: 'nextAttemptAt',
+  sentAt: 'sentAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type MailOutboxScalarFieldEnum = (typeof MailOutboxScalarFieldEnum)[keyof typeof MailOutboxScalarFieldEnum]
+
+
+export const NotificationScalarFieldEnum = {
+  id: 'id',
+  type: 'type',
+  userId: 'userId',
+  actorId: 'actorId',
+  groupId: 'groupId',
+  taskId: 'taskId',
+  subTaskId: 'subTaskId',
+  title: 'title',
+  body: 'body',
+  url: 'url',
+  dedupeKey: 'dedupeKey',
+  inApp: 'inApp',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+} as const
+
+export type NotificationScalarFieldEnum = (typeof NotificationScalarFieldEnum)[keyof typeof NotificationScalarFieldEnum]
+
+
+export const NotificationPreferenceScalarFieldEnum = {
+  userId: 'userId',
+  type: 'type',
+  inApp: 'inApp',
+  email: 'email',
+  realtime: 'realtime',
+  updatedAt: 'updatedAt'
+} as const
+
+export type NotificationPreferenceScalarFieldEnum = (typeof NotificationPreferenceScalarFieldEnum)[keyof typeof NotificationPreferenceScalarFieldEnum]
+
+
+export const RealtimeRoomScalarFieldEnum = {
+  room: 'room',
+  lastSeq: 'lastSeq',
+  updatedAt: 'updatedAt'
+} as const
+
+export type RealtimeRoomScalarFieldEnum = (typeof RealtimeRoomScalarFieldEnum)[keyof typeof RealtimeRoomScalarFieldEnum]
+
+
+export const RealtimeEventScalarFieldEnum = {
+  id: 'id',
+  room: 'room',
+  seq: 'seq',
+  event: 'event',
+  payload: 'payload',
+  createdAt: 'createdAt'
+} as const
+
+export type RealtimeEventScalarFieldEnum = (typeof RealtimeEventScalarFieldEnum)[keyof typeof RealtimeEventScalarFieldEnum]
+
+
+export const JobLeaseScalarFieldEnum = {
+  name: 'name',
+  holder: 'holder',
+  expiresAt: 'expiresAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type JobLeaseScalarFieldEnum = (typeof JobLeaseScalarFieldEnum)[keyof typeof JobLeaseScalarFieldEnum]
+
+
 export const TaskScalarFieldEnum = {
   id: 'id',
   ownerId: 'ownerId',
@@ -131,28 +277,107 @@ export const TaskScalarFieldEnum = {
   allDay: 'allDay',
   allDayLocalDate: 'allDayLocalDate',
   sourceTimeZone: 'sourceTimeZone',
+  icalUid: 'icalUid',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   completionPolicy: 'completionPolicy',
+  autoCloseOnComplete: 'autoCloseOnComplete',
   closedAt: 'closedAt',
   closedById: 'closedById',
   closedReason: 'closedReason',
-  closedWithOpenAssignees: 'closedWithOpenAssignees'
+  closedWithOpenAssignees: 'closedWithOpenAssignees',
+  recurrenceId: 'recurrenceId',
+  recurrenceIndex: 'recurrenceIndex',
+  occurrenceDate: 'occurrenceDate'
 } as const
 
 export type TaskScalarFieldEnum = (typeof TaskScalarFieldEnum)[keyof typeof TaskScalarFieldEnum]
 
 
+export const TaskDependencyScalarFieldEnum = {
+  blockedTaskId: 'blockedTaskId',
+  blockerTaskId: 'blockerTaskId',
+  createdById: 'createdById',
+  createdAt: 'createdAt'
+} as const
+
+export type TaskDependencyScalarFieldEnum = (typeof TaskDependencyScalarFieldEnum)[keyof typeof TaskDependencyScalarFieldEnum]
+
+
+export const TaskCommentScalarFieldEnum = {
+  id: 'id',
+  taskId: 'taskId',
+  subTaskId: 'subTaskId',
+  parentId: 'parentId',
+  authorId: 'authorId',
+  body: 'body',
+  editedAt: 'editedAt',
+  deletedAt: 'deletedAt',
+  deletedById: 'deletedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TaskCommentScalarFieldEnum = (typeof TaskCommentScalarFieldEnum)[keyof typeof TaskCommentScalarFieldEnum]
+
+
+export const TaskCommentRevisionScalarFieldEnum = {
+  id: 'id',
+  commentId: 'commentId',
+  body: 'body',
+  action: 'action',
+  editedById: 'editedById',
+  createdAt: 'createdAt'
+} as const
+
+export type TaskCommentRevisionScalarFieldEnum = (typeof TaskCommentRevisionScalarFieldEnum)[keyof typeof TaskCommentRevisionScalarFieldEnum]
+
+
+export const TaskMentionScalarFieldEnum = {
+  id: 'id',
+  taskId: 'taskId',
+  subTaskId: 'subTaskId',
+  commentId: 'commentId',
+  mentionedUserId: 'mentionedUserId',
+  mentionedById: 'mentionedById',
+  readAt: 'readAt',
+  createdAt: 'createdAt'
+} as const
+
+export type TaskMentionScalarFieldEnum = (typeof TaskMentionScalarFieldEnum)[keyof typeof TaskMentionScalarFieldEnum]
+
+
+export const TaskActivityScalarFieldEnum = {
+  id: 'id',
+  taskId: 'taskId',
+  subTaskId: 'subTaskId',
+  actorId: 'actorId',
+  action: 'action',
+  targetUserId: 'targetUserId',
+  before: 'before',
+  after: 'after',
+  reason: 'reason',
+  createdAt: 'createdAt'
+} as const
+
+export type TaskActivityScalarFieldEnum = (typeof TaskActivityScalarFieldEnum)[keyof typeof TaskActivityScalarFieldEnum]
+
+
 export const TaskAssigneeScalarFieldEnum = {
+  id: 'id',
   taskId: 'taskId',
   assigneeId: 'assigneeId',
   assignedById: 'assignedById',
+  round: 'round',
+  isCurrent: 'isCurrent',
   status: 'status',
   reason: 'reason',
   assignedAt: 'assignedAt',
   acceptedAt: 'acceptedAt',
   declinedAt: 'declinedAt',
   completedAt: 'completedAt',
+  sentBackAt: 'sentBackAt',
+  sentBackReason: 'sentBackReason',
   updatedAt: 'updatedAt'
 } as const
 
@@ -182,27 +407,90 @@ export type SubTaskScalarFieldEnum = (typeof SubTaskScalarFieldEnum)[keyof typeo
 
 
 export const SubTaskAssigneeScalarFieldEnum = {
+  id: 'id',
   subTaskId: 'subTaskId',
   assigneeId: 'assigneeId',
   assignedById: 'assignedById',
+  round: 'round',
+  isCurrent: 'isCurrent',
   status: 'status',
   reason: 'reason',
   assignedAt: 'assignedAt',
   acceptedAt: 'acceptedAt',
   declinedAt: 'declinedAt',
   completedAt: 'completedAt',
+  sentBackAt: 'sentBackAt',
+  sentBackReason: 'sentBackReason',
   updatedAt: 'updatedAt'
 } as const
 
 export type SubTaskAssigneeScalarFieldEnum = (typeof SubTaskAssigneeScalarFieldEnum)[keyof typeof SubTaskAssigneeScalarFieldEnum]
 
 
+export const TaskRecurrenceScalarFieldEnum = {
+  id: 'id',
+  frequency: 'frequency',
+  interval: 'interval',
+  byWeekday: 'byWeekday',
+  byMonthDay: 'byMonthDay',
+  bySetPos: 'bySetPos',
+  untilDate: 'untilDate',
+  count: 'count',
+  title: 'title',
+  description: 'description',
+  location: 'location',
+  priority: 'priority',
+  allDay: 'allDay',
+  dueTime: 'dueTime',
+  timeZone: 'timeZone',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type TaskRecurrenceScalarFieldEnum = (typeof TaskRecurrenceScalarFieldEnum)[keyof typeof TaskRecurrenceScalarFieldEnum]
+
+
+export const LabelScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  color: 'color',
+  groupId: 'groupId',
+  ownerId: 'ownerId',
+  createdAt: 'createdAt'
+} as const
+
+export type LabelScalarFieldEnum = (typeof LabelScalarFieldEnum)[keyof typeof LabelScalarFieldEnum]
+
+
+export const TaskLabelScalarFieldEnum = {
+  taskId: 'taskId',
+  labelId: 'labelId',
+  createdAt: 'createdAt'
+} as const
+
+export type TaskLabelScalarFieldEnum = (typeof TaskLabelScalarFieldEnum)[keyof typeof TaskLabelScalarFieldEnum]
+
+
+export const SubTaskLabelScalarFieldEnum = {
+  subTaskId: 'subTaskId',
+  labelId: 'labelId',
+  createdAt: 'createdAt'
+} as const
+
+export type SubTaskLabelScalarFieldEnum = (typeof SubTaskLabelScalarFieldEnum)[keyof typeof SubTaskLabelScalarFieldEnum]
+
+
 export const UserScalarFieldEnum = {
   id: 'id',
   name: 'name',
   email: 'email',
   timeZone: 'timeZone',
-  hash: 'hash'
+  hash: 'hash',
+  quietHoursStart: 'quietHoursStart',
+  quietHoursEnd: 'quietHoursEnd',
+  reminderOffsets: 'reminderOffsets',
+  dailyDigestHour: 'dailyDigestHour',
+  lastDigestOn: 'lastDigestOn'
 } as const
 
 export type UserScalarFieldEnum = (typeof UserScalarFieldEnum)[keyof typeof UserScalarFieldEnum]
@@ -224,6 +512,13 @@ export const NullableJsonNullValueInput = {
 export type NullableJsonNullValueInput = (typeof NullableJsonNullValueInput)[keyof typeof NullableJsonNullValueInput]
 
 
+export const JsonNullValueInput = {
+  JsonNull: 'JsonNull'
+} as const
+
+export type JsonNullValueInput = (typeof JsonNullValueInput)[keyof typeof JsonNullValueInput]
+
+
 export const QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -9,11 +9,29 @@
  * 🟢 You can import this file directly.
  */
 export type * from './models/ActionToken'
+export type * from './models/CalendarFeed'
+export type * from './models/PersonalAccessToken'
+export type * from './models/LoginSession'
 export type * from './models/Group'
 export type * from './models/GroupMember'
+export type * from './models/MailOutbox'
+export type * from './models/Notification'
+export type * from './models/NotificationPreference'
+export type * from './models/RealtimeRoom'
+export type * from './models/RealtimeEvent'
+export type * from './models/JobLease'
 export type * from './models/Task'
+export type * from './models/TaskDependency'
+export type * from './models/TaskComment'
+export type * from './models/TaskCommentRevision'
+export type * from './models/TaskMention'
+export type * from './models/TaskActivity'
 export type * from './models/TaskAssignee'
 export type * from './models/SubTask'
 export type * from './models/SubTaskAssignee'
+export type * from './models/TaskRecurrence'
+export type * from './models/Label'
+export type * from './models/TaskLabel'
+export type * from './models/SubTaskLabel'
 export type * from './models/User'
 export type * from './commonInputTypes'
\ No newline at end of file
@@ -0,0 +1,1610 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `CalendarFeed` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model CalendarFeed
+ * 
+ */
+export type CalendarFeedModel = runtime.Types.Result.DefaultSelection<Prisma.$CalendarFeedPayload>
+
+export type AggregateCalendarFeed = {
+  _count: CalendarFeedCountAggregateOutputType | null
+  _avg: CalendarFeedAvgAggregateOutputType | null
+  _sum: CalendarFeedSumAggregateOutputType | null
+  _min: CalendarFeedMinAggregateOutputType | null
+  _max: CalendarFeedMaxAggregateOutputType | null
+}
+
+export type CalendarFeedAvgAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  groupId: number | null
+}
+
+export type CalendarFeedSumAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  groupId: number | null
+}
+
+export type CalendarFeedMinAggregateOutputType = {
+  id: number | null
+  tokenHash: string | null
+  userId: number | null
+  groupId: number | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date | null
+}
+
+export type CalendarFeedMaxAggregateOutputType = {
+  id: number | null
+  tokenHash: string | null
+  userId: number | null
+  groupId: number | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date | null
+}
+
+export type CalendarFeedCountAggregateOutputType = {
+  id: number
+  tokenHash: number
+  userId: number
+  groupId: number
+  lastUsedAt: number
+  revokedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type CalendarFeedAvgAggregateInputType = {
+  id?: true
+  userId?: true
+  groupId?: true
+}
+
+export type CalendarFeedSumAggregateInputType = {
+  id?: true
+  userId?: true
+  groupId?: true
+}
+
+export type CalendarFeedMinAggregateInputType = {
+  id?: true
+  tokenHash?: true
+  userId?: true
+  groupId?: true
+  lastUsedAt?: true
+  revokedAt?: true
+  createdAt?: true
+}
+
+export type CalendarFeedMaxAggregateInputType = {
+  id?: true
+  tokenHash?: true
+  userId?: true
+  groupId?: true
+  lastUsedAt?: true
+  revokedAt?: true
+  createdAt?: true
+}
+
+export type CalendarFeedCountAggregateInputType = {
+  id?: true
+  tokenHash?: true
+  userId?: true
+  groupId?: true
+  lastUsedAt?: true
+  revokedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type CalendarFeedAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CalendarFeed to aggregate.
+   */
+  where?: Prisma.CalendarFeedWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CalendarFeeds to fetch.
+   */
+  orderBy?: Prisma.CalendarFeedOrderByWithRelationInput | Prisma.CalendarFeedOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.CalendarFeedWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CalendarFeeds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CalendarFeeds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned CalendarFeeds
+  **/
+  _count?: true | CalendarFeedCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: CalendarFeedAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: CalendarFeedSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: CalendarFeedMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: CalendarFeedMaxAggregateInputType
+}
+
+export type GetCalendarFeedAggregateType<T extends CalendarFeedAggregateArgs> = {
+      [P in keyof T & keyof AggregateCalendarFeed]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCalendarFeed[P]>
+    : Prisma.GetScalarType<T[P], AggregateCalendarFeed[P]>
+}
+
+
+
+
+export type CalendarFeedGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CalendarFeedWhereInput
+  orderBy?: Prisma.CalendarFeedOrderByWithAggregationInput | Prisma.CalendarFeedOrderByWithAggregationInput[]
+  by: Prisma.CalendarFeedScalarFieldEnum[] | Prisma.CalendarFeedScalarFieldEnum
+  having?: Prisma.CalendarFeedScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: CalendarFeedCountAggregateInputType | true
+  _avg?: CalendarFeedAvgAggregateInputType
+  _sum?: CalendarFeedSumAggregateInputType
+  _min?: CalendarFeedMinAggregateInputType
+  _max?: CalendarFeedMaxAggregateInputType
+}
+
+export type CalendarFeedGroupByOutputType = {
+  id: number
+  tokenHash: string
+  userId: number
+  groupId: number | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+  _count: CalendarFeedCountAggregateOutputType | null
+  _avg: CalendarFeedAvgAggregateOutputType | null
+  _sum: CalendarFeedSumAggregateOutputType | null
+  _min: CalendarFeedMinAggregateOutputType | null
+  _max: CalendarFeedMaxAggregateOutputType | null
+}
+
+type GetCalendarFeedGroupByPayload<T extends CalendarFeedGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CalendarFeedGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof CalendarFeedGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], CalendarFeedGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], CalendarFeedGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type CalendarFeedWhereInput = {
+  AND?: Prisma.CalendarFeedWhereInput | Prisma.CalendarFeedWhereInput[]
+  OR?: Prisma.CalendarFeedWhereInput[]
+  NOT?: Prisma.CalendarFeedWhereInput | Prisma.CalendarFeedWhereInput[]
+  id?: Prisma.IntFilter<"CalendarFeed"> | number
+  tokenHash?: Prisma.StringFilter<"CalendarFeed"> | string
+  userId?: Prisma.IntFilter<"CalendarFeed"> | number
+  groupId?: Prisma.IntNullableFilter<"CalendarFeed"> | number | null
+  lastUsedAt?: Prisma.DateTimeNullableFilter<"CalendarFeed"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableFilter<"CalendarFeed"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"CalendarFeed"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  group?: Prisma.XOR<Prisma.GroupNullableScalarRelationFilter, Prisma.GroupWhereInput> | null
+}
+
+export type CalendarFeedOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  group?: Prisma.GroupOrderByWithRelationInput
+}
+
+export type CalendarFeedWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  tokenHash?: string
+  AND?: Prisma.CalendarFeedWhereInput | Prisma.CalendarFeedWhereInput[]
+  OR?: Prisma.CalendarFeedWhereInput[]
+  NOT?: Prisma.CalendarFeedWhereInput | Prisma.CalendarFeedWhereInput[]
+  userId?: Prisma.IntFilter<"CalendarFeed"> | number
+  groupId?: Prisma.IntNullableFilter<"CalendarFeed"> | number | null
+  lastUsedAt?: Prisma.DateTimeNullableFilter<"CalendarFeed"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableFilter<"CalendarFeed"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"CalendarFeed"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  group?: Prisma.XOR<Prisma.GroupNullableScalarRelationFilter, Prisma.GroupWhereInput> | null
+}, "id" | "tokenHash">
+
+export type CalendarFeedOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.CalendarFeedCountOrderByAggregateInput
+  _avg?: Prisma.CalendarFeedAvgOrderByAggregateInput
+  _max?: Prisma.CalendarFeedMaxOrderByAggregateInput
+  _min?: Prisma.CalendarFeedMinOrderByAggregateInput
+  _sum?: Prisma.CalendarFeedSumOrderByAggregateInput
+}
+
+export type CalendarFeedScalarWhereWithAggregatesInput = {
+  AND?: Prisma.CalendarFeedScalarWhereWithAggregatesInput | Prisma.CalendarFeedScalarWhereWithAggregatesInput[]
+  OR?: Prisma.CalendarFeedScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.CalendarFeedScalarWhereWithAggregatesInput | Prisma.CalendarFeedScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"CalendarFeed"> | number
+  tokenHash?: Prisma.StringWithAggregatesFilter<"CalendarFeed"> | string
+  userId?: Prisma.IntWithAggregatesFilter<"CalendarFeed"> | number
+  groupId?: Prisma.IntNullableWithAggregatesFilter<"CalendarFeed"> | number | null
+  lastUsedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"CalendarFeed"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"CalendarFeed"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CalendarFeed"> | Date | string
+}
+
+export type CalendarFeedCreateInput = {
+  tokenHash: string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutCalendarFeedsInput
+  group?: Prisma.GroupCreateNestedOneWithoutCalendarFeedsInput
+}
+
+export type CalendarFeedUncheckedCreateInput = {
+  id?: number
+  tokenHash: string
+  userId: number
+  groupId?: number | null
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarFeedUpdateInput = {
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutCalendarFeedsNestedInput
+  group?: Prisma.GroupUpdateOneWithoutCalendarFeedsNestedInput
+}
+
+export type CalendarFeedUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarFeedCreateManyInput = {
+  id?: number
+  tokenHash: string
+  userId: number
+  groupId?: number | null
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarFeedUpdateManyMutationInput = {
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarFeedUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarFeedCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CalendarFeedAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+}
+
+export type CalendarFeedMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CalendarFeedMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type CalendarFeedSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+}
+
+export type CalendarFeedListRelationFilter = {
+  every?: Prisma.CalendarFeedWhereInput
+  some?: Prisma.CalendarFeedWhereInput
+  none?: Prisma.CalendarFeedWhereInput
+}
+
+export type CalendarFeedOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type CalendarFeedCreateNestedManyWithoutGroupInput = {
+  create?: Prisma.XOR<Prisma.CalendarFeedCreateWithoutGroupInput, Prisma.CalendarFeedUncheckedCreateWithoutGroupInput> | Prisma.CalendarFeedCreateWithoutGroupInput[] | Prisma.CalendarFeedUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.CalendarFeedCreateOrConnectWithoutGroupInput | Prisma.CalendarFeedCreateOrConnectWithoutGroupInput[]
+  createMany?: Prisma.CalendarFeedCreateManyGroupInputEnvelope
+  connect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+}
+
+export type CalendarFeedUncheckedCreateNestedManyWithoutGroupInput = {
+  create?: Prisma.XOR<Prisma.CalendarFeedCreateWithoutGroupInput, Prisma.CalendarFeedUncheckedCreateWithoutGroupInput> | Prisma.CalendarFeedCreateWithoutGroupInput[] | Prisma.CalendarFeedUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.CalendarFeedCreateOrConnectWithoutGroupInput | Prisma.CalendarFeedCreateOrConnectWithoutGroupInput[]
+  createMany?: Prisma.CalendarFeedCreateManyGroupInputEnvelope
+  connect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+}
+
+export type CalendarFeedUpdateManyWithoutGroupNestedInput = {
+  create?: Prisma.XOR<Prisma.CalendarFeedCreateWithoutGroupInput, Prisma.CalendarFeedUncheckedCreateWithoutGroupInput> | Prisma.CalendarFeedCreateWithoutGroupInput[] | Prisma.CalendarFeedUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.CalendarFeedCreateOrConnectWithoutGroupInput | Prisma.CalendarFeedCreateOrConnectWithoutGroupInput[]
+  upsert?: Prisma.CalendarFeedUpsertWithWhereUniqueWithoutGroupInput | Prisma.CalendarFeedUpsertWithWhereUniqueWithoutGroupInput[]
+  createMany?: Prisma.CalendarFeedCreateManyGroupInputEnvelope
+  set?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  disconnect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  delete?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  connect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  update?: Prisma.CalendarFeedUpdateWithWhereUniqueWithoutGroupInput | Prisma.CalendarFeedUpdateWithWhereUniqueWithoutGroupInput[]
+  updateMany?: Prisma.CalendarFeedUpdateManyWithWhereWithoutGroupInput | Prisma.CalendarFeedUpdateManyWithWhereWithoutGroupInput[]
+  deleteMany?: Prisma.CalendarFeedScalarWhereInput | Prisma.CalendarFeedScalarWhereInput[]
+}
+
+export type CalendarFeedUncheckedUpdateManyWithoutGroupNestedInput = {
+  create?: Prisma.XOR<Prisma.CalendarFeedCreateWithoutGroupInput, Prisma.CalendarFeedUncheckedCreateWithoutGroupInput> | Prisma.CalendarFeedCreateWithoutGroupInput[] | Prisma.CalendarFeedUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.CalendarFeedCreateOrConnectWithoutGroupInput | Prisma.CalendarFeedCreateOrConnectWithoutGroupInput[]
+  upsert?: Prisma.CalendarFeedUpsertWithWhereUniqueWithoutGroupInput | Prisma.CalendarFeedUpsertWithWhereUniqueWithoutGroupInput[]
+  createMany?: Prisma.CalendarFeedCreateManyGroupInputEnvelope
+  set?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  disconnect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  delete?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  connect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  update?: Prisma.CalendarFeedUpdateWithWhereUniqueWithoutGroupInput | Prisma.CalendarFeedUpdateWithWhereUniqueWithoutGroupInput[]
+  updateMany?: Prisma.CalendarFeedUpdateManyWithWhereWithoutGroupInput | Prisma.CalendarFeedUpdateManyWithWhereWithoutGroupInput[]
+  deleteMany?: Prisma.CalendarFeedScalarWhereInput | Prisma.CalendarFeedScalarWhereInput[]
+}
+
+export type CalendarFeedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.CalendarFeedCreateWithoutUserInput, Prisma.CalendarFeedUncheckedCreateWithoutUserInput> | Prisma.CalendarFeedCreateWithoutUserInput[] | Prisma.CalendarFeedUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.CalendarFeedCreateOrConnectWithoutUserInput | Prisma.CalendarFeedCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.CalendarFeedCreateManyUserInputEnvelope
+  connect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+}
+
+export type CalendarFeedUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.CalendarFeedCreateWithoutUserInput, Prisma.CalendarFeedUncheckedCreateWithoutUserInput> | Prisma.CalendarFeedCreateWithoutUserInput[] | Prisma.CalendarFeedUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.CalendarFeedCreateOrConnectWithoutUserInput | Prisma.CalendarFeedCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.CalendarFeedCreateManyUserInputEnvelope
+  connect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+}
+
+export type CalendarFeedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.CalendarFeedCreateWithoutUserInput, Prisma.CalendarFeedUncheckedCreateWithoutUserInput> | Prisma.CalendarFeedCreateWithoutUserInput[] | Prisma.CalendarFeedUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.CalendarFeedCreateOrConnectWithoutUserInput | Prisma.CalendarFeedCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.CalendarFeedUpsertWithWhereUniqueWithoutUserInput | Prisma.CalendarFeedUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.CalendarFeedCreateManyUserInputEnvelope
+  set?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  disconnect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  delete?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  connect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  update?: Prisma.CalendarFeedUpdateWithWhereUniqueWithoutUserInput | Prisma.CalendarFeedUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.CalendarFeedUpdateManyWithWhereWithoutUserInput | Prisma.CalendarFeedUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.CalendarFeedScalarWhereInput | Prisma.CalendarFeedScalarWhereInput[]
+}
+
+export type CalendarFeedUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.CalendarFeedCreateWithoutUserInput, Prisma.CalendarFeedUncheckedCreateWithoutUserInput> | Prisma.CalendarFeedCreateWithoutUserInput[] | Prisma.CalendarFeedUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.CalendarFeedCreateOrConnectWithoutUserInput | Prisma.CalendarFeedCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.CalendarFeedUpsertWithWhereUniqueWithoutUserInput | Prisma.CalendarFeedUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.CalendarFeedCreateManyUserInputEnvelope
+  set?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  disconnect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  delete?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  connect?: Prisma.CalendarFeedWhereUniqueInput | Prisma.CalendarFeedWhereUniqueInput[]
+  update?: Prisma.CalendarFeedUpdateWithWhereUniqueWithoutUserInput | Prisma.CalendarFeedUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.CalendarFeedUpdateManyWithWhereWithoutUserInput | Prisma.CalendarFeedUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.CalendarFeedScalarWhereInput | Prisma.CalendarFeedScalarWhereInput[]
+}
+
+export type CalendarFeedCreateWithoutGroupInput = {
+  tokenHash: string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutCalendarFeedsInput
+}
+
+export type CalendarFeedUncheckedCreateWithoutGroupInput = {
+  id?: number
+  tokenHash: string
+  userId: number
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarFeedCreateOrConnectWithoutGroupInput = {
+  where: Prisma.CalendarFeedWhereUniqueInput
+  create: Prisma.XOR<Prisma.CalendarFeedCreateWithoutGroupInput, Prisma.CalendarFeedUncheckedCreateWithoutGroupInput>
+}
+
+export type CalendarFeedCreateManyGroupInputEnvelope = {
+  data: Prisma.CalendarFeedCreateManyGroupInput | Prisma.CalendarFeedCreateManyGroupInput[]
+  skipDuplicates?: boolean
+}
+
+export type CalendarFeedUpsertWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.CalendarFeedWhereUniqueInput
+  update: Prisma.XOR<Prisma.CalendarFeedUpdateWithoutGroupInput, Prisma.CalendarFeedUncheckedUpdateWithoutGroupInput>
+  create: Prisma.XOR<Prisma.CalendarFeedCreateWithoutGroupInput, Prisma.CalendarFeedUncheckedCreateWithoutGroupInput>
+}
+
+export type CalendarFeedUpdateWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.CalendarFeedWhereUniqueInput
+  data: Prisma.XOR<Prisma.CalendarFeedUpdateWithoutGroupInput, Prisma.CalendarFeedUncheckedUpdateWithoutGroupInput>
+}
+
+export type CalendarFeedUpdateManyWithWhereWithoutGroupInput = {
+  where: Prisma.CalendarFeedScalarWhereInput
+  data: Prisma.XOR<Prisma.CalendarFeedUpdateManyMutationInput, Prisma.CalendarFeedUncheckedUpdateManyWithoutGroupInput>
+}
+
+export type CalendarFeedScalarWhereInput = {
+  AND?: Prisma.CalendarFeedScalarWhereInput | Prisma.CalendarFeedScalarWhereInput[]
+  OR?: Prisma.CalendarFeedScalarWhereInput[]
+  NOT?: Prisma.CalendarFeedScalarWhereInput | Prisma.CalendarFeedScalarWhereInput[]
+  id?: Prisma.IntFilter<"CalendarFeed"> | number
+  tokenHash?: Prisma.StringFilter<"CalendarFeed"> | string
+  userId?: Prisma.IntFilter<"CalendarFeed"> | number
+  groupId?: Prisma.IntNullableFilter<"CalendarFeed"> | number | null
+  lastUsedAt?: Prisma.DateTimeNullableFilter<"CalendarFeed"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableFilter<"CalendarFeed"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"CalendarFeed"> | Date | string
+}
+
+export type CalendarFeedCreateWithoutUserInput = {
+  tokenHash: string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+  group?: Prisma.GroupCreateNestedOneWithoutCalendarFeedsInput
+}
+
+export type CalendarFeedUncheckedCreateWithoutUserInput = {
+  id?: number
+  tokenHash: string
+  groupId?: number | null
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarFeedCreateOrConnectWithoutUserInput = {
+  where: Prisma.CalendarFeedWhereUniqueInput
+  create: Prisma.XOR<Prisma.CalendarFeedCreateWithoutUserInput, Prisma.CalendarFeedUncheckedCreateWithoutUserInput>
+}
+
+export type CalendarFeedCreateManyUserInputEnvelope = {
+  data: Prisma.CalendarFeedCreateManyUserInput | Prisma.CalendarFeedCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type CalendarFeedUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.CalendarFeedWhereUniqueInput
+  update: Prisma.XOR<Prisma.CalendarFeedUpdateWithoutUserInput, Prisma.CalendarFeedUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.CalendarFeedCreateWithoutUserInput, Prisma.CalendarFeedUncheckedCreateWithoutUserInput>
+}
+
+export type CalendarFeedUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.CalendarFeedWhereUniqueInput
+  data: Prisma.XOR<Prisma.CalendarFeedUpdateWithoutUserInput, Prisma.CalendarFeedUncheckedUpdateWithoutUserInput>
+}
+
+export type CalendarFeedUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.CalendarFeedScalarWhereInput
+  data: Prisma.XOR<Prisma.CalendarFeedUpdateManyMutationInput, Prisma.CalendarFeedUncheckedUpdateManyWithoutUserInput>
+}
+
+export type CalendarFeedCreateManyGroupInput = {
+  id?: number
+  tokenHash: string
+  userId: number
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarFeedUpdateWithoutGroupInput = {
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutCalendarFeedsNestedInput
+}
+
+export type CalendarFeedUncheckedUpdateWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarFeedUncheckedUpdateManyWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarFeedCreateManyUserInput = {
+  id?: number
+  tokenHash: string
+  groupId?: number | null
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type CalendarFeedUpdateWithoutUserInput = {
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  group?: Prisma.GroupUpdateOneWithoutCalendarFeedsNestedInput
+}
+
+export type CalendarFeedUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type CalendarFeedUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type CalendarFeedSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tokenHash?: boolean
+  userId?: boolean
+  groupId?: boolean
+  lastUsedAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  group?: boolean | Prisma.CalendarFeed$groupArgs<ExtArgs>
+}, ExtArgs["result"]["calendarFeed"]>
+
+export type CalendarFeedSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tokenHash?: boolean
+  userId?: boolean
+  groupId?: boolean
+  lastUsedAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  group?: boolean | Prisma.CalendarFeed$groupArgs<ExtArgs>
+}, ExtArgs["result"]["calendarFeed"]>
+
+export type CalendarFeedSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tokenHash?: boolean
+  userId?: boolean
+  groupId?: boolean
+  lastUsedAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  group?: boolean | Prisma.CalendarFeed$groupArgs<ExtArgs>
+}, ExtArgs["result"]["calendarFeed"]>
+
+export type CalendarFeedSelectScalar = {
+  id?: boolean
+  tokenHash?: boolean
+  userId?: boolean
+  groupId?: boolean
+  lastUsedAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+}
+
+export type CalendarFeedOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tokenHash" | "userId" | "groupId" | "lastUsedAt" | "revokedAt" | "createdAt", ExtArgs["result"]["calendarFeed"]>
+export type CalendarFeedInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  group?: boolean | Prisma.CalendarFeed$groupArgs<ExtArgs>
+}
+export type CalendarFeedIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  group?: boolean | Prisma.CalendarFeed$groupArgs<ExtArgs>
+}
+export type CalendarFeedIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  group?: boolean | Prisma.CalendarFeed$groupArgs<ExtArgs>
+}
+
+export type $CalendarFeedPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "CalendarFeed"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    group: Prisma.$GroupPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    tokenHash: string
+    userId: number
+    groupId: number | null
+    lastUsedAt: Date | null
+    revokedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["calendarFeed"]>
+  composites: {}
+}
+
+export type CalendarFeedGetPayload<S extends boolean | null | undefined | CalendarFeedDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload, S>
+
+export type CalendarFeedCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<CalendarFeedFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: CalendarFeedCountAggregateInputType | true
+  }
+
+export interface CalendarFeedDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['CalendarFeed'], meta: { name: 'CalendarFeed' } }
+  /**
+   * Find zero or one CalendarFeed that matches the filter.
+   * @param {CalendarFeedFindUniqueArgs} args - Arguments to find a CalendarFeed
+   * @example
+   * // Get one CalendarFeed
+   * const calendarFeed = await prisma.calendarFeed.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CalendarFeedFindUniqueArgs>(args: Prisma.SelectSubset<T, CalendarFeedFindUniqueArgs<ExtArgs>>): Prisma.Prisma__CalendarFeedClient<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one CalendarFeed that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CalendarFeedFindUniqueOrThrowArgs} args - Arguments to find a CalendarFeed
+   * @example
+   * // Get one CalendarFeed
+   * const calendarFeed = await prisma.calendarFeed.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CalendarFeedFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, CalendarFeedFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__CalendarFeedClient<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CalendarFeed that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarFeedFindFirstArgs} args - Arguments to find a CalendarFeed
+   * @example
+   * // Get one CalendarFeed
+   * const calendarFeed = await prisma.calendarFeed.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CalendarFeedFindFirstArgs>(args?: Prisma.SelectSubset<T, CalendarFeedFindFirstArgs<ExtArgs>>): Prisma.Prisma__CalendarFeedClient<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first CalendarFeed that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarFeedFindFirstOrThrowArgs} args - Arguments to find a CalendarFeed
+   * @example
+   * // Get one CalendarFeed
+   * const calendarFeed = await prisma.calendarFeed.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CalendarFeedFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, CalendarFeedFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__CalendarFeedClient<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more CalendarFeeds that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarFeedFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CalendarFeeds
+   * const calendarFeeds = await prisma.calendarFeed.findMany()
+   * 
+   * // Get first 10 CalendarFeeds
+   * const calendarFeeds = await prisma.calendarFeed.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const calendarFeedWithIdOnly = await prisma.calendarFeed.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends CalendarFeedFindManyArgs>(args?: Prisma.SelectSubset<T, CalendarFeedFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a CalendarFeed.
+   * @param {CalendarFeedCreateArgs} args - Arguments to create a CalendarFeed.
+   * @example
+   * // Create one CalendarFeed
+   * const CalendarFeed = await prisma.calendarFeed.create({
+   *   data: {
+   *     // ... data to create a CalendarFeed
+   *   }
+   * })
+   * 
+   */
+  create<T extends CalendarFeedCreateArgs>(args: Prisma.SelectSubset<T, CalendarFeedCreateArgs<ExtArgs>>): Prisma.Prisma__CalendarFeedClient<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many CalendarFeeds.
+   * @param {CalendarFeedCreateManyArgs} args - Arguments to create many CalendarFeeds.
+   * @example
+   * // Create many CalendarFeeds
+   * const calendarFeed = await prisma.calendarFeed.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends CalendarFeedCreateManyArgs>(args?: Prisma.SelectSubset<T, CalendarFeedCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many CalendarFeeds and returns the data saved in the database.
+   * @param {CalendarFeedCreateManyAndReturnArgs} args - Arguments to create many CalendarFeeds.
+   * @example
+   * // Create many CalendarFeeds
+   * const calendarFeed = await prisma.calendarFeed.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many CalendarFeeds and only return the `id`
+   * const calendarFeedWithIdOnly = await prisma.calendarFeed.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends CalendarFeedCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, CalendarFeedCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a CalendarFeed.
+   * @param {CalendarFeedDeleteArgs} args - Arguments to delete one CalendarFeed.
+   * @example
+   * // Delete one CalendarFeed
+   * const CalendarFeed = await prisma.calendarFeed.delete({
+   *   where: {
+   *     // ... filter to delete one CalendarFeed
+   *   }
+   * })
+   * 
+   */
+  delete<T extends CalendarFeedDeleteArgs>(args: Prisma.SelectSubset<T, CalendarFeedDeleteArgs<ExtArgs>>): Prisma.Prisma__CalendarFeedClient<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one CalendarFeed.
+   * @param {CalendarFeedUpdateArgs} args - Arguments to update one CalendarFeed.
+   * @example
+   * // Update one CalendarFeed
+   * const calendarFeed = await prisma.calendarFeed.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends CalendarFeedUpdateArgs>(args: Prisma.SelectSubset<T, CalendarFeedUpdateArgs<ExtArgs>>): Prisma.Prisma__CalendarFeedClient<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more CalendarFeeds.
+   * @param {CalendarFeedDeleteManyArgs} args - Arguments to filter CalendarFeeds to delete.
+   * @example
+   * // Delete a few CalendarFeeds
+   * const { count } = await prisma.calendarFeed.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends CalendarFeedDeleteManyArgs>(args?: Prisma.SelectSubset<T, CalendarFeedDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CalendarFeeds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarFeedUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CalendarFeeds
+   * const calendarFeed = await prisma.calendarFeed.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends CalendarFeedUpdateManyArgs>(args: Prisma.SelectSubset<T, CalendarFeedUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more CalendarFeeds and returns the data updated in the database.
+   * @param {CalendarFeedUpdateManyAndReturnArgs} args - Arguments to update many CalendarFeeds.
+   * @example
+   * // Update many CalendarFeeds
+   * const calendarFeed = await prisma.calendarFeed.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more CalendarFeeds and only return the `id`
+   * const calendarFeedWithIdOnly = await prisma.calendarFeed.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends CalendarFeedUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, CalendarFeedUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one CalendarFeed.
+   * @param {CalendarFeedUpsertArgs} args - Arguments to update or create a CalendarFeed.
+   * @example
+   * // Update or create a CalendarFeed
+   * const calendarFeed = await prisma.calendarFeed.upsert({
+   *   create: {
+   *     // ... data to create a CalendarFeed
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CalendarFeed we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CalendarFeedUpsertArgs>(args: Prisma.SelectSubset<T, CalendarFeedUpsertArgs<ExtArgs>>): Prisma.Prisma__CalendarFeedClient<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of CalendarFeeds.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarFeedCountArgs} args - Arguments to filter CalendarFeeds to count.
+   * @example
+   * // Count the number of CalendarFeeds
+   * const count = await prisma.calendarFeed.count({
+   *   where: {
+   *     // ... the filter for the CalendarFeeds we want to count
+   *   }
+   * })
+  **/
+  count<T extends CalendarFeedCountArgs>(
+    args?: Prisma.Subset<T, CalendarFeedCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], CalendarFeedCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a CalendarFeed.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarFeedAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends CalendarFeedAggregateArgs>(args: Prisma.Subset<T, CalendarFeedAggregateArgs>): Prisma.PrismaPromise<GetCalendarFeedAggregateType<T>>
+
+  /**
+   * Group by CalendarFeed.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CalendarFeedGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends CalendarFeedGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CalendarFeedGroupByArgs['orderBy'] }
+      : { orderBy?: CalendarFeedGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, CalendarFeedGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetCalendarFeedGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the CalendarFeed model
+ */
+readonly fields: CalendarFeedFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CalendarFeed.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CalendarFeedClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  group<T extends Prisma.CalendarFeed$groupArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CalendarFeed$groupArgs<ExtArgs>>): Prisma.Prisma__GroupClient<runtime.Types.Result.GetResult<Prisma.$GroupPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the CalendarFeed model
+ */
+export interface CalendarFeedFieldRefs {
+  readonly id: Prisma.FieldRef<"CalendarFeed", 'Int'>
+  readonly tokenHash: Prisma.FieldRef<"CalendarFeed", 'String'>
+  readonly userId: Prisma.FieldRef<"CalendarFeed", 'Int'>
+  readonly groupId: Prisma.FieldRef<"CalendarFeed", 'Int'>
+  readonly lastUsedAt: Prisma.FieldRef<"CalendarFeed", 'DateTime'>
+  readonly revokedAt: Prisma.FieldRef<"CalendarFeed", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"CalendarFeed", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * CalendarFeed findUnique
+ */
+export type CalendarFeedFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarFeed to fetch.
+   */
+  where: Prisma.CalendarFeedWhereUniqueInput
+}
+
+/**
+ * CalendarFeed findUniqueOrThrow
+ */
+export type CalendarFeedFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarFeed to fetch.
+   */
+  where: Prisma.CalendarFeedWhereUniqueInput
+}
+
+/**
+ * CalendarFeed findFirst
+ */
+export type CalendarFeedFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarFeed to fetch.
+   */
+  where?: Prisma.CalendarFeedWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CalendarFeeds to fetch.
+   */
+  orderBy?: Prisma.CalendarFeedOrderByWithRelationInput | Prisma.CalendarFeedOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CalendarFeeds.
+   */
+  cursor?: Prisma.CalendarFeedWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CalendarFeeds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CalendarFeeds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CalendarFeeds.
+   */
+  distinct?: Prisma.CalendarFeedScalarFieldEnum | Prisma.CalendarFeedScalarFieldEnum[]
+}
+
+/**
+ * CalendarFeed findFirstOrThrow
+ */
+export type CalendarFeedFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarFeed to fetch.
+   */
+  where?: Prisma.CalendarFeedWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CalendarFeeds to fetch.
+   */
+  orderBy?: Prisma.CalendarFeedOrderByWithRelationInput | Prisma.CalendarFeedOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for CalendarFeeds.
+   */
+  cursor?: Prisma.CalendarFeedWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CalendarFeeds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CalendarFeeds.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of CalendarFeeds.
+   */
+  distinct?: Prisma.CalendarFeedScalarFieldEnum | Prisma.CalendarFeedScalarFieldEnum[]
+}
+
+/**
+ * CalendarFeed findMany
+ */
+export type CalendarFeedFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * Filter, which CalendarFeeds to fetch.
+   */
+  where?: Prisma.CalendarFeedWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of CalendarFeeds to fetch.
+   */
+  orderBy?: Prisma.CalendarFeedOrderByWithRelationInput | Prisma.CalendarFeedOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing CalendarFeeds.
+   */
+  cursor?: Prisma.CalendarFeedWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` CalendarFeeds from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` CalendarFeeds.
+   */
+  skip?: number
+  distinct?: Prisma.CalendarFeedScalarFieldEnum | Prisma.CalendarFeedScalarFieldEnum[]
+}
+
+/**
+ * CalendarFeed create
+ */
+export type CalendarFeedCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * The data needed to create a CalendarFeed.
+   */
+  data: Prisma.XOR<Prisma.CalendarFeedCreateInput, Prisma.CalendarFeedUncheckedCreateInput>
+}
+
+/**
+ * CalendarFeed createMany
+ */
+export type CalendarFeedCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many CalendarFeeds.
+   */
+  data: Prisma.CalendarFeedCreateManyInput | Prisma.CalendarFeedCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * CalendarFeed createManyAndReturn
+ */
+export type CalendarFeedCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * The data used to create many CalendarFeeds.
+   */
+  data: Prisma.CalendarFeedCreateManyInput | Prisma.CalendarFeedCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CalendarFeed update
+ */
+export type CalendarFeedUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * The data needed to update a CalendarFeed.
+   */
+  data: Prisma.XOR<Prisma.CalendarFeedUpdateInput, Prisma.CalendarFeedUncheckedUpdateInput>
+  /**
+   * Choose, which CalendarFeed to update.
+   */
+  where: Prisma.CalendarFeedWhereUniqueInput
+}
+
+/**
+ * CalendarFeed updateMany
+ */
+export type CalendarFeedUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update CalendarFeeds.
+   */
+  data: Prisma.XOR<Prisma.CalendarFeedUpdateManyMutationInput, Prisma.CalendarFeedUncheckedUpdateManyInput>
+  /**
+   * Filter which CalendarFeeds to update
+   */
+  where?: Prisma.CalendarFeedWhereInput
+  /**
+   * Limit how many CalendarFeeds to update.
+   */
+  limit?: number
+}
+
+/**
+ * CalendarFeed updateManyAndReturn
+ */
+export type CalendarFeedUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * The data used to update CalendarFeeds.
+   */
+  data: Prisma.XOR<Prisma.CalendarFeedUpdateManyMutationInput, Prisma.CalendarFeedUncheckedUpdateManyInput>
+  /**
+   * Filter which CalendarFeeds to update
+   */
+  where?: Prisma.CalendarFeedWhereInput
+  /**
+   * Limit how many CalendarFeeds to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * CalendarFeed upsert
+ */
+export type CalendarFeedUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * The filter to search for the CalendarFeed to update in case it exists.
+   */
+  where: Prisma.CalendarFeedWhereUniqueInput
+  /**
+   * In case the CalendarFeed found by the `where` argument doesn't exist, create a new CalendarFeed with this data.
+   */
+  create: Prisma.XOR<Prisma.CalendarFeedCreateInput, Prisma.CalendarFeedUncheckedCreateInput>
+  /**
+   * In case the CalendarFeed was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CalendarFeedUpdateInput, Prisma.CalendarFeedUncheckedUpdateInput>
+}
+
+/**
+ * CalendarFeed delete
+ */
+export type CalendarFeedDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  /**
+   * Filter which CalendarFeed to delete.
+   */
+  where: Prisma.CalendarFeedWhereUniqueInput
+}
+
+/**
+ * CalendarFeed deleteMany
+ */
+export type CalendarFeedDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which CalendarFeeds to delete
+   */
+  where?: Prisma.CalendarFeedWhereInput
+  /**
+   * Limit how many CalendarFeeds to delete.
+   */
+  limit?: number
+}
+
+/**
+ * CalendarFeed.group
+ */
+export type CalendarFeed$groupArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Group
+   */
+  select?: Prisma.GroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Group
+   */
+  omit?: Prisma.GroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupInclude<ExtArgs> | null
+  where?: Prisma.GroupWhereInput
+}
+
+/**
+ * CalendarFeed without action
+ */
+export type CalendarFeedDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+}
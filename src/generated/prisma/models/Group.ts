@@ -224,6 +224,9 @@ export type GroupWhereInput = {
   members?: Prisma.GroupMemberListRelationFilter
   actionTokens?: Prisma.ActionTokenListRelationFilter
   groupTasks?: Prisma.TaskListRelationFilter
+  labels?: Prisma.LabelListRelationFilter
+  calendarFeeds?: Prisma.CalendarFeedListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
 }
 
 export type GroupOrderByWithRelationInput = {
@@ -236,6 +239,9 @@ export type GroupOrderByWithRelationInput = {
   members?: Prisma.GroupMemberOrderByRelationAggregateInput
   actionTokens?: Prisma.ActionTokenOrderByRelationAggregateInput
   groupTasks?: Prisma.TaskOrderByRelationAggregateInput
+  labels?: Prisma.LabelOrderByRelationAggregateInput
+  calendarFeeds?: Prisma.CalendarFeedOrderByRelationAggregateInput
+  notifications?: Prisma.NotificationOrderByRelationAggregateInput
 }
 
 export type GroupWhereUniqueInput = Prisma.AtLeast<{
@@ -251,6 +257,9 @@ export type GroupWhereUniqueInput = Prisma.AtLeast<{
   members?: Prisma.GroupMemberListRelationFilter
   actionTokens?: Prisma.ActionTokenListRelationFilter
   groupTasks?: Prisma.TaskListRelationFilter
+  labels?: Prisma.LabelListRelationFilter
+  calendarFeeds?: Prisma.CalendarFeedListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
 }, "id">
 
 export type GroupOrderByWithAggregationInput = {
@@ -285,6 +294,9 @@ export type GroupCreateInput = {
   members?: Prisma.GroupMemberCreateNestedManyWithoutGroupInput
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutGroupInput
   groupTasks?: Prisma.TaskCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutGroupInput
 }
 
 export type GroupUncheckedCreateInput = {
@@ -296,6 +308,9 @@ export type GroupUncheckedCreateInput = {
   members?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutGroupInput
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutGroupInput
   groupTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelUncheckedCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutGroupInput
 }
 
 export type GroupUpdateInput = {
@@ -306,6 +321,9 @@ export type GroupUpdateInput = {
   members?: Prisma.GroupMemberUpdateManyWithoutGroupNestedInput
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutGroupNestedInput
   groupTasks?: Prisma.TaskUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupUncheckedUpdateInput = {
@@ -317,6 +335,9 @@ export type GroupUncheckedUpdateInput = {
   members?: Prisma.GroupMemberUncheckedUpdateManyWithoutGroupNestedInput
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutGroupNestedInput
   groupTasks?: Prisma.TaskUncheckedUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUncheckedUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupCreateManyInput = {
@@ -411,6 +432,22 @@ export type GroupUpdateOneWithoutActionTokensNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.GroupUpdateToOneWithWhereWithoutActionTokensInput, Prisma.GroupUpdateWithoutActionTokensInput>, Prisma.GroupUncheckedUpdateWithoutActionTokensInput>
 }
 
+export type GroupCreateNestedOneWithoutCalendarFeedsInput = {
+  create?: Prisma.XOR<Prisma.GroupCreateWithoutCalendarFeedsInput, Prisma.GroupUncheckedCreateWithoutCalendarFeedsInput>
+  connectOrCreate?: Prisma.GroupCreateOrConnectWithoutCalendarFeedsInput
+  connect?: Prisma.GroupWhereUniqueInput
+}
+
+export type GroupUpdateOneWithoutCalendarFeedsNestedInput = {
+  create?: Prisma.XOR<Prisma.GroupCreateWithoutCalendarFeedsInput, Prisma.GroupUncheckedCreateWithoutCalendarFeedsInput>
+  connectOrCreate?: Prisma.GroupCreateOrConnectWithoutCalendarFeedsInput
+  upsert?: Prisma.GroupUpsertWithoutCalendarFeedsInput
+  disconnect?: Prisma.GroupWhereInput | boolean
+  delete?: Prisma.GroupWhereInput | boolean
+  connect?: Prisma.GroupWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.GroupUpdateToOneWithWhereWithoutCalendarFeedsInput, Prisma.GroupUpdateWithoutCalendarFeedsInput>, Prisma.GroupUncheckedUpdateWithoutCalendarFeedsInput>
+}
+
 export type GroupCreateNestedOneWithoutMembersInput = {
   create?: Prisma.XOR<Prisma.GroupCreateWithoutMembersInput, Prisma.GroupUncheckedCreateWithoutMembersInput>
   connectOrCreate?: Prisma.GroupCreateOrConnectWithoutMembersInput
@@ -425,6 +462,22 @@ export type GroupUpdateOneRequiredWithoutMembersNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.GroupUpdateToOneWithWhereWithoutMembersInput, Prisma.GroupUpdateWithoutMembersInput>, Prisma.GroupUncheckedUpdateWithoutMembersInput>
 }
 
+export type GroupCreateNestedOneWithoutNotificationsInput = {
+  create?: Prisma.XOR<Prisma.GroupCreateWithoutNotificationsInput, Prisma.GroupUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.GroupCreateOrConnectWithoutNotificationsInput
+  connect?: Prisma.GroupWhereUniqueInput
+}
+
+export type GroupUpdateOneWithoutNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.GroupCreateWithoutNotificationsInput, Prisma.GroupUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.GroupCreateOrConnectWithoutNotificationsInput
+  upsert?: Prisma.GroupUpsertWithoutNotificationsInput
+  disconnect?: Prisma.GroupWhereInput | boolean
+  delete?: Prisma.GroupWhereInput | boolean
+  connect?: Prisma.GroupWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.GroupUpdateToOneWithWhereWithoutNotificationsInput, Prisma.GroupUpdateWithoutNotificationsInput>, Prisma.GroupUncheckedUpdateWithoutNotificationsInput>
+}
+
 export type GroupCreateNestedOneWithoutGroupTasksInput = {
   create?: Prisma.XOR<Prisma.GroupCreateWithoutGroupTasksInput, Prisma.GroupUncheckedCreateWithoutGroupTasksInput>
   connectOrCreate?: Prisma.GroupCreateOrConnectWithoutGroupTasksInput
@@ -441,6 +494,22 @@ export type GroupUpdateOneWithoutGroupTasksNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.GroupUpdateToOneWithWhereWithoutGroupTasksInput, Prisma.GroupUpdateWithoutGroupTasksInput>, Prisma.GroupUncheckedUpdateWithoutGroupTasksInput>
 }
 
+export type GroupCreateNestedOneWithoutLabelsInput = {
+  create?: Prisma.XOR<Prisma.GroupCreateWithoutLabelsInput, Prisma.GroupUncheckedCreateWithoutLabelsInput>
+  connectOrCreate?: Prisma.GroupCreateOrConnectWithoutLabelsInput
+  connect?: Prisma.GroupWhereUniqueInput
+}
+
+export type GroupUpdateOneWithoutLabelsNestedInput = {
+  create?: Prisma.XOR<Prisma.GroupCreateWithoutLabelsInput, Prisma.GroupUncheckedCreateWithoutLabelsInput>
+  connectOrCreate?: Prisma.GroupCreateOrConnectWithoutLabelsInput
+  upsert?: Prisma.GroupUpsertWithoutLabelsInput
+  disconnect?: Prisma.GroupWhereInput | boolean
+  delete?: Prisma.GroupWhereInput | boolean
+  connect?: Prisma.GroupWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.GroupUpdateToOneWithWhereWithoutLabelsInput, Prisma.GroupUpdateWithoutLabelsInput>, Prisma.GroupUncheckedUpdateWithoutLabelsInput>
+}
+
 export type GroupCreateNestedManyWithoutOwnerInput = {
   create?: Prisma.XOR<Prisma.GroupCreateWithoutOwnerInput, Prisma.GroupUncheckedCreateWithoutOwnerInput> | Prisma.GroupCreateWithoutOwnerInput[] | Prisma.GroupUncheckedCreateWithoutOwnerInput[]
   connectOrCreate?: Prisma.GroupCreateOrConnectWithoutOwnerInput | Prisma.GroupCreateOrConnectWithoutOwnerInput[]
@@ -490,6 +559,9 @@ export type GroupCreateWithoutActionTokensInput = {
   owner: Prisma.UserCreateNestedOneWithoutGroupInput
   members?: Prisma.GroupMemberCreateNestedManyWithoutGroupInput
   groupTasks?: Prisma.TaskCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutGroupInput
 }
 
 export type GroupUncheckedCreateWithoutActionTokensInput = {
@@ -500,6 +572,9 @@ export type GroupUncheckedCreateWithoutActionTokensInput = {
   updatedAt?: Date | string
   members?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutGroupInput
   groupTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelUncheckedCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutGroupInput
 }
 
 export type GroupCreateOrConnectWithoutActionTokensInput = {
@@ -525,6 +600,9 @@ export type GroupUpdateWithoutActionTokensInput = {
   owner?: Prisma.UserUpdateOneRequiredWithoutGroupNestedInput
   members?: Prisma.GroupMemberUpdateManyWithoutGroupNestedInput
   groupTasks?: Prisma.TaskUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupUncheckedUpdateWithoutActionTokensInput = {
@@ -535,6 +613,75 @@ export type GroupUncheckedUpdateWithoutActionTokensInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   members?: Prisma.GroupMemberUncheckedUpdateManyWithoutGroupNestedInput
   groupTasks?: Prisma.TaskUncheckedUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUncheckedUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutGroupNestedInput
+}
+
+export type GroupCreateWithoutCalendarFeedsInput = {
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  owner: Prisma.UserCreateNestedOneWithoutGroupInput
+  members?: Prisma.GroupMemberCreateNestedManyWithoutGroupInput
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutGroupInput
+  groupTasks?: Prisma.TaskCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutGroupInput
+}
+
+export type GroupUncheckedCreateWithoutCalendarFeedsInput = {
+  id?: number
+  name: string
+  ownerId: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutGroupInput
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutGroupInput
+  groupTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelUncheckedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutGroupInput
+}
+
+export type GroupCreateOrConnectWithoutCalendarFeedsInput = {
+  where: Prisma.GroupWhereUniqueInput
+  create: Prisma.XOR<Prisma.GroupCreateWithoutCalendarFeedsInput, Prisma.GroupUncheckedCreateWithoutCalendarFeedsInput>
+}
+
+export type GroupUpsertWithoutCalendarFeedsInput = {
+  update: Prisma.XOR<Prisma.GroupUpdateWithoutCalendarFeedsInput, Prisma.GroupUncheckedUpdateWithoutCalendarFeedsInput>
+  create: Prisma.XOR<Prisma.GroupCreateWithoutCalendarFeedsInput, Prisma.GroupUncheckedCreateWithoutCalendarFeedsInput>
+  where?: Prisma.GroupWhereInput
+}
+
+export type GroupUpdateToOneWithWhereWithoutCalendarFeedsInput = {
+  where?: Prisma.GroupWhereInput
+  data: Prisma.XOR<Prisma.GroupUpdateWithoutCalendarFeedsInput, Prisma.GroupUncheckedUpdateWithoutCalendarFeedsInput>
+}
+
+export type GroupUpdateWithoutCalendarFeedsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  owner?: Prisma.UserUpdateOneRequiredWithoutGroupNestedInput
+  members?: Prisma.GroupMemberUpdateManyWithoutGroupNestedInput
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutGroupNestedInput
+  groupTasks?: Prisma.TaskUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutGroupNestedInput
+}
+
+export type GroupUncheckedUpdateWithoutCalendarFeedsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.GroupMemberUncheckedUpdateManyWithoutGroupNestedInput
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutGroupNestedInput
+  groupTasks?: Prisma.TaskUncheckedUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUncheckedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupCreateWithoutMembersInput = {
@@ -544,6 +691,9 @@ export type GroupCreateWithoutMembersInput = {
   owner: Prisma.UserCreateNestedOneWithoutGroupInput
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutGroupInput
   groupTasks?: Prisma.TaskCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutGroupInput
 }
 
 export type GroupUncheckedCreateWithoutMembersInput = {
@@ -554,6 +704,9 @@ export type GroupUncheckedCreateWithoutMembersInput = {
   updatedAt?: Date | string
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutGroupInput
   groupTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelUncheckedCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutGroupInput
 }
 
 export type GroupCreateOrConnectWithoutMembersInput = {
@@ -579,6 +732,9 @@ export type GroupUpdateWithoutMembersInput = {
   owner?: Prisma.UserUpdateOneRequiredWithoutGroupNestedInput
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutGroupNestedInput
   groupTasks?: Prisma.TaskUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupUncheckedUpdateWithoutMembersInput = {
@@ -589,6 +745,75 @@ export type GroupUncheckedUpdateWithoutMembersInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutGroupNestedInput
   groupTasks?: Prisma.TaskUncheckedUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUncheckedUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutGroupNestedInput
+}
+
+export type GroupCreateWithoutNotificationsInput = {
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  owner: Prisma.UserCreateNestedOneWithoutGroupInput
+  members?: Prisma.GroupMemberCreateNestedManyWithoutGroupInput
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutGroupInput
+  groupTasks?: Prisma.TaskCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutGroupInput
+}
+
+export type GroupUncheckedCreateWithoutNotificationsInput = {
+  id?: number
+  name: string
+  ownerId: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutGroupInput
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutGroupInput
+  groupTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelUncheckedCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutGroupInput
+}
+
+export type GroupCreateOrConnectWithoutNotificationsInput = {
+  where: Prisma.GroupWhereUniqueInput
+  create: Prisma.XOR<Prisma.GroupCreateWithoutNotificationsInput, Prisma.GroupUncheckedCreateWithoutNotificationsInput>
+}
+
+export type GroupUpsertWithoutNotificationsInput = {
+  update: Prisma.XOR<Prisma.GroupUpdateWithoutNotificationsInput, Prisma.GroupUncheckedUpdateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.GroupCreateWithoutNotificationsInput, Prisma.GroupUncheckedCreateWithoutNotificationsInput>
+  where?: Prisma.GroupWhereInput
+}
+
+export type GroupUpdateToOneWithWhereWithoutNotificationsInput = {
+  where?: Prisma.GroupWhereInput
+  data: Prisma.XOR<Prisma.GroupUpdateWithoutNotificationsInput, Prisma.GroupUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type GroupUpdateWithoutNotificationsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  owner?: Prisma.UserUpdateOneRequiredWithoutGroupNestedInput
+  members?: Prisma.GroupMemberUpdateManyWithoutGroupNestedInput
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutGroupNestedInput
+  groupTasks?: Prisma.TaskUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutGroupNestedInput
+}
+
+export type GroupUncheckedUpdateWithoutNotificationsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.GroupMemberUncheckedUpdateManyWithoutGroupNestedInput
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutGroupNestedInput
+  groupTasks?: Prisma.TaskUncheckedUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUncheckedUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupCreateWithoutGroupTasksInput = {
@@ -598,6 +823,9 @@ export type GroupCreateWithoutGroupTasksInput = {
   owner: Prisma.UserCreateNestedOneWithoutGroupInput
   members?: Prisma.GroupMemberCreateNestedManyWithoutGroupInput
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutGroupInput
 }
 
 export type GroupUncheckedCreateWithoutGroupTasksInput = {
@@ -608,6 +836,9 @@ export type GroupUncheckedCreateWithoutGroupTasksInput = {
   updatedAt?: Date | string
   members?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutGroupInput
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelUncheckedCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutGroupInput
 }
 
 export type GroupCreateOrConnectWithoutGroupTasksInput = {
@@ -633,6 +864,9 @@ export type GroupUpdateWithoutGroupTasksInput = {
   owner?: Prisma.UserUpdateOneRequiredWithoutGroupNestedInput
   members?: Prisma.GroupMemberUpdateManyWithoutGroupNestedInput
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupUncheckedUpdateWithoutGroupTasksInput = {
@@ -643,6 +877,75 @@ export type GroupUncheckedUpdateWithoutGroupTasksInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   members?: Prisma.GroupMemberUncheckedUpdateManyWithoutGroupNestedInput
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUncheckedUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutGroupNestedInput
+}
+
+export type GroupCreateWithoutLabelsInput = {
+  name: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  owner: Prisma.UserCreateNestedOneWithoutGroupInput
+  members?: Prisma.GroupMemberCreateNestedManyWithoutGroupInput
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutGroupInput
+  groupTasks?: Prisma.TaskCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutGroupInput
+}
+
+export type GroupUncheckedCreateWithoutLabelsInput = {
+  id?: number
+  name: string
+  ownerId: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  members?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutGroupInput
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutGroupInput
+  groupTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutGroupInput
+}
+
+export type GroupCreateOrConnectWithoutLabelsInput = {
+  where: Prisma.GroupWhereUniqueInput
+  create: Prisma.XOR<Prisma.GroupCreateWithoutLabelsInput, Prisma.GroupUncheckedCreateWithoutLabelsInput>
+}
+
+export type GroupUpsertWithoutLabelsInput = {
+  update: Prisma.XOR<Prisma.GroupUpdateWithoutLabelsInput, Prisma.GroupUncheckedUpdateWithoutLabelsInput>
+  create: Prisma.XOR<Prisma.GroupCreateWithoutLabelsInput, Prisma.GroupUncheckedCreateWithoutLabelsInput>
+  where?: Prisma.GroupWhereInput
+}
+
+export type GroupUpdateToOneWithWhereWithoutLabelsInput = {
+  where?: Prisma.GroupWhereInput
+  data: Prisma.XOR<Prisma.GroupUpdateWithoutLabelsInput, Prisma.GroupUncheckedUpdateWithoutLabelsInput>
+}
+
+export type GroupUpdateWithoutLabelsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  owner?: Prisma.UserUpdateOneRequiredWithoutGroupNestedInput
+  members?: Prisma.GroupMemberUpdateManyWithoutGroupNestedInput
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutGroupNestedInput
+  groupTasks?: Prisma.TaskUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutGroupNestedInput
+}
+
+export type GroupUncheckedUpdateWithoutLabelsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  members?: Prisma.GroupMemberUncheckedUpdateManyWithoutGroupNestedInput
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutGroupNestedInput
+  groupTasks?: Prisma.TaskUncheckedUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupCreateWithoutOwnerInput = {
@@ -652,6 +955,9 @@ export type GroupCreateWithoutOwnerInput = {
   members?: Prisma.GroupMemberCreateNestedManyWithoutGroupInput
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutGroupInput
   groupTasks?: Prisma.TaskCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutGroupInput
 }
 
 export type GroupUncheckedCreateWithoutOwnerInput = {
@@ -662,6 +968,9 @@ export type GroupUncheckedCreateWithoutOwnerInput = {
   members?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutGroupInput
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutGroupInput
   groupTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutGroupInput
+  labels?: Prisma.LabelUncheckedCreateNestedManyWithoutGroupInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutGroupInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutGroupInput
 }
 
 export type GroupCreateOrConnectWithoutOwnerInput = {
@@ -715,6 +1024,9 @@ export type GroupUpdateWithoutOwnerInput = {
   members?: Prisma.GroupMemberUpdateManyWithoutGroupNestedInput
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutGroupNestedInput
   groupTasks?: Prisma.TaskUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupUncheckedUpdateWithoutOwnerInput = {
@@ -725,6 +1037,9 @@ export type GroupUncheckedUpdateWithoutOwnerInput = {
   members?: Prisma.GroupMemberUncheckedUpdateManyWithoutGroupNestedInput
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutGroupNestedInput
   groupTasks?: Prisma.TaskUncheckedUpdateManyWithoutGroupNestedInput
+  labels?: Prisma.LabelUncheckedUpdateManyWithoutGroupNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutGroupNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutGroupNestedInput
 }
 
 export type GroupUncheckedUpdateManyWithoutOwnerInput = {
@@ -743,12 +1058,18 @@ export type GroupCountOutputType = {
   members: number
   actionTokens: number
   groupTasks: number
+  labels: number
+  calendarFeeds: number
+  notifications: number
 }
 
 export type GroupCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   members?: boolean | GroupCountOutputTypeCountMembersArgs
   actionTokens?: boolean | GroupCountOutputTypeCountActionTokensArgs
   groupTasks?: boolean | GroupCountOutputTypeCountGroupTasksArgs
+  labels?: boolean | GroupCountOutputTypeCountLabelsArgs
+  calendarFeeds?: boolean | GroupCountOutputTypeCountCalendarFeedsArgs
+  notifications?: boolean | GroupCountOutputTypeCountNotificationsArgs
 }
 
 /**
@@ -782,6 +1103,27 @@ export type GroupCountOutputTypeCountGroupTasksArgs<ExtArgs extends runtime.Type
   where?: Prisma.TaskWhereInput
 }
 
+/**
+ * GroupCountOutputType without action
+ */
+export type GroupCountOutputTypeCountLabelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LabelWhereInput
+}
+
+/**
+ * GroupCountOutputType without action
+ */
+export type GroupCountOutputTypeCountCalendarFeedsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CalendarFeedWhereInput
+}
+
+/**
+ * GroupCountOutputType without action
+ */
+export type GroupCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
+}
+
 
 export type GroupSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -793,6 +1135,9 @@ export type GroupSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   members?: boolean | Prisma.Group$membersArgs<ExtArgs>
   actionTokens?: boolean | Prisma.Group$actionTokensArgs<ExtArgs>
   groupTasks?: boolean | Prisma.Group$groupTasksArgs<ExtArgs>
+  labels?: boolean | Prisma.Group$labelsArgs<ExtArgs>
+  calendarFeeds?: boolean | Prisma.Group$calendarFeedsArgs<ExtArgs>
+  notifications?: boolean | Prisma.Group$notificationsArgs<ExtArgs>
   _count?: boolean | Prisma.GroupCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["group"]>
 
@@ -828,6 +1173,9 @@ export type GroupInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   members?: boolean | Prisma.Group$membersArgs<ExtArgs>
   actionTokens?: boolean | Prisma.Group$actionTokensArgs<ExtArgs>
   groupTasks?: boolean | Prisma.Group$groupTasksArgs<ExtArgs>
+  labels?: boolean | Prisma.Group$labelsArgs<ExtArgs>
+  calendarFeeds?: boolean | Prisma.Group$calendarFeedsArgs<ExtArgs>
+  notifications?: boolean | Prisma.Group$notificationsArgs<ExtArgs>
   _count?: boolean | Prisma.GroupCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type GroupIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -844,6 +1192,9 @@ export type $GroupPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     members: Prisma.$GroupMemberPayload<ExtArgs>[]
     actionTokens: Prisma.$ActionTokenPayload<ExtArgs>[]
     groupTasks: Prisma.$TaskPayload<ExtArgs>[]
+    labels: Prisma.$LabelPayload<ExtArgs>[]
+    calendarFeeds: Prisma.$CalendarFeedPayload<ExtArgs>[]
+    notifications: Prisma.$NotificationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -1249,6 +1600,9 @@ export interface Prisma__GroupClient<T, Null = never, ExtArgs extends runtime.Ty
   members<T extends Prisma.Group$membersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Group$membersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GroupMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   actionTokens<T extends Prisma.Group$actionTokensArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Group$actionTokensArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ActionTokenPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   groupTasks<T extends Prisma.Group$groupTasksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Group$groupTasksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  labels<T extends Prisma.Group$labelsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Group$labelsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  calendarFeeds<T extends Prisma.Group$calendarFeedsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Group$calendarFeedsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notifications<T extends Prisma.Group$notificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Group$notificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1750,6 +2104,78 @@ export type Group$groupTasksArgs<ExtArgs extends runtime.Types.Extensions.Intern
   distinct?: Prisma.TaskScalarFieldEnum | Prisma.TaskScalarFieldEnum[]
 }
 
+/**
+ * Group.labels
+ */
+export type Group$labelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  where?: Prisma.LabelWhereInput
+  orderBy?: Prisma.LabelOrderByWithRelationInput | Prisma.LabelOrderByWithRelationInput[]
+  cursor?: Prisma.LabelWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.LabelScalarFieldEnum | Prisma.LabelScalarFieldEnum[]
+}
+
+/**
+ * Group.calendarFeeds
+ */
+export type Group$calendarFeedsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  where?: Prisma.CalendarFeedWhereInput
+  orderBy?: Prisma.CalendarFeedOrderByWithRelationInput | Prisma.CalendarFeedOrderByWithRelationInput[]
+  cursor?: Prisma.CalendarFeedWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CalendarFeedScalarFieldEnum | Prisma.CalendarFeedScalarFieldEnum[]
+}
+
+/**
+ * Group.notifications
+ */
+export type Group$notificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  where?: Prisma.NotificationWhereInput
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  cursor?: Prisma.NotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
 /**
  * Group without action
  */
@@ -0,0 +1,1116 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `JobLease` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model JobLease
+ * 
+ */
+export type JobLeaseModel = runtime.Types.Result.DefaultSelection<Prisma.$JobLeasePayload>
+
+export type AggregateJobLease = {
+  _count: JobLeaseCountAggregateOutputType | null
+  _min: JobLeaseMinAggregateOutputType | null
+  _max: JobLeaseMaxAggregateOutputType | null
+}
+
+export type JobLeaseMinAggregateOutputType = {
+  name: string | null
+  holder: string | null
+  expiresAt: Date | null
+  updatedAt: Date | null
+}
+
+export type JobLeaseMaxAggregateOutputType = {
+  name: string | null
+  holder: string | null
+  expiresAt: Date | null
+  updatedAt: Date | null
+}
+
+export type JobLeaseCountAggregateOutputType = {
+  name: number
+  holder: number
+  expiresAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type JobLeaseMinAggregateInputType = {
+  name?: true
+  holder?: true
+  expiresAt?: true
+  updatedAt?: true
+}
+
+export type JobLeaseMaxAggregateInputType = {
+  name?: true
+  holder?: true
+  expiresAt?: true
+  updatedAt?: true
+}
+
+export type JobLeaseCountAggregateInputType = {
+  name?: true
+  holder?: true
+  expiresAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type JobLeaseAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which JobLease to aggregate.
+   */
+  where?: Prisma.JobLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of JobLeases to fetch.
+   */
+  orderBy?: Prisma.JobLeaseOrderByWithRelationInput | Prisma.JobLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.JobLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` JobLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` JobLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned JobLeases
+  **/
+  _count?: true | JobLeaseCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: JobLeaseMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: JobLeaseMaxAggregateInputType
+}
+
+export type GetJobLeaseAggregateType<T extends JobLeaseAggregateArgs> = {
+      [P in keyof T & keyof AggregateJobLease]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateJobLease[P]>
+    : Prisma.GetScalarType<T[P], AggregateJobLease[P]>
+}
+
+
+
+
+export type JobLeaseGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.JobLeaseWhereInput
+  orderBy?: Prisma.JobLeaseOrderByWithAggregationInput | Prisma.JobLeaseOrderByWithAggregationInput[]
+  by: Prisma.JobLeaseScalarFieldEnum[] | Prisma.JobLeaseScalarFieldEnum
+  having?: Prisma.JobLeaseScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: JobLeaseCountAggregateInputType | true
+  _min?: JobLeaseMinAggregateInputType
+  _max?: JobLeaseMaxAggregateInputType
+}
+
+export type JobLeaseGroupByOutputType = {
+  name: string
+  holder: string
+  expiresAt: Date
+  updatedAt: Date
+  _count: JobLeaseCountAggregateOutputType | null
+  _min: JobLeaseMinAggregateOutputType | null
+  _max: JobLeaseMaxAggregateOutputType | null
+}
+
+type GetJobLeaseGroupByPayload<T extends JobLeaseGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<JobLeaseGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof JobLeaseGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], JobLeaseGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], JobLeaseGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type JobLeaseWhereInput = {
+  AND?: Prisma.JobLeaseWhereInput | Prisma.JobLeaseWhereInput[]
+  OR?: Prisma.JobLeaseWhereInput[]
+  NOT?: Prisma.JobLeaseWhereInput | Prisma.JobLeaseWhereInput[]
+  name?: Prisma.StringFilter<"JobLease"> | string
+  holder?: Prisma.StringFilter<"JobLease"> | string
+  expiresAt?: Prisma.DateTimeFilter<"JobLease"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"JobLease"> | Date | string
+}
+
+export type JobLeaseOrderByWithRelationInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type JobLeaseWhereUniqueInput = Prisma.AtLeast<{
+  name?: string
+  AND?: Prisma.JobLeaseWhereInput | Prisma.JobLeaseWhereInput[]
+  OR?: Prisma.JobLeaseWhereInput[]
+  NOT?: Prisma.JobLeaseWhereInput | Prisma.JobLeaseWhereInput[]
+  holder?: Prisma.StringFilter<"JobLease"> | string
+  expiresAt?: Prisma.DateTimeFilter<"JobLease"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"JobLease"> | Date | string
+}, "name">
+
+export type JobLeaseOrderByWithAggregationInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.JobLeaseCountOrderByAggregateInput
+  _max?: Prisma.JobLeaseMaxOrderByAggregateInput
+  _min?: Prisma.JobLeaseMinOrderByAggregateInput
+}
+
+export type JobLeaseScalarWhereWithAggregatesInput = {
+  AND?: Prisma.JobLeaseScalarWhereWithAggregatesInput | Prisma.JobLeaseScalarWhereWithAggregatesInput[]
+  OR?: Prisma.JobLeaseScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.JobLeaseScalarWhereWithAggregatesInput | Prisma.JobLeaseScalarWhereWithAggregatesInput[]
+  name?: Prisma.StringWithAggregatesFilter<"JobLease"> | string
+  holder?: Prisma.StringWithAggregatesFilter<"JobLease"> | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"JobLease"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"JobLease"> | Date | string
+}
+
+export type JobLeaseCreateInput = {
+  name: string
+  holder: string
+  expiresAt: Date | string
+  updatedAt?: Date | string
+}
+
+export type JobLeaseUncheckedCreateInput = {
+  name: string
+  holder: string
+  expiresAt: Date | string
+  updatedAt?: Date | string
+}
+
+export type JobLeaseUpdateInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  holder?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type JobLeaseUncheckedUpdateInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  holder?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type JobLeaseCreateManyInput = {
+  name: string
+  holder: string
+  expiresAt: Date | string
+  updatedAt?: Date | string
+}
+
+export type JobLeaseUpdateManyMutationInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  holder?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type JobLeaseUncheckedUpdateManyInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  holder?: Prisma.StringFieldUpdateOperationsInput | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type JobLeaseCountOrderByAggregateInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type JobLeaseMaxOrderByAggregateInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type JobLeaseMinOrderByAggregateInput = {
+  name?: Prisma.SortOrder
+  holder?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+
+
+export type JobLeaseSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  name?: boolean
+  holder?: boolean
+  expiresAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["jobLease"]>
+
+export type JobLeaseSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  name?: boolean
+  holder?: boolean
+  expiresAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["jobLease"]>
+
+export type JobLeaseSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  name?: boolean
+  holder?: boolean
+  expiresAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["jobLease"]>
+
+export type JobLeaseSelectScalar = {
+  name?: boolean
+  holder?: boolean
+  expiresAt?: boolean
+  updatedAt?: boolean
+}
+
+export type JobLeaseOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"name" | "holder" | "expiresAt" | "updatedAt", ExtArgs["result"]["jobLease"]>
+
+export type $JobLeasePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "JobLease"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    name: string
+    holder: string
+    expiresAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["jobLease"]>
+  composites: {}
+}
+
+export type JobLeaseGetPayload<S extends boolean | null | undefined | JobLeaseDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$JobLeasePayload, S>
+
+export type JobLeaseCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<JobLeaseFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: JobLeaseCountAggregateInputType | true
+  }
+
+export interface JobLeaseDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['JobLease'], meta: { name: 'JobLease' } }
+  /**
+   * Find zero or one JobLease that matches the filter.
+   * @param {JobLeaseFindUniqueArgs} args - Arguments to find a JobLease
+   * @example
+   * // Get one JobLease
+   * const jobLease = await prisma.jobLease.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends JobLeaseFindUniqueArgs>(args: Prisma.SelectSubset<T, JobLeaseFindUniqueArgs<ExtArgs>>): Prisma.Prisma__JobLeaseClient<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one JobLease that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {JobLeaseFindUniqueOrThrowArgs} args - Arguments to find a JobLease
+   * @example
+   * // Get one JobLease
+   * const jobLease = await prisma.jobLease.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends JobLeaseFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, JobLeaseFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__JobLeaseClient<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first JobLease that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {JobLeaseFindFirstArgs} args - Arguments to find a JobLease
+   * @example
+   * // Get one JobLease
+   * const jobLease = await prisma.jobLease.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends JobLeaseFindFirstArgs>(args?: Prisma.SelectSubset<T, JobLeaseFindFirstArgs<ExtArgs>>): Prisma.Prisma__JobLeaseClient<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first JobLease that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {JobLeaseFindFirstOrThrowArgs} args - Arguments to find a JobLease
+   * @example
+   * // Get one JobLease
+   * const jobLease = await prisma.jobLease.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends JobLeaseFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, JobLeaseFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__JobLeaseClient<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more JobLeases that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {JobLeaseFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all JobLeases
+   * const jobLeases = await prisma.jobLease.findMany()
+   * 
+   * // Get first 10 JobLeases
+   * const jobLeases = await prisma.jobLease.findMany({ take: 10 })
+   * 
+   * // Only select the `name`
+   * const jobLeaseWithNameOnly = await prisma.jobLease.findMany({ select: { name: true } })
+   * 
+   */
+  findMany<T extends JobLeaseFindManyArgs>(args?: Prisma.SelectSubset<T, JobLeaseFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a JobLease.
+   * @param {JobLeaseCreateArgs} args - Arguments to create a JobLease.
+   * @example
+   * // Create one JobLease
+   * const JobLease = await prisma.jobLease.create({
+   *   data: {
+   *     // ... data to create a JobLease
+   *   }
+   * })
+   * 
+   */
+  create<T extends JobLeaseCreateArgs>(args: Prisma.SelectSubset<T, JobLeaseCreateArgs<ExtArgs>>): Prisma.Prisma__JobLeaseClient<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many JobLeases.
+   * @param {JobLeaseCreateManyArgs} args - Arguments to create many JobLeases.
+   * @example
+   * // Create many JobLeases
+   * const jobLease = await prisma.jobLease.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends JobLeaseCreateManyArgs>(args?: Prisma.SelectSubset<T, JobLeaseCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many JobLeases and returns the data saved in the database.
+   * @param {JobLeaseCreateManyAndReturnArgs} args - Arguments to create many JobLeases.
+   * @example
+   * // Create many JobLeases
+   * const jobLease = await prisma.jobLease.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many JobLeases and only return the `name`
+   * const jobLeaseWithNameOnly = await prisma.jobLease.createManyAndReturn({
+   *   select: { name: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends JobLeaseCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, JobLeaseCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a JobLease.
+   * @param {JobLeaseDeleteArgs} args - Arguments to delete one JobLease.
+   * @example
+   * // Delete one JobLease
+   * const JobLease = await prisma.jobLease.delete({
+   *   where: {
+   *     // ... filter to delete one JobLease
+   *   }
+   * })
+   * 
+   */
+  delete<T extends JobLeaseDeleteArgs>(args: Prisma.SelectSubset<T, JobLeaseDeleteArgs<ExtArgs>>): Prisma.Prisma__JobLeaseClient<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one JobLease.
+   * @param {JobLeaseUpdateArgs} args - Arguments to update one JobLease.
+   * @example
+   * // Update one JobLease
+   * const jobLease = await prisma.jobLease.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends JobLeaseUpdateArgs>(args: Prisma.SelectSubset<T, JobLeaseUpdateArgs<ExtArgs>>): Prisma.Prisma__JobLeaseClient<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more JobLeases.
+   * @param {JobLeaseDeleteManyArgs} args - Arguments to filter JobLeases to delete.
+   * @example
+   * // Delete a few JobLeases
+   * const { count } = await prisma.jobLease.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends JobLeaseDeleteManyArgs>(args?: Prisma.SelectSubset<T, JobLeaseDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more JobLeases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {JobLeaseUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many JobLeases
+   * const jobLease = await prisma.jobLease.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends JobLeaseUpdateManyArgs>(args: Prisma.SelectSubset<T, JobLeaseUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more JobLeases and returns the data updated in the database.
+   * @param {JobLeaseUpdateManyAndReturnArgs} args - Arguments to update many JobLeases.
+   * @example
+   * // Update many JobLeases
+   * const jobLease = await prisma.jobLease.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more JobLeases and only return the `name`
+   * const jobLeaseWithNameOnly = await prisma.jobLease.updateManyAndReturn({
+   *   select: { name: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends JobLeaseUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, JobLeaseUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one JobLease.
+   * @param {JobLeaseUpsertArgs} args - Arguments to update or create a JobLease.
+   * @example
+   * // Update or create a JobLease
+   * const jobLease = await prisma.jobLease.upsert({
+   *   create: {
+   *     // ... data to create a JobLease
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the JobLease we want to update
+   *   }
+   * })
+   */
+  upsert<T extends JobLeaseUpsertArgs>(args: Prisma.SelectSubset<T, JobLeaseUpsertArgs<ExtArgs>>): Prisma.Prisma__JobLeaseClient<runtime.Types.Result.GetResult<Prisma.$JobLeasePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of JobLeases.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {JobLeaseCountArgs} args - Arguments to filter JobLeases to count.
+   * @example
+   * // Count the number of JobLeases
+   * const count = await prisma.jobLease.count({
+   *   where: {
+   *     // ... the filter for the JobLeases we want to count
+   *   }
+   * })
+  **/
+  count<T extends JobLeaseCountArgs>(
+    args?: Prisma.Subset<T, JobLeaseCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], JobLeaseCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a JobLease.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {JobLeaseAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends JobLeaseAggregateArgs>(args: Prisma.Subset<T, JobLeaseAggregateArgs>): Prisma.PrismaPromise<GetJobLeaseAggregateType<T>>
+
+  /**
+   * Group by JobLease.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {JobLeaseGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends JobLeaseGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: JobLeaseGroupByArgs['orderBy'] }
+      : { orderBy?: JobLeaseGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, JobLeaseGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetJobLeaseGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the JobLease model
+ */
+readonly fields: JobLeaseFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for JobLease.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__JobLeaseClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the JobLease model
+ */
+export interface JobLeaseFieldRefs {
+  readonly name: Prisma.FieldRef<"JobLease", 'String'>
+  readonly holder: Prisma.FieldRef<"JobLease", 'String'>
+  readonly expiresAt: Prisma.FieldRef<"JobLease", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"JobLease", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * JobLease findUnique
+ */
+export type JobLeaseFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which JobLease to fetch.
+   */
+  where: Prisma.JobLeaseWhereUniqueInput
+}
+
+/**
+ * JobLease findUniqueOrThrow
+ */
+export type JobLeaseFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which JobLease to fetch.
+   */
+  where: Prisma.JobLeaseWhereUniqueInput
+}
+
+/**
+ * JobLease findFirst
+ */
+export type JobLeaseFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which JobLease to fetch.
+   */
+  where?: Prisma.JobLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of JobLeases to fetch.
+   */
+  orderBy?: Prisma.JobLeaseOrderByWithRelationInput | Prisma.JobLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for JobLeases.
+   */
+  cursor?: Prisma.JobLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` JobLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` JobLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of JobLeases.
+   */
+  distinct?: Prisma.JobLeaseScalarFieldEnum | Prisma.JobLeaseScalarFieldEnum[]
+}
+
+/**
+ * JobLease findFirstOrThrow
+ */
+export type JobLeaseFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which JobLease to fetch.
+   */
+  where?: Prisma.JobLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of JobLeases to fetch.
+   */
+  orderBy?: Prisma.JobLeaseOrderByWithRelationInput | Prisma.JobLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for JobLeases.
+   */
+  cursor?: Prisma.JobLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` JobLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` JobLeases.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of JobLeases.
+   */
+  distinct?: Prisma.JobLeaseScalarFieldEnum | Prisma.JobLeaseScalarFieldEnum[]
+}
+
+/**
+ * JobLease findMany
+ */
+export type JobLeaseFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * Filter, which JobLeases to fetch.
+   */
+  where?: Prisma.JobLeaseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of JobLeases to fetch.
+   */
+  orderBy?: Prisma.JobLeaseOrderByWithRelationInput | Prisma.JobLeaseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing JobLeases.
+   */
+  cursor?: Prisma.JobLeaseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` JobLeases from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` JobLeases.
+   */
+  skip?: number
+  distinct?: Prisma.JobLeaseScalarFieldEnum | Prisma.JobLeaseScalarFieldEnum[]
+}
+
+/**
+ * JobLease create
+ */
+export type JobLeaseCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * The data needed to create a JobLease.
+   */
+  data: Prisma.XOR<Prisma.JobLeaseCreateInput, Prisma.JobLeaseUncheckedCreateInput>
+}
+
+/**
+ * JobLease createMany
+ */
+export type JobLeaseCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many JobLeases.
+   */
+  data: Prisma.JobLeaseCreateManyInput | Prisma.JobLeaseCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * JobLease createManyAndReturn
+ */
+export type JobLeaseCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * The data used to create many JobLeases.
+   */
+  data: Prisma.JobLeaseCreateManyInput | Prisma.JobLeaseCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * JobLease update
+ */
+export type JobLeaseUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * The data needed to update a JobLease.
+   */
+  data: Prisma.XOR<Prisma.JobLeaseUpdateInput, Prisma.JobLeaseUncheckedUpdateInput>
+  /**
+   * Choose, which JobLease to update.
+   */
+  where: Prisma.JobLeaseWhereUniqueInput
+}
+
+/**
+ * JobLease updateMany
+ */
+export type JobLeaseUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update JobLeases.
+   */
+  data: Prisma.XOR<Prisma.JobLeaseUpdateManyMutationInput, Prisma.JobLeaseUncheckedUpdateManyInput>
+  /**
+   * Filter which JobLeases to update
+   */
+  where?: Prisma.JobLeaseWhereInput
+  /**
+   * Limit how many JobLeases to update.
+   */
+  limit?: number
+}
+
+/**
+ * JobLease updateManyAndReturn
+ */
+export type JobLeaseUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * The data used to update JobLeases.
+   */
+  data: Prisma.XOR<Prisma.JobLeaseUpdateManyMutationInput, Prisma.JobLeaseUncheckedUpdateManyInput>
+  /**
+   * Filter which JobLeases to update
+   */
+  where?: Prisma.JobLeaseWhereInput
+  /**
+   * Limit how many JobLeases to update.
+   */
+  limit?: number
+}
+
+/**
+ * JobLease upsert
+ */
+export type JobLeaseUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * The filter to search for the JobLease to update in case it exists.
+   */
+  where: Prisma.JobLeaseWhereUniqueInput
+  /**
+   * In case the JobLease found by the `where` argument doesn't exist, create a new JobLease with this data.
+   */
+  create: Prisma.XOR<Prisma.JobLeaseCreateInput, Prisma.JobLeaseUncheckedCreateInput>
+  /**
+   * In case the JobLease was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.JobLeaseUpdateInput, Prisma.JobLeaseUncheckedUpdateInput>
+}
+
+/**
+ * JobLease delete
+ */
+export type JobLeaseDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+  /**
+   * Filter which JobLease to delete.
+   */
+  where: Prisma.JobLeaseWhereUniqueInput
+}
+
+/**
+ * JobLease deleteMany
+ */
+export type JobLeaseDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which JobLeases to delete
+   */
+  where?: Prisma.JobLeaseWhereInput
+  /**
+   * Limit how many JobLeases to delete.
+   */
+  limit?: number
+}
+
+/**
+ * JobLease without action
+ */
+export type JobLeaseDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the JobLease
+   */
+  select?: Prisma.JobLeaseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the JobLease
+   */
+  omit?: Prisma.JobLeaseOmit<ExtArgs> | null
+}
@@ -0,0 +1,1867 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Label` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Label
+ * 
+ */
+export type LabelModel = runtime.Types.Result.DefaultSelection<Prisma.$LabelPayload>
+
+export type AggregateLabel = {
+  _count: LabelCountAggregateOutputType | null
+  _avg: LabelAvgAggregateOutputType | null
+  _sum: LabelSumAggregateOutputType | null
+  _min: LabelMinAggregateOutputType | null
+  _max: LabelMaxAggregateOutputType | null
+}
+
+export type LabelAvgAggregateOutputType = {
+  id: number | null
+  groupId: number | null
+  ownerId: number | null
+}
+
+export type LabelSumAggregateOutputType = {
+  id: number | null
+  groupId: number | null
+  ownerId: number | null
+}
+
+export type LabelMinAggregateOutputType = {
+  id: number | null
+  name: string | null
+  color: string | null
+  groupId: number | null
+  ownerId: number | null
+  createdAt: Date | null
+}
+
+export type LabelMaxAggregateOutputType = {
+  id: number | null
+  name: string | null
+  color: string | null
+  groupId: number | null
+  ownerId: number | null
+  createdAt: Date | null
+}
+
+export type LabelCountAggregateOutputType = {
+  id: number
+  name: number
+  color: number
+  groupId: number
+  ownerId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type LabelAvgAggregateInputType = {
+  id?: true
+  groupId?: true
+  ownerId?: true
+}
+
+export type LabelSumAggregateInputType = {
+  id?: true
+  groupId?: true
+  ownerId?: true
+}
+
+export type LabelMinAggregateInputType = {
+  id?: true
+  name?: true
+  color?: true
+  groupId?: true
+  ownerId?: true
+  createdAt?: true
+}
+
+export type LabelMaxAggregateInputType = {
+  id?: true
+  name?: true
+  color?: true
+  groupId?: true
+  ownerId?: true
+  createdAt?: true
+}
+
+export type LabelCountAggregateInputType = {
+  id?: true
+  name?: true
+  color?: true
+  groupId?: true
+  ownerId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type LabelAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Label to aggregate.
+   */
+  where?: Prisma.LabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Labels to fetch.
+   */
+  orderBy?: Prisma.LabelOrderByWithRelationInput | Prisma.LabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.LabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Labels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Labels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Labels
+  **/
+  _count?: true | LabelCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: LabelAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: LabelSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: LabelMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: LabelMaxAggregateInputType
+}
+
+export type GetLabelAggregateType<T extends LabelAggregateArgs> = {
+      [P in keyof T & keyof AggregateLabel]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateLabel[P]>
+    : Prisma.GetScalarType<T[P], AggregateLabel[P]>
+}
+
+
+
+
+export type LabelGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LabelWhereInput
+  orderBy?: Prisma.LabelOrderByWithAggregationInput | Prisma.LabelOrderByWithAggregationInput[]
+  by: Prisma.LabelScalarFieldEnum[] | Prisma.LabelScalarFieldEnum
+  having?: Prisma.LabelScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: LabelCountAggregateInputType | true
+  _avg?: LabelAvgAggregateInputType
+  _sum?: LabelSumAggregateInputType
+  _min?: LabelMinAggregateInputType
+  _max?: LabelMaxAggregateInputType
+}
+
+export type LabelGroupByOutputType = {
+  id: number
+  name: string
+  color: string
+  groupId: number | null
+  ownerId: number | null
+  createdAt: Date
+  _count: LabelCountAggregateOutputType | null
+  _avg: LabelAvgAggregateOutputType | null
+  _sum: LabelSumAggregateOutputType | null
+  _min: LabelMinAggregateOutputType | null
+  _max: LabelMaxAggregateOutputType | null
+}
+
+type GetLabelGroupByPayload<T extends LabelGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<LabelGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof LabelGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], LabelGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], LabelGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type LabelWhereInput = {
+  AND?: Prisma.LabelWhereInput | Prisma.LabelWhereInput[]
+  OR?: Prisma.LabelWhereInput[]
+  NOT?: Prisma.LabelWhereInput | Prisma.LabelWhereInput[]
+  id?: Prisma.IntFilter<"Label"> | number
+  name?: Prisma.StringFilter<"Label"> | string
+  color?: Prisma.StringFilter<"Label"> | string
+  groupId?: Prisma.IntNullableFilter<"Label"> | number | null
+  ownerId?: Prisma.IntNullableFilter<"Label"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"Label"> | Date | string
+  group?: Prisma.XOR<Prisma.GroupNullableScalarRelationFilter, Prisma.GroupWhereInput> | null
+  owner?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  tasks?: Prisma.TaskLabelListRelationFilter
+  subTasks?: Prisma.SubTaskLabelListRelationFilter
+}
+
+export type LabelOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  color?: Prisma.SortOrder
+  groupId?: Prisma.SortOrderInput | Prisma.SortOrder
+  ownerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  group?: Prisma.GroupOrderByWithRelationInput
+  owner?: Prisma.UserOrderByWithRelationInput
+  tasks?: Prisma.TaskLabelOrderByRelationAggregateInput
+  subTasks?: Prisma.SubTaskLabelOrderByRelationAggregateInput
+}
+
+export type LabelWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  groupId_name?: Prisma.LabelGroupIdNameCompoundUniqueInput
+  ownerId_name?: Prisma.LabelOwnerIdNameCompoundUniqueInput
+  AND?: Prisma.LabelWhereInput | Prisma.LabelWhereInput[]
+  OR?: Prisma.LabelWhereInput[]
+  NOT?: Prisma.LabelWhereInput | Prisma.LabelWhereInput[]
+  name?: Prisma.StringFilter<"Label"> | string
+  color?: Prisma.StringFilter<"Label"> | string
+  groupId?: Prisma.IntNullableFilter<"Label"> | number | null
+  ownerId?: Prisma.IntNullableFilter<"Label"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"Label"> | Date | string
+  group?: Prisma.XOR<Prisma.GroupNullableScalarRelationFilter, Prisma.GroupWhereInput> | null
+  owner?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  tasks?: Prisma.TaskLabelListRelationFilter
+  subTasks?: Prisma.SubTaskLabelListRelationFilter
+}, "id" | "groupId_name" | "ownerId_name">
+
+export type LabelOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  color?: Prisma.SortOrder
+  groupId?: Prisma.SortOrderInput | Prisma.SortOrder
+  ownerId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.LabelCountOrderByAggregateInput
+  _avg?: Prisma.LabelAvgOrderByAggregateInput
+  _max?: Prisma.LabelMaxOrderByAggregateInput
+  _min?: Prisma.LabelMinOrderByAggregateInput
+  _sum?: Prisma.LabelSumOrderByAggregateInput
+}
+
+export type LabelScalarWhereWithAggregatesInput = {
+  AND?: Prisma.LabelScalarWhereWithAggregatesInput | Prisma.LabelScalarWhereWithAggregatesInput[]
+  OR?: Prisma.LabelScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.LabelScalarWhereWithAggregatesInput | Prisma.LabelScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"Label"> | number
+  name?: Prisma.StringWithAggregatesFilter<"Label"> | string
+  color?: Prisma.StringWithAggregatesFilter<"Label"> | string
+  groupId?: Prisma.IntNullableWithAggregatesFilter<"Label"> | number | null
+  ownerId?: Prisma.IntNullableWithAggregatesFilter<"Label"> | number | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Label"> | Date | string
+}
+
+export type LabelCreateInput = {
+  name: string
+  color: string
+  createdAt?: Date | string
+  group?: Prisma.GroupCreateNestedOneWithoutLabelsInput
+  owner?: Prisma.UserCreateNestedOneWithoutPersonalLabelsInput
+  tasks?: Prisma.TaskLabelCreateNestedManyWithoutLabelInput
+  subTasks?: Prisma.SubTaskLabelCreateNestedManyWithoutLabelInput
+}
+
+export type LabelUncheckedCreateInput = {
+  id?: number
+  name: string
+  color: string
+  groupId?: number | null
+  ownerId?: number | null
+  createdAt?: Date | string
+  tasks?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutLabelInput
+  subTasks?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutLabelInput
+}
+
+export type LabelUpdateInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  group?: Prisma.GroupUpdateOneWithoutLabelsNestedInput
+  owner?: Prisma.UserUpdateOneWithoutPersonalLabelsNestedInput
+  tasks?: Prisma.TaskLabelUpdateManyWithoutLabelNestedInput
+  subTasks?: Prisma.SubTaskLabelUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ownerId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tasks?: Prisma.TaskLabelUncheckedUpdateManyWithoutLabelNestedInput
+  subTasks?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelCreateManyInput = {
+  id?: number
+  name: string
+  color: string
+  groupId?: number | null
+  ownerId?: number | null
+  createdAt?: Date | string
+}
+
+export type LabelUpdateManyMutationInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LabelUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ownerId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LabelListRelationFilter = {
+  every?: Prisma.LabelWhereInput
+  some?: Prisma.LabelWhereInput
+  none?: Prisma.LabelWhereInput
+}
+
+export type LabelOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type LabelGroupIdNameCompoundUniqueInput = {
+  groupId: number
+  name: string
+}
+
+export type LabelOwnerIdNameCompoundUniqueInput = {
+  ownerId: number
+  name: string
+}
+
+export type LabelCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  color?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  ownerId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LabelAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  ownerId?: Prisma.SortOrder
+}
+
+export type LabelMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  color?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  ownerId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LabelMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  color?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  ownerId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LabelSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  ownerId?: Prisma.SortOrder
+}
+
+export type LabelScalarRelationFilter = {
+  is?: Prisma.LabelWhereInput
+  isNot?: Prisma.LabelWhereInput
+}
+
+export type LabelCreateNestedManyWithoutGroupInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutGroupInput, Prisma.LabelUncheckedCreateWithoutGroupInput> | Prisma.LabelCreateWithoutGroupInput[] | Prisma.LabelUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutGroupInput | Prisma.LabelCreateOrConnectWithoutGroupInput[]
+  createMany?: Prisma.LabelCreateManyGroupInputEnvelope
+  connect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+}
+
+export type LabelUncheckedCreateNestedManyWithoutGroupInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutGroupInput, Prisma.LabelUncheckedCreateWithoutGroupInput> | Prisma.LabelCreateWithoutGroupInput[] | Prisma.LabelUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutGroupInput | Prisma.LabelCreateOrConnectWithoutGroupInput[]
+  createMany?: Prisma.LabelCreateManyGroupInputEnvelope
+  connect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+}
+
+export type LabelUpdateManyWithoutGroupNestedInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutGroupInput, Prisma.LabelUncheckedCreateWithoutGroupInput> | Prisma.LabelCreateWithoutGroupInput[] | Prisma.LabelUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutGroupInput | Prisma.LabelCreateOrConnectWithoutGroupInput[]
+  upsert?: Prisma.LabelUpsertWithWhereUniqueWithoutGroupInput | Prisma.LabelUpsertWithWhereUniqueWithoutGroupInput[]
+  createMany?: Prisma.LabelCreateManyGroupInputEnvelope
+  set?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  disconnect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  delete?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  connect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  update?: Prisma.LabelUpdateWithWhereUniqueWithoutGroupInput | Prisma.LabelUpdateWithWhereUniqueWithoutGroupInput[]
+  updateMany?: Prisma.LabelUpdateManyWithWhereWithoutGroupInput | Prisma.LabelUpdateManyWithWhereWithoutGroupInput[]
+  deleteMany?: Prisma.LabelScalarWhereInput | Prisma.LabelScalarWhereInput[]
+}
+
+export type LabelUncheckedUpdateManyWithoutGroupNestedInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutGroupInput, Prisma.LabelUncheckedCreateWithoutGroupInput> | Prisma.LabelCreateWithoutGroupInput[] | Prisma.LabelUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutGroupInput | Prisma.LabelCreateOrConnectWithoutGroupInput[]
+  upsert?: Prisma.LabelUpsertWithWhereUniqueWithoutGroupInput | Prisma.LabelUpsertWithWhereUniqueWithoutGroupInput[]
+  createMany?: Prisma.LabelCreateManyGroupInputEnvelope
+  set?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  disconnect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  delete?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  connect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  update?: Prisma.LabelUpdateWithWhereUniqueWithoutGroupInput | Prisma.LabelUpdateWithWhereUniqueWithoutGroupInput[]
+  updateMany?: Prisma.LabelUpdateManyWithWhereWithoutGroupInput | Prisma.LabelUpdateManyWithWhereWithoutGroupInput[]
+  deleteMany?: Prisma.LabelScalarWhereInput | Prisma.LabelScalarWhereInput[]
+}
+
+export type LabelCreateNestedOneWithoutTasksInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutTasksInput, Prisma.LabelUncheckedCreateWithoutTasksInput>
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutTasksInput
+  connect?: Prisma.LabelWhereUniqueInput
+}
+
+export type LabelUpdateOneRequiredWithoutTasksNestedInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutTasksInput, Prisma.LabelUncheckedCreateWithoutTasksInput>
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutTasksInput
+  upsert?: Prisma.LabelUpsertWithoutTasksInput
+  connect?: Prisma.LabelWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.LabelUpdateToOneWithWhereWithoutTasksInput, Prisma.LabelUpdateWithoutTasksInput>, Prisma.LabelUncheckedUpdateWithoutTasksInput>
+}
+
+export type LabelCreateNestedOneWithoutSubTasksInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutSubTasksInput, Prisma.LabelUncheckedCreateWithoutSubTasksInput>
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutSubTasksInput
+  connect?: Prisma.LabelWhereUniqueInput
+}
+
+export type LabelUpdateOneRequiredWithoutSubTasksNestedInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutSubTasksInput, Prisma.LabelUncheckedCreateWithoutSubTasksInput>
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutSubTasksInput
+  upsert?: Prisma.LabelUpsertWithoutSubTasksInput
+  connect?: Prisma.LabelWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.LabelUpdateToOneWithWhereWithoutSubTasksInput, Prisma.LabelUpdateWithoutSubTasksInput>, Prisma.LabelUncheckedUpdateWithoutSubTasksInput>
+}
+
+export type LabelCreateNestedManyWithoutOwnerInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutOwnerInput, Prisma.LabelUncheckedCreateWithoutOwnerInput> | Prisma.LabelCreateWithoutOwnerInput[] | Prisma.LabelUncheckedCreateWithoutOwnerInput[]
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutOwnerInput | Prisma.LabelCreateOrConnectWithoutOwnerInput[]
+  createMany?: Prisma.LabelCreateManyOwnerInputEnvelope
+  connect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+}
+
+export type LabelUncheckedCreateNestedManyWithoutOwnerInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutOwnerInput, Prisma.LabelUncheckedCreateWithoutOwnerInput> | Prisma.LabelCreateWithoutOwnerInput[] | Prisma.LabelUncheckedCreateWithoutOwnerInput[]
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutOwnerInput | Prisma.LabelCreateOrConnectWithoutOwnerInput[]
+  createMany?: Prisma.LabelCreateManyOwnerInputEnvelope
+  connect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+}
+
+export type LabelUpdateManyWithoutOwnerNestedInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutOwnerInput, Prisma.LabelUncheckedCreateWithoutOwnerInput> | Prisma.LabelCreateWithoutOwnerInput[] | Prisma.LabelUncheckedCreateWithoutOwnerInput[]
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutOwnerInput | Prisma.LabelCreateOrConnectWithoutOwnerInput[]
+  upsert?: Prisma.LabelUpsertWithWhereUniqueWithoutOwnerInput | Prisma.LabelUpsertWithWhereUniqueWithoutOwnerInput[]
+  createMany?: Prisma.LabelCreateManyOwnerInputEnvelope
+  set?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  disconnect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  delete?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  connect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  update?: Prisma.LabelUpdateWithWhereUniqueWithoutOwnerInput | Prisma.LabelUpdateWithWhereUniqueWithoutOwnerInput[]
+  updateMany?: Prisma.LabelUpdateManyWithWhereWithoutOwnerInput | Prisma.LabelUpdateManyWithWhereWithoutOwnerInput[]
+  deleteMany?: Prisma.LabelScalarWhereInput | Prisma.LabelScalarWhereInput[]
+}
+
+export type LabelUncheckedUpdateManyWithoutOwnerNestedInput = {
+  create?: Prisma.XOR<Prisma.LabelCreateWithoutOwnerInput, Prisma.LabelUncheckedCreateWithoutOwnerInput> | Prisma.LabelCreateWithoutOwnerInput[] | Prisma.LabelUncheckedCreateWithoutOwnerInput[]
+  connectOrCreate?: Prisma.LabelCreateOrConnectWithoutOwnerInput | Prisma.LabelCreateOrConnectWithoutOwnerInput[]
+  upsert?: Prisma.LabelUpsertWithWhereUniqueWithoutOwnerInput | Prisma.LabelUpsertWithWhereUniqueWithoutOwnerInput[]
+  createMany?: Prisma.LabelCreateManyOwnerInputEnvelope
+  set?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  disconnect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  delete?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  connect?: Prisma.LabelWhereUniqueInput | Prisma.LabelWhereUniqueInput[]
+  update?: Prisma.LabelUpdateWithWhereUniqueWithoutOwnerInput | Prisma.LabelUpdateWithWhereUniqueWithoutOwnerInput[]
+  updateMany?: Prisma.LabelUpdateManyWithWhereWithoutOwnerInput | Prisma.LabelUpdateManyWithWhereWithoutOwnerInput[]
+  deleteMany?: Prisma.LabelScalarWhereInput | Prisma.LabelScalarWhereInput[]
+}
+
+export type LabelCreateWithoutGroupInput = {
+  name: string
+  color: string
+  createdAt?: Date | string
+  owner?: Prisma.UserCreateNestedOneWithoutPersonalLabelsInput
+  tasks?: Prisma.TaskLabelCreateNestedManyWithoutLabelInput
+  subTasks?: Prisma.SubTaskLabelCreateNestedManyWithoutLabelInput
+}
+
+export type LabelUncheckedCreateWithoutGroupInput = {
+  id?: number
+  name: string
+  color: string
+  ownerId?: number | null
+  createdAt?: Date | string
+  tasks?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutLabelInput
+  subTasks?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutLabelInput
+}
+
+export type LabelCreateOrConnectWithoutGroupInput = {
+  where: Prisma.LabelWhereUniqueInput
+  create: Prisma.XOR<Prisma.LabelCreateWithoutGroupInput, Prisma.LabelUncheckedCreateWithoutGroupInput>
+}
+
+export type LabelCreateManyGroupInputEnvelope = {
+  data: Prisma.LabelCreateManyGroupInput | Prisma.LabelCreateManyGroupInput[]
+  skipDuplicates?: boolean
+}
+
+export type LabelUpsertWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.LabelWhereUniqueInput
+  update: Prisma.XOR<Prisma.LabelUpdateWithoutGroupInput, Prisma.LabelUncheckedUpdateWithoutGroupInput>
+  create: Prisma.XOR<Prisma.LabelCreateWithoutGroupInput, Prisma.LabelUncheckedCreateWithoutGroupInput>
+}
+
+export type LabelUpdateWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.LabelWhereUniqueInput
+  data: Prisma.XOR<Prisma.LabelUpdateWithoutGroupInput, Prisma.LabelUncheckedUpdateWithoutGroupInput>
+}
+
+export type LabelUpdateManyWithWhereWithoutGroupInput = {
+  where: Prisma.LabelScalarWhereInput
+  data: Prisma.XOR<Prisma.LabelUpdateManyMutationInput, Prisma.LabelUncheckedUpdateManyWithoutGroupInput>
+}
+
+export type LabelScalarWhereInput = {
+  AND?: Prisma.LabelScalarWhereInput | Prisma.LabelScalarWhereInput[]
+  OR?: Prisma.LabelScalarWhereInput[]
+  NOT?: Prisma.LabelScalarWhereInput | Prisma.LabelScalarWhereInput[]
+  id?: Prisma.IntFilter<"Label"> | number
+  name?: Prisma.StringFilter<"Label"> | string
+  color?: Prisma.StringFilter<"Label"> | string
+  groupId?: Prisma.IntNullableFilter<"Label"> | number | null
+  ownerId?: Prisma.IntNullableFilter<"Label"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"Label"> | Date | string
+}
+
+export type LabelCreateWithoutTasksInput = {
+  name: string
+  color: string
+  createdAt?: Date | string
+  group?: Prisma.GroupCreateNestedOneWithoutLabelsInput
+  owner?: Prisma.UserCreateNestedOneWithoutPersonalLabelsInput
+  subTasks?: Prisma.SubTaskLabelCreateNestedManyWithoutLabelInput
+}
+
+export type LabelUncheckedCreateWithoutTasksInput = {
+  id?: number
+  name: string
+  color: string
+  groupId?: number | null
+  ownerId?: number | null
+  createdAt?: Date | string
+  subTasks?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutLabelInput
+}
+
+export type LabelCreateOrConnectWithoutTasksInput = {
+  where: Prisma.LabelWhereUniqueInput
+  create: Prisma.XOR<Prisma.LabelCreateWithoutTasksInput, Prisma.LabelUncheckedCreateWithoutTasksInput>
+}
+
+export type LabelUpsertWithoutTasksInput = {
+  update: Prisma.XOR<Prisma.LabelUpdateWithoutTasksInput, Prisma.LabelUncheckedUpdateWithoutTasksInput>
+  create: Prisma.XOR<Prisma.LabelCreateWithoutTasksInput, Prisma.LabelUncheckedCreateWithoutTasksInput>
+  where?: Prisma.LabelWhereInput
+}
+
+export type LabelUpdateToOneWithWhereWithoutTasksInput = {
+  where?: Prisma.LabelWhereInput
+  data: Prisma.XOR<Prisma.LabelUpdateWithoutTasksInput, Prisma.LabelUncheckedUpdateWithoutTasksInput>
+}
+
+export type LabelUpdateWithoutTasksInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  group?: Prisma.GroupUpdateOneWithoutLabelsNestedInput
+  owner?: Prisma.UserUpdateOneWithoutPersonalLabelsNestedInput
+  subTasks?: Prisma.SubTaskLabelUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelUncheckedUpdateWithoutTasksInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ownerId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subTasks?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelCreateWithoutSubTasksInput = {
+  name: string
+  color: string
+  createdAt?: Date | string
+  group?: Prisma.GroupCreateNestedOneWithoutLabelsInput
+  owner?: Prisma.UserCreateNestedOneWithoutPersonalLabelsInput
+  tasks?: Prisma.TaskLabelCreateNestedManyWithoutLabelInput
+}
+
+export type LabelUncheckedCreateWithoutSubTasksInput = {
+  id?: number
+  name: string
+  color: string
+  groupId?: number | null
+  ownerId?: number | null
+  createdAt?: Date | string
+  tasks?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutLabelInput
+}
+
+export type LabelCreateOrConnectWithoutSubTasksInput = {
+  where: Prisma.LabelWhereUniqueInput
+  create: Prisma.XOR<Prisma.LabelCreateWithoutSubTasksInput, Prisma.LabelUncheckedCreateWithoutSubTasksInput>
+}
+
+export type LabelUpsertWithoutSubTasksInput = {
+  update: Prisma.XOR<Prisma.LabelUpdateWithoutSubTasksInput, Prisma.LabelUncheckedUpdateWithoutSubTasksInput>
+  create: Prisma.XOR<Prisma.LabelCreateWithoutSubTasksInput, Prisma.LabelUncheckedCreateWithoutSubTasksInput>
+  where?: Prisma.LabelWhereInput
+}
+
+export type LabelUpdateToOneWithWhereWithoutSubTasksInput = {
+  where?: Prisma.LabelWhereInput
+  data: Prisma.XOR<Prisma.LabelUpdateWithoutSubTasksInput, Prisma.LabelUncheckedUpdateWithoutSubTasksInput>
+}
+
+export type LabelUpdateWithoutSubTasksInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  group?: Prisma.GroupUpdateOneWithoutLabelsNestedInput
+  owner?: Prisma.UserUpdateOneWithoutPersonalLabelsNestedInput
+  tasks?: Prisma.TaskLabelUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelUncheckedUpdateWithoutSubTasksInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ownerId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tasks?: Prisma.TaskLabelUncheckedUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelCreateWithoutOwnerInput = {
+  name: string
+  color: string
+  createdAt?: Date | string
+  group?: Prisma.GroupCreateNestedOneWithoutLabelsInput
+  tasks?: Prisma.TaskLabelCreateNestedManyWithoutLabelInput
+  subTasks?: Prisma.SubTaskLabelCreateNestedManyWithoutLabelInput
+}
+
+export type LabelUncheckedCreateWithoutOwnerInput = {
+  id?: number
+  name: string
+  color: string
+  groupId?: number | null
+  createdAt?: Date | string
+  tasks?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutLabelInput
+  subTasks?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutLabelInput
+}
+
+export type LabelCreateOrConnectWithoutOwnerInput = {
+  where: Prisma.LabelWhereUniqueInput
+  create: Prisma.XOR<Prisma.LabelCreateWithoutOwnerInput, Prisma.LabelUncheckedCreateWithoutOwnerInput>
+}
+
+export type LabelCreateManyOwnerInputEnvelope = {
+  data: Prisma.LabelCreateManyOwnerInput | Prisma.LabelCreateManyOwnerInput[]
+  skipDuplicates?: boolean
+}
+
+export type LabelUpsertWithWhereUniqueWithoutOwnerInput = {
+  where: Prisma.LabelWhereUniqueInput
+  update: Prisma.XOR<Prisma.LabelUpdateWithoutOwnerInput, Prisma.LabelUncheckedUpdateWithoutOwnerInput>
+  create: Prisma.XOR<Prisma.LabelCreateWithoutOwnerInput, Prisma.LabelUncheckedCreateWithoutOwnerInput>
+}
+
+export type LabelUpdateWithWhereUniqueWithoutOwnerInput = {
+  where: Prisma.LabelWhereUniqueInput
+  data: Prisma.XOR<Prisma.LabelUpdateWithoutOwnerInput, Prisma.LabelUncheckedUpdateWithoutOwnerInput>
+}
+
+export type LabelUpdateManyWithWhereWithoutOwnerInput = {
+  where: Prisma.LabelScalarWhereInput
+  data: Prisma.XOR<Prisma.LabelUpdateManyMutationInput, Prisma.LabelUncheckedUpdateManyWithoutOwnerInput>
+}
+
+export type LabelCreateManyGroupInput = {
+  id?: number
+  name: string
+  color: string
+  ownerId?: number | null
+  createdAt?: Date | string
+}
+
+export type LabelUpdateWithoutGroupInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  owner?: Prisma.UserUpdateOneWithoutPersonalLabelsNestedInput
+  tasks?: Prisma.TaskLabelUpdateManyWithoutLabelNestedInput
+  subTasks?: Prisma.SubTaskLabelUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelUncheckedUpdateWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tasks?: Prisma.TaskLabelUncheckedUpdateManyWithoutLabelNestedInput
+  subTasks?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelUncheckedUpdateManyWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  ownerId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LabelCreateManyOwnerInput = {
+  id?: number
+  name: string
+  color: string
+  groupId?: number | null
+  createdAt?: Date | string
+}
+
+export type LabelUpdateWithoutOwnerInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  group?: Prisma.GroupUpdateOneWithoutLabelsNestedInput
+  tasks?: Prisma.TaskLabelUpdateManyWithoutLabelNestedInput
+  subTasks?: Prisma.SubTaskLabelUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelUncheckedUpdateWithoutOwnerInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tasks?: Prisma.TaskLabelUncheckedUpdateManyWithoutLabelNestedInput
+  subTasks?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutLabelNestedInput
+}
+
+export type LabelUncheckedUpdateManyWithoutOwnerInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  color?: Prisma.StringFieldUpdateOperationsInput | string
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type LabelCountOutputType
+ */
+
+export type LabelCountOutputType = {
+  tasks: number
+  subTasks: number
+}
+
+export type LabelCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tasks?: boolean | LabelCountOutputTypeCountTasksArgs
+  subTasks?: boolean | LabelCountOutputTypeCountSubTasksArgs
+}
+
+/**
+ * LabelCountOutputType without action
+ */
+export type LabelCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LabelCountOutputType
+   */
+  select?: Prisma.LabelCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * LabelCountOutputType without action
+ */
+export type LabelCountOutputTypeCountTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskLabelWhereInput
+}
+
+/**
+ * LabelCountOutputType without action
+ */
+export type LabelCountOutputTypeCountSubTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SubTaskLabelWhereInput
+}
+
+
+export type LabelSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  color?: boolean
+  groupId?: boolean
+  ownerId?: boolean
+  createdAt?: boolean
+  group?: boolean | Prisma.Label$groupArgs<ExtArgs>
+  owner?: boolean | Prisma.Label$ownerArgs<ExtArgs>
+  tasks?: boolean | Prisma.Label$tasksArgs<ExtArgs>
+  subTasks?: boolean | Prisma.Label$subTasksArgs<ExtArgs>
+  _count?: boolean | Prisma.LabelCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["label"]>
+
+export type LabelSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  color?: boolean
+  groupId?: boolean
+  ownerId?: boolean
+  createdAt?: boolean
+  group?: boolean | Prisma.Label$groupArgs<ExtArgs>
+  owner?: boolean | Prisma.Label$ownerArgs<ExtArgs>
+}, ExtArgs["result"]["label"]>
+
+export type LabelSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  name?: boolean
+  color?: boolean
+  groupId?: boolean
+  ownerId?: boolean
+  createdAt?: boolean
+  group?: boolean | Prisma.Label$groupArgs<ExtArgs>
+  owner?: boolean | Prisma.Label$ownerArgs<ExtArgs>
+}, ExtArgs["result"]["label"]>
+
+export type LabelSelectScalar = {
+  id?: boolean
+  name?: boolean
+  color?: boolean
+  groupId?: boolean
+  ownerId?: boolean
+  createdAt?: boolean
+}
+
+export type LabelOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "color" | "groupId" | "ownerId" | "createdAt", ExtArgs["result"]["label"]>
+export type LabelInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  group?: boolean | Prisma.Label$groupArgs<ExtArgs>
+  owner?: boolean | Prisma.Label$ownerArgs<ExtArgs>
+  tasks?: boolean | Prisma.Label$tasksArgs<ExtArgs>
+  subTasks?: boolean | Prisma.Label$subTasksArgs<ExtArgs>
+  _count?: boolean | Prisma.LabelCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type LabelIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  group?: boolean | Prisma.Label$groupArgs<ExtArgs>
+  owner?: boolean | Prisma.Label$ownerArgs<ExtArgs>
+}
+export type LabelIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  group?: boolean | Prisma.Label$groupArgs<ExtArgs>
+  owner?: boolean | Prisma.Label$ownerArgs<ExtArgs>
+}
+
+export type $LabelPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Label"
+  objects: {
+    group: Prisma.$GroupPayload<ExtArgs> | null
+    owner: Prisma.$UserPayload<ExtArgs> | null
+    tasks: Prisma.$TaskLabelPayload<ExtArgs>[]
+    subTasks: Prisma.$SubTaskLabelPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    name: string
+    color: string
+    groupId: number | null
+    ownerId: number | null
+    createdAt: Date
+  }, ExtArgs["result"]["label"]>
+  composites: {}
+}
+
+export type LabelGetPayload<S extends boolean | null | undefined | LabelDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$LabelPayload, S>
+
+export type LabelCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<LabelFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: LabelCountAggregateInputType | true
+  }
+
+export interface LabelDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Label'], meta: { name: 'Label' } }
+  /**
+   * Find zero or one Label that matches the filter.
+   * @param {LabelFindUniqueArgs} args - Arguments to find a Label
+   * @example
+   * // Get one Label
+   * const label = await prisma.label.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends LabelFindUniqueArgs>(args: Prisma.SelectSubset<T, LabelFindUniqueArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Label that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {LabelFindUniqueOrThrowArgs} args - Arguments to find a Label
+   * @example
+   * // Get one Label
+   * const label = await prisma.label.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends LabelFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, LabelFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Label that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LabelFindFirstArgs} args - Arguments to find a Label
+   * @example
+   * // Get one Label
+   * const label = await prisma.label.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends LabelFindFirstArgs>(args?: Prisma.SelectSubset<T, LabelFindFirstArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Label that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LabelFindFirstOrThrowArgs} args - Arguments to find a Label
+   * @example
+   * // Get one Label
+   * const label = await prisma.label.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends LabelFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, LabelFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Labels that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LabelFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Labels
+   * const labels = await prisma.label.findMany()
+   * 
+   * // Get first 10 Labels
+   * const labels = await prisma.label.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const labelWithIdOnly = await prisma.label.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends LabelFindManyArgs>(args?: Prisma.SelectSubset<T, LabelFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Label.
+   * @param {LabelCreateArgs} args - Arguments to create a Label.
+   * @example
+   * // Create one Label
+   * const Label = await prisma.label.create({
+   *   data: {
+   *     // ... data to create a Label
+   *   }
+   * })
+   * 
+   */
+  create<T extends LabelCreateArgs>(args: Prisma.SelectSubset<T, LabelCreateArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Labels.
+   * @param {LabelCreateManyArgs} args - Arguments to create many Labels.
+   * @example
+   * // Create many Labels
+   * const label = await prisma.label.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends LabelCreateManyArgs>(args?: Prisma.SelectSubset<T, LabelCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Labels and returns the data saved in the database.
+   * @param {LabelCreateManyAndReturnArgs} args - Arguments to create many Labels.
+   * @example
+   * // Create many Labels
+   * const label = await prisma.label.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Labels and only return the `id`
+   * const labelWithIdOnly = await prisma.label.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends LabelCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, LabelCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Label.
+   * @param {LabelDeleteArgs} args - Arguments to delete one Label.
+   * @example
+   * // Delete one Label
+   * const Label = await prisma.label.delete({
+   *   where: {
+   *     // ... filter to delete one Label
+   *   }
+   * })
+   * 
+   */
+  delete<T extends LabelDeleteArgs>(args: Prisma.SelectSubset<T, LabelDeleteArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Label.
+   * @param {LabelUpdateArgs} args - Arguments to update one Label.
+   * @example
+   * // Update one Label
+   * const label = await prisma.label.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends LabelUpdateArgs>(args: Prisma.SelectSubset<T, LabelUpdateArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Labels.
+   * @param {LabelDeleteManyArgs} args - Arguments to filter Labels to delete.
+   * @example
+   * // Delete a few Labels
+   * const { count } = await prisma.label.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends LabelDeleteManyArgs>(args?: Prisma.SelectSubset<T, LabelDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Labels.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LabelUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Labels
+   * const label = await prisma.label.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends LabelUpdateManyArgs>(args: Prisma.SelectSubset<T, LabelUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Labels and returns the data updated in the database.
+   * @param {LabelUpdateManyAndReturnArgs} args - Arguments to update many Labels.
+   * @example
+   * // Update many Labels
+   * const label = await prisma.label.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Labels and only return the `id`
+   * const labelWithIdOnly = await prisma.label.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends LabelUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, LabelUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Label.
+   * @param {LabelUpsertArgs} args - Arguments to update or create a Label.
+   * @example
+   * // Update or create a Label
+   * const label = await prisma.label.upsert({
+   *   create: {
+   *     // ... data to create a Label
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Label we want to update
+   *   }
+   * })
+   */
+  upsert<T extends LabelUpsertArgs>(args: Prisma.SelectSubset<T, LabelUpsertArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Labels.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LabelCountArgs} args - Arguments to filter Labels to count.
+   * @example
+   * // Count the number of Labels
+   * const count = await prisma.label.count({
+   *   where: {
+   *     // ... the filter for the Labels we want to count
+   *   }
+   * })
+  **/
+  count<T extends LabelCountArgs>(
+    args?: Prisma.Subset<T, LabelCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], LabelCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Label.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LabelAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends LabelAggregateArgs>(args: Prisma.Subset<T, LabelAggregateArgs>): Prisma.PrismaPromise<GetLabelAggregateType<T>>
+
+  /**
+   * Group by Label.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LabelGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends LabelGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: LabelGroupByArgs['orderBy'] }
+      : { orderBy?: LabelGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, LabelGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLabelGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Label model
+ */
+readonly fields: LabelFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Label.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__LabelClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  group<T extends Prisma.Label$groupArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Label$groupArgs<ExtArgs>>): Prisma.Prisma__GroupClient<runtime.Types.Result.GetResult<Prisma.$GroupPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  owner<T extends Prisma.Label$ownerArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Label$ownerArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  tasks<T extends Prisma.Label$tasksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Label$tasksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  subTasks<T extends Prisma.Label$subTasksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Label$subTasksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Label model
+ */
+export interface LabelFieldRefs {
+  readonly id: Prisma.FieldRef<"Label", 'Int'>
+  readonly name: Prisma.FieldRef<"Label", 'String'>
+  readonly color: Prisma.FieldRef<"Label", 'String'>
+  readonly groupId: Prisma.FieldRef<"Label", 'Int'>
+  readonly ownerId: Prisma.FieldRef<"Label", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"Label", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Label findUnique
+ */
+export type LabelFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * Filter, which Label to fetch.
+   */
+  where: Prisma.LabelWhereUniqueInput
+}
+
+/**
+ * Label findUniqueOrThrow
+ */
+export type LabelFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * Filter, which Label to fetch.
+   */
+  where: Prisma.LabelWhereUniqueInput
+}
+
+/**
+ * Label findFirst
+ */
+export type LabelFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * Filter, which Label to fetch.
+   */
+  where?: Prisma.LabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Labels to fetch.
+   */
+  orderBy?: Prisma.LabelOrderByWithRelationInput | Prisma.LabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Labels.
+   */
+  cursor?: Prisma.LabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Labels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Labels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Labels.
+   */
+  distinct?: Prisma.LabelScalarFieldEnum | Prisma.LabelScalarFieldEnum[]
+}
+
+/**
+ * Label findFirstOrThrow
+ */
+export type LabelFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * Filter, which Label to fetch.
+   */
+  where?: Prisma.LabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Labels to fetch.
+   */
+  orderBy?: Prisma.LabelOrderByWithRelationInput | Prisma.LabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Labels.
+   */
+  cursor?: Prisma.LabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Labels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Labels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Labels.
+   */
+  distinct?: Prisma.LabelScalarFieldEnum | Prisma.LabelScalarFieldEnum[]
+}
+
+/**
+ * Label findMany
+ */
+export type LabelFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * Filter, which Labels to fetch.
+   */
+  where?: Prisma.LabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Labels to fetch.
+   */
+  orderBy?: Prisma.LabelOrderByWithRelationInput | Prisma.LabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Labels.
+   */
+  cursor?: Prisma.LabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Labels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Labels.
+   */
+  skip?: number
+  distinct?: Prisma.LabelScalarFieldEnum | Prisma.LabelScalarFieldEnum[]
+}
+
+/**
+ * Label create
+ */
+export type LabelCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Label.
+   */
+  data: Prisma.XOR<Prisma.LabelCreateInput, Prisma.LabelUncheckedCreateInput>
+}
+
+/**
+ * Label createMany
+ */
+export type LabelCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Labels.
+   */
+  data: Prisma.LabelCreateManyInput | Prisma.LabelCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Label createManyAndReturn
+ */
+export type LabelCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * The data used to create many Labels.
+   */
+  data: Prisma.LabelCreateManyInput | Prisma.LabelCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Label update
+ */
+export type LabelUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Label.
+   */
+  data: Prisma.XOR<Prisma.LabelUpdateInput, Prisma.LabelUncheckedUpdateInput>
+  /**
+   * Choose, which Label to update.
+   */
+  where: Prisma.LabelWhereUniqueInput
+}
+
+/**
+ * Label updateMany
+ */
+export type LabelUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Labels.
+   */
+  data: Prisma.XOR<Prisma.LabelUpdateManyMutationInput, Prisma.LabelUncheckedUpdateManyInput>
+  /**
+   * Filter which Labels to update
+   */
+  where?: Prisma.LabelWhereInput
+  /**
+   * Limit how many Labels to update.
+   */
+  limit?: number
+}
+
+/**
+ * Label updateManyAndReturn
+ */
+export type LabelUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * The data used to update Labels.
+   */
+  data: Prisma.XOR<Prisma.LabelUpdateManyMutationInput, Prisma.LabelUncheckedUpdateManyInput>
+  /**
+   * Filter which Labels to update
+   */
+  where?: Prisma.LabelWhereInput
+  /**
+   * Limit how many Labels to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Label upsert
+ */
+export type LabelUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Label to update in case it exists.
+   */
+  where: Prisma.LabelWhereUniqueInput
+  /**
+   * In case the Label found by the `where` argument doesn't exist, create a new Label with this data.
+   */
+  create: Prisma.XOR<Prisma.LabelCreateInput, Prisma.LabelUncheckedCreateInput>
+  /**
+   * In case the Label was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.LabelUpdateInput, Prisma.LabelUncheckedUpdateInput>
+}
+
+/**
+ * Label delete
+ */
+export type LabelDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  /**
+   * Filter which Label to delete.
+   */
+  where: Prisma.LabelWhereUniqueInput
+}
+
+/**
+ * Label deleteMany
+ */
+export type LabelDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Labels to delete
+   */
+  where?: Prisma.LabelWhereInput
+  /**
+   * Limit how many Labels to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Label.group
+ */
+export type Label$groupArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Group
+   */
+  select?: Prisma.GroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Group
+   */
+  omit?: Prisma.GroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupInclude<ExtArgs> | null
+  where?: Prisma.GroupWhereInput
+}
+
+/**
+ * Label.owner
+ */
+export type Label$ownerArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * Label.tasks
+ */
+export type Label$tasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  where?: Prisma.TaskLabelWhereInput
+  orderBy?: Prisma.TaskLabelOrderByWithRelationInput | Prisma.TaskLabelOrderByWithRelationInput[]
+  cursor?: Prisma.TaskLabelWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskLabelScalarFieldEnum | Prisma.TaskLabelScalarFieldEnum[]
+}
+
+/**
+ * Label.subTasks
+ */
+export type Label$subTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  where?: Prisma.SubTaskLabelWhereInput
+  orderBy?: Prisma.SubTaskLabelOrderByWithRelationInput | Prisma.SubTaskLabelOrderByWithRelationInput[]
+  cursor?: Prisma.SubTaskLabelWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SubTaskLabelScalarFieldEnum | Prisma.SubTaskLabelScalarFieldEnum[]
+}
+
+/**
+ * Label without action
+ */
+export type LabelDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+}
@@ -0,0 +1,1595 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `LoginSession` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model LoginSession
+ * 
+ */
+export type LoginSessionModel = runtime.Types.Result.DefaultSelection<Prisma.$LoginSessionPayload>
+
+export type AggregateLoginSession = {
+  _count: LoginSessionCountAggregateOutputType | null
+  _avg: LoginSessionAvgAggregateOutputType | null
+  _sum: LoginSessionSumAggregateOutputType | null
+  _min: LoginSessionMinAggregateOutputType | null
+  _max: LoginSessionMaxAggregateOutputType | null
+}
+
+export type LoginSessionAvgAggregateOutputType = {
+  id: number | null
+  userId: number | null
+}
+
+export type LoginSessionSumAggregateOutputType = {
+  id: number | null
+  userId: number | null
+}
+
+export type LoginSessionMinAggregateOutputType = {
+  id: number | null
+  refreshTokenHash: string | null
+  previousTokenHash: string | null
+  userId: number | null
+  userAgent: string | null
+  ipAddress: string | null
+  rotatedAt: Date | null
+  lastActiveAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date | null
+}
+
+export type LoginSessionMaxAggregateOutputType = {
+  id: number | null
+  refreshTokenHash: string | null
+  previousTokenHash: string | null
+  userId: number | null
+  userAgent: string | null
+  ipAddress: string | null
+  rotatedAt: Date | null
+  lastActiveAt: Date | null
+  expiresAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date | null
+}
+
+export type LoginSessionCountAggregateOutputType = {
+  id: number
+  refreshTokenHash: number
+  previousTokenHash: number
+  userId: number
+  userAgent: number
+  ipAddress: number
+  rotatedAt: number
+  lastActiveAt: number
+  expiresAt: number
+  revokedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type LoginSessionAvgAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type LoginSessionSumAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type LoginSessionMinAggregateInputType = {
+  id?: true
+  refreshTokenHash?: true
+  previousTokenHash?: true
+  userId?: true
+  userAgent?: true
+  ipAddress?: true
+  rotatedAt?: true
+  lastActiveAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  createdAt?: true
+}
+
+export type LoginSessionMaxAggregateInputType = {
+  id?: true
+  refreshTokenHash?: true
+  previousTokenHash?: true
+  userId?: true
+  userAgent?: true
+  ipAddress?: true
+  rotatedAt?: true
+  lastActiveAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  createdAt?: true
+}
+
+export type LoginSessionCountAggregateInputType = {
+  id?: true
+  refreshTokenHash?: true
+  previousTokenHash?: true
+  userId?: true
+  userAgent?: true
+  ipAddress?: true
+  rotatedAt?: true
+  lastActiveAt?: true
+  expiresAt?: true
+  revokedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type LoginSessionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LoginSession to aggregate.
+   */
+  where?: Prisma.LoginSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LoginSessions to fetch.
+   */
+  orderBy?: Prisma.LoginSessionOrderByWithRelationInput | Prisma.LoginSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.LoginSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LoginSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LoginSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned LoginSessions
+  **/
+  _count?: true | LoginSessionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: LoginSessionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: LoginSessionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: LoginSessionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: LoginSessionMaxAggregateInputType
+}
+
+export type GetLoginSessionAggregateType<T extends LoginSessionAggregateArgs> = {
+      [P in keyof T & keyof AggregateLoginSession]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateLoginSession[P]>
+    : Prisma.GetScalarType<T[P], AggregateLoginSession[P]>
+}
+
+
+
+
+export type LoginSessionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LoginSessionWhereInput
+  orderBy?: Prisma.LoginSessionOrderByWithAggregationInput | Prisma.LoginSessionOrderByWithAggregationInput[]
+  by: Prisma.LoginSessionScalarFieldEnum[] | Prisma.LoginSessionScalarFieldEnum
+  having?: Prisma.LoginSessionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: LoginSessionCountAggregateInputType | true
+  _avg?: LoginSessionAvgAggregateInputType
+  _sum?: LoginSessionSumAggregateInputType
+  _min?: LoginSessionMinAggregateInputType
+  _max?: LoginSessionMaxAggregateInputType
+}
+
+export type LoginSessionGroupByOutputType = {
+  id: number
+  refreshTokenHash: string
+  previousTokenHash: string | null
+  userId: number
+  userAgent: string | null
+  ipAddress: string | null
+  rotatedAt: Date | null
+  lastActiveAt: Date
+  expiresAt: Date
+  revokedAt: Date | null
+  createdAt: Date
+  _count: LoginSessionCountAggregateOutputType | null
+  _avg: LoginSessionAvgAggregateOutputType | null
+  _sum: LoginSessionSumAggregateOutputType | null
+  _min: LoginSessionMinAggregateOutputType | null
+  _max: LoginSessionMaxAggregateOutputType | null
+}
+
+type GetLoginSessionGroupByPayload<T extends LoginSessionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<LoginSessionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof LoginSessionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], LoginSessionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], LoginSessionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type LoginSessionWhereInput = {
+  AND?: Prisma.LoginSessionWhereInput | Prisma.LoginSessionWhereInput[]
+  OR?: Prisma.LoginSessionWhereInput[]
+  NOT?: Prisma.LoginSessionWhereInput | Prisma.LoginSessionWhereInput[]
+  id?: Prisma.IntFilter<"LoginSession"> | number
+  refreshTokenHash?: Prisma.StringFilter<"LoginSession"> | string
+  previousTokenHash?: Prisma.StringNullableFilter<"LoginSession"> | string | null
+  userId?: Prisma.IntFilter<"LoginSession"> | number
+  userAgent?: Prisma.StringNullableFilter<"LoginSession"> | string | null
+  ipAddress?: Prisma.StringNullableFilter<"LoginSession"> | string | null
+  rotatedAt?: Prisma.DateTimeNullableFilter<"LoginSession"> | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+  revokedAt?: Prisma.DateTimeNullableFilter<"LoginSession"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type LoginSessionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  refreshTokenHash?: Prisma.SortOrder
+  previousTokenHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrderInput | Prisma.SortOrder
+  ipAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastActiveAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type LoginSessionWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  refreshTokenHash?: string
+  previousTokenHash?: string
+  AND?: Prisma.LoginSessionWhereInput | Prisma.LoginSessionWhereInput[]
+  OR?: Prisma.LoginSessionWhereInput[]
+  NOT?: Prisma.LoginSessionWhereInput | Prisma.LoginSessionWhereInput[]
+  userId?: Prisma.IntFilter<"LoginSession"> | number
+  userAgent?: Prisma.StringNullableFilter<"LoginSession"> | string | null
+  ipAddress?: Prisma.StringNullableFilter<"LoginSession"> | string | null
+  rotatedAt?: Prisma.DateTimeNullableFilter<"LoginSession"> | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+  revokedAt?: Prisma.DateTimeNullableFilter<"LoginSession"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "refreshTokenHash" | "previousTokenHash">
+
+export type LoginSessionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  refreshTokenHash?: Prisma.SortOrder
+  previousTokenHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrderInput | Prisma.SortOrder
+  ipAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastActiveAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.LoginSessionCountOrderByAggregateInput
+  _avg?: Prisma.LoginSessionAvgOrderByAggregateInput
+  _max?: Prisma.LoginSessionMaxOrderByAggregateInput
+  _min?: Prisma.LoginSessionMinOrderByAggregateInput
+  _sum?: Prisma.LoginSessionSumOrderByAggregateInput
+}
+
+export type LoginSessionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.LoginSessionScalarWhereWithAggregatesInput | Prisma.LoginSessionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.LoginSessionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.LoginSessionScalarWhereWithAggregatesInput | Prisma.LoginSessionScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"LoginSession"> | number
+  refreshTokenHash?: Prisma.StringWithAggregatesFilter<"LoginSession"> | string
+  previousTokenHash?: Prisma.StringNullableWithAggregatesFilter<"LoginSession"> | string | null
+  userId?: Prisma.IntWithAggregatesFilter<"LoginSession"> | number
+  userAgent?: Prisma.StringNullableWithAggregatesFilter<"LoginSession"> | string | null
+  ipAddress?: Prisma.StringNullableWithAggregatesFilter<"LoginSession"> | string | null
+  rotatedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"LoginSession"> | Date | string | null
+  lastActiveAt?: Prisma.DateTimeWithAggregatesFilter<"LoginSession"> | Date | string
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"LoginSession"> | Date | string
+  revokedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"LoginSession"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"LoginSession"> | Date | string
+}
+
+export type LoginSessionCreateInput = {
+  refreshTokenHash: string
+  previousTokenHash?: string | null
+  userAgent?: string | null
+  ipAddress?: string | null
+  rotatedAt?: Date | string | null
+  lastActiveAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutLoginSessionsInput
+}
+
+export type LoginSessionUncheckedCreateInput = {
+  id?: number
+  refreshTokenHash: string
+  previousTokenHash?: string | null
+  userId: number
+  userAgent?: string | null
+  ipAddress?: string | null
+  rotatedAt?: Date | string | null
+  lastActiveAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LoginSessionUpdateInput = {
+  refreshTokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  previousTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutLoginSessionsNestedInput
+}
+
+export type LoginSessionUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  refreshTokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  previousTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginSessionCreateManyInput = {
+  id?: number
+  refreshTokenHash: string
+  previousTokenHash?: string | null
+  userId: number
+  userAgent?: string | null
+  ipAddress?: string | null
+  rotatedAt?: Date | string | null
+  lastActiveAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LoginSessionUpdateManyMutationInput = {
+  refreshTokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  previousTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginSessionUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  refreshTokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  previousTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginSessionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refreshTokenHash?: Prisma.SortOrder
+  previousTokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrder
+  lastActiveAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LoginSessionAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type LoginSessionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refreshTokenHash?: Prisma.SortOrder
+  previousTokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrder
+  lastActiveAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LoginSessionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  refreshTokenHash?: Prisma.SortOrder
+  previousTokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  userAgent?: Prisma.SortOrder
+  ipAddress?: Prisma.SortOrder
+  rotatedAt?: Prisma.SortOrder
+  lastActiveAt?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type LoginSessionSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type LoginSessionListRelationFilter = {
+  every?: Prisma.LoginSessionWhereInput
+  some?: Prisma.LoginSessionWhereInput
+  none?: Prisma.LoginSessionWhereInput
+}
+
+export type LoginSessionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type LoginSessionCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.LoginSessionCreateWithoutUserInput, Prisma.LoginSessionUncheckedCreateWithoutUserInput> | Prisma.LoginSessionCreateWithoutUserInput[] | Prisma.LoginSessionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.LoginSessionCreateOrConnectWithoutUserInput | Prisma.LoginSessionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.LoginSessionCreateManyUserInputEnvelope
+  connect?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+}
+
+export type LoginSessionUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.LoginSessionCreateWithoutUserInput, Prisma.LoginSessionUncheckedCreateWithoutUserInput> | Prisma.LoginSessionCreateWithoutUserInput[] | Prisma.LoginSessionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.LoginSessionCreateOrConnectWithoutUserInput | Prisma.LoginSessionCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.LoginSessionCreateManyUserInputEnvelope
+  connect?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+}
+
+export type LoginSessionUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.LoginSessionCreateWithoutUserInput, Prisma.LoginSessionUncheckedCreateWithoutUserInput> | Prisma.LoginSessionCreateWithoutUserInput[] | Prisma.LoginSessionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.LoginSessionCreateOrConnectWithoutUserInput | Prisma.LoginSessionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.LoginSessionUpsertWithWhereUniqueWithoutUserInput | Prisma.LoginSessionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.LoginSessionCreateManyUserInputEnvelope
+  set?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+  disconnect?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+  delete?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+  connect?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+  update?: Prisma.LoginSessionUpdateWithWhereUniqueWithoutUserInput | Prisma.LoginSessionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.LoginSessionUpdateManyWithWhereWithoutUserInput | Prisma.LoginSessionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.LoginSessionScalarWhereInput | Prisma.LoginSessionScalarWhereInput[]
+}
+
+export type LoginSessionUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.LoginSessionCreateWithoutUserInput, Prisma.LoginSessionUncheckedCreateWithoutUserInput> | Prisma.LoginSessionCreateWithoutUserInput[] | Prisma.LoginSessionUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.LoginSessionCreateOrConnectWithoutUserInput | Prisma.LoginSessionCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.LoginSessionUpsertWithWhereUniqueWithoutUserInput | Prisma.LoginSessionUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.LoginSessionCreateManyUserInputEnvelope
+  set?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+  disconnect?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+  delete?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+  connect?: Prisma.LoginSessionWhereUniqueInput | Prisma.LoginSessionWhereUniqueInput[]
+  update?: Prisma.LoginSessionUpdateWithWhereUniqueWithoutUserInput | Prisma.LoginSessionUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.LoginSessionUpdateManyWithWhereWithoutUserInput | Prisma.LoginSessionUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.LoginSessionScalarWhereInput | Prisma.LoginSessionScalarWhereInput[]
+}
+
+export type LoginSessionCreateWithoutUserInput = {
+  refreshTokenHash: string
+  previousTokenHash?: string | null
+  userAgent?: string | null
+  ipAddress?: string | null
+  rotatedAt?: Date | string | null
+  lastActiveAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LoginSessionUncheckedCreateWithoutUserInput = {
+  id?: number
+  refreshTokenHash: string
+  previousTokenHash?: string | null
+  userAgent?: string | null
+  ipAddress?: string | null
+  rotatedAt?: Date | string | null
+  lastActiveAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LoginSessionCreateOrConnectWithoutUserInput = {
+  where: Prisma.LoginSessionWhereUniqueInput
+  create: Prisma.XOR<Prisma.LoginSessionCreateWithoutUserInput, Prisma.LoginSessionUncheckedCreateWithoutUserInput>
+}
+
+export type LoginSessionCreateManyUserInputEnvelope = {
+  data: Prisma.LoginSessionCreateManyUserInput | Prisma.LoginSessionCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type LoginSessionUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.LoginSessionWhereUniqueInput
+  update: Prisma.XOR<Prisma.LoginSessionUpdateWithoutUserInput, Prisma.LoginSessionUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.LoginSessionCreateWithoutUserInput, Prisma.LoginSessionUncheckedCreateWithoutUserInput>
+}
+
+export type LoginSessionUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.LoginSessionWhereUniqueInput
+  data: Prisma.XOR<Prisma.LoginSessionUpdateWithoutUserInput, Prisma.LoginSessionUncheckedUpdateWithoutUserInput>
+}
+
+export type LoginSessionUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.LoginSessionScalarWhereInput
+  data: Prisma.XOR<Prisma.LoginSessionUpdateManyMutationInput, Prisma.LoginSessionUncheckedUpdateManyWithoutUserInput>
+}
+
+export type LoginSessionScalarWhereInput = {
+  AND?: Prisma.LoginSessionScalarWhereInput | Prisma.LoginSessionScalarWhereInput[]
+  OR?: Prisma.LoginSessionScalarWhereInput[]
+  NOT?: Prisma.LoginSessionScalarWhereInput | Prisma.LoginSessionScalarWhereInput[]
+  id?: Prisma.IntFilter<"LoginSession"> | number
+  refreshTokenHash?: Prisma.StringFilter<"LoginSession"> | string
+  previousTokenHash?: Prisma.StringNullableFilter<"LoginSession"> | string | null
+  userId?: Prisma.IntFilter<"LoginSession"> | number
+  userAgent?: Prisma.StringNullableFilter<"LoginSession"> | string | null
+  ipAddress?: Prisma.StringNullableFilter<"LoginSession"> | string | null
+  rotatedAt?: Prisma.DateTimeNullableFilter<"LoginSession"> | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+  expiresAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+  revokedAt?: Prisma.DateTimeNullableFilter<"LoginSession"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"LoginSession"> | Date | string
+}
+
+export type LoginSessionCreateManyUserInput = {
+  id?: number
+  refreshTokenHash: string
+  previousTokenHash?: string | null
+  userAgent?: string | null
+  ipAddress?: string | null
+  rotatedAt?: Date | string | null
+  lastActiveAt?: Date | string
+  expiresAt: Date | string
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type LoginSessionUpdateWithoutUserInput = {
+  refreshTokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  previousTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginSessionUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  refreshTokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  previousTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type LoginSessionUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  refreshTokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  previousTokenHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  userAgent?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ipAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  rotatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  lastActiveAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type LoginSessionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refreshTokenHash?: boolean
+  previousTokenHash?: boolean
+  userId?: boolean
+  userAgent?: boolean
+  ipAddress?: boolean
+  rotatedAt?: boolean
+  lastActiveAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["loginSession"]>
+
+export type LoginSessionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refreshTokenHash?: boolean
+  previousTokenHash?: boolean
+  userId?: boolean
+  userAgent?: boolean
+  ipAddress?: boolean
+  rotatedAt?: boolean
+  lastActiveAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["loginSession"]>
+
+export type LoginSessionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  refreshTokenHash?: boolean
+  previousTokenHash?: boolean
+  userId?: boolean
+  userAgent?: boolean
+  ipAddress?: boolean
+  rotatedAt?: boolean
+  lastActiveAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["loginSession"]>
+
+export type LoginSessionSelectScalar = {
+  id?: boolean
+  refreshTokenHash?: boolean
+  previousTokenHash?: boolean
+  userId?: boolean
+  userAgent?: boolean
+  ipAddress?: boolean
+  rotatedAt?: boolean
+  lastActiveAt?: boolean
+  expiresAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+}
+
+export type LoginSessionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "refreshTokenHash" | "previousTokenHash" | "userId" | "userAgent" | "ipAddress" | "rotatedAt" | "lastActiveAt" | "expiresAt" | "revokedAt" | "createdAt", ExtArgs["result"]["loginSession"]>
+export type LoginSessionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type LoginSessionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type LoginSessionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $LoginSessionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "LoginSession"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    refreshTokenHash: string
+    previousTokenHash: string | null
+    userId: number
+    userAgent: string | null
+    ipAddress: string | null
+    rotatedAt: Date | null
+    lastActiveAt: Date
+    expiresAt: Date
+    revokedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["loginSession"]>
+  composites: {}
+}
+
+export type LoginSessionGetPayload<S extends boolean | null | undefined | LoginSessionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload, S>
+
+export type LoginSessionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<LoginSessionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: LoginSessionCountAggregateInputType | true
+  }
+
+export interface LoginSessionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['LoginSession'], meta: { name: 'LoginSession' } }
+  /**
+   * Find zero or one LoginSession that matches the filter.
+   * @param {LoginSessionFindUniqueArgs} args - Arguments to find a LoginSession
+   * @example
+   * // Get one LoginSession
+   * const loginSession = await prisma.loginSession.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends LoginSessionFindUniqueArgs>(args: Prisma.SelectSubset<T, LoginSessionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__LoginSessionClient<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one LoginSession that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {LoginSessionFindUniqueOrThrowArgs} args - Arguments to find a LoginSession
+   * @example
+   * // Get one LoginSession
+   * const loginSession = await prisma.loginSession.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends LoginSessionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, LoginSessionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__LoginSessionClient<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LoginSession that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginSessionFindFirstArgs} args - Arguments to find a LoginSession
+   * @example
+   * // Get one LoginSession
+   * const loginSession = await prisma.loginSession.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends LoginSessionFindFirstArgs>(args?: Prisma.SelectSubset<T, LoginSessionFindFirstArgs<ExtArgs>>): Prisma.Prisma__LoginSessionClient<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first LoginSession that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginSessionFindFirstOrThrowArgs} args - Arguments to find a LoginSession
+   * @example
+   * // Get one LoginSession
+   * const loginSession = await prisma.loginSession.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends LoginSessionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, LoginSessionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__LoginSessionClient<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more LoginSessions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginSessionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all LoginSessions
+   * const loginSessions = await prisma.loginSession.findMany()
+   * 
+   * // Get first 10 LoginSessions
+   * const loginSessions = await prisma.loginSession.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const loginSessionWithIdOnly = await prisma.loginSession.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends LoginSessionFindManyArgs>(args?: Prisma.SelectSubset<T, LoginSessionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a LoginSession.
+   * @param {LoginSessionCreateArgs} args - Arguments to create a LoginSession.
+   * @example
+   * // Create one LoginSession
+   * const LoginSession = await prisma.loginSession.create({
+   *   data: {
+   *     // ... data to create a LoginSession
+   *   }
+   * })
+   * 
+   */
+  create<T extends LoginSessionCreateArgs>(args: Prisma.SelectSubset<T, LoginSessionCreateArgs<ExtArgs>>): Prisma.Prisma__LoginSessionClient<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many LoginSessions.
+   * @param {LoginSessionCreateManyArgs} args - Arguments to create many LoginSessions.
+   * @example
+   * // Create many LoginSessions
+   * const loginSession = await prisma.loginSession.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends LoginSessionCreateManyArgs>(args?: Prisma.SelectSubset<T, LoginSessionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many LoginSessions and returns the data saved in the database.
+   * @param {LoginSessionCreateManyAndReturnArgs} args - Arguments to create many LoginSessions.
+   * @example
+   * // Create many LoginSessions
+   * const loginSession = await prisma.loginSession.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many LoginSessions and only return the `id`
+   * const loginSessionWithIdOnly = await prisma.loginSession.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends LoginSessionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, LoginSessionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a LoginSession.
+   * @param {LoginSessionDeleteArgs} args - Arguments to delete one LoginSession.
+   * @example
+   * // Delete one LoginSession
+   * const LoginSession = await prisma.loginSession.delete({
+   *   where: {
+   *     // ... filter to delete one LoginSession
+   *   }
+   * })
+   * 
+   */
+  delete<T extends LoginSessionDeleteArgs>(args: Prisma.SelectSubset<T, LoginSessionDeleteArgs<ExtArgs>>): Prisma.Prisma__LoginSessionClient<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one LoginSession.
+   * @param {LoginSessionUpdateArgs} args - Arguments to update one LoginSession.
+   * @example
+   * // Update one LoginSession
+   * const loginSession = await prisma.loginSession.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends LoginSessionUpdateArgs>(args: Prisma.SelectSubset<T, LoginSessionUpdateArgs<ExtArgs>>): Prisma.Prisma__LoginSessionClient<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more LoginSessions.
+   * @param {LoginSessionDeleteManyArgs} args - Arguments to filter LoginSessions to delete.
+   * @example
+   * // Delete a few LoginSessions
+   * const { count } = await prisma.loginSession.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends LoginSessionDeleteManyArgs>(args?: Prisma.SelectSubset<T, LoginSessionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LoginSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginSessionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many LoginSessions
+   * const loginSession = await prisma.loginSession.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends LoginSessionUpdateManyArgs>(args: Prisma.SelectSubset<T, LoginSessionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more LoginSessions and returns the data updated in the database.
+   * @param {LoginSessionUpdateManyAndReturnArgs} args - Arguments to update many LoginSessions.
+   * @example
+   * // Update many LoginSessions
+   * const loginSession = await prisma.loginSession.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more LoginSessions and only return the `id`
+   * const loginSessionWithIdOnly = await prisma.loginSession.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends LoginSessionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, LoginSessionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one LoginSession.
+   * @param {LoginSessionUpsertArgs} args - Arguments to update or create a LoginSession.
+   * @example
+   * // Update or create a LoginSession
+   * const loginSession = await prisma.loginSession.upsert({
+   *   create: {
+   *     // ... data to create a LoginSession
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the LoginSession we want to update
+   *   }
+   * })
+   */
+  upsert<T extends LoginSessionUpsertArgs>(args: Prisma.SelectSubset<T, LoginSessionUpsertArgs<ExtArgs>>): Prisma.Prisma__LoginSessionClient<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of LoginSessions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginSessionCountArgs} args - Arguments to filter LoginSessions to count.
+   * @example
+   * // Count the number of LoginSessions
+   * const count = await prisma.loginSession.count({
+   *   where: {
+   *     // ... the filter for the LoginSessions we want to count
+   *   }
+   * })
+  **/
+  count<T extends LoginSessionCountArgs>(
+    args?: Prisma.Subset<T, LoginSessionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], LoginSessionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a LoginSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginSessionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends LoginSessionAggregateArgs>(args: Prisma.Subset<T, LoginSessionAggregateArgs>): Prisma.PrismaPromise<GetLoginSessionAggregateType<T>>
+
+  /**
+   * Group by LoginSession.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {LoginSessionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends LoginSessionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: LoginSessionGroupByArgs['orderBy'] }
+      : { orderBy?: LoginSessionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, LoginSessionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetLoginSessionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the LoginSession model
+ */
+readonly fields: LoginSessionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for LoginSession.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__LoginSessionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the LoginSession model
+ */
+export interface LoginSessionFieldRefs {
+  readonly id: Prisma.FieldRef<"LoginSession", 'Int'>
+  readonly refreshTokenHash: Prisma.FieldRef<"LoginSession", 'String'>
+  readonly previousTokenHash: Prisma.FieldRef<"LoginSession", 'String'>
+  readonly userId: Prisma.FieldRef<"LoginSession", 'Int'>
+  readonly userAgent: Prisma.FieldRef<"LoginSession", 'String'>
+  readonly ipAddress: Prisma.FieldRef<"LoginSession", 'String'>
+  readonly rotatedAt: Prisma.FieldRef<"LoginSession", 'DateTime'>
+  readonly lastActiveAt: Prisma.FieldRef<"LoginSession", 'DateTime'>
+  readonly expiresAt: Prisma.FieldRef<"LoginSession", 'DateTime'>
+  readonly revokedAt: Prisma.FieldRef<"LoginSession", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"LoginSession", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * LoginSession findUnique
+ */
+export type LoginSessionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginSession to fetch.
+   */
+  where: Prisma.LoginSessionWhereUniqueInput
+}
+
+/**
+ * LoginSession findUniqueOrThrow
+ */
+export type LoginSessionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginSession to fetch.
+   */
+  where: Prisma.LoginSessionWhereUniqueInput
+}
+
+/**
+ * LoginSession findFirst
+ */
+export type LoginSessionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginSession to fetch.
+   */
+  where?: Prisma.LoginSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LoginSessions to fetch.
+   */
+  orderBy?: Prisma.LoginSessionOrderByWithRelationInput | Prisma.LoginSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LoginSessions.
+   */
+  cursor?: Prisma.LoginSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LoginSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LoginSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LoginSessions.
+   */
+  distinct?: Prisma.LoginSessionScalarFieldEnum | Prisma.LoginSessionScalarFieldEnum[]
+}
+
+/**
+ * LoginSession findFirstOrThrow
+ */
+export type LoginSessionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginSession to fetch.
+   */
+  where?: Prisma.LoginSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LoginSessions to fetch.
+   */
+  orderBy?: Prisma.LoginSessionOrderByWithRelationInput | Prisma.LoginSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for LoginSessions.
+   */
+  cursor?: Prisma.LoginSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LoginSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LoginSessions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of LoginSessions.
+   */
+  distinct?: Prisma.LoginSessionScalarFieldEnum | Prisma.LoginSessionScalarFieldEnum[]
+}
+
+/**
+ * LoginSession findMany
+ */
+export type LoginSessionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * Filter, which LoginSessions to fetch.
+   */
+  where?: Prisma.LoginSessionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of LoginSessions to fetch.
+   */
+  orderBy?: Prisma.LoginSessionOrderByWithRelationInput | Prisma.LoginSessionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing LoginSessions.
+   */
+  cursor?: Prisma.LoginSessionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` LoginSessions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` LoginSessions.
+   */
+  skip?: number
+  distinct?: Prisma.LoginSessionScalarFieldEnum | Prisma.LoginSessionScalarFieldEnum[]
+}
+
+/**
+ * LoginSession create
+ */
+export type LoginSessionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a LoginSession.
+   */
+  data: Prisma.XOR<Prisma.LoginSessionCreateInput, Prisma.LoginSessionUncheckedCreateInput>
+}
+
+/**
+ * LoginSession createMany
+ */
+export type LoginSessionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many LoginSessions.
+   */
+  data: Prisma.LoginSessionCreateManyInput | Prisma.LoginSessionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * LoginSession createManyAndReturn
+ */
+export type LoginSessionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * The data used to create many LoginSessions.
+   */
+  data: Prisma.LoginSessionCreateManyInput | Prisma.LoginSessionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * LoginSession update
+ */
+export type LoginSessionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a LoginSession.
+   */
+  data: Prisma.XOR<Prisma.LoginSessionUpdateInput, Prisma.LoginSessionUncheckedUpdateInput>
+  /**
+   * Choose, which LoginSession to update.
+   */
+  where: Prisma.LoginSessionWhereUniqueInput
+}
+
+/**
+ * LoginSession updateMany
+ */
+export type LoginSessionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update LoginSessions.
+   */
+  data: Prisma.XOR<Prisma.LoginSessionUpdateManyMutationInput, Prisma.LoginSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which LoginSessions to update
+   */
+  where?: Prisma.LoginSessionWhereInput
+  /**
+   * Limit how many LoginSessions to update.
+   */
+  limit?: number
+}
+
+/**
+ * LoginSession updateManyAndReturn
+ */
+export type LoginSessionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * The data used to update LoginSessions.
+   */
+  data: Prisma.XOR<Prisma.LoginSessionUpdateManyMutationInput, Prisma.LoginSessionUncheckedUpdateManyInput>
+  /**
+   * Filter which LoginSessions to update
+   */
+  where?: Prisma.LoginSessionWhereInput
+  /**
+   * Limit how many LoginSessions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * LoginSession upsert
+ */
+export type LoginSessionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the LoginSession to update in case it exists.
+   */
+  where: Prisma.LoginSessionWhereUniqueInput
+  /**
+   * In case the LoginSession found by the `where` argument doesn't exist, create a new LoginSession with this data.
+   */
+  create: Prisma.XOR<Prisma.LoginSessionCreateInput, Prisma.LoginSessionUncheckedCreateInput>
+  /**
+   * In case the LoginSession was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.LoginSessionUpdateInput, Prisma.LoginSessionUncheckedUpdateInput>
+}
+
+/**
+ * LoginSession delete
+ */
+export type LoginSessionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  /**
+   * Filter which LoginSession to delete.
+   */
+  where: Prisma.LoginSessionWhereUniqueInput
+}
+
+/**
+ * LoginSession deleteMany
+ */
+export type LoginSessionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which LoginSessions to delete
+   */
+  where?: Prisma.LoginSessionWhereInput
+  /**
+   * Limit how many LoginSessions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * LoginSession without action
+ */
+export type LoginSessionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+}
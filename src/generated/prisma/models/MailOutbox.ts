@@ -0,0 +1,1726 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `MailOutbox` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model MailOutbox
+ * 
+ */
+export type MailOutboxModel = runtime.Types.Result.DefaultSelection<Prisma.$MailOutboxPayload>
+
+export type AggregateMailOutbox = {
+  _count: MailOutboxCountAggregateOutputType | null
+  _avg: MailOutboxAvgAggregateOutputType | null
+  _sum: MailOutboxSumAggregateOutputType | null
+  _min: MailOutboxMinAggregateOutputType | null
+  _max: MailOutboxMaxAggregateOutputType | null
+}
+
+export type MailOutboxAvgAggregateOutputType = {
+  id: number | null
+  requestedById: number | null
+  attempts: number | null
+}
+
+export type MailOutboxSumAggregateOutputType = {
+  id: number | null
+  requestedById: number | null
+  attempts: number | null
+}
+
+export type MailOutboxMinAggregateOutputType = {
+  id: number | null
+  to: string | null
+  subject: string | null
+  template: string | null
+  status: $Enums.MailStatus | null
+  requestedById: number | null
+  attempts: number | null
+  lastError: string | null
+  nextAttemptAt: Date | null
+  sentAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type MailOutboxMaxAggregateOutputType = {
+  id: number | null
+  to: string | null
+  subject: string | null
+  template: string | null
+  status: $Enums.MailStatus | null
+  requestedById: number | null
+  attempts: number | null
+  lastError: string | null
+  nextAttemptAt: Date | null
+  sentAt: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type MailOutboxCountAggregateOutputType = {
+  id: number
+  to: number
+  subject: number
+  template: number
+  context: number
+  status: number
+  secretFields: number
+  requestedById: number
+  attempts: number
+  lastError: number
+  nextAttemptAt: number
+  sentAt: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type MailOutboxAvgAggregateInputType = {
+  id?: true
+  requestedById?: true
+  attempts?: true
+}
+
+export type MailOutboxSumAggregateInputType = {
+  id?: true
+  requestedById?: true
+  attempts?: true
+}
+
+export type MailOutboxMinAggregateInputType = {
+  id?: true
+  to?: true
+  subject?: true
+  template?: true
+  status?: true
+  requestedById?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  sentAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type MailOutboxMaxAggregateInputType = {
+  id?: true
+  to?: true
+  subject?: true
+  template?: true
+  status?: true
+  requestedById?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  sentAt?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type MailOutboxCountAggregateInputType = {
+  id?: true
+  to?: true
+  subject?: true
+  template?: true
+  context?: true
+  status?: true
+  secretFields?: true
+  requestedById?: true
+  attempts?: true
+  lastError?: true
+  nextAttemptAt?: true
+  sentAt?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type MailOutboxAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MailOutbox to aggregate.
+   */
+  where?: Prisma.MailOutboxWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MailOutboxes to fetch.
+   */
+  orderBy?: Prisma.MailOutboxOrderByWithRelationInput | Prisma.MailOutboxOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.MailOutboxWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MailOutboxes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MailOutboxes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned MailOutboxes
+  **/
+  _count?: true | MailOutboxCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: MailOutboxAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: MailOutboxSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: MailOutboxMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: MailOutboxMaxAggregateInputType
+}
+
+export type GetMailOutboxAggregateType<T extends MailOutboxAggregateArgs> = {
+      [P in keyof T & keyof AggregateMailOutbox]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateMailOutbox[P]>
+    : Prisma.GetScalarType<T[P], AggregateMailOutbox[P]>
+}
+
+
+
+
+export type MailOutboxGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MailOutboxWhereInput
+  orderBy?: Prisma.MailOutboxOrderByWithAggregationInput | Prisma.MailOutboxOrderByWithAggregationInput[]
+  by: Prisma.MailOutboxScalarFieldEnum[] | Prisma.MailOutboxScalarFieldEnum
+  having?: Prisma.MailOutboxScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: MailOutboxCountAggregateInputType | true
+  _avg?: MailOutboxAvgAggregateInputType
+  _sum?: MailOutboxSumAggregateInputType
+  _min?: MailOutboxMinAggregateInputType
+  _max?: MailOutboxMaxAggregateInputType
+}
+
+export type MailOutboxGroupByOutputType = {
+  id: number
+  to: string
+  subject: string
+  template: string
+  context: runtime.JsonValue
+  status: $Enums.MailStatus
+  secretFields: string[]
+  requestedById: number | null
+  attempts: number
+  lastError: string | null
+  nextAttemptAt: Date
+  sentAt: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: MailOutboxCountAggregateOutputType | null
+  _avg: MailOutboxAvgAggregateOutputType | null
+  _sum: MailOutboxSumAggregateOutputType | null
+  _min: MailOutboxMinAggregateOutputType | null
+  _max: MailOutboxMaxAggregateOutputType | null
+}
+
+type GetMailOutboxGroupByPayload<T extends MailOutboxGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<MailOutboxGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof MailOutboxGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], MailOutboxGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], MailOutboxGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type MailOutboxWhereInput = {
+  AND?: Prisma.MailOutboxWhereInput | Prisma.MailOutboxWhereInput[]
+  OR?: Prisma.MailOutboxWhereInput[]
+  NOT?: Prisma.MailOutboxWhereInput | Prisma.MailOutboxWhereInput[]
+  id?: Prisma.IntFilter<"MailOutbox"> | number
+  to?: Prisma.StringFilter<"MailOutbox"> | string
+  subject?: Prisma.StringFilter<"MailOutbox"> | string
+  template?: Prisma.StringFilter<"MailOutbox"> | string
+  context?: Prisma.JsonFilter<"MailOutbox">
+  status?: Prisma.EnumMailStatusFilter<"MailOutbox"> | $Enums.MailStatus
+  secretFields?: Prisma.StringNullableListFilter<"MailOutbox">
+  requestedById?: Prisma.IntNullableFilter<"MailOutbox"> | number | null
+  attempts?: Prisma.IntFilter<"MailOutbox"> | number
+  lastError?: Prisma.StringNullableFilter<"MailOutbox"> | string | null
+  nextAttemptAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+  sentAt?: Prisma.DateTimeNullableFilter<"MailOutbox"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+  requestedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type MailOutboxOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  template?: Prisma.SortOrder
+  context?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  secretFields?: Prisma.SortOrder
+  requestedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  requestedBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type MailOutboxWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.MailOutboxWhereInput | Prisma.MailOutboxWhereInput[]
+  OR?: Prisma.MailOutboxWhereInput[]
+  NOT?: Prisma.MailOutboxWhereInput | Prisma.MailOutboxWhereInput[]
+  to?: Prisma.StringFilter<"MailOutbox"> | string
+  subject?: Prisma.StringFilter<"MailOutbox"> | string
+  template?: Prisma.StringFilter<"MailOutbox"> | string
+  context?: Prisma.JsonFilter<"MailOutbox">
+  status?: Prisma.EnumMailStatusFilter<"MailOutbox"> | $Enums.MailStatus
+  secretFields?: Prisma.StringNullableListFilter<"MailOutbox">
+  requestedById?: Prisma.IntNullableFilter<"MailOutbox"> | number | null
+  attempts?: Prisma.IntFilter<"MailOutbox"> | number
+  lastError?: Prisma.StringNullableFilter<"MailOutbox"> | string | null
+  nextAttemptAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+  sentAt?: Prisma.DateTimeNullableFilter<"MailOutbox"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+  requestedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type MailOutboxOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  template?: Prisma.SortOrder
+  context?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  secretFields?: Prisma.SortOrder
+  requestedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.MailOutboxCountOrderByAggregateInput
+  _avg?: Prisma.MailOutboxAvgOrderByAggregateInput
+  _max?: Prisma.MailOutboxMaxOrderByAggregateInput
+  _min?: Prisma.MailOutboxMinOrderByAggregateInput
+  _sum?: Prisma.MailOutboxSumOrderByAggregateInput
+}
+
+export type MailOutboxScalarWhereWithAggregatesInput = {
+  AND?: Prisma.MailOutboxScalarWhereWithAggregatesInput | Prisma.MailOutboxScalarWhereWithAggregatesInput[]
+  OR?: Prisma.MailOutboxScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.MailOutboxScalarWhereWithAggregatesInput | Prisma.MailOutboxScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"MailOutbox"> | number
+  to?: Prisma.StringWithAggregatesFilter<"MailOutbox"> | string
+  subject?: Prisma.StringWithAggregatesFilter<"MailOutbox"> | string
+  template?: Prisma.StringWithAggregatesFilter<"MailOutbox"> | string
+  context?: Prisma.JsonWithAggregatesFilter<"MailOutbox">
+  status?: Prisma.EnumMailStatusWithAggregatesFilter<"MailOutbox"> | $Enums.MailStatus
+  secretFields?: Prisma.StringNullableListFilter<"MailOutbox">
+  requestedById?: Prisma.IntNullableWithAggregatesFilter<"MailOutbox"> | number | null
+  attempts?: Prisma.IntWithAggregatesFilter<"MailOutbox"> | number
+  lastError?: Prisma.StringNullableWithAggregatesFilter<"MailOutbox"> | string | null
+  nextAttemptAt?: Prisma.DateTimeWithAggregatesFilter<"MailOutbox"> | Date | string
+  sentAt?: Prisma.DateTimeNullableWithAggregatesFilter<"MailOutbox"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"MailOutbox"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"MailOutbox"> | Date | string
+}
+
+export type MailOutboxCreateInput = {
+  to: string
+  subject: string
+  template: string
+  context: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxCreatesecretFieldsInput | string[]
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  requestedBy?: Prisma.UserCreateNestedOneWithoutRequestedMailsInput
+}
+
+export type MailOutboxUncheckedCreateInput = {
+  id?: number
+  to: string
+  subject: string
+  template: string
+  context: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxCreatesecretFieldsInput | string[]
+  requestedById?: number | null
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type MailOutboxUpdateInput = {
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  template?: Prisma.StringFieldUpdateOperationsInput | string
+  context?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumMailStatusFieldUpdateOperationsInput | $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxUpdatesecretFieldsInput | string[]
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  requestedBy?: Prisma.UserUpdateOneWithoutRequestedMailsNestedInput
+}
+
+export type MailOutboxUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  template?: Prisma.StringFieldUpdateOperationsInput | string
+  context?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumMailStatusFieldUpdateOperationsInput | $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxUpdatesecretFieldsInput | string[]
+  requestedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MailOutboxCreateManyInput = {
+  id?: number
+  to: string
+  subject: string
+  template: string
+  context: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxCreatesecretFieldsInput | string[]
+  requestedById?: number | null
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type MailOutboxUpdateManyMutationInput = {
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  template?: Prisma.StringFieldUpdateOperationsInput | string
+  context?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumMailStatusFieldUpdateOperationsInput | $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxUpdatesecretFieldsInput | string[]
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MailOutboxUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  template?: Prisma.StringFieldUpdateOperationsInput | string
+  context?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumMailStatusFieldUpdateOperationsInput | $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxUpdatesecretFieldsInput | string[]
+  requestedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MailOutboxCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  template?: Prisma.SortOrder
+  context?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  secretFields?: Prisma.SortOrder
+  requestedById?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type MailOutboxAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requestedById?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+}
+
+export type MailOutboxMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  template?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  requestedById?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type MailOutboxMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  to?: Prisma.SortOrder
+  subject?: Prisma.SortOrder
+  template?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  requestedById?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastError?: Prisma.SortOrder
+  nextAttemptAt?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type MailOutboxSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  requestedById?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+}
+
+export type MailOutboxListRelationFilter = {
+  every?: Prisma.MailOutboxWhereInput
+  some?: Prisma.MailOutboxWhereInput
+  none?: Prisma.MailOutboxWhereInput
+}
+
+export type MailOutboxOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type MailOutboxCreatesecretFieldsInput = {
+  set: string[]
+}
+
+export type EnumMailStatusFieldUpdateOperationsInput = {
+  set?: $Enums.MailStatus
+}
+
+export type MailOutboxUpdatesecretFieldsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type MailOutboxCreateNestedManyWithoutRequestedByInput = {
+  create?: Prisma.XOR<Prisma.MailOutboxCreateWithoutRequestedByInput, Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput> | Prisma.MailOutboxCreateWithoutRequestedByInput[] | Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput[]
+  connectOrCreate?: Prisma.MailOutboxCreateOrConnectWithoutRequestedByInput | Prisma.MailOutboxCreateOrConnectWithoutRequestedByInput[]
+  createMany?: Prisma.MailOutboxCreateManyRequestedByInputEnvelope
+  connect?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+}
+
+export type MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput = {
+  create?: Prisma.XOR<Prisma.MailOutboxCreateWithoutRequestedByInput, Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput> | Prisma.MailOutboxCreateWithoutRequestedByInput[] | Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput[]
+  connectOrCreate?: Prisma.MailOutboxCreateOrConnectWithoutRequestedByInput | Prisma.MailOutboxCreateOrConnectWithoutRequestedByInput[]
+  createMany?: Prisma.MailOutboxCreateManyRequestedByInputEnvelope
+  connect?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+}
+
+export type MailOutboxUpdateManyWithoutRequestedByNestedInput = {
+  create?: Prisma.XOR<Prisma.MailOutboxCreateWithoutRequestedByInput, Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput> | Prisma.MailOutboxCreateWithoutRequestedByInput[] | Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput[]
+  connectOrCreate?: Prisma.MailOutboxCreateOrConnectWithoutRequestedByInput | Prisma.MailOutboxCreateOrConnectWithoutRequestedByInput[]
+  upsert?: Prisma.MailOutboxUpsertWithWhereUniqueWithoutRequestedByInput | Prisma.MailOutboxUpsertWithWhereUniqueWithoutRequestedByInput[]
+  createMany?: Prisma.MailOutboxCreateManyRequestedByInputEnvelope
+  set?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+  disconnect?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+  delete?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+  connect?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+  update?: Prisma.MailOutboxUpdateWithWhereUniqueWithoutRequestedByInput | Prisma.MailOutboxUpdateWithWhereUniqueWithoutRequestedByInput[]
+  updateMany?: Prisma.MailOutboxUpdateManyWithWhereWithoutRequestedByInput | Prisma.MailOutboxUpdateManyWithWhereWithoutRequestedByInput[]
+  deleteMany?: Prisma.MailOutboxScalarWhereInput | Prisma.MailOutboxScalarWhereInput[]
+}
+
+export type MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput = {
+  create?: Prisma.XOR<Prisma.MailOutboxCreateWithoutRequestedByInput, Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput> | Prisma.MailOutboxCreateWithoutRequestedByInput[] | Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput[]
+  connectOrCreate?: Prisma.MailOutboxCreateOrConnectWithoutRequestedByInput | Prisma.MailOutboxCreateOrConnectWithoutRequestedByInput[]
+  upsert?: Prisma.MailOutboxUpsertWithWhereUniqueWithoutRequestedByInput | Prisma.MailOutboxUpsertWithWhereUniqueWithoutRequestedByInput[]
+  createMany?: Prisma.MailOutboxCreateManyRequestedByInputEnvelope
+  set?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+  disconnect?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+  delete?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+  connect?: Prisma.MailOutboxWhereUniqueInput | Prisma.MailOutboxWhereUniqueInput[]
+  update?: Prisma.MailOutboxUpdateWithWhereUniqueWithoutRequestedByInput | Prisma.MailOutboxUpdateWithWhereUniqueWithoutRequestedByInput[]
+  updateMany?: Prisma.MailOutboxUpdateManyWithWhereWithoutRequestedByInput | Prisma.MailOutboxUpdateManyWithWhereWithoutRequestedByInput[]
+  deleteMany?: Prisma.MailOutboxScalarWhereInput | Prisma.MailOutboxScalarWhereInput[]
+}
+
+export type MailOutboxCreateWithoutRequestedByInput = {
+  to: string
+  subject: string
+  template: string
+  context: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxCreatesecretFieldsInput | string[]
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type MailOutboxUncheckedCreateWithoutRequestedByInput = {
+  id?: number
+  to: string
+  subject: string
+  template: string
+  context: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxCreatesecretFieldsInput | string[]
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type MailOutboxCreateOrConnectWithoutRequestedByInput = {
+  where: Prisma.MailOutboxWhereUniqueInput
+  create: Prisma.XOR<Prisma.MailOutboxCreateWithoutRequestedByInput, Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput>
+}
+
+export type MailOutboxCreateManyRequestedByInputEnvelope = {
+  data: Prisma.MailOutboxCreateManyRequestedByInput | Prisma.MailOutboxCreateManyRequestedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type MailOutboxUpsertWithWhereUniqueWithoutRequestedByInput = {
+  where: Prisma.MailOutboxWhereUniqueInput
+  update: Prisma.XOR<Prisma.MailOutboxUpdateWithoutRequestedByInput, Prisma.MailOutboxUncheckedUpdateWithoutRequestedByInput>
+  create: Prisma.XOR<Prisma.MailOutboxCreateWithoutRequestedByInput, Prisma.MailOutboxUncheckedCreateWithoutRequestedByInput>
+}
+
+export type MailOutboxUpdateWithWhereUniqueWithoutRequestedByInput = {
+  where: Prisma.MailOutboxWhereUniqueInput
+  data: Prisma.XOR<Prisma.MailOutboxUpdateWithoutRequestedByInput, Prisma.MailOutboxUncheckedUpdateWithoutRequestedByInput>
+}
+
+export type MailOutboxUpdateManyWithWhereWithoutRequestedByInput = {
+  where: Prisma.MailOutboxScalarWhereInput
+  data: Prisma.XOR<Prisma.MailOutboxUpdateManyMutationInput, Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByInput>
+}
+
+export type MailOutboxScalarWhereInput = {
+  AND?: Prisma.MailOutboxScalarWhereInput | Prisma.MailOutboxScalarWhereInput[]
+  OR?: Prisma.MailOutboxScalarWhereInput[]
+  NOT?: Prisma.MailOutboxScalarWhereInput | Prisma.MailOutboxScalarWhereInput[]
+  id?: Prisma.IntFilter<"MailOutbox"> | number
+  to?: Prisma.StringFilter<"MailOutbox"> | string
+  subject?: Prisma.StringFilter<"MailOutbox"> | string
+  template?: Prisma.StringFilter<"MailOutbox"> | string
+  context?: Prisma.JsonFilter<"MailOutbox">
+  status?: Prisma.EnumMailStatusFilter<"MailOutbox"> | $Enums.MailStatus
+  secretFields?: Prisma.StringNullableListFilter<"MailOutbox">
+  requestedById?: Prisma.IntNullableFilter<"MailOutbox"> | number | null
+  attempts?: Prisma.IntFilter<"MailOutbox"> | number
+  lastError?: Prisma.StringNullableFilter<"MailOutbox"> | string | null
+  nextAttemptAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+  sentAt?: Prisma.DateTimeNullableFilter<"MailOutbox"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"MailOutbox"> | Date | string
+}
+
+export type MailOutboxCreateManyRequestedByInput = {
+  id?: number
+  to: string
+  subject: string
+  template: string
+  context: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxCreatesecretFieldsInput | string[]
+  attempts?: number
+  lastError?: string | null
+  nextAttemptAt?: Date | string
+  sentAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type MailOutboxUpdateWithoutRequestedByInput = {
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  template?: Prisma.StringFieldUpdateOperationsInput | string
+  context?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumMailStatusFieldUpdateOperationsInput | $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxUpdatesecretFieldsInput | string[]
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MailOutboxUncheckedUpdateWithoutRequestedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  template?: Prisma.StringFieldUpdateOperationsInput | string
+  context?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumMailStatusFieldUpdateOperationsInput | $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxUpdatesecretFieldsInput | string[]
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type MailOutboxUncheckedUpdateManyWithoutRequestedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  to?: Prisma.StringFieldUpdateOperationsInput | string
+  subject?: Prisma.StringFieldUpdateOperationsInput | string
+  template?: Prisma.StringFieldUpdateOperationsInput | string
+  context?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  status?: Prisma.EnumMailStatusFieldUpdateOperationsInput | $Enums.MailStatus
+  secretFields?: Prisma.MailOutboxUpdatesecretFieldsInput | string[]
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nextAttemptAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type MailOutboxSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  to?: boolean
+  subject?: boolean
+  template?: boolean
+  context?: boolean
+  status?: boolean
+  secretFields?: boolean
+  requestedById?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  sentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  requestedBy?: boolean | Prisma.MailOutbox$requestedByArgs<ExtArgs>
+}, ExtArgs["result"]["mailOutbox"]>
+
+export type MailOutboxSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  to?: boolean
+  subject?: boolean
+  template?: boolean
+  context?: boolean
+  status?: boolean
+  secretFields?: boolean
+  requestedById?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  sentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  requestedBy?: boolean | Prisma.MailOutbox$requestedByArgs<ExtArgs>
+}, ExtArgs["result"]["mailOutbox"]>
+
+export type MailOutboxSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  to?: boolean
+  subject?: boolean
+  template?: boolean
+  context?: boolean
+  status?: boolean
+  secretFields?: boolean
+  requestedById?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  sentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  requestedBy?: boolean | Prisma.MailOutbox$requestedByArgs<ExtArgs>
+}, ExtArgs["result"]["mailOutbox"]>
+
+export type MailOutboxSelectScalar = {
+  id?: boolean
+  to?: boolean
+  subject?: boolean
+  template?: boolean
+  context?: boolean
+  status?: boolean
+  secretFields?: boolean
+  requestedById?: boolean
+  attempts?: boolean
+  lastError?: boolean
+  nextAttemptAt?: boolean
+  sentAt?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type MailOutboxOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "to" | "subject" | "template" | "context" | "status" | "secretFields" | "requestedById" | "attempts" | "lastError" | "nextAttemptAt" | "sentAt" | "createdAt" | "updatedAt", ExtArgs["result"]["mailOutbox"]>
+export type MailOutboxInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  requestedBy?: boolean | Prisma.MailOutbox$requestedByArgs<ExtArgs>
+}
+export type MailOutboxIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  requestedBy?: boolean | Prisma.MailOutbox$requestedByArgs<ExtArgs>
+}
+export type MailOutboxIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  requestedBy?: boolean | Prisma.MailOutbox$requestedByArgs<ExtArgs>
+}
+
+export type $MailOutboxPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "MailOutbox"
+  objects: {
+    requestedBy: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    to: string
+    subject: string
+    template: string
+    context: runtime.JsonValue
+    status: $Enums.MailStatus
+    secretFields: string[]
+    requestedById: number | null
+    attempts: number
+    lastError: string | null
+    nextAttemptAt: Date
+    sentAt: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["mailOutbox"]>
+  composites: {}
+}
+
+export type MailOutboxGetPayload<S extends boolean | null | undefined | MailOutboxDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload, S>
+
+export type MailOutboxCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<MailOutboxFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: MailOutboxCountAggregateInputType | true
+  }
+
+export interface MailOutboxDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['MailOutbox'], meta: { name: 'MailOutbox' } }
+  /**
+   * Find zero or one MailOutbox that matches the filter.
+   * @param {MailOutboxFindUniqueArgs} args - Arguments to find a MailOutbox
+   * @example
+   * // Get one MailOutbox
+   * const mailOutbox = await prisma.mailOutbox.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends MailOutboxFindUniqueArgs>(args: Prisma.SelectSubset<T, MailOutboxFindUniqueArgs<ExtArgs>>): Prisma.Prisma__MailOutboxClient<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one MailOutbox that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {MailOutboxFindUniqueOrThrowArgs} args - Arguments to find a MailOutbox
+   * @example
+   * // Get one MailOutbox
+   * const mailOutbox = await prisma.mailOutbox.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends MailOutboxFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, MailOutboxFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__MailOutboxClient<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MailOutbox that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MailOutboxFindFirstArgs} args - Arguments to find a MailOutbox
+   * @example
+   * // Get one MailOutbox
+   * const mailOutbox = await prisma.mailOutbox.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends MailOutboxFindFirstArgs>(args?: Prisma.SelectSubset<T, MailOutboxFindFirstArgs<ExtArgs>>): Prisma.Prisma__MailOutboxClient<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first MailOutbox that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MailOutboxFindFirstOrThrowArgs} args - Arguments to find a MailOutbox
+   * @example
+   * // Get one MailOutbox
+   * const mailOutbox = await prisma.mailOutbox.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends MailOutboxFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, MailOutboxFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__MailOutboxClient<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more MailOutboxes that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MailOutboxFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all MailOutboxes
+   * const mailOutboxes = await prisma.mailOutbox.findMany()
+   * 
+   * // Get first 10 MailOutboxes
+   * const mailOutboxes = await prisma.mailOutbox.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const mailOutboxWithIdOnly = await prisma.mailOutbox.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends MailOutboxFindManyArgs>(args?: Prisma.SelectSubset<T, MailOutboxFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a MailOutbox.
+   * @param {MailOutboxCreateArgs} args - Arguments to create a MailOutbox.
+   * @example
+   * // Create one MailOutbox
+   * const MailOutbox = await prisma.mailOutbox.create({
+   *   data: {
+   *     // ... data to create a MailOutbox
+   *   }
+   * })
+   * 
+   */
+  create<T extends MailOutboxCreateArgs>(args: Prisma.SelectSubset<T, MailOutboxCreateArgs<ExtArgs>>): Prisma.Prisma__MailOutboxClient<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many MailOutboxes.
+   * @param {MailOutboxCreateManyArgs} args - Arguments to create many MailOutboxes.
+   * @example
+   * // Create many MailOutboxes
+   * const mailOutbox = await prisma.mailOutbox.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends MailOutboxCreateManyArgs>(args?: Prisma.SelectSubset<T, MailOutboxCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many MailOutboxes and returns the data saved in the database.
+   * @param {MailOutboxCreateManyAndReturnArgs} args - Arguments to create many MailOutboxes.
+   * @example
+   * // Create many MailOutboxes
+   * const mailOutbox = await prisma.mailOutbox.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many MailOutboxes and only return the `id`
+   * const mailOutboxWithIdOnly = await prisma.mailOutbox.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends MailOutboxCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, MailOutboxCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a MailOutbox.
+   * @param {MailOutboxDeleteArgs} args - Arguments to delete one MailOutbox.
+   * @example
+   * // Delete one MailOutbox
+   * const MailOutbox = await prisma.mailOutbox.delete({
+   *   where: {
+   *     // ... filter to delete one MailOutbox
+   *   }
+   * })
+   * 
+   */
+  delete<T extends MailOutboxDeleteArgs>(args: Prisma.SelectSubset<T, MailOutboxDeleteArgs<ExtArgs>>): Prisma.Prisma__MailOutboxClient<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one MailOutbox.
+   * @param {MailOutboxUpdateArgs} args - Arguments to update one MailOutbox.
+   * @example
+   * // Update one MailOutbox
+   * const mailOutbox = await prisma.mailOutbox.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends MailOutboxUpdateArgs>(args: Prisma.SelectSubset<T, MailOutboxUpdateArgs<ExtArgs>>): Prisma.Prisma__MailOutboxClient<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more MailOutboxes.
+   * @param {MailOutboxDeleteManyArgs} args - Arguments to filter MailOutboxes to delete.
+   * @example
+   * // Delete a few MailOutboxes
+   * const { count } = await prisma.mailOutbox.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends MailOutboxDeleteManyArgs>(args?: Prisma.SelectSubset<T, MailOutboxDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MailOutboxes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MailOutboxUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many MailOutboxes
+   * const mailOutbox = await prisma.mailOutbox.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends MailOutboxUpdateManyArgs>(args: Prisma.SelectSubset<T, MailOutboxUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more MailOutboxes and returns the data updated in the database.
+   * @param {MailOutboxUpdateManyAndReturnArgs} args - Arguments to update many MailOutboxes.
+   * @example
+   * // Update many MailOutboxes
+   * const mailOutbox = await prisma.mailOutbox.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more MailOutboxes and only return the `id`
+   * const mailOutboxWithIdOnly = await prisma.mailOutbox.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends MailOutboxUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, MailOutboxUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one MailOutbox.
+   * @param {MailOutboxUpsertArgs} args - Arguments to update or create a MailOutbox.
+   * @example
+   * // Update or create a MailOutbox
+   * const mailOutbox = await prisma.mailOutbox.upsert({
+   *   create: {
+   *     // ... data to create a MailOutbox
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the MailOutbox we want to update
+   *   }
+   * })
+   */
+  upsert<T extends MailOutboxUpsertArgs>(args: Prisma.SelectSubset<T, MailOutboxUpsertArgs<ExtArgs>>): Prisma.Prisma__MailOutboxClient<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of MailOutboxes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MailOutboxCountArgs} args - Arguments to filter MailOutboxes to count.
+   * @example
+   * // Count the number of MailOutboxes
+   * const count = await prisma.mailOutbox.count({
+   *   where: {
+   *     // ... the filter for the MailOutboxes we want to count
+   *   }
+   * })
+  **/
+  count<T extends MailOutboxCountArgs>(
+    args?: Prisma.Subset<T, MailOutboxCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], MailOutboxCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a MailOutbox.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MailOutboxAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends MailOutboxAggregateArgs>(args: Prisma.Subset<T, MailOutboxAggregateArgs>): Prisma.PrismaPromise<GetMailOutboxAggregateType<T>>
+
+  /**
+   * Group by MailOutbox.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {MailOutboxGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends MailOutboxGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: MailOutboxGroupByArgs['orderBy'] }
+      : { orderBy?: MailOutboxGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, MailOutboxGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetMailOutboxGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the MailOutbox model
+ */
+readonly fields: MailOutboxFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for MailOutbox.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__MailOutboxClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  requestedBy<T extends Prisma.MailOutbox$requestedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MailOutbox$requestedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the MailOutbox model
+ */
+export interface MailOutboxFieldRefs {
+  readonly id: Prisma.FieldRef<"MailOutbox", 'Int'>
+  readonly to: Prisma.FieldRef<"MailOutbox", 'String'>
+  readonly subject: Prisma.FieldRef<"MailOutbox", 'String'>
+  readonly template: Prisma.FieldRef<"MailOutbox", 'String'>
+  readonly context: Prisma.FieldRef<"MailOutbox", 'Json'>
+  readonly status: Prisma.FieldRef<"MailOutbox", 'MailStatus'>
+  readonly secretFields: Prisma.FieldRef<"MailOutbox", 'String[]'>
+  readonly requestedById: Prisma.FieldRef<"MailOutbox", 'Int'>
+  readonly attempts: Prisma.FieldRef<"MailOutbox", 'Int'>
+  readonly lastError: Prisma.FieldRef<"MailOutbox", 'String'>
+  readonly nextAttemptAt: Prisma.FieldRef<"MailOutbox", 'DateTime'>
+  readonly sentAt: Prisma.FieldRef<"MailOutbox", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"MailOutbox", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"MailOutbox", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * MailOutbox findUnique
+ */
+export type MailOutboxFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * Filter, which MailOutbox to fetch.
+   */
+  where: Prisma.MailOutboxWhereUniqueInput
+}
+
+/**
+ * MailOutbox findUniqueOrThrow
+ */
+export type MailOutboxFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * Filter, which MailOutbox to fetch.
+   */
+  where: Prisma.MailOutboxWhereUniqueInput
+}
+
+/**
+ * MailOutbox findFirst
+ */
+export type MailOutboxFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * Filter, which MailOutbox to fetch.
+   */
+  where?: Prisma.MailOutboxWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MailOutboxes to fetch.
+   */
+  orderBy?: Prisma.MailOutboxOrderByWithRelationInput | Prisma.MailOutboxOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MailOutboxes.
+   */
+  cursor?: Prisma.MailOutboxWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MailOutboxes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MailOutboxes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MailOutboxes.
+   */
+  distinct?: Prisma.MailOutboxScalarFieldEnum | Prisma.MailOutboxScalarFieldEnum[]
+}
+
+/**
+ * MailOutbox findFirstOrThrow
+ */
+export type MailOutboxFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * Filter, which MailOutbox to fetch.
+   */
+  where?: Prisma.MailOutboxWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MailOutboxes to fetch.
+   */
+  orderBy?: Prisma.MailOutboxOrderByWithRelationInput | Prisma.MailOutboxOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for MailOutboxes.
+   */
+  cursor?: Prisma.MailOutboxWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MailOutboxes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MailOutboxes.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of MailOutboxes.
+   */
+  distinct?: Prisma.MailOutboxScalarFieldEnum | Prisma.MailOutboxScalarFieldEnum[]
+}
+
+/**
+ * MailOutbox findMany
+ */
+export type MailOutboxFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * Filter, which MailOutboxes to fetch.
+   */
+  where?: Prisma.MailOutboxWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of MailOutboxes to fetch.
+   */
+  orderBy?: Prisma.MailOutboxOrderByWithRelationInput | Prisma.MailOutboxOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing MailOutboxes.
+   */
+  cursor?: Prisma.MailOutboxWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` MailOutboxes from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` MailOutboxes.
+   */
+  skip?: number
+  distinct?: Prisma.MailOutboxScalarFieldEnum | Prisma.MailOutboxScalarFieldEnum[]
+}
+
+/**
+ * MailOutbox create
+ */
+export type MailOutboxCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * The data needed to create a MailOutbox.
+   */
+  data: Prisma.XOR<Prisma.MailOutboxCreateInput, Prisma.MailOutboxUncheckedCreateInput>
+}
+
+/**
+ * MailOutbox createMany
+ */
+export type MailOutboxCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many MailOutboxes.
+   */
+  data: Prisma.MailOutboxCreateManyInput | Prisma.MailOutboxCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * MailOutbox createManyAndReturn
+ */
+export type MailOutboxCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * The data used to create many MailOutboxes.
+   */
+  data: Prisma.MailOutboxCreateManyInput | Prisma.MailOutboxCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * MailOutbox update
+ */
+export type MailOutboxUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * The data needed to update a MailOutbox.
+   */
+  data: Prisma.XOR<Prisma.MailOutboxUpdateInput, Prisma.MailOutboxUncheckedUpdateInput>
+  /**
+   * Choose, which MailOutbox to update.
+   */
+  where: Prisma.MailOutboxWhereUniqueInput
+}
+
+/**
+ * MailOutbox updateMany
+ */
+export type MailOutboxUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update MailOutboxes.
+   */
+  data: Prisma.XOR<Prisma.MailOutboxUpdateManyMutationInput, Prisma.MailOutboxUncheckedUpdateManyInput>
+  /**
+   * Filter which MailOutboxes to update
+   */
+  where?: Prisma.MailOutboxWhereInput
+  /**
+   * Limit how many MailOutboxes to update.
+   */
+  limit?: number
+}
+
+/**
+ * MailOutbox updateManyAndReturn
+ */
+export type MailOutboxUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * The data used to update MailOutboxes.
+   */
+  data: Prisma.XOR<Prisma.MailOutboxUpdateManyMutationInput, Prisma.MailOutboxUncheckedUpdateManyInput>
+  /**
+   * Filter which MailOutboxes to update
+   */
+  where?: Prisma.MailOutboxWhereInput
+  /**
+   * Limit how many MailOutboxes to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * MailOutbox upsert
+ */
+export type MailOutboxUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * The filter to search for the MailOutbox to update in case it exists.
+   */
+  where: Prisma.MailOutboxWhereUniqueInput
+  /**
+   * In case the MailOutbox found by the `where` argument doesn't exist, create a new MailOutbox with this data.
+   */
+  create: Prisma.XOR<Prisma.MailOutboxCreateInput, Prisma.MailOutboxUncheckedCreateInput>
+  /**
+   * In case the MailOutbox was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.MailOutboxUpdateInput, Prisma.MailOutboxUncheckedUpdateInput>
+}
+
+/**
+ * MailOutbox delete
+ */
+export type MailOutboxDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  /**
+   * Filter which MailOutbox to delete.
+   */
+  where: Prisma.MailOutboxWhereUniqueInput
+}
+
+/**
+ * MailOutbox deleteMany
+ */
+export type MailOutboxDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which MailOutboxes to delete
+   */
+  where?: Prisma.MailOutboxWhereInput
+  /**
+   * Limit how many MailOutboxes to delete.
+   */
+  limit?: number
+}
+
+/**
+ * MailOutbox.requestedBy
+ */
+export type MailOutbox$requestedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * MailOutbox without action
+ */
+export type MailOutboxDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+}
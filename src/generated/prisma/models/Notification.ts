@@ -0,0 +1,2502 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `Notification` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model Notification
+ * 
+ */
+export type NotificationModel = runtime.Types.Result.DefaultSelection<Prisma.$NotificationPayload>
+
+export type AggregateNotification = {
+  _count: NotificationCountAggregateOutputType | null
+  _avg: NotificationAvgAggregateOutputType | null
+  _sum: NotificationSumAggregateOutputType | null
+  _min: NotificationMinAggregateOutputType | null
+  _max: NotificationMaxAggregateOutputType | null
+}
+
+export type NotificationAvgAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  actorId: number | null
+  groupId: number | null
+  taskId: number | null
+  subTaskId: number | null
+}
+
+export type NotificationSumAggregateOutputType = {
+  id: number | null
+  userId: number | null
+  actorId: number | null
+  groupId: number | null
+  taskId: number | null
+  subTaskId: number | null
+}
+
+export type NotificationMinAggregateOutputType = {
+  id: number | null
+  type: $Enums.NotificationType | null
+  userId: number | null
+  actorId: number | null
+  groupId: number | null
+  taskId: number | null
+  subTaskId: number | null
+  title: string | null
+  body: string | null
+  url: string | null
+  dedupeKey: string | null
+  inApp: boolean | null
+  readAt: Date | null
+  createdAt: Date | null
+}
+
+export type NotificationMaxAggregateOutputType = {
+  id: number | null
+  type: $Enums.NotificationType | null
+  userId: number | null
+  actorId: number | null
+  groupId: number | null
+  taskId: number | null
+  subTaskId: number | null
+  title: string | null
+  body: string | null
+  url: string | null
+  dedupeKey: string | null
+  inApp: boolean | null
+  readAt: Date | null
+  createdAt: Date | null
+}
+
+export type NotificationCountAggregateOutputType = {
+  id: number
+  type: number
+  userId: number
+  actorId: number
+  groupId: number
+  taskId: number
+  subTaskId: number
+  title: number
+  body: number
+  url: number
+  dedupeKey: number
+  inApp: number
+  readAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type NotificationAvgAggregateInputType = {
+  id?: true
+  userId?: true
+  actorId?: true
+  groupId?: true
+  taskId?: true
+  subTaskId?: true
+}
+
+export type NotificationSumAggregateInputType = {
+  id?: true
+  userId?: true
+  actorId?: true
+  groupId?: true
+  taskId?: true
+  subTaskId?: true
+}
+
+export type NotificationMinAggregateInputType = {
+  id?: true
+  type?: true
+  userId?: true
+  actorId?: true
+  groupId?: true
+  taskId?: true
+  subTaskId?: true
+  title?: true
+  body?: true
+  url?: true
+  dedupeKey?: true
+  inApp?: true
+  readAt?: true
+  createdAt?: true
+}
+
+export type NotificationMaxAggregateInputType = {
+  id?: true
+  type?: true
+  userId?: true
+  actorId?: true
+  groupId?: true
+  taskId?: true
+  subTaskId?: true
+  title?: true
+  body?: true
+  url?: true
+  dedupeKey?: true
+  inApp?: true
+  readAt?: true
+  createdAt?: true
+}
+
+export type NotificationCountAggregateInputType = {
+  id?: true
+  type?: true
+  userId?: true
+  actorId?: true
+  groupId?: true
+  taskId?: true
+  subTaskId?: true
+  title?: true
+  body?: true
+  url?: true
+  dedupeKey?: true
+  inApp?: true
+  readAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type NotificationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Notification to aggregate.
+   */
+  where?: Prisma.NotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Notifications to fetch.
+   */
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.NotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Notifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Notifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned Notifications
+  **/
+  _count?: true | NotificationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: NotificationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: NotificationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: NotificationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: NotificationMaxAggregateInputType
+}
+
+export type GetNotificationAggregateType<T extends NotificationAggregateArgs> = {
+      [P in keyof T & keyof AggregateNotification]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateNotification[P]>
+    : Prisma.GetScalarType<T[P], AggregateNotification[P]>
+}
+
+
+
+
+export type NotificationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
+  orderBy?: Prisma.NotificationOrderByWithAggregationInput | Prisma.NotificationOrderByWithAggregationInput[]
+  by: Prisma.NotificationScalarFieldEnum[] | Prisma.NotificationScalarFieldEnum
+  having?: Prisma.NotificationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: NotificationCountAggregateInputType | true
+  _avg?: NotificationAvgAggregateInputType
+  _sum?: NotificationSumAggregateInputType
+  _min?: NotificationMinAggregateInputType
+  _max?: NotificationMaxAggregateInputType
+}
+
+export type NotificationGroupByOutputType = {
+  id: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId: number | null
+  groupId: number | null
+  taskId: number | null
+  subTaskId: number | null
+  title: string
+  body: string | null
+  url: string | null
+  dedupeKey: string | null
+  inApp: boolean
+  readAt: Date | null
+  createdAt: Date
+  _count: NotificationCountAggregateOutputType | null
+  _avg: NotificationAvgAggregateOutputType | null
+  _sum: NotificationSumAggregateOutputType | null
+  _min: NotificationMinAggregateOutputType | null
+  _max: NotificationMaxAggregateOutputType | null
+}
+
+type GetNotificationGroupByPayload<T extends NotificationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<NotificationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof NotificationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], NotificationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], NotificationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type NotificationWhereInput = {
+  AND?: Prisma.NotificationWhereInput | Prisma.NotificationWhereInput[]
+  OR?: Prisma.NotificationWhereInput[]
+  NOT?: Prisma.NotificationWhereInput | Prisma.NotificationWhereInput[]
+  id?: Prisma.IntFilter<"Notification"> | number
+  type?: Prisma.EnumNotificationTypeFilter<"Notification"> | $Enums.NotificationType
+  userId?: Prisma.IntFilter<"Notification"> | number
+  actorId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  groupId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  taskId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  subTaskId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  title?: Prisma.StringFilter<"Notification"> | string
+  body?: Prisma.StringNullableFilter<"Notification"> | string | null
+  url?: Prisma.StringNullableFilter<"Notification"> | string | null
+  dedupeKey?: Prisma.StringNullableFilter<"Notification"> | string | null
+  inApp?: Prisma.BoolFilter<"Notification"> | boolean
+  readAt?: Prisma.DateTimeNullableFilter<"Notification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  group?: Prisma.XOR<Prisma.GroupNullableScalarRelationFilter, Prisma.GroupWhereInput> | null
+  task?: Prisma.XOR<Prisma.TaskNullableScalarRelationFilter, Prisma.TaskWhereInput> | null
+  subTask?: Prisma.XOR<Prisma.SubTaskNullableScalarRelationFilter, Prisma.SubTaskWhereInput> | null
+}
+
+export type NotificationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  groupId?: Prisma.SortOrderInput | Prisma.SortOrder
+  taskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  subTaskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrderInput | Prisma.SortOrder
+  url?: Prisma.SortOrderInput | Prisma.SortOrder
+  dedupeKey?: Prisma.SortOrderInput | Prisma.SortOrder
+  inApp?: Prisma.SortOrder
+  readAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+  actor?: Prisma.UserOrderByWithRelationInput
+  group?: Prisma.GroupOrderByWithRelationInput
+  task?: Prisma.TaskOrderByWithRelationInput
+  subTask?: Prisma.SubTaskOrderByWithRelationInput
+}
+
+export type NotificationWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  userId_dedupeKey?: Prisma.NotificationUserIdDedupeKeyCompoundUniqueInput
+  AND?: Prisma.NotificationWhereInput | Prisma.NotificationWhereInput[]
+  OR?: Prisma.NotificationWhereInput[]
+  NOT?: Prisma.NotificationWhereInput | Prisma.NotificationWhereInput[]
+  type?: Prisma.EnumNotificationTypeFilter<"Notification"> | $Enums.NotificationType
+  userId?: Prisma.IntFilter<"Notification"> | number
+  actorId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  groupId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  taskId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  subTaskId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  title?: Prisma.StringFilter<"Notification"> | string
+  body?: Prisma.StringNullableFilter<"Notification"> | string | null
+  url?: Prisma.StringNullableFilter<"Notification"> | string | null
+  dedupeKey?: Prisma.StringNullableFilter<"Notification"> | string | null
+  inApp?: Prisma.BoolFilter<"Notification"> | boolean
+  readAt?: Prisma.DateTimeNullableFilter<"Notification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  group?: Prisma.XOR<Prisma.GroupNullableScalarRelationFilter, Prisma.GroupWhereInput> | null
+  task?: Prisma.XOR<Prisma.TaskNullableScalarRelationFilter, Prisma.TaskWhereInput> | null
+  subTask?: Prisma.XOR<Prisma.SubTaskNullableScalarRelationFilter, Prisma.SubTaskWhereInput> | null
+}, "id" | "userId_dedupeKey">
+
+export type NotificationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  groupId?: Prisma.SortOrderInput | Prisma.SortOrder
+  taskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  subTaskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrderInput | Prisma.SortOrder
+  url?: Prisma.SortOrderInput | Prisma.SortOrder
+  dedupeKey?: Prisma.SortOrderInput | Prisma.SortOrder
+  inApp?: Prisma.SortOrder
+  readAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.NotificationCountOrderByAggregateInput
+  _avg?: Prisma.NotificationAvgOrderByAggregateInput
+  _max?: Prisma.NotificationMaxOrderByAggregateInput
+  _min?: Prisma.NotificationMinOrderByAggregateInput
+  _sum?: Prisma.NotificationSumOrderByAggregateInput
+}
+
+export type NotificationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.NotificationScalarWhereWithAggregatesInput | Prisma.NotificationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.NotificationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.NotificationScalarWhereWithAggregatesInput | Prisma.NotificationScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"Notification"> | number
+  type?: Prisma.EnumNotificationTypeWithAggregatesFilter<"Notification"> | $Enums.NotificationType
+  userId?: Prisma.IntWithAggregatesFilter<"Notification"> | number
+  actorId?: Prisma.IntNullableWithAggregatesFilter<"Notification"> | number | null
+  groupId?: Prisma.IntNullableWithAggregatesFilter<"Notification"> | number | null
+  taskId?: Prisma.IntNullableWithAggregatesFilter<"Notification"> | number | null
+  subTaskId?: Prisma.IntNullableWithAggregatesFilter<"Notification"> | number | null
+  title?: Prisma.StringWithAggregatesFilter<"Notification"> | string
+  body?: Prisma.StringNullableWithAggregatesFilter<"Notification"> | string | null
+  url?: Prisma.StringNullableWithAggregatesFilter<"Notification"> | string | null
+  dedupeKey?: Prisma.StringNullableWithAggregatesFilter<"Notification"> | string | null
+  inApp?: Prisma.BoolWithAggregatesFilter<"Notification"> | boolean
+  readAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Notification"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Notification"> | Date | string
+}
+
+export type NotificationCreateInput = {
+  type: $Enums.NotificationType
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutNotificationsInput
+  actor?: Prisma.UserCreateNestedOneWithoutSentNotificationsInput
+  group?: Prisma.GroupCreateNestedOneWithoutNotificationsInput
+  task?: Prisma.TaskCreateNestedOneWithoutNotificationsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutNotificationsInput
+}
+
+export type NotificationUncheckedCreateInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId?: number | null
+  groupId?: number | null
+  taskId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationUpdateInput = {
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutNotificationsNestedInput
+  actor?: Prisma.UserUpdateOneWithoutSentNotificationsNestedInput
+  group?: Prisma.GroupUpdateOneWithoutNotificationsNestedInput
+  task?: Prisma.TaskUpdateOneWithoutNotificationsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutNotificationsNestedInput
+}
+
+export type NotificationUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationCreateManyInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId?: number | null
+  groupId?: number | null
+  taskId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationUpdateManyMutationInput = {
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationListRelationFilter = {
+  every?: Prisma.NotificationWhereInput
+  some?: Prisma.NotificationWhereInput
+  none?: Prisma.NotificationWhereInput
+}
+
+export type NotificationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type NotificationUserIdDedupeKeyCompoundUniqueInput = {
+  userId: number
+  dedupeKey: string
+}
+
+export type NotificationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  url?: Prisma.SortOrder
+  dedupeKey?: Prisma.SortOrder
+  inApp?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NotificationAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+}
+
+export type NotificationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  url?: Prisma.SortOrder
+  dedupeKey?: Prisma.SortOrder
+  inApp?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NotificationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  url?: Prisma.SortOrder
+  dedupeKey?: Prisma.SortOrder
+  inApp?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type NotificationSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  groupId?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+}
+
+export type NotificationCreateNestedManyWithoutGroupInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutGroupInput, Prisma.NotificationUncheckedCreateWithoutGroupInput> | Prisma.NotificationCreateWithoutGroupInput[] | Prisma.NotificationUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutGroupInput | Prisma.NotificationCreateOrConnectWithoutGroupInput[]
+  createMany?: Prisma.NotificationCreateManyGroupInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUncheckedCreateNestedManyWithoutGroupInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutGroupInput, Prisma.NotificationUncheckedCreateWithoutGroupInput> | Prisma.NotificationCreateWithoutGroupInput[] | Prisma.NotificationUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutGroupInput | Prisma.NotificationCreateOrConnectWithoutGroupInput[]
+  createMany?: Prisma.NotificationCreateManyGroupInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUpdateManyWithoutGroupNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutGroupInput, Prisma.NotificationUncheckedCreateWithoutGroupInput> | Prisma.NotificationCreateWithoutGroupInput[] | Prisma.NotificationUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutGroupInput | Prisma.NotificationCreateOrConnectWithoutGroupInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutGroupInput | Prisma.NotificationUpsertWithWhereUniqueWithoutGroupInput[]
+  createMany?: Prisma.NotificationCreateManyGroupInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutGroupInput | Prisma.NotificationUpdateWithWhereUniqueWithoutGroupInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutGroupInput | Prisma.NotificationUpdateManyWithWhereWithoutGroupInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationUncheckedUpdateManyWithoutGroupNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutGroupInput, Prisma.NotificationUncheckedCreateWithoutGroupInput> | Prisma.NotificationCreateWithoutGroupInput[] | Prisma.NotificationUncheckedCreateWithoutGroupInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutGroupInput | Prisma.NotificationCreateOrConnectWithoutGroupInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutGroupInput | Prisma.NotificationUpsertWithWhereUniqueWithoutGroupInput[]
+  createMany?: Prisma.NotificationCreateManyGroupInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutGroupInput | Prisma.NotificationUpdateWithWhereUniqueWithoutGroupInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutGroupInput | Prisma.NotificationUpdateManyWithWhereWithoutGroupInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type EnumNotificationTypeFieldUpdateOperationsInput = {
+  set?: $Enums.NotificationType
+}
+
+export type BoolFieldUpdateOperationsInput = {
+  set?: boolean
+}
+
+export type NotificationCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutTaskInput, Prisma.NotificationUncheckedCreateWithoutTaskInput> | Prisma.NotificationCreateWithoutTaskInput[] | Prisma.NotificationUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutTaskInput | Prisma.NotificationCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.NotificationCreateManyTaskInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUncheckedCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutTaskInput, Prisma.NotificationUncheckedCreateWithoutTaskInput> | Prisma.NotificationCreateWithoutTaskInput[] | Prisma.NotificationUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutTaskInput | Prisma.NotificationCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.NotificationCreateManyTaskInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutTaskInput, Prisma.NotificationUncheckedCreateWithoutTaskInput> | Prisma.NotificationCreateWithoutTaskInput[] | Prisma.NotificationUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutTaskInput | Prisma.NotificationCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutTaskInput | Prisma.NotificationUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.NotificationCreateManyTaskInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutTaskInput | Prisma.NotificationUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutTaskInput | Prisma.NotificationUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationUncheckedUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutTaskInput, Prisma.NotificationUncheckedCreateWithoutTaskInput> | Prisma.NotificationCreateWithoutTaskInput[] | Prisma.NotificationUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutTaskInput | Prisma.NotificationCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutTaskInput | Prisma.NotificationUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.NotificationCreateManyTaskInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutTaskInput | Prisma.NotificationUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutTaskInput | Prisma.NotificationUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutSubTaskInput, Prisma.NotificationUncheckedCreateWithoutSubTaskInput> | Prisma.NotificationCreateWithoutSubTaskInput[] | Prisma.NotificationUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutSubTaskInput | Prisma.NotificationCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.NotificationCreateManySubTaskInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUncheckedCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutSubTaskInput, Prisma.NotificationUncheckedCreateWithoutSubTaskInput> | Prisma.NotificationCreateWithoutSubTaskInput[] | Prisma.NotificationUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutSubTaskInput | Prisma.NotificationCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.NotificationCreateManySubTaskInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutSubTaskInput, Prisma.NotificationUncheckedCreateWithoutSubTaskInput> | Prisma.NotificationCreateWithoutSubTaskInput[] | Prisma.NotificationUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutSubTaskInput | Prisma.NotificationCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.NotificationUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.NotificationCreateManySubTaskInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.NotificationUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutSubTaskInput | Prisma.NotificationUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationUncheckedUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutSubTaskInput, Prisma.NotificationUncheckedCreateWithoutSubTaskInput> | Prisma.NotificationCreateWithoutSubTaskInput[] | Prisma.NotificationUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutSubTaskInput | Prisma.NotificationCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.NotificationUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.NotificationCreateManySubTaskInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.NotificationUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutSubTaskInput | Prisma.NotificationUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutUserInput, Prisma.NotificationUncheckedCreateWithoutUserInput> | Prisma.NotificationCreateWithoutUserInput[] | Prisma.NotificationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutUserInput | Prisma.NotificationCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.NotificationCreateManyUserInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutActorInput, Prisma.NotificationUncheckedCreateWithoutActorInput> | Prisma.NotificationCreateWithoutActorInput[] | Prisma.NotificationUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutActorInput | Prisma.NotificationCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.NotificationCreateManyActorInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutUserInput, Prisma.NotificationUncheckedCreateWithoutUserInput> | Prisma.NotificationCreateWithoutUserInput[] | Prisma.NotificationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutUserInput | Prisma.NotificationCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.NotificationCreateManyUserInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUncheckedCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutActorInput, Prisma.NotificationUncheckedCreateWithoutActorInput> | Prisma.NotificationCreateWithoutActorInput[] | Prisma.NotificationUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutActorInput | Prisma.NotificationCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.NotificationCreateManyActorInputEnvelope
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+}
+
+export type NotificationUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutUserInput, Prisma.NotificationUncheckedCreateWithoutUserInput> | Prisma.NotificationCreateWithoutUserInput[] | Prisma.NotificationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutUserInput | Prisma.NotificationCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutUserInput | Prisma.NotificationUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.NotificationCreateManyUserInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutUserInput | Prisma.NotificationUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutUserInput | Prisma.NotificationUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutActorInput, Prisma.NotificationUncheckedCreateWithoutActorInput> | Prisma.NotificationCreateWithoutActorInput[] | Prisma.NotificationUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutActorInput | Prisma.NotificationCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutActorInput | Prisma.NotificationUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.NotificationCreateManyActorInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutActorInput | Prisma.NotificationUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutActorInput | Prisma.NotificationUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutUserInput, Prisma.NotificationUncheckedCreateWithoutUserInput> | Prisma.NotificationCreateWithoutUserInput[] | Prisma.NotificationUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutUserInput | Prisma.NotificationCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutUserInput | Prisma.NotificationUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.NotificationCreateManyUserInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutUserInput | Prisma.NotificationUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutUserInput | Prisma.NotificationUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationUncheckedUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.NotificationCreateWithoutActorInput, Prisma.NotificationUncheckedCreateWithoutActorInput> | Prisma.NotificationCreateWithoutActorInput[] | Prisma.NotificationUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.NotificationCreateOrConnectWithoutActorInput | Prisma.NotificationCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.NotificationUpsertWithWhereUniqueWithoutActorInput | Prisma.NotificationUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.NotificationCreateManyActorInputEnvelope
+  set?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  disconnect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  delete?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  connect?: Prisma.NotificationWhereUniqueInput | Prisma.NotificationWhereUniqueInput[]
+  update?: Prisma.NotificationUpdateWithWhereUniqueWithoutActorInput | Prisma.NotificationUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.NotificationUpdateManyWithWhereWithoutActorInput | Prisma.NotificationUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+}
+
+export type NotificationCreateWithoutGroupInput = {
+  type: $Enums.NotificationType
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutNotificationsInput
+  actor?: Prisma.UserCreateNestedOneWithoutSentNotificationsInput
+  task?: Prisma.TaskCreateNestedOneWithoutNotificationsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutNotificationsInput
+}
+
+export type NotificationUncheckedCreateWithoutGroupInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId?: number | null
+  taskId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationCreateOrConnectWithoutGroupInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutGroupInput, Prisma.NotificationUncheckedCreateWithoutGroupInput>
+}
+
+export type NotificationCreateManyGroupInputEnvelope = {
+  data: Prisma.NotificationCreateManyGroupInput | Prisma.NotificationCreateManyGroupInput[]
+  skipDuplicates?: boolean
+}
+
+export type NotificationUpsertWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.NotificationUpdateWithoutGroupInput, Prisma.NotificationUncheckedUpdateWithoutGroupInput>
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutGroupInput, Prisma.NotificationUncheckedCreateWithoutGroupInput>
+}
+
+export type NotificationUpdateWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.NotificationUpdateWithoutGroupInput, Prisma.NotificationUncheckedUpdateWithoutGroupInput>
+}
+
+export type NotificationUpdateManyWithWhereWithoutGroupInput = {
+  where: Prisma.NotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.NotificationUpdateManyMutationInput, Prisma.NotificationUncheckedUpdateManyWithoutGroupInput>
+}
+
+export type NotificationScalarWhereInput = {
+  AND?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+  OR?: Prisma.NotificationScalarWhereInput[]
+  NOT?: Prisma.NotificationScalarWhereInput | Prisma.NotificationScalarWhereInput[]
+  id?: Prisma.IntFilter<"Notification"> | number
+  type?: Prisma.EnumNotificationTypeFilter<"Notification"> | $Enums.NotificationType
+  userId?: Prisma.IntFilter<"Notification"> | number
+  actorId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  groupId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  taskId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  subTaskId?: Prisma.IntNullableFilter<"Notification"> | number | null
+  title?: Prisma.StringFilter<"Notification"> | string
+  body?: Prisma.StringNullableFilter<"Notification"> | string | null
+  url?: Prisma.StringNullableFilter<"Notification"> | string | null
+  dedupeKey?: Prisma.StringNullableFilter<"Notification"> | string | null
+  inApp?: Prisma.BoolFilter<"Notification"> | boolean
+  readAt?: Prisma.DateTimeNullableFilter<"Notification"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"Notification"> | Date | string
+}
+
+export type NotificationCreateWithoutTaskInput = {
+  type: $Enums.NotificationType
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutNotificationsInput
+  actor?: Prisma.UserCreateNestedOneWithoutSentNotificationsInput
+  group?: Prisma.GroupCreateNestedOneWithoutNotificationsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutNotificationsInput
+}
+
+export type NotificationUncheckedCreateWithoutTaskInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId?: number | null
+  groupId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationCreateOrConnectWithoutTaskInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutTaskInput, Prisma.NotificationUncheckedCreateWithoutTaskInput>
+}
+
+export type NotificationCreateManyTaskInputEnvelope = {
+  data: Prisma.NotificationCreateManyTaskInput | Prisma.NotificationCreateManyTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type NotificationUpsertWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.NotificationUpdateWithoutTaskInput, Prisma.NotificationUncheckedUpdateWithoutTaskInput>
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutTaskInput, Prisma.NotificationUncheckedCreateWithoutTaskInput>
+}
+
+export type NotificationUpdateWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.NotificationUpdateWithoutTaskInput, Prisma.NotificationUncheckedUpdateWithoutTaskInput>
+}
+
+export type NotificationUpdateManyWithWhereWithoutTaskInput = {
+  where: Prisma.NotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.NotificationUpdateManyMutationInput, Prisma.NotificationUncheckedUpdateManyWithoutTaskInput>
+}
+
+export type NotificationCreateWithoutSubTaskInput = {
+  type: $Enums.NotificationType
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutNotificationsInput
+  actor?: Prisma.UserCreateNestedOneWithoutSentNotificationsInput
+  group?: Prisma.GroupCreateNestedOneWithoutNotificationsInput
+  task?: Prisma.TaskCreateNestedOneWithoutNotificationsInput
+}
+
+export type NotificationUncheckedCreateWithoutSubTaskInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId?: number | null
+  groupId?: number | null
+  taskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationCreateOrConnectWithoutSubTaskInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutSubTaskInput, Prisma.NotificationUncheckedCreateWithoutSubTaskInput>
+}
+
+export type NotificationCreateManySubTaskInputEnvelope = {
+  data: Prisma.NotificationCreateManySubTaskInput | Prisma.NotificationCreateManySubTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type NotificationUpsertWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.NotificationUpdateWithoutSubTaskInput, Prisma.NotificationUncheckedUpdateWithoutSubTaskInput>
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutSubTaskInput, Prisma.NotificationUncheckedCreateWithoutSubTaskInput>
+}
+
+export type NotificationUpdateWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.NotificationUpdateWithoutSubTaskInput, Prisma.NotificationUncheckedUpdateWithoutSubTaskInput>
+}
+
+export type NotificationUpdateManyWithWhereWithoutSubTaskInput = {
+  where: Prisma.NotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.NotificationUpdateManyMutationInput, Prisma.NotificationUncheckedUpdateManyWithoutSubTaskInput>
+}
+
+export type NotificationCreateWithoutUserInput = {
+  type: $Enums.NotificationType
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  actor?: Prisma.UserCreateNestedOneWithoutSentNotificationsInput
+  group?: Prisma.GroupCreateNestedOneWithoutNotificationsInput
+  task?: Prisma.TaskCreateNestedOneWithoutNotificationsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutNotificationsInput
+}
+
+export type NotificationUncheckedCreateWithoutUserInput = {
+  id?: number
+  type: $Enums.NotificationType
+  actorId?: number | null
+  groupId?: number | null
+  taskId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationCreateOrConnectWithoutUserInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutUserInput, Prisma.NotificationUncheckedCreateWithoutUserInput>
+}
+
+export type NotificationCreateManyUserInputEnvelope = {
+  data: Prisma.NotificationCreateManyUserInput | Prisma.NotificationCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type NotificationCreateWithoutActorInput = {
+  type: $Enums.NotificationType
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutNotificationsInput
+  group?: Prisma.GroupCreateNestedOneWithoutNotificationsInput
+  task?: Prisma.TaskCreateNestedOneWithoutNotificationsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutNotificationsInput
+}
+
+export type NotificationUncheckedCreateWithoutActorInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  groupId?: number | null
+  taskId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationCreateOrConnectWithoutActorInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutActorInput, Prisma.NotificationUncheckedCreateWithoutActorInput>
+}
+
+export type NotificationCreateManyActorInputEnvelope = {
+  data: Prisma.NotificationCreateManyActorInput | Prisma.NotificationCreateManyActorInput[]
+  skipDuplicates?: boolean
+}
+
+export type NotificationUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.NotificationUpdateWithoutUserInput, Prisma.NotificationUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutUserInput, Prisma.NotificationUncheckedCreateWithoutUserInput>
+}
+
+export type NotificationUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.NotificationUpdateWithoutUserInput, Prisma.NotificationUncheckedUpdateWithoutUserInput>
+}
+
+export type NotificationUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.NotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.NotificationUpdateManyMutationInput, Prisma.NotificationUncheckedUpdateManyWithoutUserInput>
+}
+
+export type NotificationUpsertWithWhereUniqueWithoutActorInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  update: Prisma.XOR<Prisma.NotificationUpdateWithoutActorInput, Prisma.NotificationUncheckedUpdateWithoutActorInput>
+  create: Prisma.XOR<Prisma.NotificationCreateWithoutActorInput, Prisma.NotificationUncheckedCreateWithoutActorInput>
+}
+
+export type NotificationUpdateWithWhereUniqueWithoutActorInput = {
+  where: Prisma.NotificationWhereUniqueInput
+  data: Prisma.XOR<Prisma.NotificationUpdateWithoutActorInput, Prisma.NotificationUncheckedUpdateWithoutActorInput>
+}
+
+export type NotificationUpdateManyWithWhereWithoutActorInput = {
+  where: Prisma.NotificationScalarWhereInput
+  data: Prisma.XOR<Prisma.NotificationUpdateManyMutationInput, Prisma.NotificationUncheckedUpdateManyWithoutActorInput>
+}
+
+export type NotificationCreateManyGroupInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId?: number | null
+  taskId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationUpdateWithoutGroupInput = {
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutNotificationsNestedInput
+  actor?: Prisma.UserUpdateOneWithoutSentNotificationsNestedInput
+  task?: Prisma.TaskUpdateOneWithoutNotificationsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutNotificationsNestedInput
+}
+
+export type NotificationUncheckedUpdateWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationUncheckedUpdateManyWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationCreateManyTaskInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId?: number | null
+  groupId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationUpdateWithoutTaskInput = {
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutNotificationsNestedInput
+  actor?: Prisma.UserUpdateOneWithoutSentNotificationsNestedInput
+  group?: Prisma.GroupUpdateOneWithoutNotificationsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutNotificationsNestedInput
+}
+
+export type NotificationUncheckedUpdateWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationUncheckedUpdateManyWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationCreateManySubTaskInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  actorId?: number | null
+  groupId?: number | null
+  taskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationUpdateWithoutSubTaskInput = {
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutNotificationsNestedInput
+  actor?: Prisma.UserUpdateOneWithoutSentNotificationsNestedInput
+  group?: Prisma.GroupUpdateOneWithoutNotificationsNestedInput
+  task?: Prisma.TaskUpdateOneWithoutNotificationsNestedInput
+}
+
+export type NotificationUncheckedUpdateWithoutSubTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationUncheckedUpdateManyWithoutSubTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationCreateManyUserInput = {
+  id?: number
+  type: $Enums.NotificationType
+  actorId?: number | null
+  groupId?: number | null
+  taskId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationCreateManyActorInput = {
+  id?: number
+  type: $Enums.NotificationType
+  userId: number
+  groupId?: number | null
+  taskId?: number | null
+  subTaskId?: number | null
+  title: string
+  body?: string | null
+  url?: string | null
+  dedupeKey?: string | null
+  inApp?: boolean
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type NotificationUpdateWithoutUserInput = {
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  actor?: Prisma.UserUpdateOneWithoutSentNotificationsNestedInput
+  group?: Prisma.GroupUpdateOneWithoutNotificationsNestedInput
+  task?: Prisma.TaskUpdateOneWithoutNotificationsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutNotificationsNestedInput
+}
+
+export type NotificationUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationUpdateWithoutActorInput = {
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutNotificationsNestedInput
+  group?: Prisma.GroupUpdateOneWithoutNotificationsNestedInput
+  task?: Prisma.TaskUpdateOneWithoutNotificationsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutNotificationsNestedInput
+}
+
+export type NotificationUncheckedUpdateWithoutActorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type NotificationUncheckedUpdateManyWithoutActorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  type?: Prisma.EnumNotificationTypeFieldUpdateOperationsInput | $Enums.NotificationType
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  taskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  body?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  url?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dedupeKey?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  inApp?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type NotificationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  type?: boolean
+  userId?: boolean
+  actorId?: boolean
+  groupId?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  title?: boolean
+  body?: boolean
+  url?: boolean
+  dedupeKey?: boolean
+  inApp?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.Notification$actorArgs<ExtArgs>
+  group?: boolean | Prisma.Notification$groupArgs<ExtArgs>
+  task?: boolean | Prisma.Notification$taskArgs<ExtArgs>
+  subTask?: boolean | Prisma.Notification$subTaskArgs<ExtArgs>
+}, ExtArgs["result"]["notification"]>
+
+export type NotificationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  type?: boolean
+  userId?: boolean
+  actorId?: boolean
+  groupId?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  title?: boolean
+  body?: boolean
+  url?: boolean
+  dedupeKey?: boolean
+  inApp?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.Notification$actorArgs<ExtArgs>
+  group?: boolean | Prisma.Notification$groupArgs<ExtArgs>
+  task?: boolean | Prisma.Notification$taskArgs<ExtArgs>
+  subTask?: boolean | Prisma.Notification$subTaskArgs<ExtArgs>
+}, ExtArgs["result"]["notification"]>
+
+export type NotificationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  type?: boolean
+  userId?: boolean
+  actorId?: boolean
+  groupId?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  title?: boolean
+  body?: boolean
+  url?: boolean
+  dedupeKey?: boolean
+  inApp?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.Notification$actorArgs<ExtArgs>
+  group?: boolean | Prisma.Notification$groupArgs<ExtArgs>
+  task?: boolean | Prisma.Notification$taskArgs<ExtArgs>
+  subTask?: boolean | Prisma.Notification$subTaskArgs<ExtArgs>
+}, ExtArgs["result"]["notification"]>
+
+export type NotificationSelectScalar = {
+  id?: boolean
+  type?: boolean
+  userId?: boolean
+  actorId?: boolean
+  groupId?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  title?: boolean
+  body?: boolean
+  url?: boolean
+  dedupeKey?: boolean
+  inApp?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+}
+
+export type NotificationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "type" | "userId" | "actorId" | "groupId" | "taskId" | "subTaskId" | "title" | "body" | "url" | "dedupeKey" | "inApp" | "readAt" | "createdAt", ExtArgs["result"]["notification"]>
+export type NotificationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.Notification$actorArgs<ExtArgs>
+  group?: boolean | Prisma.Notification$groupArgs<ExtArgs>
+  task?: boolean | Prisma.Notification$taskArgs<ExtArgs>
+  subTask?: boolean | Prisma.Notification$subTaskArgs<ExtArgs>
+}
+export type NotificationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.Notification$actorArgs<ExtArgs>
+  group?: boolean | Prisma.Notification$groupArgs<ExtArgs>
+  task?: boolean | Prisma.Notification$taskArgs<ExtArgs>
+  subTask?: boolean | Prisma.Notification$subTaskArgs<ExtArgs>
+}
+export type NotificationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  actor?: boolean | Prisma.Notification$actorArgs<ExtArgs>
+  group?: boolean | Prisma.Notification$groupArgs<ExtArgs>
+  task?: boolean | Prisma.Notification$taskArgs<ExtArgs>
+  subTask?: boolean | Prisma.Notification$subTaskArgs<ExtArgs>
+}
+
+export type $NotificationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "Notification"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+    actor: Prisma.$UserPayload<ExtArgs> | null
+    group: Prisma.$GroupPayload<ExtArgs> | null
+    task: Prisma.$TaskPayload<ExtArgs> | null
+    subTask: Prisma.$SubTaskPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    type: $Enums.NotificationType
+    userId: number
+    actorId: number | null
+    groupId: number | null
+    taskId: number | null
+    subTaskId: number | null
+    title: string
+    body: string | null
+    url: string | null
+    dedupeKey: string | null
+    inApp: boolean
+    readAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["notification"]>
+  composites: {}
+}
+
+export type NotificationGetPayload<S extends boolean | null | undefined | NotificationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$NotificationPayload, S>
+
+export type NotificationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<NotificationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: NotificationCountAggregateInputType | true
+  }
+
+export interface NotificationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['Notification'], meta: { name: 'Notification' } }
+  /**
+   * Find zero or one Notification that matches the filter.
+   * @param {NotificationFindUniqueArgs} args - Arguments to find a Notification
+   * @example
+   * // Get one Notification
+   * const notification = await prisma.notification.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends NotificationFindUniqueArgs>(args: Prisma.SelectSubset<T, NotificationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__NotificationClient<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one Notification that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {NotificationFindUniqueOrThrowArgs} args - Arguments to find a Notification
+   * @example
+   * // Get one Notification
+   * const notification = await prisma.notification.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends NotificationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, NotificationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__NotificationClient<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Notification that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NotificationFindFirstArgs} args - Arguments to find a Notification
+   * @example
+   * // Get one Notification
+   * const notification = await prisma.notification.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends NotificationFindFirstArgs>(args?: Prisma.SelectSubset<T, NotificationFindFirstArgs<ExtArgs>>): Prisma.Prisma__NotificationClient<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first Notification that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NotificationFindFirstOrThrowArgs} args - Arguments to find a Notification
+   * @example
+   * // Get one Notification
+   * const notification = await prisma.notification.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends NotificationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, NotificationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__NotificationClient<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more Notifications that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NotificationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Notifications
+   * const notifications = await prisma.notification.findMany()
+   * 
+   * // Get first 10 Notifications
+   * const notifications = await prisma.notification.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const notificationWithIdOnly = await prisma.notification.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends NotificationFindManyArgs>(args?: Prisma.SelectSubset<T, NotificationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a Notification.
+   * @param {NotificationCreateArgs} args - Arguments to create a Notification.
+   * @example
+   * // Create one Notification
+   * const Notification = await prisma.notification.create({
+   *   data: {
+   *     // ... data to create a Notification
+   *   }
+   * })
+   * 
+   */
+  create<T extends NotificationCreateArgs>(args: Prisma.SelectSubset<T, NotificationCreateArgs<ExtArgs>>): Prisma.Prisma__NotificationClient<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many Notifications.
+   * @param {NotificationCreateManyArgs} args - Arguments to create many Notifications.
+   * @example
+   * // Create many Notifications
+   * const notification = await prisma.notification.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends NotificationCreateManyArgs>(args?: Prisma.SelectSubset<T, NotificationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many Notifications and returns the data saved in the database.
+   * @param {NotificationCreateManyAndReturnArgs} args - Arguments to create many Notifications.
+   * @example
+   * // Create many Notifications
+   * const notification = await prisma.notification.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many Notifications and only return the `id`
+   * const notificationWithIdOnly = await prisma.notification.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends NotificationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, NotificationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a Notification.
+   * @param {NotificationDeleteArgs} args - Arguments to delete one Notification.
+   * @example
+   * // Delete one Notification
+   * const Notification = await prisma.notification.delete({
+   *   where: {
+   *     // ... filter to delete one Notification
+   *   }
+   * })
+   * 
+   */
+  delete<T extends NotificationDeleteArgs>(args: Prisma.SelectSubset<T, NotificationDeleteArgs<ExtArgs>>): Prisma.Prisma__NotificationClient<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one Notification.
+   * @param {NotificationUpdateArgs} args - Arguments to update one Notification.
+   * @example
+   * // Update one Notification
+   * const notification = await prisma.notification.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends NotificationUpdateArgs>(args: Prisma.SelectSubset<T, NotificationUpdateArgs<ExtArgs>>): Prisma.Prisma__NotificationClient<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more Notifications.
+   * @param {NotificationDeleteManyArgs} args - Arguments to filter Notifications to delete.
+   * @example
+   * // Delete a few Notifications
+   * const { count } = await prisma.notification.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends NotificationDeleteManyArgs>(args?: Prisma.SelectSubset<T, NotificationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Notifications.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NotificationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Notifications
+   * const notification = await prisma.notification.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends NotificationUpdateManyArgs>(args: Prisma.SelectSubset<T, NotificationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more Notifications and returns the data updated in the database.
+   * @param {NotificationUpdateManyAndReturnArgs} args - Arguments to update many Notifications.
+   * @example
+   * // Update many Notifications
+   * const notification = await prisma.notification.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more Notifications and only return the `id`
+   * const notificationWithIdOnly = await prisma.notification.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends NotificationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, NotificationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one Notification.
+   * @param {NotificationUpsertArgs} args - Arguments to update or create a Notification.
+   * @example
+   * // Update or create a Notification
+   * const notification = await prisma.notification.upsert({
+   *   create: {
+   *     // ... data to create a Notification
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Notification we want to update
+   *   }
+   * })
+   */
+  upsert<T extends NotificationUpsertArgs>(args: Prisma.SelectSubset<T, NotificationUpsertArgs<ExtArgs>>): Prisma.Prisma__NotificationClient<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of Notifications.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NotificationCountArgs} args - Arguments to filter Notifications to count.
+   * @example
+   * // Count the number of Notifications
+   * const count = await prisma.notification.count({
+   *   where: {
+   *     // ... the filter for the Notifications we want to count
+   *   }
+   * })
+  **/
+  count<T extends NotificationCountArgs>(
+    args?: Prisma.Subset<T, NotificationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], NotificationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a Notification.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NotificationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends NotificationAggregateArgs>(args: Prisma.Subset<T, NotificationAggregateArgs>): Prisma.PrismaPromise<GetNotificationAggregateType<T>>
+
+  /**
+   * Group by Notification.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {NotificationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends NotificationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: NotificationGroupByArgs['orderBy'] }
+      : { orderBy?: NotificationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, NotificationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetNotificationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the Notification model
+ */
+readonly fields: NotificationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Notification.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__NotificationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  actor<T extends Prisma.Notification$actorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Notification$actorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  group<T extends Prisma.Notification$groupArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Notification$groupArgs<ExtArgs>>): Prisma.Prisma__GroupClient<runtime.Types.Result.GetResult<Prisma.$GroupPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  task<T extends Prisma.Notification$taskArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Notification$taskArgs<ExtArgs>>): Prisma.Prisma__TaskClient<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  subTask<T extends Prisma.Notification$subTaskArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Notification$subTaskArgs<ExtArgs>>): Prisma.Prisma__SubTaskClient<runtime.Types.Result.GetResult<Prisma.$SubTaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the Notification model
+ */
+export interface NotificationFieldRefs {
+  readonly id: Prisma.FieldRef<"Notification", 'Int'>
+  readonly type: Prisma.FieldRef<"Notification", 'NotificationType'>
+  readonly userId: Prisma.FieldRef<"Notification", 'Int'>
+  readonly actorId: Prisma.FieldRef<"Notification", 'Int'>
+  readonly groupId: Prisma.FieldRef<"Notification", 'Int'>
+  readonly taskId: Prisma.FieldRef<"Notification", 'Int'>
+  readonly subTaskId: Prisma.FieldRef<"Notification", 'Int'>
+  readonly title: Prisma.FieldRef<"Notification", 'String'>
+  readonly body: Prisma.FieldRef<"Notification", 'String'>
+  readonly url: Prisma.FieldRef<"Notification", 'String'>
+  readonly dedupeKey: Prisma.FieldRef<"Notification", 'String'>
+  readonly inApp: Prisma.FieldRef<"Notification", 'Boolean'>
+  readonly readAt: Prisma.FieldRef<"Notification", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"Notification", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * Notification findUnique
+ */
+export type NotificationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which Notification to fetch.
+   */
+  where: Prisma.NotificationWhereUniqueInput
+}
+
+/**
+ * Notification findUniqueOrThrow
+ */
+export type NotificationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which Notification to fetch.
+   */
+  where: Prisma.NotificationWhereUniqueInput
+}
+
+/**
+ * Notification findFirst
+ */
+export type NotificationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which Notification to fetch.
+   */
+  where?: Prisma.NotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Notifications to fetch.
+   */
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Notifications.
+   */
+  cursor?: Prisma.NotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Notifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Notifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Notifications.
+   */
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
+/**
+ * Notification findFirstOrThrow
+ */
+export type NotificationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which Notification to fetch.
+   */
+  where?: Prisma.NotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Notifications to fetch.
+   */
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for Notifications.
+   */
+  cursor?: Prisma.NotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Notifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Notifications.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of Notifications.
+   */
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
+/**
+ * Notification findMany
+ */
+export type NotificationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * Filter, which Notifications to fetch.
+   */
+  where?: Prisma.NotificationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of Notifications to fetch.
+   */
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing Notifications.
+   */
+  cursor?: Prisma.NotificationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` Notifications from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` Notifications.
+   */
+  skip?: number
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
+/**
+ * Notification create
+ */
+export type NotificationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a Notification.
+   */
+  data: Prisma.XOR<Prisma.NotificationCreateInput, Prisma.NotificationUncheckedCreateInput>
+}
+
+/**
+ * Notification createMany
+ */
+export type NotificationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many Notifications.
+   */
+  data: Prisma.NotificationCreateManyInput | Prisma.NotificationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * Notification createManyAndReturn
+ */
+export type NotificationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * The data used to create many Notifications.
+   */
+  data: Prisma.NotificationCreateManyInput | Prisma.NotificationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Notification update
+ */
+export type NotificationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a Notification.
+   */
+  data: Prisma.XOR<Prisma.NotificationUpdateInput, Prisma.NotificationUncheckedUpdateInput>
+  /**
+   * Choose, which Notification to update.
+   */
+  where: Prisma.NotificationWhereUniqueInput
+}
+
+/**
+ * Notification updateMany
+ */
+export type NotificationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update Notifications.
+   */
+  data: Prisma.XOR<Prisma.NotificationUpdateManyMutationInput, Prisma.NotificationUncheckedUpdateManyInput>
+  /**
+   * Filter which Notifications to update
+   */
+  where?: Prisma.NotificationWhereInput
+  /**
+   * Limit how many Notifications to update.
+   */
+  limit?: number
+}
+
+/**
+ * Notification updateManyAndReturn
+ */
+export type NotificationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * The data used to update Notifications.
+   */
+  data: Prisma.XOR<Prisma.NotificationUpdateManyMutationInput, Prisma.NotificationUncheckedUpdateManyInput>
+  /**
+   * Filter which Notifications to update
+   */
+  where?: Prisma.NotificationWhereInput
+  /**
+   * Limit how many Notifications to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * Notification upsert
+ */
+export type NotificationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the Notification to update in case it exists.
+   */
+  where: Prisma.NotificationWhereUniqueInput
+  /**
+   * In case the Notification found by the `where` argument doesn't exist, create a new Notification with this data.
+   */
+  create: Prisma.XOR<Prisma.NotificationCreateInput, Prisma.NotificationUncheckedCreateInput>
+  /**
+   * In case the Notification was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.NotificationUpdateInput, Prisma.NotificationUncheckedUpdateInput>
+}
+
+/**
+ * Notification delete
+ */
+export type NotificationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  /**
+   * Filter which Notification to delete.
+   */
+  where: Prisma.NotificationWhereUniqueInput
+}
+
+/**
+ * Notification deleteMany
+ */
+export type NotificationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which Notifications to delete
+   */
+  where?: Prisma.NotificationWhereInput
+  /**
+   * Limit how many Notifications to delete.
+   */
+  limit?: number
+}
+
+/**
+ * Notification.actor
+ */
+export type Notification$actorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * Notification.group
+ */
+export type Notification$groupArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Group
+   */
+  select?: Prisma.GroupSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Group
+   */
+  omit?: Prisma.GroupOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupInclude<ExtArgs> | null
+  where?: Prisma.GroupWhereInput
+}
+
+/**
+ * Notification.task
+ */
+export type Notification$taskArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Task
+   */
+  select?: Prisma.TaskSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Task
+   */
+  omit?: Prisma.TaskOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskInclude<ExtArgs> | null
+  where?: Prisma.TaskWhereInput
+}
+
+/**
+ * Notification.subTask
+ */
+export type Notification$subTaskArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTask
+   */
+  select?: Prisma.SubTaskSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTask
+   */
+  omit?: Prisma.SubTaskOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskInclude<ExtArgs> | null
+  where?: Prisma.SubTaskWhereInput
+}
+
+/**
+ * Notification without action
+ */
+export type NotificationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+}
@@ -0,0 +1,1536 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PersonalAccessToken` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PersonalAccessToken
+ * 
+ */
+export type PersonalAccessTokenModel = runtime.Types.Result.DefaultSelection<Prisma.$PersonalAccessTokenPayload>
+
+export type AggregatePersonalAccessToken = {
+  _count: PersonalAccessTokenCountAggregateOutputType | null
+  _avg: PersonalAccessTokenAvgAggregateOutputType | null
+  _sum: PersonalAccessTokenSumAggregateOutputType | null
+  _min: PersonalAccessTokenMinAggregateOutputType | null
+  _max: PersonalAccessTokenMaxAggregateOutputType | null
+}
+
+export type PersonalAccessTokenAvgAggregateOutputType = {
+  id: number | null
+  userId: number | null
+}
+
+export type PersonalAccessTokenSumAggregateOutputType = {
+  id: number | null
+  userId: number | null
+}
+
+export type PersonalAccessTokenMinAggregateOutputType = {
+  id: number | null
+  tokenHash: string | null
+  userId: number | null
+  name: string | null
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date | null
+}
+
+export type PersonalAccessTokenMaxAggregateOutputType = {
+  id: number | null
+  tokenHash: string | null
+  userId: number | null
+  name: string | null
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date | null
+}
+
+export type PersonalAccessTokenCountAggregateOutputType = {
+  id: number
+  tokenHash: number
+  userId: number
+  name: number
+  scopes: number
+  expiresAt: number
+  lastUsedAt: number
+  revokedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type PersonalAccessTokenAvgAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type PersonalAccessTokenSumAggregateInputType = {
+  id?: true
+  userId?: true
+}
+
+export type PersonalAccessTokenMinAggregateInputType = {
+  id?: true
+  tokenHash?: true
+  userId?: true
+  name?: true
+  expiresAt?: true
+  lastUsedAt?: true
+  revokedAt?: true
+  createdAt?: true
+}
+
+export type PersonalAccessTokenMaxAggregateInputType = {
+  id?: true
+  tokenHash?: true
+  userId?: true
+  name?: true
+  expiresAt?: true
+  lastUsedAt?: true
+  revokedAt?: true
+  createdAt?: true
+}
+
+export type PersonalAccessTokenCountAggregateInputType = {
+  id?: true
+  tokenHash?: true
+  userId?: true
+  name?: true
+  scopes?: true
+  expiresAt?: true
+  lastUsedAt?: true
+  revokedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type PersonalAccessTokenAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PersonalAccessToken to aggregate.
+   */
+  where?: Prisma.PersonalAccessTokenWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PersonalAccessTokens to fetch.
+   */
+  orderBy?: Prisma.PersonalAccessTokenOrderByWithRelationInput | Prisma.PersonalAccessTokenOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PersonalAccessTokenWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PersonalAccessTokens from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PersonalAccessTokens.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PersonalAccessTokens
+  **/
+  _count?: true | PersonalAccessTokenCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PersonalAccessTokenAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PersonalAccessTokenSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PersonalAccessTokenMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PersonalAccessTokenMaxAggregateInputType
+}
+
+export type GetPersonalAccessTokenAggregateType<T extends PersonalAccessTokenAggregateArgs> = {
+      [P in keyof T & keyof AggregatePersonalAccessToken]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePersonalAccessToken[P]>
+    : Prisma.GetScalarType<T[P], AggregatePersonalAccessToken[P]>
+}
+
+
+
+
+export type PersonalAccessTokenGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PersonalAccessTokenWhereInput
+  orderBy?: Prisma.PersonalAccessTokenOrderByWithAggregationInput | Prisma.PersonalAccessTokenOrderByWithAggregationInput[]
+  by: Prisma.PersonalAccessTokenScalarFieldEnum[] | Prisma.PersonalAccessTokenScalarFieldEnum
+  having?: Prisma.PersonalAccessTokenScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PersonalAccessTokenCountAggregateInputType | true
+  _avg?: PersonalAccessTokenAvgAggregateInputType
+  _sum?: PersonalAccessTokenSumAggregateInputType
+  _min?: PersonalAccessTokenMinAggregateInputType
+  _max?: PersonalAccessTokenMaxAggregateInputType
+}
+
+export type PersonalAccessTokenGroupByOutputType = {
+  id: number
+  tokenHash: string
+  userId: number
+  name: string
+  scopes: string[]
+  expiresAt: Date
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+  _count: PersonalAccessTokenCountAggregateOutputType | null
+  _avg: PersonalAccessTokenAvgAggregateOutputType | null
+  _sum: PersonalAccessTokenSumAggregateOutputType | null
+  _min: PersonalAccessTokenMinAggregateOutputType | null
+  _max: PersonalAccessTokenMaxAggregateOutputType | null
+}
+
+type GetPersonalAccessTokenGroupByPayload<T extends PersonalAccessTokenGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PersonalAccessTokenGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PersonalAccessTokenGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PersonalAccessTokenGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PersonalAccessTokenGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PersonalAccessTokenWhereInput = {
+  AND?: Prisma.PersonalAccessTokenWhereInput | Prisma.PersonalAccessTokenWhereInput[]
+  OR?: Prisma.PersonalAccessTokenWhereInput[]
+  NOT?: Prisma.PersonalAccessTokenWhereInput | Prisma.PersonalAccessTokenWhereInput[]
+  id?: Prisma.IntFilter<"PersonalAccessToken"> | number
+  tokenHash?: Prisma.StringFilter<"PersonalAccessToken"> | string
+  userId?: Prisma.IntFilter<"PersonalAccessToken"> | number
+  name?: Prisma.StringFilter<"PersonalAccessToken"> | string
+  scopes?: Prisma.StringNullableListFilter<"PersonalAccessToken">
+  expiresAt?: Prisma.DateTimeFilter<"PersonalAccessToken"> | Date | string
+  lastUsedAt?: Prisma.DateTimeNullableFilter<"PersonalAccessToken"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableFilter<"PersonalAccessToken"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PersonalAccessToken"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}
+
+export type PersonalAccessTokenOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  scopes?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  user?: Prisma.UserOrderByWithRelationInput
+}
+
+export type PersonalAccessTokenWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  tokenHash?: string
+  AND?: Prisma.PersonalAccessTokenWhereInput | Prisma.PersonalAccessTokenWhereInput[]
+  OR?: Prisma.PersonalAccessTokenWhereInput[]
+  NOT?: Prisma.PersonalAccessTokenWhereInput | Prisma.PersonalAccessTokenWhereInput[]
+  userId?: Prisma.IntFilter<"PersonalAccessToken"> | number
+  name?: Prisma.StringFilter<"PersonalAccessToken"> | string
+  scopes?: Prisma.StringNullableListFilter<"PersonalAccessToken">
+  expiresAt?: Prisma.DateTimeFilter<"PersonalAccessToken"> | Date | string
+  lastUsedAt?: Prisma.DateTimeNullableFilter<"PersonalAccessToken"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableFilter<"PersonalAccessToken"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PersonalAccessToken"> | Date | string
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+}, "id" | "tokenHash">
+
+export type PersonalAccessTokenOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  scopes?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  revokedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.PersonalAccessTokenCountOrderByAggregateInput
+  _avg?: Prisma.PersonalAccessTokenAvgOrderByAggregateInput
+  _max?: Prisma.PersonalAccessTokenMaxOrderByAggregateInput
+  _min?: Prisma.PersonalAccessTokenMinOrderByAggregateInput
+  _sum?: Prisma.PersonalAccessTokenSumOrderByAggregateInput
+}
+
+export type PersonalAccessTokenScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PersonalAccessTokenScalarWhereWithAggregatesInput | Prisma.PersonalAccessTokenScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PersonalAccessTokenScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PersonalAccessTokenScalarWhereWithAggregatesInput | Prisma.PersonalAccessTokenScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"PersonalAccessToken"> | number
+  tokenHash?: Prisma.StringWithAggregatesFilter<"PersonalAccessToken"> | string
+  userId?: Prisma.IntWithAggregatesFilter<"PersonalAccessToken"> | number
+  name?: Prisma.StringWithAggregatesFilter<"PersonalAccessToken"> | string
+  scopes?: Prisma.StringNullableListFilter<"PersonalAccessToken">
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"PersonalAccessToken"> | Date | string
+  lastUsedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PersonalAccessToken"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PersonalAccessToken"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PersonalAccessToken"> | Date | string
+}
+
+export type PersonalAccessTokenCreateInput = {
+  tokenHash: string
+  name: string
+  scopes?: Prisma.PersonalAccessTokenCreatescopesInput | string[]
+  expiresAt: Date | string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+  user: Prisma.UserCreateNestedOneWithoutAccessTokensInput
+}
+
+export type PersonalAccessTokenUncheckedCreateInput = {
+  id?: number
+  tokenHash: string
+  userId: number
+  name: string
+  scopes?: Prisma.PersonalAccessTokenCreatescopesInput | string[]
+  expiresAt: Date | string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PersonalAccessTokenUpdateInput = {
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.PersonalAccessTokenUpdatescopesInput | string[]
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  user?: Prisma.UserUpdateOneRequiredWithoutAccessTokensNestedInput
+}
+
+export type PersonalAccessTokenUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.PersonalAccessTokenUpdatescopesInput | string[]
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PersonalAccessTokenCreateManyInput = {
+  id?: number
+  tokenHash: string
+  userId: number
+  name: string
+  scopes?: Prisma.PersonalAccessTokenCreatescopesInput | string[]
+  expiresAt: Date | string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PersonalAccessTokenUpdateManyMutationInput = {
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.PersonalAccessTokenUpdatescopesInput | string[]
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PersonalAccessTokenUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.PersonalAccessTokenUpdatescopesInput | string[]
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type StringNullableListFilter<$PrismaModel = never> = {
+  equals?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null
+  has?: string | Prisma.StringFieldRefInput<$PrismaModel> | null
+  hasEvery?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  hasSome?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type PersonalAccessTokenCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  scopes?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PersonalAccessTokenAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type PersonalAccessTokenMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PersonalAccessTokenMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  tokenHash?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  lastUsedAt?: Prisma.SortOrder
+  revokedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type PersonalAccessTokenSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  userId?: Prisma.SortOrder
+}
+
+export type PersonalAccessTokenListRelationFilter = {
+  every?: Prisma.PersonalAccessTokenWhereInput
+  some?: Prisma.PersonalAccessTokenWhereInput
+  none?: Prisma.PersonalAccessTokenWhereInput
+}
+
+export type PersonalAccessTokenOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PersonalAccessTokenCreatescopesInput = {
+  set: string[]
+}
+
+export type PersonalAccessTokenUpdatescopesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type PersonalAccessTokenCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.PersonalAccessTokenCreateWithoutUserInput, Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput> | Prisma.PersonalAccessTokenCreateWithoutUserInput[] | Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.PersonalAccessTokenCreateOrConnectWithoutUserInput | Prisma.PersonalAccessTokenCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.PersonalAccessTokenCreateManyUserInputEnvelope
+  connect?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+}
+
+export type PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput = {
+  create?: Prisma.XOR<Prisma.PersonalAccessTokenCreateWithoutUserInput, Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput> | Prisma.PersonalAccessTokenCreateWithoutUserInput[] | Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.PersonalAccessTokenCreateOrConnectWithoutUserInput | Prisma.PersonalAccessTokenCreateOrConnectWithoutUserInput[]
+  createMany?: Prisma.PersonalAccessTokenCreateManyUserInputEnvelope
+  connect?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+}
+
+export type PersonalAccessTokenUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.PersonalAccessTokenCreateWithoutUserInput, Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput> | Prisma.PersonalAccessTokenCreateWithoutUserInput[] | Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.PersonalAccessTokenCreateOrConnectWithoutUserInput | Prisma.PersonalAccessTokenCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.PersonalAccessTokenUpsertWithWhereUniqueWithoutUserInput | Prisma.PersonalAccessTokenUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.PersonalAccessTokenCreateManyUserInputEnvelope
+  set?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+  disconnect?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+  delete?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+  connect?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+  update?: Prisma.PersonalAccessTokenUpdateWithWhereUniqueWithoutUserInput | Prisma.PersonalAccessTokenUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.PersonalAccessTokenUpdateManyWithWhereWithoutUserInput | Prisma.PersonalAccessTokenUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.PersonalAccessTokenScalarWhereInput | Prisma.PersonalAccessTokenScalarWhereInput[]
+}
+
+export type PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput = {
+  create?: Prisma.XOR<Prisma.PersonalAccessTokenCreateWithoutUserInput, Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput> | Prisma.PersonalAccessTokenCreateWithoutUserInput[] | Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput[]
+  connectOrCreate?: Prisma.PersonalAccessTokenCreateOrConnectWithoutUserInput | Prisma.PersonalAccessTokenCreateOrConnectWithoutUserInput[]
+  upsert?: Prisma.PersonalAccessTokenUpsertWithWhereUniqueWithoutUserInput | Prisma.PersonalAccessTokenUpsertWithWhereUniqueWithoutUserInput[]
+  createMany?: Prisma.PersonalAccessTokenCreateManyUserInputEnvelope
+  set?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+  disconnect?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+  delete?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+  connect?: Prisma.PersonalAccessTokenWhereUniqueInput | Prisma.PersonalAccessTokenWhereUniqueInput[]
+  update?: Prisma.PersonalAccessTokenUpdateWithWhereUniqueWithoutUserInput | Prisma.PersonalAccessTokenUpdateWithWhereUniqueWithoutUserInput[]
+  updateMany?: Prisma.PersonalAccessTokenUpdateManyWithWhereWithoutUserInput | Prisma.PersonalAccessTokenUpdateManyWithWhereWithoutUserInput[]
+  deleteMany?: Prisma.PersonalAccessTokenScalarWhereInput | Prisma.PersonalAccessTokenScalarWhereInput[]
+}
+
+export type PersonalAccessTokenCreateWithoutUserInput = {
+  tokenHash: string
+  name: string
+  scopes?: Prisma.PersonalAccessTokenCreatescopesInput | string[]
+  expiresAt: Date | string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PersonalAccessTokenUncheckedCreateWithoutUserInput = {
+  id?: number
+  tokenHash: string
+  name: string
+  scopes?: Prisma.PersonalAccessTokenCreatescopesInput | string[]
+  expiresAt: Date | string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PersonalAccessTokenCreateOrConnectWithoutUserInput = {
+  where: Prisma.PersonalAccessTokenWhereUniqueInput
+  create: Prisma.XOR<Prisma.PersonalAccessTokenCreateWithoutUserInput, Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput>
+}
+
+export type PersonalAccessTokenCreateManyUserInputEnvelope = {
+  data: Prisma.PersonalAccessTokenCreateManyUserInput | Prisma.PersonalAccessTokenCreateManyUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type PersonalAccessTokenUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.PersonalAccessTokenWhereUniqueInput
+  update: Prisma.XOR<Prisma.PersonalAccessTokenUpdateWithoutUserInput, Prisma.PersonalAccessTokenUncheckedUpdateWithoutUserInput>
+  create: Prisma.XOR<Prisma.PersonalAccessTokenCreateWithoutUserInput, Prisma.PersonalAccessTokenUncheckedCreateWithoutUserInput>
+}
+
+export type PersonalAccessTokenUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.PersonalAccessTokenWhereUniqueInput
+  data: Prisma.XOR<Prisma.PersonalAccessTokenUpdateWithoutUserInput, Prisma.PersonalAccessTokenUncheckedUpdateWithoutUserInput>
+}
+
+export type PersonalAccessTokenUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.PersonalAccessTokenScalarWhereInput
+  data: Prisma.XOR<Prisma.PersonalAccessTokenUpdateManyMutationInput, Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserInput>
+}
+
+export type PersonalAccessTokenScalarWhereInput = {
+  AND?: Prisma.PersonalAccessTokenScalarWhereInput | Prisma.PersonalAccessTokenScalarWhereInput[]
+  OR?: Prisma.PersonalAccessTokenScalarWhereInput[]
+  NOT?: Prisma.PersonalAccessTokenScalarWhereInput | Prisma.PersonalAccessTokenScalarWhereInput[]
+  id?: Prisma.IntFilter<"PersonalAccessToken"> | number
+  tokenHash?: Prisma.StringFilter<"PersonalAccessToken"> | string
+  userId?: Prisma.IntFilter<"PersonalAccessToken"> | number
+  name?: Prisma.StringFilter<"PersonalAccessToken"> | string
+  scopes?: Prisma.StringNullableListFilter<"PersonalAccessToken">
+  expiresAt?: Prisma.DateTimeFilter<"PersonalAccessToken"> | Date | string
+  lastUsedAt?: Prisma.DateTimeNullableFilter<"PersonalAccessToken"> | Date | string | null
+  revokedAt?: Prisma.DateTimeNullableFilter<"PersonalAccessToken"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"PersonalAccessToken"> | Date | string
+}
+
+export type PersonalAccessTokenCreateManyUserInput = {
+  id?: number
+  tokenHash: string
+  name: string
+  scopes?: Prisma.PersonalAccessTokenCreatescopesInput | string[]
+  expiresAt: Date | string
+  lastUsedAt?: Date | string | null
+  revokedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type PersonalAccessTokenUpdateWithoutUserInput = {
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.PersonalAccessTokenUpdatescopesInput | string[]
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PersonalAccessTokenUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.PersonalAccessTokenUpdatescopesInput | string[]
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PersonalAccessTokenUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  tokenHash?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  scopes?: Prisma.PersonalAccessTokenUpdatescopesInput | string[]
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  lastUsedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  revokedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PersonalAccessTokenSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tokenHash?: boolean
+  userId?: boolean
+  name?: boolean
+  scopes?: boolean
+  expiresAt?: boolean
+  lastUsedAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["personalAccessToken"]>
+
+export type PersonalAccessTokenSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tokenHash?: boolean
+  userId?: boolean
+  name?: boolean
+  scopes?: boolean
+  expiresAt?: boolean
+  lastUsedAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["personalAccessToken"]>
+
+export type PersonalAccessTokenSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  tokenHash?: boolean
+  userId?: boolean
+  name?: boolean
+  scopes?: boolean
+  expiresAt?: boolean
+  lastUsedAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["personalAccessToken"]>
+
+export type PersonalAccessTokenSelectScalar = {
+  id?: boolean
+  tokenHash?: boolean
+  userId?: boolean
+  name?: boolean
+  scopes?: boolean
+  expiresAt?: boolean
+  lastUsedAt?: boolean
+  revokedAt?: boolean
+  createdAt?: boolean
+}
+
+export type PersonalAccessTokenOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "tokenHash" | "userId" | "name" | "scopes" | "expiresAt" | "lastUsedAt" | "revokedAt" | "createdAt", ExtArgs["result"]["personalAccessToken"]>
+export type PersonalAccessTokenInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type PersonalAccessTokenIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+export type PersonalAccessTokenIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+}
+
+export type $PersonalAccessTokenPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PersonalAccessToken"
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    tokenHash: string
+    userId: number
+    name: string
+    scopes: string[]
+    expiresAt: Date
+    lastUsedAt: Date | null
+    revokedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["personalAccessToken"]>
+  composites: {}
+}
+
+export type PersonalAccessTokenGetPayload<S extends boolean | null | undefined | PersonalAccessTokenDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload, S>
+
+export type PersonalAccessTokenCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PersonalAccessTokenFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: PersonalAccessTokenCountAggregateInputType | true
+  }
+
+export interface PersonalAccessTokenDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PersonalAccessToken'], meta: { name: 'PersonalAccessToken' } }
+  /**
+   * Find zero or one PersonalAccessToken that matches the filter.
+   * @param {PersonalAccessTokenFindUniqueArgs} args - Arguments to find a PersonalAccessToken
+   * @example
+   * // Get one PersonalAccessToken
+   * const personalAccessToken = await prisma.personalAccessToken.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PersonalAccessTokenFindUniqueArgs>(args: Prisma.SelectSubset<T, PersonalAccessTokenFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PersonalAccessTokenClient<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PersonalAccessToken that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PersonalAccessTokenFindUniqueOrThrowArgs} args - Arguments to find a PersonalAccessToken
+   * @example
+   * // Get one PersonalAccessToken
+   * const personalAccessToken = await prisma.personalAccessToken.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PersonalAccessTokenFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PersonalAccessTokenFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PersonalAccessTokenClient<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PersonalAccessToken that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PersonalAccessTokenFindFirstArgs} args - Arguments to find a PersonalAccessToken
+   * @example
+   * // Get one PersonalAccessToken
+   * const personalAccessToken = await prisma.personalAccessToken.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PersonalAccessTokenFindFirstArgs>(args?: Prisma.SelectSubset<T, PersonalAccessTokenFindFirstArgs<ExtArgs>>): Prisma.Prisma__PersonalAccessTokenClient<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PersonalAccessToken that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PersonalAccessTokenFindFirstOrThrowArgs} args - Arguments to find a PersonalAccessToken
+   * @example
+   * // Get one PersonalAccessToken
+   * const personalAccessToken = await prisma.personalAccessToken.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PersonalAccessTokenFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PersonalAccessTokenFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PersonalAccessTokenClient<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PersonalAccessTokens that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PersonalAccessTokenFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PersonalAccessTokens
+   * const personalAccessTokens = await prisma.personalAccessToken.findMany()
+   * 
+   * // Get first 10 PersonalAccessTokens
+   * const personalAccessTokens = await prisma.personalAccessToken.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const personalAccessTokenWithIdOnly = await prisma.personalAccessToken.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PersonalAccessTokenFindManyArgs>(args?: Prisma.SelectSubset<T, PersonalAccessTokenFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PersonalAccessToken.
+   * @param {PersonalAccessTokenCreateArgs} args - Arguments to create a PersonalAccessToken.
+   * @example
+   * // Create one PersonalAccessToken
+   * const PersonalAccessToken = await prisma.personalAccessToken.create({
+   *   data: {
+   *     // ... data to create a PersonalAccessToken
+   *   }
+   * })
+   * 
+   */
+  create<T extends PersonalAccessTokenCreateArgs>(args: Prisma.SelectSubset<T, PersonalAccessTokenCreateArgs<ExtArgs>>): Prisma.Prisma__PersonalAccessTokenClient<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PersonalAccessTokens.
+   * @param {PersonalAccessTokenCreateManyArgs} args - Arguments to create many PersonalAccessTokens.
+   * @example
+   * // Create many PersonalAccessTokens
+   * const personalAccessToken = await prisma.personalAccessToken.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PersonalAccessTokenCreateManyArgs>(args?: Prisma.SelectSubset<T, PersonalAccessTokenCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PersonalAccessTokens and returns the data saved in the database.
+   * @param {PersonalAccessTokenCreateManyAndReturnArgs} args - Arguments to create many PersonalAccessTokens.
+   * @example
+   * // Create many PersonalAccessTokens
+   * const personalAccessToken = await prisma.personalAccessToken.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PersonalAccessTokens and only return the `id`
+   * const personalAccessTokenWithIdOnly = await prisma.personalAccessToken.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PersonalAccessTokenCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PersonalAccessTokenCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PersonalAccessToken.
+   * @param {PersonalAccessTokenDeleteArgs} args - Arguments to delete one PersonalAccessToken.
+   * @example
+   * // Delete one PersonalAccessToken
+   * const PersonalAccessToken = await prisma.personalAccessToken.delete({
+   *   where: {
+   *     // ... filter to delete one PersonalAccessToken
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PersonalAccessTokenDeleteArgs>(args: Prisma.SelectSubset<T, PersonalAccessTokenDeleteArgs<ExtArgs>>): Prisma.Prisma__PersonalAccessTokenClient<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PersonalAccessToken.
+   * @param {PersonalAccessTokenUpdateArgs} args - Arguments to update one PersonalAccessToken.
+   * @example
+   * // Update one PersonalAccessToken
+   * const personalAccessToken = await prisma.personalAccessToken.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PersonalAccessTokenUpdateArgs>(args: Prisma.SelectSubset<T, PersonalAccessTokenUpdateArgs<ExtArgs>>): Prisma.Prisma__PersonalAccessTokenClient<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PersonalAccessTokens.
+   * @param {PersonalAccessTokenDeleteManyArgs} args - Arguments to filter PersonalAccessTokens to delete.
+   * @example
+   * // Delete a few PersonalAccessTokens
+   * const { count } = await prisma.personalAccessToken.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PersonalAccessTokenDeleteManyArgs>(args?: Prisma.SelectSubset<T, PersonalAccessTokenDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PersonalAccessTokens.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PersonalAccessTokenUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PersonalAccessTokens
+   * const personalAccessToken = await prisma.personalAccessToken.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PersonalAccessTokenUpdateManyArgs>(args: Prisma.SelectSubset<T, PersonalAccessTokenUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PersonalAccessTokens and returns the data updated in the database.
+   * @param {PersonalAccessTokenUpdateManyAndReturnArgs} args - Arguments to update many PersonalAccessTokens.
+   * @example
+   * // Update many PersonalAccessTokens
+   * const personalAccessToken = await prisma.personalAccessToken.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PersonalAccessTokens and only return the `id`
+   * const personalAccessTokenWithIdOnly = await prisma.personalAccessToken.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PersonalAccessTokenUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PersonalAccessTokenUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PersonalAccessToken.
+   * @param {PersonalAccessTokenUpsertArgs} args - Arguments to update or create a PersonalAccessToken.
+   * @example
+   * // Update or create a PersonalAccessToken
+   * const personalAccessToken = await prisma.personalAccessToken.upsert({
+   *   create: {
+   *     // ... data to create a PersonalAccessToken
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PersonalAccessToken we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PersonalAccessTokenUpsertArgs>(args: Prisma.SelectSubset<T, PersonalAccessTokenUpsertArgs<ExtArgs>>): Prisma.Prisma__PersonalAccessTokenClient<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PersonalAccessTokens.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PersonalAccessTokenCountArgs} args - Arguments to filter PersonalAccessTokens to count.
+   * @example
+   * // Count the number of PersonalAccessTokens
+   * const count = await prisma.personalAccessToken.count({
+   *   where: {
+   *     // ... the filter for the PersonalAccessTokens we want to count
+   *   }
+   * })
+  **/
+  count<T extends PersonalAccessTokenCountArgs>(
+    args?: Prisma.Subset<T, PersonalAccessTokenCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PersonalAccessTokenCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PersonalAccessToken.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PersonalAccessTokenAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PersonalAccessTokenAggregateArgs>(args: Prisma.Subset<T, PersonalAccessTokenAggregateArgs>): Prisma.PrismaPromise<GetPersonalAccessTokenAggregateType<T>>
+
+  /**
+   * Group by PersonalAccessToken.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PersonalAccessTokenGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PersonalAccessTokenGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PersonalAccessTokenGroupByArgs['orderBy'] }
+      : { orderBy?: PersonalAccessTokenGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PersonalAccessTokenGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPersonalAccessTokenGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PersonalAccessToken model
+ */
+readonly fields: PersonalAccessTokenFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PersonalAccessToken.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PersonalAccessTokenClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PersonalAccessToken model
+ */
+export interface PersonalAccessTokenFieldRefs {
+  readonly id: Prisma.FieldRef<"PersonalAccessToken", 'Int'>
+  readonly tokenHash: Prisma.FieldRef<"PersonalAccessToken", 'String'>
+  readonly userId: Prisma.FieldRef<"PersonalAccessToken", 'Int'>
+  readonly name: Prisma.FieldRef<"PersonalAccessToken", 'String'>
+  readonly scopes: Prisma.FieldRef<"PersonalAccessToken", 'String[]'>
+  readonly expiresAt: Prisma.FieldRef<"PersonalAccessToken", 'DateTime'>
+  readonly lastUsedAt: Prisma.FieldRef<"PersonalAccessToken", 'DateTime'>
+  readonly revokedAt: Prisma.FieldRef<"PersonalAccessToken", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"PersonalAccessToken", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PersonalAccessToken findUnique
+ */
+export type PersonalAccessTokenFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which PersonalAccessToken to fetch.
+   */
+  where: Prisma.PersonalAccessTokenWhereUniqueInput
+}
+
+/**
+ * PersonalAccessToken findUniqueOrThrow
+ */
+export type PersonalAccessTokenFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which PersonalAccessToken to fetch.
+   */
+  where: Prisma.PersonalAccessTokenWhereUniqueInput
+}
+
+/**
+ * PersonalAccessToken findFirst
+ */
+export type PersonalAccessTokenFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which PersonalAccessToken to fetch.
+   */
+  where?: Prisma.PersonalAccessTokenWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PersonalAccessTokens to fetch.
+   */
+  orderBy?: Prisma.PersonalAccessTokenOrderByWithRelationInput | Prisma.PersonalAccessTokenOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PersonalAccessTokens.
+   */
+  cursor?: Prisma.PersonalAccessTokenWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PersonalAccessTokens from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PersonalAccessTokens.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PersonalAccessTokens.
+   */
+  distinct?: Prisma.PersonalAccessTokenScalarFieldEnum | Prisma.PersonalAccessTokenScalarFieldEnum[]
+}
+
+/**
+ * PersonalAccessToken findFirstOrThrow
+ */
+export type PersonalAccessTokenFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which PersonalAccessToken to fetch.
+   */
+  where?: Prisma.PersonalAccessTokenWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PersonalAccessTokens to fetch.
+   */
+  orderBy?: Prisma.PersonalAccessTokenOrderByWithRelationInput | Prisma.PersonalAccessTokenOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PersonalAccessTokens.
+   */
+  cursor?: Prisma.PersonalAccessTokenWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PersonalAccessTokens from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PersonalAccessTokens.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PersonalAccessTokens.
+   */
+  distinct?: Prisma.PersonalAccessTokenScalarFieldEnum | Prisma.PersonalAccessTokenScalarFieldEnum[]
+}
+
+/**
+ * PersonalAccessToken findMany
+ */
+export type PersonalAccessTokenFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * Filter, which PersonalAccessTokens to fetch.
+   */
+  where?: Prisma.PersonalAccessTokenWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PersonalAccessTokens to fetch.
+   */
+  orderBy?: Prisma.PersonalAccessTokenOrderByWithRelationInput | Prisma.PersonalAccessTokenOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PersonalAccessTokens.
+   */
+  cursor?: Prisma.PersonalAccessTokenWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PersonalAccessTokens from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PersonalAccessTokens.
+   */
+  skip?: number
+  distinct?: Prisma.PersonalAccessTokenScalarFieldEnum | Prisma.PersonalAccessTokenScalarFieldEnum[]
+}
+
+/**
+ * PersonalAccessToken create
+ */
+export type PersonalAccessTokenCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PersonalAccessToken.
+   */
+  data: Prisma.XOR<Prisma.PersonalAccessTokenCreateInput, Prisma.PersonalAccessTokenUncheckedCreateInput>
+}
+
+/**
+ * PersonalAccessToken createMany
+ */
+export type PersonalAccessTokenCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PersonalAccessTokens.
+   */
+  data: Prisma.PersonalAccessTokenCreateManyInput | Prisma.PersonalAccessTokenCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PersonalAccessToken createManyAndReturn
+ */
+export type PersonalAccessTokenCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * The data used to create many PersonalAccessTokens.
+   */
+  data: Prisma.PersonalAccessTokenCreateManyInput | Prisma.PersonalAccessTokenCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PersonalAccessToken update
+ */
+export type PersonalAccessTokenUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PersonalAccessToken.
+   */
+  data: Prisma.XOR<Prisma.PersonalAccessTokenUpdateInput, Prisma.PersonalAccessTokenUncheckedUpdateInput>
+  /**
+   * Choose, which PersonalAccessToken to update.
+   */
+  where: Prisma.PersonalAccessTokenWhereUniqueInput
+}
+
+/**
+ * PersonalAccessToken updateMany
+ */
+export type PersonalAccessTokenUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PersonalAccessTokens.
+   */
+  data: Prisma.XOR<Prisma.PersonalAccessTokenUpdateManyMutationInput, Prisma.PersonalAccessTokenUncheckedUpdateManyInput>
+  /**
+   * Filter which PersonalAccessTokens to update
+   */
+  where?: Prisma.PersonalAccessTokenWhereInput
+  /**
+   * Limit how many PersonalAccessTokens to update.
+   */
+  limit?: number
+}
+
+/**
+ * PersonalAccessToken updateManyAndReturn
+ */
+export type PersonalAccessTokenUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * The data used to update PersonalAccessTokens.
+   */
+  data: Prisma.XOR<Prisma.PersonalAccessTokenUpdateManyMutationInput, Prisma.PersonalAccessTokenUncheckedUpdateManyInput>
+  /**
+   * Filter which PersonalAccessTokens to update
+   */
+  where?: Prisma.PersonalAccessTokenWhereInput
+  /**
+   * Limit how many PersonalAccessTokens to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PersonalAccessToken upsert
+ */
+export type PersonalAccessTokenUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PersonalAccessToken to update in case it exists.
+   */
+  where: Prisma.PersonalAccessTokenWhereUniqueInput
+  /**
+   * In case the PersonalAccessToken found by the `where` argument doesn't exist, create a new PersonalAccessToken with this data.
+   */
+  create: Prisma.XOR<Prisma.PersonalAccessTokenCreateInput, Prisma.PersonalAccessTokenUncheckedCreateInput>
+  /**
+   * In case the PersonalAccessToken was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PersonalAccessTokenUpdateInput, Prisma.PersonalAccessTokenUncheckedUpdateInput>
+}
+
+/**
+ * PersonalAccessToken delete
+ */
+export type PersonalAccessTokenDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  /**
+   * Filter which PersonalAccessToken to delete.
+   */
+  where: Prisma.PersonalAccessTokenWhereUniqueInput
+}
+
+/**
+ * PersonalAccessToken deleteMany
+ */
+export type PersonalAccessTokenDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PersonalAccessTokens to delete
+   */
+  where?: Prisma.PersonalAccessTokenWhereInput
+  /**
+   * Limit how many PersonalAccessTokens to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PersonalAccessToken without action
+ */
+export type PersonalAccessTokenDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+}
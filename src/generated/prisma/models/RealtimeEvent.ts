@@ -0,0 +1,1219 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RealtimeEvent` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model RealtimeEvent
+ * 
+ */
+export type RealtimeEventModel = runtime.Types.Result.DefaultSelection<Prisma.$RealtimeEventPayload>
+
+export type AggregateRealtimeEvent = {
+  _count: RealtimeEventCountAggregateOutputType | null
+  _avg: RealtimeEventAvgAggregateOutputType | null
+  _sum: RealtimeEventSumAggregateOutputType | null
+  _min: RealtimeEventMinAggregateOutputType | null
+  _max: RealtimeEventMaxAggregateOutputType | null
+}
+
+export type RealtimeEventAvgAggregateOutputType = {
+  id: number | null
+  seq: number | null
+}
+
+export type RealtimeEventSumAggregateOutputType = {
+  id: number | null
+  seq: number | null
+}
+
+export type RealtimeEventMinAggregateOutputType = {
+  id: number | null
+  room: string | null
+  seq: number | null
+  event: string | null
+  createdAt: Date | null
+}
+
+export type RealtimeEventMaxAggregateOutputType = {
+  id: number | null
+  room: string | null
+  seq: number | null
+  event: string | null
+  createdAt: Date | null
+}
+
+export type RealtimeEventCountAggregateOutputType = {
+  id: number
+  room: number
+  seq: number
+  event: number
+  payload: number
+  createdAt: number
+  _all: number
+}
+
+
+export type RealtimeEventAvgAggregateInputType = {
+  id?: true
+  seq?: true
+}
+
+export type RealtimeEventSumAggregateInputType = {
+  id?: true
+  seq?: true
+}
+
+export type RealtimeEventMinAggregateInputType = {
+  id?: true
+  room?: true
+  seq?: true
+  event?: true
+  createdAt?: true
+}
+
+export type RealtimeEventMaxAggregateInputType = {
+  id?: true
+  room?: true
+  seq?: true
+  event?: true
+  createdAt?: true
+}
+
+export type RealtimeEventCountAggregateInputType = {
+  id?: true
+  room?: true
+  seq?: true
+  event?: true
+  payload?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type RealtimeEventAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RealtimeEvent to aggregate.
+   */
+  where?: Prisma.RealtimeEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RealtimeEvents to fetch.
+   */
+  orderBy?: Prisma.RealtimeEventOrderByWithRelationInput | Prisma.RealtimeEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RealtimeEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RealtimeEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RealtimeEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RealtimeEvents
+  **/
+  _count?: true | RealtimeEventCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RealtimeEventAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RealtimeEventSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RealtimeEventMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RealtimeEventMaxAggregateInputType
+}
+
+export type GetRealtimeEventAggregateType<T extends RealtimeEventAggregateArgs> = {
+      [P in keyof T & keyof AggregateRealtimeEvent]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRealtimeEvent[P]>
+    : Prisma.GetScalarType<T[P], AggregateRealtimeEvent[P]>
+}
+
+
+
+
+export type RealtimeEventGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RealtimeEventWhereInput
+  orderBy?: Prisma.RealtimeEventOrderByWithAggregationInput | Prisma.RealtimeEventOrderByWithAggregationInput[]
+  by: Prisma.RealtimeEventScalarFieldEnum[] | Prisma.RealtimeEventScalarFieldEnum
+  having?: Prisma.RealtimeEventScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RealtimeEventCountAggregateInputType | true
+  _avg?: RealtimeEventAvgAggregateInputType
+  _sum?: RealtimeEventSumAggregateInputType
+  _min?: RealtimeEventMinAggregateInputType
+  _max?: RealtimeEventMaxAggregateInputType
+}
+
+export type RealtimeEventGroupByOutputType = {
+  id: number
+  room: string
+  seq: number
+  event: string
+  payload: runtime.JsonValue
+  createdAt: Date
+  _count: RealtimeEventCountAggregateOutputType | null
+  _avg: RealtimeEventAvgAggregateOutputType | null
+  _sum: RealtimeEventSumAggregateOutputType | null
+  _min: RealtimeEventMinAggregateOutputType | null
+  _max: RealtimeEventMaxAggregateOutputType | null
+}
+
+type GetRealtimeEventGroupByPayload<T extends RealtimeEventGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RealtimeEventGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RealtimeEventGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RealtimeEventGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RealtimeEventGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RealtimeEventWhereInput = {
+  AND?: Prisma.RealtimeEventWhereInput | Prisma.RealtimeEventWhereInput[]
+  OR?: Prisma.RealtimeEventWhereInput[]
+  NOT?: Prisma.RealtimeEventWhereInput | Prisma.RealtimeEventWhereInput[]
+  id?: Prisma.IntFilter<"RealtimeEvent"> | number
+  room?: Prisma.StringFilter<"RealtimeEvent"> | string
+  seq?: Prisma.IntFilter<"RealtimeEvent"> | number
+  event?: Prisma.StringFilter<"RealtimeEvent"> | string
+  payload?: Prisma.JsonFilter<"RealtimeEvent">
+  createdAt?: Prisma.DateTimeFilter<"RealtimeEvent"> | Date | string
+}
+
+export type RealtimeEventOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  room?: Prisma.SortOrder
+  seq?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RealtimeEventWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  room_seq?: Prisma.RealtimeEventRoomSeqCompoundUniqueInput
+  AND?: Prisma.RealtimeEventWhereInput | Prisma.RealtimeEventWhereInput[]
+  OR?: Prisma.RealtimeEventWhereInput[]
+  NOT?: Prisma.RealtimeEventWhereInput | Prisma.RealtimeEventWhereInput[]
+  room?: Prisma.StringFilter<"RealtimeEvent"> | string
+  seq?: Prisma.IntFilter<"RealtimeEvent"> | number
+  event?: Prisma.StringFilter<"RealtimeEvent"> | string
+  payload?: Prisma.JsonFilter<"RealtimeEvent">
+  createdAt?: Prisma.DateTimeFilter<"RealtimeEvent"> | Date | string
+}, "id" | "room_seq">
+
+export type RealtimeEventOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  room?: Prisma.SortOrder
+  seq?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.RealtimeEventCountOrderByAggregateInput
+  _avg?: Prisma.RealtimeEventAvgOrderByAggregateInput
+  _max?: Prisma.RealtimeEventMaxOrderByAggregateInput
+  _min?: Prisma.RealtimeEventMinOrderByAggregateInput
+  _sum?: Prisma.RealtimeEventSumOrderByAggregateInput
+}
+
+export type RealtimeEventScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RealtimeEventScalarWhereWithAggregatesInput | Prisma.RealtimeEventScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RealtimeEventScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RealtimeEventScalarWhereWithAggregatesInput | Prisma.RealtimeEventScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"RealtimeEvent"> | number
+  room?: Prisma.StringWithAggregatesFilter<"RealtimeEvent"> | string
+  seq?: Prisma.IntWithAggregatesFilter<"RealtimeEvent"> | number
+  event?: Prisma.StringWithAggregatesFilter<"RealtimeEvent"> | string
+  payload?: Prisma.JsonWithAggregatesFilter<"RealtimeEvent">
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RealtimeEvent"> | Date | string
+}
+
+export type RealtimeEventCreateInput = {
+  room: string
+  seq: number
+  event: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type RealtimeEventUncheckedCreateInput = {
+  id?: number
+  room: string
+  seq: number
+  event: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type RealtimeEventUpdateInput = {
+  room?: Prisma.StringFieldUpdateOperationsInput | string
+  seq?: Prisma.IntFieldUpdateOperationsInput | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RealtimeEventUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  room?: Prisma.StringFieldUpdateOperationsInput | string
+  seq?: Prisma.IntFieldUpdateOperationsInput | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RealtimeEventCreateManyInput = {
+  id?: number
+  room: string
+  seq: number
+  event: string
+  payload: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Date | string
+}
+
+export type RealtimeEventUpdateManyMutationInput = {
+  room?: Prisma.StringFieldUpdateOperationsInput | string
+  seq?: Prisma.IntFieldUpdateOperationsInput | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RealtimeEventUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  room?: Prisma.StringFieldUpdateOperationsInput | string
+  seq?: Prisma.IntFieldUpdateOperationsInput | number
+  event?: Prisma.StringFieldUpdateOperationsInput | string
+  payload?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RealtimeEventRoomSeqCompoundUniqueInput = {
+  room: string
+  seq: number
+}
+
+export type RealtimeEventCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  room?: Prisma.SortOrder
+  seq?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  payload?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RealtimeEventAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  seq?: Prisma.SortOrder
+}
+
+export type RealtimeEventMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  room?: Prisma.SortOrder
+  seq?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RealtimeEventMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  room?: Prisma.SortOrder
+  seq?: Prisma.SortOrder
+  event?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type RealtimeEventSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  seq?: Prisma.SortOrder
+}
+
+
+
+export type RealtimeEventSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  room?: boolean
+  seq?: boolean
+  event?: boolean
+  payload?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["realtimeEvent"]>
+
+export type RealtimeEventSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  room?: boolean
+  seq?: boolean
+  event?: boolean
+  payload?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["realtimeEvent"]>
+
+export type RealtimeEventSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  room?: boolean
+  seq?: boolean
+  event?: boolean
+  payload?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["realtimeEvent"]>
+
+export type RealtimeEventSelectScalar = {
+  id?: boolean
+  room?: boolean
+  seq?: boolean
+  event?: boolean
+  payload?: boolean
+  createdAt?: boolean
+}
+
+export type RealtimeEventOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "room" | "seq" | "event" | "payload" | "createdAt", ExtArgs["result"]["realtimeEvent"]>
+
+export type $RealtimeEventPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RealtimeEvent"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    room: string
+    seq: number
+    event: string
+    payload: runtime.JsonValue
+    createdAt: Date
+  }, ExtArgs["result"]["realtimeEvent"]>
+  composites: {}
+}
+
+export type RealtimeEventGetPayload<S extends boolean | null | undefined | RealtimeEventDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload, S>
+
+export type RealtimeEventCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RealtimeEventFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RealtimeEventCountAggregateInputType | true
+  }
+
+export interface RealtimeEventDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RealtimeEvent'], meta: { name: 'RealtimeEvent' } }
+  /**
+   * Find zero or one RealtimeEvent that matches the filter.
+   * @param {RealtimeEventFindUniqueArgs} args - Arguments to find a RealtimeEvent
+   * @example
+   * // Get one RealtimeEvent
+   * const realtimeEvent = await prisma.realtimeEvent.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RealtimeEventFindUniqueArgs>(args: Prisma.SelectSubset<T, RealtimeEventFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RealtimeEventClient<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RealtimeEvent that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RealtimeEventFindUniqueOrThrowArgs} args - Arguments to find a RealtimeEvent
+   * @example
+   * // Get one RealtimeEvent
+   * const realtimeEvent = await prisma.realtimeEvent.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RealtimeEventFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RealtimeEventFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RealtimeEventClient<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RealtimeEvent that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeEventFindFirstArgs} args - Arguments to find a RealtimeEvent
+   * @example
+   * // Get one RealtimeEvent
+   * const realtimeEvent = await prisma.realtimeEvent.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RealtimeEventFindFirstArgs>(args?: Prisma.SelectSubset<T, RealtimeEventFindFirstArgs<ExtArgs>>): Prisma.Prisma__RealtimeEventClient<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RealtimeEvent that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeEventFindFirstOrThrowArgs} args - Arguments to find a RealtimeEvent
+   * @example
+   * // Get one RealtimeEvent
+   * const realtimeEvent = await prisma.realtimeEvent.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RealtimeEventFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RealtimeEventFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RealtimeEventClient<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RealtimeEvents that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeEventFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RealtimeEvents
+   * const realtimeEvents = await prisma.realtimeEvent.findMany()
+   * 
+   * // Get first 10 RealtimeEvents
+   * const realtimeEvents = await prisma.realtimeEvent.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const realtimeEventWithIdOnly = await prisma.realtimeEvent.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends RealtimeEventFindManyArgs>(args?: Prisma.SelectSubset<T, RealtimeEventFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RealtimeEvent.
+   * @param {RealtimeEventCreateArgs} args - Arguments to create a RealtimeEvent.
+   * @example
+   * // Create one RealtimeEvent
+   * const RealtimeEvent = await prisma.realtimeEvent.create({
+   *   data: {
+   *     // ... data to create a RealtimeEvent
+   *   }
+   * })
+   * 
+   */
+  create<T extends RealtimeEventCreateArgs>(args: Prisma.SelectSubset<T, RealtimeEventCreateArgs<ExtArgs>>): Prisma.Prisma__RealtimeEventClient<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RealtimeEvents.
+   * @param {RealtimeEventCreateManyArgs} args - Arguments to create many RealtimeEvents.
+   * @example
+   * // Create many RealtimeEvents
+   * const realtimeEvent = await prisma.realtimeEvent.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RealtimeEventCreateManyArgs>(args?: Prisma.SelectSubset<T, RealtimeEventCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RealtimeEvents and returns the data saved in the database.
+   * @param {RealtimeEventCreateManyAndReturnArgs} args - Arguments to create many RealtimeEvents.
+   * @example
+   * // Create many RealtimeEvents
+   * const realtimeEvent = await prisma.realtimeEvent.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RealtimeEvents and only return the `id`
+   * const realtimeEventWithIdOnly = await prisma.realtimeEvent.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RealtimeEventCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RealtimeEventCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RealtimeEvent.
+   * @param {RealtimeEventDeleteArgs} args - Arguments to delete one RealtimeEvent.
+   * @example
+   * // Delete one RealtimeEvent
+   * const RealtimeEvent = await prisma.realtimeEvent.delete({
+   *   where: {
+   *     // ... filter to delete one RealtimeEvent
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RealtimeEventDeleteArgs>(args: Prisma.SelectSubset<T, RealtimeEventDeleteArgs<ExtArgs>>): Prisma.Prisma__RealtimeEventClient<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RealtimeEvent.
+   * @param {RealtimeEventUpdateArgs} args - Arguments to update one RealtimeEvent.
+   * @example
+   * // Update one RealtimeEvent
+   * const realtimeEvent = await prisma.realtimeEvent.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RealtimeEventUpdateArgs>(args: Prisma.SelectSubset<T, RealtimeEventUpdateArgs<ExtArgs>>): Prisma.Prisma__RealtimeEventClient<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RealtimeEvents.
+   * @param {RealtimeEventDeleteManyArgs} args - Arguments to filter RealtimeEvents to delete.
+   * @example
+   * // Delete a few RealtimeEvents
+   * const { count } = await prisma.realtimeEvent.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RealtimeEventDeleteManyArgs>(args?: Prisma.SelectSubset<T, RealtimeEventDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RealtimeEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeEventUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RealtimeEvents
+   * const realtimeEvent = await prisma.realtimeEvent.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RealtimeEventUpdateManyArgs>(args: Prisma.SelectSubset<T, RealtimeEventUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RealtimeEvents and returns the data updated in the database.
+   * @param {RealtimeEventUpdateManyAndReturnArgs} args - Arguments to update many RealtimeEvents.
+   * @example
+   * // Update many RealtimeEvents
+   * const realtimeEvent = await prisma.realtimeEvent.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RealtimeEvents and only return the `id`
+   * const realtimeEventWithIdOnly = await prisma.realtimeEvent.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RealtimeEventUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RealtimeEventUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RealtimeEvent.
+   * @param {RealtimeEventUpsertArgs} args - Arguments to update or create a RealtimeEvent.
+   * @example
+   * // Update or create a RealtimeEvent
+   * const realtimeEvent = await prisma.realtimeEvent.upsert({
+   *   create: {
+   *     // ... data to create a RealtimeEvent
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RealtimeEvent we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RealtimeEventUpsertArgs>(args: Prisma.SelectSubset<T, RealtimeEventUpsertArgs<ExtArgs>>): Prisma.Prisma__RealtimeEventClient<runtime.Types.Result.GetResult<Prisma.$RealtimeEventPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RealtimeEvents.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeEventCountArgs} args - Arguments to filter RealtimeEvents to count.
+   * @example
+   * // Count the number of RealtimeEvents
+   * const count = await prisma.realtimeEvent.count({
+   *   where: {
+   *     // ... the filter for the RealtimeEvents we want to count
+   *   }
+   * })
+  **/
+  count<T extends RealtimeEventCountArgs>(
+    args?: Prisma.Subset<T, RealtimeEventCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RealtimeEventCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RealtimeEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeEventAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RealtimeEventAggregateArgs>(args: Prisma.Subset<T, RealtimeEventAggregateArgs>): Prisma.PrismaPromise<GetRealtimeEventAggregateType<T>>
+
+  /**
+   * Group by RealtimeEvent.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeEventGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RealtimeEventGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RealtimeEventGroupByArgs['orderBy'] }
+      : { orderBy?: RealtimeEventGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RealtimeEventGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRealtimeEventGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RealtimeEvent model
+ */
+readonly fields: RealtimeEventFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RealtimeEvent.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RealtimeEventClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RealtimeEvent model
+ */
+export interface RealtimeEventFieldRefs {
+  readonly id: Prisma.FieldRef<"RealtimeEvent", 'Int'>
+  readonly room: Prisma.FieldRef<"RealtimeEvent", 'String'>
+  readonly seq: Prisma.FieldRef<"RealtimeEvent", 'Int'>
+  readonly event: Prisma.FieldRef<"RealtimeEvent", 'String'>
+  readonly payload: Prisma.FieldRef<"RealtimeEvent", 'Json'>
+  readonly createdAt: Prisma.FieldRef<"RealtimeEvent", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RealtimeEvent findUnique
+ */
+export type RealtimeEventFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeEvent to fetch.
+   */
+  where: Prisma.RealtimeEventWhereUniqueInput
+}
+
+/**
+ * RealtimeEvent findUniqueOrThrow
+ */
+export type RealtimeEventFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeEvent to fetch.
+   */
+  where: Prisma.RealtimeEventWhereUniqueInput
+}
+
+/**
+ * RealtimeEvent findFirst
+ */
+export type RealtimeEventFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeEvent to fetch.
+   */
+  where?: Prisma.RealtimeEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RealtimeEvents to fetch.
+   */
+  orderBy?: Prisma.RealtimeEventOrderByWithRelationInput | Prisma.RealtimeEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RealtimeEvents.
+   */
+  cursor?: Prisma.RealtimeEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RealtimeEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RealtimeEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RealtimeEvents.
+   */
+  distinct?: Prisma.RealtimeEventScalarFieldEnum | Prisma.RealtimeEventScalarFieldEnum[]
+}
+
+/**
+ * RealtimeEvent findFirstOrThrow
+ */
+export type RealtimeEventFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeEvent to fetch.
+   */
+  where?: Prisma.RealtimeEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RealtimeEvents to fetch.
+   */
+  orderBy?: Prisma.RealtimeEventOrderByWithRelationInput | Prisma.RealtimeEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RealtimeEvents.
+   */
+  cursor?: Prisma.RealtimeEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RealtimeEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RealtimeEvents.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RealtimeEvents.
+   */
+  distinct?: Prisma.RealtimeEventScalarFieldEnum | Prisma.RealtimeEventScalarFieldEnum[]
+}
+
+/**
+ * RealtimeEvent findMany
+ */
+export type RealtimeEventFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeEvents to fetch.
+   */
+  where?: Prisma.RealtimeEventWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RealtimeEvents to fetch.
+   */
+  orderBy?: Prisma.RealtimeEventOrderByWithRelationInput | Prisma.RealtimeEventOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RealtimeEvents.
+   */
+  cursor?: Prisma.RealtimeEventWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RealtimeEvents from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RealtimeEvents.
+   */
+  skip?: number
+  distinct?: Prisma.RealtimeEventScalarFieldEnum | Prisma.RealtimeEventScalarFieldEnum[]
+}
+
+/**
+ * RealtimeEvent create
+ */
+export type RealtimeEventCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * The data needed to create a RealtimeEvent.
+   */
+  data: Prisma.XOR<Prisma.RealtimeEventCreateInput, Prisma.RealtimeEventUncheckedCreateInput>
+}
+
+/**
+ * RealtimeEvent createMany
+ */
+export type RealtimeEventCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RealtimeEvents.
+   */
+  data: Prisma.RealtimeEventCreateManyInput | Prisma.RealtimeEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RealtimeEvent createManyAndReturn
+ */
+export type RealtimeEventCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * The data used to create many RealtimeEvents.
+   */
+  data: Prisma.RealtimeEventCreateManyInput | Prisma.RealtimeEventCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RealtimeEvent update
+ */
+export type RealtimeEventUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * The data needed to update a RealtimeEvent.
+   */
+  data: Prisma.XOR<Prisma.RealtimeEventUpdateInput, Prisma.RealtimeEventUncheckedUpdateInput>
+  /**
+   * Choose, which RealtimeEvent to update.
+   */
+  where: Prisma.RealtimeEventWhereUniqueInput
+}
+
+/**
+ * RealtimeEvent updateMany
+ */
+export type RealtimeEventUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RealtimeEvents.
+   */
+  data: Prisma.XOR<Prisma.RealtimeEventUpdateManyMutationInput, Prisma.RealtimeEventUncheckedUpdateManyInput>
+  /**
+   * Filter which RealtimeEvents to update
+   */
+  where?: Prisma.RealtimeEventWhereInput
+  /**
+   * Limit how many RealtimeEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * RealtimeEvent updateManyAndReturn
+ */
+export type RealtimeEventUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * The data used to update RealtimeEvents.
+   */
+  data: Prisma.XOR<Prisma.RealtimeEventUpdateManyMutationInput, Prisma.RealtimeEventUncheckedUpdateManyInput>
+  /**
+   * Filter which RealtimeEvents to update
+   */
+  where?: Prisma.RealtimeEventWhereInput
+  /**
+   * Limit how many RealtimeEvents to update.
+   */
+  limit?: number
+}
+
+/**
+ * RealtimeEvent upsert
+ */
+export type RealtimeEventUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * The filter to search for the RealtimeEvent to update in case it exists.
+   */
+  where: Prisma.RealtimeEventWhereUniqueInput
+  /**
+   * In case the RealtimeEvent found by the `where` argument doesn't exist, create a new RealtimeEvent with this data.
+   */
+  create: Prisma.XOR<Prisma.RealtimeEventCreateInput, Prisma.RealtimeEventUncheckedCreateInput>
+  /**
+   * In case the RealtimeEvent was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RealtimeEventUpdateInput, Prisma.RealtimeEventUncheckedUpdateInput>
+}
+
+/**
+ * RealtimeEvent delete
+ */
+export type RealtimeEventDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+  /**
+   * Filter which RealtimeEvent to delete.
+   */
+  where: Prisma.RealtimeEventWhereUniqueInput
+}
+
+/**
+ * RealtimeEvent deleteMany
+ */
+export type RealtimeEventDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RealtimeEvents to delete
+   */
+  where?: Prisma.RealtimeEventWhereInput
+  /**
+   * Limit how many RealtimeEvents to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RealtimeEvent without action
+ */
+export type RealtimeEventDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeEvent
+   */
+  select?: Prisma.RealtimeEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeEvent
+   */
+  omit?: Prisma.RealtimeEventOmit<ExtArgs> | null
+}
@@ -0,0 +1,1132 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `RealtimeRoom` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model RealtimeRoom
+ * 
+ */
+export type RealtimeRoomModel = runtime.Types.Result.DefaultSelection<Prisma.$RealtimeRoomPayload>
+
+export type AggregateRealtimeRoom = {
+  _count: RealtimeRoomCountAggregateOutputType | null
+  _avg: RealtimeRoomAvgAggregateOutputType | null
+  _sum: RealtimeRoomSumAggregateOutputType | null
+  _min: RealtimeRoomMinAggregateOutputType | null
+  _max: RealtimeRoomMaxAggregateOutputType | null
+}
+
+export type RealtimeRoomAvgAggregateOutputType = {
+  lastSeq: number | null
+}
+
+export type RealtimeRoomSumAggregateOutputType = {
+  lastSeq: number | null
+}
+
+export type RealtimeRoomMinAggregateOutputType = {
+  room: string | null
+  lastSeq: number | null
+  updatedAt: Date | null
+}
+
+export type RealtimeRoomMaxAggregateOutputType = {
+  room: string | null
+  lastSeq: number | null
+  updatedAt: Date | null
+}
+
+export type RealtimeRoomCountAggregateOutputType = {
+  room: number
+  lastSeq: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type RealtimeRoomAvgAggregateInputType = {
+  lastSeq?: true
+}
+
+export type RealtimeRoomSumAggregateInputType = {
+  lastSeq?: true
+}
+
+export type RealtimeRoomMinAggregateInputType = {
+  room?: true
+  lastSeq?: true
+  updatedAt?: true
+}
+
+export type RealtimeRoomMaxAggregateInputType = {
+  room?: true
+  lastSeq?: true
+  updatedAt?: true
+}
+
+export type RealtimeRoomCountAggregateInputType = {
+  room?: true
+  lastSeq?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type RealtimeRoomAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RealtimeRoom to aggregate.
+   */
+  where?: Prisma.RealtimeRoomWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RealtimeRooms to fetch.
+   */
+  orderBy?: Prisma.RealtimeRoomOrderByWithRelationInput | Prisma.RealtimeRoomOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.RealtimeRoomWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RealtimeRooms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RealtimeRooms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned RealtimeRooms
+  **/
+  _count?: true | RealtimeRoomCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: RealtimeRoomAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: RealtimeRoomSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: RealtimeRoomMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: RealtimeRoomMaxAggregateInputType
+}
+
+export type GetRealtimeRoomAggregateType<T extends RealtimeRoomAggregateArgs> = {
+      [P in keyof T & keyof AggregateRealtimeRoom]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRealtimeRoom[P]>
+    : Prisma.GetScalarType<T[P], AggregateRealtimeRoom[P]>
+}
+
+
+
+
+export type RealtimeRoomGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.RealtimeRoomWhereInput
+  orderBy?: Prisma.RealtimeRoomOrderByWithAggregationInput | Prisma.RealtimeRoomOrderByWithAggregationInput[]
+  by: Prisma.RealtimeRoomScalarFieldEnum[] | Prisma.RealtimeRoomScalarFieldEnum
+  having?: Prisma.RealtimeRoomScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: RealtimeRoomCountAggregateInputType | true
+  _avg?: RealtimeRoomAvgAggregateInputType
+  _sum?: RealtimeRoomSumAggregateInputType
+  _min?: RealtimeRoomMinAggregateInputType
+  _max?: RealtimeRoomMaxAggregateInputType
+}
+
+export type RealtimeRoomGroupByOutputType = {
+  room: string
+  lastSeq: number
+  updatedAt: Date
+  _count: RealtimeRoomCountAggregateOutputType | null
+  _avg: RealtimeRoomAvgAggregateOutputType | null
+  _sum: RealtimeRoomSumAggregateOutputType | null
+  _min: RealtimeRoomMinAggregateOutputType | null
+  _max: RealtimeRoomMaxAggregateOutputType | null
+}
+
+type GetRealtimeRoomGroupByPayload<T extends RealtimeRoomGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RealtimeRoomGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof RealtimeRoomGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], RealtimeRoomGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], RealtimeRoomGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type RealtimeRoomWhereInput = {
+  AND?: Prisma.RealtimeRoomWhereInput | Prisma.RealtimeRoomWhereInput[]
+  OR?: Prisma.RealtimeRoomWhereInput[]
+  NOT?: Prisma.RealtimeRoomWhereInput | Prisma.RealtimeRoomWhereInput[]
+  room?: Prisma.StringFilter<"RealtimeRoom"> | string
+  lastSeq?: Prisma.IntFilter<"RealtimeRoom"> | number
+  updatedAt?: Prisma.DateTimeFilter<"RealtimeRoom"> | Date | string
+}
+
+export type RealtimeRoomOrderByWithRelationInput = {
+  room?: Prisma.SortOrder
+  lastSeq?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RealtimeRoomWhereUniqueInput = Prisma.AtLeast<{
+  room?: string
+  AND?: Prisma.RealtimeRoomWhereInput | Prisma.RealtimeRoomWhereInput[]
+  OR?: Prisma.RealtimeRoomWhereInput[]
+  NOT?: Prisma.RealtimeRoomWhereInput | Prisma.RealtimeRoomWhereInput[]
+  lastSeq?: Prisma.IntFilter<"RealtimeRoom"> | number
+  updatedAt?: Prisma.DateTimeFilter<"RealtimeRoom"> | Date | string
+}, "room">
+
+export type RealtimeRoomOrderByWithAggregationInput = {
+  room?: Prisma.SortOrder
+  lastSeq?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.RealtimeRoomCountOrderByAggregateInput
+  _avg?: Prisma.RealtimeRoomAvgOrderByAggregateInput
+  _max?: Prisma.RealtimeRoomMaxOrderByAggregateInput
+  _min?: Prisma.RealtimeRoomMinOrderByAggregateInput
+  _sum?: Prisma.RealtimeRoomSumOrderByAggregateInput
+}
+
+export type RealtimeRoomScalarWhereWithAggregatesInput = {
+  AND?: Prisma.RealtimeRoomScalarWhereWithAggregatesInput | Prisma.RealtimeRoomScalarWhereWithAggregatesInput[]
+  OR?: Prisma.RealtimeRoomScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.RealtimeRoomScalarWhereWithAggregatesInput | Prisma.RealtimeRoomScalarWhereWithAggregatesInput[]
+  room?: Prisma.StringWithAggregatesFilter<"RealtimeRoom"> | string
+  lastSeq?: Prisma.IntWithAggregatesFilter<"RealtimeRoom"> | number
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"RealtimeRoom"> | Date | string
+}
+
+export type RealtimeRoomCreateInput = {
+  room: string
+  lastSeq?: number
+  updatedAt?: Date | string
+}
+
+export type RealtimeRoomUncheckedCreateInput = {
+  room: string
+  lastSeq?: number
+  updatedAt?: Date | string
+}
+
+export type RealtimeRoomUpdateInput = {
+  room?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeq?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RealtimeRoomUncheckedUpdateInput = {
+  room?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeq?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RealtimeRoomCreateManyInput = {
+  room: string
+  lastSeq?: number
+  updatedAt?: Date | string
+}
+
+export type RealtimeRoomUpdateManyMutationInput = {
+  room?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeq?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RealtimeRoomUncheckedUpdateManyInput = {
+  room?: Prisma.StringFieldUpdateOperationsInput | string
+  lastSeq?: Prisma.IntFieldUpdateOperationsInput | number
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type RealtimeRoomCountOrderByAggregateInput = {
+  room?: Prisma.SortOrder
+  lastSeq?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RealtimeRoomAvgOrderByAggregateInput = {
+  lastSeq?: Prisma.SortOrder
+}
+
+export type RealtimeRoomMaxOrderByAggregateInput = {
+  room?: Prisma.SortOrder
+  lastSeq?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RealtimeRoomMinOrderByAggregateInput = {
+  room?: Prisma.SortOrder
+  lastSeq?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type RealtimeRoomSumOrderByAggregateInput = {
+  lastSeq?: Prisma.SortOrder
+}
+
+
+
+export type RealtimeRoomSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  room?: boolean
+  lastSeq?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["realtimeRoom"]>
+
+export type RealtimeRoomSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  room?: boolean
+  lastSeq?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["realtimeRoom"]>
+
+export type RealtimeRoomSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  room?: boolean
+  lastSeq?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["realtimeRoom"]>
+
+export type RealtimeRoomSelectScalar = {
+  room?: boolean
+  lastSeq?: boolean
+  updatedAt?: boolean
+}
+
+export type RealtimeRoomOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"room" | "lastSeq" | "updatedAt", ExtArgs["result"]["realtimeRoom"]>
+
+export type $RealtimeRoomPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "RealtimeRoom"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    room: string
+    lastSeq: number
+    updatedAt: Date
+  }, ExtArgs["result"]["realtimeRoom"]>
+  composites: {}
+}
+
+export type RealtimeRoomGetPayload<S extends boolean | null | undefined | RealtimeRoomDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload, S>
+
+export type RealtimeRoomCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<RealtimeRoomFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: RealtimeRoomCountAggregateInputType | true
+  }
+
+export interface RealtimeRoomDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['RealtimeRoom'], meta: { name: 'RealtimeRoom' } }
+  /**
+   * Find zero or one RealtimeRoom that matches the filter.
+   * @param {RealtimeRoomFindUniqueArgs} args - Arguments to find a RealtimeRoom
+   * @example
+   * // Get one RealtimeRoom
+   * const realtimeRoom = await prisma.realtimeRoom.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RealtimeRoomFindUniqueArgs>(args: Prisma.SelectSubset<T, RealtimeRoomFindUniqueArgs<ExtArgs>>): Prisma.Prisma__RealtimeRoomClient<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one RealtimeRoom that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RealtimeRoomFindUniqueOrThrowArgs} args - Arguments to find a RealtimeRoom
+   * @example
+   * // Get one RealtimeRoom
+   * const realtimeRoom = await prisma.realtimeRoom.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RealtimeRoomFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, RealtimeRoomFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__RealtimeRoomClient<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RealtimeRoom that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeRoomFindFirstArgs} args - Arguments to find a RealtimeRoom
+   * @example
+   * // Get one RealtimeRoom
+   * const realtimeRoom = await prisma.realtimeRoom.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RealtimeRoomFindFirstArgs>(args?: Prisma.SelectSubset<T, RealtimeRoomFindFirstArgs<ExtArgs>>): Prisma.Prisma__RealtimeRoomClient<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first RealtimeRoom that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeRoomFindFirstOrThrowArgs} args - Arguments to find a RealtimeRoom
+   * @example
+   * // Get one RealtimeRoom
+   * const realtimeRoom = await prisma.realtimeRoom.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RealtimeRoomFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, RealtimeRoomFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__RealtimeRoomClient<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more RealtimeRooms that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeRoomFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RealtimeRooms
+   * const realtimeRooms = await prisma.realtimeRoom.findMany()
+   * 
+   * // Get first 10 RealtimeRooms
+   * const realtimeRooms = await prisma.realtimeRoom.findMany({ take: 10 })
+   * 
+   * // Only select the `room`
+   * const realtimeRoomWithRoomOnly = await prisma.realtimeRoom.findMany({ select: { room: true } })
+   * 
+   */
+  findMany<T extends RealtimeRoomFindManyArgs>(args?: Prisma.SelectSubset<T, RealtimeRoomFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a RealtimeRoom.
+   * @param {RealtimeRoomCreateArgs} args - Arguments to create a RealtimeRoom.
+   * @example
+   * // Create one RealtimeRoom
+   * const RealtimeRoom = await prisma.realtimeRoom.create({
+   *   data: {
+   *     // ... data to create a RealtimeRoom
+   *   }
+   * })
+   * 
+   */
+  create<T extends RealtimeRoomCreateArgs>(args: Prisma.SelectSubset<T, RealtimeRoomCreateArgs<ExtArgs>>): Prisma.Prisma__RealtimeRoomClient<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many RealtimeRooms.
+   * @param {RealtimeRoomCreateManyArgs} args - Arguments to create many RealtimeRooms.
+   * @example
+   * // Create many RealtimeRooms
+   * const realtimeRoom = await prisma.realtimeRoom.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends RealtimeRoomCreateManyArgs>(args?: Prisma.SelectSubset<T, RealtimeRoomCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many RealtimeRooms and returns the data saved in the database.
+   * @param {RealtimeRoomCreateManyAndReturnArgs} args - Arguments to create many RealtimeRooms.
+   * @example
+   * // Create many RealtimeRooms
+   * const realtimeRoom = await prisma.realtimeRoom.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many RealtimeRooms and only return the `room`
+   * const realtimeRoomWithRoomOnly = await prisma.realtimeRoom.createManyAndReturn({
+   *   select: { room: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends RealtimeRoomCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, RealtimeRoomCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a RealtimeRoom.
+   * @param {RealtimeRoomDeleteArgs} args - Arguments to delete one RealtimeRoom.
+   * @example
+   * // Delete one RealtimeRoom
+   * const RealtimeRoom = await prisma.realtimeRoom.delete({
+   *   where: {
+   *     // ... filter to delete one RealtimeRoom
+   *   }
+   * })
+   * 
+   */
+  delete<T extends RealtimeRoomDeleteArgs>(args: Prisma.SelectSubset<T, RealtimeRoomDeleteArgs<ExtArgs>>): Prisma.Prisma__RealtimeRoomClient<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one RealtimeRoom.
+   * @param {RealtimeRoomUpdateArgs} args - Arguments to update one RealtimeRoom.
+   * @example
+   * // Update one RealtimeRoom
+   * const realtimeRoom = await prisma.realtimeRoom.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends RealtimeRoomUpdateArgs>(args: Prisma.SelectSubset<T, RealtimeRoomUpdateArgs<ExtArgs>>): Prisma.Prisma__RealtimeRoomClient<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more RealtimeRooms.
+   * @param {RealtimeRoomDeleteManyArgs} args - Arguments to filter RealtimeRooms to delete.
+   * @example
+   * // Delete a few RealtimeRooms
+   * const { count } = await prisma.realtimeRoom.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends RealtimeRoomDeleteManyArgs>(args?: Prisma.SelectSubset<T, RealtimeRoomDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RealtimeRooms.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeRoomUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RealtimeRooms
+   * const realtimeRoom = await prisma.realtimeRoom.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends RealtimeRoomUpdateManyArgs>(args: Prisma.SelectSubset<T, RealtimeRoomUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more RealtimeRooms and returns the data updated in the database.
+   * @param {RealtimeRoomUpdateManyAndReturnArgs} args - Arguments to update many RealtimeRooms.
+   * @example
+   * // Update many RealtimeRooms
+   * const realtimeRoom = await prisma.realtimeRoom.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more RealtimeRooms and only return the `room`
+   * const realtimeRoomWithRoomOnly = await prisma.realtimeRoom.updateManyAndReturn({
+   *   select: { room: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends RealtimeRoomUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, RealtimeRoomUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one RealtimeRoom.
+   * @param {RealtimeRoomUpsertArgs} args - Arguments to update or create a RealtimeRoom.
+   * @example
+   * // Update or create a RealtimeRoom
+   * const realtimeRoom = await prisma.realtimeRoom.upsert({
+   *   create: {
+   *     // ... data to create a RealtimeRoom
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RealtimeRoom we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RealtimeRoomUpsertArgs>(args: Prisma.SelectSubset<T, RealtimeRoomUpsertArgs<ExtArgs>>): Prisma.Prisma__RealtimeRoomClient<runtime.Types.Result.GetResult<Prisma.$RealtimeRoomPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of RealtimeRooms.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeRoomCountArgs} args - Arguments to filter RealtimeRooms to count.
+   * @example
+   * // Count the number of RealtimeRooms
+   * const count = await prisma.realtimeRoom.count({
+   *   where: {
+   *     // ... the filter for the RealtimeRooms we want to count
+   *   }
+   * })
+  **/
+  count<T extends RealtimeRoomCountArgs>(
+    args?: Prisma.Subset<T, RealtimeRoomCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], RealtimeRoomCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a RealtimeRoom.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeRoomAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends RealtimeRoomAggregateArgs>(args: Prisma.Subset<T, RealtimeRoomAggregateArgs>): Prisma.PrismaPromise<GetRealtimeRoomAggregateType<T>>
+
+  /**
+   * Group by RealtimeRoom.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RealtimeRoomGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends RealtimeRoomGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RealtimeRoomGroupByArgs['orderBy'] }
+      : { orderBy?: RealtimeRoomGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, RealtimeRoomGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetRealtimeRoomGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the RealtimeRoom model
+ */
+readonly fields: RealtimeRoomFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RealtimeRoom.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RealtimeRoomClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the RealtimeRoom model
+ */
+export interface RealtimeRoomFieldRefs {
+  readonly room: Prisma.FieldRef<"RealtimeRoom", 'String'>
+  readonly lastSeq: Prisma.FieldRef<"RealtimeRoom", 'Int'>
+  readonly updatedAt: Prisma.FieldRef<"RealtimeRoom", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * RealtimeRoom findUnique
+ */
+export type RealtimeRoomFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeRoom to fetch.
+   */
+  where: Prisma.RealtimeRoomWhereUniqueInput
+}
+
+/**
+ * RealtimeRoom findUniqueOrThrow
+ */
+export type RealtimeRoomFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeRoom to fetch.
+   */
+  where: Prisma.RealtimeRoomWhereUniqueInput
+}
+
+/**
+ * RealtimeRoom findFirst
+ */
+export type RealtimeRoomFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeRoom to fetch.
+   */
+  where?: Prisma.RealtimeRoomWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RealtimeRooms to fetch.
+   */
+  orderBy?: Prisma.RealtimeRoomOrderByWithRelationInput | Prisma.RealtimeRoomOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RealtimeRooms.
+   */
+  cursor?: Prisma.RealtimeRoomWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RealtimeRooms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RealtimeRooms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RealtimeRooms.
+   */
+  distinct?: Prisma.RealtimeRoomScalarFieldEnum | Prisma.RealtimeRoomScalarFieldEnum[]
+}
+
+/**
+ * RealtimeRoom findFirstOrThrow
+ */
+export type RealtimeRoomFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeRoom to fetch.
+   */
+  where?: Prisma.RealtimeRoomWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RealtimeRooms to fetch.
+   */
+  orderBy?: Prisma.RealtimeRoomOrderByWithRelationInput | Prisma.RealtimeRoomOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for RealtimeRooms.
+   */
+  cursor?: Prisma.RealtimeRoomWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RealtimeRooms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RealtimeRooms.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of RealtimeRooms.
+   */
+  distinct?: Prisma.RealtimeRoomScalarFieldEnum | Prisma.RealtimeRoomScalarFieldEnum[]
+}
+
+/**
+ * RealtimeRoom findMany
+ */
+export type RealtimeRoomFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * Filter, which RealtimeRooms to fetch.
+   */
+  where?: Prisma.RealtimeRoomWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of RealtimeRooms to fetch.
+   */
+  orderBy?: Prisma.RealtimeRoomOrderByWithRelationInput | Prisma.RealtimeRoomOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing RealtimeRooms.
+   */
+  cursor?: Prisma.RealtimeRoomWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` RealtimeRooms from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` RealtimeRooms.
+   */
+  skip?: number
+  distinct?: Prisma.RealtimeRoomScalarFieldEnum | Prisma.RealtimeRoomScalarFieldEnum[]
+}
+
+/**
+ * RealtimeRoom create
+ */
+export type RealtimeRoomCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * The data needed to create a RealtimeRoom.
+   */
+  data: Prisma.XOR<Prisma.RealtimeRoomCreateInput, Prisma.RealtimeRoomUncheckedCreateInput>
+}
+
+/**
+ * RealtimeRoom createMany
+ */
+export type RealtimeRoomCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many RealtimeRooms.
+   */
+  data: Prisma.RealtimeRoomCreateManyInput | Prisma.RealtimeRoomCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RealtimeRoom createManyAndReturn
+ */
+export type RealtimeRoomCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * The data used to create many RealtimeRooms.
+   */
+  data: Prisma.RealtimeRoomCreateManyInput | Prisma.RealtimeRoomCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * RealtimeRoom update
+ */
+export type RealtimeRoomUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * The data needed to update a RealtimeRoom.
+   */
+  data: Prisma.XOR<Prisma.RealtimeRoomUpdateInput, Prisma.RealtimeRoomUncheckedUpdateInput>
+  /**
+   * Choose, which RealtimeRoom to update.
+   */
+  where: Prisma.RealtimeRoomWhereUniqueInput
+}
+
+/**
+ * RealtimeRoom updateMany
+ */
+export type RealtimeRoomUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update RealtimeRooms.
+   */
+  data: Prisma.XOR<Prisma.RealtimeRoomUpdateManyMutationInput, Prisma.RealtimeRoomUncheckedUpdateManyInput>
+  /**
+   * Filter which RealtimeRooms to update
+   */
+  where?: Prisma.RealtimeRoomWhereInput
+  /**
+   * Limit how many RealtimeRooms to update.
+   */
+  limit?: number
+}
+
+/**
+ * RealtimeRoom updateManyAndReturn
+ */
+export type RealtimeRoomUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * The data used to update RealtimeRooms.
+   */
+  data: Prisma.XOR<Prisma.RealtimeRoomUpdateManyMutationInput, Prisma.RealtimeRoomUncheckedUpdateManyInput>
+  /**
+   * Filter which RealtimeRooms to update
+   */
+  where?: Prisma.RealtimeRoomWhereInput
+  /**
+   * Limit how many RealtimeRooms to update.
+   */
+  limit?: number
+}
+
+/**
+ * RealtimeRoom upsert
+ */
+export type RealtimeRoomUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * The filter to search for the RealtimeRoom to update in case it exists.
+   */
+  where: Prisma.RealtimeRoomWhereUniqueInput
+  /**
+   * In case the RealtimeRoom found by the `where` argument doesn't exist, create a new RealtimeRoom with this data.
+   */
+  create: Prisma.XOR<Prisma.RealtimeRoomCreateInput, Prisma.RealtimeRoomUncheckedCreateInput>
+  /**
+   * In case the RealtimeRoom was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RealtimeRoomUpdateInput, Prisma.RealtimeRoomUncheckedUpdateInput>
+}
+
+/**
+ * RealtimeRoom delete
+ */
+export type RealtimeRoomDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+  /**
+   * Filter which RealtimeRoom to delete.
+   */
+  where: Prisma.RealtimeRoomWhereUniqueInput
+}
+
+/**
+ * RealtimeRoom deleteMany
+ */
+export type RealtimeRoomDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which RealtimeRooms to delete
+   */
+  where?: Prisma.RealtimeRoomWhereInput
+  /**
+   * Limit how many RealtimeRooms to delete.
+   */
+  limit?: number
+}
+
+/**
+ * RealtimeRoom without action
+ */
+export type RealtimeRoomDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the RealtimeRoom
+   */
+  select?: Prisma.RealtimeRoomSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the RealtimeRoom
+   */
+  omit?: Prisma.RealtimeRoomOmit<ExtArgs> | null
+}
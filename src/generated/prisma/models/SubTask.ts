@@ -319,6 +319,11 @@ export type SubTaskWhereInput = {
   task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
   assignees?: Prisma.SubTaskAssigneeListRelationFilter
   closedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  comments?: Prisma.TaskCommentListRelationFilter
+  mentions?: Prisma.TaskMentionListRelationFilter
+  activities?: Prisma.TaskActivityListRelationFilter
+  labels?: Prisma.SubTaskLabelListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
 }
 
 export type SubTaskOrderByWithRelationInput = {
@@ -341,6 +346,11 @@ export type SubTaskOrderByWithRelationInput = {
   task?: Prisma.TaskOrderByWithRelationInput
   assignees?: Prisma.SubTaskAssigneeOrderByRelationAggregateInput
   closedBy?: Prisma.UserOrderByWithRelationInput
+  comments?: Prisma.TaskCommentOrderByRelationAggregateInput
+  mentions?: Prisma.TaskMentionOrderByRelationAggregateInput
+  activities?: Prisma.TaskActivityOrderByRelationAggregateInput
+  labels?: Prisma.SubTaskLabelOrderByRelationAggregateInput
+  notifications?: Prisma.NotificationOrderByRelationAggregateInput
 }
 
 export type SubTaskWhereUniqueInput = Prisma.AtLeast<{
@@ -366,6 +376,11 @@ export type SubTaskWhereUniqueInput = Prisma.AtLeast<{
   task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
   assignees?: Prisma.SubTaskAssigneeListRelationFilter
   closedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  comments?: Prisma.TaskCommentListRelationFilter
+  mentions?: Prisma.TaskMentionListRelationFilter
+  activities?: Prisma.TaskActivityListRelationFilter
+  labels?: Prisma.SubTaskLabelListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
 }, "id">
 
 export type SubTaskOrderByWithAggregationInput = {
@@ -431,6 +446,11 @@ export type SubTaskCreateInput = {
   task: Prisma.TaskCreateNestedOneWithoutSubTasksInput
   assignees?: Prisma.SubTaskAssigneeCreateNestedManyWithoutSubtaskInput
   closedBy?: Prisma.UserCreateNestedOneWithoutClosedSubTasksInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutSubTaskInput
 }
 
 export type SubTaskUncheckedCreateInput = {
@@ -451,6 +471,11 @@ export type SubTaskUncheckedCreateInput = {
   closedAt?: Date | string | null
   closedById?: number | null
   assignees?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutSubtaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutSubTaskInput
 }
 
 export type SubTaskUpdateInput = {
@@ -470,6 +495,11 @@ export type SubTaskUpdateInput = {
   task?: Prisma.TaskUpdateOneRequiredWithoutSubTasksNestedInput
   assignees?: Prisma.SubTaskAssigneeUpdateManyWithoutSubtaskNestedInput
   closedBy?: Prisma.UserUpdateOneWithoutClosedSubTasksNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskUncheckedUpdateInput = {
@@ -490,6 +520,11 @@ export type SubTaskUncheckedUpdateInput = {
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   assignees?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskCreateManyInput = {
@@ -546,6 +581,11 @@ export type SubTaskUncheckedUpdateManyInput = {
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
+export type SubTaskNullableScalarRelationFilter = {
+  is?: Prisma.SubTaskWhereInput | null
+  isNot?: Prisma.SubTaskWhereInput | null
+}
+
 export type SubTaskListRelationFilter = {
   every?: Prisma.SubTaskWhereInput
   some?: Prisma.SubTaskWhereInput
@@ -632,6 +672,22 @@ export type SubTaskScalarRelationFilter = {
   isNot?: Prisma.SubTaskWhereInput
 }
 
+export type SubTaskCreateNestedOneWithoutNotificationsInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutNotificationsInput, Prisma.SubTaskUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutNotificationsInput
+  connect?: Prisma.SubTaskWhereUniqueInput
+}
+
+export type SubTaskUpdateOneWithoutNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutNotificationsInput, Prisma.SubTaskUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutNotificationsInput
+  upsert?: Prisma.SubTaskUpsertWithoutNotificationsInput
+  disconnect?: Prisma.SubTaskWhereInput | boolean
+  delete?: Prisma.SubTaskWhereInput | boolean
+  connect?: Prisma.SubTaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SubTaskUpdateToOneWithWhereWithoutNotificationsInput, Prisma.SubTaskUpdateWithoutNotificationsInput>, Prisma.SubTaskUncheckedUpdateWithoutNotificationsInput>
+}
+
 export type SubTaskCreateNestedManyWithoutTaskInput = {
   create?: Prisma.XOR<Prisma.SubTaskCreateWithoutTaskInput, Prisma.SubTaskUncheckedCreateWithoutTaskInput> | Prisma.SubTaskCreateWithoutTaskInput[] | Prisma.SubTaskUncheckedCreateWithoutTaskInput[]
   connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutTaskInput | Prisma.SubTaskCreateOrConnectWithoutTaskInput[]
@@ -674,6 +730,54 @@ export type SubTaskUncheckedUpdateManyWithoutTaskNestedInput = {
   deleteMany?: Prisma.SubTaskScalarWhereInput | Prisma.SubTaskScalarWhereInput[]
 }
 
+export type SubTaskCreateNestedOneWithoutCommentsInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutCommentsInput, Prisma.SubTaskUncheckedCreateWithoutCommentsInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutCommentsInput
+  connect?: Prisma.SubTaskWhereUniqueInput
+}
+
+export type SubTaskUpdateOneWithoutCommentsNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutCommentsInput, Prisma.SubTaskUncheckedCreateWithoutCommentsInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutCommentsInput
+  upsert?: Prisma.SubTaskUpsertWithoutCommentsInput
+  disconnect?: Prisma.SubTaskWhereInput | boolean
+  delete?: Prisma.SubTaskWhereInput | boolean
+  connect?: Prisma.SubTaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SubTaskUpdateToOneWithWhereWithoutCommentsInput, Prisma.SubTaskUpdateWithoutCommentsInput>, Prisma.SubTaskUncheckedUpdateWithoutCommentsInput>
+}
+
+export type SubTaskCreateNestedOneWithoutMentionsInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutMentionsInput, Prisma.SubTaskUncheckedCreateWithoutMentionsInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutMentionsInput
+  connect?: Prisma.SubTaskWhereUniqueInput
+}
+
+export type SubTaskUpdateOneWithoutMentionsNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutMentionsInput, Prisma.SubTaskUncheckedCreateWithoutMentionsInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutMentionsInput
+  upsert?: Prisma.SubTaskUpsertWithoutMentionsInput
+  disconnect?: Prisma.SubTaskWhereInput | boolean
+  delete?: Prisma.SubTaskWhereInput | boolean
+  connect?: Prisma.SubTaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SubTaskUpdateToOneWithWhereWithoutMentionsInput, Prisma.SubTaskUpdateWithoutMentionsInput>, Prisma.SubTaskUncheckedUpdateWithoutMentionsInput>
+}
+
+export type SubTaskCreateNestedOneWithoutActivitiesInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutActivitiesInput, Prisma.SubTaskUncheckedCreateWithoutActivitiesInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutActivitiesInput
+  connect?: Prisma.SubTaskWhereUniqueInput
+}
+
+export type SubTaskUpdateOneWithoutActivitiesNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutActivitiesInput, Prisma.SubTaskUncheckedCreateWithoutActivitiesInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutActivitiesInput
+  upsert?: Prisma.SubTaskUpsertWithoutActivitiesInput
+  disconnect?: Prisma.SubTaskWhereInput | boolean
+  delete?: Prisma.SubTaskWhereInput | boolean
+  connect?: Prisma.SubTaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SubTaskUpdateToOneWithWhereWithoutActivitiesInput, Prisma.SubTaskUpdateWithoutActivitiesInput>, Prisma.SubTaskUncheckedUpdateWithoutActivitiesInput>
+}
+
 export type SubTaskCreateNestedOneWithoutAssigneesInput = {
   create?: Prisma.XOR<Prisma.SubTaskCreateWithoutAssigneesInput, Prisma.SubTaskUncheckedCreateWithoutAssigneesInput>
   connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutAssigneesInput
@@ -688,6 +792,20 @@ export type SubTaskUpdateOneRequiredWithoutAssigneesNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.SubTaskUpdateToOneWithWhereWithoutAssigneesInput, Prisma.SubTaskUpdateWithoutAssigneesInput>, Prisma.SubTaskUncheckedUpdateWithoutAssigneesInput>
 }
 
+export type SubTaskCreateNestedOneWithoutLabelsInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutLabelsInput, Prisma.SubTaskUncheckedCreateWithoutLabelsInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutLabelsInput
+  connect?: Prisma.SubTaskWhereUniqueInput
+}
+
+export type SubTaskUpdateOneRequiredWithoutLabelsNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskCreateWithoutLabelsInput, Prisma.SubTaskUncheckedCreateWithoutLabelsInput>
+  connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutLabelsInput
+  upsert?: Prisma.SubTaskUpsertWithoutLabelsInput
+  connect?: Prisma.SubTaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.SubTaskUpdateToOneWithWhereWithoutLabelsInput, Prisma.SubTaskUpdateWithoutLabelsInput>, Prisma.SubTaskUncheckedUpdateWithoutLabelsInput>
+}
+
 export type SubTaskCreateNestedManyWithoutClosedByInput = {
   create?: Prisma.XOR<Prisma.SubTaskCreateWithoutClosedByInput, Prisma.SubTaskUncheckedCreateWithoutClosedByInput> | Prisma.SubTaskCreateWithoutClosedByInput[] | Prisma.SubTaskUncheckedCreateWithoutClosedByInput[]
   connectOrCreate?: Prisma.SubTaskCreateOrConnectWithoutClosedByInput | Prisma.SubTaskCreateOrConnectWithoutClosedByInput[]
@@ -730,7 +848,432 @@ export type SubTaskUncheckedUpdateManyWithoutClosedByNestedInput = {
   deleteMany?: Prisma.SubTaskScalarWhereInput | Prisma.SubTaskScalarWhereInput[]
 }
 
-export type SubTaskCreateWithoutTaskInput = {
+export type SubTaskCreateWithoutNotificationsInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  task: Prisma.TaskCreateNestedOneWithoutSubTasksInput
+  assignees?: Prisma.SubTaskAssigneeCreateNestedManyWithoutSubtaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedSubTasksInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskUncheckedCreateWithoutNotificationsInput = {
+  id?: number
+  taskId: number
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  closedById?: number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutSubtaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskCreateOrConnectWithoutNotificationsInput = {
+  where: Prisma.SubTaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutNotificationsInput, Prisma.SubTaskUncheckedCreateWithoutNotificationsInput>
+}
+
+export type SubTaskUpsertWithoutNotificationsInput = {
+  update: Prisma.XOR<Prisma.SubTaskUpdateWithoutNotificationsInput, Prisma.SubTaskUncheckedUpdateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutNotificationsInput, Prisma.SubTaskUncheckedCreateWithoutNotificationsInput>
+  where?: Prisma.SubTaskWhereInput
+}
+
+export type SubTaskUpdateToOneWithWhereWithoutNotificationsInput = {
+  where?: Prisma.SubTaskWhereInput
+  data: Prisma.XOR<Prisma.SubTaskUpdateWithoutNotificationsInput, Prisma.SubTaskUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type SubTaskUpdateWithoutNotificationsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  task?: Prisma.TaskUpdateOneRequiredWithoutSubTasksNestedInput
+  assignees?: Prisma.SubTaskAssigneeUpdateManyWithoutSubtaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedSubTasksNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUpdateManyWithoutSubTaskNestedInput
+}
+
+export type SubTaskUncheckedUpdateWithoutNotificationsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput
+}
+
+export type SubTaskCreateWithoutTaskInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  assignees?: Prisma.SubTaskAssigneeCreateNestedManyWithoutSubtaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedSubTasksInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskUncheckedCreateWithoutTaskInput = {
+  id?: number
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  closedById?: number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutSubtaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskCreateOrConnectWithoutTaskInput = {
+  where: Prisma.SubTaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutTaskInput, Prisma.SubTaskUncheckedCreateWithoutTaskInput>
+}
+
+export type SubTaskCreateManyTaskInputEnvelope = {
+  data: Prisma.SubTaskCreateManyTaskInput | Prisma.SubTaskCreateManyTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type SubTaskUpsertWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.SubTaskWhereUniqueInput
+  update: Prisma.XOR<Prisma.SubTaskUpdateWithoutTaskInput, Prisma.SubTaskUncheckedUpdateWithoutTaskInput>
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutTaskInput, Prisma.SubTaskUncheckedCreateWithoutTaskInput>
+}
+
+export type SubTaskUpdateWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.SubTaskWhereUniqueInput
+  data: Prisma.XOR<Prisma.SubTaskUpdateWithoutTaskInput, Prisma.SubTaskUncheckedUpdateWithoutTaskInput>
+}
+
+export type SubTaskUpdateManyWithWhereWithoutTaskInput = {
+  where: Prisma.SubTaskScalarWhereInput
+  data: Prisma.XOR<Prisma.SubTaskUpdateManyMutationInput, Prisma.SubTaskUncheckedUpdateManyWithoutTaskInput>
+}
+
+export type SubTaskScalarWhereInput = {
+  AND?: Prisma.SubTaskScalarWhereInput | Prisma.SubTaskScalarWhereInput[]
+  OR?: Prisma.SubTaskScalarWhereInput[]
+  NOT?: Prisma.SubTaskScalarWhereInput | Prisma.SubTaskScalarWhereInput[]
+  id?: Prisma.IntFilter<"SubTask"> | number
+  taskId?: Prisma.IntFilter<"SubTask"> | number
+  title?: Prisma.StringFilter<"SubTask"> | string
+  status?: Prisma.EnumStatusFilter<"SubTask"> | $Enums.Status
+  priority?: Prisma.IntFilter<"SubTask"> | number
+  description?: Prisma.StringNullableFilter<"SubTask"> | string | null
+  location?: Prisma.StringNullableFilter<"SubTask"> | string | null
+  dueAtUtc?: Prisma.DateTimeNullableFilter<"SubTask"> | Date | string | null
+  allDay?: Prisma.BoolFilter<"SubTask"> | boolean
+  allDayLocalDate?: Prisma.DateTimeNullableFilter<"SubTask"> | Date | string | null
+  sourceTimeZone?: Prisma.StringNullableFilter<"SubTask"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"SubTask"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"SubTask"> | Date | string
+  closedReason?: Prisma.StringNullableFilter<"SubTask"> | string | null
+  closedAt?: Prisma.DateTimeNullableFilter<"SubTask"> | Date | string | null
+  closedById?: Prisma.IntNullableFilter<"SubTask"> | number | null
+}
+
+export type SubTaskCreateWithoutCommentsInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  task: Prisma.TaskCreateNestedOneWithoutSubTasksInput
+  assignees?: Prisma.SubTaskAssigneeCreateNestedManyWithoutSubtaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedSubTasksInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskUncheckedCreateWithoutCommentsInput = {
+  id?: number
+  taskId: number
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  closedById?: number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutSubtaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskCreateOrConnectWithoutCommentsInput = {
+  where: Prisma.SubTaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutCommentsInput, Prisma.SubTaskUncheckedCreateWithoutCommentsInput>
+}
+
+export type SubTaskUpsertWithoutCommentsInput = {
+  update: Prisma.XOR<Prisma.SubTaskUpdateWithoutCommentsInput, Prisma.SubTaskUncheckedUpdateWithoutCommentsInput>
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutCommentsInput, Prisma.SubTaskUncheckedCreateWithoutCommentsInput>
+  where?: Prisma.SubTaskWhereInput
+}
+
+export type SubTaskUpdateToOneWithWhereWithoutCommentsInput = {
+  where?: Prisma.SubTaskWhereInput
+  data: Prisma.XOR<Prisma.SubTaskUpdateWithoutCommentsInput, Prisma.SubTaskUncheckedUpdateWithoutCommentsInput>
+}
+
+export type SubTaskUpdateWithoutCommentsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  task?: Prisma.TaskUpdateOneRequiredWithoutSubTasksNestedInput
+  assignees?: Prisma.SubTaskAssigneeUpdateManyWithoutSubtaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedSubTasksNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutSubTaskNestedInput
+}
+
+export type SubTaskUncheckedUpdateWithoutCommentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutSubTaskNestedInput
+}
+
+export type SubTaskCreateWithoutMentionsInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  task: Prisma.TaskCreateNestedOneWithoutSubTasksInput
+  assignees?: Prisma.SubTaskAssigneeCreateNestedManyWithoutSubtaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedSubTasksInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskUncheckedCreateWithoutMentionsInput = {
+  id?: number
+  taskId: number
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  closedById?: number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutSubtaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskCreateOrConnectWithoutMentionsInput = {
+  where: Prisma.SubTaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutMentionsInput, Prisma.SubTaskUncheckedCreateWithoutMentionsInput>
+}
+
+export type SubTaskUpsertWithoutMentionsInput = {
+  update: Prisma.XOR<Prisma.SubTaskUpdateWithoutMentionsInput, Prisma.SubTaskUncheckedUpdateWithoutMentionsInput>
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutMentionsInput, Prisma.SubTaskUncheckedCreateWithoutMentionsInput>
+  where?: Prisma.SubTaskWhereInput
+}
+
+export type SubTaskUpdateToOneWithWhereWithoutMentionsInput = {
+  where?: Prisma.SubTaskWhereInput
+  data: Prisma.XOR<Prisma.SubTaskUpdateWithoutMentionsInput, Prisma.SubTaskUncheckedUpdateWithoutMentionsInput>
+}
+
+export type SubTaskUpdateWithoutMentionsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  task?: Prisma.TaskUpdateOneRequiredWithoutSubTasksNestedInput
+  assignees?: Prisma.SubTaskAssigneeUpdateManyWithoutSubtaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedSubTasksNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutSubTaskNestedInput
+}
+
+export type SubTaskUncheckedUpdateWithoutMentionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutSubTaskNestedInput
+}
+
+export type SubTaskCreateWithoutActivitiesInput = {
   title: string
   status?: $Enums.Status
   priority?: number
@@ -744,12 +1287,18 @@ export type SubTaskCreateWithoutTaskInput = {
   updatedAt?: Date | string
   closedReason?: string | null
   closedAt?: Date | string | null
+  task: Prisma.TaskCreateNestedOneWithoutSubTasksInput
   assignees?: Prisma.SubTaskAssigneeCreateNestedManyWithoutSubtaskInput
   closedBy?: Prisma.UserCreateNestedOneWithoutClosedSubTasksInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutSubTaskInput
 }
 
-export type SubTaskUncheckedCreateWithoutTaskInput = {
+export type SubTaskUncheckedCreateWithoutActivitiesInput = {
   id?: number
+  taskId: number
   title: string
   status?: $Enums.Status
   priority?: number
@@ -765,54 +1314,73 @@ export type SubTaskUncheckedCreateWithoutTaskInput = {
   closedAt?: Date | string | null
   closedById?: number | null
   assignees?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutSubtaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutSubTaskInput
 }
 
-export type SubTaskCreateOrConnectWithoutTaskInput = {
+export type SubTaskCreateOrConnectWithoutActivitiesInput = {
   where: Prisma.SubTaskWhereUniqueInput
-  create: Prisma.XOR<Prisma.SubTaskCreateWithoutTaskInput, Prisma.SubTaskUncheckedCreateWithoutTaskInput>
-}
-
-export type SubTaskCreateManyTaskInputEnvelope = {
-  data: Prisma.SubTaskCreateManyTaskInput | Prisma.SubTaskCreateManyTaskInput[]
-  skipDuplicates?: boolean
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutActivitiesInput, Prisma.SubTaskUncheckedCreateWithoutActivitiesInput>
 }
 
-export type SubTaskUpsertWithWhereUniqueWithoutTaskInput = {
-  where: Prisma.SubTaskWhereUniqueInput
-  update: Prisma.XOR<Prisma.SubTaskUpdateWithoutTaskInput, Prisma.SubTaskUncheckedUpdateWithoutTaskInput>
-  create: Prisma.XOR<Prisma.SubTaskCreateWithoutTaskInput, Prisma.SubTaskUncheckedCreateWithoutTaskInput>
+export type SubTaskUpsertWithoutActivitiesInput = {
+  update: Prisma.XOR<Prisma.SubTaskUpdateWithoutActivitiesInput, Prisma.SubTaskUncheckedUpdateWithoutActivitiesInput>
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutActivitiesInput, Prisma.SubTaskUncheckedCreateWithoutActivitiesInput>
+  where?: Prisma.SubTaskWhereInput
 }
 
-export type SubTaskUpdateWithWhereUniqueWithoutTaskInput = {
-  where: Prisma.SubTaskWhereUniqueInput
-  data: Prisma.XOR<Prisma.SubTaskUpdateWithoutTaskInput, Prisma.SubTaskUncheckedUpdateWithoutTaskInput>
+export type SubTaskUpdateToOneWithWhereWithoutActivitiesInput = {
+  where?: Prisma.SubTaskWhereInput
+  data: Prisma.XOR<Prisma.SubTaskUpdateWithoutActivitiesInput, Prisma.SubTaskUncheckedUpdateWithoutActivitiesInput>
 }
 
-export type SubTaskUpdateManyWithWhereWithoutTaskInput = {
-  where: Prisma.SubTaskScalarWhereInput
-  data: Prisma.XOR<Prisma.SubTaskUpdateManyMutationInput, Prisma.SubTaskUncheckedUpdateManyWithoutTaskInput>
+export type SubTaskUpdateWithoutActivitiesInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  task?: Prisma.TaskUpdateOneRequiredWithoutSubTasksNestedInput
+  assignees?: Prisma.SubTaskAssigneeUpdateManyWithoutSubtaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedSubTasksNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutSubTaskNestedInput
 }
 
-export type SubTaskScalarWhereInput = {
-  AND?: Prisma.SubTaskScalarWhereInput | Prisma.SubTaskScalarWhereInput[]
-  OR?: Prisma.SubTaskScalarWhereInput[]
-  NOT?: Prisma.SubTaskScalarWhereInput | Prisma.SubTaskScalarWhereInput[]
-  id?: Prisma.IntFilter<"SubTask"> | number
-  taskId?: Prisma.IntFilter<"SubTask"> | number
-  title?: Prisma.StringFilter<"SubTask"> | string
-  status?: Prisma.EnumStatusFilter<"SubTask"> | $Enums.Status
-  priority?: Prisma.IntFilter<"SubTask"> | number
-  description?: Prisma.StringNullableFilter<"SubTask"> | string | null
-  location?: Prisma.StringNullableFilter<"SubTask"> | string | null
-  dueAtUtc?: Prisma.DateTimeNullableFilter<"SubTask"> | Date | string | null
-  allDay?: Prisma.BoolFilter<"SubTask"> | boolean
-  allDayLocalDate?: Prisma.DateTimeNullableFilter<"SubTask"> | Date | string | null
-  sourceTimeZone?: Prisma.StringNullableFilter<"SubTask"> | string | null
-  createdAt?: Prisma.DateTimeFilter<"SubTask"> | Date | string
-  updatedAt?: Prisma.DateTimeFilter<"SubTask"> | Date | string
-  closedReason?: Prisma.StringNullableFilter<"SubTask"> | string | null
-  closedAt?: Prisma.DateTimeNullableFilter<"SubTask"> | Date | string | null
-  closedById?: Prisma.IntNullableFilter<"SubTask"> | number | null
+export type SubTaskUncheckedUpdateWithoutActivitiesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskCreateWithoutAssigneesInput = {
@@ -831,6 +1399,11 @@ export type SubTaskCreateWithoutAssigneesInput = {
   closedAt?: Date | string | null
   task: Prisma.TaskCreateNestedOneWithoutSubTasksInput
   closedBy?: Prisma.UserCreateNestedOneWithoutClosedSubTasksInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutSubTaskInput
 }
 
 export type SubTaskUncheckedCreateWithoutAssigneesInput = {
@@ -850,6 +1423,11 @@ export type SubTaskUncheckedCreateWithoutAssigneesInput = {
   closedReason?: string | null
   closedAt?: Date | string | null
   closedById?: number | null
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutSubTaskInput
 }
 
 export type SubTaskCreateOrConnectWithoutAssigneesInput = {
@@ -884,6 +1462,11 @@ export type SubTaskUpdateWithoutAssigneesInput = {
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   task?: Prisma.TaskUpdateOneRequiredWithoutSubTasksNestedInput
   closedBy?: Prisma.UserUpdateOneWithoutClosedSubTasksNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskUncheckedUpdateWithoutAssigneesInput = {
@@ -903,6 +1486,121 @@ export type SubTaskUncheckedUpdateWithoutAssigneesInput = {
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutSubTaskNestedInput
+}
+
+export type SubTaskCreateWithoutLabelsInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  task: Prisma.TaskCreateNestedOneWithoutSubTasksInput
+  assignees?: Prisma.SubTaskAssigneeCreateNestedManyWithoutSubtaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedSubTasksInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskUncheckedCreateWithoutLabelsInput = {
+  id?: number
+  taskId: number
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  closedReason?: string | null
+  closedAt?: Date | string | null
+  closedById?: number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutSubtaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutSubTaskInput
+}
+
+export type SubTaskCreateOrConnectWithoutLabelsInput = {
+  where: Prisma.SubTaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutLabelsInput, Prisma.SubTaskUncheckedCreateWithoutLabelsInput>
+}
+
+export type SubTaskUpsertWithoutLabelsInput = {
+  update: Prisma.XOR<Prisma.SubTaskUpdateWithoutLabelsInput, Prisma.SubTaskUncheckedUpdateWithoutLabelsInput>
+  create: Prisma.XOR<Prisma.SubTaskCreateWithoutLabelsInput, Prisma.SubTaskUncheckedCreateWithoutLabelsInput>
+  where?: Prisma.SubTaskWhereInput
+}
+
+export type SubTaskUpdateToOneWithWhereWithoutLabelsInput = {
+  where?: Prisma.SubTaskWhereInput
+  data: Prisma.XOR<Prisma.SubTaskUpdateWithoutLabelsInput, Prisma.SubTaskUncheckedUpdateWithoutLabelsInput>
+}
+
+export type SubTaskUpdateWithoutLabelsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  task?: Prisma.TaskUpdateOneRequiredWithoutSubTasksNestedInput
+  assignees?: Prisma.SubTaskAssigneeUpdateManyWithoutSubtaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedSubTasksNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutSubTaskNestedInput
+}
+
+export type SubTaskUncheckedUpdateWithoutLabelsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  assignees?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskCreateWithoutClosedByInput = {
@@ -921,6 +1619,11 @@ export type SubTaskCreateWithoutClosedByInput = {
   closedAt?: Date | string | null
   task: Prisma.TaskCreateNestedOneWithoutSubTasksInput
   assignees?: Prisma.SubTaskAssigneeCreateNestedManyWithoutSubtaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutSubTaskInput
 }
 
 export type SubTaskUncheckedCreateWithoutClosedByInput = {
@@ -940,6 +1643,11 @@ export type SubTaskUncheckedCreateWithoutClosedByInput = {
   closedReason?: string | null
   closedAt?: Date | string | null
   assignees?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutSubtaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput
+  labels?: Prisma.SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutSubTaskInput
 }
 
 export type SubTaskCreateOrConnectWithoutClosedByInput = {
@@ -1002,6 +1710,11 @@ export type SubTaskUpdateWithoutTaskInput = {
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   assignees?: Prisma.SubTaskAssigneeUpdateManyWithoutSubtaskNestedInput
   closedBy?: Prisma.UserUpdateOneWithoutClosedSubTasksNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskUncheckedUpdateWithoutTaskInput = {
@@ -1021,6 +1734,11 @@ export type SubTaskUncheckedUpdateWithoutTaskInput = {
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   assignees?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskUncheckedUpdateManyWithoutTaskInput = {
@@ -1075,6 +1793,11 @@ export type SubTaskUpdateWithoutClosedByInput = {
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   task?: Prisma.TaskUpdateOneRequiredWithoutSubTasksNestedInput
   assignees?: Prisma.SubTaskAssigneeUpdateManyWithoutSubtaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskUncheckedUpdateWithoutClosedByInput = {
@@ -1094,6 +1817,11 @@ export type SubTaskUncheckedUpdateWithoutClosedByInput = {
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   assignees?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput
+  labels?: Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutSubTaskNestedInput
 }
 
 export type SubTaskUncheckedUpdateManyWithoutClosedByInput = {
@@ -1121,10 +1849,20 @@ export type SubTaskUncheckedUpdateManyWithoutClosedByInput = {
 
 export type SubTaskCountOutputType = {
   assignees: number
+  comments: number
+  mentions: number
+  activities: number
+  labels: number
+  notifications: number
 }
 
 export type SubTaskCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   assignees?: boolean | SubTaskCountOutputTypeCountAssigneesArgs
+  comments?: boolean | SubTaskCountOutputTypeCountCommentsArgs
+  mentions?: boolean | SubTaskCountOutputTypeCountMentionsArgs
+  activities?: boolean | SubTaskCountOutputTypeCountActivitiesArgs
+  labels?: boolean | SubTaskCountOutputTypeCountLabelsArgs
+  notifications?: boolean | SubTaskCountOutputTypeCountNotificationsArgs
 }
 
 /**
@@ -1144,6 +1882,41 @@ export type SubTaskCountOutputTypeCountAssigneesArgs<ExtArgs extends runtime.Typ
   where?: Prisma.SubTaskAssigneeWhereInput
 }
 
+/**
+ * SubTaskCountOutputType without action
+ */
+export type SubTaskCountOutputTypeCountCommentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentWhereInput
+}
+
+/**
+ * SubTaskCountOutputType without action
+ */
+export type SubTaskCountOutputTypeCountMentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskMentionWhereInput
+}
+
+/**
+ * SubTaskCountOutputType without action
+ */
+export type SubTaskCountOutputTypeCountActivitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskActivityWhereInput
+}
+
+/**
+ * SubTaskCountOutputType without action
+ */
+export type SubTaskCountOutputTypeCountLabelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SubTaskLabelWhereInput
+}
+
+/**
+ * SubTaskCountOutputType without action
+ */
+export type SubTaskCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
+}
+
 
 export type SubTaskSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1165,6 +1938,11 @@ export type SubTaskSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
   assignees?: boolean | Prisma.SubTask$assigneesArgs<ExtArgs>
   closedBy?: boolean | Prisma.SubTask$closedByArgs<ExtArgs>
+  comments?: boolean | Prisma.SubTask$commentsArgs<ExtArgs>
+  mentions?: boolean | Prisma.SubTask$mentionsArgs<ExtArgs>
+  activities?: boolean | Prisma.SubTask$activitiesArgs<ExtArgs>
+  labels?: boolean | Prisma.SubTask$labelsArgs<ExtArgs>
+  notifications?: boolean | Prisma.SubTask$notificationsArgs<ExtArgs>
   _count?: boolean | Prisma.SubTaskCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["subTask"]>
 
@@ -1234,6 +2012,11 @@ export type SubTaskInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
   assignees?: boolean | Prisma.SubTask$assigneesArgs<ExtArgs>
   closedBy?: boolean | Prisma.SubTask$closedByArgs<ExtArgs>
+  comments?: boolean | Prisma.SubTask$commentsArgs<ExtArgs>
+  mentions?: boolean | Prisma.SubTask$mentionsArgs<ExtArgs>
+  activities?: boolean | Prisma.SubTask$activitiesArgs<ExtArgs>
+  labels?: boolean | Prisma.SubTask$labelsArgs<ExtArgs>
+  notifications?: boolean | Prisma.SubTask$notificationsArgs<ExtArgs>
   _count?: boolean | Prisma.SubTaskCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type SubTaskIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1251,6 +2034,11 @@ export type $SubTaskPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     task: Prisma.$TaskPayload<ExtArgs>
     assignees: Prisma.$SubTaskAssigneePayload<ExtArgs>[]
     closedBy: Prisma.$UserPayload<ExtArgs> | null
+    comments: Prisma.$TaskCommentPayload<ExtArgs>[]
+    mentions: Prisma.$TaskMentionPayload<ExtArgs>[]
+    activities: Prisma.$TaskActivityPayload<ExtArgs>[]
+    labels: Prisma.$SubTaskLabelPayload<ExtArgs>[]
+    notifications: Prisma.$NotificationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -1666,6 +2454,11 @@ export interface Prisma__SubTaskClient<T, Null = never, ExtArgs extends runtime.
   task<T extends Prisma.TaskDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskDefaultArgs<ExtArgs>>): Prisma.Prisma__TaskClient<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   assignees<T extends Prisma.SubTask$assigneesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubTask$assigneesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskAssigneePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   closedBy<T extends Prisma.SubTask$closedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubTask$closedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  comments<T extends Prisma.SubTask$commentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubTask$commentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  mentions<T extends Prisma.SubTask$mentionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubTask$mentionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  activities<T extends Prisma.SubTask$activitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubTask$activitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  labels<T extends Prisma.SubTask$labelsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubTask$labelsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notifications<T extends Prisma.SubTask$notificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubTask$notificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2149,6 +2942,126 @@ export type SubTask$closedByArgs<ExtArgs extends runtime.Types.Extensions.Intern
   where?: Prisma.UserWhereInput
 }
 
+/**
+ * SubTask.comments
+ */
+export type SubTask$commentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentWhereInput
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskCommentScalarFieldEnum | Prisma.TaskCommentScalarFieldEnum[]
+}
+
+/**
+ * SubTask.mentions
+ */
+export type SubTask$mentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  where?: Prisma.TaskMentionWhereInput
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskMentionScalarFieldEnum | Prisma.TaskMentionScalarFieldEnum[]
+}
+
+/**
+ * SubTask.activities
+ */
+export type SubTask$activitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  where?: Prisma.TaskActivityWhereInput
+  orderBy?: Prisma.TaskActivityOrderByWithRelationInput | Prisma.TaskActivityOrderByWithRelationInput[]
+  cursor?: Prisma.TaskActivityWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskActivityScalarFieldEnum | Prisma.TaskActivityScalarFieldEnum[]
+}
+
+/**
+ * SubTask.labels
+ */
+export type SubTask$labelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  where?: Prisma.SubTaskLabelWhereInput
+  orderBy?: Prisma.SubTaskLabelOrderByWithRelationInput | Prisma.SubTaskLabelOrderByWithRelationInput[]
+  cursor?: Prisma.SubTaskLabelWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.SubTaskLabelScalarFieldEnum | Prisma.SubTaskLabelScalarFieldEnum[]
+}
+
+/**
+ * SubTask.notifications
+ */
+export type SubTask$notificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  where?: Prisma.NotificationWhereInput
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  cursor?: Prisma.NotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
 /**
  * SubTask without action
  */
@@ -27,106 +27,144 @@ export type AggregateSubTaskAssignee = {
 }
 
 export type SubTaskAssigneeAvgAggregateOutputType = {
+  id: number | null
   subTaskId: number | null
   assigneeId: number | null
   assignedById: number | null
+  round: number | null
 }
 
 export type SubTaskAssigneeSumAggregateOutputType = {
+  id: number | null
   subTaskId: number | null
   assigneeId: number | null
   assignedById: number | null
+  round: number | null
 }
 
 export type SubTaskAssigneeMinAggregateOutputType = {
+  id: number | null
   subTaskId: number | null
   assigneeId: number | null
   assignedById: number | null
+  round: number | null
+  isCurrent: boolean | null
   status: $Enums.AssignmentStatus | null
   reason: string | null
   assignedAt: Date | null
   acceptedAt: Date | null
   declinedAt: Date | null
   completedAt: Date | null
+  sentBackAt: Date | null
+  sentBackReason: string | null
   updatedAt: Date | null
 }
 
 export type SubTaskAssigneeMaxAggregateOutputType = {
+  id: number | null
   subTaskId: number | null
   assigneeId: number | null
   assignedById: number | null
+  round: number | null
+  isCurrent: boolean | null
   status: $Enums.AssignmentStatus | null
   reason: string | null
   assignedAt: Date | null
   acceptedAt: Date | null
   declinedAt: Date | null
   completedAt: Date | null
+  sentBackAt: Date | null
+  sentBackReason: string | null
   updatedAt: Date | null
 }
 
 export type SubTaskAssigneeCountAggregateOutputType = {
+  id: number
   subTaskId: number
   assigneeId: number
   assignedById: number
+  round: number
+  isCurrent: number
   status: number
   reason: number
   assignedAt: number
   acceptedAt: number
   declinedAt: number
   completedAt: number
+  sentBackAt: number
+  sentBackReason: number
   updatedAt: number
   _all: number
 }
 
 
 export type SubTaskAssigneeAvgAggregateInputType = {
+  id?: true
   subTaskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
 }
 
 export type SubTaskAssigneeSumAggregateInputType = {
+  id?: true
   subTaskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
 }
 
 export type SubTaskAssigneeMinAggregateInputType = {
+  id?: true
   subTaskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
+  isCurrent?: true
   status?: true
   reason?: true
   assignedAt?: true
   acceptedAt?: true
   declinedAt?: true
   completedAt?: true
+  sentBackAt?: true
+  sentBackReason?: true
   updatedAt?: true
 }
 
 export type SubTaskAssigneeMaxAggregateInputType = {
+  id?: true
   subTaskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
+  isCurrent?: true
   status?: true
   reason?: true
   assignedAt?: true
   acceptedAt?: true
   declinedAt?: true
   completedAt?: true
+  sentBackAt?: true
+  sentBackReason?: true
   updatedAt?: true
 }
 
 export type SubTaskAssigneeCountAggregateInputType = {
+  id?: true
   subTaskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
+  isCurrent?: true
   status?: true
   reason?: true
   assignedAt?: true
   acceptedAt?: true
   declinedAt?: true
   completedAt?: true
+  sentBackAt?: true
+  sentBackReason?: true
   updatedAt?: true
   _all?: true
 }
@@ -218,15 +256,20 @@ export type SubTaskAssigneeGroupByArgs<ExtArgs extends runtime.Types.Extensions.
 }
 
 export type SubTaskAssigneeGroupByOutputType = {
+  id: number
   subTaskId: number
   assigneeId: number
   assignedById: number | null
+  round: number
+  isCurrent: boolean
   status: $Enums.AssignmentStatus
   reason: string | null
   assignedAt: Date
   acceptedAt: Date | null
   declinedAt: Date | null
   completedAt: Date | null
+  sentBackAt: Date | null
+  sentBackReason: string | null
   updatedAt: Date
   _count: SubTaskAssigneeCountAggregateOutputType | null
   _avg: SubTaskAssigneeAvgAggregateOutputType | null
@@ -254,15 +297,20 @@ export type SubTaskAssigneeWhereInput = {
   AND?: Prisma.SubTaskAssigneeWhereInput | Prisma.SubTaskAssigneeWhereInput[]
   OR?: Prisma.SubTaskAssigneeWhereInput[]
   NOT?: Prisma.SubTaskAssigneeWhereInput | Prisma.SubTaskAssigneeWhereInput[]
+  id?: Prisma.IntFilter<"SubTaskAssignee"> | number
   subTaskId?: Prisma.IntFilter<"SubTaskAssignee"> | number
   assigneeId?: Prisma.IntFilter<"SubTaskAssignee"> | number
   assignedById?: Prisma.IntNullableFilter<"SubTaskAssignee"> | number | null
+  round?: Prisma.IntFilter<"SubTaskAssignee"> | number
+  isCurrent?: Prisma.BoolFilter<"SubTaskAssignee"> | boolean
   status?: Prisma.EnumAssignmentStatusFilter<"SubTaskAssignee"> | $Enums.AssignmentStatus
   reason?: Prisma.StringNullableFilter<"SubTaskAssignee"> | string | null
   assignedAt?: Prisma.DateTimeFilter<"SubTaskAssignee"> | Date | string
   acceptedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
   declinedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
   completedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
+  sentBackAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
+  sentBackReason?: Prisma.StringNullableFilter<"SubTaskAssignee"> | string | null
   updatedAt?: Prisma.DateTimeFilter<"SubTaskAssignee"> | Date | string
   subtask?: Prisma.XOR<Prisma.SubTaskScalarRelationFilter, Prisma.SubTaskWhereInput>
   assignee?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
@@ -270,15 +318,20 @@ export type SubTaskAssigneeWhereInput = {
 }
 
 export type SubTaskAssigneeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
   subTaskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrderInput | Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   declinedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrderInput | Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   subtask?: Prisma.SubTaskOrderByWithRelationInput
   assignee?: Prisma.UserOrderByWithRelationInput
@@ -286,35 +339,45 @@ export type SubTaskAssigneeOrderByWithRelationInput = {
 }
 
 export type SubTaskAssigneeWhereUniqueInput = Prisma.AtLeast<{
-  subTaskId_assigneeId?: Prisma.SubTaskAssigneeSubTaskIdAssigneeIdCompoundUniqueInput
+  id?: number
+  subTaskId_assigneeId_round?: Prisma.SubTaskAssigneeSubTaskIdAssigneeIdRoundCompoundUniqueInput
   AND?: Prisma.SubTaskAssigneeWhereInput | Prisma.SubTaskAssigneeWhereInput[]
   OR?: Prisma.SubTaskAssigneeWhereInput[]
   NOT?: Prisma.SubTaskAssigneeWhereInput | Prisma.SubTaskAssigneeWhereInput[]
   subTaskId?: Prisma.IntFilter<"SubTaskAssignee"> | number
   assigneeId?: Prisma.IntFilter<"SubTaskAssignee"> | number
   assignedById?: Prisma.IntNullableFilter<"SubTaskAssignee"> | number | null
+  round?: Prisma.IntFilter<"SubTaskAssignee"> | number
+  isCurrent?: Prisma.BoolFilter<"SubTaskAssignee"> | boolean
   status?: Prisma.EnumAssignmentStatusFilter<"SubTaskAssignee"> | $Enums.AssignmentStatus
   reason?: Prisma.StringNullableFilter<"SubTaskAssignee"> | string | null
   assignedAt?: Prisma.DateTimeFilter<"SubTaskAssignee"> | Date | string
   acceptedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
   declinedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
   completedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
+  sentBackAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
+  sentBackReason?: Prisma.StringNullableFilter<"SubTaskAssignee"> | string | null
   updatedAt?: Prisma.DateTimeFilter<"SubTaskAssignee"> | Date | string
   subtask?: Prisma.XOR<Prisma.SubTaskScalarRelationFilter, Prisma.SubTaskWhereInput>
   assignee?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   assignedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
-}, "subTaskId_assigneeId">
+}, "id" | "subTaskId_assigneeId_round">
 
 export type SubTaskAssigneeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
   subTaskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrderInput | Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   declinedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrderInput | Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.SubTaskAssigneeCountOrderByAggregateInput
   _avg?: Prisma.SubTaskAssigneeAvgOrderByAggregateInput
@@ -327,25 +390,34 @@ export type SubTaskAssigneeScalarWhereWithAggregatesInput = {
   AND?: Prisma.SubTaskAssigneeScalarWhereWithAggregatesInput | Prisma.SubTaskAssigneeScalarWhereWithAggregatesInput[]
   OR?: Prisma.SubTaskAssigneeScalarWhereWithAggregatesInput[]
   NOT?: Prisma.SubTaskAssigneeScalarWhereWithAggregatesInput | Prisma.SubTaskAssigneeScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"SubTaskAssignee"> | number
   subTaskId?: Prisma.IntWithAggregatesFilter<"SubTaskAssignee"> | number
   assigneeId?: Prisma.IntWithAggregatesFilter<"SubTaskAssignee"> | number
   assignedById?: Prisma.IntNullableWithAggregatesFilter<"SubTaskAssignee"> | number | null
+  round?: Prisma.IntWithAggregatesFilter<"SubTaskAssignee"> | number
+  isCurrent?: Prisma.BoolWithAggregatesFilter<"SubTaskAssignee"> | boolean
   status?: Prisma.EnumAssignmentStatusWithAggregatesFilter<"SubTaskAssignee"> | $Enums.AssignmentStatus
   reason?: Prisma.StringNullableWithAggregatesFilter<"SubTaskAssignee"> | string | null
   assignedAt?: Prisma.DateTimeWithAggregatesFilter<"SubTaskAssignee"> | Date | string
   acceptedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SubTaskAssignee"> | Date | string | null
   declinedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SubTaskAssignee"> | Date | string | null
   completedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SubTaskAssignee"> | Date | string | null
+  sentBackAt?: Prisma.DateTimeNullableWithAggregatesFilter<"SubTaskAssignee"> | Date | string | null
+  sentBackReason?: Prisma.StringNullableWithAggregatesFilter<"SubTaskAssignee"> | string | null
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"SubTaskAssignee"> | Date | string
 }
 
 export type SubTaskAssigneeCreateInput = {
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
   subtask: Prisma.SubTaskCreateNestedOneWithoutAssigneesInput
   assignee: Prisma.UserCreateNestedOneWithoutAssignedSubTasksInput
@@ -353,25 +425,34 @@ export type SubTaskAssigneeCreateInput = {
 }
 
 export type SubTaskAssigneeUncheckedCreateInput = {
+  id?: number
   subTaskId: number
   assigneeId: number
   assignedById?: number | null
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type SubTaskAssigneeUpdateInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   subtask?: Prisma.SubTaskUpdateOneRequiredWithoutAssigneesNestedInput
   assignee?: Prisma.UserUpdateOneRequiredWithoutAssignedSubTasksNestedInput
@@ -379,51 +460,70 @@ export type SubTaskAssigneeUpdateInput = {
 }
 
 export type SubTaskAssigneeUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type SubTaskAssigneeCreateManyInput = {
+  id?: number
   subTaskId: number
   assigneeId: number
   assignedById?: number | null
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type SubTaskAssigneeUpdateManyMutationInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type SubTaskAssigneeUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -437,60 +537,80 @@ export type SubTaskAssigneeOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
-export type SubTaskAssigneeSubTaskIdAssigneeIdCompoundUniqueInput = {
+export type SubTaskAssigneeSubTaskIdAssigneeIdRoundCompoundUniqueInput = {
   subTaskId: number
   assigneeId: number
+  round: number
 }
 
 export type SubTaskAssigneeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   subTaskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrder
   declinedAt?: Prisma.SortOrder
   completedAt?: Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type SubTaskAssigneeAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   subTaskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
 }
 
 export type SubTaskAssigneeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   subTaskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrder
   declinedAt?: Prisma.SortOrder
   completedAt?: Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type SubTaskAssigneeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   subTaskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrder
   declinedAt?: Prisma.SortOrder
   completedAt?: Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type SubTaskAssigneeSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   subTaskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
 }
 
 export type SubTaskAssigneeCreateNestedManyWithoutSubtaskInput = {
@@ -620,26 +740,35 @@ export type SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput = {
 }
 
 export type SubTaskAssigneeCreateWithoutSubtaskInput = {
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
   assignee: Prisma.UserCreateNestedOneWithoutAssignedSubTasksInput
   assignedBy?: Prisma.UserCreateNestedOneWithoutDelegatedSubTasksInput
 }
 
 export type SubTaskAssigneeUncheckedCreateWithoutSubtaskInput = {
+  id?: number
   assigneeId: number
   assignedById?: number | null
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
@@ -673,39 +802,53 @@ export type SubTaskAssigneeScalarWhereInput = {
   AND?: Prisma.SubTaskAssigneeScalarWhereInput | Prisma.SubTaskAssigneeScalarWhereInput[]
   OR?: Prisma.SubTaskAssigneeScalarWhereInput[]
   NOT?: Prisma.SubTaskAssigneeScalarWhereInput | Prisma.SubTaskAssigneeScalarWhereInput[]
+  id?: Prisma.IntFilter<"SubTaskAssignee"> | number
   subTaskId?: Prisma.IntFilter<"SubTaskAssignee"> | number
   assigneeId?: Prisma.IntFilter<"SubTaskAssignee"> | number
   assignedById?: Prisma.IntNullableFilter<"SubTaskAssignee"> | number | null
+  round?: Prisma.IntFilter<"SubTaskAssignee"> | number
+  isCurrent?: Prisma.BoolFilter<"SubTaskAssignee"> | boolean
   status?: Prisma.EnumAssignmentStatusFilter<"SubTaskAssignee"> | $Enums.AssignmentStatus
   reason?: Prisma.StringNullableFilter<"SubTaskAssignee"> | string | null
   assignedAt?: Prisma.DateTimeFilter<"SubTaskAssignee"> | Date | string
   acceptedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
   declinedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
   completedAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
+  sentBackAt?: Prisma.DateTimeNullableFilter<"SubTaskAssignee"> | Date | string | null
+  sentBackReason?: Prisma.StringNullableFilter<"SubTaskAssignee"> | string | null
   updatedAt?: Prisma.DateTimeFilter<"SubTaskAssignee"> | Date | string
 }
 
 export type SubTaskAssigneeCreateWithoutAssigneeInput = {
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
   subtask: Prisma.SubTaskCreateNestedOneWithoutAssigneesInput
   assignedBy?: Prisma.UserCreateNestedOneWithoutDelegatedSubTasksInput
 }
 
 export type SubTaskAssigneeUncheckedCreateWithoutAssigneeInput = {
+  id?: number
   subTaskId: number
   assignedById?: number | null
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
@@ -720,26 +863,35 @@ export type SubTaskAssigneeCreateManyAssigneeInputEnvelope = {
 }
 
 export type SubTaskAssigneeCreateWithoutAssignedByInput = {
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
   subtask: Prisma.SubTaskCreateNestedOneWithoutAssigneesInput
   assignee: Prisma.UserCreateNestedOneWithoutAssignedSubTasksInput
 }
 
 export type SubTaskAssigneeUncheckedCreateWithoutAssignedByInput = {
+  id?: number
   subTaskId: number
   assigneeId: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
@@ -786,161 +938,223 @@ export type SubTaskAssigneeUpdateManyWithWhereWithoutAssignedByInput = {
 }
 
 export type SubTaskAssigneeCreateManySubtaskInput = {
+  id?: number
   assigneeId: number
   assignedById?: number | null
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type SubTaskAssigneeUpdateWithoutSubtaskInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   assignee?: Prisma.UserUpdateOneRequiredWithoutAssignedSubTasksNestedInput
   assignedBy?: Prisma.UserUpdateOneWithoutDelegatedSubTasksNestedInput
 }
 
 export type SubTaskAssigneeUncheckedUpdateWithoutSubtaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type SubTaskAssigneeUncheckedUpdateManyWithoutSubtaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type SubTaskAssigneeCreateManyAssigneeInput = {
+  id?: number
   subTaskId: number
   assignedById?: number | null
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type SubTaskAssigneeCreateManyAssignedByInput = {
+  id?: number
   subTaskId: number
   assigneeId: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type SubTaskAssigneeUpdateWithoutAssigneeInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   subtask?: Prisma.SubTaskUpdateOneRequiredWithoutAssigneesNestedInput
   assignedBy?: Prisma.UserUpdateOneWithoutDelegatedSubTasksNestedInput
 }
 
 export type SubTaskAssigneeUncheckedUpdateWithoutAssigneeInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type SubTaskAssigneeUpdateWithoutAssignedByInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   subtask?: Prisma.SubTaskUpdateOneRequiredWithoutAssigneesNestedInput
   assignee?: Prisma.UserUpdateOneRequiredWithoutAssignedSubTasksNestedInput
 }
 
 export type SubTaskAssigneeUncheckedUpdateWithoutAssignedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
 
 export type SubTaskAssigneeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
   subTaskId?: boolean
   assigneeId?: boolean
   assignedById?: boolean
+  round?: boolean
+  isCurrent?: boolean
   status?: boolean
   reason?: boolean
   assignedAt?: boolean
   acceptedAt?: boolean
   declinedAt?: boolean
   completedAt?: boolean
+  sentBackAt?: boolean
+  sentBackReason?: boolean
   updatedAt?: boolean
   subtask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
   assignee?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -948,15 +1162,20 @@ export type SubTaskAssigneeSelect<ExtArgs extends runtime.Types.Extensions.Inter
 }, ExtArgs["result"]["subTaskAssignee"]>
 
 export type SubTaskAssigneeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
   subTaskId?: boolean
   assigneeId?: boolean
   assignedById?: boolean
+  round?: boolean
+  isCurrent?: boolean
   status?: boolean
   reason?: boolean
   assignedAt?: boolean
   acceptedAt?: boolean
   declinedAt?: boolean
   completedAt?: boolean
+  sentBackAt?: boolean
+  sentBackReason?: boolean
   updatedAt?: boolean
   subtask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
   assignee?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -964,15 +1183,20 @@ export type SubTaskAssigneeSelectCreateManyAndReturn<ExtArgs extends runtime.Typ
 }, ExtArgs["result"]["subTaskAssignee"]>
 
 export type SubTaskAssigneeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
   subTaskId?: boolean
   assigneeId?: boolean
   assignedById?: boolean
+  round?: boolean
+  isCurrent?: boolean
   status?: boolean
   reason?: boolean
   assignedAt?: boolean
   acceptedAt?: boolean
   declinedAt?: boolean
   completedAt?: boolean
+  sentBackAt?: boolean
+  sentBackReason?: boolean
   updatedAt?: boolean
   subtask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
   assignee?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -980,19 +1204,24 @@ export type SubTaskAssigneeSelectUpdateManyAndReturn<ExtArgs extends runtime.Typ
 }, ExtArgs["result"]["subTaskAssignee"]>
 
 export type SubTaskAssigneeSelectScalar = {
+  id?: boolean
   subTaskId?: boolean
   assigneeId?: boolean
   assignedById?: boolean
+  round?: boolean
+  isCurrent?: boolean
   status?: boolean
   reason?: boolean
   assignedAt?: boolean
   acceptedAt?: boolean
   declinedAt?: boolean
   completedAt?: boolean
+  sentBackAt?: boolean
+  sentBackReason?: boolean
   updatedAt?: boolean
 }
 
-export type SubTaskAssigneeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"subTaskId" | "assigneeId" | "assignedById" | "status" | "reason" | "assignedAt" | "acceptedAt" | "declinedAt" | "completedAt" | "updatedAt", ExtArgs["result"]["subTaskAssignee"]>
+export type SubTaskAssigneeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "subTaskId" | "assigneeId" | "assignedById" | "round" | "isCurrent" | "status" | "reason" | "assignedAt" | "acceptedAt" | "declinedAt" | "completedAt" | "sentBackAt" | "sentBackReason" | "updatedAt", ExtArgs["result"]["subTaskAssignee"]>
 export type SubTaskAssigneeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   subtask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
   assignee?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -1017,15 +1246,20 @@ export type $SubTaskAssigneePayload<ExtArgs extends runtime.Types.Extensions.Int
     assignedBy: Prisma.$UserPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
     subTaskId: number
     assigneeId: number
     assignedById: number | null
+    round: number
+    isCurrent: boolean
     status: $Enums.AssignmentStatus
     reason: string | null
     assignedAt: Date
     acceptedAt: Date | null
     declinedAt: Date | null
     completedAt: Date | null
+    sentBackAt: Date | null
+    sentBackReason: string | null
     updatedAt: Date
   }, ExtArgs["result"]["subTaskAssignee"]>
   composites: {}
@@ -1110,8 +1344,8 @@ export interface SubTaskAssigneeDelegate<ExtArgs extends runtime.Types.Extension
    * // Get first 10 SubTaskAssignees
    * const subTaskAssignees = await prisma.subTaskAssignee.findMany({ take: 10 })
    * 
-   * // Only select the `subTaskId`
-   * const subTaskAssigneeWithSubTaskIdOnly = await prisma.subTaskAssignee.findMany({ select: { subTaskId: true } })
+   * // Only select the `id`
+   * const subTaskAssigneeWithIdOnly = await prisma.subTaskAssignee.findMany({ select: { id: true } })
    * 
    */
   findMany<T extends SubTaskAssigneeFindManyArgs>(args?: Prisma.SelectSubset<T, SubTaskAssigneeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskAssigneePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
@@ -1155,9 +1389,9 @@ export interface SubTaskAssigneeDelegate<ExtArgs extends runtime.Types.Extension
    *   ]
    * })
    * 
-   * // Create many SubTaskAssignees and only return the `subTaskId`
-   * const subTaskAssigneeWithSubTaskIdOnly = await prisma.subTaskAssignee.createManyAndReturn({
-   *   select: { subTaskId: true },
+   * // Create many SubTaskAssignees and only return the `id`
+   * const subTaskAssigneeWithIdOnly = await prisma.subTaskAssignee.createManyAndReturn({
+   *   select: { id: true },
    *   data: [
    *     // ... provide data here
    *   ]
@@ -1246,9 +1480,9 @@ export interface SubTaskAssigneeDelegate<ExtArgs extends runtime.Types.Extension
    *   ]
    * })
    * 
-   * // Update zero or more SubTaskAssignees and only return the `subTaskId`
-   * const subTaskAssigneeWithSubTaskIdOnly = await prisma.subTaskAssignee.updateManyAndReturn({
-   *   select: { subTaskId: true },
+   * // Update zero or more SubTaskAssignees and only return the `id`
+   * const subTaskAssigneeWithIdOnly = await prisma.subTaskAssignee.updateManyAndReturn({
+   *   select: { id: true },
    *   where: {
    *     // ... provide filter here
    *   },
@@ -1453,15 +1687,20 @@ export interface Prisma__SubTaskAssigneeClient<T, Null = never, ExtArgs extends
  * Fields of the SubTaskAssignee model
  */
 export interface SubTaskAssigneeFieldRefs {
+  readonly id: Prisma.FieldRef<"SubTaskAssignee", 'Int'>
   readonly subTaskId: Prisma.FieldRef<"SubTaskAssignee", 'Int'>
   readonly assigneeId: Prisma.FieldRef<"SubTaskAssignee", 'Int'>
   readonly assignedById: Prisma.FieldRef<"SubTaskAssignee", 'Int'>
+  readonly round: Prisma.FieldRef<"SubTaskAssignee", 'Int'>
+  readonly isCurrent: Prisma.FieldRef<"SubTaskAssignee", 'Boolean'>
   readonly status: Prisma.FieldRef<"SubTaskAssignee", 'AssignmentStatus'>
   readonly reason: Prisma.FieldRef<"SubTaskAssignee", 'String'>
   readonly assignedAt: Prisma.FieldRef<"SubTaskAssignee", 'DateTime'>
   readonly acceptedAt: Prisma.FieldRef<"SubTaskAssignee", 'DateTime'>
   readonly declinedAt: Prisma.FieldRef<"SubTaskAssignee", 'DateTime'>
   readonly completedAt: Prisma.FieldRef<"SubTaskAssignee", 'DateTime'>
+  readonly sentBackAt: Prisma.FieldRef<"SubTaskAssignee", 'DateTime'>
+  readonly sentBackReason: Prisma.FieldRef<"SubTaskAssignee", 'String'>
   readonly updatedAt: Prisma.FieldRef<"SubTaskAssignee", 'DateTime'>
 }
     
@@ -0,0 +1,1434 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `SubTaskLabel` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model SubTaskLabel
+ * 
+ */
+export type SubTaskLabelModel = runtime.Types.Result.DefaultSelection<Prisma.$SubTaskLabelPayload>
+
+export type AggregateSubTaskLabel = {
+  _count: SubTaskLabelCountAggregateOutputType | null
+  _avg: SubTaskLabelAvgAggregateOutputType | null
+  _sum: SubTaskLabelSumAggregateOutputType | null
+  _min: SubTaskLabelMinAggregateOutputType | null
+  _max: SubTaskLabelMaxAggregateOutputType | null
+}
+
+export type SubTaskLabelAvgAggregateOutputType = {
+  subTaskId: number | null
+  labelId: number | null
+}
+
+export type SubTaskLabelSumAggregateOutputType = {
+  subTaskId: number | null
+  labelId: number | null
+}
+
+export type SubTaskLabelMinAggregateOutputType = {
+  subTaskId: number | null
+  labelId: number | null
+  createdAt: Date | null
+}
+
+export type SubTaskLabelMaxAggregateOutputType = {
+  subTaskId: number | null
+  labelId: number | null
+  createdAt: Date | null
+}
+
+export type SubTaskLabelCountAggregateOutputType = {
+  subTaskId: number
+  labelId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type SubTaskLabelAvgAggregateInputType = {
+  subTaskId?: true
+  labelId?: true
+}
+
+export type SubTaskLabelSumAggregateInputType = {
+  subTaskId?: true
+  labelId?: true
+}
+
+export type SubTaskLabelMinAggregateInputType = {
+  subTaskId?: true
+  labelId?: true
+  createdAt?: true
+}
+
+export type SubTaskLabelMaxAggregateInputType = {
+  subTaskId?: true
+  labelId?: true
+  createdAt?: true
+}
+
+export type SubTaskLabelCountAggregateInputType = {
+  subTaskId?: true
+  labelId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type SubTaskLabelAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SubTaskLabel to aggregate.
+   */
+  where?: Prisma.SubTaskLabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SubTaskLabels to fetch.
+   */
+  orderBy?: Prisma.SubTaskLabelOrderByWithRelationInput | Prisma.SubTaskLabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.SubTaskLabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SubTaskLabels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SubTaskLabels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned SubTaskLabels
+  **/
+  _count?: true | SubTaskLabelCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: SubTaskLabelAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: SubTaskLabelSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: SubTaskLabelMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: SubTaskLabelMaxAggregateInputType
+}
+
+export type GetSubTaskLabelAggregateType<T extends SubTaskLabelAggregateArgs> = {
+      [P in keyof T & keyof AggregateSubTaskLabel]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateSubTaskLabel[P]>
+    : Prisma.GetScalarType<T[P], AggregateSubTaskLabel[P]>
+}
+
+
+
+
+export type SubTaskLabelGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SubTaskLabelWhereInput
+  orderBy?: Prisma.SubTaskLabelOrderByWithAggregationInput | Prisma.SubTaskLabelOrderByWithAggregationInput[]
+  by: Prisma.SubTaskLabelScalarFieldEnum[] | Prisma.SubTaskLabelScalarFieldEnum
+  having?: Prisma.SubTaskLabelScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: SubTaskLabelCountAggregateInputType | true
+  _avg?: SubTaskLabelAvgAggregateInputType
+  _sum?: SubTaskLabelSumAggregateInputType
+  _min?: SubTaskLabelMinAggregateInputType
+  _max?: SubTaskLabelMaxAggregateInputType
+}
+
+export type SubTaskLabelGroupByOutputType = {
+  subTaskId: number
+  labelId: number
+  createdAt: Date
+  _count: SubTaskLabelCountAggregateOutputType | null
+  _avg: SubTaskLabelAvgAggregateOutputType | null
+  _sum: SubTaskLabelSumAggregateOutputType | null
+  _min: SubTaskLabelMinAggregateOutputType | null
+  _max: SubTaskLabelMaxAggregateOutputType | null
+}
+
+type GetSubTaskLabelGroupByPayload<T extends SubTaskLabelGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<SubTaskLabelGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof SubTaskLabelGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], SubTaskLabelGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], SubTaskLabelGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type SubTaskLabelWhereInput = {
+  AND?: Prisma.SubTaskLabelWhereInput | Prisma.SubTaskLabelWhereInput[]
+  OR?: Prisma.SubTaskLabelWhereInput[]
+  NOT?: Prisma.SubTaskLabelWhereInput | Prisma.SubTaskLabelWhereInput[]
+  subTaskId?: Prisma.IntFilter<"SubTaskLabel"> | number
+  labelId?: Prisma.IntFilter<"SubTaskLabel"> | number
+  createdAt?: Prisma.DateTimeFilter<"SubTaskLabel"> | Date | string
+  subTask?: Prisma.XOR<Prisma.SubTaskScalarRelationFilter, Prisma.SubTaskWhereInput>
+  label?: Prisma.XOR<Prisma.LabelScalarRelationFilter, Prisma.LabelWhereInput>
+}
+
+export type SubTaskLabelOrderByWithRelationInput = {
+  subTaskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  subTask?: Prisma.SubTaskOrderByWithRelationInput
+  label?: Prisma.LabelOrderByWithRelationInput
+}
+
+export type SubTaskLabelWhereUniqueInput = Prisma.AtLeast<{
+  subTaskId_labelId?: Prisma.SubTaskLabelSubTaskIdLabelIdCompoundUniqueInput
+  AND?: Prisma.SubTaskLabelWhereInput | Prisma.SubTaskLabelWhereInput[]
+  OR?: Prisma.SubTaskLabelWhereInput[]
+  NOT?: Prisma.SubTaskLabelWhereInput | Prisma.SubTaskLabelWhereInput[]
+  subTaskId?: Prisma.IntFilter<"SubTaskLabel"> | number
+  labelId?: Prisma.IntFilter<"SubTaskLabel"> | number
+  createdAt?: Prisma.DateTimeFilter<"SubTaskLabel"> | Date | string
+  subTask?: Prisma.XOR<Prisma.SubTaskScalarRelationFilter, Prisma.SubTaskWhereInput>
+  label?: Prisma.XOR<Prisma.LabelScalarRelationFilter, Prisma.LabelWhereInput>
+}, "subTaskId_labelId">
+
+export type SubTaskLabelOrderByWithAggregationInput = {
+  subTaskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.SubTaskLabelCountOrderByAggregateInput
+  _avg?: Prisma.SubTaskLabelAvgOrderByAggregateInput
+  _max?: Prisma.SubTaskLabelMaxOrderByAggregateInput
+  _min?: Prisma.SubTaskLabelMinOrderByAggregateInput
+  _sum?: Prisma.SubTaskLabelSumOrderByAggregateInput
+}
+
+export type SubTaskLabelScalarWhereWithAggregatesInput = {
+  AND?: Prisma.SubTaskLabelScalarWhereWithAggregatesInput | Prisma.SubTaskLabelScalarWhereWithAggregatesInput[]
+  OR?: Prisma.SubTaskLabelScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.SubTaskLabelScalarWhereWithAggregatesInput | Prisma.SubTaskLabelScalarWhereWithAggregatesInput[]
+  subTaskId?: Prisma.IntWithAggregatesFilter<"SubTaskLabel"> | number
+  labelId?: Prisma.IntWithAggregatesFilter<"SubTaskLabel"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"SubTaskLabel"> | Date | string
+}
+
+export type SubTaskLabelCreateInput = {
+  createdAt?: Date | string
+  subTask: Prisma.SubTaskCreateNestedOneWithoutLabelsInput
+  label: Prisma.LabelCreateNestedOneWithoutSubTasksInput
+}
+
+export type SubTaskLabelUncheckedCreateInput = {
+  subTaskId: number
+  labelId: number
+  createdAt?: Date | string
+}
+
+export type SubTaskLabelUpdateInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subTask?: Prisma.SubTaskUpdateOneRequiredWithoutLabelsNestedInput
+  label?: Prisma.LabelUpdateOneRequiredWithoutSubTasksNestedInput
+}
+
+export type SubTaskLabelUncheckedUpdateInput = {
+  subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  labelId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubTaskLabelCreateManyInput = {
+  subTaskId: number
+  labelId: number
+  createdAt?: Date | string
+}
+
+export type SubTaskLabelUpdateManyMutationInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubTaskLabelUncheckedUpdateManyInput = {
+  subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  labelId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubTaskLabelListRelationFilter = {
+  every?: Prisma.SubTaskLabelWhereInput
+  some?: Prisma.SubTaskLabelWhereInput
+  none?: Prisma.SubTaskLabelWhereInput
+}
+
+export type SubTaskLabelOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type SubTaskLabelSubTaskIdLabelIdCompoundUniqueInput = {
+  subTaskId: number
+  labelId: number
+}
+
+export type SubTaskLabelCountOrderByAggregateInput = {
+  subTaskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SubTaskLabelAvgOrderByAggregateInput = {
+  subTaskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+}
+
+export type SubTaskLabelMaxOrderByAggregateInput = {
+  subTaskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SubTaskLabelMinOrderByAggregateInput = {
+  subTaskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type SubTaskLabelSumOrderByAggregateInput = {
+  subTaskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+}
+
+export type SubTaskLabelCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutSubTaskInput, Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput> | Prisma.SubTaskLabelCreateWithoutSubTaskInput[] | Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.SubTaskLabelCreateOrConnectWithoutSubTaskInput | Prisma.SubTaskLabelCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.SubTaskLabelCreateManySubTaskInputEnvelope
+  connect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+}
+
+export type SubTaskLabelUncheckedCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutSubTaskInput, Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput> | Prisma.SubTaskLabelCreateWithoutSubTaskInput[] | Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.SubTaskLabelCreateOrConnectWithoutSubTaskInput | Prisma.SubTaskLabelCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.SubTaskLabelCreateManySubTaskInputEnvelope
+  connect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+}
+
+export type SubTaskLabelUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutSubTaskInput, Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput> | Prisma.SubTaskLabelCreateWithoutSubTaskInput[] | Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.SubTaskLabelCreateOrConnectWithoutSubTaskInput | Prisma.SubTaskLabelCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.SubTaskLabelUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.SubTaskLabelUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.SubTaskLabelCreateManySubTaskInputEnvelope
+  set?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  disconnect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  delete?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  connect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  update?: Prisma.SubTaskLabelUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.SubTaskLabelUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.SubTaskLabelUpdateManyWithWhereWithoutSubTaskInput | Prisma.SubTaskLabelUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.SubTaskLabelScalarWhereInput | Prisma.SubTaskLabelScalarWhereInput[]
+}
+
+export type SubTaskLabelUncheckedUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutSubTaskInput, Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput> | Prisma.SubTaskLabelCreateWithoutSubTaskInput[] | Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.SubTaskLabelCreateOrConnectWithoutSubTaskInput | Prisma.SubTaskLabelCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.SubTaskLabelUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.SubTaskLabelUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.SubTaskLabelCreateManySubTaskInputEnvelope
+  set?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  disconnect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  delete?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  connect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  update?: Prisma.SubTaskLabelUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.SubTaskLabelUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.SubTaskLabelUpdateManyWithWhereWithoutSubTaskInput | Prisma.SubTaskLabelUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.SubTaskLabelScalarWhereInput | Prisma.SubTaskLabelScalarWhereInput[]
+}
+
+export type SubTaskLabelCreateNestedManyWithoutLabelInput = {
+  create?: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutLabelInput, Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput> | Prisma.SubTaskLabelCreateWithoutLabelInput[] | Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput[]
+  connectOrCreate?: Prisma.SubTaskLabelCreateOrConnectWithoutLabelInput | Prisma.SubTaskLabelCreateOrConnectWithoutLabelInput[]
+  createMany?: Prisma.SubTaskLabelCreateManyLabelInputEnvelope
+  connect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+}
+
+export type SubTaskLabelUncheckedCreateNestedManyWithoutLabelInput = {
+  create?: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutLabelInput, Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput> | Prisma.SubTaskLabelCreateWithoutLabelInput[] | Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput[]
+  connectOrCreate?: Prisma.SubTaskLabelCreateOrConnectWithoutLabelInput | Prisma.SubTaskLabelCreateOrConnectWithoutLabelInput[]
+  createMany?: Prisma.SubTaskLabelCreateManyLabelInputEnvelope
+  connect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+}
+
+export type SubTaskLabelUpdateManyWithoutLabelNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutLabelInput, Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput> | Prisma.SubTaskLabelCreateWithoutLabelInput[] | Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput[]
+  connectOrCreate?: Prisma.SubTaskLabelCreateOrConnectWithoutLabelInput | Prisma.SubTaskLabelCreateOrConnectWithoutLabelInput[]
+  upsert?: Prisma.SubTaskLabelUpsertWithWhereUniqueWithoutLabelInput | Prisma.SubTaskLabelUpsertWithWhereUniqueWithoutLabelInput[]
+  createMany?: Prisma.SubTaskLabelCreateManyLabelInputEnvelope
+  set?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  disconnect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  delete?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  connect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  update?: Prisma.SubTaskLabelUpdateWithWhereUniqueWithoutLabelInput | Prisma.SubTaskLabelUpdateWithWhereUniqueWithoutLabelInput[]
+  updateMany?: Prisma.SubTaskLabelUpdateManyWithWhereWithoutLabelInput | Prisma.SubTaskLabelUpdateManyWithWhereWithoutLabelInput[]
+  deleteMany?: Prisma.SubTaskLabelScalarWhereInput | Prisma.SubTaskLabelScalarWhereInput[]
+}
+
+export type SubTaskLabelUncheckedUpdateManyWithoutLabelNestedInput = {
+  create?: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutLabelInput, Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput> | Prisma.SubTaskLabelCreateWithoutLabelInput[] | Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput[]
+  connectOrCreate?: Prisma.SubTaskLabelCreateOrConnectWithoutLabelInput | Prisma.SubTaskLabelCreateOrConnectWithoutLabelInput[]
+  upsert?: Prisma.SubTaskLabelUpsertWithWhereUniqueWithoutLabelInput | Prisma.SubTaskLabelUpsertWithWhereUniqueWithoutLabelInput[]
+  createMany?: Prisma.SubTaskLabelCreateManyLabelInputEnvelope
+  set?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  disconnect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  delete?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  connect?: Prisma.SubTaskLabelWhereUniqueInput | Prisma.SubTaskLabelWhereUniqueInput[]
+  update?: Prisma.SubTaskLabelUpdateWithWhereUniqueWithoutLabelInput | Prisma.SubTaskLabelUpdateWithWhereUniqueWithoutLabelInput[]
+  updateMany?: Prisma.SubTaskLabelUpdateManyWithWhereWithoutLabelInput | Prisma.SubTaskLabelUpdateManyWithWhereWithoutLabelInput[]
+  deleteMany?: Prisma.SubTaskLabelScalarWhereInput | Prisma.SubTaskLabelScalarWhereInput[]
+}
+
+export type SubTaskLabelCreateWithoutSubTaskInput = {
+  createdAt?: Date | string
+  label: Prisma.LabelCreateNestedOneWithoutSubTasksInput
+}
+
+export type SubTaskLabelUncheckedCreateWithoutSubTaskInput = {
+  labelId: number
+  createdAt?: Date | string
+}
+
+export type SubTaskLabelCreateOrConnectWithoutSubTaskInput = {
+  where: Prisma.SubTaskLabelWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutSubTaskInput, Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput>
+}
+
+export type SubTaskLabelCreateManySubTaskInputEnvelope = {
+  data: Prisma.SubTaskLabelCreateManySubTaskInput | Prisma.SubTaskLabelCreateManySubTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type SubTaskLabelUpsertWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.SubTaskLabelWhereUniqueInput
+  update: Prisma.XOR<Prisma.SubTaskLabelUpdateWithoutSubTaskInput, Prisma.SubTaskLabelUncheckedUpdateWithoutSubTaskInput>
+  create: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutSubTaskInput, Prisma.SubTaskLabelUncheckedCreateWithoutSubTaskInput>
+}
+
+export type SubTaskLabelUpdateWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.SubTaskLabelWhereUniqueInput
+  data: Prisma.XOR<Prisma.SubTaskLabelUpdateWithoutSubTaskInput, Prisma.SubTaskLabelUncheckedUpdateWithoutSubTaskInput>
+}
+
+export type SubTaskLabelUpdateManyWithWhereWithoutSubTaskInput = {
+  where: Prisma.SubTaskLabelScalarWhereInput
+  data: Prisma.XOR<Prisma.SubTaskLabelUpdateManyMutationInput, Prisma.SubTaskLabelUncheckedUpdateManyWithoutSubTaskInput>
+}
+
+export type SubTaskLabelScalarWhereInput = {
+  AND?: Prisma.SubTaskLabelScalarWhereInput | Prisma.SubTaskLabelScalarWhereInput[]
+  OR?: Prisma.SubTaskLabelScalarWhereInput[]
+  NOT?: Prisma.SubTaskLabelScalarWhereInput | Prisma.SubTaskLabelScalarWhereInput[]
+  subTaskId?: Prisma.IntFilter<"SubTaskLabel"> | number
+  labelId?: Prisma.IntFilter<"SubTaskLabel"> | number
+  createdAt?: Prisma.DateTimeFilter<"SubTaskLabel"> | Date | string
+}
+
+export type SubTaskLabelCreateWithoutLabelInput = {
+  createdAt?: Date | string
+  subTask: Prisma.SubTaskCreateNestedOneWithoutLabelsInput
+}
+
+export type SubTaskLabelUncheckedCreateWithoutLabelInput = {
+  subTaskId: number
+  createdAt?: Date | string
+}
+
+export type SubTaskLabelCreateOrConnectWithoutLabelInput = {
+  where: Prisma.SubTaskLabelWhereUniqueInput
+  create: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutLabelInput, Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput>
+}
+
+export type SubTaskLabelCreateManyLabelInputEnvelope = {
+  data: Prisma.SubTaskLabelCreateManyLabelInput | Prisma.SubTaskLabelCreateManyLabelInput[]
+  skipDuplicates?: boolean
+}
+
+export type SubTaskLabelUpsertWithWhereUniqueWithoutLabelInput = {
+  where: Prisma.SubTaskLabelWhereUniqueInput
+  update: Prisma.XOR<Prisma.SubTaskLabelUpdateWithoutLabelInput, Prisma.SubTaskLabelUncheckedUpdateWithoutLabelInput>
+  create: Prisma.XOR<Prisma.SubTaskLabelCreateWithoutLabelInput, Prisma.SubTaskLabelUncheckedCreateWithoutLabelInput>
+}
+
+export type SubTaskLabelUpdateWithWhereUniqueWithoutLabelInput = {
+  where: Prisma.SubTaskLabelWhereUniqueInput
+  data: Prisma.XOR<Prisma.SubTaskLabelUpdateWithoutLabelInput, Prisma.SubTaskLabelUncheckedUpdateWithoutLabelInput>
+}
+
+export type SubTaskLabelUpdateManyWithWhereWithoutLabelInput = {
+  where: Prisma.SubTaskLabelScalarWhereInput
+  data: Prisma.XOR<Prisma.SubTaskLabelUpdateManyMutationInput, Prisma.SubTaskLabelUncheckedUpdateManyWithoutLabelInput>
+}
+
+export type SubTaskLabelCreateManySubTaskInput = {
+  labelId: number
+  createdAt?: Date | string
+}
+
+export type SubTaskLabelUpdateWithoutSubTaskInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  label?: Prisma.LabelUpdateOneRequiredWithoutSubTasksNestedInput
+}
+
+export type SubTaskLabelUncheckedUpdateWithoutSubTaskInput = {
+  labelId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubTaskLabelUncheckedUpdateManyWithoutSubTaskInput = {
+  labelId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubTaskLabelCreateManyLabelInput = {
+  subTaskId: number
+  createdAt?: Date | string
+}
+
+export type SubTaskLabelUpdateWithoutLabelInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subTask?: Prisma.SubTaskUpdateOneRequiredWithoutLabelsNestedInput
+}
+
+export type SubTaskLabelUncheckedUpdateWithoutLabelInput = {
+  subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type SubTaskLabelUncheckedUpdateManyWithoutLabelInput = {
+  subTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type SubTaskLabelSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  subTaskId?: boolean
+  labelId?: boolean
+  createdAt?: boolean
+  subTask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["subTaskLabel"]>
+
+export type SubTaskLabelSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  subTaskId?: boolean
+  labelId?: boolean
+  createdAt?: boolean
+  subTask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["subTaskLabel"]>
+
+export type SubTaskLabelSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  subTaskId?: boolean
+  labelId?: boolean
+  createdAt?: boolean
+  subTask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["subTaskLabel"]>
+
+export type SubTaskLabelSelectScalar = {
+  subTaskId?: boolean
+  labelId?: boolean
+  createdAt?: boolean
+}
+
+export type SubTaskLabelOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"subTaskId" | "labelId" | "createdAt", ExtArgs["result"]["subTaskLabel"]>
+export type SubTaskLabelInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  subTask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}
+export type SubTaskLabelIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  subTask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}
+export type SubTaskLabelIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  subTask?: boolean | Prisma.SubTaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}
+
+export type $SubTaskLabelPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "SubTaskLabel"
+  objects: {
+    subTask: Prisma.$SubTaskPayload<ExtArgs>
+    label: Prisma.$LabelPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    subTaskId: number
+    labelId: number
+    createdAt: Date
+  }, ExtArgs["result"]["subTaskLabel"]>
+  composites: {}
+}
+
+export type SubTaskLabelGetPayload<S extends boolean | null | undefined | SubTaskLabelDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload, S>
+
+export type SubTaskLabelCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<SubTaskLabelFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: SubTaskLabelCountAggregateInputType | true
+  }
+
+export interface SubTaskLabelDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['SubTaskLabel'], meta: { name: 'SubTaskLabel' } }
+  /**
+   * Find zero or one SubTaskLabel that matches the filter.
+   * @param {SubTaskLabelFindUniqueArgs} args - Arguments to find a SubTaskLabel
+   * @example
+   * // Get one SubTaskLabel
+   * const subTaskLabel = await prisma.subTaskLabel.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends SubTaskLabelFindUniqueArgs>(args: Prisma.SelectSubset<T, SubTaskLabelFindUniqueArgs<ExtArgs>>): Prisma.Prisma__SubTaskLabelClient<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one SubTaskLabel that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {SubTaskLabelFindUniqueOrThrowArgs} args - Arguments to find a SubTaskLabel
+   * @example
+   * // Get one SubTaskLabel
+   * const subTaskLabel = await prisma.subTaskLabel.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends SubTaskLabelFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, SubTaskLabelFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__SubTaskLabelClient<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SubTaskLabel that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubTaskLabelFindFirstArgs} args - Arguments to find a SubTaskLabel
+   * @example
+   * // Get one SubTaskLabel
+   * const subTaskLabel = await prisma.subTaskLabel.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends SubTaskLabelFindFirstArgs>(args?: Prisma.SelectSubset<T, SubTaskLabelFindFirstArgs<ExtArgs>>): Prisma.Prisma__SubTaskLabelClient<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first SubTaskLabel that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubTaskLabelFindFirstOrThrowArgs} args - Arguments to find a SubTaskLabel
+   * @example
+   * // Get one SubTaskLabel
+   * const subTaskLabel = await prisma.subTaskLabel.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends SubTaskLabelFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, SubTaskLabelFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__SubTaskLabelClient<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more SubTaskLabels that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubTaskLabelFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all SubTaskLabels
+   * const subTaskLabels = await prisma.subTaskLabel.findMany()
+   * 
+   * // Get first 10 SubTaskLabels
+   * const subTaskLabels = await prisma.subTaskLabel.findMany({ take: 10 })
+   * 
+   * // Only select the `subTaskId`
+   * const subTaskLabelWithSubTaskIdOnly = await prisma.subTaskLabel.findMany({ select: { subTaskId: true } })
+   * 
+   */
+  findMany<T extends SubTaskLabelFindManyArgs>(args?: Prisma.SelectSubset<T, SubTaskLabelFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a SubTaskLabel.
+   * @param {SubTaskLabelCreateArgs} args - Arguments to create a SubTaskLabel.
+   * @example
+   * // Create one SubTaskLabel
+   * const SubTaskLabel = await prisma.subTaskLabel.create({
+   *   data: {
+   *     // ... data to create a SubTaskLabel
+   *   }
+   * })
+   * 
+   */
+  create<T extends SubTaskLabelCreateArgs>(args: Prisma.SelectSubset<T, SubTaskLabelCreateArgs<ExtArgs>>): Prisma.Prisma__SubTaskLabelClient<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many SubTaskLabels.
+   * @param {SubTaskLabelCreateManyArgs} args - Arguments to create many SubTaskLabels.
+   * @example
+   * // Create many SubTaskLabels
+   * const subTaskLabel = await prisma.subTaskLabel.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends SubTaskLabelCreateManyArgs>(args?: Prisma.SelectSubset<T, SubTaskLabelCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many SubTaskLabels and returns the data saved in the database.
+   * @param {SubTaskLabelCreateManyAndReturnArgs} args - Arguments to create many SubTaskLabels.
+   * @example
+   * // Create many SubTaskLabels
+   * const subTaskLabel = await prisma.subTaskLabel.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many SubTaskLabels and only return the `subTaskId`
+   * const subTaskLabelWithSubTaskIdOnly = await prisma.subTaskLabel.createManyAndReturn({
+   *   select: { subTaskId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends SubTaskLabelCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, SubTaskLabelCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a SubTaskLabel.
+   * @param {SubTaskLabelDeleteArgs} args - Arguments to delete one SubTaskLabel.
+   * @example
+   * // Delete one SubTaskLabel
+   * const SubTaskLabel = await prisma.subTaskLabel.delete({
+   *   where: {
+   *     // ... filter to delete one SubTaskLabel
+   *   }
+   * })
+   * 
+   */
+  delete<T extends SubTaskLabelDeleteArgs>(args: Prisma.SelectSubset<T, SubTaskLabelDeleteArgs<ExtArgs>>): Prisma.Prisma__SubTaskLabelClient<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one SubTaskLabel.
+   * @param {SubTaskLabelUpdateArgs} args - Arguments to update one SubTaskLabel.
+   * @example
+   * // Update one SubTaskLabel
+   * const subTaskLabel = await prisma.subTaskLabel.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends SubTaskLabelUpdateArgs>(args: Prisma.SelectSubset<T, SubTaskLabelUpdateArgs<ExtArgs>>): Prisma.Prisma__SubTaskLabelClient<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more SubTaskLabels.
+   * @param {SubTaskLabelDeleteManyArgs} args - Arguments to filter SubTaskLabels to delete.
+   * @example
+   * // Delete a few SubTaskLabels
+   * const { count } = await prisma.subTaskLabel.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends SubTaskLabelDeleteManyArgs>(args?: Prisma.SelectSubset<T, SubTaskLabelDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SubTaskLabels.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubTaskLabelUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many SubTaskLabels
+   * const subTaskLabel = await prisma.subTaskLabel.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends SubTaskLabelUpdateManyArgs>(args: Prisma.SelectSubset<T, SubTaskLabelUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more SubTaskLabels and returns the data updated in the database.
+   * @param {SubTaskLabelUpdateManyAndReturnArgs} args - Arguments to update many SubTaskLabels.
+   * @example
+   * // Update many SubTaskLabels
+   * const subTaskLabel = await prisma.subTaskLabel.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more SubTaskLabels and only return the `subTaskId`
+   * const subTaskLabelWithSubTaskIdOnly = await prisma.subTaskLabel.updateManyAndReturn({
+   *   select: { subTaskId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends SubTaskLabelUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, SubTaskLabelUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one SubTaskLabel.
+   * @param {SubTaskLabelUpsertArgs} args - Arguments to update or create a SubTaskLabel.
+   * @example
+   * // Update or create a SubTaskLabel
+   * const subTaskLabel = await prisma.subTaskLabel.upsert({
+   *   create: {
+   *     // ... data to create a SubTaskLabel
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the SubTaskLabel we want to update
+   *   }
+   * })
+   */
+  upsert<T extends SubTaskLabelUpsertArgs>(args: Prisma.SelectSubset<T, SubTaskLabelUpsertArgs<ExtArgs>>): Prisma.Prisma__SubTaskLabelClient<runtime.Types.Result.GetResult<Prisma.$SubTaskLabelPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of SubTaskLabels.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubTaskLabelCountArgs} args - Arguments to filter SubTaskLabels to count.
+   * @example
+   * // Count the number of SubTaskLabels
+   * const count = await prisma.subTaskLabel.count({
+   *   where: {
+   *     // ... the filter for the SubTaskLabels we want to count
+   *   }
+   * })
+  **/
+  count<T extends SubTaskLabelCountArgs>(
+    args?: Prisma.Subset<T, SubTaskLabelCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], SubTaskLabelCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a SubTaskLabel.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubTaskLabelAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends SubTaskLabelAggregateArgs>(args: Prisma.Subset<T, SubTaskLabelAggregateArgs>): Prisma.PrismaPromise<GetSubTaskLabelAggregateType<T>>
+
+  /**
+   * Group by SubTaskLabel.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {SubTaskLabelGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends SubTaskLabelGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: SubTaskLabelGroupByArgs['orderBy'] }
+      : { orderBy?: SubTaskLabelGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, SubTaskLabelGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetSubTaskLabelGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the SubTaskLabel model
+ */
+readonly fields: SubTaskLabelFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for SubTaskLabel.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__SubTaskLabelClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  subTask<T extends Prisma.SubTaskDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.SubTaskDefaultArgs<ExtArgs>>): Prisma.Prisma__SubTaskClient<runtime.Types.Result.GetResult<Prisma.$SubTaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  label<T extends Prisma.LabelDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.LabelDefaultArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the SubTaskLabel model
+ */
+export interface SubTaskLabelFieldRefs {
+  readonly subTaskId: Prisma.FieldRef<"SubTaskLabel", 'Int'>
+  readonly labelId: Prisma.FieldRef<"SubTaskLabel", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"SubTaskLabel", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * SubTaskLabel findUnique
+ */
+export type SubTaskLabelFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which SubTaskLabel to fetch.
+   */
+  where: Prisma.SubTaskLabelWhereUniqueInput
+}
+
+/**
+ * SubTaskLabel findUniqueOrThrow
+ */
+export type SubTaskLabelFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which SubTaskLabel to fetch.
+   */
+  where: Prisma.SubTaskLabelWhereUniqueInput
+}
+
+/**
+ * SubTaskLabel findFirst
+ */
+export type SubTaskLabelFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which SubTaskLabel to fetch.
+   */
+  where?: Prisma.SubTaskLabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SubTaskLabels to fetch.
+   */
+  orderBy?: Prisma.SubTaskLabelOrderByWithRelationInput | Prisma.SubTaskLabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SubTaskLabels.
+   */
+  cursor?: Prisma.SubTaskLabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SubTaskLabels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SubTaskLabels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SubTaskLabels.
+   */
+  distinct?: Prisma.SubTaskLabelScalarFieldEnum | Prisma.SubTaskLabelScalarFieldEnum[]
+}
+
+/**
+ * SubTaskLabel findFirstOrThrow
+ */
+export type SubTaskLabelFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which SubTaskLabel to fetch.
+   */
+  where?: Prisma.SubTaskLabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SubTaskLabels to fetch.
+   */
+  orderBy?: Prisma.SubTaskLabelOrderByWithRelationInput | Prisma.SubTaskLabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for SubTaskLabels.
+   */
+  cursor?: Prisma.SubTaskLabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SubTaskLabels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SubTaskLabels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of SubTaskLabels.
+   */
+  distinct?: Prisma.SubTaskLabelScalarFieldEnum | Prisma.SubTaskLabelScalarFieldEnum[]
+}
+
+/**
+ * SubTaskLabel findMany
+ */
+export type SubTaskLabelFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which SubTaskLabels to fetch.
+   */
+  where?: Prisma.SubTaskLabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of SubTaskLabels to fetch.
+   */
+  orderBy?: Prisma.SubTaskLabelOrderByWithRelationInput | Prisma.SubTaskLabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing SubTaskLabels.
+   */
+  cursor?: Prisma.SubTaskLabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` SubTaskLabels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` SubTaskLabels.
+   */
+  skip?: number
+  distinct?: Prisma.SubTaskLabelScalarFieldEnum | Prisma.SubTaskLabelScalarFieldEnum[]
+}
+
+/**
+ * SubTaskLabel create
+ */
+export type SubTaskLabelCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * The data needed to create a SubTaskLabel.
+   */
+  data: Prisma.XOR<Prisma.SubTaskLabelCreateInput, Prisma.SubTaskLabelUncheckedCreateInput>
+}
+
+/**
+ * SubTaskLabel createMany
+ */
+export type SubTaskLabelCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many SubTaskLabels.
+   */
+  data: Prisma.SubTaskLabelCreateManyInput | Prisma.SubTaskLabelCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * SubTaskLabel createManyAndReturn
+ */
+export type SubTaskLabelCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * The data used to create many SubTaskLabels.
+   */
+  data: Prisma.SubTaskLabelCreateManyInput | Prisma.SubTaskLabelCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SubTaskLabel update
+ */
+export type SubTaskLabelUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * The data needed to update a SubTaskLabel.
+   */
+  data: Prisma.XOR<Prisma.SubTaskLabelUpdateInput, Prisma.SubTaskLabelUncheckedUpdateInput>
+  /**
+   * Choose, which SubTaskLabel to update.
+   */
+  where: Prisma.SubTaskLabelWhereUniqueInput
+}
+
+/**
+ * SubTaskLabel updateMany
+ */
+export type SubTaskLabelUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update SubTaskLabels.
+   */
+  data: Prisma.XOR<Prisma.SubTaskLabelUpdateManyMutationInput, Prisma.SubTaskLabelUncheckedUpdateManyInput>
+  /**
+   * Filter which SubTaskLabels to update
+   */
+  where?: Prisma.SubTaskLabelWhereInput
+  /**
+   * Limit how many SubTaskLabels to update.
+   */
+  limit?: number
+}
+
+/**
+ * SubTaskLabel updateManyAndReturn
+ */
+export type SubTaskLabelUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * The data used to update SubTaskLabels.
+   */
+  data: Prisma.XOR<Prisma.SubTaskLabelUpdateManyMutationInput, Prisma.SubTaskLabelUncheckedUpdateManyInput>
+  /**
+   * Filter which SubTaskLabels to update
+   */
+  where?: Prisma.SubTaskLabelWhereInput
+  /**
+   * Limit how many SubTaskLabels to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * SubTaskLabel upsert
+ */
+export type SubTaskLabelUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * The filter to search for the SubTaskLabel to update in case it exists.
+   */
+  where: Prisma.SubTaskLabelWhereUniqueInput
+  /**
+   * In case the SubTaskLabel found by the `where` argument doesn't exist, create a new SubTaskLabel with this data.
+   */
+  create: Prisma.XOR<Prisma.SubTaskLabelCreateInput, Prisma.SubTaskLabelUncheckedCreateInput>
+  /**
+   * In case the SubTaskLabel was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.SubTaskLabelUpdateInput, Prisma.SubTaskLabelUncheckedUpdateInput>
+}
+
+/**
+ * SubTaskLabel delete
+ */
+export type SubTaskLabelDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter which SubTaskLabel to delete.
+   */
+  where: Prisma.SubTaskLabelWhereUniqueInput
+}
+
+/**
+ * SubTaskLabel deleteMany
+ */
+export type SubTaskLabelDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which SubTaskLabels to delete
+   */
+  where?: Prisma.SubTaskLabelWhereInput
+  /**
+   * Limit how many SubTaskLabels to delete.
+   */
+  limit?: number
+}
+
+/**
+ * SubTaskLabel without action
+ */
+export type SubTaskLabelDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTaskLabel
+   */
+  select?: Prisma.SubTaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTaskLabel
+   */
+  omit?: Prisma.SubTaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskLabelInclude<ExtArgs> | null
+}
@@ -32,6 +32,8 @@ export type TaskAvgAggregateOutputType = {
   groupId: number | null
   priority: number | null
   closedById: number | null
+  recurrenceId: number | null
+  recurrenceIndex: number | null
 }
 
 export type TaskSumAggregateOutputType = {
@@ -40,6 +42,8 @@ export type TaskSumAggregateOutputType = {
   groupId: number | null
   priority: number | null
   closedById: number | null
+  recurrenceId: number | null
+  recurrenceIndex: number | null
 }
 
 export type TaskMinAggregateOutputType = {
@@ -55,13 +59,18 @@ export type TaskMinAggregateOutputType = {
   allDay: boolean | null
   allDayLocalDate: Date | null
   sourceTimeZone: string | null
+  icalUid: string | null
   createdAt: Date | null
   updatedAt: Date | null
   completionPolicy: $Enums.CompletionPolicy | null
+  autoCloseOnComplete: boolean | null
   closedAt: Date | null
   closedById: number | null
   closedReason: string | null
   closedWithOpenAssignees: boolean | null
+  recurrenceId: number | null
+  recurrenceIndex: number | null
+  occurrenceDate: Date | null
 }
 
 export type TaskMaxAggregateOutputType = {
@@ -77,13 +86,18 @@ export type TaskMaxAggregateOutputType = {
   allDay: boolean | null
   allDayLocalDate: Date | null
   sourceTimeZone: string | null
+  icalUid: string | null
   createdAt: Date | null
   updatedAt: Date | null
   completionPolicy: $Enums.CompletionPolicy | null
+  autoCloseOnComplete: boolean | null
   closedAt: Date | null
   closedById: number | null
   closedReason: string | null
   closedWithOpenAssignees: boolean | null
+  recurrenceId: number | null
+  recurrenceIndex: number | null
+  occurrenceDate: Date | null
 }
 
 export type TaskCountAggregateOutputType = {
@@ -99,13 +113,18 @@ export type TaskCountAggregateOutputType = {
   allDay: number
   allDayLocalDate: number
   sourceTimeZone: number
+  icalUid: number
   createdAt: number
   updatedAt: number
   completionPolicy: number
+  autoCloseOnComplete: number
   closedAt: number
   closedById: number
   closedReason: number
   closedWithOpenAssignees: number
+  recurrenceId: number
+  recurrenceIndex: number
+  occurrenceDate: number
   _all: number
 }
 
@@ -116,6 +135,8 @@ export type TaskAvgAggregateInputType = {
   groupId?: true
   priority?: true
   closedById?: true
+  recurrenceId?: true
+  recurrenceIndex?: true
 }
 
 export type TaskSumAggregateInputType = {
@@ -124,6 +145,8 @@ export type TaskSumAggregateInputType = {
   groupId?: true
   priority?: true
   closedById?: true
+  recurrenceId?: true
+  recurrenceIndex?: true
 }
 
 export type TaskMinAggregateInputType = {
@@ -139,13 +162,18 @@ export type TaskMinAggregateInputType = {
   allDay?: true
   allDayLocalDate?: true
   sourceTimeZone?: true
+  icalUid?: true
   createdAt?: true
   updatedAt?: true
   completionPolicy?: true
+  autoCloseOnComplete?: true
   closedAt?: true
   closedById?: true
   closedReason?: true
   closedWithOpenAssignees?: true
+  recurrenceId?: true
+  recurrenceIndex?: true
+  occurrenceDate?: true
 }
 
 export type TaskMaxAggregateInputType = {
@@ -161,13 +189,18 @@ export type TaskMaxAggregateInputType = {
   allDay?: true
   allDayLocalDate?: true
   sourceTimeZone?: true
+  icalUid?: true
   createdAt?: true
   updatedAt?: true
   completionPolicy?: true
+  autoCloseOnComplete?: true
   closedAt?: true
   closedById?: true
   closedReason?: true
   closedWithOpenAssignees?: true
+  recurrenceId?: true
+  recurrenceIndex?: true
+  occurrenceDate?: true
 }
 
 export type TaskCountAggregateInputType = {
@@ -183,13 +216,18 @@ export type TaskCountAggregateInputType = {
   allDay?: true
   allDayLocalDate?: true
   sourceTimeZone?: true
+  icalUid?: true
   createdAt?: true
   updatedAt?: true
   completionPolicy?: true
+  autoCloseOnComplete?: true
   closedAt?: true
   closedById?: true
   closedReason?: true
   closedWithOpenAssignees?: true
+  recurrenceId?: true
+  recurrenceIndex?: true
+  occurrenceDate?: true
   _all?: true
 }
 
@@ -292,13 +330,18 @@ export type TaskGroupByOutputType = {
   allDay: boolean
   allDayLocalDate: Date | null
   sourceTimeZone: string | null
+  icalUid: string | null
   createdAt: Date
   updatedAt: Date
   completionPolicy: $Enums.CompletionPolicy
+  autoCloseOnComplete: boolean
   closedAt: Date | null
   closedById: number | null
   closedReason: string | null
   closedWithOpenAssignees: boolean
+  recurrenceId: number | null
+  recurrenceIndex: number | null
+  occurrenceDate: Date | null
   _count: TaskCountAggregateOutputType | null
   _avg: TaskAvgAggregateOutputType | null
   _sum: TaskSumAggregateOutputType | null
@@ -337,18 +380,31 @@ export type TaskWhereInput = {
   allDay?: Prisma.BoolFilter<"Task"> | boolean
   allDayLocalDate?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
   sourceTimeZone?: Prisma.StringNullableFilter<"Task"> | string | null
+  icalUid?: Prisma.StringNullableFilter<"Task"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Task"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Task"> | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFilter<"Task"> | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFilter<"Task"> | boolean
   closedAt?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
   closedById?: Prisma.IntNullableFilter<"Task"> | number | null
   closedReason?: Prisma.StringNullableFilter<"Task"> | string | null
   closedWithOpenAssignees?: Prisma.BoolFilter<"Task"> | boolean
+  recurrenceId?: Prisma.IntNullableFilter<"Task"> | number | null
+  recurrenceIndex?: Prisma.IntNullableFilter<"Task"> | number | null
+  occurrenceDate?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
   owner?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   group?: Prisma.XOR<Prisma.GroupNullableScalarRelationFilter, Prisma.GroupWhereInput> | null
   subTasks?: Prisma.SubTaskListRelationFilter
   assignees?: Prisma.TaskAssigneeListRelationFilter
   closedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  recurrence?: Prisma.XOR<Prisma.TaskRecurrenceNullableScalarRelationFilter, Prisma.TaskRecurrenceWhereInput> | null
+  blockedBy?: Prisma.TaskDependencyListRelationFilter
+  blocking?: Prisma.TaskDependencyListRelationFilter
+  comments?: Prisma.TaskCommentListRelationFilter
+  mentions?: Prisma.TaskMentionListRelationFilter
+  activities?: Prisma.TaskActivityListRelationFilter
+  labels?: Prisma.TaskLabelListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
 }
 
 export type TaskOrderByWithRelationInput = {
@@ -364,22 +420,36 @@ export type TaskOrderByWithRelationInput = {
   allDay?: Prisma.SortOrder
   allDayLocalDate?: Prisma.SortOrderInput | Prisma.SortOrder
   sourceTimeZone?: Prisma.SortOrderInput | Prisma.SortOrder
+  icalUid?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   completionPolicy?: Prisma.SortOrder
+  autoCloseOnComplete?: Prisma.SortOrder
   closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   closedById?: Prisma.SortOrderInput | Prisma.SortOrder
   closedReason?: Prisma.SortOrderInput | Prisma.SortOrder
   closedWithOpenAssignees?: Prisma.SortOrder
+  recurrenceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  recurrenceIndex?: Prisma.SortOrderInput | Prisma.SortOrder
+  occurrenceDate?: Prisma.SortOrderInput | Prisma.SortOrder
   owner?: Prisma.UserOrderByWithRelationInput
   group?: Prisma.GroupOrderByWithRelationInput
   subTasks?: Prisma.SubTaskOrderByRelationAggregateInput
   assignees?: Prisma.TaskAssigneeOrderByRelationAggregateInput
   closedBy?: Prisma.UserOrderByWithRelationInput
+  recurrence?: Prisma.TaskRecurrenceOrderByWithRelationInput
+  blockedBy?: Prisma.TaskDependencyOrderByRelationAggregateInput
+  blocking?: Prisma.TaskDependencyOrderByRelationAggregateInput
+  comments?: Prisma.TaskCommentOrderByRelationAggregateInput
+  mentions?: Prisma.TaskMentionOrderByRelationAggregateInput
+  activities?: Prisma.TaskActivityOrderByRelationAggregateInput
+  labels?: Prisma.TaskLabelOrderByRelationAggregateInput
+  notifications?: Prisma.NotificationOrderByRelationAggregateInput
 }
 
 export type TaskWhereUniqueInput = Prisma.AtLeast<{
   id?: number
+  recurrenceId_recurrenceIndex?: Prisma.TaskRecurrenceIdRecurrenceIndexCompoundUniqueInput
   AND?: Prisma.TaskWhereInput | Prisma.TaskWhereInput[]
   OR?: Prisma.TaskWhereInput[]
   NOT?: Prisma.TaskWhereInput | Prisma.TaskWhereInput[]
@@ -394,19 +464,32 @@ export type TaskWhereUniqueInput = Prisma.AtLeast<{
   allDay?: Prisma.BoolFilter<"Task"> | boolean
   allDayLocalDate?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
   sourceTimeZone?: Prisma.StringNullableFilter<"Task"> | string | null
+  icalUid?: Prisma.StringNullableFilter<"Task"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Task"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Task"> | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFilter<"Task"> | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFilter<"Task"> | boolean
   closedAt?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
   closedById?: Prisma.IntNullableFilter<"Task"> | number | null
   closedReason?: Prisma.StringNullableFilter<"Task"> | string | null
   closedWithOpenAssignees?: Prisma.BoolFilter<"Task"> | boolean
+  recurrenceId?: Prisma.IntNullableFilter<"Task"> | number | null
+  recurrenceIndex?: Prisma.IntNullableFilter<"Task"> | number | null
+  occurrenceDate?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
   owner?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   group?: Prisma.XOR<Prisma.GroupNullableScalarRelationFilter, Prisma.GroupWhereInput> | null
   subTasks?: Prisma.SubTaskListRelationFilter
   assignees?: Prisma.TaskAssigneeListRelationFilter
   closedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
-}, "id">
+  recurrence?: Prisma.XOR<Prisma.TaskRecurrenceNullableScalarRelationFilter, Prisma.TaskRecurrenceWhereInput> | null
+  blockedBy?: Prisma.TaskDependencyListRelationFilter
+  blocking?: Prisma.TaskDependencyListRelationFilter
+  comments?: Prisma.TaskCommentListRelationFilter
+  mentions?: Prisma.TaskMentionListRelationFilter
+  activities?: Prisma.TaskActivityListRelationFilter
+  labels?: Prisma.TaskLabelListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
+}, "id" | "recurrenceId_recurrenceIndex">
 
 export type TaskOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -421,13 +504,18 @@ export type TaskOrderByWithAggregationInput = {
   allDay?: Prisma.SortOrder
   allDayLocalDate?: Prisma.SortOrderInput | Prisma.SortOrder
   sourceTimeZone?: Prisma.SortOrderInput | Prisma.SortOrder
+  icalUid?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   completionPolicy?: Prisma.SortOrder
+  autoCloseOnComplete?: Prisma.SortOrder
   closedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   closedById?: Prisma.SortOrderInput | Prisma.SortOrder
   closedReason?: Prisma.SortOrderInput | Prisma.SortOrder
   closedWithOpenAssignees?: Prisma.SortOrder
+  recurrenceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  recurrenceIndex?: Prisma.SortOrderInput | Prisma.SortOrder
+  occurrenceDate?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.TaskCountOrderByAggregateInput
   _avg?: Prisma.TaskAvgOrderByAggregateInput
   _max?: Prisma.TaskMaxOrderByAggregateInput
@@ -451,13 +539,18 @@ export type TaskScalarWhereWithAggregatesInput = {
   allDay?: Prisma.BoolWithAggregatesFilter<"Task"> | boolean
   allDayLocalDate?: Prisma.DateTimeNullableWithAggregatesFilter<"Task"> | Date | string | null
   sourceTimeZone?: Prisma.StringNullableWithAggregatesFilter<"Task"> | string | null
+  icalUid?: Prisma.StringNullableWithAggregatesFilter<"Task"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Task"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Task"> | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyWithAggregatesFilter<"Task"> | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolWithAggregatesFilter<"Task"> | boolean
   closedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Task"> | Date | string | null
   closedById?: Prisma.IntNullableWithAggregatesFilter<"Task"> | number | null
   closedReason?: Prisma.StringNullableWithAggregatesFilter<"Task"> | string | null
   closedWithOpenAssignees?: Prisma.BoolWithAggregatesFilter<"Task"> | boolean
+  recurrenceId?: Prisma.IntNullableWithAggregatesFilter<"Task"> | number | null
+  recurrenceIndex?: Prisma.IntNullableWithAggregatesFilter<"Task"> | number | null
+  occurrenceDate?: Prisma.DateTimeNullableWithAggregatesFilter<"Task"> | Date | string | null
 }
 
 export type TaskCreateInput = {
@@ -470,17 +563,29 @@ export type TaskCreateInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   owner: Prisma.UserCreateNestedOneWithoutTaskInput
   group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
   subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
   closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
 }
 
 export type TaskUncheckedCreateInput = {
@@ -496,15 +601,27 @@ export type TaskUncheckedCreateInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedById?: number | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
 }
 
 export type TaskUpdateInput = {
@@ -517,17 +634,29 @@ export type TaskUpdateInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
   group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
   subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
   closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskUncheckedUpdateInput = {
@@ -543,15 +672,27 @@ export type TaskUncheckedUpdateInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskCreateManyInput = {
@@ -567,13 +708,18 @@ export type TaskCreateManyInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedById?: number | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
 }
 
 export type TaskUpdateManyMutationInput = {
@@ -586,12 +732,16 @@ export type TaskUpdateManyMutationInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type TaskUncheckedUpdateManyInput = {
@@ -607,13 +757,18 @@ export type TaskUncheckedUpdateManyInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type TaskListRelationFilter = {
@@ -626,6 +781,16 @@ export type TaskOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type TaskNullableScalarRelationFilter = {
+  is?: Prisma.TaskWhereInput | null
+  isNot?: Prisma.TaskWhereInput | null
+}
+
+export type TaskRecurrenceIdRecurrenceIndexCompoundUniqueInput = {
+  recurrenceId: number
+  recurrenceIndex: number
+}
+
 export type TaskCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   ownerId?: Prisma.SortOrder
@@ -639,13 +804,18 @@ export type TaskCountOrderByAggregateInput = {
   allDay?: Prisma.SortOrder
   allDayLocalDate?: Prisma.SortOrder
   sourceTimeZone?: Prisma.SortOrder
+  icalUid?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   completionPolicy?: Prisma.SortOrder
+  autoCloseOnComplete?: Prisma.SortOrder
   closedAt?: Prisma.SortOrder
   closedById?: Prisma.SortOrder
   closedReason?: Prisma.SortOrder
   closedWithOpenAssignees?: Prisma.SortOrder
+  recurrenceId?: Prisma.SortOrder
+  recurrenceIndex?: Prisma.SortOrder
+  occurrenceDate?: Prisma.SortOrder
 }
 
 export type TaskAvgOrderByAggregateInput = {
@@ -654,6 +824,8 @@ export type TaskAvgOrderByAggregateInput = {
   groupId?: Prisma.SortOrder
   priority?: Prisma.SortOrder
   closedById?: Prisma.SortOrder
+  recurrenceId?: Prisma.SortOrder
+  recurrenceIndex?: Prisma.SortOrder
 }
 
 export type TaskMaxOrderByAggregateInput = {
@@ -669,13 +841,18 @@ export type TaskMaxOrderByAggregateInput = {
   allDay?: Prisma.SortOrder
   allDayLocalDate?: Prisma.SortOrder
   sourceTimeZone?: Prisma.SortOrder
+  icalUid?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   completionPolicy?: Prisma.SortOrder
+  autoCloseOnComplete?: Prisma.SortOrder
   closedAt?: Prisma.SortOrder
   closedById?: Prisma.SortOrder
   closedReason?: Prisma.SortOrder
   closedWithOpenAssignees?: Prisma.SortOrder
+  recurrenceId?: Prisma.SortOrder
+  recurrenceIndex?: Prisma.SortOrder
+  occurrenceDate?: Prisma.SortOrder
 }
 
 export type TaskMinOrderByAggregateInput = {
@@ -691,13 +868,18 @@ export type TaskMinOrderByAggregateInput = {
   allDay?: Prisma.SortOrder
   allDayLocalDate?: Prisma.SortOrder
   sourceTimeZone?: Prisma.SortOrder
+  icalUid?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   completionPolicy?: Prisma.SortOrder
+  autoCloseOnComplete?: Prisma.SortOrder
   closedAt?: Prisma.SortOrder
   closedById?: Prisma.SortOrder
   closedReason?: Prisma.SortOrder
   closedWithOpenAssignees?: Prisma.SortOrder
+  recurrenceId?: Prisma.SortOrder
+  recurrenceIndex?: Prisma.SortOrder
+  occurrenceDate?: Prisma.SortOrder
 }
 
 export type TaskSumOrderByAggregateInput = {
@@ -706,6 +888,8 @@ export type TaskSumOrderByAggregateInput = {
   groupId?: Prisma.SortOrder
   priority?: Prisma.SortOrder
   closedById?: Prisma.SortOrder
+  recurrenceId?: Prisma.SortOrder
+  recurrenceIndex?: Prisma.SortOrder
 }
 
 export type TaskScalarRelationFilter = {
@@ -755,18 +939,100 @@ export type TaskUncheckedUpdateManyWithoutGroupNestedInput = {
   deleteMany?: Prisma.TaskScalarWhereInput | Prisma.TaskScalarWhereInput[]
 }
 
-export type EnumStatusFieldUpdateOperationsInput = {
-  set?: $Enums.Status
+export type TaskCreateNestedOneWithoutNotificationsInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutNotificationsInput, Prisma.TaskUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutNotificationsInput
+  connect?: Prisma.TaskWhereUniqueInput
+}
+
+export type TaskUpdateOneWithoutNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutNotificationsInput, Prisma.TaskUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutNotificationsInput
+  upsert?: Prisma.TaskUpsertWithoutNotificationsInput
+  disconnect?: Prisma.TaskWhereInput | boolean
+  delete?: Prisma.TaskWhereInput | boolean
+  connect?: Prisma.TaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskUpdateToOneWithWhereWithoutNotificationsInput, Prisma.TaskUpdateWithoutNotificationsInput>, Prisma.TaskUncheckedUpdateWithoutNotificationsInput>
 }
 
-export type BoolFieldUpdateOperationsInput = {
-  set?: boolean
+export type EnumStatusFieldUpdateOperationsInput = {
+  set?: $Enums.Status
 }
 
 export type EnumCompletionPolicyFieldUpdateOperationsInput = {
   set?: $Enums.CompletionPolicy
 }
 
+export type TaskCreateNestedOneWithoutBlockedByInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutBlockedByInput, Prisma.TaskUncheckedCreateWithoutBlockedByInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutBlockedByInput
+  connect?: Prisma.TaskWhereUniqueInput
+}
+
+export type TaskCreateNestedOneWithoutBlockingInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutBlockingInput, Prisma.TaskUncheckedCreateWithoutBlockingInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutBlockingInput
+  connect?: Prisma.TaskWhereUniqueInput
+}
+
+export type TaskUpdateOneRequiredWithoutBlockedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutBlockedByInput, Prisma.TaskUncheckedCreateWithoutBlockedByInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutBlockedByInput
+  upsert?: Prisma.TaskUpsertWithoutBlockedByInput
+  connect?: Prisma.TaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskUpdateToOneWithWhereWithoutBlockedByInput, Prisma.TaskUpdateWithoutBlockedByInput>, Prisma.TaskUncheckedUpdateWithoutBlockedByInput>
+}
+
+export type TaskUpdateOneRequiredWithoutBlockingNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutBlockingInput, Prisma.TaskUncheckedCreateWithoutBlockingInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutBlockingInput
+  upsert?: Prisma.TaskUpsertWithoutBlockingInput
+  connect?: Prisma.TaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskUpdateToOneWithWhereWithoutBlockingInput, Prisma.TaskUpdateWithoutBlockingInput>, Prisma.TaskUncheckedUpdateWithoutBlockingInput>
+}
+
+export type TaskCreateNestedOneWithoutCommentsInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutCommentsInput, Prisma.TaskUncheckedCreateWithoutCommentsInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutCommentsInput
+  connect?: Prisma.TaskWhereUniqueInput
+}
+
+export type TaskUpdateOneRequiredWithoutCommentsNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutCommentsInput, Prisma.TaskUncheckedCreateWithoutCommentsInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutCommentsInput
+  upsert?: Prisma.TaskUpsertWithoutCommentsInput
+  connect?: Prisma.TaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskUpdateToOneWithWhereWithoutCommentsInput, Prisma.TaskUpdateWithoutCommentsInput>, Prisma.TaskUncheckedUpdateWithoutCommentsInput>
+}
+
+export type TaskCreateNestedOneWithoutMentionsInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutMentionsInput, Prisma.TaskUncheckedCreateWithoutMentionsInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutMentionsInput
+  connect?: Prisma.TaskWhereUniqueInput
+}
+
+export type TaskUpdateOneRequiredWithoutMentionsNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutMentionsInput, Prisma.TaskUncheckedCreateWithoutMentionsInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutMentionsInput
+  upsert?: Prisma.TaskUpsertWithoutMentionsInput
+  connect?: Prisma.TaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskUpdateToOneWithWhereWithoutMentionsInput, Prisma.TaskUpdateWithoutMentionsInput>, Prisma.TaskUncheckedUpdateWithoutMentionsInput>
+}
+
+export type TaskCreateNestedOneWithoutActivitiesInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutActivitiesInput, Prisma.TaskUncheckedCreateWithoutActivitiesInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutActivitiesInput
+  connect?: Prisma.TaskWhereUniqueInput
+}
+
+export type TaskUpdateOneRequiredWithoutActivitiesNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutActivitiesInput, Prisma.TaskUncheckedCreateWithoutActivitiesInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutActivitiesInput
+  upsert?: Prisma.TaskUpsertWithoutActivitiesInput
+  connect?: Prisma.TaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskUpdateToOneWithWhereWithoutActivitiesInput, Prisma.TaskUpdateWithoutActivitiesInput>, Prisma.TaskUncheckedUpdateWithoutActivitiesInput>
+}
+
 export type TaskCreateNestedOneWithoutAssigneesInput = {
   create?: Prisma.XOR<Prisma.TaskCreateWithoutAssigneesInput, Prisma.TaskUncheckedCreateWithoutAssigneesInput>
   connectOrCreate?: Prisma.TaskCreateOrConnectWithoutAssigneesInput
@@ -795,6 +1061,62 @@ export type TaskUpdateOneRequiredWithoutSubTasksNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.TaskUpdateToOneWithWhereWithoutSubTasksInput, Prisma.TaskUpdateWithoutSubTasksInput>, Prisma.TaskUncheckedUpdateWithoutSubTasksInput>
 }
 
+export type TaskCreateNestedManyWithoutRecurrenceInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutRecurrenceInput, Prisma.TaskUncheckedCreateWithoutRecurrenceInput> | Prisma.TaskCreateWithoutRecurrenceInput[] | Prisma.TaskUncheckedCreateWithoutRecurrenceInput[]
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutRecurrenceInput | Prisma.TaskCreateOrConnectWithoutRecurrenceInput[]
+  createMany?: Prisma.TaskCreateManyRecurrenceInputEnvelope
+  connect?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+}
+
+export type TaskUncheckedCreateNestedManyWithoutRecurrenceInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutRecurrenceInput, Prisma.TaskUncheckedCreateWithoutRecurrenceInput> | Prisma.TaskCreateWithoutRecurrenceInput[] | Prisma.TaskUncheckedCreateWithoutRecurrenceInput[]
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutRecurrenceInput | Prisma.TaskCreateOrConnectWithoutRecurrenceInput[]
+  createMany?: Prisma.TaskCreateManyRecurrenceInputEnvelope
+  connect?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+}
+
+export type TaskUpdateManyWithoutRecurrenceNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutRecurrenceInput, Prisma.TaskUncheckedCreateWithoutRecurrenceInput> | Prisma.TaskCreateWithoutRecurrenceInput[] | Prisma.TaskUncheckedCreateWithoutRecurrenceInput[]
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutRecurrenceInput | Prisma.TaskCreateOrConnectWithoutRecurrenceInput[]
+  upsert?: Prisma.TaskUpsertWithWhereUniqueWithoutRecurrenceInput | Prisma.TaskUpsertWithWhereUniqueWithoutRecurrenceInput[]
+  createMany?: Prisma.TaskCreateManyRecurrenceInputEnvelope
+  set?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+  disconnect?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+  delete?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+  connect?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+  update?: Prisma.TaskUpdateWithWhereUniqueWithoutRecurrenceInput | Prisma.TaskUpdateWithWhereUniqueWithoutRecurrenceInput[]
+  updateMany?: Prisma.TaskUpdateManyWithWhereWithoutRecurrenceInput | Prisma.TaskUpdateManyWithWhereWithoutRecurrenceInput[]
+  deleteMany?: Prisma.TaskScalarWhereInput | Prisma.TaskScalarWhereInput[]
+}
+
+export type TaskUncheckedUpdateManyWithoutRecurrenceNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutRecurrenceInput, Prisma.TaskUncheckedCreateWithoutRecurrenceInput> | Prisma.TaskCreateWithoutRecurrenceInput[] | Prisma.TaskUncheckedCreateWithoutRecurrenceInput[]
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutRecurrenceInput | Prisma.TaskCreateOrConnectWithoutRecurrenceInput[]
+  upsert?: Prisma.TaskUpsertWithWhereUniqueWithoutRecurrenceInput | Prisma.TaskUpsertWithWhereUniqueWithoutRecurrenceInput[]
+  createMany?: Prisma.TaskCreateManyRecurrenceInputEnvelope
+  set?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+  disconnect?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+  delete?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+  connect?: Prisma.TaskWhereUniqueInput | Prisma.TaskWhereUniqueInput[]
+  update?: Prisma.TaskUpdateWithWhereUniqueWithoutRecurrenceInput | Prisma.TaskUpdateWithWhereUniqueWithoutRecurrenceInput[]
+  updateMany?: Prisma.TaskUpdateManyWithWhereWithoutRecurrenceInput | Prisma.TaskUpdateManyWithWhereWithoutRecurrenceInput[]
+  deleteMany?: Prisma.TaskScalarWhereInput | Prisma.TaskScalarWhereInput[]
+}
+
+export type TaskCreateNestedOneWithoutLabelsInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutLabelsInput, Prisma.TaskUncheckedCreateWithoutLabelsInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutLabelsInput
+  connect?: Prisma.TaskWhereUniqueInput
+}
+
+export type TaskUpdateOneRequiredWithoutLabelsNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCreateWithoutLabelsInput, Prisma.TaskUncheckedCreateWithoutLabelsInput>
+  connectOrCreate?: Prisma.TaskCreateOrConnectWithoutLabelsInput
+  upsert?: Prisma.TaskUpsertWithoutLabelsInput
+  connect?: Prisma.TaskWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskUpdateToOneWithWhereWithoutLabelsInput, Prisma.TaskUpdateWithoutLabelsInput>, Prisma.TaskUncheckedUpdateWithoutLabelsInput>
+}
+
 export type TaskCreateNestedManyWithoutOwnerInput = {
   create?: Prisma.XOR<Prisma.TaskCreateWithoutOwnerInput, Prisma.TaskUncheckedCreateWithoutOwnerInput> | Prisma.TaskCreateWithoutOwnerInput[] | Prisma.TaskUncheckedCreateWithoutOwnerInput[]
   connectOrCreate?: Prisma.TaskCreateOrConnectWithoutOwnerInput | Prisma.TaskCreateOrConnectWithoutOwnerInput[]
@@ -889,16 +1211,28 @@ export type TaskCreateWithoutGroupInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   owner: Prisma.UserCreateNestedOneWithoutTaskInput
   subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
   closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
 }
 
 export type TaskUncheckedCreateWithoutGroupInput = {
@@ -913,15 +1247,27 @@ export type TaskUncheckedCreateWithoutGroupInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedById?: number | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
 }
 
 export type TaskCreateOrConnectWithoutGroupInput = {
@@ -966,16 +1312,21 @@ export type TaskScalarWhereInput = {
   allDay?: Prisma.BoolFilter<"Task"> | boolean
   allDayLocalDate?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
   sourceTimeZone?: Prisma.StringNullableFilter<"Task"> | string | null
+  icalUid?: Prisma.StringNullableFilter<"Task"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Task"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Task"> | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFilter<"Task"> | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFilter<"Task"> | boolean
   closedAt?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
   closedById?: Prisma.IntNullableFilter<"Task"> | number | null
   closedReason?: Prisma.StringNullableFilter<"Task"> | string | null
   closedWithOpenAssignees?: Prisma.BoolFilter<"Task"> | boolean
+  recurrenceId?: Prisma.IntNullableFilter<"Task"> | number | null
+  recurrenceIndex?: Prisma.IntNullableFilter<"Task"> | number | null
+  occurrenceDate?: Prisma.DateTimeNullableFilter<"Task"> | Date | string | null
 }
 
-export type TaskCreateWithoutAssigneesInput = {
+export type TaskCreateWithoutNotificationsInput = {
   title: string
   status?: $Enums.Status
   priority?: number
@@ -985,19 +1336,31 @@ export type TaskCreateWithoutAssigneesInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   owner: Prisma.UserCreateNestedOneWithoutTaskInput
   group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
   subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
   closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
 }
 
-export type TaskUncheckedCreateWithoutAssigneesInput = {
+export type TaskUncheckedCreateWithoutNotificationsInput = {
   id?: number
   ownerId: number
   groupId?: number | null
@@ -1010,33 +1373,45 @@ export type TaskUncheckedCreateWithoutAssigneesInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedById?: number | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
 }
 
-export type TaskCreateOrConnectWithoutAssigneesInput = {
+export type TaskCreateOrConnectWithoutNotificationsInput = {
   where: Prisma.TaskWhereUniqueInput
-  create: Prisma.XOR<Prisma.TaskCreateWithoutAssigneesInput, Prisma.TaskUncheckedCreateWithoutAssigneesInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutNotificationsInput, Prisma.TaskUncheckedCreateWithoutNotificationsInput>
 }
 
-export type TaskUpsertWithoutAssigneesInput = {
-  update: Prisma.XOR<Prisma.TaskUpdateWithoutAssigneesInput, Prisma.TaskUncheckedUpdateWithoutAssigneesInput>
-  create: Prisma.XOR<Prisma.TaskCreateWithoutAssigneesInput, Prisma.TaskUncheckedCreateWithoutAssigneesInput>
+export type TaskUpsertWithoutNotificationsInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutNotificationsInput, Prisma.TaskUncheckedUpdateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutNotificationsInput, Prisma.TaskUncheckedCreateWithoutNotificationsInput>
   where?: Prisma.TaskWhereInput
 }
 
-export type TaskUpdateToOneWithWhereWithoutAssigneesInput = {
+export type TaskUpdateToOneWithWhereWithoutNotificationsInput = {
   where?: Prisma.TaskWhereInput
-  data: Prisma.XOR<Prisma.TaskUpdateWithoutAssigneesInput, Prisma.TaskUncheckedUpdateWithoutAssigneesInput>
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutNotificationsInput, Prisma.TaskUncheckedUpdateWithoutNotificationsInput>
 }
 
-export type TaskUpdateWithoutAssigneesInput = {
+export type TaskUpdateWithoutNotificationsInput = {
   title?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
   priority?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1046,19 +1421,259 @@ export type TaskUpdateWithoutAssigneesInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
   group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
   subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
   closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
 }
 
-export type TaskUncheckedUpdateWithoutAssigneesInput = {
+export type TaskUncheckedUpdateWithoutNotificationsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskCreateWithoutBlockedByInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  owner: Prisma.UserCreateNestedOneWithoutTaskInput
+  group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
+}
+
+export type TaskUncheckedCreateWithoutBlockedByInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
+}
+
+export type TaskCreateOrConnectWithoutBlockedByInput = {
+  where: Prisma.TaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCreateWithoutBlockedByInput, Prisma.TaskUncheckedCreateWithoutBlockedByInput>
+}
+
+export type TaskCreateWithoutBlockingInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  owner: Prisma.UserCreateNestedOneWithoutTaskInput
+  group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
+}
+
+export type TaskUncheckedCreateWithoutBlockingInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
+}
+
+export type TaskCreateOrConnectWithoutBlockingInput = {
+  where: Prisma.TaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCreateWithoutBlockingInput, Prisma.TaskUncheckedCreateWithoutBlockingInput>
+}
+
+export type TaskUpsertWithoutBlockedByInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutBlockedByInput, Prisma.TaskUncheckedUpdateWithoutBlockedByInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutBlockedByInput, Prisma.TaskUncheckedCreateWithoutBlockedByInput>
+  where?: Prisma.TaskWhereInput
+}
+
+export type TaskUpdateToOneWithWhereWithoutBlockedByInput = {
+  where?: Prisma.TaskWhereInput
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutBlockedByInput, Prisma.TaskUncheckedUpdateWithoutBlockedByInput>
+}
+
+export type TaskUpdateWithoutBlockedByInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
+  group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateWithoutBlockedByInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   ownerId?: Prisma.IntFieldUpdateOperationsInput | number
   groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
@@ -1071,17 +1686,974 @@ export type TaskUncheckedUpdateWithoutAssigneesInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUpsertWithoutBlockingInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutBlockingInput, Prisma.TaskUncheckedUpdateWithoutBlockingInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutBlockingInput, Prisma.TaskUncheckedCreateWithoutBlockingInput>
+  where?: Prisma.TaskWhereInput
+}
+
+export type TaskUpdateToOneWithWhereWithoutBlockingInput = {
+  where?: Prisma.TaskWhereInput
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutBlockingInput, Prisma.TaskUncheckedUpdateWithoutBlockingInput>
+}
+
+export type TaskUpdateWithoutBlockingInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
+  group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateWithoutBlockingInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskCreateWithoutCommentsInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  owner: Prisma.UserCreateNestedOneWithoutTaskInput
+  group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
+}
+
+export type TaskUncheckedCreateWithoutCommentsInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
+}
+
+export type TaskCreateOrConnectWithoutCommentsInput = {
+  where: Prisma.TaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCreateWithoutCommentsInput, Prisma.TaskUncheckedCreateWithoutCommentsInput>
+}
+
+export type TaskUpsertWithoutCommentsInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutCommentsInput, Prisma.TaskUncheckedUpdateWithoutCommentsInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutCommentsInput, Prisma.TaskUncheckedCreateWithoutCommentsInput>
+  where?: Prisma.TaskWhereInput
+}
+
+export type TaskUpdateToOneWithWhereWithoutCommentsInput = {
+  where?: Prisma.TaskWhereInput
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutCommentsInput, Prisma.TaskUncheckedUpdateWithoutCommentsInput>
+}
+
+export type TaskUpdateWithoutCommentsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
+  group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateWithoutCommentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskCreateWithoutMentionsInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  owner: Prisma.UserCreateNestedOneWithoutTaskInput
+  group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
+}
+
+export type TaskUncheckedCreateWithoutMentionsInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
+}
+
+export type TaskCreateOrConnectWithoutMentionsInput = {
+  where: Prisma.TaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCreateWithoutMentionsInput, Prisma.TaskUncheckedCreateWithoutMentionsInput>
+}
+
+export type TaskUpsertWithoutMentionsInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutMentionsInput, Prisma.TaskUncheckedUpdateWithoutMentionsInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutMentionsInput, Prisma.TaskUncheckedCreateWithoutMentionsInput>
+  where?: Prisma.TaskWhereInput
+}
+
+export type TaskUpdateToOneWithWhereWithoutMentionsInput = {
+  where?: Prisma.TaskWhereInput
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutMentionsInput, Prisma.TaskUncheckedUpdateWithoutMentionsInput>
+}
+
+export type TaskUpdateWithoutMentionsInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
+  group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateWithoutMentionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskCreateWithoutActivitiesInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  owner: Prisma.UserCreateNestedOneWithoutTaskInput
+  group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
+}
+
+export type TaskUncheckedCreateWithoutActivitiesInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
+}
+
+export type TaskCreateOrConnectWithoutActivitiesInput = {
+  where: Prisma.TaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCreateWithoutActivitiesInput, Prisma.TaskUncheckedCreateWithoutActivitiesInput>
+}
+
+export type TaskUpsertWithoutActivitiesInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutActivitiesInput, Prisma.TaskUncheckedUpdateWithoutActivitiesInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutActivitiesInput, Prisma.TaskUncheckedCreateWithoutActivitiesInput>
+  where?: Prisma.TaskWhereInput
+}
+
+export type TaskUpdateToOneWithWhereWithoutActivitiesInput = {
+  where?: Prisma.TaskWhereInput
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutActivitiesInput, Prisma.TaskUncheckedUpdateWithoutActivitiesInput>
+}
+
+export type TaskUpdateWithoutActivitiesInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
+  group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateWithoutActivitiesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskCreateWithoutAssigneesInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  owner: Prisma.UserCreateNestedOneWithoutTaskInput
+  group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
+}
+
+export type TaskUncheckedCreateWithoutAssigneesInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
+}
+
+export type TaskCreateOrConnectWithoutAssigneesInput = {
+  where: Prisma.TaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCreateWithoutAssigneesInput, Prisma.TaskUncheckedCreateWithoutAssigneesInput>
+}
+
+export type TaskUpsertWithoutAssigneesInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutAssigneesInput, Prisma.TaskUncheckedUpdateWithoutAssigneesInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutAssigneesInput, Prisma.TaskUncheckedCreateWithoutAssigneesInput>
+  where?: Prisma.TaskWhereInput
+}
+
+export type TaskUpdateToOneWithWhereWithoutAssigneesInput = {
+  where?: Prisma.TaskWhereInput
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutAssigneesInput, Prisma.TaskUncheckedUpdateWithoutAssigneesInput>
+}
+
+export type TaskUpdateWithoutAssigneesInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
+  group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateWithoutAssigneesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskCreateWithoutSubTasksInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  owner: Prisma.UserCreateNestedOneWithoutTaskInput
+  group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
+}
+
+export type TaskUncheckedCreateWithoutSubTasksInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
+}
+
+export type TaskCreateOrConnectWithoutSubTasksInput = {
+  where: Prisma.TaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCreateWithoutSubTasksInput, Prisma.TaskUncheckedCreateWithoutSubTasksInput>
+}
+
+export type TaskUpsertWithoutSubTasksInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutSubTasksInput, Prisma.TaskUncheckedUpdateWithoutSubTasksInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutSubTasksInput, Prisma.TaskUncheckedCreateWithoutSubTasksInput>
+  where?: Prisma.TaskWhereInput
+}
+
+export type TaskUpdateToOneWithWhereWithoutSubTasksInput = {
+  where?: Prisma.TaskWhereInput
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutSubTasksInput, Prisma.TaskUncheckedUpdateWithoutSubTasksInput>
+}
+
+export type TaskUpdateWithoutSubTasksInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
+  group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateWithoutSubTasksInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskCreateWithoutRecurrenceInput = {
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  owner: Prisma.UserCreateNestedOneWithoutTaskInput
+  group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
+  closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
+}
+
+export type TaskUncheckedCreateWithoutRecurrenceInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
+  assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
 }
 
-export type TaskCreateWithoutSubTasksInput = {
+export type TaskCreateOrConnectWithoutRecurrenceInput = {
+  where: Prisma.TaskWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCreateWithoutRecurrenceInput, Prisma.TaskUncheckedCreateWithoutRecurrenceInput>
+}
+
+export type TaskCreateManyRecurrenceInputEnvelope = {
+  data: Prisma.TaskCreateManyRecurrenceInput | Prisma.TaskCreateManyRecurrenceInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskUpsertWithWhereUniqueWithoutRecurrenceInput = {
+  where: Prisma.TaskWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutRecurrenceInput, Prisma.TaskUncheckedUpdateWithoutRecurrenceInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutRecurrenceInput, Prisma.TaskUncheckedCreateWithoutRecurrenceInput>
+}
+
+export type TaskUpdateWithWhereUniqueWithoutRecurrenceInput = {
+  where: Prisma.TaskWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutRecurrenceInput, Prisma.TaskUncheckedUpdateWithoutRecurrenceInput>
+}
+
+export type TaskUpdateManyWithWhereWithoutRecurrenceInput = {
+  where: Prisma.TaskScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskUpdateManyMutationInput, Prisma.TaskUncheckedUpdateManyWithoutRecurrenceInput>
+}
+
+export type TaskCreateWithoutLabelsInput = {
   title: string
   status?: $Enums.Status
   priority?: number
@@ -1091,19 +2663,31 @@ export type TaskCreateWithoutSubTasksInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   owner: Prisma.UserCreateNestedOneWithoutTaskInput
   group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
+  subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
   closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
 }
 
-export type TaskUncheckedCreateWithoutSubTasksInput = {
+export type TaskUncheckedCreateWithoutLabelsInput = {
   id?: number
   ownerId: number
   groupId?: number | null
@@ -1116,33 +2700,45 @@ export type TaskUncheckedCreateWithoutSubTasksInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedById?: number | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
 }
 
-export type TaskCreateOrConnectWithoutSubTasksInput = {
+export type TaskCreateOrConnectWithoutLabelsInput = {
   where: Prisma.TaskWhereUniqueInput
-  create: Prisma.XOR<Prisma.TaskCreateWithoutSubTasksInput, Prisma.TaskUncheckedCreateWithoutSubTasksInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutLabelsInput, Prisma.TaskUncheckedCreateWithoutLabelsInput>
 }
 
-export type TaskUpsertWithoutSubTasksInput = {
-  update: Prisma.XOR<Prisma.TaskUpdateWithoutSubTasksInput, Prisma.TaskUncheckedUpdateWithoutSubTasksInput>
-  create: Prisma.XOR<Prisma.TaskCreateWithoutSubTasksInput, Prisma.TaskUncheckedCreateWithoutSubTasksInput>
+export type TaskUpsertWithoutLabelsInput = {
+  update: Prisma.XOR<Prisma.TaskUpdateWithoutLabelsInput, Prisma.TaskUncheckedUpdateWithoutLabelsInput>
+  create: Prisma.XOR<Prisma.TaskCreateWithoutLabelsInput, Prisma.TaskUncheckedCreateWithoutLabelsInput>
   where?: Prisma.TaskWhereInput
 }
 
-export type TaskUpdateToOneWithWhereWithoutSubTasksInput = {
+export type TaskUpdateToOneWithWhereWithoutLabelsInput = {
   where?: Prisma.TaskWhereInput
-  data: Prisma.XOR<Prisma.TaskUpdateWithoutSubTasksInput, Prisma.TaskUncheckedUpdateWithoutSubTasksInput>
+  data: Prisma.XOR<Prisma.TaskUpdateWithoutLabelsInput, Prisma.TaskUncheckedUpdateWithoutLabelsInput>
 }
 
-export type TaskUpdateWithoutSubTasksInput = {
+export type TaskUpdateWithoutLabelsInput = {
   title?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
   priority?: Prisma.IntFieldUpdateOperationsInput | number
@@ -1152,19 +2748,31 @@ export type TaskUpdateWithoutSubTasksInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
   group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
   closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
 }
 
-export type TaskUncheckedUpdateWithoutSubTasksInput = {
+export type TaskUncheckedUpdateWithoutLabelsInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   ownerId?: Prisma.IntFieldUpdateOperationsInput | number
   groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
@@ -1177,14 +2785,26 @@ export type TaskUncheckedUpdateWithoutSubTasksInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskCreateWithoutOwnerInput = {
@@ -1197,16 +2817,28 @@ export type TaskCreateWithoutOwnerInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
   subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
   closedBy?: Prisma.UserCreateNestedOneWithoutClosedTasksInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
 }
 
 export type TaskUncheckedCreateWithoutOwnerInput = {
@@ -1221,15 +2853,27 @@ export type TaskUncheckedCreateWithoutOwnerInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedById?: number | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
 }
 
 export type TaskCreateOrConnectWithoutOwnerInput = {
@@ -1252,16 +2896,28 @@ export type TaskCreateWithoutClosedByInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   owner: Prisma.UserCreateNestedOneWithoutTaskInput
   group?: Prisma.GroupCreateNestedOneWithoutGroupTasksInput
   subTasks?: Prisma.SubTaskCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeCreateNestedManyWithoutTaskInput
+  recurrence?: Prisma.TaskRecurrenceCreateNestedOneWithoutTasksInput
+  blockedBy?: Prisma.TaskDependencyCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutTaskInput
 }
 
 export type TaskUncheckedCreateWithoutClosedByInput = {
@@ -1277,14 +2933,26 @@ export type TaskUncheckedCreateWithoutClosedByInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
   subTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutTaskInput
   assignees?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutTaskInput
+  blockedBy?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput
+  blocking?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput
+  comments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutTaskInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutTaskInput
+  activities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTaskInput
+  labels?: Prisma.TaskLabelUncheckedCreateNestedManyWithoutTaskInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutTaskInput
 }
 
 export type TaskCreateOrConnectWithoutClosedByInput = {
@@ -1341,13 +3009,18 @@ export type TaskCreateManyGroupInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedById?: number | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
 }
 
 export type TaskUpdateWithoutGroupInput = {
@@ -1360,16 +3033,28 @@ export type TaskUpdateWithoutGroupInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
   subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
   closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskUncheckedUpdateWithoutGroupInput = {
@@ -1384,15 +3069,27 @@ export type TaskUncheckedUpdateWithoutGroupInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskUncheckedUpdateManyWithoutGroupInput = {
@@ -1407,13 +3104,139 @@ export type TaskUncheckedUpdateManyWithoutGroupInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+}
+
+export type TaskCreateManyRecurrenceInput = {
+  id?: number
+  ownerId: number
+  groupId?: number | null
+  title: string
+  status?: $Enums.Status
+  priority?: number
+  description?: string | null
+  location?: string | null
+  dueAtUtc?: Date | string | null
+  allDay?: boolean
+  allDayLocalDate?: Date | string | null
+  sourceTimeZone?: string | null
+  icalUid?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
+  closedAt?: Date | string | null
+  closedById?: number | null
+  closedReason?: string | null
+  closedWithOpenAssignees?: boolean
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
+}
+
+export type TaskUpdateWithoutRecurrenceInput = {
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
+  group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
+  subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
+  closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateWithoutRecurrenceInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
+  assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
+}
+
+export type TaskUncheckedUpdateManyWithoutRecurrenceInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  ownerId?: Prisma.IntFieldUpdateOperationsInput | number
+  groupId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumStatusFieldUpdateOperationsInput | $Enums.Status
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dueAtUtc?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type TaskCreateManyOwnerInput = {
@@ -1428,13 +3251,18 @@ export type TaskCreateManyOwnerInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedById?: number | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
 }
 
 export type TaskCreateManyClosedByInput = {
@@ -1450,12 +3278,17 @@ export type TaskCreateManyClosedByInput = {
   allDay?: boolean
   allDayLocalDate?: Date | string | null
   sourceTimeZone?: string | null
+  icalUid?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   completionPolicy?: $Enums.CompletionPolicy
+  autoCloseOnComplete?: boolean
   closedAt?: Date | string | null
   closedReason?: string | null
   closedWithOpenAssignees?: boolean
+  recurrenceId?: number | null
+  recurrenceIndex?: number | null
+  occurrenceDate?: Date | string | null
 }
 
 export type TaskUpdateWithoutOwnerInput = {
@@ -1468,16 +3301,28 @@ export type TaskUpdateWithoutOwnerInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
   subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
   closedBy?: Prisma.UserUpdateOneWithoutClosedTasksNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskUncheckedUpdateWithoutOwnerInput = {
@@ -1492,15 +3337,27 @@ export type TaskUncheckedUpdateWithoutOwnerInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskUncheckedUpdateManyWithoutOwnerInput = {
@@ -1515,13 +3372,18 @@ export type TaskUncheckedUpdateManyWithoutOwnerInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type TaskUpdateWithoutClosedByInput = {
@@ -1534,16 +3396,28 @@ export type TaskUpdateWithoutClosedByInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   owner?: Prisma.UserUpdateOneRequiredWithoutTaskNestedInput
   group?: Prisma.GroupUpdateOneWithoutGroupTasksNestedInput
   subTasks?: Prisma.SubTaskUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUpdateManyWithoutTaskNestedInput
+  recurrence?: Prisma.TaskRecurrenceUpdateOneWithoutTasksNestedInput
+  blockedBy?: Prisma.TaskDependencyUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskUncheckedUpdateWithoutClosedByInput = {
@@ -1559,14 +3433,26 @@ export type TaskUncheckedUpdateWithoutClosedByInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   subTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutTaskNestedInput
   assignees?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutTaskNestedInput
+  blockedBy?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput
+  blocking?: Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput
+  comments?: Prisma.TaskCommentUncheckedUpdateManyWithoutTaskNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutTaskNestedInput
+  activities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTaskNestedInput
+  labels?: Prisma.TaskLabelUncheckedUpdateManyWithoutTaskNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutTaskNestedInput
 }
 
 export type TaskUncheckedUpdateManyWithoutClosedByInput = {
@@ -1582,12 +3468,17 @@ export type TaskUncheckedUpdateManyWithoutClosedByInput = {
   allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
   allDayLocalDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   sourceTimeZone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  icalUid?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   completionPolicy?: Prisma.EnumCompletionPolicyFieldUpdateOperationsInput | $Enums.CompletionPolicy
+  autoCloseOnComplete?: Prisma.BoolFieldUpdateOperationsInput | boolean
   closedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   closedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   closedWithOpenAssignees?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  recurrenceId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  recurrenceIndex?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrenceDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 
@@ -1598,11 +3489,25 @@ export type TaskUncheckedUpdateManyWithoutClosedByInput = {
 export type TaskCountOutputType = {
   subTasks: number
   assignees: number
+  blockedBy: number
+  blocking: number
+  comments: number
+  mentions: number
+  activities: number
+  labels: number
+  notifications: number
 }
 
 export type TaskCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   subTasks?: boolean | TaskCountOutputTypeCountSubTasksArgs
   assignees?: boolean | TaskCountOutputTypeCountAssigneesArgs
+  blockedBy?: boolean | TaskCountOutputTypeCountBlockedByArgs
+  blocking?: boolean | TaskCountOutputTypeCountBlockingArgs
+  comments?: boolean | TaskCountOutputTypeCountCommentsArgs
+  mentions?: boolean | TaskCountOutputTypeCountMentionsArgs
+  activities?: boolean | TaskCountOutputTypeCountActivitiesArgs
+  labels?: boolean | TaskCountOutputTypeCountLabelsArgs
+  notifications?: boolean | TaskCountOutputTypeCountNotificationsArgs
 }
 
 /**
@@ -1629,6 +3534,55 @@ export type TaskCountOutputTypeCountAssigneesArgs<ExtArgs extends runtime.Types.
   where?: Prisma.TaskAssigneeWhereInput
 }
 
+/**
+ * TaskCountOutputType without action
+ */
+export type TaskCountOutputTypeCountBlockedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskDependencyWhereInput
+}
+
+/**
+ * TaskCountOutputType without action
+ */
+export type TaskCountOutputTypeCountBlockingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskDependencyWhereInput
+}
+
+/**
+ * TaskCountOutputType without action
+ */
+export type TaskCountOutputTypeCountCommentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentWhereInput
+}
+
+/**
+ * TaskCountOutputType without action
+ */
+export type TaskCountOutputTypeCountMentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskMentionWhereInput
+}
+
+/**
+ * TaskCountOutputType without action
+ */
+export type TaskCountOutputTypeCountActivitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskActivityWhereInput
+}
+
+/**
+ * TaskCountOutputType without action
+ */
+export type TaskCountOutputTypeCountLabelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskLabelWhereInput
+}
+
+/**
+ * TaskCountOutputType without action
+ */
+export type TaskCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
+}
+
 
 export type TaskSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1643,18 +3597,31 @@ export type TaskSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   allDay?: boolean
   allDayLocalDate?: boolean
   sourceTimeZone?: boolean
+  icalUid?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   completionPolicy?: boolean
+  autoCloseOnComplete?: boolean
   closedAt?: boolean
   closedById?: boolean
   closedReason?: boolean
   closedWithOpenAssignees?: boolean
+  recurrenceId?: boolean
+  recurrenceIndex?: boolean
+  occurrenceDate?: boolean
   owner?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   group?: boolean | Prisma.Task$groupArgs<ExtArgs>
   subTasks?: boolean | Prisma.Task$subTasksArgs<ExtArgs>
   assignees?: boolean | Prisma.Task$assigneesArgs<ExtArgs>
   closedBy?: boolean | Prisma.Task$closedByArgs<ExtArgs>
+  recurrence?: boolean | Prisma.Task$recurrenceArgs<ExtArgs>
+  blockedBy?: boolean | Prisma.Task$blockedByArgs<ExtArgs>
+  blocking?: boolean | Prisma.Task$blockingArgs<ExtArgs>
+  comments?: boolean | Prisma.Task$commentsArgs<ExtArgs>
+  mentions?: boolean | Prisma.Task$mentionsArgs<ExtArgs>
+  activities?: boolean | Prisma.Task$activitiesArgs<ExtArgs>
+  labels?: boolean | Prisma.Task$labelsArgs<ExtArgs>
+  notifications?: boolean | Prisma.Task$notificationsArgs<ExtArgs>
   _count?: boolean | Prisma.TaskCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["task"]>
 
@@ -1671,16 +3638,22 @@ export type TaskSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   allDay?: boolean
   allDayLocalDate?: boolean
   sourceTimeZone?: boolean
+  icalUid?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   completionPolicy?: boolean
+  autoCloseOnComplete?: boolean
   closedAt?: boolean
   closedById?: boolean
   closedReason?: boolean
   closedWithOpenAssignees?: boolean
+  recurrenceId?: boolean
+  recurrenceIndex?: boolean
+  occurrenceDate?: boolean
   owner?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   group?: boolean | Prisma.Task$groupArgs<ExtArgs>
   closedBy?: boolean | Prisma.Task$closedByArgs<ExtArgs>
+  recurrence?: boolean | Prisma.Task$recurrenceArgs<ExtArgs>
 }, ExtArgs["result"]["task"]>
 
 export type TaskSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1696,16 +3669,22 @@ export type TaskSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   allDay?: boolean
   allDayLocalDate?: boolean
   sourceTimeZone?: boolean
+  icalUid?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   completionPolicy?: boolean
+  autoCloseOnComplete?: boolean
   closedAt?: boolean
   closedById?: boolean
   closedReason?: boolean
   closedWithOpenAssignees?: boolean
+  recurrenceId?: boolean
+  recurrenceIndex?: boolean
+  occurrenceDate?: boolean
   owner?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   group?: boolean | Prisma.Task$groupArgs<ExtArgs>
   closedBy?: boolean | Prisma.Task$closedByArgs<ExtArgs>
+  recurrence?: boolean | Prisma.Task$recurrenceArgs<ExtArgs>
 }, ExtArgs["result"]["task"]>
 
 export type TaskSelectScalar = {
@@ -1721,33 +3700,48 @@ export type TaskSelectScalar = {
   allDay?: boolean
   allDayLocalDate?: boolean
   sourceTimeZone?: boolean
+  icalUid?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   completionPolicy?: boolean
+  autoCloseOnComplete?: boolean
   closedAt?: boolean
   closedById?: boolean
   closedReason?: boolean
   closedWithOpenAssignees?: boolean
+  recurrenceId?: boolean
+  recurrenceIndex?: boolean
+  occurrenceDate?: boolean
 }
 
-export type TaskOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "ownerId" | "groupId" | "title" | "status" | "priority" | "description" | "location" | "dueAtUtc" | "allDay" | "allDayLocalDate" | "sourceTimeZone" | "createdAt" | "updatedAt" | "completionPolicy" | "closedAt" | "closedById" | "closedReason" | "closedWithOpenAssignees", ExtArgs["result"]["task"]>
+export type TaskOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "ownerId" | "groupId" | "title" | "status" | "priority" | "description" | "location" | "dueAtUtc" | "allDay" | "allDayLocalDate" | "sourceTimeZone" | "icalUid" | "createdAt" | "updatedAt" | "completionPolicy" | "autoCloseOnComplete" | "closedAt" | "closedById" | "closedReason" | "closedWithOpenAssignees" | "recurrenceId" | "recurrenceIndex" | "occurrenceDate", ExtArgs["result"]["task"]>
 export type TaskInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   owner?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   group?: boolean | Prisma.Task$groupArgs<ExtArgs>
   subTasks?: boolean | Prisma.Task$subTasksArgs<ExtArgs>
   assignees?: boolean | Prisma.Task$assigneesArgs<ExtArgs>
   closedBy?: boolean | Prisma.Task$closedByArgs<ExtArgs>
+  recurrence?: boolean | Prisma.Task$recurrenceArgs<ExtArgs>
+  blockedBy?: boolean | Prisma.Task$blockedByArgs<ExtArgs>
+  blocking?: boolean | Prisma.Task$blockingArgs<ExtArgs>
+  comments?: boolean | Prisma.Task$commentsArgs<ExtArgs>
+  mentions?: boolean | Prisma.Task$mentionsArgs<ExtArgs>
+  activities?: boolean | Prisma.Task$activitiesArgs<ExtArgs>
+  labels?: boolean | Prisma.Task$labelsArgs<ExtArgs>
+  notifications?: boolean | Prisma.Task$notificationsArgs<ExtArgs>
   _count?: boolean | Prisma.TaskCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type TaskIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   owner?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   group?: boolean | Prisma.Task$groupArgs<ExtArgs>
   closedBy?: boolean | Prisma.Task$closedByArgs<ExtArgs>
+  recurrence?: boolean | Prisma.Task$recurrenceArgs<ExtArgs>
 }
 export type TaskIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   owner?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   group?: boolean | Prisma.Task$groupArgs<ExtArgs>
   closedBy?: boolean | Prisma.Task$closedByArgs<ExtArgs>
+  recurrence?: boolean | Prisma.Task$recurrenceArgs<ExtArgs>
 }
 
 export type $TaskPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1758,6 +3752,14 @@ export type $TaskPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     subTasks: Prisma.$SubTaskPayload<ExtArgs>[]
     assignees: Prisma.$TaskAssigneePayload<ExtArgs>[]
     closedBy: Prisma.$UserPayload<ExtArgs> | null
+    recurrence: Prisma.$TaskRecurrencePayload<ExtArgs> | null
+    blockedBy: Prisma.$TaskDependencyPayload<ExtArgs>[]
+    blocking: Prisma.$TaskDependencyPayload<ExtArgs>[]
+    comments: Prisma.$TaskCommentPayload<ExtArgs>[]
+    mentions: Prisma.$TaskMentionPayload<ExtArgs>[]
+    activities: Prisma.$TaskActivityPayload<ExtArgs>[]
+    labels: Prisma.$TaskLabelPayload<ExtArgs>[]
+    notifications: Prisma.$NotificationPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -1772,13 +3774,18 @@ export type $TaskPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     allDay: boolean
     allDayLocalDate: Date | null
     sourceTimeZone: string | null
+    icalUid: string | null
     createdAt: Date
     updatedAt: Date
     completionPolicy: $Enums.CompletionPolicy
+    autoCloseOnComplete: boolean
     closedAt: Date | null
     closedById: number | null
     closedReason: string | null
     closedWithOpenAssignees: boolean
+    recurrenceId: number | null
+    recurrenceIndex: number | null
+    occurrenceDate: Date | null
   }, ExtArgs["result"]["task"]>
   composites: {}
 }
@@ -2178,6 +4185,14 @@ export interface Prisma__TaskClient<T, Null = never, ExtArgs extends runtime.Typ
   subTasks<T extends Prisma.Task$subTasksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$subTasksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   assignees<T extends Prisma.Task$assigneesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$assigneesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskAssigneePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   closedBy<T extends Prisma.Task$closedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$closedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  recurrence<T extends Prisma.Task$recurrenceArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$recurrenceArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  blockedBy<T extends Prisma.Task$blockedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$blockedByArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  blocking<T extends Prisma.Task$blockingArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$blockingArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  comments<T extends Prisma.Task$commentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$commentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  mentions<T extends Prisma.Task$mentionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$mentionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  activities<T extends Prisma.Task$activitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$activitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  labels<T extends Prisma.Task$labelsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$labelsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notifications<T extends Prisma.Task$notificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Task$notificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2219,13 +4234,18 @@ export interface TaskFieldRefs {
   readonly allDay: Prisma.FieldRef<"Task", 'Boolean'>
   readonly allDayLocalDate: Prisma.FieldRef<"Task", 'DateTime'>
   readonly sourceTimeZone: Prisma.FieldRef<"Task", 'String'>
+  readonly icalUid: Prisma.FieldRef<"Task", 'String'>
   readonly createdAt: Prisma.FieldRef<"Task", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Task", 'DateTime'>
   readonly completionPolicy: Prisma.FieldRef<"Task", 'CompletionPolicy'>
+  readonly autoCloseOnComplete: Prisma.FieldRef<"Task", 'Boolean'>
   readonly closedAt: Prisma.FieldRef<"Task", 'DateTime'>
   readonly closedById: Prisma.FieldRef<"Task", 'Int'>
   readonly closedReason: Prisma.FieldRef<"Task", 'String'>
   readonly closedWithOpenAssignees: Prisma.FieldRef<"Task", 'Boolean'>
+  readonly recurrenceId: Prisma.FieldRef<"Task", 'Int'>
+  readonly recurrenceIndex: Prisma.FieldRef<"Task", 'Int'>
+  readonly occurrenceDate: Prisma.FieldRef<"Task", 'DateTime'>
 }
     
 
@@ -2707,6 +4727,193 @@ export type Task$closedByArgs<ExtArgs extends runtime.Types.Extensions.InternalA
   where?: Prisma.UserWhereInput
 }
 
+/**
+ * Task.recurrence
+ */
+export type Task$recurrenceArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  where?: Prisma.TaskRecurrenceWhereInput
+}
+
+/**
+ * Task.blockedBy
+ */
+export type Task$blockedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  where?: Prisma.TaskDependencyWhereInput
+  orderBy?: Prisma.TaskDependencyOrderByWithRelationInput | Prisma.TaskDependencyOrderByWithRelationInput[]
+  cursor?: Prisma.TaskDependencyWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskDependencyScalarFieldEnum | Prisma.TaskDependencyScalarFieldEnum[]
+}
+
+/**
+ * Task.blocking
+ */
+export type Task$blockingArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  where?: Prisma.TaskDependencyWhereInput
+  orderBy?: Prisma.TaskDependencyOrderByWithRelationInput | Prisma.TaskDependencyOrderByWithRelationInput[]
+  cursor?: Prisma.TaskDependencyWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskDependencyScalarFieldEnum | Prisma.TaskDependencyScalarFieldEnum[]
+}
+
+/**
+ * Task.comments
+ */
+export type Task$commentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentWhereInput
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskCommentScalarFieldEnum | Prisma.TaskCommentScalarFieldEnum[]
+}
+
+/**
+ * Task.mentions
+ */
+export type Task$mentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  where?: Prisma.TaskMentionWhereInput
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskMentionScalarFieldEnum | Prisma.TaskMentionScalarFieldEnum[]
+}
+
+/**
+ * Task.activities
+ */
+export type Task$activitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  where?: Prisma.TaskActivityWhereInput
+  orderBy?: Prisma.TaskActivityOrderByWithRelationInput | Prisma.TaskActivityOrderByWithRelationInput[]
+  cursor?: Prisma.TaskActivityWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskActivityScalarFieldEnum | Prisma.TaskActivityScalarFieldEnum[]
+}
+
+/**
+ * Task.labels
+ */
+export type Task$labelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  where?: Prisma.TaskLabelWhereInput
+  orderBy?: Prisma.TaskLabelOrderByWithRelationInput | Prisma.TaskLabelOrderByWithRelationInput[]
+  cursor?: Prisma.TaskLabelWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskLabelScalarFieldEnum | Prisma.TaskLabelScalarFieldEnum[]
+}
+
+/**
+ * Task.notifications
+ */
+export type Task$notificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  where?: Prisma.NotificationWhereInput
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  cursor?: Prisma.NotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
 /**
  * Task without action
  */
@@ -0,0 +1,2071 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TaskActivity` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TaskActivity
+ * 
+ */
+export type TaskActivityModel = runtime.Types.Result.DefaultSelection<Prisma.$TaskActivityPayload>
+
+export type AggregateTaskActivity = {
+  _count: TaskActivityCountAggregateOutputType | null
+  _avg: TaskActivityAvgAggregateOutputType | null
+  _sum: TaskActivitySumAggregateOutputType | null
+  _min: TaskActivityMinAggregateOutputType | null
+  _max: TaskActivityMaxAggregateOutputType | null
+}
+
+export type TaskActivityAvgAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  actorId: number | null
+  targetUserId: number | null
+}
+
+export type TaskActivitySumAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  actorId: number | null
+  targetUserId: number | null
+}
+
+export type TaskActivityMinAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  actorId: number | null
+  action: $Enums.TaskActivityAction | null
+  targetUserId: number | null
+  reason: string | null
+  createdAt: Date | null
+}
+
+export type TaskActivityMaxAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  actorId: number | null
+  action: $Enums.TaskActivityAction | null
+  targetUserId: number | null
+  reason: string | null
+  createdAt: Date | null
+}
+
+export type TaskActivityCountAggregateOutputType = {
+  id: number
+  taskId: number
+  subTaskId: number
+  actorId: number
+  action: number
+  targetUserId: number
+  before: number
+  after: number
+  reason: number
+  createdAt: number
+  _all: number
+}
+
+
+export type TaskActivityAvgAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  actorId?: true
+  targetUserId?: true
+}
+
+export type TaskActivitySumAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  actorId?: true
+  targetUserId?: true
+}
+
+export type TaskActivityMinAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  actorId?: true
+  action?: true
+  targetUserId?: true
+  reason?: true
+  createdAt?: true
+}
+
+export type TaskActivityMaxAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  actorId?: true
+  action?: true
+  targetUserId?: true
+  reason?: true
+  createdAt?: true
+}
+
+export type TaskActivityCountAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  actorId?: true
+  action?: true
+  targetUserId?: true
+  before?: true
+  after?: true
+  reason?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type TaskActivityAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskActivity to aggregate.
+   */
+  where?: Prisma.TaskActivityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskActivities to fetch.
+   */
+  orderBy?: Prisma.TaskActivityOrderByWithRelationInput | Prisma.TaskActivityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TaskActivityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskActivities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskActivities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TaskActivities
+  **/
+  _count?: true | TaskActivityCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TaskActivityAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TaskActivitySumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TaskActivityMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TaskActivityMaxAggregateInputType
+}
+
+export type GetTaskActivityAggregateType<T extends TaskActivityAggregateArgs> = {
+      [P in keyof T & keyof AggregateTaskActivity]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTaskActivity[P]>
+    : Prisma.GetScalarType<T[P], AggregateTaskActivity[P]>
+}
+
+
+
+
+export type TaskActivityGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskActivityWhereInput
+  orderBy?: Prisma.TaskActivityOrderByWithAggregationInput | Prisma.TaskActivityOrderByWithAggregationInput[]
+  by: Prisma.TaskActivityScalarFieldEnum[] | Prisma.TaskActivityScalarFieldEnum
+  having?: Prisma.TaskActivityScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TaskActivityCountAggregateInputType | true
+  _avg?: TaskActivityAvgAggregateInputType
+  _sum?: TaskActivitySumAggregateInputType
+  _min?: TaskActivityMinAggregateInputType
+  _max?: TaskActivityMaxAggregateInputType
+}
+
+export type TaskActivityGroupByOutputType = {
+  id: number
+  taskId: number
+  subTaskId: number | null
+  actorId: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId: number | null
+  before: runtime.JsonValue | null
+  after: runtime.JsonValue | null
+  reason: string | null
+  createdAt: Date
+  _count: TaskActivityCountAggregateOutputType | null
+  _avg: TaskActivityAvgAggregateOutputType | null
+  _sum: TaskActivitySumAggregateOutputType | null
+  _min: TaskActivityMinAggregateOutputType | null
+  _max: TaskActivityMaxAggregateOutputType | null
+}
+
+type GetTaskActivityGroupByPayload<T extends TaskActivityGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TaskActivityGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TaskActivityGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TaskActivityGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TaskActivityGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TaskActivityWhereInput = {
+  AND?: Prisma.TaskActivityWhereInput | Prisma.TaskActivityWhereInput[]
+  OR?: Prisma.TaskActivityWhereInput[]
+  NOT?: Prisma.TaskActivityWhereInput | Prisma.TaskActivityWhereInput[]
+  id?: Prisma.IntFilter<"TaskActivity"> | number
+  taskId?: Prisma.IntFilter<"TaskActivity"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  actorId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  action?: Prisma.EnumTaskActivityActionFilter<"TaskActivity"> | $Enums.TaskActivityAction
+  targetUserId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  before?: Prisma.JsonNullableFilter<"TaskActivity">
+  after?: Prisma.JsonNullableFilter<"TaskActivity">
+  reason?: Prisma.StringNullableFilter<"TaskActivity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"TaskActivity"> | Date | string
+  task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  subTask?: Prisma.XOR<Prisma.SubTaskNullableScalarRelationFilter, Prisma.SubTaskWhereInput> | null
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  targetUser?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type TaskActivityOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  action?: Prisma.SortOrder
+  targetUserId?: Prisma.SortOrderInput | Prisma.SortOrder
+  before?: Prisma.SortOrderInput | Prisma.SortOrder
+  after?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  task?: Prisma.TaskOrderByWithRelationInput
+  subTask?: Prisma.SubTaskOrderByWithRelationInput
+  actor?: Prisma.UserOrderByWithRelationInput
+  targetUser?: Prisma.UserOrderByWithRelationInput
+}
+
+export type TaskActivityWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.TaskActivityWhereInput | Prisma.TaskActivityWhereInput[]
+  OR?: Prisma.TaskActivityWhereInput[]
+  NOT?: Prisma.TaskActivityWhereInput | Prisma.TaskActivityWhereInput[]
+  taskId?: Prisma.IntFilter<"TaskActivity"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  actorId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  action?: Prisma.EnumTaskActivityActionFilter<"TaskActivity"> | $Enums.TaskActivityAction
+  targetUserId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  before?: Prisma.JsonNullableFilter<"TaskActivity">
+  after?: Prisma.JsonNullableFilter<"TaskActivity">
+  reason?: Prisma.StringNullableFilter<"TaskActivity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"TaskActivity"> | Date | string
+  task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  subTask?: Prisma.XOR<Prisma.SubTaskNullableScalarRelationFilter, Prisma.SubTaskWhereInput> | null
+  actor?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  targetUser?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type TaskActivityOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  actorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  action?: Prisma.SortOrder
+  targetUserId?: Prisma.SortOrderInput | Prisma.SortOrder
+  before?: Prisma.SortOrderInput | Prisma.SortOrder
+  after?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.TaskActivityCountOrderByAggregateInput
+  _avg?: Prisma.TaskActivityAvgOrderByAggregateInput
+  _max?: Prisma.TaskActivityMaxOrderByAggregateInput
+  _min?: Prisma.TaskActivityMinOrderByAggregateInput
+  _sum?: Prisma.TaskActivitySumOrderByAggregateInput
+}
+
+export type TaskActivityScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TaskActivityScalarWhereWithAggregatesInput | Prisma.TaskActivityScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TaskActivityScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TaskActivityScalarWhereWithAggregatesInput | Prisma.TaskActivityScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"TaskActivity"> | number
+  taskId?: Prisma.IntWithAggregatesFilter<"TaskActivity"> | number
+  subTaskId?: Prisma.IntNullableWithAggregatesFilter<"TaskActivity"> | number | null
+  actorId?: Prisma.IntNullableWithAggregatesFilter<"TaskActivity"> | number | null
+  action?: Prisma.EnumTaskActivityActionWithAggregatesFilter<"TaskActivity"> | $Enums.TaskActivityAction
+  targetUserId?: Prisma.IntNullableWithAggregatesFilter<"TaskActivity"> | number | null
+  before?: Prisma.JsonNullableWithAggregatesFilter<"TaskActivity">
+  after?: Prisma.JsonNullableWithAggregatesFilter<"TaskActivity">
+  reason?: Prisma.StringNullableWithAggregatesFilter<"TaskActivity"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TaskActivity"> | Date | string
+}
+
+export type TaskActivityCreateInput = {
+  action: $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutActivitiesInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutActivitiesInput
+  actor?: Prisma.UserCreateNestedOneWithoutTaskActivitiesInput
+  targetUser?: Prisma.UserCreateNestedOneWithoutTargetedActivitiesInput
+}
+
+export type TaskActivityUncheckedCreateInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  actorId?: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId?: number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityUpdateInput = {
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutActivitiesNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutActivitiesNestedInput
+  actor?: Prisma.UserUpdateOneWithoutTaskActivitiesNestedInput
+  targetUser?: Prisma.UserUpdateOneWithoutTargetedActivitiesNestedInput
+}
+
+export type TaskActivityUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  targetUserId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityCreateManyInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  actorId?: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId?: number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityUpdateManyMutationInput = {
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  targetUserId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityListRelationFilter = {
+  every?: Prisma.TaskActivityWhereInput
+  some?: Prisma.TaskActivityWhereInput
+  none?: Prisma.TaskActivityWhereInput
+}
+
+export type TaskActivityOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TaskActivityCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  targetUserId?: Prisma.SortOrder
+  before?: Prisma.SortOrder
+  after?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskActivityAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  targetUserId?: Prisma.SortOrder
+}
+
+export type TaskActivityMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  targetUserId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskActivityMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  targetUserId?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskActivitySumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  actorId?: Prisma.SortOrder
+  targetUserId?: Prisma.SortOrder
+}
+
+export type TaskActivityCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutTaskInput, Prisma.TaskActivityUncheckedCreateWithoutTaskInput> | Prisma.TaskActivityCreateWithoutTaskInput[] | Prisma.TaskActivityUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutTaskInput | Prisma.TaskActivityCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.TaskActivityCreateManyTaskInputEnvelope
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+}
+
+export type TaskActivityUncheckedCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutTaskInput, Prisma.TaskActivityUncheckedCreateWithoutTaskInput> | Prisma.TaskActivityCreateWithoutTaskInput[] | Prisma.TaskActivityUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutTaskInput | Prisma.TaskActivityCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.TaskActivityCreateManyTaskInputEnvelope
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+}
+
+export type TaskActivityUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutTaskInput, Prisma.TaskActivityUncheckedCreateWithoutTaskInput> | Prisma.TaskActivityCreateWithoutTaskInput[] | Prisma.TaskActivityUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutTaskInput | Prisma.TaskActivityCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.TaskActivityUpsertWithWhereUniqueWithoutTaskInput | Prisma.TaskActivityUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.TaskActivityCreateManyTaskInputEnvelope
+  set?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  disconnect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  delete?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  update?: Prisma.TaskActivityUpdateWithWhereUniqueWithoutTaskInput | Prisma.TaskActivityUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.TaskActivityUpdateManyWithWhereWithoutTaskInput | Prisma.TaskActivityUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+}
+
+export type TaskActivityUncheckedUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutTaskInput, Prisma.TaskActivityUncheckedCreateWithoutTaskInput> | Prisma.TaskActivityCreateWithoutTaskInput[] | Prisma.TaskActivityUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutTaskInput | Prisma.TaskActivityCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.TaskActivityUpsertWithWhereUniqueWithoutTaskInput | Prisma.TaskActivityUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.TaskActivityCreateManyTaskInputEnvelope
+  set?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  disconnect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  delete?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  update?: Prisma.TaskActivityUpdateWithWhereUniqueWithoutTaskInput | Prisma.TaskActivityUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.TaskActivityUpdateManyWithWhereWithoutTaskInput | Prisma.TaskActivityUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+}
+
+export type EnumTaskActivityActionFieldUpdateOperationsInput = {
+  set?: $Enums.TaskActivityAction
+}
+
+export type TaskActivityCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutSubTaskInput, Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput> | Prisma.TaskActivityCreateWithoutSubTaskInput[] | Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutSubTaskInput | Prisma.TaskActivityCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.TaskActivityCreateManySubTaskInputEnvelope
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+}
+
+export type TaskActivityUncheckedCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutSubTaskInput, Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput> | Prisma.TaskActivityCreateWithoutSubTaskInput[] | Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutSubTaskInput | Prisma.TaskActivityCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.TaskActivityCreateManySubTaskInputEnvelope
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+}
+
+export type TaskActivityUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutSubTaskInput, Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput> | Prisma.TaskActivityCreateWithoutSubTaskInput[] | Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutSubTaskInput | Prisma.TaskActivityCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.TaskActivityUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.TaskActivityUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.TaskActivityCreateManySubTaskInputEnvelope
+  set?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  disconnect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  delete?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  update?: Prisma.TaskActivityUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.TaskActivityUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.TaskActivityUpdateManyWithWhereWithoutSubTaskInput | Prisma.TaskActivityUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+}
+
+export type TaskActivityUncheckedUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutSubTaskInput, Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput> | Prisma.TaskActivityCreateWithoutSubTaskInput[] | Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutSubTaskInput | Prisma.TaskActivityCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.TaskActivityUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.TaskActivityUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.TaskActivityCreateManySubTaskInputEnvelope
+  set?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  disconnect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  delete?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  update?: Prisma.TaskActivityUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.TaskActivityUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.TaskActivityUpdateManyWithWhereWithoutSubTaskInput | Prisma.TaskActivityUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+}
+
+export type TaskActivityCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutActorInput, Prisma.TaskActivityUncheckedCreateWithoutActorInput> | Prisma.TaskActivityCreateWithoutActorInput[] | Prisma.TaskActivityUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutActorInput | Prisma.TaskActivityCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.TaskActivityCreateManyActorInputEnvelope
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+}
+
+export type TaskActivityCreateNestedManyWithoutTargetUserInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutTargetUserInput, Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput> | Prisma.TaskActivityCreateWithoutTargetUserInput[] | Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutTargetUserInput | Prisma.TaskActivityCreateOrConnectWithoutTargetUserInput[]
+  createMany?: Prisma.TaskActivityCreateManyTargetUserInputEnvelope
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+}
+
+export type TaskActivityUncheckedCreateNestedManyWithoutActorInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutActorInput, Prisma.TaskActivityUncheckedCreateWithoutActorInput> | Prisma.TaskActivityCreateWithoutActorInput[] | Prisma.TaskActivityUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutActorInput | Prisma.TaskActivityCreateOrConnectWithoutActorInput[]
+  createMany?: Prisma.TaskActivityCreateManyActorInputEnvelope
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+}
+
+export type TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutTargetUserInput, Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput> | Prisma.TaskActivityCreateWithoutTargetUserInput[] | Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutTargetUserInput | Prisma.TaskActivityCreateOrConnectWithoutTargetUserInput[]
+  createMany?: Prisma.TaskActivityCreateManyTargetUserInputEnvelope
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+}
+
+export type TaskActivityUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutActorInput, Prisma.TaskActivityUncheckedCreateWithoutActorInput> | Prisma.TaskActivityCreateWithoutActorInput[] | Prisma.TaskActivityUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutActorInput | Prisma.TaskActivityCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.TaskActivityUpsertWithWhereUniqueWithoutActorInput | Prisma.TaskActivityUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.TaskActivityCreateManyActorInputEnvelope
+  set?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  disconnect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  delete?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  update?: Prisma.TaskActivityUpdateWithWhereUniqueWithoutActorInput | Prisma.TaskActivityUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.TaskActivityUpdateManyWithWhereWithoutActorInput | Prisma.TaskActivityUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+}
+
+export type TaskActivityUpdateManyWithoutTargetUserNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutTargetUserInput, Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput> | Prisma.TaskActivityCreateWithoutTargetUserInput[] | Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutTargetUserInput | Prisma.TaskActivityCreateOrConnectWithoutTargetUserInput[]
+  upsert?: Prisma.TaskActivityUpsertWithWhereUniqueWithoutTargetUserInput | Prisma.TaskActivityUpsertWithWhereUniqueWithoutTargetUserInput[]
+  createMany?: Prisma.TaskActivityCreateManyTargetUserInputEnvelope
+  set?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  disconnect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  delete?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  update?: Prisma.TaskActivityUpdateWithWhereUniqueWithoutTargetUserInput | Prisma.TaskActivityUpdateWithWhereUniqueWithoutTargetUserInput[]
+  updateMany?: Prisma.TaskActivityUpdateManyWithWhereWithoutTargetUserInput | Prisma.TaskActivityUpdateManyWithWhereWithoutTargetUserInput[]
+  deleteMany?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+}
+
+export type TaskActivityUncheckedUpdateManyWithoutActorNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutActorInput, Prisma.TaskActivityUncheckedCreateWithoutActorInput> | Prisma.TaskActivityCreateWithoutActorInput[] | Prisma.TaskActivityUncheckedCreateWithoutActorInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutActorInput | Prisma.TaskActivityCreateOrConnectWithoutActorInput[]
+  upsert?: Prisma.TaskActivityUpsertWithWhereUniqueWithoutActorInput | Prisma.TaskActivityUpsertWithWhereUniqueWithoutActorInput[]
+  createMany?: Prisma.TaskActivityCreateManyActorInputEnvelope
+  set?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  disconnect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  delete?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  update?: Prisma.TaskActivityUpdateWithWhereUniqueWithoutActorInput | Prisma.TaskActivityUpdateWithWhereUniqueWithoutActorInput[]
+  updateMany?: Prisma.TaskActivityUpdateManyWithWhereWithoutActorInput | Prisma.TaskActivityUpdateManyWithWhereWithoutActorInput[]
+  deleteMany?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+}
+
+export type TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskActivityCreateWithoutTargetUserInput, Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput> | Prisma.TaskActivityCreateWithoutTargetUserInput[] | Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput[]
+  connectOrCreate?: Prisma.TaskActivityCreateOrConnectWithoutTargetUserInput | Prisma.TaskActivityCreateOrConnectWithoutTargetUserInput[]
+  upsert?: Prisma.TaskActivityUpsertWithWhereUniqueWithoutTargetUserInput | Prisma.TaskActivityUpsertWithWhereUniqueWithoutTargetUserInput[]
+  createMany?: Prisma.TaskActivityCreateManyTargetUserInputEnvelope
+  set?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  disconnect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  delete?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  connect?: Prisma.TaskActivityWhereUniqueInput | Prisma.TaskActivityWhereUniqueInput[]
+  update?: Prisma.TaskActivityUpdateWithWhereUniqueWithoutTargetUserInput | Prisma.TaskActivityUpdateWithWhereUniqueWithoutTargetUserInput[]
+  updateMany?: Prisma.TaskActivityUpdateManyWithWhereWithoutTargetUserInput | Prisma.TaskActivityUpdateManyWithWhereWithoutTargetUserInput[]
+  deleteMany?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+}
+
+export type TaskActivityCreateWithoutTaskInput = {
+  action: $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutActivitiesInput
+  actor?: Prisma.UserCreateNestedOneWithoutTaskActivitiesInput
+  targetUser?: Prisma.UserCreateNestedOneWithoutTargetedActivitiesInput
+}
+
+export type TaskActivityUncheckedCreateWithoutTaskInput = {
+  id?: number
+  subTaskId?: number | null
+  actorId?: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId?: number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityCreateOrConnectWithoutTaskInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskActivityCreateWithoutTaskInput, Prisma.TaskActivityUncheckedCreateWithoutTaskInput>
+}
+
+export type TaskActivityCreateManyTaskInputEnvelope = {
+  data: Prisma.TaskActivityCreateManyTaskInput | Prisma.TaskActivityCreateManyTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskActivityUpsertWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskActivityUpdateWithoutTaskInput, Prisma.TaskActivityUncheckedUpdateWithoutTaskInput>
+  create: Prisma.XOR<Prisma.TaskActivityCreateWithoutTaskInput, Prisma.TaskActivityUncheckedCreateWithoutTaskInput>
+}
+
+export type TaskActivityUpdateWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskActivityUpdateWithoutTaskInput, Prisma.TaskActivityUncheckedUpdateWithoutTaskInput>
+}
+
+export type TaskActivityUpdateManyWithWhereWithoutTaskInput = {
+  where: Prisma.TaskActivityScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskActivityUpdateManyMutationInput, Prisma.TaskActivityUncheckedUpdateManyWithoutTaskInput>
+}
+
+export type TaskActivityScalarWhereInput = {
+  AND?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+  OR?: Prisma.TaskActivityScalarWhereInput[]
+  NOT?: Prisma.TaskActivityScalarWhereInput | Prisma.TaskActivityScalarWhereInput[]
+  id?: Prisma.IntFilter<"TaskActivity"> | number
+  taskId?: Prisma.IntFilter<"TaskActivity"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  actorId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  action?: Prisma.EnumTaskActivityActionFilter<"TaskActivity"> | $Enums.TaskActivityAction
+  targetUserId?: Prisma.IntNullableFilter<"TaskActivity"> | number | null
+  before?: Prisma.JsonNullableFilter<"TaskActivity">
+  after?: Prisma.JsonNullableFilter<"TaskActivity">
+  reason?: Prisma.StringNullableFilter<"TaskActivity"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"TaskActivity"> | Date | string
+}
+
+export type TaskActivityCreateWithoutSubTaskInput = {
+  action: $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutActivitiesInput
+  actor?: Prisma.UserCreateNestedOneWithoutTaskActivitiesInput
+  targetUser?: Prisma.UserCreateNestedOneWithoutTargetedActivitiesInput
+}
+
+export type TaskActivityUncheckedCreateWithoutSubTaskInput = {
+  id?: number
+  taskId: number
+  actorId?: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId?: number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityCreateOrConnectWithoutSubTaskInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskActivityCreateWithoutSubTaskInput, Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput>
+}
+
+export type TaskActivityCreateManySubTaskInputEnvelope = {
+  data: Prisma.TaskActivityCreateManySubTaskInput | Prisma.TaskActivityCreateManySubTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskActivityUpsertWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskActivityUpdateWithoutSubTaskInput, Prisma.TaskActivityUncheckedUpdateWithoutSubTaskInput>
+  create: Prisma.XOR<Prisma.TaskActivityCreateWithoutSubTaskInput, Prisma.TaskActivityUncheckedCreateWithoutSubTaskInput>
+}
+
+export type TaskActivityUpdateWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskActivityUpdateWithoutSubTaskInput, Prisma.TaskActivityUncheckedUpdateWithoutSubTaskInput>
+}
+
+export type TaskActivityUpdateManyWithWhereWithoutSubTaskInput = {
+  where: Prisma.TaskActivityScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskActivityUpdateManyMutationInput, Prisma.TaskActivityUncheckedUpdateManyWithoutSubTaskInput>
+}
+
+export type TaskActivityCreateWithoutActorInput = {
+  action: $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutActivitiesInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutActivitiesInput
+  targetUser?: Prisma.UserCreateNestedOneWithoutTargetedActivitiesInput
+}
+
+export type TaskActivityUncheckedCreateWithoutActorInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId?: number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityCreateOrConnectWithoutActorInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskActivityCreateWithoutActorInput, Prisma.TaskActivityUncheckedCreateWithoutActorInput>
+}
+
+export type TaskActivityCreateManyActorInputEnvelope = {
+  data: Prisma.TaskActivityCreateManyActorInput | Prisma.TaskActivityCreateManyActorInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskActivityCreateWithoutTargetUserInput = {
+  action: $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutActivitiesInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutActivitiesInput
+  actor?: Prisma.UserCreateNestedOneWithoutTaskActivitiesInput
+}
+
+export type TaskActivityUncheckedCreateWithoutTargetUserInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  actorId?: number | null
+  action: $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityCreateOrConnectWithoutTargetUserInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskActivityCreateWithoutTargetUserInput, Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput>
+}
+
+export type TaskActivityCreateManyTargetUserInputEnvelope = {
+  data: Prisma.TaskActivityCreateManyTargetUserInput | Prisma.TaskActivityCreateManyTargetUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskActivityUpsertWithWhereUniqueWithoutActorInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskActivityUpdateWithoutActorInput, Prisma.TaskActivityUncheckedUpdateWithoutActorInput>
+  create: Prisma.XOR<Prisma.TaskActivityCreateWithoutActorInput, Prisma.TaskActivityUncheckedCreateWithoutActorInput>
+}
+
+export type TaskActivityUpdateWithWhereUniqueWithoutActorInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskActivityUpdateWithoutActorInput, Prisma.TaskActivityUncheckedUpdateWithoutActorInput>
+}
+
+export type TaskActivityUpdateManyWithWhereWithoutActorInput = {
+  where: Prisma.TaskActivityScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskActivityUpdateManyMutationInput, Prisma.TaskActivityUncheckedUpdateManyWithoutActorInput>
+}
+
+export type TaskActivityUpsertWithWhereUniqueWithoutTargetUserInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskActivityUpdateWithoutTargetUserInput, Prisma.TaskActivityUncheckedUpdateWithoutTargetUserInput>
+  create: Prisma.XOR<Prisma.TaskActivityCreateWithoutTargetUserInput, Prisma.TaskActivityUncheckedCreateWithoutTargetUserInput>
+}
+
+export type TaskActivityUpdateWithWhereUniqueWithoutTargetUserInput = {
+  where: Prisma.TaskActivityWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskActivityUpdateWithoutTargetUserInput, Prisma.TaskActivityUncheckedUpdateWithoutTargetUserInput>
+}
+
+export type TaskActivityUpdateManyWithWhereWithoutTargetUserInput = {
+  where: Prisma.TaskActivityScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskActivityUpdateManyMutationInput, Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserInput>
+}
+
+export type TaskActivityCreateManyTaskInput = {
+  id?: number
+  subTaskId?: number | null
+  actorId?: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId?: number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityUpdateWithoutTaskInput = {
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subTask?: Prisma.SubTaskUpdateOneWithoutActivitiesNestedInput
+  actor?: Prisma.UserUpdateOneWithoutTaskActivitiesNestedInput
+  targetUser?: Prisma.UserUpdateOneWithoutTargetedActivitiesNestedInput
+}
+
+export type TaskActivityUncheckedUpdateWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  targetUserId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityUncheckedUpdateManyWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  targetUserId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityCreateManySubTaskInput = {
+  id?: number
+  taskId: number
+  actorId?: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId?: number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityUpdateWithoutSubTaskInput = {
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutActivitiesNestedInput
+  actor?: Prisma.UserUpdateOneWithoutTaskActivitiesNestedInput
+  targetUser?: Prisma.UserUpdateOneWithoutTargetedActivitiesNestedInput
+}
+
+export type TaskActivityUncheckedUpdateWithoutSubTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  targetUserId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityUncheckedUpdateManyWithoutSubTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  targetUserId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityCreateManyActorInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  action: $Enums.TaskActivityAction
+  targetUserId?: number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityCreateManyTargetUserInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  actorId?: number | null
+  action: $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: string | null
+  createdAt?: Date | string
+}
+
+export type TaskActivityUpdateWithoutActorInput = {
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutActivitiesNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutActivitiesNestedInput
+  targetUser?: Prisma.UserUpdateOneWithoutTargetedActivitiesNestedInput
+}
+
+export type TaskActivityUncheckedUpdateWithoutActorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  targetUserId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityUncheckedUpdateManyWithoutActorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  targetUserId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityUpdateWithoutTargetUserInput = {
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutActivitiesNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutActivitiesNestedInput
+  actor?: Prisma.UserUpdateOneWithoutTaskActivitiesNestedInput
+}
+
+export type TaskActivityUncheckedUpdateWithoutTargetUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskActivityUncheckedUpdateManyWithoutTargetUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  actorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  action?: Prisma.EnumTaskActivityActionFieldUpdateOperationsInput | $Enums.TaskActivityAction
+  before?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  after?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TaskActivitySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  actorId?: boolean
+  action?: boolean
+  targetUserId?: boolean
+  before?: boolean
+  after?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskActivity$subTaskArgs<ExtArgs>
+  actor?: boolean | Prisma.TaskActivity$actorArgs<ExtArgs>
+  targetUser?: boolean | Prisma.TaskActivity$targetUserArgs<ExtArgs>
+}, ExtArgs["result"]["taskActivity"]>
+
+export type TaskActivitySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  actorId?: boolean
+  action?: boolean
+  targetUserId?: boolean
+  before?: boolean
+  after?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskActivity$subTaskArgs<ExtArgs>
+  actor?: boolean | Prisma.TaskActivity$actorArgs<ExtArgs>
+  targetUser?: boolean | Prisma.TaskActivity$targetUserArgs<ExtArgs>
+}, ExtArgs["result"]["taskActivity"]>
+
+export type TaskActivitySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  actorId?: boolean
+  action?: boolean
+  targetUserId?: boolean
+  before?: boolean
+  after?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskActivity$subTaskArgs<ExtArgs>
+  actor?: boolean | Prisma.TaskActivity$actorArgs<ExtArgs>
+  targetUser?: boolean | Prisma.TaskActivity$targetUserArgs<ExtArgs>
+}, ExtArgs["result"]["taskActivity"]>
+
+export type TaskActivitySelectScalar = {
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  actorId?: boolean
+  action?: boolean
+  targetUserId?: boolean
+  before?: boolean
+  after?: boolean
+  reason?: boolean
+  createdAt?: boolean
+}
+
+export type TaskActivityOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "taskId" | "subTaskId" | "actorId" | "action" | "targetUserId" | "before" | "after" | "reason" | "createdAt", ExtArgs["result"]["taskActivity"]>
+export type TaskActivityInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskActivity$subTaskArgs<ExtArgs>
+  actor?: boolean | Prisma.TaskActivity$actorArgs<ExtArgs>
+  targetUser?: boolean | Prisma.TaskActivity$targetUserArgs<ExtArgs>
+}
+export type TaskActivityIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskActivity$subTaskArgs<ExtArgs>
+  actor?: boolean | Prisma.TaskActivity$actorArgs<ExtArgs>
+  targetUser?: boolean | Prisma.TaskActivity$targetUserArgs<ExtArgs>
+}
+export type TaskActivityIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskActivity$subTaskArgs<ExtArgs>
+  actor?: boolean | Prisma.TaskActivity$actorArgs<ExtArgs>
+  targetUser?: boolean | Prisma.TaskActivity$targetUserArgs<ExtArgs>
+}
+
+export type $TaskActivityPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TaskActivity"
+  objects: {
+    task: Prisma.$TaskPayload<ExtArgs>
+    subTask: Prisma.$SubTaskPayload<ExtArgs> | null
+    actor: Prisma.$UserPayload<ExtArgs> | null
+    targetUser: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    taskId: number
+    subTaskId: number | null
+    actorId: number | null
+    action: $Enums.TaskActivityAction
+    targetUserId: number | null
+    before: runtime.JsonValue | null
+    after: runtime.JsonValue | null
+    reason: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["taskActivity"]>
+  composites: {}
+}
+
+export type TaskActivityGetPayload<S extends boolean | null | undefined | TaskActivityDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload, S>
+
+export type TaskActivityCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TaskActivityFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TaskActivityCountAggregateInputType | true
+  }
+
+export interface TaskActivityDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TaskActivity'], meta: { name: 'TaskActivity' } }
+  /**
+   * Find zero or one TaskActivity that matches the filter.
+   * @param {TaskActivityFindUniqueArgs} args - Arguments to find a TaskActivity
+   * @example
+   * // Get one TaskActivity
+   * const taskActivity = await prisma.taskActivity.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TaskActivityFindUniqueArgs>(args: Prisma.SelectSubset<T, TaskActivityFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TaskActivityClient<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TaskActivity that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TaskActivityFindUniqueOrThrowArgs} args - Arguments to find a TaskActivity
+   * @example
+   * // Get one TaskActivity
+   * const taskActivity = await prisma.taskActivity.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TaskActivityFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TaskActivityFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskActivityClient<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskActivity that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskActivityFindFirstArgs} args - Arguments to find a TaskActivity
+   * @example
+   * // Get one TaskActivity
+   * const taskActivity = await prisma.taskActivity.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TaskActivityFindFirstArgs>(args?: Prisma.SelectSubset<T, TaskActivityFindFirstArgs<ExtArgs>>): Prisma.Prisma__TaskActivityClient<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskActivity that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskActivityFindFirstOrThrowArgs} args - Arguments to find a TaskActivity
+   * @example
+   * // Get one TaskActivity
+   * const taskActivity = await prisma.taskActivity.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TaskActivityFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TaskActivityFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskActivityClient<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TaskActivities that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskActivityFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TaskActivities
+   * const taskActivities = await prisma.taskActivity.findMany()
+   * 
+   * // Get first 10 TaskActivities
+   * const taskActivities = await prisma.taskActivity.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const taskActivityWithIdOnly = await prisma.taskActivity.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TaskActivityFindManyArgs>(args?: Prisma.SelectSubset<T, TaskActivityFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TaskActivity.
+   * @param {TaskActivityCreateArgs} args - Arguments to create a TaskActivity.
+   * @example
+   * // Create one TaskActivity
+   * const TaskActivity = await prisma.taskActivity.create({
+   *   data: {
+   *     // ... data to create a TaskActivity
+   *   }
+   * })
+   * 
+   */
+  create<T extends TaskActivityCreateArgs>(args: Prisma.SelectSubset<T, TaskActivityCreateArgs<ExtArgs>>): Prisma.Prisma__TaskActivityClient<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TaskActivities.
+   * @param {TaskActivityCreateManyArgs} args - Arguments to create many TaskActivities.
+   * @example
+   * // Create many TaskActivities
+   * const taskActivity = await prisma.taskActivity.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TaskActivityCreateManyArgs>(args?: Prisma.SelectSubset<T, TaskActivityCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TaskActivities and returns the data saved in the database.
+   * @param {TaskActivityCreateManyAndReturnArgs} args - Arguments to create many TaskActivities.
+   * @example
+   * // Create many TaskActivities
+   * const taskActivity = await prisma.taskActivity.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TaskActivities and only return the `id`
+   * const taskActivityWithIdOnly = await prisma.taskActivity.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TaskActivityCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TaskActivityCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TaskActivity.
+   * @param {TaskActivityDeleteArgs} args - Arguments to delete one TaskActivity.
+   * @example
+   * // Delete one TaskActivity
+   * const TaskActivity = await prisma.taskActivity.delete({
+   *   where: {
+   *     // ... filter to delete one TaskActivity
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TaskActivityDeleteArgs>(args: Prisma.SelectSubset<T, TaskActivityDeleteArgs<ExtArgs>>): Prisma.Prisma__TaskActivityClient<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TaskActivity.
+   * @param {TaskActivityUpdateArgs} args - Arguments to update one TaskActivity.
+   * @example
+   * // Update one TaskActivity
+   * const taskActivity = await prisma.taskActivity.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TaskActivityUpdateArgs>(args: Prisma.SelectSubset<T, TaskActivityUpdateArgs<ExtArgs>>): Prisma.Prisma__TaskActivityClient<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TaskActivities.
+   * @param {TaskActivityDeleteManyArgs} args - Arguments to filter TaskActivities to delete.
+   * @example
+   * // Delete a few TaskActivities
+   * const { count } = await prisma.taskActivity.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TaskActivityDeleteManyArgs>(args?: Prisma.SelectSubset<T, TaskActivityDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskActivities.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskActivityUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TaskActivities
+   * const taskActivity = await prisma.taskActivity.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TaskActivityUpdateManyArgs>(args: Prisma.SelectSubset<T, TaskActivityUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskActivities and returns the data updated in the database.
+   * @param {TaskActivityUpdateManyAndReturnArgs} args - Arguments to update many TaskActivities.
+   * @example
+   * // Update many TaskActivities
+   * const taskActivity = await prisma.taskActivity.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TaskActivities and only return the `id`
+   * const taskActivityWithIdOnly = await prisma.taskActivity.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TaskActivityUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TaskActivityUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TaskActivity.
+   * @param {TaskActivityUpsertArgs} args - Arguments to update or create a TaskActivity.
+   * @example
+   * // Update or create a TaskActivity
+   * const taskActivity = await prisma.taskActivity.upsert({
+   *   create: {
+   *     // ... data to create a TaskActivity
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TaskActivity we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TaskActivityUpsertArgs>(args: Prisma.SelectSubset<T, TaskActivityUpsertArgs<ExtArgs>>): Prisma.Prisma__TaskActivityClient<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TaskActivities.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskActivityCountArgs} args - Arguments to filter TaskActivities to count.
+   * @example
+   * // Count the number of TaskActivities
+   * const count = await prisma.taskActivity.count({
+   *   where: {
+   *     // ... the filter for the TaskActivities we want to count
+   *   }
+   * })
+  **/
+  count<T extends TaskActivityCountArgs>(
+    args?: Prisma.Subset<T, TaskActivityCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TaskActivityCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TaskActivity.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskActivityAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TaskActivityAggregateArgs>(args: Prisma.Subset<T, TaskActivityAggregateArgs>): Prisma.PrismaPromise<GetTaskActivityAggregateType<T>>
+
+  /**
+   * Group by TaskActivity.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskActivityGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TaskActivityGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TaskActivityGroupByArgs['orderBy'] }
+      : { orderBy?: TaskActivityGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TaskActivityGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTaskActivityGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TaskActivity model
+ */
+readonly fields: TaskActivityFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TaskActivity.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TaskActivityClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  task<T extends Prisma.TaskDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskDefaultArgs<ExtArgs>>): Prisma.Prisma__TaskClient<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  subTask<T extends Prisma.TaskActivity$subTaskArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskActivity$subTaskArgs<ExtArgs>>): Prisma.Prisma__SubTaskClient<runtime.Types.Result.GetResult<Prisma.$SubTaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  actor<T extends Prisma.TaskActivity$actorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskActivity$actorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  targetUser<T extends Prisma.TaskActivity$targetUserArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskActivity$targetUserArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TaskActivity model
+ */
+export interface TaskActivityFieldRefs {
+  readonly id: Prisma.FieldRef<"TaskActivity", 'Int'>
+  readonly taskId: Prisma.FieldRef<"TaskActivity", 'Int'>
+  readonly subTaskId: Prisma.FieldRef<"TaskActivity", 'Int'>
+  readonly actorId: Prisma.FieldRef<"TaskActivity", 'Int'>
+  readonly action: Prisma.FieldRef<"TaskActivity", 'TaskActivityAction'>
+  readonly targetUserId: Prisma.FieldRef<"TaskActivity", 'Int'>
+  readonly before: Prisma.FieldRef<"TaskActivity", 'Json'>
+  readonly after: Prisma.FieldRef<"TaskActivity", 'Json'>
+  readonly reason: Prisma.FieldRef<"TaskActivity", 'String'>
+  readonly createdAt: Prisma.FieldRef<"TaskActivity", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TaskActivity findUnique
+ */
+export type TaskActivityFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskActivity to fetch.
+   */
+  where: Prisma.TaskActivityWhereUniqueInput
+}
+
+/**
+ * TaskActivity findUniqueOrThrow
+ */
+export type TaskActivityFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskActivity to fetch.
+   */
+  where: Prisma.TaskActivityWhereUniqueInput
+}
+
+/**
+ * TaskActivity findFirst
+ */
+export type TaskActivityFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskActivity to fetch.
+   */
+  where?: Prisma.TaskActivityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskActivities to fetch.
+   */
+  orderBy?: Prisma.TaskActivityOrderByWithRelationInput | Prisma.TaskActivityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskActivities.
+   */
+  cursor?: Prisma.TaskActivityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskActivities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskActivities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskActivities.
+   */
+  distinct?: Prisma.TaskActivityScalarFieldEnum | Prisma.TaskActivityScalarFieldEnum[]
+}
+
+/**
+ * TaskActivity findFirstOrThrow
+ */
+export type TaskActivityFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskActivity to fetch.
+   */
+  where?: Prisma.TaskActivityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskActivities to fetch.
+   */
+  orderBy?: Prisma.TaskActivityOrderByWithRelationInput | Prisma.TaskActivityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskActivities.
+   */
+  cursor?: Prisma.TaskActivityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskActivities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskActivities.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskActivities.
+   */
+  distinct?: Prisma.TaskActivityScalarFieldEnum | Prisma.TaskActivityScalarFieldEnum[]
+}
+
+/**
+ * TaskActivity findMany
+ */
+export type TaskActivityFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskActivities to fetch.
+   */
+  where?: Prisma.TaskActivityWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskActivities to fetch.
+   */
+  orderBy?: Prisma.TaskActivityOrderByWithRelationInput | Prisma.TaskActivityOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TaskActivities.
+   */
+  cursor?: Prisma.TaskActivityWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskActivities from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskActivities.
+   */
+  skip?: number
+  distinct?: Prisma.TaskActivityScalarFieldEnum | Prisma.TaskActivityScalarFieldEnum[]
+}
+
+/**
+ * TaskActivity create
+ */
+export type TaskActivityCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TaskActivity.
+   */
+  data: Prisma.XOR<Prisma.TaskActivityCreateInput, Prisma.TaskActivityUncheckedCreateInput>
+}
+
+/**
+ * TaskActivity createMany
+ */
+export type TaskActivityCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TaskActivities.
+   */
+  data: Prisma.TaskActivityCreateManyInput | Prisma.TaskActivityCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaskActivity createManyAndReturn
+ */
+export type TaskActivityCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * The data used to create many TaskActivities.
+   */
+  data: Prisma.TaskActivityCreateManyInput | Prisma.TaskActivityCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskActivity update
+ */
+export type TaskActivityUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TaskActivity.
+   */
+  data: Prisma.XOR<Prisma.TaskActivityUpdateInput, Prisma.TaskActivityUncheckedUpdateInput>
+  /**
+   * Choose, which TaskActivity to update.
+   */
+  where: Prisma.TaskActivityWhereUniqueInput
+}
+
+/**
+ * TaskActivity updateMany
+ */
+export type TaskActivityUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TaskActivities.
+   */
+  data: Prisma.XOR<Prisma.TaskActivityUpdateManyMutationInput, Prisma.TaskActivityUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskActivities to update
+   */
+  where?: Prisma.TaskActivityWhereInput
+  /**
+   * Limit how many TaskActivities to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaskActivity updateManyAndReturn
+ */
+export type TaskActivityUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * The data used to update TaskActivities.
+   */
+  data: Prisma.XOR<Prisma.TaskActivityUpdateManyMutationInput, Prisma.TaskActivityUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskActivities to update
+   */
+  where?: Prisma.TaskActivityWhereInput
+  /**
+   * Limit how many TaskActivities to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskActivity upsert
+ */
+export type TaskActivityUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TaskActivity to update in case it exists.
+   */
+  where: Prisma.TaskActivityWhereUniqueInput
+  /**
+   * In case the TaskActivity found by the `where` argument doesn't exist, create a new TaskActivity with this data.
+   */
+  create: Prisma.XOR<Prisma.TaskActivityCreateInput, Prisma.TaskActivityUncheckedCreateInput>
+  /**
+   * In case the TaskActivity was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TaskActivityUpdateInput, Prisma.TaskActivityUncheckedUpdateInput>
+}
+
+/**
+ * TaskActivity delete
+ */
+export type TaskActivityDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  /**
+   * Filter which TaskActivity to delete.
+   */
+  where: Prisma.TaskActivityWhereUniqueInput
+}
+
+/**
+ * TaskActivity deleteMany
+ */
+export type TaskActivityDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskActivities to delete
+   */
+  where?: Prisma.TaskActivityWhereInput
+  /**
+   * Limit how many TaskActivities to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TaskActivity.subTask
+ */
+export type TaskActivity$subTaskArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTask
+   */
+  select?: Prisma.SubTaskSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTask
+   */
+  omit?: Prisma.SubTaskOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskInclude<ExtArgs> | null
+  where?: Prisma.SubTaskWhereInput
+}
+
+/**
+ * TaskActivity.actor
+ */
+export type TaskActivity$actorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * TaskActivity.targetUser
+ */
+export type TaskActivity$targetUserArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * TaskActivity without action
+ */
+export type TaskActivityDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+}
@@ -27,106 +27,144 @@ export type AggregateTaskAssignee = {
 }
 
 export type TaskAssigneeAvgAggregateOutputType = {
+  id: number | null
   taskId: number | null
   assigneeId: number | null
   assignedById: number | null
+  round: number | null
 }
 
 export type TaskAssigneeSumAggregateOutputType = {
+  id: number | null
   taskId: number | null
   assigneeId: number | null
   assignedById: number | null
+  round: number | null
 }
 
 export type TaskAssigneeMinAggregateOutputType = {
+  id: number | null
   taskId: number | null
   assigneeId: number | null
   assignedById: number | null
+  round: number | null
+  isCurrent: boolean | null
   status: $Enums.AssignmentStatus | null
   reason: string | null
   assignedAt: Date | null
   acceptedAt: Date | null
   declinedAt: Date | null
   completedAt: Date | null
+  sentBackAt: Date | null
+  sentBackReason: string | null
   updatedAt: Date | null
 }
 
 export type TaskAssigneeMaxAggregateOutputType = {
+  id: number | null
   taskId: number | null
   assigneeId: number | null
   assignedById: number | null
+  round: number | null
+  isCurrent: boolean | null
   status: $Enums.AssignmentStatus | null
   reason: string | null
   assignedAt: Date | null
   acceptedAt: Date | null
   declinedAt: Date | null
   completedAt: Date | null
+  sentBackAt: Date | null
+  sentBackReason: string | null
   updatedAt: Date | null
 }
 
 export type TaskAssigneeCountAggregateOutputType = {
+  id: number
   taskId: number
   assigneeId: number
   assignedById: number
+  round: number
+  isCurrent: number
   status: number
   reason: number
   assignedAt: number
   acceptedAt: number
   declinedAt: number
   completedAt: number
+  sentBackAt: number
+  sentBackReason: number
   updatedAt: number
   _all: number
 }
 
 
 export type TaskAssigneeAvgAggregateInputType = {
+  id?: true
   taskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
 }
 
 export type TaskAssigneeSumAggregateInputType = {
+  id?: true
   taskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
 }
 
 export type TaskAssigneeMinAggregateInputType = {
+  id?: true
   taskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
+  isCurrent?: true
   status?: true
   reason?: true
   assignedAt?: true
   acceptedAt?: true
   declinedAt?: true
   completedAt?: true
+  sentBackAt?: true
+  sentBackReason?: true
   updatedAt?: true
 }
 
 export type TaskAssigneeMaxAggregateInputType = {
+  id?: true
   taskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
+  isCurrent?: true
   status?: true
   reason?: true
   assignedAt?: true
   acceptedAt?: true
   declinedAt?: true
   completedAt?: true
+  sentBackAt?: true
+  sentBackReason?: true
   updatedAt?: true
 }
 
 export type TaskAssigneeCountAggregateInputType = {
+  id?: true
   taskId?: true
   assigneeId?: true
   assignedById?: true
+  round?: true
+  isCurrent?: true
   status?: true
   reason?: true
   assignedAt?: true
   acceptedAt?: true
   declinedAt?: true
   completedAt?: true
+  sentBackAt?: true
+  sentBackReason?: true
   updatedAt?: true
   _all?: true
 }
@@ -218,15 +256,20 @@ export type TaskAssigneeGroupByArgs<ExtArgs extends runtime.Types.Extensions.Int
 }
 
 export type TaskAssigneeGroupByOutputType = {
+  id: number
   taskId: number
   assigneeId: number
   assignedById: number
+  round: number
+  isCurrent: boolean
   status: $Enums.AssignmentStatus
   reason: string | null
   assignedAt: Date
   acceptedAt: Date | null
   declinedAt: Date | null
   completedAt: Date | null
+  sentBackAt: Date | null
+  sentBackReason: string | null
   updatedAt: Date
   _count: TaskAssigneeCountAggregateOutputType | null
   _avg: TaskAssigneeAvgAggregateOutputType | null
@@ -254,15 +297,20 @@ export type TaskAssigneeWhereInput = {
   AND?: Prisma.TaskAssigneeWhereInput | Prisma.TaskAssigneeWhereInput[]
   OR?: Prisma.TaskAssigneeWhereInput[]
   NOT?: Prisma.TaskAssigneeWhereInput | Prisma.TaskAssigneeWhereInput[]
+  id?: Prisma.IntFilter<"TaskAssignee"> | number
   taskId?: Prisma.IntFilter<"TaskAssignee"> | number
   assigneeId?: Prisma.IntFilter<"TaskAssignee"> | number
   assignedById?: Prisma.IntFilter<"TaskAssignee"> | number
+  round?: Prisma.IntFilter<"TaskAssignee"> | number
+  isCurrent?: Prisma.BoolFilter<"TaskAssignee"> | boolean
   status?: Prisma.EnumAssignmentStatusFilter<"TaskAssignee"> | $Enums.AssignmentStatus
   reason?: Prisma.StringNullableFilter<"TaskAssignee"> | string | null
   assignedAt?: Prisma.DateTimeFilter<"TaskAssignee"> | Date | string
   acceptedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
   declinedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
   completedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
+  sentBackAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
+  sentBackReason?: Prisma.StringNullableFilter<"TaskAssignee"> | string | null
   updatedAt?: Prisma.DateTimeFilter<"TaskAssignee"> | Date | string
   task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
   assignee?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
@@ -270,15 +318,20 @@ export type TaskAssigneeWhereInput = {
 }
 
 export type TaskAssigneeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
   taskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrderInput | Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   declinedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrderInput | Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   task?: Prisma.TaskOrderByWithRelationInput
   assignee?: Prisma.UserOrderByWithRelationInput
@@ -286,35 +339,45 @@ export type TaskAssigneeOrderByWithRelationInput = {
 }
 
 export type TaskAssigneeWhereUniqueInput = Prisma.AtLeast<{
-  taskId_assigneeId?: Prisma.TaskAssigneeTaskIdAssigneeIdCompoundUniqueInput
+  id?: number
+  taskId_assigneeId_round?: Prisma.TaskAssigneeTaskIdAssigneeIdRoundCompoundUniqueInput
   AND?: Prisma.TaskAssigneeWhereInput | Prisma.TaskAssigneeWhereInput[]
   OR?: Prisma.TaskAssigneeWhereInput[]
   NOT?: Prisma.TaskAssigneeWhereInput | Prisma.TaskAssigneeWhereInput[]
   taskId?: Prisma.IntFilter<"TaskAssignee"> | number
   assigneeId?: Prisma.IntFilter<"TaskAssignee"> | number
   assignedById?: Prisma.IntFilter<"TaskAssignee"> | number
+  round?: Prisma.IntFilter<"TaskAssignee"> | number
+  isCurrent?: Prisma.BoolFilter<"TaskAssignee"> | boolean
   status?: Prisma.EnumAssignmentStatusFilter<"TaskAssignee"> | $Enums.AssignmentStatus
   reason?: Prisma.StringNullableFilter<"TaskAssignee"> | string | null
   assignedAt?: Prisma.DateTimeFilter<"TaskAssignee"> | Date | string
   acceptedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
   declinedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
   completedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
+  sentBackAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
+  sentBackReason?: Prisma.StringNullableFilter<"TaskAssignee"> | string | null
   updatedAt?: Prisma.DateTimeFilter<"TaskAssignee"> | Date | string
   task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
   assignee?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   assignedBy?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
-}, "taskId_assigneeId">
+}, "id" | "taskId_assigneeId_round">
 
 export type TaskAssigneeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
   taskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrderInput | Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   declinedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   completedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrderInput | Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.TaskAssigneeCountOrderByAggregateInput
   _avg?: Prisma.TaskAssigneeAvgOrderByAggregateInput
@@ -327,25 +390,34 @@ export type TaskAssigneeScalarWhereWithAggregatesInput = {
   AND?: Prisma.TaskAssigneeScalarWhereWithAggregatesInput | Prisma.TaskAssigneeScalarWhereWithAggregatesInput[]
   OR?: Prisma.TaskAssigneeScalarWhereWithAggregatesInput[]
   NOT?: Prisma.TaskAssigneeScalarWhereWithAggregatesInput | Prisma.TaskAssigneeScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"TaskAssignee"> | number
   taskId?: Prisma.IntWithAggregatesFilter<"TaskAssignee"> | number
   assigneeId?: Prisma.IntWithAggregatesFilter<"TaskAssignee"> | number
   assignedById?: Prisma.IntWithAggregatesFilter<"TaskAssignee"> | number
+  round?: Prisma.IntWithAggregatesFilter<"TaskAssignee"> | number
+  isCurrent?: Prisma.BoolWithAggregatesFilter<"TaskAssignee"> | boolean
   status?: Prisma.EnumAssignmentStatusWithAggregatesFilter<"TaskAssignee"> | $Enums.AssignmentStatus
   reason?: Prisma.StringNullableWithAggregatesFilter<"TaskAssignee"> | string | null
   assignedAt?: Prisma.DateTimeWithAggregatesFilter<"TaskAssignee"> | Date | string
   acceptedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"TaskAssignee"> | Date | string | null
   declinedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"TaskAssignee"> | Date | string | null
   completedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"TaskAssignee"> | Date | string | null
+  sentBackAt?: Prisma.DateTimeNullableWithAggregatesFilter<"TaskAssignee"> | Date | string | null
+  sentBackReason?: Prisma.StringNullableWithAggregatesFilter<"TaskAssignee"> | string | null
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"TaskAssignee"> | Date | string
 }
 
 export type TaskAssigneeCreateInput = {
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
   task: Prisma.TaskCreateNestedOneWithoutAssigneesInput
   assignee: Prisma.UserCreateNestedOneWithoutAssignedTasksInput
@@ -353,25 +425,34 @@ export type TaskAssigneeCreateInput = {
 }
 
 export type TaskAssigneeUncheckedCreateInput = {
+  id?: number
   taskId: number
   assigneeId: number
   assignedById: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type TaskAssigneeUpdateInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   task?: Prisma.TaskUpdateOneRequiredWithoutAssigneesNestedInput
   assignee?: Prisma.UserUpdateOneRequiredWithoutAssignedTasksNestedInput
@@ -379,51 +460,70 @@ export type TaskAssigneeUpdateInput = {
 }
 
 export type TaskAssigneeUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   taskId?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type TaskAssigneeCreateManyInput = {
+  id?: number
   taskId: number
   assigneeId: number
   assignedById: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type TaskAssigneeUpdateManyMutationInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type TaskAssigneeUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   taskId?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
@@ -437,60 +537,80 @@ export type TaskAssigneeOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
-export type TaskAssigneeTaskIdAssigneeIdCompoundUniqueInput = {
+export type TaskAssigneeTaskIdAssigneeIdRoundCompoundUniqueInput = {
   taskId: number
   assigneeId: number
+  round: number
 }
 
 export type TaskAssigneeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   taskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrder
   declinedAt?: Prisma.SortOrder
   completedAt?: Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type TaskAssigneeAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   taskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
 }
 
 export type TaskAssigneeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   taskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrder
   declinedAt?: Prisma.SortOrder
   completedAt?: Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type TaskAssigneeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   taskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
+  isCurrent?: Prisma.SortOrder
   status?: Prisma.SortOrder
   reason?: Prisma.SortOrder
   assignedAt?: Prisma.SortOrder
   acceptedAt?: Prisma.SortOrder
   declinedAt?: Prisma.SortOrder
   completedAt?: Prisma.SortOrder
+  sentBackAt?: Prisma.SortOrder
+  sentBackReason?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type TaskAssigneeSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
   taskId?: Prisma.SortOrder
   assigneeId?: Prisma.SortOrder
   assignedById?: Prisma.SortOrder
+  round?: Prisma.SortOrder
 }
 
 export type TaskAssigneeCreateNestedManyWithoutTaskInput = {
@@ -624,26 +744,35 @@ export type TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput = {
 }
 
 export type TaskAssigneeCreateWithoutTaskInput = {
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
   assignee: Prisma.UserCreateNestedOneWithoutAssignedTasksInput
   assignedBy: Prisma.UserCreateNestedOneWithoutDelegatedTasksInput
 }
 
 export type TaskAssigneeUncheckedCreateWithoutTaskInput = {
+  id?: number
   assigneeId: number
   assignedById: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
@@ -677,39 +806,53 @@ export type TaskAssigneeScalarWhereInput = {
   AND?: Prisma.TaskAssigneeScalarWhereInput | Prisma.TaskAssigneeScalarWhereInput[]
   OR?: Prisma.TaskAssigneeScalarWhereInput[]
   NOT?: Prisma.TaskAssigneeScalarWhereInput | Prisma.TaskAssigneeScalarWhereInput[]
+  id?: Prisma.IntFilter<"TaskAssignee"> | number
   taskId?: Prisma.IntFilter<"TaskAssignee"> | number
   assigneeId?: Prisma.IntFilter<"TaskAssignee"> | number
   assignedById?: Prisma.IntFilter<"TaskAssignee"> | number
+  round?: Prisma.IntFilter<"TaskAssignee"> | number
+  isCurrent?: Prisma.BoolFilter<"TaskAssignee"> | boolean
   status?: Prisma.EnumAssignmentStatusFilter<"TaskAssignee"> | $Enums.AssignmentStatus
   reason?: Prisma.StringNullableFilter<"TaskAssignee"> | string | null
   assignedAt?: Prisma.DateTimeFilter<"TaskAssignee"> | Date | string
   acceptedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
   declinedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
   completedAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
+  sentBackAt?: Prisma.DateTimeNullableFilter<"TaskAssignee"> | Date | string | null
+  sentBackReason?: Prisma.StringNullableFilter<"TaskAssignee"> | string | null
   updatedAt?: Prisma.DateTimeFilter<"TaskAssignee"> | Date | string
 }
 
 export type TaskAssigneeCreateWithoutAssigneeInput = {
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
   task: Prisma.TaskCreateNestedOneWithoutAssigneesInput
   assignedBy: Prisma.UserCreateNestedOneWithoutDelegatedTasksInput
 }
 
 export type TaskAssigneeUncheckedCreateWithoutAssigneeInput = {
+  id?: number
   taskId: number
   assignedById: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
@@ -724,26 +867,35 @@ export type TaskAssigneeCreateManyAssigneeInputEnvelope = {
 }
 
 export type TaskAssigneeCreateWithoutAssignedByInput = {
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
   task: Prisma.TaskCreateNestedOneWithoutAssigneesInput
   assignee: Prisma.UserCreateNestedOneWithoutAssignedTasksInput
 }
 
 export type TaskAssigneeUncheckedCreateWithoutAssignedByInput = {
+  id?: number
   taskId: number
   assigneeId: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
@@ -790,161 +942,223 @@ export type TaskAssigneeUpdateManyWithWhereWithoutAssignedByInput = {
 }
 
 export type TaskAssigneeCreateManyTaskInput = {
+  id?: number
   assigneeId: number
   assignedById: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type TaskAssigneeUpdateWithoutTaskInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   assignee?: Prisma.UserUpdateOneRequiredWithoutAssignedTasksNestedInput
   assignedBy?: Prisma.UserUpdateOneRequiredWithoutDelegatedTasksNestedInput
 }
 
 export type TaskAssigneeUncheckedUpdateWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type TaskAssigneeUncheckedUpdateManyWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type TaskAssigneeCreateManyAssigneeInput = {
+  id?: number
   taskId: number
   assignedById: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type TaskAssigneeCreateManyAssignedByInput = {
+  id?: number
   taskId: number
   assigneeId: number
+  round?: number
+  isCurrent?: boolean
   status?: $Enums.AssignmentStatus
   reason?: string | null
   assignedAt?: Date | string
   acceptedAt?: Date | string | null
   declinedAt?: Date | string | null
   completedAt?: Date | string | null
+  sentBackAt?: Date | string | null
+  sentBackReason?: string | null
   updatedAt?: Date | string
 }
 
 export type TaskAssigneeUpdateWithoutAssigneeInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   task?: Prisma.TaskUpdateOneRequiredWithoutAssigneesNestedInput
   assignedBy?: Prisma.UserUpdateOneRequiredWithoutDelegatedTasksNestedInput
 }
 
 export type TaskAssigneeUncheckedUpdateWithoutAssigneeInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   taskId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type TaskAssigneeUncheckedUpdateManyWithoutAssigneeInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   taskId?: Prisma.IntFieldUpdateOperationsInput | number
   assignedById?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type TaskAssigneeUpdateWithoutAssignedByInput = {
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   task?: Prisma.TaskUpdateOneRequiredWithoutAssigneesNestedInput
   assignee?: Prisma.UserUpdateOneRequiredWithoutAssignedTasksNestedInput
 }
 
 export type TaskAssigneeUncheckedUpdateWithoutAssignedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   taskId?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type TaskAssigneeUncheckedUpdateManyWithoutAssignedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
   taskId?: Prisma.IntFieldUpdateOperationsInput | number
   assigneeId?: Prisma.IntFieldUpdateOperationsInput | number
+  round?: Prisma.IntFieldUpdateOperationsInput | number
+  isCurrent?: Prisma.BoolFieldUpdateOperationsInput | boolean
   status?: Prisma.EnumAssignmentStatusFieldUpdateOperationsInput | $Enums.AssignmentStatus
   reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   assignedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   acceptedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   declinedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   completedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  sentBackReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
 
 export type TaskAssigneeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
   taskId?: boolean
   assigneeId?: boolean
   assignedById?: boolean
+  round?: boolean
+  isCurrent?: boolean
   status?: boolean
   reason?: boolean
   assignedAt?: boolean
   acceptedAt?: boolean
   declinedAt?: boolean
   completedAt?: boolean
+  sentBackAt?: boolean
+  sentBackReason?: boolean
   updatedAt?: boolean
   task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
   assignee?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -952,15 +1166,20 @@ export type TaskAssigneeSelect<ExtArgs extends runtime.Types.Extensions.Internal
 }, ExtArgs["result"]["taskAssignee"]>
 
 export type TaskAssigneeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
   taskId?: boolean
   assigneeId?: boolean
   assignedById?: boolean
+  round?: boolean
+  isCurrent?: boolean
   status?: boolean
   reason?: boolean
   assignedAt?: boolean
   acceptedAt?: boolean
   declinedAt?: boolean
   completedAt?: boolean
+  sentBackAt?: boolean
+  sentBackReason?: boolean
   updatedAt?: boolean
   task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
   assignee?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -968,15 +1187,20 @@ export type TaskAssigneeSelectCreateManyAndReturn<ExtArgs extends runtime.Types.
 }, ExtArgs["result"]["taskAssignee"]>
 
 export type TaskAssigneeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
   taskId?: boolean
   assigneeId?: boolean
   assignedById?: boolean
+  round?: boolean
+  isCurrent?: boolean
   status?: boolean
   reason?: boolean
   assignedAt?: boolean
   acceptedAt?: boolean
   declinedAt?: boolean
   completedAt?: boolean
+  sentBackAt?: boolean
+  sentBackReason?: boolean
   updatedAt?: boolean
   task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
   assignee?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -984,19 +1208,24 @@ export type TaskAssigneeSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.
 }, ExtArgs["result"]["taskAssignee"]>
 
 export type TaskAssigneeSelectScalar = {
+  id?: boolean
   taskId?: boolean
   assigneeId?: boolean
   assignedById?: boolean
+  round?: boolean
+  isCurrent?: boolean
   status?: boolean
   reason?: boolean
   assignedAt?: boolean
   acceptedAt?: boolean
   declinedAt?: boolean
   completedAt?: boolean
+  sentBackAt?: boolean
+  sentBackReason?: boolean
   updatedAt?: boolean
 }
 
-export type TaskAssigneeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"taskId" | "assigneeId" | "assignedById" | "status" | "reason" | "assignedAt" | "acceptedAt" | "declinedAt" | "completedAt" | "updatedAt", ExtArgs["result"]["taskAssignee"]>
+export type TaskAssigneeOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "taskId" | "assigneeId" | "assignedById" | "round" | "isCurrent" | "status" | "reason" | "assignedAt" | "acceptedAt" | "declinedAt" | "completedAt" | "sentBackAt" | "sentBackReason" | "updatedAt", ExtArgs["result"]["taskAssignee"]>
 export type TaskAssigneeInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
   assignee?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -1021,15 +1250,20 @@ export type $TaskAssigneePayload<ExtArgs extends runtime.Types.Extensions.Intern
     assignedBy: Prisma.$UserPayload<ExtArgs>
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
     taskId: number
     assigneeId: number
     assignedById: number
+    round: number
+    isCurrent: boolean
     status: $Enums.AssignmentStatus
     reason: string | null
     assignedAt: Date
     acceptedAt: Date | null
     declinedAt: Date | null
     completedAt: Date | null
+    sentBackAt: Date | null
+    sentBackReason: string | null
     updatedAt: Date
   }, ExtArgs["result"]["taskAssignee"]>
   composites: {}
@@ -1114,8 +1348,8 @@ export interface TaskAssigneeDelegate<ExtArgs extends runtime.Types.Extensions.I
    * // Get first 10 TaskAssignees
    * const taskAssignees = await prisma.taskAssignee.findMany({ take: 10 })
    * 
-   * // Only select the `taskId`
-   * const taskAssigneeWithTaskIdOnly = await prisma.taskAssignee.findMany({ select: { taskId: true } })
+   * // Only select the `id`
+   * const taskAssigneeWithIdOnly = await prisma.taskAssignee.findMany({ select: { id: true } })
    * 
    */
   findMany<T extends TaskAssigneeFindManyArgs>(args?: Prisma.SelectSubset<T, TaskAssigneeFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskAssigneePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
@@ -1159,9 +1393,9 @@ export interface TaskAssigneeDelegate<ExtArgs extends runtime.Types.Extensions.I
    *   ]
    * })
    * 
-   * // Create many TaskAssignees and only return the `taskId`
-   * const taskAssigneeWithTaskIdOnly = await prisma.taskAssignee.createManyAndReturn({
-   *   select: { taskId: true },
+   * // Create many TaskAssignees and only return the `id`
+   * const taskAssigneeWithIdOnly = await prisma.taskAssignee.createManyAndReturn({
+   *   select: { id: true },
    *   data: [
    *     // ... provide data here
    *   ]
@@ -1250,9 +1484,9 @@ export interface TaskAssigneeDelegate<ExtArgs extends runtime.Types.Extensions.I
    *   ]
    * })
    * 
-   * // Update zero or more TaskAssignees and only return the `taskId`
-   * const taskAssigneeWithTaskIdOnly = await prisma.taskAssignee.updateManyAndReturn({
-   *   select: { taskId: true },
+   * // Update zero or more TaskAssignees and only return the `id`
+   * const taskAssigneeWithIdOnly = await prisma.taskAssignee.updateManyAndReturn({
+   *   select: { id: true },
    *   where: {
    *     // ... provide filter here
    *   },
@@ -1457,15 +1691,20 @@ export interface Prisma__TaskAssigneeClient<T, Null = never, ExtArgs extends run
  * Fields of the TaskAssignee model
  */
 export interface TaskAssigneeFieldRefs {
+  readonly id: Prisma.FieldRef<"TaskAssignee", 'Int'>
   readonly taskId: Prisma.FieldRef<"TaskAssignee", 'Int'>
   readonly assigneeId: Prisma.FieldRef<"TaskAssignee", 'Int'>
   readonly assignedById: Prisma.FieldRef<"TaskAssignee", 'Int'>
+  readonly round: Prisma.FieldRef<"TaskAssignee", 'Int'>
+  readonly isCurrent: Prisma.FieldRef<"TaskAssignee", 'Boolean'>
   readonly status: Prisma.FieldRef<"TaskAssignee", 'AssignmentStatus'>
   readonly reason: Prisma.FieldRef<"TaskAssignee", 'String'>
   readonly assignedAt: Prisma.FieldRef<"TaskAssignee", 'DateTime'>
   readonly acceptedAt: Prisma.FieldRef<"TaskAssignee", 'DateTime'>
   readonly declinedAt: Prisma.FieldRef<"TaskAssignee", 'DateTime'>
   readonly completedAt: Prisma.FieldRef<"TaskAssignee", 'DateTime'>
+  readonly sentBackAt: Prisma.FieldRef<"TaskAssignee", 'DateTime'>
+  readonly sentBackReason: Prisma.FieldRef<"TaskAssignee", 'String'>
   readonly updatedAt: Prisma.FieldRef<"TaskAssignee", 'DateTime'>
 }
     
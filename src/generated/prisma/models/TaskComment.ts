@@ -0,0 +1,2815 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TaskComment` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TaskComment
+ * 
+ */
+export type TaskCommentModel = runtime.Types.Result.DefaultSelection<Prisma.$TaskCommentPayload>
+
+export type AggregateTaskComment = {
+  _count: TaskCommentCountAggregateOutputType | null
+  _avg: TaskCommentAvgAggregateOutputType | null
+  _sum: TaskCommentSumAggregateOutputType | null
+  _min: TaskCommentMinAggregateOutputType | null
+  _max: TaskCommentMaxAggregateOutputType | null
+}
+
+export type TaskCommentAvgAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  parentId: number | null
+  authorId: number | null
+  deletedById: number | null
+}
+
+export type TaskCommentSumAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  parentId: number | null
+  authorId: number | null
+  deletedById: number | null
+}
+
+export type TaskCommentMinAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  parentId: number | null
+  authorId: number | null
+  body: string | null
+  editedAt: Date | null
+  deletedAt: Date | null
+  deletedById: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TaskCommentMaxAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  parentId: number | null
+  authorId: number | null
+  body: string | null
+  editedAt: Date | null
+  deletedAt: Date | null
+  deletedById: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TaskCommentCountAggregateOutputType = {
+  id: number
+  taskId: number
+  subTaskId: number
+  parentId: number
+  authorId: number
+  body: number
+  editedAt: number
+  deletedAt: number
+  deletedById: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type TaskCommentAvgAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  parentId?: true
+  authorId?: true
+  deletedById?: true
+}
+
+export type TaskCommentSumAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  parentId?: true
+  authorId?: true
+  deletedById?: true
+}
+
+export type TaskCommentMinAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  parentId?: true
+  authorId?: true
+  body?: true
+  editedAt?: true
+  deletedAt?: true
+  deletedById?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TaskCommentMaxAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  parentId?: true
+  authorId?: true
+  body?: true
+  editedAt?: true
+  deletedAt?: true
+  deletedById?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TaskCommentCountAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  parentId?: true
+  authorId?: true
+  body?: true
+  editedAt?: true
+  deletedAt?: true
+  deletedById?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type TaskCommentAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskComment to aggregate.
+   */
+  where?: Prisma.TaskCommentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskComments to fetch.
+   */
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskComments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskComments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TaskComments
+  **/
+  _count?: true | TaskCommentCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TaskCommentAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TaskCommentSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TaskCommentMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TaskCommentMaxAggregateInputType
+}
+
+export type GetTaskCommentAggregateType<T extends TaskCommentAggregateArgs> = {
+      [P in keyof T & keyof AggregateTaskComment]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTaskComment[P]>
+    : Prisma.GetScalarType<T[P], AggregateTaskComment[P]>
+}
+
+
+
+
+export type TaskCommentGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentWhereInput
+  orderBy?: Prisma.TaskCommentOrderByWithAggregationInput | Prisma.TaskCommentOrderByWithAggregationInput[]
+  by: Prisma.TaskCommentScalarFieldEnum[] | Prisma.TaskCommentScalarFieldEnum
+  having?: Prisma.TaskCommentScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TaskCommentCountAggregateInputType | true
+  _avg?: TaskCommentAvgAggregateInputType
+  _sum?: TaskCommentSumAggregateInputType
+  _min?: TaskCommentMinAggregateInputType
+  _max?: TaskCommentMaxAggregateInputType
+}
+
+export type TaskCommentGroupByOutputType = {
+  id: number
+  taskId: number
+  subTaskId: number | null
+  parentId: number | null
+  authorId: number | null
+  body: string
+  editedAt: Date | null
+  deletedAt: Date | null
+  deletedById: number | null
+  createdAt: Date
+  updatedAt: Date
+  _count: TaskCommentCountAggregateOutputType | null
+  _avg: TaskCommentAvgAggregateOutputType | null
+  _sum: TaskCommentSumAggregateOutputType | null
+  _min: TaskCommentMinAggregateOutputType | null
+  _max: TaskCommentMaxAggregateOutputType | null
+}
+
+type GetTaskCommentGroupByPayload<T extends TaskCommentGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TaskCommentGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TaskCommentGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TaskCommentGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TaskCommentGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TaskCommentWhereInput = {
+  AND?: Prisma.TaskCommentWhereInput | Prisma.TaskCommentWhereInput[]
+  OR?: Prisma.TaskCommentWhereInput[]
+  NOT?: Prisma.TaskCommentWhereInput | Prisma.TaskCommentWhereInput[]
+  id?: Prisma.IntFilter<"TaskComment"> | number
+  taskId?: Prisma.IntFilter<"TaskComment"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  parentId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  authorId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  body?: Prisma.StringFilter<"TaskComment"> | string
+  editedAt?: Prisma.DateTimeNullableFilter<"TaskComment"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"TaskComment"> | Date | string | null
+  deletedById?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskComment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TaskComment"> | Date | string
+  task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  subTask?: Prisma.XOR<Prisma.SubTaskNullableScalarRelationFilter, Prisma.SubTaskWhereInput> | null
+  parent?: Prisma.XOR<Prisma.TaskCommentNullableScalarRelationFilter, Prisma.TaskCommentWhereInput> | null
+  replies?: Prisma.TaskCommentListRelationFilter
+  author?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  deletedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  revisions?: Prisma.TaskCommentRevisionListRelationFilter
+  mentions?: Prisma.TaskMentionListRelationFilter
+}
+
+export type TaskCommentOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  parentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  authorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  body?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deletedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  task?: Prisma.TaskOrderByWithRelationInput
+  subTask?: Prisma.SubTaskOrderByWithRelationInput
+  parent?: Prisma.TaskCommentOrderByWithRelationInput
+  replies?: Prisma.TaskCommentOrderByRelationAggregateInput
+  author?: Prisma.UserOrderByWithRelationInput
+  deletedBy?: Prisma.UserOrderByWithRelationInput
+  revisions?: Prisma.TaskCommentRevisionOrderByRelationAggregateInput
+  mentions?: Prisma.TaskMentionOrderByRelationAggregateInput
+}
+
+export type TaskCommentWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.TaskCommentWhereInput | Prisma.TaskCommentWhereInput[]
+  OR?: Prisma.TaskCommentWhereInput[]
+  NOT?: Prisma.TaskCommentWhereInput | Prisma.TaskCommentWhereInput[]
+  taskId?: Prisma.IntFilter<"TaskComment"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  parentId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  authorId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  body?: Prisma.StringFilter<"TaskComment"> | string
+  editedAt?: Prisma.DateTimeNullableFilter<"TaskComment"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"TaskComment"> | Date | string | null
+  deletedById?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskComment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TaskComment"> | Date | string
+  task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  subTask?: Prisma.XOR<Prisma.SubTaskNullableScalarRelationFilter, Prisma.SubTaskWhereInput> | null
+  parent?: Prisma.XOR<Prisma.TaskCommentNullableScalarRelationFilter, Prisma.TaskCommentWhereInput> | null
+  replies?: Prisma.TaskCommentListRelationFilter
+  author?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  deletedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+  revisions?: Prisma.TaskCommentRevisionListRelationFilter
+  mentions?: Prisma.TaskMentionListRelationFilter
+}, "id">
+
+export type TaskCommentOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  parentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  authorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  body?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  deletedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.TaskCommentCountOrderByAggregateInput
+  _avg?: Prisma.TaskCommentAvgOrderByAggregateInput
+  _max?: Prisma.TaskCommentMaxOrderByAggregateInput
+  _min?: Prisma.TaskCommentMinOrderByAggregateInput
+  _sum?: Prisma.TaskCommentSumOrderByAggregateInput
+}
+
+export type TaskCommentScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TaskCommentScalarWhereWithAggregatesInput | Prisma.TaskCommentScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TaskCommentScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TaskCommentScalarWhereWithAggregatesInput | Prisma.TaskCommentScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"TaskComment"> | number
+  taskId?: Prisma.IntWithAggregatesFilter<"TaskComment"> | number
+  subTaskId?: Prisma.IntNullableWithAggregatesFilter<"TaskComment"> | number | null
+  parentId?: Prisma.IntNullableWithAggregatesFilter<"TaskComment"> | number | null
+  authorId?: Prisma.IntNullableWithAggregatesFilter<"TaskComment"> | number | null
+  body?: Prisma.StringWithAggregatesFilter<"TaskComment"> | string
+  editedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"TaskComment"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"TaskComment"> | Date | string | null
+  deletedById?: Prisma.IntNullableWithAggregatesFilter<"TaskComment"> | number | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TaskComment"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"TaskComment"> | Date | string
+}
+
+export type TaskCommentCreateInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutCommentsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutCommentsInput
+  parent?: Prisma.TaskCommentCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.TaskCommentCreateNestedManyWithoutParentInput
+  author?: Prisma.UserCreateNestedOneWithoutTaskCommentsInput
+  deletedBy?: Prisma.UserCreateNestedOneWithoutDeletedTaskCommentsInput
+  revisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  replies?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutParentInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUpdateInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutCommentsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutCommentsNestedInput
+  parent?: Prisma.TaskCommentUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.TaskCommentUpdateManyWithoutParentNestedInput
+  author?: Prisma.UserUpdateOneWithoutTaskCommentsNestedInput
+  deletedBy?: Prisma.UserUpdateOneWithoutDeletedTaskCommentsNestedInput
+  revisions?: Prisma.TaskCommentRevisionUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  replies?: Prisma.TaskCommentUncheckedUpdateManyWithoutParentNestedInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentCreateManyInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskCommentUpdateManyMutationInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentListRelationFilter = {
+  every?: Prisma.TaskCommentWhereInput
+  some?: Prisma.TaskCommentWhereInput
+  none?: Prisma.TaskCommentWhereInput
+}
+
+export type TaskCommentOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TaskCommentNullableScalarRelationFilter = {
+  is?: Prisma.TaskCommentWhereInput | null
+  isNot?: Prisma.TaskCommentWhereInput | null
+}
+
+export type TaskCommentCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  authorId?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+  deletedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaskCommentAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  authorId?: Prisma.SortOrder
+  deletedById?: Prisma.SortOrder
+}
+
+export type TaskCommentMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  authorId?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+  deletedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaskCommentMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  authorId?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  editedAt?: Prisma.SortOrder
+  deletedAt?: Prisma.SortOrder
+  deletedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaskCommentSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  parentId?: Prisma.SortOrder
+  authorId?: Prisma.SortOrder
+  deletedById?: Prisma.SortOrder
+}
+
+export type TaskCommentScalarRelationFilter = {
+  is?: Prisma.TaskCommentWhereInput
+  isNot?: Prisma.TaskCommentWhereInput
+}
+
+export type TaskCommentCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutTaskInput, Prisma.TaskCommentUncheckedCreateWithoutTaskInput> | Prisma.TaskCommentCreateWithoutTaskInput[] | Prisma.TaskCommentUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutTaskInput | Prisma.TaskCommentCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.TaskCommentCreateManyTaskInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUncheckedCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutTaskInput, Prisma.TaskCommentUncheckedCreateWithoutTaskInput> | Prisma.TaskCommentCreateWithoutTaskInput[] | Prisma.TaskCommentUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutTaskInput | Prisma.TaskCommentCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.TaskCommentCreateManyTaskInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutTaskInput, Prisma.TaskCommentUncheckedCreateWithoutTaskInput> | Prisma.TaskCommentCreateWithoutTaskInput[] | Prisma.TaskCommentUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutTaskInput | Prisma.TaskCommentCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutTaskInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.TaskCommentCreateManyTaskInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutTaskInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutTaskInput | Prisma.TaskCommentUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutTaskInput, Prisma.TaskCommentUncheckedCreateWithoutTaskInput> | Prisma.TaskCommentCreateWithoutTaskInput[] | Prisma.TaskCommentUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutTaskInput | Prisma.TaskCommentCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutTaskInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.TaskCommentCreateManyTaskInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutTaskInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutTaskInput | Prisma.TaskCommentUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentCreateNestedOneWithoutRepliesInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutRepliesInput, Prisma.TaskCommentUncheckedCreateWithoutRepliesInput>
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutRepliesInput
+  connect?: Prisma.TaskCommentWhereUniqueInput
+}
+
+export type TaskCommentCreateNestedManyWithoutParentInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutParentInput, Prisma.TaskCommentUncheckedCreateWithoutParentInput> | Prisma.TaskCommentCreateWithoutParentInput[] | Prisma.TaskCommentUncheckedCreateWithoutParentInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutParentInput | Prisma.TaskCommentCreateOrConnectWithoutParentInput[]
+  createMany?: Prisma.TaskCommentCreateManyParentInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUncheckedCreateNestedManyWithoutParentInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutParentInput, Prisma.TaskCommentUncheckedCreateWithoutParentInput> | Prisma.TaskCommentCreateWithoutParentInput[] | Prisma.TaskCommentUncheckedCreateWithoutParentInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutParentInput | Prisma.TaskCommentCreateOrConnectWithoutParentInput[]
+  createMany?: Prisma.TaskCommentCreateManyParentInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUpdateOneWithoutRepliesNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutRepliesInput, Prisma.TaskCommentUncheckedCreateWithoutRepliesInput>
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutRepliesInput
+  upsert?: Prisma.TaskCommentUpsertWithoutRepliesInput
+  disconnect?: Prisma.TaskCommentWhereInput | boolean
+  delete?: Prisma.TaskCommentWhereInput | boolean
+  connect?: Prisma.TaskCommentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskCommentUpdateToOneWithWhereWithoutRepliesInput, Prisma.TaskCommentUpdateWithoutRepliesInput>, Prisma.TaskCommentUncheckedUpdateWithoutRepliesInput>
+}
+
+export type TaskCommentUpdateManyWithoutParentNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutParentInput, Prisma.TaskCommentUncheckedCreateWithoutParentInput> | Prisma.TaskCommentCreateWithoutParentInput[] | Prisma.TaskCommentUncheckedCreateWithoutParentInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutParentInput | Prisma.TaskCommentCreateOrConnectWithoutParentInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutParentInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutParentInput[]
+  createMany?: Prisma.TaskCommentCreateManyParentInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutParentInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutParentInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutParentInput | Prisma.TaskCommentUpdateManyWithWhereWithoutParentInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutParentNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutParentInput, Prisma.TaskCommentUncheckedCreateWithoutParentInput> | Prisma.TaskCommentCreateWithoutParentInput[] | Prisma.TaskCommentUncheckedCreateWithoutParentInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutParentInput | Prisma.TaskCommentCreateOrConnectWithoutParentInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutParentInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutParentInput[]
+  createMany?: Prisma.TaskCommentCreateManyParentInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutParentInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutParentInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutParentInput | Prisma.TaskCommentUpdateManyWithWhereWithoutParentInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentCreateNestedOneWithoutRevisionsInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutRevisionsInput, Prisma.TaskCommentUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutRevisionsInput
+  connect?: Prisma.TaskCommentWhereUniqueInput
+}
+
+export type TaskCommentUpdateOneRequiredWithoutRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutRevisionsInput, Prisma.TaskCommentUncheckedCreateWithoutRevisionsInput>
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutRevisionsInput
+  upsert?: Prisma.TaskCommentUpsertWithoutRevisionsInput
+  connect?: Prisma.TaskCommentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskCommentUpdateToOneWithWhereWithoutRevisionsInput, Prisma.TaskCommentUpdateWithoutRevisionsInput>, Prisma.TaskCommentUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type TaskCommentCreateNestedOneWithoutMentionsInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutMentionsInput, Prisma.TaskCommentUncheckedCreateWithoutMentionsInput>
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutMentionsInput
+  connect?: Prisma.TaskCommentWhereUniqueInput
+}
+
+export type TaskCommentUpdateOneWithoutMentionsNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutMentionsInput, Prisma.TaskCommentUncheckedCreateWithoutMentionsInput>
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutMentionsInput
+  upsert?: Prisma.TaskCommentUpsertWithoutMentionsInput
+  disconnect?: Prisma.TaskCommentWhereInput | boolean
+  delete?: Prisma.TaskCommentWhereInput | boolean
+  connect?: Prisma.TaskCommentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskCommentUpdateToOneWithWhereWithoutMentionsInput, Prisma.TaskCommentUpdateWithoutMentionsInput>, Prisma.TaskCommentUncheckedUpdateWithoutMentionsInput>
+}
+
+export type TaskCommentCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutSubTaskInput, Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput> | Prisma.TaskCommentCreateWithoutSubTaskInput[] | Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutSubTaskInput | Prisma.TaskCommentCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.TaskCommentCreateManySubTaskInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUncheckedCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutSubTaskInput, Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput> | Prisma.TaskCommentCreateWithoutSubTaskInput[] | Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutSubTaskInput | Prisma.TaskCommentCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.TaskCommentCreateManySubTaskInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutSubTaskInput, Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput> | Prisma.TaskCommentCreateWithoutSubTaskInput[] | Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutSubTaskInput | Prisma.TaskCommentCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.TaskCommentCreateManySubTaskInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutSubTaskInput | Prisma.TaskCommentUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutSubTaskInput, Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput> | Prisma.TaskCommentCreateWithoutSubTaskInput[] | Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutSubTaskInput | Prisma.TaskCommentCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.TaskCommentCreateManySubTaskInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutSubTaskInput | Prisma.TaskCommentUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentCreateNestedManyWithoutAuthorInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutAuthorInput, Prisma.TaskCommentUncheckedCreateWithoutAuthorInput> | Prisma.TaskCommentCreateWithoutAuthorInput[] | Prisma.TaskCommentUncheckedCreateWithoutAuthorInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutAuthorInput | Prisma.TaskCommentCreateOrConnectWithoutAuthorInput[]
+  createMany?: Prisma.TaskCommentCreateManyAuthorInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentCreateNestedManyWithoutDeletedByInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutDeletedByInput, Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput> | Prisma.TaskCommentCreateWithoutDeletedByInput[] | Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutDeletedByInput | Prisma.TaskCommentCreateOrConnectWithoutDeletedByInput[]
+  createMany?: Prisma.TaskCommentCreateManyDeletedByInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUncheckedCreateNestedManyWithoutAuthorInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutAuthorInput, Prisma.TaskCommentUncheckedCreateWithoutAuthorInput> | Prisma.TaskCommentCreateWithoutAuthorInput[] | Prisma.TaskCommentUncheckedCreateWithoutAuthorInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutAuthorInput | Prisma.TaskCommentCreateOrConnectWithoutAuthorInput[]
+  createMany?: Prisma.TaskCommentCreateManyAuthorInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutDeletedByInput, Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput> | Prisma.TaskCommentCreateWithoutDeletedByInput[] | Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutDeletedByInput | Prisma.TaskCommentCreateOrConnectWithoutDeletedByInput[]
+  createMany?: Prisma.TaskCommentCreateManyDeletedByInputEnvelope
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+}
+
+export type TaskCommentUpdateManyWithoutAuthorNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutAuthorInput, Prisma.TaskCommentUncheckedCreateWithoutAuthorInput> | Prisma.TaskCommentCreateWithoutAuthorInput[] | Prisma.TaskCommentUncheckedCreateWithoutAuthorInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutAuthorInput | Prisma.TaskCommentCreateOrConnectWithoutAuthorInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutAuthorInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutAuthorInput[]
+  createMany?: Prisma.TaskCommentCreateManyAuthorInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutAuthorInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutAuthorInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutAuthorInput | Prisma.TaskCommentUpdateManyWithWhereWithoutAuthorInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentUpdateManyWithoutDeletedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutDeletedByInput, Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput> | Prisma.TaskCommentCreateWithoutDeletedByInput[] | Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutDeletedByInput | Prisma.TaskCommentCreateOrConnectWithoutDeletedByInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutDeletedByInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutDeletedByInput[]
+  createMany?: Prisma.TaskCommentCreateManyDeletedByInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutDeletedByInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutDeletedByInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutDeletedByInput | Prisma.TaskCommentUpdateManyWithWhereWithoutDeletedByInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutAuthorInput, Prisma.TaskCommentUncheckedCreateWithoutAuthorInput> | Prisma.TaskCommentCreateWithoutAuthorInput[] | Prisma.TaskCommentUncheckedCreateWithoutAuthorInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutAuthorInput | Prisma.TaskCommentCreateOrConnectWithoutAuthorInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutAuthorInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutAuthorInput[]
+  createMany?: Prisma.TaskCommentCreateManyAuthorInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutAuthorInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutAuthorInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutAuthorInput | Prisma.TaskCommentUpdateManyWithWhereWithoutAuthorInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentCreateWithoutDeletedByInput, Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput> | Prisma.TaskCommentCreateWithoutDeletedByInput[] | Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput[]
+  connectOrCreate?: Prisma.TaskCommentCreateOrConnectWithoutDeletedByInput | Prisma.TaskCommentCreateOrConnectWithoutDeletedByInput[]
+  upsert?: Prisma.TaskCommentUpsertWithWhereUniqueWithoutDeletedByInput | Prisma.TaskCommentUpsertWithWhereUniqueWithoutDeletedByInput[]
+  createMany?: Prisma.TaskCommentCreateManyDeletedByInputEnvelope
+  set?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  delete?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  connect?: Prisma.TaskCommentWhereUniqueInput | Prisma.TaskCommentWhereUniqueInput[]
+  update?: Prisma.TaskCommentUpdateWithWhereUniqueWithoutDeletedByInput | Prisma.TaskCommentUpdateWithWhereUniqueWithoutDeletedByInput[]
+  updateMany?: Prisma.TaskCommentUpdateManyWithWhereWithoutDeletedByInput | Prisma.TaskCommentUpdateManyWithWhereWithoutDeletedByInput[]
+  deleteMany?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+}
+
+export type TaskCommentCreateWithoutTaskInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutCommentsInput
+  parent?: Prisma.TaskCommentCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.TaskCommentCreateNestedManyWithoutParentInput
+  author?: Prisma.UserCreateNestedOneWithoutTaskCommentsInput
+  deletedBy?: Prisma.UserCreateNestedOneWithoutDeletedTaskCommentsInput
+  revisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateWithoutTaskInput = {
+  id?: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  replies?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutParentInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentCreateOrConnectWithoutTaskInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutTaskInput, Prisma.TaskCommentUncheckedCreateWithoutTaskInput>
+}
+
+export type TaskCommentCreateManyTaskInputEnvelope = {
+  data: Prisma.TaskCommentCreateManyTaskInput | Prisma.TaskCommentCreateManyTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskCommentUpsertWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskCommentUpdateWithoutTaskInput, Prisma.TaskCommentUncheckedUpdateWithoutTaskInput>
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutTaskInput, Prisma.TaskCommentUncheckedCreateWithoutTaskInput>
+}
+
+export type TaskCommentUpdateWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateWithoutTaskInput, Prisma.TaskCommentUncheckedUpdateWithoutTaskInput>
+}
+
+export type TaskCommentUpdateManyWithWhereWithoutTaskInput = {
+  where: Prisma.TaskCommentScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateManyMutationInput, Prisma.TaskCommentUncheckedUpdateManyWithoutTaskInput>
+}
+
+export type TaskCommentScalarWhereInput = {
+  AND?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+  OR?: Prisma.TaskCommentScalarWhereInput[]
+  NOT?: Prisma.TaskCommentScalarWhereInput | Prisma.TaskCommentScalarWhereInput[]
+  id?: Prisma.IntFilter<"TaskComment"> | number
+  taskId?: Prisma.IntFilter<"TaskComment"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  parentId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  authorId?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  body?: Prisma.StringFilter<"TaskComment"> | string
+  editedAt?: Prisma.DateTimeNullableFilter<"TaskComment"> | Date | string | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"TaskComment"> | Date | string | null
+  deletedById?: Prisma.IntNullableFilter<"TaskComment"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskComment"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TaskComment"> | Date | string
+}
+
+export type TaskCommentCreateWithoutRepliesInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutCommentsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutCommentsInput
+  parent?: Prisma.TaskCommentCreateNestedOneWithoutRepliesInput
+  author?: Prisma.UserCreateNestedOneWithoutTaskCommentsInput
+  deletedBy?: Prisma.UserCreateNestedOneWithoutDeletedTaskCommentsInput
+  revisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateWithoutRepliesInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  revisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentCreateOrConnectWithoutRepliesInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutRepliesInput, Prisma.TaskCommentUncheckedCreateWithoutRepliesInput>
+}
+
+export type TaskCommentCreateWithoutParentInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutCommentsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutCommentsInput
+  replies?: Prisma.TaskCommentCreateNestedManyWithoutParentInput
+  author?: Prisma.UserCreateNestedOneWithoutTaskCommentsInput
+  deletedBy?: Prisma.UserCreateNestedOneWithoutDeletedTaskCommentsInput
+  revisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateWithoutParentInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  replies?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutParentInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentCreateOrConnectWithoutParentInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutParentInput, Prisma.TaskCommentUncheckedCreateWithoutParentInput>
+}
+
+export type TaskCommentCreateManyParentInputEnvelope = {
+  data: Prisma.TaskCommentCreateManyParentInput | Prisma.TaskCommentCreateManyParentInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskCommentUpsertWithoutRepliesInput = {
+  update: Prisma.XOR<Prisma.TaskCommentUpdateWithoutRepliesInput, Prisma.TaskCommentUncheckedUpdateWithoutRepliesInput>
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutRepliesInput, Prisma.TaskCommentUncheckedCreateWithoutRepliesInput>
+  where?: Prisma.TaskCommentWhereInput
+}
+
+export type TaskCommentUpdateToOneWithWhereWithoutRepliesInput = {
+  where?: Prisma.TaskCommentWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateWithoutRepliesInput, Prisma.TaskCommentUncheckedUpdateWithoutRepliesInput>
+}
+
+export type TaskCommentUpdateWithoutRepliesInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutCommentsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutCommentsNestedInput
+  parent?: Prisma.TaskCommentUpdateOneWithoutRepliesNestedInput
+  author?: Prisma.UserUpdateOneWithoutTaskCommentsNestedInput
+  deletedBy?: Prisma.UserUpdateOneWithoutDeletedTaskCommentsNestedInput
+  revisions?: Prisma.TaskCommentRevisionUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateWithoutRepliesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  revisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUpsertWithWhereUniqueWithoutParentInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskCommentUpdateWithoutParentInput, Prisma.TaskCommentUncheckedUpdateWithoutParentInput>
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutParentInput, Prisma.TaskCommentUncheckedCreateWithoutParentInput>
+}
+
+export type TaskCommentUpdateWithWhereUniqueWithoutParentInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateWithoutParentInput, Prisma.TaskCommentUncheckedUpdateWithoutParentInput>
+}
+
+export type TaskCommentUpdateManyWithWhereWithoutParentInput = {
+  where: Prisma.TaskCommentScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateManyMutationInput, Prisma.TaskCommentUncheckedUpdateManyWithoutParentInput>
+}
+
+export type TaskCommentCreateWithoutRevisionsInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutCommentsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutCommentsInput
+  parent?: Prisma.TaskCommentCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.TaskCommentCreateNestedManyWithoutParentInput
+  author?: Prisma.UserCreateNestedOneWithoutTaskCommentsInput
+  deletedBy?: Prisma.UserCreateNestedOneWithoutDeletedTaskCommentsInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateWithoutRevisionsInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  replies?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutParentInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentCreateOrConnectWithoutRevisionsInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutRevisionsInput, Prisma.TaskCommentUncheckedCreateWithoutRevisionsInput>
+}
+
+export type TaskCommentUpsertWithoutRevisionsInput = {
+  update: Prisma.XOR<Prisma.TaskCommentUpdateWithoutRevisionsInput, Prisma.TaskCommentUncheckedUpdateWithoutRevisionsInput>
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutRevisionsInput, Prisma.TaskCommentUncheckedCreateWithoutRevisionsInput>
+  where?: Prisma.TaskCommentWhereInput
+}
+
+export type TaskCommentUpdateToOneWithWhereWithoutRevisionsInput = {
+  where?: Prisma.TaskCommentWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateWithoutRevisionsInput, Prisma.TaskCommentUncheckedUpdateWithoutRevisionsInput>
+}
+
+export type TaskCommentUpdateWithoutRevisionsInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutCommentsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutCommentsNestedInput
+  parent?: Prisma.TaskCommentUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.TaskCommentUpdateManyWithoutParentNestedInput
+  author?: Prisma.UserUpdateOneWithoutTaskCommentsNestedInput
+  deletedBy?: Prisma.UserUpdateOneWithoutDeletedTaskCommentsNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateWithoutRevisionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  replies?: Prisma.TaskCommentUncheckedUpdateManyWithoutParentNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentCreateWithoutMentionsInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutCommentsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutCommentsInput
+  parent?: Prisma.TaskCommentCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.TaskCommentCreateNestedManyWithoutParentInput
+  author?: Prisma.UserCreateNestedOneWithoutTaskCommentsInput
+  deletedBy?: Prisma.UserCreateNestedOneWithoutDeletedTaskCommentsInput
+  revisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateWithoutMentionsInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  replies?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutParentInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentCreateOrConnectWithoutMentionsInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutMentionsInput, Prisma.TaskCommentUncheckedCreateWithoutMentionsInput>
+}
+
+export type TaskCommentUpsertWithoutMentionsInput = {
+  update: Prisma.XOR<Prisma.TaskCommentUpdateWithoutMentionsInput, Prisma.TaskCommentUncheckedUpdateWithoutMentionsInput>
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutMentionsInput, Prisma.TaskCommentUncheckedCreateWithoutMentionsInput>
+  where?: Prisma.TaskCommentWhereInput
+}
+
+export type TaskCommentUpdateToOneWithWhereWithoutMentionsInput = {
+  where?: Prisma.TaskCommentWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateWithoutMentionsInput, Prisma.TaskCommentUncheckedUpdateWithoutMentionsInput>
+}
+
+export type TaskCommentUpdateWithoutMentionsInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutCommentsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutCommentsNestedInput
+  parent?: Prisma.TaskCommentUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.TaskCommentUpdateManyWithoutParentNestedInput
+  author?: Prisma.UserUpdateOneWithoutTaskCommentsNestedInput
+  deletedBy?: Prisma.UserUpdateOneWithoutDeletedTaskCommentsNestedInput
+  revisions?: Prisma.TaskCommentRevisionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateWithoutMentionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  replies?: Prisma.TaskCommentUncheckedUpdateManyWithoutParentNestedInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentCreateWithoutSubTaskInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutCommentsInput
+  parent?: Prisma.TaskCommentCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.TaskCommentCreateNestedManyWithoutParentInput
+  author?: Prisma.UserCreateNestedOneWithoutTaskCommentsInput
+  deletedBy?: Prisma.UserCreateNestedOneWithoutDeletedTaskCommentsInput
+  revisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateWithoutSubTaskInput = {
+  id?: number
+  taskId: number
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  replies?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutParentInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentCreateOrConnectWithoutSubTaskInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutSubTaskInput, Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput>
+}
+
+export type TaskCommentCreateManySubTaskInputEnvelope = {
+  data: Prisma.TaskCommentCreateManySubTaskInput | Prisma.TaskCommentCreateManySubTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskCommentUpsertWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskCommentUpdateWithoutSubTaskInput, Prisma.TaskCommentUncheckedUpdateWithoutSubTaskInput>
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutSubTaskInput, Prisma.TaskCommentUncheckedCreateWithoutSubTaskInput>
+}
+
+export type TaskCommentUpdateWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateWithoutSubTaskInput, Prisma.TaskCommentUncheckedUpdateWithoutSubTaskInput>
+}
+
+export type TaskCommentUpdateManyWithWhereWithoutSubTaskInput = {
+  where: Prisma.TaskCommentScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateManyMutationInput, Prisma.TaskCommentUncheckedUpdateManyWithoutSubTaskInput>
+}
+
+export type TaskCommentCreateWithoutAuthorInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutCommentsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutCommentsInput
+  parent?: Prisma.TaskCommentCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.TaskCommentCreateNestedManyWithoutParentInput
+  deletedBy?: Prisma.UserCreateNestedOneWithoutDeletedTaskCommentsInput
+  revisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateWithoutAuthorInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  replies?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutParentInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentCreateOrConnectWithoutAuthorInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutAuthorInput, Prisma.TaskCommentUncheckedCreateWithoutAuthorInput>
+}
+
+export type TaskCommentCreateManyAuthorInputEnvelope = {
+  data: Prisma.TaskCommentCreateManyAuthorInput | Prisma.TaskCommentCreateManyAuthorInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskCommentCreateWithoutDeletedByInput = {
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutCommentsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutCommentsInput
+  parent?: Prisma.TaskCommentCreateNestedOneWithoutRepliesInput
+  replies?: Prisma.TaskCommentCreateNestedManyWithoutParentInput
+  author?: Prisma.UserCreateNestedOneWithoutTaskCommentsInput
+  revisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentUncheckedCreateWithoutDeletedByInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  replies?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutParentInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput
+  mentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutCommentInput
+}
+
+export type TaskCommentCreateOrConnectWithoutDeletedByInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutDeletedByInput, Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput>
+}
+
+export type TaskCommentCreateManyDeletedByInputEnvelope = {
+  data: Prisma.TaskCommentCreateManyDeletedByInput | Prisma.TaskCommentCreateManyDeletedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskCommentUpsertWithWhereUniqueWithoutAuthorInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskCommentUpdateWithoutAuthorInput, Prisma.TaskCommentUncheckedUpdateWithoutAuthorInput>
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutAuthorInput, Prisma.TaskCommentUncheckedCreateWithoutAuthorInput>
+}
+
+export type TaskCommentUpdateWithWhereUniqueWithoutAuthorInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateWithoutAuthorInput, Prisma.TaskCommentUncheckedUpdateWithoutAuthorInput>
+}
+
+export type TaskCommentUpdateManyWithWhereWithoutAuthorInput = {
+  where: Prisma.TaskCommentScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateManyMutationInput, Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorInput>
+}
+
+export type TaskCommentUpsertWithWhereUniqueWithoutDeletedByInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskCommentUpdateWithoutDeletedByInput, Prisma.TaskCommentUncheckedUpdateWithoutDeletedByInput>
+  create: Prisma.XOR<Prisma.TaskCommentCreateWithoutDeletedByInput, Prisma.TaskCommentUncheckedCreateWithoutDeletedByInput>
+}
+
+export type TaskCommentUpdateWithWhereUniqueWithoutDeletedByInput = {
+  where: Prisma.TaskCommentWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateWithoutDeletedByInput, Prisma.TaskCommentUncheckedUpdateWithoutDeletedByInput>
+}
+
+export type TaskCommentUpdateManyWithWhereWithoutDeletedByInput = {
+  where: Prisma.TaskCommentScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentUpdateManyMutationInput, Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByInput>
+}
+
+export type TaskCommentCreateManyTaskInput = {
+  id?: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskCommentUpdateWithoutTaskInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subTask?: Prisma.SubTaskUpdateOneWithoutCommentsNestedInput
+  parent?: Prisma.TaskCommentUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.TaskCommentUpdateManyWithoutParentNestedInput
+  author?: Prisma.UserUpdateOneWithoutTaskCommentsNestedInput
+  deletedBy?: Prisma.UserUpdateOneWithoutDeletedTaskCommentsNestedInput
+  revisions?: Prisma.TaskCommentRevisionUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  replies?: Prisma.TaskCommentUncheckedUpdateManyWithoutParentNestedInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentCreateManyParentInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskCommentUpdateWithoutParentInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutCommentsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutCommentsNestedInput
+  replies?: Prisma.TaskCommentUpdateManyWithoutParentNestedInput
+  author?: Prisma.UserUpdateOneWithoutTaskCommentsNestedInput
+  deletedBy?: Prisma.UserUpdateOneWithoutDeletedTaskCommentsNestedInput
+  revisions?: Prisma.TaskCommentRevisionUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateWithoutParentInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  replies?: Prisma.TaskCommentUncheckedUpdateManyWithoutParentNestedInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutParentInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentCreateManySubTaskInput = {
+  id?: number
+  taskId: number
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskCommentUpdateWithoutSubTaskInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutCommentsNestedInput
+  parent?: Prisma.TaskCommentUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.TaskCommentUpdateManyWithoutParentNestedInput
+  author?: Prisma.UserUpdateOneWithoutTaskCommentsNestedInput
+  deletedBy?: Prisma.UserUpdateOneWithoutDeletedTaskCommentsNestedInput
+  revisions?: Prisma.TaskCommentRevisionUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateWithoutSubTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  replies?: Prisma.TaskCommentUncheckedUpdateManyWithoutParentNestedInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutSubTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentCreateManyAuthorInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  deletedById?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskCommentCreateManyDeletedByInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  parentId?: number | null
+  authorId?: number | null
+  body: string
+  editedAt?: Date | string | null
+  deletedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskCommentUpdateWithoutAuthorInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutCommentsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutCommentsNestedInput
+  parent?: Prisma.TaskCommentUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.TaskCommentUpdateManyWithoutParentNestedInput
+  deletedBy?: Prisma.UserUpdateOneWithoutDeletedTaskCommentsNestedInput
+  revisions?: Prisma.TaskCommentRevisionUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateWithoutAuthorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  replies?: Prisma.TaskCommentUncheckedUpdateManyWithoutParentNestedInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutAuthorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentUpdateWithoutDeletedByInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutCommentsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutCommentsNestedInput
+  parent?: Prisma.TaskCommentUpdateOneWithoutRepliesNestedInput
+  replies?: Prisma.TaskCommentUpdateManyWithoutParentNestedInput
+  author?: Prisma.UserUpdateOneWithoutTaskCommentsNestedInput
+  revisions?: Prisma.TaskCommentRevisionUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateWithoutDeletedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  replies?: Prisma.TaskCommentUncheckedUpdateManyWithoutParentNestedInput
+  revisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput
+  mentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutCommentNestedInput
+}
+
+export type TaskCommentUncheckedUpdateManyWithoutDeletedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  parentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  authorId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  editedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type TaskCommentCountOutputType
+ */
+
+export type TaskCommentCountOutputType = {
+  replies: number
+  revisions: number
+  mentions: number
+}
+
+export type TaskCommentCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  replies?: boolean | TaskCommentCountOutputTypeCountRepliesArgs
+  revisions?: boolean | TaskCommentCountOutputTypeCountRevisionsArgs
+  mentions?: boolean | TaskCommentCountOutputTypeCountMentionsArgs
+}
+
+/**
+ * TaskCommentCountOutputType without action
+ */
+export type TaskCommentCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentCountOutputType
+   */
+  select?: Prisma.TaskCommentCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * TaskCommentCountOutputType without action
+ */
+export type TaskCommentCountOutputTypeCountRepliesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentWhereInput
+}
+
+/**
+ * TaskCommentCountOutputType without action
+ */
+export type TaskCommentCountOutputTypeCountRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentRevisionWhereInput
+}
+
+/**
+ * TaskCommentCountOutputType without action
+ */
+export type TaskCommentCountOutputTypeCountMentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskMentionWhereInput
+}
+
+
+export type TaskCommentSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  parentId?: boolean
+  authorId?: boolean
+  body?: boolean
+  editedAt?: boolean
+  deletedAt?: boolean
+  deletedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskComment$subTaskArgs<ExtArgs>
+  parent?: boolean | Prisma.TaskComment$parentArgs<ExtArgs>
+  replies?: boolean | Prisma.TaskComment$repliesArgs<ExtArgs>
+  author?: boolean | Prisma.TaskComment$authorArgs<ExtArgs>
+  deletedBy?: boolean | Prisma.TaskComment$deletedByArgs<ExtArgs>
+  revisions?: boolean | Prisma.TaskComment$revisionsArgs<ExtArgs>
+  mentions?: boolean | Prisma.TaskComment$mentionsArgs<ExtArgs>
+  _count?: boolean | Prisma.TaskCommentCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["taskComment"]>
+
+export type TaskCommentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  parentId?: boolean
+  authorId?: boolean
+  body?: boolean
+  editedAt?: boolean
+  deletedAt?: boolean
+  deletedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskComment$subTaskArgs<ExtArgs>
+  parent?: boolean | Prisma.TaskComment$parentArgs<ExtArgs>
+  author?: boolean | Prisma.TaskComment$authorArgs<ExtArgs>
+  deletedBy?: boolean | Prisma.TaskComment$deletedByArgs<ExtArgs>
+}, ExtArgs["result"]["taskComment"]>
+
+export type TaskCommentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  parentId?: boolean
+  authorId?: boolean
+  body?: boolean
+  editedAt?: boolean
+  deletedAt?: boolean
+  deletedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskComment$subTaskArgs<ExtArgs>
+  parent?: boolean | Prisma.TaskComment$parentArgs<ExtArgs>
+  author?: boolean | Prisma.TaskComment$authorArgs<ExtArgs>
+  deletedBy?: boolean | Prisma.TaskComment$deletedByArgs<ExtArgs>
+}, ExtArgs["result"]["taskComment"]>
+
+export type TaskCommentSelectScalar = {
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  parentId?: boolean
+  authorId?: boolean
+  body?: boolean
+  editedAt?: boolean
+  deletedAt?: boolean
+  deletedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type TaskCommentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "taskId" | "subTaskId" | "parentId" | "authorId" | "body" | "editedAt" | "deletedAt" | "deletedById" | "createdAt" | "updatedAt", ExtArgs["result"]["taskComment"]>
+export type TaskCommentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskComment$subTaskArgs<ExtArgs>
+  parent?: boolean | Prisma.TaskComment$parentArgs<ExtArgs>
+  replies?: boolean | Prisma.TaskComment$repliesArgs<ExtArgs>
+  author?: boolean | Prisma.TaskComment$authorArgs<ExtArgs>
+  deletedBy?: boolean | Prisma.TaskComment$deletedByArgs<ExtArgs>
+  revisions?: boolean | Prisma.TaskComment$revisionsArgs<ExtArgs>
+  mentions?: boolean | Prisma.TaskComment$mentionsArgs<ExtArgs>
+  _count?: boolean | Prisma.TaskCommentCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type TaskCommentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskComment$subTaskArgs<ExtArgs>
+  parent?: boolean | Prisma.TaskComment$parentArgs<ExtArgs>
+  author?: boolean | Prisma.TaskComment$authorArgs<ExtArgs>
+  deletedBy?: boolean | Prisma.TaskComment$deletedByArgs<ExtArgs>
+}
+export type TaskCommentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskComment$subTaskArgs<ExtArgs>
+  parent?: boolean | Prisma.TaskComment$parentArgs<ExtArgs>
+  author?: boolean | Prisma.TaskComment$authorArgs<ExtArgs>
+  deletedBy?: boolean | Prisma.TaskComment$deletedByArgs<ExtArgs>
+}
+
+export type $TaskCommentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TaskComment"
+  objects: {
+    task: Prisma.$TaskPayload<ExtArgs>
+    subTask: Prisma.$SubTaskPayload<ExtArgs> | null
+    parent: Prisma.$TaskCommentPayload<ExtArgs> | null
+    replies: Prisma.$TaskCommentPayload<ExtArgs>[]
+    author: Prisma.$UserPayload<ExtArgs> | null
+    deletedBy: Prisma.$UserPayload<ExtArgs> | null
+    revisions: Prisma.$TaskCommentRevisionPayload<ExtArgs>[]
+    mentions: Prisma.$TaskMentionPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    taskId: number
+    subTaskId: number | null
+    parentId: number | null
+    authorId: number | null
+    body: string
+    editedAt: Date | null
+    deletedAt: Date | null
+    deletedById: number | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["taskComment"]>
+  composites: {}
+}
+
+export type TaskCommentGetPayload<S extends boolean | null | undefined | TaskCommentDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload, S>
+
+export type TaskCommentCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TaskCommentFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TaskCommentCountAggregateInputType | true
+  }
+
+export interface TaskCommentDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TaskComment'], meta: { name: 'TaskComment' } }
+  /**
+   * Find zero or one TaskComment that matches the filter.
+   * @param {TaskCommentFindUniqueArgs} args - Arguments to find a TaskComment
+   * @example
+   * // Get one TaskComment
+   * const taskComment = await prisma.taskComment.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TaskCommentFindUniqueArgs>(args: Prisma.SelectSubset<T, TaskCommentFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TaskComment that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TaskCommentFindUniqueOrThrowArgs} args - Arguments to find a TaskComment
+   * @example
+   * // Get one TaskComment
+   * const taskComment = await prisma.taskComment.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TaskCommentFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TaskCommentFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskComment that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentFindFirstArgs} args - Arguments to find a TaskComment
+   * @example
+   * // Get one TaskComment
+   * const taskComment = await prisma.taskComment.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TaskCommentFindFirstArgs>(args?: Prisma.SelectSubset<T, TaskCommentFindFirstArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskComment that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentFindFirstOrThrowArgs} args - Arguments to find a TaskComment
+   * @example
+   * // Get one TaskComment
+   * const taskComment = await prisma.taskComment.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TaskCommentFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TaskCommentFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TaskComments that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TaskComments
+   * const taskComments = await prisma.taskComment.findMany()
+   * 
+   * // Get first 10 TaskComments
+   * const taskComments = await prisma.taskComment.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const taskCommentWithIdOnly = await prisma.taskComment.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TaskCommentFindManyArgs>(args?: Prisma.SelectSubset<T, TaskCommentFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TaskComment.
+   * @param {TaskCommentCreateArgs} args - Arguments to create a TaskComment.
+   * @example
+   * // Create one TaskComment
+   * const TaskComment = await prisma.taskComment.create({
+   *   data: {
+   *     // ... data to create a TaskComment
+   *   }
+   * })
+   * 
+   */
+  create<T extends TaskCommentCreateArgs>(args: Prisma.SelectSubset<T, TaskCommentCreateArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TaskComments.
+   * @param {TaskCommentCreateManyArgs} args - Arguments to create many TaskComments.
+   * @example
+   * // Create many TaskComments
+   * const taskComment = await prisma.taskComment.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TaskCommentCreateManyArgs>(args?: Prisma.SelectSubset<T, TaskCommentCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TaskComments and returns the data saved in the database.
+   * @param {TaskCommentCreateManyAndReturnArgs} args - Arguments to create many TaskComments.
+   * @example
+   * // Create many TaskComments
+   * const taskComment = await prisma.taskComment.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TaskComments and only return the `id`
+   * const taskCommentWithIdOnly = await prisma.taskComment.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TaskCommentCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TaskCommentCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TaskComment.
+   * @param {TaskCommentDeleteArgs} args - Arguments to delete one TaskComment.
+   * @example
+   * // Delete one TaskComment
+   * const TaskComment = await prisma.taskComment.delete({
+   *   where: {
+   *     // ... filter to delete one TaskComment
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TaskCommentDeleteArgs>(args: Prisma.SelectSubset<T, TaskCommentDeleteArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TaskComment.
+   * @param {TaskCommentUpdateArgs} args - Arguments to update one TaskComment.
+   * @example
+   * // Update one TaskComment
+   * const taskComment = await prisma.taskComment.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TaskCommentUpdateArgs>(args: Prisma.SelectSubset<T, TaskCommentUpdateArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TaskComments.
+   * @param {TaskCommentDeleteManyArgs} args - Arguments to filter TaskComments to delete.
+   * @example
+   * // Delete a few TaskComments
+   * const { count } = await prisma.taskComment.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TaskCommentDeleteManyArgs>(args?: Prisma.SelectSubset<T, TaskCommentDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskComments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TaskComments
+   * const taskComment = await prisma.taskComment.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TaskCommentUpdateManyArgs>(args: Prisma.SelectSubset<T, TaskCommentUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskComments and returns the data updated in the database.
+   * @param {TaskCommentUpdateManyAndReturnArgs} args - Arguments to update many TaskComments.
+   * @example
+   * // Update many TaskComments
+   * const taskComment = await prisma.taskComment.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TaskComments and only return the `id`
+   * const taskCommentWithIdOnly = await prisma.taskComment.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TaskCommentUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TaskCommentUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TaskComment.
+   * @param {TaskCommentUpsertArgs} args - Arguments to update or create a TaskComment.
+   * @example
+   * // Update or create a TaskComment
+   * const taskComment = await prisma.taskComment.upsert({
+   *   create: {
+   *     // ... data to create a TaskComment
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TaskComment we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TaskCommentUpsertArgs>(args: Prisma.SelectSubset<T, TaskCommentUpsertArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TaskComments.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentCountArgs} args - Arguments to filter TaskComments to count.
+   * @example
+   * // Count the number of TaskComments
+   * const count = await prisma.taskComment.count({
+   *   where: {
+   *     // ... the filter for the TaskComments we want to count
+   *   }
+   * })
+  **/
+  count<T extends TaskCommentCountArgs>(
+    args?: Prisma.Subset<T, TaskCommentCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TaskCommentCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TaskComment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TaskCommentAggregateArgs>(args: Prisma.Subset<T, TaskCommentAggregateArgs>): Prisma.PrismaPromise<GetTaskCommentAggregateType<T>>
+
+  /**
+   * Group by TaskComment.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TaskCommentGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TaskCommentGroupByArgs['orderBy'] }
+      : { orderBy?: TaskCommentGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TaskCommentGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTaskCommentGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TaskComment model
+ */
+readonly fields: TaskCommentFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TaskComment.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TaskCommentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  task<T extends Prisma.TaskDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskDefaultArgs<ExtArgs>>): Prisma.Prisma__TaskClient<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  subTask<T extends Prisma.TaskComment$subTaskArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskComment$subTaskArgs<ExtArgs>>): Prisma.Prisma__SubTaskClient<runtime.Types.Result.GetResult<Prisma.$SubTaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  parent<T extends Prisma.TaskComment$parentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskComment$parentArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  replies<T extends Prisma.TaskComment$repliesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskComment$repliesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  author<T extends Prisma.TaskComment$authorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskComment$authorArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  deletedBy<T extends Prisma.TaskComment$deletedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskComment$deletedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  revisions<T extends Prisma.TaskComment$revisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskComment$revisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  mentions<T extends Prisma.TaskComment$mentionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskComment$mentionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TaskComment model
+ */
+export interface TaskCommentFieldRefs {
+  readonly id: Prisma.FieldRef<"TaskComment", 'Int'>
+  readonly taskId: Prisma.FieldRef<"TaskComment", 'Int'>
+  readonly subTaskId: Prisma.FieldRef<"TaskComment", 'Int'>
+  readonly parentId: Prisma.FieldRef<"TaskComment", 'Int'>
+  readonly authorId: Prisma.FieldRef<"TaskComment", 'Int'>
+  readonly body: Prisma.FieldRef<"TaskComment", 'String'>
+  readonly editedAt: Prisma.FieldRef<"TaskComment", 'DateTime'>
+  readonly deletedAt: Prisma.FieldRef<"TaskComment", 'DateTime'>
+  readonly deletedById: Prisma.FieldRef<"TaskComment", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"TaskComment", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"TaskComment", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TaskComment findUnique
+ */
+export type TaskCommentFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskComment to fetch.
+   */
+  where: Prisma.TaskCommentWhereUniqueInput
+}
+
+/**
+ * TaskComment findUniqueOrThrow
+ */
+export type TaskCommentFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskComment to fetch.
+   */
+  where: Prisma.TaskCommentWhereUniqueInput
+}
+
+/**
+ * TaskComment findFirst
+ */
+export type TaskCommentFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskComment to fetch.
+   */
+  where?: Prisma.TaskCommentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskComments to fetch.
+   */
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskComments.
+   */
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskComments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskComments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskComments.
+   */
+  distinct?: Prisma.TaskCommentScalarFieldEnum | Prisma.TaskCommentScalarFieldEnum[]
+}
+
+/**
+ * TaskComment findFirstOrThrow
+ */
+export type TaskCommentFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskComment to fetch.
+   */
+  where?: Prisma.TaskCommentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskComments to fetch.
+   */
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskComments.
+   */
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskComments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskComments.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskComments.
+   */
+  distinct?: Prisma.TaskCommentScalarFieldEnum | Prisma.TaskCommentScalarFieldEnum[]
+}
+
+/**
+ * TaskComment findMany
+ */
+export type TaskCommentFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskComments to fetch.
+   */
+  where?: Prisma.TaskCommentWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskComments to fetch.
+   */
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TaskComments.
+   */
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskComments from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskComments.
+   */
+  skip?: number
+  distinct?: Prisma.TaskCommentScalarFieldEnum | Prisma.TaskCommentScalarFieldEnum[]
+}
+
+/**
+ * TaskComment create
+ */
+export type TaskCommentCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TaskComment.
+   */
+  data: Prisma.XOR<Prisma.TaskCommentCreateInput, Prisma.TaskCommentUncheckedCreateInput>
+}
+
+/**
+ * TaskComment createMany
+ */
+export type TaskCommentCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TaskComments.
+   */
+  data: Prisma.TaskCommentCreateManyInput | Prisma.TaskCommentCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaskComment createManyAndReturn
+ */
+export type TaskCommentCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * The data used to create many TaskComments.
+   */
+  data: Prisma.TaskCommentCreateManyInput | Prisma.TaskCommentCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskComment update
+ */
+export type TaskCommentUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TaskComment.
+   */
+  data: Prisma.XOR<Prisma.TaskCommentUpdateInput, Prisma.TaskCommentUncheckedUpdateInput>
+  /**
+   * Choose, which TaskComment to update.
+   */
+  where: Prisma.TaskCommentWhereUniqueInput
+}
+
+/**
+ * TaskComment updateMany
+ */
+export type TaskCommentUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TaskComments.
+   */
+  data: Prisma.XOR<Prisma.TaskCommentUpdateManyMutationInput, Prisma.TaskCommentUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskComments to update
+   */
+  where?: Prisma.TaskCommentWhereInput
+  /**
+   * Limit how many TaskComments to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaskComment updateManyAndReturn
+ */
+export type TaskCommentUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * The data used to update TaskComments.
+   */
+  data: Prisma.XOR<Prisma.TaskCommentUpdateManyMutationInput, Prisma.TaskCommentUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskComments to update
+   */
+  where?: Prisma.TaskCommentWhereInput
+  /**
+   * Limit how many TaskComments to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskComment upsert
+ */
+export type TaskCommentUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TaskComment to update in case it exists.
+   */
+  where: Prisma.TaskCommentWhereUniqueInput
+  /**
+   * In case the TaskComment found by the `where` argument doesn't exist, create a new TaskComment with this data.
+   */
+  create: Prisma.XOR<Prisma.TaskCommentCreateInput, Prisma.TaskCommentUncheckedCreateInput>
+  /**
+   * In case the TaskComment was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TaskCommentUpdateInput, Prisma.TaskCommentUncheckedUpdateInput>
+}
+
+/**
+ * TaskComment delete
+ */
+export type TaskCommentDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  /**
+   * Filter which TaskComment to delete.
+   */
+  where: Prisma.TaskCommentWhereUniqueInput
+}
+
+/**
+ * TaskComment deleteMany
+ */
+export type TaskCommentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskComments to delete
+   */
+  where?: Prisma.TaskCommentWhereInput
+  /**
+   * Limit how many TaskComments to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TaskComment.subTask
+ */
+export type TaskComment$subTaskArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTask
+   */
+  select?: Prisma.SubTaskSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTask
+   */
+  omit?: Prisma.SubTaskOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskInclude<ExtArgs> | null
+  where?: Prisma.SubTaskWhereInput
+}
+
+/**
+ * TaskComment.parent
+ */
+export type TaskComment$parentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentWhereInput
+}
+
+/**
+ * TaskComment.replies
+ */
+export type TaskComment$repliesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentWhereInput
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskCommentScalarFieldEnum | Prisma.TaskCommentScalarFieldEnum[]
+}
+
+/**
+ * TaskComment.author
+ */
+export type TaskComment$authorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * TaskComment.deletedBy
+ */
+export type TaskComment$deletedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * TaskComment.revisions
+ */
+export type TaskComment$revisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentRevisionWhereInput
+  orderBy?: Prisma.TaskCommentRevisionOrderByWithRelationInput | Prisma.TaskCommentRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.TaskCommentRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskCommentRevisionScalarFieldEnum | Prisma.TaskCommentRevisionScalarFieldEnum[]
+}
+
+/**
+ * TaskComment.mentions
+ */
+export type TaskComment$mentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  where?: Prisma.TaskMentionWhereInput
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskMentionScalarFieldEnum | Prisma.TaskMentionScalarFieldEnum[]
+}
+
+/**
+ * TaskComment without action
+ */
+export type TaskCommentDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+}
@@ -0,0 +1,1573 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TaskCommentRevision` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TaskCommentRevision
+ * 
+ */
+export type TaskCommentRevisionModel = runtime.Types.Result.DefaultSelection<Prisma.$TaskCommentRevisionPayload>
+
+export type AggregateTaskCommentRevision = {
+  _count: TaskCommentRevisionCountAggregateOutputType | null
+  _avg: TaskCommentRevisionAvgAggregateOutputType | null
+  _sum: TaskCommentRevisionSumAggregateOutputType | null
+  _min: TaskCommentRevisionMinAggregateOutputType | null
+  _max: TaskCommentRevisionMaxAggregateOutputType | null
+}
+
+export type TaskCommentRevisionAvgAggregateOutputType = {
+  id: number | null
+  commentId: number | null
+  editedById: number | null
+}
+
+export type TaskCommentRevisionSumAggregateOutputType = {
+  id: number | null
+  commentId: number | null
+  editedById: number | null
+}
+
+export type TaskCommentRevisionMinAggregateOutputType = {
+  id: number | null
+  commentId: number | null
+  body: string | null
+  action: $Enums.CommentRevisionType | null
+  editedById: number | null
+  createdAt: Date | null
+}
+
+export type TaskCommentRevisionMaxAggregateOutputType = {
+  id: number | null
+  commentId: number | null
+  body: string | null
+  action: $Enums.CommentRevisionType | null
+  editedById: number | null
+  createdAt: Date | null
+}
+
+export type TaskCommentRevisionCountAggregateOutputType = {
+  id: number
+  commentId: number
+  body: number
+  action: number
+  editedById: number
+  createdAt: number
+  _all: number
+}
+
+
+export type TaskCommentRevisionAvgAggregateInputType = {
+  id?: true
+  commentId?: true
+  editedById?: true
+}
+
+export type TaskCommentRevisionSumAggregateInputType = {
+  id?: true
+  commentId?: true
+  editedById?: true
+}
+
+export type TaskCommentRevisionMinAggregateInputType = {
+  id?: true
+  commentId?: true
+  body?: true
+  action?: true
+  editedById?: true
+  createdAt?: true
+}
+
+export type TaskCommentRevisionMaxAggregateInputType = {
+  id?: true
+  commentId?: true
+  body?: true
+  action?: true
+  editedById?: true
+  createdAt?: true
+}
+
+export type TaskCommentRevisionCountAggregateInputType = {
+  id?: true
+  commentId?: true
+  body?: true
+  action?: true
+  editedById?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type TaskCommentRevisionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskCommentRevision to aggregate.
+   */
+  where?: Prisma.TaskCommentRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskCommentRevisions to fetch.
+   */
+  orderBy?: Prisma.TaskCommentRevisionOrderByWithRelationInput | Prisma.TaskCommentRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TaskCommentRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskCommentRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskCommentRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TaskCommentRevisions
+  **/
+  _count?: true | TaskCommentRevisionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TaskCommentRevisionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TaskCommentRevisionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TaskCommentRevisionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TaskCommentRevisionMaxAggregateInputType
+}
+
+export type GetTaskCommentRevisionAggregateType<T extends TaskCommentRevisionAggregateArgs> = {
+      [P in keyof T & keyof AggregateTaskCommentRevision]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTaskCommentRevision[P]>
+    : Prisma.GetScalarType<T[P], AggregateTaskCommentRevision[P]>
+}
+
+
+
+
+export type TaskCommentRevisionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentRevisionWhereInput
+  orderBy?: Prisma.TaskCommentRevisionOrderByWithAggregationInput | Prisma.TaskCommentRevisionOrderByWithAggregationInput[]
+  by: Prisma.TaskCommentRevisionScalarFieldEnum[] | Prisma.TaskCommentRevisionScalarFieldEnum
+  having?: Prisma.TaskCommentRevisionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TaskCommentRevisionCountAggregateInputType | true
+  _avg?: TaskCommentRevisionAvgAggregateInputType
+  _sum?: TaskCommentRevisionSumAggregateInputType
+  _min?: TaskCommentRevisionMinAggregateInputType
+  _max?: TaskCommentRevisionMaxAggregateInputType
+}
+
+export type TaskCommentRevisionGroupByOutputType = {
+  id: number
+  commentId: number
+  body: string
+  action: $Enums.CommentRevisionType
+  editedById: number | null
+  createdAt: Date
+  _count: TaskCommentRevisionCountAggregateOutputType | null
+  _avg: TaskCommentRevisionAvgAggregateOutputType | null
+  _sum: TaskCommentRevisionSumAggregateOutputType | null
+  _min: TaskCommentRevisionMinAggregateOutputType | null
+  _max: TaskCommentRevisionMaxAggregateOutputType | null
+}
+
+type GetTaskCommentRevisionGroupByPayload<T extends TaskCommentRevisionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TaskCommentRevisionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TaskCommentRevisionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TaskCommentRevisionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TaskCommentRevisionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TaskCommentRevisionWhereInput = {
+  AND?: Prisma.TaskCommentRevisionWhereInput | Prisma.TaskCommentRevisionWhereInput[]
+  OR?: Prisma.TaskCommentRevisionWhereInput[]
+  NOT?: Prisma.TaskCommentRevisionWhereInput | Prisma.TaskCommentRevisionWhereInput[]
+  id?: Prisma.IntFilter<"TaskCommentRevision"> | number
+  commentId?: Prisma.IntFilter<"TaskCommentRevision"> | number
+  body?: Prisma.StringFilter<"TaskCommentRevision"> | string
+  action?: Prisma.EnumCommentRevisionTypeFilter<"TaskCommentRevision"> | $Enums.CommentRevisionType
+  editedById?: Prisma.IntNullableFilter<"TaskCommentRevision"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskCommentRevision"> | Date | string
+  comment?: Prisma.XOR<Prisma.TaskCommentScalarRelationFilter, Prisma.TaskCommentWhereInput>
+  editedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type TaskCommentRevisionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  editedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  comment?: Prisma.TaskCommentOrderByWithRelationInput
+  editedBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type TaskCommentRevisionWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.TaskCommentRevisionWhereInput | Prisma.TaskCommentRevisionWhereInput[]
+  OR?: Prisma.TaskCommentRevisionWhereInput[]
+  NOT?: Prisma.TaskCommentRevisionWhereInput | Prisma.TaskCommentRevisionWhereInput[]
+  commentId?: Prisma.IntFilter<"TaskCommentRevision"> | number
+  body?: Prisma.StringFilter<"TaskCommentRevision"> | string
+  action?: Prisma.EnumCommentRevisionTypeFilter<"TaskCommentRevision"> | $Enums.CommentRevisionType
+  editedById?: Prisma.IntNullableFilter<"TaskCommentRevision"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskCommentRevision"> | Date | string
+  comment?: Prisma.XOR<Prisma.TaskCommentScalarRelationFilter, Prisma.TaskCommentWhereInput>
+  editedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type TaskCommentRevisionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  editedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.TaskCommentRevisionCountOrderByAggregateInput
+  _avg?: Prisma.TaskCommentRevisionAvgOrderByAggregateInput
+  _max?: Prisma.TaskCommentRevisionMaxOrderByAggregateInput
+  _min?: Prisma.TaskCommentRevisionMinOrderByAggregateInput
+  _sum?: Prisma.TaskCommentRevisionSumOrderByAggregateInput
+}
+
+export type TaskCommentRevisionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TaskCommentRevisionScalarWhereWithAggregatesInput | Prisma.TaskCommentRevisionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TaskCommentRevisionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TaskCommentRevisionScalarWhereWithAggregatesInput | Prisma.TaskCommentRevisionScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"TaskCommentRevision"> | number
+  commentId?: Prisma.IntWithAggregatesFilter<"TaskCommentRevision"> | number
+  body?: Prisma.StringWithAggregatesFilter<"TaskCommentRevision"> | string
+  action?: Prisma.EnumCommentRevisionTypeWithAggregatesFilter<"TaskCommentRevision"> | $Enums.CommentRevisionType
+  editedById?: Prisma.IntNullableWithAggregatesFilter<"TaskCommentRevision"> | number | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TaskCommentRevision"> | Date | string
+}
+
+export type TaskCommentRevisionCreateInput = {
+  body: string
+  action: $Enums.CommentRevisionType
+  createdAt?: Date | string
+  comment: Prisma.TaskCommentCreateNestedOneWithoutRevisionsInput
+  editedBy?: Prisma.UserCreateNestedOneWithoutTaskCommentRevisionsInput
+}
+
+export type TaskCommentRevisionUncheckedCreateInput = {
+  id?: number
+  commentId: number
+  body: string
+  action: $Enums.CommentRevisionType
+  editedById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskCommentRevisionUpdateInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  comment?: Prisma.TaskCommentUpdateOneRequiredWithoutRevisionsNestedInput
+  editedBy?: Prisma.UserUpdateOneWithoutTaskCommentRevisionsNestedInput
+}
+
+export type TaskCommentRevisionUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  commentId?: Prisma.IntFieldUpdateOperationsInput | number
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  editedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentRevisionCreateManyInput = {
+  id?: number
+  commentId: number
+  body: string
+  action: $Enums.CommentRevisionType
+  editedById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskCommentRevisionUpdateManyMutationInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentRevisionUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  commentId?: Prisma.IntFieldUpdateOperationsInput | number
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  editedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentRevisionListRelationFilter = {
+  every?: Prisma.TaskCommentRevisionWhereInput
+  some?: Prisma.TaskCommentRevisionWhereInput
+  none?: Prisma.TaskCommentRevisionWhereInput
+}
+
+export type TaskCommentRevisionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TaskCommentRevisionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  editedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskCommentRevisionAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  editedById?: Prisma.SortOrder
+}
+
+export type TaskCommentRevisionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  editedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskCommentRevisionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  body?: Prisma.SortOrder
+  action?: Prisma.SortOrder
+  editedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskCommentRevisionSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  editedById?: Prisma.SortOrder
+}
+
+export type TaskCommentRevisionCreateNestedManyWithoutCommentInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutCommentInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput> | Prisma.TaskCommentRevisionCreateWithoutCommentInput[] | Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput[]
+  connectOrCreate?: Prisma.TaskCommentRevisionCreateOrConnectWithoutCommentInput | Prisma.TaskCommentRevisionCreateOrConnectWithoutCommentInput[]
+  createMany?: Prisma.TaskCommentRevisionCreateManyCommentInputEnvelope
+  connect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+}
+
+export type TaskCommentRevisionUncheckedCreateNestedManyWithoutCommentInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutCommentInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput> | Prisma.TaskCommentRevisionCreateWithoutCommentInput[] | Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput[]
+  connectOrCreate?: Prisma.TaskCommentRevisionCreateOrConnectWithoutCommentInput | Prisma.TaskCommentRevisionCreateOrConnectWithoutCommentInput[]
+  createMany?: Prisma.TaskCommentRevisionCreateManyCommentInputEnvelope
+  connect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+}
+
+export type TaskCommentRevisionUpdateManyWithoutCommentNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutCommentInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput> | Prisma.TaskCommentRevisionCreateWithoutCommentInput[] | Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput[]
+  connectOrCreate?: Prisma.TaskCommentRevisionCreateOrConnectWithoutCommentInput | Prisma.TaskCommentRevisionCreateOrConnectWithoutCommentInput[]
+  upsert?: Prisma.TaskCommentRevisionUpsertWithWhereUniqueWithoutCommentInput | Prisma.TaskCommentRevisionUpsertWithWhereUniqueWithoutCommentInput[]
+  createMany?: Prisma.TaskCommentRevisionCreateManyCommentInputEnvelope
+  set?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  delete?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  connect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  update?: Prisma.TaskCommentRevisionUpdateWithWhereUniqueWithoutCommentInput | Prisma.TaskCommentRevisionUpdateWithWhereUniqueWithoutCommentInput[]
+  updateMany?: Prisma.TaskCommentRevisionUpdateManyWithWhereWithoutCommentInput | Prisma.TaskCommentRevisionUpdateManyWithWhereWithoutCommentInput[]
+  deleteMany?: Prisma.TaskCommentRevisionScalarWhereInput | Prisma.TaskCommentRevisionScalarWhereInput[]
+}
+
+export type TaskCommentRevisionUncheckedUpdateManyWithoutCommentNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutCommentInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput> | Prisma.TaskCommentRevisionCreateWithoutCommentInput[] | Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput[]
+  connectOrCreate?: Prisma.TaskCommentRevisionCreateOrConnectWithoutCommentInput | Prisma.TaskCommentRevisionCreateOrConnectWithoutCommentInput[]
+  upsert?: Prisma.TaskCommentRevisionUpsertWithWhereUniqueWithoutCommentInput | Prisma.TaskCommentRevisionUpsertWithWhereUniqueWithoutCommentInput[]
+  createMany?: Prisma.TaskCommentRevisionCreateManyCommentInputEnvelope
+  set?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  delete?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  connect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  update?: Prisma.TaskCommentRevisionUpdateWithWhereUniqueWithoutCommentInput | Prisma.TaskCommentRevisionUpdateWithWhereUniqueWithoutCommentInput[]
+  updateMany?: Prisma.TaskCommentRevisionUpdateManyWithWhereWithoutCommentInput | Prisma.TaskCommentRevisionUpdateManyWithWhereWithoutCommentInput[]
+  deleteMany?: Prisma.TaskCommentRevisionScalarWhereInput | Prisma.TaskCommentRevisionScalarWhereInput[]
+}
+
+export type EnumCommentRevisionTypeFieldUpdateOperationsInput = {
+  set?: $Enums.CommentRevisionType
+}
+
+export type TaskCommentRevisionCreateNestedManyWithoutEditedByInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutEditedByInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput> | Prisma.TaskCommentRevisionCreateWithoutEditedByInput[] | Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput[]
+  connectOrCreate?: Prisma.TaskCommentRevisionCreateOrConnectWithoutEditedByInput | Prisma.TaskCommentRevisionCreateOrConnectWithoutEditedByInput[]
+  createMany?: Prisma.TaskCommentRevisionCreateManyEditedByInputEnvelope
+  connect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+}
+
+export type TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutEditedByInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput> | Prisma.TaskCommentRevisionCreateWithoutEditedByInput[] | Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput[]
+  connectOrCreate?: Prisma.TaskCommentRevisionCreateOrConnectWithoutEditedByInput | Prisma.TaskCommentRevisionCreateOrConnectWithoutEditedByInput[]
+  createMany?: Prisma.TaskCommentRevisionCreateManyEditedByInputEnvelope
+  connect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+}
+
+export type TaskCommentRevisionUpdateManyWithoutEditedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutEditedByInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput> | Prisma.TaskCommentRevisionCreateWithoutEditedByInput[] | Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput[]
+  connectOrCreate?: Prisma.TaskCommentRevisionCreateOrConnectWithoutEditedByInput | Prisma.TaskCommentRevisionCreateOrConnectWithoutEditedByInput[]
+  upsert?: Prisma.TaskCommentRevisionUpsertWithWhereUniqueWithoutEditedByInput | Prisma.TaskCommentRevisionUpsertWithWhereUniqueWithoutEditedByInput[]
+  createMany?: Prisma.TaskCommentRevisionCreateManyEditedByInputEnvelope
+  set?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  delete?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  connect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  update?: Prisma.TaskCommentRevisionUpdateWithWhereUniqueWithoutEditedByInput | Prisma.TaskCommentRevisionUpdateWithWhereUniqueWithoutEditedByInput[]
+  updateMany?: Prisma.TaskCommentRevisionUpdateManyWithWhereWithoutEditedByInput | Prisma.TaskCommentRevisionUpdateManyWithWhereWithoutEditedByInput[]
+  deleteMany?: Prisma.TaskCommentRevisionScalarWhereInput | Prisma.TaskCommentRevisionScalarWhereInput[]
+}
+
+export type TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutEditedByInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput> | Prisma.TaskCommentRevisionCreateWithoutEditedByInput[] | Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput[]
+  connectOrCreate?: Prisma.TaskCommentRevisionCreateOrConnectWithoutEditedByInput | Prisma.TaskCommentRevisionCreateOrConnectWithoutEditedByInput[]
+  upsert?: Prisma.TaskCommentRevisionUpsertWithWhereUniqueWithoutEditedByInput | Prisma.TaskCommentRevisionUpsertWithWhereUniqueWithoutEditedByInput[]
+  createMany?: Prisma.TaskCommentRevisionCreateManyEditedByInputEnvelope
+  set?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  disconnect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  delete?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  connect?: Prisma.TaskCommentRevisionWhereUniqueInput | Prisma.TaskCommentRevisionWhereUniqueInput[]
+  update?: Prisma.TaskCommentRevisionUpdateWithWhereUniqueWithoutEditedByInput | Prisma.TaskCommentRevisionUpdateWithWhereUniqueWithoutEditedByInput[]
+  updateMany?: Prisma.TaskCommentRevisionUpdateManyWithWhereWithoutEditedByInput | Prisma.TaskCommentRevisionUpdateManyWithWhereWithoutEditedByInput[]
+  deleteMany?: Prisma.TaskCommentRevisionScalarWhereInput | Prisma.TaskCommentRevisionScalarWhereInput[]
+}
+
+export type TaskCommentRevisionCreateWithoutCommentInput = {
+  body: string
+  action: $Enums.CommentRevisionType
+  createdAt?: Date | string
+  editedBy?: Prisma.UserCreateNestedOneWithoutTaskCommentRevisionsInput
+}
+
+export type TaskCommentRevisionUncheckedCreateWithoutCommentInput = {
+  id?: number
+  body: string
+  action: $Enums.CommentRevisionType
+  editedById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskCommentRevisionCreateOrConnectWithoutCommentInput = {
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutCommentInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput>
+}
+
+export type TaskCommentRevisionCreateManyCommentInputEnvelope = {
+  data: Prisma.TaskCommentRevisionCreateManyCommentInput | Prisma.TaskCommentRevisionCreateManyCommentInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskCommentRevisionUpsertWithWhereUniqueWithoutCommentInput = {
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskCommentRevisionUpdateWithoutCommentInput, Prisma.TaskCommentRevisionUncheckedUpdateWithoutCommentInput>
+  create: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutCommentInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutCommentInput>
+}
+
+export type TaskCommentRevisionUpdateWithWhereUniqueWithoutCommentInput = {
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskCommentRevisionUpdateWithoutCommentInput, Prisma.TaskCommentRevisionUncheckedUpdateWithoutCommentInput>
+}
+
+export type TaskCommentRevisionUpdateManyWithWhereWithoutCommentInput = {
+  where: Prisma.TaskCommentRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentRevisionUpdateManyMutationInput, Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutCommentInput>
+}
+
+export type TaskCommentRevisionScalarWhereInput = {
+  AND?: Prisma.TaskCommentRevisionScalarWhereInput | Prisma.TaskCommentRevisionScalarWhereInput[]
+  OR?: Prisma.TaskCommentRevisionScalarWhereInput[]
+  NOT?: Prisma.TaskCommentRevisionScalarWhereInput | Prisma.TaskCommentRevisionScalarWhereInput[]
+  id?: Prisma.IntFilter<"TaskCommentRevision"> | number
+  commentId?: Prisma.IntFilter<"TaskCommentRevision"> | number
+  body?: Prisma.StringFilter<"TaskCommentRevision"> | string
+  action?: Prisma.EnumCommentRevisionTypeFilter<"TaskCommentRevision"> | $Enums.CommentRevisionType
+  editedById?: Prisma.IntNullableFilter<"TaskCommentRevision"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskCommentRevision"> | Date | string
+}
+
+export type TaskCommentRevisionCreateWithoutEditedByInput = {
+  body: string
+  action: $Enums.CommentRevisionType
+  createdAt?: Date | string
+  comment: Prisma.TaskCommentCreateNestedOneWithoutRevisionsInput
+}
+
+export type TaskCommentRevisionUncheckedCreateWithoutEditedByInput = {
+  id?: number
+  commentId: number
+  body: string
+  action: $Enums.CommentRevisionType
+  createdAt?: Date | string
+}
+
+export type TaskCommentRevisionCreateOrConnectWithoutEditedByInput = {
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutEditedByInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput>
+}
+
+export type TaskCommentRevisionCreateManyEditedByInputEnvelope = {
+  data: Prisma.TaskCommentRevisionCreateManyEditedByInput | Prisma.TaskCommentRevisionCreateManyEditedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskCommentRevisionUpsertWithWhereUniqueWithoutEditedByInput = {
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskCommentRevisionUpdateWithoutEditedByInput, Prisma.TaskCommentRevisionUncheckedUpdateWithoutEditedByInput>
+  create: Prisma.XOR<Prisma.TaskCommentRevisionCreateWithoutEditedByInput, Prisma.TaskCommentRevisionUncheckedCreateWithoutEditedByInput>
+}
+
+export type TaskCommentRevisionUpdateWithWhereUniqueWithoutEditedByInput = {
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskCommentRevisionUpdateWithoutEditedByInput, Prisma.TaskCommentRevisionUncheckedUpdateWithoutEditedByInput>
+}
+
+export type TaskCommentRevisionUpdateManyWithWhereWithoutEditedByInput = {
+  where: Prisma.TaskCommentRevisionScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskCommentRevisionUpdateManyMutationInput, Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByInput>
+}
+
+export type TaskCommentRevisionCreateManyCommentInput = {
+  id?: number
+  body: string
+  action: $Enums.CommentRevisionType
+  editedById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskCommentRevisionUpdateWithoutCommentInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  editedBy?: Prisma.UserUpdateOneWithoutTaskCommentRevisionsNestedInput
+}
+
+export type TaskCommentRevisionUncheckedUpdateWithoutCommentInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  editedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentRevisionUncheckedUpdateManyWithoutCommentInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  editedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentRevisionCreateManyEditedByInput = {
+  id?: number
+  commentId: number
+  body: string
+  action: $Enums.CommentRevisionType
+  createdAt?: Date | string
+}
+
+export type TaskCommentRevisionUpdateWithoutEditedByInput = {
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  comment?: Prisma.TaskCommentUpdateOneRequiredWithoutRevisionsNestedInput
+}
+
+export type TaskCommentRevisionUncheckedUpdateWithoutEditedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  commentId?: Prisma.IntFieldUpdateOperationsInput | number
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskCommentRevisionUncheckedUpdateManyWithoutEditedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  commentId?: Prisma.IntFieldUpdateOperationsInput | number
+  body?: Prisma.StringFieldUpdateOperationsInput | string
+  action?: Prisma.EnumCommentRevisionTypeFieldUpdateOperationsInput | $Enums.CommentRevisionType
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TaskCommentRevisionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  commentId?: boolean
+  body?: boolean
+  action?: boolean
+  editedById?: boolean
+  createdAt?: boolean
+  comment?: boolean | Prisma.TaskCommentDefaultArgs<ExtArgs>
+  editedBy?: boolean | Prisma.TaskCommentRevision$editedByArgs<ExtArgs>
+}, ExtArgs["result"]["taskCommentRevision"]>
+
+export type TaskCommentRevisionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  commentId?: boolean
+  body?: boolean
+  action?: boolean
+  editedById?: boolean
+  createdAt?: boolean
+  comment?: boolean | Prisma.TaskCommentDefaultArgs<ExtArgs>
+  editedBy?: boolean | Prisma.TaskCommentRevision$editedByArgs<ExtArgs>
+}, ExtArgs["result"]["taskCommentRevision"]>
+
+export type TaskCommentRevisionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  commentId?: boolean
+  body?: boolean
+  action?: boolean
+  editedById?: boolean
+  createdAt?: boolean
+  comment?: boolean | Prisma.TaskCommentDefaultArgs<ExtArgs>
+  editedBy?: boolean | Prisma.TaskCommentRevision$editedByArgs<ExtArgs>
+}, ExtArgs["result"]["taskCommentRevision"]>
+
+export type TaskCommentRevisionSelectScalar = {
+  id?: boolean
+  commentId?: boolean
+  body?: boolean
+  action?: boolean
+  editedById?: boolean
+  createdAt?: boolean
+}
+
+export type TaskCommentRevisionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "commentId" | "body" | "action" | "editedById" | "createdAt", ExtArgs["result"]["taskCommentRevision"]>
+export type TaskCommentRevisionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  comment?: boolean | Prisma.TaskCommentDefaultArgs<ExtArgs>
+  editedBy?: boolean | Prisma.TaskCommentRevision$editedByArgs<ExtArgs>
+}
+export type TaskCommentRevisionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  comment?: boolean | Prisma.TaskCommentDefaultArgs<ExtArgs>
+  editedBy?: boolean | Prisma.TaskCommentRevision$editedByArgs<ExtArgs>
+}
+export type TaskCommentRevisionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  comment?: boolean | Prisma.TaskCommentDefaultArgs<ExtArgs>
+  editedBy?: boolean | Prisma.TaskCommentRevision$editedByArgs<ExtArgs>
+}
+
+export type $TaskCommentRevisionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TaskCommentRevision"
+  objects: {
+    comment: Prisma.$TaskCommentPayload<ExtArgs>
+    editedBy: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    commentId: number
+    body: string
+    action: $Enums.CommentRevisionType
+    editedById: number | null
+    createdAt: Date
+  }, ExtArgs["result"]["taskCommentRevision"]>
+  composites: {}
+}
+
+export type TaskCommentRevisionGetPayload<S extends boolean | null | undefined | TaskCommentRevisionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload, S>
+
+export type TaskCommentRevisionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TaskCommentRevisionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TaskCommentRevisionCountAggregateInputType | true
+  }
+
+export interface TaskCommentRevisionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TaskCommentRevision'], meta: { name: 'TaskCommentRevision' } }
+  /**
+   * Find zero or one TaskCommentRevision that matches the filter.
+   * @param {TaskCommentRevisionFindUniqueArgs} args - Arguments to find a TaskCommentRevision
+   * @example
+   * // Get one TaskCommentRevision
+   * const taskCommentRevision = await prisma.taskCommentRevision.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TaskCommentRevisionFindUniqueArgs>(args: Prisma.SelectSubset<T, TaskCommentRevisionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TaskCommentRevisionClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TaskCommentRevision that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TaskCommentRevisionFindUniqueOrThrowArgs} args - Arguments to find a TaskCommentRevision
+   * @example
+   * // Get one TaskCommentRevision
+   * const taskCommentRevision = await prisma.taskCommentRevision.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TaskCommentRevisionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TaskCommentRevisionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskCommentRevisionClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskCommentRevision that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentRevisionFindFirstArgs} args - Arguments to find a TaskCommentRevision
+   * @example
+   * // Get one TaskCommentRevision
+   * const taskCommentRevision = await prisma.taskCommentRevision.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TaskCommentRevisionFindFirstArgs>(args?: Prisma.SelectSubset<T, TaskCommentRevisionFindFirstArgs<ExtArgs>>): Prisma.Prisma__TaskCommentRevisionClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskCommentRevision that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentRevisionFindFirstOrThrowArgs} args - Arguments to find a TaskCommentRevision
+   * @example
+   * // Get one TaskCommentRevision
+   * const taskCommentRevision = await prisma.taskCommentRevision.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TaskCommentRevisionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TaskCommentRevisionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskCommentRevisionClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TaskCommentRevisions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentRevisionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TaskCommentRevisions
+   * const taskCommentRevisions = await prisma.taskCommentRevision.findMany()
+   * 
+   * // Get first 10 TaskCommentRevisions
+   * const taskCommentRevisions = await prisma.taskCommentRevision.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const taskCommentRevisionWithIdOnly = await prisma.taskCommentRevision.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TaskCommentRevisionFindManyArgs>(args?: Prisma.SelectSubset<T, TaskCommentRevisionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TaskCommentRevision.
+   * @param {TaskCommentRevisionCreateArgs} args - Arguments to create a TaskCommentRevision.
+   * @example
+   * // Create one TaskCommentRevision
+   * const TaskCommentRevision = await prisma.taskCommentRevision.create({
+   *   data: {
+   *     // ... data to create a TaskCommentRevision
+   *   }
+   * })
+   * 
+   */
+  create<T extends TaskCommentRevisionCreateArgs>(args: Prisma.SelectSubset<T, TaskCommentRevisionCreateArgs<ExtArgs>>): Prisma.Prisma__TaskCommentRevisionClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TaskCommentRevisions.
+   * @param {TaskCommentRevisionCreateManyArgs} args - Arguments to create many TaskCommentRevisions.
+   * @example
+   * // Create many TaskCommentRevisions
+   * const taskCommentRevision = await prisma.taskCommentRevision.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TaskCommentRevisionCreateManyArgs>(args?: Prisma.SelectSubset<T, TaskCommentRevisionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TaskCommentRevisions and returns the data saved in the database.
+   * @param {TaskCommentRevisionCreateManyAndReturnArgs} args - Arguments to create many TaskCommentRevisions.
+   * @example
+   * // Create many TaskCommentRevisions
+   * const taskCommentRevision = await prisma.taskCommentRevision.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TaskCommentRevisions and only return the `id`
+   * const taskCommentRevisionWithIdOnly = await prisma.taskCommentRevision.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TaskCommentRevisionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TaskCommentRevisionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TaskCommentRevision.
+   * @param {TaskCommentRevisionDeleteArgs} args - Arguments to delete one TaskCommentRevision.
+   * @example
+   * // Delete one TaskCommentRevision
+   * const TaskCommentRevision = await prisma.taskCommentRevision.delete({
+   *   where: {
+   *     // ... filter to delete one TaskCommentRevision
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TaskCommentRevisionDeleteArgs>(args: Prisma.SelectSubset<T, TaskCommentRevisionDeleteArgs<ExtArgs>>): Prisma.Prisma__TaskCommentRevisionClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TaskCommentRevision.
+   * @param {TaskCommentRevisionUpdateArgs} args - Arguments to update one TaskCommentRevision.
+   * @example
+   * // Update one TaskCommentRevision
+   * const taskCommentRevision = await prisma.taskCommentRevision.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TaskCommentRevisionUpdateArgs>(args: Prisma.SelectSubset<T, TaskCommentRevisionUpdateArgs<ExtArgs>>): Prisma.Prisma__TaskCommentRevisionClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TaskCommentRevisions.
+   * @param {TaskCommentRevisionDeleteManyArgs} args - Arguments to filter TaskCommentRevisions to delete.
+   * @example
+   * // Delete a few TaskCommentRevisions
+   * const { count } = await prisma.taskCommentRevision.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TaskCommentRevisionDeleteManyArgs>(args?: Prisma.SelectSubset<T, TaskCommentRevisionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskCommentRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentRevisionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TaskCommentRevisions
+   * const taskCommentRevision = await prisma.taskCommentRevision.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TaskCommentRevisionUpdateManyArgs>(args: Prisma.SelectSubset<T, TaskCommentRevisionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskCommentRevisions and returns the data updated in the database.
+   * @param {TaskCommentRevisionUpdateManyAndReturnArgs} args - Arguments to update many TaskCommentRevisions.
+   * @example
+   * // Update many TaskCommentRevisions
+   * const taskCommentRevision = await prisma.taskCommentRevision.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TaskCommentRevisions and only return the `id`
+   * const taskCommentRevisionWithIdOnly = await prisma.taskCommentRevision.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TaskCommentRevisionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TaskCommentRevisionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TaskCommentRevision.
+   * @param {TaskCommentRevisionUpsertArgs} args - Arguments to update or create a TaskCommentRevision.
+   * @example
+   * // Update or create a TaskCommentRevision
+   * const taskCommentRevision = await prisma.taskCommentRevision.upsert({
+   *   create: {
+   *     // ... data to create a TaskCommentRevision
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TaskCommentRevision we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TaskCommentRevisionUpsertArgs>(args: Prisma.SelectSubset<T, TaskCommentRevisionUpsertArgs<ExtArgs>>): Prisma.Prisma__TaskCommentRevisionClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TaskCommentRevisions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentRevisionCountArgs} args - Arguments to filter TaskCommentRevisions to count.
+   * @example
+   * // Count the number of TaskCommentRevisions
+   * const count = await prisma.taskCommentRevision.count({
+   *   where: {
+   *     // ... the filter for the TaskCommentRevisions we want to count
+   *   }
+   * })
+  **/
+  count<T extends TaskCommentRevisionCountArgs>(
+    args?: Prisma.Subset<T, TaskCommentRevisionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TaskCommentRevisionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TaskCommentRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentRevisionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TaskCommentRevisionAggregateArgs>(args: Prisma.Subset<T, TaskCommentRevisionAggregateArgs>): Prisma.PrismaPromise<GetTaskCommentRevisionAggregateType<T>>
+
+  /**
+   * Group by TaskCommentRevision.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskCommentRevisionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TaskCommentRevisionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TaskCommentRevisionGroupByArgs['orderBy'] }
+      : { orderBy?: TaskCommentRevisionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TaskCommentRevisionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTaskCommentRevisionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TaskCommentRevision model
+ */
+readonly fields: TaskCommentRevisionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TaskCommentRevision.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TaskCommentRevisionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  comment<T extends Prisma.TaskCommentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskCommentDefaultArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  editedBy<T extends Prisma.TaskCommentRevision$editedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskCommentRevision$editedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TaskCommentRevision model
+ */
+export interface TaskCommentRevisionFieldRefs {
+  readonly id: Prisma.FieldRef<"TaskCommentRevision", 'Int'>
+  readonly commentId: Prisma.FieldRef<"TaskCommentRevision", 'Int'>
+  readonly body: Prisma.FieldRef<"TaskCommentRevision", 'String'>
+  readonly action: Prisma.FieldRef<"TaskCommentRevision", 'CommentRevisionType'>
+  readonly editedById: Prisma.FieldRef<"TaskCommentRevision", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"TaskCommentRevision", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TaskCommentRevision findUnique
+ */
+export type TaskCommentRevisionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskCommentRevision to fetch.
+   */
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+}
+
+/**
+ * TaskCommentRevision findUniqueOrThrow
+ */
+export type TaskCommentRevisionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskCommentRevision to fetch.
+   */
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+}
+
+/**
+ * TaskCommentRevision findFirst
+ */
+export type TaskCommentRevisionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskCommentRevision to fetch.
+   */
+  where?: Prisma.TaskCommentRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskCommentRevisions to fetch.
+   */
+  orderBy?: Prisma.TaskCommentRevisionOrderByWithRelationInput | Prisma.TaskCommentRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskCommentRevisions.
+   */
+  cursor?: Prisma.TaskCommentRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskCommentRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskCommentRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskCommentRevisions.
+   */
+  distinct?: Prisma.TaskCommentRevisionScalarFieldEnum | Prisma.TaskCommentRevisionScalarFieldEnum[]
+}
+
+/**
+ * TaskCommentRevision findFirstOrThrow
+ */
+export type TaskCommentRevisionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskCommentRevision to fetch.
+   */
+  where?: Prisma.TaskCommentRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskCommentRevisions to fetch.
+   */
+  orderBy?: Prisma.TaskCommentRevisionOrderByWithRelationInput | Prisma.TaskCommentRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskCommentRevisions.
+   */
+  cursor?: Prisma.TaskCommentRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskCommentRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskCommentRevisions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskCommentRevisions.
+   */
+  distinct?: Prisma.TaskCommentRevisionScalarFieldEnum | Prisma.TaskCommentRevisionScalarFieldEnum[]
+}
+
+/**
+ * TaskCommentRevision findMany
+ */
+export type TaskCommentRevisionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskCommentRevisions to fetch.
+   */
+  where?: Prisma.TaskCommentRevisionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskCommentRevisions to fetch.
+   */
+  orderBy?: Prisma.TaskCommentRevisionOrderByWithRelationInput | Prisma.TaskCommentRevisionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TaskCommentRevisions.
+   */
+  cursor?: Prisma.TaskCommentRevisionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskCommentRevisions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskCommentRevisions.
+   */
+  skip?: number
+  distinct?: Prisma.TaskCommentRevisionScalarFieldEnum | Prisma.TaskCommentRevisionScalarFieldEnum[]
+}
+
+/**
+ * TaskCommentRevision create
+ */
+export type TaskCommentRevisionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TaskCommentRevision.
+   */
+  data: Prisma.XOR<Prisma.TaskCommentRevisionCreateInput, Prisma.TaskCommentRevisionUncheckedCreateInput>
+}
+
+/**
+ * TaskCommentRevision createMany
+ */
+export type TaskCommentRevisionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TaskCommentRevisions.
+   */
+  data: Prisma.TaskCommentRevisionCreateManyInput | Prisma.TaskCommentRevisionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaskCommentRevision createManyAndReturn
+ */
+export type TaskCommentRevisionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to create many TaskCommentRevisions.
+   */
+  data: Prisma.TaskCommentRevisionCreateManyInput | Prisma.TaskCommentRevisionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskCommentRevision update
+ */
+export type TaskCommentRevisionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TaskCommentRevision.
+   */
+  data: Prisma.XOR<Prisma.TaskCommentRevisionUpdateInput, Prisma.TaskCommentRevisionUncheckedUpdateInput>
+  /**
+   * Choose, which TaskCommentRevision to update.
+   */
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+}
+
+/**
+ * TaskCommentRevision updateMany
+ */
+export type TaskCommentRevisionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TaskCommentRevisions.
+   */
+  data: Prisma.XOR<Prisma.TaskCommentRevisionUpdateManyMutationInput, Prisma.TaskCommentRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskCommentRevisions to update
+   */
+  where?: Prisma.TaskCommentRevisionWhereInput
+  /**
+   * Limit how many TaskCommentRevisions to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaskCommentRevision updateManyAndReturn
+ */
+export type TaskCommentRevisionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * The data used to update TaskCommentRevisions.
+   */
+  data: Prisma.XOR<Prisma.TaskCommentRevisionUpdateManyMutationInput, Prisma.TaskCommentRevisionUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskCommentRevisions to update
+   */
+  where?: Prisma.TaskCommentRevisionWhereInput
+  /**
+   * Limit how many TaskCommentRevisions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskCommentRevision upsert
+ */
+export type TaskCommentRevisionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TaskCommentRevision to update in case it exists.
+   */
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+  /**
+   * In case the TaskCommentRevision found by the `where` argument doesn't exist, create a new TaskCommentRevision with this data.
+   */
+  create: Prisma.XOR<Prisma.TaskCommentRevisionCreateInput, Prisma.TaskCommentRevisionUncheckedCreateInput>
+  /**
+   * In case the TaskCommentRevision was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TaskCommentRevisionUpdateInput, Prisma.TaskCommentRevisionUncheckedUpdateInput>
+}
+
+/**
+ * TaskCommentRevision delete
+ */
+export type TaskCommentRevisionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  /**
+   * Filter which TaskCommentRevision to delete.
+   */
+  where: Prisma.TaskCommentRevisionWhereUniqueInput
+}
+
+/**
+ * TaskCommentRevision deleteMany
+ */
+export type TaskCommentRevisionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskCommentRevisions to delete
+   */
+  where?: Prisma.TaskCommentRevisionWhereInput
+  /**
+   * Limit how many TaskCommentRevisions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TaskCommentRevision.editedBy
+ */
+export type TaskCommentRevision$editedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * TaskCommentRevision without action
+ */
+export type TaskCommentRevisionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+}
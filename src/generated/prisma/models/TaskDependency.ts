@@ -0,0 +1,1614 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TaskDependency` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TaskDependency
+ * 
+ */
+export type TaskDependencyModel = runtime.Types.Result.DefaultSelection<Prisma.$TaskDependencyPayload>
+
+export type AggregateTaskDependency = {
+  _count: TaskDependencyCountAggregateOutputType | null
+  _avg: TaskDependencyAvgAggregateOutputType | null
+  _sum: TaskDependencySumAggregateOutputType | null
+  _min: TaskDependencyMinAggregateOutputType | null
+  _max: TaskDependencyMaxAggregateOutputType | null
+}
+
+export type TaskDependencyAvgAggregateOutputType = {
+  blockedTaskId: number | null
+  blockerTaskId: number | null
+  createdById: number | null
+}
+
+export type TaskDependencySumAggregateOutputType = {
+  blockedTaskId: number | null
+  blockerTaskId: number | null
+  createdById: number | null
+}
+
+export type TaskDependencyMinAggregateOutputType = {
+  blockedTaskId: number | null
+  blockerTaskId: number | null
+  createdById: number | null
+  createdAt: Date | null
+}
+
+export type TaskDependencyMaxAggregateOutputType = {
+  blockedTaskId: number | null
+  blockerTaskId: number | null
+  createdById: number | null
+  createdAt: Date | null
+}
+
+export type TaskDependencyCountAggregateOutputType = {
+  blockedTaskId: number
+  blockerTaskId: number
+  createdById: number
+  createdAt: number
+  _all: number
+}
+
+
+export type TaskDependencyAvgAggregateInputType = {
+  blockedTaskId?: true
+  blockerTaskId?: true
+  createdById?: true
+}
+
+export type TaskDependencySumAggregateInputType = {
+  blockedTaskId?: true
+  blockerTaskId?: true
+  createdById?: true
+}
+
+export type TaskDependencyMinAggregateInputType = {
+  blockedTaskId?: true
+  blockerTaskId?: true
+  createdById?: true
+  createdAt?: true
+}
+
+export type TaskDependencyMaxAggregateInputType = {
+  blockedTaskId?: true
+  blockerTaskId?: true
+  createdById?: true
+  createdAt?: true
+}
+
+export type TaskDependencyCountAggregateInputType = {
+  blockedTaskId?: true
+  blockerTaskId?: true
+  createdById?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type TaskDependencyAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskDependency to aggregate.
+   */
+  where?: Prisma.TaskDependencyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskDependencies to fetch.
+   */
+  orderBy?: Prisma.TaskDependencyOrderByWithRelationInput | Prisma.TaskDependencyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TaskDependencyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskDependencies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskDependencies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TaskDependencies
+  **/
+  _count?: true | TaskDependencyCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TaskDependencyAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TaskDependencySumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TaskDependencyMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TaskDependencyMaxAggregateInputType
+}
+
+export type GetTaskDependencyAggregateType<T extends TaskDependencyAggregateArgs> = {
+      [P in keyof T & keyof AggregateTaskDependency]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTaskDependency[P]>
+    : Prisma.GetScalarType<T[P], AggregateTaskDependency[P]>
+}
+
+
+
+
+export type TaskDependencyGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskDependencyWhereInput
+  orderBy?: Prisma.TaskDependencyOrderByWithAggregationInput | Prisma.TaskDependencyOrderByWithAggregationInput[]
+  by: Prisma.TaskDependencyScalarFieldEnum[] | Prisma.TaskDependencyScalarFieldEnum
+  having?: Prisma.TaskDependencyScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TaskDependencyCountAggregateInputType | true
+  _avg?: TaskDependencyAvgAggregateInputType
+  _sum?: TaskDependencySumAggregateInputType
+  _min?: TaskDependencyMinAggregateInputType
+  _max?: TaskDependencyMaxAggregateInputType
+}
+
+export type TaskDependencyGroupByOutputType = {
+  blockedTaskId: number
+  blockerTaskId: number
+  createdById: number | null
+  createdAt: Date
+  _count: TaskDependencyCountAggregateOutputType | null
+  _avg: TaskDependencyAvgAggregateOutputType | null
+  _sum: TaskDependencySumAggregateOutputType | null
+  _min: TaskDependencyMinAggregateOutputType | null
+  _max: TaskDependencyMaxAggregateOutputType | null
+}
+
+type GetTaskDependencyGroupByPayload<T extends TaskDependencyGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TaskDependencyGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TaskDependencyGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TaskDependencyGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TaskDependencyGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TaskDependencyWhereInput = {
+  AND?: Prisma.TaskDependencyWhereInput | Prisma.TaskDependencyWhereInput[]
+  OR?: Prisma.TaskDependencyWhereInput[]
+  NOT?: Prisma.TaskDependencyWhereInput | Prisma.TaskDependencyWhereInput[]
+  blockedTaskId?: Prisma.IntFilter<"TaskDependency"> | number
+  blockerTaskId?: Prisma.IntFilter<"TaskDependency"> | number
+  createdById?: Prisma.IntNullableFilter<"TaskDependency"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskDependency"> | Date | string
+  blockedTask?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  blockerTask?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  createdBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type TaskDependencyOrderByWithRelationInput = {
+  blockedTaskId?: Prisma.SortOrder
+  blockerTaskId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  blockedTask?: Prisma.TaskOrderByWithRelationInput
+  blockerTask?: Prisma.TaskOrderByWithRelationInput
+  createdBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type TaskDependencyWhereUniqueInput = Prisma.AtLeast<{
+  blockedTaskId_blockerTaskId?: Prisma.TaskDependencyBlockedTaskIdBlockerTaskIdCompoundUniqueInput
+  AND?: Prisma.TaskDependencyWhereInput | Prisma.TaskDependencyWhereInput[]
+  OR?: Prisma.TaskDependencyWhereInput[]
+  NOT?: Prisma.TaskDependencyWhereInput | Prisma.TaskDependencyWhereInput[]
+  blockedTaskId?: Prisma.IntFilter<"TaskDependency"> | number
+  blockerTaskId?: Prisma.IntFilter<"TaskDependency"> | number
+  createdById?: Prisma.IntNullableFilter<"TaskDependency"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskDependency"> | Date | string
+  blockedTask?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  blockerTask?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  createdBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "blockedTaskId_blockerTaskId">
+
+export type TaskDependencyOrderByWithAggregationInput = {
+  blockedTaskId?: Prisma.SortOrder
+  blockerTaskId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.TaskDependencyCountOrderByAggregateInput
+  _avg?: Prisma.TaskDependencyAvgOrderByAggregateInput
+  _max?: Prisma.TaskDependencyMaxOrderByAggregateInput
+  _min?: Prisma.TaskDependencyMinOrderByAggregateInput
+  _sum?: Prisma.TaskDependencySumOrderByAggregateInput
+}
+
+export type TaskDependencyScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TaskDependencyScalarWhereWithAggregatesInput | Prisma.TaskDependencyScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TaskDependencyScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TaskDependencyScalarWhereWithAggregatesInput | Prisma.TaskDependencyScalarWhereWithAggregatesInput[]
+  blockedTaskId?: Prisma.IntWithAggregatesFilter<"TaskDependency"> | number
+  blockerTaskId?: Prisma.IntWithAggregatesFilter<"TaskDependency"> | number
+  createdById?: Prisma.IntNullableWithAggregatesFilter<"TaskDependency"> | number | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TaskDependency"> | Date | string
+}
+
+export type TaskDependencyCreateInput = {
+  createdAt?: Date | string
+  blockedTask: Prisma.TaskCreateNestedOneWithoutBlockedByInput
+  blockerTask: Prisma.TaskCreateNestedOneWithoutBlockingInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutTaskDependenciesInput
+}
+
+export type TaskDependencyUncheckedCreateInput = {
+  blockedTaskId: number
+  blockerTaskId: number
+  createdById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskDependencyUpdateInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  blockedTask?: Prisma.TaskUpdateOneRequiredWithoutBlockedByNestedInput
+  blockerTask?: Prisma.TaskUpdateOneRequiredWithoutBlockingNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutTaskDependenciesNestedInput
+}
+
+export type TaskDependencyUncheckedUpdateInput = {
+  blockedTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  blockerTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskDependencyCreateManyInput = {
+  blockedTaskId: number
+  blockerTaskId: number
+  createdById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskDependencyUpdateManyMutationInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskDependencyUncheckedUpdateManyInput = {
+  blockedTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  blockerTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskDependencyListRelationFilter = {
+  every?: Prisma.TaskDependencyWhereInput
+  some?: Prisma.TaskDependencyWhereInput
+  none?: Prisma.TaskDependencyWhereInput
+}
+
+export type TaskDependencyOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TaskDependencyBlockedTaskIdBlockerTaskIdCompoundUniqueInput = {
+  blockedTaskId: number
+  blockerTaskId: number
+}
+
+export type TaskDependencyCountOrderByAggregateInput = {
+  blockedTaskId?: Prisma.SortOrder
+  blockerTaskId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskDependencyAvgOrderByAggregateInput = {
+  blockedTaskId?: Prisma.SortOrder
+  blockerTaskId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+}
+
+export type TaskDependencyMaxOrderByAggregateInput = {
+  blockedTaskId?: Prisma.SortOrder
+  blockerTaskId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskDependencyMinOrderByAggregateInput = {
+  blockedTaskId?: Prisma.SortOrder
+  blockerTaskId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskDependencySumOrderByAggregateInput = {
+  blockedTaskId?: Prisma.SortOrder
+  blockerTaskId?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+}
+
+export type TaskDependencyCreateNestedManyWithoutBlockedTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockedTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput> | Prisma.TaskDependencyCreateWithoutBlockedTaskInput[] | Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutBlockedTaskInput | Prisma.TaskDependencyCreateOrConnectWithoutBlockedTaskInput[]
+  createMany?: Prisma.TaskDependencyCreateManyBlockedTaskInputEnvelope
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+}
+
+export type TaskDependencyCreateNestedManyWithoutBlockerTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockerTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput> | Prisma.TaskDependencyCreateWithoutBlockerTaskInput[] | Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutBlockerTaskInput | Prisma.TaskDependencyCreateOrConnectWithoutBlockerTaskInput[]
+  createMany?: Prisma.TaskDependencyCreateManyBlockerTaskInputEnvelope
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+}
+
+export type TaskDependencyUncheckedCreateNestedManyWithoutBlockedTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockedTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput> | Prisma.TaskDependencyCreateWithoutBlockedTaskInput[] | Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutBlockedTaskInput | Prisma.TaskDependencyCreateOrConnectWithoutBlockedTaskInput[]
+  createMany?: Prisma.TaskDependencyCreateManyBlockedTaskInputEnvelope
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+}
+
+export type TaskDependencyUncheckedCreateNestedManyWithoutBlockerTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockerTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput> | Prisma.TaskDependencyCreateWithoutBlockerTaskInput[] | Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutBlockerTaskInput | Prisma.TaskDependencyCreateOrConnectWithoutBlockerTaskInput[]
+  createMany?: Prisma.TaskDependencyCreateManyBlockerTaskInputEnvelope
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+}
+
+export type TaskDependencyUpdateManyWithoutBlockedTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockedTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput> | Prisma.TaskDependencyCreateWithoutBlockedTaskInput[] | Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutBlockedTaskInput | Prisma.TaskDependencyCreateOrConnectWithoutBlockedTaskInput[]
+  upsert?: Prisma.TaskDependencyUpsertWithWhereUniqueWithoutBlockedTaskInput | Prisma.TaskDependencyUpsertWithWhereUniqueWithoutBlockedTaskInput[]
+  createMany?: Prisma.TaskDependencyCreateManyBlockedTaskInputEnvelope
+  set?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  disconnect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  delete?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  update?: Prisma.TaskDependencyUpdateWithWhereUniqueWithoutBlockedTaskInput | Prisma.TaskDependencyUpdateWithWhereUniqueWithoutBlockedTaskInput[]
+  updateMany?: Prisma.TaskDependencyUpdateManyWithWhereWithoutBlockedTaskInput | Prisma.TaskDependencyUpdateManyWithWhereWithoutBlockedTaskInput[]
+  deleteMany?: Prisma.TaskDependencyScalarWhereInput | Prisma.TaskDependencyScalarWhereInput[]
+}
+
+export type TaskDependencyUpdateManyWithoutBlockerTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockerTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput> | Prisma.TaskDependencyCreateWithoutBlockerTaskInput[] | Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutBlockerTaskInput | Prisma.TaskDependencyCreateOrConnectWithoutBlockerTaskInput[]
+  upsert?: Prisma.TaskDependencyUpsertWithWhereUniqueWithoutBlockerTaskInput | Prisma.TaskDependencyUpsertWithWhereUniqueWithoutBlockerTaskInput[]
+  createMany?: Prisma.TaskDependencyCreateManyBlockerTaskInputEnvelope
+  set?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  disconnect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  delete?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  update?: Prisma.TaskDependencyUpdateWithWhereUniqueWithoutBlockerTaskInput | Prisma.TaskDependencyUpdateWithWhereUniqueWithoutBlockerTaskInput[]
+  updateMany?: Prisma.TaskDependencyUpdateManyWithWhereWithoutBlockerTaskInput | Prisma.TaskDependencyUpdateManyWithWhereWithoutBlockerTaskInput[]
+  deleteMany?: Prisma.TaskDependencyScalarWhereInput | Prisma.TaskDependencyScalarWhereInput[]
+}
+
+export type TaskDependencyUncheckedUpdateManyWithoutBlockedTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockedTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput> | Prisma.TaskDependencyCreateWithoutBlockedTaskInput[] | Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutBlockedTaskInput | Prisma.TaskDependencyCreateOrConnectWithoutBlockedTaskInput[]
+  upsert?: Prisma.TaskDependencyUpsertWithWhereUniqueWithoutBlockedTaskInput | Prisma.TaskDependencyUpsertWithWhereUniqueWithoutBlockedTaskInput[]
+  createMany?: Prisma.TaskDependencyCreateManyBlockedTaskInputEnvelope
+  set?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  disconnect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  delete?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  update?: Prisma.TaskDependencyUpdateWithWhereUniqueWithoutBlockedTaskInput | Prisma.TaskDependencyUpdateWithWhereUniqueWithoutBlockedTaskInput[]
+  updateMany?: Prisma.TaskDependencyUpdateManyWithWhereWithoutBlockedTaskInput | Prisma.TaskDependencyUpdateManyWithWhereWithoutBlockedTaskInput[]
+  deleteMany?: Prisma.TaskDependencyScalarWhereInput | Prisma.TaskDependencyScalarWhereInput[]
+}
+
+export type TaskDependencyUncheckedUpdateManyWithoutBlockerTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockerTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput> | Prisma.TaskDependencyCreateWithoutBlockerTaskInput[] | Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutBlockerTaskInput | Prisma.TaskDependencyCreateOrConnectWithoutBlockerTaskInput[]
+  upsert?: Prisma.TaskDependencyUpsertWithWhereUniqueWithoutBlockerTaskInput | Prisma.TaskDependencyUpsertWithWhereUniqueWithoutBlockerTaskInput[]
+  createMany?: Prisma.TaskDependencyCreateManyBlockerTaskInputEnvelope
+  set?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  disconnect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  delete?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  update?: Prisma.TaskDependencyUpdateWithWhereUniqueWithoutBlockerTaskInput | Prisma.TaskDependencyUpdateWithWhereUniqueWithoutBlockerTaskInput[]
+  updateMany?: Prisma.TaskDependencyUpdateManyWithWhereWithoutBlockerTaskInput | Prisma.TaskDependencyUpdateManyWithWhereWithoutBlockerTaskInput[]
+  deleteMany?: Prisma.TaskDependencyScalarWhereInput | Prisma.TaskDependencyScalarWhereInput[]
+}
+
+export type TaskDependencyCreateNestedManyWithoutCreatedByInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutCreatedByInput, Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput> | Prisma.TaskDependencyCreateWithoutCreatedByInput[] | Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutCreatedByInput | Prisma.TaskDependencyCreateOrConnectWithoutCreatedByInput[]
+  createMany?: Prisma.TaskDependencyCreateManyCreatedByInputEnvelope
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+}
+
+export type TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutCreatedByInput, Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput> | Prisma.TaskDependencyCreateWithoutCreatedByInput[] | Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutCreatedByInput | Prisma.TaskDependencyCreateOrConnectWithoutCreatedByInput[]
+  createMany?: Prisma.TaskDependencyCreateManyCreatedByInputEnvelope
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+}
+
+export type TaskDependencyUpdateManyWithoutCreatedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutCreatedByInput, Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput> | Prisma.TaskDependencyCreateWithoutCreatedByInput[] | Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutCreatedByInput | Prisma.TaskDependencyCreateOrConnectWithoutCreatedByInput[]
+  upsert?: Prisma.TaskDependencyUpsertWithWhereUniqueWithoutCreatedByInput | Prisma.TaskDependencyUpsertWithWhereUniqueWithoutCreatedByInput[]
+  createMany?: Prisma.TaskDependencyCreateManyCreatedByInputEnvelope
+  set?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  disconnect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  delete?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  update?: Prisma.TaskDependencyUpdateWithWhereUniqueWithoutCreatedByInput | Prisma.TaskDependencyUpdateWithWhereUniqueWithoutCreatedByInput[]
+  updateMany?: Prisma.TaskDependencyUpdateManyWithWhereWithoutCreatedByInput | Prisma.TaskDependencyUpdateManyWithWhereWithoutCreatedByInput[]
+  deleteMany?: Prisma.TaskDependencyScalarWhereInput | Prisma.TaskDependencyScalarWhereInput[]
+}
+
+export type TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskDependencyCreateWithoutCreatedByInput, Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput> | Prisma.TaskDependencyCreateWithoutCreatedByInput[] | Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput[]
+  connectOrCreate?: Prisma.TaskDependencyCreateOrConnectWithoutCreatedByInput | Prisma.TaskDependencyCreateOrConnectWithoutCreatedByInput[]
+  upsert?: Prisma.TaskDependencyUpsertWithWhereUniqueWithoutCreatedByInput | Prisma.TaskDependencyUpsertWithWhereUniqueWithoutCreatedByInput[]
+  createMany?: Prisma.TaskDependencyCreateManyCreatedByInputEnvelope
+  set?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  disconnect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  delete?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  connect?: Prisma.TaskDependencyWhereUniqueInput | Prisma.TaskDependencyWhereUniqueInput[]
+  update?: Prisma.TaskDependencyUpdateWithWhereUniqueWithoutCreatedByInput | Prisma.TaskDependencyUpdateWithWhereUniqueWithoutCreatedByInput[]
+  updateMany?: Prisma.TaskDependencyUpdateManyWithWhereWithoutCreatedByInput | Prisma.TaskDependencyUpdateManyWithWhereWithoutCreatedByInput[]
+  deleteMany?: Prisma.TaskDependencyScalarWhereInput | Prisma.TaskDependencyScalarWhereInput[]
+}
+
+export type TaskDependencyCreateWithoutBlockedTaskInput = {
+  createdAt?: Date | string
+  blockerTask: Prisma.TaskCreateNestedOneWithoutBlockingInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutTaskDependenciesInput
+}
+
+export type TaskDependencyUncheckedCreateWithoutBlockedTaskInput = {
+  blockerTaskId: number
+  createdById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskDependencyCreateOrConnectWithoutBlockedTaskInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockedTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput>
+}
+
+export type TaskDependencyCreateManyBlockedTaskInputEnvelope = {
+  data: Prisma.TaskDependencyCreateManyBlockedTaskInput | Prisma.TaskDependencyCreateManyBlockedTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskDependencyCreateWithoutBlockerTaskInput = {
+  createdAt?: Date | string
+  blockedTask: Prisma.TaskCreateNestedOneWithoutBlockedByInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutTaskDependenciesInput
+}
+
+export type TaskDependencyUncheckedCreateWithoutBlockerTaskInput = {
+  blockedTaskId: number
+  createdById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskDependencyCreateOrConnectWithoutBlockerTaskInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockerTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput>
+}
+
+export type TaskDependencyCreateManyBlockerTaskInputEnvelope = {
+  data: Prisma.TaskDependencyCreateManyBlockerTaskInput | Prisma.TaskDependencyCreateManyBlockerTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskDependencyUpsertWithWhereUniqueWithoutBlockedTaskInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskDependencyUpdateWithoutBlockedTaskInput, Prisma.TaskDependencyUncheckedUpdateWithoutBlockedTaskInput>
+  create: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockedTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockedTaskInput>
+}
+
+export type TaskDependencyUpdateWithWhereUniqueWithoutBlockedTaskInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateWithoutBlockedTaskInput, Prisma.TaskDependencyUncheckedUpdateWithoutBlockedTaskInput>
+}
+
+export type TaskDependencyUpdateManyWithWhereWithoutBlockedTaskInput = {
+  where: Prisma.TaskDependencyScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateManyMutationInput, Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockedTaskInput>
+}
+
+export type TaskDependencyScalarWhereInput = {
+  AND?: Prisma.TaskDependencyScalarWhereInput | Prisma.TaskDependencyScalarWhereInput[]
+  OR?: Prisma.TaskDependencyScalarWhereInput[]
+  NOT?: Prisma.TaskDependencyScalarWhereInput | Prisma.TaskDependencyScalarWhereInput[]
+  blockedTaskId?: Prisma.IntFilter<"TaskDependency"> | number
+  blockerTaskId?: Prisma.IntFilter<"TaskDependency"> | number
+  createdById?: Prisma.IntNullableFilter<"TaskDependency"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"TaskDependency"> | Date | string
+}
+
+export type TaskDependencyUpsertWithWhereUniqueWithoutBlockerTaskInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskDependencyUpdateWithoutBlockerTaskInput, Prisma.TaskDependencyUncheckedUpdateWithoutBlockerTaskInput>
+  create: Prisma.XOR<Prisma.TaskDependencyCreateWithoutBlockerTaskInput, Prisma.TaskDependencyUncheckedCreateWithoutBlockerTaskInput>
+}
+
+export type TaskDependencyUpdateWithWhereUniqueWithoutBlockerTaskInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateWithoutBlockerTaskInput, Prisma.TaskDependencyUncheckedUpdateWithoutBlockerTaskInput>
+}
+
+export type TaskDependencyUpdateManyWithWhereWithoutBlockerTaskInput = {
+  where: Prisma.TaskDependencyScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateManyMutationInput, Prisma.TaskDependencyUncheckedUpdateManyWithoutBlockerTaskInput>
+}
+
+export type TaskDependencyCreateWithoutCreatedByInput = {
+  createdAt?: Date | string
+  blockedTask: Prisma.TaskCreateNestedOneWithoutBlockedByInput
+  blockerTask: Prisma.TaskCreateNestedOneWithoutBlockingInput
+}
+
+export type TaskDependencyUncheckedCreateWithoutCreatedByInput = {
+  blockedTaskId: number
+  blockerTaskId: number
+  createdAt?: Date | string
+}
+
+export type TaskDependencyCreateOrConnectWithoutCreatedByInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskDependencyCreateWithoutCreatedByInput, Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput>
+}
+
+export type TaskDependencyCreateManyCreatedByInputEnvelope = {
+  data: Prisma.TaskDependencyCreateManyCreatedByInput | Prisma.TaskDependencyCreateManyCreatedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskDependencyUpsertWithWhereUniqueWithoutCreatedByInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskDependencyUpdateWithoutCreatedByInput, Prisma.TaskDependencyUncheckedUpdateWithoutCreatedByInput>
+  create: Prisma.XOR<Prisma.TaskDependencyCreateWithoutCreatedByInput, Prisma.TaskDependencyUncheckedCreateWithoutCreatedByInput>
+}
+
+export type TaskDependencyUpdateWithWhereUniqueWithoutCreatedByInput = {
+  where: Prisma.TaskDependencyWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateWithoutCreatedByInput, Prisma.TaskDependencyUncheckedUpdateWithoutCreatedByInput>
+}
+
+export type TaskDependencyUpdateManyWithWhereWithoutCreatedByInput = {
+  where: Prisma.TaskDependencyScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateManyMutationInput, Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByInput>
+}
+
+export type TaskDependencyCreateManyBlockedTaskInput = {
+  blockerTaskId: number
+  createdById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskDependencyCreateManyBlockerTaskInput = {
+  blockedTaskId: number
+  createdById?: number | null
+  createdAt?: Date | string
+}
+
+export type TaskDependencyUpdateWithoutBlockedTaskInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  blockerTask?: Prisma.TaskUpdateOneRequiredWithoutBlockingNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutTaskDependenciesNestedInput
+}
+
+export type TaskDependencyUncheckedUpdateWithoutBlockedTaskInput = {
+  blockerTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskDependencyUncheckedUpdateManyWithoutBlockedTaskInput = {
+  blockerTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskDependencyUpdateWithoutBlockerTaskInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  blockedTask?: Prisma.TaskUpdateOneRequiredWithoutBlockedByNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutTaskDependenciesNestedInput
+}
+
+export type TaskDependencyUncheckedUpdateWithoutBlockerTaskInput = {
+  blockedTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskDependencyUncheckedUpdateManyWithoutBlockerTaskInput = {
+  blockedTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskDependencyCreateManyCreatedByInput = {
+  blockedTaskId: number
+  blockerTaskId: number
+  createdAt?: Date | string
+}
+
+export type TaskDependencyUpdateWithoutCreatedByInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  blockedTask?: Prisma.TaskUpdateOneRequiredWithoutBlockedByNestedInput
+  blockerTask?: Prisma.TaskUpdateOneRequiredWithoutBlockingNestedInput
+}
+
+export type TaskDependencyUncheckedUpdateWithoutCreatedByInput = {
+  blockedTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  blockerTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskDependencyUncheckedUpdateManyWithoutCreatedByInput = {
+  blockedTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  blockerTaskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TaskDependencySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  blockedTaskId?: boolean
+  blockerTaskId?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  blockedTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  blockerTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.TaskDependency$createdByArgs<ExtArgs>
+}, ExtArgs["result"]["taskDependency"]>
+
+export type TaskDependencySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  blockedTaskId?: boolean
+  blockerTaskId?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  blockedTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  blockerTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.TaskDependency$createdByArgs<ExtArgs>
+}, ExtArgs["result"]["taskDependency"]>
+
+export type TaskDependencySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  blockedTaskId?: boolean
+  blockerTaskId?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  blockedTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  blockerTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.TaskDependency$createdByArgs<ExtArgs>
+}, ExtArgs["result"]["taskDependency"]>
+
+export type TaskDependencySelectScalar = {
+  blockedTaskId?: boolean
+  blockerTaskId?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+}
+
+export type TaskDependencyOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"blockedTaskId" | "blockerTaskId" | "createdById" | "createdAt", ExtArgs["result"]["taskDependency"]>
+export type TaskDependencyInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  blockedTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  blockerTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.TaskDependency$createdByArgs<ExtArgs>
+}
+export type TaskDependencyIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  blockedTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  blockerTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.TaskDependency$createdByArgs<ExtArgs>
+}
+export type TaskDependencyIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  blockedTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  blockerTask?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  createdBy?: boolean | Prisma.TaskDependency$createdByArgs<ExtArgs>
+}
+
+export type $TaskDependencyPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TaskDependency"
+  objects: {
+    blockedTask: Prisma.$TaskPayload<ExtArgs>
+    blockerTask: Prisma.$TaskPayload<ExtArgs>
+    createdBy: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    blockedTaskId: number
+    blockerTaskId: number
+    createdById: number | null
+    createdAt: Date
+  }, ExtArgs["result"]["taskDependency"]>
+  composites: {}
+}
+
+export type TaskDependencyGetPayload<S extends boolean | null | undefined | TaskDependencyDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload, S>
+
+export type TaskDependencyCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TaskDependencyFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TaskDependencyCountAggregateInputType | true
+  }
+
+export interface TaskDependencyDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TaskDependency'], meta: { name: 'TaskDependency' } }
+  /**
+   * Find zero or one TaskDependency that matches the filter.
+   * @param {TaskDependencyFindUniqueArgs} args - Arguments to find a TaskDependency
+   * @example
+   * // Get one TaskDependency
+   * const taskDependency = await prisma.taskDependency.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TaskDependencyFindUniqueArgs>(args: Prisma.SelectSubset<T, TaskDependencyFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TaskDependencyClient<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TaskDependency that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TaskDependencyFindUniqueOrThrowArgs} args - Arguments to find a TaskDependency
+   * @example
+   * // Get one TaskDependency
+   * const taskDependency = await prisma.taskDependency.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TaskDependencyFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TaskDependencyFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskDependencyClient<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskDependency that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskDependencyFindFirstArgs} args - Arguments to find a TaskDependency
+   * @example
+   * // Get one TaskDependency
+   * const taskDependency = await prisma.taskDependency.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TaskDependencyFindFirstArgs>(args?: Prisma.SelectSubset<T, TaskDependencyFindFirstArgs<ExtArgs>>): Prisma.Prisma__TaskDependencyClient<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskDependency that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskDependencyFindFirstOrThrowArgs} args - Arguments to find a TaskDependency
+   * @example
+   * // Get one TaskDependency
+   * const taskDependency = await prisma.taskDependency.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TaskDependencyFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TaskDependencyFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskDependencyClient<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TaskDependencies that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskDependencyFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TaskDependencies
+   * const taskDependencies = await prisma.taskDependency.findMany()
+   * 
+   * // Get first 10 TaskDependencies
+   * const taskDependencies = await prisma.taskDependency.findMany({ take: 10 })
+   * 
+   * // Only select the `blockedTaskId`
+   * const taskDependencyWithBlockedTaskIdOnly = await prisma.taskDependency.findMany({ select: { blockedTaskId: true } })
+   * 
+   */
+  findMany<T extends TaskDependencyFindManyArgs>(args?: Prisma.SelectSubset<T, TaskDependencyFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TaskDependency.
+   * @param {TaskDependencyCreateArgs} args - Arguments to create a TaskDependency.
+   * @example
+   * // Create one TaskDependency
+   * const TaskDependency = await prisma.taskDependency.create({
+   *   data: {
+   *     // ... data to create a TaskDependency
+   *   }
+   * })
+   * 
+   */
+  create<T extends TaskDependencyCreateArgs>(args: Prisma.SelectSubset<T, TaskDependencyCreateArgs<ExtArgs>>): Prisma.Prisma__TaskDependencyClient<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TaskDependencies.
+   * @param {TaskDependencyCreateManyArgs} args - Arguments to create many TaskDependencies.
+   * @example
+   * // Create many TaskDependencies
+   * const taskDependency = await prisma.taskDependency.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TaskDependencyCreateManyArgs>(args?: Prisma.SelectSubset<T, TaskDependencyCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TaskDependencies and returns the data saved in the database.
+   * @param {TaskDependencyCreateManyAndReturnArgs} args - Arguments to create many TaskDependencies.
+   * @example
+   * // Create many TaskDependencies
+   * const taskDependency = await prisma.taskDependency.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TaskDependencies and only return the `blockedTaskId`
+   * const taskDependencyWithBlockedTaskIdOnly = await prisma.taskDependency.createManyAndReturn({
+   *   select: { blockedTaskId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TaskDependencyCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TaskDependencyCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TaskDependency.
+   * @param {TaskDependencyDeleteArgs} args - Arguments to delete one TaskDependency.
+   * @example
+   * // Delete one TaskDependency
+   * const TaskDependency = await prisma.taskDependency.delete({
+   *   where: {
+   *     // ... filter to delete one TaskDependency
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TaskDependencyDeleteArgs>(args: Prisma.SelectSubset<T, TaskDependencyDeleteArgs<ExtArgs>>): Prisma.Prisma__TaskDependencyClient<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TaskDependency.
+   * @param {TaskDependencyUpdateArgs} args - Arguments to update one TaskDependency.
+   * @example
+   * // Update one TaskDependency
+   * const taskDependency = await prisma.taskDependency.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TaskDependencyUpdateArgs>(args: Prisma.SelectSubset<T, TaskDependencyUpdateArgs<ExtArgs>>): Prisma.Prisma__TaskDependencyClient<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TaskDependencies.
+   * @param {TaskDependencyDeleteManyArgs} args - Arguments to filter TaskDependencies to delete.
+   * @example
+   * // Delete a few TaskDependencies
+   * const { count } = await prisma.taskDependency.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TaskDependencyDeleteManyArgs>(args?: Prisma.SelectSubset<T, TaskDependencyDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskDependencies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskDependencyUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TaskDependencies
+   * const taskDependency = await prisma.taskDependency.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TaskDependencyUpdateManyArgs>(args: Prisma.SelectSubset<T, TaskDependencyUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskDependencies and returns the data updated in the database.
+   * @param {TaskDependencyUpdateManyAndReturnArgs} args - Arguments to update many TaskDependencies.
+   * @example
+   * // Update many TaskDependencies
+   * const taskDependency = await prisma.taskDependency.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TaskDependencies and only return the `blockedTaskId`
+   * const taskDependencyWithBlockedTaskIdOnly = await prisma.taskDependency.updateManyAndReturn({
+   *   select: { blockedTaskId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TaskDependencyUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TaskDependencyUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TaskDependency.
+   * @param {TaskDependencyUpsertArgs} args - Arguments to update or create a TaskDependency.
+   * @example
+   * // Update or create a TaskDependency
+   * const taskDependency = await prisma.taskDependency.upsert({
+   *   create: {
+   *     // ... data to create a TaskDependency
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TaskDependency we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TaskDependencyUpsertArgs>(args: Prisma.SelectSubset<T, TaskDependencyUpsertArgs<ExtArgs>>): Prisma.Prisma__TaskDependencyClient<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TaskDependencies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskDependencyCountArgs} args - Arguments to filter TaskDependencies to count.
+   * @example
+   * // Count the number of TaskDependencies
+   * const count = await prisma.taskDependency.count({
+   *   where: {
+   *     // ... the filter for the TaskDependencies we want to count
+   *   }
+   * })
+  **/
+  count<T extends TaskDependencyCountArgs>(
+    args?: Prisma.Subset<T, TaskDependencyCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TaskDependencyCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TaskDependency.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskDependencyAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TaskDependencyAggregateArgs>(args: Prisma.Subset<T, TaskDependencyAggregateArgs>): Prisma.PrismaPromise<GetTaskDependencyAggregateType<T>>
+
+  /**
+   * Group by TaskDependency.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskDependencyGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TaskDependencyGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TaskDependencyGroupByArgs['orderBy'] }
+      : { orderBy?: TaskDependencyGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TaskDependencyGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTaskDependencyGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TaskDependency model
+ */
+readonly fields: TaskDependencyFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TaskDependency.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TaskDependencyClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  blockedTask<T extends Prisma.TaskDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskDefaultArgs<ExtArgs>>): Prisma.Prisma__TaskClient<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  blockerTask<T extends Prisma.TaskDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskDefaultArgs<ExtArgs>>): Prisma.Prisma__TaskClient<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  createdBy<T extends Prisma.TaskDependency$createdByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskDependency$createdByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TaskDependency model
+ */
+export interface TaskDependencyFieldRefs {
+  readonly blockedTaskId: Prisma.FieldRef<"TaskDependency", 'Int'>
+  readonly blockerTaskId: Prisma.FieldRef<"TaskDependency", 'Int'>
+  readonly createdById: Prisma.FieldRef<"TaskDependency", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"TaskDependency", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TaskDependency findUnique
+ */
+export type TaskDependencyFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskDependency to fetch.
+   */
+  where: Prisma.TaskDependencyWhereUniqueInput
+}
+
+/**
+ * TaskDependency findUniqueOrThrow
+ */
+export type TaskDependencyFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskDependency to fetch.
+   */
+  where: Prisma.TaskDependencyWhereUniqueInput
+}
+
+/**
+ * TaskDependency findFirst
+ */
+export type TaskDependencyFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskDependency to fetch.
+   */
+  where?: Prisma.TaskDependencyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskDependencies to fetch.
+   */
+  orderBy?: Prisma.TaskDependencyOrderByWithRelationInput | Prisma.TaskDependencyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskDependencies.
+   */
+  cursor?: Prisma.TaskDependencyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskDependencies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskDependencies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskDependencies.
+   */
+  distinct?: Prisma.TaskDependencyScalarFieldEnum | Prisma.TaskDependencyScalarFieldEnum[]
+}
+
+/**
+ * TaskDependency findFirstOrThrow
+ */
+export type TaskDependencyFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskDependency to fetch.
+   */
+  where?: Prisma.TaskDependencyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskDependencies to fetch.
+   */
+  orderBy?: Prisma.TaskDependencyOrderByWithRelationInput | Prisma.TaskDependencyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskDependencies.
+   */
+  cursor?: Prisma.TaskDependencyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskDependencies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskDependencies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskDependencies.
+   */
+  distinct?: Prisma.TaskDependencyScalarFieldEnum | Prisma.TaskDependencyScalarFieldEnum[]
+}
+
+/**
+ * TaskDependency findMany
+ */
+export type TaskDependencyFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskDependencies to fetch.
+   */
+  where?: Prisma.TaskDependencyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskDependencies to fetch.
+   */
+  orderBy?: Prisma.TaskDependencyOrderByWithRelationInput | Prisma.TaskDependencyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TaskDependencies.
+   */
+  cursor?: Prisma.TaskDependencyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskDependencies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskDependencies.
+   */
+  skip?: number
+  distinct?: Prisma.TaskDependencyScalarFieldEnum | Prisma.TaskDependencyScalarFieldEnum[]
+}
+
+/**
+ * TaskDependency create
+ */
+export type TaskDependencyCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TaskDependency.
+   */
+  data: Prisma.XOR<Prisma.TaskDependencyCreateInput, Prisma.TaskDependencyUncheckedCreateInput>
+}
+
+/**
+ * TaskDependency createMany
+ */
+export type TaskDependencyCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TaskDependencies.
+   */
+  data: Prisma.TaskDependencyCreateManyInput | Prisma.TaskDependencyCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaskDependency createManyAndReturn
+ */
+export type TaskDependencyCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * The data used to create many TaskDependencies.
+   */
+  data: Prisma.TaskDependencyCreateManyInput | Prisma.TaskDependencyCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskDependency update
+ */
+export type TaskDependencyUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TaskDependency.
+   */
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateInput, Prisma.TaskDependencyUncheckedUpdateInput>
+  /**
+   * Choose, which TaskDependency to update.
+   */
+  where: Prisma.TaskDependencyWhereUniqueInput
+}
+
+/**
+ * TaskDependency updateMany
+ */
+export type TaskDependencyUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TaskDependencies.
+   */
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateManyMutationInput, Prisma.TaskDependencyUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskDependencies to update
+   */
+  where?: Prisma.TaskDependencyWhereInput
+  /**
+   * Limit how many TaskDependencies to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaskDependency updateManyAndReturn
+ */
+export type TaskDependencyUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * The data used to update TaskDependencies.
+   */
+  data: Prisma.XOR<Prisma.TaskDependencyUpdateManyMutationInput, Prisma.TaskDependencyUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskDependencies to update
+   */
+  where?: Prisma.TaskDependencyWhereInput
+  /**
+   * Limit how many TaskDependencies to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskDependency upsert
+ */
+export type TaskDependencyUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TaskDependency to update in case it exists.
+   */
+  where: Prisma.TaskDependencyWhereUniqueInput
+  /**
+   * In case the TaskDependency found by the `where` argument doesn't exist, create a new TaskDependency with this data.
+   */
+  create: Prisma.XOR<Prisma.TaskDependencyCreateInput, Prisma.TaskDependencyUncheckedCreateInput>
+  /**
+   * In case the TaskDependency was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TaskDependencyUpdateInput, Prisma.TaskDependencyUncheckedUpdateInput>
+}
+
+/**
+ * TaskDependency delete
+ */
+export type TaskDependencyDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  /**
+   * Filter which TaskDependency to delete.
+   */
+  where: Prisma.TaskDependencyWhereUniqueInput
+}
+
+/**
+ * TaskDependency deleteMany
+ */
+export type TaskDependencyDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskDependencies to delete
+   */
+  where?: Prisma.TaskDependencyWhereInput
+  /**
+   * Limit how many TaskDependencies to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TaskDependency.createdBy
+ */
+export type TaskDependency$createdByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * TaskDependency without action
+ */
+export type TaskDependencyDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+}
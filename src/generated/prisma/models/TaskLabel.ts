@@ -0,0 +1,1434 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TaskLabel` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TaskLabel
+ * 
+ */
+export type TaskLabelModel = runtime.Types.Result.DefaultSelection<Prisma.$TaskLabelPayload>
+
+export type AggregateTaskLabel = {
+  _count: TaskLabelCountAggregateOutputType | null
+  _avg: TaskLabelAvgAggregateOutputType | null
+  _sum: TaskLabelSumAggregateOutputType | null
+  _min: TaskLabelMinAggregateOutputType | null
+  _max: TaskLabelMaxAggregateOutputType | null
+}
+
+export type TaskLabelAvgAggregateOutputType = {
+  taskId: number | null
+  labelId: number | null
+}
+
+export type TaskLabelSumAggregateOutputType = {
+  taskId: number | null
+  labelId: number | null
+}
+
+export type TaskLabelMinAggregateOutputType = {
+  taskId: number | null
+  labelId: number | null
+  createdAt: Date | null
+}
+
+export type TaskLabelMaxAggregateOutputType = {
+  taskId: number | null
+  labelId: number | null
+  createdAt: Date | null
+}
+
+export type TaskLabelCountAggregateOutputType = {
+  taskId: number
+  labelId: number
+  createdAt: number
+  _all: number
+}
+
+
+export type TaskLabelAvgAggregateInputType = {
+  taskId?: true
+  labelId?: true
+}
+
+export type TaskLabelSumAggregateInputType = {
+  taskId?: true
+  labelId?: true
+}
+
+export type TaskLabelMinAggregateInputType = {
+  taskId?: true
+  labelId?: true
+  createdAt?: true
+}
+
+export type TaskLabelMaxAggregateInputType = {
+  taskId?: true
+  labelId?: true
+  createdAt?: true
+}
+
+export type TaskLabelCountAggregateInputType = {
+  taskId?: true
+  labelId?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type TaskLabelAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskLabel to aggregate.
+   */
+  where?: Prisma.TaskLabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskLabels to fetch.
+   */
+  orderBy?: Prisma.TaskLabelOrderByWithRelationInput | Prisma.TaskLabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TaskLabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskLabels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskLabels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TaskLabels
+  **/
+  _count?: true | TaskLabelCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TaskLabelAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TaskLabelSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TaskLabelMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TaskLabelMaxAggregateInputType
+}
+
+export type GetTaskLabelAggregateType<T extends TaskLabelAggregateArgs> = {
+      [P in keyof T & keyof AggregateTaskLabel]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTaskLabel[P]>
+    : Prisma.GetScalarType<T[P], AggregateTaskLabel[P]>
+}
+
+
+
+
+export type TaskLabelGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskLabelWhereInput
+  orderBy?: Prisma.TaskLabelOrderByWithAggregationInput | Prisma.TaskLabelOrderByWithAggregationInput[]
+  by: Prisma.TaskLabelScalarFieldEnum[] | Prisma.TaskLabelScalarFieldEnum
+  having?: Prisma.TaskLabelScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TaskLabelCountAggregateInputType | true
+  _avg?: TaskLabelAvgAggregateInputType
+  _sum?: TaskLabelSumAggregateInputType
+  _min?: TaskLabelMinAggregateInputType
+  _max?: TaskLabelMaxAggregateInputType
+}
+
+export type TaskLabelGroupByOutputType = {
+  taskId: number
+  labelId: number
+  createdAt: Date
+  _count: TaskLabelCountAggregateOutputType | null
+  _avg: TaskLabelAvgAggregateOutputType | null
+  _sum: TaskLabelSumAggregateOutputType | null
+  _min: TaskLabelMinAggregateOutputType | null
+  _max: TaskLabelMaxAggregateOutputType | null
+}
+
+type GetTaskLabelGroupByPayload<T extends TaskLabelGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TaskLabelGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TaskLabelGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TaskLabelGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TaskLabelGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TaskLabelWhereInput = {
+  AND?: Prisma.TaskLabelWhereInput | Prisma.TaskLabelWhereInput[]
+  OR?: Prisma.TaskLabelWhereInput[]
+  NOT?: Prisma.TaskLabelWhereInput | Prisma.TaskLabelWhereInput[]
+  taskId?: Prisma.IntFilter<"TaskLabel"> | number
+  labelId?: Prisma.IntFilter<"TaskLabel"> | number
+  createdAt?: Prisma.DateTimeFilter<"TaskLabel"> | Date | string
+  task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  label?: Prisma.XOR<Prisma.LabelScalarRelationFilter, Prisma.LabelWhereInput>
+}
+
+export type TaskLabelOrderByWithRelationInput = {
+  taskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  task?: Prisma.TaskOrderByWithRelationInput
+  label?: Prisma.LabelOrderByWithRelationInput
+}
+
+export type TaskLabelWhereUniqueInput = Prisma.AtLeast<{
+  taskId_labelId?: Prisma.TaskLabelTaskIdLabelIdCompoundUniqueInput
+  AND?: Prisma.TaskLabelWhereInput | Prisma.TaskLabelWhereInput[]
+  OR?: Prisma.TaskLabelWhereInput[]
+  NOT?: Prisma.TaskLabelWhereInput | Prisma.TaskLabelWhereInput[]
+  taskId?: Prisma.IntFilter<"TaskLabel"> | number
+  labelId?: Prisma.IntFilter<"TaskLabel"> | number
+  createdAt?: Prisma.DateTimeFilter<"TaskLabel"> | Date | string
+  task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  label?: Prisma.XOR<Prisma.LabelScalarRelationFilter, Prisma.LabelWhereInput>
+}, "taskId_labelId">
+
+export type TaskLabelOrderByWithAggregationInput = {
+  taskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.TaskLabelCountOrderByAggregateInput
+  _avg?: Prisma.TaskLabelAvgOrderByAggregateInput
+  _max?: Prisma.TaskLabelMaxOrderByAggregateInput
+  _min?: Prisma.TaskLabelMinOrderByAggregateInput
+  _sum?: Prisma.TaskLabelSumOrderByAggregateInput
+}
+
+export type TaskLabelScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TaskLabelScalarWhereWithAggregatesInput | Prisma.TaskLabelScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TaskLabelScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TaskLabelScalarWhereWithAggregatesInput | Prisma.TaskLabelScalarWhereWithAggregatesInput[]
+  taskId?: Prisma.IntWithAggregatesFilter<"TaskLabel"> | number
+  labelId?: Prisma.IntWithAggregatesFilter<"TaskLabel"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TaskLabel"> | Date | string
+}
+
+export type TaskLabelCreateInput = {
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutLabelsInput
+  label: Prisma.LabelCreateNestedOneWithoutTasksInput
+}
+
+export type TaskLabelUncheckedCreateInput = {
+  taskId: number
+  labelId: number
+  createdAt?: Date | string
+}
+
+export type TaskLabelUpdateInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutLabelsNestedInput
+  label?: Prisma.LabelUpdateOneRequiredWithoutTasksNestedInput
+}
+
+export type TaskLabelUncheckedUpdateInput = {
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  labelId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskLabelCreateManyInput = {
+  taskId: number
+  labelId: number
+  createdAt?: Date | string
+}
+
+export type TaskLabelUpdateManyMutationInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskLabelUncheckedUpdateManyInput = {
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  labelId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskLabelListRelationFilter = {
+  every?: Prisma.TaskLabelWhereInput
+  some?: Prisma.TaskLabelWhereInput
+  none?: Prisma.TaskLabelWhereInput
+}
+
+export type TaskLabelOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TaskLabelTaskIdLabelIdCompoundUniqueInput = {
+  taskId: number
+  labelId: number
+}
+
+export type TaskLabelCountOrderByAggregateInput = {
+  taskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskLabelAvgOrderByAggregateInput = {
+  taskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+}
+
+export type TaskLabelMaxOrderByAggregateInput = {
+  taskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskLabelMinOrderByAggregateInput = {
+  taskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskLabelSumOrderByAggregateInput = {
+  taskId?: Prisma.SortOrder
+  labelId?: Prisma.SortOrder
+}
+
+export type TaskLabelCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskLabelCreateWithoutTaskInput, Prisma.TaskLabelUncheckedCreateWithoutTaskInput> | Prisma.TaskLabelCreateWithoutTaskInput[] | Prisma.TaskLabelUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskLabelCreateOrConnectWithoutTaskInput | Prisma.TaskLabelCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.TaskLabelCreateManyTaskInputEnvelope
+  connect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+}
+
+export type TaskLabelUncheckedCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskLabelCreateWithoutTaskInput, Prisma.TaskLabelUncheckedCreateWithoutTaskInput> | Prisma.TaskLabelCreateWithoutTaskInput[] | Prisma.TaskLabelUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskLabelCreateOrConnectWithoutTaskInput | Prisma.TaskLabelCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.TaskLabelCreateManyTaskInputEnvelope
+  connect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+}
+
+export type TaskLabelUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskLabelCreateWithoutTaskInput, Prisma.TaskLabelUncheckedCreateWithoutTaskInput> | Prisma.TaskLabelCreateWithoutTaskInput[] | Prisma.TaskLabelUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskLabelCreateOrConnectWithoutTaskInput | Prisma.TaskLabelCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.TaskLabelUpsertWithWhereUniqueWithoutTaskInput | Prisma.TaskLabelUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.TaskLabelCreateManyTaskInputEnvelope
+  set?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  disconnect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  delete?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  connect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  update?: Prisma.TaskLabelUpdateWithWhereUniqueWithoutTaskInput | Prisma.TaskLabelUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.TaskLabelUpdateManyWithWhereWithoutTaskInput | Prisma.TaskLabelUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.TaskLabelScalarWhereInput | Prisma.TaskLabelScalarWhereInput[]
+}
+
+export type TaskLabelUncheckedUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskLabelCreateWithoutTaskInput, Prisma.TaskLabelUncheckedCreateWithoutTaskInput> | Prisma.TaskLabelCreateWithoutTaskInput[] | Prisma.TaskLabelUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskLabelCreateOrConnectWithoutTaskInput | Prisma.TaskLabelCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.TaskLabelUpsertWithWhereUniqueWithoutTaskInput | Prisma.TaskLabelUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.TaskLabelCreateManyTaskInputEnvelope
+  set?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  disconnect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  delete?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  connect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  update?: Prisma.TaskLabelUpdateWithWhereUniqueWithoutTaskInput | Prisma.TaskLabelUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.TaskLabelUpdateManyWithWhereWithoutTaskInput | Prisma.TaskLabelUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.TaskLabelScalarWhereInput | Prisma.TaskLabelScalarWhereInput[]
+}
+
+export type TaskLabelCreateNestedManyWithoutLabelInput = {
+  create?: Prisma.XOR<Prisma.TaskLabelCreateWithoutLabelInput, Prisma.TaskLabelUncheckedCreateWithoutLabelInput> | Prisma.TaskLabelCreateWithoutLabelInput[] | Prisma.TaskLabelUncheckedCreateWithoutLabelInput[]
+  connectOrCreate?: Prisma.TaskLabelCreateOrConnectWithoutLabelInput | Prisma.TaskLabelCreateOrConnectWithoutLabelInput[]
+  createMany?: Prisma.TaskLabelCreateManyLabelInputEnvelope
+  connect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+}
+
+export type TaskLabelUncheckedCreateNestedManyWithoutLabelInput = {
+  create?: Prisma.XOR<Prisma.TaskLabelCreateWithoutLabelInput, Prisma.TaskLabelUncheckedCreateWithoutLabelInput> | Prisma.TaskLabelCreateWithoutLabelInput[] | Prisma.TaskLabelUncheckedCreateWithoutLabelInput[]
+  connectOrCreate?: Prisma.TaskLabelCreateOrConnectWithoutLabelInput | Prisma.TaskLabelCreateOrConnectWithoutLabelInput[]
+  createMany?: Prisma.TaskLabelCreateManyLabelInputEnvelope
+  connect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+}
+
+export type TaskLabelUpdateManyWithoutLabelNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskLabelCreateWithoutLabelInput, Prisma.TaskLabelUncheckedCreateWithoutLabelInput> | Prisma.TaskLabelCreateWithoutLabelInput[] | Prisma.TaskLabelUncheckedCreateWithoutLabelInput[]
+  connectOrCreate?: Prisma.TaskLabelCreateOrConnectWithoutLabelInput | Prisma.TaskLabelCreateOrConnectWithoutLabelInput[]
+  upsert?: Prisma.TaskLabelUpsertWithWhereUniqueWithoutLabelInput | Prisma.TaskLabelUpsertWithWhereUniqueWithoutLabelInput[]
+  createMany?: Prisma.TaskLabelCreateManyLabelInputEnvelope
+  set?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  disconnect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  delete?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  connect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  update?: Prisma.TaskLabelUpdateWithWhereUniqueWithoutLabelInput | Prisma.TaskLabelUpdateWithWhereUniqueWithoutLabelInput[]
+  updateMany?: Prisma.TaskLabelUpdateManyWithWhereWithoutLabelInput | Prisma.TaskLabelUpdateManyWithWhereWithoutLabelInput[]
+  deleteMany?: Prisma.TaskLabelScalarWhereInput | Prisma.TaskLabelScalarWhereInput[]
+}
+
+export type TaskLabelUncheckedUpdateManyWithoutLabelNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskLabelCreateWithoutLabelInput, Prisma.TaskLabelUncheckedCreateWithoutLabelInput> | Prisma.TaskLabelCreateWithoutLabelInput[] | Prisma.TaskLabelUncheckedCreateWithoutLabelInput[]
+  connectOrCreate?: Prisma.TaskLabelCreateOrConnectWithoutLabelInput | Prisma.TaskLabelCreateOrConnectWithoutLabelInput[]
+  upsert?: Prisma.TaskLabelUpsertWithWhereUniqueWithoutLabelInput | Prisma.TaskLabelUpsertWithWhereUniqueWithoutLabelInput[]
+  createMany?: Prisma.TaskLabelCreateManyLabelInputEnvelope
+  set?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  disconnect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  delete?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  connect?: Prisma.TaskLabelWhereUniqueInput | Prisma.TaskLabelWhereUniqueInput[]
+  update?: Prisma.TaskLabelUpdateWithWhereUniqueWithoutLabelInput | Prisma.TaskLabelUpdateWithWhereUniqueWithoutLabelInput[]
+  updateMany?: Prisma.TaskLabelUpdateManyWithWhereWithoutLabelInput | Prisma.TaskLabelUpdateManyWithWhereWithoutLabelInput[]
+  deleteMany?: Prisma.TaskLabelScalarWhereInput | Prisma.TaskLabelScalarWhereInput[]
+}
+
+export type TaskLabelCreateWithoutTaskInput = {
+  createdAt?: Date | string
+  label: Prisma.LabelCreateNestedOneWithoutTasksInput
+}
+
+export type TaskLabelUncheckedCreateWithoutTaskInput = {
+  labelId: number
+  createdAt?: Date | string
+}
+
+export type TaskLabelCreateOrConnectWithoutTaskInput = {
+  where: Prisma.TaskLabelWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskLabelCreateWithoutTaskInput, Prisma.TaskLabelUncheckedCreateWithoutTaskInput>
+}
+
+export type TaskLabelCreateManyTaskInputEnvelope = {
+  data: Prisma.TaskLabelCreateManyTaskInput | Prisma.TaskLabelCreateManyTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskLabelUpsertWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.TaskLabelWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskLabelUpdateWithoutTaskInput, Prisma.TaskLabelUncheckedUpdateWithoutTaskInput>
+  create: Prisma.XOR<Prisma.TaskLabelCreateWithoutTaskInput, Prisma.TaskLabelUncheckedCreateWithoutTaskInput>
+}
+
+export type TaskLabelUpdateWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.TaskLabelWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskLabelUpdateWithoutTaskInput, Prisma.TaskLabelUncheckedUpdateWithoutTaskInput>
+}
+
+export type TaskLabelUpdateManyWithWhereWithoutTaskInput = {
+  where: Prisma.TaskLabelScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskLabelUpdateManyMutationInput, Prisma.TaskLabelUncheckedUpdateManyWithoutTaskInput>
+}
+
+export type TaskLabelScalarWhereInput = {
+  AND?: Prisma.TaskLabelScalarWhereInput | Prisma.TaskLabelScalarWhereInput[]
+  OR?: Prisma.TaskLabelScalarWhereInput[]
+  NOT?: Prisma.TaskLabelScalarWhereInput | Prisma.TaskLabelScalarWhereInput[]
+  taskId?: Prisma.IntFilter<"TaskLabel"> | number
+  labelId?: Prisma.IntFilter<"TaskLabel"> | number
+  createdAt?: Prisma.DateTimeFilter<"TaskLabel"> | Date | string
+}
+
+export type TaskLabelCreateWithoutLabelInput = {
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutLabelsInput
+}
+
+export type TaskLabelUncheckedCreateWithoutLabelInput = {
+  taskId: number
+  createdAt?: Date | string
+}
+
+export type TaskLabelCreateOrConnectWithoutLabelInput = {
+  where: Prisma.TaskLabelWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskLabelCreateWithoutLabelInput, Prisma.TaskLabelUncheckedCreateWithoutLabelInput>
+}
+
+export type TaskLabelCreateManyLabelInputEnvelope = {
+  data: Prisma.TaskLabelCreateManyLabelInput | Prisma.TaskLabelCreateManyLabelInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskLabelUpsertWithWhereUniqueWithoutLabelInput = {
+  where: Prisma.TaskLabelWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskLabelUpdateWithoutLabelInput, Prisma.TaskLabelUncheckedUpdateWithoutLabelInput>
+  create: Prisma.XOR<Prisma.TaskLabelCreateWithoutLabelInput, Prisma.TaskLabelUncheckedCreateWithoutLabelInput>
+}
+
+export type TaskLabelUpdateWithWhereUniqueWithoutLabelInput = {
+  where: Prisma.TaskLabelWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskLabelUpdateWithoutLabelInput, Prisma.TaskLabelUncheckedUpdateWithoutLabelInput>
+}
+
+export type TaskLabelUpdateManyWithWhereWithoutLabelInput = {
+  where: Prisma.TaskLabelScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskLabelUpdateManyMutationInput, Prisma.TaskLabelUncheckedUpdateManyWithoutLabelInput>
+}
+
+export type TaskLabelCreateManyTaskInput = {
+  labelId: number
+  createdAt?: Date | string
+}
+
+export type TaskLabelUpdateWithoutTaskInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  label?: Prisma.LabelUpdateOneRequiredWithoutTasksNestedInput
+}
+
+export type TaskLabelUncheckedUpdateWithoutTaskInput = {
+  labelId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskLabelUncheckedUpdateManyWithoutTaskInput = {
+  labelId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskLabelCreateManyLabelInput = {
+  taskId: number
+  createdAt?: Date | string
+}
+
+export type TaskLabelUpdateWithoutLabelInput = {
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutLabelsNestedInput
+}
+
+export type TaskLabelUncheckedUpdateWithoutLabelInput = {
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskLabelUncheckedUpdateManyWithoutLabelInput = {
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TaskLabelSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  taskId?: boolean
+  labelId?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["taskLabel"]>
+
+export type TaskLabelSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  taskId?: boolean
+  labelId?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["taskLabel"]>
+
+export type TaskLabelSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  taskId?: boolean
+  labelId?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["taskLabel"]>
+
+export type TaskLabelSelectScalar = {
+  taskId?: boolean
+  labelId?: boolean
+  createdAt?: boolean
+}
+
+export type TaskLabelOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"taskId" | "labelId" | "createdAt", ExtArgs["result"]["taskLabel"]>
+export type TaskLabelInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}
+export type TaskLabelIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}
+export type TaskLabelIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  label?: boolean | Prisma.LabelDefaultArgs<ExtArgs>
+}
+
+export type $TaskLabelPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TaskLabel"
+  objects: {
+    task: Prisma.$TaskPayload<ExtArgs>
+    label: Prisma.$LabelPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    taskId: number
+    labelId: number
+    createdAt: Date
+  }, ExtArgs["result"]["taskLabel"]>
+  composites: {}
+}
+
+export type TaskLabelGetPayload<S extends boolean | null | undefined | TaskLabelDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload, S>
+
+export type TaskLabelCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TaskLabelFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TaskLabelCountAggregateInputType | true
+  }
+
+export interface TaskLabelDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TaskLabel'], meta: { name: 'TaskLabel' } }
+  /**
+   * Find zero or one TaskLabel that matches the filter.
+   * @param {TaskLabelFindUniqueArgs} args - Arguments to find a TaskLabel
+   * @example
+   * // Get one TaskLabel
+   * const taskLabel = await prisma.taskLabel.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TaskLabelFindUniqueArgs>(args: Prisma.SelectSubset<T, TaskLabelFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TaskLabelClient<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TaskLabel that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TaskLabelFindUniqueOrThrowArgs} args - Arguments to find a TaskLabel
+   * @example
+   * // Get one TaskLabel
+   * const taskLabel = await prisma.taskLabel.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TaskLabelFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TaskLabelFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskLabelClient<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskLabel that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskLabelFindFirstArgs} args - Arguments to find a TaskLabel
+   * @example
+   * // Get one TaskLabel
+   * const taskLabel = await prisma.taskLabel.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TaskLabelFindFirstArgs>(args?: Prisma.SelectSubset<T, TaskLabelFindFirstArgs<ExtArgs>>): Prisma.Prisma__TaskLabelClient<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskLabel that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskLabelFindFirstOrThrowArgs} args - Arguments to find a TaskLabel
+   * @example
+   * // Get one TaskLabel
+   * const taskLabel = await prisma.taskLabel.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TaskLabelFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TaskLabelFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskLabelClient<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TaskLabels that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskLabelFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TaskLabels
+   * const taskLabels = await prisma.taskLabel.findMany()
+   * 
+   * // Get first 10 TaskLabels
+   * const taskLabels = await prisma.taskLabel.findMany({ take: 10 })
+   * 
+   * // Only select the `taskId`
+   * const taskLabelWithTaskIdOnly = await prisma.taskLabel.findMany({ select: { taskId: true } })
+   * 
+   */
+  findMany<T extends TaskLabelFindManyArgs>(args?: Prisma.SelectSubset<T, TaskLabelFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TaskLabel.
+   * @param {TaskLabelCreateArgs} args - Arguments to create a TaskLabel.
+   * @example
+   * // Create one TaskLabel
+   * const TaskLabel = await prisma.taskLabel.create({
+   *   data: {
+   *     // ... data to create a TaskLabel
+   *   }
+   * })
+   * 
+   */
+  create<T extends TaskLabelCreateArgs>(args: Prisma.SelectSubset<T, TaskLabelCreateArgs<ExtArgs>>): Prisma.Prisma__TaskLabelClient<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TaskLabels.
+   * @param {TaskLabelCreateManyArgs} args - Arguments to create many TaskLabels.
+   * @example
+   * // Create many TaskLabels
+   * const taskLabel = await prisma.taskLabel.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TaskLabelCreateManyArgs>(args?: Prisma.SelectSubset<T, TaskLabelCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TaskLabels and returns the data saved in the database.
+   * @param {TaskLabelCreateManyAndReturnArgs} args - Arguments to create many TaskLabels.
+   * @example
+   * // Create many TaskLabels
+   * const taskLabel = await prisma.taskLabel.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TaskLabels and only return the `taskId`
+   * const taskLabelWithTaskIdOnly = await prisma.taskLabel.createManyAndReturn({
+   *   select: { taskId: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TaskLabelCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TaskLabelCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TaskLabel.
+   * @param {TaskLabelDeleteArgs} args - Arguments to delete one TaskLabel.
+   * @example
+   * // Delete one TaskLabel
+   * const TaskLabel = await prisma.taskLabel.delete({
+   *   where: {
+   *     // ... filter to delete one TaskLabel
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TaskLabelDeleteArgs>(args: Prisma.SelectSubset<T, TaskLabelDeleteArgs<ExtArgs>>): Prisma.Prisma__TaskLabelClient<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TaskLabel.
+   * @param {TaskLabelUpdateArgs} args - Arguments to update one TaskLabel.
+   * @example
+   * // Update one TaskLabel
+   * const taskLabel = await prisma.taskLabel.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TaskLabelUpdateArgs>(args: Prisma.SelectSubset<T, TaskLabelUpdateArgs<ExtArgs>>): Prisma.Prisma__TaskLabelClient<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TaskLabels.
+   * @param {TaskLabelDeleteManyArgs} args - Arguments to filter TaskLabels to delete.
+   * @example
+   * // Delete a few TaskLabels
+   * const { count } = await prisma.taskLabel.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TaskLabelDeleteManyArgs>(args?: Prisma.SelectSubset<T, TaskLabelDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskLabels.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskLabelUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TaskLabels
+   * const taskLabel = await prisma.taskLabel.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TaskLabelUpdateManyArgs>(args: Prisma.SelectSubset<T, TaskLabelUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskLabels and returns the data updated in the database.
+   * @param {TaskLabelUpdateManyAndReturnArgs} args - Arguments to update many TaskLabels.
+   * @example
+   * // Update many TaskLabels
+   * const taskLabel = await prisma.taskLabel.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TaskLabels and only return the `taskId`
+   * const taskLabelWithTaskIdOnly = await prisma.taskLabel.updateManyAndReturn({
+   *   select: { taskId: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TaskLabelUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TaskLabelUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TaskLabel.
+   * @param {TaskLabelUpsertArgs} args - Arguments to update or create a TaskLabel.
+   * @example
+   * // Update or create a TaskLabel
+   * const taskLabel = await prisma.taskLabel.upsert({
+   *   create: {
+   *     // ... data to create a TaskLabel
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TaskLabel we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TaskLabelUpsertArgs>(args: Prisma.SelectSubset<T, TaskLabelUpsertArgs<ExtArgs>>): Prisma.Prisma__TaskLabelClient<runtime.Types.Result.GetResult<Prisma.$TaskLabelPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TaskLabels.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskLabelCountArgs} args - Arguments to filter TaskLabels to count.
+   * @example
+   * // Count the number of TaskLabels
+   * const count = await prisma.taskLabel.count({
+   *   where: {
+   *     // ... the filter for the TaskLabels we want to count
+   *   }
+   * })
+  **/
+  count<T extends TaskLabelCountArgs>(
+    args?: Prisma.Subset<T, TaskLabelCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TaskLabelCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TaskLabel.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskLabelAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TaskLabelAggregateArgs>(args: Prisma.Subset<T, TaskLabelAggregateArgs>): Prisma.PrismaPromise<GetTaskLabelAggregateType<T>>
+
+  /**
+   * Group by TaskLabel.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskLabelGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TaskLabelGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TaskLabelGroupByArgs['orderBy'] }
+      : { orderBy?: TaskLabelGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TaskLabelGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTaskLabelGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TaskLabel model
+ */
+readonly fields: TaskLabelFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TaskLabel.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TaskLabelClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  task<T extends Prisma.TaskDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskDefaultArgs<ExtArgs>>): Prisma.Prisma__TaskClient<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  label<T extends Prisma.LabelDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.LabelDefaultArgs<ExtArgs>>): Prisma.Prisma__LabelClient<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TaskLabel model
+ */
+export interface TaskLabelFieldRefs {
+  readonly taskId: Prisma.FieldRef<"TaskLabel", 'Int'>
+  readonly labelId: Prisma.FieldRef<"TaskLabel", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"TaskLabel", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TaskLabel findUnique
+ */
+export type TaskLabelFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskLabel to fetch.
+   */
+  where: Prisma.TaskLabelWhereUniqueInput
+}
+
+/**
+ * TaskLabel findUniqueOrThrow
+ */
+export type TaskLabelFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskLabel to fetch.
+   */
+  where: Prisma.TaskLabelWhereUniqueInput
+}
+
+/**
+ * TaskLabel findFirst
+ */
+export type TaskLabelFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskLabel to fetch.
+   */
+  where?: Prisma.TaskLabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskLabels to fetch.
+   */
+  orderBy?: Prisma.TaskLabelOrderByWithRelationInput | Prisma.TaskLabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskLabels.
+   */
+  cursor?: Prisma.TaskLabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskLabels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskLabels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskLabels.
+   */
+  distinct?: Prisma.TaskLabelScalarFieldEnum | Prisma.TaskLabelScalarFieldEnum[]
+}
+
+/**
+ * TaskLabel findFirstOrThrow
+ */
+export type TaskLabelFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskLabel to fetch.
+   */
+  where?: Prisma.TaskLabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskLabels to fetch.
+   */
+  orderBy?: Prisma.TaskLabelOrderByWithRelationInput | Prisma.TaskLabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskLabels.
+   */
+  cursor?: Prisma.TaskLabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskLabels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskLabels.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskLabels.
+   */
+  distinct?: Prisma.TaskLabelScalarFieldEnum | Prisma.TaskLabelScalarFieldEnum[]
+}
+
+/**
+ * TaskLabel findMany
+ */
+export type TaskLabelFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskLabels to fetch.
+   */
+  where?: Prisma.TaskLabelWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskLabels to fetch.
+   */
+  orderBy?: Prisma.TaskLabelOrderByWithRelationInput | Prisma.TaskLabelOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TaskLabels.
+   */
+  cursor?: Prisma.TaskLabelWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskLabels from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskLabels.
+   */
+  skip?: number
+  distinct?: Prisma.TaskLabelScalarFieldEnum | Prisma.TaskLabelScalarFieldEnum[]
+}
+
+/**
+ * TaskLabel create
+ */
+export type TaskLabelCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TaskLabel.
+   */
+  data: Prisma.XOR<Prisma.TaskLabelCreateInput, Prisma.TaskLabelUncheckedCreateInput>
+}
+
+/**
+ * TaskLabel createMany
+ */
+export type TaskLabelCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TaskLabels.
+   */
+  data: Prisma.TaskLabelCreateManyInput | Prisma.TaskLabelCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaskLabel createManyAndReturn
+ */
+export type TaskLabelCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * The data used to create many TaskLabels.
+   */
+  data: Prisma.TaskLabelCreateManyInput | Prisma.TaskLabelCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskLabel update
+ */
+export type TaskLabelUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TaskLabel.
+   */
+  data: Prisma.XOR<Prisma.TaskLabelUpdateInput, Prisma.TaskLabelUncheckedUpdateInput>
+  /**
+   * Choose, which TaskLabel to update.
+   */
+  where: Prisma.TaskLabelWhereUniqueInput
+}
+
+/**
+ * TaskLabel updateMany
+ */
+export type TaskLabelUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TaskLabels.
+   */
+  data: Prisma.XOR<Prisma.TaskLabelUpdateManyMutationInput, Prisma.TaskLabelUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskLabels to update
+   */
+  where?: Prisma.TaskLabelWhereInput
+  /**
+   * Limit how many TaskLabels to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaskLabel updateManyAndReturn
+ */
+export type TaskLabelUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * The data used to update TaskLabels.
+   */
+  data: Prisma.XOR<Prisma.TaskLabelUpdateManyMutationInput, Prisma.TaskLabelUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskLabels to update
+   */
+  where?: Prisma.TaskLabelWhereInput
+  /**
+   * Limit how many TaskLabels to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskLabel upsert
+ */
+export type TaskLabelUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TaskLabel to update in case it exists.
+   */
+  where: Prisma.TaskLabelWhereUniqueInput
+  /**
+   * In case the TaskLabel found by the `where` argument doesn't exist, create a new TaskLabel with this data.
+   */
+  create: Prisma.XOR<Prisma.TaskLabelCreateInput, Prisma.TaskLabelUncheckedCreateInput>
+  /**
+   * In case the TaskLabel was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TaskLabelUpdateInput, Prisma.TaskLabelUncheckedUpdateInput>
+}
+
+/**
+ * TaskLabel delete
+ */
+export type TaskLabelDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+  /**
+   * Filter which TaskLabel to delete.
+   */
+  where: Prisma.TaskLabelWhereUniqueInput
+}
+
+/**
+ * TaskLabel deleteMany
+ */
+export type TaskLabelDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskLabels to delete
+   */
+  where?: Prisma.TaskLabelWhereInput
+  /**
+   * Limit how many TaskLabels to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TaskLabel without action
+ */
+export type TaskLabelDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskLabel
+   */
+  select?: Prisma.TaskLabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskLabel
+   */
+  omit?: Prisma.TaskLabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskLabelInclude<ExtArgs> | null
+}
@@ -0,0 +1,2115 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TaskMention` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TaskMention
+ * 
+ */
+export type TaskMentionModel = runtime.Types.Result.DefaultSelection<Prisma.$TaskMentionPayload>
+
+export type AggregateTaskMention = {
+  _count: TaskMentionCountAggregateOutputType | null
+  _avg: TaskMentionAvgAggregateOutputType | null
+  _sum: TaskMentionSumAggregateOutputType | null
+  _min: TaskMentionMinAggregateOutputType | null
+  _max: TaskMentionMaxAggregateOutputType | null
+}
+
+export type TaskMentionAvgAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  commentId: number | null
+  mentionedUserId: number | null
+  mentionedById: number | null
+}
+
+export type TaskMentionSumAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  commentId: number | null
+  mentionedUserId: number | null
+  mentionedById: number | null
+}
+
+export type TaskMentionMinAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  commentId: number | null
+  mentionedUserId: number | null
+  mentionedById: number | null
+  readAt: Date | null
+  createdAt: Date | null
+}
+
+export type TaskMentionMaxAggregateOutputType = {
+  id: number | null
+  taskId: number | null
+  subTaskId: number | null
+  commentId: number | null
+  mentionedUserId: number | null
+  mentionedById: number | null
+  readAt: Date | null
+  createdAt: Date | null
+}
+
+export type TaskMentionCountAggregateOutputType = {
+  id: number
+  taskId: number
+  subTaskId: number
+  commentId: number
+  mentionedUserId: number
+  mentionedById: number
+  readAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type TaskMentionAvgAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  commentId?: true
+  mentionedUserId?: true
+  mentionedById?: true
+}
+
+export type TaskMentionSumAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  commentId?: true
+  mentionedUserId?: true
+  mentionedById?: true
+}
+
+export type TaskMentionMinAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  commentId?: true
+  mentionedUserId?: true
+  mentionedById?: true
+  readAt?: true
+  createdAt?: true
+}
+
+export type TaskMentionMaxAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  commentId?: true
+  mentionedUserId?: true
+  mentionedById?: true
+  readAt?: true
+  createdAt?: true
+}
+
+export type TaskMentionCountAggregateInputType = {
+  id?: true
+  taskId?: true
+  subTaskId?: true
+  commentId?: true
+  mentionedUserId?: true
+  mentionedById?: true
+  readAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type TaskMentionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskMention to aggregate.
+   */
+  where?: Prisma.TaskMentionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskMentions to fetch.
+   */
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskMentions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskMentions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TaskMentions
+  **/
+  _count?: true | TaskMentionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TaskMentionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TaskMentionSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TaskMentionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TaskMentionMaxAggregateInputType
+}
+
+export type GetTaskMentionAggregateType<T extends TaskMentionAggregateArgs> = {
+      [P in keyof T & keyof AggregateTaskMention]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTaskMention[P]>
+    : Prisma.GetScalarType<T[P], AggregateTaskMention[P]>
+}
+
+
+
+
+export type TaskMentionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskMentionWhereInput
+  orderBy?: Prisma.TaskMentionOrderByWithAggregationInput | Prisma.TaskMentionOrderByWithAggregationInput[]
+  by: Prisma.TaskMentionScalarFieldEnum[] | Prisma.TaskMentionScalarFieldEnum
+  having?: Prisma.TaskMentionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TaskMentionCountAggregateInputType | true
+  _avg?: TaskMentionAvgAggregateInputType
+  _sum?: TaskMentionSumAggregateInputType
+  _min?: TaskMentionMinAggregateInputType
+  _max?: TaskMentionMaxAggregateInputType
+}
+
+export type TaskMentionGroupByOutputType = {
+  id: number
+  taskId: number
+  subTaskId: number | null
+  commentId: number | null
+  mentionedUserId: number
+  mentionedById: number | null
+  readAt: Date | null
+  createdAt: Date
+  _count: TaskMentionCountAggregateOutputType | null
+  _avg: TaskMentionAvgAggregateOutputType | null
+  _sum: TaskMentionSumAggregateOutputType | null
+  _min: TaskMentionMinAggregateOutputType | null
+  _max: TaskMentionMaxAggregateOutputType | null
+}
+
+type GetTaskMentionGroupByPayload<T extends TaskMentionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TaskMentionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TaskMentionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TaskMentionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TaskMentionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TaskMentionWhereInput = {
+  AND?: Prisma.TaskMentionWhereInput | Prisma.TaskMentionWhereInput[]
+  OR?: Prisma.TaskMentionWhereInput[]
+  NOT?: Prisma.TaskMentionWhereInput | Prisma.TaskMentionWhereInput[]
+  id?: Prisma.IntFilter<"TaskMention"> | number
+  taskId?: Prisma.IntFilter<"TaskMention"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  commentId?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  mentionedUserId?: Prisma.IntFilter<"TaskMention"> | number
+  mentionedById?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  readAt?: Prisma.DateTimeNullableFilter<"TaskMention"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"TaskMention"> | Date | string
+  task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  subTask?: Prisma.XOR<Prisma.SubTaskNullableScalarRelationFilter, Prisma.SubTaskWhereInput> | null
+  comment?: Prisma.XOR<Prisma.TaskCommentNullableScalarRelationFilter, Prisma.TaskCommentWhereInput> | null
+  mentionedUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  mentionedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}
+
+export type TaskMentionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  commentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  mentionedUserId?: Prisma.SortOrder
+  mentionedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  readAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  task?: Prisma.TaskOrderByWithRelationInput
+  subTask?: Prisma.SubTaskOrderByWithRelationInput
+  comment?: Prisma.TaskCommentOrderByWithRelationInput
+  mentionedUser?: Prisma.UserOrderByWithRelationInput
+  mentionedBy?: Prisma.UserOrderByWithRelationInput
+}
+
+export type TaskMentionWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.TaskMentionWhereInput | Prisma.TaskMentionWhereInput[]
+  OR?: Prisma.TaskMentionWhereInput[]
+  NOT?: Prisma.TaskMentionWhereInput | Prisma.TaskMentionWhereInput[]
+  taskId?: Prisma.IntFilter<"TaskMention"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  commentId?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  mentionedUserId?: Prisma.IntFilter<"TaskMention"> | number
+  mentionedById?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  readAt?: Prisma.DateTimeNullableFilter<"TaskMention"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"TaskMention"> | Date | string
+  task?: Prisma.XOR<Prisma.TaskScalarRelationFilter, Prisma.TaskWhereInput>
+  subTask?: Prisma.XOR<Prisma.SubTaskNullableScalarRelationFilter, Prisma.SubTaskWhereInput> | null
+  comment?: Prisma.XOR<Prisma.TaskCommentNullableScalarRelationFilter, Prisma.TaskCommentWhereInput> | null
+  mentionedUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
+  mentionedBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
+}, "id">
+
+export type TaskMentionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrderInput | Prisma.SortOrder
+  commentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  mentionedUserId?: Prisma.SortOrder
+  mentionedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  readAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.TaskMentionCountOrderByAggregateInput
+  _avg?: Prisma.TaskMentionAvgOrderByAggregateInput
+  _max?: Prisma.TaskMentionMaxOrderByAggregateInput
+  _min?: Prisma.TaskMentionMinOrderByAggregateInput
+  _sum?: Prisma.TaskMentionSumOrderByAggregateInput
+}
+
+export type TaskMentionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TaskMentionScalarWhereWithAggregatesInput | Prisma.TaskMentionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TaskMentionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TaskMentionScalarWhereWithAggregatesInput | Prisma.TaskMentionScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"TaskMention"> | number
+  taskId?: Prisma.IntWithAggregatesFilter<"TaskMention"> | number
+  subTaskId?: Prisma.IntNullableWithAggregatesFilter<"TaskMention"> | number | null
+  commentId?: Prisma.IntNullableWithAggregatesFilter<"TaskMention"> | number | null
+  mentionedUserId?: Prisma.IntWithAggregatesFilter<"TaskMention"> | number
+  mentionedById?: Prisma.IntNullableWithAggregatesFilter<"TaskMention"> | number | null
+  readAt?: Prisma.DateTimeNullableWithAggregatesFilter<"TaskMention"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TaskMention"> | Date | string
+}
+
+export type TaskMentionCreateInput = {
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutMentionsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutMentionsInput
+  comment?: Prisma.TaskCommentCreateNestedOneWithoutMentionsInput
+  mentionedUser: Prisma.UserCreateNestedOneWithoutTaskMentionsInput
+  mentionedBy?: Prisma.UserCreateNestedOneWithoutSentTaskMentionsInput
+}
+
+export type TaskMentionUncheckedCreateInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  commentId?: number | null
+  mentionedUserId: number
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionUpdateInput = {
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutMentionsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutMentionsNestedInput
+  comment?: Prisma.TaskCommentUpdateOneWithoutMentionsNestedInput
+  mentionedUser?: Prisma.UserUpdateOneRequiredWithoutTaskMentionsNestedInput
+  mentionedBy?: Prisma.UserUpdateOneWithoutSentTaskMentionsNestedInput
+}
+
+export type TaskMentionUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionCreateManyInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  commentId?: number | null
+  mentionedUserId: number
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionUpdateManyMutationInput = {
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionListRelationFilter = {
+  every?: Prisma.TaskMentionWhereInput
+  some?: Prisma.TaskMentionWhereInput
+  none?: Prisma.TaskMentionWhereInput
+}
+
+export type TaskMentionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type TaskMentionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  mentionedUserId?: Prisma.SortOrder
+  mentionedById?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskMentionAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  mentionedUserId?: Prisma.SortOrder
+  mentionedById?: Prisma.SortOrder
+}
+
+export type TaskMentionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  mentionedUserId?: Prisma.SortOrder
+  mentionedById?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskMentionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  mentionedUserId?: Prisma.SortOrder
+  mentionedById?: Prisma.SortOrder
+  readAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type TaskMentionSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  taskId?: Prisma.SortOrder
+  subTaskId?: Prisma.SortOrder
+  commentId?: Prisma.SortOrder
+  mentionedUserId?: Prisma.SortOrder
+  mentionedById?: Prisma.SortOrder
+}
+
+export type TaskMentionCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutTaskInput, Prisma.TaskMentionUncheckedCreateWithoutTaskInput> | Prisma.TaskMentionCreateWithoutTaskInput[] | Prisma.TaskMentionUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutTaskInput | Prisma.TaskMentionCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.TaskMentionCreateManyTaskInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUncheckedCreateNestedManyWithoutTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutTaskInput, Prisma.TaskMentionUncheckedCreateWithoutTaskInput> | Prisma.TaskMentionCreateWithoutTaskInput[] | Prisma.TaskMentionUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutTaskInput | Prisma.TaskMentionCreateOrConnectWithoutTaskInput[]
+  createMany?: Prisma.TaskMentionCreateManyTaskInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutTaskInput, Prisma.TaskMentionUncheckedCreateWithoutTaskInput> | Prisma.TaskMentionCreateWithoutTaskInput[] | Prisma.TaskMentionUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutTaskInput | Prisma.TaskMentionCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutTaskInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.TaskMentionCreateManyTaskInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutTaskInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutTaskInput | Prisma.TaskMentionUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutTaskInput, Prisma.TaskMentionUncheckedCreateWithoutTaskInput> | Prisma.TaskMentionCreateWithoutTaskInput[] | Prisma.TaskMentionUncheckedCreateWithoutTaskInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutTaskInput | Prisma.TaskMentionCreateOrConnectWithoutTaskInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutTaskInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutTaskInput[]
+  createMany?: Prisma.TaskMentionCreateManyTaskInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutTaskInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutTaskInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutTaskInput | Prisma.TaskMentionUpdateManyWithWhereWithoutTaskInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionCreateNestedManyWithoutCommentInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutCommentInput, Prisma.TaskMentionUncheckedCreateWithoutCommentInput> | Prisma.TaskMentionCreateWithoutCommentInput[] | Prisma.TaskMentionUncheckedCreateWithoutCommentInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutCommentInput | Prisma.TaskMentionCreateOrConnectWithoutCommentInput[]
+  createMany?: Prisma.TaskMentionCreateManyCommentInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUncheckedCreateNestedManyWithoutCommentInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutCommentInput, Prisma.TaskMentionUncheckedCreateWithoutCommentInput> | Prisma.TaskMentionCreateWithoutCommentInput[] | Prisma.TaskMentionUncheckedCreateWithoutCommentInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutCommentInput | Prisma.TaskMentionCreateOrConnectWithoutCommentInput[]
+  createMany?: Prisma.TaskMentionCreateManyCommentInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUpdateManyWithoutCommentNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutCommentInput, Prisma.TaskMentionUncheckedCreateWithoutCommentInput> | Prisma.TaskMentionCreateWithoutCommentInput[] | Prisma.TaskMentionUncheckedCreateWithoutCommentInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutCommentInput | Prisma.TaskMentionCreateOrConnectWithoutCommentInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutCommentInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutCommentInput[]
+  createMany?: Prisma.TaskMentionCreateManyCommentInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutCommentInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutCommentInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutCommentInput | Prisma.TaskMentionUpdateManyWithWhereWithoutCommentInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutCommentNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutCommentInput, Prisma.TaskMentionUncheckedCreateWithoutCommentInput> | Prisma.TaskMentionCreateWithoutCommentInput[] | Prisma.TaskMentionUncheckedCreateWithoutCommentInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutCommentInput | Prisma.TaskMentionCreateOrConnectWithoutCommentInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutCommentInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutCommentInput[]
+  createMany?: Prisma.TaskMentionCreateManyCommentInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutCommentInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutCommentInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutCommentInput | Prisma.TaskMentionUpdateManyWithWhereWithoutCommentInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutSubTaskInput, Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput> | Prisma.TaskMentionCreateWithoutSubTaskInput[] | Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutSubTaskInput | Prisma.TaskMentionCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.TaskMentionCreateManySubTaskInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUncheckedCreateNestedManyWithoutSubTaskInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutSubTaskInput, Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput> | Prisma.TaskMentionCreateWithoutSubTaskInput[] | Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutSubTaskInput | Prisma.TaskMentionCreateOrConnectWithoutSubTaskInput[]
+  createMany?: Prisma.TaskMentionCreateManySubTaskInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutSubTaskInput, Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput> | Prisma.TaskMentionCreateWithoutSubTaskInput[] | Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutSubTaskInput | Prisma.TaskMentionCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.TaskMentionCreateManySubTaskInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutSubTaskInput | Prisma.TaskMentionUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutSubTaskNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutSubTaskInput, Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput> | Prisma.TaskMentionCreateWithoutSubTaskInput[] | Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutSubTaskInput | Prisma.TaskMentionCreateOrConnectWithoutSubTaskInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutSubTaskInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutSubTaskInput[]
+  createMany?: Prisma.TaskMentionCreateManySubTaskInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutSubTaskInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutSubTaskInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutSubTaskInput | Prisma.TaskMentionUpdateManyWithWhereWithoutSubTaskInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionCreateNestedManyWithoutMentionedUserInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedUserInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput> | Prisma.TaskMentionCreateWithoutMentionedUserInput[] | Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutMentionedUserInput | Prisma.TaskMentionCreateOrConnectWithoutMentionedUserInput[]
+  createMany?: Prisma.TaskMentionCreateManyMentionedUserInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionCreateNestedManyWithoutMentionedByInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedByInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput> | Prisma.TaskMentionCreateWithoutMentionedByInput[] | Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutMentionedByInput | Prisma.TaskMentionCreateOrConnectWithoutMentionedByInput[]
+  createMany?: Prisma.TaskMentionCreateManyMentionedByInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedUserInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput> | Prisma.TaskMentionCreateWithoutMentionedUserInput[] | Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutMentionedUserInput | Prisma.TaskMentionCreateOrConnectWithoutMentionedUserInput[]
+  createMany?: Prisma.TaskMentionCreateManyMentionedUserInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedByInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput> | Prisma.TaskMentionCreateWithoutMentionedByInput[] | Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutMentionedByInput | Prisma.TaskMentionCreateOrConnectWithoutMentionedByInput[]
+  createMany?: Prisma.TaskMentionCreateManyMentionedByInputEnvelope
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+}
+
+export type TaskMentionUpdateManyWithoutMentionedUserNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedUserInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput> | Prisma.TaskMentionCreateWithoutMentionedUserInput[] | Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutMentionedUserInput | Prisma.TaskMentionCreateOrConnectWithoutMentionedUserInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutMentionedUserInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutMentionedUserInput[]
+  createMany?: Prisma.TaskMentionCreateManyMentionedUserInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutMentionedUserInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutMentionedUserInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutMentionedUserInput | Prisma.TaskMentionUpdateManyWithWhereWithoutMentionedUserInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionUpdateManyWithoutMentionedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedByInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput> | Prisma.TaskMentionCreateWithoutMentionedByInput[] | Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutMentionedByInput | Prisma.TaskMentionCreateOrConnectWithoutMentionedByInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutMentionedByInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutMentionedByInput[]
+  createMany?: Prisma.TaskMentionCreateManyMentionedByInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutMentionedByInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutMentionedByInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutMentionedByInput | Prisma.TaskMentionUpdateManyWithWhereWithoutMentionedByInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedUserInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput> | Prisma.TaskMentionCreateWithoutMentionedUserInput[] | Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutMentionedUserInput | Prisma.TaskMentionCreateOrConnectWithoutMentionedUserInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutMentionedUserInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutMentionedUserInput[]
+  createMany?: Prisma.TaskMentionCreateManyMentionedUserInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutMentionedUserInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutMentionedUserInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutMentionedUserInput | Prisma.TaskMentionUpdateManyWithWhereWithoutMentionedUserInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedByInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput> | Prisma.TaskMentionCreateWithoutMentionedByInput[] | Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput[]
+  connectOrCreate?: Prisma.TaskMentionCreateOrConnectWithoutMentionedByInput | Prisma.TaskMentionCreateOrConnectWithoutMentionedByInput[]
+  upsert?: Prisma.TaskMentionUpsertWithWhereUniqueWithoutMentionedByInput | Prisma.TaskMentionUpsertWithWhereUniqueWithoutMentionedByInput[]
+  createMany?: Prisma.TaskMentionCreateManyMentionedByInputEnvelope
+  set?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  disconnect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  delete?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  connect?: Prisma.TaskMentionWhereUniqueInput | Prisma.TaskMentionWhereUniqueInput[]
+  update?: Prisma.TaskMentionUpdateWithWhereUniqueWithoutMentionedByInput | Prisma.TaskMentionUpdateWithWhereUniqueWithoutMentionedByInput[]
+  updateMany?: Prisma.TaskMentionUpdateManyWithWhereWithoutMentionedByInput | Prisma.TaskMentionUpdateManyWithWhereWithoutMentionedByInput[]
+  deleteMany?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+}
+
+export type TaskMentionCreateWithoutTaskInput = {
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutMentionsInput
+  comment?: Prisma.TaskCommentCreateNestedOneWithoutMentionsInput
+  mentionedUser: Prisma.UserCreateNestedOneWithoutTaskMentionsInput
+  mentionedBy?: Prisma.UserCreateNestedOneWithoutSentTaskMentionsInput
+}
+
+export type TaskMentionUncheckedCreateWithoutTaskInput = {
+  id?: number
+  subTaskId?: number | null
+  commentId?: number | null
+  mentionedUserId: number
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionCreateOrConnectWithoutTaskInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutTaskInput, Prisma.TaskMentionUncheckedCreateWithoutTaskInput>
+}
+
+export type TaskMentionCreateManyTaskInputEnvelope = {
+  data: Prisma.TaskMentionCreateManyTaskInput | Prisma.TaskMentionCreateManyTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskMentionUpsertWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskMentionUpdateWithoutTaskInput, Prisma.TaskMentionUncheckedUpdateWithoutTaskInput>
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutTaskInput, Prisma.TaskMentionUncheckedCreateWithoutTaskInput>
+}
+
+export type TaskMentionUpdateWithWhereUniqueWithoutTaskInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateWithoutTaskInput, Prisma.TaskMentionUncheckedUpdateWithoutTaskInput>
+}
+
+export type TaskMentionUpdateManyWithWhereWithoutTaskInput = {
+  where: Prisma.TaskMentionScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateManyMutationInput, Prisma.TaskMentionUncheckedUpdateManyWithoutTaskInput>
+}
+
+export type TaskMentionScalarWhereInput = {
+  AND?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+  OR?: Prisma.TaskMentionScalarWhereInput[]
+  NOT?: Prisma.TaskMentionScalarWhereInput | Prisma.TaskMentionScalarWhereInput[]
+  id?: Prisma.IntFilter<"TaskMention"> | number
+  taskId?: Prisma.IntFilter<"TaskMention"> | number
+  subTaskId?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  commentId?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  mentionedUserId?: Prisma.IntFilter<"TaskMention"> | number
+  mentionedById?: Prisma.IntNullableFilter<"TaskMention"> | number | null
+  readAt?: Prisma.DateTimeNullableFilter<"TaskMention"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"TaskMention"> | Date | string
+}
+
+export type TaskMentionCreateWithoutCommentInput = {
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutMentionsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutMentionsInput
+  mentionedUser: Prisma.UserCreateNestedOneWithoutTaskMentionsInput
+  mentionedBy?: Prisma.UserCreateNestedOneWithoutSentTaskMentionsInput
+}
+
+export type TaskMentionUncheckedCreateWithoutCommentInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  mentionedUserId: number
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionCreateOrConnectWithoutCommentInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutCommentInput, Prisma.TaskMentionUncheckedCreateWithoutCommentInput>
+}
+
+export type TaskMentionCreateManyCommentInputEnvelope = {
+  data: Prisma.TaskMentionCreateManyCommentInput | Prisma.TaskMentionCreateManyCommentInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskMentionUpsertWithWhereUniqueWithoutCommentInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskMentionUpdateWithoutCommentInput, Prisma.TaskMentionUncheckedUpdateWithoutCommentInput>
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutCommentInput, Prisma.TaskMentionUncheckedCreateWithoutCommentInput>
+}
+
+export type TaskMentionUpdateWithWhereUniqueWithoutCommentInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateWithoutCommentInput, Prisma.TaskMentionUncheckedUpdateWithoutCommentInput>
+}
+
+export type TaskMentionUpdateManyWithWhereWithoutCommentInput = {
+  where: Prisma.TaskMentionScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateManyMutationInput, Prisma.TaskMentionUncheckedUpdateManyWithoutCommentInput>
+}
+
+export type TaskMentionCreateWithoutSubTaskInput = {
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutMentionsInput
+  comment?: Prisma.TaskCommentCreateNestedOneWithoutMentionsInput
+  mentionedUser: Prisma.UserCreateNestedOneWithoutTaskMentionsInput
+  mentionedBy?: Prisma.UserCreateNestedOneWithoutSentTaskMentionsInput
+}
+
+export type TaskMentionUncheckedCreateWithoutSubTaskInput = {
+  id?: number
+  taskId: number
+  commentId?: number | null
+  mentionedUserId: number
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionCreateOrConnectWithoutSubTaskInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutSubTaskInput, Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput>
+}
+
+export type TaskMentionCreateManySubTaskInputEnvelope = {
+  data: Prisma.TaskMentionCreateManySubTaskInput | Prisma.TaskMentionCreateManySubTaskInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskMentionUpsertWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskMentionUpdateWithoutSubTaskInput, Prisma.TaskMentionUncheckedUpdateWithoutSubTaskInput>
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutSubTaskInput, Prisma.TaskMentionUncheckedCreateWithoutSubTaskInput>
+}
+
+export type TaskMentionUpdateWithWhereUniqueWithoutSubTaskInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateWithoutSubTaskInput, Prisma.TaskMentionUncheckedUpdateWithoutSubTaskInput>
+}
+
+export type TaskMentionUpdateManyWithWhereWithoutSubTaskInput = {
+  where: Prisma.TaskMentionScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateManyMutationInput, Prisma.TaskMentionUncheckedUpdateManyWithoutSubTaskInput>
+}
+
+export type TaskMentionCreateWithoutMentionedUserInput = {
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutMentionsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutMentionsInput
+  comment?: Prisma.TaskCommentCreateNestedOneWithoutMentionsInput
+  mentionedBy?: Prisma.UserCreateNestedOneWithoutSentTaskMentionsInput
+}
+
+export type TaskMentionUncheckedCreateWithoutMentionedUserInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  commentId?: number | null
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionCreateOrConnectWithoutMentionedUserInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedUserInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput>
+}
+
+export type TaskMentionCreateManyMentionedUserInputEnvelope = {
+  data: Prisma.TaskMentionCreateManyMentionedUserInput | Prisma.TaskMentionCreateManyMentionedUserInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskMentionCreateWithoutMentionedByInput = {
+  readAt?: Date | string | null
+  createdAt?: Date | string
+  task: Prisma.TaskCreateNestedOneWithoutMentionsInput
+  subTask?: Prisma.SubTaskCreateNestedOneWithoutMentionsInput
+  comment?: Prisma.TaskCommentCreateNestedOneWithoutMentionsInput
+  mentionedUser: Prisma.UserCreateNestedOneWithoutTaskMentionsInput
+}
+
+export type TaskMentionUncheckedCreateWithoutMentionedByInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  commentId?: number | null
+  mentionedUserId: number
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionCreateOrConnectWithoutMentionedByInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedByInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput>
+}
+
+export type TaskMentionCreateManyMentionedByInputEnvelope = {
+  data: Prisma.TaskMentionCreateManyMentionedByInput | Prisma.TaskMentionCreateManyMentionedByInput[]
+  skipDuplicates?: boolean
+}
+
+export type TaskMentionUpsertWithWhereUniqueWithoutMentionedUserInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskMentionUpdateWithoutMentionedUserInput, Prisma.TaskMentionUncheckedUpdateWithoutMentionedUserInput>
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedUserInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedUserInput>
+}
+
+export type TaskMentionUpdateWithWhereUniqueWithoutMentionedUserInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateWithoutMentionedUserInput, Prisma.TaskMentionUncheckedUpdateWithoutMentionedUserInput>
+}
+
+export type TaskMentionUpdateManyWithWhereWithoutMentionedUserInput = {
+  where: Prisma.TaskMentionScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateManyMutationInput, Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserInput>
+}
+
+export type TaskMentionUpsertWithWhereUniqueWithoutMentionedByInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  update: Prisma.XOR<Prisma.TaskMentionUpdateWithoutMentionedByInput, Prisma.TaskMentionUncheckedUpdateWithoutMentionedByInput>
+  create: Prisma.XOR<Prisma.TaskMentionCreateWithoutMentionedByInput, Prisma.TaskMentionUncheckedCreateWithoutMentionedByInput>
+}
+
+export type TaskMentionUpdateWithWhereUniqueWithoutMentionedByInput = {
+  where: Prisma.TaskMentionWhereUniqueInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateWithoutMentionedByInput, Prisma.TaskMentionUncheckedUpdateWithoutMentionedByInput>
+}
+
+export type TaskMentionUpdateManyWithWhereWithoutMentionedByInput = {
+  where: Prisma.TaskMentionScalarWhereInput
+  data: Prisma.XOR<Prisma.TaskMentionUpdateManyMutationInput, Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByInput>
+}
+
+export type TaskMentionCreateManyTaskInput = {
+  id?: number
+  subTaskId?: number | null
+  commentId?: number | null
+  mentionedUserId: number
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionUpdateWithoutTaskInput = {
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  subTask?: Prisma.SubTaskUpdateOneWithoutMentionsNestedInput
+  comment?: Prisma.TaskCommentUpdateOneWithoutMentionsNestedInput
+  mentionedUser?: Prisma.UserUpdateOneRequiredWithoutTaskMentionsNestedInput
+  mentionedBy?: Prisma.UserUpdateOneWithoutSentTaskMentionsNestedInput
+}
+
+export type TaskMentionUncheckedUpdateWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionCreateManyCommentInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  mentionedUserId: number
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionUpdateWithoutCommentInput = {
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutMentionsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutMentionsNestedInput
+  mentionedUser?: Prisma.UserUpdateOneRequiredWithoutTaskMentionsNestedInput
+  mentionedBy?: Prisma.UserUpdateOneWithoutSentTaskMentionsNestedInput
+}
+
+export type TaskMentionUncheckedUpdateWithoutCommentInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutCommentInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionCreateManySubTaskInput = {
+  id?: number
+  taskId: number
+  commentId?: number | null
+  mentionedUserId: number
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionUpdateWithoutSubTaskInput = {
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutMentionsNestedInput
+  comment?: Prisma.TaskCommentUpdateOneWithoutMentionsNestedInput
+  mentionedUser?: Prisma.UserUpdateOneRequiredWithoutTaskMentionsNestedInput
+  mentionedBy?: Prisma.UserUpdateOneWithoutSentTaskMentionsNestedInput
+}
+
+export type TaskMentionUncheckedUpdateWithoutSubTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutSubTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionCreateManyMentionedUserInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  commentId?: number | null
+  mentionedById?: number | null
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionCreateManyMentionedByInput = {
+  id?: number
+  taskId: number
+  subTaskId?: number | null
+  commentId?: number | null
+  mentionedUserId: number
+  readAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type TaskMentionUpdateWithoutMentionedUserInput = {
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutMentionsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutMentionsNestedInput
+  comment?: Prisma.TaskCommentUpdateOneWithoutMentionsNestedInput
+  mentionedBy?: Prisma.UserUpdateOneWithoutSentTaskMentionsNestedInput
+}
+
+export type TaskMentionUncheckedUpdateWithoutMentionedUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutMentionedUserInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedById?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionUpdateWithoutMentionedByInput = {
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  task?: Prisma.TaskUpdateOneRequiredWithoutMentionsNestedInput
+  subTask?: Prisma.SubTaskUpdateOneWithoutMentionsNestedInput
+  comment?: Prisma.TaskCommentUpdateOneWithoutMentionsNestedInput
+  mentionedUser?: Prisma.UserUpdateOneRequiredWithoutTaskMentionsNestedInput
+}
+
+export type TaskMentionUncheckedUpdateWithoutMentionedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskMentionUncheckedUpdateManyWithoutMentionedByInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  taskId?: Prisma.IntFieldUpdateOperationsInput | number
+  subTaskId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  commentId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  mentionedUserId?: Prisma.IntFieldUpdateOperationsInput | number
+  readAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type TaskMentionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  commentId?: boolean
+  mentionedUserId?: boolean
+  mentionedById?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskMention$subTaskArgs<ExtArgs>
+  comment?: boolean | Prisma.TaskMention$commentArgs<ExtArgs>
+  mentionedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mentionedBy?: boolean | Prisma.TaskMention$mentionedByArgs<ExtArgs>
+}, ExtArgs["result"]["taskMention"]>
+
+export type TaskMentionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  commentId?: boolean
+  mentionedUserId?: boolean
+  mentionedById?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskMention$subTaskArgs<ExtArgs>
+  comment?: boolean | Prisma.TaskMention$commentArgs<ExtArgs>
+  mentionedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mentionedBy?: boolean | Prisma.TaskMention$mentionedByArgs<ExtArgs>
+}, ExtArgs["result"]["taskMention"]>
+
+export type TaskMentionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  commentId?: boolean
+  mentionedUserId?: boolean
+  mentionedById?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskMention$subTaskArgs<ExtArgs>
+  comment?: boolean | Prisma.TaskMention$commentArgs<ExtArgs>
+  mentionedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mentionedBy?: boolean | Prisma.TaskMention$mentionedByArgs<ExtArgs>
+}, ExtArgs["result"]["taskMention"]>
+
+export type TaskMentionSelectScalar = {
+  id?: boolean
+  taskId?: boolean
+  subTaskId?: boolean
+  commentId?: boolean
+  mentionedUserId?: boolean
+  mentionedById?: boolean
+  readAt?: boolean
+  createdAt?: boolean
+}
+
+export type TaskMentionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "taskId" | "subTaskId" | "commentId" | "mentionedUserId" | "mentionedById" | "readAt" | "createdAt", ExtArgs["result"]["taskMention"]>
+export type TaskMentionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskMention$subTaskArgs<ExtArgs>
+  comment?: boolean | Prisma.TaskMention$commentArgs<ExtArgs>
+  mentionedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mentionedBy?: boolean | Prisma.TaskMention$mentionedByArgs<ExtArgs>
+}
+export type TaskMentionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskMention$subTaskArgs<ExtArgs>
+  comment?: boolean | Prisma.TaskMention$commentArgs<ExtArgs>
+  mentionedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mentionedBy?: boolean | Prisma.TaskMention$mentionedByArgs<ExtArgs>
+}
+export type TaskMentionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  task?: boolean | Prisma.TaskDefaultArgs<ExtArgs>
+  subTask?: boolean | Prisma.TaskMention$subTaskArgs<ExtArgs>
+  comment?: boolean | Prisma.TaskMention$commentArgs<ExtArgs>
+  mentionedUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>
+  mentionedBy?: boolean | Prisma.TaskMention$mentionedByArgs<ExtArgs>
+}
+
+export type $TaskMentionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TaskMention"
+  objects: {
+    task: Prisma.$TaskPayload<ExtArgs>
+    subTask: Prisma.$SubTaskPayload<ExtArgs> | null
+    comment: Prisma.$TaskCommentPayload<ExtArgs> | null
+    mentionedUser: Prisma.$UserPayload<ExtArgs>
+    mentionedBy: Prisma.$UserPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    taskId: number
+    subTaskId: number | null
+    commentId: number | null
+    mentionedUserId: number
+    mentionedById: number | null
+    readAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["taskMention"]>
+  composites: {}
+}
+
+export type TaskMentionGetPayload<S extends boolean | null | undefined | TaskMentionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload, S>
+
+export type TaskMentionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TaskMentionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TaskMentionCountAggregateInputType | true
+  }
+
+export interface TaskMentionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TaskMention'], meta: { name: 'TaskMention' } }
+  /**
+   * Find zero or one TaskMention that matches the filter.
+   * @param {TaskMentionFindUniqueArgs} args - Arguments to find a TaskMention
+   * @example
+   * // Get one TaskMention
+   * const taskMention = await prisma.taskMention.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TaskMentionFindUniqueArgs>(args: Prisma.SelectSubset<T, TaskMentionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TaskMentionClient<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TaskMention that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TaskMentionFindUniqueOrThrowArgs} args - Arguments to find a TaskMention
+   * @example
+   * // Get one TaskMention
+   * const taskMention = await prisma.taskMention.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TaskMentionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TaskMentionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskMentionClient<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskMention that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskMentionFindFirstArgs} args - Arguments to find a TaskMention
+   * @example
+   * // Get one TaskMention
+   * const taskMention = await prisma.taskMention.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TaskMentionFindFirstArgs>(args?: Prisma.SelectSubset<T, TaskMentionFindFirstArgs<ExtArgs>>): Prisma.Prisma__TaskMentionClient<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskMention that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskMentionFindFirstOrThrowArgs} args - Arguments to find a TaskMention
+   * @example
+   * // Get one TaskMention
+   * const taskMention = await prisma.taskMention.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TaskMentionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TaskMentionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskMentionClient<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TaskMentions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskMentionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TaskMentions
+   * const taskMentions = await prisma.taskMention.findMany()
+   * 
+   * // Get first 10 TaskMentions
+   * const taskMentions = await prisma.taskMention.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const taskMentionWithIdOnly = await prisma.taskMention.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TaskMentionFindManyArgs>(args?: Prisma.SelectSubset<T, TaskMentionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TaskMention.
+   * @param {TaskMentionCreateArgs} args - Arguments to create a TaskMention.
+   * @example
+   * // Create one TaskMention
+   * const TaskMention = await prisma.taskMention.create({
+   *   data: {
+   *     // ... data to create a TaskMention
+   *   }
+   * })
+   * 
+   */
+  create<T extends TaskMentionCreateArgs>(args: Prisma.SelectSubset<T, TaskMentionCreateArgs<ExtArgs>>): Prisma.Prisma__TaskMentionClient<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TaskMentions.
+   * @param {TaskMentionCreateManyArgs} args - Arguments to create many TaskMentions.
+   * @example
+   * // Create many TaskMentions
+   * const taskMention = await prisma.taskMention.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TaskMentionCreateManyArgs>(args?: Prisma.SelectSubset<T, TaskMentionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TaskMentions and returns the data saved in the database.
+   * @param {TaskMentionCreateManyAndReturnArgs} args - Arguments to create many TaskMentions.
+   * @example
+   * // Create many TaskMentions
+   * const taskMention = await prisma.taskMention.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TaskMentions and only return the `id`
+   * const taskMentionWithIdOnly = await prisma.taskMention.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TaskMentionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TaskMentionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TaskMention.
+   * @param {TaskMentionDeleteArgs} args - Arguments to delete one TaskMention.
+   * @example
+   * // Delete one TaskMention
+   * const TaskMention = await prisma.taskMention.delete({
+   *   where: {
+   *     // ... filter to delete one TaskMention
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TaskMentionDeleteArgs>(args: Prisma.SelectSubset<T, TaskMentionDeleteArgs<ExtArgs>>): Prisma.Prisma__TaskMentionClient<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TaskMention.
+   * @param {TaskMentionUpdateArgs} args - Arguments to update one TaskMention.
+   * @example
+   * // Update one TaskMention
+   * const taskMention = await prisma.taskMention.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TaskMentionUpdateArgs>(args: Prisma.SelectSubset<T, TaskMentionUpdateArgs<ExtArgs>>): Prisma.Prisma__TaskMentionClient<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TaskMentions.
+   * @param {TaskMentionDeleteManyArgs} args - Arguments to filter TaskMentions to delete.
+   * @example
+   * // Delete a few TaskMentions
+   * const { count } = await prisma.taskMention.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TaskMentionDeleteManyArgs>(args?: Prisma.SelectSubset<T, TaskMentionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskMentions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskMentionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TaskMentions
+   * const taskMention = await prisma.taskMention.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TaskMentionUpdateManyArgs>(args: Prisma.SelectSubset<T, TaskMentionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskMentions and returns the data updated in the database.
+   * @param {TaskMentionUpdateManyAndReturnArgs} args - Arguments to update many TaskMentions.
+   * @example
+   * // Update many TaskMentions
+   * const taskMention = await prisma.taskMention.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TaskMentions and only return the `id`
+   * const taskMentionWithIdOnly = await prisma.taskMention.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TaskMentionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TaskMentionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TaskMention.
+   * @param {TaskMentionUpsertArgs} args - Arguments to update or create a TaskMention.
+   * @example
+   * // Update or create a TaskMention
+   * const taskMention = await prisma.taskMention.upsert({
+   *   create: {
+   *     // ... data to create a TaskMention
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TaskMention we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TaskMentionUpsertArgs>(args: Prisma.SelectSubset<T, TaskMentionUpsertArgs<ExtArgs>>): Prisma.Prisma__TaskMentionClient<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TaskMentions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskMentionCountArgs} args - Arguments to filter TaskMentions to count.
+   * @example
+   * // Count the number of TaskMentions
+   * const count = await prisma.taskMention.count({
+   *   where: {
+   *     // ... the filter for the TaskMentions we want to count
+   *   }
+   * })
+  **/
+  count<T extends TaskMentionCountArgs>(
+    args?: Prisma.Subset<T, TaskMentionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TaskMentionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TaskMention.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskMentionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TaskMentionAggregateArgs>(args: Prisma.Subset<T, TaskMentionAggregateArgs>): Prisma.PrismaPromise<GetTaskMentionAggregateType<T>>
+
+  /**
+   * Group by TaskMention.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskMentionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TaskMentionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TaskMentionGroupByArgs['orderBy'] }
+      : { orderBy?: TaskMentionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TaskMentionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTaskMentionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TaskMention model
+ */
+readonly fields: TaskMentionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TaskMention.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TaskMentionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  task<T extends Prisma.TaskDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskDefaultArgs<ExtArgs>>): Prisma.Prisma__TaskClient<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  subTask<T extends Prisma.TaskMention$subTaskArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskMention$subTaskArgs<ExtArgs>>): Prisma.Prisma__SubTaskClient<runtime.Types.Result.GetResult<Prisma.$SubTaskPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  comment<T extends Prisma.TaskMention$commentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskMention$commentArgs<ExtArgs>>): Prisma.Prisma__TaskCommentClient<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  mentionedUser<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  mentionedBy<T extends Prisma.TaskMention$mentionedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskMention$mentionedByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TaskMention model
+ */
+export interface TaskMentionFieldRefs {
+  readonly id: Prisma.FieldRef<"TaskMention", 'Int'>
+  readonly taskId: Prisma.FieldRef<"TaskMention", 'Int'>
+  readonly subTaskId: Prisma.FieldRef<"TaskMention", 'Int'>
+  readonly commentId: Prisma.FieldRef<"TaskMention", 'Int'>
+  readonly mentionedUserId: Prisma.FieldRef<"TaskMention", 'Int'>
+  readonly mentionedById: Prisma.FieldRef<"TaskMention", 'Int'>
+  readonly readAt: Prisma.FieldRef<"TaskMention", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"TaskMention", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TaskMention findUnique
+ */
+export type TaskMentionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskMention to fetch.
+   */
+  where: Prisma.TaskMentionWhereUniqueInput
+}
+
+/**
+ * TaskMention findUniqueOrThrow
+ */
+export type TaskMentionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskMention to fetch.
+   */
+  where: Prisma.TaskMentionWhereUniqueInput
+}
+
+/**
+ * TaskMention findFirst
+ */
+export type TaskMentionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskMention to fetch.
+   */
+  where?: Prisma.TaskMentionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskMentions to fetch.
+   */
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskMentions.
+   */
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskMentions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskMentions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskMentions.
+   */
+  distinct?: Prisma.TaskMentionScalarFieldEnum | Prisma.TaskMentionScalarFieldEnum[]
+}
+
+/**
+ * TaskMention findFirstOrThrow
+ */
+export type TaskMentionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskMention to fetch.
+   */
+  where?: Prisma.TaskMentionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskMentions to fetch.
+   */
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskMentions.
+   */
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskMentions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskMentions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskMentions.
+   */
+  distinct?: Prisma.TaskMentionScalarFieldEnum | Prisma.TaskMentionScalarFieldEnum[]
+}
+
+/**
+ * TaskMention findMany
+ */
+export type TaskMentionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskMentions to fetch.
+   */
+  where?: Prisma.TaskMentionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskMentions to fetch.
+   */
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TaskMentions.
+   */
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskMentions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskMentions.
+   */
+  skip?: number
+  distinct?: Prisma.TaskMentionScalarFieldEnum | Prisma.TaskMentionScalarFieldEnum[]
+}
+
+/**
+ * TaskMention create
+ */
+export type TaskMentionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TaskMention.
+   */
+  data: Prisma.XOR<Prisma.TaskMentionCreateInput, Prisma.TaskMentionUncheckedCreateInput>
+}
+
+/**
+ * TaskMention createMany
+ */
+export type TaskMentionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TaskMentions.
+   */
+  data: Prisma.TaskMentionCreateManyInput | Prisma.TaskMentionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaskMention createManyAndReturn
+ */
+export type TaskMentionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * The data used to create many TaskMentions.
+   */
+  data: Prisma.TaskMentionCreateManyInput | Prisma.TaskMentionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskMention update
+ */
+export type TaskMentionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TaskMention.
+   */
+  data: Prisma.XOR<Prisma.TaskMentionUpdateInput, Prisma.TaskMentionUncheckedUpdateInput>
+  /**
+   * Choose, which TaskMention to update.
+   */
+  where: Prisma.TaskMentionWhereUniqueInput
+}
+
+/**
+ * TaskMention updateMany
+ */
+export type TaskMentionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TaskMentions.
+   */
+  data: Prisma.XOR<Prisma.TaskMentionUpdateManyMutationInput, Prisma.TaskMentionUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskMentions to update
+   */
+  where?: Prisma.TaskMentionWhereInput
+  /**
+   * Limit how many TaskMentions to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaskMention updateManyAndReturn
+ */
+export type TaskMentionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * The data used to update TaskMentions.
+   */
+  data: Prisma.XOR<Prisma.TaskMentionUpdateManyMutationInput, Prisma.TaskMentionUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskMentions to update
+   */
+  where?: Prisma.TaskMentionWhereInput
+  /**
+   * Limit how many TaskMentions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * TaskMention upsert
+ */
+export type TaskMentionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TaskMention to update in case it exists.
+   */
+  where: Prisma.TaskMentionWhereUniqueInput
+  /**
+   * In case the TaskMention found by the `where` argument doesn't exist, create a new TaskMention with this data.
+   */
+  create: Prisma.XOR<Prisma.TaskMentionCreateInput, Prisma.TaskMentionUncheckedCreateInput>
+  /**
+   * In case the TaskMention was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TaskMentionUpdateInput, Prisma.TaskMentionUncheckedUpdateInput>
+}
+
+/**
+ * TaskMention delete
+ */
+export type TaskMentionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  /**
+   * Filter which TaskMention to delete.
+   */
+  where: Prisma.TaskMentionWhereUniqueInput
+}
+
+/**
+ * TaskMention deleteMany
+ */
+export type TaskMentionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskMentions to delete
+   */
+  where?: Prisma.TaskMentionWhereInput
+  /**
+   * Limit how many TaskMentions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TaskMention.subTask
+ */
+export type TaskMention$subTaskArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the SubTask
+   */
+  select?: Prisma.SubTaskSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the SubTask
+   */
+  omit?: Prisma.SubTaskOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.SubTaskInclude<ExtArgs> | null
+  where?: Prisma.SubTaskWhereInput
+}
+
+/**
+ * TaskMention.comment
+ */
+export type TaskMention$commentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentWhereInput
+}
+
+/**
+ * TaskMention.mentionedBy
+ */
+export type TaskMention$mentionedByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the User
+   */
+  select?: Prisma.UserSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the User
+   */
+  omit?: Prisma.UserOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.UserInclude<ExtArgs> | null
+  where?: Prisma.UserWhereInput
+}
+
+/**
+ * TaskMention without action
+ */
+export type TaskMentionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+}
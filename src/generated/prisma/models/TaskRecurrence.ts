@@ -0,0 +1,1798 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `TaskRecurrence` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model TaskRecurrence
+ * 
+ */
+export type TaskRecurrenceModel = runtime.Types.Result.DefaultSelection<Prisma.$TaskRecurrencePayload>
+
+export type AggregateTaskRecurrence = {
+  _count: TaskRecurrenceCountAggregateOutputType | null
+  _avg: TaskRecurrenceAvgAggregateOutputType | null
+  _sum: TaskRecurrenceSumAggregateOutputType | null
+  _min: TaskRecurrenceMinAggregateOutputType | null
+  _max: TaskRecurrenceMaxAggregateOutputType | null
+}
+
+export type TaskRecurrenceAvgAggregateOutputType = {
+  id: number | null
+  interval: number | null
+  byWeekday: number | null
+  byMonthDay: number | null
+  bySetPos: number | null
+  count: number | null
+  priority: number | null
+}
+
+export type TaskRecurrenceSumAggregateOutputType = {
+  id: number | null
+  interval: number | null
+  byWeekday: number[]
+  byMonthDay: number | null
+  bySetPos: number | null
+  count: number | null
+  priority: number | null
+}
+
+export type TaskRecurrenceMinAggregateOutputType = {
+  id: number | null
+  frequency: $Enums.RecurrenceFrequency | null
+  interval: number | null
+  byMonthDay: number | null
+  bySetPos: number | null
+  untilDate: Date | null
+  count: number | null
+  title: string | null
+  description: string | null
+  location: string | null
+  priority: number | null
+  allDay: boolean | null
+  dueTime: string | null
+  timeZone: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TaskRecurrenceMaxAggregateOutputType = {
+  id: number | null
+  frequency: $Enums.RecurrenceFrequency | null
+  interval: number | null
+  byMonthDay: number | null
+  bySetPos: number | null
+  untilDate: Date | null
+  count: number | null
+  title: string | null
+  description: string | null
+  location: string | null
+  priority: number | null
+  allDay: boolean | null
+  dueTime: string | null
+  timeZone: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type TaskRecurrenceCountAggregateOutputType = {
+  id: number
+  frequency: number
+  interval: number
+  byWeekday: number
+  byMonthDay: number
+  bySetPos: number
+  untilDate: number
+  count: number
+  title: number
+  description: number
+  location: number
+  priority: number
+  allDay: number
+  dueTime: number
+  timeZone: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type TaskRecurrenceAvgAggregateInputType = {
+  id?: true
+  interval?: true
+  byWeekday?: true
+  byMonthDay?: true
+  bySetPos?: true
+  count?: true
+  priority?: true
+}
+
+export type TaskRecurrenceSumAggregateInputType = {
+  id?: true
+  interval?: true
+  byWeekday?: true
+  byMonthDay?: true
+  bySetPos?: true
+  count?: true
+  priority?: true
+}
+
+export type TaskRecurrenceMinAggregateInputType = {
+  id?: true
+  frequency?: true
+  interval?: true
+  byMonthDay?: true
+  bySetPos?: true
+  untilDate?: true
+  count?: true
+  title?: true
+  description?: true
+  location?: true
+  priority?: true
+  allDay?: true
+  dueTime?: true
+  timeZone?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TaskRecurrenceMaxAggregateInputType = {
+  id?: true
+  frequency?: true
+  interval?: true
+  byMonthDay?: true
+  bySetPos?: true
+  untilDate?: true
+  count?: true
+  title?: true
+  description?: true
+  location?: true
+  priority?: true
+  allDay?: true
+  dueTime?: true
+  timeZone?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type TaskRecurrenceCountAggregateInputType = {
+  id?: true
+  frequency?: true
+  interval?: true
+  byWeekday?: true
+  byMonthDay?: true
+  bySetPos?: true
+  untilDate?: true
+  count?: true
+  title?: true
+  description?: true
+  location?: true
+  priority?: true
+  allDay?: true
+  dueTime?: true
+  timeZone?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type TaskRecurrenceAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskRecurrence to aggregate.
+   */
+  where?: Prisma.TaskRecurrenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskRecurrences to fetch.
+   */
+  orderBy?: Prisma.TaskRecurrenceOrderByWithRelationInput | Prisma.TaskRecurrenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.TaskRecurrenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskRecurrences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskRecurrences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned TaskRecurrences
+  **/
+  _count?: true | TaskRecurrenceCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: TaskRecurrenceAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: TaskRecurrenceSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: TaskRecurrenceMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: TaskRecurrenceMaxAggregateInputType
+}
+
+export type GetTaskRecurrenceAggregateType<T extends TaskRecurrenceAggregateArgs> = {
+      [P in keyof T & keyof AggregateTaskRecurrence]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateTaskRecurrence[P]>
+    : Prisma.GetScalarType<T[P], AggregateTaskRecurrence[P]>
+}
+
+
+
+
+export type TaskRecurrenceGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskRecurrenceWhereInput
+  orderBy?: Prisma.TaskRecurrenceOrderByWithAggregationInput | Prisma.TaskRecurrenceOrderByWithAggregationInput[]
+  by: Prisma.TaskRecurrenceScalarFieldEnum[] | Prisma.TaskRecurrenceScalarFieldEnum
+  having?: Prisma.TaskRecurrenceScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: TaskRecurrenceCountAggregateInputType | true
+  _avg?: TaskRecurrenceAvgAggregateInputType
+  _sum?: TaskRecurrenceSumAggregateInputType
+  _min?: TaskRecurrenceMinAggregateInputType
+  _max?: TaskRecurrenceMaxAggregateInputType
+}
+
+export type TaskRecurrenceGroupByOutputType = {
+  id: number
+  frequency: $Enums.RecurrenceFrequency
+  interval: number
+  byWeekday: number[]
+  byMonthDay: number | null
+  bySetPos: number | null
+  untilDate: Date | null
+  count: number | null
+  title: string
+  description: string | null
+  location: string | null
+  priority: number
+  allDay: boolean
+  dueTime: string | null
+  timeZone: string
+  createdAt: Date
+  updatedAt: Date
+  _count: TaskRecurrenceCountAggregateOutputType | null
+  _avg: TaskRecurrenceAvgAggregateOutputType | null
+  _sum: TaskRecurrenceSumAggregateOutputType | null
+  _min: TaskRecurrenceMinAggregateOutputType | null
+  _max: TaskRecurrenceMaxAggregateOutputType | null
+}
+
+type GetTaskRecurrenceGroupByPayload<T extends TaskRecurrenceGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<TaskRecurrenceGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof TaskRecurrenceGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], TaskRecurrenceGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], TaskRecurrenceGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type TaskRecurrenceWhereInput = {
+  AND?: Prisma.TaskRecurrenceWhereInput | Prisma.TaskRecurrenceWhereInput[]
+  OR?: Prisma.TaskRecurrenceWhereInput[]
+  NOT?: Prisma.TaskRecurrenceWhereInput | Prisma.TaskRecurrenceWhereInput[]
+  id?: Prisma.IntFilter<"TaskRecurrence"> | number
+  frequency?: Prisma.EnumRecurrenceFrequencyFilter<"TaskRecurrence"> | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFilter<"TaskRecurrence"> | number
+  byWeekday?: Prisma.IntNullableListFilter<"TaskRecurrence">
+  byMonthDay?: Prisma.IntNullableFilter<"TaskRecurrence"> | number | null
+  bySetPos?: Prisma.IntNullableFilter<"TaskRecurrence"> | number | null
+  untilDate?: Prisma.DateTimeNullableFilter<"TaskRecurrence"> | Date | string | null
+  count?: Prisma.IntNullableFilter<"TaskRecurrence"> | number | null
+  title?: Prisma.StringFilter<"TaskRecurrence"> | string
+  description?: Prisma.StringNullableFilter<"TaskRecurrence"> | string | null
+  location?: Prisma.StringNullableFilter<"TaskRecurrence"> | string | null
+  priority?: Prisma.IntFilter<"TaskRecurrence"> | number
+  allDay?: Prisma.BoolFilter<"TaskRecurrence"> | boolean
+  dueTime?: Prisma.StringNullableFilter<"TaskRecurrence"> | string | null
+  timeZone?: Prisma.StringFilter<"TaskRecurrence"> | string
+  createdAt?: Prisma.DateTimeFilter<"TaskRecurrence"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TaskRecurrence"> | Date | string
+  tasks?: Prisma.TaskListRelationFilter
+}
+
+export type TaskRecurrenceOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  byMonthDay?: Prisma.SortOrderInput | Prisma.SortOrder
+  bySetPos?: Prisma.SortOrderInput | Prisma.SortOrder
+  untilDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  count?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  location?: Prisma.SortOrderInput | Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  allDay?: Prisma.SortOrder
+  dueTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  timeZone?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  tasks?: Prisma.TaskOrderByRelationAggregateInput
+}
+
+export type TaskRecurrenceWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.TaskRecurrenceWhereInput | Prisma.TaskRecurrenceWhereInput[]
+  OR?: Prisma.TaskRecurrenceWhereInput[]
+  NOT?: Prisma.TaskRecurrenceWhereInput | Prisma.TaskRecurrenceWhereInput[]
+  frequency?: Prisma.EnumRecurrenceFrequencyFilter<"TaskRecurrence"> | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFilter<"TaskRecurrence"> | number
+  byWeekday?: Prisma.IntNullableListFilter<"TaskRecurrence">
+  byMonthDay?: Prisma.IntNullableFilter<"TaskRecurrence"> | number | null
+  bySetPos?: Prisma.IntNullableFilter<"TaskRecurrence"> | number | null
+  untilDate?: Prisma.DateTimeNullableFilter<"TaskRecurrence"> | Date | string | null
+  count?: Prisma.IntNullableFilter<"TaskRecurrence"> | number | null
+  title?: Prisma.StringFilter<"TaskRecurrence"> | string
+  description?: Prisma.StringNullableFilter<"TaskRecurrence"> | string | null
+  location?: Prisma.StringNullableFilter<"TaskRecurrence"> | string | null
+  priority?: Prisma.IntFilter<"TaskRecurrence"> | number
+  allDay?: Prisma.BoolFilter<"TaskRecurrence"> | boolean
+  dueTime?: Prisma.StringNullableFilter<"TaskRecurrence"> | string | null
+  timeZone?: Prisma.StringFilter<"TaskRecurrence"> | string
+  createdAt?: Prisma.DateTimeFilter<"TaskRecurrence"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"TaskRecurrence"> | Date | string
+  tasks?: Prisma.TaskListRelationFilter
+}, "id">
+
+export type TaskRecurrenceOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  byMonthDay?: Prisma.SortOrderInput | Prisma.SortOrder
+  bySetPos?: Prisma.SortOrderInput | Prisma.SortOrder
+  untilDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  count?: Prisma.SortOrderInput | Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  location?: Prisma.SortOrderInput | Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  allDay?: Prisma.SortOrder
+  dueTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  timeZone?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.TaskRecurrenceCountOrderByAggregateInput
+  _avg?: Prisma.TaskRecurrenceAvgOrderByAggregateInput
+  _max?: Prisma.TaskRecurrenceMaxOrderByAggregateInput
+  _min?: Prisma.TaskRecurrenceMinOrderByAggregateInput
+  _sum?: Prisma.TaskRecurrenceSumOrderByAggregateInput
+}
+
+export type TaskRecurrenceScalarWhereWithAggregatesInput = {
+  AND?: Prisma.TaskRecurrenceScalarWhereWithAggregatesInput | Prisma.TaskRecurrenceScalarWhereWithAggregatesInput[]
+  OR?: Prisma.TaskRecurrenceScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.TaskRecurrenceScalarWhereWithAggregatesInput | Prisma.TaskRecurrenceScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"TaskRecurrence"> | number
+  frequency?: Prisma.EnumRecurrenceFrequencyWithAggregatesFilter<"TaskRecurrence"> | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntWithAggregatesFilter<"TaskRecurrence"> | number
+  byWeekday?: Prisma.IntNullableListFilter<"TaskRecurrence">
+  byMonthDay?: Prisma.IntNullableWithAggregatesFilter<"TaskRecurrence"> | number | null
+  bySetPos?: Prisma.IntNullableWithAggregatesFilter<"TaskRecurrence"> | number | null
+  untilDate?: Prisma.DateTimeNullableWithAggregatesFilter<"TaskRecurrence"> | Date | string | null
+  count?: Prisma.IntNullableWithAggregatesFilter<"TaskRecurrence"> | number | null
+  title?: Prisma.StringWithAggregatesFilter<"TaskRecurrence"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"TaskRecurrence"> | string | null
+  location?: Prisma.StringNullableWithAggregatesFilter<"TaskRecurrence"> | string | null
+  priority?: Prisma.IntWithAggregatesFilter<"TaskRecurrence"> | number
+  allDay?: Prisma.BoolWithAggregatesFilter<"TaskRecurrence"> | boolean
+  dueTime?: Prisma.StringNullableWithAggregatesFilter<"TaskRecurrence"> | string | null
+  timeZone?: Prisma.StringWithAggregatesFilter<"TaskRecurrence"> | string
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"TaskRecurrence"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"TaskRecurrence"> | Date | string
+}
+
+export type TaskRecurrenceCreateInput = {
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  byWeekday?: Prisma.TaskRecurrenceCreatebyWeekdayInput | number[]
+  byMonthDay?: number | null
+  bySetPos?: number | null
+  untilDate?: Date | string | null
+  count?: number | null
+  title: string
+  description?: string | null
+  location?: string | null
+  priority?: number
+  allDay?: boolean
+  dueTime?: string | null
+  timeZone: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  tasks?: Prisma.TaskCreateNestedManyWithoutRecurrenceInput
+}
+
+export type TaskRecurrenceUncheckedCreateInput = {
+  id?: number
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  byWeekday?: Prisma.TaskRecurrenceCreatebyWeekdayInput | number[]
+  byMonthDay?: number | null
+  bySetPos?: number | null
+  untilDate?: Date | string | null
+  count?: number | null
+  title: string
+  description?: string | null
+  location?: string | null
+  priority?: number
+  allDay?: boolean
+  dueTime?: string | null
+  timeZone: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  tasks?: Prisma.TaskUncheckedCreateNestedManyWithoutRecurrenceInput
+}
+
+export type TaskRecurrenceUpdateInput = {
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.TaskRecurrenceUpdatebyWeekdayInput | number[]
+  byMonthDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bySetPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dueTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tasks?: Prisma.TaskUpdateManyWithoutRecurrenceNestedInput
+}
+
+export type TaskRecurrenceUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.TaskRecurrenceUpdatebyWeekdayInput | number[]
+  byMonthDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bySetPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dueTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  tasks?: Prisma.TaskUncheckedUpdateManyWithoutRecurrenceNestedInput
+}
+
+export type TaskRecurrenceCreateManyInput = {
+  id?: number
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  byWeekday?: Prisma.TaskRecurrenceCreatebyWeekdayInput | number[]
+  byMonthDay?: number | null
+  bySetPos?: number | null
+  untilDate?: Date | string | null
+  count?: number | null
+  title: string
+  description?: string | null
+  location?: string | null
+  priority?: number
+  allDay?: boolean
+  dueTime?: string | null
+  timeZone: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskRecurrenceUpdateManyMutationInput = {
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.TaskRecurrenceUpdatebyWeekdayInput | number[]
+  byMonthDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bySetPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dueTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskRecurrenceUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.TaskRecurrenceUpdatebyWeekdayInput | number[]
+  byMonthDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bySetPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dueTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskRecurrenceNullableScalarRelationFilter = {
+  is?: Prisma.TaskRecurrenceWhereInput | null
+  isNot?: Prisma.TaskRecurrenceWhereInput | null
+}
+
+export type IntNullableListFilter<$PrismaModel = never> = {
+  equals?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  has?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  hasEvery?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  hasSome?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type TaskRecurrenceCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  byMonthDay?: Prisma.SortOrder
+  bySetPos?: Prisma.SortOrder
+  untilDate?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  allDay?: Prisma.SortOrder
+  dueTime?: Prisma.SortOrder
+  timeZone?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaskRecurrenceAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  byMonthDay?: Prisma.SortOrder
+  bySetPos?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+}
+
+export type TaskRecurrenceMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byMonthDay?: Prisma.SortOrder
+  bySetPos?: Prisma.SortOrder
+  untilDate?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  allDay?: Prisma.SortOrder
+  dueTime?: Prisma.SortOrder
+  timeZone?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaskRecurrenceMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byMonthDay?: Prisma.SortOrder
+  bySetPos?: Prisma.SortOrder
+  untilDate?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  title?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  location?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  allDay?: Prisma.SortOrder
+  dueTime?: Prisma.SortOrder
+  timeZone?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type TaskRecurrenceSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  byWeekday?: Prisma.SortOrder
+  byMonthDay?: Prisma.SortOrder
+  bySetPos?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+}
+
+export type TaskRecurrenceCreateNestedOneWithoutTasksInput = {
+  create?: Prisma.XOR<Prisma.TaskRecurrenceCreateWithoutTasksInput, Prisma.TaskRecurrenceUncheckedCreateWithoutTasksInput>
+  connectOrCreate?: Prisma.TaskRecurrenceCreateOrConnectWithoutTasksInput
+  connect?: Prisma.TaskRecurrenceWhereUniqueInput
+}
+
+export type TaskRecurrenceUpdateOneWithoutTasksNestedInput = {
+  create?: Prisma.XOR<Prisma.TaskRecurrenceCreateWithoutTasksInput, Prisma.TaskRecurrenceUncheckedCreateWithoutTasksInput>
+  connectOrCreate?: Prisma.TaskRecurrenceCreateOrConnectWithoutTasksInput
+  upsert?: Prisma.TaskRecurrenceUpsertWithoutTasksInput
+  disconnect?: Prisma.TaskRecurrenceWhereInput | boolean
+  delete?: Prisma.TaskRecurrenceWhereInput | boolean
+  connect?: Prisma.TaskRecurrenceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.TaskRecurrenceUpdateToOneWithWhereWithoutTasksInput, Prisma.TaskRecurrenceUpdateWithoutTasksInput>, Prisma.TaskRecurrenceUncheckedUpdateWithoutTasksInput>
+}
+
+export type TaskRecurrenceCreatebyWeekdayInput = {
+  set: number[]
+}
+
+export type EnumRecurrenceFrequencyFieldUpdateOperationsInput = {
+  set?: $Enums.RecurrenceFrequency
+}
+
+export type TaskRecurrenceUpdatebyWeekdayInput = {
+  set?: number[]
+  push?: number | number[]
+}
+
+export type TaskRecurrenceCreateWithoutTasksInput = {
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  byWeekday?: Prisma.TaskRecurrenceCreatebyWeekdayInput | number[]
+  byMonthDay?: number | null
+  bySetPos?: number | null
+  untilDate?: Date | string | null
+  count?: number | null
+  title: string
+  description?: string | null
+  location?: string | null
+  priority?: number
+  allDay?: boolean
+  dueTime?: string | null
+  timeZone: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskRecurrenceUncheckedCreateWithoutTasksInput = {
+  id?: number
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  byWeekday?: Prisma.TaskRecurrenceCreatebyWeekdayInput | number[]
+  byMonthDay?: number | null
+  bySetPos?: number | null
+  untilDate?: Date | string | null
+  count?: number | null
+  title: string
+  description?: string | null
+  location?: string | null
+  priority?: number
+  allDay?: boolean
+  dueTime?: string | null
+  timeZone: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type TaskRecurrenceCreateOrConnectWithoutTasksInput = {
+  where: Prisma.TaskRecurrenceWhereUniqueInput
+  create: Prisma.XOR<Prisma.TaskRecurrenceCreateWithoutTasksInput, Prisma.TaskRecurrenceUncheckedCreateWithoutTasksInput>
+}
+
+export type TaskRecurrenceUpsertWithoutTasksInput = {
+  update: Prisma.XOR<Prisma.TaskRecurrenceUpdateWithoutTasksInput, Prisma.TaskRecurrenceUncheckedUpdateWithoutTasksInput>
+  create: Prisma.XOR<Prisma.TaskRecurrenceCreateWithoutTasksInput, Prisma.TaskRecurrenceUncheckedCreateWithoutTasksInput>
+  where?: Prisma.TaskRecurrenceWhereInput
+}
+
+export type TaskRecurrenceUpdateToOneWithWhereWithoutTasksInput = {
+  where?: Prisma.TaskRecurrenceWhereInput
+  data: Prisma.XOR<Prisma.TaskRecurrenceUpdateWithoutTasksInput, Prisma.TaskRecurrenceUncheckedUpdateWithoutTasksInput>
+}
+
+export type TaskRecurrenceUpdateWithoutTasksInput = {
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.TaskRecurrenceUpdatebyWeekdayInput | number[]
+  byMonthDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bySetPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dueTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type TaskRecurrenceUncheckedUpdateWithoutTasksInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  byWeekday?: Prisma.TaskRecurrenceUpdatebyWeekdayInput | number[]
+  byMonthDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bySetPos?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  untilDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  title?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  location?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  allDay?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  dueTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type TaskRecurrenceCountOutputType
+ */
+
+export type TaskRecurrenceCountOutputType = {
+  tasks: number
+}
+
+export type TaskRecurrenceCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tasks?: boolean | TaskRecurrenceCountOutputTypeCountTasksArgs
+}
+
+/**
+ * TaskRecurrenceCountOutputType without action
+ */
+export type TaskRecurrenceCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrenceCountOutputType
+   */
+  select?: Prisma.TaskRecurrenceCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * TaskRecurrenceCountOutputType without action
+ */
+export type TaskRecurrenceCountOutputTypeCountTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskWhereInput
+}
+
+
+export type TaskRecurrenceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  frequency?: boolean
+  interval?: boolean
+  byWeekday?: boolean
+  byMonthDay?: boolean
+  bySetPos?: boolean
+  untilDate?: boolean
+  count?: boolean
+  title?: boolean
+  description?: boolean
+  location?: boolean
+  priority?: boolean
+  allDay?: boolean
+  dueTime?: boolean
+  timeZone?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  tasks?: boolean | Prisma.TaskRecurrence$tasksArgs<ExtArgs>
+  _count?: boolean | Prisma.TaskRecurrenceCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["taskRecurrence"]>
+
+export type TaskRecurrenceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  frequency?: boolean
+  interval?: boolean
+  byWeekday?: boolean
+  byMonthDay?: boolean
+  bySetPos?: boolean
+  untilDate?: boolean
+  count?: boolean
+  title?: boolean
+  description?: boolean
+  location?: boolean
+  priority?: boolean
+  allDay?: boolean
+  dueTime?: boolean
+  timeZone?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["taskRecurrence"]>
+
+export type TaskRecurrenceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  frequency?: boolean
+  interval?: boolean
+  byWeekday?: boolean
+  byMonthDay?: boolean
+  bySetPos?: boolean
+  untilDate?: boolean
+  count?: boolean
+  title?: boolean
+  description?: boolean
+  location?: boolean
+  priority?: boolean
+  allDay?: boolean
+  dueTime?: boolean
+  timeZone?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["taskRecurrence"]>
+
+export type TaskRecurrenceSelectScalar = {
+  id?: boolean
+  frequency?: boolean
+  interval?: boolean
+  byWeekday?: boolean
+  byMonthDay?: boolean
+  bySetPos?: boolean
+  untilDate?: boolean
+  count?: boolean
+  title?: boolean
+  description?: boolean
+  location?: boolean
+  priority?: boolean
+  allDay?: boolean
+  dueTime?: boolean
+  timeZone?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type TaskRecurrenceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "frequency" | "interval" | "byWeekday" | "byMonthDay" | "bySetPos" | "untilDate" | "count" | "title" | "description" | "location" | "priority" | "allDay" | "dueTime" | "timeZone" | "createdAt" | "updatedAt", ExtArgs["result"]["taskRecurrence"]>
+export type TaskRecurrenceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  tasks?: boolean | Prisma.TaskRecurrence$tasksArgs<ExtArgs>
+  _count?: boolean | Prisma.TaskRecurrenceCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type TaskRecurrenceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type TaskRecurrenceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $TaskRecurrencePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "TaskRecurrence"
+  objects: {
+    tasks: Prisma.$TaskPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    frequency: $Enums.RecurrenceFrequency
+    interval: number
+    byWeekday: number[]
+    byMonthDay: number | null
+    bySetPos: number | null
+    untilDate: Date | null
+    count: number | null
+    title: string
+    description: string | null
+    location: string | null
+    priority: number
+    allDay: boolean
+    dueTime: string | null
+    timeZone: string
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["taskRecurrence"]>
+  composites: {}
+}
+
+export type TaskRecurrenceGetPayload<S extends boolean | null | undefined | TaskRecurrenceDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload, S>
+
+export type TaskRecurrenceCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<TaskRecurrenceFindManyArgs, 'select' | 'include' | 'distinct' | 'omit'> & {
+    select?: TaskRecurrenceCountAggregateInputType | true
+  }
+
+export interface TaskRecurrenceDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['TaskRecurrence'], meta: { name: 'TaskRecurrence' } }
+  /**
+   * Find zero or one TaskRecurrence that matches the filter.
+   * @param {TaskRecurrenceFindUniqueArgs} args - Arguments to find a TaskRecurrence
+   * @example
+   * // Get one TaskRecurrence
+   * const taskRecurrence = await prisma.taskRecurrence.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends TaskRecurrenceFindUniqueArgs>(args: Prisma.SelectSubset<T, TaskRecurrenceFindUniqueArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one TaskRecurrence that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {TaskRecurrenceFindUniqueOrThrowArgs} args - Arguments to find a TaskRecurrence
+   * @example
+   * // Get one TaskRecurrence
+   * const taskRecurrence = await prisma.taskRecurrence.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends TaskRecurrenceFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, TaskRecurrenceFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskRecurrence that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskRecurrenceFindFirstArgs} args - Arguments to find a TaskRecurrence
+   * @example
+   * // Get one TaskRecurrence
+   * const taskRecurrence = await prisma.taskRecurrence.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends TaskRecurrenceFindFirstArgs>(args?: Prisma.SelectSubset<T, TaskRecurrenceFindFirstArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first TaskRecurrence that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskRecurrenceFindFirstOrThrowArgs} args - Arguments to find a TaskRecurrence
+   * @example
+   * // Get one TaskRecurrence
+   * const taskRecurrence = await prisma.taskRecurrence.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends TaskRecurrenceFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, TaskRecurrenceFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more TaskRecurrences that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskRecurrenceFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all TaskRecurrences
+   * const taskRecurrences = await prisma.taskRecurrence.findMany()
+   * 
+   * // Get first 10 TaskRecurrences
+   * const taskRecurrences = await prisma.taskRecurrence.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const taskRecurrenceWithIdOnly = await prisma.taskRecurrence.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends TaskRecurrenceFindManyArgs>(args?: Prisma.SelectSubset<T, TaskRecurrenceFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a TaskRecurrence.
+   * @param {TaskRecurrenceCreateArgs} args - Arguments to create a TaskRecurrence.
+   * @example
+   * // Create one TaskRecurrence
+   * const TaskRecurrence = await prisma.taskRecurrence.create({
+   *   data: {
+   *     // ... data to create a TaskRecurrence
+   *   }
+   * })
+   * 
+   */
+  create<T extends TaskRecurrenceCreateArgs>(args: Prisma.SelectSubset<T, TaskRecurrenceCreateArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many TaskRecurrences.
+   * @param {TaskRecurrenceCreateManyArgs} args - Arguments to create many TaskRecurrences.
+   * @example
+   * // Create many TaskRecurrences
+   * const taskRecurrence = await prisma.taskRecurrence.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends TaskRecurrenceCreateManyArgs>(args?: Prisma.SelectSubset<T, TaskRecurrenceCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many TaskRecurrences and returns the data saved in the database.
+   * @param {TaskRecurrenceCreateManyAndReturnArgs} args - Arguments to create many TaskRecurrences.
+   * @example
+   * // Create many TaskRecurrences
+   * const taskRecurrence = await prisma.taskRecurrence.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many TaskRecurrences and only return the `id`
+   * const taskRecurrenceWithIdOnly = await prisma.taskRecurrence.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends TaskRecurrenceCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, TaskRecurrenceCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a TaskRecurrence.
+   * @param {TaskRecurrenceDeleteArgs} args - Arguments to delete one TaskRecurrence.
+   * @example
+   * // Delete one TaskRecurrence
+   * const TaskRecurrence = await prisma.taskRecurrence.delete({
+   *   where: {
+   *     // ... filter to delete one TaskRecurrence
+   *   }
+   * })
+   * 
+   */
+  delete<T extends TaskRecurrenceDeleteArgs>(args: Prisma.SelectSubset<T, TaskRecurrenceDeleteArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one TaskRecurrence.
+   * @param {TaskRecurrenceUpdateArgs} args - Arguments to update one TaskRecurrence.
+   * @example
+   * // Update one TaskRecurrence
+   * const taskRecurrence = await prisma.taskRecurrence.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends TaskRecurrenceUpdateArgs>(args: Prisma.SelectSubset<T, TaskRecurrenceUpdateArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more TaskRecurrences.
+   * @param {TaskRecurrenceDeleteManyArgs} args - Arguments to filter TaskRecurrences to delete.
+   * @example
+   * // Delete a few TaskRecurrences
+   * const { count } = await prisma.taskRecurrence.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends TaskRecurrenceDeleteManyArgs>(args?: Prisma.SelectSubset<T, TaskRecurrenceDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskRecurrences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskRecurrenceUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many TaskRecurrences
+   * const taskRecurrence = await prisma.taskRecurrence.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends TaskRecurrenceUpdateManyArgs>(args: Prisma.SelectSubset<T, TaskRecurrenceUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more TaskRecurrences and returns the data updated in the database.
+   * @param {TaskRecurrenceUpdateManyAndReturnArgs} args - Arguments to update many TaskRecurrences.
+   * @example
+   * // Update many TaskRecurrences
+   * const taskRecurrence = await prisma.taskRecurrence.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more TaskRecurrences and only return the `id`
+   * const taskRecurrenceWithIdOnly = await prisma.taskRecurrence.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends TaskRecurrenceUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, TaskRecurrenceUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one TaskRecurrence.
+   * @param {TaskRecurrenceUpsertArgs} args - Arguments to update or create a TaskRecurrence.
+   * @example
+   * // Update or create a TaskRecurrence
+   * const taskRecurrence = await prisma.taskRecurrence.upsert({
+   *   create: {
+   *     // ... data to create a TaskRecurrence
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the TaskRecurrence we want to update
+   *   }
+   * })
+   */
+  upsert<T extends TaskRecurrenceUpsertArgs>(args: Prisma.SelectSubset<T, TaskRecurrenceUpsertArgs<ExtArgs>>): Prisma.Prisma__TaskRecurrenceClient<runtime.Types.Result.GetResult<Prisma.$TaskRecurrencePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of TaskRecurrences.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskRecurrenceCountArgs} args - Arguments to filter TaskRecurrences to count.
+   * @example
+   * // Count the number of TaskRecurrences
+   * const count = await prisma.taskRecurrence.count({
+   *   where: {
+   *     // ... the filter for the TaskRecurrences we want to count
+   *   }
+   * })
+  **/
+  count<T extends TaskRecurrenceCountArgs>(
+    args?: Prisma.Subset<T, TaskRecurrenceCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], TaskRecurrenceCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a TaskRecurrence.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskRecurrenceAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends TaskRecurrenceAggregateArgs>(args: Prisma.Subset<T, TaskRecurrenceAggregateArgs>): Prisma.PrismaPromise<GetTaskRecurrenceAggregateType<T>>
+
+  /**
+   * Group by TaskRecurrence.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {TaskRecurrenceGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends TaskRecurrenceGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: TaskRecurrenceGroupByArgs['orderBy'] }
+      : { orderBy?: TaskRecurrenceGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, TaskRecurrenceGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetTaskRecurrenceGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the TaskRecurrence model
+ */
+readonly fields: TaskRecurrenceFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for TaskRecurrence.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__TaskRecurrenceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  tasks<T extends Prisma.TaskRecurrence$tasksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.TaskRecurrence$tasksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the TaskRecurrence model
+ */
+export interface TaskRecurrenceFieldRefs {
+  readonly id: Prisma.FieldRef<"TaskRecurrence", 'Int'>
+  readonly frequency: Prisma.FieldRef<"TaskRecurrence", 'RecurrenceFrequency'>
+  readonly interval: Prisma.FieldRef<"TaskRecurrence", 'Int'>
+  readonly byWeekday: Prisma.FieldRef<"TaskRecurrence", 'Int[]'>
+  readonly byMonthDay: Prisma.FieldRef<"TaskRecurrence", 'Int'>
+  readonly bySetPos: Prisma.FieldRef<"TaskRecurrence", 'Int'>
+  readonly untilDate: Prisma.FieldRef<"TaskRecurrence", 'DateTime'>
+  readonly count: Prisma.FieldRef<"TaskRecurrence", 'Int'>
+  readonly title: Prisma.FieldRef<"TaskRecurrence", 'String'>
+  readonly description: Prisma.FieldRef<"TaskRecurrence", 'String'>
+  readonly location: Prisma.FieldRef<"TaskRecurrence", 'String'>
+  readonly priority: Prisma.FieldRef<"TaskRecurrence", 'Int'>
+  readonly allDay: Prisma.FieldRef<"TaskRecurrence", 'Boolean'>
+  readonly dueTime: Prisma.FieldRef<"TaskRecurrence", 'String'>
+  readonly timeZone: Prisma.FieldRef<"TaskRecurrence", 'String'>
+  readonly createdAt: Prisma.FieldRef<"TaskRecurrence", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"TaskRecurrence", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * TaskRecurrence findUnique
+ */
+export type TaskRecurrenceFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskRecurrence to fetch.
+   */
+  where: Prisma.TaskRecurrenceWhereUniqueInput
+}
+
+/**
+ * TaskRecurrence findUniqueOrThrow
+ */
+export type TaskRecurrenceFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskRecurrence to fetch.
+   */
+  where: Prisma.TaskRecurrenceWhereUniqueInput
+}
+
+/**
+ * TaskRecurrence findFirst
+ */
+export type TaskRecurrenceFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskRecurrence to fetch.
+   */
+  where?: Prisma.TaskRecurrenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskRecurrences to fetch.
+   */
+  orderBy?: Prisma.TaskRecurrenceOrderByWithRelationInput | Prisma.TaskRecurrenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskRecurrences.
+   */
+  cursor?: Prisma.TaskRecurrenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskRecurrences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskRecurrences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskRecurrences.
+   */
+  distinct?: Prisma.TaskRecurrenceScalarFieldEnum | Prisma.TaskRecurrenceScalarFieldEnum[]
+}
+
+/**
+ * TaskRecurrence findFirstOrThrow
+ */
+export type TaskRecurrenceFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskRecurrence to fetch.
+   */
+  where?: Prisma.TaskRecurrenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskRecurrences to fetch.
+   */
+  orderBy?: Prisma.TaskRecurrenceOrderByWithRelationInput | Prisma.TaskRecurrenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for TaskRecurrences.
+   */
+  cursor?: Prisma.TaskRecurrenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskRecurrences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskRecurrences.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of TaskRecurrences.
+   */
+  distinct?: Prisma.TaskRecurrenceScalarFieldEnum | Prisma.TaskRecurrenceScalarFieldEnum[]
+}
+
+/**
+ * TaskRecurrence findMany
+ */
+export type TaskRecurrenceFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * Filter, which TaskRecurrences to fetch.
+   */
+  where?: Prisma.TaskRecurrenceWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of TaskRecurrences to fetch.
+   */
+  orderBy?: Prisma.TaskRecurrenceOrderByWithRelationInput | Prisma.TaskRecurrenceOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing TaskRecurrences.
+   */
+  cursor?: Prisma.TaskRecurrenceWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` TaskRecurrences from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` TaskRecurrences.
+   */
+  skip?: number
+  distinct?: Prisma.TaskRecurrenceScalarFieldEnum | Prisma.TaskRecurrenceScalarFieldEnum[]
+}
+
+/**
+ * TaskRecurrence create
+ */
+export type TaskRecurrenceCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * The data needed to create a TaskRecurrence.
+   */
+  data: Prisma.XOR<Prisma.TaskRecurrenceCreateInput, Prisma.TaskRecurrenceUncheckedCreateInput>
+}
+
+/**
+ * TaskRecurrence createMany
+ */
+export type TaskRecurrenceCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many TaskRecurrences.
+   */
+  data: Prisma.TaskRecurrenceCreateManyInput | Prisma.TaskRecurrenceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaskRecurrence createManyAndReturn
+ */
+export type TaskRecurrenceCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * The data used to create many TaskRecurrences.
+   */
+  data: Prisma.TaskRecurrenceCreateManyInput | Prisma.TaskRecurrenceCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * TaskRecurrence update
+ */
+export type TaskRecurrenceUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * The data needed to update a TaskRecurrence.
+   */
+  data: Prisma.XOR<Prisma.TaskRecurrenceUpdateInput, Prisma.TaskRecurrenceUncheckedUpdateInput>
+  /**
+   * Choose, which TaskRecurrence to update.
+   */
+  where: Prisma.TaskRecurrenceWhereUniqueInput
+}
+
+/**
+ * TaskRecurrence updateMany
+ */
+export type TaskRecurrenceUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update TaskRecurrences.
+   */
+  data: Prisma.XOR<Prisma.TaskRecurrenceUpdateManyMutationInput, Prisma.TaskRecurrenceUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskRecurrences to update
+   */
+  where?: Prisma.TaskRecurrenceWhereInput
+  /**
+   * Limit how many TaskRecurrences to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaskRecurrence updateManyAndReturn
+ */
+export type TaskRecurrenceUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * The data used to update TaskRecurrences.
+   */
+  data: Prisma.XOR<Prisma.TaskRecurrenceUpdateManyMutationInput, Prisma.TaskRecurrenceUncheckedUpdateManyInput>
+  /**
+   * Filter which TaskRecurrences to update
+   */
+  where?: Prisma.TaskRecurrenceWhereInput
+  /**
+   * Limit how many TaskRecurrences to update.
+   */
+  limit?: number
+}
+
+/**
+ * TaskRecurrence upsert
+ */
+export type TaskRecurrenceUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * The filter to search for the TaskRecurrence to update in case it exists.
+   */
+  where: Prisma.TaskRecurrenceWhereUniqueInput
+  /**
+   * In case the TaskRecurrence found by the `where` argument doesn't exist, create a new TaskRecurrence with this data.
+   */
+  create: Prisma.XOR<Prisma.TaskRecurrenceCreateInput, Prisma.TaskRecurrenceUncheckedCreateInput>
+  /**
+   * In case the TaskRecurrence was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.TaskRecurrenceUpdateInput, Prisma.TaskRecurrenceUncheckedUpdateInput>
+}
+
+/**
+ * TaskRecurrence delete
+ */
+export type TaskRecurrenceDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+  /**
+   * Filter which TaskRecurrence to delete.
+   */
+  where: Prisma.TaskRecurrenceWhereUniqueInput
+}
+
+/**
+ * TaskRecurrence deleteMany
+ */
+export type TaskRecurrenceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which TaskRecurrences to delete
+   */
+  where?: Prisma.TaskRecurrenceWhereInput
+  /**
+   * Limit how many TaskRecurrences to delete.
+   */
+  limit?: number
+}
+
+/**
+ * TaskRecurrence.tasks
+ */
+export type TaskRecurrence$tasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Task
+   */
+  select?: Prisma.TaskSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Task
+   */
+  omit?: Prisma.TaskOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskInclude<ExtArgs> | null
+  where?: Prisma.TaskWhereInput
+  orderBy?: Prisma.TaskOrderByWithRelationInput | Prisma.TaskOrderByWithRelationInput[]
+  cursor?: Prisma.TaskWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskScalarFieldEnum | Prisma.TaskScalarFieldEnum[]
+}
+
+/**
+ * TaskRecurrence without action
+ */
+export type TaskRecurrenceDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskRecurrence
+   */
+  select?: Prisma.TaskRecurrenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskRecurrence
+   */
+  omit?: Prisma.TaskRecurrenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskRecurrenceInclude<ExtArgs> | null
+}
@@ -28,10 +28,18 @@ export type AggregateUser = {
 
 export type UserAvgAggregateOutputType = {
   id: number | null
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+  reminderOffsets: number | null
+  dailyDigestHour: number | null
 }
 
 export type UserSumAggregateOutputType = {
   id: number | null
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+  reminderOffsets: number[]
+  dailyDigestHour: number | null
 }
 
 export type UserMinAggregateOutputType = {
@@ -40,6 +48,10 @@ export type UserMinAggregateOutputType = {
   email: string | null
   timeZone: string | null
   hash: string | null
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+  dailyDigestHour: number | null
+  lastDigestOn: Date | null
 }
 
 export type UserMaxAggregateOutputType = {
@@ -48,6 +60,10 @@ export type UserMaxAggregateOutputType = {
   email: string | null
   timeZone: string | null
   hash: string | null
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+  dailyDigestHour: number | null
+  lastDigestOn: Date | null
 }
 
 export type UserCountAggregateOutputType = {
@@ -56,16 +72,29 @@ export type UserCountAggregateOutputType = {
   email: number
   timeZone: number
   hash: number
+  quietHoursStart: number
+  quietHoursEnd: number
+  reminderOffsets: number
+  dailyDigestHour: number
+  lastDigestOn: number
   _all: number
 }
 
 
 export type UserAvgAggregateInputType = {
   id?: true
+  quietHoursStart?: true
+  quietHoursEnd?: true
+  reminderOffsets?: true
+  dailyDigestHour?: true
 }
 
 export type UserSumAggregateInputType = {
   id?: true
+  quietHoursStart?: true
+  quietHoursEnd?: true
+  reminderOffsets?: true
+  dailyDigestHour?: true
 }
 
 export type UserMinAggregateInputType = {
@@ -74,6 +103,10 @@ export type UserMinAggregateInputType = {
   email?: true
   timeZone?: true
   hash?: true
+  quietHoursStart?: true
+  quietHoursEnd?: true
+  dailyDigestHour?: true
+  lastDigestOn?: true
 }
 
 export type UserMaxAggregateInputType = {
@@ -82,6 +115,10 @@ export type UserMaxAggregateInputType = {
   email?: true
   timeZone?: true
   hash?: true
+  quietHoursStart?: true
+  quietHoursEnd?: true
+  dailyDigestHour?: true
+  lastDigestOn?: true
 }
 
 export type UserCountAggregateInputType = {
@@ -90,6 +127,11 @@ export type UserCountAggregateInputType = {
   email?: true
   timeZone?: true
   hash?: true
+  quietHoursStart?: true
+  quietHoursEnd?: true
+  reminderOffsets?: true
+  dailyDigestHour?: true
+  lastDigestOn?: true
   _all?: true
 }
 
@@ -185,6 +227,11 @@ export type UserGroupByOutputType = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart: number | null
+  quietHoursEnd: number | null
+  reminderOffsets: number[]
+  dailyDigestHour: number | null
+  lastDigestOn: Date | null
   _count: UserCountAggregateOutputType | null
   _avg: UserAvgAggregateOutputType | null
   _sum: UserSumAggregateOutputType | null
@@ -216,6 +263,11 @@ export type UserWhereInput = {
   email?: Prisma.StringFilter<"User"> | string
   timeZone?: Prisma.StringFilter<"User"> | string
   hash?: Prisma.StringFilter<"User"> | string
+  quietHoursStart?: Prisma.IntNullableFilter<"User"> | number | null
+  quietHoursEnd?: Prisma.IntNullableFilter<"User"> | number | null
+  reminderOffsets?: Prisma.IntNullableListFilter<"User">
+  dailyDigestHour?: Prisma.IntNullableFilter<"User"> | number | null
+  lastDigestOn?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   actionTokens?: Prisma.ActionTokenListRelationFilter
   issuedTokens?: Prisma.ActionTokenListRelationFilter
   Task?: Prisma.TaskListRelationFilter
@@ -225,6 +277,22 @@ export type UserWhereInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeListRelationFilter
   closedTasks?: Prisma.TaskListRelationFilter
   closedSubTasks?: Prisma.SubTaskListRelationFilter
+  taskDependencies?: Prisma.TaskDependencyListRelationFilter
+  taskComments?: Prisma.TaskCommentListRelationFilter
+  deletedTaskComments?: Prisma.TaskCommentListRelationFilter
+  taskCommentRevisions?: Prisma.TaskCommentRevisionListRelationFilter
+  taskMentions?: Prisma.TaskMentionListRelationFilter
+  sentTaskMentions?: Prisma.TaskMentionListRelationFilter
+  taskActivities?: Prisma.TaskActivityListRelationFilter
+  targetedActivities?: Prisma.TaskActivityListRelationFilter
+  personalLabels?: Prisma.LabelListRelationFilter
+  calendarFeeds?: Prisma.CalendarFeedListRelationFilter
+  accessTokens?: Prisma.PersonalAccessTokenListRelationFilter
+  loginSessions?: Prisma.LoginSessionListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
+  sentNotifications?: Prisma.NotificationListRelationFilter
+  requestedMails?: Prisma.MailOutboxListRelationFilter
+  notificationPrefs?: Prisma.NotificationPreferenceListRelationFilter
   Group?: Prisma.GroupListRelationFilter
   GroupMember?: Prisma.GroupMemberListRelationFilter
 }
@@ -235,6 +303,11 @@ export type UserOrderByWithRelationInput = {
   email?: Prisma.SortOrder
   timeZone?: Prisma.SortOrder
   hash?: Prisma.SortOrder
+  quietHoursStart?: Prisma.SortOrderInput | Prisma.SortOrder
+  quietHoursEnd?: Prisma.SortOrderInput | Prisma.SortOrder
+  reminderOffsets?: Prisma.SortOrder
+  dailyDigestHour?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastDigestOn?: Prisma.SortOrderInput | Prisma.SortOrder
   actionTokens?: Prisma.ActionTokenOrderByRelationAggregateInput
   issuedTokens?: Prisma.ActionTokenOrderByRelationAggregateInput
   Task?: Prisma.TaskOrderByRelationAggregateInput
@@ -244,6 +317,22 @@ export type UserOrderByWithRelationInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeOrderByRelationAggregateInput
   closedTasks?: Prisma.TaskOrderByRelationAggregateInput
   closedSubTasks?: Prisma.SubTaskOrderByRelationAggregateInput
+  taskDependencies?: Prisma.TaskDependencyOrderByRelationAggregateInput
+  taskComments?: Prisma.TaskCommentOrderByRelationAggregateInput
+  deletedTaskComments?: Prisma.TaskCommentOrderByRelationAggregateInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionOrderByRelationAggregateInput
+  taskMentions?: Prisma.TaskMentionOrderByRelationAggregateInput
+  sentTaskMentions?: Prisma.TaskMentionOrderByRelationAggregateInput
+  taskActivities?: Prisma.TaskActivityOrderByRelationAggregateInput
+  targetedActivities?: Prisma.TaskActivityOrderByRelationAggregateInput
+  personalLabels?: Prisma.LabelOrderByRelationAggregateInput
+  calendarFeeds?: Prisma.CalendarFeedOrderByRelationAggregateInput
+  accessTokens?: Prisma.PersonalAccessTokenOrderByRelationAggregateInput
+  loginSessions?: Prisma.LoginSessionOrderByRelationAggregateInput
+  notifications?: Prisma.NotificationOrderByRelationAggregateInput
+  sentNotifications?: Prisma.NotificationOrderByRelationAggregateInput
+  requestedMails?: Prisma.MailOutboxOrderByRelationAggregateInput
+  notificationPrefs?: Prisma.NotificationPreferenceOrderByRelationAggregateInput
   Group?: Prisma.GroupOrderByRelationAggregateInput
   GroupMember?: Prisma.GroupMemberOrderByRelationAggregateInput
 }
@@ -257,6 +346,11 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   name?: Prisma.StringFilter<"User"> | string
   timeZone?: Prisma.StringFilter<"User"> | string
   hash?: Prisma.StringFilter<"User"> | string
+  quietHoursStart?: Prisma.IntNullableFilter<"User"> | number | null
+  quietHoursEnd?: Prisma.IntNullableFilter<"User"> | number | null
+  reminderOffsets?: Prisma.IntNullableListFilter<"User">
+  dailyDigestHour?: Prisma.IntNullableFilter<"User"> | number | null
+  lastDigestOn?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   actionTokens?: Prisma.ActionTokenListRelationFilter
   issuedTokens?: Prisma.ActionTokenListRelationFilter
   Task?: Prisma.TaskListRelationFilter
@@ -266,6 +360,22 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   delegatedSubTasks?: Prisma.SubTaskAssigneeListRelationFilter
   closedTasks?: Prisma.TaskListRelationFilter
   closedSubTasks?: Prisma.SubTaskListRelationFilter
+  taskDependencies?: Prisma.TaskDependencyListRelationFilter
+  taskComments?: Prisma.TaskCommentListRelationFilter
+  deletedTaskComments?: Prisma.TaskCommentListRelationFilter
+  taskCommentRevisions?: Prisma.TaskCommentRevisionListRelationFilter
+  taskMentions?: Prisma.TaskMentionListRelationFilter
+  sentTaskMentions?: Prisma.TaskMentionListRelationFilter
+  taskActivities?: Prisma.TaskActivityListRelationFilter
+  targetedActivities?: Prisma.TaskActivityListRelationFilter
+  personalLabels?: Prisma.LabelListRelationFilter
+  calendarFeeds?: Prisma.CalendarFeedListRelationFilter
+  accessTokens?: Prisma.PersonalAccessTokenListRelationFilter
+  loginSessions?: Prisma.LoginSessionListRelationFilter
+  notifications?: Prisma.NotificationListRelationFilter
+  sentNotifications?: Prisma.NotificationListRelationFilter
+  requestedMails?: Prisma.MailOutboxListRelationFilter
+  notificationPrefs?: Prisma.NotificationPreferenceListRelationFilter
   Group?: Prisma.GroupListRelationFilter
   GroupMember?: Prisma.GroupMemberListRelationFilter
 }, "id" | "email">
@@ -276,6 +386,11 @@ export type UserOrderByWithAggregationInput = {
   email?: Prisma.SortOrder
   timeZone?: Prisma.SortOrder
   hash?: Prisma.SortOrder
+  quietHoursStart?: Prisma.SortOrderInput | Prisma.SortOrder
+  quietHoursEnd?: Prisma.SortOrderInput | Prisma.SortOrder
+  reminderOffsets?: Prisma.SortOrder
+  dailyDigestHour?: Prisma.SortOrderInput | Prisma.SortOrder
+  lastDigestOn?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.UserCountOrderByAggregateInput
   _avg?: Prisma.UserAvgOrderByAggregateInput
   _max?: Prisma.UserMaxOrderByAggregateInput
@@ -292,6 +407,11 @@ export type UserScalarWhereWithAggregatesInput = {
   email?: Prisma.StringWithAggregatesFilter<"User"> | string
   timeZone?: Prisma.StringWithAggregatesFilter<"User"> | string
   hash?: Prisma.StringWithAggregatesFilter<"User"> | string
+  quietHoursStart?: Prisma.IntNullableWithAggregatesFilter<"User"> | number | null
+  quietHoursEnd?: Prisma.IntNullableWithAggregatesFilter<"User"> | number | null
+  reminderOffsets?: Prisma.IntNullableListFilter<"User">
+  dailyDigestHour?: Prisma.IntNullableWithAggregatesFilter<"User"> | number | null
+  lastDigestOn?: Prisma.DateTimeNullableWithAggregatesFilter<"User"> | Date | string | null
 }
 
 export type UserCreateInput = {
@@ -299,6 +419,11 @@ export type UserCreateInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -308,6 +433,22 @@ export type UserCreateInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
@@ -318,6 +459,11 @@ export type UserUncheckedCreateInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -327,6 +473,22 @@ export type UserUncheckedCreateInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
@@ -336,6 +498,11 @@ export type UserUpdateInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -345,6 +512,22 @@ export type UserUpdateInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
@@ -355,6 +538,11 @@ export type UserUncheckedUpdateInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
@@ -364,6 +552,22 @@ export type UserUncheckedUpdateInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
@@ -374,6 +578,11 @@ export type UserCreateManyInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
 }
 
 export type UserUpdateManyMutationInput = {
@@ -381,6 +590,11 @@ export type UserUpdateManyMutationInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type UserUncheckedUpdateManyInput = {
@@ -389,6 +603,11 @@ export type UserUncheckedUpdateManyInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
 }
 
 export type UserNullableScalarRelationFilter = {
@@ -407,10 +626,19 @@ export type UserCountOrderByAggregateInput = {
   email?: Prisma.SortOrder
   timeZone?: Prisma.SortOrder
   hash?: Prisma.SortOrder
+  quietHoursStart?: Prisma.SortOrder
+  quietHoursEnd?: Prisma.SortOrder
+  reminderOffsets?: Prisma.SortOrder
+  dailyDigestHour?: Prisma.SortOrder
+  lastDigestOn?: Prisma.SortOrder
 }
 
 export type UserAvgOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  quietHoursStart?: Prisma.SortOrder
+  quietHoursEnd?: Prisma.SortOrder
+  reminderOffsets?: Prisma.SortOrder
+  dailyDigestHour?: Prisma.SortOrder
 }
 
 export type UserMaxOrderByAggregateInput = {
@@ -419,6 +647,10 @@ export type UserMaxOrderByAggregateInput = {
   email?: Prisma.SortOrder
   timeZone?: Prisma.SortOrder
   hash?: Prisma.SortOrder
+  quietHoursStart?: Prisma.SortOrder
+  quietHoursEnd?: Prisma.SortOrder
+  dailyDigestHour?: Prisma.SortOrder
+  lastDigestOn?: Prisma.SortOrder
 }
 
 export type UserMinOrderByAggregateInput = {
@@ -427,10 +659,18 @@ export type UserMinOrderByAggregateInput = {
   email?: Prisma.SortOrder
   timeZone?: Prisma.SortOrder
   hash?: Prisma.SortOrder
+  quietHoursStart?: Prisma.SortOrder
+  quietHoursEnd?: Prisma.SortOrder
+  dailyDigestHour?: Prisma.SortOrder
+  lastDigestOn?: Prisma.SortOrder
 }
 
 export type UserSumOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  quietHoursStart?: Prisma.SortOrder
+  quietHoursEnd?: Prisma.SortOrder
+  reminderOffsets?: Prisma.SortOrder
+  dailyDigestHour?: Prisma.SortOrder
 }
 
 export type UserCreateNestedOneWithoutActionTokensInput = {
@@ -465,6 +705,48 @@ export type UserUpdateOneWithoutIssuedTokensNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutIssuedTokensInput, Prisma.UserUpdateWithoutIssuedTokensInput>, Prisma.UserUncheckedUpdateWithoutIssuedTokensInput>
 }
 
+export type UserCreateNestedOneWithoutCalendarFeedsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCalendarFeedsInput, Prisma.UserUncheckedCreateWithoutCalendarFeedsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCalendarFeedsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutCalendarFeedsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutCalendarFeedsInput, Prisma.UserUncheckedCreateWithoutCalendarFeedsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCalendarFeedsInput
+  upsert?: Prisma.UserUpsertWithoutCalendarFeedsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutCalendarFeedsInput, Prisma.UserUpdateWithoutCalendarFeedsInput>, Prisma.UserUncheckedUpdateWithoutCalendarFeedsInput>
+}
+
+export type UserCreateNestedOneWithoutAccessTokensInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutAccessTokensInput, Prisma.UserUncheckedCreateWithoutAccessTokensInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutAccessTokensInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutAccessTokensNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutAccessTokensInput, Prisma.UserUncheckedCreateWithoutAccessTokensInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutAccessTokensInput
+  upsert?: Prisma.UserUpsertWithoutAccessTokensInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutAccessTokensInput, Prisma.UserUpdateWithoutAccessTokensInput>, Prisma.UserUncheckedUpdateWithoutAccessTokensInput>
+}
+
+export type UserCreateNestedOneWithoutLoginSessionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutLoginSessionsInput, Prisma.UserUncheckedCreateWithoutLoginSessionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutLoginSessionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutLoginSessionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutLoginSessionsInput, Prisma.UserUncheckedCreateWithoutLoginSessionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutLoginSessionsInput
+  upsert?: Prisma.UserUpsertWithoutLoginSessionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutLoginSessionsInput, Prisma.UserUpdateWithoutLoginSessionsInput>, Prisma.UserUncheckedUpdateWithoutLoginSessionsInput>
+}
+
 export type UserCreateNestedOneWithoutGroupInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutGroupInput, Prisma.UserUncheckedCreateWithoutGroupInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutGroupInput
@@ -493,6 +775,66 @@ export type UserUpdateOneRequiredWithoutGroupMemberNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutGroupMemberInput, Prisma.UserUpdateWithoutGroupMemberInput>, Prisma.UserUncheckedUpdateWithoutGroupMemberInput>
 }
 
+export type UserCreateNestedOneWithoutRequestedMailsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutRequestedMailsInput, Prisma.UserUncheckedCreateWithoutRequestedMailsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRequestedMailsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutRequestedMailsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutRequestedMailsInput, Prisma.UserUncheckedCreateWithoutRequestedMailsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRequestedMailsInput
+  upsert?: Prisma.UserUpsertWithoutRequestedMailsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutRequestedMailsInput, Prisma.UserUpdateWithoutRequestedMailsInput>, Prisma.UserUncheckedUpdateWithoutRequestedMailsInput>
+}
+
+export type UserCreateNestedOneWithoutNotificationsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutNotificationsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutSentNotificationsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSentNotificationsInput, Prisma.UserUncheckedCreateWithoutSentNotificationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSentNotificationsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutNotificationsInput
+  upsert?: Prisma.UserUpsertWithoutNotificationsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutNotificationsInput, Prisma.UserUpdateWithoutNotificationsInput>, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type UserUpdateOneWithoutSentNotificationsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSentNotificationsInput, Prisma.UserUncheckedCreateWithoutSentNotificationsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSentNotificationsInput
+  upsert?: Prisma.UserUpsertWithoutSentNotificationsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSentNotificationsInput, Prisma.UserUpdateWithoutSentNotificationsInput>, Prisma.UserUncheckedUpdateWithoutSentNotificationsInput>
+}
+
+export type UserCreateNestedOneWithoutNotificationPrefsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutNotificationPrefsInput, Prisma.UserUncheckedCreateWithoutNotificationPrefsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutNotificationPrefsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutNotificationPrefsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutNotificationPrefsInput, Prisma.UserUncheckedCreateWithoutNotificationPrefsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutNotificationPrefsInput
+  upsert?: Prisma.UserUpsertWithoutNotificationPrefsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutNotificationPrefsInput, Prisma.UserUpdateWithoutNotificationPrefsInput>, Prisma.UserUncheckedUpdateWithoutNotificationPrefsInput>
+}
+
 export type UserCreateNestedOneWithoutTaskInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutTaskInput, Prisma.UserUncheckedCreateWithoutTaskInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskInput
@@ -523,6 +865,132 @@ export type UserUpdateOneWithoutClosedTasksNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutClosedTasksInput, Prisma.UserUpdateWithoutClosedTasksInput>, Prisma.UserUncheckedUpdateWithoutClosedTasksInput>
 }
 
+export type UserCreateNestedOneWithoutTaskDependenciesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskDependenciesInput, Prisma.UserUncheckedCreateWithoutTaskDependenciesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskDependenciesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutTaskDependenciesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskDependenciesInput, Prisma.UserUncheckedCreateWithoutTaskDependenciesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskDependenciesInput
+  upsert?: Prisma.UserUpsertWithoutTaskDependenciesInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTaskDependenciesInput, Prisma.UserUpdateWithoutTaskDependenciesInput>, Prisma.UserUncheckedUpdateWithoutTaskDependenciesInput>
+}
+
+export type UserCreateNestedOneWithoutTaskCommentsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskCommentsInput, Prisma.UserUncheckedCreateWithoutTaskCommentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskCommentsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutDeletedTaskCommentsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutDeletedTaskCommentsInput, Prisma.UserUncheckedCreateWithoutDeletedTaskCommentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutDeletedTaskCommentsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutTaskCommentsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskCommentsInput, Prisma.UserUncheckedCreateWithoutTaskCommentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskCommentsInput
+  upsert?: Prisma.UserUpsertWithoutTaskCommentsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTaskCommentsInput, Prisma.UserUpdateWithoutTaskCommentsInput>, Prisma.UserUncheckedUpdateWithoutTaskCommentsInput>
+}
+
+export type UserUpdateOneWithoutDeletedTaskCommentsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutDeletedTaskCommentsInput, Prisma.UserUncheckedCreateWithoutDeletedTaskCommentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutDeletedTaskCommentsInput
+  upsert?: Prisma.UserUpsertWithoutDeletedTaskCommentsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutDeletedTaskCommentsInput, Prisma.UserUpdateWithoutDeletedTaskCommentsInput>, Prisma.UserUncheckedUpdateWithoutDeletedTaskCommentsInput>
+}
+
+export type UserCreateNestedOneWithoutTaskCommentRevisionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskCommentRevisionsInput, Prisma.UserUncheckedCreateWithoutTaskCommentRevisionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskCommentRevisionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutTaskCommentRevisionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskCommentRevisionsInput, Prisma.UserUncheckedCreateWithoutTaskCommentRevisionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskCommentRevisionsInput
+  upsert?: Prisma.UserUpsertWithoutTaskCommentRevisionsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTaskCommentRevisionsInput, Prisma.UserUpdateWithoutTaskCommentRevisionsInput>, Prisma.UserUncheckedUpdateWithoutTaskCommentRevisionsInput>
+}
+
+export type UserCreateNestedOneWithoutTaskMentionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskMentionsInput, Prisma.UserUncheckedCreateWithoutTaskMentionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskMentionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutSentTaskMentionsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSentTaskMentionsInput, Prisma.UserUncheckedCreateWithoutSentTaskMentionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSentTaskMentionsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutTaskMentionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskMentionsInput, Prisma.UserUncheckedCreateWithoutTaskMentionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskMentionsInput
+  upsert?: Prisma.UserUpsertWithoutTaskMentionsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTaskMentionsInput, Prisma.UserUpdateWithoutTaskMentionsInput>, Prisma.UserUncheckedUpdateWithoutTaskMentionsInput>
+}
+
+export type UserUpdateOneWithoutSentTaskMentionsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutSentTaskMentionsInput, Prisma.UserUncheckedCreateWithoutSentTaskMentionsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSentTaskMentionsInput
+  upsert?: Prisma.UserUpsertWithoutSentTaskMentionsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutSentTaskMentionsInput, Prisma.UserUpdateWithoutSentTaskMentionsInput>, Prisma.UserUncheckedUpdateWithoutSentTaskMentionsInput>
+}
+
+export type UserCreateNestedOneWithoutTaskActivitiesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskActivitiesInput, Prisma.UserUncheckedCreateWithoutTaskActivitiesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskActivitiesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserCreateNestedOneWithoutTargetedActivitiesInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTargetedActivitiesInput, Prisma.UserUncheckedCreateWithoutTargetedActivitiesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTargetedActivitiesInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutTaskActivitiesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTaskActivitiesInput, Prisma.UserUncheckedCreateWithoutTaskActivitiesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTaskActivitiesInput
+  upsert?: Prisma.UserUpsertWithoutTaskActivitiesInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTaskActivitiesInput, Prisma.UserUpdateWithoutTaskActivitiesInput>, Prisma.UserUncheckedUpdateWithoutTaskActivitiesInput>
+}
+
+export type UserUpdateOneWithoutTargetedActivitiesNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutTargetedActivitiesInput, Prisma.UserUncheckedCreateWithoutTargetedActivitiesInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutTargetedActivitiesInput
+  upsert?: Prisma.UserUpsertWithoutTargetedActivitiesInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutTargetedActivitiesInput, Prisma.UserUpdateWithoutTargetedActivitiesInput>, Prisma.UserUncheckedUpdateWithoutTargetedActivitiesInput>
+}
+
 export type UserCreateNestedOneWithoutAssignedTasksInput = {
   create?: Prisma.XOR<Prisma.UserCreateWithoutAssignedTasksInput, Prisma.UserUncheckedCreateWithoutAssignedTasksInput>
   connectOrCreate?: Prisma.UserCreateOrConnectWithoutAssignedTasksInput
@@ -597,11 +1065,41 @@ export type UserUpdateOneWithoutDelegatedSubTasksNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutDelegatedSubTasksInput, Prisma.UserUpdateWithoutDelegatedSubTasksInput>, Prisma.UserUncheckedUpdateWithoutDelegatedSubTasksInput>
 }
 
+export type UserCreateNestedOneWithoutPersonalLabelsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPersonalLabelsInput, Prisma.UserUncheckedCreateWithoutPersonalLabelsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPersonalLabelsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutPersonalLabelsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutPersonalLabelsInput, Prisma.UserUncheckedCreateWithoutPersonalLabelsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutPersonalLabelsInput
+  upsert?: Prisma.UserUpsertWithoutPersonalLabelsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutPersonalLabelsInput, Prisma.UserUpdateWithoutPersonalLabelsInput>, Prisma.UserUncheckedUpdateWithoutPersonalLabelsInput>
+}
+
+export type UserCreatereminderOffsetsInput = {
+  set: number[]
+}
+
+export type UserUpdatereminderOffsetsInput = {
+  set?: number[]
+  push?: number | number[]
+}
+
 export type UserCreateWithoutActionTokensInput = {
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
   assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
@@ -610,6 +1108,22 @@ export type UserCreateWithoutActionTokensInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
@@ -620,6 +1134,11 @@ export type UserUncheckedCreateWithoutActionTokensInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
   assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
@@ -628,6 +1147,22 @@ export type UserUncheckedCreateWithoutActionTokensInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
@@ -642,6 +1177,11 @@ export type UserCreateWithoutIssuedTokensInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
   assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
@@ -650,6 +1190,22 @@ export type UserCreateWithoutIssuedTokensInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
@@ -660,6 +1216,11 @@ export type UserUncheckedCreateWithoutIssuedTokensInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
   assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
@@ -668,6 +1229,22 @@ export type UserUncheckedCreateWithoutIssuedTokensInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
@@ -693,6 +1270,11 @@ export type UserUpdateWithoutActionTokensInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
   assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
@@ -701,6 +1283,22 @@ export type UserUpdateWithoutActionTokensInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
@@ -711,6 +1309,11 @@ export type UserUncheckedUpdateWithoutActionTokensInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
   assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
@@ -719,6 +1322,22 @@ export type UserUncheckedUpdateWithoutActionTokensInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
@@ -739,6 +1358,11 @@ export type UserUpdateWithoutIssuedTokensInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
   assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
@@ -747,6 +1371,22 @@ export type UserUpdateWithoutIssuedTokensInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
@@ -757,6 +1397,11 @@ export type UserUncheckedUpdateWithoutIssuedTokensInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
   assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
@@ -765,15 +1410,36 @@ export type UserUncheckedUpdateWithoutIssuedTokensInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutGroupInput = {
+export type UserCreateWithoutCalendarFeedsInput = {
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -783,15 +1449,36 @@ export type UserCreateWithoutGroupInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutGroupInput = {
+export type UserUncheckedCreateWithoutCalendarFeedsInput = {
   id?: number
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -801,30 +1488,51 @@ export type UserUncheckedCreateWithoutGroupInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutGroupInput = {
+export type UserCreateOrConnectWithoutCalendarFeedsInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutGroupInput, Prisma.UserUncheckedCreateWithoutGroupInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCalendarFeedsInput, Prisma.UserUncheckedCreateWithoutCalendarFeedsInput>
 }
 
-export type UserUpsertWithoutGroupInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutGroupInput, Prisma.UserUncheckedUpdateWithoutGroupInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutGroupInput, Prisma.UserUncheckedCreateWithoutGroupInput>
+export type UserUpsertWithoutCalendarFeedsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutCalendarFeedsInput, Prisma.UserUncheckedUpdateWithoutCalendarFeedsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutCalendarFeedsInput, Prisma.UserUncheckedCreateWithoutCalendarFeedsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutGroupInput = {
+export type UserUpdateToOneWithWhereWithoutCalendarFeedsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutGroupInput, Prisma.UserUncheckedUpdateWithoutGroupInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutCalendarFeedsInput, Prisma.UserUncheckedUpdateWithoutCalendarFeedsInput>
 }
 
-export type UserUpdateWithoutGroupInput = {
+export type UserUpdateWithoutCalendarFeedsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -834,15 +1542,36 @@ export type UserUpdateWithoutGroupInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutGroupInput = {
+export type UserUncheckedUpdateWithoutCalendarFeedsInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
@@ -852,14 +1581,35 @@ export type UserUncheckedUpdateWithoutGroupInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutGroupMemberInput = {
+export type UserCreateWithoutAccessTokensInput = {
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -869,15 +1619,206 @@ export type UserCreateWithoutGroupMemberInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutGroupMemberInput = {
+export type UserUncheckedCreateWithoutAccessTokensInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutAccessTokensInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutAccessTokensInput, Prisma.UserUncheckedCreateWithoutAccessTokensInput>
+}
+
+export type UserUpsertWithoutAccessTokensInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutAccessTokensInput, Prisma.UserUncheckedUpdateWithoutAccessTokensInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutAccessTokensInput, Prisma.UserUncheckedCreateWithoutAccessTokensInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutAccessTokensInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutAccessTokensInput, Prisma.UserUncheckedUpdateWithoutAccessTokensInput>
+}
+
+export type UserUpdateWithoutAccessTokensInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutAccessTokensInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutLoginSessionsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutLoginSessionsInput = {
   id?: number
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -887,30 +1828,2431 @@ export type UserUncheckedCreateWithoutGroupMemberInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutLoginSessionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutLoginSessionsInput, Prisma.UserUncheckedCreateWithoutLoginSessionsInput>
+}
+
+export type UserUpsertWithoutLoginSessionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutLoginSessionsInput, Prisma.UserUncheckedUpdateWithoutLoginSessionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutLoginSessionsInput, Prisma.UserUncheckedCreateWithoutLoginSessionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutLoginSessionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutLoginSessionsInput, Prisma.UserUncheckedUpdateWithoutLoginSessionsInput>
+}
+
+export type UserUpdateWithoutLoginSessionsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutLoginSessionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutGroupInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutGroupInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutGroupInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutGroupInput, Prisma.UserUncheckedCreateWithoutGroupInput>
+}
+
+export type UserUpsertWithoutGroupInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutGroupInput, Prisma.UserUncheckedUpdateWithoutGroupInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutGroupInput, Prisma.UserUncheckedCreateWithoutGroupInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutGroupInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutGroupInput, Prisma.UserUncheckedUpdateWithoutGroupInput>
+}
+
+export type UserUpdateWithoutGroupInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutGroupInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutGroupMemberInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+}
+
+export type UserUncheckedCreateWithoutGroupMemberInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+}
+
+export type UserCreateOrConnectWithoutGroupMemberInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutGroupMemberInput, Prisma.UserUncheckedCreateWithoutGroupMemberInput>
+}
+
+export type UserUpsertWithoutGroupMemberInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutGroupMemberInput, Prisma.UserUncheckedUpdateWithoutGroupMemberInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutGroupMemberInput, Prisma.UserUncheckedCreateWithoutGroupMemberInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutGroupMemberInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutGroupMemberInput, Prisma.UserUncheckedUpdateWithoutGroupMemberInput>
+}
+
+export type UserUpdateWithoutGroupMemberInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+}
+
+export type UserUncheckedUpdateWithoutGroupMemberInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+}
+
+export type UserCreateWithoutRequestedMailsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutRequestedMailsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutRequestedMailsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutRequestedMailsInput, Prisma.UserUncheckedCreateWithoutRequestedMailsInput>
+}
+
+export type UserUpsertWithoutRequestedMailsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutRequestedMailsInput, Prisma.UserUncheckedUpdateWithoutRequestedMailsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutRequestedMailsInput, Prisma.UserUncheckedCreateWithoutRequestedMailsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutRequestedMailsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutRequestedMailsInput, Prisma.UserUncheckedUpdateWithoutRequestedMailsInput>
+}
+
+export type UserUpdateWithoutRequestedMailsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutRequestedMailsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutNotificationsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutNotificationsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutNotificationsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+}
+
+export type UserCreateWithoutSentNotificationsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutSentNotificationsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutSentNotificationsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSentNotificationsInput, Prisma.UserUncheckedCreateWithoutSentNotificationsInput>
+}
+
+export type UserUpsertWithoutNotificationsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationsInput, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationsInput, Prisma.UserUncheckedCreateWithoutNotificationsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutNotificationsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationsInput, Prisma.UserUncheckedUpdateWithoutNotificationsInput>
+}
+
+export type UserUpdateWithoutNotificationsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutNotificationsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserUpsertWithoutSentNotificationsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSentNotificationsInput, Prisma.UserUncheckedUpdateWithoutSentNotificationsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSentNotificationsInput, Prisma.UserUncheckedCreateWithoutSentNotificationsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutSentNotificationsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSentNotificationsInput, Prisma.UserUncheckedUpdateWithoutSentNotificationsInput>
+}
+
+export type UserUpdateWithoutSentNotificationsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutSentNotificationsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutNotificationPrefsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutNotificationPrefsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutNotificationPrefsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationPrefsInput, Prisma.UserUncheckedCreateWithoutNotificationPrefsInput>
+}
+
+export type UserUpsertWithoutNotificationPrefsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutNotificationPrefsInput, Prisma.UserUncheckedUpdateWithoutNotificationPrefsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutNotificationPrefsInput, Prisma.UserUncheckedCreateWithoutNotificationPrefsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutNotificationPrefsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutNotificationPrefsInput, Prisma.UserUncheckedUpdateWithoutNotificationPrefsInput>
+}
+
+export type UserUpdateWithoutNotificationPrefsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutNotificationPrefsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTaskInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTaskInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTaskInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskInput, Prisma.UserUncheckedCreateWithoutTaskInput>
+}
+
+export type UserCreateWithoutClosedTasksInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutClosedTasksInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutClosedTasksInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutClosedTasksInput, Prisma.UserUncheckedCreateWithoutClosedTasksInput>
+}
+
+export type UserUpsertWithoutTaskInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTaskInput, Prisma.UserUncheckedUpdateWithoutTaskInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskInput, Prisma.UserUncheckedCreateWithoutTaskInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTaskInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTaskInput, Prisma.UserUncheckedUpdateWithoutTaskInput>
+}
+
+export type UserUpdateWithoutTaskInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutTaskInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserUpsertWithoutClosedTasksInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutClosedTasksInput, Prisma.UserUncheckedUpdateWithoutClosedTasksInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutClosedTasksInput, Prisma.UserUncheckedCreateWithoutClosedTasksInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutClosedTasksInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutClosedTasksInput, Prisma.UserUncheckedUpdateWithoutClosedTasksInput>
+}
+
+export type UserUpdateWithoutClosedTasksInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutClosedTasksInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTaskDependenciesInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTaskDependenciesInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTaskDependenciesInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskDependenciesInput, Prisma.UserUncheckedCreateWithoutTaskDependenciesInput>
+}
+
+export type UserUpsertWithoutTaskDependenciesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTaskDependenciesInput, Prisma.UserUncheckedUpdateWithoutTaskDependenciesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskDependenciesInput, Prisma.UserUncheckedCreateWithoutTaskDependenciesInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTaskDependenciesInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTaskDependenciesInput, Prisma.UserUncheckedUpdateWithoutTaskDependenciesInput>
+}
+
+export type UserUpdateWithoutTaskDependenciesInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutTaskDependenciesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTaskCommentsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTaskCommentsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTaskCommentsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskCommentsInput, Prisma.UserUncheckedCreateWithoutTaskCommentsInput>
+}
+
+export type UserCreateWithoutDeletedTaskCommentsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutDeletedTaskCommentsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutDeletedTaskCommentsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutDeletedTaskCommentsInput, Prisma.UserUncheckedCreateWithoutDeletedTaskCommentsInput>
+}
+
+export type UserUpsertWithoutTaskCommentsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTaskCommentsInput, Prisma.UserUncheckedUpdateWithoutTaskCommentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskCommentsInput, Prisma.UserUncheckedCreateWithoutTaskCommentsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTaskCommentsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTaskCommentsInput, Prisma.UserUncheckedUpdateWithoutTaskCommentsInput>
+}
+
+export type UserUpdateWithoutTaskCommentsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutTaskCommentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserUpsertWithoutDeletedTaskCommentsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutDeletedTaskCommentsInput, Prisma.UserUncheckedUpdateWithoutDeletedTaskCommentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutDeletedTaskCommentsInput, Prisma.UserUncheckedCreateWithoutDeletedTaskCommentsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutDeletedTaskCommentsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutDeletedTaskCommentsInput, Prisma.UserUncheckedUpdateWithoutDeletedTaskCommentsInput>
+}
+
+export type UserUpdateWithoutDeletedTaskCommentsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutDeletedTaskCommentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTaskCommentRevisionsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTaskCommentRevisionsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTaskCommentRevisionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskCommentRevisionsInput, Prisma.UserUncheckedCreateWithoutTaskCommentRevisionsInput>
+}
+
+export type UserUpsertWithoutTaskCommentRevisionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTaskCommentRevisionsInput, Prisma.UserUncheckedUpdateWithoutTaskCommentRevisionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskCommentRevisionsInput, Prisma.UserUncheckedCreateWithoutTaskCommentRevisionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTaskCommentRevisionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTaskCommentRevisionsInput, Prisma.UserUncheckedUpdateWithoutTaskCommentRevisionsInput>
+}
+
+export type UserUpdateWithoutTaskCommentRevisionsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutTaskCommentRevisionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutTaskMentionsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutTaskMentionsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutTaskMentionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskMentionsInput, Prisma.UserUncheckedCreateWithoutTaskMentionsInput>
+}
+
+export type UserCreateWithoutSentTaskMentionsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutSentTaskMentionsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutSentTaskMentionsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutSentTaskMentionsInput, Prisma.UserUncheckedCreateWithoutSentTaskMentionsInput>
+}
+
+export type UserUpsertWithoutTaskMentionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTaskMentionsInput, Prisma.UserUncheckedUpdateWithoutTaskMentionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskMentionsInput, Prisma.UserUncheckedCreateWithoutTaskMentionsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutTaskMentionsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTaskMentionsInput, Prisma.UserUncheckedUpdateWithoutTaskMentionsInput>
 }
 
-export type UserCreateOrConnectWithoutGroupMemberInput = {
-  where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutGroupMemberInput, Prisma.UserUncheckedCreateWithoutGroupMemberInput>
+export type UserUpdateWithoutTaskMentionsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
 
-export type UserUpsertWithoutGroupMemberInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutGroupMemberInput, Prisma.UserUncheckedUpdateWithoutGroupMemberInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutGroupMemberInput, Prisma.UserUncheckedCreateWithoutGroupMemberInput>
+export type UserUncheckedUpdateWithoutTaskMentionsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserUpsertWithoutSentTaskMentionsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutSentTaskMentionsInput, Prisma.UserUncheckedUpdateWithoutSentTaskMentionsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutSentTaskMentionsInput, Prisma.UserUncheckedCreateWithoutSentTaskMentionsInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutGroupMemberInput = {
+export type UserUpdateToOneWithWhereWithoutSentTaskMentionsInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutGroupMemberInput, Prisma.UserUncheckedUpdateWithoutGroupMemberInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutSentTaskMentionsInput, Prisma.UserUncheckedUpdateWithoutSentTaskMentionsInput>
 }
 
-export type UserUpdateWithoutGroupMemberInput = {
+export type UserUpdateWithoutSentTaskMentionsInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -920,15 +4262,36 @@ export type UserUpdateWithoutGroupMemberInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutGroupMemberInput = {
+export type UserUncheckedUpdateWithoutSentTaskMentionsInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
@@ -938,54 +4301,117 @@ export type UserUncheckedUpdateWithoutGroupMemberInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserCreateWithoutTaskInput = {
+export type UserCreateWithoutTaskActivitiesInput = {
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
   assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
   assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
   delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutTaskInput = {
+export type UserUncheckedCreateWithoutTaskActivitiesInput = {
   id?: number
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
   assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
   assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
   delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutTaskInput = {
+export type UserCreateOrConnectWithoutTaskActivitiesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutTaskInput, Prisma.UserUncheckedCreateWithoutTaskInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskActivitiesInput, Prisma.UserUncheckedCreateWithoutTaskActivitiesInput>
 }
 
-export type UserCreateWithoutClosedTasksInput = {
+export type UserCreateWithoutTargetedActivitiesInput = {
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -993,17 +4419,38 @@ export type UserCreateWithoutClosedTasksInput = {
   assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
   delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
 
-export type UserUncheckedCreateWithoutClosedTasksInput = {
+export type UserUncheckedCreateWithoutTargetedActivitiesInput = {
   id?: number
   name: string
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -1011,78 +4458,141 @@ export type UserUncheckedCreateWithoutClosedTasksInput = {
   assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
   delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
 
-export type UserCreateOrConnectWithoutClosedTasksInput = {
+export type UserCreateOrConnectWithoutTargetedActivitiesInput = {
   where: Prisma.UserWhereUniqueInput
-  create: Prisma.XOR<Prisma.UserCreateWithoutClosedTasksInput, Prisma.UserUncheckedCreateWithoutClosedTasksInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTargetedActivitiesInput, Prisma.UserUncheckedCreateWithoutTargetedActivitiesInput>
 }
 
-export type UserUpsertWithoutTaskInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutTaskInput, Prisma.UserUncheckedUpdateWithoutTaskInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutTaskInput, Prisma.UserUncheckedCreateWithoutTaskInput>
+export type UserUpsertWithoutTaskActivitiesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTaskActivitiesInput, Prisma.UserUncheckedUpdateWithoutTaskActivitiesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTaskActivitiesInput, Prisma.UserUncheckedCreateWithoutTaskActivitiesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutTaskInput = {
+export type UserUpdateToOneWithWhereWithoutTaskActivitiesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutTaskInput, Prisma.UserUncheckedUpdateWithoutTaskInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTaskActivitiesInput, Prisma.UserUncheckedUpdateWithoutTaskActivitiesInput>
 }
 
-export type UserUpdateWithoutTaskInput = {
+export type UserUpdateWithoutTaskActivitiesInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
   assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
   assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
   delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutTaskInput = {
+export type UserUncheckedUpdateWithoutTaskActivitiesInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
   assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
   assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
   delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
 
-export type UserUpsertWithoutClosedTasksInput = {
-  update: Prisma.XOR<Prisma.UserUpdateWithoutClosedTasksInput, Prisma.UserUncheckedUpdateWithoutClosedTasksInput>
-  create: Prisma.XOR<Prisma.UserCreateWithoutClosedTasksInput, Prisma.UserUncheckedCreateWithoutClosedTasksInput>
+export type UserUpsertWithoutTargetedActivitiesInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutTargetedActivitiesInput, Prisma.UserUncheckedUpdateWithoutTargetedActivitiesInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutTargetedActivitiesInput, Prisma.UserUncheckedCreateWithoutTargetedActivitiesInput>
   where?: Prisma.UserWhereInput
 }
 
-export type UserUpdateToOneWithWhereWithoutClosedTasksInput = {
+export type UserUpdateToOneWithWhereWithoutTargetedActivitiesInput = {
   where?: Prisma.UserWhereInput
-  data: Prisma.XOR<Prisma.UserUpdateWithoutClosedTasksInput, Prisma.UserUncheckedUpdateWithoutClosedTasksInput>
+  data: Prisma.XOR<Prisma.UserUpdateWithoutTargetedActivitiesInput, Prisma.UserUncheckedUpdateWithoutTargetedActivitiesInput>
 }
 
-export type UserUpdateWithoutClosedTasksInput = {
+export type UserUpdateWithoutTargetedActivitiesInput = {
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -1090,17 +4600,38 @@ export type UserUpdateWithoutClosedTasksInput = {
   assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
   delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
 
-export type UserUncheckedUpdateWithoutClosedTasksInput = {
+export type UserUncheckedUpdateWithoutTargetedActivitiesInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
@@ -1108,7 +4639,23 @@ export type UserUncheckedUpdateWithoutClosedTasksInput = {
   assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
   delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
@@ -1118,6 +4665,11 @@ export type UserCreateWithoutAssignedTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -1126,6 +4678,22 @@ export type UserCreateWithoutAssignedTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
@@ -1136,6 +4704,11 @@ export type UserUncheckedCreateWithoutAssignedTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -1144,6 +4717,22 @@ export type UserUncheckedCreateWithoutAssignedTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
@@ -1158,6 +4747,11 @@ export type UserCreateWithoutDelegatedTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -1166,6 +4760,22 @@ export type UserCreateWithoutDelegatedTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
@@ -1176,6 +4786,11 @@ export type UserUncheckedCreateWithoutDelegatedTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -1184,6 +4799,22 @@ export type UserUncheckedCreateWithoutDelegatedTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
@@ -1209,6 +4840,11 @@ export type UserUpdateWithoutAssignedTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -1217,6 +4853,22 @@ export type UserUpdateWithoutAssignedTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
@@ -1227,6 +4879,11 @@ export type UserUncheckedUpdateWithoutAssignedTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
@@ -1235,6 +4892,22 @@ export type UserUncheckedUpdateWithoutAssignedTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
@@ -1255,6 +4928,11 @@ export type UserUpdateWithoutDelegatedTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -1263,6 +4941,22 @@ export type UserUpdateWithoutDelegatedTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
@@ -1273,6 +4967,11 @@ export type UserUncheckedUpdateWithoutDelegatedTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
@@ -1281,6 +4980,22 @@ export type UserUncheckedUpdateWithoutDelegatedTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
@@ -1290,6 +5005,11 @@ export type UserCreateWithoutClosedSubTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -1298,6 +5018,22 @@ export type UserCreateWithoutClosedSubTasksInput = {
   delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
@@ -1308,6 +5044,11 @@ export type UserUncheckedCreateWithoutClosedSubTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -1316,6 +5057,22 @@ export type UserUncheckedCreateWithoutClosedSubTasksInput = {
   delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
@@ -1341,6 +5098,11 @@ export type UserUpdateWithoutClosedSubTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -1349,6 +5111,22 @@ export type UserUpdateWithoutClosedSubTasksInput = {
   delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
@@ -1359,6 +5137,11 @@ export type UserUncheckedUpdateWithoutClosedSubTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
@@ -1367,6 +5150,22 @@ export type UserUncheckedUpdateWithoutClosedSubTasksInput = {
   delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
@@ -1376,6 +5175,11 @@ export type UserCreateWithoutAssignedSubTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -1384,6 +5188,22 @@ export type UserCreateWithoutAssignedSubTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
@@ -1394,6 +5214,11 @@ export type UserUncheckedCreateWithoutAssignedSubTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -1402,6 +5227,22 @@ export type UserUncheckedCreateWithoutAssignedSubTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
@@ -1416,6 +5257,11 @@ export type UserCreateWithoutDelegatedSubTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
@@ -1424,6 +5270,22 @@ export type UserCreateWithoutDelegatedSubTasksInput = {
   delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
 }
@@ -1434,6 +5296,11 @@ export type UserUncheckedCreateWithoutDelegatedSubTasksInput = {
   email: string
   timeZone: string
   hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
   issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
   Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
@@ -1442,6 +5309,22 @@ export type UserUncheckedCreateWithoutDelegatedSubTasksInput = {
   delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
   closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
   closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  personalLabels?: Prisma.LabelUncheckedCreateNestedManyWithoutOwnerInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
   Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
   GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
 }
@@ -1467,6 +5350,11 @@ export type UserUpdateWithoutAssignedSubTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -1475,6 +5363,22 @@ export type UserUpdateWithoutAssignedSubTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
@@ -1485,6 +5389,11 @@ export type UserUncheckedUpdateWithoutAssignedSubTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
@@ -1493,6 +5402,22 @@ export type UserUncheckedUpdateWithoutAssignedSubTasksInput = {
   delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
@@ -1513,6 +5438,11 @@ export type UserUpdateWithoutDelegatedSubTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
@@ -1521,6 +5451,22 @@ export type UserUpdateWithoutDelegatedSubTasksInput = {
   delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
 }
@@ -1531,14 +5477,205 @@ export type UserUncheckedUpdateWithoutDelegatedSubTasksInput = {
   email?: Prisma.StringFieldUpdateOperationsInput | string
   timeZone?: Prisma.StringFieldUpdateOperationsInput | string
   hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  personalLabels?: Prisma.LabelUncheckedUpdateManyWithoutOwnerNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
+}
+
+export type UserCreateWithoutPersonalLabelsInput = {
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityCreateNestedManyWithoutTargetUserInput
+  calendarFeeds?: Prisma.CalendarFeedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberCreateNestedManyWithoutUserInput
+}
+
+export type UserUncheckedCreateWithoutPersonalLabelsInput = {
+  id?: number
+  name: string
+  email: string
+  timeZone: string
+  hash: string
+  quietHoursStart?: number | null
+  quietHoursEnd?: number | null
+  reminderOffsets?: Prisma.UserCreatereminderOffsetsInput | number[]
+  dailyDigestHour?: number | null
+  lastDigestOn?: Date | string | null
+  actionTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutUserInput
+  issuedTokens?: Prisma.ActionTokenUncheckedCreateNestedManyWithoutIssuedByInput
+  Task?: Prisma.TaskUncheckedCreateNestedManyWithoutOwnerInput
+  assignedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssigneeInput
+  delegatedTasks?: Prisma.TaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedCreateNestedManyWithoutAssignedByInput
+  closedTasks?: Prisma.TaskUncheckedCreateNestedManyWithoutClosedByInput
+  closedSubTasks?: Prisma.SubTaskUncheckedCreateNestedManyWithoutClosedByInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedCreateNestedManyWithoutCreatedByInput
+  taskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutAuthorInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedCreateNestedManyWithoutDeletedByInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedCreateNestedManyWithoutEditedByInput
+  taskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedUserInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedCreateNestedManyWithoutMentionedByInput
+  taskActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutActorInput
+  targetedActivities?: Prisma.TaskActivityUncheckedCreateNestedManyWithoutTargetUserInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedCreateNestedManyWithoutUserInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedCreateNestedManyWithoutUserInput
+  loginSessions?: Prisma.LoginSessionUncheckedCreateNestedManyWithoutUserInput
+  notifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutUserInput
+  sentNotifications?: Prisma.NotificationUncheckedCreateNestedManyWithoutActorInput
+  requestedMails?: Prisma.MailOutboxUncheckedCreateNestedManyWithoutRequestedByInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedCreateNestedManyWithoutUserInput
+  Group?: Prisma.GroupUncheckedCreateNestedManyWithoutOwnerInput
+  GroupMember?: Prisma.GroupMemberUncheckedCreateNestedManyWithoutUserInput
+}
+
+export type UserCreateOrConnectWithoutPersonalLabelsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutPersonalLabelsInput, Prisma.UserUncheckedCreateWithoutPersonalLabelsInput>
+}
+
+export type UserUpsertWithoutPersonalLabelsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutPersonalLabelsInput, Prisma.UserUncheckedUpdateWithoutPersonalLabelsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutPersonalLabelsInput, Prisma.UserUncheckedCreateWithoutPersonalLabelsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutPersonalLabelsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutPersonalLabelsInput, Prisma.UserUncheckedUpdateWithoutPersonalLabelsInput>
+}
+
+export type UserUpdateWithoutPersonalLabelsInput = {
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  actionTokens?: Prisma.ActionTokenUpdateManyWithoutUserNestedInput
+  issuedTokens?: Prisma.ActionTokenUpdateManyWithoutIssuedByNestedInput
+  Task?: Prisma.TaskUpdateManyWithoutOwnerNestedInput
+  assignedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  assignedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssigneeNestedInput
+  delegatedTasks?: Prisma.TaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUpdateManyWithoutAssignedByNestedInput
+  closedTasks?: Prisma.TaskUpdateManyWithoutClosedByNestedInput
+  closedSubTasks?: Prisma.SubTaskUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUpdateManyWithoutTargetUserNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUpdateManyWithoutUserNestedInput
+  Group?: Prisma.GroupUpdateManyWithoutOwnerNestedInput
+  GroupMember?: Prisma.GroupMemberUpdateManyWithoutUserNestedInput
+}
+
+export type UserUncheckedUpdateWithoutPersonalLabelsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  timeZone?: Prisma.StringFieldUpdateOperationsInput | string
+  hash?: Prisma.StringFieldUpdateOperationsInput | string
+  quietHoursStart?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  quietHoursEnd?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  reminderOffsets?: Prisma.UserUpdatereminderOffsetsInput | number[]
+  dailyDigestHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lastDigestOn?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   actionTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutUserNestedInput
   issuedTokens?: Prisma.ActionTokenUncheckedUpdateManyWithoutIssuedByNestedInput
   Task?: Prisma.TaskUncheckedUpdateManyWithoutOwnerNestedInput
   assignedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
   assignedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssigneeNestedInput
   delegatedTasks?: Prisma.TaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
+  delegatedSubTasks?: Prisma.SubTaskAssigneeUncheckedUpdateManyWithoutAssignedByNestedInput
   closedTasks?: Prisma.TaskUncheckedUpdateManyWithoutClosedByNestedInput
   closedSubTasks?: Prisma.SubTaskUncheckedUpdateManyWithoutClosedByNestedInput
+  taskDependencies?: Prisma.TaskDependencyUncheckedUpdateManyWithoutCreatedByNestedInput
+  taskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutAuthorNestedInput
+  deletedTaskComments?: Prisma.TaskCommentUncheckedUpdateManyWithoutDeletedByNestedInput
+  taskCommentRevisions?: Prisma.TaskCommentRevisionUncheckedUpdateManyWithoutEditedByNestedInput
+  taskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedUserNestedInput
+  sentTaskMentions?: Prisma.TaskMentionUncheckedUpdateManyWithoutMentionedByNestedInput
+  taskActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutActorNestedInput
+  targetedActivities?: Prisma.TaskActivityUncheckedUpdateManyWithoutTargetUserNestedInput
+  calendarFeeds?: Prisma.CalendarFeedUncheckedUpdateManyWithoutUserNestedInput
+  accessTokens?: Prisma.PersonalAccessTokenUncheckedUpdateManyWithoutUserNestedInput
+  loginSessions?: Prisma.LoginSessionUncheckedUpdateManyWithoutUserNestedInput
+  notifications?: Prisma.NotificationUncheckedUpdateManyWithoutUserNestedInput
+  sentNotifications?: Prisma.NotificationUncheckedUpdateManyWithoutActorNestedInput
+  requestedMails?: Prisma.MailOutboxUncheckedUpdateManyWithoutRequestedByNestedInput
+  notificationPrefs?: Prisma.NotificationPreferenceUncheckedUpdateManyWithoutUserNestedInput
   Group?: Prisma.GroupUncheckedUpdateManyWithoutOwnerNestedInput
   GroupMember?: Prisma.GroupMemberUncheckedUpdateManyWithoutUserNestedInput
 }
@@ -1558,95 +5695,239 @@ export type UserCountOutputType = {
   delegatedSubTasks: number
   closedTasks: number
   closedSubTasks: number
+  taskDependencies: number
+  taskComments: number
+  deletedTaskComments: number
+  taskCommentRevisions: number
+  taskMentions: number
+  sentTaskMentions: number
+  taskActivities: number
+  targetedActivities: number
+  personalLabels: number
+  calendarFeeds: number
+  accessTokens: number
+  loginSessions: number
+  notifications: number
+  sentNotifications: number
+  requestedMails: number
+  notificationPrefs: number
   Group: number
   GroupMember: number
 }
 
-export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  actionTokens?: boolean | UserCountOutputTypeCountActionTokensArgs
-  issuedTokens?: boolean | UserCountOutputTypeCountIssuedTokensArgs
-  Task?: boolean | UserCountOutputTypeCountTaskArgs
-  assignedTasks?: boolean | UserCountOutputTypeCountAssignedTasksArgs
-  assignedSubTasks?: boolean | UserCountOutputTypeCountAssignedSubTasksArgs
-  delegatedTasks?: boolean | UserCountOutputTypeCountDelegatedTasksArgs
-  delegatedSubTasks?: boolean | UserCountOutputTypeCountDelegatedSubTasksArgs
-  closedTasks?: boolean | UserCountOutputTypeCountClosedTasksArgs
-  closedSubTasks?: boolean | UserCountOutputTypeCountClosedSubTasksArgs
-  Group?: boolean | UserCountOutputTypeCountGroupArgs
-  GroupMember?: boolean | UserCountOutputTypeCountGroupMemberArgs
+export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  actionTokens?: boolean | UserCountOutputTypeCountActionTokensArgs
+  issuedTokens?: boolean | UserCountOutputTypeCountIssuedTokensArgs
+  Task?: boolean | UserCountOutputTypeCountTaskArgs
+  assignedTasks?: boolean | UserCountOutputTypeCountAssignedTasksArgs
+  assignedSubTasks?: boolean | UserCountOutputTypeCountAssignedSubTasksArgs
+  delegatedTasks?: boolean | UserCountOutputTypeCountDelegatedTasksArgs
+  delegatedSubTasks?: boolean | UserCountOutputTypeCountDelegatedSubTasksArgs
+  closedTasks?: boolean | UserCountOutputTypeCountClosedTasksArgs
+  closedSubTasks?: boolean | UserCountOutputTypeCountClosedSubTasksArgs
+  taskDependencies?: boolean | UserCountOutputTypeCountTaskDependenciesArgs
+  taskComments?: boolean | UserCountOutputTypeCountTaskCommentsArgs
+  deletedTaskComments?: boolean | UserCountOutputTypeCountDeletedTaskCommentsArgs
+  taskCommentRevisions?: boolean | UserCountOutputTypeCountTaskCommentRevisionsArgs
+  taskMentions?: boolean | UserCountOutputTypeCountTaskMentionsArgs
+  sentTaskMentions?: boolean | UserCountOutputTypeCountSentTaskMentionsArgs
+  taskActivities?: boolean | UserCountOutputTypeCountTaskActivitiesArgs
+  targetedActivities?: boolean | UserCountOutputTypeCountTargetedActivitiesArgs
+  personalLabels?: boolean | UserCountOutputTypeCountPersonalLabelsArgs
+  calendarFeeds?: boolean | UserCountOutputTypeCountCalendarFeedsArgs
+  accessTokens?: boolean | UserCountOutputTypeCountAccessTokensArgs
+  loginSessions?: boolean | UserCountOutputTypeCountLoginSessionsArgs
+  notifications?: boolean | UserCountOutputTypeCountNotificationsArgs
+  sentNotifications?: boolean | UserCountOutputTypeCountSentNotificationsArgs
+  requestedMails?: boolean | UserCountOutputTypeCountRequestedMailsArgs
+  notificationPrefs?: boolean | UserCountOutputTypeCountNotificationPrefsArgs
+  Group?: boolean | UserCountOutputTypeCountGroupArgs
+  GroupMember?: boolean | UserCountOutputTypeCountGroupMemberArgs
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the UserCountOutputType
+   */
+  select?: Prisma.UserCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountActionTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ActionTokenWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountIssuedTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ActionTokenWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountTaskArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountAssignedTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskAssigneeWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountAssignedSubTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SubTaskAssigneeWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountDelegatedTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskAssigneeWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountDelegatedSubTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SubTaskAssigneeWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountClosedTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountClosedSubTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.SubTaskWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountTaskDependenciesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskDependencyWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountTaskCommentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountDeletedTaskCommentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountTaskCommentRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskCommentRevisionWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  /**
-   * Select specific fields to fetch from the UserCountOutputType
-   */
-  select?: Prisma.UserCountOutputTypeSelect<ExtArgs> | null
+export type UserCountOutputTypeCountTaskMentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskMentionWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountActionTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.ActionTokenWhereInput
+export type UserCountOutputTypeCountSentTaskMentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskMentionWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountIssuedTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.ActionTokenWhereInput
+export type UserCountOutputTypeCountTaskActivitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskActivityWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountTaskArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.TaskWhereInput
+export type UserCountOutputTypeCountTargetedActivitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaskActivityWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountAssignedTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.TaskAssigneeWhereInput
+export type UserCountOutputTypeCountPersonalLabelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LabelWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountAssignedSubTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.SubTaskAssigneeWhereInput
+export type UserCountOutputTypeCountCalendarFeedsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CalendarFeedWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountDelegatedTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.TaskAssigneeWhereInput
+export type UserCountOutputTypeCountAccessTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PersonalAccessTokenWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountDelegatedSubTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.SubTaskAssigneeWhereInput
+export type UserCountOutputTypeCountLoginSessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.LoginSessionWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountClosedTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.TaskWhereInput
+export type UserCountOutputTypeCountNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
 }
 
 /**
  * UserCountOutputType without action
  */
-export type UserCountOutputTypeCountClosedSubTasksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  where?: Prisma.SubTaskWhereInput
+export type UserCountOutputTypeCountSentNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountRequestedMailsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.MailOutboxWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountNotificationPrefsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.NotificationPreferenceWhereInput
 }
 
 /**
@@ -1670,6 +5951,11 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   email?: boolean
   timeZone?: boolean
   hash?: boolean
+  quietHoursStart?: boolean
+  quietHoursEnd?: boolean
+  reminderOffsets?: boolean
+  dailyDigestHour?: boolean
+  lastDigestOn?: boolean
   actionTokens?: boolean | Prisma.User$actionTokensArgs<ExtArgs>
   issuedTokens?: boolean | Prisma.User$issuedTokensArgs<ExtArgs>
   Task?: boolean | Prisma.User$TaskArgs<ExtArgs>
@@ -1679,6 +5965,22 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   delegatedSubTasks?: boolean | Prisma.User$delegatedSubTasksArgs<ExtArgs>
   closedTasks?: boolean | Prisma.User$closedTasksArgs<ExtArgs>
   closedSubTasks?: boolean | Prisma.User$closedSubTasksArgs<ExtArgs>
+  taskDependencies?: boolean | Prisma.User$taskDependenciesArgs<ExtArgs>
+  taskComments?: boolean | Prisma.User$taskCommentsArgs<ExtArgs>
+  deletedTaskComments?: boolean | Prisma.User$deletedTaskCommentsArgs<ExtArgs>
+  taskCommentRevisions?: boolean | Prisma.User$taskCommentRevisionsArgs<ExtArgs>
+  taskMentions?: boolean | Prisma.User$taskMentionsArgs<ExtArgs>
+  sentTaskMentions?: boolean | Prisma.User$sentTaskMentionsArgs<ExtArgs>
+  taskActivities?: boolean | Prisma.User$taskActivitiesArgs<ExtArgs>
+  targetedActivities?: boolean | Prisma.User$targetedActivitiesArgs<ExtArgs>
+  personalLabels?: boolean | Prisma.User$personalLabelsArgs<ExtArgs>
+  calendarFeeds?: boolean | Prisma.User$calendarFeedsArgs<ExtArgs>
+  accessTokens?: boolean | Prisma.User$accessTokensArgs<ExtArgs>
+  loginSessions?: boolean | Prisma.User$loginSessionsArgs<ExtArgs>
+  notifications?: boolean | Prisma.User$notificationsArgs<ExtArgs>
+  sentNotifications?: boolean | Prisma.User$sentNotificationsArgs<ExtArgs>
+  requestedMails?: boolean | Prisma.User$requestedMailsArgs<ExtArgs>
+  notificationPrefs?: boolean | Prisma.User$notificationPrefsArgs<ExtArgs>
   Group?: boolean | Prisma.User$GroupArgs<ExtArgs>
   GroupMember?: boolean | Prisma.User$GroupMemberArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
@@ -1690,6 +5992,11 @@ export type UserSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   email?: boolean
   timeZone?: boolean
   hash?: boolean
+  quietHoursStart?: boolean
+  quietHoursEnd?: boolean
+  reminderOffsets?: boolean
+  dailyDigestHour?: boolean
+  lastDigestOn?: boolean
 }, ExtArgs["result"]["user"]>
 
 export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -1698,6 +6005,11 @@ export type UserSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   email?: boolean
   timeZone?: boolean
   hash?: boolean
+  quietHoursStart?: boolean
+  quietHoursEnd?: boolean
+  reminderOffsets?: boolean
+  dailyDigestHour?: boolean
+  lastDigestOn?: boolean
 }, ExtArgs["result"]["user"]>
 
 export type UserSelectScalar = {
@@ -1706,9 +6018,14 @@ export type UserSelectScalar = {
   email?: boolean
   timeZone?: boolean
   hash?: boolean
+  quietHoursStart?: boolean
+  quietHoursEnd?: boolean
+  reminderOffsets?: boolean
+  dailyDigestHour?: boolean
+  lastDigestOn?: boolean
 }
 
-export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "email" | "timeZone" | "hash", ExtArgs["result"]["user"]>
+export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "email" | "timeZone" | "hash" | "quietHoursStart" | "quietHoursEnd" | "reminderOffsets" | "dailyDigestHour" | "lastDigestOn", ExtArgs["result"]["user"]>
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   actionTokens?: boolean | Prisma.User$actionTokensArgs<ExtArgs>
   issuedTokens?: boolean | Prisma.User$issuedTokensArgs<ExtArgs>
@@ -1719,6 +6036,22 @@ export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   delegatedSubTasks?: boolean | Prisma.User$delegatedSubTasksArgs<ExtArgs>
   closedTasks?: boolean | Prisma.User$closedTasksArgs<ExtArgs>
   closedSubTasks?: boolean | Prisma.User$closedSubTasksArgs<ExtArgs>
+  taskDependencies?: boolean | Prisma.User$taskDependenciesArgs<ExtArgs>
+  taskComments?: boolean | Prisma.User$taskCommentsArgs<ExtArgs>
+  deletedTaskComments?: boolean | Prisma.User$deletedTaskCommentsArgs<ExtArgs>
+  taskCommentRevisions?: boolean | Prisma.User$taskCommentRevisionsArgs<ExtArgs>
+  taskMentions?: boolean | Prisma.User$taskMentionsArgs<ExtArgs>
+  sentTaskMentions?: boolean | Prisma.User$sentTaskMentionsArgs<ExtArgs>
+  taskActivities?: boolean | Prisma.User$taskActivitiesArgs<ExtArgs>
+  targetedActivities?: boolean | Prisma.User$targetedActivitiesArgs<ExtArgs>
+  personalLabels?: boolean | Prisma.User$personalLabelsArgs<ExtArgs>
+  calendarFeeds?: boolean | Prisma.User$calendarFeedsArgs<ExtArgs>
+  accessTokens?: boolean | Prisma.User$accessTokensArgs<ExtArgs>
+  loginSessions?: boolean | Prisma.User$loginSessionsArgs<ExtArgs>
+  notifications?: boolean | Prisma.User$notificationsArgs<ExtArgs>
+  sentNotifications?: boolean | Prisma.User$sentNotificationsArgs<ExtArgs>
+  requestedMails?: boolean | Prisma.User$requestedMailsArgs<ExtArgs>
+  notificationPrefs?: boolean | Prisma.User$notificationPrefsArgs<ExtArgs>
   Group?: boolean | Prisma.User$GroupArgs<ExtArgs>
   GroupMember?: boolean | Prisma.User$GroupMemberArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
@@ -1738,6 +6071,22 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     delegatedSubTasks: Prisma.$SubTaskAssigneePayload<ExtArgs>[]
     closedTasks: Prisma.$TaskPayload<ExtArgs>[]
     closedSubTasks: Prisma.$SubTaskPayload<ExtArgs>[]
+    taskDependencies: Prisma.$TaskDependencyPayload<ExtArgs>[]
+    taskComments: Prisma.$TaskCommentPayload<ExtArgs>[]
+    deletedTaskComments: Prisma.$TaskCommentPayload<ExtArgs>[]
+    taskCommentRevisions: Prisma.$TaskCommentRevisionPayload<ExtArgs>[]
+    taskMentions: Prisma.$TaskMentionPayload<ExtArgs>[]
+    sentTaskMentions: Prisma.$TaskMentionPayload<ExtArgs>[]
+    taskActivities: Prisma.$TaskActivityPayload<ExtArgs>[]
+    targetedActivities: Prisma.$TaskActivityPayload<ExtArgs>[]
+    personalLabels: Prisma.$LabelPayload<ExtArgs>[]
+    calendarFeeds: Prisma.$CalendarFeedPayload<ExtArgs>[]
+    accessTokens: Prisma.$PersonalAccessTokenPayload<ExtArgs>[]
+    loginSessions: Prisma.$LoginSessionPayload<ExtArgs>[]
+    notifications: Prisma.$NotificationPayload<ExtArgs>[]
+    sentNotifications: Prisma.$NotificationPayload<ExtArgs>[]
+    requestedMails: Prisma.$MailOutboxPayload<ExtArgs>[]
+    notificationPrefs: Prisma.$NotificationPreferencePayload<ExtArgs>[]
     Group: Prisma.$GroupPayload<ExtArgs>[]
     GroupMember: Prisma.$GroupMemberPayload<ExtArgs>[]
   }
@@ -1747,6 +6096,11 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     email: string
     timeZone: string
     hash: string
+    quietHoursStart: number | null
+    quietHoursEnd: number | null
+    reminderOffsets: number[]
+    dailyDigestHour: number | null
+    lastDigestOn: Date | null
   }, ExtArgs["result"]["user"]>
   composites: {}
 }
@@ -2150,6 +6504,22 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   delegatedSubTasks<T extends Prisma.User$delegatedSubTasksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$delegatedSubTasksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskAssigneePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   closedTasks<T extends Prisma.User$closedTasksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$closedTasksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   closedSubTasks<T extends Prisma.User$closedSubTasksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$closedSubTasksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SubTaskPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  taskDependencies<T extends Prisma.User$taskDependenciesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$taskDependenciesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskDependencyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  taskComments<T extends Prisma.User$taskCommentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$taskCommentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  deletedTaskComments<T extends Prisma.User$deletedTaskCommentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$deletedTaskCommentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  taskCommentRevisions<T extends Prisma.User$taskCommentRevisionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$taskCommentRevisionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskCommentRevisionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  taskMentions<T extends Prisma.User$taskMentionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$taskMentionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sentTaskMentions<T extends Prisma.User$sentTaskMentionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sentTaskMentionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskMentionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  taskActivities<T extends Prisma.User$taskActivitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$taskActivitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  targetedActivities<T extends Prisma.User$targetedActivitiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$targetedActivitiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaskActivityPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  personalLabels<T extends Prisma.User$personalLabelsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$personalLabelsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LabelPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  calendarFeeds<T extends Prisma.User$calendarFeedsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$calendarFeedsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CalendarFeedPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  accessTokens<T extends Prisma.User$accessTokensArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$accessTokensArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PersonalAccessTokenPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  loginSessions<T extends Prisma.User$loginSessionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$loginSessionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$LoginSessionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notifications<T extends Prisma.User$notificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$notificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  sentNotifications<T extends Prisma.User$sentNotificationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$sentNotificationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  requestedMails<T extends Prisma.User$requestedMailsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$requestedMailsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MailOutboxPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  notificationPrefs<T extends Prisma.User$notificationPrefsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$notificationPrefsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$NotificationPreferencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   Group<T extends Prisma.User$GroupArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$GroupArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GroupPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   GroupMember<T extends Prisma.User$GroupMemberArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$GroupMemberArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GroupMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
@@ -2186,6 +6556,11 @@ export interface UserFieldRefs {
   readonly email: Prisma.FieldRef<"User", 'String'>
   readonly timeZone: Prisma.FieldRef<"User", 'String'>
   readonly hash: Prisma.FieldRef<"User", 'String'>
+  readonly quietHoursStart: Prisma.FieldRef<"User", 'Int'>
+  readonly quietHoursEnd: Prisma.FieldRef<"User", 'Int'>
+  readonly reminderOffsets: Prisma.FieldRef<"User", 'Int[]'>
+  readonly dailyDigestHour: Prisma.FieldRef<"User", 'Int'>
+  readonly lastDigestOn: Prisma.FieldRef<"User", 'DateTime'>
 }
     
 
@@ -2789,6 +7164,390 @@ export type User$closedSubTasksArgs<ExtArgs extends runtime.Types.Extensions.Int
   distinct?: Prisma.SubTaskScalarFieldEnum | Prisma.SubTaskScalarFieldEnum[]
 }
 
+/**
+ * User.taskDependencies
+ */
+export type User$taskDependenciesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskDependency
+   */
+  select?: Prisma.TaskDependencySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskDependency
+   */
+  omit?: Prisma.TaskDependencyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskDependencyInclude<ExtArgs> | null
+  where?: Prisma.TaskDependencyWhereInput
+  orderBy?: Prisma.TaskDependencyOrderByWithRelationInput | Prisma.TaskDependencyOrderByWithRelationInput[]
+  cursor?: Prisma.TaskDependencyWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskDependencyScalarFieldEnum | Prisma.TaskDependencyScalarFieldEnum[]
+}
+
+/**
+ * User.taskComments
+ */
+export type User$taskCommentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentWhereInput
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskCommentScalarFieldEnum | Prisma.TaskCommentScalarFieldEnum[]
+}
+
+/**
+ * User.deletedTaskComments
+ */
+export type User$deletedTaskCommentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskComment
+   */
+  select?: Prisma.TaskCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskComment
+   */
+  omit?: Prisma.TaskCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentWhereInput
+  orderBy?: Prisma.TaskCommentOrderByWithRelationInput | Prisma.TaskCommentOrderByWithRelationInput[]
+  cursor?: Prisma.TaskCommentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskCommentScalarFieldEnum | Prisma.TaskCommentScalarFieldEnum[]
+}
+
+/**
+ * User.taskCommentRevisions
+ */
+export type User$taskCommentRevisionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskCommentRevision
+   */
+  select?: Prisma.TaskCommentRevisionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskCommentRevision
+   */
+  omit?: Prisma.TaskCommentRevisionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskCommentRevisionInclude<ExtArgs> | null
+  where?: Prisma.TaskCommentRevisionWhereInput
+  orderBy?: Prisma.TaskCommentRevisionOrderByWithRelationInput | Prisma.TaskCommentRevisionOrderByWithRelationInput[]
+  cursor?: Prisma.TaskCommentRevisionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskCommentRevisionScalarFieldEnum | Prisma.TaskCommentRevisionScalarFieldEnum[]
+}
+
+/**
+ * User.taskMentions
+ */
+export type User$taskMentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  where?: Prisma.TaskMentionWhereInput
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskMentionScalarFieldEnum | Prisma.TaskMentionScalarFieldEnum[]
+}
+
+/**
+ * User.sentTaskMentions
+ */
+export type User$sentTaskMentionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskMention
+   */
+  select?: Prisma.TaskMentionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskMention
+   */
+  omit?: Prisma.TaskMentionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskMentionInclude<ExtArgs> | null
+  where?: Prisma.TaskMentionWhereInput
+  orderBy?: Prisma.TaskMentionOrderByWithRelationInput | Prisma.TaskMentionOrderByWithRelationInput[]
+  cursor?: Prisma.TaskMentionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskMentionScalarFieldEnum | Prisma.TaskMentionScalarFieldEnum[]
+}
+
+/**
+ * User.taskActivities
+ */
+export type User$taskActivitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  where?: Prisma.TaskActivityWhereInput
+  orderBy?: Prisma.TaskActivityOrderByWithRelationInput | Prisma.TaskActivityOrderByWithRelationInput[]
+  cursor?: Prisma.TaskActivityWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskActivityScalarFieldEnum | Prisma.TaskActivityScalarFieldEnum[]
+}
+
+/**
+ * User.targetedActivities
+ */
+export type User$targetedActivitiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaskActivity
+   */
+  select?: Prisma.TaskActivitySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaskActivity
+   */
+  omit?: Prisma.TaskActivityOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaskActivityInclude<ExtArgs> | null
+  where?: Prisma.TaskActivityWhereInput
+  orderBy?: Prisma.TaskActivityOrderByWithRelationInput | Prisma.TaskActivityOrderByWithRelationInput[]
+  cursor?: Prisma.TaskActivityWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaskActivityScalarFieldEnum | Prisma.TaskActivityScalarFieldEnum[]
+}
+
+/**
+ * User.personalLabels
+ */
+export type User$personalLabelsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Label
+   */
+  select?: Prisma.LabelSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Label
+   */
+  omit?: Prisma.LabelOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LabelInclude<ExtArgs> | null
+  where?: Prisma.LabelWhereInput
+  orderBy?: Prisma.LabelOrderByWithRelationInput | Prisma.LabelOrderByWithRelationInput[]
+  cursor?: Prisma.LabelWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.LabelScalarFieldEnum | Prisma.LabelScalarFieldEnum[]
+}
+
+/**
+ * User.calendarFeeds
+ */
+export type User$calendarFeedsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CalendarFeed
+   */
+  select?: Prisma.CalendarFeedSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CalendarFeed
+   */
+  omit?: Prisma.CalendarFeedOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CalendarFeedInclude<ExtArgs> | null
+  where?: Prisma.CalendarFeedWhereInput
+  orderBy?: Prisma.CalendarFeedOrderByWithRelationInput | Prisma.CalendarFeedOrderByWithRelationInput[]
+  cursor?: Prisma.CalendarFeedWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CalendarFeedScalarFieldEnum | Prisma.CalendarFeedScalarFieldEnum[]
+}
+
+/**
+ * User.accessTokens
+ */
+export type User$accessTokensArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PersonalAccessToken
+   */
+  select?: Prisma.PersonalAccessTokenSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PersonalAccessToken
+   */
+  omit?: Prisma.PersonalAccessTokenOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PersonalAccessTokenInclude<ExtArgs> | null
+  where?: Prisma.PersonalAccessTokenWhereInput
+  orderBy?: Prisma.PersonalAccessTokenOrderByWithRelationInput | Prisma.PersonalAccessTokenOrderByWithRelationInput[]
+  cursor?: Prisma.PersonalAccessTokenWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PersonalAccessTokenScalarFieldEnum | Prisma.PersonalAccessTokenScalarFieldEnum[]
+}
+
+/**
+ * User.loginSessions
+ */
+export type User$loginSessionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the LoginSession
+   */
+  select?: Prisma.LoginSessionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the LoginSession
+   */
+  omit?: Prisma.LoginSessionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.LoginSessionInclude<ExtArgs> | null
+  where?: Prisma.LoginSessionWhereInput
+  orderBy?: Prisma.LoginSessionOrderByWithRelationInput | Prisma.LoginSessionOrderByWithRelationInput[]
+  cursor?: Prisma.LoginSessionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.LoginSessionScalarFieldEnum | Prisma.LoginSessionScalarFieldEnum[]
+}
+
+/**
+ * User.notifications
+ */
+export type User$notificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  where?: Prisma.NotificationWhereInput
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  cursor?: Prisma.NotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
+/**
+ * User.sentNotifications
+ */
+export type User$sentNotificationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Notification
+   */
+  select?: Prisma.NotificationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Notification
+   */
+  omit?: Prisma.NotificationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationInclude<ExtArgs> | null
+  where?: Prisma.NotificationWhereInput
+  orderBy?: Prisma.NotificationOrderByWithRelationInput | Prisma.NotificationOrderByWithRelationInput[]
+  cursor?: Prisma.NotificationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NotificationScalarFieldEnum | Prisma.NotificationScalarFieldEnum[]
+}
+
+/**
+ * User.requestedMails
+ */
+export type User$requestedMailsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the MailOutbox
+   */
+  select?: Prisma.MailOutboxSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the MailOutbox
+   */
+  omit?: Prisma.MailOutboxOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.MailOutboxInclude<ExtArgs> | null
+  where?: Prisma.MailOutboxWhereInput
+  orderBy?: Prisma.MailOutboxOrderByWithRelationInput | Prisma.MailOutboxOrderByWithRelationInput[]
+  cursor?: Prisma.MailOutboxWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.MailOutboxScalarFieldEnum | Prisma.MailOutboxScalarFieldEnum[]
+}
+
+/**
+ * User.notificationPrefs
+ */
+export type User$notificationPrefsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the NotificationPreference
+   */
+  select?: Prisma.NotificationPreferenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the NotificationPreference
+   */
+  omit?: Prisma.NotificationPreferenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.NotificationPreferenceInclude<ExtArgs> | null
+  where?: Prisma.NotificationPreferenceWhereInput
+  orderBy?: Prisma.NotificationPreferenceOrderByWithRelationInput | Prisma.NotificationPreferenceOrderByWithRelationInput[]
+  cursor?: Prisma.NotificationPreferenceWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.NotificationPreferenceScalarFieldEnum | Prisma.NotificationPreferenceScalarFieldEnum[]
+}
+
 /**
  * User.Group
  */
@@ -52,12 +52,14 @@ export class KickOutMemberFromGroupDto {
   memberId: number;
 }
 
-export class UpdateMemberRoleDto {
-  @IsNotEmpty()
-  @IsNumber()
-  memberId: number;
-
+export class ChangeMemberRoleDto {
   @IsNotEmpty()
   @IsEnum(GroupRole)
   newRole: GroupRole;
 }
+
+export class UpdateMemberRoleDto extends ChangeMemberRoleDto {
+  @IsNotEmpty()
+  @IsNumber()
+  memberId: number;
+}
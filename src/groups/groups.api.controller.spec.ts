@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GroupRole } from 'src/generated/prisma/enums';
+import { GroupsApiController } from './groups.api.controller';
+import { GroupsService } from './groups.service';
+import { TasksService } from 'src/tasks/services/tasks.service';
+import { CurrentUser } from 'src/common/types/current-user';
+import { GroupsErrors } from 'src/errors';
+
+describe('GroupsApiController', () => {
+  let controller: GroupsApiController;
+
+  const mockGroupsService = {
+    createGroup: jest.fn(),
+    getGroupDetailsByMemberId: jest.fn(),
+    updateMemberRole: jest.fn(),
+    listMembersBasic: jest.fn(),
+    leaveGroup: jest.fn(),
+    inviteGroupMember: jest.fn(),
+    checkIfMember: jest.fn(),
+  };
+
+  const mockTasksService = {
+    createTask: jest.fn(),
+    getTaskForViewer: jest.fn(),
+  };
+
+  const user: CurrentUser = {
+    userId: 1,
+    userName: 'Ann',
+    email: 'ann@example.com',
+    timeZone: 'Asia/Taipei',
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [GroupsApiController],
+      providers: [
+        { provide: GroupsService, useValue: mockGroupsService },
+        { provide: TasksService, useValue: mockTasksService },
+      ],
+    }).compile();
+
+    controller = module.get(GroupsApiController);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('creates a group and answers with its details', async () => {
+    const details = { id: 3, name: 'cats', members: [] };
+    mockGroupsService.createGroup.mockResolvedValue({ id: 3 });
+    mockGroupsService.getGroupDetailsByMemberId.mockResolvedValue(details);
+
+    await expect(controller.create(user, { name: 'cats' })).resolves.toBe(
+      details,
+    );
+    expect(mockGroupsService.createGroup).toHaveBeenCalledWith(1, 'cats');
+    expect(mockGroupsService.getGroupDetailsByMemberId).toHaveBeenCalledWith(
+      3,
+      1,
+    );
+  });
+
+  it('changes a member role from the path and returns the members', async () => {
+    const members = [{ id: 7, role: GroupRole.ADMIN }];
+    mockGroupsService.listMembersBasic.mockResolvedValue(members);
+
+    await expect(
+      controller.updateMemberRole(3, 7, user, { newRole: GroupRole.ADMIN }),
+    ).resolves.toBe(members);
+    expect(mockGroupsService.updateMemberRole).toHaveBeenCalledWith(
+      3,
+      7,
+      GroupRole.ADMIN,
+      1,
+    );
+  });
+
+  it('lets the caller leave', async () => {
+    await expect(controller.leave(3, user)).resolves.toBeUndefined();
+    expect(mockGroupsService.leaveGroup).toHaveBeenCalledWith(3, 1);
+  });
+
+  it('reports whether the invitation email was queued', async () => {
+    mockGroupsService.inviteGroupMember.mockResolvedValue(null);
+
+    await expect(
+      controller.invite(3, user, { email: 'bob@example.com' }),
+    ).resolves.toEqual({
+      email: 'bob@example.com',
+      emailQueued: false,
+      mailId: null,
+    });
+  });
+
+  it('returns the outbox id so the inviter can check the mail later', async () => {
+    mockGroupsService.inviteGroupMember.mockResolvedValue(31);
+
+    await expect(
+      controller.invite(3, user, { email: 'bob@example.com' }),
+    ).resolves.toEqual({
+      email: 'bob@example.com',
+      emailQueued: true,
+      mailId: 31,
+    });
+  });
+
+  it('does not create group tasks for non-members', async () => {
+    mockGroupsService.checkIfMember.mockRejectedValue(
+      GroupsErrors.GroupNotFoundError.byId(1, 3),
+    );
+
+    await expect(
+      controller.createTask(3, user, { title: 'x', allDay: true } as any),
+    ).rejects.toBeInstanceOf(GroupsErrors.GroupNotFoundError);
+    expect(mockTasksService.createTask).not.toHaveBeenCalled();
+  });
+
+  it('creates group tasks in the group', async () => {
+    mockTasksService.createTask.mockResolvedValue({ id: 11 });
+    mockTasksService.getTaskForViewer.mockResolvedValue({ task: { id: 11 } });
+
+    await controller.createTask(3, user, { title: 'x', allDay: true } as any);
+
+    expect(mockTasksService.createTask).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'x', userId: 1 }),
+      3,
+    );
+    expect(mockTasksService.getTaskForViewer).toHaveBeenCalledWith(11, 1);
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { GroupsService } from './groups.service';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import {
+  ChangeMemberRoleDto,
+  CreateGroupDto,
+  GroupPageDto,
+  InviteGroupMemberDto,
+  UpdateGroupDto,
+} from './dto/groups.dto';
+import { ApiExceptionFilter } from 'src/common/filters/api-exception.filter';
+import { TasksService } from 'src/tasks/services/tasks.service';
+import { TasksAddDto } from 'src/tasks/dto/tasks.dto';
+import { TasksAddPayload } from 'src/tasks/types/tasks';
+import {
+  MemberRoles,
+  RequireRoles,
+} from 'src/groups/decorators/require-roles.decorator';
+import { GroupRolesGuard } from 'src/groups/guard/group-role.guard';
+import {
+  ApiAcceptedResponse,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiOkResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  ApiCsrf,
+  ApiErrorResponses,
+  ApiSignedIn,
+} from 'src/common/decorators/api-docs.decorator';
+import { TokenScopes } from 'src/auth/decorators/token-scopes.decorator';
+
+const GROUP_VIEW = 'The group as GET /api/v1/groups/{id} returns it';
+const MEMBER_LIST = 'The members of the group with their roles';
+
+// JSON 版的群組與成員 API；表單版仍是 GroupsController
+@ApiTags('groups')
+@ApiSignedIn()
+@Controller('api/v1/groups')
+@UseGuards(GroupRolesGuard)
+@UseFilters(ApiExceptionFilter)
+export class GroupsApiController {
+  constructor(
+    private groupsService: GroupsService,
+    private tasksService: TasksService,
+  ) {}
+
+  @Get()
+  @TokenScopes('read:groups')
+  @ApiOkResponse({ description: "One page of the caller's groups" })
+  async list(
+    @Query() query: GroupPageDto,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    return this.groupsService.getGroupListByUserId(user.userId, query);
+  }
+
+  @Post()
+  @TokenScopes('groups:admin')
+  @ApiCsrf()
+  @ApiCreatedResponse({ description: GROUP_VIEW })
+  @ApiErrorResponses(HttpStatus.BAD_REQUEST)
+  async create(
+    @GetCurrentUser() user: CurrentUser,
+    @Body() dto: CreateGroupDto,
+  ) {
+    const group = await this.groupsService.createGroup(user.userId, dto.name);
+    return this.groupsService.getGroupDetailsByMemberId(group.id, user.userId);
+  }
+
+  @Get(':id')
+  @TokenScopes('read:groups')
+  @ApiOkResponse({ description: GROUP_VIEW })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    return this.groupsService.getGroupDetailsByMemberId(id, user.userId);
+  }
+
+  @Patch(':id')
+  @TokenScopes('groups:admin')
+  @RequireRoles([MemberRoles.OWNER])
+  @ApiCsrf()
+  @ApiOkResponse({ description: GROUP_VIEW })
+  @ApiErrorResponses(
+    HttpStatus.BAD_REQUEST,
+    HttpStatus.FORBIDDEN,
+    HttpStatus.NOT_FOUND,
+  )
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Body() dto: UpdateGroupDto,
+  ) {
+    await this.groupsService.updateGroup(user.userId, id, dto.name);
+    return this.groupsService.getGroupDetailsByMemberId(id, user.userId);
+  }
+
+  @Delete(':id')
+  @TokenScopes('groups:admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireRoles([MemberRoles.OWNER])
+  @ApiCsrf()
+  @ApiNoContentResponse({ description: 'The group and its tasks are gone' })
+  @ApiErrorResponses(HttpStatus.FORBIDDEN, HttpStatus.NOT_FOUND)
+  async disband(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    await this.groupsService.disbandGroupById(id, user.userId);
+  }
+
+  // ---------------- members ----------------
+
+  @Get(':id/members')
+  @TokenScopes('read:groups')
+  @ApiOkResponse({ description: MEMBER_LIST })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async listMembers(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    await this.groupsService.checkIfMember(id, user.userId);
+    return this.groupsService.listMembersBasic(id);
+  }
+
+  // 要放在 :memberId 前面，不然 'me' 會被 ParseIntPipe 擋掉
+  @Delete(':id/members/me')
+  @TokenScopes('groups:admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiCsrf()
+  @ApiNoContentResponse({ description: 'The caller left the group' })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND, HttpStatus.CONFLICT)
+  async leave(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    await this.groupsService.leaveGroup(id, user.userId);
+  }
+
+  @Patch(':id/members/:memberId')
+  @TokenScopes('groups:admin')
+  @RequireRoles([MemberRoles.OWNER])
+  @ApiCsrf()
+  @ApiOkResponse({ description: MEMBER_LIST })
+  @ApiErrorResponses(
+    HttpStatus.BAD_REQUEST,
+    HttpStatus.FORBIDDEN,
+    HttpStatus.NOT_FOUND,
+    HttpStatus.CONFLICT,
+  )
+  async updateMemberRole(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('memberId', ParseIntPipe) memberId: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Body() dto: ChangeMemberRoleDto,
+  ) {
+    await this.groupsService.updateMemberRole(
+      id,
+      memberId,
+      dto.newRole,
+      user.userId,
+    );
+    return this.groupsService.listMembersBasic(id);
+  }
+
+  @Delete(':id/members/:memberId')
+  @TokenScopes('groups:admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequireRoles([MemberRoles.OWNER, MemberRoles.ADMIN])
+  @ApiCsrf()
+  @ApiNoContentResponse({ description: 'The member was removed' })
+  @ApiErrorResponses(
+    HttpStatus.FORBIDDEN,
+    HttpStatus.NOT_FOUND,
+    HttpStatus.CONFLICT,
+  )
+  async kickOutMember(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('memberId', ParseIntPipe) memberId: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    await this.groupsService.kickOutMember(id, memberId, user.userId);
+  }
+
+  // 邀請信進 outbox 後就回 202，對方點連結才會真的加入
+  @Post(':id/invitations')
+  @TokenScopes('groups:admin')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequireRoles([MemberRoles.OWNER, MemberRoles.ADMIN])
+  @ApiCsrf()
+  @ApiAcceptedResponse({
+    description:
+      'The invitation email is queued; emailQueued is false when it was not. mailId is for GET /api/mail/{id}',
+  })
+  @ApiErrorResponses(
+    HttpStatus.BAD_REQUEST,
+    HttpStatus.FORBIDDEN,
+    HttpStatus.CONFLICT,
+  )
+  async invite(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Body() dto: InviteGroupMemberDto,
+  ) {
+    const mailId = await this.groupsService.inviteGroupMember(
+      id,
+      user.userId,
+      dto.email,
+    );
+    return { email: dto.email, emailQueued: mailId !== null, mailId };
+  }
+
+  // ---------------- group tasks ----------------
+
+  @Get(':id/tasks')
+  @TokenScopes('read:tasks')
+  @ApiOkResponse({ description: 'The group task dashboard' })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async listTasks(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    await this.groupsService.checkIfMember(id, user.userId);
+    return this.tasksService.getGroupDashboardData(id, user);
+  }
+
+  @Post(':id/tasks')
+  @TokenScopes('write:tasks')
+  @ApiCsrf()
+  @ApiCreatedResponse({
+    description: 'The task as GET /api/v1/tasks/{id} returns it',
+  })
+  @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.NOT_FOUND)
+  async createTask(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Body() dto: TasksAddDto,
+  ) {
+    await this.groupsService.checkIfMember(id, user.userId);
+
+    const payload: TasksAddPayload = {
+      title: dto.title,
+      status: dto.status ?? null,
+      priority: dto.priority ?? null,
+      description: dto.description ?? null,
+      allDay: dto.allDay,
+      dueDate: dto.dueDate ?? null,
+      dueTime: dto.dueTime ?? null,
+      location: dto.location ?? null,
+      userId: user.userId,
+      completionPolicy: dto.completionPolicy,
+      autoCloseOnComplete: dto.autoCloseOnComplete,
+    };
+    const task = await this.tasksService.createTask(payload, id);
+    return this.tasksService.getTaskForViewer(task.id, user.userId);
+  }
+}
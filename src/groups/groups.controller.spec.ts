@@ -20,8 +20,7 @@ import {
 import { TasksService } from 'src/tasks/services/tasks.service';
 import { TasksAddPayload } from 'src/tasks/types/tasks';
 import { GroupsErrors } from 'src/errors';
-import { SecurityService } from 'src/security/security.service';
-import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import { LoginSessionsService } from 'src/auth/login-sessions.service';
 
 describe('GroupsController', () => {
   let groupsController: GroupsController;
@@ -45,7 +44,13 @@ describe('GroupsController', () => {
     createTask: jest.fn(),
   };
 
-  const mockSecurityService = createMockSecurityService();
+  const mockLoginSessions = {
+    start: jest.fn().mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    }),
+    writeCookies: jest.fn(),
+  };
 
   beforeAll(async () => {
     user = createMockUser();
@@ -63,7 +68,7 @@ describe('GroupsController', () => {
       providers: [
         { provide: GroupsService, useValue: mockGroupsService },
         { provide: TasksService, useValue: mockTasksService },
-        { provide: SecurityService, useValue: mockSecurityService },
+        { provide: LoginSessionsService, useValue: mockLoginSessions },
       ],
     }).compile();
 
@@ -100,7 +105,7 @@ describe('GroupsController', () => {
   describe('invite', () => {
     const dto: InviteGroupMemberDto = { email: 'test2@test.com' };
     it('should invite user with sucess message', async () => {
-      mockGroupsService.inviteGroupMember.mockResolvedValueOnce(true);
+      mockGroupsService.inviteGroupMember.mockResolvedValueOnce(31);
       await groupsController.invite(req, 1, currentUser, dto, res);
 
       expect(mockGroupsService.inviteGroupMember).toHaveBeenCalledWith(
@@ -111,13 +116,13 @@ describe('GroupsController', () => {
       expect(setSession).toHaveBeenCalledWith(
         req,
         'success',
-        'Invitation suceed.',
+        'Invitation email is queued for delivery.',
       );
       expect(res.redirect).toHaveBeenCalledWith(`/groups/1`);
     });
 
     it('should show warning message if email not sent due to env problem', async () => {
-      mockGroupsService.inviteGroupMember.mockResolvedValueOnce(false);
+      mockGroupsService.inviteGroupMember.mockResolvedValueOnce(null);
       await groupsController.invite(req, 1, currentUser, dto, res);
 
       expect(mockGroupsService.inviteGroupMember).toHaveBeenCalledWith(
@@ -146,7 +151,11 @@ describe('GroupsController', () => {
         1,
         'rawToken',
       );
-      expect(mockSecurityService.signAccessToken).toHaveBeenCalled();
+      expect(mockLoginSessions.start).toHaveBeenCalled();
+      expect(mockLoginSessions.writeCookies).toHaveBeenCalledWith(res, {
+        accessToken: 'mock-access-token',
+        refreshToken: 'mock-refresh-token',
+      });
       expect(setSession).toHaveBeenCalledWith(
         req,
         'success',
@@ -27,7 +27,10 @@ import { TasksService } from 'src/tasks/services/tasks.service';
 import { TasksAddDto } from 'src/tasks/dto/tasks.dto';
 import { TasksAddPayload } from 'src/tasks/types/tasks';
 import { Public } from 'src/common/decorators/public.decorator';
-import { SecurityService } from 'src/security/security.service';
+import {
+  LoginSessionsService,
+  sessionDeviceOf,
+} from 'src/auth/login-sessions.service';
 import {
   MemberRoles,
   RequireRoles,
@@ -41,7 +44,7 @@ export class GroupsController {
   constructor(
     private groupsService: GroupsService,
     private tasksService: TasksService,
-    private securityService: SecurityService,
+    private loginSessions: LoginSessionsService,
   ) {}
 
   @Post('new')
@@ -85,13 +88,13 @@ export class GroupsController {
     @Body() dto: InviteGroupMemberDto,
     @Res() res: Response,
   ) {
-    const mailSent = await this.groupsService.inviteGroupMember(
+    const mailId = await this.groupsService.inviteGroupMember(
       id,
       user.userId,
       dto.email,
     );
-    if (mailSent) {
-      setSession(req, 'success', 'Invitation suceed.');
+    if (mailId !== null) {
+      setSession(req, 'success', 'Invitation email is queued for delivery.');
     } else {
       setSession(
         req,
@@ -112,13 +115,11 @@ export class GroupsController {
     @Res() res: Response,
   ) {
     const payload = await this.groupsService.verifyInvitation(id, token);
-    const accessToken = await this.securityService.signAccessToken(payload);
-
-    res.cookie(
-      'grouptodo_login',
-      accessToken,
-      this.securityService.getCookieOptions(),
+    const tokens = await this.loginSessions.start(
+      payload,
+      sessionDeviceOf(req),
     );
+    this.loginSessions.writeCookies(res, tokens);
     setSession(req, 'success', 'You have been invited to a group!');
     res.redirect(`/groups/list`);
   }
@@ -203,6 +204,8 @@ export class GroupsController {
       dueTime: dto.dueTime ?? null,
       location: dto.location ?? null,
       userId: user.userId,
+      completionPolicy: dto.completionPolicy,
+      autoCloseOnComplete: dto.autoCloseOnComplete,
     };
     await this.tasksService.createTask(payload, id);
     setSession(req, 'success', 'Group task added.');
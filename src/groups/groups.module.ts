@@ -1,17 +1,28 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { GroupsService } from './groups.service';
 import { GroupsController } from './groups.controller';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { UsersModule } from 'src/users/users.module';
 import { GroupsPageController } from './groups.page.controller';
+import { GroupsApiController } from './groups.api.controller';
 import { MailModule } from 'src/mail/mail.module';
 import { TasksModule } from 'src/tasks/tasks.module';
 import { SecurityModule } from 'src/security/security.module';
+import { NotificationsModule } from 'src/notifications/notifications.module';
+import { AuthModule } from 'src/auth/auth.module';
 
 @Module({
-  imports: [PrismaModule, UsersModule, SecurityModule, MailModule, TasksModule],
+  imports: [
+    PrismaModule,
+    UsersModule,
+    SecurityModule,
+    AuthModule,
+    MailModule,
+    NotificationsModule,
+    forwardRef(() => TasksModule),
+  ],
   providers: [GroupsService],
-  controllers: [GroupsController, GroupsPageController],
+  controllers: [GroupsController, GroupsPageController, GroupsApiController],
   exports: [GroupsService],
 })
 export class GroupsModule {}
@@ -104,6 +104,7 @@ export class GroupsPageController {
     @GetCurrentUser() user: CurrentUser,
     @Param('id', ParseIntPipe) id: number,
     @Res() res: Response,
+    @Query('ready') ready?: string,
   ) {
     // 1) 權限檢查保持不變
     const viewerContext = await this.groupsService.getGroupMemberContext(
@@ -113,9 +114,12 @@ export class GroupsPageController {
     const isAdminish = this.groupsService.isAdminish(viewerContext.role);
 
     // 2) 取得優化後的資料（已限量、已分類、已排序、已標記 canClose）
+    // ?ready=1 只顯示沒有未完成 blocker 的任務
+    const readyOnly = ready === '1';
     const dashboardData = await this.tasksService.getGroupDashboardData(
       id,
       user,
+      { readyOnly },
     );
 
     // 3) 渲染
@@ -125,6 +129,7 @@ export class GroupsPageController {
       viewerId: user.userId,
       viewerContext,
       isAdminish,
+      readyOnly,
       // 分區資料
       expired: dashboardData.expired,
       today: dashboardData.today,
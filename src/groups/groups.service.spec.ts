@@ -15,6 +15,8 @@ import {
   UsersErrors,
 } from 'src/errors';
 import { MailService } from 'src/mail/mail.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { TasksGateWay } from 'src/tasks/tasks.gateway';
 import { createMockConfig } from 'src/test/factories/mock-config.factory';
 import { SecurityService } from 'src/security/security.service';
 import { ConfigService } from '@nestjs/config';
@@ -82,6 +84,13 @@ describe('GroupService', () => {
     sendGroupInvite: jest.fn(),
   };
 
+  const mockNotifications = { notify: jest.fn() };
+  const mockTasksGateway = {
+    revokeGroupAccess: jest.fn(),
+    joinGroupRoom: jest.fn(),
+    broadcastMemberChange: jest.fn(),
+  };
+
   const mockAuthService = {
     hash: jest.fn(),
     verify: jest.fn(),
@@ -107,6 +116,8 @@ describe('GroupService', () => {
         { provide: MailService, useValue: mockMailService },
         { provide: SecurityService, useValue: mockSecurityService },
         { provide: ConfigService, useValue: mockConfigService.mock },
+        { provide: NotificationsService, useValue: mockNotifications },
+        { provide: TasksGateWay, useValue: mockTasksGateway },
         {
           provide: SecurityService,
           useValue: mockSecurityService,
@@ -135,9 +146,11 @@ describe('GroupService', () => {
         name,
       });
 
-      await expect(
-        groupsService.createGroup(ownerId, name),
-      ).resolves.toBeUndefined();
+      await expect(groupsService.createGroup(ownerId, name)).resolves.toEqual({
+        id: 1,
+        ownerId,
+        name,
+      });
 
       expect(mockUsersService.findByIdOrThrow).toHaveBeenCalledWith(1);
       expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
@@ -383,6 +396,12 @@ describe('GroupService', () => {
       expect(mockPrismaService.groupMember.deleteMany).toHaveBeenCalledWith({
         where: { groupId: 1, userId: 6, role: { not: GroupRole.OWNER } },
       });
+      expect(mockTasksGateway.broadcastMemberChange).toHaveBeenCalledWith(1, {
+        type: 'MEMBER_LEFT',
+        userId: 6,
+        actorId: 6,
+      });
+      expect(mockTasksGateway.revokeGroupAccess).toHaveBeenCalledWith(1, 6);
     });
 
     it('should throw GroupMemberNotFoundError', async () => {
@@ -522,7 +541,20 @@ describe('GroupService', () => {
         ),
         'test',
         'test group',
+        actor.user.id,
+      );
+
+      // 8. in-app notification without the one-time link
+      expect(mockNotifications.notify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 2,
+          actorId: 1,
+          type: 'GROUP_INVITED',
+          title: 'test invited you to join "test group"',
+          groupId: 1,
+        }),
       );
+      expect(mockNotifications.notify.mock.calls[0][0].url).toBeUndefined();
     });
 
     it('should throw GroupNotFoundError if can not find actor in group', async () => {
@@ -682,6 +714,12 @@ describe('GroupService', () => {
         create: { groupId: 1, userId: 2, role: GroupRole.MEMBER },
         update: {},
       });
+      expect(mockTasksGateway.joinGroupRoom).toHaveBeenCalledWith(1, 2);
+      expect(mockTasksGateway.broadcastMemberChange).toHaveBeenCalledWith(1, {
+        type: 'MEMBER_JOINED',
+        userId: 2,
+        actorId: 2,
+      });
     });
 
     it('should throw invalidTokenError.invite if token not found', async () => {
@@ -763,6 +801,14 @@ describe('GroupService', () => {
         where: { groupId_userId: { groupId: 1, userId: 5 } },
         data: { role: GroupRole.ADMIN },
       });
+      expect(mockNotifications.notify).toHaveBeenCalledWith({
+        userId: 5,
+        actorId: 1,
+        type: 'ROLE_CHANGED',
+        title: 'Your role in "test group" is now ADMIN',
+        url: '/groups/1',
+        groupId: 1,
+      });
     });
 
     it('should throw userNotFoundError', async () => {
@@ -815,6 +861,7 @@ describe('GroupService', () => {
         select: { userId: true, role: true },
       });
       expect(mockPrismaService.groupMember.update).not.toHaveBeenCalled();
+      expect(mockNotifications.notify).not.toHaveBeenCalled();
     });
   });
 
@@ -898,6 +945,10 @@ describe('GroupService', () => {
         expectQueried(actor.id, target.id);
         // 刪除行為斷言
         expectDeleted(target.id);
+        expect(mockTasksGateway.revokeGroupAccess).toHaveBeenCalledWith(
+          groupId,
+          target.id,
+        );
       });
     });
 
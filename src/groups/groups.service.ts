@@ -3,7 +3,9 @@ import { PrismaService } from 'src/prisma/prisma.service';
 import { UsersService } from 'src/users/users.service';
 import {
   ActionTokenType,
+  Group,
   GroupRole,
+  NotificationType,
   Prisma,
 } from 'src/generated/prisma/client';
 import {
@@ -19,6 +21,8 @@ import { SecurityService } from 'src/security/security.service';
 import { PageDto } from 'src/common/dto/page.dto';
 import { PageMetaDto } from 'src/common/dto/page-meta.dto';
 import { UserAccessInfo } from 'src/auth/types/auth';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { TasksGateWay } from 'src/tasks/tasks.gateway';
 
 type GroupDetailsItem = Prisma.GroupGetPayload<{
   include: {
@@ -43,21 +47,27 @@ export class GroupsService {
     private readonly usersService: UsersService,
     private readonly securityService: SecurityService,
     private readonly mailService: MailService,
+    private readonly notifications: NotificationsService,
+    private readonly tasksGateway: TasksGateWay,
   ) {}
 
-  async createGroup(ownerId: number, name: string): Promise<void> {
+  async createGroup(ownerId: number, name: string): Promise<Group> {
     /**
      * @todo
      * Consider to develop invite code token
      */
     await this.usersService.findByIdOrThrow(ownerId);
 
-    return this.prismaService.$transaction(async (tx) => {
-      const group = await tx.group.create({ data: { ownerId, name } });
+    const group = await this.prismaService.$transaction(async (tx) => {
+      const created = await tx.group.create({ data: { ownerId, name } });
       await tx.groupMember.create({
-        data: { groupId: group.id, userId: ownerId, role: GroupRole.OWNER },
+        data: { groupId: created.id, userId: ownerId, role: GroupRole.OWNER },
       });
+      return created;
     });
+
+    this.tasksGateway.joinGroupRoom(group.id, ownerId);
+    return group;
   }
 
   async updateGroup(actorId: number, id: number, name: string): Promise<void> {
@@ -195,13 +205,21 @@ export class GroupsService {
         where: { groupId: id, userId, role: { not: GroupRole.OWNER } },
       });
     });
+
+    // 先通知群組（包含自己的其他分頁），再停止收這個群組的即時更新
+    this.tasksGateway.broadcastMemberChange(id, {
+      type: 'MEMBER_LEFT',
+      userId,
+      actorId: userId,
+    });
+    await this.tasksGateway.revokeGroupAccess(id, userId);
   }
 
   async inviteGroupMember(
     id: number,
     actorId: number,
     email: string,
-  ): Promise<boolean> {
+  ): Promise<number | null> {
     /**
      * Invites a user to join a group by email.
      *
@@ -219,6 +237,8 @@ export class GroupsService {
      *
      * Side effects:
      * - Writes/updates an ActionToken row.
+     * - Saves an in-app notification for the invitee. It has no link: the raw token
+     *   only travels by email.
      * - Sends an email to the invitee (out of transaction).
      *
      * Security:
@@ -227,7 +247,7 @@ export class GroupsService {
      * @param id       Group ID
      * @param actorId  Inviter (actor) user ID
      * @param email    Invitee email
-     * @returns Promise<boolean> True if email sent successfully, false otherwise (e.g., mail server config issue).
+     * @returns Promise<boolean> True if the email was queued in the mail outbox, false otherwise (e.g., mail server config issue).
      *
      * @throws GroupsErrors.NotAuthorizedToInviteMember  If the actor is not in the group or lacks permission.
      * @throws UsersErrors.UserNotFoundError             If the email is not associated with an app user.
@@ -298,20 +318,30 @@ export class GroupsService {
       select: { id: true },
     });
 
+    await this.notifications.notify({
+      userId: invitee.id,
+      actorId,
+      type: NotificationType.GROUP_INVITED,
+      title: `${actor.user.name} invited you to join "${actor.group.name}"`,
+      body: 'Open the link in the invitation email to join. It expires in 3 days.',
+      groupId: id,
+    });
+
     const baseUrl = this.config.getOrThrow<string>('BASE_URL');
     const link = new URL(
       `api/groups/invitation/${tokenId}/${rawToken}`,
       baseUrl,
     ).toString();
 
-    const mailSent = this.mailService.sendGroupInvite(
+    const mailId = this.mailService.sendGroupInvite(
       invitee.email,
       invitee.name,
       link,
       actor.user.name,
       actor.group.name,
+      actorId,
     );
-    return mailSent;
+    return mailId;
   }
 
   async verifyInvitation(id: number, token: string): Promise<UserAccessInfo> {
@@ -332,6 +362,7 @@ export class GroupsService {
      * Side effects:
      * - Updates an ActionToken row to mark it as consumed.
      * - Creates or updates a GroupMember row in the database.
+     * - Joins the user's open sockets to the group room and tells the group (`memberChanged`).
      *
      * Security:
      * - Constant-time comparison (safeEqualB64url) to mitigate timing attacks.
@@ -401,6 +432,13 @@ export class GroupsService {
       });
     });
 
+    this.tasksGateway.joinGroupRoom(row.groupId, row.userId);
+    this.tasksGateway.broadcastMemberChange(row.groupId, {
+      type: 'MEMBER_JOINED',
+      userId: row.userId,
+      actorId: row.userId,
+    });
+
     return {
       sub: row.userId,
       userName: row.user.name,
@@ -419,7 +457,7 @@ export class GroupsService {
     newRole: GroupRole,
     actorId: number,
   ) {
-    await this.prismaService.$transaction(async (tx) => {
+    const changed = await this.prismaService.$transaction(async (tx) => {
       const rows = await tx.groupMember.findMany({
         where: {
           groupId: id,
@@ -453,13 +491,28 @@ export class GroupsService {
       }
 
       if (target.role === newRole) {
-        return;
+        return false;
       }
 
       await tx.groupMember.update({
         where: { groupId_userId: { groupId: id, userId: target.userId } },
         data: { role: newRole },
       });
+      return true;
+    });
+    if (!changed) return;
+
+    const group = await this.prismaService.group.findUnique({
+      where: { id },
+      select: { name: true },
+    });
+    await this.notifications.notify({
+      userId: targetId,
+      actorId,
+      type: NotificationType.ROLE_CHANGED,
+      title: `Your role in "${group?.name ?? 'the group'}" is now ${newRole}`,
+      url: `/groups/${id}`,
+      groupId: id,
     });
   }
 
@@ -534,6 +587,13 @@ export class GroupsService {
         where: { groupId_userId: { groupId: id, userId: targetId } },
       });
     });
+
+    this.tasksGateway.broadcastMemberChange(id, {
+      type: 'MEMBER_KICKED',
+      userId: targetId,
+      actorId,
+    });
+    await this.tasksGateway.revokeGroupAccess(id, targetId);
   }
 
   async checkIfMember(id: number, userId: number) {
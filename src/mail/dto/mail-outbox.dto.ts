@@ -0,0 +1,23 @@
+import { Transform, Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { MailStatus } from 'src/generated/prisma/enums';
+
+export class MailOutboxQueryDto {
+  // 沒帶 status 時預設看失敗的信；status=ALL 代表全部
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === 'ALL' ? undefined : value,
+  )
+  @IsEnum(MailStatus)
+  status?: MailStatus;
+
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { AdminGuard } from 'src/auth/guards/admin.guard';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { MailStatus } from 'src/generated/prisma/enums';
+import { MailOutboxService } from './mail-outbox.service';
+import { MailOutboxQueryDto } from './dto/mail-outbox.dto';
+
+@Controller('admin/mail')
+@UseGuards(AdminGuard)
+export class MailOutboxController {
+  constructor(private readonly outbox: MailOutboxService) {}
+
+  @Get()
+  async list(
+    @Query() query: MailOutboxQueryDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    // ?status=ALL 會被 DTO 轉成 undefined，只有完全沒帶才預設 FAILED
+    const status =
+      req.query.status === undefined ? MailStatus.FAILED : query.status;
+    const pageDto = await this.outbox.list(
+      { status, to: query.to },
+      { page: query.page },
+    );
+
+    return res.render('admin/mail-outbox', {
+      mails: pageDto.data,
+      pageDto: pageDto.meta,
+      status: status ?? 'ALL',
+      to: query.to ?? '',
+      statuses: Object.values(MailStatus),
+    });
+  }
+
+  // JSON：查詢某封信目前的寄送狀態
+  @Get(':id')
+  async status(@Param('id', ParseIntPipe) id: number) {
+    const mail = await this.outbox.getStatus(id);
+    if (!mail) throw new NotFoundException('Mail not found.');
+    return mail;
+  }
+
+  @Post(':id/retry')
+  async retry(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const queued = await this.outbox.retry(id);
+    if (queued) {
+      setSession(req, 'success', `Mail #${id} is queued again.`);
+    } else {
+      setSession(
+        req,
+        'warning',
+        `Mail #${id} is not in FAILED state or its one-time links were already cleared.`,
+      );
+    }
+
+    return res.redirect('/admin/mail');
+  }
+}
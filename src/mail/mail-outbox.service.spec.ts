@@ -0,0 +1,282 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MailerService } from '@nestjs-modules/mailer';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailStatus } from 'src/generated/prisma/enums';
+import {
+  backoffDelay,
+  MAX_ATTEMPTS,
+  MailOutboxService,
+} from './mail-outbox.service';
+
+describe('MailOutboxService', () => {
+  let service: MailOutboxService;
+
+  const mockPrismaService = {
+    mailOutbox: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+  const mockMailer = { sendMail: jest.fn() };
+
+  const now = new Date('2026-10-19T04:00:00Z');
+  const pending = {
+    id: 3,
+    to: 'ann@example.com',
+    subject: 'Hi',
+    template: 'users/notification-letter',
+    context: { title: 'Hi' },
+    secretFields: [] as string[],
+    status: MailStatus.PENDING,
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: now,
+    sentAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailOutboxService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: MailerService, useValue: mockMailer },
+      ],
+    }).compile();
+
+    service = module.get(MailOutboxService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.mailOutbox.findMany.mockResolvedValue([]);
+    mockPrismaService.mailOutbox.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  describe('backoffDelay', () => {
+    it('doubles from one minute and is capped at six hours', () => {
+      expect(backoffDelay(1)).toBe(60_000);
+      expect(backoffDelay(3)).toBe(4 * 60_000);
+      expect(backoffDelay(20)).toBe(6 * 60 * 60_000);
+    });
+  });
+
+  describe('enqueue', () => {
+    it('persists the mail and returns its id', async () => {
+      mockPrismaService.mailOutbox.create.mockResolvedValue({ id: 3 });
+
+      await expect(
+        service.enqueue({
+          to: 'ann@example.com',
+          subject: 'Hi',
+          template: 'users/notification-letter',
+          context: { title: 'Hi' },
+        }),
+      ).resolves.toBe(3);
+      expect(mockPrismaService.mailOutbox.create).toHaveBeenCalledWith({
+        data: {
+          to: 'ann@example.com',
+          subject: 'Hi',
+          template: 'users/notification-letter',
+          context: { title: 'Hi' },
+        },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('processDue', () => {
+    it('claims the row before sending and marks it SENT', async () => {
+      mockPrismaService.mailOutbox.findMany.mockResolvedValue([pending]);
+      mockMailer.sendMail.mockResolvedValue({});
+
+      await expect(service.processDue(now)).resolves.toBe(1);
+
+      expect(mockPrismaService.mailOutbox.updateMany).toHaveBeenCalledWith({
+        where: { id: 3, status: MailStatus.PENDING, updatedAt: now },
+        data: {
+          status: MailStatus.SENDING,
+          nextAttemptAt: new Date('2026-10-19T04:05:00Z'),
+        },
+      });
+      expect(mockMailer.sendMail).toHaveBeenCalledWith({
+        to: 'ann@example.com',
+        subject: 'Hi',
+        template: 'users/notification-letter',
+        context: { title: 'Hi' },
+      });
+      expect(mockPrismaService.mailOutbox.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: {
+          status: MailStatus.SENT,
+          sentAt: expect.any(Date),
+          lastError: null,
+        },
+      });
+    });
+
+    it('clears the one-time links of a sent mail', async () => {
+      mockPrismaService.mailOutbox.findMany.mockResolvedValue([
+        {
+          ...pending,
+          template: 'auth/reset-password-letter',
+          context: { name: 'Ann', link: 'https://app/reset?token=raw' },
+          secretFields: ['link'],
+        },
+      ]);
+      mockMailer.sendMail.mockResolvedValue({});
+
+      await service.processDue(now);
+
+      // 寄信時用的還是原本的連結
+      expect(mockMailer.sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          context: { name: 'Ann', link: 'https://app/reset?token=raw' },
+        }),
+      );
+      expect(mockPrismaService.mailOutbox.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: {
+          status: MailStatus.SENT,
+          sentAt: expect.any(Date),
+          lastError: null,
+          context: { name: 'Ann', link: null },
+        },
+      });
+    });
+
+    it('skips rows another worker already claimed', async () => {
+      mockPrismaService.mailOutbox.findMany.mockResolvedValue([pending]);
+      mockPrismaService.mailOutbox.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.processDue(now)).resolves.toBe(0);
+      expect(mockMailer.sendMail).not.toHaveBeenCalled();
+    });
+
+    it('records the error and schedules a retry with backoff', async () => {
+      mockPrismaService.mailOutbox.findMany.mockResolvedValue([
+        { ...pending, attempts: 2 },
+      ]);
+      mockMailer.sendMail.mockRejectedValue(new Error('SMTP down'));
+
+      await expect(service.processDue(now)).resolves.toBe(0);
+
+      expect(mockPrismaService.mailOutbox.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: {
+          attempts: 3,
+          lastError: 'SMTP down',
+          status: MailStatus.PENDING,
+          nextAttemptAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('gives up after the last attempt', async () => {
+      mockPrismaService.mailOutbox.findMany.mockResolvedValue([
+        { ...pending, attempts: MAX_ATTEMPTS - 1 },
+      ]);
+      mockMailer.sendMail.mockRejectedValue(new Error('550 no such user'));
+
+      await service.processDue(now);
+
+      expect(mockPrismaService.mailOutbox.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            attempts: MAX_ATTEMPTS,
+            status: MailStatus.FAILED,
+          }),
+        }),
+      );
+    });
+
+    it('keeps the links while retrying and clears them once it gives up', async () => {
+      const secret = {
+        ...pending,
+        template: 'tasks/urgent-notification-letter',
+        context: { taskTitle: 'T', acceptLink: 'a?token=x', rejectLink: 'r' },
+        secretFields: ['acceptLink', 'rejectLink'],
+      };
+      mockPrismaService.mailOutbox.findMany.mockResolvedValue([secret]);
+      mockMailer.sendMail.mockRejectedValue(new Error('SMTP down'));
+
+      await service.processDue(now);
+      // 還會重試，連結要留著
+      expect(mockPrismaService.mailOutbox.update).toHaveBeenLastCalledWith({
+        where: { id: 3 },
+        data: {
+          attempts: 1,
+          lastError: 'SMTP down',
+          status: MailStatus.PENDING,
+          nextAttemptAt: expect.any(Date),
+        },
+      });
+
+      mockPrismaService.mailOutbox.findMany.mockResolvedValue([
+        { ...secret, attempts: MAX_ATTEMPTS - 1 },
+      ]);
+      await service.processDue(now);
+      expect(mockPrismaService.mailOutbox.update).toHaveBeenLastCalledWith({
+        where: { id: 3 },
+        data: {
+          attempts: MAX_ATTEMPTS,
+          lastError: 'SMTP down',
+          status: MailStatus.FAILED,
+          nextAttemptAt: expect.any(Date),
+          context: { taskTitle: 'T', acceptLink: null, rejectLink: null },
+        },
+      });
+    });
+  });
+
+  describe('retry', () => {
+    it('re-queues a FAILED mail with fresh attempts', async () => {
+      await expect(service.retry(3)).resolves.toBe(true);
+
+      expect(mockPrismaService.mailOutbox.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 3,
+          status: MailStatus.FAILED,
+          secretFields: { isEmpty: true },
+        },
+        data: {
+          status: MailStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('returns false for mails that did not fail', async () => {
+      mockPrismaService.mailOutbox.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.retry(3)).resolves.toBe(false);
+    });
+  });
+
+  describe('getStatusForRequester', () => {
+    it('only finds mails the user triggered', async () => {
+      mockPrismaService.mailOutbox.findFirst.mockResolvedValue(null);
+
+      await expect(service.getStatusForRequester(3, 7)).resolves.toBeNull();
+      expect(mockPrismaService.mailOutbox.findFirst).toHaveBeenCalledWith({
+        where: { id: 3, requestedById: 7 },
+        // 不含收件者與 SMTP 錯誤訊息
+        select: {
+          id: true,
+          status: true,
+          attempts: true,
+          nextAttemptAt: true,
+          sentAt: true,
+          createdAt: true,
+        },
+      });
+    });
+  });
+});
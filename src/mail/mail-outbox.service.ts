@@ -0,0 +1,226 @@
+import { MailerService } from '@nestjs-modules/mailer';
+import { Injectable, Logger } from '@nestjs/common';
+import { MailStatus, Prisma } from 'src/generated/prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { PageDto } from 'src/common/dto/page.dto';
+import { PageMetaDto } from 'src/common/dto/page-meta.dto';
+import { PageOptionsDto } from 'src/common/dto/page-options.dto';
+
+export interface OutgoingMail {
+  to: string;
+  subject: string;
+  template: string;
+  context: Record<string, unknown>;
+  // 觸發寄信的使用者，之後可以查這封信的狀態；系統自己寄的（摘要、通知）不填
+  requestedById?: number;
+  // context 裡放一次性憑證的欄位（重設密碼、邀請、接受/拒絕連結）；寄出或放棄後會清成 null
+  secretFields?: string[];
+  // 收件者在勿擾時段內：等時段結束才寄
+  nextAttemptAt?: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+export const MAX_ATTEMPTS = 6;
+// 1m, 2m, 4m, 8m, 16m … 最多 6 小時
+const BACKOFF_BASE_MS = MINUTE_MS;
+const BACKOFF_MAX_MS = 6 * 60 * MINUTE_MS;
+// 寄送中超過這個時間還沒結果（程序掛了），下一輪就重新領取
+const SEND_TIMEOUT_MS = 5 * MINUTE_MS;
+const BATCH_SIZE = 20;
+
+const OUTBOX_LIST_SELECT = {
+  id: true,
+  to: true,
+  subject: true,
+  template: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  nextAttemptAt: true,
+  sentAt: true,
+  createdAt: true,
+} satisfies Prisma.MailOutboxSelect;
+
+// 給觸發寄信的使用者看的欄位：不含收件者以外的內容與 SMTP 錯誤訊息
+const OUTBOX_STATUS_SELECT = {
+  id: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  sentAt: true,
+  createdAt: true,
+} satisfies Prisma.MailOutboxSelect;
+
+type OutboxRow = Prisma.MailOutboxGetPayload<object>;
+
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+}
+
+@Injectable()
+export class MailOutboxService {
+  private readonly logger = new Logger('MailOutbox');
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly mailer: MailerService,
+  ) {}
+
+  async enqueue(mail: OutgoingMail): Promise<number> {
+    const { id } = await this.prismaService.mailOutbox.create({
+      data: { ...mail, context: mail.context as Prisma.InputJsonObject },
+      select: { id: true },
+    });
+
+    // 不等下一輪排程，先試著寄一次；失敗會留在佇列裡重試
+    this.processDue().catch((error: Error) =>
+      this.logger.error('Immediate flush failed', error.stack),
+    );
+    return id;
+  }
+
+  async processDue(now: Date = new Date()): Promise<number> {
+    /**
+     * Sends the mails that are due and records the outcome of each attempt.
+     * * @description
+     * 1. **Claim**: A row is moved to SENDING with a conditional update before it is sent,
+     * so two workers (the immediate flush and the scheduler, or several instances) never
+     * send the same mail twice. A SENDING row whose timeout passed is claimed again.
+     * 2. **Success**: The row becomes SENT with `sentAt`.
+     * 3. **Failure**: `attempts` and `lastError` are recorded and the next attempt is
+     * scheduled with exponential backoff; after `MAX_ATTEMPTS` the row becomes FAILED and
+     * shows up in the admin view.
+     * 4. **Secrets**: Once a row is SENT or FAILED its `secretFields` are cleared from
+     * `context`, so the table never keeps a usable one-time link.
+     * * @returns The number of mails that were sent.
+     */
+    const due = await this.prismaService.mailOutbox.findMany({
+      where: {
+        status: { in: [MailStatus.PENDING, MailStatus.SENDING] },
+        nextAttemptAt: { lte: now },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let sent = 0;
+    for (const mail of due) {
+      const { count } = await this.prismaService.mailOutbox.updateMany({
+        where: { id: mail.id, status: mail.status, updatedAt: mail.updatedAt },
+        data: {
+          status: MailStatus.SENDING,
+          nextAttemptAt: new Date(now.getTime() + SEND_TIMEOUT_MS),
+        },
+      });
+      if (!count) continue;
+
+      if (await this.send(mail)) sent++;
+    }
+
+    return sent;
+  }
+
+  async retry(id: number): Promise<boolean> {
+    // 管理員手動重寄：重新給一輪完整的重試次數；一次性連結已經清掉的信重寄也沒用
+    const { count } = await this.prismaService.mailOutbox.updateMany({
+      where: { id, status: MailStatus.FAILED, secretFields: { isEmpty: true } },
+      data: {
+        status: MailStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      },
+    });
+    return count > 0;
+  }
+
+  getStatus(id: number) {
+    return this.prismaService.mailOutbox.findUnique({
+      where: { id },
+      select: OUTBOX_LIST_SELECT,
+    });
+  }
+
+  // 別人的信與不存在的信一樣查不到
+  getStatusForRequester(id: number, requestedById: number) {
+    return this.prismaService.mailOutbox.findFirst({
+      where: { id, requestedById },
+      select: OUTBOX_STATUS_SELECT,
+    });
+  }
+
+  async list(
+    filter: { status?: MailStatus; to?: string },
+    options: { page?: number; limit?: number },
+  ) {
+    const { page = 1, limit = 20 } = options;
+    const where: Prisma.MailOutboxWhereInput = {
+      ...(filter.status && { status: filter.status }),
+      ...(filter.to && {
+        to: { contains: filter.to, mode: Prisma.QueryMode.insensitive },
+      }),
+    };
+
+    const [items, itemCount] = await Promise.all([
+      this.prismaService.mailOutbox.findMany({
+        where,
+        select: OUTBOX_LIST_SELECT,
+        orderBy: { id: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prismaService.mailOutbox.count({ where }),
+    ]);
+
+    const meta = new PageMetaDto({ page, limit } as PageOptionsDto, itemCount);
+    return new PageDto(items, meta);
+  }
+
+  private async send(mail: OutboxRow): Promise<boolean> {
+    try {
+      await this.mailer.sendMail({
+        to: mail.to,
+        subject: mail.subject,
+        template: mail.template,
+        context: mail.context as Record<string, unknown>,
+      });
+
+      await this.prismaService.mailOutbox.update({
+        where: { id: mail.id },
+        data: {
+          status: MailStatus.SENT,
+          sentAt: new Date(),
+          lastError: null,
+          ...this.redact(mail),
+        },
+      });
+      return true;
+    } catch (error) {
+      const attempts = mail.attempts + 1;
+      const failed = attempts >= MAX_ATTEMPTS;
+      this.logger.warn(
+        `Sending mail #${mail.id} to ${mail.to} failed (attempt ${attempts}): ${(error as Error).message}`,
+      );
+
+      await this.prismaService.mailOutbox.update({
+        where: { id: mail.id },
+        data: {
+          attempts,
+          lastError: String((error as Error).message ?? error).slice(0, 1000),
+          status: failed ? MailStatus.FAILED : MailStatus.PENDING,
+          nextAttemptAt: new Date(Date.now() + backoffDelay(attempts)),
+          ...(failed && this.redact(mail)),
+        },
+      });
+      return false;
+    }
+  }
+
+  // 寄出或放棄後不會再用到 context 裡的憑證，留著只會讓讀得到這張表的人拿去用
+  private redact(mail: OutboxRow): Prisma.MailOutboxUpdateInput {
+    if (!mail.secretFields.length) return {};
+
+    const context = { ...(mail.context as Prisma.JsonObject) };
+    for (const field of mail.secretFields) context[field] = null;
+    return { context };
+  }
+}
@@ -0,0 +1,26 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { MailOutboxService } from './mail-outbox.service';
+
+// 邀請、指派、重設密碼回傳的 mailId 用這支查寄送狀態；只看得到自己觸發的信
+@Controller('api/mail')
+export class MailStatusController {
+  constructor(private readonly outbox: MailOutboxService) {}
+
+  @Get(':id')
+  async status(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    const mail = await this.outbox.getStatusForRequester(id, user.userId);
+    if (!mail) throw new NotFoundException('Mail not found.');
+    return mail;
+  }
+}
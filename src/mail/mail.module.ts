@@ -6,6 +6,11 @@ import { join } from 'path';
 import { PugAdapter } from '@nestjs-modules/mailer/dist/adapters/pug.adapter';
 import { AuthModule } from 'src/auth/auth.module';
 import { SecurityModule } from 'src/security/security.module';
+import { NotificationPreferencesModule } from 'src/notifications/notification-preferences.module';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { MailOutboxService } from './mail-outbox.service';
+import { MailOutboxController } from './mail-outbox.controller';
+import { MailStatusController } from './mail-status.controller';
 
 @Module({
   imports: [
@@ -34,8 +39,11 @@ import { SecurityModule } from 'src/security/security.module';
     }),
     ConfigModule.forRoot(),
     SecurityModule,
+    NotificationPreferencesModule,
+    PrismaModule,
   ],
-  providers: [MailService],
-  exports: [MailService],
+  providers: [MailService, MailOutboxService],
+  controllers: [MailOutboxController, MailStatusController],
+  exports: [MailService, MailOutboxService],
 })
 export class MailModule {}
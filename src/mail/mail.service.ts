@@ -1,10 +1,13 @@
-import { MailerService } from '@nestjs-modules/mailer';
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { User } from 'src/generated/prisma/client';
+import { NotificationType } from 'src/generated/prisma/enums';
 import { SecurityService } from 'src/security/security.service';
+import { NotificationPreferencesService } from 'src/notifications/notification-preferences.service';
+import { MailOutboxService, OutgoingMail } from './mail-outbox.service';
 
 interface TaskAssignmentEmailData {
+  assignerId: number;
   assigneeId: number;
   assigneeName: string;
   email: string;
@@ -19,41 +22,69 @@ interface TaskAssignmentEmailData {
   taskUrl: string;
 }
 
+interface MentionEmailData {
+  recipientId: number;
+  email: string;
+  recipientName: string;
+  actorName: string;
+  groupName: string;
+  taskTitle: string;
+  excerpt: string;
+  taskUrl: string;
+}
+
+interface NotificationEmailData {
+  email: string;
+  recipientName: string;
+  title: string;
+  body: string | null;
+  url: string | null; // 站內相對路徑
+  notBefore: Date | null; // 勿擾時段結束的時間
+}
+
+interface DailyDigestEmailData {
+  email: string;
+  recipientName: string;
+  date: string; // 使用者當地的 YYYY-MM-DD
+  expired: { title: string; due: string | null; url: string }[];
+  today: { title: string; due: string | null; url: string }[];
+  homeUrl: string;
+}
+
 @Injectable()
 export class MailService {
+  private readonly logger = new Logger('MailService');
+
   constructor(
-    private readonly mailService: MailerService,
+    private readonly outbox: MailOutboxService,
     private readonly configService: ConfigService,
     private readonly securityService: SecurityService,
+    private readonly preferences: NotificationPreferencesService,
   ) {}
 
-  private async executeSend(options: any): Promise<boolean> {
+  private async executeSend(mail: OutgoingMail): Promise<number | null> {
+    // 回傳 MailOutbox.id 代表「已排入寄信佇列」，之後用它查實際寄送結果；null 代表沒有排入
     const user = this.configService.get('MAIL_USER');
     const pass = this.configService.get('MAIL_PASS');
 
     if (!user || !pass) {
-      console.warn(
-        `[MailService] Skip sending email to ${options.to} since there is no MAIL_USER/PASS`,
+      this.logger.warn(
+        `Skip sending email to ${mail.to} since there is no MAIL_USER/PASS`,
       );
-      return false;
+      return null;
     }
 
-    this.mailService.sendMail(options).catch((error) => {
-      console.error(
-        `[MailService] Background error when sending mail to ${options.to}:`,
-        error,
-      );
-    });
-
-    return true;
+    return this.outbox.enqueue(mail);
   }
 
-  async sendPasswordReset(user: User, link: string): Promise<boolean> {
+  async sendPasswordReset(user: User, link: string): Promise<number | null> {
     return this.executeSend({
       to: user.email,
+      requestedById: user.id,
       subject: 'Password Reset',
       template: 'auth/reset-password-letter',
       context: { name: user.name, link },
+      secretFields: ['link'],
     });
   }
 
@@ -63,18 +94,28 @@ export class MailService {
     link: string,
     inviterName: string,
     groupName: string,
-  ): Promise<boolean> {
+    inviterId: number,
+  ): Promise<number | null> {
     return this.executeSend({
       to: email,
+      requestedById: inviterId,
       subject: 'You are invited to join a group',
       template: 'groups/invite-letter',
       context: { name: inviteeName, email, link, inviterName, groupName },
+      secretFields: ['link'],
     });
   }
 
   async sendTaskAssignNotification(
     data: TaskAssignmentEmailData,
-  ): Promise<boolean> {
+  ): Promise<number | null> {
+    // 指派人勾了緊急信，也要尊重收件者的通知設定；勿擾時段內就延到時段結束再寄
+    const { allowed, notBefore } = await this.preferences.emailSchedule(
+      data.assigneeId,
+      NotificationType.ASSIGNED,
+    );
+    if (!allowed) return null;
+
     let token: string;
     let acceptLink: string;
     let rejectLink: string;
@@ -83,6 +124,8 @@ export class MailService {
       token = await this.securityService.signTaskDecisionToken(
         data.taskId,
         data.assigneeId,
+        null,
+        notBefore,
       );
       acceptLink = `${this.configService.get('BASE_URL')}api/tasks/assignments/decision?token=${token}&status=ACCEPTED`;
       rejectLink = `${this.configService.get('BASE_URL')}api/tasks/assignments/decision?token=${token}&status=REJECTED`;
@@ -91,6 +134,7 @@ export class MailService {
         data.taskId,
         data.assigneeId,
         data.subTaskId,
+        notBefore,
       );
       acceptLink = `${this.configService.get('BASE_URL')}api/tasks/${data.taskId}/sub-tasks/assignments/decision?token=${token}&status=ACCEPTED`;
       rejectLink = `${this.configService.get('BASE_URL')}api/tasks/${data.taskId}/sub-tasks/assignments/decision?token=${token}&status=REJECTED`;
@@ -98,6 +142,7 @@ export class MailService {
 
     return this.executeSend({
       to: data.email,
+      requestedById: data.assignerId,
       subject: `[Urgent] Task from - ${data.assignerName} of ${data.groupName}`,
       template: 'tasks/urgent-notification-letter',
       context: {
@@ -112,6 +157,65 @@ export class MailService {
         acceptLink,
         rejectLink,
       },
+      secretFields: ['acceptLink', 'rejectLink'],
+      ...(notBefore && { nextAttemptAt: notBefore }),
+    });
+  }
+
+  async sendMentionNotification(
+    data: MentionEmailData,
+  ): Promise<number | null> {
+    const { allowed, notBefore } = await this.preferences.emailSchedule(
+      data.recipientId,
+      NotificationType.MENTIONED,
+    );
+    if (!allowed) return null;
+
+    return this.executeSend({
+      to: data.email,
+      subject: `${data.actorName} mentioned you in ${data.groupName}`,
+      template: 'tasks/mention-letter',
+      context: {
+        recipientName: data.recipientName,
+        actorName: data.actorName,
+        groupName: data.groupName,
+        taskTitle: data.taskTitle,
+        excerpt: data.excerpt,
+        taskUrl: data.taskUrl,
+      },
+      ...(notBefore && { nextAttemptAt: notBefore }),
+    });
+  }
+
+  // 沒有專屬信件範本的通知共用這封；是否該寄由 NotificationsService 判斷
+  sendNotificationEmail(data: NotificationEmailData): Promise<number | null> {
+    const baseUrl: string = this.configService.get('BASE_URL') ?? '';
+    return this.executeSend({
+      to: data.email,
+      subject: data.title,
+      template: 'users/notification-letter',
+      context: {
+        recipientName: data.recipientName,
+        title: data.title,
+        body: data.body,
+        link: data.url ? `${baseUrl}${data.url.replace(/^\//, '')}` : null,
+      },
+      ...(data.notBefore && { nextAttemptAt: data.notBefore }),
+    });
+  }
+
+  sendDailyDigest(data: DailyDigestEmailData): Promise<number | null> {
+    return this.executeSend({
+      to: data.email,
+      subject: `Your tasks for ${data.date}: ${data.expired.length} overdue, ${data.today.length} due today`,
+      template: 'users/daily-digest-letter',
+      context: {
+        recipientName: data.recipientName,
+        date: data.date,
+        expired: data.expired,
+        today: data.today,
+        homeUrl: data.homeUrl,
+      },
     });
   }
 }
@@ -5,11 +5,7 @@ import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { doubleCsrf } from 'csrf-csrf';
 import { join } from 'path';
-import {
-  BadRequestException,
-  HttpStatus,
-  ValidationPipe,
-} from '@nestjs/common';
+import { HttpStatus, ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import cookieParser from 'cookie-parser';
 import session from 'express-session';
@@ -17,6 +13,11 @@ import { flashMessage } from './common/middleware/flash.middleware';
 import { UnauthorzedFilter } from './common/filters/unauthorized-redirect.filter';
 import { loggerInstance } from './common/logger/logger';
 import { AllExceptionsFilter } from './common/filters/all-exception.filter';
+import { RealtimeIoAdapter } from './common/adapters/realtime-io.adapter';
+import { requestId } from './common/middleware/request-id.middleware';
+import { createValidationException } from './common/helpers/api-error';
+import { setupOpenApi } from './common/openapi/openapi.document';
+import { bearerTokenOf } from './auth/strategies/access-token.strategy';
 
 const allowBypass = process.env.ALLOW_DEV_CSRF_BYPASS === '1';
 
@@ -51,6 +52,9 @@ async function bootstrap() {
   app.setBaseViewsDir(join(__dirname, '..', 'views'));
   app.setViewEngine('pug');
 
+  // 多台實例時在這裡接上 cluster adapter，presence 與廣播才會跨實例
+  app.useWebSocketAdapter(new RealtimeIoAdapter(app));
+
   app.useGlobalFilters(new AllExceptionsFilter());
 
   app.useGlobalPipes(
@@ -59,18 +63,13 @@ async function bootstrap() {
       forbidNonWhitelisted: true,
       transform: true,
       transformOptions: { enableImplicitConversion: true },
-      exceptionFactory: (errors) => {
-        const messages = errors.map((err) => {
-          // 🚀 使用 Object.values 之前，先確保 constraints 存在，否則給個預設值
-          return err.constraints
-            ? Object.values(err.constraints).join(', ')
-            : 'Validation error';
-        });
-        return new BadRequestException(messages);
-      },
+      exceptionFactory: createValidationException,
     }),
   );
 
+  // 最先掛上，後面的 log 與錯誤回應才拿得到同一個 request id
+  app.use(requestId);
+
   app.use(
     session({
       name: 'group_flash_message',
@@ -86,16 +85,26 @@ async function bootstrap() {
   app.use(express.urlencoded({ extended: false }));
   app.use(express.json());
 
-  app.use((req, res, next) => {
-    if (
-      allowBypass &&
-      req.headers['x-csrf-bypass'] === process.env.BYPASS_CODE &&
-      process.env.NODE_ENV !== 'production'
-    ) {
-      return next();
-    }
-    return doubleCsrfProtection(req, res, next);
-  });
+  app.use(
+    (
+      req: express.Request,
+      res: express.Response,
+      next: express.NextFunction,
+    ) => {
+      if (
+        allowBypass &&
+        req.headers['x-csrf-bypass'] === process.env.BYPASS_CODE &&
+        process.env.NODE_ENV !== 'production'
+      ) {
+        return next();
+      }
+      // 個人存取權杖走 Authorization header，瀏覽器不會自動附上，沒有 CSRF 的問題
+      if (bearerTokenOf(req) !== null) {
+        return next();
+      }
+      return doubleCsrfProtection(req, res, next);
+    },
+  );
 
   app.use((req: any, _res, next) => {
     if (req.body && typeof req.body === 'object' && '_csrf' in req.body) {
@@ -122,6 +131,11 @@ async function bootstrap() {
   app.use(flashMessage);
   app.useGlobalFilters(new UnauthorzedFilter());
 
+  // /api/docs：/api/v1 的 OpenAPI 文件與互動介面，production 不開
+  if (process.env.NODE_ENV !== 'production') {
+    setupOpenApi(app);
+  }
+
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
@@ -0,0 +1,62 @@
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { REMINDER_OFFSET_CHOICES } from '../types/notifications';
+
+export class ListNotificationsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// users-home 的通知設定表單；勾選的格子以 `${type}:${channel}` 送出
+export class UpdateNotificationPreferencesDto {
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === undefined ? [] : ([] as unknown[]).concat(value),
+  )
+  @IsArray()
+  @IsString({ each: true })
+  channels: string[] = [];
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => value || undefined)
+  @Matches(TIME_OF_DAY, { message: 'quietHoursStart must be HH:mm' })
+  quietHoursStart?: string;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) => value || undefined)
+  @Matches(TIME_OF_DAY, { message: 'quietHoursEnd must be HH:mm' })
+  quietHoursEnd?: string;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === undefined ? [] : ([] as unknown[]).concat(value).map(Number),
+  )
+  @IsArray()
+  @IsIn(REMINDER_OFFSET_CHOICES.map((c) => c.minutes), { each: true })
+  reminderOffsets: number[] = [];
+
+  // 下拉選單的空值 = 不寄；型別用 union 避免 implicit conversion 把 '' 變成 0
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === '' || value === null ? null : Number(value),
+  )
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  dailyDigestHour?: number | null;
+}
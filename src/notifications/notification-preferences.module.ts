@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { NotificationPreferencesService } from './notification-preferences.service';
+
+// 獨立成一個模組：MailModule 要讀設定，而 NotificationsModule 又要寄信
+@Module({
+  imports: [PrismaModule],
+  providers: [NotificationPreferencesService],
+  exports: [NotificationPreferencesService],
+})
+export class NotificationPreferencesModule {}
@@ -0,0 +1,272 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationType } from 'src/generated/prisma/enums';
+import {
+  isWithinQuietHours,
+  NotificationPreferencesService,
+  quietHoursEndAt,
+} from './notification-preferences.service';
+
+describe('NotificationPreferencesService', () => {
+  let service: NotificationPreferencesService;
+
+  const mockPrismaService = {
+    user: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    notificationPreference: { findMany: jest.fn(), upsert: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationPreferencesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get(NotificationPreferencesService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(async (cb: any) =>
+      cb(mockPrismaService),
+    );
+  });
+
+  describe('isWithinQuietHours', () => {
+    // 22:00 - 07:00 (Asia/Taipei)，跨午夜
+    const start = 22 * 60;
+    const end = 7 * 60;
+
+    it('handles windows that wrap around midnight in the user time zone', () => {
+      const at = (iso: string) =>
+        isWithinQuietHours(start, end, 'Asia/Taipei', new Date(iso));
+
+      expect(at('2026-10-19T15:30:00Z')).toBe(true); // 23:30 local
+      expect(at('2026-10-19T22:59:00Z')).toBe(true); // 06:59 local
+      expect(at('2026-10-19T23:00:00Z')).toBe(false); // 07:00 local
+      expect(at('2026-10-19T04:00:00Z')).toBe(false); // 12:00 local
+    });
+
+    it('is off when a bound is missing or both are equal', () => {
+      const now = new Date('2026-10-19T15:30:00Z');
+
+      expect(isWithinQuietHours(null, end, 'Asia/Taipei', now)).toBe(false);
+      expect(isWithinQuietHours(start, start, 'Asia/Taipei', now)).toBe(false);
+    });
+  });
+
+  describe('quietHoursEndAt', () => {
+    it('returns when the current quiet window ends', () => {
+      const at = (iso: string) =>
+        quietHoursEndAt(22 * 60, 7 * 60, 'Asia/Taipei', new Date(iso));
+
+      // 23:30:20 local → 07:00 local the next morning
+      expect(at('2026-10-19T15:30:20Z')).toEqual(
+        new Date('2026-10-19T23:00:00Z'),
+      );
+      expect(at('2026-10-19T22:59:00Z')).toEqual(
+        new Date('2026-10-19T23:00:00Z'),
+      );
+      expect(at('2026-10-19T04:00:00Z')).toBeNull(); // 12:00 local
+    });
+  });
+
+  describe('getSettings', () => {
+    it('fills in defaults and keeps locked channels on', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        quietHoursStart: 22 * 60,
+        quietHoursEnd: 7 * 60 + 30,
+        reminderOffsets: [60, 1440],
+        dailyDigestHour: 8,
+      });
+      mockPrismaService.notificationPreference.findMany.mockResolvedValue([
+        {
+          type: NotificationType.ASSIGNED,
+          inApp: true,
+          email: false,
+          realtime: false,
+        },
+        {
+          type: NotificationType.GROUP_INVITED,
+          inApp: false,
+          email: false,
+          realtime: false,
+        },
+      ]);
+
+      const settings = await service.getSettings(9);
+      const byType = new Map(settings.preferences.map((p) => [p.type, p]));
+
+      expect(settings.quietHoursStart).toBe('22:00');
+      expect(settings.quietHoursEnd).toBe('07:30');
+      expect(byType.get(NotificationType.ASSIGNED)).toEqual(
+        expect.objectContaining({ inApp: true, email: false, realtime: false }),
+      );
+      expect(byType.get(NotificationType.GROUP_INVITED)).toEqual(
+        expect.objectContaining({
+          inApp: false,
+          email: true,
+          locked: ['email'],
+        }),
+      );
+      // 沒存過的事件：預設不寄信，到期提醒例外
+      expect(byType.get(NotificationType.ROLE_CHANGED)).toEqual(
+        expect.objectContaining({ inApp: true, email: false, realtime: true }),
+      );
+      expect(byType.get(NotificationType.DUE_SOON)).toEqual(
+        expect.objectContaining({ email: true }),
+      );
+      expect(settings.dailyDigestHour).toBe(8);
+      expect(
+        settings.reminderChoices.filter((c) => c.checked).map((c) => c.minutes),
+      ).toEqual([60, 1440]);
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('saves every cell and the quiet hours', async () => {
+      await service.updateSettings(9, {
+        channels: ['MENTIONED:email', 'MENTIONED:inApp', 'bogus:email'],
+        quietHoursStart: '22:00',
+        quietHoursEnd: '07:00',
+      });
+
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).toHaveBeenCalledWith({
+        where: { userId_type: { userId: 9, type: 'MENTIONED' } },
+        create: {
+          userId: 9,
+          type: 'MENTIONED',
+          inApp: true,
+          email: true,
+          realtime: false,
+        },
+        update: { inApp: true, email: true, realtime: false },
+      });
+      expect(
+        mockPrismaService.notificationPreference.upsert,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: { inApp: false, email: false, realtime: false },
+        }),
+      );
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: { quietHoursStart: 1320, quietHoursEnd: 420 },
+      });
+    });
+
+    it('saves reminder offsets sorted and unique, and the digest hour', async () => {
+      await service.updateSettings(9, {
+        channels: [],
+        reminderOffsets: [1440, 60, 1440],
+        dailyDigestHour: null,
+      });
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: {
+          quietHoursStart: null,
+          quietHoursEnd: null,
+          reminderOffsets: [60, 1440],
+          dailyDigestHour: null,
+        },
+      });
+    });
+
+    it('clears quiet hours when only one bound is given', async () => {
+      await service.updateSettings(9, {
+        channels: [],
+        quietHoursStart: '22:00',
+      });
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: { quietHoursStart: null, quietHoursEnd: null },
+      });
+    });
+  });
+
+  describe('emailSchedule', () => {
+    it('delays email until the quiet hours end instead of dropping it', async () => {
+      mockPrismaService.user.findMany.mockResolvedValue([
+        {
+          id: 9,
+          email: 'ann@example.com',
+          name: 'Ann',
+          timeZone: 'Asia/Taipei',
+          quietHoursStart: 22 * 60,
+          quietHoursEnd: 7 * 60,
+          notificationPrefs: [],
+        },
+      ]);
+      const night = new Date('2026-10-19T15:30:00Z'); // 23:30 local
+      const noon = new Date('2026-10-19T04:00:00Z'); // 12:00 local
+
+      await expect(
+        service.emailSchedule(9, NotificationType.ASSIGNED, night),
+      ).resolves.toEqual({
+        allowed: true,
+        notBefore: new Date('2026-10-19T23:00:00Z'), // 07:00 local
+      });
+      await expect(
+        service.emailSchedule(9, NotificationType.ASSIGNED, noon),
+      ).resolves.toEqual({ allowed: true, notBefore: null });
+    });
+
+    it('respects a turned-off channel', async () => {
+      mockPrismaService.user.findMany.mockResolvedValue([
+        {
+          id: 9,
+          email: 'ann@example.com',
+          name: 'Ann',
+          timeZone: 'Asia/Taipei',
+          quietHoursStart: null,
+          quietHoursEnd: null,
+          notificationPrefs: [
+            {
+              type: NotificationType.MENTIONED,
+              inApp: true,
+              email: false,
+              realtime: true,
+            },
+          ],
+        },
+      ]);
+
+      await expect(
+        service.emailSchedule(9, NotificationType.MENTIONED),
+      ).resolves.toEqual({ allowed: false, notBefore: null });
+    });
+  });
+
+  describe('channelsFor', () => {
+    const recipient = (quietUntil: Date | null) => ({
+      userId: 9,
+      email: 'ann@example.com',
+      name: 'Ann',
+      quietUntil,
+      overrides: new Map([
+        [
+          NotificationType.DUE_SOON,
+          { inApp: false, email: true, realtime: true },
+        ],
+      ]),
+    });
+
+    it('skips realtime during quiet hours but keeps the entry in the bell', () => {
+      expect(
+        service.channelsFor(
+          recipient(new Date('2026-10-19T23:00:00Z')),
+          NotificationType.DUE_SOON,
+        ),
+      ).toEqual({ inApp: true, email: true, realtime: false });
+      expect(
+        service.channelsFor(recipient(null), NotificationType.DUE_SOON),
+      ).toEqual({ inApp: false, email: true, realtime: true });
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { Injectable } from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationType } from 'src/generated/prisma/enums';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationChannels,
+  EmailSchedule,
+  NotificationRecipient,
+  NotificationSettings,
+  NotificationSettingsInput,
+  REMINDER_OFFSET_CHOICES,
+} from './types/notifications';
+
+// 設定頁的顯示順序與名稱
+const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  ASSIGNED: 'Assigned to me',
+  ASSIGNMENT_ACCEPTED: 'My assignment was accepted',
+  ASSIGNMENT_DECLINED: 'My assignment was declined',
+  TASK_FORCE_CLOSED: 'Task force closed',
+  SUB_TASK_CLOSED: 'Sub-task closed',
+  MENTIONED: 'Mentioned in a comment',
+  GROUP_INVITED: 'Invited to a group',
+  ROLE_CHANGED: 'Group role changed',
+  DUE_SOON: 'Due soon',
+};
+
+// 沒有設定過的事件：站內與即時都開，只有原本就會寄信的事件與到期提醒預設寄信
+const DEFAULT_EMAIL_TYPES: NotificationType[] = [
+  NotificationType.ASSIGNED,
+  NotificationType.MENTIONED,
+  NotificationType.GROUP_INVITED,
+  NotificationType.DUE_SOON,
+];
+
+// 邀請連結只在信裡，收件者可能還沒有帳號，所以邀請信不能關
+const LOCKED_CHANNELS: Partial<
+  Record<NotificationType, NotificationChannel[]>
+> = { GROUP_INVITED: ['email'] };
+
+function defaultChannels(type: NotificationType): NotificationChannels {
+  return {
+    inApp: true,
+    email: DEFAULT_EMAIL_TYPES.includes(type),
+    realtime: true,
+  };
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function toTimeOfDay(minutes: number | null): string | null {
+  if (minutes === null) return null;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+export function isWithinQuietHours(
+  start: number | null,
+  end: number | null,
+  timeZone: string,
+  now: Date = new Date(),
+): boolean {
+  if (start === null || end === null || start === end) return false;
+
+  const local = toMinutes(formatInTimeZone(now, timeZone, 'HH:mm'));
+  // 跨午夜的時段（22:00 - 07:00）要拆成兩段判斷
+  return start < end
+    ? local >= start && local < end
+    : local >= start || local < end;
+}
+
+// 正在勿擾時段內就回傳時段結束的時間，延後的信排到這個時間寄；不在時段內回傳 null
+export function quietHoursEndAt(
+  start: number | null,
+  end: number | null,
+  timeZone: string,
+  now: Date = new Date(),
+): Date | null {
+  if (!isWithinQuietHours(start, end, timeZone, now)) return null;
+
+  const local = toMinutes(formatInTimeZone(now, timeZone, 'HH:mm'));
+  const minutesLeft = (end! - local + 24 * 60) % (24 * 60);
+  const startOfMinute = Math.floor(now.getTime() / 60_000) * 60_000;
+  return new Date(startOfMinute + minutesLeft * 60_000);
+}
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async getSettings(userId: number): Promise<NotificationSettings> {
+    const [user, rows] = await Promise.all([
+      this.prismaService.user.findUnique({
+        where: { id: userId },
+        select: {
+          quietHoursStart: true,
+          quietHoursEnd: true,
+          reminderOffsets: true,
+          dailyDigestHour: true,
+        },
+      }),
+      this.prismaService.notificationPreference.findMany({
+        where: { userId },
+      }),
+    ]);
+    const saved = new Map(rows.map((r) => [r.type, r]));
+    const reminderOffsets = user?.reminderOffsets ?? [];
+
+    const preferences = (
+      Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[]
+    ).map((type) => {
+      const row = saved.get(type);
+      const channels = row
+        ? { inApp: row.inApp, email: row.email, realtime: row.realtime }
+        : defaultChannels(type);
+      return {
+        type,
+        label: NOTIFICATION_TYPE_LABELS[type],
+        ...this.applyLocks(type, channels),
+        locked: LOCKED_CHANNELS[type] ?? [],
+      };
+    });
+
+    return {
+      preferences,
+      quietHoursStart: toTimeOfDay(user?.quietHoursStart ?? null),
+      quietHoursEnd: toTimeOfDay(user?.quietHoursEnd ?? null),
+      reminderOffsets,
+      reminderChoices: REMINDER_OFFSET_CHOICES.map((c) => ({
+        ...c,
+        checked: reminderOffsets.includes(c.minutes),
+      })),
+      dailyDigestHour: user?.dailyDigestHour ?? null,
+    };
+  }
+
+  async updateSettings(
+    userId: number,
+    input: NotificationSettingsInput,
+  ): Promise<void> {
+    /**
+     * Saves the whole channel × event matrix and the quiet hours of a user.
+     * * @description
+     * 1. **Checked Cells**: `input.channels` holds the checked cells as `${type}:${channel}`;
+     * every cell that is missing is saved as turned off, unknown cells are ignored.
+     * 2. **Quiet Hours**: Saved as minutes after local midnight, so they follow the user's
+     * `timeZone`. They are only kept when both ends are set and differ; otherwise they are
+     * cleared.
+     * 3. **Reminders & Digest**: `reminderOffsets` (minutes before due) and `dailyDigestHour`
+     * are read by the scheduler (see `DueRemindersService` / `DailyDigestService`); fields
+     * that are not given are left as they are.
+     */
+    const checked = new Set(input.channels);
+    const types = Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[];
+    const { quietHoursStart, quietHoursEnd, reminderOffsets, dailyDigestHour } =
+      input;
+    const hasQuietHours =
+      !!quietHoursStart && !!quietHoursEnd && quietHoursStart !== quietHoursEnd;
+
+    await this.prismaService.$transaction(async (tx) => {
+      for (const type of types) {
+        const channels = Object.fromEntries(
+          NOTIFICATION_CHANNELS.map((c) => [c, checked.has(`${type}:${c}`)]),
+        ) as NotificationChannels;
+
+        await tx.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, ...channels },
+          update: channels,
+        });
+      }
+
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          quietHoursStart: hasQuietHours ? toMinutes(quietHoursStart) : null,
+          quietHoursEnd: hasQuietHours ? toMinutes(quietHoursEnd) : null,
+          ...(reminderOffsets && {
+            reminderOffsets: [...new Set(reminderOffsets)].sort(
+              (a, b) => a - b,
+            ),
+          }),
+          ...(dailyDigestHour !== undefined && { dailyDigestHour }),
+        },
+      });
+    });
+  }
+
+  async getRecipients(
+    userIds: number[],
+    now: Date = new Date(),
+  ): Promise<Map<number, NotificationRecipient>> {
+    // 一次撈齊收件者與他們的設定，給 NotificationsService 分派管道
+    const users = await this.prismaService.user.findMany({
+      where: { id: { in: userIds } },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        timeZone: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+        notificationPrefs: {
+          select: { type: true, inApp: true, email: true, realtime: true },
+        },
+      },
+    });
+
+    return new Map(
+      users.map((u) => [
+        u.id,
+        {
+          userId: u.id,
+          email: u.email,
+          name: u.name,
+          quietUntil: quietHoursEndAt(
+            u.quietHoursStart,
+            u.quietHoursEnd,
+            u.timeZone,
+            now,
+          ),
+          overrides: new Map(
+            u.notificationPrefs.map(({ type, ...channels }) => [
+              type,
+              channels,
+            ]),
+          ),
+        },
+      ]),
+    );
+  }
+
+  channelsFor(
+    recipient: NotificationRecipient | undefined,
+    type: NotificationType,
+  ): NotificationChannels {
+    /**
+     * Resolves which channels a notification is delivered through.
+     * * @description
+     * 1. **Defaults**: Event types the user never saved fall back to the defaults.
+     * 2. **Quiet Hours**: Realtime pushes are skipped. A notification that would only have
+     * been pushed is stored in-app instead, so the user still finds it in the bell. Email
+     * stays on: callers queue it with `recipient.quietUntil` and the outbox sends it when
+     * the quiet hours end.
+     * 3. **Locks**: Channels that cannot be turned off (the invitation email) stay on.
+     */
+    const channels = recipient?.overrides.get(type) ?? defaultChannels(type);
+    const quiet = !!recipient?.quietUntil;
+
+    return this.applyLocks(type, {
+      inApp: channels.inApp || (quiet && channels.realtime),
+      email: channels.email,
+      realtime: channels.realtime && !quiet,
+    });
+  }
+
+  async emailSchedule(
+    userId: number,
+    type: NotificationType,
+    now: Date = new Date(),
+  ): Promise<EmailSchedule> {
+    // 給自己寄專屬範本的模組用：能不能寄，以及勿擾時段內要延到什麼時候寄
+    const recipients = await this.getRecipients([userId], now);
+    const recipient = recipients.get(userId);
+    return {
+      allowed: this.channelsFor(recipient, type).email,
+      notBefore: recipient?.quietUntil ?? null,
+    };
+  }
+
+  private applyLocks(
+    type: NotificationType,
+    channels: NotificationChannels,
+  ): NotificationChannels {
+    const locked = LOCKED_CHANNELS[type] ?? [];
+    return Object.fromEntries(
+      NOTIFICATION_CHANNELS.map((c) => [c, channels[c] || locked.includes(c)]),
+    ) as NotificationChannels;
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import {
+  ListNotificationsQueryDto,
+  UpdateNotificationPreferencesDto,
+} from './dto/notifications.dto';
+
+// 鈴鐺下拉選單用的 JSON API（public/js/notification-bell.js）與通知設定表單
+@Controller('api/notifications')
+export class NotificationsController {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly preferences: NotificationPreferencesService,
+  ) {}
+
+  @Get('')
+  async list(
+    @Query() query: ListNotificationsQueryDto,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    return this.notificationsService.list(user.userId, query.limit);
+  }
+
+  @Post('read-all')
+  @HttpCode(HttpStatus.OK)
+  async markAllRead(@GetCurrentUser() user: CurrentUser) {
+    const unreadCount = await this.notificationsService.markAllRead(
+      user.userId,
+    );
+    return { unreadCount };
+  }
+
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  async markRead(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    const unreadCount = await this.notificationsService.markRead(
+      user.userId,
+      id,
+    );
+    return { unreadCount };
+  }
+
+  @Post(':id/dismiss')
+  @HttpCode(HttpStatus.OK)
+  async dismiss(
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    const unreadCount = await this.notificationsService.dismiss(
+      user.userId,
+      id,
+    );
+    return { unreadCount };
+  }
+
+  @Get('preferences')
+  async getPreferences(@GetCurrentUser() user: CurrentUser) {
+    return this.preferences.getSettings(user.userId);
+  }
+
+  @Post('preferences')
+  async updatePreferences(
+    @Req() req: Request,
+    @Body() dto: UpdateNotificationPreferencesDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    await this.preferences.updateSettings(user.userId, dto);
+    setSession(req, 'success', 'Notification settings saved.');
+    return res.redirect('/users-home');
+  }
+}
@@ -0,0 +1,15 @@
+import { WebSocketGateway, WebSocketServer } from '@nestjs/websockets';
+import { Server } from 'socket.io';
+import { NotificationItem } from './types/notifications';
+
+// 與 TasksGateWay 共用同一個 server，連線驗證（與加入 user_ 房間）在那裡處理
+@WebSocketGateway()
+export class NotificationsGateway {
+  @WebSocketServer()
+  server: Server;
+
+  // 推到收件者自己的房間；每個通過驗證的連線都會自動加入 user_ 房間
+  pushToUser(userId: number, item: NotificationItem) {
+    this.server.to(`user_${userId}`).emit('notificationCreated', item);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { MailModule } from 'src/mail/mail.module';
+import { NotificationsService } from './notifications.service';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsGateway } from './notifications.gateway';
+import { NotificationPreferencesModule } from './notification-preferences.module';
+
+@Module({
+  imports: [PrismaModule, MailModule, NotificationPreferencesModule],
+  providers: [NotificationsService, NotificationsGateway],
+  controllers: [NotificationsController],
+  exports: [NotificationsService, NotificationPreferencesModule],
+})
+export class NotificationsModule {}
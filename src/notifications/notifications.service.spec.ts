@@ -0,0 +1,277 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationType } from 'src/generated/prisma/enums';
+import { MailService } from 'src/mail/mail.service';
+import { NotificationsService } from './notifications.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationsGateway } from './notifications.gateway';
+import { NotificationChannels } from './types/notifications';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+
+  const mockPrismaService = {
+    notification: {
+      createManyAndReturn: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  const mockPreferences = {
+    getRecipients: jest.fn(),
+    channelsFor: jest.fn(),
+  };
+  const mockMailService = { sendNotificationEmail: jest.fn() };
+  const mockGateway = { pushToUser: jest.fn() };
+  const allChannels: NotificationChannels = {
+    inApp: true,
+    email: true,
+    realtime: true,
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationPreferencesService, useValue: mockPreferences },
+        { provide: MailService, useValue: mockMailService },
+        { provide: NotificationsGateway, useValue: mockGateway },
+      ],
+    }).compile();
+
+    service = module.get(NotificationsService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    // 模擬寫入：每筆都是新的，回傳時補上 id
+    mockPrismaService.notification.createManyAndReturn.mockImplementation(
+      async ({ data }: { data: object[] }) =>
+        data.map((n, i) => ({ ...n, id: i + 1, createdAt: new Date() })),
+    );
+    mockPreferences.getRecipients.mockResolvedValue(
+      new Map([
+        [
+          2,
+          {
+            userId: 2,
+            email: 'ann@example.com',
+            name: 'Ann',
+            quietUntil: null,
+          },
+        ],
+      ]),
+    );
+    mockPreferences.channelsFor.mockReturnValue(allChannels);
+  });
+
+  describe('notify', () => {
+    it('skips the actor and clips long titles', async () => {
+      const created = await service.notify([
+        {
+          userId: 1,
+          actorId: 1,
+          type: NotificationType.MENTIONED,
+          title: 'self',
+        },
+        {
+          userId: 2,
+          actorId: 1,
+          type: NotificationType.MENTIONED,
+          title: 'x'.repeat(300),
+          taskId: 5,
+        },
+      ]);
+
+      expect(created).toBe(1);
+      const { data, skipDuplicates } =
+        mockPrismaService.notification.createManyAndReturn.mock.calls[0][0];
+      expect(skipDuplicates).toBe(true);
+      expect(data).toEqual([
+        expect.objectContaining({
+          userId: 2,
+          actorId: 1,
+          taskId: 5,
+          subTaskId: null,
+          url: null,
+          dedupeKey: null,
+          inApp: true,
+        }),
+      ]);
+      expect(data[0].title).toHaveLength(255);
+      expect(data[0].title.endsWith('…')).toBe(true);
+    });
+
+    it('does not hit the database when nobody is left', async () => {
+      await expect(
+        service.notify({
+          userId: 1,
+          actorId: 1,
+          type: NotificationType.ASSIGNED,
+          title: 'self-assigned',
+        }),
+      ).resolves.toBe(0);
+      expect(
+        mockPrismaService.notification.createManyAndReturn,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('delivers new notifications through the channels the recipient picked', async () => {
+      mockPreferences.channelsFor.mockReturnValue({
+        inApp: false,
+        email: true,
+        realtime: true,
+      });
+
+      await service.notify([
+        {
+          userId: 2,
+          actorId: 1,
+          type: NotificationType.TASK_FORCE_CLOSED,
+          title: 'Amy force closed "Ship it"',
+          url: '/tasks/5',
+        },
+        {
+          userId: 2,
+          actorId: 1,
+          type: NotificationType.MENTIONED,
+          title: 'Amy mentioned you in "Ship it"',
+        },
+      ]);
+
+      const { data } =
+        mockPrismaService.notification.createManyAndReturn.mock.calls[0][0];
+      // 關掉站內通知仍要留一筆，鈴鐺不會顯示
+      expect(data[0].inApp).toBe(false);
+      expect(mockGateway.pushToUser).toHaveBeenCalledTimes(2);
+      expect(mockGateway.pushToUser).toHaveBeenCalledWith(
+        2,
+        expect.objectContaining({ id: 1, title: 'Amy force closed "Ship it"' }),
+      );
+      // 提及有自己的信件範本，這裡只寄通用通知信
+      expect(mockMailService.sendNotificationEmail).toHaveBeenCalledTimes(1);
+      expect(mockMailService.sendNotificationEmail).toHaveBeenCalledWith({
+        email: 'ann@example.com',
+        recipientName: 'Ann',
+        title: 'Amy force closed "Ship it"',
+        body: null,
+        url: '/tasks/5',
+        notBefore: null,
+      });
+    });
+
+    it('holds the email until the quiet hours end instead of dropping it', async () => {
+      const quietUntil = new Date('2026-10-19T23:00:00Z');
+      mockPreferences.getRecipients.mockResolvedValue(
+        new Map([
+          [2, { userId: 2, email: 'ann@example.com', name: 'Ann', quietUntil }],
+        ]),
+      );
+
+      await service.notify({
+        userId: 2,
+        type: NotificationType.DUE_SOON,
+        title: '"Ship it" is due in 1 hour',
+        url: '/tasks/5',
+        dedupeKey: 'due:5:60',
+      });
+
+      expect(mockMailService.sendNotificationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ notBefore: quietUntil }),
+      );
+    });
+
+    it('does not deliver duplicates again', async () => {
+      mockPrismaService.notification.createManyAndReturn.mockResolvedValue([]);
+
+      await expect(
+        service.notify({
+          userId: 2,
+          type: NotificationType.DUE_SOON,
+          title: '"Report" is due soon',
+          dedupeKey: 'due-soon:task:1:0',
+        }),
+      ).resolves.toBe(0);
+      expect(mockGateway.pushToUser).not.toHaveBeenCalled();
+      expect(mockMailService.sendNotificationEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('list', () => {
+    it('returns the newest notifications with the unread count', async () => {
+      const createdAt = new Date('2026-10-19T08:00:00Z');
+      mockPrismaService.notification.findMany.mockResolvedValue([
+        {
+          id: 3,
+          type: NotificationType.ASSIGNED,
+          title: 'Amy assigned you "Ship it"',
+          body: 'Team',
+          url: '/tasks/1',
+          readAt: null,
+          createdAt,
+          actor: { name: 'Amy' },
+        },
+      ]);
+      mockPrismaService.notification.count.mockResolvedValue(4);
+
+      const result = await service.list(9, 10);
+
+      expect(result).toEqual({
+        unreadCount: 4,
+        items: [
+          {
+            id: 3,
+            type: 'ASSIGNED',
+            title: 'Amy assigned you "Ship it"',
+            body: 'Team',
+            url: '/tasks/1',
+            actorName: 'Amy',
+            read: false,
+            createdAt,
+          },
+        ],
+      });
+      expect(mockPrismaService.notification.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 9, inApp: true },
+          take: 10,
+        }),
+      );
+    });
+  });
+
+  describe('read state', () => {
+    it('only marks the notifications of the current user', async () => {
+      mockPrismaService.notification.count.mockResolvedValue(2);
+
+      await expect(service.markRead(9, 3)).resolves.toBe(2);
+      expect(mockPrismaService.notification.count).toHaveBeenCalledWith({
+        where: { userId: 9, inApp: true, readAt: null },
+      });
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: { id: 3, userId: 9, readAt: null },
+        data: { readAt: expect.any(Date) },
+      });
+    });
+
+    it('marks everything as read', async () => {
+      await expect(service.markAllRead(9)).resolves.toBe(0);
+      expect(mockPrismaService.notification.updateMany).toHaveBeenCalledWith({
+        where: { userId: 9, readAt: null },
+        data: { readAt: expect.any(Date) },
+      });
+    });
+
+    it('dismisses a notification of the current user', async () => {
+      mockPrismaService.notification.count.mockResolvedValue(0);
+
+      await expect(service.dismiss(9, 3)).resolves.toBe(0);
+      expect(mockPrismaService.notification.deleteMany).toHaveBeenCalledWith({
+        where: { id: 3, userId: 9 },
+      });
+    });
+  });
+});
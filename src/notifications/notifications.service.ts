@@ -0,0 +1,193 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationType } from 'src/generated/prisma/client';
+import { MailService } from 'src/mail/mail.service';
+import {
+  NotificationInput,
+  NotificationItem,
+  NotificationList,
+} from './types/notifications';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationsGateway } from './notifications.gateway';
+
+const DEFAULT_LIST_LIMIT = 20;
+// 這些事件有自己的信件範本，由觸發的模組寄送（指派緊急信、提及信、邀請信）
+const DEDICATED_EMAIL_TYPES: NotificationType[] = [
+  NotificationType.ASSIGNED,
+  NotificationType.MENTIONED,
+  NotificationType.GROUP_INVITED,
+];
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+@Injectable()
+export class NotificationsService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly preferences: NotificationPreferencesService,
+    private readonly mailService: MailService,
+    private readonly gateway: NotificationsGateway,
+  ) {}
+
+  async notify(
+    inputs: NotificationInput | NotificationInput[],
+  ): Promise<number> {
+    /**
+     * Saves notifications and delivers them through the channels each recipient picked.
+     * Other modules call this after their own write succeeded.
+     * * @description
+     * 1. **No Self-Notifications**: Entries whose recipient is also the actor are dropped.
+     * 2. **Length Limits**: `title` and `body` are clipped to their column sizes, so callers
+     * can pass task titles and comment excerpts as they are.
+     * 3. **Dedupe**: Entries with a `dedupeKey` the recipient already has are skipped, which
+     * keeps repeated sweeps (e.g. due-soon reminders) from notifying twice. Every entry is
+     * stored, even when in-app is turned off, so the key keeps working for the other channels.
+     * 4. **Channels**: Only newly stored entries are pushed (realtime) and emailed, following
+     * the recipient's preferences and quiet hours; mail queued during quiet hours is sent
+     * when they end. Events with their own email template (see `DEDICATED_EMAIL_TYPES`)
+     * are emailed by the caller instead.
+     * * @param inputs - One notification or a list of them.
+     * @returns The number of notifications that were created.
+     */
+    const rows = ([] as NotificationInput[])
+      .concat(inputs)
+      .filter((n) => n.userId !== n.actorId);
+    if (!rows.length) return 0;
+
+    const recipients = await this.preferences.getRecipients([
+      ...new Set(rows.map((n) => n.userId)),
+    ]);
+
+    const created = await this.prismaService.notification.createManyAndReturn({
+      data: rows.map((n) => ({
+        userId: n.userId,
+        type: n.type,
+        title: clip(n.title, 255),
+        body: n.body ? clip(n.body, 500) : null,
+        url: n.url ?? null,
+        actorId: n.actorId ?? null,
+        groupId: n.groupId ?? null,
+        taskId: n.taskId ?? null,
+        subTaskId: n.subTaskId ?? null,
+        dedupeKey: n.dedupeKey ?? null,
+        inApp: this.preferences.channelsFor(recipients.get(n.userId), n.type)
+          .inApp,
+      })),
+      skipDuplicates: true,
+      select: {
+        id: true,
+        userId: true,
+        type: true,
+        title: true,
+        body: true,
+        url: true,
+        createdAt: true,
+        actor: { select: { name: true } },
+      },
+    });
+
+    for (const n of created) {
+      const recipient = recipients.get(n.userId);
+      const channels = this.preferences.channelsFor(recipient, n.type);
+
+      if (channels.realtime) {
+        this.gateway.pushToUser(n.userId, {
+          id: n.id,
+          type: n.type,
+          title: n.title,
+          body: n.body,
+          url: n.url,
+          actorName: n.actor?.name ?? null,
+          read: false,
+          createdAt: n.createdAt,
+        });
+      }
+
+      if (
+        channels.email &&
+        recipient &&
+        !DEDICATED_EMAIL_TYPES.includes(n.type)
+      ) {
+        await this.mailService.sendNotificationEmail({
+          email: recipient.email,
+          recipientName: recipient.name,
+          title: n.title,
+          body: n.body,
+          url: n.url,
+          notBefore: recipient.quietUntil,
+        });
+      }
+    }
+
+    return created.length;
+  }
+
+  async list(
+    userId: number,
+    limit: number = DEFAULT_LIST_LIMIT,
+  ): Promise<NotificationList> {
+    // 最新的站內通知與未讀數；到期提醒由排程（DueRemindersService）產生
+    const [rows, unreadCount] = await Promise.all([
+      this.prismaService.notification.findMany({
+        where: { userId, inApp: true },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        select: {
+          id: true,
+          type: true,
+          title: true,
+          body: true,
+          url: true,
+          readAt: true,
+          createdAt: true,
+          actor: { select: { name: true } },
+        },
+      }),
+      this.countUnread(userId),
+    ]);
+
+    const items: NotificationItem[] = rows.map((n) => ({
+      id: n.id,
+      type: n.type,
+      title: n.title,
+      body: n.body,
+      url: n.url,
+      actorName: n.actor?.name ?? null,
+      read: !!n.readAt,
+      createdAt: n.createdAt,
+    }));
+    return { unreadCount, items };
+  }
+
+  async countUnread(userId: number): Promise<number> {
+    return this.prismaService.notification.count({
+      where: { userId, inApp: true, readAt: null },
+    });
+  }
+
+  async markRead(userId: number, id: number): Promise<number> {
+    // 只動自己的通知；別人的或已刪除的直接忽略
+    await this.prismaService.notification.updateMany({
+      where: { id, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return this.countUnread(userId);
+  }
+
+  async markAllRead(userId: number): Promise<number> {
+    await this.prismaService.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return 0;
+  }
+
+  async dismiss(userId: number, id: number): Promise<number> {
+    await this.prismaService.notification.deleteMany({
+      where: { id, userId },
+    });
+    return this.countUnread(userId);
+  }
+}
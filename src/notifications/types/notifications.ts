@@ -0,0 +1,82 @@
+import { NotificationType } from 'src/generated/prisma/enums';
+
+export interface NotificationInput {
+  userId: number; // 收件者
+  type: NotificationType;
+  title: string;
+  body?: string | null;
+  url?: string | null; // 站內相對路徑，例如 /tasks/12
+  actorId?: number | null; // 觸發的人；與收件者相同時不通知
+  groupId?: number | null;
+  taskId?: number | null;
+  subTaskId?: number | null;
+  dedupeKey?: string | null;
+}
+
+export interface NotificationItem {
+  id: number;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  url: string | null;
+  actorName: string | null;
+  read: boolean;
+  createdAt: Date;
+}
+
+export interface NotificationList {
+  unreadCount: number;
+  items: NotificationItem[];
+}
+
+export const NOTIFICATION_CHANNELS = ['inApp', 'email', 'realtime'] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+export type NotificationChannels = Record<NotificationChannel, boolean>;
+
+// 設定頁的一列：一種事件 × 三種管道
+export interface NotificationPreferenceRow extends NotificationChannels {
+  type: NotificationType;
+  label: string;
+  locked: NotificationChannel[]; // 不能關的管道（例如邀請信）
+}
+
+// 到期提醒可選的時間點（到期前幾分鐘）
+export const REMINDER_OFFSET_CHOICES: { minutes: number; label: string }[] = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 180, label: '3 hours' },
+  { minutes: 1440, label: '1 day' },
+  { minutes: 2880, label: '2 days' },
+  { minutes: 10080, label: '1 week' },
+];
+
+export interface NotificationSettings {
+  preferences: NotificationPreferenceRow[];
+  quietHoursStart: string | null; // HH:mm，使用者時區
+  quietHoursEnd: string | null;
+  reminderOffsets: number[];
+  reminderChoices: { minutes: number; label: string; checked: boolean }[];
+  dailyDigestHour: number | null; // null = 不寄每日摘要
+}
+
+export interface NotificationSettingsInput {
+  channels: string[]; // `${type}:${channel}`，表單勾選的格子
+  quietHoursStart?: string;
+  quietHoursEnd?: string;
+  reminderOffsets?: number[];
+  dailyDigestHour?: number | null; // null = 不寄每日摘要
+}
+
+// 已套用預設值與勿擾時段的收件者設定
+export interface NotificationRecipient {
+  userId: number;
+  email: string;
+  name: string;
+  quietUntil: Date | null; // 正在勿擾時段內：時段結束的時間
+  overrides: Map<NotificationType, NotificationChannels>;
+}
+
+export interface EmailSchedule {
+  allowed: boolean;
+  notBefore: Date | null; // 勿擾時段內排入的信等到這個時間才寄
+}
@@ -1,7 +1,11 @@
 import { Module } from '@nestjs/common';
 import { UsersHomeController } from './users-home.controller';
+import { TasksModule } from 'src/tasks/tasks.module';
+import { NotificationPreferencesModule } from 'src/notifications/notification-preferences.module';
+import { AuthModule } from 'src/auth/auth.module';
 
 @Module({
+  imports: [TasksModule, NotificationPreferencesModule, AuthModule],
   controllers: [UsersHomeController],
 })
 export class PagesModule {}
@@ -7,6 +7,10 @@ import {
 } from 'src/test/factories/mock-http.factory';
 import { CurrentUser } from 'src/common/types/current-user';
 import { createMockCurrentUser } from 'src/test/factories/mock-user.factory';
+import { TaskCalendarService } from 'src/tasks/services/task-calendar.service';
+import { NotificationPreferencesService } from 'src/notifications/notification-preferences.service';
+import { PersonalAccessTokensService } from 'src/auth/personal-access-tokens.service';
+import { LoginSessionsService } from 'src/auth/login-sessions.service';
 
 describe('UsersHomeController', () => {
   let controller: UsersHomeController;
@@ -16,9 +20,23 @@ describe('UsersHomeController', () => {
 
   const currentUser: CurrentUser = createMockCurrentUser();
 
+  const mockTaskCalendar = { listFeeds: jest.fn() };
+  const mockNotificationPreferences = { getSettings: jest.fn() };
+  const mockAccessTokens = { listTokens: jest.fn() };
+  const mockLoginSessions = { listSessions: jest.fn() };
+
   beforeAll(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [UsersHomeController],
+      providers: [
+        { provide: TaskCalendarService, useValue: mockTaskCalendar },
+        {
+          provide: NotificationPreferencesService,
+          useValue: mockNotificationPreferences,
+        },
+        { provide: PersonalAccessTokensService, useValue: mockAccessTokens },
+        { provide: LoginSessionsService, useValue: mockLoginSessions },
+      ],
     }).compile();
 
     controller = module.get(UsersHomeController);
@@ -34,13 +52,89 @@ describe('UsersHomeController', () => {
 
   describe('home', () => {
     it('renders users/home with mapped groups', async () => {
+      const feeds = [{ id: 1, groupId: null, groupName: null }];
+      const notificationSettings = {
+        preferences: [],
+        quietHoursStart: null,
+        quietHoursEnd: null,
+      };
+      mockTaskCalendar.listFeeds.mockResolvedValueOnce(feeds);
+      mockNotificationPreferences.getSettings.mockResolvedValueOnce(
+        notificationSettings,
+      );
+
       await controller.home(req, currentUser, res);
 
       expect(res.render).toHaveBeenCalledTimes(1);
       const [view, model] = (res.render as jest.Mock).mock.calls[0];
       expect(view).toBe('users/home');
+      expect(mockTaskCalendar.listFeeds).toHaveBeenCalledWith(
+        currentUser.userId,
+      );
       expect(model).toEqual({
         name: 'test',
+        calendarFeeds: feeds,
+        newFeedUrl: null,
+        notificationSettings,
+      });
+    });
+
+    it('shows a newly created feed URL once', async () => {
+      mockTaskCalendar.listFeeds.mockResolvedValueOnce([]);
+      const reqWithUrl = createMockReq();
+      reqWithUrl.session.calendarFeedUrl =
+        'http://localhost:3000/api/calendar/feeds/1/raw.ics';
+
+      await controller.home(reqWithUrl, currentUser, res);
+
+      const [, model] = (res.render as jest.Mock).mock.calls[0];
+      expect(model.newFeedUrl).toBe(
+        'http://localhost:3000/api/calendar/feeds/1/raw.ics',
+      );
+      expect(reqWithUrl.session.calendarFeedUrl).toBeUndefined();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // accessTokensPage
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('accessTokensPage', () => {
+    it('renders the token list and shows a newly created token once', async () => {
+      const tokens = [{ id: 3, name: 'backup', scopes: ['read:tasks'] }];
+      mockAccessTokens.listTokens.mockResolvedValueOnce(tokens);
+      const reqWithToken = createMockReq();
+      reqWithToken.session.newAccessToken = 'gtpat_secret';
+
+      await controller.accessTokensPage(reqWithToken, currentUser, res);
+
+      expect(mockAccessTokens.listTokens).toHaveBeenCalledWith(
+        currentUser.userId,
+      );
+      const [view, model] = (res.render as jest.Mock).mock.calls[0];
+      expect(view).toBe('users/access-tokens');
+      expect(model).toMatchObject({ tokens, newToken: 'gtpat_secret' });
+      expect(reqWithToken.session.newAccessToken).toBeUndefined();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // sessionsPage
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('sessionsPage', () => {
+    it('renders the signed-in devices and marks the current one', async () => {
+      const sessions = [{ id: 4, device: 'Firefox on Windows' }];
+      mockLoginSessions.listSessions.mockResolvedValueOnce(sessions);
+
+      await controller.sessionsPage({ ...currentUser, sessionId: 4 }, res);
+
+      expect(mockLoginSessions.listSessions).toHaveBeenCalledWith(
+        currentUser.userId,
+      );
+      expect(res.render).toHaveBeenCalledWith('users/sessions', {
+        sessions,
+        currentSessionId: 4,
       });
     });
   });
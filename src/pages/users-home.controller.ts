@@ -2,17 +2,74 @@ import { Controller, Get, Req, Res, UseGuards } from '@nestjs/common';
 import { Request, Response } from 'express';
 import { GetCurrentUser } from 'src/common/decorators/user.decorator';
 import { CurrentUser } from 'src/common/types/current-user';
+import { TaskCalendarService } from 'src/tasks/services/task-calendar.service';
+import { NotificationPreferencesService } from 'src/notifications/notification-preferences.service';
+import { PersonalAccessTokensService } from 'src/auth/personal-access-tokens.service';
+import { LoginSessionsService } from 'src/auth/login-sessions.service';
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  ACCESS_TOKEN_SCOPE_LABELS,
+} from 'src/auth/types/auth';
 
 @Controller('users-home')
 export class UsersHomeController {
+  constructor(
+    private readonly taskCalendar: TaskCalendarService,
+    private readonly notificationPreferences: NotificationPreferencesService,
+    private readonly accessTokens: PersonalAccessTokensService,
+    private readonly loginSessions: LoginSessionsService,
+  ) {}
+
   @Get()
   async home(
     @Req() req: Request,
     @GetCurrentUser() user: CurrentUser,
     @Res() res: Response,
   ) {
+    const [calendarFeeds, notificationSettings] = await Promise.all([
+      this.taskCalendar.listFeeds(user.userId),
+      this.notificationPreferences.getSettings(user.userId),
+    ]);
+    const newFeedUrl = req.session.calendarFeedUrl ?? null;
+    delete req.session.calendarFeedUrl;
+
     return res.render('users/home', {
       name: user.userName,
+      calendarFeeds,
+      newFeedUrl,
+      notificationSettings,
+    });
+  }
+
+  @Get('access-tokens')
+  async accessTokensPage(
+    @Req() req: Request,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const tokens = await this.accessTokens.listTokens(user.userId);
+    const newToken = req.session.newAccessToken ?? null;
+    delete req.session.newAccessToken;
+
+    return res.render('users/access-tokens', {
+      tokens,
+      newToken,
+      scopeLabels: ACCESS_TOKEN_SCOPE_LABELS,
+      expiryDays: ACCESS_TOKEN_EXPIRY_DAYS,
+      now: new Date(),
+    });
+  }
+
+  @Get('sessions')
+  async sessionsPage(
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const sessions = await this.loginSessions.listSessions(user.userId);
+
+    return res.render('users/sessions', {
+      sessions,
+      currentSessionId: user.sessionId ?? null,
     });
   }
 }
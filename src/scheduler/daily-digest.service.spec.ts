@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailService } from 'src/mail/mail.service';
+import { TasksService } from 'src/tasks/services/tasks.service';
+import { DailyDigestService } from './daily-digest.service';
+
+describe('DailyDigestService', () => {
+  let service: DailyDigestService;
+
+  const mockPrismaService = {
+    user: { findMany: jest.fn(), updateMany: jest.fn() },
+  };
+  const mockTasksService = { getHomeDashboardData: jest.fn() };
+  const mockMailService = { sendDailyDigest: jest.fn() };
+  const mockConfig = { get: jest.fn().mockReturnValue('http://localhost/') };
+
+  const now = new Date('2026-10-19T01:00:00Z'); // 09:00 Asia/Taipei
+  const ann = {
+    id: 9,
+    name: 'Ann',
+    email: 'ann@example.com',
+    timeZone: 'Asia/Taipei',
+    dailyDigestHour: 8,
+    lastDigestOn: new Date('2026-10-18T00:00:00Z'),
+    quietHoursStart: null,
+    quietHoursEnd: null,
+  };
+  const overdue = {
+    id: 1,
+    title: 'Pay rent',
+    allDay: true,
+    dueAtUtc: new Date('2026-10-17T15:59:59Z'),
+    allDayLocalDate: new Date('2026-10-17T00:00:00Z'),
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DailyDigestService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksService, useValue: mockTasksService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfig },
+      ],
+    }).compile();
+
+    service = module.get(DailyDigestService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockConfig.get.mockReturnValue('http://localhost/');
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+    mockMailService.sendDailyDigest.mockResolvedValue(31);
+    mockTasksService.getHomeDashboardData.mockResolvedValue({
+      expired: [overdue],
+      today: [],
+      none: [],
+    });
+  });
+
+  it('claims the day and mails the dashboard buckets', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([ann]);
+
+    await expect(service.run(now)).resolves.toBe(1);
+
+    expect(mockPrismaService.user.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 9,
+        OR: [
+          { lastDigestOn: null },
+          { lastDigestOn: { lt: new Date('2026-10-19T00:00:00Z') } },
+        ],
+      },
+      data: { lastDigestOn: new Date('2026-10-19T00:00:00Z') },
+    });
+    expect(mockTasksService.getHomeDashboardData).toHaveBeenCalledWith({
+      userId: 9,
+      userName: 'Ann',
+      email: 'ann@example.com',
+      timeZone: 'Asia/Taipei',
+    });
+    expect(mockMailService.sendDailyDigest).toHaveBeenCalledWith({
+      email: 'ann@example.com',
+      recipientName: 'Ann',
+      date: '2026-10-19',
+      expired: [
+        {
+          title: 'Pay rent',
+          due: '2026-10-17',
+          url: 'http://localhost/tasks/1',
+        },
+      ],
+      today: [],
+      homeUrl: 'http://localhost/tasks/home',
+    });
+  });
+
+  it('waits for the digest hour and sends once per local day', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([
+      { ...ann, dailyDigestHour: 10 },
+      { ...ann, id: 10, lastDigestOn: new Date('2026-10-19T00:00:00Z') },
+    ]);
+
+    await expect(service.run(now)).resolves.toBe(0);
+    expect(mockPrismaService.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('holds the digest back during quiet hours', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([
+      { ...ann, quietHoursStart: 22 * 60, quietHoursEnd: 10 * 60 },
+    ]);
+
+    await expect(service.run(now)).resolves.toBe(0);
+    expect(mockPrismaService.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('does not mail when another run already claimed the day', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([ann]);
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.run(now)).resolves.toBe(0);
+    expect(mockTasksService.getHomeDashboardData).not.toHaveBeenCalled();
+  });
+
+  it('does not mail when nothing is overdue or due today', async () => {
+    mockPrismaService.user.findMany.mockResolvedValue([ann]);
+    mockTasksService.getHomeDashboardData.mockResolvedValue({
+      expired: [],
+      today: [],
+      none: [],
+    });
+
+    await expect(service.run(now)).resolves.toBe(0);
+    expect(mockMailService.sendDailyDigest).not.toHaveBeenCalled();
+  });
+});
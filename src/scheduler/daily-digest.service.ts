@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { formatInTimeZone } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailService } from 'src/mail/mail.service';
+import { TasksService } from 'src/tasks/services/tasks.service';
+import { TasksUtils } from 'src/tasks/tasks.util';
+import { isWithinQuietHours } from 'src/notifications/notification-preferences.service';
+
+interface DigestTask {
+  id: number;
+  title: string;
+  allDay: boolean;
+  dueAtUtc: Date | null;
+  allDayLocalDate: Date | null;
+}
+
+@Injectable()
+export class DailyDigestService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly tasksService: TasksService,
+    private readonly mailService: MailService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async run(now: Date = new Date()): Promise<number> {
+    /**
+     * Emails each user a morning digest of their overdue and due-today tasks.
+     * * @description
+     * 1. **When**: Once per local day, on the first run at or after the user's
+     * `dailyDigestHour` (in their `timeZone`) that is outside their quiet hours.
+     * 2. **What**: The `expired` and `today` buckets of `getHomeDashboardData`, so the mail
+     * matches what `tasks/home` shows. Nothing is sent when both are empty.
+     * 3. **Once per Day**: `lastDigestOn` is claimed with a conditional update before the
+     * mail goes out; a second instance (or a retry after a restart) loses the claim.
+     * * @returns The number of digests that were sent.
+     */
+    const users = await this.prismaService.user.findMany({
+      where: { dailyDigestHour: { not: null } },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        timeZone: true,
+        dailyDigestHour: true,
+        lastDigestOn: true,
+        quietHoursStart: true,
+        quietHoursEnd: true,
+      },
+    });
+
+    let sent = 0;
+    for (const user of users) {
+      const { timeZone } = user;
+      const localToday = formatInTimeZone(now, timeZone, 'yyyy-MM-dd');
+      const localHour = Number(formatInTimeZone(now, timeZone, 'H'));
+      // lastDigestOn 是 DATE 欄位，轉回字串直接比較
+      const lastDigest = user.lastDigestOn?.toISOString().slice(0, 10);
+
+      if (localHour < user.dailyDigestHour!) continue;
+      if (lastDigest && lastDigest >= localToday) continue;
+      if (
+        isWithinQuietHours(
+          user.quietHoursStart,
+          user.quietHoursEnd,
+          timeZone,
+          now,
+        )
+      )
+        continue;
+
+      const today = new Date(`${localToday}T00:00:00.000Z`);
+      const { count } = await this.prismaService.user.updateMany({
+        where: {
+          id: user.id,
+          OR: [{ lastDigestOn: null }, { lastDigestOn: { lt: today } }],
+        },
+        data: { lastDigestOn: today },
+      });
+      if (!count) continue;
+
+      const dashboard = await this.tasksService.getHomeDashboardData({
+        userId: user.id,
+        userName: user.name,
+        email: user.email,
+        timeZone,
+      });
+      if (!dashboard.expired.length && !dashboard.today.length) continue;
+
+      const toItem = (task: DigestTask) => this.toDigestItem(task, timeZone);
+      const mailed = await this.mailService.sendDailyDigest({
+        email: user.email,
+        recipientName: user.name,
+        date: localToday,
+        expired: dashboard.expired.map(toItem),
+        today: dashboard.today.map(toItem),
+        homeUrl: `${this.config.get('BASE_URL')}tasks/home`,
+      });
+      if (mailed !== null) sent++;
+    }
+
+    return sent;
+  }
+
+  private toDigestItem(task: DigestTask, timeZone: string) {
+    const due = task.allDay
+      ? TasksUtils.getLocalDueDate(task, timeZone)
+      : task.dueAtUtc
+        ? formatInTimeZone(task.dueAtUtc, timeZone, 'yyyy-MM-dd HH:mm')
+        : null;
+
+    return {
+      title: task.title,
+      due,
+      url: `${this.config.get('BASE_URL')}tasks/${task.id}`,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { DueRemindersService } from './due-reminders.service';
+
+describe('DueRemindersService', () => {
+  let service: DueRemindersService;
+
+  const mockPrismaService = {
+    task: { findMany: jest.fn() },
+    subTask: { findMany: jest.fn() },
+  };
+  const mockNotifications = { notify: jest.fn() };
+
+  const now = new Date('2026-10-19T04:00:00Z'); // 12:00 Asia/Taipei
+  const ann = { id: 9, timeZone: 'Asia/Taipei', reminderOffsets: [60, 1440] };
+  const bob = { id: 7, timeZone: 'UTC', reminderOffsets: [15] };
+
+  const timedTask = {
+    id: 1,
+    title: 'Ship it',
+    allDay: false,
+    dueAtUtc: new Date('2026-10-19T04:30:00Z'), // 30 分鐘後
+    allDayLocalDate: null,
+    groupId: null,
+    owner: ann,
+    assignees: [],
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DueRemindersService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: NotificationsService, useValue: mockNotifications },
+      ],
+    }).compile();
+
+    service = module.get(DueRemindersService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.task.findMany.mockResolvedValue([]);
+    mockPrismaService.subTask.findMany.mockResolvedValue([]);
+    mockNotifications.notify.mockImplementation(async (inputs: any[]) =>
+      Promise.resolve(inputs.length),
+    );
+  });
+
+  it('sends only the nearest offset that has passed, keyed by offset and due moment', async () => {
+    mockPrismaService.task.findMany.mockResolvedValue([timedTask]);
+
+    await expect(service.run(now)).resolves.toBe(1);
+
+    expect(mockNotifications.notify).toHaveBeenCalledWith([
+      expect.objectContaining({
+        userId: 9,
+        type: 'DUE_SOON',
+        title: '"Ship it" is due soon',
+        body: 'Due 2026-10-19 12:30',
+        url: '/tasks/1',
+        taskId: 1,
+        subTaskId: null,
+        dedupeKey: `due-reminder:task:1:60:${timedTask.dueAtUtc.getTime()}`,
+      }),
+    ]);
+  });
+
+  it('reminds current assignees of group items, not the owner', async () => {
+    mockPrismaService.task.findMany.mockResolvedValue([
+      { ...timedTask, groupId: 2, assignees: [{ assignee: bob }] },
+    ]);
+
+    await service.run(now);
+
+    // bob 只設 15 分鐘，30 分鐘後才到期 → 還不用提醒
+    expect(mockNotifications.notify).not.toHaveBeenCalled();
+  });
+
+  it('uses the start of the all-day date in the recipient time zone', async () => {
+    mockPrismaService.subTask.findMany.mockResolvedValue([
+      {
+        id: 3,
+        taskId: 1,
+        title: 'Pack',
+        allDay: true,
+        dueAtUtc: new Date('2026-10-20T15:59:59Z'),
+        allDayLocalDate: new Date('2026-10-20T00:00:00Z'),
+        task: { groupId: null, owner: ann },
+        assignees: [],
+      },
+    ]);
+
+    await service.run(now);
+
+    // 2026-10-20 00:00 Asia/Taipei = 2026-10-19T16:00Z，12 小時後 → 1 天的提醒
+    expect(mockNotifications.notify).toHaveBeenCalledWith([
+      expect.objectContaining({
+        body: 'Due 2026-10-20',
+        url: '/tasks/1/sub-tasks/3',
+        subTaskId: 3,
+        dedupeKey: `due-reminder:sub-task:3:1440:${Date.parse('2026-10-19T16:00:00Z')}`,
+      }),
+    ]);
+  });
+
+  it('skips items that are already due', async () => {
+    mockPrismaService.task.findMany.mockResolvedValue([
+      { ...timedTask, dueAtUtc: new Date('2026-10-19T03:00:00Z') },
+    ]);
+
+    await expect(service.run(now)).resolves.toBe(0);
+    expect(mockNotifications.notify).not.toHaveBeenCalled();
+  });
+});
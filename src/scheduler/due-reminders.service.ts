@@ -0,0 +1,186 @@
+import { Injectable } from '@nestjs/common';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  AssignmentStatus,
+  NotificationType,
+  Prisma,
+  Status,
+} from 'src/generated/prisma/client';
+import { TasksUtils } from 'src/tasks/tasks.util';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import {
+  NotificationInput,
+  REMINDER_OFFSET_CHOICES,
+} from 'src/notifications/types/notifications';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MAX_OFFSET_MS =
+  Math.max(...REMINDER_OFFSET_CHOICES.map((c) => c.minutes)) * MINUTE_MS;
+
+const DUE_ITEM_SELECT = {
+  id: true,
+  title: true,
+  allDay: true,
+  dueAtUtc: true,
+  allDayLocalDate: true,
+} satisfies Prisma.TaskSelect & Prisma.SubTaskSelect;
+
+const RECIPIENT_SELECT = {
+  id: true,
+  timeZone: true,
+  reminderOffsets: true,
+} satisfies Prisma.UserSelect;
+
+// 目前這一輪還在進行中的人才需要提醒
+const ACTIVE_ROUNDS = {
+  where: {
+    isCurrent: true,
+    status: { in: [AssignmentStatus.PENDING, AssignmentStatus.ACCEPTED] },
+  },
+  select: { assignee: { select: RECIPIENT_SELECT } },
+};
+
+interface DueItem {
+  id: number;
+  title: string;
+  allDay: boolean;
+  dueAtUtc: Date | null;
+  allDayLocalDate: Date | null;
+}
+
+interface Recipient {
+  id: number;
+  timeZone: string;
+  reminderOffsets: number[];
+}
+
+@Injectable()
+export class DueRemindersService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly notifications: NotificationsService,
+  ) {}
+
+  async run(now: Date = new Date()): Promise<number> {
+    /**
+     * Sends `DUE_SOON` reminders at each user's `reminderOffsets` before an item is due.
+     * * @description
+     * 1. **Scope**: Open personal tasks (owner), and open group tasks / sub-tasks for members
+     * whose current assignment is still PENDING or ACCEPTED.
+     * 2. **Due Moment**: `dueAtUtc` for timed items; for all-day items the start of
+     * `allDayLocalDate` in the recipient's time zone.
+     * 3. **Which Offset**: Only the nearest offset that has already passed is sent, so an item
+     * created an hour before it is due gets one reminder instead of one per offset. Items that
+     * are already due are skipped — the daily digest covers them.
+     * 4. **Idempotent**: The dedupe key holds the item, the offset and the due moment, so
+     * repeated runs (restarts, several instances) never remind twice, while moving the due
+     * date starts over.
+     * * @returns The number of reminders that were created.
+     */
+    // 全天任務的 dueAtUtc 是建立者當地的當天結束，和收件者當地的 00:00 最多差一天多
+    const dueAtUtc = {
+      gt: new Date(now.getTime() - DAY_MS),
+      lte: new Date(now.getTime() + MAX_OFFSET_MS + 2 * DAY_MS),
+    };
+
+    const [tasks, subTasks] = await Promise.all([
+      this.prismaService.task.findMany({
+        where: { status: Status.OPEN, dueAtUtc },
+        select: {
+          ...DUE_ITEM_SELECT,
+          groupId: true,
+          owner: { select: RECIPIENT_SELECT },
+          assignees: ACTIVE_ROUNDS,
+        },
+      }),
+      this.prismaService.subTask.findMany({
+        where: { status: Status.OPEN, dueAtUtc, task: { status: Status.OPEN } },
+        select: {
+          ...DUE_ITEM_SELECT,
+          taskId: true,
+          task: {
+            select: { groupId: true, owner: { select: RECIPIENT_SELECT } },
+          },
+          assignees: ACTIVE_ROUNDS,
+        },
+      }),
+    ]);
+
+    const inputs: NotificationInput[] = [];
+    for (const t of tasks) {
+      const recipients = t.groupId
+        ? t.assignees.map((a) => a.assignee)
+        : [t.owner];
+      for (const r of recipients) {
+        const reminder = this.buildReminder(t, r, now, {
+          key: `task:${t.id}`,
+          url: `/tasks/${t.id}`,
+          groupId: t.groupId,
+          taskId: t.id,
+        });
+        if (reminder) inputs.push(reminder);
+      }
+    }
+    for (const st of subTasks) {
+      const recipients = st.task.groupId
+        ? st.assignees.map((a) => a.assignee)
+        : [st.task.owner];
+      for (const r of recipients) {
+        const reminder = this.buildReminder(st, r, now, {
+          key: `sub-task:${st.id}`,
+          url: `/tasks/${st.taskId}/sub-tasks/${st.id}`,
+          groupId: st.task.groupId,
+          taskId: st.taskId,
+          subTaskId: st.id,
+        });
+        if (reminder) inputs.push(reminder);
+      }
+    }
+
+    return inputs.length ? this.notifications.notify(inputs) : 0;
+  }
+
+  private buildReminder(
+    item: DueItem,
+    recipient: Recipient,
+    now: Date,
+    target: {
+      key: string;
+      url: string;
+      groupId: number | null;
+      taskId: number;
+      subTaskId?: number;
+    },
+  ): NotificationInput | null {
+    const { timeZone } = recipient;
+    const localDate = TasksUtils.getLocalDueDate(item, timeZone);
+    const dueAt =
+      item.allDay && localDate
+        ? fromZonedTime(`${localDate}T00:00:00`, timeZone)
+        : item.dueAtUtc;
+    if (!dueAt || dueAt <= now) return null;
+
+    const untilDue = dueAt.getTime() - now.getTime();
+    const passed = recipient.reminderOffsets.filter(
+      (minutes) => minutes * MINUTE_MS >= untilDue,
+    );
+    if (!passed.length) return null;
+    const offset = Math.min(...passed);
+
+    return {
+      userId: recipient.id,
+      type: NotificationType.DUE_SOON,
+      title: `"${item.title}" is due soon`,
+      body: item.allDay
+        ? `Due ${localDate}`
+        : `Due ${formatInTimeZone(dueAt, timeZone, 'yyyy-MM-dd HH:mm')}`,
+      url: target.url,
+      groupId: target.groupId,
+      taskId: target.taskId,
+      subTaskId: target.subTaskId ?? null,
+      dedupeKey: `due-reminder:${target.key}:${offset}:${dueAt.getTime()}`,
+    };
+  }
+}
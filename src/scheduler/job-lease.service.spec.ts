@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Prisma } from 'src/generated/prisma/client';
+import { JobLeaseService } from './job-lease.service';
+
+describe('JobLeaseService', () => {
+  let service: JobLeaseService;
+
+  const mockPrismaService = {
+    jobLease: { updateMany: jest.fn(), create: jest.fn() },
+  };
+
+  const now = new Date('2026-10-19T04:00:00Z');
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobLeaseService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get(JobLeaseService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('takes over an expired lease or renews its own', async () => {
+    mockPrismaService.jobLease.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.acquire('daily-digest', 60_000, now)).resolves.toBe(
+      true,
+    );
+    expect(mockPrismaService.jobLease.updateMany).toHaveBeenCalledWith({
+      where: {
+        name: 'daily-digest',
+        OR: [{ expiresAt: { lte: now } }, { holder: service.holder }],
+      },
+      data: {
+        holder: service.holder,
+        expiresAt: new Date('2026-10-19T04:01:00Z'),
+      },
+    });
+    expect(mockPrismaService.jobLease.create).not.toHaveBeenCalled();
+  });
+
+  it('creates the lease on the first run', async () => {
+    mockPrismaService.jobLease.updateMany.mockResolvedValue({ count: 0 });
+    mockPrismaService.jobLease.create.mockResolvedValue({});
+
+    await expect(service.acquire('daily-digest', 60_000, now)).resolves.toBe(
+      true,
+    );
+  });
+
+  it('returns false when another instance holds the lease', async () => {
+    mockPrismaService.jobLease.updateMany.mockResolvedValue({ count: 0 });
+    mockPrismaService.jobLease.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: 'test',
+      }),
+    );
+
+    await expect(service.acquire('daily-digest', 60_000, now)).resolves.toBe(
+      false,
+    );
+  });
+
+  it('releases only its own lease', async () => {
+    mockPrismaService.jobLease.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.release('daily-digest');
+
+    expect(mockPrismaService.jobLease.updateMany).toHaveBeenCalledWith({
+      where: { name: 'daily-digest', holder: service.holder },
+      data: { expiresAt: expect.any(Date) },
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { Prisma } from 'src/generated/prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+@Injectable()
+export class JobLeaseService {
+  // 每個 app 實例一個身分，重啟後就是新的 holder
+  readonly holder = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async acquire(
+    name: string,
+    ttlMs: number,
+    now: Date = new Date(),
+  ): Promise<boolean> {
+    /**
+     * Takes (or renews) the lease of a scheduled job.
+     * * @description
+     * 1. **Take Over**: A lease that expired, or that this instance already holds, is
+     * taken with a single conditional update, so two instances can never both win.
+     * 2. **First Run**: When the job has no row yet it is created; losing that race
+     * (unique violation) simply means another instance holds the lease.
+     * 3. **TTL**: Should outlast one run of the job; an instance that dies mid-run frees
+     * the job once the TTL passes.
+     * * @returns `true` when this instance may run the job now.
+     */
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    const { count } = await this.prismaService.jobLease.updateMany({
+      where: {
+        name,
+        OR: [{ expiresAt: { lte: now } }, { holder: this.holder }],
+      },
+      data: { holder: this.holder, expiresAt },
+    });
+    if (count) return true;
+
+    try {
+      await this.prismaService.jobLease.create({
+        data: { name, holder: this.holder, expiresAt },
+      });
+      return true;
+    } catch (e) {
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === 'P2002'
+      ) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  async release(name: string): Promise<void> {
+    // 只放掉自己手上的租約，下一輪任何實例都能接手
+    await this.prismaService.jobLease.updateMany({
+      where: { name, holder: this.holder },
+      data: { expiresAt: new Date() },
+    });
+  }
+}
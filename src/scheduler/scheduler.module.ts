@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { MailModule } from 'src/mail/mail.module';
+import { TasksModule } from 'src/tasks/tasks.module';
+import { NotificationsModule } from 'src/notifications/notifications.module';
+import { JobLeaseService } from './job-lease.service';
+import { DueRemindersService } from './due-reminders.service';
+import { DailyDigestService } from './daily-digest.service';
+import { SchedulerService } from './scheduler.service';
+
+@Module({
+  imports: [PrismaModule, MailModule, TasksModule, NotificationsModule],
+  providers: [
+    JobLeaseService,
+    DueRemindersService,
+    DailyDigestService,
+    SchedulerService,
+  ],
+})
+export class SchedulerModule {}
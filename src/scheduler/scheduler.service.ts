@@ -0,0 +1,84 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobLeaseService } from './job-lease.service';
+import { DueRemindersService } from './due-reminders.service';
+import { DailyDigestService } from './daily-digest.service';
+import { MailOutboxService } from 'src/mail/mail-outbox.service';
+
+const TICK_MS = 60 * 1000;
+const LEASE_TTL_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class SchedulerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger('Scheduler');
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly jobLease: JobLeaseService,
+    private readonly dueReminders: DueRemindersService,
+    private readonly dailyDigest: DailyDigestService,
+    private readonly mailOutbox: MailOutboxService,
+  ) {}
+
+  onApplicationBootstrap() {
+    // SCHEDULER_ENABLED=false 的實例（例如只跑 API 的機器）不跑排程
+    if (this.config.get('SCHEDULER_ENABLED') === 'false') return;
+
+    this.timer = setInterval(() => void this.tick(), TICK_MS);
+    // 不要因為排程擋住程序結束
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async tick(now: Date = new Date()): Promise<void> {
+    /**
+     * Runs every job once. Called every minute by the interval timer.
+     * * @description
+     * 1. **No Overlap**: A tick that starts while the previous one is still running is
+     * skipped.
+     * 2. **One Instance per Job**: Each job runs under its own `JobLease`, so with several
+     * app instances only one of them runs a given job at a time.
+     * 3. **Isolation**: A failing job is logged and does not stop the other jobs or later
+     * ticks; the jobs themselves are idempotent, so the next tick simply retries.
+     */
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.runJob('due-reminders', () => this.dueReminders.run(now));
+      await this.runJob('daily-digest', () => this.dailyDigest.run(now));
+      // 放最後：前面兩個工作排進佇列的信，這一輪就能寄出
+      await this.runJob('mail-outbox', () => this.mailOutbox.processDue());
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runJob(name: string, job: () => Promise<number>) {
+    try {
+      if (!(await this.jobLease.acquire(name, LEASE_TTL_MS))) return;
+
+      try {
+        const count = await job();
+        if (count) this.logger.log(`${name}: ${count} sent`);
+      } finally {
+        await this.jobLease.release(name);
+      }
+    } catch (error) {
+      this.logger.error(`${name} failed`, (error as Error).stack);
+    }
+  }
+}
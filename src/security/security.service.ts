@@ -71,6 +71,18 @@ export class SecurityService {
     );
   }
 
+  // 與 AccessTokenStrategy 相同的規則，給拿不到 passport 的地方（WebSocket 握手）使用
+  async verifyAccessToken(token: string): Promise<NormalAccessTokenPayload> {
+    try {
+      const payload =
+        await this.jwtService.verifyAsync<NormalAccessTokenPayload>(token);
+      if (payload.tokenUse !== 'access') throw new Error('Not an access token');
+      return payload;
+    } catch (e) {
+      throw AuthErrors.InvalidTokenError.access({ cause: e });
+    }
+  }
+
   async signResetPasswordToken(
     payload: Omit<ResetPasswordTokenPayload, 'tokenUse'>,
   ): Promise<string> {
@@ -88,6 +100,7 @@ export class SecurityService {
     taskId: number,
     userId: number,
     subTaskId: number | null = null,
+    validFrom: Date | null = null,
   ): Promise<string> {
     let data: object;
     if (subTaskId) {
@@ -95,6 +108,10 @@ export class SecurityService {
     } else {
       data = { taskId, userId };
     }
+    // 信延到勿擾時段結束才寄時，有效期從寄出的時間開始算（exp = iat + expiresIn）
+    if (validFrom) {
+      data = { ...data, iat: Math.floor(validFrom.getTime() / 1000) };
+    }
     return this.jwtService.signAsync(data, {
       expiresIn: this.config.getOrThrow('JWT_ACCESS_TOKEN_EXPIRES_IN'),
     });
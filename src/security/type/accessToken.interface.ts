@@ -2,6 +2,8 @@ import { UserAccessInfo, UserResetPasswordInfo } from 'src/auth/types/auth';
 
 export interface NormalAccessTokenPayload extends UserAccessInfo {
   tokenUse: 'access';
+  // LoginSession.id：登出、撤銷裝置時用來認出目前這個工作階段
+  sid: number;
 }
 export interface ResetPasswordTokenPayload extends UserResetPasswordInfo {
   tokenUse: 'resetPassword';
@@ -0,0 +1,280 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  SetMetadata,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { ApiExceptionFilter } from 'src/common/filters/api-exception.filter';
+import {
+  AssignTaskDto,
+  CloseReasonDto,
+  SendBackAssignmentDto,
+  SubTasksAddDto,
+  UpdateAssigneeStatusDto,
+  UpdateTaskDto,
+} from '../dto/tasks.dto';
+import { SubTaskAddPayload, TaskContext } from '../types/tasks';
+import { SubTasksService } from '../services/sub-tasks.service';
+import { TaskMemberGuard } from '../guard/task-member.guard';
+import { SubTaskExistsGuard } from '../guard/sub-task-exists.guard';
+import { GetTaskContext } from 'src/tasks/decorators/task-context.decorator';
+import { GetSubTaskContext } from '../decorators/sub-task-context.decorator';
+import { SubTask } from 'src/generated/prisma/client';
+import {
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  ApiCsrf,
+  ApiErrorResponses,
+  ApiSignedIn,
+} from 'src/common/decorators/api-docs.decorator';
+import { TokenScopes } from 'src/auth/decorators/token-scopes.decorator';
+
+const SUB_TASK_VIEW =
+  'The sub-task as GET /api/v1/tasks/{taskId}/sub-tasks/{id} returns it';
+const SUB_TASK_ERRORS = [
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.FORBIDDEN,
+  HttpStatus.NOT_FOUND,
+];
+
+// JSON 版的子任務 API；會改動子任務的路由都回傳 GET .../sub-tasks/:id 的內容
+@ApiTags('sub-tasks')
+@ApiSignedIn()
+@ApiParam({ name: 'taskId', type: Number })
+@Controller('api/v1/tasks/:taskId/sub-tasks')
+@UseFilters(ApiExceptionFilter)
+export class SubTasksApiController {
+  constructor(private readonly subTasksService: SubTasksService) {}
+
+  @Post()
+  @TokenScopes('write:tasks')
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard)
+  @ApiCsrf()
+  @ApiCreatedResponse({ description: SUB_TASK_VIEW })
+  @ApiErrorResponses(...SUB_TASK_ERRORS)
+  async create(
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() taskCtx: TaskContext,
+    @Body() dto: SubTasksAddDto,
+  ) {
+    const payload: SubTaskAddPayload = {
+      title: dto.title,
+      status: dto.status ?? null,
+      priority: dto.priority ?? null,
+      description: dto.description ?? null,
+      allDay: dto.allDay,
+      dueDate: dto.dueDate ?? null,
+      dueTime: dto.dueTime ?? null,
+      location: dto.location ?? null,
+      parentTaskId: taskCtx.task.id,
+      actorId: user.userId,
+      updatedBy: user.userName,
+      timeZone: user.timeZone,
+    };
+    const subTask = await this.subTasksService.createSubTask(payload);
+    return this.subTasksService.getSubTaskForViewer(
+      taskCtx.task.id,
+      subTask.id,
+      user.userId,
+    );
+  }
+
+  @Get(':id')
+  @TokenScopes('read:tasks')
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard, SubTaskExistsGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiOkResponse({ description: SUB_TASK_VIEW })
+  @ApiErrorResponses(HttpStatus.FORBIDDEN, HttpStatus.NOT_FOUND)
+  async findOne(
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+  ) {
+    return this.subTasksService.getSubTaskForViewer(
+      taskCtx.task.id,
+      subTask.id,
+      user.userId,
+    );
+  }
+
+  @Patch(':id')
+  @TokenScopes('write:tasks')
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard, SubTaskExistsGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: SUB_TASK_VIEW })
+  @ApiErrorResponses(...SUB_TASK_ERRORS)
+  async update(
+    @Body() dto: UpdateTaskDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+  ) {
+    await this.subTasksService.updateSubTask(
+      subTask.id,
+      user.userId,
+      user.timeZone,
+      dto,
+    );
+    return this.subTasksService.getSubTaskForViewer(
+      taskCtx.task.id,
+      subTask.id,
+      user.userId,
+    );
+  }
+
+  @Post(':id/close')
+  @TokenScopes('write:tasks')
+  @HttpCode(HttpStatus.OK)
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard, SubTaskExistsGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: SUB_TASK_VIEW })
+  @ApiErrorResponses(...SUB_TASK_ERRORS)
+  async close(
+    @Body() dto: CloseReasonDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+  ) {
+    await this.subTasksService.closeSubTask(taskCtx.task.id, subTask.id, user, {
+      reason: dto.reason,
+    });
+    return this.subTasksService.getSubTaskForViewer(
+      taskCtx.task.id,
+      subTask.id,
+      user.userId,
+    );
+  }
+
+  @Post(':id/restore')
+  @TokenScopes('write:tasks')
+  @HttpCode(HttpStatus.OK)
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard, SubTaskExistsGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: SUB_TASK_VIEW })
+  @ApiErrorResponses(...SUB_TASK_ERRORS)
+  async restore(
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+  ) {
+    await this.subTasksService.restoreSubTask(
+      taskCtx.task.id,
+      subTask.id,
+      user,
+    );
+    return this.subTasksService.getSubTaskForViewer(
+      taskCtx.task.id,
+      subTask.id,
+      user.userId,
+    );
+  }
+
+  // ----------------- assignments ----------------------
+
+  @Post(':id/assignees')
+  @TokenScopes('write:tasks')
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard, SubTaskExistsGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: SUB_TASK_VIEW })
+  @ApiErrorResponses(...SUB_TASK_ERRORS)
+  async assign(
+    @Body() dto: AssignTaskDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+  ) {
+    await this.subTasksService.assignSubTask({
+      ...dto,
+      id: subTask.id,
+      assignerName: user.userName,
+      assignerId: user.userId,
+    });
+    return this.subTasksService.getSubTaskForViewer(
+      taskCtx.task.id,
+      subTask.id,
+      user.userId,
+    );
+  }
+
+  @Put(':id/assignees/me')
+  @TokenScopes('write:tasks')
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard, SubTaskExistsGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: SUB_TASK_VIEW })
+  @ApiErrorResponses(...SUB_TASK_ERRORS)
+  async updateMyAssignment(
+    @Body() dto: UpdateAssigneeStatusDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+  ) {
+    await this.subTasksService.updateSubTaskAssigneeStatus(
+      taskCtx.task.id,
+      subTask.id,
+      user,
+      dto,
+    );
+    return this.subTasksService.getSubTaskForViewer(
+      taskCtx.task.id,
+      subTask.id,
+      user.userId,
+    );
+  }
+
+  @Post(':id/assignees/:assigneeId/send-back')
+  @TokenScopes('write:tasks')
+  @HttpCode(HttpStatus.OK)
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard, SubTaskExistsGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: SUB_TASK_VIEW })
+  @ApiErrorResponses(...SUB_TASK_ERRORS)
+  async sendBack(
+    @Param('assigneeId', ParseIntPipe) assigneeId: number,
+    @Body() dto: SendBackAssignmentDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+  ) {
+    await this.subTasksService.sendBackAssignment({
+      id: subTask.id,
+      assigneeId,
+      actorId: user.userId,
+      reason: dto.reason,
+      updatedBy: user.userName,
+    });
+    return this.subTasksService.getSubTaskForViewer(
+      taskCtx.task.id,
+      subTask.id,
+      user.userId,
+    );
+  }
+}
@@ -15,12 +15,12 @@ import { createMockUser } from 'src/test/factories/mock-user.factory';
 jest.mock('src/common/helpers/flash-helper', () => ({ setSession: jest.fn() }));
 import { setSession } from 'src/common/helpers/flash-helper';
 import { TaskPriority } from '../types/enum';
-import { SecurityService } from 'src/security/security.service';
-import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import { LoginSessionsService } from 'src/auth/login-sessions.service';
 import { TaskContext } from '../types/tasks';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { TaskAssignmentManager } from '../services/task-assignment.service';
 import { SubTasksService } from '../services/sub-tasks.service';
+import { TaskLabelService } from '../services/task-label.service';
 
 describe('SubsubTasksController', () => {
   let subTasksController: SubTasksController;
@@ -40,10 +40,18 @@ describe('SubsubTasksController', () => {
     deleteTask: jest.fn(),
   };
 
-  const mockSecurityService = createMockSecurityService();
+  const mockLoginSessions = {
+    start: jest.fn().mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    }),
+    writeCookies: jest.fn(),
+  };
   const mockPrismaService = {};
   const mockTaskAssignmentManager = {};
 
+  const mockTaskLabel = { setSubTaskLabels: jest.fn() };
+
   beforeAll(async () => {
     user = createMockUser();
     req = createMockReq();
@@ -81,11 +89,16 @@ describe('SubsubTasksController', () => {
       allDay: false,
       allDayLocalDate: null,
       sourceTimeZone: null,
+      icalUid: null,
       completionPolicy: CompletionPolicy.ALL_ASSIGNEES,
+      autoCloseOnComplete: false,
       closedAt: null,
       closedById: null,
       closedReason: null,
       closedWithOpenAssignees: false,
+      recurrenceId: null,
+      recurrenceIndex: null,
+      occurrenceDate: null,
       createdAt: new Date('2025-09-01T05:46:07.462Z'),
       updatedAt: new Date('2025-09-06T10:28:48.368Z'),
     };
@@ -95,8 +108,8 @@ describe('SubsubTasksController', () => {
       providers: [
         { provide: SubTasksService, useValue: mockSubTasksService },
         {
-          provide: SecurityService,
-          useValue: mockSecurityService,
+          provide: LoginSessionsService,
+          useValue: mockLoginSessions,
         },
         {
           provide: PrismaService,
@@ -106,6 +119,7 @@ describe('SubsubTasksController', () => {
           provide: TaskAssignmentManager,
           useValue: mockTaskAssignmentManager,
         },
+        { provide: TaskLabelService, useValue: mockTaskLabel },
       ],
     }).compile();
 
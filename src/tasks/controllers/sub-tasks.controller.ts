@@ -17,12 +17,15 @@ import { GetCurrentUser } from 'src/common/decorators/user.decorator';
 import { CurrentUser } from 'src/common/types/current-user';
 import {
   AssignTaskDto,
+  SendBackAssignmentDto,
+  SetLabelsDto,
   SubTasksAddDto,
   UpdateAssigneeStatusDto,
   UpdateTaskDto,
 } from '../dto/tasks.dto';
 import {
   AssignTaskPayload,
+  SendBackAssignmentPayload,
   SubTaskAddPayload,
   TaskContext,
 } from '../types/tasks';
@@ -30,7 +33,10 @@ import { setSession } from 'src/common/helpers/flash-helper';
 import { TasksPageFilter } from 'src/common/filters/tasks-page.filter';
 import { Public } from 'src/common/decorators/public.decorator';
 import { AssignmentStatus } from 'src/generated/prisma/enums';
-import { SecurityService } from 'src/security/security.service';
+import {
+  LoginSessionsService,
+  sessionDeviceOf,
+} from 'src/auth/login-sessions.service';
 import { SubTasksService } from '../services/sub-tasks.service';
 import { TaskAssignmentManager } from '../services/task-assignment.service';
 import { TaskMemberGuard } from '../guard/task-member.guard';
@@ -38,14 +44,16 @@ import { GetTaskContext } from 'src/tasks/decorators/task-context.decorator';
 import { SubTaskExistsGuard } from '../guard/sub-task-exists.guard';
 import { GetSubTaskContext } from '../decorators/sub-task-context.decorator';
 import { SubTask } from 'src/generated/prisma/client';
+import { TaskLabelService } from '../services/task-label.service';
 
 @Controller('api/tasks/:taskId/sub-tasks')
 @UseFilters(TasksPageFilter)
 export class SubTasksController {
   constructor(
     private readonly subTasksService: SubTasksService,
-    private readonly securityService: SecurityService,
+    private readonly loginSessions: LoginSessionsService,
     private readonly taskAssignmentManager: TaskAssignmentManager,
+    private readonly taskLabel: TaskLabelService,
   ) {}
 
   @Post('')
@@ -189,9 +197,63 @@ export class SubTasksController {
     return res.redirect(`/tasks/${taskCtx.task.id}/sub-tasks/${subTask.id}`);
   }
 
+  @Post(':id/assignees/:assigneeId/send-back')
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard)
+  @UseGuards(SubTaskExistsGuard)
+  async sendBackAssignment(
+    @Req() req: Request,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+    @Param('assigneeId', ParseIntPipe) assigneeId: number,
+    @Body() dto: SendBackAssignmentDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const payload: SendBackAssignmentPayload = {
+      id: subTask.id,
+      assigneeId,
+      actorId: user.userId,
+      reason: dto.reason,
+      updatedBy: user.userName,
+    };
+    await this.subTasksService.sendBackAssignment(payload);
+    setSession(req, 'success', 'Assignment has been sent back.');
+    return res.redirect(`/tasks/${taskCtx.task.id}/sub-tasks/${subTask.id}`);
+  }
+
+  @Post(':id/labels')
+  @SetMetadata('taskParamName', 'taskId')
+  @UseGuards(TaskMemberGuard)
+  @UseGuards(SubTaskExistsGuard)
+  async setLabels(
+    @Req() req: Request,
+    @GetTaskContext() taskCtx: TaskContext,
+    @GetSubTaskContext() subTask: SubTask,
+    @Body() dto: SetLabelsDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const labelCtx = {
+      id: taskCtx.task.id,
+      userId: user.userId,
+      userName: user.userName,
+      isOwner: taskCtx.isOwner,
+      isAdminish: taskCtx.isAdminish,
+    };
+    await this.taskLabel.setSubTaskLabels(
+      labelCtx,
+      subTask.id,
+      dto.labelIds ?? [],
+    );
+    setSession(req, 'success', 'Labels have been updated.');
+    return res.redirect(`/tasks/${taskCtx.task.id}/sub-tasks/${subTask.id}`);
+  }
+
   @Public()
   @Get('assignments/decision')
   async handleAssignmentDecision(
+    @Req() req: Request,
     @Query('token') token: string,
     @Query('status') status: AssignmentStatus,
     @Res() res: Response,
@@ -200,14 +262,11 @@ export class SubTasksController {
       // 1. 驗證 Token 並更新狀態 (邏輯封裝在 Service)
       const { taskId, subTaskId, accessPayload } =
         await this.taskAssignmentManager.executeDecision(token, status);
-      const accessToken =
-        await this.securityService.signAccessToken(accessPayload);
-
-      res.cookie(
-        'grouptodo_login',
-        accessToken,
-        this.securityService.getCookieOptions(),
+      const tokens = await this.loginSessions.start(
+        accessPayload,
+        sessionDeviceOf(req),
       );
+      this.loginSessions.writeCookies(res, tokens);
 
       // 2. 渲染成功頁面，提示使用者已處理完成
       return res.render('tasks/email-response-success', {
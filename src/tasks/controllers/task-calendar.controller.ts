@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Req,
+  Res,
+  UseFilters,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { Public } from 'src/common/decorators/public.decorator';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { TasksPageFilter } from 'src/common/filters/tasks-page.filter';
+import { AuthErrors } from 'src/errors';
+import { CreateCalendarFeedDto } from '../dto/tasks.dto';
+import { TaskCalendarService } from '../services/task-calendar.service';
+
+// iCalendar 訂閱：管理用的路由走登入 cookie，feed 本身只認網址裡的 token
+@Controller('api/calendar')
+@UseFilters(TasksPageFilter)
+export class TaskCalendarController {
+  constructor(private readonly taskCalendar: TaskCalendarService) {}
+
+  @Get('feeds')
+  async list(@GetCurrentUser() user: CurrentUser) {
+    return this.taskCalendar.listFeeds(user.userId);
+  }
+
+  @Post('feeds')
+  async create(
+    @Req() req: Request,
+    @Body() dto: CreateCalendarFeedDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const { url } = await this.taskCalendar.createFeed(
+      user.userId,
+      dto.groupId ?? null,
+    );
+    // 網址只有這一次拿得到，放在 session 交給 users-home 顯示
+    req.session.calendarFeedUrl = url;
+    setSession(
+      req,
+      'success',
+      'Calendar feed created. Copy the URL below; it will not be shown again.',
+    );
+    return res.redirect('/users-home');
+  }
+
+  @Post('feeds/:id/revoke')
+  async revoke(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    await this.taskCalendar.revokeFeed(user.userId, id);
+    setSession(req, 'success', 'Calendar feed has been revoked.');
+    // 訂閱網址只在 users-home 管理；不要跟著 Referer 走（可被偽造成站外網址）
+    return res.redirect('/users-home');
+  }
+
+  @Public()
+  @Get('feeds/:id/:token')
+  async feed(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('token') token: string,
+    @Res() res: Response,
+  ) {
+    try {
+      // 網址結尾的 .ics 只是給行事曆 App 看的
+      const ics = await this.taskCalendar.renderFeed(
+        id,
+        token.replace(/\.ics$/, ''),
+      );
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="tasks.ics"');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      return res.send(ics);
+    } catch (e) {
+      // 行事曆 App 看不懂錯誤頁，直接回 404
+      if (e instanceof AuthErrors.InvalidTokenError) {
+        return res
+          .status(HttpStatus.NOT_FOUND)
+          .send('Calendar feed not found.');
+      }
+      throw e;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Request, Response } from 'express';
+import type { Task } from 'src/generated/prisma/client';
+import { TaskCommentsController } from './task-comments.controller';
+import { TaskCommentsService } from '../services/task-comments.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  createMockReq,
+  createMockRes,
+} from 'src/test/factories/mock-http.factory';
+import { CurrentUser } from 'src/common/types/current-user';
+import { TaskContext } from '../types/tasks';
+import { TaskStatus } from '../types/enum';
+
+jest.mock('src/common/helpers/flash-helper', () => ({ setSession: jest.fn() }));
+import { setSession } from 'src/common/helpers/flash-helper';
+
+describe('TaskCommentsController', () => {
+  let controller: TaskCommentsController;
+  let req: Request;
+  let res: Response;
+
+  const currentUser: CurrentUser = {
+    userId: 9,
+    userName: 'test',
+    email: 'test@example.com',
+    timeZone: 'Asia/Taipei',
+  };
+
+  const taskContext: TaskContext = {
+    task: { id: 1, ownerId: 1, groupId: 3, status: TaskStatus.OPEN } as Task,
+    userId: 9,
+    isMember: true,
+    isAdminish: false,
+    isOwner: false,
+  };
+
+  const commentCtx = {
+    id: 1,
+    userId: 9,
+    userName: 'test',
+    isOwner: false,
+    isAdminish: false,
+  };
+
+  const mockTaskCommentsService = {
+    getThread: jest.fn(),
+    createComment: jest.fn(),
+    updateComment: jest.fn(),
+    deleteComment: jest.fn(),
+  };
+
+  beforeAll(async () => {
+    req = createMockReq();
+    res = createMockRes();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TaskCommentsController],
+      providers: [
+        { provide: TaskCommentsService, useValue: mockTaskCommentsService },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get(TaskCommentsController);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the sub-task thread in the viewer time zone', async () => {
+    await controller.list(currentUser, taskContext, '5');
+
+    expect(mockTaskCommentsService.getThread).toHaveBeenCalledWith(
+      1,
+      5,
+      'Asia/Taipei',
+    );
+  });
+
+  it('should post a comment and go back to the task thread', async () => {
+    mockTaskCommentsService.createComment.mockResolvedValue({
+      taskId: 1,
+      subTaskId: null,
+    });
+
+    await controller.create(
+      req,
+      { body: 'hello' },
+      currentUser,
+      taskContext,
+      res,
+    );
+
+    expect(mockTaskCommentsService.createComment).toHaveBeenCalledWith(
+      commentCtx,
+      { body: 'hello' },
+    );
+    expect(setSession).toHaveBeenCalledWith(req, 'success', 'Comment posted.');
+    expect(res.redirect).toHaveBeenCalledWith('/tasks/1#comments');
+  });
+
+  it('should go back to the sub-task page after editing a sub-task comment', async () => {
+    mockTaskCommentsService.updateComment.mockResolvedValue({
+      taskId: 1,
+      subTaskId: 5,
+    });
+
+    await controller.update(
+      req,
+      20,
+      { body: 'edited' },
+      currentUser,
+      taskContext,
+      res,
+    );
+
+    expect(mockTaskCommentsService.updateComment).toHaveBeenCalledWith(
+      commentCtx,
+      20,
+      'edited',
+      undefined,
+    );
+    expect(res.redirect).toHaveBeenCalledWith('/tasks/1/sub-tasks/5#comments');
+  });
+
+  it('should delete a comment', async () => {
+    mockTaskCommentsService.deleteComment.mockResolvedValue({
+      taskId: 1,
+      subTaskId: null,
+    });
+
+    await controller.remove(req, 20, currentUser, taskContext, res);
+
+    expect(mockTaskCommentsService.deleteComment).toHaveBeenCalledWith(
+      commentCtx,
+      20,
+    );
+    expect(setSession).toHaveBeenCalledWith(
+      req,
+      'success',
+      'Comment has been deleted.',
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { TasksPageFilter } from 'src/common/filters/tasks-page.filter';
+import { TaskMemberGuard } from '../guard/task-member.guard';
+import { GetTaskContext } from 'src/tasks/decorators/task-context.decorator';
+import { CreateCommentDto, UpdateCommentDto } from '../dto/tasks.dto';
+import { TaskCommentsService } from '../services/task-comments.service';
+import { TaskCommentContext, TaskContext } from '../types/tasks';
+
+@Controller('api/tasks/:id/comments')
+@UseFilters(TasksPageFilter)
+@UseGuards(TaskMemberGuard)
+export class TaskCommentsController {
+  constructor(private readonly taskCommentsService: TaskCommentsService) {}
+
+  @Get('')
+  async list(
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+    @Query('subTaskId') subTaskId?: string,
+  ) {
+    return this.taskCommentsService.getThread(
+      ctx.task.id,
+      subTaskId ? Number(subTaskId) : null,
+      user.timeZone,
+    );
+  }
+
+  @Post('')
+  async create(
+    @Req() req: Request,
+    @Body() dto: CreateCommentDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+    @Res() res: Response,
+  ) {
+    const comment = await this.taskCommentsService.createComment(
+      this.toCommentCtx(ctx, user),
+      dto,
+    );
+    setSession(req, 'success', 'Comment posted.');
+    return res.redirect(this.threadUrl(comment.taskId, comment.subTaskId));
+  }
+
+  @Post(':commentId/edit')
+  async update(
+    @Req() req: Request,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @Body() dto: UpdateCommentDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+    @Res() res: Response,
+  ) {
+    const comment = await this.taskCommentsService.updateComment(
+      this.toCommentCtx(ctx, user),
+      commentId,
+      dto.body,
+      dto.emailMentions,
+    );
+    setSession(req, 'success', 'Comment has been updated.');
+    return res.redirect(this.threadUrl(comment.taskId, comment.subTaskId));
+  }
+
+  @Post(':commentId/delete')
+  async remove(
+    @Req() req: Request,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+    @Res() res: Response,
+  ) {
+    const comment = await this.taskCommentsService.deleteComment(
+      this.toCommentCtx(ctx, user),
+      commentId,
+    );
+    setSession(req, 'success', 'Comment has been deleted.');
+    return res.redirect(this.threadUrl(comment.taskId, comment.subTaskId));
+  }
+
+  private toCommentCtx(
+    ctx: TaskContext,
+    user: CurrentUser,
+  ): TaskCommentContext {
+    return {
+      id: ctx.task.id,
+      userId: user.userId,
+      userName: user.userName,
+      isOwner: ctx.isOwner,
+      isAdminish: ctx.isAdminish,
+    };
+  }
+
+  private threadUrl(taskId: number, subTaskId: number | null) {
+    return subTaskId
+      ? `/tasks/${taskId}/sub-tasks/${subTaskId}#comments`
+      : `/tasks/${taskId}#comments`;
+  }
+}
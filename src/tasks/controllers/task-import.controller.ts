@@ -0,0 +1,113 @@
+import {
+  Body,
+  Controller,
+  Get,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UploadedFile,
+  UseFilters,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { TasksPageFilter } from 'src/common/filters/tasks-page.filter';
+import { TasksErrors } from 'src/errors';
+import { ConfirmIcsImportDto, ImportTasksDto } from '../dto/tasks.dto';
+import { TaskImportService } from '../services/task-import.service';
+import { TaskSearchService } from '../services/task-search.service';
+import { UploadedTaskFile } from '../types/tasks';
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+// multipart 表單在 CSRF middleware 之後才解析，token 要放在 action 的 query string
+@Controller('tasks/import')
+@UseFilters(TasksPageFilter)
+export class TaskImportController {
+  constructor(
+    private readonly taskImport: TaskImportService,
+    private readonly taskSearch: TaskSearchService,
+  ) {}
+
+  @Get()
+  async form(
+    @Query('groupId', new ParseIntPipe({ optional: true })) groupId: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const groupOptions = await this.taskSearch.getGroupOptions(user.userId);
+
+    return res.render('tasks/import', {
+      groupOptions,
+      selectedGroupId: groupId ?? null,
+    });
+  }
+
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_BYTES } }),
+  )
+  async upload(
+    @Req() req: Request,
+    @UploadedFile() file: UploadedTaskFile | undefined,
+    @Body() dto: ImportTasksDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    if (!file?.buffer.length) {
+      throw TasksErrors.TaskImportError.emptyFile(user.userId);
+    }
+
+    req.session.icsImport = await this.taskImport.preview(
+      user,
+      dto.groupId ?? null,
+      file.originalname,
+      file.buffer.toString('utf8'),
+    );
+    return res.redirect('/tasks/import/preview');
+  }
+
+  @Get('preview')
+  preview(
+    @Req() req: Request,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const preview = req.session.icsImport;
+    if (!preview) throw TasksErrors.TaskImportError.previewExpired(user.userId);
+
+    return res.render('tasks/import-preview', { preview });
+  }
+
+  @Post('confirm')
+  async confirm(
+    @Req() req: Request,
+    @Body() dto: ConfirmIcsImportDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const preview = req.session.icsImport;
+    if (!preview) throw TasksErrors.TaskImportError.previewExpired(user.userId);
+
+    const { created, updated, skipped } = await this.taskImport.confirm(
+      user,
+      preview,
+      dto.selected ?? [],
+    );
+    delete req.session.icsImport;
+
+    setSession(
+      req,
+      'success',
+      `Import finished: ${created} created, ${updated} updated, ${skipped} skipped.`,
+    );
+    return res.redirect(
+      preview.groupId ? `/groups/${preview.groupId}/tasks` : '/tasks/home',
+    );
+  }
+}
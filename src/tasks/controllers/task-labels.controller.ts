@@ -0,0 +1,59 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Req,
+  Res,
+  UseFilters,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { TasksPageFilter } from 'src/common/filters/tasks-page.filter';
+import { CreateLabelDto } from '../dto/tasks.dto';
+import { TaskLabelService } from '../services/task-label.service';
+
+// 標籤目錄（群組 / 個人）；貼到任務上的路由在 TasksController / SubTasksController
+@Controller('api/labels')
+@UseFilters(TasksPageFilter)
+export class TaskLabelsController {
+  constructor(private readonly taskLabel: TaskLabelService) {}
+
+  @Get('')
+  async list(@GetCurrentUser() user: CurrentUser) {
+    return this.taskLabel.getLabelsForUser(user.userId);
+  }
+
+  @Post('')
+  async create(
+    @Req() req: Request,
+    @Body() dto: CreateLabelDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    await this.taskLabel.createLabel({
+      name: dto.name,
+      color: dto.color,
+      groupId: dto.groupId ?? null,
+      actorId: user.userId,
+    });
+    setSession(req, 'success', 'Label has been saved.');
+    return res.redirect(req.header('Referer') || '/tasks/home');
+  }
+
+  @Post(':labelId/delete')
+  async remove(
+    @Req() req: Request,
+    @Param('labelId', ParseIntPipe) labelId: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    await this.taskLabel.deleteLabel(user.userId, labelId);
+    setSession(req, 'success', 'Label has been deleted.');
+    return res.redirect(req.header('Referer') || '/tasks/home');
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Body,
+  Controller,
+  Get,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UploadedFile,
+  UseFilters,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { setSession } from 'src/common/helpers/flash-helper';
+import { TasksPageFilter } from 'src/common/filters/tasks-page.filter';
+import { ExportTasksQueryDto, ImportTasksDto } from '../dto/tasks.dto';
+import { TaskTransferService } from '../services/task-transfer.service';
+import { TaskSearchService } from '../services/task-search.service';
+import { UploadedTaskFile } from '../types/tasks';
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+// CSV / JSON 匯出與匯入（搬移群組、備份用）
+@Controller('tasks/data')
+@UseFilters(TasksPageFilter)
+export class TaskTransferController {
+  constructor(
+    private readonly taskTransfer: TaskTransferService,
+    private readonly taskSearch: TaskSearchService,
+  ) {}
+
+  @Get()
+  async page(
+    @Query('groupId', new ParseIntPipe({ optional: true })) groupId: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const groupOptions = await this.taskSearch.getGroupOptions(user.userId);
+
+    return res.render('tasks/data', {
+      groupOptions,
+      selectedGroupId: groupId ?? null,
+    });
+  }
+
+  @Get('export')
+  async export(
+    @Query() query: ExportTasksQueryDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const file = await this.taskTransfer.exportTasks(
+      user,
+      query.groupId ?? null,
+      query.format,
+    );
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${file.fileName}"`,
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    return res.send(file.body);
+  }
+
+  // multipart 表單在 CSRF middleware 之後才解析，token 要放在 action 的 query string
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_BYTES } }),
+  )
+  async import(
+    @Req() req: Request,
+    @UploadedFile() file: UploadedTaskFile | undefined,
+    @Body() dto: ImportTasksDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    if (!file?.buffer.length) {
+      setSession(req, 'error', 'Please choose a CSV or JSON file to import.');
+      return res.redirect('/tasks/data');
+    }
+
+    // 結果放 session 再導向，重新整理頁面不會再匯入一次
+    req.session.taskTransferReport = await this.taskTransfer.importTasks(
+      user,
+      dto.groupId ?? null,
+      file.originalname,
+      file.buffer.toString('utf8'),
+    );
+    return res.redirect('/tasks/data/report');
+  }
+
+  @Get('report')
+  report(@Req() req: Request, @Res() res: Response) {
+    const report = req.session.taskTransferReport;
+    if (!report) return res.redirect('/tasks/data');
+    delete req.session.taskTransferReport;
+
+    return res.render('tasks/data-report', { report });
+  }
+}
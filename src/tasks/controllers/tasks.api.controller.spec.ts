@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TasksApiController } from './tasks.api.controller';
+import { TasksService } from '../services/tasks.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CurrentUser } from 'src/common/types/current-user';
+import { TaskContext } from '../types/tasks';
+import { TaskStatus } from '../types/enum';
+import { AssignmentStatus } from 'src/generated/prisma/enums';
+import type { Task } from 'src/generated/prisma/client';
+
+describe('TasksApiController', () => {
+  let controller: TasksApiController;
+
+  const mockTasksService = {
+    getTasks: jest.fn(),
+    createTask: jest.fn(),
+    getTaskForViewer: jest.fn(),
+    updateTask: jest.fn(),
+    closeTask: jest.fn(),
+    archiveTask: jest.fn(),
+    restoreTask: jest.fn(),
+    assignTask: jest.fn(),
+    updateAssigneeStatus: jest.fn(),
+    sendBackAssignment: jest.fn(),
+  };
+
+  const user: CurrentUser = {
+    userId: 1,
+    userName: 'Ann',
+    email: 'ann@example.com',
+    timeZone: 'Asia/Taipei',
+  };
+
+  const ctx: TaskContext = {
+    task: { id: 5, ownerId: 1, groupId: 2, status: TaskStatus.OPEN } as Task,
+    userId: 1,
+    isAdminish: true,
+    isMember: true,
+    isOwner: false,
+  };
+
+  const view = { task: { id: 5 }, isAdminish: true, canClose: true };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TasksApiController],
+      providers: [
+        { provide: TasksService, useValue: mockTasksService },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get(TasksApiController);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockTasksService.getTaskForViewer.mockResolvedValue(view);
+  });
+
+  it('lists tasks with default paging', async () => {
+    mockTasksService.getTasks.mockResolvedValue({ data: [], meta: {} });
+
+    await controller.list({ status: 'OPEN' }, user);
+
+    expect(mockTasksService.getTasks).toHaveBeenCalledWith(1, 'Asia/Taipei', {
+      status: 'OPEN',
+      page: 1,
+      limit: 10,
+    });
+  });
+
+  it('creates a task and answers with the created resource', async () => {
+    mockTasksService.createTask.mockResolvedValue({ id: 5 });
+
+    const result = await controller.create(user, {
+      title: 'walk cat',
+      allDay: true,
+    } as any);
+
+    expect(mockTasksService.createTask).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'walk cat', userId: 1, status: null }),
+    );
+    expect(mockTasksService.getTaskForViewer).toHaveBeenCalledWith(5, 1);
+    expect(result).toBe(view);
+  });
+
+  it('closes with the reason from the body and returns the task', async () => {
+    const result = await controller.close(
+      { reason: 'done elsewhere' },
+      user,
+      ctx,
+    );
+
+    expect(mockTasksService.closeTask).toHaveBeenCalledWith(
+      {
+        id: 5,
+        userId: 1,
+        userName: 'Ann',
+        isOwner: false,
+        isAdminish: true,
+      },
+      { reason: 'done elsewhere' },
+    );
+    expect(result).toBe(view);
+  });
+
+  it('does not answer when the service rejects', async () => {
+    mockTasksService.archiveTask.mockRejectedValue(new Error('nope'));
+
+    await expect(controller.archive(user, ctx)).rejects.toThrow('nope');
+    expect(mockTasksService.getTaskForViewer).not.toHaveBeenCalled();
+  });
+
+  it("reports the caller's own assignment status", async () => {
+    await controller.updateMyAssignment(
+      { status: AssignmentStatus.ACCEPTED },
+      user,
+      ctx,
+    );
+
+    expect(mockTasksService.updateAssigneeStatus).toHaveBeenCalledWith(
+      5,
+      1,
+      { status: AssignmentStatus.ACCEPTED },
+      'Ann',
+    );
+  });
+
+  it('assigns and sends back on the task from the guard context', async () => {
+    await controller.assign({ assigneeId: 9 }, user, ctx);
+    await controller.sendBack(9, { reason: 'again' }, user, ctx);
+
+    expect(mockTasksService.assignTask).toHaveBeenCalledWith({
+      assigneeId: 9,
+      id: 5,
+      assignerName: 'Ann',
+      assignerId: 1,
+      updatedBy: 'Ann',
+    });
+    expect(mockTasksService.sendBackAssignment).toHaveBeenCalledWith({
+      id: 5,
+      assigneeId: 9,
+      actorId: 1,
+      reason: 'again',
+      updatedBy: 'Ann',
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { GetCurrentUser } from 'src/common/decorators/user.decorator';
+import { CurrentUser } from 'src/common/types/current-user';
+import { ApiExceptionFilter } from 'src/common/filters/api-exception.filter';
+import {
+  AssignTaskDto,
+  CloseReasonDto,
+  SendBackAssignmentDto,
+  TaskQueryDto,
+  TasksAddDto,
+  UpdateAssigneeStatusDto,
+  UpdateTaskDto,
+} from '../dto/tasks.dto';
+import { TasksService } from '../services/tasks.service';
+import { TaskContext, TasksAddPayload } from '../types/tasks';
+import { TaskMemberGuard } from '../guard/task-member.guard';
+import { GetTaskContext } from 'src/tasks/decorators/task-context.decorator';
+import {
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  ApiCsrf,
+  ApiErrorResponses,
+  ApiSignedIn,
+} from 'src/common/decorators/api-docs.decorator';
+import { TokenScopes } from 'src/auth/decorators/token-scopes.decorator';
+
+const TASK_VIEW = 'The task as GET /api/v1/tasks/{id} returns it';
+const TASK_ERRORS = [
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.FORBIDDEN,
+  HttpStatus.NOT_FOUND,
+];
+
+// JSON 版的任務 API（腳本與行動裝置用）；表單版仍是 TasksController
+// 會改動任務的路由都回傳跟 GET /api/v1/tasks/:id 一樣的內容
+@ApiTags('tasks')
+@ApiSignedIn()
+@Controller('api/v1/tasks')
+@UseFilters(ApiExceptionFilter)
+export class TasksApiController {
+  constructor(private readonly tasksService: TasksService) {}
+
+  @Get()
+  @TokenScopes('read:tasks')
+  @ApiOkResponse({ description: "One page of the caller's tasks" })
+  async list(
+    @Query() query: TaskQueryDto,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    return this.tasksService.getTasks(user.userId, user.timeZone, {
+      ...query,
+      page: query.page ?? 1,
+      limit: query.limit ?? 10,
+    });
+  }
+
+  @Post()
+  @TokenScopes('write:tasks')
+  @ApiCsrf()
+  @ApiCreatedResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(HttpStatus.BAD_REQUEST)
+  async create(@GetCurrentUser() user: CurrentUser, @Body() dto: TasksAddDto) {
+    const payload: TasksAddPayload = {
+      title: dto.title,
+      status: dto.status ?? null,
+      priority: dto.priority ?? null,
+      description: dto.description ?? null,
+      allDay: dto.allDay,
+      dueDate: dto.dueDate ?? null,
+      dueTime: dto.dueTime ?? null,
+      location: dto.location ?? null,
+      userId: user.userId,
+      completionPolicy: dto.completionPolicy,
+      autoCloseOnComplete: dto.autoCloseOnComplete,
+    };
+
+    const task = await this.tasksService.createTask(payload);
+    return this.tasksService.getTaskForViewer(task.id, user.userId);
+  }
+
+  @Get(':id')
+  @TokenScopes('read:tasks')
+  @UseGuards(TaskMemberGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiOkResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(HttpStatus.FORBIDDEN, HttpStatus.NOT_FOUND)
+  async findOne(
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    return this.tasksService.getTaskForViewer(ctx.task.id, user.userId);
+  }
+
+  @Patch(':id')
+  @TokenScopes('write:tasks')
+  @UseGuards(TaskMemberGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(...TASK_ERRORS)
+  async update(
+    @Body() dto: UpdateTaskDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    const updateCtx = {
+      id: ctx.task.id,
+      userId: ctx.userId,
+      timeZone: user.timeZone,
+      userName: user.userName,
+      isAdminish: ctx.isAdminish,
+      isOwner: ctx.isOwner,
+    };
+    await this.tasksService.updateTask(updateCtx, dto);
+    return this.tasksService.getTaskForViewer(ctx.task.id, user.userId);
+  }
+
+  @Post(':id/close')
+  @TokenScopes('write:tasks')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(TaskMemberGuard)
+  @ApiOperation({
+    description:
+      'Closing with unfinished sub-tasks or assignees needs a reason. Without one the call answers 403 with action FORCE_CLOSE_REASON_REQUIRED.',
+  })
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(...TASK_ERRORS)
+  async close(
+    @Body() dto: CloseReasonDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    const closeCtx = {
+      id: ctx.task.id,
+      userId: user.userId,
+      userName: user.userName,
+      isOwner: ctx.isOwner,
+      isAdminish: ctx.isAdminish,
+    };
+    await this.tasksService.closeTask(closeCtx, { reason: dto.reason });
+    return this.tasksService.getTaskForViewer(ctx.task.id, user.userId);
+  }
+
+  @Post(':id/archive')
+  @TokenScopes('write:tasks')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(TaskMemberGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(...TASK_ERRORS)
+  async archive(
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    await this.tasksService.archiveTask(
+      ctx.task.id,
+      user.userId,
+      ctx.isOwner,
+      ctx.isAdminish,
+      user.userName,
+    );
+    return this.tasksService.getTaskForViewer(ctx.task.id, user.userId);
+  }
+
+  @Post(':id/restore')
+  @TokenScopes('write:tasks')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(TaskMemberGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(...TASK_ERRORS)
+  async restore(
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    await this.tasksService.restoreTask(
+      ctx.task.id,
+      user.userId,
+      ctx.isOwner,
+      ctx.isAdminish,
+      user.userName,
+    );
+    return this.tasksService.getTaskForViewer(ctx.task.id, user.userId);
+  }
+
+  // ----------------- assignments ----------------------
+
+  @Post(':id/assignees')
+  @TokenScopes('write:tasks')
+  @UseGuards(TaskMemberGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(...TASK_ERRORS)
+  async assign(
+    @Body() dto: AssignTaskDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    await this.tasksService.assignTask({
+      ...dto,
+      id: ctx.task.id,
+      assignerName: user.userName,
+      assignerId: user.userId,
+      updatedBy: user.userName,
+    });
+    return this.tasksService.getTaskForViewer(ctx.task.id, user.userId);
+  }
+
+  // 自己認領、回報進度、接受或拒絕指派
+  @Put(':id/assignees/me')
+  @TokenScopes('write:tasks')
+  @UseGuards(TaskMemberGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(...TASK_ERRORS)
+  async updateMyAssignment(
+    @Body() dto: UpdateAssigneeStatusDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    await this.tasksService.updateAssigneeStatus(
+      ctx.task.id,
+      user.userId,
+      dto,
+      user.userName,
+    );
+    return this.tasksService.getTaskForViewer(ctx.task.id, user.userId);
+  }
+
+  @Post(':id/assignees/:assigneeId/send-back')
+  @TokenScopes('write:tasks')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(TaskMemberGuard)
+  @ApiParam({ name: 'id', type: Number })
+  @ApiCsrf()
+  @ApiOkResponse({ description: TASK_VIEW })
+  @ApiErrorResponses(...TASK_ERRORS)
+  async sendBack(
+    @Param('assigneeId', ParseIntPipe) assigneeId: number,
+    @Body() dto: SendBackAssignmentDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    await this.tasksService.sendBackAssignment({
+      id: ctx.task.id,
+      assigneeId,
+      actorId: user.userId,
+      reason: dto.reason,
+      updatedBy: user.userName,
+    });
+    return this.tasksService.getTaskForViewer(ctx.task.id, user.userId);
+  }
+}
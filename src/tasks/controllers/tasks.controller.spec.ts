@@ -17,11 +17,15 @@ jest.mock('src/common/helpers/flash-helper', () => ({ setSession: jest.fn() }));
 import { setSession } from 'src/common/helpers/flash-helper';
 import { TaskPriority } from '../types/enum';
 import { HttpStatus } from '@nestjs/common';
-import { SecurityService } from 'src/security/security.service';
-import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import { LoginSessionsService } from 'src/auth/login-sessions.service';
 import { TaskContext } from '../types/tasks';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { TaskAssignmentManager } from '../services/task-assignment.service';
+import { TaskDependencyService } from '../services/task-dependency.service';
+import { TasksErrors } from 'src/errors';
+import { TaskActivityService } from '../services/task-activity.service';
+import { TaskLabelService } from '../services/task-label.service';
+import { TaskSearchService } from '../services/task-search.service';
 
 describe('TasksController', () => {
   let tasksController: TasksController;
@@ -39,11 +43,28 @@ describe('TasksController', () => {
     closeTask: jest.fn(),
     archiveTask: jest.fn(),
     deleteTask: jest.fn(),
+    sendBackAssignment: jest.fn(),
   };
 
-  const mockSecurityService = createMockSecurityService();
+  const mockLoginSessions = {
+    start: jest.fn().mockResolvedValue({
+      accessToken: 'mock-access-token',
+      refreshToken: 'mock-refresh-token',
+    }),
+    writeCookies: jest.fn(),
+  };
   const mockPrismaService = {};
   const mockTaskAssignmentManager = {};
+  const mockTaskActivity = { getActivity: jest.fn() };
+
+  const mockTaskLabel = { setTaskLabels: jest.fn() };
+
+  const mockTaskSearch = { search: jest.fn() };
+
+  const mockTaskDependency = {
+    addBlocker: jest.fn(),
+    removeBlocker: jest.fn(),
+  };
 
   beforeAll(async () => {
     user = createMockUser();
@@ -82,11 +103,16 @@ describe('TasksController', () => {
       allDay: false,
       allDayLocalDate: null,
       sourceTimeZone: null,
+      icalUid: null,
       completionPolicy: CompletionPolicy.ALL_ASSIGNEES,
+      autoCloseOnComplete: false,
       closedAt: null,
       closedById: null,
       closedReason: null,
       closedWithOpenAssignees: false,
+      recurrenceId: null,
+      recurrenceIndex: null,
+      occurrenceDate: null,
       createdAt: new Date('2025-09-01T05:46:07.462Z'),
       updatedAt: new Date('2025-09-06T10:28:48.368Z'),
     };
@@ -96,8 +122,8 @@ describe('TasksController', () => {
       providers: [
         { provide: TasksService, useValue: mockTasksService },
         {
-          provide: SecurityService,
-          useValue: mockSecurityService,
+          provide: LoginSessionsService,
+          useValue: mockLoginSessions,
         },
         {
           provide: PrismaService,
@@ -107,6 +133,10 @@ describe('TasksController', () => {
           provide: TaskAssignmentManager,
           useValue: mockTaskAssignmentManager,
         },
+        { provide: TaskDependencyService, useValue: mockTaskDependency },
+        { provide: TaskActivityService, useValue: mockTaskActivity },
+        { provide: TaskLabelService, useValue: mockTaskLabel },
+        { provide: TaskSearchService, useValue: mockTaskSearch },
       ],
     }).compile();
 
@@ -267,38 +297,21 @@ describe('TasksController', () => {
       expect(res.json).toHaveBeenCalledWith({ success: true });
     });
 
-    it('should return JSON 403 with action FORCE_CLOSE_REASON_REQUIRED if service throws it', async () => {
-      const forceCloseError = {
-        action: 'FORCE_CLOSE_REASON_REQUIRED',
-        message: 'Need reason',
-      };
+    it('should let service errors reach the page filter instead of answering itself', async () => {
+      const forceCloseError = TasksErrors.TaskForbiddenError.byActorOnTask(
+        1,
+        1,
+        'FORCE_CLOSE_REASON_REQUIRED',
+      );
       mockTasksService.closeTask.mockRejectedValueOnce(forceCloseError);
       const req = { headers: { accept: 'application/json' } } as any;
-      await tasksController.close({}, currentUser, taskContext, res, req);
 
-      expect(res.status).toHaveBeenCalledWith(HttpStatus.FORBIDDEN);
-      expect(res.json).toHaveBeenCalledWith({
-        success: false,
-        action: 'FORCE_CLOSE_REASON_REQUIRED',
-        message: expect.any(String),
-      });
-    });
-
-    it('should return JSON 400 on standard forbidden error', async () => {
-      const forbiddenError = {
-        status: 400,
-        message: 'You do not have permission',
-      };
-      mockTasksService.closeTask.mockRejectedValueOnce(forbiddenError);
-
-      const req = { headers: { accept: 'application/json' } } as any;
-      await tasksController.close({}, currentUser, taskContext, res, req);
-
-      expect(res.status).toHaveBeenCalledWith(HttpStatus.BAD_REQUEST);
-      expect(res.json).toHaveBeenCalledWith({
-        success: false,
-        message: 'You do not have permission',
-      });
+      await expect(
+        tasksController.close({}, currentUser, taskContext, res, req),
+      ).rejects.toBe(forceCloseError);
+      expect(res.status).not.toHaveBeenCalled();
+      expect(res.json).not.toHaveBeenCalled();
+      expect(res.redirect).not.toHaveBeenCalled();
     });
   });
 
@@ -324,4 +337,142 @@ describe('TasksController', () => {
       expect(res.redirect).toHaveBeenCalledWith('/tasks/1');
     });
   });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // dependencies
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('addDependency', () => {
+    it('should add the blocker and redirect to the task', async () => {
+      await tasksController.addDependency(
+        req,
+        { blockerTaskId: 5 },
+        currentUser,
+        taskContext,
+        res,
+      );
+
+      expect(mockTaskDependency.addBlocker).toHaveBeenCalledWith(
+        { id: 1, userId: 1, userName: 'test', isOwner: true, isAdminish: true },
+        5,
+      );
+      expect(setSession).toHaveBeenCalledWith(
+        req,
+        'success',
+        'Dependency has been added.',
+      );
+      expect(res.redirect).toHaveBeenCalledWith('/tasks/1');
+    });
+  });
+
+  describe('removeDependency', () => {
+    it('should remove the blocker and redirect to the task', async () => {
+      await tasksController.removeDependency(
+        req,
+        5,
+        currentUser,
+        taskContext,
+        res,
+      );
+
+      expect(mockTaskDependency.removeBlocker).toHaveBeenCalledWith(
+        { id: 1, userId: 1, userName: 'test', isOwner: true, isAdminish: true },
+        5,
+      );
+      expect(res.redirect).toHaveBeenCalledWith('/tasks/1');
+    });
+  });
+
+  describe('setLabels', () => {
+    it('should replace the labels and redirect to the task', async () => {
+      await tasksController.setLabels(
+        req,
+        { labelIds: [3, 4] },
+        currentUser,
+        taskContext,
+        res,
+      );
+
+      expect(mockTaskLabel.setTaskLabels).toHaveBeenCalledWith(
+        { id: 1, userId: 1, userName: 'test', isOwner: true, isAdminish: true },
+        [3, 4],
+      );
+      expect(setSession).toHaveBeenCalledWith(
+        req,
+        'success',
+        'Labels have been updated.',
+      );
+      expect(res.redirect).toHaveBeenCalledWith('/tasks/1');
+    });
+
+    it('should clear the labels when nothing is checked', async () => {
+      await tasksController.setLabels(req, {}, currentUser, taskContext, res);
+
+      expect(mockTaskLabel.setTaskLabels).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 1 }),
+        [],
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('should search in the user time zone and default to an empty query', async () => {
+      const page = { data: [], meta: { itemCount: 0 } };
+      mockTaskSearch.search.mockResolvedValueOnce(page);
+
+      const result = await tasksController.search(
+        { status: TaskStatus.OPEN },
+        currentUser,
+      );
+
+      expect(mockTaskSearch.search).toHaveBeenCalledWith(
+        currentUser.userId,
+        currentUser.timeZone,
+        { status: TaskStatus.OPEN, q: '' },
+      );
+      expect(result).toBe(page);
+    });
+  });
+
+  describe('sendBackAssignment', () => {
+    it('should send the assignment back and redirect to the task', async () => {
+      await tasksController.sendBackAssignment(
+        req,
+        1,
+        2,
+        { reason: 'Missing tests' },
+        currentUser,
+        res,
+      );
+
+      expect(mockTasksService.sendBackAssignment).toHaveBeenCalledWith({
+        id: 1,
+        assigneeId: 2,
+        actorId: currentUser.userId,
+        reason: 'Missing tests',
+        updatedBy: currentUser.userName,
+      });
+      expect(setSession).toHaveBeenCalledWith(
+        req,
+        'success',
+        'Assignment has been sent back.',
+      );
+      expect(res.redirect).toHaveBeenCalledWith('/tasks/1');
+    });
+  });
+
+  describe('getActivity', () => {
+    it('should return the activity of the task in the user time zone', async () => {
+      const items = [{ id: 1, summary: 'created the task' }];
+      mockTaskActivity.getActivity.mockResolvedValue(items);
+
+      await expect(
+        tasksController.getActivity(currentUser, taskContext),
+      ).resolves.toBe(items);
+      expect(mockTaskActivity.getActivity).toHaveBeenCalledWith(
+        1,
+        currentUser.timeZone,
+      );
+    });
+  });
 });
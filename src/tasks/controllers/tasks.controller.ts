@@ -17,8 +17,13 @@ import { Request, Response } from 'express';
 import { GetCurrentUser } from 'src/common/decorators/user.decorator';
 import { CurrentUser } from 'src/common/types/current-user';
 import {
+  AddTaskDependencyDto,
   AssignTaskDto,
+  CloseReasonDto,
+  SendBackAssignmentDto,
+  SetLabelsDto,
   NotificationDto,
+  TaskSearchQueryDto,
   TasksAddDto,
   UpdateAssigneeStatusDto,
   UpdateTaskDto,
@@ -26,6 +31,7 @@ import {
 import { TasksService } from '../services/tasks.service';
 import {
   AssignTaskPayload,
+  SendBackAssignmentPayload,
   TaskContext,
   TasksAddPayload,
 } from '../types/tasks';
@@ -34,18 +40,29 @@ import { TasksPageFilter } from 'src/common/filters/tasks-page.filter';
 import { Public } from 'src/common/decorators/public.decorator';
 import { AssignmentStatus } from 'src/generated/prisma/enums';
 import { SerializationInterceptor } from 'src/common/interceptors/serialization/serialization.interceptor';
-import { SecurityService } from 'src/security/security.service';
+import {
+  LoginSessionsService,
+  sessionDeviceOf,
+} from 'src/auth/login-sessions.service';
 import { TaskMemberGuard } from '../guard/task-member.guard';
 import { GetTaskContext } from 'src/tasks/decorators/task-context.decorator';
 import { TaskAssignmentManager } from '../services/task-assignment.service';
+import { TaskDependencyService } from '../services/task-dependency.service';
+import { TaskActivityService } from '../services/task-activity.service';
+import { TaskLabelService } from '../services/task-label.service';
+import { TaskSearchService } from '../services/task-search.service';
 
 @Controller('api/tasks')
 @UseFilters(TasksPageFilter)
 export class TasksController {
   constructor(
     private readonly tasksService: TasksService,
-    private readonly securityService: SecurityService,
+    private readonly loginSessions: LoginSessionsService,
     private readonly taskAssignmentManager: TaskAssignmentManager,
+    private readonly taskDependency: TaskDependencyService,
+    private readonly taskActivity: TaskActivityService,
+    private readonly taskLabel: TaskLabelService,
+    private readonly taskSearch: TaskSearchService,
   ) {}
 
   @Post()
@@ -65,6 +82,8 @@ export class TasksController {
       dueTime: dto.dueTime ?? null,
       location: dto.location ?? null,
       userId: user.userId,
+      completionPolicy: dto.completionPolicy,
+      autoCloseOnComplete: dto.autoCloseOnComplete,
     };
 
     await this.tasksService.createTask(payload);
@@ -122,7 +141,7 @@ export class TasksController {
   @Post(':id/close')
   @UseGuards(TaskMemberGuard)
   async close(
-    @Body() body: { reason?: string },
+    @Body() body: CloseReasonDto,
     @GetCurrentUser() user: CurrentUser,
     @GetTaskContext() ctx: TaskContext,
     @Res() res: Response,
@@ -135,57 +154,18 @@ export class TasksController {
       isOwner: ctx.isOwner,
       isAdminish: ctx.isAdminish,
     };
-    try {
-      await this.tasksService.closeTask(closeCtx, {
-        reason: body.reason,
-      });
-
-      // 如果是 AJAX 請求 (Fetch)，回傳 JSON 成功訊息
-      if (req.xhr || req.headers.accept?.includes('application/json')) {
-        return res.status(HttpStatus.OK).json({ success: true });
-      }
-
-      // 如果是傳統 Form 提交，則重導向
-      return res.redirect(`/tasks/${ctx.task.id}`);
-    } catch (error) {
-      console.log('Caught Error:', error);
-
-      // 🚀 修改判斷點：從 error.code 改為檢查 error.action
-      const isForceCloseRequired =
-        error.action === 'FORCE_CLOSE_REASON_REQUIRED' ||
-        error.message?.includes('FORCE_CLOSE_REASON_REQUIRED');
+    // 失敗交給 TasksPageFilter：AJAX 拿到錯誤信封（含 action: FORCE_CLOSE_REASON_REQUIRED），表單則轉址 + flash
+    await this.tasksService.closeTask(closeCtx, {
+      reason: body.reason,
+    });
 
-      if (isForceCloseRequired) {
-        if (req.xhr || req.headers.accept?.includes('application/json')) {
-          return res.status(HttpStatus.FORBIDDEN).json({
-            success: false,
-            action: 'FORCE_CLOSE_REASON_REQUIRED', // 傳給前端觸發彈窗
-            message: 'Reason is required for force closure.',
-          });
-        }
-      }
-
-      // 其他錯誤處理 (例如真正的權限不足)
-      if (req.xhr || req.headers.accept?.includes('application/json')) {
-        return res.status(error.status || HttpStatus.BAD_REQUEST).json({
-          success: false,
-          message: error.message,
-        });
-      }
-
-      // 其他錯誤處理 (例如權限不足)
-      if (req.xhr || req.headers.accept?.includes('application/json')) {
-        return res.status(error.status || HttpStatus.BAD_REQUEST).json({
-          success: false,
-          message: error.message,
-        });
-      }
-
-      // 如果是傳統頁面跳轉出錯，可以導回原頁面並帶上錯誤訊息（這部分視你的 flash message 實作而定）
-      return res.redirect(
-        `/tasks/${ctx.task.id}?error=${encodeURIComponent(error.message)}`,
-      );
+    // 如果是 AJAX 請求 (Fetch)，回傳 JSON 成功訊息
+    if (req.xhr || req.headers.accept?.includes('application/json')) {
+      return res.status(HttpStatus.OK).json({ success: true });
     }
+
+    // 如果是傳統 Form 提交，則重導向
+    return res.redirect(`/tasks/${ctx.task.id}`);
   }
 
   @Post(':id/archive')
@@ -228,6 +208,97 @@ export class TasksController {
     return res.redirect(`/tasks/${id}`);
   }
 
+  // ---------------- dependencies ----------------
+
+  @Post(':id/dependencies')
+  @UseGuards(TaskMemberGuard)
+  async addDependency(
+    @Req() req: Request,
+    @Body() dto: AddTaskDependencyDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+    @Res() res: Response,
+  ) {
+    const dependencyCtx = {
+      id: ctx.task.id,
+      userId: user.userId,
+      userName: user.userName,
+      isOwner: ctx.isOwner,
+      isAdminish: ctx.isAdminish,
+    };
+    await this.taskDependency.addBlocker(dependencyCtx, dto.blockerTaskId);
+    setSession(req, 'success', 'Dependency has been added.');
+    return res.redirect(`/tasks/${ctx.task.id}`);
+  }
+
+  @Post(':id/dependencies/:blockerId/remove')
+  @UseGuards(TaskMemberGuard)
+  async removeDependency(
+    @Req() req: Request,
+    @Param('blockerId', ParseIntPipe) blockerId: number,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+    @Res() res: Response,
+  ) {
+    const dependencyCtx = {
+      id: ctx.task.id,
+      userId: user.userId,
+      userName: user.userName,
+      isOwner: ctx.isOwner,
+      isAdminish: ctx.isAdminish,
+    };
+    await this.taskDependency.removeBlocker(dependencyCtx, blockerId);
+    setSession(req, 'success', 'Dependency has been removed.');
+    return res.redirect(`/tasks/${ctx.task.id}`);
+  }
+
+  // ---------------- labels ----------------
+
+  @Post(':id/labels')
+  @UseGuards(TaskMemberGuard)
+  async setLabels(
+    @Req() req: Request,
+    @Body() dto: SetLabelsDto,
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+    @Res() res: Response,
+  ) {
+    const labelCtx = {
+      id: ctx.task.id,
+      userId: user.userId,
+      userName: user.userName,
+      isOwner: ctx.isOwner,
+      isAdminish: ctx.isAdminish,
+    };
+    await this.taskLabel.setTaskLabels(labelCtx, dto.labelIds ?? []);
+    setSession(req, 'success', 'Labels have been updated.');
+    return res.redirect(`/tasks/${ctx.task.id}`);
+  }
+
+  // ---------------- activity ----------------
+
+  @Get(':id/activity')
+  @UseGuards(TaskMemberGuard)
+  async getActivity(
+    @GetCurrentUser() user: CurrentUser,
+    @GetTaskContext() ctx: TaskContext,
+  ) {
+    return this.taskActivity.getActivity(ctx.task.id, user.timeZone);
+  }
+
+  // ---------------- search ----------------
+
+  @Get('search')
+  async search(
+    @Query() query: TaskSearchQueryDto,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    return this.taskSearch.search(user.userId, user.timeZone, {
+      ...query,
+      q: query.q ?? '',
+    });
+  }
+
   // ---------------- notification ----------------
 
   @Get('notifications')
@@ -254,29 +325,52 @@ export class TasksController {
       updatedBy: user.userName,
     };
 
-    const mailSent = await this.tasksService.assignTask(payload);
+    const mailId = await this.tasksService.assignTask(payload);
     if (!dto.sendUrgentEmail) {
       setSession(req, 'success', 'Task is pending now.');
-    } else if (mailSent) {
+    } else if (mailId !== null) {
       setSession(
         req,
         'success',
-        'Task is pending now and Email successfully send',
+        'Task is pending now and the email is queued for delivery',
       );
     } else {
       setSession(
         req,
         'warning',
-        'Task is pending, but Email not send, please check env variables',
+        'Task is pending, but no email was sent: mail is not configured, or the assignee turned assignment emails off',
       );
     }
 
     return res.redirect(`/tasks/${id}`);
   }
 
+  @Post(':id/assignees/:assigneeId/send-back')
+  async sendBackAssignment(
+    @Req() req: Request,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('assigneeId', ParseIntPipe) assigneeId: number,
+    @Body() dto: SendBackAssignmentDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const payload: SendBackAssignmentPayload = {
+      id,
+      assigneeId,
+      actorId: user.userId,
+      reason: dto.reason,
+      updatedBy: user.userName,
+    };
+
+    await this.tasksService.sendBackAssignment(payload);
+    setSession(req, 'success', 'Assignment has been sent back.');
+    return res.redirect(`/tasks/${id}`);
+  }
+
   @Public()
   @Get('assignments/decision')
   async handleAssignmentDecision(
+    @Req() req: Request,
     @Query('token') token: string,
     @Query('status') status: AssignmentStatus,
     @Res() res: Response,
@@ -284,14 +378,11 @@ export class TasksController {
     try {
       const { taskId, subTaskId, accessPayload } =
         await this.taskAssignmentManager.executeDecision(token, status);
-      const accessToken =
-        await this.securityService.signAccessToken(accessPayload);
-
-      res.cookie(
-        'grouptodo_login',
-        accessToken,
-        this.securityService.getCookieOptions(),
+      const tokens = await this.loginSessions.start(
+        accessPayload,
+        sessionDeviceOf(req),
       );
+      this.loginSessions.writeCookies(res, tokens);
 
       // 2. 渲染成功頁面，提示使用者已處理完成
       return res.render('tasks/email-response-success', {
@@ -27,6 +27,11 @@ jest.mock('src/common/helpers/util', () => ({
 }));
 import { buildTaskVM } from 'src/common/helpers/util';
 import { SubTasksService } from '../services/sub-tasks.service';
+import { TaskDependencyService } from '../services/task-dependency.service';
+import { TaskActivityService } from '../services/task-activity.service';
+import { TaskCommentsService } from '../services/task-comments.service';
+import { TaskLabelService } from '../services/task-label.service';
+import { TaskSearchService } from '../services/task-search.service';
 
 describe('TasksController', () => {
   let tasksPageController: TasksPageController;
@@ -38,13 +43,13 @@ describe('TasksController', () => {
 
   const mockPrismaService = {
     taskAssignee: {
-      findUnique: jest.fn(),
+      findFirst: jest.fn(),
     },
     task: {
       findUnique: jest.fn(),
     },
     subTaskAssignee: {
-      findUnique: jest.fn(),
+      findFirst: jest.fn(),
     },
   };
 
@@ -60,6 +65,26 @@ describe('TasksController', () => {
     getSubTaskForViewer: jest.fn(),
   };
 
+  const mockTaskActivity = { getActivity: jest.fn() };
+
+  const mockTaskDependency = {
+    getDependencyView: jest.fn(),
+  };
+
+  const mockTaskComments = {
+    getThread: jest.fn(),
+  };
+
+  const mockTaskLabel = {
+    getLabelView: jest.fn(),
+    getLabelsForUser: jest.fn(),
+  };
+
+  const mockTaskSearch = {
+    search: jest.fn(),
+    getGroupOptions: jest.fn(),
+  };
+
   beforeAll(async () => {
     user = createMockUser();
     req = createMockReq();
@@ -78,6 +103,11 @@ describe('TasksController', () => {
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: TasksService, useValue: mockTasksService },
         { provide: SubTasksService, useValue: mockSubTasksService },
+        { provide: TaskDependencyService, useValue: mockTaskDependency },
+        { provide: TaskActivityService, useValue: mockTaskActivity },
+        { provide: TaskCommentsService, useValue: mockTaskComments },
+        { provide: TaskLabelService, useValue: mockTaskLabel },
+        { provide: TaskSearchService, useValue: mockTaskSearch },
       ],
     }).compile();
 
@@ -145,6 +175,32 @@ describe('TasksController', () => {
   // list
   // ───────────────────────────────────────────────────────────────────────────────
 
+  describe('search', () => {
+    it('should render tasks/search with results and group options', async () => {
+      const hit = { kind: 'TASK', taskId: 1, url: '/tasks/1' };
+      const meta = { itemCount: 1, pageCount: 1 };
+      mockTaskSearch.search.mockResolvedValueOnce({ data: [hit], meta });
+      mockTaskSearch.getGroupOptions.mockResolvedValueOnce([
+        { id: 3, name: 'Home' },
+      ]);
+      const query = { q: 'milk', groupId: 3 };
+
+      await tasksPageController.search(query, currentUser, res);
+
+      expect(mockTaskSearch.search).toHaveBeenCalledWith(
+        currentUser.userId,
+        currentUser.timeZone,
+        { q: 'milk', groupId: 3 },
+      );
+      expect(res.render).toHaveBeenCalledWith('tasks/search', {
+        results: [hit],
+        pageMeta: meta,
+        currentQuery: query,
+        groupOptions: [{ id: 3, name: 'Home' }],
+      });
+    });
+  });
+
   describe('list', () => {
     it('should render tasks/list-by-status with correct data', async () => {
       // 準備測試資料
@@ -173,6 +229,9 @@ describe('TasksController', () => {
 
       // 設定 Service Mock 行為
       mockTasksService.getTasks.mockResolvedValue(mockPageDto);
+      mockTaskLabel.getLabelsForUser.mockResolvedValueOnce([
+        { id: 3, name: 'home', color: '#22aa55', groupName: null },
+      ]);
 
       // 執行測試
       await tasksPageController.list(mockQuery as any, mockUser as any, res);
@@ -196,6 +255,9 @@ describe('TasksController', () => {
           viewModel: expect.any(Array),
           pageMeta: mockPageDto.meta,
           currentQuery: mockQuery,
+          labelOptions: [
+            { id: 3, name: 'home', color: '#22aa55', groupName: null },
+          ],
         }),
       );
 
@@ -213,11 +275,28 @@ describe('TasksController', () => {
         mockTasksService.getTaskForViewer.mockResolvedValueOnce({
           task: lowTask,
           isAdminish: true,
+          groupMembers: [{ id: 2, userName: 'Ann' }],
+        });
+        mockTaskDependency.getDependencyView.mockResolvedValueOnce({
+          blockers: [{ id: 2, title: 'blocker', status: 'OPEN', priority: 1 }],
+          dependents: [],
+          candidates: [],
+        });
+        mockTaskComments.getThread.mockResolvedValueOnce([]);
+        mockTaskLabel.getLabelView.mockResolvedValueOnce({
+          labels: [{ id: 3, name: 'home', color: '#22aa55' }],
+          catalog: [{ id: 3, name: 'home', color: '#22aa55' }],
         });
 
         await tasksPageController.detail(req, lowTask.id, currentUser, res);
 
         expect(mockTasksService.getTaskForViewer).toHaveBeenCalledWith(1, 1);
+        expect(mockTaskComments.getThread).toHaveBeenCalledWith(
+          1,
+          null,
+          currentUser.timeZone,
+          [{ id: 2, name: 'Ann' }],
+        );
         expect(buildTaskVM).toHaveBeenCalledTimes(1);
         expect(buildTaskVM).toHaveBeenNthCalledWith(
           1,
@@ -236,8 +315,19 @@ describe('TasksController', () => {
             mockIsAdminish: true,
             id: 1,
             title: 'low test',
+            blockers: [
+              { id: 2, title: 'blocker', status: 'OPEN', priority: 1 },
+            ],
+            dependents: [],
+            dependencyCandidates: [],
+            comments: [],
+            labels: [{ id: 3, name: 'home', color: '#22aa55' }],
+            labelCatalog: [{ id: 3, name: 'home', color: '#22aa55' }],
           }),
         );
+        expect(mockTaskLabel.getLabelView).toHaveBeenCalledWith(lowTask, {
+          taskId: 1,
+        });
         expect(model).not.toBe(lowTask);
       });
     });
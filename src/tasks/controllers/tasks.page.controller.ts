@@ -16,8 +16,14 @@ import { TasksService } from '../services/tasks.service';
 import { TasksPageFilter } from 'src/common/filters/tasks-page.filter';
 import { buildTaskVM } from 'src/common/helpers/util';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { TaskQueryDto } from '../dto/tasks.dto';
+import { TaskQueryDto, TaskSearchQueryDto } from '../dto/tasks.dto';
 import { SubTasksService } from '../services/sub-tasks.service';
+import { TasksUtils } from '../tasks.util';
+import { TaskDependencyService } from '../services/task-dependency.service';
+import { TaskCommentsService } from '../services/task-comments.service';
+import { TaskActivityService } from '../services/task-activity.service';
+import { TaskLabelService } from '../services/task-label.service';
+import { TaskSearchService } from '../services/task-search.service';
 
 @Controller('tasks')
 @UseFilters(TasksPageFilter)
@@ -26,6 +32,11 @@ export class TasksPageController {
     private tasksService: TasksService,
     private subTaskService: SubTasksService,
     private prismaService: PrismaService,
+    private taskDependency: TaskDependencyService,
+    private taskComments: TaskCommentsService,
+    private taskActivity: TaskActivityService,
+    private taskLabel: TaskLabelService,
+    private taskSearch: TaskSearchService,
   ) {}
 
   @Get('home')
@@ -38,6 +49,7 @@ export class TasksPageController {
 
     return res.render('tasks/home', {
       name: user.userName,
+      currentUserId: user.userId,
       expired: dashboardData.expired,
       today: dashboardData.today,
       none: dashboardData.none,
@@ -50,6 +62,28 @@ export class TasksPageController {
     res.render('tasks/create-task');
   }
 
+  @Get('search')
+  async search(
+    @Query() query: TaskSearchQueryDto,
+    @GetCurrentUser() user: CurrentUser,
+    @Res() res: Response,
+  ) {
+    const [results, groupOptions] = await Promise.all([
+      this.taskSearch.search(user.userId, user.timeZone, {
+        ...query,
+        q: query.q ?? '',
+      }),
+      this.taskSearch.getGroupOptions(user.userId),
+    ]);
+
+    return res.render('tasks/search', {
+      results: results.data,
+      pageMeta: results.meta,
+      currentQuery: query,
+      groupOptions,
+    });
+  }
+
   /**
    * @todo
    * Add PENDING in TaskQueryDto for filtering pending tasks
@@ -80,11 +114,14 @@ export class TasksPageController {
       return vm;
     });
 
+    const labelOptions = await this.taskLabel.getLabelsForUser(user.userId);
+
     return res.render('tasks/list-by-status', {
       status: query.scope === 'FUTURE' ? 'Future' : query.status || 'All',
       viewModel,
       pageMeta: pageDto.meta,
       currentQuery: query,
+      labelOptions,
     });
   }
 
@@ -98,13 +135,32 @@ export class TasksPageController {
     const { task, isAdminish, isRealAdmin, canClose, groupMembers } =
       await this.tasksService.getTaskForViewer(id, user.userId);
 
-    const viewerAssignment = await this.prismaService.taskAssignee.findUnique({
-      where: { taskId_assigneeId: { taskId: id, assigneeId: user.userId } },
+    const viewerAssignment = await this.prismaService.taskAssignee.findFirst({
+      where: { taskId: id, assigneeId: user.userId, isCurrent: true },
       include: {
         assignedBy: { select: { name: true } },
       },
     });
 
+    const dependencies = await this.taskDependency.getDependencyView(task);
+    const labelView = await this.taskLabel.getLabelView(task, { taskId: id });
+    // 只有目前的群組成員會被連結
+    const mentionables = groupMembers.map((m) => ({
+      id: m.id,
+      name: m.userName,
+    }));
+    const comments = await this.taskComments.getThread(
+      id,
+      null,
+      user.timeZone,
+      mentionables,
+    );
+    const activities = await this.taskActivity.getActivity(
+      id,
+      user.timeZone,
+      20,
+    );
+
     const viewModel = buildTaskVM(task, user.timeZone, isAdminish);
 
     res.render('tasks/details', {
@@ -128,6 +184,19 @@ export class TasksPageController {
       groupMembers,
       currentUserId: user.userId,
       currentUserName: user.userName,
+      recurrenceLabel: task.recurrence
+        ? TasksUtils.describeRecurrence(task.recurrence)
+        : null,
+      blockers: dependencies.blockers,
+      dependents: dependencies.dependents,
+      dependencyCandidates: dependencies.candidates,
+      labels: labelView.labels,
+      labelCatalog: labelView.catalog,
+      descriptionSegments: task.description
+        ? TasksUtils.splitMentions(task.description, mentionables)
+        : [],
+      comments,
+      activities,
     });
   }
 
@@ -147,6 +216,9 @@ export class TasksPageController {
     res.render('tasks/details-edit', {
       ...viewModel,
       todayISO: new Date().toISOString().slice(0, 10),
+      recurrenceLabel: task.recurrence
+        ? TasksUtils.describeRecurrence(task.recurrence)
+        : null,
     });
   }
 
@@ -212,18 +284,31 @@ export class TasksPageController {
       await this.subTaskService.getSubTaskForViewer(taskId, id, user.userId);
 
     // 2. 獲取當前登入者在「這個子任務」中的指派狀態
-    const viewerAssignment =
-      await this.prismaService.subTaskAssignee.findUnique({
-        where: {
-          subTaskId_assigneeId: { subTaskId: id, assigneeId: user.userId },
-        },
+    const viewerAssignment = await this.prismaService.subTaskAssignee.findFirst(
+      {
+        where: { subTaskId: id, assigneeId: user.userId, isCurrent: true },
         select: { assigneeId: true, status: true },
-      });
+      },
+    );
 
     // 3. 建立基礎 ViewModel (處理時間與狀態標籤)
     // 注意：這裡第三個參數傳入 isAdminish，讓 buildTaskVM 知道是否具備編輯權限
     const viewModel = buildTaskVM(subTask, user.timeZone, isAdminish);
 
+    const mentionables = groupMembers.map((m) => ({
+      id: m.id,
+      name: m.userName,
+    }));
+    const comments = await this.taskComments.getThread(
+      taskId,
+      id,
+      user.timeZone,
+      mentionables,
+    );
+    const labelView = await this.taskLabel.getLabelView(subTask.task, {
+      subTaskId: id,
+    });
+
     // 4. Render 到 Pug
     res.render('tasks/sub-task-details', {
       ...viewModel,
@@ -249,10 +334,17 @@ export class TasksPageController {
       // 只有群組任務才允許 Self Assign
       allowSelfAssign: !!subTask.task.groupId,
 
+      labels: labelView.labels,
+      labelCatalog: labelView.catalog,
+
       // 這裡我們假設子任務的關閉權限直接看 assignees 狀態（Pug 裡面已經有算 subTaskCanClose）
       groupMembers,
       currentUserId: user.userId,
       currentUserName: user.userName,
+      descriptionSegments: subTask.description
+        ? TasksUtils.splitMentions(subTask.description, mentionables)
+        : [],
+      comments,
     });
   }
 
@@ -0,0 +1,31 @@
+import { CsvUtils } from './csv.util';
+
+describe('CsvUtils', () => {
+  it('round-trips quotes, commas and line breaks', () => {
+    const rows = [
+      ['title', 'description'],
+      ['Buy "milk", eggs', 'line 1\nline 2'],
+    ];
+
+    const csv = CsvUtils.stringify(rows);
+
+    expect(csv).toBe(
+      '\uFEFFtitle,description\r\n"Buy ""milk"", eggs","line 1\nline 2"\r\n',
+    );
+    expect(CsvUtils.parse(csv)).toEqual(rows);
+  });
+
+  it('neutralizes spreadsheet formulas on export and restores them on import', () => {
+    const csv = CsvUtils.stringify([['=SUM(A1:A2)', '-3']]);
+
+    expect(csv).toBe("\uFEFF'=SUM(A1:A2),'-3\r\n");
+    expect(CsvUtils.parse(csv)).toEqual([['=SUM(A1:A2)', '-3']]);
+  });
+
+  it('skips blank lines', () => {
+    expect(CsvUtils.parse('a,b\n\n1,2\n')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
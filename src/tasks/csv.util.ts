@@ -0,0 +1,76 @@
+// RFC 4180：逗號分隔、CRLF 換行、含特殊字元的欄位用雙引號包住
+const CRLF = '\r\n';
+
+// 試算表會把 = + - @ 開頭的儲存格當成公式執行，匯出時前面加一個 '
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export class CsvUtils {
+  static escapeCell(value: string): string {
+    const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  static unescapeCell(value: string): string {
+    // 還原匯出時為了防公式加上的 '
+    return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+  }
+
+  static stringify(rows: string[][]): string {
+    // BOM 讓 Excel 以 UTF-8 開啟
+    return (
+      '\uFEFF' +
+      rows
+        .map((row) => row.map((c) => CsvUtils.escapeCell(c)).join(','))
+        .join(CRLF) +
+      CRLF
+    );
+  }
+
+  static parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell !== '' || row.length) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    // 空白行不算資料
+    return rows
+      .filter((r) => r.some((c) => c.trim() !== ''))
+      .map((r) => r.map((c) => CsvUtils.unescapeCell(c)));
+  }
+}
@@ -16,7 +16,17 @@ import {
 import { TaskStatus, TaskStatusValues } from '../types/enum';
 import { TaskPriority } from '../types/enum';
 import { Expose, Transform, Type } from 'class-transformer';
-import { AssignmentStatus } from 'src/generated/prisma/client';
+import {
+  AssignmentStatus,
+  CompletionPolicy,
+  RecurrenceFrequency,
+} from 'src/generated/prisma/client';
+import {
+  LabelMatchMode,
+  MonthlyRecurrenceMode,
+  RecurrenceScope,
+  TaskTransferFormat,
+} from '../types/tasks';
 
 function toBool(val: any): boolean {
   if (typeof val === 'boolean') return val;
@@ -27,6 +37,21 @@ function toBool(val: any): boolean {
   return false; // 其他都算 false（包含 '', '0', 'off', 'no'）
 }
 
+// 表單空欄位 '' 視為沒填
+function toOptionalInt({ value }: { value: any }): number | undefined {
+  return value === '' || value == null ? undefined : Number(value);
+}
+
+// checkbox / query 可能是單一值、陣列或 '1,2'
+function toIntList({ value }: { value: any }): number[] | undefined {
+  if (value === '' || value == null) return undefined;
+  return ([] as unknown[])
+    .concat(value)
+    .flatMap((v) => String(v).split(','))
+    .filter((v) => v.trim() !== '')
+    .map(Number);
+}
+
 export class TasksAddDto {
   @IsNotEmpty()
   @IsString()
@@ -67,6 +92,18 @@ export class TasksAddDto {
   @IsOptional()
   @IsString()
   location?: string;
+
+  @IsOptional()
+  @IsEnum(CompletionPolicy)
+  completionPolicy?: CompletionPolicy;
+
+  // checkbox 前面有 hidden 'false'，勾選時會送出陣列
+  @IsOptional()
+  @Transform(({ value }) =>
+    Array.isArray(value) ? value.map(toBool).some(Boolean) : toBool(value),
+  )
+  @IsBoolean()
+  autoCloseOnComplete?: boolean;
 }
 
 export class TaskQueryDto {
@@ -94,6 +131,77 @@ export class TaskQueryDto {
   @IsOptional()
   @IsIn(['ASC', 'DESC'])
   order?: 'ASC' | 'DESC';
+
+  // ?labels=1,2 或 ?labels=1&labels=2
+  @IsOptional()
+  @Transform(toIntList)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  labels?: number[];
+
+  // AND: 要有全部的標籤；OR: 有任一個即可
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === '' || value == null ? undefined : String(value).toUpperCase(),
+  )
+  @IsIn(['AND', 'OR'])
+  labelMode?: LabelMatchMode;
+}
+
+export class TaskSearchQueryDto {
+  // 空字串代表只顯示搜尋表單
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === '' || value == null ? undefined : String(value).toUpperCase(),
+  )
+  @IsEnum(TaskStatus)
+  status?: TaskStatus;
+
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === '' ? undefined : value,
+  )
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  dueFrom?: string;
+
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === '' ? undefined : value,
+  )
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  dueTo?: string;
+
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  groupId?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  limit?: number;
 }
 
 export class SubTasksAddDto extends TasksAddDto {
@@ -146,6 +254,86 @@ export class UpdateTaskDto {
   )
   @IsEnum(TaskPriority)
   priority?: TaskPriority;
+
+  // ---- Recurrence ----
+
+  @IsOptional()
+  @IsIn(['THIS', 'FUTURE'])
+  recurrenceScope?: RecurrenceScope;
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === '' || value == null ? undefined : String(value).toUpperCase(),
+  )
+  @IsIn(['NONE', ...Object.values(RecurrenceFrequency)])
+  recurrenceFrequency?: RecurrenceFrequency | 'NONE';
+
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  @Max(99)
+  recurrenceInterval?: number;
+
+  // checkbox：單選時是字串，多選時是陣列（0=Sun ... 6=Sat）
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === '' || value == null
+      ? undefined
+      : ([] as unknown[]).concat(value).map(Number),
+  )
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  recurrenceWeekdays?: number[];
+
+  @IsOptional()
+  @IsIn(['DAY_OF_MONTH', 'NTH_WEEKDAY'])
+  recurrenceMonthlyMode?: MonthlyRecurrenceMode;
+
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  recurrenceMonthDay?: number;
+
+  // 1..4 = 第幾個，-1 = 最後一個
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsIn([1, 2, 3, 4, -1])
+  recurrenceSetPos?: number;
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === '' || value == null ? undefined : String(value).trim(),
+  )
+  @Matches(/^\d{4}-\d{2}-\d{2}$/)
+  recurrenceUntil?: string;
+
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  recurrenceCount?: number;
+
+  // ---- Completion policy ----
+
+  @IsOptional()
+  @IsEnum(CompletionPolicy)
+  completionPolicy?: CompletionPolicy;
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    Array.isArray(value) ? value.map(toBool).some(Boolean) : toBool(value),
+  )
+  @IsBoolean()
+  autoCloseOnComplete?: boolean;
+
+  @IsOptional()
+  @Transform(({ value }) => toBool(value))
+  @IsBoolean()
+  emailMentions?: boolean;
 }
 
 export class closeTaskDto {
@@ -186,6 +374,132 @@ export class AssignTaskDto {
   sendUrgentEmail?: boolean;
 }
 
+export class SendBackAssignmentDto {
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() || undefined : value,
+  )
+  @IsString()
+  @MaxLength(300)
+  reason?: string; // 退回的理由，會顯示在操作紀錄
+}
+
+export class CloseReasonDto {
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() || undefined : value,
+  )
+  @IsString()
+  @MaxLength(300)
+  reason?: string; // 強制關閉時必填（由 service 判斷）
+}
+
+export class CreateLabelDto {
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().toLowerCase() : value,
+  )
+  @Matches(/^#[0-9a-f]{6}$/)
+  color: string;
+
+  // 沒有 groupId 代表個人標籤
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  groupId?: number;
+}
+
+export class SetLabelsDto {
+  // 全部取消勾選時表單不會送出這個欄位，視為清空
+  @IsOptional()
+  @Transform(toIntList)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  labelIds?: number[];
+}
+
+export class CreateCalendarFeedDto {
+  // 沒有 groupId 代表個人訂閱（個人任務 + 所有所屬群組）
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  groupId?: number;
+}
+
+export class ImportTasksDto {
+  // 沒有 groupId 代表匯入成個人任務（.ics 與 CSV / JSON 匯入共用）
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  groupId?: number;
+}
+
+export class ConfirmIcsImportDto {
+  // 預覽頁勾選的項目（entries 的 index）
+  @IsOptional()
+  @Transform(toIntList)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  selected?: number[];
+}
+
+export class ExportTasksQueryDto {
+  @IsIn(['csv', 'json'])
+  format: TaskTransferFormat;
+
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  groupId?: number;
+}
+
+export class AddTaskDependencyDto {
+  @IsNotEmpty()
+  @IsInt()
+  @Min(1)
+  blockerTaskId: number;
+}
+
+export class UpdateCommentDto {
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim() : value,
+  )
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(5000)
+  body: string;
+
+  @IsOptional()
+  @Transform(({ value }) => toBool(value))
+  @IsBoolean()
+  emailMentions?: boolean;
+}
+
+export class CreateCommentDto extends UpdateCommentDto {
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  subTaskId?: number;
+
+  @IsOptional()
+  @Transform(toOptionalInt)
+  @IsInt()
+  @Min(1)
+  parentId?: number;
+}
+
 export class NotificationDto {
   @Expose()
   id: number;
@@ -214,6 +528,17 @@ export class NotificationDto {
   })
   groupName: string;
 
+  // 前端用來排除個人任務，不要比對 groupName 字串
+  @Expose()
+  @Transform(
+    ({
+      obj,
+    }: {
+      obj: { groupId?: number | null; task?: { groupId: number | null } };
+    }) => obj.groupId ?? obj.task?.groupId ?? null,
+  )
+  groupId: number | null;
+
   @Expose()
   url: string;
 }
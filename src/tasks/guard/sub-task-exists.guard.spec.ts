@@ -79,6 +79,19 @@ describe('SubTaskExistsGuard', () => {
     expect(request.subTaskContext.id).toBe(50);
   });
 
+  it('should throw TaskNotFoundError if the sub-task belongs to another task', async () => {
+    (prisma.subTask.findUnique as jest.Mock).mockResolvedValue({
+      id: 50,
+      task: { id: 10, groupId: null, ownerId: 1 },
+    });
+
+    const context = createMockContext({ taskId: '11', id: '50' }, 1);
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      TasksErrors.TaskNotFoundError,
+    );
+  });
+
   it('should correctly include parent task info in the query', async () => {
     (prisma.subTask.findUnique as jest.Mock).mockResolvedValue({
       id: 1,
@@ -1,13 +1,21 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { TasksErrors } from 'src/errors';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { CurrentUser } from 'src/common/types/current-user';
+
+// 網頁路由是 /sub-tasks/:id，API 是 /tasks/:taskId/sub-tasks/:id
+interface SubTaskRequest {
+  params: { id: string; taskId?: string };
+  user: CurrentUser;
+  subTaskContext?: unknown;
+}
 
 @Injectable()
 export class SubTaskExistsGuard implements CanActivate {
   constructor(private prismaService: PrismaService) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
-    const request = context.switchToHttp().getRequest();
+    const request = context.switchToHttp().getRequest<SubTaskRequest>();
     const subTaskId = +request.params.id; // Sub-task ID
     const userId = request.user.userId;
 
@@ -16,7 +24,9 @@ export class SubTaskExistsGuard implements CanActivate {
       include: { task: { select: { id: true, groupId: true, ownerId: true } } },
     });
 
-    if (!subTask) {
+    // 路由上有 :taskId 時，子任務必須屬於那個父任務（TaskMemberGuard 只檢查父任務）
+    const parentId = request.params.taskId;
+    if (!subTask || (parentId && subTask.task.id !== +parentId)) {
       throw TasksErrors.TaskNotFoundError.byId(userId, subTaskId);
     }
 
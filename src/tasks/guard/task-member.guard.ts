@@ -2,6 +2,49 @@ import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { TasksErrors } from 'src/errors';
 import { PrismaService } from 'src/prisma/prisma.service';
+import { Status } from 'src/generated/prisma/enums';
+
+export interface TaskAccess {
+  task: { id: number; ownerId: number; groupId: number | null; status: Status };
+  isMember: boolean;
+  isAdminish: boolean;
+}
+
+// HTTP（TaskMemberGuard）與 WebSocket（TasksGateWay 加入房間）共用的成員判斷
+export async function resolveTaskAccess(
+  prismaService: PrismaService,
+  taskId: number,
+  userId: number,
+): Promise<TaskAccess | null> {
+  const task = await prismaService.task.findUnique({
+    where: { id: taskId },
+    select: { id: true, ownerId: true, groupId: true, status: true },
+  });
+
+  if (!task) return null;
+
+  let isMember = false;
+  let isAdminish = false;
+
+  if (!task.groupId) {
+    // 個人任務：擁有者就是成員，也是管理員
+    isMember = task.ownerId === userId;
+    isAdminish = isMember;
+  } else {
+    // 群組任務：查一次成員表
+    const member = await prismaService.groupMember.findUnique({
+      where: { groupId_userId: { groupId: task.groupId, userId } },
+      select: { role: true },
+    });
+
+    isMember = !!member;
+    isAdminish = member
+      ? member.role === 'ADMIN' || member.role === 'OWNER'
+      : false;
+  }
+
+  return { task, isMember, isAdminish };
+}
 
 @Injectable()
 export class TaskMemberGuard implements CanActivate {
@@ -17,45 +60,20 @@ export class TaskMemberGuard implements CanActivate {
     const taskId = +request.params[paramName];
     const userId = request.user.userId;
 
-    const task = await this.prismaService.task.findUnique({
-      where: { id: taskId },
-      select: { id: true, ownerId: true, groupId: true, status: true },
-    });
-
-    if (!task) throw TasksErrors.TaskNotFoundError.byId(userId, taskId);
-
-    let isMember = false;
-    let isAdminish = false;
-
-    if (!task.groupId) {
-      // 個人任務：擁有者就是成員，也是管理員
-      isMember = task.ownerId === userId;
-      isAdminish = isMember;
-    } else {
-      // 群組任務：查一次成員表
-      const member = await this.prismaService.groupMember.findUnique({
-        where: { groupId_userId: { groupId: task.groupId, userId } },
-        select: { role: true },
-      });
-
-      isMember = !!member;
-      isAdminish = member
-        ? member.role === 'ADMIN' || member.role === 'OWNER'
-        : false;
-    }
+    const access = await resolveTaskAccess(this.prismaService, taskId, userId);
 
     // 🛑 核心攔截：如果連 Member 都不是，直接丟出 404
-    if (!isMember) {
+    if (!access?.isMember) {
       throw TasksErrors.TaskNotFoundError.byId(userId, taskId);
     }
 
     // ✅ 存入 Request Context，供 Decorator 或 Interceptor 使用
     request.taskContext = {
-      task,
+      task: access.task,
       userId,
-      isMember,
-      isAdminish,
-      isOwner: task.ownerId === userId,
+      isMember: access.isMember,
+      isAdminish: access.isAdminish,
+      isOwner: access.task.ownerId === userId,
     };
 
     return true;
@@ -0,0 +1,72 @@
+import { ICalUtils } from './ical.util';
+
+describe('ICalUtils', () => {
+  it('escapes commas, semicolons, backslashes and newlines', () => {
+    expect(ICalUtils.escapeText('a,b;c\\d\ne')).toBe('a\\,b\\;c\\\\d\\ne');
+  });
+
+  it('folds long lines at 75 octets without splitting multi-byte chars', () => {
+    const line = `SUMMARY:${'任務'.repeat(40)}`;
+    const folded = ICalUtils.foldLine(line);
+    const parts = folded.split('\r\n');
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((p) =>
+      expect(Buffer.byteLength(p, 'utf8')).toBeLessThanOrEqual(75),
+    );
+    expect(parts.slice(1).every((p) => p.startsWith(' '))).toBe(true);
+    expect(parts.map((p, i) => (i ? p.slice(1) : p)).join('')).toBe(line);
+  });
+
+  it('formats UTC, date-only and zoned local times', () => {
+    const d = new Date('2026-10-21T01:30:00.000Z');
+
+    expect(ICalUtils.formatUtc(d)).toBe('20261021T013000Z');
+    expect(ICalUtils.formatDate(d)).toBe('20261021');
+    expect(ICalUtils.formatLocal(d, 'Asia/Taipei')).toBe('20261021T093000');
+  });
+
+  it('parses folded properties, quoted params and escaped text', () => {
+    const [event] = ICalUtils.parseComponents(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:abc@school',
+        'SUMMARY:Parents\\, teachers',
+        '  meeting',
+        'DTSTART;TZID="America/New_York":20261020T090000',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n'),
+      ['VEVENT'],
+    );
+
+    expect(event.props.map((p) => p.name)).toEqual([
+      'UID',
+      'SUMMARY',
+      'DTSTART',
+    ]);
+    const summary = event.props[1];
+    expect(ICalUtils.unescapeText(summary.value)).toBe(
+      'Parents, teachers meeting',
+    );
+    expect(ICalUtils.parseDateValue(event.props[2])).toEqual({
+      allDay: false,
+      local: '2026-10-20T09:00:00',
+      utc: false,
+      tzid: 'America/New_York',
+    });
+  });
+
+  it('parses all-day dates', () => {
+    const prop = ICalUtils.parseProperty('DTSTART;VALUE=DATE:20261020');
+
+    expect(ICalUtils.parseDateValue(prop!)).toEqual({
+      allDay: true,
+      date: '2026-10-20',
+    });
+  });
+});
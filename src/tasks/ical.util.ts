@@ -0,0 +1,175 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { ICalComponent, ICalDateValue, ICalProperty } from './types/tasks';
+
+// RFC 5545：每行最多 75 bytes，換行一律 CRLF
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+
+export class ICalUtils {
+  static escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  static foldLine(line: string): string {
+    // 依 UTF-8 位元組切，不能把中文字切成兩半
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+      const size = Buffer.byteLength(char, 'utf8');
+      // 續行開頭的空白也算一個 byte
+      const limit = parts.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+      if (octets + size > limit) {
+        parts.push(current);
+        current = '';
+        octets = 0;
+      }
+      current += char;
+      octets += size;
+    }
+    parts.push(current);
+
+    return parts.join(`${CRLF} `);
+  }
+
+  static formatUtc(date: Date): string {
+    // 20261001T043000Z
+    return date
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+  }
+
+  static formatDate(date: Date): string {
+    // allDayLocalDate 是 UTC 午夜的 date-only 值
+    return date.toISOString().slice(0, 10).replace(/-/g, '');
+  }
+
+  static formatLocal(date: Date, timeZone: string): string {
+    return formatInTimeZone(date, timeZone, "yyyyMMdd'T'HHmmss");
+  }
+
+  static serialize(lines: string[]): string {
+    return lines.map((l) => ICalUtils.foldLine(l)).join(CRLF) + CRLF;
+  }
+
+  // ---- 解析（.ics 匯入） ----
+
+  static unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+      c === 'n' || c === 'N' ? '\n' : c,
+    );
+  }
+
+  static unfold(text: string): string {
+    // 續行 = 換行後接一個空白或 tab
+    return text.replace(/\r?\n[ \t]/g, '');
+  }
+
+  static parseProperty(line: string): ICalProperty | null {
+    // 參數值可以用雙引號包住，裡面的 : 和 ; 不算分隔符號
+    let inQuotes = false;
+    let colon = -1;
+    const separators: number[] = [];
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && char === ';') separators.push(i);
+      else if (!inQuotes && char === ':') {
+        colon = i;
+        break;
+      }
+    }
+    if (colon <= 0) return null;
+
+    const head = line.slice(0, colon);
+    const bounds = [...separators, colon];
+    const name = head.slice(0, bounds[0]).toUpperCase();
+    const params: Record<string, string> = {};
+    for (let i = 0; i < separators.length; i++) {
+      const raw = head.slice(separators[i] + 1, bounds[i + 1]);
+      const eq = raw.indexOf('=');
+      if (eq <= 0) continue;
+      params[raw.slice(0, eq).toUpperCase()] = raw
+        .slice(eq + 1)
+        .replace(/^"|"$/g, '');
+    }
+
+    return { name, params, value: line.slice(colon + 1) };
+  }
+
+  static parseComponents(text: string, types: string[]): ICalComponent[] {
+    /**
+     * Collects the top-level properties of every component of the given types.
+     * Nested components (e.g. VALARM inside VEVENT) are skipped.
+     */
+    const components: ICalComponent[] = [];
+    const stack: string[] = [];
+    let current: ICalComponent | null = null;
+
+    for (const line of ICalUtils.unfold(text).split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      const prop = ICalUtils.parseProperty(line);
+      if (!prop) continue;
+
+      if (prop.name === 'BEGIN') {
+        const type = prop.value.trim().toUpperCase();
+        stack.push(type);
+        if (!current && types.includes(type)) {
+          current = { type, props: [] };
+        }
+        continue;
+      }
+      if (prop.name === 'END') {
+        stack.pop();
+        if (current && !stack.includes(current.type)) {
+          components.push(current);
+          current = null;
+        }
+        continue;
+      }
+      if (current && stack[stack.length - 1] === current.type) {
+        current.props.push(prop);
+      }
+    }
+
+    return components;
+  }
+
+  static parseDateValue(prop: ICalProperty): ICalDateValue | null {
+    const value = prop.value.trim();
+
+    const date = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+    if (date) {
+      return { allDay: true, date: `${date[1]}-${date[2]}-${date[3]}` };
+    }
+
+    const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(
+      value,
+    );
+    if (!dateTime) return null;
+
+    const [, y, mo, d, h, mi, sec, z] = dateTime;
+    return {
+      allDay: false,
+      local: `${y}-${mo}-${d}T${h}:${mi}:${sec}`,
+      utc: z === 'Z',
+      ...(prop.params.TZID && { tzid: prop.params.TZID }),
+    };
+  }
+
+  static isKnownTimeZone(timeZone: string): boolean {
+    // Outlook 之類會用自訂的 TZID 名稱，認不得就當作沒有時區
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -1,12 +1,20 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { TasksGateWay } from '../tasks.gateway';
 import { SecurityService } from 'src/security/security.service';
 import { UsersService } from 'src/users/users.service';
 import { UsersErrors } from 'src/errors';
 import { UserAccessInfo } from 'src/auth/types/auth';
+import {
+  CommentEventType,
+  CommentThreadItem,
+  TaskListEventType,
+  TaskListTarget,
+} from '../types/tasks';
 
 @Injectable()
 export class TasksHelperService {
+  private readonly logger = new Logger('TasksHelper');
+
   constructor(
     private readonly tasksGateway: TasksGateWay,
     private readonly securityService: SecurityService,
@@ -33,31 +41,76 @@ export class TasksHelperService {
     return { payload, accessPayload };
   }
 
-  async notifyTaskChange(
+  // 廣播不擋住寫入的回應：呼叫端不用 await，失敗只記 log
+  notifyTaskChange(
     taskId: number,
     actorId: number,
     updatedBy: string | undefined,
     type: string,
   ) {
-    this.tasksGateway.broadcastTaskUpdate(taskId, {
+    this.tasksGateway
+      .broadcastTaskUpdate(taskId, {
+        type,
+        taskId,
+        userName: updatedBy,
+        actorId,
+      })
+      .catch((error: Error) =>
+        this.logger.error(
+          `Broadcast ${type} for task ${taskId} failed`,
+          error.stack,
+        ),
+      );
+  }
+
+  // 看板用：任務出現、消失或指派變動
+  notifyTaskListChange(
+    task: TaskListTarget,
+    actorId: number,
+    updatedBy: string | undefined,
+    type: TaskListEventType,
+  ) {
+    this.tasksGateway.broadcastTaskListChange(task, {
       type,
-      taskId,
       userName: updatedBy,
       actorId,
     });
   }
 
-  async notifySubTaskChange(
+  notifySubTaskChange(
     taskId: number,
     subTaskId: number,
     actorId: number,
     updatedBy: string | undefined,
     type: string,
   ) {
-    this.tasksGateway.broadcastSubTaskUpdate(taskId, subTaskId, {
+    this.tasksGateway
+      .broadcastSubTaskUpdate(taskId, subTaskId, {
+        type,
+        taskId,
+        subTaskId,
+        userName: updatedBy,
+        actorId,
+      })
+      .catch((error: Error) =>
+        this.logger.error(
+          `Broadcast ${type} for sub-task ${subTaskId} failed`,
+          error.stack,
+        ),
+      );
+  }
+
+  notifyCommentChange(
+    comment: CommentThreadItem,
+    actorId: number,
+    updatedBy: string | undefined,
+    type: CommentEventType,
+  ) {
+    this.tasksGateway.broadcastComment(comment.taskId, comment.subTaskId, {
       type,
-      taskId,
-      subTaskId,
+      taskId: comment.taskId,
+      subTaskId: comment.subTaskId,
+      comment,
       userName: updatedBy,
       actorId,
     });
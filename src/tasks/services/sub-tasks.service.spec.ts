@@ -13,6 +13,9 @@ import { createMockUser } from 'src/test/factories/mock-user.factory';
 import { createMockTask } from 'src/test/factories/mock-task.factory';
 import { TasksHelperService } from './helper.service';
 import { TaskAssignmentManager } from './task-assignment.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { TaskMentionService } from './task-mention.service';
+import { TaskActivityService } from './task-activity.service';
 import { TasksUtils } from '../tasks.util';
 import { CurrentUser } from 'src/common/types/current-user';
 
@@ -45,6 +48,7 @@ describe('SubsubTasksService', () => {
       findMany: jest.fn(),
     },
     taskAssignee: {
+      findFirst: jest.fn(),
       findUnique: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
@@ -53,6 +57,7 @@ describe('SubsubTasksService', () => {
       findMany: jest.fn(),
     },
     subTaskAssignee: {
+      findFirst: jest.fn(),
       findUnique: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
@@ -76,9 +81,14 @@ describe('SubsubTasksService', () => {
     notifyTaskChange: jest.fn(),
     notifySubTaskChange: jest.fn(),
   };
+  const mockTaskMentions = { recordMentions: jest.fn() };
+  const mockTaskActivity = { record: jest.fn() };
+
   const mockTaskAssignmentManager = {
     execute: jest.fn(),
+    notifyDecision: jest.fn(),
   };
+  const mockNotifications = { notify: jest.fn() };
 
   const user: Usermodel = createMockUser();
   const lowTask: TaskModel = createMockTask();
@@ -96,6 +106,9 @@ describe('SubsubTasksService', () => {
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: TasksHelperService, useValue: mocktasksHelper },
         { provide: TaskAssignmentManager, useValue: mockTaskAssignmentManager },
+        { provide: TaskMentionService, useValue: mockTaskMentions },
+        { provide: TaskActivityService, useValue: mockTaskActivity },
+        { provide: NotificationsService, useValue: mockNotifications },
       ],
     }).compile();
 
@@ -177,10 +190,18 @@ describe('SubsubTasksService', () => {
           groupId: null,
         });
         mockPrismaService.user.findUnique.mockResolvedValue(mockActor);
-        mockPrismaService.subTask.create.mockResolvedValue({ id: 1 });
+        mockPrismaService.subTask.create.mockResolvedValue({
+          id: 1,
+          description: basePayload.description,
+        });
 
         await subTasksService.createSubTask(basePayload);
 
+        expect(mockTaskMentions.recordMentions).toHaveBeenCalledWith(
+          { taskId: parentTaskId, subTaskId: 1, actorId },
+          basePayload.description,
+        );
+
         // 驗證日期計算被正確呼叫
         expect(TasksUtils.calculateTaskDates).toHaveBeenCalledWith(
           basePayload.allDay,
@@ -213,6 +234,7 @@ describe('SubsubTasksService', () => {
         });
         mockPrismaService.user.findUnique.mockResolvedValue(mockActor);
 
+        mockPrismaService.subTask.create.mockResolvedValue({ id: 1 });
         const { priority, ...payloadWithoutPriority } = basePayload;
 
         await subTasksService.createSubTask(payloadWithoutPriority as any);
@@ -298,6 +320,7 @@ describe('SubsubTasksService', () => {
           task: { select: { id: true, groupId: true, ownerId: true } },
           closedBy: { select: { id: true, name: true } },
           assignees: {
+            where: { isCurrent: true },
             include: {
               assignee: { select: { id: true, name: true, email: true } },
               assignedBy: { select: { id: true, name: true, email: true } },
@@ -482,6 +505,39 @@ describe('SubsubTasksService', () => {
           priority: Number(mockPayload.priority),
         }),
       });
+      // 沒改描述就不用重新解析提及
+      expect(mockTaskMentions.recordMentions).not.toHaveBeenCalled();
+    });
+
+    it('should notify members mentioned in an updated description', async () => {
+      mockPrismaService.subTask.findUnique.mockResolvedValue({
+        id: mockSubTaskId,
+      });
+      mockPrismaService.subTask.update.mockResolvedValue({
+        id: mockSubTaskId,
+        taskId: 50,
+        description: 'cc @Ann',
+      });
+
+      await subTasksService.updateSubTask(
+        mockSubTaskId,
+        mockActorId,
+        mockActorTz,
+        {
+          description: 'cc @Ann',
+          emailMentions: true,
+        },
+      );
+
+      expect(mockTaskMentions.recordMentions).toHaveBeenCalledWith(
+        {
+          taskId: 50,
+          subTaskId: mockSubTaskId,
+          actorId: mockActorId,
+          sendEmail: true,
+        },
+        'cc @Ann',
+      );
     });
   });
 
@@ -497,6 +553,13 @@ describe('SubsubTasksService', () => {
       userName: 'testUser',
       timeZone: 'Asia/Taipei',
     };
+    const openSubTask = {
+      id: subTaskId,
+      status: TaskStatus.OPEN,
+      title: 'Slides',
+      task: { ownerId: 9, groupId: 3 },
+      assignees: [{ assigneeId: 5 }, { assigneeId: 9 }],
+    };
 
     it('should throw TaskNotFoundError if subTask does not exist', async () => {
       // Arrange: 模擬資料庫找不到該子任務
@@ -518,12 +581,12 @@ describe('SubsubTasksService', () => {
     it('should successfully close subTask and self-claim if actor is not yet completed', async () => {
       // Arrange
       // 1. 模擬基礎檢查通過
-      mockPrismaService.subTask.findUnique.mockResolvedValue({ id: subTaskId });
+      mockPrismaService.subTask.findUnique.mockResolvedValue(openSubTask);
       // 2. 模擬更新子任務成功
       const mockUpdatedSubTask = { id: subTaskId, status: TaskStatus.CLOSED };
       mockPrismaService.subTask.update.mockResolvedValue(mockUpdatedSubTask);
       // 3. 模擬使用者目前並非完成者
-      mockPrismaService.subTaskAssignee.findUnique.mockResolvedValue(null);
+      mockPrismaService.subTaskAssignee.findFirst.mockResolvedValue(null);
 
       // Act
       const result = await subTasksService.closeSubTask(
@@ -544,8 +607,14 @@ describe('SubsubTasksService', () => {
         }),
       });
 
-      // 驗證觸發了自我認領 (upsert)
-      expect(mockPrismaService.subTaskAssignee.upsert).toHaveBeenCalled();
+      // 驗證觸發了自我認領 (沒有進行中的一輪，建立新的一輪)
+      expect(mockPrismaService.subTaskAssignee.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          subTaskId,
+          assigneeId: mockCurrentUser.userId,
+          status: AssignmentStatus.COMPLETED,
+        }),
+      });
 
       // 驗證清理了其他人的狀態 (ACCEPTED -> DROPPED, PENDING -> SKIPPED)
       expect(
@@ -553,7 +622,11 @@ describe('SubsubTasksService', () => {
       ).toHaveBeenCalledTimes(2);
       expect(mockPrismaService.subTaskAssignee.updateMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: { subTaskId, status: AssignmentStatus.ACCEPTED },
+          where: {
+            subTaskId,
+            isCurrent: true,
+            status: AssignmentStatus.ACCEPTED,
+          },
         }),
       );
 
@@ -565,14 +638,31 @@ describe('SubsubTasksService', () => {
         'CLOSE_SUBTASK',
       );
 
+      // 父任務擁有者與還在做的人各一則（重複的人只通知一次）
+      const [[sent]] = mockNotifications.notify.mock.calls as [
+        { userId: number }[],
+      ][];
+      expect(sent.map((n) => n.userId)).toEqual([9, 5]);
+      expect(sent[0]).toEqual(
+        expect.objectContaining({
+          actorId: mockCurrentUser.userId,
+          type: 'SUB_TASK_CLOSED',
+          title: 'testUser closed "Slides"',
+          body: 'Mission accomplished',
+          url: `/tasks/${parentId}/sub-tasks/${subTaskId}`,
+          subTaskId,
+        }),
+      );
+
       expect(result).toEqual(mockUpdatedSubTask);
     });
 
-    it('should not call upsert if actor is already in COMPLETED status', async () => {
+    it('should not touch the actor round if it is already COMPLETED', async () => {
       // Arrange
-      mockPrismaService.subTask.findUnique.mockResolvedValue({ id: subTaskId });
+      mockPrismaService.subTask.findUnique.mockResolvedValue(openSubTask);
       // 模擬使用者已經是 COMPLETED
-      mockPrismaService.subTaskAssignee.findUnique.mockResolvedValue({
+      mockPrismaService.subTaskAssignee.findFirst.mockResolvedValue({
+        id: 7,
         status: AssignmentStatus.COMPLETED,
       });
 
@@ -585,15 +675,16 @@ describe('SubsubTasksService', () => {
 
       // Assert
       // 應該只查詢，不更新 (因為 if 條件不成立)
-      expect(mockPrismaService.subTaskAssignee.upsert).not.toHaveBeenCalled();
+      expect(mockPrismaService.subTaskAssignee.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.subTaskAssignee.update).not.toHaveBeenCalled();
       // 但其他的清理動作還是要執行
       expect(mockPrismaService.subTaskAssignee.updateMany).toHaveBeenCalled();
     });
 
     it('should handle missing reason by setting it to null', async () => {
       // Arrange
-      mockPrismaService.subTask.findUnique.mockResolvedValue({ id: subTaskId });
-      mockPrismaService.subTaskAssignee.findUnique.mockResolvedValue(null);
+      mockPrismaService.subTask.findUnique.mockResolvedValue(openSubTask);
+      mockPrismaService.subTaskAssignee.findFirst.mockResolvedValue(null);
 
       // Act
       await subTasksService.closeSubTask(
@@ -624,6 +715,7 @@ describe('SubsubTasksService', () => {
     // 模擬 SubTask 的基礎資料
     const mockSubTaskBase = {
       id: subTaskId,
+      taskId: 5,
       status: TaskStatus.OPEN,
     };
 
@@ -639,10 +731,20 @@ describe('SubsubTasksService', () => {
         actorId: 999, // 非 owner/非 assignee 的用戶
       });
 
-      // 驗證 findUnique 被呼叫 (只查詢 SubTask 狀態，無需父任務或權限資訊)
+      // 驗證 findUnique 被呼叫 (只查詢 SubTask 狀態與父任務 id，無需權限資訊)
       expect(mockPrismaService.subTask.findUnique).toHaveBeenCalledWith({
         where: { id: subTaskId },
-        select: { id: true, status: true },
+        select: { id: true, taskId: true, status: true },
+      });
+
+      // 驗證操作紀錄寫在同一個 transaction 中
+      expect(mockTaskActivity.record).toHaveBeenCalledWith(mockPrismaService, {
+        taskId: 5,
+        subTaskId,
+        actorId: 999,
+        action: 'STATUS_CHANGED',
+        before: { status: TaskStatus.OPEN },
+        after: { status: TaskStatus.CLOSED },
       });
 
       // 驗證 SubTask 被更新為 CLOSED
@@ -774,6 +876,7 @@ describe('SubsubTasksService', () => {
         {
           where: {
             subTaskId: subTaskId,
+            isCurrent: true,
             status: AssignmentStatus.DROPPED,
           },
           data: expect.objectContaining({
@@ -787,6 +890,7 @@ describe('SubsubTasksService', () => {
         {
           where: {
             subTaskId: subTaskId,
+            isCurrent: true,
             status: AssignmentStatus.SKIPPED,
           },
           data: expect.objectContaining({
@@ -859,7 +963,7 @@ describe('SubsubTasksService', () => {
       });
 
       // 3. Mock 目前沒有指派紀錄
-      mockPrismaService.subTaskAssignee.findUnique.mockResolvedValueOnce(null);
+      mockPrismaService.subTaskAssignee.findFirst.mockResolvedValueOnce(null);
 
       // 4. Mock 建立紀錄
       mockPrismaService.subTaskAssignee.create.mockResolvedValueOnce({
@@ -900,7 +1004,8 @@ describe('SubsubTasksService', () => {
       });
 
       // 3. Mock 已有 ACCEPTED 紀錄
-      mockPrismaService.subTaskAssignee.findUnique.mockResolvedValueOnce({
+      mockPrismaService.subTaskAssignee.findFirst.mockResolvedValueOnce({
+        id: 12,
         status: AssignmentStatus.ACCEPTED,
       });
 
@@ -921,15 +1026,25 @@ describe('SubsubTasksService', () => {
       );
 
       // 斷言：檢查是否呼叫了 update 並帶入正確的時間戳記 (由 getAssigneeUpdateData 產生)
+      // 只更新目前這一輪
+      expect(mockPrismaService.subTaskAssignee.findFirst).toHaveBeenCalledWith({
+        where: { subTaskId, assigneeId: actorId, isCurrent: true },
+        select: { id: true, status: true },
+      });
       expect(mockPrismaService.subTaskAssignee.update).toHaveBeenCalledWith({
-        where: {
-          subTaskId_assigneeId: { subTaskId, assigneeId: actorId },
-        },
+        where: { id: 12 },
         data: expect.objectContaining({
           status: AssignmentStatus.COMPLETED,
           completedAt: expect.any(Date),
         }),
       });
+      // 交易完成後交給 TaskAssignmentManager 決定要不要通知指派人
+      expect(mockTaskAssignmentManager.notifyDecision).toHaveBeenCalledWith(
+        'SUBTASK',
+        subTaskId,
+        actorId,
+        AssignmentStatus.COMPLETED,
+      );
     });
 
     it('should throw forbidden error if trying to claim with a status other than ACCEPTED', async () => {
@@ -937,7 +1052,7 @@ describe('SubsubTasksService', () => {
       mockPrismaService.groupMember.findUnique.mockResolvedValueOnce({
         userId: actorId,
       });
-      mockPrismaService.subTaskAssignee.findUnique.mockResolvedValueOnce(null);
+      mockPrismaService.subTaskAssignee.findFirst.mockResolvedValueOnce(null);
 
       // 嘗試在沒有紀錄的情況下直接傳送 COMPLETED
       await expect(
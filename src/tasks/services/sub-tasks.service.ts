@@ -2,21 +2,32 @@ import { Injectable } from '@nestjs/common';
 import { PrismaService } from 'src/prisma/prisma.service';
 import {
   AssignTaskPayload,
+  SendBackAssignmentPayload,
   GroupMemberInfo,
   SubTaskAddPayload,
   TaskUpdatePayload,
   UpdateStatusOpts,
   SubTaskWithAllDetails,
 } from '../types/tasks';
-import { AssignmentStatus, Prisma, User } from 'src/generated/prisma/client';
+import {
+  AssignmentStatus,
+  NotificationType,
+  Prisma,
+  SubTask,
+  TaskActivityAction,
+  User,
+} from 'src/generated/prisma/client';
 
 import { TaskStatus } from '../types/enum';
 import { TasksErrors, UsersErrors } from 'src/errors';
 
-import { TasksUtils } from '../tasks.util';
+import { TASK_ACTIVITY_FIELDS, TasksUtils } from '../tasks.util';
 import { TasksHelperService } from './helper.service';
 import { TaskAssignmentManager } from './task-assignment.service';
+import { TaskMentionService } from './task-mention.service';
+import { TaskActivityService } from './task-activity.service';
 import { CurrentUser } from 'src/common/types/current-user';
+import { NotificationsService } from 'src/notifications/notifications.service';
 /**
  * TODO:
  * 1. This service file is too big, we should separate Task and Subtask to another service.
@@ -29,9 +40,12 @@ export class SubTasksService {
     private prismaService: PrismaService,
     private readonly tasksHelper: TasksHelperService,
     private readonly taskAssignmentManager: TaskAssignmentManager,
+    private readonly taskMentions: TaskMentionService,
+    private readonly taskActivity: TaskActivityService,
+    private readonly notifications: NotificationsService,
   ) {}
 
-  async createSubTask(payload: SubTaskAddPayload): Promise<void> {
+  async createSubTask(payload: SubTaskAddPayload): Promise<SubTask> {
     // 1. Get parent task info
     const parentTask = await this.prismaService.task.findUnique({
       where: { id: payload.parentTaskId },
@@ -81,7 +95,27 @@ export class SubTasksService {
     };
 
     // Create subTask
-    await this.prismaService.subTask.create({ data });
+    const subTask = await this.prismaService.$transaction(async (tx) => {
+      const created = await tx.subTask.create({ data });
+      await this.taskActivity.record(tx, {
+        taskId: parentTask.id,
+        subTaskId: created.id,
+        actorId: payload.actorId,
+        action: TaskActivityAction.CREATED,
+        after: { title: created.title, status: created.status },
+      });
+      return created;
+    });
+
+    // 4. Notify mentioned members
+    await this.taskMentions.recordMentions(
+      {
+        taskId: parentTask.id,
+        subTaskId: subTask.id,
+        actorId: payload.actorId,
+      },
+      subTask.description,
+    );
 
     // 5. Send notification
     this.tasksHelper.notifyTaskChange(
@@ -90,6 +124,8 @@ export class SubTasksService {
       payload.updatedBy,
       'SUBTASK_CREATED',
     );
+
+    return subTask;
   }
 
   async getSubTaskForViewer(
@@ -127,6 +163,7 @@ export class SubTasksService {
           select: { id: true, name: true },
         },
         assignees: {
+          where: { isCurrent: true },
           include: {
             assignee: { select: { id: true, name: true, email: true } },
             assignedBy: { select: { id: true, name: true, email: true } },
@@ -205,22 +242,51 @@ export class SubTasksService {
     actorTz: string,
     payload: TaskUpdatePayload,
   ): Promise<void> {
-    const exists = await this.prismaService.subTask.findUnique({
+    const before = await this.prismaService.subTask.findUnique({
       where: { id },
-      select: { id: true },
     });
 
-    if (!exists) throw TasksErrors.TaskNotFoundError.byId(actorId, id);
+    if (!before) throw TasksErrors.TaskNotFoundError.byId(actorId, id);
 
     const data = TasksUtils.getCommonUpdateData<Prisma.SubTaskUpdateInput>(
       payload,
       actorTz,
     );
 
-    await this.prismaService.subTask.update({
-      where: { id },
-      data,
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      const row = await tx.subTask.update({
+        where: { id },
+        data,
+      });
+
+      const changes = TasksUtils.diffActivityValues(
+        before,
+        row,
+        TASK_ACTIVITY_FIELDS,
+      );
+      if (changes) {
+        await this.taskActivity.record(tx, {
+          taskId: row.taskId,
+          subTaskId: id,
+          actorId,
+          action: TaskActivityAction.UPDATED,
+          ...changes,
+        });
+      }
+      return row;
     });
+
+    if (payload.description !== undefined) {
+      await this.taskMentions.recordMentions(
+        {
+          taskId: updated.taskId,
+          subTaskId: id,
+          actorId,
+          sendEmail: payload.emailMentions,
+        },
+        updated.description,
+      );
+    }
   }
 
   async closeSubTask(
@@ -236,6 +302,19 @@ export class SubTasksService {
 
       select: {
         id: true,
+        status: true,
+        title: true,
+        task: { select: { ownerId: true, groupId: true } },
+        // 關閉後這些人的指派會變成 DROPPED / SKIPPED，先記下來通知
+        assignees: {
+          where: {
+            isCurrent: true,
+            status: {
+              in: [AssignmentStatus.PENDING, AssignmentStatus.ACCEPTED],
+            },
+          },
+          select: { assigneeId: true },
+        },
       },
     });
 
@@ -253,25 +332,14 @@ export class SubTasksService {
       });
 
       // check if this subTask belongs to actor
-      const isActorsAssignment = await tx.subTaskAssignee.findUnique({
-        where: {
-          subTaskId_assigneeId: { subTaskId: id, assigneeId: user.userId },
-        },
-        select: { status: true },
+      const isActorsAssignment = await tx.subTaskAssignee.findFirst({
+        where: { subTaskId: id, assigneeId: user.userId, isCurrent: true },
+        select: { id: true, status: true },
       });
 
-      if (
-        !isActorsAssignment ||
-        isActorsAssignment.status !== AssignmentStatus.COMPLETED
-      ) {
-        await tx.subTaskAssignee.upsert({
-          where: {
-            subTaskId_assigneeId: { subTaskId: id, assigneeId: user.userId },
-          },
-          update: {
-            status: AssignmentStatus.COMPLETED, // 或是自訂一個 COMPLETED 狀態
-          },
-          create: {
+      if (!isActorsAssignment) {
+        await tx.subTaskAssignee.create({
+          data: {
             subTaskId: id,
             assigneeId: user.userId,
             assignedById: user.userId, // 自己領的
@@ -279,17 +347,42 @@ export class SubTasksService {
             acceptedAt: new Date(),
           },
         });
+      } else if (isActorsAssignment.status !== AssignmentStatus.COMPLETED) {
+        await tx.subTaskAssignee.update({
+          where: { id: isActorsAssignment.id },
+          data: {
+            status: AssignmentStatus.COMPLETED, // 或是自訂一個 COMPLETED 狀態
+          },
+        });
       }
 
       await tx.subTaskAssignee.updateMany({
-        where: { subTaskId: id, status: AssignmentStatus.ACCEPTED },
+        where: {
+          subTaskId: id,
+          isCurrent: true,
+          status: AssignmentStatus.ACCEPTED,
+        },
         data: { status: AssignmentStatus.DROPPED, updatedAt: new Date() },
       });
 
       await tx.subTaskAssignee.updateMany({
-        where: { subTaskId: id, status: AssignmentStatus.PENDING },
+        where: {
+          subTaskId: id,
+          isCurrent: true,
+          status: AssignmentStatus.PENDING,
+        },
         data: { status: AssignmentStatus.SKIPPED, updatedAt: new Date() },
       });
+
+      await this.taskActivity.record(tx, {
+        taskId: parentId,
+        subTaskId: id,
+        actorId: user.userId,
+        action: TaskActivityAction.STATUS_CHANGED,
+        before: { status: subTask.status },
+        after: { status: TaskStatus.CLOSED },
+        reason: opts?.reason ?? null,
+      });
       return updateSubTask;
     });
     this.tasksHelper.notifyTaskChange(
@@ -305,6 +398,25 @@ export class SubTasksService {
       user.userName,
       'CLOSE_SUBTASK',
     );
+
+    // 父任務的擁有者與還在做這個子任務的人
+    const recipients = new Set([
+      subTask.task.ownerId,
+      ...subTask.assignees.map((a) => a.assigneeId),
+    ]);
+    await this.notifications.notify(
+      [...recipients].map((userId) => ({
+        userId,
+        actorId: user.userId,
+        type: NotificationType.SUB_TASK_CLOSED,
+        title: `${user.userName} closed "${subTask.title}"`,
+        body: opts?.reason ?? null,
+        url: `/tasks/${parentId}/sub-tasks/${id}`,
+        groupId: subTask.task.groupId,
+        taskId: parentId,
+        subTaskId: id,
+      })),
+    );
     return result;
   }
 
@@ -341,6 +453,7 @@ export class SubTasksService {
         where: { id: subTaskId },
         select: {
           id: true,
+          taskId: true,
           status: true,
         },
       });
@@ -377,6 +490,21 @@ export class SubTasksService {
 
       // 5) update
       await tx.subTask.update({ where: { id: subTaskId }, data });
+
+      // 6) activity
+      let action: TaskActivityAction = TaskActivityAction.STATUS_CHANGED;
+      if (newStatus === TaskStatus.ARCHIVED)
+        action = TaskActivityAction.ARCHIVED;
+      if (newStatus === TaskStatus.OPEN) action = TaskActivityAction.RESTORED;
+
+      await this.taskActivity.record(tx, {
+        taskId: subTask.taskId,
+        subTaskId,
+        actorId,
+        action,
+        before: { status: from },
+        after: { status: newStatus },
+      });
     });
   }
 
@@ -388,6 +516,11 @@ export class SubTasksService {
      * Should check authentication
      */
     const result = await this.prismaService.$transaction(async (tx) => {
+      const before = await tx.subTask.findUnique({
+        where: { id },
+        select: { status: true },
+      });
+
       await tx.subTask.update({
         where: { id },
         data: {
@@ -398,14 +531,31 @@ export class SubTasksService {
       });
 
       await tx.subTaskAssignee.updateMany({
-        where: { subTaskId: id, status: AssignmentStatus.DROPPED },
+        where: {
+          subTaskId: id,
+          isCurrent: true,
+          status: AssignmentStatus.DROPPED,
+        },
         data: { status: AssignmentStatus.ACCEPTED, updatedAt: new Date() }, // 恢復到「已接受」
       });
 
       await tx.subTaskAssignee.updateMany({
-        where: { subTaskId: id, status: AssignmentStatus.SKIPPED },
+        where: {
+          subTaskId: id,
+          isCurrent: true,
+          status: AssignmentStatus.SKIPPED,
+        },
         data: { status: AssignmentStatus.PENDING, updatedAt: new Date() }, // 恢復到「待處理」
       });
+
+      await this.taskActivity.record(tx, {
+        taskId: parentId,
+        subTaskId: id,
+        actorId: user.userId,
+        action: TaskActivityAction.RESTORED,
+        before: { status: before?.status ?? null },
+        after: { status: TaskStatus.OPEN },
+      });
     });
 
     this.tasksHelper.notifySubTaskChange(
@@ -445,12 +595,10 @@ export class SubTasksService {
 
       if (!subTask) throw TasksErrors.TaskNotFoundError.byId(actor.userId, id);
 
-      // 2. 檢查指派紀錄
-      const assignee = await tx.subTaskAssignee.findUnique({
-        where: {
-          subTaskId_assigneeId: { subTaskId: id, assigneeId: actor.userId },
-        },
-        select: { status: true },
+      // 2. 檢查目前這一輪的指派紀錄
+      const assignee = await tx.subTaskAssignee.findFirst({
+        where: { subTaskId: id, assigneeId: actor.userId, isCurrent: true },
+        select: { id: true, status: true },
       });
 
       // 3. 自領邏輯 (Self-claim)
@@ -473,6 +621,15 @@ export class SubTasksService {
             acceptedAt: new Date(),
           },
         });
+        await this.taskActivity.record(tx, {
+          taskId: parentId,
+          subTaskId: id,
+          actorId: actor.userId,
+          action: TaskActivityAction.ASSIGNEE_STATUS_CHANGED,
+          targetUserId: actor.userId,
+          before: { status: null },
+          after: { status: AssignmentStatus.ACCEPTED },
+        });
 
         this.tasksHelper.notifySubTaskChange(
           parentId,
@@ -506,11 +663,19 @@ export class SubTasksService {
 
       // 5. 更新狀態
       await tx.subTaskAssignee.update({
-        where: {
-          subTaskId_assigneeId: { subTaskId: id, assigneeId: actor.userId },
-        },
+        where: { id: assignee.id },
         data: TasksUtils.getAssigneeUpdateData(next, reason),
       });
+      await this.taskActivity.record(tx, {
+        taskId: parentId,
+        subTaskId: id,
+        actorId: actor.userId,
+        action: TaskActivityAction.ASSIGNEE_STATUS_CHANGED,
+        targetUserId: actor.userId,
+        before: { status: assignee.status },
+        after: { status: next },
+        reason: reason ?? null,
+      });
     });
 
     // 🚀 交易成功後，才發送 Socket 通知
@@ -521,6 +686,12 @@ export class SubTasksService {
       actor.userName,
       'SUBTASK_STATUS_UPDATED',
     );
+    await this.taskAssignmentManager.notifyDecision(
+      'SUBTASK',
+      id,
+      actor.userId,
+      next,
+    );
 
     return { ok: true };
   }
@@ -537,6 +708,17 @@ export class SubTasksService {
     });
   }
 
+  async sendBackAssignment(payload: SendBackAssignmentPayload) {
+    return this.taskAssignmentManager.sendBack({
+      type: 'SUBTASK',
+      targetId: payload.id,
+      assigneeId: payload.assigneeId,
+      actorId: payload.actorId,
+      reason: payload.reason,
+      updatedBy: payload.updatedBy,
+    });
+  }
+
   // ------------- assignment --------------------
 
   //   async updateAssigneeStatus(
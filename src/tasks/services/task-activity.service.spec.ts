@@ -0,0 +1,177 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TaskActivityService } from './task-activity.service';
+
+describe('TaskActivityService', () => {
+  let service: TaskActivityService;
+
+  const mockPrismaService = {
+    taskActivity: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskActivityService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get(TaskActivityService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    it('writes the entry with the given transaction client', async () => {
+      const tx = { taskActivity: { create: jest.fn() } };
+
+      await service.record(tx as any, {
+        taskId: 1,
+        actorId: 9,
+        action: 'STATUS_CHANGED',
+        before: { status: 'OPEN' },
+        after: { status: 'CLOSED' },
+      });
+
+      expect(tx.taskActivity.create).toHaveBeenCalledWith({
+        data: {
+          taskId: 1,
+          subTaskId: null,
+          actorId: 9,
+          action: 'STATUS_CHANGED',
+          targetUserId: null,
+          before: { status: 'OPEN' },
+          after: { status: 'CLOSED' },
+          reason: null,
+        },
+      });
+      expect(mockPrismaService.taskActivity.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getActivity', () => {
+    const base = {
+      taskId: 1,
+      subTaskId: null,
+      subTask: null,
+      actorId: 9,
+      actor: { name: 'Corgi' },
+      targetUserId: null,
+      targetUser: null,
+      before: null,
+      after: null,
+      reason: null,
+      createdAt: new Date('2026-10-01T04:30:00Z'),
+    };
+
+    it('returns entries newest first with a readable summary', async () => {
+      mockPrismaService.taskActivity.findMany.mockResolvedValue([
+        {
+          ...base,
+          id: 3,
+          action: 'FORCE_CLOSED',
+          before: { status: 'OPEN' },
+          after: { status: 'CLOSED' },
+          reason: 'Out of scope',
+        },
+        {
+          ...base,
+          id: 4,
+          action: 'ASSIGNMENT_SENT_BACK',
+          targetUserId: 10,
+          targetUser: { name: 'Ann' },
+          before: { status: 'COMPLETED', round: 1 },
+          after: { status: 'PENDING', round: 2 },
+        },
+        {
+          ...base,
+          id: 2,
+          action: 'ASSIGNED',
+          subTaskId: 5,
+          subTask: { title: 'Buy food' },
+          targetUserId: 10,
+          targetUser: { name: 'Ann' },
+        },
+        {
+          ...base,
+          id: 1,
+          action: 'UPDATED',
+          actorId: null,
+          actor: null,
+          before: { title: 'Old', location: null },
+          after: { title: 'New', location: 'Park' },
+        },
+      ]);
+
+      const items = await service.getActivity(1, 'Asia/Taipei');
+
+      expect(mockPrismaService.taskActivity.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { taskId: 1 },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: 100,
+        }),
+      );
+      expect(items.map((i) => i.summary)).toEqual([
+        'force closed the task',
+        'sent the task back to Ann (round 2)',
+        'assigned sub-task "Buy food" to Ann',
+        'updated title, location of the task',
+      ]);
+      expect(items[0].reason).toBe('Out of scope');
+      expect(items[3].actorName).toBe('Deleted user');
+      expect(items[0].createdLabel).toBe('2026/10/01 12:30');
+    });
+
+    it('tells a claim apart from a status change made for someone else', async () => {
+      mockPrismaService.taskActivity.findMany.mockResolvedValue([
+        {
+          ...base,
+          id: 2,
+          action: 'ASSIGNEE_STATUS_CHANGED',
+          targetUserId: 10,
+          targetUser: { name: 'Ann' },
+          before: { status: 'PENDING' },
+          after: { status: 'DECLINED' },
+        },
+        {
+          ...base,
+          id: 1,
+          action: 'ASSIGNEE_STATUS_CHANGED',
+          targetUserId: 9,
+          targetUser: { name: 'Corgi' },
+          after: { status: 'ACCEPTED' },
+        },
+      ]);
+
+      const items = await service.getActivity(1, 'UTC', 20);
+
+      expect(items.map((i) => i.summary)).toEqual([
+        "set Ann's assignment on the task to DECLINED",
+        'claimed the task',
+      ]);
+    });
+
+    it('describes a close triggered by the completion policy', async () => {
+      mockPrismaService.taskActivity.findMany.mockResolvedValue([
+        {
+          ...base,
+          id: 1,
+          action: 'STATUS_CHANGED',
+          before: { status: 'OPEN' },
+          after: { status: 'CLOSED', autoClosed: true },
+        },
+      ]);
+
+      const items = await service.getActivity(1, 'UTC');
+
+      expect(items[0].summary).toBe('completed and closed the task');
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Prisma, TaskActivityAction } from 'src/generated/prisma/client';
+import {
+  ActivityEntry,
+  ActivityValues,
+  TaskActivityItem,
+} from '../types/tasks';
+
+const activityWithNamesArgs = {
+  include: {
+    actor: { select: { name: true } },
+    targetUser: { select: { name: true } },
+    subTask: { select: { title: true } },
+  },
+} satisfies Prisma.TaskActivityDefaultArgs;
+
+type ActivityWithNames = Prisma.TaskActivityGetPayload<
+  typeof activityWithNamesArgs
+>;
+
+@Injectable()
+export class TaskActivityService {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async record(
+    tx: Prisma.TransactionClient,
+    entry: ActivityEntry,
+  ): Promise<void> {
+    /**
+     * Appends an entry to the task's activity log.
+     * * @description
+     * Always called with the transaction client of the mutation it describes, so the
+     * entry is committed (or rolled back) together with the change itself.
+     * Entries are never updated or deleted afterwards.
+     */
+    await tx.taskActivity.create({
+      data: {
+        taskId: entry.taskId,
+        subTaskId: entry.subTaskId ?? null,
+        actorId: entry.actorId,
+        action: entry.action,
+        targetUserId: entry.targetUserId ?? null,
+        before: entry.before ?? undefined,
+        after: entry.after ?? undefined,
+        reason: entry.reason ?? null,
+      },
+    });
+  }
+
+  async getActivity(
+    taskId: number,
+    timeZone: string,
+    take = 100,
+  ): Promise<TaskActivityItem[]> {
+    /**
+     * Returns the activity of a task and its sub-tasks, newest first.
+     */
+    const activities = await this.prismaService.taskActivity.findMany({
+      where: { taskId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take,
+      ...activityWithNamesArgs,
+    });
+
+    return activities.map((a) => ({
+      id: a.id,
+      action: a.action,
+      subTaskId: a.subTaskId,
+      subTaskTitle: a.subTask?.title ?? null,
+      actorName: a.actor?.name ?? 'Deleted user',
+      targetUserName: a.targetUser?.name ?? null,
+      before: a.before as ActivityValues | null,
+      after: a.after as ActivityValues | null,
+      reason: a.reason,
+      summary: this.describe(a),
+      createdAt: a.createdAt,
+      createdLabel: formatInTimeZone(a.createdAt, timeZone, 'yyyy/MM/dd HH:mm'),
+    }));
+  }
+
+  private describe(a: ActivityWithNames): string {
+    const before = (a.before ?? {}) as ActivityValues;
+    const after = (a.after ?? {}) as ActivityValues;
+    const target = a.subTask ? `sub-task "${a.subTask.title}"` : 'the task';
+    const member = a.targetUser?.name ?? 'a former member';
+
+    switch (a.action) {
+      case TaskActivityAction.CREATED:
+        return `created ${target}`;
+      case TaskActivityAction.UPDATED:
+        return `updated ${Object.keys(after).join(', ')} of ${target}`;
+      case TaskActivityAction.STATUS_CHANGED:
+        if (after.autoClosed) return `completed and closed ${target}`;
+        return `changed ${target} from ${before.status} to ${after.status}`;
+      case TaskActivityAction.FORCE_CLOSED:
+        return `force closed ${target}`;
+      case TaskActivityAction.ARCHIVED:
+        return `archived ${target}`;
+      case TaskActivityAction.RESTORED:
+        return `restored ${target} from ${before.status}`;
+      case TaskActivityAction.ASSIGNED:
+        return `assigned ${target} to ${member}`;
+      case TaskActivityAction.ASSIGNMENT_SENT_BACK:
+        return `sent ${target} back to ${member} (round ${after.round})`;
+      case TaskActivityAction.ASSIGNEE_STATUS_CHANGED:
+        if (!before.status) return `claimed ${target}`;
+        return a.targetUserId === a.actorId
+          ? `marked ${target} as ${after.status}`
+          : `set ${member}'s assignment on ${target} to ${after.status}`;
+      default:
+        return `changed ${target}`;
+    }
+  }
+}
@@ -0,0 +1,335 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailService } from 'src/mail/mail.service';
+import { TasksErrors } from 'src/errors';
+import { AssignmentStatus, GroupRole } from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
+import { TaskAssignmentManager } from './task-assignment.service';
+import { TasksHelperService } from './helper.service';
+import { TaskActivityService } from './task-activity.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+
+describe('TaskAssignmentManager', () => {
+  let manager: TaskAssignmentManager;
+
+  const mockPrismaService = {
+    task: { findUnique: jest.fn() },
+    subTask: { findUnique: jest.fn() },
+    groupMember: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+    taskAssignee: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    subTaskAssignee: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+  };
+
+  const mockTasksHelper = {
+    notifyTaskChange: jest.fn(),
+    notifySubTaskChange: jest.fn(),
+    notifyTaskListChange: jest.fn(),
+  };
+  const mockTaskActivity = { record: jest.fn() };
+  const mockNotifications = { notify: jest.fn() };
+
+  const adminId = 1;
+  const memberId = 2;
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskAssignmentManager,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: MailService, useValue: {} },
+        { provide: TasksHelperService, useValue: mockTasksHelper },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: TaskActivityService, useValue: mockTaskActivity },
+        { provide: NotificationsService, useValue: mockNotifications },
+      ],
+    }).compile();
+
+    manager = module.get(TaskAssignmentManager);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(async (cb: any) =>
+      cb(mockPrismaService),
+    );
+    mockPrismaService.task.findUnique.mockResolvedValue({
+      groupId: 3,
+      title: 'Ship it',
+      priority: 3,
+      description: null,
+      dueAtUtc: null,
+    });
+    // 第一次查的是指派者，第二次查的是被指派的成員
+    mockPrismaService.groupMember.findUnique
+      .mockResolvedValueOnce({
+        role: GroupRole.ADMIN,
+        user: { name: 'Corgi' },
+        group: { name: 'Corgi Club' },
+      })
+      .mockResolvedValueOnce({ role: GroupRole.MEMBER });
+  });
+
+  describe('execute', () => {
+    const assign = () =>
+      manager.execute({
+        type: 'TASK',
+        targetId: 10,
+        assigneeId: memberId,
+        assignerId: adminId,
+      });
+
+    it('opens the first round for a new assignee', async () => {
+      mockPrismaService.taskAssignee.findFirst.mockResolvedValue(null);
+
+      await assign();
+
+      expect(mockPrismaService.taskAssignee.update).not.toHaveBeenCalled();
+      expect(mockPrismaService.taskAssignee.create).toHaveBeenCalledWith({
+        data: {
+          taskId: 10,
+          assigneeId: memberId,
+          assignedById: adminId,
+          status: AssignmentStatus.PENDING,
+          acceptedAt: null,
+          round: 1,
+        },
+      });
+      expect(mockNotifications.notify).toHaveBeenCalledWith({
+        userId: memberId,
+        actorId: adminId,
+        type: 'ASSIGNED',
+        title: 'Corgi assigned you "Ship it"',
+        body: 'Corgi Club',
+        url: '/tasks/10',
+        groupId: 3,
+        taskId: 10,
+        subTaskId: null,
+      });
+    });
+
+    it('keeps a declined round and opens the next one', async () => {
+      mockPrismaService.taskAssignee.findFirst.mockResolvedValue({
+        id: 5,
+        round: 1,
+        status: AssignmentStatus.DECLINED,
+      });
+
+      await assign();
+
+      expect(mockPrismaService.taskAssignee.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { isCurrent: false },
+      });
+      expect(mockPrismaService.taskAssignee.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ round: 2 }),
+      });
+    });
+
+    it('locks the member round before reading it', async () => {
+      mockPrismaService.taskAssignee.findFirst.mockResolvedValue(null);
+
+      await assign();
+
+      expect(mockPrismaService.$executeRaw).toHaveBeenCalledWith(
+        expect.anything(),
+        `assignment_round:TASK:10:${memberId}`,
+      );
+      expect(
+        mockPrismaService.$executeRaw.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockPrismaService.taskAssignee.findFirst.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('reports a concurrent current round as already active', async () => {
+      mockPrismaService.taskAssignee.findFirst.mockResolvedValue(null);
+      mockPrismaService.taskAssignee.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+
+      await expect(assign()).rejects.toMatchObject({
+        action: 'ASSIGNMENT_ALREADY_ACTIVE',
+      });
+      expect(mockNotifications.notify).not.toHaveBeenCalled();
+    });
+
+    it('refuses to overwrite a completed round', async () => {
+      mockPrismaService.taskAssignee.findFirst.mockResolvedValue({
+        id: 5,
+        round: 1,
+        status: AssignmentStatus.COMPLETED,
+      });
+
+      await expect(assign()).rejects.toThrow(
+        expect.objectContaining({
+          action: 'ASSIGNMENT_COMPLETED_USE_SEND_BACK',
+        }),
+      );
+      expect(mockPrismaService.taskAssignee.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendBack', () => {
+    it('closes the completed round and opens a pending one with the reason', async () => {
+      mockPrismaService.subTask.findUnique.mockResolvedValue({
+        title: 'Buy food',
+        priority: 3,
+        description: null,
+        dueAtUtc: null,
+        task: { id: 10, groupId: 3 },
+      });
+      mockPrismaService.subTaskAssignee.findFirst.mockResolvedValue({
+        id: 8,
+        round: 2,
+        status: AssignmentStatus.COMPLETED,
+      });
+
+      await manager.sendBack({
+        type: 'SUBTASK',
+        targetId: 20,
+        assigneeId: memberId,
+        actorId: adminId,
+        reason: 'Wrong brand',
+        updatedBy: 'Corgi',
+      });
+
+      expect(mockPrismaService.subTaskAssignee.update).toHaveBeenCalledWith({
+        where: { id: 8 },
+        data: {
+          isCurrent: false,
+          sentBackAt: expect.any(Date),
+          sentBackReason: 'Wrong brand',
+        },
+      });
+      expect(mockPrismaService.subTaskAssignee.create).toHaveBeenCalledWith({
+        data: {
+          subTaskId: 20,
+          assigneeId: memberId,
+          assignedById: adminId,
+          status: AssignmentStatus.PENDING,
+          round: 3,
+        },
+      });
+      expect(mockTaskActivity.record).toHaveBeenCalledWith(mockPrismaService, {
+        taskId: 10,
+        subTaskId: 20,
+        actorId: adminId,
+        action: 'ASSIGNMENT_SENT_BACK',
+        targetUserId: memberId,
+        before: { status: AssignmentStatus.COMPLETED, round: 2 },
+        after: { status: AssignmentStatus.PENDING, round: 3 },
+        reason: 'Wrong brand',
+      });
+      expect(mockTasksHelper.notifySubTaskChange).toHaveBeenCalledWith(
+        10,
+        20,
+        adminId,
+        'Corgi',
+        'SUBTASK_UPDATED',
+      );
+      expect(mockNotifications.notify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: memberId,
+          title: 'Corgi sent "Buy food" back to you',
+          body: 'Wrong brand',
+          url: '/tasks/10/sub-tasks/20',
+          subTaskId: 20,
+        }),
+      );
+    });
+
+    it('only sends back work that is completed', async () => {
+      mockPrismaService.taskAssignee.findFirst.mockResolvedValue({
+        id: 5,
+        round: 1,
+        status: AssignmentStatus.ACCEPTED,
+      });
+
+      await expect(
+        manager.sendBack({
+          type: 'TASK',
+          targetId: 10,
+          assigneeId: memberId,
+          actorId: adminId,
+        }),
+      ).rejects.toThrow(TasksErrors.TaskForbiddenError);
+      expect(mockPrismaService.taskAssignee.create).not.toHaveBeenCalled();
+    });
+
+    it('does not let plain members send work back', async () => {
+      mockPrismaService.groupMember.findUnique.mockReset();
+      mockPrismaService.groupMember.findUnique.mockResolvedValue({
+        role: GroupRole.MEMBER,
+      });
+
+      await expect(
+        manager.sendBack({
+          type: 'TASK',
+          targetId: 10,
+          assigneeId: adminId,
+          actorId: memberId,
+        }),
+      ).rejects.toThrow(
+        expect.objectContaining({ action: 'ONLY_ADMINISH_CAN_ASSIGN_TASKS' }),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyDecision', () => {
+    it('tells the assigner that a sub-task assignment was declined', async () => {
+      mockPrismaService.subTaskAssignee.findFirst.mockResolvedValue({
+        assignedById: adminId,
+        reason: 'No time this week',
+        assignee: { name: 'Lee' },
+        subtask: { title: 'Slides', task: { id: 10, groupId: 3 } },
+      });
+
+      await manager.notifyDecision(
+        'SUBTASK',
+        7,
+        memberId,
+        AssignmentStatus.DECLINED,
+      );
+
+      expect(mockNotifications.notify).toHaveBeenCalledWith({
+        userId: adminId,
+        actorId: memberId,
+        type: 'ASSIGNMENT_DECLINED',
+        title: 'Lee declined "Slides"',
+        body: 'No time this week',
+        url: '/tasks/10/sub-tasks/7',
+        groupId: 3,
+        taskId: 10,
+        subTaskId: 7,
+      });
+    });
+
+    it('ignores other transitions', async () => {
+      await manager.notifyDecision(
+        'TASK',
+        10,
+        memberId,
+        AssignmentStatus.COMPLETED,
+      );
+
+      expect(mockPrismaService.taskAssignee.findFirst).not.toHaveBeenCalled();
+      expect(mockNotifications.notify).not.toHaveBeenCalled();
+    });
+  });
+});
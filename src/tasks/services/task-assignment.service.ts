@@ -2,12 +2,61 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { MailService } from 'src/mail/mail.service';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { InternalAssignOptions } from '../types/tasks';
+import { InternalAssignOptions, InternalSendBackOptions } from '../types/tasks';
 import { TaskStatus } from '../types/enum';
 import { TasksErrors } from 'src/errors';
-import { AssignmentStatus, GroupRole } from 'src/generated/prisma/enums';
+import {
+  AssignmentStatus,
+  GroupRole,
+  NotificationType,
+  TaskActivityAction,
+} from 'src/generated/prisma/enums';
+import { Prisma } from 'src/generated/prisma/client';
 import { TasksUtils } from '../tasks.util';
 import { TasksHelperService } from './helper.service';
+import { TaskActivityService } from './task-activity.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+
+// 已結束的一輪才能被重新指派；COMPLETED 要走 sendBack
+const REASSIGNABLE_STATUSES: AssignmentStatus[] = [
+  AssignmentStatus.DECLINED,
+  AssignmentStatus.SKIPPED,
+  AssignmentStatus.DROPPED,
+];
+
+interface AssignmentTarget {
+  groupId: number;
+  title: string;
+  priority: number;
+  description: string | null;
+  dueAt: Date | null;
+  redirectTaskId: number;
+}
+
+interface AssignmentRound {
+  id: number;
+  round: number;
+  status: AssignmentStatus;
+}
+
+// updateGenericStatus 讀到的 Task / SubTask：只帶這位成員目前這一輪
+interface AssigneeStatusTarget {
+  status: string;
+  groupId?: number | null; // Task
+  task?: { groupId: number | null }; // SubTask
+  assignees: { id: number; status: AssignmentStatus }[];
+}
+
+type AssigneeRoundUpdate = ReturnType<typeof TasksUtils.getAssigneeUpdateData>;
+
+// 沒有指派紀錄時的 self-claim；taskId / subTaskId 由呼叫端補上
+interface SelfClaimRound {
+  status: AssignmentStatus;
+  assignedAt: Date;
+  acceptedAt: Date;
+  assignedById: number;
+  assigneeId: number;
+}
 
 @Injectable()
 export class TaskAssignmentManager {
@@ -16,6 +65,8 @@ export class TaskAssignmentManager {
     private mailService: MailService,
     private tasksHelper: TasksHelperService,
     private config: ConfigService,
+    private taskActivity: TaskActivityService,
+    private notifications: NotificationsService,
   ) {}
 
   // TODO: Too big, we should refactor it
@@ -29,23 +80,22 @@ export class TaskAssignmentManager {
      * 2. **Dual-Factor Authentication**:
      * - Validates that the Assigner has administrative privileges (Admin/Owner).
      * - Ensures the Assignee is a valid member of the associated group.
-     * 3. **Smart Persistence**: Performs an `upsert` operation. If the actor assigns a task to
-     * themselves, the status is automatically set to 'ACCEPTED'; otherwise, it remains 'PENDING'.
-     * 4. **Urgent Notification**: Optionally triggers an email dispatch with deep-linking to the specific task.
+     * 3. **Rounds**: Every assignment is its own round. A member whose current round was
+     * declined, skipped or dropped gets a new round; the old one is kept as history.
+     * A member who is still working on (or has completed) the current round cannot be
+     * assigned again — completed work goes back through `sendBack` instead.
+     * 4. **Notifications**: The assignee gets a notification (unless they assigned
+     * themselves), and optionally an urgent email with deep-linking to the specific task.
+     * The urgent email is skipped when the assignee turned assignment emails off, and held
+     * until their quiet hours end (checked by `MailService`).
      * * @throws {TasksErrors.TaskNotFoundError} If the target resource or group context is missing.
-     * @throws {TasksErrors.TaskForbiddenError} If a non-administrative member attempts to assign tasks.
-     * * @returns {Promise<TaskAssignee | SubTaskAssignee>} The resulting assignment record.
-     * * @returns {Promise<boolean>} A flag indicating whether an urgent email notification was sent.
+     * @throws {TasksErrors.TaskForbiddenError} If a non-administrative member attempts to assign tasks,
+     * or the member's current round is still active.
+     * * @returns {Promise<number | null>} The MailOutbox id of the queued urgent email, or null when none was queued.
      * * @todo
-     * 1. Currently this method can assign self, this is duplicated with self-claim.
+     * Currently this method can assign self, this is duplicated with self-claim.
      * But to fix this problem, we need to change a lot of things
      * (frontend and get member list api).
-     * I think using create is more logical than upsert. The reason why I use upsert
-     * is that once an assigner saw an assignee set task to 'completed',
-     * but actually not reaching the criteria. Assigner can use this method to
-     * 'send back' the task and makes the assignee to re-do it. But this is actually
-     * a bad idea since the assigning history will be washed away.
-     * To change this behavior needs to develop other api and more frontned chanings.
      */
     const {
       type,
@@ -56,72 +106,22 @@ export class TaskAssignmentManager {
       updatedBy,
     } = options;
 
-    // 1. Get basic infomation from type(Task or subTask)
-    let groupId: number;
-    let title: string;
-    let priority: number;
-    let description: string | null;
-    let dueAt: Date | null;
-    let redirectTaskId: number;
-    let mailSent: boolean = false;
+    let mailId: number | null = null;
 
     const notifyType =
       type === 'TASK' ? 'ASSIGNMENT_UPDATED' : 'SUBTASK_UPDATED';
 
-    if (type === 'TASK') {
-      const task = await this.prismaService.task.findUnique({
-        where: { id: targetId, status: TaskStatus.OPEN },
-        select: {
-          groupId: true,
-          title: true,
-          priority: true,
-          description: true,
-          dueAtUtc: true,
-        },
-      });
-
-      if (!task || !task.groupId)
-        throw TasksErrors.TaskNotFoundError.byId(assignerId, targetId);
-
-      groupId = task.groupId;
-      title = task.title;
-      priority = task.priority;
-      description = task.description;
-      dueAt = task.dueAtUtc;
-      redirectTaskId = targetId;
-    } else {
-      const sub = await this.prismaService.subTask.findUnique({
-        where: { id: targetId, status: TaskStatus.OPEN },
-        include: { task: { select: { id: true, groupId: true } } },
-      });
-
-      if (!sub || !sub.task.groupId)
-        throw TasksErrors.TaskNotFoundError.byId(assignerId, targetId);
-
-      groupId = sub.task.groupId;
-      title = sub.title;
-      priority = sub.priority;
-      description = sub.description;
-      dueAt = sub.dueAtUtc;
-      redirectTaskId = sub.task.id;
-    }
+    // 1. Get basic infomation from type(Task or subTask)
+    const target = await this.loadTarget(type, targetId, assignerId);
+    const { groupId, title, priority, description, dueAt, redirectTaskId } =
+      target;
 
     // 2. Assigner authentication check
-    const assigner = await this.prismaService.groupMember.findUnique({
-      where: { groupId_userId: { groupId, userId: assignerId } },
-      include: {
-        user: { select: { name: true } },
-        group: { select: { name: true } },
-      },
-    });
-
-    if (!assigner || assigner.role === GroupRole.MEMBER) {
-      throw TasksErrors.TaskForbiddenError.byActorOnTask(
-        assignerId,
-        targetId,
-        'ONLY_ADMINISH_CAN_ASSIGN_TASKS',
-      );
-    }
+    const assigner = await this.getAdminishAssigner(
+      groupId,
+      assignerId,
+      targetId,
+    );
 
     // 3. Assignee authentication check
     const isAssigneeMember = await this.prismaService.groupMember.findUnique({
@@ -131,45 +131,70 @@ export class TaskAssignmentManager {
     if (!isAssigneeMember)
       throw TasksErrors.TaskNotFoundError.byId(assignerId, targetId);
 
-    // 4. Do upsert
+    // 4. Open a new round
     const targetStatus =
       assigneeId === assignerId
         ? AssignmentStatus.ACCEPTED
         : AssignmentStatus.PENDING;
 
-    if (type === 'TASK') {
-      await this.prismaService.taskAssignee.upsert({
-        where: { taskId_assigneeId: { taskId: targetId, assigneeId } },
-        update: {
-          assignedById: assignerId,
-          status: AssignmentStatus.PENDING,
-          updatedAt: new Date(),
-        },
-        create: {
-          taskId: targetId,
-          assigneeId,
-          assignedById: assignerId,
-          status: AssignmentStatus.PENDING,
-        },
-      });
-    } else {
-      await this.prismaService.subTaskAssignee.upsert({
-        where: { subTaskId_assigneeId: { subTaskId: targetId, assigneeId } },
-        update: {
-          assignedById: assignerId,
-          status: targetStatus,
-          updatedAt: new Date(),
-        },
-        create: {
-          subTaskId: targetId,
-          assigneeId,
+    // 5. Assignment and its activity entry are written together
+    await this.prismaService.$transaction(async (tx) => {
+      const current = await this.findCurrentRound(
+        tx,
+        type,
+        targetId,
+        assigneeId,
+      );
+
+      if (current && !REASSIGNABLE_STATUSES.includes(current.status)) {
+        throw TasksErrors.TaskForbiddenError.byActorOnTask(
+          assignerId,
+          targetId,
+          current.status === AssignmentStatus.COMPLETED
+            ? 'ASSIGNMENT_COMPLETED_USE_SEND_BACK'
+            : 'ASSIGNMENT_ALREADY_ACTIVE',
+        );
+      }
+
+      const round = await this.openRound(
+        tx,
+        type,
+        targetId,
+        assigneeId,
+        current,
+        {
           assignedById: assignerId,
           status: targetStatus,
+          acceptedAt:
+            targetStatus === AssignmentStatus.ACCEPTED ? new Date() : null,
         },
+      );
+
+      await this.taskActivity.record(tx, {
+        taskId: redirectTaskId,
+        subTaskId: type === 'SUBTASK' ? targetId : null,
+        actorId: assignerId,
+        action: TaskActivityAction.ASSIGNED,
+        targetUserId: assigneeId,
+        before: { status: current?.status ?? null },
+        after: { status: targetStatus, round },
       });
-    }
+    });
+
+    // 6. In-app notification (self-assignment is skipped by NotificationsService)
+    await this.notifications.notify({
+      userId: assigneeId,
+      actorId: assignerId,
+      type: NotificationType.ASSIGNED,
+      title: `${assigner.user.name} assigned you "${title}"`,
+      body: assigner.group.name,
+      url: this.targetPath(type, targetId, redirectTaskId),
+      groupId,
+      taskId: redirectTaskId,
+      subTaskId: type === 'SUBTASK' ? targetId : null,
+    });
 
-    // 5. Email notifaication
+    // 7. Email notifaication
     if (sendUrgentEmail) {
       const assigneeUser = await this.prismaService.user.findUnique({
         where: { id: assigneeId },
@@ -190,7 +215,8 @@ export class TaskAssignmentManager {
           subTaskId = targetId;
         }
 
-        mailSent = await this.mailService.sendTaskAssignNotification({
+        mailId = await this.mailService.sendTaskAssignNotification({
+          assignerId,
           assigneeId,
           assigneeName: assigneeUser.name,
           email: assigneeUser.email,
@@ -213,12 +239,374 @@ export class TaskAssignmentManager {
       updatedBy,
       notifyType,
     );
+    if (type === 'TASK') {
+      this.tasksHelper.notifyTaskListChange(
+        { id: targetId, title, groupId },
+        assignerId,
+        updatedBy,
+        'ASSIGNMENT_CHANGED',
+      );
+    }
+
+    return mailId;
+  }
+
+  async sendBack(options: InternalSendBackOptions): Promise<void> {
+    /**
+     * Sends a completed assignment back to the assignee for another round.
+     * * @description
+     * 1. **Permission**: Only group Owners/Admins can send work back, and only while the
+     * task (or sub-task) is still OPEN.
+     * 2. **History**: The completed round is kept untouched apart from `sentBackAt` /
+     * `sentBackReason` and stops being current. A new PENDING round is opened for the
+     * same member, so the number of rounds shows how often the work was sent back.
+     * 3. **Activity**: An `ASSIGNMENT_SENT_BACK` entry with the reason is logged in the
+     * same transaction, and the assignee gets an in-app notification.
+     * * @throws {TasksErrors.TaskNotFoundError} If the target resource or group context is missing.
+     * @throws {TasksErrors.TaskForbiddenError} If the actor is not adminish, or the member's
+     * current round is not COMPLETED.
+     */
+    const { type, targetId, assigneeId, actorId, reason, updatedBy } = options;
+
+    const { groupId, title, redirectTaskId } = await this.loadTarget(
+      type,
+      targetId,
+      actorId,
+    );
+    const actor = await this.getAdminishAssigner(groupId, actorId, targetId);
+
+    await this.prismaService.$transaction(async (tx) => {
+      const current = await this.findCurrentRound(
+        tx,
+        type,
+        targetId,
+        assigneeId,
+      );
+
+      if (!current || current.status !== AssignmentStatus.COMPLETED) {
+        throw TasksErrors.TaskForbiddenError.byActorOnTask(
+          actorId,
+          targetId,
+          'SEND_BACK_REQUIRES_COMPLETED_ASSIGNMENT',
+        );
+      }
+
+      const round = await this.openRound(
+        tx,
+        type,
+        targetId,
+        assigneeId,
+        current,
+        { assignedById: actorId, status: AssignmentStatus.PENDING },
+        reason ?? null,
+      );
+
+      await this.taskActivity.record(tx, {
+        taskId: redirectTaskId,
+        subTaskId: type === 'SUBTASK' ? targetId : null,
+        actorId,
+        action: TaskActivityAction.ASSIGNMENT_SENT_BACK,
+        targetUserId: assigneeId,
+        before: { status: current.status, round: current.round },
+        after: { status: AssignmentStatus.PENDING, round },
+        reason: reason ?? null,
+      });
+    });
+
+    await this.notifications.notify({
+      userId: assigneeId,
+      actorId,
+      type: NotificationType.ASSIGNED,
+      title: `${actor.user.name} sent "${title}" back to you`,
+      body: reason || actor.group.name,
+      url: this.targetPath(type, targetId, redirectTaskId),
+      groupId,
+      taskId: redirectTaskId,
+      subTaskId: type === 'SUBTASK' ? targetId : null,
+    });
+
+    if (type === 'TASK') {
+      this.tasksHelper.notifyTaskChange(
+        targetId,
+        actorId,
+        updatedBy,
+        'ASSIGNMENT_UPDATED',
+      );
+      this.tasksHelper.notifyTaskListChange(
+        { id: targetId, title, groupId },
+        actorId,
+        updatedBy,
+        'ASSIGNMENT_CHANGED',
+      );
+    } else {
+      this.tasksHelper.notifySubTaskChange(
+        redirectTaskId,
+        targetId,
+        actorId,
+        updatedBy,
+        'SUBTASK_UPDATED',
+      );
+    }
+  }
+
+  async notifyDecision(
+    type: 'TASK' | 'SUBTASK',
+    targetId: number,
+    assigneeId: number,
+    status: AssignmentStatus,
+  ): Promise<void> {
+    /**
+     * Tells the assigner that the assignee accepted or declined their current round.
+     * * @description
+     * Called after the status change was committed. Other transitions (e.g. COMPLETED) and
+     * self-claims (assigner = assignee) do not notify anyone. For tasks the group dashboard
+     * is told as well, since the assignee list on its cards changed.
+     */
+    if (
+      status !== AssignmentStatus.ACCEPTED &&
+      status !== AssignmentStatus.DECLINED
+    )
+      return;
+
+    const select = {
+      assignedById: true,
+      reason: true,
+      assignee: { select: { name: true } },
+    };
+    const round =
+      type === 'TASK'
+        ? await this.prismaService.taskAssignee.findFirst({
+            where: { taskId: targetId, assigneeId, isCurrent: true },
+            select: {
+              ...select,
+              task: { select: { id: true, title: true, groupId: true } },
+            },
+          })
+        : await this.prismaService.subTaskAssignee.findFirst({
+            where: { subTaskId: targetId, assigneeId, isCurrent: true },
+            select: {
+              ...select,
+              subtask: {
+                select: {
+                  title: true,
+                  task: { select: { id: true, groupId: true } },
+                },
+              },
+            },
+          });
+    if (!round?.assignedById) return;
+
+    if ('task' in round) {
+      this.tasksHelper.notifyTaskListChange(
+        round.task,
+        assigneeId,
+        round.assignee.name,
+        'ASSIGNMENT_CHANGED',
+      );
+    }
+
+    const target =
+      'task' in round
+        ? { ...round.task, taskId: round.task.id }
+        : {
+            title: round.subtask.title,
+            groupId: round.subtask.task.groupId,
+            taskId: round.subtask.task.id,
+          };
+    const accepted = status === AssignmentStatus.ACCEPTED;
+
+    await this.notifications.notify({
+      userId: round.assignedById,
+      actorId: assigneeId,
+      type: accepted
+        ? NotificationType.ASSIGNMENT_ACCEPTED
+        : NotificationType.ASSIGNMENT_DECLINED,
+      title: `${round.assignee.name} ${accepted ? 'accepted' : 'declined'} "${target.title}"`,
+      body: accepted ? null : round.reason,
+      url: this.targetPath(type, targetId, target.taskId),
+      groupId: target.groupId,
+      taskId: target.taskId,
+      subTaskId: type === 'SUBTASK' ? targetId : null,
+    });
+  }
+
+  private async loadTarget(
+    type: 'TASK' | 'SUBTASK',
+    targetId: number,
+    actorId: number,
+  ): Promise<AssignmentTarget> {
+    if (type === 'TASK') {
+      const task = await this.prismaService.task.findUnique({
+        where: { id: targetId, status: TaskStatus.OPEN },
+        select: {
+          groupId: true,
+          title: true,
+          priority: true,
+          description: true,
+          dueAtUtc: true,
+        },
+      });
+
+      if (!task || !task.groupId)
+        throw TasksErrors.TaskNotFoundError.byId(actorId, targetId);
+
+      return {
+        groupId: task.groupId,
+        title: task.title,
+        priority: task.priority,
+        description: task.description,
+        dueAt: task.dueAtUtc,
+        redirectTaskId: targetId,
+      };
+    }
+
+    const sub = await this.prismaService.subTask.findUnique({
+      where: { id: targetId, status: TaskStatus.OPEN },
+      include: { task: { select: { id: true, groupId: true } } },
+    });
+
+    if (!sub || !sub.task.groupId)
+      throw TasksErrors.TaskNotFoundError.byId(actorId, targetId);
+
+    return {
+      groupId: sub.task.groupId,
+      title: sub.title,
+      priority: sub.priority,
+      description: sub.description,
+      dueAt: sub.dueAtUtc,
+      redirectTaskId: sub.task.id,
+    };
+  }
 
-    return mailSent;
+  private targetPath(
+    type: 'TASK' | 'SUBTASK',
+    targetId: number,
+    redirectTaskId: number,
+  ): string {
+    return type === 'TASK'
+      ? `/tasks/${targetId}`
+      : `/tasks/${redirectTaskId}/sub-tasks/${targetId}`;
   }
 
-  private async updateGenericStatus<T>(
-    tx: any,
+  private async getAdminishAssigner(
+    groupId: number,
+    actorId: number,
+    targetId: number,
+  ) {
+    const assigner = await this.prismaService.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId: actorId } },
+      include: {
+        user: { select: { name: true } },
+        group: { select: { name: true } },
+      },
+    });
+
+    if (!assigner || assigner.role === GroupRole.MEMBER) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        actorId,
+        targetId,
+        'ONLY_ADMINISH_CAN_ASSIGN_TASKS',
+      );
+    }
+
+    return assigner;
+  }
+
+  private async findCurrentRound(
+    tx: Prisma.TransactionClient,
+    type: 'TASK' | 'SUBTASK',
+    targetId: number,
+    assigneeId: number,
+  ): Promise<AssignmentRound | null> {
+    // 同一位成員的換輪要排隊：先鎖再讀目前這一輪，兩個同時的指派不會都以為自己要開新的一輪
+    const lockKey = `assignment_round:${type}:${targetId}:${assigneeId}`;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+
+    const select = { id: true, round: true, status: true };
+
+    return type === 'TASK'
+      ? tx.taskAssignee.findFirst({
+          where: { taskId: targetId, assigneeId, isCurrent: true },
+          select,
+        })
+      : tx.subTaskAssignee.findFirst({
+          where: { subTaskId: targetId, assigneeId, isCurrent: true },
+          select,
+        });
+  }
+
+  private async openRound(
+    tx: Prisma.TransactionClient,
+    type: 'TASK' | 'SUBTASK',
+    targetId: number,
+    assigneeId: number,
+    current: AssignmentRound | null,
+    data: {
+      assignedById: number;
+      status: AssignmentStatus;
+      acceptedAt?: Date | null;
+    },
+    sentBackReason?: string | null,
+  ): Promise<number> {
+    /**
+     * Closes the current round (keeping its status and timestamps) and opens the next one.
+     * * @description
+     * The caller holds the advisory lock taken in `findCurrentRound`. The partial unique
+     * indexes `*_current_round_key` (see the migration) are the last line of defence: a
+     * second current round is refused there, and the P2002 is reported as an active round.
+     * * @throws {TasksErrors.TaskForbiddenError} If another current round already exists.
+     */
+    const round = current ? current.round + 1 : 1;
+    const closeData = {
+      isCurrent: false,
+      ...(sentBackReason !== undefined && {
+        sentBackAt: new Date(),
+        sentBackReason,
+      }),
+    };
+
+    try {
+      if (type === 'TASK') {
+        if (current) {
+          await tx.taskAssignee.update({
+            where: { id: current.id },
+            data: closeData,
+          });
+        }
+        await tx.taskAssignee.create({
+          data: { ...data, taskId: targetId, assigneeId, round },
+        });
+      } else {
+        if (current) {
+          await tx.subTaskAssignee.update({
+            where: { id: current.id },
+            data: closeData,
+          });
+        }
+        await tx.subTaskAssignee.create({
+          data: { ...data, subTaskId: targetId, assigneeId, round },
+        });
+      }
+    } catch (e) {
+      if (
+        e instanceof Prisma.PrismaClientKnownRequestError &&
+        e.code === 'P2002'
+      ) {
+        throw TasksErrors.TaskForbiddenError.byActorOnTask(
+          data.assignedById,
+          targetId,
+          'ASSIGNMENT_ALREADY_ACTIVE',
+        );
+      }
+
+      throw e;
+    }
+
+    return round;
+  }
+
+  private async updateGenericStatus(
+    tx: Prisma.TransactionClient,
     options: {
       id: number;
       actorId: number;
@@ -226,10 +614,14 @@ export class TaskAssignmentManager {
       reason?: string;
       updatedBy: string | null;
       // 關鍵：定義如何獲取資源與更新資源的行為
-      fetchTarget: () => Promise<any>;
-      updateRecord: (data: any) => Promise<T>;
-      createRecord: (data: any) => Promise<T>;
+      fetchTarget: () => Promise<AssigneeStatusTarget | null>;
+      updateRecord: (
+        roundId: number,
+        data: AssigneeRoundUpdate,
+      ) => Promise<unknown>;
+      createRecord: (data: SelfClaimRound) => Promise<unknown>;
       notifyType: 'TASK_UPDATED' | 'SUBTASK_UPDATED'; // 根據你的通知邏輯調整
+      activity: { taskId: number; subTaskId: number | null };
     },
   ) {
     const {
@@ -242,6 +634,7 @@ export class TaskAssignmentManager {
       updateRecord,
       createRecord,
       notifyType,
+      activity,
     } = options;
 
     // 1. 取得資源 (Task 或 SubTask)
@@ -253,7 +646,8 @@ export class TaskAssignmentManager {
       throw new Error('Action only allowed on group resources');
     }
 
-    const currentAssignee = target.assignees[0];
+    // 只會載入目前這一輪 (isCurrent)
+    const currentAssignee = target.assignees.at(0);
     let shouldNotify = false;
 
     // 2. 處理 Self-claim (無紀錄時)
@@ -281,10 +675,25 @@ export class TaskAssignmentManager {
 
       if (!isLegal) throw new Error('TRANSITION_ERROR');
 
-      await updateRecord(TasksUtils.getAssigneeUpdateData(nextStatus, reason));
+      await updateRecord(
+        currentAssignee.id,
+        TasksUtils.getAssigneeUpdateData(nextStatus, reason),
+      );
       shouldNotify = true;
     }
 
+    await this.taskActivity.record(tx, {
+      ...activity,
+      actorId,
+      action: TaskActivityAction.ASSIGNEE_STATUS_CHANGED,
+      targetUserId: actorId,
+      before: { status: currentAssignee?.status ?? null },
+      after: {
+        status: currentAssignee ? nextStatus : AssignmentStatus.ACCEPTED,
+      },
+      reason: reason ?? null,
+    });
+
     // 4. 發送即時通知
     if (shouldNotify && updatedBy) {
       this.tasksHelper.notifyTaskChange(id, actorId, updatedBy, notifyType);
@@ -295,36 +704,32 @@ export class TaskAssignmentManager {
     const { payload, accessPayload } =
       await this.tasksHelper.verifyDecisionAndGetAccess(token);
 
-    return this.prismaService.$transaction(async (tx) => {
-      if (payload.subTaskId) {
+    const result = await this.prismaService.$transaction(async (tx) => {
+      const { subTaskId } = payload;
+      if (subTaskId) {
         // --- 處理 SubTask ---
         await this.updateGenericStatus(tx, {
-          id: payload.subTaskId,
+          id: subTaskId,
           actorId: payload.userId,
           nextStatus: status,
           updatedBy: accessPayload.userName,
           notifyType: 'SUBTASK_UPDATED',
+          activity: { taskId: payload.taskId, subTaskId },
           fetchTarget: () =>
             tx.subTask.findUnique({
-              where: { id: payload.subTaskId },
+              where: { id: subTaskId },
               include: {
                 task: { select: { groupId: true } },
-                assignees: { where: { assigneeId: payload.userId } },
-              },
-            }),
-          updateRecord: (data) =>
-            tx.subTaskAssignee.update({
-              where: {
-                subTaskId_assigneeId: {
-                  subTaskId: payload.subTaskId!,
-                  assigneeId: payload.userId,
+                assignees: {
+                  where: { assigneeId: payload.userId, isCurrent: true },
                 },
               },
-              data,
             }),
+          updateRecord: (roundId, data) =>
+            tx.subTaskAssignee.update({ where: { id: roundId }, data }),
           createRecord: (data) =>
             tx.subTaskAssignee.create({
-              data: { ...data, subTaskId: payload.subTaskId },
+              data: { ...data, subTaskId },
             }),
         });
       } else {
@@ -335,21 +740,18 @@ export class TaskAssignmentManager {
           nextStatus: status,
           updatedBy: accessPayload.userName,
           notifyType: 'TASK_UPDATED',
+          activity: { taskId: payload.taskId, subTaskId: null },
           fetchTarget: () =>
             tx.task.findUnique({
               where: { id: payload.taskId },
-              include: { assignees: { where: { assigneeId: payload.userId } } },
-            }),
-          updateRecord: (data) =>
-            tx.taskAssignee.update({
-              where: {
-                taskId_assigneeId: {
-                  taskId: payload.taskId,
-                  assigneeId: payload.userId,
+              include: {
+                assignees: {
+                  where: { assigneeId: payload.userId, isCurrent: true },
                 },
               },
-              data,
             }),
+          updateRecord: (roundId, data) =>
+            tx.taskAssignee.update({ where: { id: roundId }, data }),
           createRecord: (data) =>
             tx.taskAssignee.create({
               data: { ...data, taskId: payload.taskId },
@@ -363,5 +765,13 @@ export class TaskAssignmentManager {
         accessPayload,
       };
     });
+
+    await this.notifyDecision(
+      result.subTaskId ? 'SUBTASK' : 'TASK',
+      result.subTaskId ?? result.taskId,
+      payload.userId,
+      status,
+    );
+    return result;
   }
 }
@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SecurityService } from 'src/security/security.service';
+import { Status } from 'src/generated/prisma/client';
+import { AuthErrors, GroupsErrors } from 'src/errors';
+import { createMockConfig } from 'src/test/factories/mock-config.factory';
+import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import { TaskCalendarService } from './task-calendar.service';
+
+describe('TaskCalendarService', () => {
+  let service: TaskCalendarService;
+
+  const mockPrismaService = {
+    calendarFeed: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    groupMember: { findUnique: jest.fn() },
+    task: { findMany: jest.fn() },
+    subTask: { findMany: jest.fn() },
+  };
+
+  const mockSecurityService = createMockSecurityService();
+  const mockConfigService = createMockConfig();
+
+  const personalFeed = {
+    id: 5,
+    tokenHash: 'base64urlHash',
+    groupId: null,
+    user: { id: 9, name: 'test' },
+    group: null,
+  };
+
+  const groupFeed = {
+    ...personalFeed,
+    groupId: 2,
+    group: { name: 'Team' },
+  };
+
+  const baseItem = {
+    id: 1,
+    title: 'Pay rent',
+    description: null,
+    location: null,
+    status: Status.OPEN,
+    allDay: false,
+    dueAtUtc: null,
+    allDayLocalDate: null,
+    sourceTimeZone: null,
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    group: null,
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskCalendarService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SecurityService, useValue: mockSecurityService },
+        { provide: ConfigService, useValue: mockConfigService.mock },
+      ],
+    }).compile();
+
+    service = module.get(TaskCalendarService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrismaService.task.findMany.mockResolvedValue([]);
+    mockPrismaService.subTask.findMany.mockResolvedValue([]);
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // createFeed
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('createFeed', () => {
+    it('stores only the token hash and returns the subscription URL', async () => {
+      mockPrismaService.calendarFeed.create.mockResolvedValueOnce({ id: 5 });
+
+      const result = await service.createFeed(9, null);
+
+      expect(mockSecurityService.hmacToken).toHaveBeenCalledWith(
+        'rawUrlFriendlySecret',
+        'HMAC-secret',
+      );
+      expect(mockPrismaService.calendarFeed.create).toHaveBeenCalledWith({
+        data: { userId: 9, groupId: null, tokenHash: 'base64urlHash' },
+        select: { id: true },
+      });
+      expect(result).toEqual({
+        id: 5,
+        url: 'http://localhost:3000/api/calendar/feeds/5/rawUrlFriendlySecret.ics',
+      });
+    });
+
+    it('throws GroupNotFoundError when the user is not a member', async () => {
+      mockPrismaService.groupMember.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.createFeed(9, 2)).rejects.toBeInstanceOf(
+        GroupsErrors.GroupNotFoundError,
+      );
+      expect(mockPrismaService.calendarFeed.create).not.toHaveBeenCalled();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // revokeFeed
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('revokeFeed', () => {
+    it('only revokes an active feed of the user', async () => {
+      await service.revokeFeed(9, 5);
+
+      expect(mockPrismaService.calendarFeed.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, userId: 9, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // renderFeed
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('renderFeed', () => {
+    it('throws InvalidTokenError for an unknown or revoked feed', async () => {
+      mockPrismaService.calendarFeed.findFirst.mockResolvedValueOnce(null);
+
+      await expect(service.renderFeed(5, 'raw')).rejects.toBeInstanceOf(
+        AuthErrors.InvalidTokenError,
+      );
+    });
+
+    it('throws InvalidTokenError when the token does not match', async () => {
+      mockPrismaService.calendarFeed.findFirst.mockResolvedValueOnce(
+        personalFeed,
+      );
+      mockSecurityService.safeEqualB64url.mockReturnValueOnce(false);
+
+      await expect(service.renderFeed(5, 'wrong')).rejects.toBeInstanceOf(
+        AuthErrors.InvalidTokenError,
+      );
+      expect(mockPrismaService.task.findMany).not.toHaveBeenCalled();
+    });
+
+    it('stops serving a group feed after the user left the group', async () => {
+      mockPrismaService.calendarFeed.findFirst.mockResolvedValueOnce(groupFeed);
+      mockSecurityService.safeEqualB64url.mockReturnValueOnce(true);
+      mockPrismaService.groupMember.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.renderFeed(5, 'raw')).rejects.toBeInstanceOf(
+        AuthErrors.InvalidTokenError,
+      );
+    });
+
+    it('renders all-day, timed and sub-task items', async () => {
+      mockPrismaService.calendarFeed.findFirst.mockResolvedValueOnce(
+        personalFeed,
+      );
+      mockSecurityService.safeEqualB64url.mockReturnValueOnce(true);
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        {
+          ...baseItem,
+          allDay: true,
+          allDayLocalDate: new Date('2026-10-20T00:00:00Z'),
+        },
+        {
+          ...baseItem,
+          id: 2,
+          title: 'Standup',
+          status: Status.CLOSED,
+          dueAtUtc: new Date('2026-10-21T01:30:00Z'),
+          sourceTimeZone: 'Asia/Taipei',
+          group: { name: 'Team' },
+        },
+      ]);
+      mockPrismaService.subTask.findMany.mockResolvedValueOnce([
+        {
+          ...baseItem,
+          id: 7,
+          taskId: 2,
+          title: 'Notes',
+          dueAtUtc: new Date('2026-10-22T08:00:00Z'),
+          task: { group: null },
+        },
+      ]);
+
+      const ics = await service.renderFeed(5, 'raw');
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(ics).toContain('DTSTART;VALUE=DATE:20261020\r\n');
+      expect(ics).toContain('DTEND;VALUE=DATE:20261021\r\n');
+      expect(ics).toContain('DTSTART;TZID=Asia/Taipei:20261021T093000\r\n');
+      expect(ics).toContain('SUMMARY:✓ Standup\r\n');
+      expect(ics).toContain('UID:subtask-7@group-todos\r\n');
+      expect(ics).toContain('SUMMARY:[Sub] Notes\r\n');
+      expect(ics).toContain('DTSTART:20261022T080000Z\r\n');
+      expect(ics).toContain('CATEGORIES:Team\r\n');
+      expect(mockPrismaService.calendarFeed.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+  });
+});
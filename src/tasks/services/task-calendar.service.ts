@@ -0,0 +1,268 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SecurityService } from 'src/security/security.service';
+import { Prisma, Status } from 'src/generated/prisma/client';
+import { AuthErrors, GroupsErrors } from 'src/errors';
+import { CalendarFeedItem, CalendarFeedSummary } from '../types/tasks';
+import { ICalUtils } from '../ical.util';
+
+// 訂閱只帶最近 90 天以後的到期項目，避免整個歷史塞進行事曆
+const FEED_LOOKBACK_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FEED_ITEM_SELECT = {
+  id: true,
+  title: true,
+  description: true,
+  location: true,
+  status: true,
+  allDay: true,
+  dueAtUtc: true,
+  allDayLocalDate: true,
+  sourceTimeZone: true,
+  updatedAt: true,
+} satisfies Prisma.TaskSelect & Prisma.SubTaskSelect;
+
+@Injectable()
+export class TaskCalendarService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly securityService: SecurityService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async createFeed(
+    userId: number,
+    groupId: number | null,
+  ): Promise<{ id: number; url: string }> {
+    /**
+     * Issues a new subscription URL.
+     * * @description
+     * The raw token is only returned here (inside the URL); the database keeps its
+     * HMAC like `ActionToken.tokenHash`, so a lost URL cannot be shown again and has
+     * to be revoked and re-issued instead.
+     * * @throws {GroupsErrors.GroupNotFoundError} When the user is not a member of the group.
+     */
+    if (groupId) {
+      const member = await this.prismaService.groupMember.findUnique({
+        where: { groupId_userId: { groupId, userId } },
+        select: { userId: true },
+      });
+      if (!member) throw GroupsErrors.GroupNotFoundError.byId(userId, groupId);
+    }
+
+    const rawToken = this.securityService.generateUrlFriendlySecret(32);
+    const serverSecret = this.config.getOrThrow<string>('TOKEN_HMAC_SECRET');
+    const tokenHash = this.securityService.hmacToken(rawToken, serverSecret);
+
+    const { id } = await this.prismaService.calendarFeed.create({
+      data: { userId, groupId, tokenHash },
+      select: { id: true },
+    });
+
+    const baseUrl = this.config.getOrThrow<string>('BASE_URL');
+    const url = new URL(
+      `api/calendar/feeds/${id}/${rawToken}.ics`,
+      baseUrl,
+    ).toString();
+
+    return { id, url };
+  }
+
+  async listFeeds(userId: number): Promise<CalendarFeedSummary[]> {
+    const feeds = await this.prismaService.calendarFeed.findMany({
+      where: { userId, revokedAt: null },
+      select: {
+        id: true,
+        groupId: true,
+        group: { select: { name: true } },
+        createdAt: true,
+        lastUsedAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return feeds.map(({ group, ...feed }) => ({
+      ...feed,
+      groupName: group?.name ?? null,
+    }));
+  }
+
+  async revokeFeed(userId: number, feedId: number): Promise<void> {
+    /**
+     * Revokes one of the user's feeds; calendar apps stop receiving updates.
+     * Revoking an unknown or already revoked feed is a no-op.
+     */
+    await this.prismaService.calendarFeed.updateMany({
+      where: { id: feedId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async renderFeed(feedId: number, rawToken: string): Promise<string> {
+    /**
+     * Builds the iCalendar document for a subscription URL.
+     * * @description
+     * 1. **Auth**: Re-computes the HMAC of the URL token and compares it in constant
+     * time; revoked feeds are rejected.
+     * 2. **Membership**: Evaluated on every fetch, so a group feed stops working and a
+     * personal feed drops a group's tasks as soon as the user leaves the group.
+     * 3. **Content**: Non-archived tasks and sub-tasks with a due date. All-day items
+     * use `allDayLocalDate` as a DATE; timed items use `dueAtUtc`, expressed in
+     * `sourceTimeZone` (TZID) when it is known.
+     * * @throws {AuthErrors.InvalidTokenError} When the feed is unknown, revoked, or the token does not match.
+     */
+    const feed = await this.prismaService.calendarFeed.findFirst({
+      where: { id: feedId, revokedAt: null },
+      select: {
+        id: true,
+        tokenHash: true,
+        groupId: true,
+        user: { select: { id: true, name: true } },
+        group: { select: { name: true } },
+      },
+    });
+    if (!feed) throw AuthErrors.InvalidTokenError.calendar();
+
+    const serverSecret = this.config.getOrThrow<string>('TOKEN_HMAC_SECRET');
+    const candidate = this.securityService.hmacToken(rawToken, serverSecret);
+    if (!this.securityService.safeEqualB64url(feed.tokenHash, candidate)) {
+      throw AuthErrors.InvalidTokenError.calendar();
+    }
+
+    const userId = feed.user.id;
+    if (feed.groupId) {
+      const member = await this.prismaService.groupMember.findUnique({
+        where: { groupId_userId: { groupId: feed.groupId, userId } },
+        select: { userId: true },
+      });
+      if (!member) throw AuthErrors.InvalidTokenError.calendar();
+    }
+
+    const items = await this.getFeedItems(userId, feed.groupId);
+
+    await this.prismaService.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    const calendarName = feed.group
+      ? `${feed.group.name} · Group Todos`
+      : `${feed.user.name}'s tasks · Group Todos`;
+
+    return ICalUtils.serialize([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Group Todos//Task Feed//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${ICalUtils.escapeText(calendarName)}`,
+      'X-PUBLISHED-TTL:PT1H',
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      ...items.flatMap((item) => this.toEvent(item)),
+      'END:VCALENDAR',
+    ]);
+  }
+
+  private async getFeedItems(
+    userId: number,
+    groupId: number | null,
+  ): Promise<CalendarFeedItem[]> {
+    // 個人訂閱：自己的個人任務 + 目前所屬群組的任務
+    const scope: Prisma.TaskWhereInput = groupId
+      ? { groupId }
+      : {
+          OR: [
+            { ownerId: userId, groupId: null },
+            { group: { members: { some: { userId } } } },
+          ],
+        };
+    const since = new Date(Date.now() - FEED_LOOKBACK_DAYS * DAY_MS);
+    const due = {
+      OR: [{ dueAtUtc: { gte: since } }, { allDayLocalDate: { gte: since } }],
+    };
+    const notArchived = { not: Status.ARCHIVED };
+
+    const [tasks, subTasks] = await Promise.all([
+      this.prismaService.task.findMany({
+        where: { AND: [scope, due], status: notArchived },
+        select: { ...FEED_ITEM_SELECT, group: { select: { name: true } } },
+      }),
+      this.prismaService.subTask.findMany({
+        where: {
+          ...due,
+          status: notArchived,
+          task: { AND: [scope], status: notArchived },
+        },
+        select: {
+          ...FEED_ITEM_SELECT,
+          taskId: true,
+          task: { select: { group: { select: { name: true } } } },
+        },
+      }),
+    ]);
+
+    const baseUrl = this.config.getOrThrow<string>('BASE_URL');
+    const link = (path: string) => new URL(path, baseUrl).toString();
+
+    return [
+      ...tasks.map(({ id, group, ...t }) => ({
+        ...t,
+        uid: `task-${id}@group-todos`,
+        url: link(`tasks/${id}`),
+        isSubTask: false,
+        groupName: group?.name ?? null,
+      })),
+      ...subTasks.map(({ id, taskId, task, ...st }) => ({
+        ...st,
+        uid: `subtask-${id}@group-todos`,
+        url: link(`tasks/${taskId}/sub-tasks/${id}`),
+        isSubTask: true,
+        groupName: task.group?.name ?? null,
+      })),
+    ];
+  }
+
+  private toEvent(item: CalendarFeedItem): string[] {
+    let start: string[];
+    if (item.allDay && item.allDayLocalDate) {
+      const nextDay = new Date(item.allDayLocalDate.getTime() + DAY_MS);
+      start = [
+        `DTSTART;VALUE=DATE:${ICalUtils.formatDate(item.allDayLocalDate)}`,
+        `DTEND;VALUE=DATE:${ICalUtils.formatDate(nextDay)}`,
+      ];
+    } else if (item.dueAtUtc && item.sourceTimeZone) {
+      // IANA 名稱直接當 TZID，主流行事曆都認得，不另外產生 VTIMEZONE
+      start = [
+        `DTSTART;TZID=${item.sourceTimeZone}:${ICalUtils.formatLocal(item.dueAtUtc, item.sourceTimeZone)}`,
+      ];
+    } else if (item.dueAtUtc) {
+      start = [`DTSTART:${ICalUtils.formatUtc(item.dueAtUtc)}`];
+    } else {
+      return [];
+    }
+
+    const title = item.isSubTask ? `[Sub] ${item.title}` : item.title;
+    const summary = item.status === Status.CLOSED ? `✓ ${title}` : title;
+    const description = [item.description, item.url]
+      .filter(Boolean)
+      .join('\n\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${item.uid}`,
+      `DTSTAMP:${ICalUtils.formatUtc(item.updatedAt)}`,
+      ...start,
+      `SUMMARY:${ICalUtils.escapeText(summary)}`,
+      `DESCRIPTION:${ICalUtils.escapeText(description)}`,
+      ...(item.location
+        ? [`LOCATION:${ICalUtils.escapeText(item.location)}`]
+        : []),
+      `URL:${item.url}`,
+      `CATEGORIES:${ICalUtils.escapeText(item.groupName ?? 'Personal')}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ];
+  }
+}
@@ -0,0 +1,278 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TaskCommentsService } from './task-comments.service';
+import { TasksHelperService } from './helper.service';
+import { TaskMentionService } from './task-mention.service';
+import { TasksErrors } from 'src/errors';
+import { TaskCommentContext } from '../types/tasks';
+
+describe('TaskCommentsService', () => {
+  let service: TaskCommentsService;
+
+  const mockPrismaService = {
+    subTask: { findUnique: jest.fn() },
+    taskComment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    taskCommentRevision: { create: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const mockTasksHelper = { notifyCommentChange: jest.fn() };
+  const mockTaskMentions = { recordMentions: jest.fn() };
+
+  const ctx: TaskCommentContext = {
+    id: 1,
+    userId: 9,
+    userName: 'test',
+    isOwner: false,
+    isAdminish: false,
+  };
+
+  const createComment = (overrides: Record<string, unknown> = {}) => ({
+    id: 20,
+    taskId: 1,
+    subTaskId: null,
+    parentId: null,
+    authorId: 9,
+    author: { id: 9, name: 'test' },
+    body: 'hello',
+    editedAt: null,
+    deletedAt: null,
+    deletedById: null,
+    createdAt: new Date('2026-10-19T01:00:00.000Z'),
+    updatedAt: new Date('2026-10-19T01:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskCommentsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksHelperService, useValue: mockTasksHelper },
+        { provide: TaskMentionService, useValue: mockTaskMentions },
+      ],
+    }).compile();
+
+    service = module.get(TaskCommentsService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(async (cb: any) =>
+      cb(mockPrismaService),
+    );
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // createComment
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('createComment', () => {
+    it('creates a task comment and broadcasts it', async () => {
+      mockPrismaService.taskComment.create.mockResolvedValue(createComment());
+
+      const result = await service.createComment(ctx, { body: 'hello' });
+
+      expect(mockPrismaService.taskComment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            taskId: 1,
+            subTaskId: null,
+            parentId: null,
+            authorId: 9,
+            body: 'hello',
+          },
+        }),
+      );
+      expect(result).toMatchObject({ id: 20, body: 'hello', replies: [] });
+      expect(mockTasksHelper.notifyCommentChange).toHaveBeenCalledWith(
+        result,
+        9,
+        'test',
+        'COMMENT_CREATED',
+      );
+    });
+
+    it('notifies the members mentioned in the comment', async () => {
+      mockPrismaService.taskComment.create.mockResolvedValue(
+        createComment({ body: 'cc @Ann' }),
+      );
+
+      await service.createComment(ctx, {
+        body: 'cc @Ann',
+        emailMentions: true,
+      });
+
+      expect(mockTaskMentions.recordMentions).toHaveBeenCalledWith(
+        {
+          taskId: 1,
+          subTaskId: null,
+          commentId: 20,
+          actorId: 9,
+          sendEmail: true,
+        },
+        'cc @Ann',
+      );
+    });
+
+    it('attaches a reply to a reply to the first comment of the thread', async () => {
+      mockPrismaService.taskComment.findUnique.mockResolvedValue({
+        id: 21,
+        taskId: 1,
+        subTaskId: null,
+        parentId: 20,
+      });
+      mockPrismaService.taskComment.create.mockResolvedValue(
+        createComment({ id: 22, parentId: 20 }),
+      );
+
+      await service.createComment(ctx, { body: 'me too', parentId: 21 });
+
+      const [{ data }] = mockPrismaService.taskComment.create.mock.calls[0];
+      expect(data.parentId).toBe(20);
+    });
+
+    it('throws TaskNotFoundError for a sub-task of another task', async () => {
+      mockPrismaService.subTask.findUnique.mockResolvedValue({ taskId: 2 });
+
+      await expect(
+        service.createComment(ctx, { body: 'hello', subTaskId: 5 }),
+      ).rejects.toBeInstanceOf(TasksErrors.TaskNotFoundError);
+      expect(mockPrismaService.taskComment.create).not.toHaveBeenCalled();
+    });
+
+    it('throws TaskNotFoundError when replying across threads', async () => {
+      mockPrismaService.taskComment.findUnique.mockResolvedValue({
+        id: 21,
+        taskId: 1,
+        subTaskId: 5,
+        parentId: null,
+      });
+
+      await expect(
+        service.createComment(ctx, { body: 'hello', parentId: 21 }),
+      ).rejects.toBeInstanceOf(TasksErrors.TaskNotFoundError);
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // updateComment / deleteComment
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('updateComment', () => {
+    it('keeps the previous body as a revision', async () => {
+      mockPrismaService.taskComment.findUnique.mockResolvedValue(
+        createComment(),
+      );
+      mockPrismaService.taskComment.update.mockResolvedValue(
+        createComment({ body: 'edited', editedAt: new Date() }),
+      );
+
+      const result = await service.updateComment(ctx, 20, 'edited');
+
+      expect(mockPrismaService.taskCommentRevision.create).toHaveBeenCalledWith(
+        {
+          data: {
+            commentId: 20,
+            body: 'hello',
+            action: 'EDITED',
+            editedById: 9,
+          },
+        },
+      );
+      expect(result).toMatchObject({ body: 'edited', isEdited: true });
+    });
+
+    it('throws EDIT_COMMENT when editing somebody else’s comment, even as admin', async () => {
+      mockPrismaService.taskComment.findUnique.mockResolvedValue(
+        createComment({ authorId: 3 }),
+      );
+
+      await expect(
+        service.updateComment({ ...ctx, isAdminish: true }, 20, 'edited'),
+      ).rejects.toThrow(expect.objectContaining({ action: 'EDIT_COMMENT' }));
+    });
+
+    it('throws TaskNotFoundError for a deleted comment', async () => {
+      mockPrismaService.taskComment.findUnique.mockResolvedValue(
+        createComment({ deletedAt: new Date() }),
+      );
+
+      await expect(
+        service.updateComment(ctx, 20, 'edited'),
+      ).rejects.toBeInstanceOf(TasksErrors.TaskNotFoundError);
+    });
+  });
+
+  describe('deleteComment', () => {
+    it('lets an admin delete another member’s comment', async () => {
+      mockPrismaService.taskComment.findUnique.mockResolvedValue(
+        createComment({ authorId: 3 }),
+      );
+      mockPrismaService.taskComment.update.mockResolvedValue(
+        createComment({ authorId: 3, body: '', deletedAt: new Date() }),
+      );
+
+      const result = await service.deleteComment(
+        { ...ctx, isAdminish: true },
+        20,
+      );
+
+      expect(mockPrismaService.taskCommentRevision.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ action: 'DELETED', body: 'hello' }),
+        }),
+      );
+      expect(result).toMatchObject({ isDeleted: true, body: null });
+      expect(mockTasksHelper.notifyCommentChange).toHaveBeenCalledWith(
+        result,
+        9,
+        'test',
+        'COMMENT_DELETED',
+      );
+    });
+
+    it('throws DELETE_COMMENT for a regular member', async () => {
+      mockPrismaService.taskComment.findUnique.mockResolvedValue(
+        createComment({ authorId: 3 }),
+      );
+
+      await expect(service.deleteComment(ctx, 20)).rejects.toThrow(
+        expect.objectContaining({ action: 'DELETE_COMMENT' }),
+      );
+      expect(mockPrismaService.taskComment.update).not.toHaveBeenCalled();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // getThread
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('getThread', () => {
+    it('nests replies and hides deleted comments nobody replied to', async () => {
+      mockPrismaService.taskComment.findMany.mockResolvedValue([
+        createComment({ id: 1, deletedAt: new Date() }),
+        createComment({ id: 2 }),
+        createComment({ id: 3, parentId: 1 }),
+        createComment({ id: 4, deletedAt: new Date() }),
+        createComment({ id: 5, parentId: 2, deletedAt: new Date() }),
+      ]);
+
+      const result = await service.getThread(1, null, 'Asia/Taipei');
+
+      expect(mockPrismaService.taskComment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { taskId: 1, subTaskId: null } }),
+      );
+      expect(result.map((c) => c.id)).toEqual([1, 2]);
+      expect(result[0]).toMatchObject({ isDeleted: true, body: null });
+      expect(result[0].replies.map((c) => c.id)).toEqual([3]);
+      expect(result[1].replies).toEqual([]);
+      expect(result[1].createdLabel).toBe('2026/10/19 09:00');
+    });
+  });
+});
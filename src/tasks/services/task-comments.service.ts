@@ -0,0 +1,306 @@
+import { Injectable } from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CommentRevisionType, Prisma } from 'src/generated/prisma/client';
+import { TasksErrors } from 'src/errors';
+import {
+  CommentCreatePayload,
+  CommentThreadItem,
+  TaskCommentContext,
+} from '../types/tasks';
+import { TasksHelperService } from './helper.service';
+import { TaskMentionService } from './task-mention.service';
+import { TasksUtils } from '../tasks.util';
+
+const commentWithAuthorArgs = {
+  include: { author: { select: { id: true, name: true } } },
+} satisfies Prisma.TaskCommentDefaultArgs;
+
+type CommentWithAuthor = Prisma.TaskCommentGetPayload<
+  typeof commentWithAuthorArgs
+>;
+
+@Injectable()
+export class TaskCommentsService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly tasksHelper: TasksHelperService,
+    private readonly taskMentions: TaskMentionService,
+  ) {}
+
+  async createComment(
+    ctx: TaskCommentContext,
+    payload: CommentCreatePayload,
+  ): Promise<CommentThreadItem> {
+    /**
+     * Adds a comment (or a reply) to a task or one of its sub-tasks.
+     * * @description
+     * 1. **Target**: Without `subTaskId` the comment belongs to the task itself; a sub-task
+     * must belong to the task in the route.
+     * 2. **Threads**: Threads are one level deep. Replying to a reply attaches the new
+     * comment to the thread's first comment.
+     * 3. **Live Delivery**: The comment is broadcast to the `task_{id}` or
+     * `task_{id}_subTask_{id}` room.
+     * 4. **Mentions**: Group members mentioned as `@name` are notified (and emailed
+     * with `emailMentions`).
+     * * @param ctx - The pre-validated task context provided by `TaskMemberGuard`.
+     * @param payload - The comment body and its optional sub-task / parent.
+     * @returns The created comment, shaped like an item of `getThread`.
+     * @throws {TasksErrors.TaskNotFoundError} If the sub-task or the parent comment
+     * does not belong to this task.
+     */
+    const { id: taskId, userId, userName } = ctx;
+    const subTaskId = payload.subTaskId ?? null;
+
+    if (subTaskId) {
+      const subTask = await this.prismaService.subTask.findUnique({
+        where: { id: subTaskId },
+        select: { taskId: true },
+      });
+      if (subTask?.taskId !== taskId) {
+        throw TasksErrors.TaskNotFoundError.byId(userId, subTaskId);
+      }
+    }
+
+    let parentId: number | null = null;
+    if (payload.parentId) {
+      const parent = await this.prismaService.taskComment.findUnique({
+        where: { id: payload.parentId },
+        select: { id: true, taskId: true, subTaskId: true, parentId: true },
+      });
+      if (
+        !parent ||
+        parent.taskId !== taskId ||
+        parent.subTaskId !== subTaskId
+      ) {
+        throw TasksErrors.TaskNotFoundError.byId(userId, taskId);
+      }
+      parentId = parent.parentId ?? parent.id;
+    }
+
+    const comment = await this.prismaService.taskComment.create({
+      data: {
+        taskId,
+        subTaskId,
+        parentId,
+        authorId: userId,
+        body: payload.body,
+      },
+      ...commentWithAuthorArgs,
+    });
+
+    await this.taskMentions.recordMentions(
+      {
+        taskId,
+        subTaskId,
+        commentId: comment.id,
+        actorId: userId,
+        sendEmail: payload.emailMentions,
+      },
+      comment.body,
+    );
+
+    const item = this.toThreadItem(comment);
+    this.tasksHelper.notifyCommentChange(
+      item,
+      userId,
+      userName,
+      'COMMENT_CREATED',
+    );
+    return item;
+  }
+
+  async updateComment(
+    ctx: TaskCommentContext,
+    commentId: number,
+    body: string,
+    emailMentions?: boolean,
+  ): Promise<CommentThreadItem> {
+    /**
+     * Edits a comment. Only its author can edit it; the previous body is kept
+     * as an `EDITED` revision. Members newly mentioned by the edit are notified.
+     * * @throws {TasksErrors.TaskNotFoundError} If the comment is missing, deleted
+     * or belongs to another task.
+     * @throws {TasksErrors.TaskForbiddenError} Action: 'EDIT_COMMENT' for anyone but the author.
+     */
+    const { id: taskId, userId, userName } = ctx;
+    const comment = await this.findActiveComment(taskId, commentId, userId);
+
+    if (comment.authorId !== userId) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        userId,
+        taskId,
+        'EDIT_COMMENT',
+      );
+    }
+
+    const updated = await this.prismaService.$transaction(async (tx) => {
+      await tx.taskCommentRevision.create({
+        data: {
+          commentId,
+          body: comment.body,
+          action: CommentRevisionType.EDITED,
+          editedById: userId,
+        },
+      });
+      return tx.taskComment.update({
+        where: { id: commentId },
+        data: { body, editedAt: new Date() },
+        ...commentWithAuthorArgs,
+      });
+    });
+
+    await this.taskMentions.recordMentions(
+      {
+        taskId,
+        subTaskId: updated.subTaskId,
+        commentId,
+        actorId: userId,
+        sendEmail: emailMentions,
+      },
+      updated.body,
+    );
+
+    const item = this.toThreadItem(updated);
+    this.tasksHelper.notifyCommentChange(
+      item,
+      userId,
+      userName,
+      'COMMENT_UPDATED',
+    );
+    return item;
+  }
+
+  async deleteComment(
+    ctx: TaskCommentContext,
+    commentId: number,
+  ): Promise<CommentThreadItem> {
+    /**
+     * Soft-deletes a comment so that its replies stay in place.
+     * * @description
+     * - **Permission**: The author, or a group OWNER/ADMIN (`isAdminish`) moderating the thread.
+     * - **History**: The removed body is kept as a `DELETED` revision.
+     * * @throws {TasksErrors.TaskNotFoundError} If the comment is missing, already deleted
+     * or belongs to another task.
+     * @throws {TasksErrors.TaskForbiddenError} Action: 'DELETE_COMMENT' for other members.
+     */
+    const { id: taskId, userId, userName, isAdminish } = ctx;
+    const comment = await this.findActiveComment(taskId, commentId, userId);
+
+    if (comment.authorId !== userId && !isAdminish) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        userId,
+        taskId,
+        'DELETE_COMMENT',
+      );
+    }
+
+    const deleted = await this.prismaService.$transaction(async (tx) => {
+      await tx.taskCommentRevision.create({
+        data: {
+          commentId,
+          body: comment.body,
+          action: CommentRevisionType.DELETED,
+          editedById: userId,
+        },
+      });
+      return tx.taskComment.update({
+        where: { id: commentId },
+        data: { body: '', deletedAt: new Date(), deletedById: userId },
+        ...commentWithAuthorArgs,
+      });
+    });
+
+    const item = this.toThreadItem(deleted);
+    this.tasksHelper.notifyCommentChange(
+      item,
+      userId,
+      userName,
+      'COMMENT_DELETED',
+    );
+    return item;
+  }
+
+  async getThread(
+    taskId: number,
+    subTaskId: number | null,
+    timeZone: string,
+    members: { id: number; name: string }[] = [],
+  ): Promise<CommentThreadItem[]> {
+    /**
+     * Returns the comments of a task (or of one of its sub-tasks), oldest first,
+     * with replies nested under their thread. Deleted comments are only kept
+     * as placeholders when other members already replied to them.
+     * Bodies are split into `bodySegments` so that views can link mentions of `members`.
+     */
+    const comments = await this.prismaService.taskComment.findMany({
+      where: { taskId, subTaskId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      ...commentWithAuthorArgs,
+    });
+
+    const threads = new Map<number, CommentThreadItem>();
+    const roots: CommentThreadItem[] = [];
+
+    for (const comment of comments) {
+      const item = this.toThreadItem(comment);
+      item.createdLabel = formatInTimeZone(
+        comment.createdAt,
+        timeZone,
+        'yyyy/MM/dd HH:mm',
+      );
+      item.bodySegments = item.body
+        ? TasksUtils.splitMentions(item.body, members)
+        : [];
+
+      const thread = item.parentId ? threads.get(item.parentId) : undefined;
+      if (thread) {
+        if (!item.isDeleted) thread.replies.push(item);
+      } else {
+        threads.set(item.id, item);
+        roots.push(item);
+      }
+    }
+
+    return roots.filter((t) => !t.isDeleted || t.replies.length > 0);
+  }
+
+  private async findActiveComment(
+    taskId: number,
+    commentId: number,
+    actorId: number,
+  ) {
+    const comment = await this.prismaService.taskComment.findUnique({
+      where: { id: commentId },
+      select: {
+        id: true,
+        taskId: true,
+        authorId: true,
+        body: true,
+        deletedAt: true,
+      },
+    });
+
+    if (!comment || comment.taskId !== taskId || comment.deletedAt) {
+      throw TasksErrors.TaskNotFoundError.byId(actorId, taskId);
+    }
+    return comment;
+  }
+
+  private toThreadItem(comment: CommentWithAuthor): CommentThreadItem {
+    const isDeleted = !!comment.deletedAt;
+    return {
+      id: comment.id,
+      taskId: comment.taskId,
+      subTaskId: comment.subTaskId,
+      parentId: comment.parentId,
+      authorId: comment.authorId,
+      authorName: comment.author?.name ?? 'Deleted user',
+      body: isDeleted ? null : comment.body,
+      isEdited: !!comment.editedAt,
+      isDeleted,
+      createdAt: comment.createdAt,
+      replies: [],
+    };
+  }
+}
@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TaskDependencyService } from './task-dependency.service';
+import { TasksHelperService } from './helper.service';
+import { TasksErrors } from 'src/errors';
+import { TaskDependencyContext } from '../types/tasks';
+
+describe('TaskDependencyService', () => {
+  let service: TaskDependencyService;
+
+  const mockPrismaService = {
+    task: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    taskDependency: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn(),
+  };
+
+  const mockTasksHelper = { notifyTaskChange: jest.fn() };
+
+  const ctx: TaskDependencyContext = {
+    id: 1,
+    userId: 9,
+    userName: 'test',
+    isOwner: true,
+    isAdminish: false,
+  };
+
+  // Lookup of task id -> { groupId, ownerId }
+  const mockTasks = (tasks: Record<number, { groupId: number | null }>) => {
+    mockPrismaService.task.findUnique.mockImplementation(
+      async ({ where }: any) => {
+        const t = tasks[where.id];
+        return t ? { id: where.id, ownerId: 9, ...t } : null;
+      },
+    );
+  };
+
+  // Lookup of blocked task id -> its blocker ids
+  const mockEdges = (edges: Record<number, number[]>) => {
+    mockPrismaService.taskDependency.findMany.mockImplementation(
+      async ({ where }: any) =>
+        (where.blockedTaskId.in as number[]).flatMap((id) =>
+          (edges[id] ?? []).map((blockerTaskId) => ({ blockerTaskId })),
+        ),
+    );
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskDependencyService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksHelperService, useValue: mockTasksHelper },
+      ],
+    }).compile();
+
+    service = module.get(TaskDependencyService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(async (cb: any) =>
+      cb(mockPrismaService),
+    );
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // addBlocker
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('addBlocker', () => {
+    it('links two tasks of the same group and notifies', async () => {
+      mockTasks({ 1: { groupId: 3 }, 2: { groupId: 3 } });
+      mockEdges({});
+
+      await service.addBlocker(ctx, 2);
+
+      expect(mockPrismaService.taskDependency.upsert).toHaveBeenCalledWith({
+        where: {
+          blockedTaskId_blockerTaskId: { blockedTaskId: 1, blockerTaskId: 2 },
+        },
+        update: {},
+        create: { blockedTaskId: 1, blockerTaskId: 2, createdById: 9 },
+      });
+      expect(mockTasksHelper.notifyTaskChange).toHaveBeenCalledWith(
+        1,
+        9,
+        'test',
+        'UPDATED',
+      );
+    });
+
+    it('throws DEPENDENCY_CYCLE when the blocker already waits on the task', async () => {
+      // 2 is blocked by 3, 3 is blocked by 1 → adding "1 blocked by 2" closes the loop
+      mockTasks({ 1: { groupId: 3 }, 2: { groupId: 3 } });
+      mockEdges({ 2: [3], 3: [1] });
+
+      await expect(service.addBlocker(ctx, 2)).rejects.toThrow(
+        expect.objectContaining({ action: 'DEPENDENCY_CYCLE' }),
+      );
+      expect(mockPrismaService.taskDependency.upsert).not.toHaveBeenCalled();
+    });
+
+    it('locks the group before walking the graph', async () => {
+      mockTasks({ 1: { groupId: 3 }, 2: { groupId: 3 } });
+      mockEdges({});
+
+      await service.addBlocker(ctx, 2);
+
+      const [sql, key] = mockPrismaService.$executeRaw.mock.calls[0] as [
+        TemplateStringsArray,
+        string,
+      ];
+      expect(sql.join('?')).toContain('pg_advisory_xact_lock');
+      expect(key).toBe('task_dependency:group:3');
+      expect(
+        mockPrismaService.$executeRaw.mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        mockPrismaService.taskDependency.findMany.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('allows diamonds that are not cycles', async () => {
+      // 2 → 3 → 4 and 2 → 4: shared ancestor, no path back to 1
+      mockTasks({ 1: { groupId: 3 }, 2: { groupId: 3 } });
+      mockEdges({ 2: [3, 4], 3: [4] });
+
+      await service.addBlocker(ctx, 2);
+
+      expect(mockPrismaService.taskDependency.upsert).toHaveBeenCalled();
+    });
+
+    it('throws DEPENDENCY_ON_ITSELF when linking a task to itself', async () => {
+      await expect(service.addBlocker(ctx, 1)).rejects.toThrow(
+        expect.objectContaining({ action: 'DEPENDENCY_ON_ITSELF' }),
+      );
+    });
+
+    it('throws DEPENDENCY_OUTSIDE_GROUP for tasks of another group', async () => {
+      mockTasks({ 1: { groupId: 3 }, 2: { groupId: 4 } });
+
+      await expect(service.addBlocker(ctx, 2)).rejects.toThrow(
+        expect.objectContaining({ action: 'DEPENDENCY_OUTSIDE_GROUP' }),
+      );
+    });
+
+    it('throws TaskNotFoundError when the blocker does not exist', async () => {
+      mockTasks({ 1: { groupId: 3 } });
+
+      await expect(service.addBlocker(ctx, 2)).rejects.toBeInstanceOf(
+        TasksErrors.TaskNotFoundError,
+      );
+    });
+
+    it('throws UPDATE_DEPENDENCIES for members who are not owner or admin', async () => {
+      await expect(
+        service.addBlocker({ ...ctx, isOwner: false }, 2),
+      ).rejects.toThrow(
+        expect.objectContaining({ action: 'UPDATE_DEPENDENCIES' }),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // removeBlocker
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('removeBlocker', () => {
+    it('deletes the link', async () => {
+      await service.removeBlocker(ctx, 2);
+
+      expect(mockPrismaService.taskDependency.deleteMany).toHaveBeenCalledWith({
+        where: { blockedTaskId: 1, blockerTaskId: 2 },
+      });
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // getDependencyView
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('getDependencyView', () => {
+    it('returns blockers, dependents and the remaining candidates of the group', async () => {
+      const blocker = { id: 2, title: 'b', status: 'OPEN', priority: 1 };
+      const dependent = { id: 5, title: 'd', status: 'OPEN', priority: 2 };
+      mockPrismaService.taskDependency.findMany
+        .mockResolvedValueOnce([{ blockerTask: blocker }])
+        .mockResolvedValueOnce([{ blockedTask: dependent }]);
+      mockPrismaService.task.findMany.mockResolvedValue([]);
+
+      const result = await service.getDependencyView({
+        id: 1,
+        groupId: 3,
+        ownerId: 9,
+      });
+
+      expect(result).toEqual({
+        blockers: [blocker],
+        dependents: [dependent],
+        candidates: [],
+      });
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { groupId: 3, status: 'OPEN', id: { notIn: [1, 2] } },
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Prisma, Task } from 'src/generated/prisma/client';
+import { TasksErrors } from 'src/errors';
+import { TaskStatus } from '../types/enum';
+import { TaskDependencyContext, TaskDependencyView } from '../types/tasks';
+import { TasksHelperService } from './helper.service';
+
+const SUMMARY_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  priority: true,
+} satisfies Prisma.TaskSelect;
+
+type DependencyScope = Pick<Task, 'id' | 'groupId' | 'ownerId'>;
+
+@Injectable()
+export class TaskDependencyService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly tasksHelper: TasksHelperService,
+  ) {}
+
+  async addBlocker(
+    ctx: TaskDependencyContext,
+    blockerTaskId: number,
+  ): Promise<void> {
+    /**
+     * Marks the task as "blocked by" another task.
+     * * @description
+     * 1. **Permission**: Only the task owner or a group administrator can manage dependencies.
+     * 2. **Scope**: Both tasks must live in the same group; personal tasks can only depend on
+     * personal tasks of the same owner.
+     * 3. **Cycle Detection**: Walks the blocker's own "blocked by" chain inside the transaction;
+     * if it leads back to this task, the link is refused. The walk holds an advisory lock on
+     * the scope (group or owner), so two concurrent links (A→B and B→A) cannot both pass.
+     * 4. **Idempotency**: Adding an existing link is a no-op.
+     * * @param ctx - The pre-validated task context provided by `TaskMemberGuard`.
+     * @param blockerTaskId - The task that has to be closed first.
+     * @throws {TasksErrors.TaskNotFoundError} If the blocker task does not exist.
+     * @throws {TasksErrors.TaskForbiddenError}
+     * - Action: 'UPDATE_DEPENDENCIES' when the actor is neither owner nor administrator.
+     * - Action: 'DEPENDENCY_ON_ITSELF' when a task is linked to itself.
+     * - Action: 'DEPENDENCY_OUTSIDE_GROUP' when the tasks do not share a group (or owner).
+     * - Action: 'DEPENDENCY_CYCLE' when the link would close a loop.
+     */
+    const { id, userId, userName, isAdminish, isOwner } = ctx;
+
+    if (!isAdminish && !isOwner) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        userId,
+        id,
+        'UPDATE_DEPENDENCIES',
+      );
+    }
+
+    if (blockerTaskId === id) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        userId,
+        id,
+        'DEPENDENCY_ON_ITSELF',
+      );
+    }
+
+    await this.prismaService.$transaction(async (tx) => {
+      const scopeSelect = { id: true, groupId: true, ownerId: true };
+      const [task, blocker] = await Promise.all([
+        tx.task.findUnique({ where: { id }, select: scopeSelect }),
+        tx.task.findUnique({
+          where: { id: blockerTaskId },
+          select: scopeSelect,
+        }),
+      ]);
+
+      if (!task) throw TasksErrors.TaskNotFoundError.byId(userId, id);
+      if (!blocker) {
+        throw TasksErrors.TaskNotFoundError.byId(userId, blockerTaskId);
+      }
+
+      if (!this.isSameScope(task, blocker)) {
+        throw TasksErrors.TaskForbiddenError.byActorOnTask(
+          userId,
+          id,
+          'DEPENDENCY_OUTSIDE_GROUP',
+        );
+      }
+
+      // READ COMMITTED 看不到另一個交易還沒 commit 的邊：同一個範圍的加邊依序進行
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${this.lockKey(task)}))`;
+
+      if (await this.createsCycle(tx, id, blockerTaskId)) {
+        throw TasksErrors.TaskForbiddenError.byActorOnTask(
+          userId,
+          id,
+          'DEPENDENCY_CYCLE',
+        );
+      }
+
+      await tx.taskDependency.upsert({
+        where: {
+          blockedTaskId_blockerTaskId: { blockedTaskId: id, blockerTaskId },
+        },
+        update: {},
+        create: { blockedTaskId: id, blockerTaskId, createdById: userId },
+      });
+    });
+
+    this.tasksHelper.notifyTaskChange(id, userId, userName, 'UPDATED');
+  }
+
+  async removeBlocker(
+    ctx: TaskDependencyContext,
+    blockerTaskId: number,
+  ): Promise<void> {
+    const { id, userId, userName, isAdminish, isOwner } = ctx;
+
+    if (!isAdminish && !isOwner) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        userId,
+        id,
+        'UPDATE_DEPENDENCIES',
+      );
+    }
+
+    await this.prismaService.taskDependency.deleteMany({
+      where: { blockedTaskId: id, blockerTaskId },
+    });
+
+    this.tasksHelper.notifyTaskChange(id, userId, userName, 'UPDATED');
+  }
+
+  async getDependencyView(task: DependencyScope): Promise<TaskDependencyView> {
+    /**
+     * Collects the data for the "Dependencies" card on the task details page.
+     * * @param task - The task being viewed.
+     * @returns Its blockers, its dependents and the OPEN tasks in the same scope
+     * that could still be added as blockers.
+     */
+    const [blockedBy, blocking] = await Promise.all([
+      this.prismaService.taskDependency.findMany({
+        where: { blockedTaskId: task.id },
+        select: { blockerTask: { select: SUMMARY_SELECT } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prismaService.taskDependency.findMany({
+        where: { blockerTaskId: task.id },
+        select: { blockedTask: { select: SUMMARY_SELECT } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const blockers = blockedBy.map((d) => d.blockerTask);
+    const dependents = blocking.map((d) => d.blockedTask);
+    const linkedIds = [task.id, ...blockers.map((t) => t.id)];
+
+    const candidates = await this.prismaService.task.findMany({
+      where: {
+        ...(task.groupId
+          ? { groupId: task.groupId }
+          : { ownerId: task.ownerId, groupId: null }),
+        status: TaskStatus.OPEN,
+        id: { notIn: linkedIds },
+      },
+      select: SUMMARY_SELECT,
+      orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+    });
+
+    return { blockers, dependents, candidates };
+  }
+
+  private isSameScope(a: DependencyScope, b: DependencyScope): boolean {
+    if (a.groupId || b.groupId) return a.groupId === b.groupId;
+    return a.ownerId === b.ownerId;
+  }
+
+  // 依賴只會連在同一個範圍內，鎖的粒度就是群組（個人任務則是擁有者）
+  private lockKey(scope: DependencyScope): string {
+    return scope.groupId
+      ? `task_dependency:group:${scope.groupId}`
+      : `task_dependency:owner:${scope.ownerId}`;
+  }
+
+  private async createsCycle(
+    tx: Prisma.TransactionClient,
+    blockedTaskId: number,
+    blockerTaskId: number,
+  ): Promise<boolean> {
+    // BFS over the blocker's "blocked by" edges, one query per level
+    const visited = new Set<number>([blockerTaskId]);
+    let frontier = [blockerTaskId];
+
+    while (frontier.length) {
+      const edges = await tx.taskDependency.findMany({
+        where: { blockedTaskId: { in: frontier } },
+        select: { blockerTaskId: true },
+      });
+
+      frontier = [];
+      for (const { blockerTaskId: next } of edges) {
+        if (next === blockedTaskId) return true;
+        if (!visited.has(next)) {
+          visited.add(next);
+          frontier.push(next);
+        }
+      }
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  MAX_EVENTS_PER_ROOM,
+  TaskEventLogService,
+} from './task-event-log.service';
+
+describe('TaskEventLogService', () => {
+  let service: TaskEventLogService;
+
+  const mockPrismaService = {
+    realtimeRoom: { upsert: jest.fn(), findUnique: jest.fn() },
+    realtimeEvent: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const NOW = new Date('2026-10-19T04:00:00Z');
+  const logged = (seq: number) => ({
+    seq,
+    event: 'taskUpdated',
+    payload: { type: 'UPDATED' },
+  });
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskEventLogService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get(TaskEventLogService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(async (cb: any) =>
+      cb(mockPrismaService),
+    );
+  });
+
+  describe('append', () => {
+    it('takes the next sequence of the room and trims the log', async () => {
+      mockPrismaService.realtimeRoom.upsert.mockResolvedValueOnce({
+        lastSeq: 250,
+      });
+
+      const seq = await service.append(
+        'task_1',
+        'taskUpdated',
+        { type: 'UPDATED' },
+        NOW,
+      );
+
+      expect(seq).toBe(250);
+      expect(mockPrismaService.realtimeRoom.upsert).toHaveBeenCalledWith({
+        where: { room: 'task_1' },
+        create: { room: 'task_1', lastSeq: 1 },
+        update: { lastSeq: { increment: 1 } },
+        select: { lastSeq: true },
+      });
+      expect(mockPrismaService.realtimeEvent.create).toHaveBeenCalledWith({
+        data: {
+          room: 'task_1',
+          seq: 250,
+          event: 'taskUpdated',
+          payload: { type: 'UPDATED' },
+          createdAt: NOW,
+        },
+      });
+      expect(mockPrismaService.realtimeEvent.deleteMany).toHaveBeenCalledWith({
+        where: {
+          room: 'task_1',
+          OR: [
+            { seq: { lte: 250 - MAX_EVENTS_PER_ROOM } },
+            { createdAt: { lt: new Date('2026-10-18T04:00:00Z') } },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('since', () => {
+    it('returns the events after the last seen sequence', async () => {
+      mockPrismaService.realtimeRoom.findUnique.mockResolvedValueOnce({
+        lastSeq: 5,
+      });
+      mockPrismaService.realtimeEvent.findMany.mockResolvedValueOnce([
+        logged(4),
+        logged(5),
+      ]);
+
+      await expect(service.since('task_1', 3, NOW)).resolves.toEqual({
+        resync: false,
+        seq: 5,
+        events: [logged(4), logged(5)],
+      });
+    });
+
+    it('has nothing to replay for an up-to-date client', async () => {
+      mockPrismaService.realtimeRoom.findUnique.mockResolvedValueOnce({
+        lastSeq: 5,
+      });
+      mockPrismaService.realtimeEvent.findMany.mockResolvedValueOnce([]);
+
+      await expect(service.since('task_1', 5, NOW)).resolves.toEqual({
+        resync: false,
+        seq: 5,
+        events: [],
+      });
+    });
+
+    it('asks for a resync once the gap was trimmed away', async () => {
+      mockPrismaService.realtimeRoom.findUnique.mockResolvedValueOnce({
+        lastSeq: 400,
+      });
+      mockPrismaService.realtimeEvent.findMany.mockResolvedValueOnce([
+        logged(201),
+      ]);
+
+      await expect(service.since('task_1', 3, NOW)).resolves.toEqual({
+        resync: true,
+        seq: 400,
+      });
+    });
+
+    it('asks for a resync when the client is ahead of the room', async () => {
+      mockPrismaService.realtimeRoom.findUnique.mockResolvedValueOnce(null);
+      mockPrismaService.realtimeEvent.findMany.mockResolvedValueOnce([]);
+
+      await expect(service.since('task_1', 3, NOW)).resolves.toEqual({
+        resync: true,
+        seq: 0,
+      });
+    });
+  });
+});
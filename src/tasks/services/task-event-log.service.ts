@@ -0,0 +1,100 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Prisma } from 'src/generated/prisma/client';
+import { LoggedRoomEvent, RoomReplay } from '../types/tasks';
+
+// 每個房間留多少筆、留多久；超過的缺口只能整頁重新載入
+export const MAX_EVENTS_PER_ROOM = 200;
+export const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class TaskEventLogService {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async append(
+    room: string,
+    event: string,
+    payload: Record<string, unknown>,
+    now: Date = new Date(),
+  ): Promise<number> {
+    /**
+     * Gives a room event the next sequence number of its room and logs it for replay.
+     * * @description
+     * 1. **Sequence**: The per-room counter is bumped with an upsert, so numbers are
+     * strictly increasing across app instances; the counter row stays locked until the
+     * event is written, which keeps the log in sequence order.
+     * 2. **Bounded**: Events beyond the last `MAX_EVENTS_PER_ROOM` of the room, or older
+     * than `MAX_EVENT_AGE_MS`, are dropped in the same transaction.
+     * * @returns The sequence number of the event.
+     */
+    return this.prismaService.$transaction(async (tx) => {
+      const { lastSeq } = await tx.realtimeRoom.upsert({
+        where: { room },
+        create: { room, lastSeq: 1 },
+        update: { lastSeq: { increment: 1 } },
+        select: { lastSeq: true },
+      });
+
+      await tx.realtimeEvent.create({
+        data: {
+          room,
+          seq: lastSeq,
+          event,
+          payload: payload as Prisma.InputJsonObject,
+          createdAt: now,
+        },
+      });
+      await tx.realtimeEvent.deleteMany({
+        where: {
+          room,
+          OR: [
+            { seq: { lte: lastSeq - MAX_EVENTS_PER_ROOM } },
+            { createdAt: { lt: new Date(now.getTime() - MAX_EVENT_AGE_MS) } },
+          ],
+        },
+      });
+
+      return lastSeq;
+    });
+  }
+
+  async currentSeq(room: string): Promise<number> {
+    const row = await this.prismaService.realtimeRoom.findUnique({
+      where: { room },
+      select: { lastSeq: true },
+    });
+    return row?.lastSeq ?? 0;
+  }
+
+  async since(
+    room: string,
+    lastSeq: number,
+    now: Date = new Date(),
+  ): Promise<RoomReplay> {
+    /**
+     * Returns the events of a room after `lastSeq`, or asks for a resync.
+     * * @description
+     * A resync is needed when the next event (`lastSeq + 1`) is no longer in the log
+     * (dropped by the size or age bound), or when `lastSeq` is ahead of the room — the
+     * client saw numbers this log never handed out.
+     */
+    const [seq, rows] = await Promise.all([
+      this.currentSeq(room),
+      this.prismaService.realtimeEvent.findMany({
+        where: {
+          room,
+          seq: { gt: lastSeq },
+          createdAt: { gte: new Date(now.getTime() - MAX_EVENT_AGE_MS) },
+        },
+        orderBy: { seq: 'asc' },
+        select: { seq: true, event: true, payload: true },
+      }),
+    ]);
+
+    if (lastSeq > seq) return { resync: true, seq };
+    if (lastSeq === seq) return { resync: false, seq, events: [] };
+    if (rows[0]?.seq !== lastSeq + 1) return { resync: true, seq };
+
+    return { resync: false, seq, events: rows as LoggedRoomEvent[] };
+  }
+}
@@ -0,0 +1,255 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { GroupRole } from 'src/generated/prisma/client';
+import { GroupsErrors, TasksErrors } from 'src/errors';
+import { CurrentUser } from 'src/common/types/current-user';
+import { TaskImportService } from './task-import.service';
+import { TasksService } from './tasks.service';
+
+describe('TaskImportService', () => {
+  let service: TaskImportService;
+
+  const mockPrismaService = {
+    task: { findMany: jest.fn() },
+    groupMember: { findUnique: jest.fn() },
+  };
+
+  const mockTasksService = {
+    createTask: jest.fn(),
+    updateTask: jest.fn(),
+  };
+
+  const user: CurrentUser = {
+    userId: 9,
+    userName: 'test',
+    email: 'test@example.com',
+    timeZone: 'Asia/Taipei',
+  };
+
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:exam@school',
+    'SUMMARY:Final exam',
+    'DTSTART;VALUE=DATE:20261120',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:meeting@school',
+    'SUMMARY:Parents meeting',
+    'LOCATION:Hall\\, 2F',
+    'DTSTART;TZID=America/New_York:20261020T090000',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:meeting@school',
+    'RECURRENCE-ID:20261027T090000',
+    'SUMMARY:Moved meeting',
+    'DTSTART:20261028T010000Z',
+    'END:VEVENT',
+    'BEGIN:VTODO',
+    'UID:form@school',
+    'SUMMARY:Return form',
+    'DTSTART:20261001T000000Z',
+    'DUE:20261030T100000Z',
+    'END:VTODO',
+    'BEGIN:VEVENT',
+    'UID:trip@school',
+    'SUMMARY:Trip',
+    'STATUS:CANCELLED',
+    'DTSTART:20261105',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskImportService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksService, useValue: mockTasksService },
+      ],
+    }).compile();
+
+    service = module.get(TaskImportService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.task.findMany.mockResolvedValue([]);
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // preview
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('preview', () => {
+    it('maps events and to-dos onto local due dates in the user time zone', async () => {
+      const preview = await service.preview(user, null, 'school.ics', ics);
+
+      expect(preview).toMatchObject({
+        groupId: null,
+        groupName: null,
+        fileName: 'school.ics',
+      });
+      // RECURRENCE-ID 覆寫的單次事件不匯入
+      expect(preview.entries).toHaveLength(4);
+      expect(preview.entries[0]).toMatchObject({
+        uid: 'exam@school',
+        allDay: true,
+        dueDate: '2026-11-20',
+        dueTime: null,
+        action: 'CREATE',
+      });
+      // 09:00 New York (EDT) = 21:00 Taipei
+      expect(preview.entries[1]).toMatchObject({
+        title: 'Parents meeting',
+        location: 'Hall, 2F',
+        allDay: false,
+        dueDate: '2026-10-20',
+        dueTime: '21:00',
+      });
+      // VTODO 用 DUE 而不是 DTSTART
+      expect(preview.entries[2]).toMatchObject({
+        kind: 'VTODO',
+        dueDate: '2026-10-30',
+        dueTime: '18:00',
+      });
+      expect(preview.entries[3]).toMatchObject({
+        action: 'SKIP',
+        skipReason: 'Cancelled',
+      });
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            icalUid: {
+              in: [
+                'exam@school',
+                'meeting@school',
+                'form@school',
+                'trip@school',
+              ],
+            },
+            groupId: null,
+            ownerId: 9,
+          },
+        }),
+      );
+    });
+
+    it('marks entries with a known UID as updates', async () => {
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        { id: 42, icalUid: 'exam@school', ownerId: 9 },
+      ]);
+
+      const preview = await service.preview(user, null, 'school.ics', ics);
+
+      expect(preview.entries[0]).toMatchObject({
+        action: 'UPDATE',
+        existingTaskId: 42,
+      });
+    });
+
+    it('skips group tasks imported by another member for non-admins', async () => {
+      mockPrismaService.groupMember.findUnique
+        .mockResolvedValueOnce({ group: { name: 'Class 3A' } })
+        .mockResolvedValueOnce({ role: GroupRole.MEMBER });
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        { id: 42, icalUid: 'exam@school', ownerId: 1 },
+      ]);
+
+      const preview = await service.preview(user, 2, 'school.ics', ics);
+
+      expect(preview.groupName).toBe('Class 3A');
+      expect(preview.entries[0]).toMatchObject({
+        action: 'SKIP',
+        skipReason: 'Imported by another member',
+      });
+    });
+
+    it('throws GroupNotFoundError when the user is not a member', async () => {
+      mockPrismaService.groupMember.findUnique.mockResolvedValueOnce(null);
+
+      await expect(
+        service.preview(user, 2, 'school.ics', ics),
+      ).rejects.toBeInstanceOf(GroupsErrors.GroupNotFoundError);
+    });
+
+    it('throws TaskImportError when the file has no events', async () => {
+      await expect(
+        service.preview(
+          user,
+          null,
+          'empty.ics',
+          'BEGIN:VCALENDAR\r\nEND:VCALENDAR',
+        ),
+      ).rejects.toBeInstanceOf(TasksErrors.TaskImportError);
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // confirm
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('confirm', () => {
+    it('creates new entries and updates matched ones by UID', async () => {
+      const preview = await service.preview(user, null, 'school.ics', ics);
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        { id: 42, icalUid: 'meeting@school', ownerId: 9 },
+      ]);
+
+      const result = await service.confirm(user, preview, [0, 1, 3]);
+
+      expect(result).toEqual({ created: 1, updated: 1, skipped: 1 });
+      expect(mockTasksService.createTask).toHaveBeenCalledWith(
+        {
+          title: 'Final exam',
+          description: null,
+          location: null,
+          allDay: true,
+          dueDate: '2026-11-20',
+          dueTime: null,
+          status: null,
+          priority: null,
+          userId: 9,
+          icalUid: 'exam@school',
+        },
+        null,
+      );
+      expect(mockTasksService.updateTask).toHaveBeenCalledWith(
+        {
+          id: 42,
+          userId: 9,
+          userName: 'test',
+          timeZone: 'Asia/Taipei',
+          isAdminish: false,
+          isOwner: true,
+        },
+        {
+          title: 'Parents meeting',
+          description: null,
+          location: 'Hall, 2F',
+          allDay: false,
+          dueDate: '2026-10-20',
+          dueTime: '21:00',
+        },
+      );
+    });
+
+    it("updates another member's import as a group admin, not as its owner", async () => {
+      mockPrismaService.groupMember.findUnique.mockResolvedValue({
+        role: GroupRole.ADMIN,
+        group: { name: 'Class 3A' },
+      });
+      const preview = await service.preview(user, 2, 'school.ics', ics);
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        { id: 42, icalUid: 'exam@school', ownerId: 1 },
+      ]);
+
+      await service.confirm(user, preview, [0]);
+
+      expect(mockTasksService.updateTask).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 42, isAdminish: true, isOwner: false }),
+        expect.anything(),
+      );
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { Injectable } from '@nestjs/common';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CurrentUser } from 'src/common/types/current-user';
+import { GroupsErrors, TasksErrors } from 'src/errors';
+import { TasksService } from './tasks.service';
+import { TasksUtils } from '../tasks.util';
+import { ICalUtils } from '../ical.util';
+import {
+  ICalComponent,
+  ICalProperty,
+  IcsImportEntry,
+  IcsImportPreview,
+  IcsImportResult,
+} from '../types/tasks';
+
+// 一次匯入的上限，學校行事曆一整年大約幾百筆
+export const MAX_IMPORT_ENTRIES = 500;
+
+const TITLE_MAX = 200;
+
+@Injectable()
+export class TaskImportService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly tasksService: TasksService,
+  ) {}
+
+  async preview(
+    user: CurrentUser,
+    groupId: number | null,
+    fileName: string,
+    content: string,
+  ): Promise<IcsImportPreview> {
+    /**
+     * Parses an uploaded `.ics` file into import entries for the preview page.
+     * * @description
+     * 1. **Components**: Every VEVENT and VTODO becomes one entry. Overridden
+     * instances of a recurring event (`RECURRENCE-ID`) are skipped; only the
+     * first occurrence of a series is imported.
+     * 2. **Dates**: `VALUE=DATE` maps to an all-day task. Timed values honor `Z`
+     * and known `TZID`s; floating times and unknown TZIDs use the importer's time
+     * zone. The result is expressed as local date / time in the importer's zone,
+     * the same shape the create form submits.
+     * 3. **Matching**: Entries whose UID matches a task previously imported into
+     * the same scope (the user's personal tasks, or the group) are updated instead
+     * of created.
+     * * @throws {GroupsErrors.GroupNotFoundError} When the user is not a member of the group.
+     * @throws {TasksErrors.TaskImportError} When the file has no entries or too many.
+     */
+    const groupName = groupId
+      ? await this.getGroupNameForMember(user.userId, groupId)
+      : null;
+
+    const components = ICalUtils.parseComponents(
+      content.replace(/^\uFEFF/, ''),
+      ['VEVENT', 'VTODO'],
+    ).filter((c) => !this.getProp(c, 'RECURRENCE-ID'));
+
+    if (!components.length) {
+      throw TasksErrors.TaskImportError.emptyFile(user.userId);
+    }
+    if (components.length > MAX_IMPORT_ENTRIES) {
+      throw TasksErrors.TaskImportError.tooManyEntries(
+        user.userId,
+        MAX_IMPORT_ENTRIES,
+      );
+    }
+
+    const entries = components.map((c) => this.toEntry(c, user.timeZone));
+
+    return {
+      groupId,
+      groupName,
+      fileName,
+      entries: await this.plan(user.userId, groupId, entries),
+    };
+  }
+
+  async confirm(
+    user: CurrentUser,
+    preview: IcsImportPreview,
+    selected: number[],
+  ): Promise<IcsImportResult> {
+    /**
+     * Creates or updates the selected entries of a preview.
+     * * @description
+     * The plan is recomputed first, so membership, permissions and UID matches
+     * reflect the current data rather than the moment of the upload. Creation goes
+     * through `TasksService.createTask` and updates through `TasksService.updateTask`,
+     * so activity, mentions and notifications behave like manual edits.
+     * * @throws {GroupsErrors.GroupNotFoundError} When the user left the group since the upload.
+     */
+    const { groupId } = preview;
+    if (groupId) await this.getGroupNameForMember(user.userId, groupId);
+
+    const picked = new Set(selected);
+    const entries = await this.plan(
+      user.userId,
+      groupId,
+      preview.entries.filter((_, i) => picked.has(i)),
+    );
+
+    const result: IcsImportResult = { created: 0, updated: 0, skipped: 0 };
+    const isAdminish = groupId
+      ? await this.isGroupAdminish(user.userId, groupId)
+      : false;
+
+    for (const entry of entries) {
+      const fields = {
+        title: entry.title,
+        description: entry.description,
+        location: entry.location,
+        allDay: entry.allDay,
+        dueDate: entry.dueDate,
+        dueTime: entry.dueTime,
+      };
+
+      if (entry.action === 'CREATE') {
+        await this.tasksService.createTask(
+          {
+            ...fields,
+            status: null,
+            priority: null,
+            userId: user.userId,
+            icalUid: entry.uid,
+          },
+          groupId,
+        );
+        result.created++;
+      } else if (entry.action === 'UPDATE' && entry.existingTaskId) {
+        await this.tasksService.updateTask(
+          {
+            id: entry.existingTaskId,
+            userId: user.userId,
+            userName: user.userName,
+            timeZone: user.timeZone,
+            isAdminish,
+            isOwner: entry.existingOwnerId === user.userId,
+          },
+          fields,
+        );
+        result.updated++;
+      } else {
+        result.skipped++;
+      }
+    }
+
+    return result;
+  }
+
+  private async plan(
+    userId: number,
+    groupId: number | null,
+    entries: IcsImportEntry[],
+  ): Promise<IcsImportEntry[]> {
+    // 同一個 UID 在檔案裡出現多次時只取第一筆
+    const seen = new Set<string>();
+    const uids = entries.flatMap((e) => (e.uid ? [e.uid] : []));
+
+    const [existing, isAdminish] = await Promise.all([
+      uids.length
+        ? this.prismaService.task.findMany({
+            where: {
+              icalUid: { in: uids },
+              ...(groupId ? { groupId } : { groupId: null, ownerId: userId }),
+            },
+            select: { id: true, icalUid: true, ownerId: true },
+            orderBy: { id: 'asc' },
+          })
+        : [],
+      groupId ? this.isGroupAdminish(userId, groupId) : false,
+    ]);
+    const byUid = new Map<string, { id: number; ownerId: number }>();
+    for (const task of existing) {
+      if (task.icalUid && !byUid.has(task.icalUid)) {
+        byUid.set(task.icalUid, task);
+      }
+    }
+
+    return entries.map((entry) => {
+      const skip = (skipReason: string): IcsImportEntry => ({
+        ...entry,
+        action: 'SKIP',
+        existingTaskId: null,
+        existingOwnerId: null,
+        skipReason,
+      });
+
+      if (entry.uid && seen.has(entry.uid)) return skip('Duplicate UID');
+      if (entry.uid) seen.add(entry.uid);
+      if (entry.cancelled) return skip('Cancelled');
+
+      const match = entry.uid ? byUid.get(entry.uid) : undefined;
+      if (!match) {
+        return {
+          ...entry,
+          action: 'CREATE',
+          existingTaskId: null,
+          existingOwnerId: null,
+          skipReason: null,
+        };
+      }
+      if (match.ownerId !== userId && !isAdminish) {
+        return skip('Imported by another member');
+      }
+      return {
+        ...entry,
+        action: 'UPDATE',
+        existingTaskId: match.id,
+        existingOwnerId: match.ownerId,
+        skipReason: null,
+      };
+    });
+  }
+
+  private toEntry(component: ICalComponent, timeZone: string): IcsImportEntry {
+    const text = (name: string) => {
+      const prop = this.getProp(component, name);
+      const value = prop ? ICalUtils.unescapeText(prop.value).trim() : '';
+      return value || null;
+    };
+
+    const kind = component.type === 'VTODO' ? 'VTODO' : 'VEVENT';
+    // 事件看開始時間，待辦看到期時間（沒有才退回開始時間）
+    const dateProp =
+      (kind === 'VTODO' && this.getProp(component, 'DUE')) ||
+      this.getProp(component, 'DTSTART');
+    const due = this.toLocalDue(dateProp, timeZone);
+
+    return {
+      uid: text('UID')?.slice(0, 255) ?? null,
+      kind,
+      title: (text('SUMMARY') ?? '(untitled)').slice(0, TITLE_MAX),
+      description: text('DESCRIPTION'),
+      location: text('LOCATION'),
+      ...due,
+      cancelled: text('STATUS')?.toUpperCase() === 'CANCELLED',
+      action: 'CREATE',
+      existingTaskId: null,
+      existingOwnerId: null,
+      skipReason: null,
+    };
+  }
+
+  private toLocalDue(
+    prop: ICalProperty | undefined,
+    timeZone: string,
+  ): Pick<IcsImportEntry, 'allDay' | 'dueDate' | 'dueTime'> {
+    const value = prop && ICalUtils.parseDateValue(prop);
+    if (!value) return { allDay: true, dueDate: null, dueTime: null };
+    if (value.allDay)
+      return { allDay: true, dueDate: value.date, dueTime: null };
+
+    let instant: Date;
+    if (value.utc) {
+      instant = new Date(`${value.local}Z`);
+    } else if (value.tzid && ICalUtils.isKnownTimeZone(value.tzid)) {
+      instant = fromZonedTime(value.local, value.tzid);
+    } else {
+      instant = fromZonedTime(value.local, timeZone);
+    }
+
+    return {
+      allDay: false,
+      dueDate: formatInTimeZone(instant, timeZone, 'yyyy-MM-dd'),
+      dueTime: formatInTimeZone(instant, timeZone, 'HH:mm'),
+    };
+  }
+
+  private getProp(component: ICalComponent, name: string) {
+    return component.props.find((p) => p.name === name);
+  }
+
+  private async getGroupNameForMember(
+    userId: number,
+    groupId: number,
+  ): Promise<string> {
+    const member = await this.prismaService.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId } },
+      select: { group: { select: { name: true } } },
+    });
+    if (!member) throw GroupsErrors.GroupNotFoundError.byId(userId, groupId);
+    return member.group.name;
+  }
+
+  private async isGroupAdminish(
+    userId: number,
+    groupId: number,
+  ): Promise<boolean> {
+    const member = await this.prismaService.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId } },
+      select: { role: true },
+    });
+    return !!member && TasksUtils.isAdminish(member.role);
+  }
+}
@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { GroupRole } from 'src/generated/prisma/client';
+import { TaskLabelService } from './task-label.service';
+import { TasksHelperService } from './helper.service';
+import { TaskActivityService } from './task-activity.service';
+import { GroupsErrors, TasksErrors } from 'src/errors';
+import { TaskLabelContext } from '../types/tasks';
+
+describe('TaskLabelService', () => {
+  let service: TaskLabelService;
+
+  const mockPrismaService = {
+    label: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      delete: jest.fn(),
+    },
+    task: { findUnique: jest.fn() },
+    subTask: { findUnique: jest.fn() },
+    taskLabel: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    subTaskLabel: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    groupMember: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  };
+
+  const mockTasksHelper = {
+    notifyTaskChange: jest.fn(),
+    notifySubTaskChange: jest.fn(),
+  };
+
+  const mockTaskActivity = { record: jest.fn() };
+
+  const ctx: TaskLabelContext = {
+    id: 1,
+    userId: 9,
+    userName: 'test',
+    isOwner: true,
+    isAdminish: false,
+  };
+
+  const bug = { id: 3, name: 'bug', color: '#dd3333' };
+  const home = { id: 4, name: 'home', color: '#22aa55' };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskLabelService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksHelperService, useValue: mockTasksHelper },
+        { provide: TaskActivityService, useValue: mockTaskActivity },
+      ],
+    }).compile();
+
+    service = module.get(TaskLabelService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrismaService.$transaction.mockImplementation(async (cb: any) =>
+      cb(mockPrismaService),
+    );
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // setTaskLabels
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('setTaskLabels', () => {
+    it('replaces the labels, records the change and notifies', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        groupId: 2,
+        ownerId: 9,
+        labels: [{ label: home }],
+      });
+      mockPrismaService.label.findMany.mockResolvedValue([bug, home]);
+
+      await service.setTaskLabels(ctx, [4, 3, 3]);
+
+      expect(mockPrismaService.label.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: [4, 3] }, groupId: 2 },
+        }),
+      );
+      expect(mockPrismaService.taskLabel.deleteMany).toHaveBeenCalledWith({
+        where: { taskId: 1 },
+      });
+      expect(mockPrismaService.taskLabel.createMany).toHaveBeenCalledWith({
+        data: [
+          { taskId: 1, labelId: 3 },
+          { taskId: 1, labelId: 4 },
+        ],
+      });
+      expect(mockTaskActivity.record).toHaveBeenCalledWith(
+        mockPrismaService,
+        expect.objectContaining({
+          taskId: 1,
+          actorId: 9,
+          action: 'UPDATED',
+          before: { labels: 'home' },
+          after: { labels: 'bug, home' },
+        }),
+      );
+      expect(mockTasksHelper.notifyTaskChange).toHaveBeenCalledWith(
+        1,
+        9,
+        'test',
+        'UPDATED',
+      );
+    });
+
+    it('only accepts personal labels of the owner on a personal task', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        groupId: null,
+        ownerId: 9,
+        labels: [],
+      });
+      mockPrismaService.label.findMany.mockResolvedValue([]);
+
+      await expect(service.setTaskLabels(ctx, [3])).rejects.toMatchObject({
+        action: 'LABEL_OUTSIDE_SCOPE',
+      });
+
+      expect(mockPrismaService.label.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: { in: [3] }, ownerId: 9, groupId: null },
+        }),
+      );
+      expect(mockPrismaService.taskLabel.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('does not record activity when nothing changed', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        groupId: 2,
+        ownerId: 9,
+        labels: [{ label: bug }],
+      });
+      mockPrismaService.label.findMany.mockResolvedValue([bug]);
+
+      await service.setTaskLabels(ctx, [3]);
+
+      expect(mockTaskActivity.record).not.toHaveBeenCalled();
+    });
+
+    it('rejects members who are neither owner nor administrator', async () => {
+      await expect(
+        service.setTaskLabels({ ...ctx, isOwner: false }, [3]),
+      ).rejects.toBeInstanceOf(TasksErrors.TaskForbiddenError);
+
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // setSubTaskLabels
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('setSubTaskLabels', () => {
+    it('lets any member label a sub-task from the parent catalog', async () => {
+      mockPrismaService.subTask.findUnique.mockResolvedValue({
+        taskId: 1,
+        task: { groupId: 2, ownerId: 5 },
+        labels: [],
+      });
+      mockPrismaService.label.findMany.mockResolvedValue([bug]);
+
+      await service.setSubTaskLabels({ ...ctx, isOwner: false }, 7, [3]);
+
+      expect(mockPrismaService.subTaskLabel.createMany).toHaveBeenCalledWith({
+        data: [{ subTaskId: 7, labelId: 3 }],
+      });
+      expect(mockTaskActivity.record).toHaveBeenCalledWith(
+        mockPrismaService,
+        expect.objectContaining({ taskId: 1, subTaskId: 7 }),
+      );
+      expect(mockTasksHelper.notifySubTaskChange).toHaveBeenCalledWith(
+        1,
+        7,
+        9,
+        'test',
+        'SUBTASK_UPDATED',
+      );
+    });
+
+    it('throws when the sub-task belongs to another task', async () => {
+      mockPrismaService.subTask.findUnique.mockResolvedValue({
+        taskId: 2,
+        task: { groupId: 2, ownerId: 5 },
+        labels: [],
+      });
+
+      await expect(
+        service.setSubTaskLabels(ctx, 7, [3]),
+      ).rejects.toBeInstanceOf(TasksErrors.TaskNotFoundError);
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // createLabel / deleteLabel
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('createLabel', () => {
+    it('adds a personal label for the actor', async () => {
+      mockPrismaService.label.upsert.mockResolvedValue(home);
+
+      await service.createLabel({
+        name: 'home',
+        color: '#22aa55',
+        groupId: null,
+        actorId: 9,
+      });
+
+      expect(mockPrismaService.label.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { ownerId_name: { ownerId: 9, name: 'home' } },
+          create: { name: 'home', color: '#22aa55', ownerId: 9 },
+        }),
+      );
+      expect(mockPrismaService.groupMember.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('requires an administrator for group labels', async () => {
+      mockPrismaService.groupMember.findUnique.mockResolvedValue({
+        role: GroupRole.MEMBER,
+      });
+
+      await expect(
+        service.createLabel({
+          name: 'bug',
+          color: '#dd3333',
+          groupId: 2,
+          actorId: 9,
+        }),
+      ).rejects.toBeInstanceOf(GroupsErrors.GroupActionForbiddenError);
+
+      expect(mockPrismaService.label.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteLabel', () => {
+    it("ignores another user's personal label", async () => {
+      mockPrismaService.label.findUnique.mockResolvedValue({
+        id: 4,
+        groupId: null,
+        ownerId: 5,
+      });
+
+      await service.deleteLabel(9, 4);
+
+      expect(mockPrismaService.label.delete).not.toHaveBeenCalled();
+    });
+
+    it('deletes a group label for an administrator', async () => {
+      mockPrismaService.label.findUnique.mockResolvedValue({
+        id: 3,
+        groupId: 2,
+        ownerId: null,
+      });
+      mockPrismaService.groupMember.findUnique.mockResolvedValue({
+        role: GroupRole.ADMIN,
+      });
+
+      await service.deleteLabel(9, 3);
+
+      expect(mockPrismaService.label.delete).toHaveBeenCalledWith({
+        where: { id: 3 },
+      });
+    });
+  });
+});
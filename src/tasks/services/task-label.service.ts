@@ -0,0 +1,327 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Prisma, TaskActivityAction } from 'src/generated/prisma/client';
+import { GroupsErrors, TasksErrors } from 'src/errors';
+import {
+  LabelCreatePayload,
+  LabelScope,
+  LabelSummary,
+  TaskLabelContext,
+} from '../types/tasks';
+import { TasksUtils } from '../tasks.util';
+import { TasksHelperService } from './helper.service';
+import { TaskActivityService } from './task-activity.service';
+
+const LABEL_SELECT = {
+  id: true,
+  name: true,
+  color: true,
+} satisfies Prisma.LabelSelect;
+
+@Injectable()
+export class TaskLabelService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly tasksHelper: TasksHelperService,
+    private readonly taskActivity: TaskActivityService,
+  ) {}
+
+  async getCatalog(scope: LabelScope): Promise<LabelSummary[]> {
+    /**
+     * Returns the labels that can be put on a task of the given scope:
+     * the group's catalog for group tasks, the owner's personal labels otherwise.
+     */
+    return this.prismaService.label.findMany({
+      where: this.catalogWhere(scope),
+      select: LABEL_SELECT,
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async getLabelView(
+    scope: LabelScope,
+    target: { taskId: number } | { subTaskId: number },
+  ): Promise<{ labels: LabelSummary[]; catalog: LabelSummary[] }> {
+    /**
+     * Collects the data for the "Labels" card on the task / sub-task details page:
+     * the labels currently on the target and the catalog it can pick from.
+     */
+    const [links, catalog] = await Promise.all([
+      'taskId' in target
+        ? this.prismaService.taskLabel.findMany({
+            where: { taskId: target.taskId },
+            select: { label: { select: LABEL_SELECT } },
+          })
+        : this.prismaService.subTaskLabel.findMany({
+            where: { subTaskId: target.subTaskId },
+            select: { label: { select: LABEL_SELECT } },
+          }),
+      this.getCatalog(scope),
+    ]);
+
+    const labels = links
+      .map((l) => l.label)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { labels, catalog };
+  }
+
+  async getLabelsForUser(
+    userId: number,
+  ): Promise<(LabelSummary & { groupName: string | null })[]> {
+    /**
+     * Every label the user can filter by: personal labels plus the catalogs
+     * of the groups they are still a member of.
+     */
+    const labels = await this.prismaService.label.findMany({
+      where: {
+        OR: [
+          { ownerId: userId, groupId: null },
+          { group: { members: { some: { userId } } } },
+        ],
+      },
+      select: { ...LABEL_SELECT, group: { select: { name: true } } },
+      orderBy: [{ groupId: { sort: 'asc', nulls: 'first' } }, { name: 'asc' }],
+    });
+
+    return labels.map(({ group, ...label }) => ({
+      ...label,
+      groupName: group?.name ?? null,
+    }));
+  }
+
+  async createLabel(payload: LabelCreatePayload): Promise<LabelSummary> {
+    /**
+     * Adds a label to a catalog.
+     * * @description
+     * - Group labels can only be added by the group owner / administrators.
+     * - Personal labels belong to the actor.
+     * - Names are unique per catalog; adding an existing name returns that label
+     * (the colour is updated).
+     * * @throws {GroupsErrors.GroupActionForbiddenError} When the actor cannot manage the group catalog.
+     */
+    const { name, color, groupId, actorId } = payload;
+
+    if (groupId) {
+      await this.assertCanManageCatalog(groupId, actorId);
+      return this.prismaService.label.upsert({
+        where: { groupId_name: { groupId, name } },
+        update: { color },
+        create: { name, color, groupId },
+        select: LABEL_SELECT,
+      });
+    }
+
+    return this.prismaService.label.upsert({
+      where: { ownerId_name: { ownerId: actorId, name } },
+      update: { color },
+      create: { name, color, ownerId: actorId },
+      select: LABEL_SELECT,
+    });
+  }
+
+  async deleteLabel(actorId: number, labelId: number): Promise<void> {
+    /**
+     * Removes a label from its catalog; it disappears from every task and sub-task.
+     * Deleting a label the actor cannot see is a no-op.
+     */
+    const label = await this.prismaService.label.findUnique({
+      where: { id: labelId },
+      select: { id: true, groupId: true, ownerId: true },
+    });
+    if (!label) return;
+
+    if (label.groupId) {
+      await this.assertCanManageCatalog(label.groupId, actorId);
+    } else if (label.ownerId !== actorId) {
+      return;
+    }
+
+    await this.prismaService.label.delete({ where: { id: labelId } });
+  }
+
+  async setTaskLabels(
+    ctx: TaskLabelContext,
+    labelIds: number[],
+  ): Promise<void> {
+    /**
+     * Replaces the labels of a task.
+     * * @description
+     * 1. **Permission**: Only the task owner or a group administrator can label a task.
+     * 2. **Scope**: Every label must come from the task's catalog (same group, or the
+     * owner's personal labels for a personal task).
+     * 3. **Activity**: A change is recorded as an `UPDATED` activity on `labels`.
+     * * @throws {TasksErrors.TaskForbiddenError}
+     * - Action: 'UPDATE_LABELS' when the actor is neither owner nor administrator.
+     * - Action: 'LABEL_OUTSIDE_SCOPE' when a label belongs to another catalog.
+     */
+    const { id, userId, userName, isAdminish, isOwner } = ctx;
+
+    if (!isAdminish && !isOwner) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        userId,
+        id,
+        'UPDATE_LABELS',
+      );
+    }
+
+    await this.prismaService.$transaction(async (tx) => {
+      const task = await tx.task.findUnique({
+        where: { id },
+        select: {
+          groupId: true,
+          ownerId: true,
+          labels: { select: { label: { select: LABEL_SELECT } } },
+        },
+      });
+      if (!task) throw TasksErrors.TaskNotFoundError.byId(userId, id);
+
+      const next = await this.findInScope(tx, task, labelIds, userId, id);
+
+      await tx.taskLabel.deleteMany({ where: { taskId: id } });
+      await tx.taskLabel.createMany({
+        data: next.map((l) => ({ taskId: id, labelId: l.id })),
+      });
+
+      await this.recordChange(
+        tx,
+        { taskId: id, actorId: userId },
+        task.labels.map((l) => l.label),
+        next,
+      );
+    });
+
+    this.tasksHelper.notifyTaskChange(id, userId, userName, 'UPDATED');
+  }
+
+  async setSubTaskLabels(
+    ctx: TaskLabelContext,
+    subTaskId: number,
+    labelIds: number[],
+  ): Promise<void> {
+    /**
+     * Replaces the labels of a sub-task.
+     * Like editing a sub-task, any member of the parent task may do this; the labels
+     * must come from the parent task's catalog.
+     */
+    const { id: taskId, userId, userName } = ctx;
+
+    await this.prismaService.$transaction(async (tx) => {
+      const subTask = await tx.subTask.findUnique({
+        where: { id: subTaskId },
+        select: {
+          taskId: true,
+          task: { select: { groupId: true, ownerId: true } },
+          labels: { select: { label: { select: LABEL_SELECT } } },
+        },
+      });
+      if (!subTask || subTask.taskId !== taskId) {
+        throw TasksErrors.TaskNotFoundError.byId(userId, subTaskId);
+      }
+
+      const next = await this.findInScope(
+        tx,
+        subTask.task,
+        labelIds,
+        userId,
+        taskId,
+      );
+
+      await tx.subTaskLabel.deleteMany({ where: { subTaskId } });
+      await tx.subTaskLabel.createMany({
+        data: next.map((l) => ({ subTaskId, labelId: l.id })),
+      });
+
+      await this.recordChange(
+        tx,
+        { taskId, subTaskId, actorId: userId },
+        subTask.labels.map((l) => l.label),
+        next,
+      );
+    });
+
+    this.tasksHelper.notifySubTaskChange(
+      taskId,
+      subTaskId,
+      userId,
+      userName,
+      'SUBTASK_UPDATED',
+    );
+  }
+
+  private catalogWhere(scope: LabelScope): Prisma.LabelWhereInput {
+    return scope.groupId
+      ? { groupId: scope.groupId }
+      : { ownerId: scope.ownerId, groupId: null };
+  }
+
+  private async findInScope(
+    tx: Prisma.TransactionClient,
+    scope: LabelScope,
+    labelIds: number[],
+    actorId: number,
+    taskId: number,
+  ): Promise<LabelSummary[]> {
+    const ids = [...new Set(labelIds)];
+    if (!ids.length) return [];
+
+    const labels = await tx.label.findMany({
+      where: { id: { in: ids }, ...this.catalogWhere(scope) },
+      select: LABEL_SELECT,
+      orderBy: { name: 'asc' },
+    });
+
+    if (labels.length !== ids.length) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        actorId,
+        taskId,
+        'LABEL_OUTSIDE_SCOPE',
+      );
+    }
+    return labels;
+  }
+
+  private async recordChange(
+    tx: Prisma.TransactionClient,
+    target: { taskId: number; subTaskId?: number; actorId: number },
+    before: LabelSummary[],
+    after: LabelSummary[],
+  ): Promise<void> {
+    // 操作紀錄只存名稱，標籤之後被刪掉也看得懂
+    const names = (labels: LabelSummary[]) =>
+      labels
+        .map((l) => l.name)
+        .sort()
+        .join(', ');
+
+    const changes = TasksUtils.diffActivityValues(
+      { labels: names(before) },
+      { labels: names(after) },
+      ['labels'],
+    );
+    if (!changes) return;
+
+    await this.taskActivity.record(tx, {
+      ...target,
+      action: TaskActivityAction.UPDATED,
+      ...changes,
+    });
+  }
+
+  private async assertCanManageCatalog(
+    groupId: number,
+    actorId: number,
+  ): Promise<void> {
+    const member = await this.prismaService.groupMember.findUnique({
+      where: { groupId_userId: { groupId, userId: actorId } },
+      select: { role: true },
+    });
+
+    if (!member || !TasksUtils.isAdminish(member.role)) {
+      throw GroupsErrors.GroupActionForbiddenError.manageLabels(
+        groupId,
+        actorId,
+        member?.role,
+      );
+    }
+  }
+}
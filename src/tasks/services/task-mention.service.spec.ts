@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { GroupsService } from 'src/groups/groups.service';
+import { MailService } from 'src/mail/mail.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { TaskMentionService } from './task-mention.service';
+import { TasksUtils } from '../tasks.util';
+
+describe('TaskMentionService', () => {
+  let service: TaskMentionService;
+
+  const mockPrismaService = {
+    task: { findUnique: jest.fn() },
+    taskMention: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+  };
+
+  const mockGroupsService = { listMembersBasic: jest.fn() };
+  const mockMailService = { sendMentionNotification: jest.fn() };
+  const mockConfig = { get: jest.fn().mockReturnValue('http://localhost/') };
+  const mockNotifications = { notify: jest.fn() };
+
+  const members = [
+    { id: 9, name: 'Corgi', email: 'corgi@example.com', role: 'OWNER' },
+    { id: 10, name: 'Ann', email: 'ann@example.com', role: 'MEMBER' },
+    { id: 11, name: 'Ann Lee', email: 'lee@example.com', role: 'MEMBER' },
+  ];
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskMentionService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: GroupsService, useValue: mockGroupsService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfig },
+        { provide: NotificationsService, useValue: mockNotifications },
+      ],
+    }).compile();
+
+    service = module.get(TaskMentionService);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrismaService.task.findUnique.mockResolvedValue({
+      id: 1,
+      title: 'Ship it',
+      groupId: 3,
+      group: { name: 'Corgi Club' },
+    });
+    mockGroupsService.listMembersBasic.mockResolvedValue(members);
+    mockPrismaService.taskMention.findMany.mockResolvedValue([]);
+  });
+
+  describe('TasksUtils.splitMentions', () => {
+    it('prefers the longest member name and keeps the rest as text', () => {
+      expect(
+        TasksUtils.splitMentions('ping @ann lee and @Ann.', members),
+      ).toEqual([
+        { text: 'ping ' },
+        { text: '@ann lee', userId: 11 },
+        { text: ' and ' },
+        { text: '@Ann', userId: 10 },
+        { text: '.' },
+      ]);
+    });
+
+    it('ignores emails, partial names and unknown people', () => {
+      expect(
+        TasksUtils.splitMentions(
+          'mail ann@corgi.io, @Annabel or @Nobody',
+          members,
+        ),
+      ).toEqual([{ text: 'mail ann@corgi.io, @Annabel or @Nobody' }]);
+    });
+  });
+
+  describe('recordMentions', () => {
+    it('saves one mention per member and skips the author', async () => {
+      const notified = await service.recordMentions(
+        { taskId: 1, commentId: 20, actorId: 9 },
+        '@Ann @Corgi @Ann again',
+      );
+
+      expect(mockGroupsService.listMembersBasic).toHaveBeenCalledWith(3);
+      expect(notified).toEqual([10]);
+      expect(mockPrismaService.taskMention.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            taskId: 1,
+            subTaskId: null,
+            commentId: 20,
+            mentionedUserId: 10,
+            mentionedById: 9,
+          },
+        ],
+      });
+      expect(mockNotifications.notify).toHaveBeenCalledWith([
+        {
+          userId: 10,
+          actorId: 9,
+          type: 'MENTIONED',
+          title: 'Corgi mentioned you in "Ship it"',
+          body: '@Ann @Corgi @Ann again',
+          url: '/tasks/1',
+          groupId: 3,
+          taskId: 1,
+          subTaskId: null,
+        },
+      ]);
+      expect(mockMailService.sendMentionNotification).not.toHaveBeenCalled();
+    });
+
+    it('does not notify the same member twice for the same source', async () => {
+      mockPrismaService.taskMention.findMany.mockResolvedValue([
+        { mentionedUserId: 10 },
+      ]);
+
+      const notified = await service.recordMentions(
+        { taskId: 1, actorId: 9 },
+        'cc @Ann',
+      );
+
+      expect(notified).toEqual([]);
+      expect(mockPrismaService.taskMention.createMany).not.toHaveBeenCalled();
+      expect(mockNotifications.notify).not.toHaveBeenCalled();
+    });
+
+    it('ignores personal tasks', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 1,
+        title: 'Mine',
+        groupId: null,
+        group: null,
+      });
+
+      await expect(
+        service.recordMentions({ taskId: 1, actorId: 9 }, '@Ann'),
+      ).resolves.toEqual([]);
+      expect(mockGroupsService.listMembersBasic).not.toHaveBeenCalled();
+    });
+
+    it('emails newly mentioned members with a link to the sub-task', async () => {
+      await service.recordMentions(
+        { taskId: 1, subTaskId: 5, actorId: 9, sendEmail: true },
+        'hey @Ann Lee',
+      );
+
+      expect(mockMailService.sendMentionNotification).toHaveBeenCalledWith({
+        recipientId: 11,
+        email: 'lee@example.com',
+        recipientName: 'Ann Lee',
+        actorName: 'Corgi',
+        groupName: 'Corgi Club',
+        taskTitle: 'Ship it',
+        excerpt: 'hey @Ann Lee',
+        taskUrl: 'http://localhost/tasks/1/sub-tasks/5',
+      });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { GroupsService } from 'src/groups/groups.service';
+import { MailService } from 'src/mail/mail.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
+import { NotificationType } from 'src/generated/prisma/enums';
+import { TasksUtils } from '../tasks.util';
+import { MentionSource } from '../types/tasks';
+
+@Injectable()
+export class TaskMentionService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly groupsService: GroupsService,
+    private readonly mailService: MailService,
+    private readonly config: ConfigService,
+    private readonly notifications: NotificationsService,
+  ) {}
+
+  async recordMentions(
+    source: MentionSource,
+    text: string | null | undefined,
+  ): Promise<number[]> {
+    /**
+     * Saves a mention notification for every group member mentioned as `@name` in a
+     * task / sub-task description or in a comment.
+     * * @description
+     * 1. **Resolution**: Names are matched (case-insensitively) against the current
+     * members of the task's group, so non-members and people who already left the
+     * group are ignored. Personal tasks have nobody to mention.
+     * 2. **Once per Source**: Editing a description or comment only notifies members
+     * who were not mentioned in that same description or comment before. Mentioning
+     * yourself is ignored.
+     * 3. **Notifications**: Newly mentioned members get a notification, and with
+     * `sendEmail` an email as well — unless they turned mention emails off.
+     * * @param source - Where the text lives and who wrote it.
+     * @param text - The saved description or comment body.
+     * @returns The ids of the members who were notified.
+     */
+    if (!text) return [];
+
+    const task = await this.prismaService.task.findUnique({
+      where: { id: source.taskId },
+      select: {
+        id: true,
+        title: true,
+        groupId: true,
+        group: { select: { name: true } },
+      },
+    });
+    if (!task?.groupId) return [];
+
+    const members = await this.groupsService.listMembersBasic(task.groupId);
+    const mentionedIds = [
+      ...new Set(
+        TasksUtils.splitMentions(text, members)
+          .map((s) => s.userId)
+          .filter((id): id is number => !!id && id !== source.actorId),
+      ),
+    ];
+    if (!mentionedIds.length) return [];
+
+    const subTaskId = source.subTaskId ?? null;
+    const commentId = source.commentId ?? null;
+    const existing = await this.prismaService.taskMention.findMany({
+      where: {
+        taskId: task.id,
+        subTaskId,
+        commentId,
+        mentionedUserId: { in: mentionedIds },
+      },
+      select: { mentionedUserId: true },
+    });
+    const notified = new Set(existing.map((m) => m.mentionedUserId));
+    const freshIds = mentionedIds.filter((id) => !notified.has(id));
+    if (!freshIds.length) return [];
+
+    await this.prismaService.taskMention.createMany({
+      data: freshIds.map((mentionedUserId) => ({
+        taskId: task.id,
+        subTaskId,
+        commentId,
+        mentionedUserId,
+        mentionedById: source.actorId,
+      })),
+    });
+
+    const actorName =
+      members.find((m) => m.id === source.actorId)?.name ?? 'A member';
+    const taskPath = subTaskId
+      ? `tasks/${task.id}/sub-tasks/${subTaskId}`
+      : `tasks/${task.id}`;
+
+    await this.notifications.notify(
+      freshIds.map((userId) => ({
+        userId,
+        actorId: source.actorId,
+        type: NotificationType.MENTIONED,
+        title: `${actorName} mentioned you in "${task.title}"`,
+        body: text,
+        url: `/${taskPath}`,
+        groupId: task.groupId,
+        taskId: task.id,
+        subTaskId,
+      })),
+    );
+
+    if (source.sendEmail) {
+      const taskUrl = `${this.config.get('BASE_URL')}${taskPath}`;
+
+      for (const member of members.filter((m) => freshIds.includes(m.id))) {
+        await this.mailService.sendMentionNotification({
+          recipientId: member.id,
+          email: member.email,
+          recipientName: member.name,
+          actorName,
+          groupName: task.group?.name ?? '',
+          taskTitle: task.title,
+          excerpt: text,
+          taskUrl,
+        });
+      }
+    }
+
+    return freshIds;
+  }
+}
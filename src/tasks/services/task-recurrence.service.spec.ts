@@ -0,0 +1,377 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  RecurrenceFrequency,
+  type TaskRecurrence,
+} from 'src/generated/prisma/client';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { createMockTask } from 'src/test/factories/mock-task.factory';
+import { TaskUpdatePayload } from '../types/tasks';
+
+describe('TaskRecurrenceService', () => {
+  let service: TaskRecurrenceService;
+
+  const mockTx = {
+    task: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    taskRecurrence: {
+      update: jest.fn(),
+    },
+  };
+
+  const createRecurrence = (
+    overrides: Partial<TaskRecurrence> = {},
+  ): TaskRecurrence => ({
+    id: 7,
+    frequency: RecurrenceFrequency.WEEKLY,
+    interval: 1,
+    byWeekday: [1, 3],
+    byMonthDay: null,
+    bySetPos: null,
+    untilDate: null,
+    count: null,
+    title: 'weekly chores',
+    description: null,
+    location: null,
+    priority: 3,
+    allDay: false,
+    dueTime: '09:00',
+    timeZone: 'Asia/Taipei',
+    createdAt: new Date('2026-10-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-10-01T00:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TaskRecurrenceService],
+    }).compile();
+
+    service = module.get(TaskRecurrenceService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // spawnNextOccurrence
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('spawnNextOccurrence', () => {
+    const mockInstance = (
+      recurrence: TaskRecurrence,
+      occurrenceDate: string,
+      recurrenceIndex = 1,
+      subTasks: any[] = [],
+    ) => ({
+      ...createMockTask({
+        id: 10,
+        groupId: 3,
+        recurrenceId: recurrence.id,
+        recurrenceIndex,
+        occurrenceDate: new Date(`${occurrenceDate}T00:00:00.000Z`),
+      }),
+      recurrence,
+      subTasks,
+    });
+
+    it('creates the next weekly instance in the series time zone and shifts sub-tasks', async () => {
+      const subTask = {
+        title: 'take out trash',
+        description: null,
+        location: null,
+        priority: 2,
+        allDay: true,
+        allDayLocalDate: new Date('2026-10-19T00:00:00.000Z'),
+        dueAtUtc: new Date('2026-10-19T15:59:59.999Z'),
+        sourceTimeZone: 'Asia/Taipei',
+      };
+      // 2026-10-19 is a Monday, next is Wednesday
+      mockTx.task.findUnique
+        .mockResolvedValueOnce(
+          mockInstance(createRecurrence(), '2026-10-19', 1, [subTask]),
+        )
+        .mockResolvedValueOnce(null);
+
+      await service.spawnNextOccurrence(mockTx as any, 10);
+
+      expect(mockTx.task.findUnique).toHaveBeenNthCalledWith(2, {
+        where: {
+          recurrenceId_recurrenceIndex: { recurrenceId: 7, recurrenceIndex: 2 },
+        },
+        select: { id: true },
+      });
+
+      const [{ data }] = mockTx.task.create.mock.calls[0];
+      expect(data).toMatchObject({
+        title: 'weekly chores',
+        allDay: false,
+        dueAtUtc: new Date('2026-10-21T01:00:00.000Z'),
+        allDayLocalDate: null,
+        sourceTimeZone: 'Asia/Taipei',
+        owner: { connect: { id: 1 } },
+        group: { connect: { id: 3 } },
+        recurrence: { connect: { id: 7 } },
+        recurrenceIndex: 2,
+        occurrenceDate: new Date('2026-10-21T00:00:00.000Z'),
+      });
+      expect(data.subTasks.create).toEqual([
+        expect.objectContaining({
+          title: 'take out trash',
+          allDay: true,
+          allDayLocalDate: new Date('2026-10-21T00:00:00.000Z'),
+        }),
+      ]);
+    });
+
+    it('keeps the local due time across a DST change', async () => {
+      const recurrence = createRecurrence({
+        frequency: RecurrenceFrequency.DAILY,
+        byWeekday: [],
+        timeZone: 'America/New_York',
+      });
+      mockTx.task.findUnique
+        .mockResolvedValueOnce(mockInstance(recurrence, '2026-10-31'))
+        .mockResolvedValueOnce(null);
+
+      await service.spawnNextOccurrence(mockTx as any, 10);
+
+      const [{ data }] = mockTx.task.create.mock.calls[0];
+      // EDT (UTC-4) on 10/31, EST (UTC-5) on 11/01
+      expect(data.dueAtUtc).toEqual(new Date('2026-11-01T14:00:00.000Z'));
+    });
+
+    it.each([
+      [
+        'the last Friday of the month',
+        {
+          frequency: RecurrenceFrequency.MONTHLY,
+          byWeekday: [5],
+          bySetPos: -1,
+        },
+        '2026-10-30',
+        '2026-11-27',
+      ],
+      [
+        'day 31, clamped to the end of February',
+        {
+          frequency: RecurrenceFrequency.MONTHLY,
+          byWeekday: [],
+          byMonthDay: 31,
+        },
+        '2026-01-31',
+        '2026-02-28',
+      ],
+      [
+        'every 2 weeks on Monday',
+        { frequency: RecurrenceFrequency.WEEKLY, interval: 2, byWeekday: [1] },
+        '2026-10-19',
+        '2026-11-02',
+      ],
+    ])(
+      'schedules monthly/weekly rules: %s',
+      async (_label, rule, anchor, expected) => {
+        mockTx.task.findUnique
+          .mockResolvedValueOnce(
+            mockInstance(
+              createRecurrence({ ...rule, allDay: true, dueTime: null }),
+              anchor,
+            ),
+          )
+          .mockResolvedValueOnce(null);
+
+        await service.spawnNextOccurrence(mockTx as any, 10);
+
+        const [{ data }] = mockTx.task.create.mock.calls[0];
+        expect(data.allDayLocalDate).toEqual(
+          new Date(`${expected}T00:00:00.000Z`),
+        );
+      },
+    );
+
+    it('stops when the count is reached', async () => {
+      mockTx.task.findUnique.mockResolvedValueOnce(
+        mockInstance(createRecurrence({ count: 3 }), '2026-10-19', 3),
+      );
+
+      const result = await service.spawnNextOccurrence(mockTx as any, 10);
+
+      expect(result).toBeNull();
+      expect(mockTx.task.create).not.toHaveBeenCalled();
+    });
+
+    it('stops after the until date', async () => {
+      mockTx.task.findUnique.mockResolvedValueOnce(
+        mockInstance(
+          createRecurrence({
+            untilDate: new Date('2026-10-20T00:00:00.000Z'),
+          }),
+          '2026-10-19',
+        ),
+      );
+
+      const result = await service.spawnNextOccurrence(mockTx as any, 10);
+
+      expect(result).toBeNull();
+      expect(mockTx.task.create).not.toHaveBeenCalled();
+    });
+
+    it('does not create a duplicate when the next instance already exists', async () => {
+      mockTx.task.findUnique
+        .mockResolvedValueOnce(mockInstance(createRecurrence(), '2026-10-19'))
+        .mockResolvedValueOnce({ id: 11 });
+
+      const result = await service.spawnNextOccurrence(mockTx as any, 10);
+
+      expect(result).toBeNull();
+      expect(mockTx.task.create).not.toHaveBeenCalled();
+    });
+
+    it('returns null for a non-recurring task', async () => {
+      mockTx.task.findUnique.mockResolvedValueOnce({
+        ...createMockTask(),
+        recurrence: null,
+        subTasks: [],
+      });
+
+      const result = await service.spawnNextOccurrence(mockTx as any, 1);
+
+      expect(result).toBeNull();
+      expect(mockTx.task.create).not.toHaveBeenCalled();
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // syncSeries
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('syncSeries', () => {
+    const timedTask = createMockTask({
+      id: 10,
+      allDay: false,
+      dueAtUtc: new Date('2026-10-19T01:00:00.000Z'), // 09:00 in Taipei
+    });
+
+    it('starts a new series with the task as the first occurrence', async () => {
+      const payload: TaskUpdatePayload = {
+        recurrenceFrequency: RecurrenceFrequency.WEEKLY,
+        recurrenceWeekdays: [3, 1],
+        recurrenceCount: 5,
+      };
+
+      await service.syncSeries(
+        mockTx as any,
+        timedTask,
+        payload,
+        'Asia/Taipei',
+      );
+
+      expect(mockTx.task.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: {
+          sourceTimeZone: 'Asia/Taipei',
+          occurrenceDate: new Date('2026-10-19T00:00:00.000Z'),
+          recurrenceIndex: 1,
+          recurrence: {
+            create: expect.objectContaining({
+              frequency: RecurrenceFrequency.WEEKLY,
+              interval: 1,
+              byWeekday: [1, 3],
+              count: 5,
+              title: timedTask.title,
+              allDay: false,
+              dueTime: '09:00',
+              timeZone: 'Asia/Taipei',
+            }),
+          },
+        },
+      });
+    });
+
+    it('ignores schedule fields when only this instance is edited', async () => {
+      const recurring = { ...timedTask, recurrenceId: 7, recurrenceIndex: 2 };
+
+      await service.syncSeries(
+        mockTx as any,
+        recurring,
+        {
+          recurrenceScope: 'THIS',
+          recurrenceFrequency: RecurrenceFrequency.DAILY,
+        },
+        'Asia/Taipei',
+      );
+
+      expect(mockTx.task.update).not.toHaveBeenCalled();
+      expect(mockTx.taskRecurrence.update).not.toHaveBeenCalled();
+    });
+
+    it('updates the template and rule for all future instances', async () => {
+      const recurring = { ...timedTask, recurrenceId: 7, recurrenceIndex: 2 };
+
+      await service.syncSeries(
+        mockTx as any,
+        recurring,
+        {
+          recurrenceScope: 'FUTURE',
+          recurrenceFrequency: RecurrenceFrequency.MONTHLY,
+          recurrenceMonthlyMode: 'NTH_WEEKDAY',
+        },
+        'Asia/Taipei',
+      );
+
+      expect(mockTx.taskRecurrence.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({
+          frequency: RecurrenceFrequency.MONTHLY,
+          byWeekday: [1], // Monday, from the due date
+          bySetPos: 3, // 2026-10-19 is the 3rd Monday
+          dueTime: '09:00',
+        }),
+      });
+      expect(mockTx.task.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: {
+          sourceTimeZone: 'Asia/Taipei',
+          occurrenceDate: new Date('2026-10-19T00:00:00.000Z'),
+        },
+      });
+    });
+
+    it('detaches the instance when the series is ended', async () => {
+      const recurring = { ...timedTask, recurrenceId: 7, recurrenceIndex: 2 };
+
+      await service.syncSeries(
+        mockTx as any,
+        recurring,
+        { recurrenceScope: 'FUTURE', recurrenceFrequency: 'NONE' },
+        'Asia/Taipei',
+      );
+
+      expect(mockTx.task.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: {
+          recurrence: { disconnect: true },
+          recurrenceIndex: null,
+          occurrenceDate: null,
+        },
+      });
+      expect(mockTx.taskRecurrence.update).not.toHaveBeenCalled();
+    });
+
+    it('throws RECURRENCE_REQUIRES_DUE_DATE when the task has no due date', async () => {
+      await expect(
+        service.syncSeries(
+          mockTx as any,
+          createMockTask(),
+          { recurrenceFrequency: RecurrenceFrequency.DAILY },
+          'Asia/Taipei',
+        ),
+      ).rejects.toThrow(
+        expect.objectContaining({ action: 'RECURRENCE_REQUIRES_DUE_DATE' }),
+      );
+    });
+  });
+});
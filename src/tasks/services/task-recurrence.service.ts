@@ -0,0 +1,243 @@
+import { Injectable } from '@nestjs/common';
+import { formatInTimeZone } from 'date-fns-tz';
+import {
+  Prisma,
+  SubTask,
+  Task,
+  TaskRecurrence,
+} from 'src/generated/prisma/client';
+import { TasksErrors } from 'src/errors';
+import { TaskUpdatePayload } from '../types/tasks';
+import { TasksUtils } from '../tasks.util';
+
+type RecurrenceTemplate = Pick<
+  TaskRecurrence,
+  | 'title'
+  | 'description'
+  | 'location'
+  | 'priority'
+  | 'allDay'
+  | 'dueTime'
+  | 'timeZone'
+>;
+
+@Injectable()
+export class TaskRecurrenceService {
+  async spawnNextOccurrence(
+    tx: Prisma.TransactionClient,
+    taskId: number,
+  ): Promise<Task | null> {
+    /**
+     * Generates the next instance of a recurring task.
+     * * @description
+     * Designed to run inside the transaction that closes the current instance:
+     * 1. **Schedule**: The next local date is computed from the instance's `occurrenceDate`
+     * (not its due date, so a one-off reschedule does not drift the series).
+     * 2. **Time Zone**: The due time is rebuilt from the series template in its `timeZone`
+     * (the task's `sourceTimeZone`), so "every Monday 09:00" stays 09:00 across DST changes.
+     * 3. **Sub-tasks**: Sub-tasks are copied as fresh OPEN items (no assignees),
+     * shifted by the same number of days as the parent.
+     * 4. **Idempotency**: If the next index already exists (closed → restored → closed again),
+     * nothing is created.
+     * * @param tx - The active Prisma Transaction Client.
+     * @param taskId - The instance being closed.
+     * @returns The created instance, or null when the task is not recurring or the series ended.
+     */
+    const task = await tx.task.findUnique({
+      where: { id: taskId },
+      include: { recurrence: true, subTasks: true },
+    });
+
+    if (
+      !task?.recurrence ||
+      task.recurrenceIndex == null ||
+      !task.occurrenceDate
+    ) {
+      return null;
+    }
+
+    const { recurrence } = task;
+    const anchorDate = task.occurrenceDate.toISOString().slice(0, 10);
+    const nextDate = TasksUtils.nextOccurrenceDate(
+      recurrence,
+      anchorDate,
+      task.recurrenceIndex,
+    );
+    if (!nextDate) return null;
+
+    const nextIndex = task.recurrenceIndex + 1;
+    const existing = await tx.task.findUnique({
+      where: {
+        recurrenceId_recurrenceIndex: {
+          recurrenceId: recurrence.id,
+          recurrenceIndex: nextIndex,
+        },
+      },
+      select: { id: true },
+    });
+    if (existing) return null;
+
+    const { dueAtUtc, allDayLocalDate } = TasksUtils.calculateTaskDates(
+      recurrence.allDay,
+      nextDate,
+      recurrence.dueTime,
+      recurrence.timeZone,
+    );
+    const shiftDays = TasksUtils.diffLocalDays(anchorDate, nextDate);
+
+    return tx.task.create({
+      data: {
+        title: recurrence.title,
+        description: recurrence.description,
+        location: recurrence.location,
+        priority: recurrence.priority,
+        allDay: recurrence.allDay,
+        dueAtUtc,
+        allDayLocalDate,
+        sourceTimeZone: recurrence.timeZone,
+        completionPolicy: task.completionPolicy,
+        owner: { connect: { id: task.ownerId } },
+        ...(task.groupId && { group: { connect: { id: task.groupId } } }),
+        recurrence: { connect: { id: recurrence.id } },
+        recurrenceIndex: nextIndex,
+        occurrenceDate: new Date(`${nextDate}T00:00:00.000Z`),
+        subTasks: {
+          create: task.subTasks.map((st) =>
+            this.cloneSubTask(st, shiftDays, recurrence.timeZone),
+          ),
+        },
+      },
+    });
+  }
+
+  async syncSeries(
+    tx: Prisma.TransactionClient,
+    task: Task,
+    payload: TaskUpdatePayload,
+    timeZone: string,
+  ): Promise<void> {
+    /**
+     * Applies the recurrence part of a task update.
+     * * @description
+     * - **Not recurring yet**: A frequency other than 'NONE' starts a new series with this
+     * task as its first occurrence.
+     * - **Scope THIS** (default): Only this instance was changed by the regular update;
+     * the series template and rule are left untouched.
+     * - **Scope FUTURE**: The template and rule are replaced with this instance's values and
+     * the schedule is re-anchored on its due date. Frequency 'NONE' detaches this instance,
+     * ending the series once it is closed.
+     * * @param tx - The active Prisma Transaction Client.
+     * @param task - The task after the regular field update.
+     * @param payload - The update payload holding the recurrence fields.
+     * @param timeZone - The actor's IANA time zone, used when the due date was changed.
+     * @throws {TasksErrors.TaskForbiddenError} Action: 'RECURRENCE_REQUIRES_DUE_DATE'
+     * if the task has no due date to anchor the schedule on.
+     */
+    const frequency = payload.recurrenceFrequency;
+    const scope = payload.recurrenceScope ?? 'THIS';
+
+    if (!task.recurrenceId) {
+      if (!frequency || frequency === 'NONE') return;
+    } else {
+      if (scope !== 'FUTURE') return;
+
+      if (frequency === 'NONE') {
+        await tx.task.update({
+          where: { id: task.id },
+          data: {
+            recurrence: { disconnect: true },
+            recurrenceIndex: null,
+            occurrenceDate: null,
+          },
+        });
+        return;
+      }
+    }
+
+    // The due date was (re)computed in the actor's zone if it was part of this update
+    const seriesTz =
+      payload.dueDate !== undefined
+        ? timeZone
+        : (task.sourceTimeZone ?? timeZone);
+
+    const anchorDate = TasksUtils.getLocalDueDate(task, seriesTz);
+    if (!anchorDate) {
+      throw TasksErrors.TaskForbiddenError.byActorOnTask(
+        task.ownerId,
+        task.id,
+        'RECURRENCE_REQUIRES_DUE_DATE',
+      );
+    }
+
+    const rule = TasksUtils.buildRecurrenceRule(payload, anchorDate);
+    const template = this.templateFrom(task, seriesTz);
+    const anchor = {
+      sourceTimeZone: seriesTz,
+      occurrenceDate: new Date(`${anchorDate}T00:00:00.000Z`),
+    };
+
+    if (!task.recurrenceId) {
+      await tx.task.update({
+        where: { id: task.id },
+        data: {
+          ...anchor,
+          recurrenceIndex: 1,
+          recurrence: { create: { ...rule!, ...template } },
+        },
+      });
+      return;
+    }
+
+    await tx.taskRecurrence.update({
+      where: { id: task.recurrenceId },
+      data: { ...(rule ?? {}), ...template },
+    });
+    await tx.task.update({ where: { id: task.id }, data: anchor });
+  }
+
+  private templateFrom(task: Task, timeZone: string): RecurrenceTemplate {
+    return {
+      title: task.title,
+      description: task.description,
+      location: task.location,
+      priority: task.priority,
+      allDay: task.allDay,
+      dueTime:
+        !task.allDay && task.dueAtUtc
+          ? formatInTimeZone(task.dueAtUtc, timeZone, 'HH:mm')
+          : null,
+      timeZone,
+    };
+  }
+
+  private cloneSubTask(
+    subTask: SubTask,
+    shiftDays: number,
+    fallbackTz: string,
+  ): Prisma.SubTaskCreateWithoutTaskInput {
+    const tz = subTask.sourceTimeZone ?? fallbackTz;
+    const localDate = TasksUtils.getLocalDueDate(subTask, tz);
+    const localTime =
+      !subTask.allDay && subTask.dueAtUtc
+        ? formatInTimeZone(subTask.dueAtUtc, tz, 'HH:mm')
+        : null;
+
+    const { dueAtUtc, allDayLocalDate } = TasksUtils.calculateTaskDates(
+      subTask.allDay,
+      localDate ? TasksUtils.shiftLocalDate(localDate, shiftDays) : null,
+      localTime,
+      tz,
+    );
+
+    return {
+      title: subTask.title,
+      description: subTask.description,
+      location: subTask.location,
+      priority: subTask.priority,
+      allDay: subTask.allDay,
+      dueAtUtc,
+      allDayLocalDate,
+      sourceTimeZone: subTask.sourceTimeZone,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { TaskSearchService } from './task-search.service';
+
+describe('TaskSearchService', () => {
+  let service: TaskSearchService;
+
+  const mockPrismaService = {
+    $queryRaw: jest.fn(),
+    groupMember: { findMany: jest.fn() },
+  };
+
+  const row = {
+    kind: 'COMMENT',
+    taskId: 1,
+    subTaskId: 2,
+    commentId: 5,
+    status: 'OPEN',
+    priority: 2,
+    dueAtUtc: new Date('2026-10-01T04:30:00Z'),
+    allDay: false,
+    allDayLocalDate: null,
+    groupId: 3,
+    groupName: 'Home',
+    titleHeadline: 'Buy \u0002milk\u0003',
+    snippetHeadline: '\u0002Milk\u0003 and <b>bread</b>',
+  };
+
+  // 把 $queryRaw 的 template 參數攤平，方便檢查 SQL 片段與綁定值
+  const sqlOf = (call: number) =>
+    JSON.stringify(mockPrismaService.$queryRaw.mock.calls[call]);
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskSearchService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get(TaskSearchService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('search', () => {
+    it('returns highlighted hits with links to the matched item', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([row])
+        .mockResolvedValueOnce([{ count: BigInt(1) }]);
+
+      const result = await service.search(1, 'Asia/Taipei', { q: 'milk' });
+
+      expect(result.meta.itemCount).toBe(1);
+      expect(result.data[0]).toEqual(
+        expect.objectContaining({
+          kind: 'COMMENT',
+          title: [
+            { text: 'Buy ', match: false },
+            { text: 'milk', match: true },
+          ],
+          snippet: [
+            { text: 'Milk', match: true },
+            { text: ' and <b>bread</b>', match: false },
+          ],
+          dueLabel: '2026-10-01 12:30',
+          url: '/tasks/1/sub-tasks/2#comment-5',
+        }),
+      );
+    });
+
+    it('searches tasks, sub-tasks and comments the user can see', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ count: BigInt(0) }]);
+
+      await service.search(7, 'UTC', { q: ' milk ' });
+
+      const sql = sqlOf(0);
+      expect(sql).toContain('websearch_to_tsquery');
+      expect(sql).toContain('FROM \\"Task\\" t');
+      expect(sql).toContain('FROM \\"SubTask\\" st');
+      expect(sql).toContain('FROM \\"TaskComment\\" c');
+      expect(sql).toContain('c.\\"deletedAt\\" IS NULL');
+      expect(sql).toContain('GroupMember');
+      expect(mockPrismaService.$queryRaw.mock.calls[0]).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            values: expect.arrayContaining(['milk', 7]),
+          }),
+        ]),
+      );
+    });
+
+    it('applies status, priority, group and due range filters', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ count: BigInt(0) }]);
+
+      await service.search(1, 'Asia/Taipei', {
+        q: 'milk',
+        status: 'OPEN',
+        priority: 2,
+        groupId: 3,
+        dueFrom: '2026-10-01',
+        dueTo: '2026-10-31',
+      });
+
+      const sql = sqlOf(1);
+      expect(sql).toContain('h.status =');
+      expect(sql).toContain('h.priority =');
+      expect(sql).toContain('h.\\"groupId\\" =');
+      expect(sql).toContain('h.\\"allDayLocalDate\\" >=');
+      // 2026-10-01 00:00 in Taipei
+      expect(sql).toContain('2026-09-30T16:00:00.000Z');
+      expect(sql).toContain('2026-10-31T15:59:59.999Z');
+    });
+
+    it('does not query when the search is empty', async () => {
+      const result = await service.search(1, 'UTC', { q: '   ' });
+
+      expect(result.data).toEqual([]);
+      expect(result.meta.itemCount).toBe(0);
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { Injectable } from '@nestjs/common';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Prisma } from 'src/generated/prisma/client';
+import { PageDto } from 'src/common/dto/page.dto';
+import { PageMetaDto } from 'src/common/dto/page-meta.dto';
+import {
+  HighlightSegment,
+  SearchHitKind,
+  TaskSearchHit,
+  TaskSearchOptions,
+} from '../types/tasks';
+import { TaskStatus } from '../types/enum';
+
+// ts_headline 的標記字元：不會出現在一般輸入，切成片段後再交給 view 跳脫
+const MARK_START = '\u0002';
+const MARK_STOP = '\u0003';
+const TITLE_HEADLINE = `StartSel=${MARK_START}, StopSel=${MARK_STOP}, HighlightAll=true`;
+const SNIPPET_HEADLINE = `StartSel=${MARK_START}, StopSel=${MARK_STOP}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+interface SearchRow {
+  kind: SearchHitKind;
+  taskId: number;
+  subTaskId: number | null;
+  commentId: number | null;
+  status: TaskStatus;
+  priority: number;
+  dueAtUtc: Date | null;
+  allDay: boolean;
+  allDayLocalDate: Date | null;
+  groupId: number | null;
+  groupName: string | null;
+  titleHeadline: string;
+  snippetHeadline: string;
+}
+
+@Injectable()
+export class TaskSearchService {
+  constructor(private readonly prismaService: PrismaService) {}
+
+  async search(
+    userId: number,
+    timeZone: string,
+    options: TaskSearchOptions,
+  ): Promise<PageDto<TaskSearchHit>> {
+    /**
+     * Full-text search over the tasks, sub-tasks and comments the user can see.
+     * * @description
+     * 1. **Documents**: Title, description and location of tasks / sub-tasks, and the
+     * body of comments that are not deleted. The expressions match the GIN indexes
+     * created by the `full_text_search` migration.
+     * 2. **Visibility**: Personal tasks of the user, and tasks of every group the user
+     * is still a member of (same `GroupMember` check as `getTasks`).
+     * 3. **Filters**: status, priority, due range and group apply to the matched item;
+     * a comment is filtered by the task / sub-task it belongs to.
+     * 4. **Ranking**: `ts_rank`, then most recently updated.
+     *
+     * @param options.q - Search terms in web search syntax (`"exact phrase"`, `or`, `-exclude`).
+     * @param options.dueFrom - Inclusive start date (YYYY-MM-DD) in the user's time zone.
+     * @param options.dueTo - Inclusive end date (YYYY-MM-DD) in the user's time zone.
+     * * @returns A PageDto of hits with highlighted title and snippet segments.
+     */
+    const { page = 1, limit = 10 } = options;
+    const skip = (page - 1) * limit;
+    const q = options.q?.trim();
+
+    if (!q) {
+      return new PageDto([], new PageMetaDto({ page, limit }, 0));
+    }
+
+    const withHits = this.buildHits(userId, q);
+    const whereFragment = this.buildFilters(timeZone, options);
+
+    const [rows, totalResult] = await Promise.all([
+      this.prismaService.$queryRaw<SearchRow[]>`
+      ${withHits},
+      page AS (
+        SELECT * FROM hits h
+        ${whereFragment}
+        ORDER BY h.rank DESC, h."updatedAt" DESC
+        LIMIT ${limit} OFFSET ${skip}
+      )
+      SELECT p.kind, p."taskId", p."subTaskId", p."commentId", p.status, p.priority,
+        p."dueAtUtc", p."allDay", p."allDayLocalDate", p."groupId",
+        g.name AS "groupName",
+        ts_headline('simple', p.title, sq.query, ${TITLE_HEADLINE}) AS "titleHeadline",
+        ts_headline('simple', p.snippet, sq.query, ${SNIPPET_HEADLINE}) AS "snippetHeadline"
+      FROM page p
+      CROSS JOIN sq
+      LEFT JOIN "Group" g ON g.id = p."groupId"
+      ORDER BY p.rank DESC, p."updatedAt" DESC
+    `,
+      this.prismaService.$queryRaw<{ count: bigint }[]>`
+      ${withHits}
+      SELECT COUNT(*)::bigint AS count FROM hits h
+      ${whereFragment}
+    `,
+    ]);
+
+    const itemCount = Number(totalResult[0]?.count ?? 0);
+    const meta = new PageMetaDto({ page, limit }, itemCount);
+
+    return new PageDto(
+      rows.map((r) => this.toHit(r, timeZone)),
+      meta,
+    );
+  }
+
+  async getGroupOptions(
+    userId: number,
+  ): Promise<{ id: number; name: string }[]> {
+    /**
+     * Groups the user can narrow the search to.
+     */
+    const memberships = await this.prismaService.groupMember.findMany({
+      where: { userId },
+      select: { group: { select: { id: true, name: true } } },
+      orderBy: { group: { name: 'asc' } },
+    });
+    return memberships.map((m) => m.group);
+  }
+
+  private buildHits(userId: number, q: string): Prisma.Sql {
+    // 與 getTasks 相同：個人任務只看自己的，群組任務要還在成員名單內
+    const visible = Prisma.sql`(
+      (t."groupId" IS NULL AND t."ownerId" = ${userId})
+      OR EXISTS (
+        SELECT 1 FROM "GroupMember" gm
+        WHERE gm."groupId" = t."groupId"
+        AND gm."userId" = ${userId}
+      )
+    )`;
+
+    // 留言的篩選欄位跟著它所在的主任務 / 子任務
+    const parent = (column: string) =>
+      Prisma.raw(
+        `CASE WHEN c."subTaskId" IS NULL THEN t."${column}" ELSE st."${column}" END`,
+      );
+
+    return Prisma.sql`
+      WITH sq AS (SELECT websearch_to_tsquery('simple', ${q}) AS query),
+      hits AS (
+        SELECT 'TASK' AS kind, t.id AS "taskId", NULL::int AS "subTaskId", NULL::int AS "commentId",
+          t.title, concat_ws(' · ', t.description, t.location) AS snippet,
+          t.status, t.priority, t."dueAtUtc", t."allDay", t."allDayLocalDate",
+          t."groupId", t."updatedAt",
+          ts_rank(${this.searchDocument('t')}, sq.query) AS rank
+        FROM "Task" t, sq
+        WHERE ${this.searchDocument('t')} @@ sq.query AND ${visible}
+
+        UNION ALL
+
+        SELECT 'SUBTASK', st."taskId", st.id, NULL,
+          st.title, concat_ws(' · ', st.description, st.location),
+          st.status, st.priority, st."dueAtUtc", st."allDay", st."allDayLocalDate",
+          t."groupId", st."updatedAt",
+          ts_rank(${this.searchDocument('st')}, sq.query)
+        FROM "SubTask" st
+        JOIN "Task" t ON t.id = st."taskId", sq
+        WHERE ${this.searchDocument('st')} @@ sq.query AND ${visible}
+
+        UNION ALL
+
+        SELECT 'COMMENT', c."taskId", c."subTaskId", c.id,
+          COALESCE(st.title, t.title), c.body,
+          ${parent('status')}, ${parent('priority')}, ${parent('dueAtUtc')},
+          ${parent('allDay')}, ${parent('allDayLocalDate')},
+          t."groupId", c."updatedAt",
+          ts_rank(to_tsvector('simple'::regconfig, c.body), sq.query)
+        FROM "TaskComment" c
+        JOIN "Task" t ON t.id = c."taskId"
+        LEFT JOIN "SubTask" st ON st.id = c."subTaskId", sq
+        WHERE c."deletedAt" IS NULL
+          AND to_tsvector('simple'::regconfig, c.body) @@ sq.query
+          AND ${visible}
+      )`;
+  }
+
+  private searchDocument(alias: 't' | 'st'): Prisma.Sql {
+    // 必須與 migration 的 Task_search_idx / SubTask_search_idx 完全相同才會走索引
+    return Prisma.raw(
+      `to_tsvector('simple'::regconfig, coalesce(${alias}."title", '') || ' ' || coalesce(${alias}."description", '') || ' ' || coalesce(${alias}."location", ''))`,
+    );
+  }
+
+  private buildFilters(
+    timeZone: string,
+    options: TaskSearchOptions,
+  ): Prisma.Sql {
+    const { status, priority, groupId, dueFrom, dueTo } = options;
+    const conditions: Prisma.Sql[] = [];
+
+    if (status) conditions.push(Prisma.sql`h.status = ${status}`);
+    if (priority) conditions.push(Prisma.sql`h.priority = ${priority}`);
+    if (groupId) conditions.push(Prisma.sql`h."groupId" = ${groupId}`);
+
+    if (dueFrom || dueTo) {
+      // 有時間的看 dueAtUtc（換算使用者時區的整天），全天的直接比日期
+      const timed: Prisma.Sql[] = [Prisma.sql`h."dueAtUtc" IS NOT NULL`];
+      const allDay: Prisma.Sql[] = [
+        Prisma.sql`h."allDayLocalDate" IS NOT NULL`,
+      ];
+
+      if (dueFrom) {
+        const startUtc = fromZonedTime(`${dueFrom}T00:00:00.000`, timeZone);
+        timed.push(Prisma.sql`h."dueAtUtc" >= ${startUtc}`);
+        allDay.push(Prisma.sql`h."allDayLocalDate" >= ${dueFrom}::date`);
+      }
+      if (dueTo) {
+        const endUtc = fromZonedTime(`${dueTo}T23:59:59.999`, timeZone);
+        timed.push(Prisma.sql`h."dueAtUtc" <= ${endUtc}`);
+        allDay.push(Prisma.sql`h."allDayLocalDate" <= ${dueTo}::date`);
+      }
+
+      conditions.push(
+        Prisma.sql`((${Prisma.join(timed, ' AND ')}) OR (${Prisma.join(allDay, ' AND ')}))`,
+      );
+    }
+
+    return conditions.length
+      ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`
+      : Prisma.empty;
+  }
+
+  private toHit(row: SearchRow, timeZone: string): TaskSearchHit {
+    const base = `/tasks/${row.taskId}`;
+    const page = row.subTaskId ? `${base}/sub-tasks/${row.subTaskId}` : base;
+
+    let dueLabel: string | null = null;
+    if (row.allDay && row.allDayLocalDate) {
+      dueLabel = row.allDayLocalDate.toISOString().slice(0, 10);
+    } else if (row.dueAtUtc) {
+      dueLabel = formatInTimeZone(row.dueAtUtc, timeZone, 'yyyy-MM-dd HH:mm');
+    }
+
+    return {
+      kind: row.kind,
+      taskId: row.taskId,
+      subTaskId: row.subTaskId,
+      commentId: row.commentId,
+      title: this.toSegments(row.titleHeadline),
+      snippet: this.toSegments(row.snippetHeadline),
+      status: row.status,
+      priority: row.priority,
+      groupId: row.groupId,
+      groupName: row.groupName,
+      dueLabel,
+      url: row.commentId ? `${page}#comment-${row.commentId}` : page,
+    };
+  }
+
+  private toSegments(headline: string | null): HighlightSegment[] {
+    // "a \u0002b\u0003 c" -> [{a, false}, {b, true}, {c, false}]
+    const segments: HighlightSegment[] = [];
+    for (const part of (headline ?? '').split(MARK_START)) {
+      const [matched, rest] = part.includes(MARK_STOP)
+        ? part.split(MARK_STOP, 2)
+        : [null, part];
+      if (matched) segments.push({ text: matched, match: true });
+      if (rest) segments.push({ text: rest, match: false });
+    }
+    return segments;
+  }
+}
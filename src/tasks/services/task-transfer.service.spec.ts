@@ -0,0 +1,318 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  AssignmentStatus,
+  CompletionPolicy,
+} from 'src/generated/prisma/client';
+import { GroupsErrors, TasksErrors } from 'src/errors';
+import { CurrentUser } from 'src/common/types/current-user';
+import { TaskTransferService } from './task-transfer.service';
+import { TasksService } from './tasks.service';
+import { SubTasksService } from './sub-tasks.service';
+import { CsvUtils } from '../csv.util';
+
+describe('TaskTransferService', () => {
+  let service: TaskTransferService;
+
+  const mockPrismaService = {
+    task: { findMany: jest.fn() },
+    group: { findFirst: jest.fn() },
+  };
+
+  const mockTasksService = {
+    createTask: jest.fn(),
+    assignTask: jest.fn(),
+  };
+
+  const mockSubTasksService = {
+    createSubTask: jest.fn(),
+    assignSubTask: jest.fn(),
+  };
+
+  const user: CurrentUser = {
+    userId: 9,
+    userName: 'test',
+    email: 'test@example.com',
+    timeZone: 'Asia/Taipei',
+  };
+
+  const group = {
+    name: 'Team',
+    members: [
+      { user: { id: 9, email: 'test@example.com' } },
+      { user: { id: 10, email: 'Amy@example.com' } },
+    ],
+  };
+
+  const item = {
+    id: 1,
+    title: 'Write report',
+    status: 'OPEN',
+    priority: 2,
+    description: null,
+    location: null,
+    allDay: false,
+    dueAtUtc: new Date('2026-10-20T01:30:00Z'),
+    allDayLocalDate: null,
+    sourceTimeZone: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    assignees: [
+      {
+        status: AssignmentStatus.ACCEPTED,
+        assignee: { email: 'amy@example.com' },
+      },
+    ],
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskTransferService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksService, useValue: mockTasksService },
+        { provide: SubTasksService, useValue: mockSubTasksService },
+      ],
+    }).compile();
+
+    service = module.get(TaskTransferService);
+  });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // exportTasks
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('exportTasks', () => {
+    beforeEach(() => {
+      mockPrismaService.group.findFirst.mockResolvedValue(group);
+      mockPrismaService.task.findMany.mockResolvedValue([
+        {
+          ...item,
+          completionPolicy: CompletionPolicy.ALL_ASSIGNEES,
+          autoCloseOnComplete: false,
+          subTasks: [
+            {
+              ...item,
+              id: 5,
+              title: 'Collect data',
+              allDay: true,
+              dueAtUtc: null,
+              allDayLocalDate: new Date('2026-10-18T00:00:00Z'),
+              assignees: [],
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('exports a re-importable JSON document in the user time zone', async () => {
+      const file = await service.exportTasks(user, 2, 'json');
+      const doc = JSON.parse(file.body);
+
+      expect(file.fileName).toMatch(/^tasks-group-2-\d{4}-\d{2}-\d{2}\.json$/);
+      expect(doc).toMatchObject({
+        format: 'group-todos.tasks',
+        version: 1,
+        timeZone: 'Asia/Taipei',
+        scope: { groupId: 2, groupName: 'Team' },
+      });
+      expect(doc.tasks[0]).toMatchObject({
+        title: 'Write report',
+        dueDate: '2026-10-20',
+        dueTime: '09:30',
+        assignees: [{ email: 'amy@example.com', status: 'ACCEPTED' }],
+        completionPolicy: 'ALL_ASSIGNEES',
+      });
+      expect(doc.tasks[0].subTasks[0]).toMatchObject({
+        title: 'Collect data',
+        allDay: true,
+        dueDate: '2026-10-18',
+        dueTime: null,
+      });
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { groupId: 2 } }),
+      );
+    });
+
+    it('exports one CSV row per task and sub-task', async () => {
+      const file = await service.exportTasks(user, 2, 'csv');
+      const [header, task, sub] = CsvUtils.parse(file.body);
+
+      expect(header.slice(0, 4)).toEqual(['type', 'ref', 'parentRef', 'title']);
+      expect(task.slice(0, 4)).toEqual(['TASK', '1', '', 'Write report']);
+      expect(sub.slice(0, 4)).toEqual(['SUBTASK', '1.1', '1', 'Collect data']);
+      expect(task[header.indexOf('assignees')]).toBe('amy@example.com');
+    });
+
+    it('throws GroupNotFoundError for non-members', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValueOnce(null);
+
+      await expect(service.exportTasks(user, 2, 'json')).rejects.toBeInstanceOf(
+        GroupsErrors.GroupNotFoundError,
+      );
+    });
+  });
+
+  // ───────────────────────────────────────────────────────────────────────────────
+  // importTasks
+  // ───────────────────────────────────────────────────────────────────────────────
+
+  describe('importTasks', () => {
+    it('imports valid CSV rows and reports the failing ones', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(group);
+      mockTasksService.createTask.mockResolvedValueOnce({ id: 100 });
+      mockSubTasksService.createSubTask.mockResolvedValueOnce({ id: 200 });
+
+      const csv = [
+        'type,ref,parentRef,title,status,priority,allDay,dueDate,dueTime,assignees',
+        'TASK,1,,Write report,open,2,false,2026-10-20,09:30,amy@example.com;bob@example.com',
+        'SUBTASK,1.1,1,Collect data,,,true,2026-10-18,,',
+        'TASK,2,,Broken,DONE,,,,,',
+        'SUBTASK,2.1,2,Orphan,,,,,,',
+      ].join('\n');
+
+      const report = await service.importTasks(user, 2, 'tasks.csv', csv);
+
+      expect(report).toMatchObject({
+        groupName: 'Team',
+        error: null,
+        created: 2,
+        failed: 2,
+      });
+      expect(mockTasksService.createTask).toHaveBeenCalledTimes(1);
+      expect(mockTasksService.createTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Write report',
+          status: 'OPEN',
+          priority: 2,
+          allDay: false,
+          dueDate: '2026-10-20',
+          dueTime: '09:30',
+          userId: 9,
+        }),
+        2,
+      );
+      expect(mockSubTasksService.createSubTask).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Collect data',
+          allDay: true,
+          dueDate: '2026-10-18',
+          dueTime: null,
+          parentTaskId: 100,
+          actorId: 9,
+        }),
+      );
+      expect(mockTasksService.assignTask).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 100, assigneeId: 10, assignerId: 9 }),
+      );
+      expect(report.rows[0].messages).toEqual([
+        'bob@example.com is not a member of this group.',
+      ]);
+      expect(report.rows[2]).toMatchObject({ label: 'Row 4', ok: false });
+      expect(report.rows[2].messages[0]).toMatch(/status/);
+      expect(report.rows[3].messages).toEqual([
+        'Parent task "2" was not imported.',
+      ]);
+    });
+
+    it('skips closed and archived rows instead of creating them closed', async () => {
+      mockTasksService.createTask.mockResolvedValueOnce({ id: 100 });
+      const doc = {
+        tasks: [
+          {
+            title: 'Done already',
+            status: 'CLOSED',
+            subTasks: [{ title: 'A' }],
+          },
+          { title: 'Old', status: 'ARCHIVED' },
+          { title: 'Still open', status: 'OPEN' },
+        ],
+      };
+
+      const report = await service.importTasks(
+        user,
+        null,
+        'tasks.json',
+        JSON.stringify(doc),
+      );
+
+      expect(report).toMatchObject({ created: 1, failed: 3 });
+      expect(report.rows[0].messages).toEqual([
+        'Only OPEN tasks can be imported (status is CLOSED); close or archive it after importing.',
+      ]);
+      expect(report.rows[1].messages).toEqual([
+        'Parent task "0" was not imported.',
+      ]);
+      expect(mockTasksService.createTask).toHaveBeenCalledTimes(1);
+      expect(mockTasksService.createTask).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Still open', status: 'OPEN' }),
+        null,
+      );
+    });
+
+    it('converts JSON due times from the file time zone', async () => {
+      mockTasksService.createTask.mockResolvedValueOnce({ id: 100 });
+      const doc = {
+        timeZone: 'America/New_York',
+        tasks: [
+          {
+            title: 'Call',
+            allDay: false,
+            dueDate: '2026-10-20',
+            dueTime: '09:00',
+            assignees: [{ email: 'amy@example.com' }],
+          },
+        ],
+      };
+
+      const report = await service.importTasks(
+        user,
+        null,
+        'tasks.json',
+        JSON.stringify(doc),
+      );
+
+      expect(mockTasksService.createTask).toHaveBeenCalledWith(
+        expect.objectContaining({ dueDate: '2026-10-20', dueTime: '21:00' }),
+        null,
+      );
+      expect(report.rows[0]).toMatchObject({
+        ok: true,
+        messages: ['Assignees are ignored for personal tasks.'],
+      });
+    });
+
+    it('reports assignment errors without failing the row', async () => {
+      mockPrismaService.group.findFirst.mockResolvedValue(group);
+      mockTasksService.createTask.mockResolvedValueOnce({ id: 100 });
+      mockTasksService.assignTask.mockRejectedValueOnce(
+        TasksErrors.TaskForbiddenError.byActorOnTask(9, 100, 'ASSIGN'),
+      );
+
+      const report = await service.importTasks(
+        user,
+        2,
+        'tasks.json',
+        JSON.stringify({
+          tasks: [{ title: 'A', assignees: ['amy@example.com'] }],
+        }),
+      );
+
+      expect(report.created).toBe(1);
+      expect(report.rows[0].messages[0]).toMatch(
+        /^Could not assign amy@example.com/,
+      );
+    });
+
+    it('reports an unreadable file', async () => {
+      const report = await service.importTasks(user, null, 'x.json', '{ nope');
+
+      expect(report.error).toBe('The file is not valid JSON.');
+      expect(mockTasksService.createTask).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,576 @@
+import { Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { CurrentUser } from 'src/common/types/current-user';
+import { buildTaskVM } from 'src/common/helpers/util';
+import { GroupsErrors } from 'src/errors';
+import { isDomainError } from 'src/errors/domain-error.base';
+import { TasksService } from './tasks.service';
+import { SubTasksService } from './sub-tasks.service';
+import { TasksAddDto, SubTasksAddDto } from '../dto/tasks.dto';
+import { TaskStatus } from '../types/enum';
+import { CsvUtils } from '../csv.util';
+import { ICalUtils } from '../ical.util';
+import {
+  TaskTransferDocument,
+  TaskTransferFormat,
+  TaskTransferItem,
+  TaskTransferReport,
+  TaskTransferRow,
+  TaskTransferRowResult,
+} from '../types/tasks';
+
+// 一次匯入的上限（任務 + 子任務）
+export const MAX_TRANSFER_ROWS = 1000;
+
+const CSV_COLUMNS = [
+  'type',
+  'ref',
+  'parentRef',
+  'title',
+  'status',
+  'priority',
+  'description',
+  'location',
+  'allDay',
+  'dueDate',
+  'dueTime',
+  'timeZone',
+  'completionPolicy',
+  'autoCloseOnComplete',
+  'assignees',
+] as const;
+
+// 匯入時交給 DTO 驗證的欄位；autoCloseOnComplete 等只有主任務有
+const ITEM_FIELDS = [
+  'title',
+  'status',
+  'priority',
+  'description',
+  'location',
+  'allDay',
+  'dueDate',
+  'dueTime',
+] as const;
+const TASK_ONLY_FIELDS = ['completionPolicy', 'autoCloseOnComplete'] as const;
+const BOOLEAN_COLUMNS: readonly string[] = ['allDay', 'autoCloseOnComplete'];
+
+const ITEM_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  priority: true,
+  description: true,
+  location: true,
+  allDay: true,
+  dueAtUtc: true,
+  allDayLocalDate: true,
+  sourceTimeZone: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+const CURRENT_ASSIGNEES = {
+  where: { isCurrent: true },
+  select: { status: true, assignee: { select: { email: true } } },
+  orderBy: { assignedAt: 'asc' },
+} as const;
+
+@Injectable()
+export class TaskTransferService {
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly tasksService: TasksService,
+    private readonly subTasksService: SubTasksService,
+  ) {}
+
+  async exportTasks(
+    user: CurrentUser,
+    groupId: number | null,
+    format: TaskTransferFormat,
+  ): Promise<{ fileName: string; contentType: string; body: string }> {
+    /**
+     * Exports every task of a group (or the user's personal tasks) with their
+     * sub-tasks and current assignees.
+     * * @description
+     * Due dates are written as local date / time in the exporter's time zone, the
+     * same shape the create form uses; the zone is recorded next to them so an
+     * import from another zone keeps the same instant.
+     * - **json**: `TaskTransferDocument`, the format meant for backups and re-import.
+     * - **csv**: One row per task / sub-task; sub-task rows point at their task's
+     * `ref`. Assignees are a `;` separated list of emails.
+     * * @throws {GroupsErrors.GroupNotFoundError} When the user is not a member of the group.
+     */
+    const doc = await this.buildDocument(user, groupId);
+    const baseName = `tasks-${doc.scope.groupId ? `group-${doc.scope.groupId}` : 'personal'}-${doc.exportedAt.slice(0, 10)}`;
+
+    if (format === 'json') {
+      return {
+        fileName: `${baseName}.json`,
+        contentType: 'application/json; charset=utf-8',
+        body: JSON.stringify(doc, null, 2),
+      };
+    }
+
+    const toCells = (
+      item: TaskTransferItem,
+      type: 'TASK' | 'SUBTASK',
+      ref: string,
+      parentRef: string,
+      extra: { completionPolicy?: string; autoCloseOnComplete?: boolean },
+    ): string[] => {
+      const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+        type,
+        ref,
+        parentRef,
+        title: item.title,
+        status: item.status,
+        priority: String(item.priority),
+        description: item.description ?? '',
+        location: item.location ?? '',
+        allDay: String(item.allDay),
+        dueDate: item.dueDate ?? '',
+        dueTime: item.dueTime ?? '',
+        timeZone: doc.timeZone,
+        completionPolicy: extra.completionPolicy ?? '',
+        autoCloseOnComplete:
+          extra.autoCloseOnComplete === undefined
+            ? ''
+            : String(extra.autoCloseOnComplete),
+        assignees: item.assignees.map((a) => a.email).join(';'),
+      };
+      return CSV_COLUMNS.map((c) => values[c]);
+    };
+
+    const rows: string[][] = [[...CSV_COLUMNS]];
+    doc.tasks.forEach((task, i) => {
+      const ref = String(i + 1);
+      rows.push(toCells(task, 'TASK', ref, '', task));
+      task.subTasks.forEach((sub, j) =>
+        rows.push(toCells(sub, 'SUBTASK', `${ref}.${j + 1}`, ref, {})),
+      );
+    });
+
+    return {
+      fileName: `${baseName}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      body: CsvUtils.stringify(rows),
+    };
+  }
+
+  async importTasks(
+    user: CurrentUser,
+    groupId: number | null,
+    fileName: string,
+    content: string,
+  ): Promise<TaskTransferReport> {
+    /**
+     * Imports a CSV or JSON export into a group (or the user's personal tasks).
+     * * @description
+     * 1. **Rows**: Each task / sub-task is validated with the same rules as
+     * `TasksAddDto` / `SubTasksAddDto` and created through `TasksService.createTask` /
+     * `SubTasksService.createSubTask`. A failing row is reported and skipped; the
+     * rest of the file is still imported. Sub-tasks of a failed task fail too.
+     * 2. **Assignees**: Emails are matched against the target group's members and
+     * assigned as a new (PENDING) round; the exported assignment status is not
+     * restored. Unknown emails and assignment errors (e.g. the importer is not an
+     * admin) are reported on the row without undoing the created task.
+     * 3. **Time zones**: Timed due dates written in another zone are converted into
+     * the importer's zone so the instant is preserved.
+     * 4. **Status**: Only OPEN rows (or rows without a status) are imported. Closing and
+     * archiving go through their own service paths (`closedAt`, activity log, assignment
+     * clean-up), so CLOSED / ARCHIVED rows are reported and skipped.
+     * * @throws {GroupsErrors.GroupNotFoundError} When the user is not a member of the group.
+     */
+    const group = groupId
+      ? await this.getGroupForMember(user.userId, groupId)
+      : null;
+    const report: TaskTransferReport = {
+      groupId,
+      groupName: group?.name ?? null,
+      fileName,
+      error: null,
+      created: 0,
+      failed: 0,
+      rows: [],
+    };
+
+    let rows: TaskTransferRow[];
+    try {
+      const text = content.replace(/^\uFEFF/, '');
+      rows = /^\s*[[{]/.test(text) ? this.parseJson(text) : this.parseCsv(text);
+    } catch (e) {
+      report.error =
+        e instanceof Error ? e.message : 'The file could not be read.';
+      return report;
+    }
+    if (!rows.length) {
+      report.error = 'The file does not contain any tasks.';
+      return report;
+    }
+    if (rows.length > MAX_TRANSFER_ROWS) {
+      report.error = `A file can contain at most ${MAX_TRANSFER_ROWS} tasks and sub-tasks.`;
+      return report;
+    }
+
+    // 匯入的 ref -> 新建立的任務 id
+    const createdTasks = new Map<string, number>();
+
+    for (const row of rows) {
+      const result = await this.importRow(
+        user,
+        groupId,
+        group?.members ?? null,
+        row,
+        createdTasks,
+      );
+      report.rows.push(result);
+      if (result.ok) report.created++;
+      else report.failed++;
+    }
+
+    return report;
+  }
+
+  private async buildDocument(
+    user: CurrentUser,
+    groupId: number | null,
+  ): Promise<TaskTransferDocument> {
+    const group = groupId
+      ? await this.getGroupForMember(user.userId, groupId)
+      : null;
+
+    const tasks = await this.prismaService.task.findMany({
+      where: groupId ? { groupId } : { groupId: null, ownerId: user.userId },
+      select: {
+        ...ITEM_SELECT,
+        completionPolicy: true,
+        autoCloseOnComplete: true,
+        assignees: CURRENT_ASSIGNEES,
+        subTasks: {
+          select: { ...ITEM_SELECT, assignees: CURRENT_ASSIGNEES },
+          orderBy: { id: 'asc' },
+        },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const toItem = (item: (typeof tasks)[number]['subTasks'][number]) => {
+      const vm = buildTaskVM(item, user.timeZone, false);
+      return {
+        title: item.title,
+        status: item.status,
+        priority: item.priority,
+        description: item.description,
+        location: item.location,
+        allDay: item.allDay,
+        dueDate: vm.dueDateLocal,
+        dueTime: vm.dueTimeLocal,
+        assignees: item.assignees.map((a) => ({
+          email: a.assignee.email,
+          status: a.status,
+        })),
+      };
+    };
+
+    return {
+      format: 'group-todos.tasks',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      timeZone: user.timeZone,
+      scope: { groupId, groupName: group?.name ?? null },
+      tasks: tasks.map((task) => ({
+        ...toItem(task),
+        completionPolicy: task.completionPolicy,
+        autoCloseOnComplete: task.autoCloseOnComplete,
+        subTasks: task.subTasks.map(toItem),
+      })),
+    };
+  }
+
+  private async importRow(
+    user: CurrentUser,
+    groupId: number | null,
+    members: Map<string, number> | null,
+    row: TaskTransferRow,
+    createdTasks: Map<string, number>,
+  ): Promise<TaskTransferRowResult> {
+    const title = typeof row.fields.title === 'string' ? row.fields.title : '';
+    const result: TaskTransferRowResult = {
+      label: row.label,
+      type: row.type,
+      title,
+      ok: false,
+      messages: [],
+    };
+
+    const parentTaskId =
+      row.type === 'SUBTASK' && row.parentRef
+        ? createdTasks.get(row.parentRef)
+        : undefined;
+    if (row.type === 'SUBTASK' && !parentTaskId) {
+      result.messages.push(
+        `Parent task "${row.parentRef ?? ''}" was not imported.`,
+      );
+      return result;
+    }
+
+    // 與表單相同的驗證規則（含 ValidationPipe 的隱式型別轉換）
+    const dto =
+      row.type === 'TASK'
+        ? plainToInstance(TasksAddDto, row.fields, {
+            enableImplicitConversion: true,
+          })
+        : plainToInstance(
+            SubTasksAddDto,
+            { ...row.fields, parentTaskId },
+            { enableImplicitConversion: true },
+          );
+    const errors = await validate(dto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+    result.messages.push(
+      ...errors.flatMap((err) => Object.values(err.constraints ?? {})),
+    );
+    if (dto.dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dto.dueDate)) {
+      result.messages.push('dueDate must be formatted as YYYY-MM-DD');
+    }
+    if (dto.dueTime && !/^\d{2}:\d{2}$/.test(dto.dueTime)) {
+      result.messages.push('dueTime must be formatted as HH:mm');
+    }
+    // 不合法的值已經由 DTO 驗證回報
+    if (
+      dto.status === TaskStatus.CLOSED ||
+      dto.status === TaskStatus.ARCHIVED
+    ) {
+      result.messages.push(
+        `Only OPEN tasks can be imported (status is ${dto.status}); close or archive it after importing.`,
+      );
+    }
+    if (result.messages.length) return result;
+
+    const due = this.toImporterZone(dto, row.timeZone, user.timeZone);
+    const common = {
+      title: dto.title,
+      status: TaskStatus.OPEN,
+      priority: dto.priority ?? null,
+      description: dto.description ?? null,
+      allDay: dto.allDay,
+      location: dto.location ?? null,
+      ...due,
+    };
+
+    let createdId: number;
+    try {
+      if (row.type === 'TASK') {
+        const task = await this.tasksService.createTask(
+          {
+            ...common,
+            userId: user.userId,
+            completionPolicy: dto.completionPolicy,
+            autoCloseOnComplete: dto.autoCloseOnComplete,
+          },
+          groupId,
+        );
+        createdId = task.id;
+        createdTasks.set(row.ref, task.id);
+      } else {
+        const subTask = await this.subTasksService.createSubTask({
+          ...common,
+          parentTaskId: parentTaskId!,
+          actorId: user.userId,
+          updatedBy: user.userName,
+          timeZone: user.timeZone,
+        });
+        createdId = subTask.id;
+      }
+    } catch (e) {
+      if (!isDomainError(e)) throw e;
+      result.messages.push(e.message);
+      return result;
+    }
+    result.ok = true;
+
+    if (row.assignees.length && !members) {
+      result.messages.push('Assignees are ignored for personal tasks.');
+      return result;
+    }
+    for (const email of row.assignees) {
+      const assigneeId = members?.get(email.toLowerCase());
+      if (!assigneeId) {
+        result.messages.push(`${email} is not a member of this group.`);
+        continue;
+      }
+      const payload = {
+        id: createdId,
+        assigneeId,
+        assignerId: user.userId,
+        assignerName: user.userName,
+        updatedBy: user.userName,
+      };
+      try {
+        if (row.type === 'TASK') await this.tasksService.assignTask(payload);
+        else await this.subTasksService.assignSubTask(payload);
+      } catch (e) {
+        if (!isDomainError(e)) throw e;
+        result.messages.push(`Could not assign ${email}: ${e.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  private parseJson(text: string): TaskTransferRow[] {
+    let doc: unknown;
+    try {
+      doc = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+    const tasks = (doc as Partial<TaskTransferDocument> | null)?.tasks;
+    if (!Array.isArray(tasks)) {
+      throw new Error('The JSON file does not contain a "tasks" list.');
+    }
+    const timeZone = (doc as TaskTransferDocument).timeZone ?? null;
+
+    const pick = (item: Record<string, unknown>, keys: readonly string[]) =>
+      Object.fromEntries(
+        keys.filter((k) => item[k] != null).map((k) => [k, item[k]]),
+      );
+    const emails = (item: Record<string, unknown>) =>
+      (Array.isArray(item.assignees) ? item.assignees : []).flatMap(
+        (a: unknown) => {
+          const email =
+            typeof a === 'string' ? a : (a as { email?: unknown })?.email;
+          return typeof email === 'string' && email.trim()
+            ? [email.trim()]
+            : [];
+        },
+      );
+
+    return (tasks as unknown[]).flatMap((task, i) => {
+      const item = (task ?? {}) as Record<string, unknown>;
+      const subTasks = Array.isArray(item.subTasks)
+        ? (item.subTasks as Record<string, unknown>[])
+        : [];
+      return [
+        {
+          label: `tasks[${i}]`,
+          type: 'TASK' as const,
+          ref: String(i),
+          parentRef: null,
+          fields: pick(item, [...ITEM_FIELDS, ...TASK_ONLY_FIELDS]),
+          assignees: emails(item),
+          timeZone,
+        },
+        ...subTasks.map((sub, j) => ({
+          label: `tasks[${i}].subTasks[${j}]`,
+          type: 'SUBTASK' as const,
+          ref: `${i}.${j}`,
+          parentRef: String(i),
+          fields: pick(sub ?? {}, ITEM_FIELDS),
+          assignees: emails(sub ?? {}),
+          timeZone,
+        })),
+      ];
+    });
+  }
+
+  private parseCsv(text: string): TaskTransferRow[] {
+    const [header, ...lines] = CsvUtils.parse(text);
+    const columns = (header ?? []).map((h) => h.trim().toLowerCase());
+    if (!columns.includes('title')) {
+      throw new Error('The CSV file needs a header row with a "title" column.');
+    }
+
+    return lines.map((cells, i) => {
+      const get = (name: string) => {
+        const idx = columns.indexOf(name.toLowerCase());
+        const value = idx >= 0 ? (cells[idx] ?? '').trim() : '';
+        return value === '' ? undefined : value;
+      };
+      const type =
+        get('type')?.toUpperCase() === 'SUBTASK' ? 'SUBTASK' : 'TASK';
+      const keys: readonly string[] =
+        type === 'TASK' ? [...ITEM_FIELDS, ...TASK_ONLY_FIELDS] : ITEM_FIELDS;
+      const fields = Object.fromEntries(
+        keys.flatMap((k): [string, unknown][] => {
+          const value = get(k);
+          if (value === undefined) return [];
+          // 隱式轉換會把字串 'false' 變成 true，布林欄位先自己轉
+          if (BOOLEAN_COLUMNS.includes(k)) {
+            return [
+              [k, ['true', '1', 'yes', 'y'].includes(value.toLowerCase())],
+            ];
+          }
+          return [
+            [
+              k,
+              k === 'status' || k === 'completionPolicy'
+                ? value.toUpperCase()
+                : value,
+            ],
+          ];
+        }),
+      );
+
+      return {
+        label: `Row ${i + 2}`, // 第 1 列是標題
+        type,
+        ref: get('ref') ?? `row-${i + 2}`,
+        parentRef: get('parentRef') ?? null,
+        fields,
+        assignees: (get('assignees') ?? '').split(/[;,\s]+/).filter(Boolean),
+        timeZone: get('timeZone') ?? null,
+      };
+    });
+  }
+
+  private toImporterZone(
+    dto: TasksAddDto,
+    fromZone: string | null,
+    toZone: string,
+  ): { dueDate: string | null; dueTime: string | null } {
+    const dueDate = dto.dueDate ?? null;
+    const dueTime = dto.allDay ? null : (dto.dueTime ?? null);
+    if (
+      !dueDate ||
+      !dueTime ||
+      !fromZone ||
+      fromZone === toZone ||
+      !ICalUtils.isKnownTimeZone(fromZone)
+    ) {
+      return { dueDate, dueTime };
+    }
+
+    const instant = fromZonedTime(`${dueDate}T${dueTime}:00`, fromZone);
+    return {
+      dueDate: formatInTimeZone(instant, toZone, 'yyyy-MM-dd'),
+      dueTime: formatInTimeZone(instant, toZone, 'HH:mm'),
+    };
+  }
+
+  private async getGroupForMember(
+    userId: number,
+    groupId: number,
+  ): Promise<{ name: string; members: Map<string, number> }> {
+    const group = await this.prismaService.group.findFirst({
+      where: { id: groupId, members: { some: { userId } } },
+      select: {
+        name: true,
+        members: { select: { user: { select: { id: true, email: true } } } },
+      },
+    });
+    if (!group) throw GroupsErrors.GroupNotFoundError.byId(userId, groupId);
+
+    return {
+      name: group.name,
+      members: new Map(
+        group.members.map((m) => [m.user.email.toLowerCase(), m.user.id]),
+      ),
+    };
+  }
+}
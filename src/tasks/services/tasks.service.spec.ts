@@ -1,6 +1,7 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import {
   AssignmentStatus,
+  CompletionPolicy,
   GroupRole,
   Prisma,
 } from 'src/generated/prisma/client';
@@ -23,6 +24,10 @@ import { createMockUser } from 'src/test/factories/mock-user.factory';
 import { createMockTask } from 'src/test/factories/mock-task.factory';
 import { TaskAssignmentManager } from './task-assignment.service';
 import { TasksHelperService } from './helper.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { TaskMentionService } from './task-mention.service';
+import { TaskActivityService } from './task-activity.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
 import { TasksUtils } from '../tasks.util';
 
 describe('TasksService', () => {
@@ -79,9 +84,24 @@ describe('TasksService', () => {
     }),
   };
 
-  const mockTasksHelper = { notifyTaskChange: jest.fn() };
+  const mockTasksHelper = {
+    notifyTaskChange: jest.fn(),
+    notifyTaskListChange: jest.fn(),
+  };
+
+  const mocktaskAssignmentManager = {
+    execute: jest.fn(),
+    notifyDecision: jest.fn(),
+  };
 
-  const mocktaskAssignmentManager = { execute: jest.fn() };
+  const mockTaskMentions = { recordMentions: jest.fn() };
+  const mockTaskActivity = { record: jest.fn() };
+  const mockNotifications = { notify: jest.fn() };
+
+  const mockTaskRecurrence = {
+    spawnNextOccurrence: jest.fn(),
+    syncSeries: jest.fn(),
+  };
 
   const user: Usermodel = createMockUser();
   const lowTask: TaskModel = createMockTask();
@@ -94,6 +114,10 @@ describe('TasksService', () => {
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: TasksHelperService, useValue: mockTasksHelper },
         { provide: TaskAssignmentManager, useValue: mocktaskAssignmentManager },
+        { provide: TaskRecurrenceService, useValue: mockTaskRecurrence },
+        { provide: TaskMentionService, useValue: mockTaskMentions },
+        { provide: TaskActivityService, useValue: mockTaskActivity },
+        { provide: NotificationsService, useValue: mockNotifications },
       ],
     }).compile();
 
@@ -236,7 +260,8 @@ describe('TasksService', () => {
     // 根據您 service 裡面的 include 結構定義預期的參數
     const expectedInclude = {
       assignees: {
-        // Task Assignees
+        // Task Assignees (只取目前這一輪)
+        where: { isCurrent: true },
         include: {
           assignee: { select: { id: true, name: true, email: true } },
           assignedBy: { select: { id: true, name: true, email: true } },
@@ -246,6 +271,7 @@ describe('TasksService', () => {
         // SubTasks 及其 Assignees
         include: {
           assignees: {
+            where: { isCurrent: true },
             include: {
               assignee: { select: { id: true, name: true, email: true } },
             },
@@ -255,6 +281,7 @@ describe('TasksService', () => {
         orderBy: { priority: 'asc' },
       },
       group: { select: { name: true } }, // Group Name
+      recurrence: true,
     };
 
     // 輔助函式：創建一個完整的 Mock Task 結構
@@ -591,6 +618,27 @@ describe('TasksService', () => {
         10,
       );
     });
+
+    it('should only list ready tasks when readyOnly is set', async () => {
+      const listTaskCoreSpy = jest
+        .spyOn(tasksService as any, 'listTaskCore')
+        .mockResolvedValue({ items: [] });
+
+      await tasksService.getGroupDashboardData(
+        99,
+        { userId: 1, timeZone: 'Asia/Taipei' } as any,
+        { readyOnly: true },
+      );
+
+      expect(listTaskCoreSpy).toHaveBeenNthCalledWith(
+        1,
+        expect.anything(),
+        'Asia/Taipei',
+        { status: ['OPEN'], due: ['EXPIRED'], ready: true },
+        'expiredPriority',
+        5,
+      );
+    });
   });
 
   // ───────────────────────────────────────────────────────────────────────────────
@@ -647,6 +695,38 @@ describe('TasksService', () => {
       expect(fullSqlContent).toContain('allDayLocalDate');
     });
 
+    it('should require every label when labelMode is AND', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ count: BigInt(0) }]);
+
+      await tasksService.getTasks(userId, timeZone, {
+        labels: [3, 4],
+        labelMode: 'AND',
+      });
+
+      const fullSqlContent = JSON.stringify(
+        mockPrismaService.$queryRaw.mock.calls[0],
+      );
+      expect(fullSqlContent).toContain('(SELECT COUNT(*) FROM \\"TaskLabel\\"');
+    });
+
+    it('should match any label by default', async () => {
+      mockPrismaService.$queryRaw
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ count: BigInt(0) }]);
+
+      await tasksService.getTasks(userId, timeZone, { labels: [3] });
+
+      const fullSqlContent = JSON.stringify(
+        mockPrismaService.$queryRaw.mock.calls[0],
+      );
+      expect(fullSqlContent).toContain('EXISTS (SELECT 1 FROM \\"TaskLabel\\"');
+      expect(fullSqlContent).not.toContain(
+        '(SELECT COUNT(*) FROM \\"TaskLabel\\"',
+      );
+    });
+
     it('should calculate skip and limit correctly (pagination logic)', async () => {
       mockPrismaService.$queryRaw
         .mockResolvedValueOnce([])
@@ -741,6 +821,12 @@ describe('TasksService', () => {
       expect(Object.keys(data)).not.toEqual(
         expect.arrayContaining(['ownerId']),
       );
+
+      // 描述有變動時重新解析 @提及
+      expect(mockTaskMentions.recordMentions).toHaveBeenCalledWith(
+        { taskId, actorId: user.id, sendEmail: undefined },
+        'walk your cat',
+      );
     });
 
     it('should updates an all-day task', async () => {
@@ -792,6 +878,27 @@ describe('TasksService', () => {
     //   expect(mockPrismaService.task.update).not.toHaveBeenCalled();
     // });
 
+    it('should pass the updated task and recurrence fields to syncSeries', async () => {
+      const recurringPayload: TaskUpdatePayload = {
+        ...payload,
+        recurrenceScope: 'FUTURE',
+        recurrenceFrequency: 'WEEKLY',
+        recurrenceWeekdays: [1, 3],
+      };
+      const updatedTask = createMockTask({ id: ctx.id });
+      mockPrismaService.task.update.mockResolvedValueOnce(updatedTask);
+
+      await tasksService.updateTask(ctx, recurringPayload);
+
+      expect(mockTaskRecurrence.syncSeries).toHaveBeenCalledWith(
+        mockPrismaService,
+        updatedTask,
+        recurringPayload,
+        ctx.timeZone,
+      );
+      expect(mockTasksHelper.notifyTaskChange).toHaveBeenCalled();
+    });
+
     it('should throws TaskNotFoundError', async () => {
       ctx['id'] = 999;
       const e = new Prisma.PrismaClientKnownRequestError('Unique constraint', {
@@ -853,7 +960,7 @@ describe('TasksService', () => {
 
       it('should update existing assignment status and call notifyTaskChange', async () => {
         // 1. Arrange
-        const existingAssignee = { status: AssignmentStatus.PENDING };
+        const existingAssignee = { id: 3, status: AssignmentStatus.PENDING };
         mockPrismaService.task.findUnique.mockResolvedValue(
           mockTask([existingAssignee]),
         );
@@ -878,7 +985,10 @@ describe('TasksService', () => {
         );
 
         // 3. Assert
-        expect(mockPrismaService.taskAssignee.update).toHaveBeenCalled();
+        expect(mockPrismaService.taskAssignee.update).toHaveBeenCalledWith({
+          where: { id: 3 },
+          data: { status: AssignmentStatus.COMPLETED },
+        });
         expect(mockTasksHelper.notifyTaskChange).toHaveBeenCalledWith(
           taskId,
           actorId,
@@ -886,6 +996,70 @@ describe('TasksService', () => {
           'ASSIGNEE_STATUS_UPDATED',
         );
       });
+
+      it('should auto-close an ANY_ASSIGNEE task on the first completion', async () => {
+        mockPrismaService.task.findUnique.mockResolvedValue({
+          ...mockTask([{ id: 3, status: AssignmentStatus.ACCEPTED }]),
+          recurrenceId: null,
+          completionPolicy: CompletionPolicy.ANY_ASSIGNEE,
+          autoCloseOnComplete: true,
+          _count: { subTasks: 0, blockedBy: 0 },
+        });
+
+        await tasksService.updateAssigneeStatus(
+          taskId,
+          actorId,
+          { status: AssignmentStatus.COMPLETED },
+          'User Name',
+        );
+
+        expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+          where: { id: taskId },
+          data: expect.objectContaining({
+            status: TaskStatus.CLOSED,
+            closedById: actorId,
+            closedWithOpenAssignees: false,
+          }),
+        });
+        expect(mockPrismaService.taskAssignee.updateMany).toHaveBeenCalledWith({
+          where: {
+            taskId,
+            isCurrent: true,
+            status: AssignmentStatus.PENDING,
+          },
+          data: expect.objectContaining({ status: AssignmentStatus.SKIPPED }),
+        });
+        expect(mockTaskActivity.record).toHaveBeenLastCalledWith(
+          mockPrismaService,
+          expect.objectContaining({
+            action: 'STATUS_CHANGED',
+            after: { status: TaskStatus.CLOSED, autoClosed: true },
+          }),
+        );
+        expect(mockTasksHelper.notifyTaskChange).toHaveBeenCalledWith(
+          taskId,
+          actorId,
+          'User Name',
+          'UPDATED',
+        );
+      });
+
+      it('should not auto-close while a sub-task is still open', async () => {
+        mockPrismaService.task.findUnique.mockResolvedValue({
+          ...mockTask([{ id: 3, status: AssignmentStatus.ACCEPTED }]),
+          recurrenceId: null,
+          completionPolicy: CompletionPolicy.ANY_ASSIGNEE,
+          autoCloseOnComplete: true,
+          _count: { subTasks: 1, blockedBy: 0 },
+        });
+
+        await tasksService.updateAssigneeStatus(taskId, actorId, {
+          status: AssignmentStatus.COMPLETED,
+        });
+
+        expect(mockPrismaService.taskAssignee.update).toHaveBeenCalled();
+        expect(mockPrismaService.task.update).not.toHaveBeenCalled();
+      });
     });
 
     describe('Error Cases (Forbidden & Validation)', () => {
@@ -961,6 +1135,7 @@ describe('TasksService', () => {
       mockPrismaService.task.findUnique.mockResolvedValue({
         id: mockTaskId,
         status: TaskStatus.OPEN,
+        assignees: [],
         _count: { subTasks: 0, assignees: 0 },
       });
 
@@ -975,6 +1150,12 @@ describe('TasksService', () => {
       expect(mockPrismaService.task.update).toHaveBeenCalled();
       // 驗證是否有發送 Socket 通知
       expect(mockTasksHelper.notifyTaskChange).toHaveBeenCalled();
+      expect(mockTasksHelper.notifyTaskListChange).toHaveBeenCalledWith(
+        expect.objectContaining({ id: mockTaskId }),
+        mockActorId,
+        mockUserName,
+        'TASK_CLOSED',
+      );
     });
 
     // 2. 測試：觸發 Force Close 理由要求（當有未完成項目且沒給理由時）
@@ -991,6 +1172,7 @@ describe('TasksService', () => {
       mockPrismaService.task.findUnique.mockResolvedValue({
         id: mockTaskId,
         status: TaskStatus.OPEN,
+        assignees: [],
         _count: { subTasks: 1, assignees: 0 },
       });
 
@@ -1012,9 +1194,20 @@ describe('TasksService', () => {
 
       mockPrismaService.task.findUnique.mockResolvedValue({
         id: mockTaskId,
+        title: 'Launch',
         status: TaskStatus.OPEN,
+        ownerId: 7,
+        groupId: 3,
+        assignees: [],
         _count: { subTasks: 5, assignees: 2 },
       });
+      mockPrismaService.taskAssignee.findMany.mockResolvedValue([
+        { assigneeId: 8 },
+        { assigneeId: mockActorId },
+      ]);
+      mockPrismaService.subTaskAssignee.findMany.mockResolvedValue([
+        { assigneeId: 8 },
+      ]);
 
       mockPrismaService.task.update.mockResolvedValue({
         id: mockTaskId,
@@ -1030,6 +1223,33 @@ describe('TasksService', () => {
           data: expect.objectContaining({ closedReason: opts.reason }),
         }),
       );
+
+      // 強制關閉要留下紀錄與理由
+      expect(mockTaskActivity.record).toHaveBeenCalledWith(
+        mockPrismaService,
+        expect.objectContaining({
+          taskId: mockTaskId,
+          actorId: mockActorId,
+          action: 'FORCE_CLOSED',
+          reason: opts.reason,
+        }),
+      );
+
+      // 擁有者與仍在進行中的成員都會收到通知（同一人只一筆，自己則由 notify 略過）
+      const [[sent]] = mockNotifications.notify.mock.calls as [
+        { userId: number }[],
+      ][];
+      expect(sent.map((n) => n.userId)).toEqual([7, 8, mockActorId]);
+      expect(sent[0]).toEqual({
+        userId: 7,
+        actorId: mockActorId,
+        type: 'TASK_FORCE_CLOSED',
+        title: 'Test User force closed "Launch"',
+        body: opts.reason,
+        url: `/tasks/${mockTaskId}`,
+        groupId: 3,
+        taskId: mockTaskId,
+      });
     });
 
     // 4. 測試：拒絕權限（非管理員嘗試在有未完成項目時強制關閉）
@@ -1046,6 +1266,7 @@ describe('TasksService', () => {
       mockPrismaService.task.findUnique.mockResolvedValue({
         id: mockTaskId,
         status: TaskStatus.OPEN,
+        assignees: [],
         _count: { subTasks: 1, assignees: 0 },
       });
 
@@ -1054,7 +1275,151 @@ describe('TasksService', () => {
       );
     });
 
+    it('should spawn the next occurrence when closing a recurring task', async () => {
+      const ctx = {
+        id: mockTaskId,
+        userId: mockActorId,
+        userName: mockUserName,
+        isOwner: true,
+        isAdminish: false,
+      };
+
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: mockTaskId,
+        status: TaskStatus.OPEN,
+        recurrenceId: 7,
+        assignees: [],
+        _count: { subTasks: 0, assignees: 0 },
+      });
+      mockPrismaService.task.update.mockResolvedValue({
+        id: mockTaskId,
+        status: TaskStatus.CLOSED,
+      });
+
+      await tasksService.closeTask(ctx);
+
+      expect(mockTaskRecurrence.spawnNextOccurrence).toHaveBeenCalledWith(
+        mockPrismaService,
+        mockTaskId,
+      );
+    });
+
+    it('should not spawn anything for a non-recurring task', async () => {
+      const ctx = {
+        id: mockTaskId,
+        userId: mockActorId,
+        userName: mockUserName,
+        isOwner: true,
+        isAdminish: false,
+      };
+
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: mockTaskId,
+        status: TaskStatus.OPEN,
+        recurrenceId: null,
+        assignees: [],
+        _count: { subTasks: 0, assignees: 0 },
+      });
+      mockPrismaService.task.update.mockResolvedValue({
+        id: mockTaskId,
+        status: TaskStatus.CLOSED,
+      });
+
+      await tasksService.closeTask(ctx);
+
+      expect(mockTaskRecurrence.spawnNextOccurrence).not.toHaveBeenCalled();
+    });
+
+    it('should require a force-close reason while a blocker is still open', async () => {
+      const ctx = {
+        id: mockTaskId,
+        userId: mockActorId,
+        userName: mockUserName,
+        isOwner: true,
+        isAdminish: false,
+      };
+
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: mockTaskId,
+        status: TaskStatus.OPEN,
+        assignees: [],
+        _count: { subTasks: 0, assignees: 0, blockedBy: 1 },
+      });
+
+      await expect(tasksService.closeTask(ctx)).rejects.toThrow(
+        expect.objectContaining({ action: 'FORCE_CLOSE_REASON_REQUIRED' }),
+      );
+      await expect(
+        tasksService.closeTask(ctx, { reason: 'not waiting' }),
+      ).rejects.toThrow(expect.objectContaining({ action: 'CLOSE_TASK' }));
+      expect(mockPrismaService.task.update).not.toHaveBeenCalled();
+    });
+
     // 5. 測試：冪等性（如果任務已經是 CLOSED，直接回傳）
+    it('should close an ANY_ASSIGNEE task without a reason once someone completed it', async () => {
+      const ctx = {
+        id: mockTaskId,
+        userId: mockActorId,
+        userName: mockUserName,
+        isOwner: true,
+        isAdminish: false,
+      };
+
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: mockTaskId,
+        status: TaskStatus.OPEN,
+        recurrenceId: null,
+        completionPolicy: CompletionPolicy.ANY_ASSIGNEE,
+        assignees: [{ id: 7 }], // 已有人完成
+        _count: { subTasks: 0, assignees: 2, blockedBy: 0 },
+      });
+      mockPrismaService.task.update.mockResolvedValue({
+        id: mockTaskId,
+        status: TaskStatus.CLOSED,
+      });
+
+      await tasksService.closeTask(ctx);
+
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+        where: { id: mockTaskId },
+        data: expect.objectContaining({
+          closedReason: null,
+          closedWithOpenAssignees: false,
+        }),
+      });
+      // 其他人的指派仍會被收尾
+      expect(mockPrismaService.taskAssignee.updateMany).toHaveBeenCalledWith({
+        where: {
+          taskId: mockTaskId,
+          isCurrent: true,
+          status: AssignmentStatus.ACCEPTED,
+        },
+        data: expect.objectContaining({ status: AssignmentStatus.DROPPED }),
+      });
+    });
+
+    it('should still ask for a reason under ALL_ASSIGNEES when others are not done', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: mockTaskId,
+        status: TaskStatus.OPEN,
+        completionPolicy: CompletionPolicy.ALL_ASSIGNEES,
+        assignees: [{ id: 7 }],
+        _count: { subTasks: 0, assignees: 1, blockedBy: 0 },
+      });
+
+      await expect(
+        tasksService.closeTask({
+          id: mockTaskId,
+          userId: mockActorId,
+          userName: mockUserName,
+          isOwner: true,
+          isAdminish: false,
+        }),
+      ).rejects.toThrow(
+        expect.objectContaining({ action: 'FORCE_CLOSE_REASON_REQUIRED' }),
+      );
+    });
+
     it('should return immediately if task is already CLOSED', async () => {
       const ctx = {
         id: mockTaskId,
@@ -1214,6 +1579,7 @@ describe('TasksService', () => {
       expect(mockPrismaService.taskAssignee.updateMany).toHaveBeenCalledWith(
         expect.objectContaining({
           where: expect.objectContaining({
+            isCurrent: true, // 舊的幾輪不能被喚回
             status: {
               in: [AssignmentStatus.SKIPPED, AssignmentStatus.DROPPED],
             },
@@ -1404,6 +1770,93 @@ describe('TasksService', () => {
       });
     });
 
+    describe('Closing Rules (Completion Policy)', () => {
+      it('should close an ANY_ASSIGNEE task without force once one assignee completed', async () => {
+        mockTx.task.findUnique.mockResolvedValue({
+          ownerId: actorId,
+          groupId: groupId,
+          status: TaskStatus.OPEN,
+          completionPolicy: CompletionPolicy.ANY_ASSIGNEE,
+          subTasks: [],
+          assignees: [
+            { status: AssignmentStatus.COMPLETED },
+            { status: AssignmentStatus.ACCEPTED },
+          ],
+        });
+        jest
+          .spyOn(TasksUtils as any, 'taskStatusCanTransition')
+          .mockReturnValue(true);
+
+        await (tasksService as any).executeUpdateLogic(
+          taskId,
+          true,
+          true,
+          { newStatus: TaskStatus.CLOSED, actorId },
+          mockTx,
+        );
+
+        expect(mockTx.task.update).toHaveBeenCalledWith({
+          where: { id: taskId },
+          data: expect.objectContaining({
+            status: TaskStatus.CLOSED,
+            closedReason: null,
+            closedWithOpenAssignees: false,
+          }),
+        });
+      });
+    });
+
+    describe('Closing Rules (Rule C: Blockers)', () => {
+      beforeEach(() => {
+        mockTx.task.findUnique.mockResolvedValue({
+          ownerId: actorId,
+          groupId: groupId,
+          status: TaskStatus.OPEN,
+          subTasks: [],
+          assignees: [],
+          blockedBy: [{ blockerTaskId: 7 }],
+        });
+        jest
+          .spyOn(TasksUtils as any, 'taskStatusCanTransition')
+          .mockReturnValue(true);
+      });
+
+      it('should throw FORCE_CLOSE_REASON_REQUIRED while a blocker is open', async () => {
+        await expect(
+          (tasksService as any).executeUpdateLogic(
+            taskId,
+            true,
+            true,
+            { newStatus: TaskStatus.CLOSED, actorId, force: true },
+            mockTx,
+          ),
+        ).rejects.toMatchObject({ action: 'FORCE_CLOSE_REASON_REQUIRED' });
+      });
+
+      it('should close with the reason when forced', async () => {
+        await (tasksService as any).executeUpdateLogic(
+          taskId,
+          true,
+          true,
+          {
+            newStatus: TaskStatus.CLOSED,
+            actorId,
+            force: true,
+            reason: 'No longer blocked',
+          },
+          mockTx,
+        );
+
+        expect(mockTx.task.update).toHaveBeenCalledWith({
+          where: { id: taskId },
+          data: expect.objectContaining({
+            status: TaskStatus.CLOSED,
+            closedReason: 'No longer blocked',
+          }),
+        });
+      });
+    });
+
     describe('Update Logic (Restore)', () => {
       it('should reset audit fields when status is set back to OPEN', async () => {
         mockTx.task.findUnique.mockResolvedValue({
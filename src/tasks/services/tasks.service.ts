@@ -3,6 +3,7 @@ import { PrismaService } from 'src/prisma/prisma.service';
 import { UsersService } from 'src/users/users.service';
 import {
   AssignTaskPayload,
+  SendBackAssignmentPayload,
   GroupMemberInfo,
   TasksAddPayload,
   TaskUpdatePayload,
@@ -12,11 +13,15 @@ import {
   TaskUpdateContext,
   TaskCloseContext,
   OrderKey,
+  LabelMatchMode,
 } from '../types/tasks';
 import {
   AssignmentStatus,
+  CompletionPolicy,
+  NotificationType,
   Prisma,
   Task as TaskModel,
+  TaskActivityAction,
 } from 'src/generated/prisma/client';
 import type { Task } from 'src/generated/prisma/client';
 import { TaskStatus } from '../types/enum';
@@ -25,9 +30,17 @@ import { dayBoundsUtc } from 'src/common/helpers/util';
 import { PageDto } from 'src/common/dto/page.dto';
 import { PageMetaDto } from 'src/common/dto/page-meta.dto';
 import { CurrentUser } from 'src/common/types/current-user';
-import { TasksUtils } from '../tasks.util';
+import {
+  TASK_ACTIVITY_FIELDS,
+  TASK_POLICY_ACTIVITY_FIELDS,
+  TasksUtils,
+} from '../tasks.util';
 import { TasksHelperService } from './helper.service';
 import { TaskAssignmentManager } from './task-assignment.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { TaskMentionService } from './task-mention.service';
+import { TaskActivityService } from './task-activity.service';
+import { NotificationsService } from 'src/notifications/notifications.service';
 
 /**
  * TODO:
@@ -45,6 +58,7 @@ type ListTasksFilters = {
   status?: TaskStatus[]; // Default ['UNFINISHED']
   due?: DueFilter[]; // Example：['TODAY','NONE'] / ['EXPIRED']
   range?: { startUtc: Date; endUtc: Date }; // When due day includes range
+  ready?: boolean; // Only tasks without OPEN blockers
 };
 
 @Injectable()
@@ -54,12 +68,16 @@ export class TasksService {
     private readonly usersService: UsersService,
     private readonly tasksHelper: TasksHelperService,
     private readonly taskAssignmentManager: TaskAssignmentManager,
+    private readonly taskRecurrence: TaskRecurrenceService,
+    private readonly taskMentions: TaskMentionService,
+    private readonly taskActivity: TaskActivityService,
+    private readonly notifications: NotificationsService,
   ) {}
 
   async createTask(
     payload: TasksAddPayload,
     groupId: number | null = null,
-  ): Promise<void> {
+  ): Promise<TaskModel> {
     /**
      * Creates a new task (parent task) which can contain multiple sub-tasks.
      *
@@ -68,10 +86,15 @@ export class TasksService {
      * 2. Handles temporal logic:
      * - All-day tasks: Stored as a local calendar date (allDayLocalDate), ignoring time zone shifts.
      * - Specific time tasks: Converted from the user's local time to a UTC timestamp (dueAtUtc).
+     * 3. Stores the completion policy (group tasks only use it; defaults to ALL_ASSIGNEES).
+     * 4. Records a `CREATED` activity in the same transaction.
+     * 5. Notifies group members mentioned as `@name` in the description.
+     * 6. Keeps the `.ics` UID of imported tasks so a re-import can update them.
+     * 7. Tells the group (or the owner's other tabs) so dashboards pick the task up.
      *
      * @param payload - The data transfer object containing task details (title, status, priority, etc.).
      * @param groupId - Optional. The ID of the group this task belongs to. Defaults to null for personal tasks.
-     * @returns A Promise that resolves when the task is successfully created.
+     * @returns The created task.
      */
 
     // 1. Fetch user data and handle time zone fallback
@@ -96,12 +119,39 @@ export class TasksService {
       allDay: !!payload.allDay,
       dueAtUtc,
       allDayLocalDate,
+      ...(payload.completionPolicy && {
+        completionPolicy: payload.completionPolicy,
+      }),
+      autoCloseOnComplete: !!payload.autoCloseOnComplete,
+      ...(payload.icalUid && { icalUid: payload.icalUid }),
       // Only connect to group if groupId is provided
       owner: { connect: { id: user.id } },
       ...(groupId && { group: { connect: { id: groupId } } }),
     };
 
-    await this.prismaService.task.create({ data });
+    const task = await this.prismaService.$transaction(async (tx) => {
+      const created = await tx.task.create({ data });
+      await this.taskActivity.record(tx, {
+        taskId: created.id,
+        actorId: user.id,
+        action: TaskActivityAction.CREATED,
+        after: { title: created.title, status: created.status },
+      });
+      return created;
+    });
+
+    await this.taskMentions.recordMentions(
+      { taskId: task.id, actorId: user.id },
+      task.description,
+    );
+    this.tasksHelper.notifyTaskListChange(
+      task,
+      user.id,
+      user.name,
+      'TASK_CREATED',
+    );
+
+    return task;
   }
 
   async getTasks(
@@ -113,13 +163,15 @@ export class TasksService {
       page?: number;
       limit?: number;
       order?: 'ASC' | 'DESC';
+      labels?: number[];
+      labelMode?: LabelMatchMode;
     },
   ): Promise<PageDto<any>> {
     /**
      * Retrieves a paginated list of tasks for the listing page.
      * * This method dynamically constructs a raw SQL query based on the provided filters.
      * It calculates "Future" task boundaries based on the user's timezone and includes
-     * sub-query counts for open sub-tasks and active assignees.
+     * sub-query counts for open sub-tasks and active assignees, plus each task's labels.
      *
      * @param userId - The ID of the user who owns the tasks.
      * @param timeZone - The user's IANA timezone (e.g., 'UTC', 'Asia/Taipei') used for "Tomorrow" boundary calculations.
@@ -129,9 +181,19 @@ export class TasksService {
      * @param options.page - The current page number (1-based index). Default: 1.
      * @param options.limit - Number of items per page. Maximum: 20. Default: 10.
      * @param options.order - Sorting order based on creation time ('ASC' or 'DESC'). Default: 'DESC'.
+     * @param options.labels - Only tasks carrying these label IDs.
+     * @param options.labelMode - 'OR' (any of the labels, default) or 'AND' (all of them).
      * * @returns A PageDto containing the list of tasks and pagination metadata.
      */
-    const { status, scope, page = 1, limit = 10, order = 'DESC' } = options;
+    const {
+      status,
+      scope,
+      page = 1,
+      limit = 10,
+      order = 'DESC',
+      labels,
+      labelMode = 'OR',
+    } = options;
     const skip = (page - 1) * limit;
 
     // 1. Deal with time boundary (espacially for future)
@@ -166,6 +228,16 @@ export class TasksService {
       );
     }
 
+    if (labels?.length) {
+      const labelIds = [...new Set(labels)];
+      const idList = Prisma.join(labelIds);
+      conditions.push(
+        labelMode === 'AND'
+          ? Prisma.sql`(SELECT COUNT(*) FROM "TaskLabel" tl WHERE tl."taskId" = t.id AND tl."labelId" IN (${idList})) = ${labelIds.length}`
+          : Prisma.sql`EXISTS (SELECT 1 FROM "TaskLabel" tl WHERE tl."taskId" = t.id AND tl."labelId" IN (${idList}))`,
+      );
+    }
+
     const whereFragment = Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}`;
 
     // 3. Execution data inquiry and total stats
@@ -173,7 +245,15 @@ export class TasksService {
       this.prismaService.$queryRaw<any[]>`
       SELECT t.*, 
         (SELECT COUNT(*)::int FROM "SubTask" st WHERE st."taskId" = t.id AND st."status" != 'CLOSED') as "subTaskCount",
-        (SELECT COUNT(*)::int FROM "TaskAssignee" ta WHERE ta."taskId" = t.id AND ta."status" IN ('PENDING', 'ACCEPTED')) as "assigneeCount"
+        (CASE
+          WHEN t."completionPolicy" = 'ANY_ASSIGNEE' AND EXISTS (SELECT 1 FROM "TaskAssignee" ta WHERE ta."taskId" = t.id AND ta."isCurrent" AND ta."status" = 'COMPLETED') THEN 0
+          ELSE (SELECT COUNT(*)::int FROM "TaskAssignee" ta WHERE ta."taskId" = t.id AND ta."isCurrent" AND ta."status" IN ('PENDING', 'ACCEPTED'))
+        END) as "assigneeCount",
+        COALESCE((
+          SELECT json_agg(json_build_object('id', l.id, 'name', l.name, 'color', l.color) ORDER BY l.name)
+          FROM "TaskLabel" tl JOIN "Label" l ON l.id = tl."labelId"
+          WHERE tl."taskId" = t.id
+        ), '[]'::json) as "labels"
       FROM "Task" t
       ${whereFragment}
       ORDER BY t."createdAt" ${Prisma.raw(order)}
@@ -242,6 +322,7 @@ export class TasksService {
       where: { id },
       include: {
         assignees: {
+          where: { isCurrent: true },
           include: {
             assignee: { select: { id: true, name: true, email: true } },
             assignedBy: { select: { id: true, name: true, email: true } },
@@ -250,6 +331,7 @@ export class TasksService {
         subTasks: {
           include: {
             assignees: {
+              where: { isCurrent: true },
               include: {
                 assignee: { select: { id: true, name: true, email: true } },
               },
@@ -259,6 +341,7 @@ export class TasksService {
           orderBy: { priority: 'asc' },
         },
         group: { select: { name: true } },
+        recurrence: true,
       },
     });
 
@@ -366,28 +449,34 @@ export class TasksService {
     };
   }
 
-  async getGroupDashboardData(groupId: number, viewer: CurrentUser) {
+  async getGroupDashboardData(
+    groupId: number,
+    viewer: CurrentUser,
+    opts: { readyOnly?: boolean } = {},
+  ) {
     const LIMITS = { EXPIRED: 5, TODAY: 15, NONE: 10 };
+    // "Ready" view hides tasks that are still blocked by OPEN tasks
+    const ready = opts.readyOnly ? { ready: true } : {};
 
     const [expiredRes, todayRes, noneRes] = await Promise.all([
       this.listTaskCore(
         { kind: 'group', groupId, viewerId: viewer.userId },
         viewer.timeZone,
-        { status: ['OPEN'], due: ['EXPIRED'] },
+        { status: ['OPEN'], due: ['EXPIRED'], ...ready },
         'expiredPriority',
         LIMITS.EXPIRED,
       ),
       this.listTaskCore(
         { kind: 'group', groupId, viewerId: viewer.userId },
         viewer.timeZone,
-        { status: ['OPEN'], due: ['TODAY'] },
+        { status: ['OPEN'], due: ['TODAY'], ...ready },
         'dueAtAscNullsLast',
         LIMITS.TODAY,
       ),
       this.listTaskCore(
         { kind: 'group', groupId, viewerId: viewer.userId },
         viewer.timeZone,
-        { status: ['OPEN'], due: ['NONE'] },
+        { status: ['OPEN'], due: ['NONE'], ...ready },
         'createdAsc',
         LIMITS.NONE,
       ),
@@ -411,6 +500,13 @@ export class TasksService {
      * 1. **Permission Enforcement**: Ensures the actor is either the task owner or a group administrator.
      * 2. **Data Transformation**: Converts local dates/times to UTC based on the actor's timezone.
      * 3. **Audit & Notification**: Triggers real-time notifications to relevant parties after a successful update.
+     * 4. **Recurrence**: Starts, edits or ends the recurring series in the same transaction,
+     * honoring `recurrenceScope` ('THIS' instance only vs. 'FUTURE' occurrences).
+     * 5. **Activity**: The changed fields are recorded (before / after) as an `UPDATED` activity.
+     * 6. **Mentions**: When the description changes, newly mentioned group members are
+     * notified (and emailed with `emailMentions`).
+     * 7. **Completion policy**: `completionPolicy` / `autoCloseOnComplete` are only stored
+     * on tasks, so they are applied here rather than in the shared update data.
      *
      * @param ctx - The execution context containing actor info and pre-calculated permissions:
      * - `id`: The unique identifier of the task to update.
@@ -442,12 +538,44 @@ export class TasksService {
     );
 
     const data: Prisma.TaskUpdateInput = commonData;
+    if (payload.completionPolicy !== undefined) {
+      data.completionPolicy = payload.completionPolicy;
+    }
+    if (payload.autoCloseOnComplete !== undefined) {
+      data.autoCloseOnComplete = payload.autoCloseOnComplete;
+    }
 
     try {
-      const task = await this.prismaService.task.update({
-        where: { id },
-        data,
+      const task = await this.prismaService.$transaction(async (tx) => {
+        const before = await tx.task.findUnique({ where: { id } });
+        const updated = await tx.task.update({
+          where: { id },
+          data,
+        });
+        await this.taskRecurrence.syncSeries(tx, updated, payload, timeZone);
+
+        const changes =
+          before &&
+          TasksUtils.diffActivityValues(before, updated, [
+            ...TASK_ACTIVITY_FIELDS,
+            ...TASK_POLICY_ACTIVITY_FIELDS,
+          ]);
+        if (changes) {
+          await this.taskActivity.record(tx, {
+            taskId: id,
+            actorId: userId,
+            action: TaskActivityAction.UPDATED,
+            ...changes,
+          });
+        }
+        return updated;
       });
+      if (payload.description !== undefined) {
+        await this.taskMentions.recordMentions(
+          { taskId: id, actorId: userId, sendEmail: payload.emailMentions },
+          task.description,
+        );
+      }
       this.tasksHelper.notifyTaskChange(task.id, userId, userName, 'UPDATED');
       return task;
     } catch (e) {
@@ -481,6 +609,10 @@ export class TasksService {
      * 2. **Status Transition (Existing Assignment)**: If the actor is already assigned,
      * the method validates the state transition (e.g., ACCEPTED -> COMPLETED) against the current
      * task and assignment status.
+     * 3. **Auto-close**: When the task uses `ANY_ASSIGNEE` with `autoCloseOnComplete`, the first
+     * COMPLETED report closes the task in the same transaction, as long as no sub-task or
+     * blocker is still open.
+     * 4. **Notifications**: Accepting or declining notifies whoever assigned the round.
      * * @param id - The unique identifier of the task.
      * @param actorId - The ID of the user performing the update (the actor).
      * @param dto - The data transfer object containing:
@@ -496,8 +628,9 @@ export class TasksService {
      */
     const { status: next, reason } = dto;
     let shouldNotify = false;
+    let autoClosed: Task | null = null;
 
-    return this.prismaService.$transaction(async (tx) => {
+    await this.prismaService.$transaction(async (tx) => {
       // Check if task exitsts in transaction although we already checked in Guard,
       // for making sure the data status not changed during updating
       const task = await tx.task.findUnique({
@@ -506,9 +639,20 @@ export class TasksService {
           id: true,
           status: true,
           groupId: true,
+          recurrenceId: true,
+          completionPolicy: true,
+          autoCloseOnComplete: true,
           assignees: {
-            where: { assigneeId: actorId },
-            select: { status: true },
+            where: { assigneeId: actorId, isCurrent: true },
+            select: { id: true, status: true },
+          },
+          _count: {
+            select: {
+              subTasks: { where: { status: { not: TaskStatus.CLOSED } } },
+              blockedBy: {
+                where: { blockerTask: { status: TaskStatus.OPEN } },
+              },
+            },
           },
         },
       });
@@ -544,6 +688,14 @@ export class TasksService {
             acceptedAt: new Date(),
           },
         });
+        await this.taskActivity.record(tx, {
+          taskId: id,
+          actorId,
+          action: TaskActivityAction.ASSIGNEE_STATUS_CHANGED,
+          targetUserId: actorId,
+          before: { status: null },
+          after: { status: AssignmentStatus.ACCEPTED },
+        });
       } else {
         // 2. Deal with status changing (assigned record found)
         const isLegal = TasksUtils.isValidAssignmentTransition(
@@ -560,21 +712,58 @@ export class TasksService {
         }
 
         await tx.taskAssignee.update({
-          where: { taskId_assigneeId: { taskId: id, assigneeId: actorId } },
+          where: { id: currentAssignee.id },
           data: TasksUtils.getAssigneeUpdateData(next, reason),
         });
+        await this.taskActivity.record(tx, {
+          taskId: id,
+          actorId,
+          action: TaskActivityAction.ASSIGNEE_STATUS_CHANGED,
+          targetUserId: actorId,
+          before: { status: currentAssignee.status },
+          after: { status: next },
+          reason: reason ?? null,
+        });
 
         shouldNotify = true;
       }
+
+      // 3. ANY_ASSIGNEE + autoCloseOnComplete: the first completion closes the task
+      const shouldAutoClose =
+        next === AssignmentStatus.COMPLETED &&
+        task.status === TaskStatus.OPEN &&
+        task.completionPolicy === CompletionPolicy.ANY_ASSIGNEE &&
+        task.autoCloseOnComplete &&
+        task._count.subTasks === 0 &&
+        task._count.blockedBy === 0;
+
+      if (shouldAutoClose) {
+        autoClosed = await this.closeWithinTx(tx, task, {
+          actorId,
+          reason: null,
+          hasOpenItems: false,
+          autoClosed: true,
+        });
+      }
       if (shouldNotify) {
         this.tasksHelper.notifyTaskChange(
           id,
           actorId,
           updatedBy!,
-          'ASSIGNEE_STATUS_UPDATED',
+          shouldAutoClose ? 'UPDATED' : 'ASSIGNEE_STATUS_UPDATED',
         );
       }
     });
+
+    if (autoClosed) {
+      this.tasksHelper.notifyTaskListChange(
+        autoClosed,
+        actorId,
+        updatedBy ?? undefined,
+        'TASK_CLOSED',
+      );
+    }
+    await this.taskAssignmentManager.notifyDecision('TASK', id, actorId, next);
   }
 
   async closeTask(
@@ -586,8 +775,13 @@ export class TasksService {
      * * This method implements a **"Restricted Management"** policy:
      * 1. **Standard Closure**: If the task and all sub-items are completed, the Task Owner or
      * a Group Administrator can close it.
-     * 2. **Force Closure**: If the task still has open sub-tasks or active assignees,
-     * ONLY a Group Administrator can perform a "Force Close," which requires a mandatory reason.
+     * 2. **Force Closure**: If the task still has open sub-tasks, active assignees or
+     * OPEN blockers ("blocked by" dependencies), ONLY a Group Administrator can perform a
+     * "Force Close," which requires a mandatory reason.
+     * 3. **Completion Policy**: Under `ANY_ASSIGNEE` one COMPLETED assignee is enough;
+     * the remaining assignees do not count as open items (they are SKIPPED / DROPPED on close).
+     * 4. **Notifications**: On a force close the owner and everyone still working on the task
+     * or its open sub-tasks get an in-app notification with the reason.
      * * @param ctx - The pre-validated task context provided by `TaskMemberGuard`.
      * - `id`: The unique identifier of the task.
      * - `userId`: The ID of the actor performing the closure.
@@ -601,6 +795,8 @@ export class TasksService {
      * @throws {TasksErrors.TaskForbiddenError}
      * - Action: `FORCE_CLOSE_REASON_REQUIRED` when open items exist but no reason is provided.
      * - Action: `CLOSE_TASK` when a non-admin attempts a force-close or lacks general permissions.
+     * * @remarks If the task belongs to a recurring series, its next occurrence is generated
+     * in the same transaction (see `TaskRecurrenceService.spawnNextOccurrence`).
      */
     const { id, userId: actorId, userName, isOwner, isAdminish } = ctx;
 
@@ -609,14 +805,24 @@ export class TasksService {
       where: { id },
       select: {
         id: true,
+        title: true,
         status: true,
         ownerId: true,
         groupId: true,
+        recurrenceId: true,
+        completionPolicy: true,
+        // ANY_ASSIGNEE 只需要知道有沒有人完成
+        assignees: {
+          where: { isCurrent: true, status: AssignmentStatus.COMPLETED },
+          select: { id: true },
+          take: 1,
+        },
         _count: {
           select: {
             subTasks: { where: { status: { not: TaskStatus.CLOSED } } },
             assignees: {
               where: {
+                isCurrent: true,
                 status: {
                   in: [
                     AssignmentStatus.PENDING,
@@ -626,6 +832,7 @@ export class TasksService {
                 },
               },
             },
+            blockedBy: { where: { blockerTask: { status: TaskStatus.OPEN } } },
           },
         },
       },
@@ -638,7 +845,15 @@ export class TasksService {
       return task as any;
     }
 
-    const hasOpenItems = task._count.subTasks > 0 || task._count.assignees > 0;
+    const openAssignees = TasksUtils.countOpenAssignees(
+      task.completionPolicy,
+      task._count.assignees,
+      task.assignees.length,
+    );
+    const hasOpenItems =
+      task._count.subTasks > 0 ||
+      openAssignees > 0 ||
+      task._count.blockedBy > 0;
 
     // A. Request a reason if items are incomplete to trigger the frontend "Force Close" modal
     if (hasOpenItems && !opts?.reason) {
@@ -668,45 +883,154 @@ export class TasksService {
       );
     }
 
+    // 關閉後這些人的指派會變成 DROPPED / SKIPPED，要先記下來
+    const affectedIds = hasOpenItems
+      ? await this.getForceCloseRecipients(id, task.ownerId)
+      : [];
+
     // 2. Execute Transaction to update task and related assignments/sub-tasks
-    const result = await this.prismaService.$transaction(async (tx) => {
-      const updatedTask = await tx.task.update({
-        where: { id },
+    const result = await this.prismaService.$transaction((tx) =>
+      this.closeWithinTx(tx, task, {
+        actorId,
+        reason: opts?.reason ?? null,
+        hasOpenItems,
+      }),
+    );
+
+    await this.notifications.notify(
+      affectedIds.map((userId) => ({
+        userId,
+        actorId,
+        type: NotificationType.TASK_FORCE_CLOSED,
+        title: `${userName} force closed "${task.title}"`,
+        body: opts?.reason ?? null,
+        url: `/tasks/${id}`,
+        groupId: task.groupId,
+        taskId: id,
+      })),
+    );
+    this.tasksHelper.notifyTaskChange(id, actorId, userName, 'UPDATED');
+    this.tasksHelper.notifyTaskListChange(
+      task,
+      actorId,
+      userName,
+      'TASK_CLOSED',
+    );
+    return result;
+  }
+
+  private async getForceCloseRecipients(
+    taskId: number,
+    ownerId: number,
+  ): Promise<number[]> {
+    // 擁有者 + 任務與未關閉子任務上仍在進行中的成員
+    const active = {
+      isCurrent: true,
+      status: { in: [AssignmentStatus.PENDING, AssignmentStatus.ACCEPTED] },
+    };
+    const [assignees, subTaskAssignees] = await Promise.all([
+      this.prismaService.taskAssignee.findMany({
+        where: { taskId, ...active },
+        select: { assigneeId: true },
+      }),
+      this.prismaService.subTaskAssignee.findMany({
+        where: {
+          ...active,
+          subtask: { taskId, status: { not: TaskStatus.CLOSED } },
+        },
+        select: { assigneeId: true },
+      }),
+    ]);
+
+    return [
+      ...new Set([
+        ownerId,
+        ...assignees.map((a) => a.assigneeId),
+        ...subTaskAssignees.map((a) => a.assigneeId),
+      ]),
+    ];
+  }
+
+  private async closeWithinTx(
+    tx: Prisma.TransactionClient,
+    task: { id: number; status: string; recurrenceId: number | null },
+    opts: {
+      actorId: number;
+      reason: string | null;
+      hasOpenItems: boolean;
+      autoClosed?: boolean;
+    },
+  ): Promise<Task> {
+    /**
+     * Closes the task inside the caller's transaction.
+     * * @description
+     * Shared by `closeTask` and the ANY_ASSIGNEE auto-close in `updateAssigneeStatus`:
+     * remaining ACCEPTED / PENDING assignments become DROPPED / SKIPPED, open sub-tasks
+     * are closed on a force close, the activity is recorded and a recurring task spawns
+     * its next occurrence.
+     */
+    const { actorId, reason, hasOpenItems, autoClosed } = opts;
+
+    const updatedTask = await tx.task.update({
+      where: { id: task.id },
+      data: {
+        status: TaskStatus.CLOSED,
+        closedAt: new Date(),
+        closedById: actorId,
+        closedReason: reason,
+        closedWithOpenAssignees: hasOpenItems,
+      },
+    });
+
+    // Update assignment statuses for audit and clean-up
+    await tx.taskAssignee.updateMany({
+      where: {
+        taskId: task.id,
+        isCurrent: true,
+        status: AssignmentStatus.ACCEPTED,
+      },
+      data: { status: AssignmentStatus.DROPPED, updatedAt: new Date() },
+    });
+
+    await tx.taskAssignee.updateMany({
+      where: {
+        taskId: task.id,
+        isCurrent: true,
+        status: AssignmentStatus.PENDING,
+      },
+      data: { status: AssignmentStatus.SKIPPED, updatedAt: new Date() },
+    });
+
+    // If force-closed, terminate all remaining open sub-tasks
+    if (hasOpenItems) {
+      await tx.subTask.updateMany({
+        where: { taskId: task.id, status: { not: TaskStatus.CLOSED } },
         data: {
           status: TaskStatus.CLOSED,
-          closedAt: new Date(),
           closedById: actorId,
-          closedReason: opts?.reason ?? null,
-          closedWithOpenAssignees: hasOpenItems,
+          closedAt: new Date(),
         },
       });
+    }
 
-      // Update assignment statuses for audit and clean-up
-      await tx.taskAssignee.updateMany({
-        where: { taskId: id, status: AssignmentStatus.ACCEPTED },
-        data: { status: AssignmentStatus.DROPPED, updatedAt: new Date() },
-      });
-
-      await tx.taskAssignee.updateMany({
-        where: { taskId: id, status: AssignmentStatus.PENDING },
-        data: { status: AssignmentStatus.SKIPPED, updatedAt: new Date() },
-      });
-
-      // If force-closed, terminate all remaining open sub-tasks
-      if (hasOpenItems) {
-        await tx.subTask.updateMany({
-          where: { taskId: id, status: { not: TaskStatus.CLOSED } },
-          data: {
-            status: TaskStatus.CLOSED,
-            closedById: actorId,
-            closedAt: new Date(),
-          },
-        });
-      }
-      return updatedTask;
+    await this.taskActivity.record(tx, {
+      taskId: task.id,
+      actorId,
+      action: hasOpenItems
+        ? TaskActivityAction.FORCE_CLOSED
+        : TaskActivityAction.STATUS_CHANGED,
+      before: { status: task.status },
+      after: autoClosed
+        ? { status: TaskStatus.CLOSED, autoClosed: true }
+        : { status: TaskStatus.CLOSED },
+      reason,
     });
-    this.tasksHelper.notifyTaskChange(id, actorId, userName, 'UPDATED');
-    return result;
+
+    // Recurring task: the next occurrence is created together with the closure
+    if (task.recurrenceId) {
+      await this.taskRecurrence.spawnNextOccurrence(tx, task.id);
+    }
+    return updatedTask;
   }
 
   async archiveTask(
@@ -728,7 +1052,7 @@ export class TasksService {
      * @throws {TasksErrors.TaskForbiddenError} If the actor lacks sufficient permissions.
      * @returns {Promise<void>} Resolves when both parent and child entities are successfully archived.
      */
-    return this.prismaService.$transaction(async (tx) => {
+    const task = await this.prismaService.$transaction(async (tx) => {
       // 1. Update parent Task
       await this.updateTaskStatus(
         id,
@@ -752,7 +1076,21 @@ export class TasksService {
         },
       });
       this.tasksHelper.notifyTaskChange(id, actorId, userName, 'UPDATED');
+
+      return tx.task.findUnique({
+        where: { id },
+        select: { id: true, title: true, groupId: true, ownerId: true },
+      });
     });
+
+    if (task) {
+      this.tasksHelper.notifyTaskListChange(
+        task,
+        actorId,
+        userName,
+        'TASK_ARCHIVED',
+      );
+    }
   }
 
   async restoreTask(
@@ -783,7 +1121,13 @@ export class TasksService {
     // We need to know where it's coming from to apply specific side effects
     const task = await this.prismaService.task.findUnique({
       where: { id },
-      select: { status: true },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        groupId: true,
+        ownerId: true,
+      },
     });
 
     if (!task) {
@@ -793,7 +1137,7 @@ export class TasksService {
     const originalStatus = task.status;
 
     // 2. Use a transaction to ensure atomic updates
-    return this.prismaService.$transaction(async (tx) => {
+    await this.prismaService.$transaction(async (tx) => {
       // 🚀 [KEY MOVE] Call the unified logic
       // This handles: Permissions, State Machine, and Task audit field resets (closedAt, etc.)
       await this.executeUpdateLogic(
@@ -814,6 +1158,13 @@ export class TasksService {
       }
       this.tasksHelper.notifyTaskChange(id, actorId, userName, 'UPDATE');
     });
+
+    this.tasksHelper.notifyTaskListChange(
+      task,
+      actorId,
+      userName,
+      'TASK_RESTORED',
+    );
   }
 
   private async handleRestoreFromArchived(
@@ -866,6 +1217,7 @@ export class TasksService {
     await tx.taskAssignee.updateMany({
       where: {
         taskId,
+        isCurrent: true,
         status: { in: [AssignmentStatus.SKIPPED, AssignmentStatus.DROPPED] },
       },
       data: { status: AssignmentStatus.PENDING },
@@ -938,9 +1290,18 @@ export class TasksService {
         ownerId: true,
         groupId: true,
         status: true,
+        completionPolicy: true,
         // Only fetch relations if we are attempting to CLOSE the task
-        assignees: isClosingTask ? { select: { status: true } } : false,
+        assignees: isClosingTask
+          ? { where: { isCurrent: true }, select: { status: true } }
+          : false,
         subTasks: isClosingTask ? { select: { status: true } } : false,
+        blockedBy: isClosingTask
+          ? {
+              where: { blockerTask: { status: TaskStatus.OPEN } },
+              select: { blockerTaskId: true },
+            }
+          : false,
       },
     });
 
@@ -1007,8 +1368,12 @@ export class TasksService {
         ).length;
 
         const noneCompleted = total > 0 ? completedCount === 0 : false;
+        // ANY_ASSIGNEE: one completed assignee already counts as done
         const someCompleted =
-          total > 0 && completedCount > 0 && completedCount < total;
+          task.completionPolicy !== CompletionPolicy.ANY_ASSIGNEE &&
+          total > 0 &&
+          completedCount > 0 &&
+          completedCount < total;
 
         if (noneCompleted) {
           throw TasksErrors.TaskForbiddenError.byActorOnTask(
@@ -1029,6 +1394,19 @@ export class TasksService {
         closedWithOpenAssignees = someCompleted;
         closedReason = force ? (reason ?? 'CLOSE_FORCEFULLY') : null;
       }
+
+      // Rule C: OPEN blockers can only be bypassed by a force close with a reason
+      const openBlockers = task.blockedBy ?? [];
+      if (openBlockers.length > 0) {
+        if (!force || !reason) {
+          throw TasksErrors.TaskForbiddenError.byActorOnTask(
+            actorId,
+            id,
+            'FORCE_CLOSE_REASON_REQUIRED',
+          );
+        }
+        closedReason = reason;
+      }
     }
 
     // -----------------------------------------------------------
@@ -1054,6 +1432,23 @@ export class TasksService {
     }
 
     await tx.task.update({ where: { id }, data: updateData });
+
+    // -----------------------------------------------------------
+    // 6) Activity Log
+    // -----------------------------------------------------------
+    let action: TaskActivityAction = TaskActivityAction.STATUS_CHANGED;
+    if (newStatus === TaskStatus.ARCHIVED) action = TaskActivityAction.ARCHIVED;
+    if (newStatus === TaskStatus.OPEN) action = TaskActivityAction.RESTORED;
+    if (isClosingTask && closedReason) action = TaskActivityAction.FORCE_CLOSED;
+
+    await this.taskActivity.record(tx, {
+      taskId: id,
+      actorId,
+      action,
+      before: { status: from },
+      after: { status: newStatus },
+      reason: closedReason,
+    });
   }
 
   private async listTaskCore(
@@ -1099,6 +1494,9 @@ export class TasksService {
         : { groupId: scope.groupId }),
       status: { in: status },
       ...(OR.length ? { OR } : {}),
+      ...(filters.ready
+        ? { blockedBy: { none: { blockerTask: { status: 'OPEN' } } } }
+        : {}),
     };
 
     // 2. Database Query with Aggregated Counts
@@ -1108,10 +1506,15 @@ export class TasksService {
       take,
       include: {
         assignees: {
+          where: { isCurrent: true },
           include: {
             assignee: { select: { id: true, name: true, email: true } },
           },
         },
+        labels: {
+          select: { label: { select: { id: true, name: true, color: true } } },
+          orderBy: { label: { name: 'asc' } },
+        },
         _count: {
           select: {
             // Check for blockers: Sub-tasks that are not yet finalized
@@ -1119,26 +1522,37 @@ export class TasksService {
             // Check for engagement: Active assignees who haven't finished their part
             assignees: {
               where: {
+                isCurrent: true,
                 status: { in: ['PENDING', 'ACCEPTED'] },
               },
             },
+            // Check for dependencies: "Blocked by" tasks that are still open
+            blockedBy: { where: { blockerTask: { status: 'OPEN' } } },
           },
         },
       },
     });
 
     // 3. Transformation and Business Logic Mapping
-    const mapped = items.map(({ _count, assignees, ...task }) => {
+    const mapped = items.map(({ _count, assignees, labels, ...task }) => {
       const openSubTasksCount = _count?.subTasks ?? 0;
-      const incompleteAssigneesCount = _count?.assignees ?? 0;
+      const incompleteAssigneesCount = TasksUtils.countOpenAssignees(
+        task.completionPolicy,
+        _count?.assignees ?? 0,
+        assignees.filter((a) => a.status === AssignmentStatus.COMPLETED).length,
+      );
+      const openBlockersCount = _count?.blockedBy ?? 0;
 
       /**
        * isSmoothClose:
        * Indicates the task can be closed immediately without a confirmation modal.
-       * Condition: No unfinished sub-tasks AND all assignees have completed their work.
+       * Condition: No unfinished sub-tasks, all assignees have completed their work
+       * (or any one of them under ANY_ASSIGNEE) AND no blocker is still open.
        */
       const isSmoothClose =
-        openSubTasksCount === 0 && incompleteAssigneesCount === 0;
+        openSubTasksCount === 0 &&
+        incompleteAssigneesCount === 0 &&
+        openBlockersCount === 0;
 
       /**
        * canClose:
@@ -1157,8 +1571,10 @@ export class TasksService {
           email: a.assignee.email,
           status: a.status,
         })),
+        labels: labels.map((l) => l.label),
         isSmoothClose,
         canClose,
+        openBlockersCount,
         // Combined count of items requiring attention before a "normal" close
         pendingCounts: openSubTasksCount + incompleteAssigneesCount,
       };
@@ -1172,8 +1588,8 @@ export class TasksService {
 
   // ------------------ Assign task -------------------
 
-  async assignTask(payload: AssignTaskPayload): Promise<boolean | void> {
-    const mailSent = await this.taskAssignmentManager.execute({
+  async assignTask(payload: AssignTaskPayload): Promise<number | null> {
+    const mailId = await this.taskAssignmentManager.execute({
       type: 'TASK',
       targetId: payload.id,
       assigneeId: payload.assigneeId,
@@ -1182,7 +1598,18 @@ export class TasksService {
       updatedBy: payload.updatedBy,
     });
 
-    return mailSent;
+    return mailId;
+  }
+
+  async sendBackAssignment(payload: SendBackAssignmentPayload): Promise<void> {
+    await this.taskAssignmentManager.sendBack({
+      type: 'TASK',
+      targetId: payload.id,
+      assigneeId: payload.assigneeId,
+      actorId: payload.actorId,
+      reason: payload.reason,
+      updatedBy: payload.updatedBy,
+    });
   }
 
   // ------------- Notifications --------------------
@@ -1206,7 +1633,11 @@ export class TasksService {
      */
     const [tasks, subTasks] = await Promise.all([
       this.prismaService.taskAssignee.findMany({
-        where: { assigneeId: userId, status: AssignmentStatus.PENDING },
+        where: {
+          assigneeId: userId,
+          isCurrent: true,
+          status: AssignmentStatus.PENDING,
+        },
         orderBy: { task: { priority: 'asc' } },
         take: 20,
         include: {
@@ -1216,13 +1647,18 @@ export class TasksService {
               priority: true,
               title: true,
               dueAtUtc: true,
+              groupId: true,
               group: { select: { name: true } },
             },
           },
         },
       }),
       this.prismaService.subTaskAssignee.findMany({
-        where: { assigneeId: userId, status: AssignmentStatus.PENDING },
+        where: {
+          assigneeId: userId,
+          isCurrent: true,
+          status: AssignmentStatus.PENDING,
+        },
         orderBy: { subtask: { priority: 'asc' } },
         take: 20,
         include: {
@@ -1235,6 +1671,7 @@ export class TasksService {
               task: {
                 select: {
                   id: true, // for url link
+                  groupId: true,
                   group: { select: { name: true } },
                 },
               },
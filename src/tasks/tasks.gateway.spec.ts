@@ -0,0 +1,492 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WsException } from '@nestjs/websockets';
+import type { Server } from 'socket.io';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SecurityService } from 'src/security/security.service';
+import { LoginSessionsService } from 'src/auth/login-sessions.service';
+import { AuthErrors } from 'src/errors';
+import { createMockSecurityService } from 'src/test/factories/mock-security.service';
+import { summarizePresence, TasksGateWay } from './tasks.gateway';
+import { TaskEventLogService } from './services/task-event-log.service';
+
+describe('TasksGateWay', () => {
+  let gateway: TasksGateWay;
+
+  const mockPrismaService = {
+    task: { findUnique: jest.fn() },
+    subTask: { findFirst: jest.fn() },
+    groupMember: { findUnique: jest.fn(), findMany: jest.fn() },
+  };
+  const mockSecurityService = createMockSecurityService();
+  const mockLoginSessions = { isActive: jest.fn() };
+  const mockEventLog = {
+    append: jest.fn(),
+    currentSeq: jest.fn(),
+    since: jest.fn(),
+  };
+
+  const user = {
+    userId: 9,
+    userName: 'Ann',
+    email: 'ann@example.com',
+    timeZone: 'Asia/Taipei',
+  };
+  const groupTask = { id: 1, ownerId: 2, groupId: 4, status: 'OPEN' };
+
+  // gateway 收到的 socket 型別，加上測試要檢查的 mock；client.to(room).emit 記在 emitToRoom
+  type GatewaySocket = Parameters<TasksGateWay['authenticate']>[0];
+  type MockClient = GatewaySocket & {
+    join: jest.Mock;
+    emit: jest.Mock;
+    to: jest.Mock;
+    emitToRoom: jest.Mock;
+  };
+
+  const createClient = (cookie?: string): MockClient => {
+    const emitToRoom = jest.fn();
+    const client = {
+      id: 'socket-1',
+      handshake: { headers: { cookie } },
+      data: { user, groupIds: [], taskRooms: [], lastSeenAt: 0 },
+      rooms: new Set<string>(),
+      join: jest.fn(),
+      emit: jest.fn(),
+      to: jest.fn().mockReturnValue({ emit: emitToRoom }),
+      emitToRoom,
+    };
+    return client as unknown as MockClient;
+  };
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TasksGateWay,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SecurityService, useValue: mockSecurityService },
+        { provide: LoginSessionsService, useValue: mockLoginSessions },
+        { provide: TaskEventLogService, useValue: mockEventLog },
+      ],
+    }).compile();
+
+    gateway = module.get(TasksGateWay);
+  });
+
+  // 模擬 adapter：房間裡目前的連線；server.to(room).emit 記在 serverEmit
+  const fetchSockets = jest.fn();
+  const socketsJoin = jest.fn();
+  const socketsLeave = jest.fn();
+  const serverEmit = jest.fn();
+  const serverIn = jest.fn();
+  const serverTo = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchSockets.mockResolvedValue([]);
+    mockPrismaService.groupMember.findMany.mockResolvedValue([]);
+    mockLoginSessions.isActive.mockResolvedValue(true);
+    mockEventLog.currentSeq.mockResolvedValue(0);
+    serverIn.mockReturnValue({ fetchSockets, socketsJoin, socketsLeave });
+    serverTo.mockReturnValue({ emit: serverEmit });
+    gateway.server = { in: serverIn, to: serverTo } as unknown as Server;
+  });
+
+  describe('authenticate', () => {
+    it('verifies the login cookie and joins the user and group rooms', async () => {
+      mockSecurityService.verifyAccessToken.mockResolvedValueOnce({
+        sub: 9,
+        userName: 'Ann',
+        email: 'ann@example.com',
+        timeZone: 'Asia/Taipei',
+        tokenUse: 'access',
+        sid: 3,
+      });
+      mockPrismaService.groupMember.findMany.mockResolvedValueOnce([
+        { groupId: 4 },
+        { groupId: 5 },
+      ]);
+      const client = createClient('theme=dark; grouptodo_login=jwt%3Dvalue');
+      client.data = {} as GatewaySocket['data'];
+
+      await gateway.authenticate(client);
+
+      expect(mockSecurityService.verifyAccessToken).toHaveBeenCalledWith(
+        'jwt=value',
+      );
+      expect(mockLoginSessions.isActive).toHaveBeenCalledWith(9, 3);
+      expect(client.data.user).toEqual({ ...user, sessionId: 3 });
+      expect(client.join).toHaveBeenCalledWith([
+        'user_9',
+        'session_3',
+        'group_4',
+        'group_5',
+      ]);
+    });
+
+    it('rejects a handshake without the login cookie', async () => {
+      await expect(
+        gateway.authenticate(createClient('theme=dark')),
+      ).rejects.toThrow();
+      expect(mockSecurityService.verifyAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token whose login session was revoked', async () => {
+      mockSecurityService.verifyAccessToken.mockResolvedValueOnce({
+        sub: 9,
+        email: 'ann@example.com',
+        timeZone: 'Asia/Taipei',
+        tokenUse: 'access',
+        sid: 3,
+      });
+      mockLoginSessions.isActive.mockResolvedValueOnce(false);
+      const client = createClient('grouptodo_login=jwt');
+
+      await expect(gateway.authenticate(client)).rejects.toThrow();
+      expect(client.join).not.toHaveBeenCalled();
+    });
+
+    it('rejects an invalid token', async () => {
+      mockSecurityService.verifyAccessToken.mockRejectedValueOnce(
+        AuthErrors.InvalidTokenError.access(),
+      );
+
+      await expect(
+        gateway.authenticate(createClient('grouptodo_login=bad')),
+      ).rejects.toBeInstanceOf(AuthErrors.InvalidTokenError);
+    });
+  });
+
+  describe('joinTask', () => {
+    it('joins group members and remembers the group', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValueOnce(groupTask);
+      mockPrismaService.groupMember.findUnique.mockResolvedValueOnce({
+        role: 'MEMBER',
+      });
+      const client = createClient();
+
+      await gateway.handleJoinRoom(client, '1');
+
+      expect(client.join).toHaveBeenCalledWith('task_1');
+      expect(client.data.groupIds).toEqual([4]);
+      expect(client.data.taskRooms).toEqual(['task_1']);
+    });
+
+    it('refuses users outside the group', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValueOnce(groupTask);
+      mockPrismaService.groupMember.findUnique.mockResolvedValueOnce(null);
+      const client = createClient();
+
+      await expect(gateway.handleJoinRoom(client, '1')).rejects.toBeInstanceOf(
+        WsException,
+      );
+      expect(client.join).not.toHaveBeenCalled();
+    });
+
+    it('refuses a null payload instead of crashing', async () => {
+      const client = createClient();
+
+      await expect(gateway.handleJoinRoom(client, null)).rejects.toBeInstanceOf(
+        WsException,
+      );
+      await expect(
+        gateway.handleJoinSubTask(client, null),
+      ).rejects.toBeInstanceOf(WsException);
+      expect(client.join).not.toHaveBeenCalled();
+    });
+
+    it('refuses a sub-task of another task', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValueOnce({
+        ...groupTask,
+        groupId: null,
+        ownerId: 9,
+      });
+      mockPrismaService.subTask.findFirst.mockResolvedValueOnce(null);
+      const client = createClient();
+
+      await expect(
+        gateway.handleJoinSubTask(client, { taskId: '1', subTaskId: '7' }),
+      ).rejects.toBeInstanceOf(WsException);
+      expect(mockPrismaService.subTask.findFirst).toHaveBeenCalledWith({
+        where: { id: 7, taskId: 1 },
+        select: { id: true },
+      });
+    });
+  });
+
+  describe('typing', () => {
+    it('stamps the server-known user name', () => {
+      const client = createClient();
+      client.rooms.add('task_1');
+
+      gateway.heandleTyping(client, {
+        taskId: '1',
+        userName: 'Mallory',
+      } as { taskId: string });
+
+      expect(client.to).toHaveBeenCalledWith('task_1');
+      expect(client.emitToRoom).toHaveBeenCalledWith('userTyping', {
+        userName: 'Ann',
+      });
+    });
+
+    it('ignores a null payload', () => {
+      const client = createClient();
+
+      expect(() => gateway.heandleTyping(client, null)).not.toThrow();
+      expect(() => gateway.handleSubTaskTyping(client, null)).not.toThrow();
+      expect(client.to).not.toHaveBeenCalled();
+    });
+
+    it('ignores rooms the client has not joined', () => {
+      const client = createClient();
+
+      gateway.heandleTyping(client, { taskId: '2' });
+
+      expect(client.to).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeGroupAccess', () => {
+    it('disconnects only sockets that joined rooms of the group', async () => {
+      const inGroup = {
+        data: { groupIds: [4] },
+        emit: jest.fn(),
+        disconnect: jest.fn(),
+      };
+      const elsewhere = {
+        data: { groupIds: [5] },
+        emit: jest.fn(),
+        disconnect: jest.fn(),
+      };
+      fetchSockets.mockResolvedValue([inGroup, elsewhere]);
+
+      await gateway.revokeGroupAccess(4, 9);
+
+      expect(serverIn).toHaveBeenCalledWith('user_9');
+      expect(socketsLeave).toHaveBeenCalledWith('group_4');
+      expect(inGroup.emit).toHaveBeenCalledWith('accessRevoked', {
+        groupId: 4,
+      });
+      expect(inGroup.disconnect).toHaveBeenCalledWith(true);
+      expect(elsewhere.disconnect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('group and user channels', () => {
+    it('sends group task changes to the group room', () => {
+      gateway.broadcastTaskListChange(
+        { id: 1, title: 'Plan', groupId: 4, ownerId: 2 },
+        { type: 'TASK_CLOSED', userName: 'Ann', actorId: 9 },
+      );
+
+      expect(serverTo).toHaveBeenCalledWith('group_4');
+      expect(serverEmit).toHaveBeenCalledWith('taskListChanged', {
+        type: 'TASK_CLOSED',
+        userName: 'Ann',
+        actorId: 9,
+        taskId: 1,
+        title: 'Plan',
+        groupId: 4,
+      });
+    });
+
+    it('sends personal task changes to the owner only', () => {
+      gateway.broadcastTaskListChange(
+        { id: 1, title: 'Plan', groupId: null, ownerId: 9 },
+        { type: 'TASK_CREATED', userName: 'Ann', actorId: 9 },
+      );
+
+      expect(serverTo).toHaveBeenCalledWith('user_9');
+    });
+
+    it('moves the open sockets of a new member into the group room', () => {
+      gateway.joinGroupRoom(4, 7);
+
+      expect(serverIn).toHaveBeenCalledWith('user_7');
+      expect(socketsJoin).toHaveBeenCalledWith('group_4');
+    });
+  });
+
+  describe('sequenced events', () => {
+    const joinAsMember = () => {
+      mockPrismaService.task.findUnique.mockResolvedValueOnce(groupTask);
+      mockPrismaService.groupMember.findUnique.mockResolvedValueOnce({
+        role: 'MEMBER',
+      });
+    };
+
+    it('stamps task updates with the room sequence', async () => {
+      mockEventLog.append.mockResolvedValueOnce(12);
+
+      await gateway.broadcastTaskUpdate(1, { type: 'UPDATED', actorId: 9 });
+
+      expect(mockEventLog.append).toHaveBeenCalledWith(
+        'task_1',
+        'taskUpdated',
+        { type: 'UPDATED', actorId: 9 },
+      );
+      expect(serverEmit).toHaveBeenCalledWith('taskUpdated', {
+        type: 'UPDATED',
+        actorId: 9,
+        room: 'task_1',
+        seq: 12,
+      });
+    });
+
+    it('still broadcasts when the event cannot be logged', async () => {
+      mockEventLog.append.mockRejectedValueOnce(new Error('db down'));
+
+      await gateway.broadcastSubTaskUpdate(1, 7, { type: 'UPDATED' });
+
+      expect(serverEmit).toHaveBeenCalledWith('subTaskUpdated', {
+        type: 'UPDATED',
+        room: 'task_1_subTask_7',
+        seq: undefined,
+      });
+    });
+
+    it('tells a first-time joiner the current sequence', async () => {
+      joinAsMember();
+      mockEventLog.currentSeq.mockResolvedValueOnce(5);
+      const client = createClient();
+
+      await gateway.handleJoinRoom(client, '1');
+
+      expect(mockEventLog.since).not.toHaveBeenCalled();
+      expect(client.emit).toHaveBeenCalledWith('joined', {
+        room: 'task_1',
+        seq: 5,
+      });
+    });
+
+    it('replays the missed events to a reconnecting client', async () => {
+      joinAsMember();
+      mockEventLog.since.mockResolvedValueOnce({
+        resync: false,
+        seq: 5,
+        events: [
+          { seq: 4, event: 'taskUpdated', payload: { type: 'UPDATED' } },
+          { seq: 5, event: 'taskUpdated', payload: { type: 'CLOSED' } },
+        ],
+      });
+      const client = createClient();
+
+      await gateway.handleJoinRoom(client, { taskId: '1', lastSeq: 3 });
+
+      expect(mockEventLog.since).toHaveBeenCalledWith('task_1', 3);
+      expect(client.emit).toHaveBeenCalledWith('taskUpdated', {
+        type: 'UPDATED',
+        room: 'task_1',
+        seq: 4,
+        replayed: true,
+      });
+      expect(client.emit).toHaveBeenCalledWith('taskUpdated', {
+        type: 'CLOSED',
+        room: 'task_1',
+        seq: 5,
+        replayed: true,
+      });
+      expect(client.emit).toHaveBeenLastCalledWith('joined', {
+        room: 'task_1',
+        seq: 5,
+      });
+    });
+
+    it('asks for a resync when the gap is too old', async () => {
+      joinAsMember();
+      mockEventLog.since.mockResolvedValueOnce({ resync: true, seq: 900 });
+      const client = createClient();
+
+      await gateway.handleJoinRoom(client, { taskId: '1', lastSeq: 3 });
+
+      expect(client.emit).toHaveBeenCalledWith('resyncRequired', {
+        room: 'task_1',
+        seq: 900,
+      });
+      expect(client.emit).not.toHaveBeenCalledWith(
+        'taskUpdated',
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('presence', () => {
+    const socketOf = (
+      userId: number,
+      userName: string,
+      lastSeenAt: number,
+    ) => ({
+      data: { user: { ...user, userId, userName }, lastSeenAt },
+    });
+
+    it('counts several tabs of one user as one viewer', () => {
+      const viewers = summarizePresence([
+        socketOf(9, 'Ann', Date.parse('2026-10-19T04:00:00Z')),
+        socketOf(9, 'Ann', Date.parse('2026-10-19T04:05:00Z')),
+        socketOf(7, 'Bob', Date.parse('2026-10-19T04:01:00Z')),
+      ]);
+
+      expect(viewers).toEqual([
+        {
+          userId: 9,
+          userName: 'Ann',
+          sockets: 2,
+          lastSeenAt: '2026-10-19T04:05:00.000Z',
+        },
+        {
+          userId: 7,
+          userName: 'Bob',
+          sockets: 1,
+          lastSeenAt: '2026-10-19T04:01:00.000Z',
+        },
+      ]);
+    });
+
+    it('sends a snapshot to the joiner and announces them to the room', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValueOnce(groupTask);
+      mockPrismaService.groupMember.findUnique.mockResolvedValueOnce({
+        role: 'MEMBER',
+      });
+      fetchSockets.mockResolvedValueOnce([
+        socketOf(9, 'Ann', 0),
+        socketOf(7, 'Bob', 0),
+      ]);
+      const client = createClient();
+
+      await gateway.handleJoinRoom(client, '1');
+
+      expect(serverIn).toHaveBeenCalledWith('task_1');
+      expect(client.emit).toHaveBeenCalledWith('presence', {
+        room: 'task_1',
+        viewers: [
+          expect.objectContaining({ userId: 9 }),
+          expect.objectContaining({ userId: 7 }),
+        ],
+      });
+      expect(client.to).toHaveBeenCalledWith('task_1');
+      expect(client.emitToRoom).toHaveBeenCalledWith('presenceJoined', {
+        room: 'task_1',
+        viewer: expect.objectContaining({ userId: 9, sockets: 1 }),
+      });
+    });
+
+    it('reports the remaining tabs when a socket leaves', async () => {
+      fetchSockets.mockResolvedValueOnce([socketOf(9, 'Ann', 0)]);
+      fetchSockets.mockResolvedValueOnce([]);
+      const client = createClient();
+      client.data.taskRooms = ['task_1', 'task_1_subTask_7'];
+
+      await gateway.handleDisconnect(client);
+
+      expect(serverEmit).toHaveBeenNthCalledWith(1, 'presenceLeft', {
+        room: 'task_1',
+        userId: 9,
+        sockets: 1,
+      });
+      expect(serverEmit).toHaveBeenNthCalledWith(2, 'presenceLeft', {
+        room: 'task_1_subTask_7',
+        userId: 9,
+        sockets: 0,
+      });
+    });
+  });
+});
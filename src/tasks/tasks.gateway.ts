@@ -4,93 +4,411 @@ import {
   SubscribeMessage,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
+  WsException,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SecurityService } from 'src/security/security.service';
+import { LoginSessionsService } from 'src/auth/login-sessions.service';
+import { CurrentUser } from 'src/common/types/current-user';
+import { resolveTaskAccess } from './guard/task-member.guard';
+import { TaskEventLogService } from './services/task-event-log.service';
+import {
+  GroupMemberEventType,
+  PresenceViewer,
+  TaskListEventType,
+  TaskListTarget,
+} from './types/tasks';
+
+// socket.data 會經過 cluster adapter 序列化（fetchSockets），只放 JSON 能表示的值
+interface SocketData {
+  user: CurrentUser;
+  // 透過 joinTask / joinSubTask 進過哪些群組的房間，踢出群組時用來斷線
+  groupIds: number[];
+  // 加入過的任務房間，斷線時用來更新 presence
+  taskRooms: string[];
+  lastSeenAt: number;
+}
+
+type AuthedSocket = Socket<any, any, any, SocketData>;
+
+// 重連時帶上最後收到的序號（沒有就是第一次加入）
+type TaskJoinPayload = string | { taskId: string; lastSeq?: number | null };
+// 以下的 payload 都是 client 送來的，可能是 null，取值前要先檢查
+type TypingPayload = { taskId: string } | null;
+type SubTaskPayload = { taskId: string; subTaskId: string } | null;
+
+// 握手沒有經過 cookie-parser，自己從 header 取登入 cookie
+function readCookie(header: string | undefined, name: string): string | null {
+  for (const part of (header ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+export function summarizePresence(
+  sockets: { data: Partial<SocketData> }[],
+): PresenceViewer[] {
+  const viewers = new Map<number, PresenceViewer>();
 
-@WebSocketGateway({
-  cors: {
-    origin: '*',
-  },
-})
-export class TasksGateWay implements OnGatewayConnection, OnGatewayDisconnect {
+  for (const { data } of sockets) {
+    if (!data.user) continue;
+    const lastSeenAt = new Date(data.lastSeenAt ?? 0).toISOString();
+    const viewer = viewers.get(data.user.userId);
+
+    if (viewer) {
+      viewer.sockets++;
+      if (lastSeenAt > viewer.lastSeenAt) viewer.lastSeenAt = lastSeenAt;
+    } else {
+      viewers.set(data.user.userId, {
+        userId: data.user.userId,
+        userName: data.user.userName,
+        sockets: 1,
+        lastSeenAt,
+      });
+    }
+  }
+
+  return [...viewers.values()];
+}
+
+// 同源連線不需要 CORS；登入 cookie 是 SameSite=lax，跨站也帶不過來
+@WebSocketGateway()
+export class TasksGateWay
+  implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
+{
   @WebSocketServer()
   server: Server;
   private logger: Logger = new Logger('TasksGateway');
 
-  handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly securityService: SecurityService,
+    private readonly loginSessions: LoginSessionsService,
+    private readonly eventLog: TaskEventLogService,
+  ) {}
+
+  afterInit(server: Server) {
+    // 所有 gateway 共用同一個 server：沒有有效登入 cookie 的連線一律拒絕
+    server.use((socket: AuthedSocket, next) => {
+      void this.authenticate(socket)
+        .then(() => next())
+        .catch(() => next(new Error('Unauthorized')));
+    });
   }
 
-  handleDisconnect(client: Socket) {
+  async authenticate(client: AuthedSocket): Promise<void> {
+    const token = readCookie(
+      client.handshake.headers.cookie,
+      'grouptodo_login',
+    );
+    if (!token) throw new Error('Missing login cookie');
+
+    const { sub, userName, email, timeZone, sid } =
+      await this.securityService.verifyAccessToken(token);
+    // access token 在效期內仍然有效，裝置被撤銷後要在這裡擋掉
+    if (!sid || !(await this.loginSessions.isActive(sub, sid))) {
+      throw new Error('Login session revoked');
+    }
+    client.data.user = {
+      userId: sub,
+      userName: userName ?? email,
+      email,
+      timeZone,
+      sessionId: sid,
+    };
+    client.data.groupIds = [];
+    client.data.taskRooms = [];
+    client.data.lastSeenAt = Date.now();
+
+    // 自己的 user_ 房間與所屬群組的 group_ 房間：看板與通知的即時更新
+    // session_ 房間：撤銷這個裝置時用來斷線（LoginSessionsGateway）
+    const memberships = await this.prismaService.groupMember.findMany({
+      where: { userId: sub },
+      select: { groupId: true },
+    });
+    await client.join([
+      `user_${sub}`,
+      `session_${sid}`,
+      ...memberships.map((m) => `group_${m.groupId}`),
+    ]);
+  }
+
+  handleConnection(client: AuthedSocket) {
+    this.logger.log(
+      `Client connected: ${client.id} (user ${client.data.user?.userId})`,
+    );
+  }
+
+  async handleDisconnect(client: AuthedSocket) {
     this.logger.log(`Client disconnected: ${client.id}`);
+
+    // 斷線時 socket 已經離開所有房間，剩下的分頁數為 0 才算真的離開
+    const userId = client.data.user?.userId;
+    for (const room of client.data.taskRooms ?? []) {
+      const viewers = await this.getPresence(room);
+      const me = viewers.find((v) => v.userId === userId);
+      this.server
+        .to(room)
+        .emit('presenceLeft', { room, userId, sockets: me?.sockets ?? 0 });
+    }
   }
 
   @SubscribeMessage('joinTask')
-  handleJoinRoom(client: Socket, taskId: string) {
-    const roomName = `task_${taskId}`;
-    client.join(roomName);
+  async handleJoinRoom(client: AuthedSocket, payload: TaskJoinPayload | null) {
+    const { taskId, lastSeq } =
+      payload !== null && typeof payload === 'object'
+        ? payload
+        : { taskId: payload, lastSeq: null };
+    await this.authorize(client, Number(taskId));
+
+    const roomName = `task_${Number(taskId)}`;
+    await this.joinWithPresence(client, roomName);
     this.logger.log(`Client ${client.id} joined room: ${roomName}`);
 
-    client.emit('joined', { room: roomName });
+    const seq = await this.replay(client, roomName, lastSeq);
+    client.emit('joined', { room: roomName, seq });
   }
 
-  broadcastTaskUpdate(taskId: number, data: any) {
-    this.server.to(`task_${taskId}`).emit('taskUpdated', data);
+  async broadcastTaskUpdate(taskId: number, data: Record<string, unknown>) {
+    await this.emitSequenced(`task_${taskId}`, 'taskUpdated', data);
   }
 
   @SubscribeMessage('joinSubTask')
-  handleJoinSubTask(client: Socket, data: { taskId: any; subTaskId: any }) {
-    const room = `task_${data.taskId}_subTask_${data.subTaskId}`;
+  async handleJoinSubTask(
+    client: AuthedSocket,
+    data: { taskId: any; subTaskId: any; lastSeq?: number | null } | null,
+  ) {
+    // 沒帶 payload 時 taskId 是 NaN，authorize 會當作找不到任務
+    const taskId = Number(data?.taskId);
+    const subTaskId = Number(data?.subTaskId);
+    await this.authorize(client, taskId);
 
-    client.join(room);
+    const subTask = await this.prismaService.subTask.findFirst({
+      where: { id: subTaskId, taskId },
+      select: { id: true },
+    });
+    if (!subTask) throw new WsException('Sub-task not found');
 
-    console.log(`Client ${client.id} joined room: ${room}`);
+    const room = `task_${taskId}_subTask_${subTaskId}`;
+    await this.joinWithPresence(client, room);
+    this.logger.log(`Client ${client.id} joined room: ${room}`);
+
+    const seq = await this.replay(client, room, data?.lastSeq);
+    client.emit('joined', { room, seq });
+  }
+
+  async broadcastSubTaskUpdate(
+    taskId: number,
+    subTaskId: number,
+    data: Record<string, unknown>,
+  ) {
+    await this.emitSequenced(
+      `task_${taskId}_subTask_${subTaskId}`,
+      'subTaskUpdated',
+      data,
+    );
   }
 
-  broadcastSubTaskUpdate(taskId: number, subTaskId: number, data: any) {
-    console.log('Received data:', data);
-    this.server
-      .to(`task_${taskId}_subTask_${subTaskId}`)
-      .emit('subTaskUpdated', data);
+  // 留言：子任務的留言只送到子任務房間
+  broadcastComment(taskId: number, subTaskId: number | null, data: any) {
+    const room = subTaskId
+      ? `task_${taskId}_subTask_${subTaskId}`
+      : `task_${taskId}`;
+    this.server.to(room).emit('commentChanged', data);
+  }
+
+  broadcastTaskListChange(
+    target: TaskListTarget,
+    data: {
+      type: TaskListEventType;
+      userName: string | undefined;
+      actorId: number;
+    },
+  ) {
+    const room = target.groupId
+      ? `group_${target.groupId}`
+      : `user_${target.ownerId}`;
+    this.server.to(room).emit('taskListChanged', {
+      ...data,
+      taskId: target.id,
+      title: target.title,
+      groupId: target.groupId,
+    });
   }
 
+  broadcastMemberChange(
+    groupId: number,
+    data: { type: GroupMemberEventType; userId: number; actorId: number },
+  ) {
+    this.server.to(`group_${groupId}`).emit('memberChanged', {
+      ...data,
+      groupId,
+    });
+  }
+
+  // 新成員已連線的分頁也要開始收這個群組的事件
+  joinGroupRoom(groupId: number, userId: number) {
+    this.server.in(`user_${userId}`).socketsJoin(`group_${groupId}`);
+  }
+
+  async revokeGroupAccess(groupId: number, userId: number): Promise<void> {
+    /**
+     * Disconnects a user's sockets after they lost access to a group.
+     * * @description
+     * Called after `kickOutMember` / `leaveGroup`. Every socket of the user leaves the
+     * `group_` room; sockets that joined a task room of that group also get an
+     * `accessRevoked` event and are disconnected, since a server-side disconnect is not
+     * retried by the client.
+     */
+    this.server.in(`user_${userId}`).socketsLeave(`group_${groupId}`);
+
+    const sockets = await this.server.in(`user_${userId}`).fetchSockets();
+
+    for (const socket of sockets) {
+      const data = socket.data as SocketData;
+      if (!data.groupIds?.includes(groupId)) continue;
+
+      socket.emit('accessRevoked', { groupId });
+      socket.disconnect(true);
+    }
+  }
+
+  // 打字提示只轉發到自己已加入的房間，名字用伺服器端的登入資料
   @SubscribeMessage('typing')
-  heandleTyping(client: Socket, payload: { taskId: string; userName: string }) {
-    client.to(`task_${payload.taskId}`).emit('userTyping', {
-      userName: payload.userName,
+  heandleTyping(client: AuthedSocket, payload: TypingPayload) {
+    const room = `task_${Number(payload?.taskId)}`;
+    if (!client.rooms.has(room)) return;
+
+    client.data.lastSeenAt = Date.now();
+    client.to(room).emit('userTyping', {
+      userName: client.data.user.userName,
     });
   }
 
   @SubscribeMessage('stopTyping')
-  handleStopTyping(
-    client: Socket,
-    payload: { taskId: string; userName: string },
-  ) {
+  handleStopTyping(client: AuthedSocket, payload: TypingPayload) {
+    const room = `task_${Number(payload?.taskId)}`;
+    if (!client.rooms.has(room)) return;
+
     client
-      .to(`task_${payload.taskId}`)
-      .emit('userStopTyping', { userName: payload.userName });
+      .to(room)
+      .emit('userStopTyping', { userName: client.data.user.userName });
   }
 
   // --- 子任務打字提示 ---
   @SubscribeMessage('subTyping')
-  handleSubTaskTyping(
-    client: Socket,
-    payload: { taskId: string; subTaskId: string; userName: string },
-  ) {
-    // 🚀 確保房間字串與 joinSubTask 時一致
-    const room = `task_${payload.taskId}_subTask_${payload.subTaskId}`;
+  handleSubTaskTyping(client: AuthedSocket, payload: SubTaskPayload) {
+    // 🚀 確保房間字串與 joinSubTask 時一致；沒帶 payload 時是 task_NaN，不會在房間裡
+    const room = `task_${Number(payload?.taskId)}_subTask_${Number(payload?.subTaskId)}`;
+    if (!client.rooms.has(room)) return;
+
+    client.data.lastSeenAt = Date.now();
     client.to(room).emit('subUserTyping', {
-      userName: payload.userName,
+      userName: client.data.user.userName,
     });
   }
 
   @SubscribeMessage('stopSubTyping')
-  handleSubTaskStopTyping(
-    client: Socket,
-    payload: { taskId: string; subTaskId: string; userName: string },
-  ) {
-    const room = `task_${payload.taskId}_subTask_${payload.subTaskId}`;
+  handleSubTaskStopTyping(client: AuthedSocket, payload: SubTaskPayload) {
+    const room = `task_${Number(payload?.taskId)}_subTask_${Number(payload?.subTaskId)}`;
+    if (!client.rooms.has(room)) return;
+
     client.to(room).emit('subUserStopTyping');
   }
+
+  async getPresence(room: string): Promise<PresenceViewer[]> {
+    // 透過 adapter 查詢，多台實例時也包含其他實例上的連線
+    return summarizePresence(await this.server.in(room).fetchSockets());
+  }
+
+  private async emitSequenced(
+    room: string,
+    event: string,
+    data: Record<string, unknown>,
+  ) {
+    // 記錄失敗時照樣即時送出，只是這一筆沒有序號、重連時補不到
+    let seq: number | undefined;
+    try {
+      seq = await this.eventLog.append(room, event, data);
+    } catch (e) {
+      this.logger.error(
+        `Failed to log ${event} for ${room}`,
+        e instanceof Error ? e.stack : e,
+      );
+    }
+    this.server.to(room).emit(event, { ...data, room, seq });
+  }
+
+  private async replay(
+    client: AuthedSocket,
+    room: string,
+    lastSeq: number | null | undefined,
+  ): Promise<number> {
+    /**
+     * Sends a reconnecting socket the room events it missed.
+     * * @description
+     * 1. **First Join**: Without `lastSeq` nothing is replayed; the current sequence is
+     * returned so the client knows where it starts.
+     * 2. **Gap**: Missed events are re-sent one by one with their original event name,
+     * `seq` and `replayed: true`. The socket already joined the room, so an event may
+     * arrive both ways — the client drops any `seq` it has already seen.
+     * 3. **Too Old**: When the gap is no longer in the log the client gets
+     * `resyncRequired` and should reload its state.
+     * * @returns The latest sequence of the room.
+     */
+    if (typeof lastSeq !== 'number' || !Number.isInteger(lastSeq)) {
+      return this.eventLog.currentSeq(room);
+    }
+
+    const result = await this.eventLog.since(room, lastSeq);
+    if (result.resync) {
+      client.emit('resyncRequired', { room, seq: result.seq });
+      return result.seq;
+    }
+
+    for (const { event, payload, seq } of result.events) {
+      client.emit(event, { ...payload, room, seq, replayed: true });
+    }
+    return result.seq;
+  }
+
+  private async joinWithPresence(client: AuthedSocket, room: string) {
+    /**
+     * Joins a task / sub-task room and announces the viewer.
+     * * @description
+     * 1. **Snapshot**: The joining socket receives `presence` with every current viewer.
+     * 2. **Join Event**: Everyone else in the room receives `presenceJoined` with the
+     * viewer's updated entry; a second tab of the same user only bumps `sockets`.
+     */
+    await client.join(room);
+    if (!client.data.taskRooms.includes(room)) client.data.taskRooms.push(room);
+    client.data.lastSeenAt = Date.now();
+
+    const viewers = await this.getPresence(room);
+    const viewer = viewers.find((v) => v.userId === client.data.user.userId);
+
+    client.emit('presence', { room, viewers });
+    client.to(room).emit('presenceJoined', { room, viewer });
+  }
+
+  private async authorize(client: AuthedSocket, taskId: number) {
+    // 與 TaskMemberGuard 相同的規則：個人任務只有擁有者，群組任務要是成員
+    const access = Number.isInteger(taskId)
+      ? await resolveTaskAccess(
+          this.prismaService,
+          taskId,
+          client.data.user.userId,
+        )
+      : null;
+    if (!access?.isMember) throw new WsException('Task not found');
+
+    const { groupId } = access.task;
+    if (groupId && !client.data.groupIds.includes(groupId)) {
+      client.data.groupIds.push(groupId);
+    }
+  }
 }
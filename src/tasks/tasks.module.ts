@@ -1,6 +1,7 @@
-import { Module } from '@nestjs/common';
+import { forwardRef, Module } from '@nestjs/common';
 import { TasksService } from './services/tasks.service';
 import { TasksController } from './controllers/tasks.controller';
+import { TasksApiController } from './controllers/tasks.api.controller';
 import { PrismaModule } from 'src/prisma/prisma.module';
 import { UsersModule } from 'src/users/users.module';
 import { TasksPageController } from './controllers/tasks.page.controller';
@@ -11,7 +12,27 @@ import { TasksGateWay } from './tasks.gateway';
 import { SubTasksService } from './services/sub-tasks.service';
 import { TasksHelperService } from './services/helper.service';
 import { SubTasksController } from './controllers/sub-tasks.controller';
+import { SubTasksApiController } from './controllers/sub-tasks.api.controller';
 import { TaskAssignmentManager } from './services/task-assignment.service';
+import { TaskRecurrenceService } from './services/task-recurrence.service';
+import { TaskDependencyService } from './services/task-dependency.service';
+import { TaskCommentsService } from './services/task-comments.service';
+import { TaskCommentsController } from './controllers/task-comments.controller';
+import { TaskMentionService } from './services/task-mention.service';
+import { TaskActivityService } from './services/task-activity.service';
+import { TaskLabelService } from './services/task-label.service';
+import { TaskLabelsController } from './controllers/task-labels.controller';
+import { TaskSearchService } from './services/task-search.service';
+import { TaskCalendarService } from './services/task-calendar.service';
+import { TaskCalendarController } from './controllers/task-calendar.controller';
+import { TaskImportService } from './services/task-import.service';
+import { TaskImportController } from './controllers/task-import.controller';
+import { TaskTransferService } from './services/task-transfer.service';
+import { TaskTransferController } from './controllers/task-transfer.controller';
+import { TaskEventLogService } from './services/task-event-log.service';
+import { GroupsModule } from 'src/groups/groups.module';
+import { NotificationsModule } from 'src/notifications/notifications.module';
+import { AuthModule } from 'src/auth/auth.module';
 
 @Module({
   imports: [
@@ -20,6 +41,9 @@ import { TaskAssignmentManager } from './services/task-assignment.service';
     MailModule,
     ConfigModule.forRoot(),
     SecurityModule,
+    AuthModule,
+    NotificationsModule,
+    forwardRef(() => GroupsModule),
   ],
   providers: [
     TasksService,
@@ -27,8 +51,30 @@ import { TaskAssignmentManager } from './services/task-assignment.service';
     TasksGateWay,
     TasksHelperService,
     TaskAssignmentManager,
+    TaskRecurrenceService,
+    TaskDependencyService,
+    TaskCommentsService,
+    TaskMentionService,
+    TaskActivityService,
+    TaskLabelService,
+    TaskSearchService,
+    TaskCalendarService,
+    TaskImportService,
+    TaskTransferService,
+    TaskEventLogService,
   ],
-  controllers: [TasksController, SubTasksController, TasksPageController],
-  exports: [TasksService, TasksGateWay],
+  controllers: [
+    TasksController,
+    SubTasksController,
+    TaskCommentsController,
+    TaskLabelsController,
+    TaskCalendarController,
+    TaskImportController,
+    TaskTransferController,
+    TasksPageController,
+    TasksApiController,
+    SubTasksApiController,
+  ],
+  exports: [TasksService, TasksGateWay, TaskCalendarService],
 })
 export class TasksModule {}
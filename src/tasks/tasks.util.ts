@@ -1,9 +1,17 @@
 import {
   AssignmentStatus,
+  CompletionPolicy,
   GroupRole,
   Prisma,
+  RecurrenceFrequency,
 } from 'src/generated/prisma/client';
-import { OrderKey, TaskUpdatePayload } from './types/tasks';
+import {
+  ActivityValues,
+  MentionSegment,
+  OrderKey,
+  RecurrenceRule,
+  TaskUpdatePayload,
+} from './types/tasks';
 import { TaskStatus } from './types/enum';
 import { dayBoundsUtc } from 'src/common/helpers/util';
 import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
@@ -52,6 +60,42 @@ export const ASSIGNMENT_RULES: Record<AssignmentStatus, AssignmentStatus[]> = {
   [AssignmentStatus.COMPLETED]: [],
 };
 
+// 操作紀錄中 UPDATED 會比對的欄位（Task 與 SubTask 共用）
+export const TASK_ACTIVITY_FIELDS = [
+  'title',
+  'description',
+  'location',
+  'priority',
+  'allDay',
+  'dueAtUtc',
+  'allDayLocalDate',
+] as const;
+
+// 只有 Task 有的設定，更新時另外比對
+export const TASK_POLICY_ACTIVITY_FIELDS = [
+  'completionPolicy',
+  'autoCloseOnComplete',
+] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 名字前後不能緊接著字母或數字，避免 email 或 @Annabel 被當成 @Ann
+const MENTION_WORD_CHAR = /[\p{L}\p{N}_]/u;
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const SET_POS_LABELS: Record<number, string> = {
+  1: '1st',
+  2: '2nd',
+  3: '3rd',
+  4: '4th',
+  [-1]: 'last',
+};
+
+// All recurrence math works on local calendar dates stored as UTC midnight,
+// so no time zone can shift the day; the zone is only applied when building dueAtUtc.
+const parseLocalDate = (ymd: string) => new Date(`${ymd}T00:00:00.000Z`);
+const toLocalDateString = (d: Date) => d.toISOString().slice(0, 10);
+const addDays = (d: Date, days: number) =>
+  new Date(d.getTime() + days * DAY_MS);
+
 const TASK_STATUS_MAP: Record<TaskStatus, TaskStatus[]> = {
   [TaskStatus.OPEN]: [TaskStatus.CLOSED, TaskStatus.ARCHIVED],
   [TaskStatus.CLOSED]: [TaskStatus.OPEN, TaskStatus.ARCHIVED],
@@ -135,7 +179,10 @@ export class TasksUtils {
     };
 
     // 2. Retrieve state-specific data or fallback to an empty object
-    const effect = statusEffects[next] || {};
+    const effect =
+      next in statusEffects
+        ? statusEffects[next as keyof typeof statusEffects]
+        : {};
 
     return {
       status: next,
@@ -167,6 +214,17 @@ export class TasksUtils {
     return allowed?.includes(next) ?? false;
   }
 
+  static countOpenAssignees(
+    policy: CompletionPolicy,
+    openCount: number,
+    completedCount: number,
+  ): number {
+    // ANY_ASSIGNEE: one completed assignee is enough, the rest no longer block a normal close
+    return policy === CompletionPolicy.ANY_ASSIGNEE && completedCount > 0
+      ? 0
+      : openCount;
+  }
+
   static taskStatusCanTransition(from: TaskStatus, to: TaskStatus): boolean {
     if (from === to) return true; // Staying in the same status is usually okay
     const allowed = TASK_STATUS_MAP[from];
@@ -262,4 +320,296 @@ export class TasksUtils {
       allDayLocalDate: null,
     };
   }
+
+  /**
+   * Returns the local due date (YYYY-MM-DD) of a task or sub-task, or null if it has none.
+   * All-day items read `allDayLocalDate` directly, timed items are projected into `timeZone`.
+   */
+  static getLocalDueDate(
+    item: {
+      allDay: boolean;
+      allDayLocalDate: Date | null;
+      dueAtUtc: Date | null;
+    },
+    timeZone: string,
+  ): string | null {
+    if (item.allDay && item.allDayLocalDate) {
+      return toLocalDateString(item.allDayLocalDate);
+    }
+    if (item.dueAtUtc) {
+      return formatInTimeZone(item.dueAtUtc, timeZone, 'yyyy-MM-dd');
+    }
+    return null;
+  }
+
+  static shiftLocalDate(ymd: string, days: number): string {
+    return toLocalDateString(addDays(parseLocalDate(ymd), days));
+  }
+
+  static diffLocalDays(from: string, to: string): number {
+    return Math.round(
+      (parseLocalDate(to).getTime() - parseLocalDate(from).getTime()) / DAY_MS,
+    );
+  }
+
+  /**
+   * Builds a recurrence rule from the flat recurrence fields of the update payload.
+   * * @param payload - The update payload (`recurrenceFrequency`, `recurrenceWeekdays`, ...).
+   * @param anchorDate - The local date (YYYY-MM-DD) of the occurrence the rule starts from.
+   * Missing weekdays / month day / position fall back to this date.
+   * @returns The rule, or null when no frequency (or 'NONE') is given.
+   */
+  static buildRecurrenceRule(
+    payload: TaskUpdatePayload,
+    anchorDate: string,
+  ): RecurrenceRule | null {
+    const frequency = payload.recurrenceFrequency;
+    if (!frequency || frequency === 'NONE') return null;
+
+    const anchor = parseLocalDate(anchorDate);
+    const anchorWeekday = anchor.getUTCDay();
+
+    const rule: RecurrenceRule = {
+      frequency,
+      interval: payload.recurrenceInterval ?? 1,
+      byWeekday: [],
+      byMonthDay: null,
+      bySetPos: null,
+      untilDate: payload.recurrenceUntil
+        ? parseLocalDate(payload.recurrenceUntil)
+        : null,
+      count: payload.recurrenceCount ?? null,
+    };
+
+    if (frequency === RecurrenceFrequency.WEEKLY) {
+      const weekdays = payload.recurrenceWeekdays?.length
+        ? payload.recurrenceWeekdays
+        : [anchorWeekday];
+      rule.byWeekday = [...new Set(weekdays)].sort((a, b) => a - b);
+    }
+
+    if (frequency === RecurrenceFrequency.MONTHLY) {
+      if (payload.recurrenceMonthlyMode === 'NTH_WEEKDAY') {
+        rule.byWeekday = [payload.recurrenceWeekdays?.[0] ?? anchorWeekday];
+        rule.bySetPos =
+          payload.recurrenceSetPos ??
+          Math.min(Math.ceil(anchor.getUTCDate() / 7), 4);
+      } else {
+        rule.byMonthDay = payload.recurrenceMonthDay ?? anchor.getUTCDate();
+      }
+    }
+
+    return rule;
+  }
+
+  /**
+   * Computes the local date of the occurrence following `anchorDate`.
+   * * @param rule - The recurrence rule of the series.
+   * @param anchorDate - The scheduled local date (YYYY-MM-DD) of the current occurrence.
+   * @param anchorIndex - The 1-based position of the current occurrence in the series.
+   * @returns The next local date, or null when the series ended (`count` reached or past `untilDate`).
+   */
+  static nextOccurrenceDate(
+    rule: RecurrenceRule,
+    anchorDate: string,
+    anchorIndex: number,
+  ): string | null {
+    if (rule.count != null && anchorIndex >= rule.count) return null;
+
+    const anchor = parseLocalDate(anchorDate);
+    const interval = Math.max(1, rule.interval);
+
+    let next: Date | null = null;
+    switch (rule.frequency) {
+      case RecurrenceFrequency.DAILY:
+        next = addDays(anchor, interval);
+        break;
+      case RecurrenceFrequency.WEEKLY:
+        next = this.nextWeeklyDate(anchor, interval, rule.byWeekday);
+        break;
+      case RecurrenceFrequency.MONTHLY:
+        next = this.nextMonthlyDate(anchor, interval, rule);
+        break;
+    }
+
+    if (!next) return null;
+    if (rule.untilDate && next.getTime() > rule.untilDate.getTime()) {
+      return null;
+    }
+
+    return toLocalDateString(next);
+  }
+
+  private static nextWeeklyDate(
+    anchor: Date,
+    interval: number,
+    byWeekday: number[],
+  ): Date | null {
+    const weekdays = byWeekday.length ? byWeekday : [anchor.getUTCDay()];
+    // Weeks start on Monday (RRULE default WKST=MO)
+    const weekStart = (d: Date) => addDays(d, -((d.getUTCDay() + 6) % 7));
+    const anchorWeek = weekStart(anchor).getTime();
+
+    for (let i = 1; i <= 7 * (interval + 1); i++) {
+      const candidate = addDays(anchor, i);
+      const weeks = Math.round(
+        (weekStart(candidate).getTime() - anchorWeek) / (7 * DAY_MS),
+      );
+      if (weeks % interval === 0 && weekdays.includes(candidate.getUTCDay())) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  private static nextMonthlyDate(
+    anchor: Date,
+    interval: number,
+    rule: RecurrenceRule,
+  ): Date | null {
+    const year = anchor.getUTCFullYear();
+    const month = anchor.getUTCMonth();
+
+    // Also check the anchor's own month: after an "all future" edit the anchor
+    // may sit before this month's matching day.
+    for (const offset of [0, interval]) {
+      const candidate =
+        rule.bySetPos != null
+          ? this.nthWeekdayOfMonth(
+              year,
+              month + offset,
+              rule.byWeekday[0] ?? anchor.getUTCDay(),
+              rule.bySetPos,
+            )
+          : this.clampedDayOfMonth(
+              year,
+              month + offset,
+              rule.byMonthDay ?? anchor.getUTCDate(),
+            );
+
+      if (candidate.getTime() > anchor.getTime()) return candidate;
+    }
+    return null;
+  }
+
+  private static nthWeekdayOfMonth(
+    year: number,
+    month: number,
+    weekday: number,
+    setPos: number,
+  ): Date {
+    if (setPos < 0) {
+      const last = new Date(Date.UTC(year, month + 1, 0));
+      const back = (last.getUTCDay() - weekday + 7) % 7;
+      return addDays(last, -back);
+    }
+    const first = new Date(Date.UTC(year, month, 1));
+    const forward = (weekday - first.getUTCDay() + 7) % 7;
+    return addDays(first, forward + (setPos - 1) * 7);
+  }
+
+  private static clampedDayOfMonth(
+    year: number,
+    month: number,
+    day: number,
+  ): Date {
+    // Months shorter than `day` fall back to their last day (e.g. 31 -> Feb 28)
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(year, month, Math.min(day, daysInMonth)));
+  }
+
+  static describeRecurrence(rule: RecurrenceRule): string {
+    const units: Record<RecurrenceFrequency, string> = {
+      DAILY: 'day',
+      WEEKLY: 'week',
+      MONTHLY: 'month',
+    };
+    const unit = units[rule.frequency];
+    let label =
+      rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+    if (
+      rule.frequency === RecurrenceFrequency.WEEKLY &&
+      rule.byWeekday.length
+    ) {
+      label += ` on ${rule.byWeekday.map((d) => WEEKDAY_LABELS[d]).join(', ')}`;
+    }
+
+    if (rule.frequency === RecurrenceFrequency.MONTHLY) {
+      label +=
+        rule.bySetPos != null
+          ? ` on the ${SET_POS_LABELS[rule.bySetPos]} ${WEEKDAY_LABELS[rule.byWeekday[0]]}`
+          : ` on day ${rule.byMonthDay}`;
+    }
+
+    if (rule.untilDate) label += `, until ${toLocalDateString(rule.untilDate)}`;
+    if (rule.count) label += `, ${rule.count} times`;
+
+    return label;
+  }
+
+  static splitMentions(
+    text: string,
+    members: { id: number; name: string }[],
+  ): MentionSegment[] {
+    // Longest names first so that "@Ann Lee" wins over "@Ann"
+    const candidates = members
+      .filter((m) => m.name.trim())
+      .sort((a, b) => b.name.length - a.name.length);
+    const lower = text.toLowerCase();
+    const segments: MentionSegment[] = [];
+    let plain = '';
+    let i = 0;
+
+    while (i < text.length) {
+      if (text[i] === '@' && !MENTION_WORD_CHAR.test(text[i - 1] ?? '')) {
+        const hit = candidates.find((m) => {
+          const name = m.name.toLowerCase();
+          return (
+            lower.startsWith(name, i + 1) &&
+            !MENTION_WORD_CHAR.test(text[i + 1 + name.length] ?? '')
+          );
+        });
+
+        if (hit) {
+          if (plain) segments.push({ text: plain });
+          plain = '';
+          const end = i + 1 + hit.name.length;
+          segments.push({ text: text.slice(i, end), userId: hit.id });
+          i = end;
+          continue;
+        }
+      }
+      plain += text[i];
+      i++;
+    }
+
+    if (plain) segments.push({ text: plain });
+    return segments;
+  }
+
+  static diffActivityValues(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    keys: readonly string[],
+  ): { before: ActivityValues; after: ActivityValues } | null {
+    // Only keeps the fields that really changed; Dates are compared as ISO strings
+    const toValue = (v: unknown): string | number | boolean | null =>
+      v instanceof Date
+        ? v.toISOString()
+        : v === undefined
+          ? null
+          : (v as string | number | boolean | null);
+
+    const diff = { before: {} as ActivityValues, after: {} as ActivityValues };
+    for (const key of keys) {
+      const from = toValue(before[key]);
+      const to = toValue(after[key]);
+      if (from !== to) {
+        diff.before[key] = from;
+        diff.after[key] = to;
+      }
+    }
+    return Object.keys(diff.after).length ? diff : null;
+  }
 }
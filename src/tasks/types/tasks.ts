@@ -3,6 +3,12 @@ import {
   Task as TaskModel,
   SubTask as SubTaskModel,
   Task,
+  TaskRecurrence,
+  RecurrenceFrequency,
+  TaskActivityAction,
+  CompletionPolicy,
+  Label,
+  AssignmentStatus,
 } from 'src/generated/prisma/client';
 import { TaskStatus } from './enum';
 import { TaskPriority } from './enum';
@@ -19,9 +25,16 @@ export interface TasksAddPayload {
   dueTime: string | null;
   location: string | null;
   userId: number;
+  completionPolicy?: CompletionPolicy; // 只有群組任務會用到
+  autoCloseOnComplete?: boolean;
+  icalUid?: string | null; // 從 .ics 匯入時的 UID
 }
 
-export interface SubTaskAddPayload extends Omit<TasksAddPayload, 'userId'> {
+export interface SubTaskAddPayload
+  extends Omit<
+    TasksAddPayload,
+    'userId' | 'completionPolicy' | 'autoCloseOnComplete' | 'icalUid'
+  > {
   parentTaskId: number;
   actorId: number;
   updatedBy: string;
@@ -81,14 +94,133 @@ export interface TaskUpdatePayload {
   dueDate?: string | null;
   dueTime?: string | null;
   location?: string | null;
+
+  // 週期設定（只有 Task 有）
+  recurrenceScope?: RecurrenceScope;
+  recurrenceFrequency?: RecurrenceFrequency | 'NONE';
+  recurrenceInterval?: number;
+  recurrenceWeekdays?: number[];
+  recurrenceMonthlyMode?: MonthlyRecurrenceMode;
+  recurrenceMonthDay?: number;
+  recurrenceSetPos?: number;
+  recurrenceUntil?: string;
+  recurrenceCount?: number;
+
+  // 完成規則（只有 Task 有）
+  completionPolicy?: CompletionPolicy;
+  autoCloseOnComplete?: boolean;
+
+  emailMentions?: boolean; // 描述中新提到的成員是否也寄信
 }
 
+// THIS: 只改這一次；FUTURE: 這一次 + 系列範本與規則
+export type RecurrenceScope = 'THIS' | 'FUTURE';
+
+export type MonthlyRecurrenceMode = 'DAY_OF_MONTH' | 'NTH_WEEKDAY';
+
+export type RecurrenceRule = Pick<
+  TaskRecurrence,
+  | 'frequency'
+  | 'interval'
+  | 'byWeekday'
+  | 'byMonthDay'
+  | 'bySetPos'
+  | 'untilDate'
+  | 'count'
+>;
+
 export interface TaskCloseContext
   extends Pick<TaskContext, 'userId' | 'isAdminish' | 'isOwner'> {
   id: number;
   userName: string;
 }
 
+export type TaskDependencyContext = TaskCloseContext;
+
+export type DependencyTaskSummary = Pick<
+  Task,
+  'id' | 'title' | 'status' | 'priority'
+>;
+
+export interface TaskDependencyView {
+  blockers: DependencyTaskSummary[]; // Tasks this task is waiting on
+  dependents: DependencyTaskSummary[]; // Tasks waiting on this task
+  candidates: DependencyTaskSummary[]; // Tasks that can still be added as blockers
+}
+
+export type TaskCommentContext = TaskCloseContext;
+
+export interface CommentCreatePayload {
+  body: string;
+  subTaskId?: number; // 沒有 subTaskId 代表留言在主任務
+  parentId?: number; // 回覆的留言
+  emailMentions?: boolean;
+}
+
+export interface CommentThreadItem {
+  id: number;
+  taskId: number;
+  subTaskId: number | null;
+  parentId: number | null;
+  authorId: number | null;
+  authorName: string;
+  body: string | null; // null once deleted
+  isEdited: boolean;
+  isDeleted: boolean;
+  createdAt: Date;
+  createdLabel?: string;
+  bodySegments?: MentionSegment[];
+  replies: CommentThreadItem[];
+}
+
+export type CommentEventType =
+  | 'COMMENT_CREATED'
+  | 'COMMENT_UPDATED'
+  | 'COMMENT_DELETED';
+
+// 描述或留言的來源；subTaskId / commentId 皆為 null 代表主任務描述
+export interface MentionSource {
+  taskId: number;
+  subTaskId?: number | null;
+  commentId?: number | null;
+  actorId: number;
+  sendEmail?: boolean;
+}
+
+export interface MentionSegment {
+  text: string;
+  userId?: number; // Only set when the text is a mention of a current member
+}
+
+// 操作紀錄的欄位快照，日期一律存成 ISO 字串
+export type ActivityValues = Record<string, string | number | boolean | null>;
+
+export interface ActivityEntry {
+  taskId: number;
+  subTaskId?: number | null;
+  actorId: number | null;
+  action: TaskActivityAction;
+  targetUserId?: number | null; // 指派 / 指派狀態變更的對象
+  before?: ActivityValues | null;
+  after?: ActivityValues | null;
+  reason?: string | null;
+}
+
+export interface TaskActivityItem {
+  id: number;
+  action: TaskActivityAction;
+  subTaskId: number | null;
+  subTaskTitle: string | null;
+  actorName: string;
+  targetUserName: string | null;
+  before: ActivityValues | null;
+  after: ActivityValues | null;
+  reason: string | null;
+  summary: string;
+  createdAt: Date;
+  createdLabel: string;
+}
+
 // finish this
 export const taskWithAssigneesArgs = {
   include: {
@@ -164,6 +296,8 @@ export interface TaskWithAllDetails extends TaskModel {
   group?: {
     name: string;
   } | null;
+
+  recurrence?: TaskRecurrence | null;
 }
 
 export interface GroupMemberInfo {
@@ -190,6 +324,214 @@ export interface InternalAssignOptions {
   updatedBy?: string;
 }
 
+export interface SendBackAssignmentPayload {
+  id: number;
+  assigneeId: number;
+  actorId: number;
+  reason?: string;
+  updatedBy?: string;
+}
+
+export interface InternalSendBackOptions {
+  type: 'TASK' | 'SUBTASK';
+  targetId: number;
+  assigneeId: number;
+  actorId: number;
+  reason?: string;
+  updatedBy?: string;
+}
+
+// 標籤：群組任務用群組目錄，個人任務用 owner 自己的目錄
+export type LabelSummary = Pick<Label, 'id' | 'name' | 'color'>;
+
+export type LabelMatchMode = 'AND' | 'OR';
+
+export type LabelScope = Pick<Task, 'groupId' | 'ownerId'>;
+
+export interface LabelCreatePayload {
+  name: string;
+  color: string;
+  groupId: number | null;
+  actorId: number;
+}
+
+export type TaskLabelContext = TaskCloseContext;
+
+// 全文搜尋：主任務、子任務、留言各自是一種結果
+export type SearchHitKind = 'TASK' | 'SUBTASK' | 'COMMENT';
+
+export interface TaskSearchOptions {
+  q: string;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  dueFrom?: string; // YYYY-MM-DD，使用者時區
+  dueTo?: string;
+  groupId?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface TaskSearchHit {
+  kind: SearchHitKind;
+  taskId: number;
+  subTaskId: number | null;
+  commentId: number | null;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[]; // 描述 / 地點，或留言內容
+  status: TaskStatus;
+  priority: number;
+  groupId: number | null;
+  groupName: string | null;
+  dueLabel: string | null;
+  url: string;
+}
+
+// iCalendar 訂閱：groupId 為 null 代表個人 + 所有所屬群組
+export interface CalendarFeedSummary {
+  id: number;
+  groupId: number | null;
+  groupName: string | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface CalendarFeedItem
+  extends Pick<
+    Task,
+    | 'title'
+    | 'description'
+    | 'location'
+    | 'status'
+    | 'allDay'
+    | 'dueAtUtc'
+    | 'allDayLocalDate'
+    | 'sourceTimeZone'
+    | 'updatedAt'
+  > {
+  uid: string;
+  url: string;
+  isSubTask: boolean;
+  groupName: string | null;
+}
+
+// .ics 匯入：解析後的一行屬性，以及 VEVENT / VTODO 元件
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface ICalComponent {
+  type: string;
+  props: ICalProperty[];
+}
+
+export type ICalDateValue =
+  | { allDay: true; date: string } // YYYY-MM-DD
+  | { allDay: false; local: string; utc: boolean; tzid?: string }; // YYYY-MM-DDTHH:mm:ss
+
+export type IcsImportAction = 'CREATE' | 'UPDATE' | 'SKIP';
+
+export interface IcsImportEntry {
+  uid: string | null;
+  kind: 'VEVENT' | 'VTODO';
+  title: string;
+  description: string | null;
+  location: string | null;
+  allDay: boolean;
+  dueDate: string | null; // YYYY-MM-DD，匯入者的時區
+  dueTime: string | null; // HH:mm
+  cancelled: boolean;
+  action: IcsImportAction;
+  existingTaskId: number | null;
+  existingOwnerId: number | null; // UPDATE 時，既有任務的擁有者
+  skipReason: string | null;
+}
+
+// 預覽存在 session 裡，確認時再依最新的資料重新比對一次
+export interface IcsImportPreview {
+  groupId: number | null;
+  groupName: string | null;
+  fileName: string;
+  entries: IcsImportEntry[];
+}
+
+export interface IcsImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+// multer 解析後的上傳檔案，只用到這兩個欄位
+export interface UploadedTaskFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+// 匯出 / 匯入：JSON 是巢狀結構，CSV 一列是一個任務或子任務
+export type TaskTransferFormat = 'csv' | 'json';
+
+export interface TaskTransferItem {
+  title: string;
+  status: TaskStatus;
+  priority: number;
+  description: string | null;
+  location: string | null;
+  allDay: boolean;
+  dueDate: string | null; // YYYY-MM-DD，文件的 timeZone
+  dueTime: string | null; // HH:mm
+  assignees: { email: string; status: AssignmentStatus }[]; // 目前這一輪
+}
+
+export interface TaskTransferTask extends TaskTransferItem {
+  completionPolicy: CompletionPolicy;
+  autoCloseOnComplete: boolean;
+  subTasks: TaskTransferItem[];
+}
+
+export interface TaskTransferDocument {
+  format: 'group-todos.tasks';
+  version: 1;
+  exportedAt: string;
+  timeZone: string;
+  scope: { groupId: number | null; groupName: string | null };
+  tasks: TaskTransferTask[];
+}
+
+// 匯入時 CSV 與 JSON 都先攤平成這個形狀，欄位值交給 TasksAddDto / SubTasksAddDto 驗證
+export interface TaskTransferRow {
+  label: string; // 'Row 3'、'tasks[2].subTasks[0]'
+  type: 'TASK' | 'SUBTASK';
+  ref: string;
+  parentRef: string | null;
+  fields: Record<string, unknown>;
+  assignees: string[]; // emails
+  timeZone: string | null;
+}
+
+export interface TaskTransferRowResult {
+  label: string;
+  type: 'TASK' | 'SUBTASK';
+  title: string;
+  ok: boolean;
+  messages: string[]; // 失敗原因，或建立成功但指派失敗之類的提醒
+}
+
+export interface TaskTransferReport {
+  groupId: number | null;
+  groupName: string | null;
+  fileName: string;
+  error: string | null; // 整個檔案無法讀取時才有
+  created: number;
+  failed: number;
+  rows: TaskTransferRowResult[];
+}
+
 export interface ListTasksResult {
   items: (Task & { assignees: any[]; canClose: boolean })[];
   bounds: {
@@ -199,3 +541,43 @@ export interface ListTasksResult {
     todayDateOnlyUtc: Date;
   };
 }
+
+// 正在看某個任務 / 子任務頁面的人；同一人開多個分頁只算一筆
+export interface PresenceViewer {
+  userId: number;
+  userName: string;
+  sockets: number;
+  lastSeenAt: string; // ISO，最後一次加入或打字的時間
+}
+
+// 看板（tasks/home、groups/tasks-home）即時更新的事件
+export type TaskListEventType =
+  | 'TASK_CREATED'
+  | 'TASK_CLOSED'
+  | 'TASK_ARCHIVED'
+  | 'TASK_RESTORED'
+  | 'ASSIGNMENT_CHANGED';
+
+// 群組任務送到 group_ 房間，個人任務送到擁有者的 user_ 房間
+export interface TaskListTarget {
+  id: number;
+  title: string;
+  groupId: number | null;
+  ownerId?: number;
+}
+
+export type GroupMemberEventType =
+  | 'MEMBER_JOINED'
+  | 'MEMBER_LEFT'
+  | 'MEMBER_KICKED';
+
+// 重連時補發的房間事件；太舊（已被清掉）時只回 resync，讓頁面整個重新載入
+export interface LoggedRoomEvent {
+  seq: number;
+  event: string;
+  payload: Record<string, unknown>;
+}
+
+export type RoomReplay =
+  | { resync: false; seq: number; events: LoggedRoomEvent[] }
+  | { resync: true; seq: number };
@@ -6,6 +6,7 @@ type AppConfig = {
   TOKEN_EXPIRE_TIME: string; // e.g. "15m"
   COOKIE_SECRET: string;
   LOGIN_COOKIE_MAX_AGE: number; // ms
+  REFRESH_COOKIE_MAX_AGE: number; // ms
   RESET_PASSWORD_COOKIE_MAX_AGE: number; // ms
   TOKEN_HMAC_SECRET: string;
 };
@@ -16,6 +17,7 @@ const baseMap: AppConfig = {
   TOKEN_EXPIRE_TIME: '15m',
   COOKIE_SECRET: 'cookie-secret',
   LOGIN_COOKIE_MAX_AGE: 1_440_000,
+  REFRESH_COOKIE_MAX_AGE: 2_592_000_000,
   RESET_PASSWORD_COOKIE_MAX_AGE: 900_000,
   TOKEN_HMAC_SECRET: 'HMAC-secret',
 };
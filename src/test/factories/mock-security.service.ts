@@ -6,5 +6,6 @@ export const createMockSecurityService = () => ({
   safeEqualB64url: jest.fn(),
   signResetPasswordToken: jest.fn().mockResolvedValue('mock-reset-token'),
   signAccessToken: jest.fn().mockResolvedValue('mock-access-token'),
+  verifyAccessToken: jest.fn(),
   getCookieOptions: jest.fn(),
 });
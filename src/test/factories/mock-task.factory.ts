@@ -19,11 +19,16 @@ export function createMockTask(overrides: Partial<TaskModel> = {}): TaskModel {
     allDay: false,
     allDayLocalDate: null,
     sourceTimeZone: null,
+    icalUid: null,
     completionPolicy: CompletionPolicy.ALL_ASSIGNEES,
+    autoCloseOnComplete: false,
     closedAt: null,
     closedById: null,
     closedReason: null,
     closedWithOpenAssignees: false,
+    recurrenceId: null,
+    recurrenceIndex: null,
+    occurrenceDate: null,
     createdAt: new Date('2025-09-01T05:49:55.797Z'),
     updatedAt: new Date('2025-09-01T05:49:55.797Z'),
 
@@ -39,6 +39,11 @@ export function createMockUser(overrides?: Partial<UserModel>) {
     name: 'test',
     hash: 'hashed',
     timeZone: 'Asia/Taipei',
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    reminderOffsets: [1440],
+    dailyDigestHour: 8,
+    lastDigestOn: null,
     ...overrides,
   };
 }